@@ -62,6 +62,50 @@ export interface RemoveCustomStatusRequest {
   statusName: string;
 }
 
+export interface UpdatePageRequest {
+  /** The ID of the instance state to update the page for. */
+  stateId: string;
+  /**
+   * The page to create or update, matching the `UnitPage` schema of the contract.
+   * The page is identified by its name within the instance.
+   */
+  page?: { [key: string]: any } | undefined;
+}
+
+export interface RemovePageRequest {
+  /** The ID of the instance state to remove the page from. */
+  stateId: string;
+  /** The name of the page to remove. */
+  pageName: string;
+}
+
+export interface UpdateTerminalRequest {
+  /** The ID of the instance state to update the terminal for. */
+  stateId: string;
+  /**
+   * The terminal to create or update, matching the `UnitTerminal` schema of the contract.
+   * The terminal is identified by its name within the instance.
+   */
+  terminal?: { [key: string]: any } | undefined;
+}
+
+export interface RemoveTerminalRequest {
+  /** The ID of the instance state to remove the terminal from. */
+  stateId: string;
+  /** The name of the terminal to remove. */
+  terminalName: string;
+}
+
+export interface PublishEntitySnapshotsRequest {
+  /** The ID of the instance state to publish the entity snapshots for. */
+  stateId: string;
+  /**
+   * The entity values keyed by the names of the outputs of the unit.
+   * The values must match the types of the outputs as if they were returned by the unit.
+   */
+  outputs?: { [key: string]: any } | undefined;
+}
+
 function createBaseInstanceCustomStatus(): InstanceCustomStatus {
   return { name: "", meta: undefined, value: "", message: undefined, order: undefined };
 }
@@ -352,6 +396,414 @@ export const RemoveCustomStatusRequest: MessageFns<RemoveCustomStatusRequest> =
   },
 };
 
+function createBaseUpdatePageRequest(): UpdatePageRequest {
+  return { stateId: "", page: undefined };
+}
+
+export const UpdatePageRequest: MessageFns<UpdatePageRequest> = {
+  encode(message: UpdatePageRequest, writer: BinaryWriter = new BinaryWriter()): BinaryWriter {
+    if (message.stateId !== "") {
+      writer.uint32(10).string(message.stateId);
+    }
+    if (message.page !== undefined) {
+      Struct.encode(Struct.wrap(message.page), writer.uint32(18).fork()).join();
+    }
+    return writer;
+  },
+
+  decode(input: BinaryReader | Uint8Array, length?: number): UpdatePageRequest {
+    const reader = input instanceof BinaryReader ? input : new BinaryReader(input);
+    const end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseUpdatePageRequest();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1: {
+          if (tag !== 10) {
+            break;
+          }
+
+          message.stateId = reader.string();
+          continue;
+        }
+        case 2: {
+          if (tag !== 18) {
+            break;
+          }
+
+          message.page = Struct.unwrap(Struct.decode(reader, reader.uint32()));
+          continue;
+        }
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skip(tag & 7);
+    }
+    return message;
+  },
+
+  fromJSON(object: any): UpdatePageRequest {
+    return {
+      stateId: isSet(object.stateId)
+        ? globalThis.String(object.stateId)
+        : isSet(object.state_id)
+        ? globalThis.String(object.state_id)
+        : "",
+      page: isObject(object.page) ? object.page : undefined,
+    };
+  },
+
+  toJSON(message: UpdatePageRequest): unknown {
+    const obj: any = {};
+    if (message.stateId !== "") {
+      obj.stateId = message.stateId;
+    }
+    if (message.page !== undefined) {
+      obj.page = message.page;
+    }
+    return obj;
+  },
+
+  create(base?: DeepPartial<UpdatePageRequest>): UpdatePageRequest {
+    return UpdatePageRequest.fromPartial(base ?? {});
+  },
+  fromPartial(object: DeepPartial<UpdatePageRequest>): UpdatePageRequest {
+    const message = createBaseUpdatePageRequest();
+    message.stateId = object.stateId ?? "";
+    message.page = object.page ?? undefined;
+    return message;
+  },
+};
+
+function createBaseRemovePageRequest(): RemovePageRequest {
+  return { stateId: "", pageName: "" };
+}
+
+export const RemovePageRequest: MessageFns<RemovePageRequest> = {
+  encode(message: RemovePageRequest, writer: BinaryWriter = new BinaryWriter()): BinaryWriter {
+    if (message.stateId !== "") {
+      writer.uint32(10).string(message.stateId);
+    }
+    if (message.pageName !== "") {
+      writer.uint32(18).string(message.pageName);
+    }
+    return writer;
+  },
+
+  decode(input: BinaryReader | Uint8Array, length?: number): RemovePageRequest {
+    const reader = input instanceof BinaryReader ? input : new BinaryReader(input);
+    const end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseRemovePageRequest();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1: {
+          if (tag !== 10) {
+            break;
+          }
+
+          message.stateId = reader.string();
+          continue;
+        }
+        case 2: {
+          if (tag !== 18) {
+            break;
+          }
+
+          message.pageName = reader.string();
+          continue;
+        }
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skip(tag & 7);
+    }
+    return message;
+  },
+
+  fromJSON(object: any): RemovePageRequest {
+    return {
+      stateId: isSet(object.stateId)
+        ? globalThis.String(object.stateId)
+        : isSet(object.state_id)
+        ? globalThis.String(object.state_id)
+        : "",
+      pageName: isSet(object.pageName)
+        ? globalThis.String(object.pageName)
+        : isSet(object.page_name)
+        ? globalThis.String(object.page_name)
+        : "",
+    };
+  },
+
+  toJSON(message: RemovePageRequest): unknown {
+    const obj: any = {};
+    if (message.stateId !== "") {
+      obj.stateId = message.stateId;
+    }
+    if (message.pageName !== "") {
+      obj.pageName = message.pageName;
+    }
+    return obj;
+  },
+
+  create(base?: DeepPartial<RemovePageRequest>): RemovePageRequest {
+    return RemovePageRequest.fromPartial(base ?? {});
+  },
+  fromPartial(object: DeepPartial<RemovePageRequest>): RemovePageRequest {
+    const message = createBaseRemovePageRequest();
+    message.stateId = object.stateId ?? "";
+    message.pageName = object.pageName ?? "";
+    return message;
+  },
+};
+
+function createBaseUpdateTerminalRequest(): UpdateTerminalRequest {
+  return { stateId: "", terminal: undefined };
+}
+
+export const UpdateTerminalRequest: MessageFns<UpdateTerminalRequest> = {
+  encode(message: UpdateTerminalRequest, writer: BinaryWriter = new BinaryWriter()): BinaryWriter {
+    if (message.stateId !== "") {
+      writer.uint32(10).string(message.stateId);
+    }
+    if (message.terminal !== undefined) {
+      Struct.encode(Struct.wrap(message.terminal), writer.uint32(18).fork()).join();
+    }
+    return writer;
+  },
+
+  decode(input: BinaryReader | Uint8Array, length?: number): UpdateTerminalRequest {
+    const reader = input instanceof BinaryReader ? input : new BinaryReader(input);
+    const end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseUpdateTerminalRequest();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1: {
+          if (tag !== 10) {
+            break;
+          }
+
+          message.stateId = reader.string();
+          continue;
+        }
+        case 2: {
+          if (tag !== 18) {
+            break;
+          }
+
+          message.terminal = Struct.unwrap(Struct.decode(reader, reader.uint32()));
+          continue;
+        }
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skip(tag & 7);
+    }
+    return message;
+  },
+
+  fromJSON(object: any): UpdateTerminalRequest {
+    return {
+      stateId: isSet(object.stateId)
+        ? globalThis.String(object.stateId)
+        : isSet(object.state_id)
+        ? globalThis.String(object.state_id)
+        : "",
+      terminal: isObject(object.terminal) ? object.terminal : undefined,
+    };
+  },
+
+  toJSON(message: UpdateTerminalRequest): unknown {
+    const obj: any = {};
+    if (message.stateId !== "") {
+      obj.stateId = message.stateId;
+    }
+    if (message.terminal !== undefined) {
+      obj.terminal = message.terminal;
+    }
+    return obj;
+  },
+
+  create(base?: DeepPartial<UpdateTerminalRequest>): UpdateTerminalRequest {
+    return UpdateTerminalRequest.fromPartial(base ?? {});
+  },
+  fromPartial(object: DeepPartial<UpdateTerminalRequest>): UpdateTerminalRequest {
+    const message = createBaseUpdateTerminalRequest();
+    message.stateId = object.stateId ?? "";
+    message.terminal = object.terminal ?? undefined;
+    return message;
+  },
+};
+
+function createBaseRemoveTerminalRequest(): RemoveTerminalRequest {
+  return { stateId: "", terminalName: "" };
+}
+
+export const RemoveTerminalRequest: MessageFns<RemoveTerminalRequest> = {
+  encode(message: RemoveTerminalRequest, writer: BinaryWriter = new BinaryWriter()): BinaryWriter {
+    if (message.stateId !== "") {
+      writer.uint32(10).string(message.stateId);
+    }
+    if (message.terminalName !== "") {
+      writer.uint32(18).string(message.terminalName);
+    }
+    return writer;
+  },
+
+  decode(input: BinaryReader | Uint8Array, length?: number): RemoveTerminalRequest {
+    const reader = input instanceof BinaryReader ? input : new BinaryReader(input);
+    const end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseRemoveTerminalRequest();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1: {
+          if (tag !== 10) {
+            break;
+          }
+
+          message.stateId = reader.string();
+          continue;
+        }
+        case 2: {
+          if (tag !== 18) {
+            break;
+          }
+
+          message.terminalName = reader.string();
+          continue;
+        }
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skip(tag & 7);
+    }
+    return message;
+  },
+
+  fromJSON(object: any): RemoveTerminalRequest {
+    return {
+      stateId: isSet(object.stateId)
+        ? globalThis.String(object.stateId)
+        : isSet(object.state_id)
+        ? globalThis.String(object.state_id)
+        : "",
+      terminalName: isSet(object.terminalName)
+        ? globalThis.String(object.terminalName)
+        : isSet(object.terminal_name)
+        ? globalThis.String(object.terminal_name)
+        : "",
+    };
+  },
+
+  toJSON(message: RemoveTerminalRequest): unknown {
+    const obj: any = {};
+    if (message.stateId !== "") {
+      obj.stateId = message.stateId;
+    }
+    if (message.terminalName !== "") {
+      obj.terminalName = message.terminalName;
+    }
+    return obj;
+  },
+
+  create(base?: DeepPartial<RemoveTerminalRequest>): RemoveTerminalRequest {
+    return RemoveTerminalRequest.fromPartial(base ?? {});
+  },
+  fromPartial(object: DeepPartial<RemoveTerminalRequest>): RemoveTerminalRequest {
+    const message = createBaseRemoveTerminalRequest();
+    message.stateId = object.stateId ?? "";
+    message.terminalName = object.terminalName ?? "";
+    return message;
+  },
+};
+
+function createBasePublishEntitySnapshotsRequest(): PublishEntitySnapshotsRequest {
+  return { stateId: "", outputs: undefined };
+}
+
+export const PublishEntitySnapshotsRequest: MessageFns<PublishEntitySnapshotsRequest> = {
+  encode(message: PublishEntitySnapshotsRequest, writer: BinaryWriter = new BinaryWriter()): BinaryWriter {
+    if (message.stateId !== "") {
+      writer.uint32(10).string(message.stateId);
+    }
+    if (message.outputs !== undefined) {
+      Struct.encode(Struct.wrap(message.outputs), writer.uint32(18).fork()).join();
+    }
+    return writer;
+  },
+
+  decode(input: BinaryReader | Uint8Array, length?: number): PublishEntitySnapshotsRequest {
+    const reader = input instanceof BinaryReader ? input : new BinaryReader(input);
+    const end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBasePublishEntitySnapshotsRequest();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1: {
+          if (tag !== 10) {
+            break;
+          }
+
+          message.stateId = reader.string();
+          continue;
+        }
+        case 2: {
+          if (tag !== 18) {
+            break;
+          }
+
+          message.outputs = Struct.unwrap(Struct.decode(reader, reader.uint32()));
+          continue;
+        }
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skip(tag & 7);
+    }
+    return message;
+  },
+
+  fromJSON(object: any): PublishEntitySnapshotsRequest {
+    return {
+      stateId: isSet(object.stateId)
+        ? globalThis.String(object.stateId)
+        : isSet(object.state_id)
+        ? globalThis.String(object.state_id)
+        : "",
+      outputs: isObject(object.outputs) ? object.outputs : undefined,
+    };
+  },
+
+  toJSON(message: PublishEntitySnapshotsRequest): unknown {
+    const obj: any = {};
+    if (message.stateId !== "") {
+      obj.stateId = message.stateId;
+    }
+    if (message.outputs !== undefined) {
+      obj.outputs = message.outputs;
+    }
+    return obj;
+  },
+
+  create(base?: DeepPartial<PublishEntitySnapshotsRequest>): PublishEntitySnapshotsRequest {
+    return PublishEntitySnapshotsRequest.fromPartial(base ?? {});
+  },
+  fromPartial(object: DeepPartial<PublishEntitySnapshotsRequest>): PublishEntitySnapshotsRequest {
+    const message = createBasePublishEntitySnapshotsRequest();
+    message.stateId = object.stateId ?? "";
+    message.outputs = object.outputs ?? undefined;
+    return message;
+  },
+};
+
 export type InstanceServiceDefinition = typeof InstanceServiceDefinition;
 export const InstanceServiceDefinition = {
   name: "InstanceService",
@@ -375,6 +827,54 @@ export const InstanceServiceDefinition = {
       responseStream: false,
       options: {},
     },
+    /** Creates or updates a page of an instance. */
+    updatePage: {
+      name: "UpdatePage",
+      requestType: UpdatePageRequest,
+      requestStream: false,
+      responseType: Empty,
+      responseStream: false,
+      options: {},
+    },
+    /** Removes a page from an instance. */
+    removePage: {
+      name: "RemovePage",
+      requestType: RemovePageRequest,
+      requestStream: false,
+      responseType: Empty,
+      responseStream: false,
+      options: {},
+    },
+    /** Creates or updates a terminal of an instance. */
+    updateTerminal: {
+      name: "UpdateTerminal",
+      requestType: UpdateTerminalRequest,
+      requestStream: false,
+      responseType: Empty,
+      responseStream: false,
+      options: {},
+    },
+    /** Marks a terminal of an instance as unavailable. */
+    removeTerminal: {
+      name: "RemoveTerminal",
+      requestType: RemoveTerminalRequest,
+      requestStream: false,
+      responseType: Empty,
+      responseStream: false,
+      options: {},
+    },
+    /**
+     * Publishes the entity snapshots of the instance outputs outside of the operation.
+     * The snapshots are attributed to the last operation of the instance.
+     */
+    publishEntitySnapshots: {
+      name: "PublishEntitySnapshots",
+      requestType: PublishEntitySnapshotsRequest,
+      requestStream: false,
+      responseType: Empty,
+      responseStream: false,
+      options: {},
+    },
   },
 } as const;
 
@@ -389,6 +889,22 @@ export interface InstanceServiceImplementation<CallContextExt = {}> {
     request: RemoveCustomStatusRequest,
     context: CallContext & CallContextExt,
   ): Promise<DeepPartial<Empty>>;
+  /** Creates or updates a page of an instance. */
+  updatePage(request: UpdatePageRequest, context: CallContext & CallContextExt): Promise<DeepPartial<Empty>>;
+  /** Removes a page from an instance. */
+  removePage(request: RemovePageRequest, context: CallContext & CallContextExt): Promise<DeepPartial<Empty>>;
+  /** Creates or updates a terminal of an instance. */
+  updateTerminal(request: UpdateTerminalRequest, context: CallContext & CallContextExt): Promise<DeepPartial<Empty>>;
+  /** Marks a terminal of an instance as unavailable. */
+  removeTerminal(request: RemoveTerminalRequest, context: CallContext & CallContextExt): Promise<DeepPartial<Empty>>;
+  /**
+   * Publishes the entity snapshots of the instance outputs outside of the operation.
+   * The snapshots are attributed to the last operation of the instance.
+   */
+  publishEntitySnapshots(
+    request: PublishEntitySnapshotsRequest,
+    context: CallContext & CallContextExt,
+  ): Promise<DeepPartial<Empty>>;
 }
 
 export interface InstanceServiceClient<CallOptionsExt = {}> {
@@ -402,6 +918,22 @@ export interface InstanceServiceClient<CallOptionsExt = {}> {
     request: DeepPartial<RemoveCustomStatusRequest>,
     options?: CallOptions & CallOptionsExt,
   ): Promise<Empty>;
+  /** Creates or updates a page of an instance. */
+  updatePage(request: DeepPartial<UpdatePageRequest>, options?: CallOptions & CallOptionsExt): Promise<Empty>;
+  /** Removes a page from an instance. */
+  removePage(request: DeepPartial<RemovePageRequest>, options?: CallOptions & CallOptionsExt): Promise<Empty>;
+  /** Creates or updates a terminal of an instance. */
+  updateTerminal(request: DeepPartial<UpdateTerminalRequest>, options?: CallOptions & CallOptionsExt): Promise<Empty>;
+  /** Marks a terminal of an instance as unavailable. */
+  removeTerminal(request: DeepPartial<RemoveTerminalRequest>, options?: CallOptions & CallOptionsExt): Promise<Empty>;
+  /**
+   * Publishes the entity snapshots of the instance outputs outside of the operation.
+   * The snapshots are attributed to the last operation of the instance.
+   */
+  publishEntitySnapshots(
+    request: DeepPartial<PublishEntitySnapshotsRequest>,
+    options?: CallOptions & CallOptionsExt,
+  ): Promise<Empty>;
 }
 
 type Builtin = Date | Function | Uint8Array | string | number | boolean | undefined;
@@ -0,0 +1,255 @@
+// Code generated by protoc-gen-ts_proto. DO NOT EDIT.
+// versions:
+//   protoc-gen-ts_proto  v2.11.2
+//   protoc               v6.33.5
+// source: operation.v1.proto
+
+/* eslint-disable */
+import { BinaryReader, BinaryWriter } from "@bufbuild/protobuf/wire";
+import type { CallContext, CallOptions } from "nice-grpc-common";
+
+export const protobufPackage = "io.highstate.operation.v1";
+
+export interface RequestOperationRequest {
+  /** The type of the operation to request. Must be either "update" or "refresh". */
+  type: string;
+  /**
+   * The IDs of the instance states to request the operation for.
+   * The worker must be registered for all of them.
+   */
+  stateIds: string[];
+  /**
+   * The human-readable reason of the request.
+   * Will be displayed as the description of the operation.
+   */
+  reason?: string | undefined;
+}
+
+export interface RequestOperationResponse {
+  /** The ID of the launched operation. */
+  operationId: string;
+}
+
+function createBaseRequestOperationRequest(): RequestOperationRequest {
+  return { type: "", stateIds: [], reason: undefined };
+}
+
+export const RequestOperationRequest: MessageFns<RequestOperationRequest> = {
+  encode(message: RequestOperationRequest, writer: BinaryWriter = new BinaryWriter()): BinaryWriter {
+    if (message.type !== "") {
+      writer.uint32(10).string(message.type);
+    }
+    for (const v of message.stateIds) {
+      writer.uint32(18).string(v!);
+    }
+    if (message.reason !== undefined) {
+      writer.uint32(26).string(message.reason);
+    }
+    return writer;
+  },
+
+  decode(input: BinaryReader | Uint8Array, length?: number): RequestOperationRequest {
+    const reader = input instanceof BinaryReader ? input : new BinaryReader(input);
+    const end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseRequestOperationRequest();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1: {
+          if (tag !== 10) {
+            break;
+          }
+
+          message.type = reader.string();
+          continue;
+        }
+        case 2: {
+          if (tag !== 18) {
+            break;
+          }
+
+          message.stateIds.push(reader.string());
+          continue;
+        }
+        case 3: {
+          if (tag !== 26) {
+            break;
+          }
+
+          message.reason = reader.string();
+          continue;
+        }
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skip(tag & 7);
+    }
+    return message;
+  },
+
+  fromJSON(object: any): RequestOperationRequest {
+    return {
+      type: isSet(object.type) ? globalThis.String(object.type) : "",
+      stateIds: globalThis.Array.isArray(object?.stateIds)
+        ? object.stateIds.map((e: any) => globalThis.String(e))
+        : globalThis.Array.isArray(object?.state_ids)
+        ? object.state_ids.map((e: any) => globalThis.String(e))
+        : [],
+      reason: isSet(object.reason) ? globalThis.String(object.reason) : undefined,
+    };
+  },
+
+  toJSON(message: RequestOperationRequest): unknown {
+    const obj: any = {};
+    if (message.type !== "") {
+      obj.type = message.type;
+    }
+    if (message.stateIds?.length) {
+      obj.stateIds = message.stateIds;
+    }
+    if (message.reason !== undefined) {
+      obj.reason = message.reason;
+    }
+    return obj;
+  },
+
+  create(base?: DeepPartial<RequestOperationRequest>): RequestOperationRequest {
+    return RequestOperationRequest.fromPartial(base ?? {});
+  },
+  fromPartial(object: DeepPartial<RequestOperationRequest>): RequestOperationRequest {
+    const message = createBaseRequestOperationRequest();
+    message.type = object.type ?? "";
+    message.stateIds = object.stateIds?.map((e) => e) || [];
+    message.reason = object.reason ?? undefined;
+    return message;
+  },
+};
+
+function createBaseRequestOperationResponse(): RequestOperationResponse {
+  return { operationId: "" };
+}
+
+export const RequestOperationResponse: MessageFns<RequestOperationResponse> = {
+  encode(message: RequestOperationResponse, writer: BinaryWriter = new BinaryWriter()): BinaryWriter {
+    if (message.operationId !== "") {
+      writer.uint32(10).string(message.operationId);
+    }
+    return writer;
+  },
+
+  decode(input: BinaryReader | Uint8Array, length?: number): RequestOperationResponse {
+    const reader = input instanceof BinaryReader ? input : new BinaryReader(input);
+    const end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseRequestOperationResponse();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1: {
+          if (tag !== 10) {
+            break;
+          }
+
+          message.operationId = reader.string();
+          continue;
+        }
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skip(tag & 7);
+    }
+    return message;
+  },
+
+  fromJSON(object: any): RequestOperationResponse {
+    return {
+      operationId: isSet(object.operationId)
+        ? globalThis.String(object.operationId)
+        : isSet(object.operation_id)
+        ? globalThis.String(object.operation_id)
+        : "",
+    };
+  },
+
+  toJSON(message: RequestOperationResponse): unknown {
+    const obj: any = {};
+    if (message.operationId !== "") {
+      obj.operationId = message.operationId;
+    }
+    return obj;
+  },
+
+  create(base?: DeepPartial<RequestOperationResponse>): RequestOperationResponse {
+    return RequestOperationResponse.fromPartial(base ?? {});
+  },
+  fromPartial(object: DeepPartial<RequestOperationResponse>): RequestOperationResponse {
+    const message = createBaseRequestOperationResponse();
+    message.operationId = object.operationId ?? "";
+    return message;
+  },
+};
+
+export type OperationServiceDefinition = typeof OperationServiceDefinition;
+export const OperationServiceDefinition = {
+  name: "OperationService",
+  fullName: "io.highstate.operation.v1.OperationService",
+  methods: {
+    /**
+     * Requests the operation for the instances the worker is registered for.
+     * The service account of the worker must be allowed to request operations.
+     */
+    requestOperation: {
+      name: "RequestOperation",
+      requestType: RequestOperationRequest,
+      requestStream: false,
+      responseType: RequestOperationResponse,
+      responseStream: false,
+      options: {},
+    },
+  },
+} as const;
+
+export interface OperationServiceImplementation<CallContextExt = {}> {
+  /**
+   * Requests the operation for the instances the worker is registered for.
+   * The service account of the worker must be allowed to request operations.
+   */
+  requestOperation(
+    request: RequestOperationRequest,
+    context: CallContext & CallContextExt,
+  ): Promise<DeepPartial<RequestOperationResponse>>;
+}
+
+export interface OperationServiceClient<CallOptionsExt = {}> {
+  /**
+   * Requests the operation for the instances the worker is registered for.
+   * The service account of the worker must be allowed to request operations.
+   */
+  requestOperation(
+    request: DeepPartial<RequestOperationRequest>,
+    options?: CallOptions & CallOptionsExt,
+  ): Promise<RequestOperationResponse>;
+}
+
+type Builtin = Date | Function | Uint8Array | string | number | boolean | undefined;
+
+export type DeepPartial<T> = T extends Builtin ? T
+  : T extends globalThis.Array<infer U> ? globalThis.Array<DeepPartial<U>>
+  : T extends ReadonlyArray<infer U> ? ReadonlyArray<DeepPartial<U>>
+  : T extends { $case: string; value: unknown } ? { $case: T["$case"]; value?: DeepPartial<T["value"]> }
+  : T extends {} ? { [K in keyof T]?: DeepPartial<T[K]> }
+  : Partial<T>;
+
+function isSet(value: any): boolean {
+  return value !== null && value !== undefined;
+}
+
+export interface MessageFns<T> {
+  encode(message: T, writer?: BinaryWriter): BinaryWriter;
+  decode(input: BinaryReader | Uint8Array, length?: number): T;
+  fromJSON(object: any): T;
+  toJSON(message: T): unknown;
+  create(base?: DeepPartial<T>): T;
+  fromPartial(object: DeepPartial<T>): T;
+}
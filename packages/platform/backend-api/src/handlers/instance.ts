@@ -1,7 +1,7 @@
 import type { InstanceServiceImplementation } from "@highstate/api/instance.v1"
 import type { Services } from "@highstate/backend"
 import { instanceCustomStatusInputSchema } from "@highstate/backend/shared"
-import { z } from "@highstate/contract"
+import { unitPageSchema, unitTerminalSchema, z } from "@highstate/contract"
 import { authenticate, parseArgument } from "../shared"
 
 export function createInstanceService(services: Services): InstanceServiceImplementation {
@@ -9,11 +9,15 @@ export function createInstanceService(services: Services): InstanceServiceImplem
     async updateCustomStatus(request, context) {
       const [projectId, apiKey] = await authenticate(services, context)
 
-      // TODO: validate instance access
-
       const stateId = parseArgument(request, "stateId", z.cuid2())
       const customStatus = parseArgument(request, "status", instanceCustomStatusInputSchema)
 
+      await services.serviceAccountAccessService.ensureInstanceAccess(
+        projectId,
+        apiKey.serviceAccountId,
+        stateId,
+      )
+
       await services.instanceStateService.updateCustomStatus(
         projectId,
         stateId,
@@ -27,10 +31,14 @@ export function createInstanceService(services: Services): InstanceServiceImplem
     async removeCustomStatus(request, context) {
       const [projectId, apiKey] = await authenticate(services, context)
 
-      // TODO: validate instance access
-
       const stateId = parseArgument(request, "stateId", z.cuid2())
 
+      await services.serviceAccountAccessService.ensureInstanceAccess(
+        projectId,
+        apiKey.serviceAccountId,
+        stateId,
+      )
+
       await services.instanceStateService.removeCustomStatus(
         projectId,
         stateId,
@@ -40,5 +48,94 @@ export function createInstanceService(services: Services): InstanceServiceImplem
 
       return {}
     },
+
+    async updatePage(request, context) {
+      const [projectId, apiKey] = await authenticate(services, context)
+
+      const stateId = parseArgument(request, "stateId", z.cuid2())
+      const page = parseArgument(request, "page", unitPageSchema)
+
+      await services.serviceAccountAccessService.ensureInstanceAccess(
+        projectId,
+        apiKey.serviceAccountId,
+        stateId,
+      )
+
+      await services.instanceStateService.updateUnitPage(projectId, stateId, page)
+
+      return {}
+    },
+
+    async removePage(request, context) {
+      const [projectId, apiKey] = await authenticate(services, context)
+
+      const stateId = parseArgument(request, "stateId", z.cuid2())
+      const pageName = parseArgument(request, "pageName", z.string())
+
+      await services.serviceAccountAccessService.ensureInstanceAccess(
+        projectId,
+        apiKey.serviceAccountId,
+        stateId,
+      )
+
+      await services.instanceStateService.removeUnitPage(projectId, stateId, pageName)
+
+      return {}
+    },
+
+    async updateTerminal(request, context) {
+      const [projectId, apiKey] = await authenticate(services, context)
+
+      const stateId = parseArgument(request, "stateId", z.cuid2())
+      const terminal = parseArgument(request, "terminal", unitTerminalSchema)
+
+      await services.serviceAccountAccessService.ensureInstanceAccess(
+        projectId,
+        apiKey.serviceAccountId,
+        stateId,
+      )
+
+      await services.instanceStateService.updateUnitTerminal(projectId, stateId, terminal)
+
+      return {}
+    },
+
+    async removeTerminal(request, context) {
+      const [projectId, apiKey] = await authenticate(services, context)
+
+      const stateId = parseArgument(request, "stateId", z.cuid2())
+      const terminalName = parseArgument(request, "terminalName", z.string())
+
+      await services.serviceAccountAccessService.ensureInstanceAccess(
+        projectId,
+        apiKey.serviceAccountId,
+        stateId,
+      )
+
+      await services.instanceStateService.removeUnitTerminal(projectId, stateId, terminalName)
+
+      return {}
+    },
+
+    async publishEntitySnapshots(request, context) {
+      const [projectId, apiKey] = await authenticate(services, context)
+
+      const stateId = parseArgument(request, "stateId", z.cuid2())
+      const outputs = parseArgument(request, "outputs", z.record(z.string(), z.unknown()))
+
+      await services.serviceAccountAccessService.ensureInstanceAccess(
+        projectId,
+        apiKey.serviceAccountId,
+        stateId,
+      )
+
+      await services.entitySnapshotService.persistInstanceEntitySnapshots(
+        projectId,
+        stateId,
+        outputs,
+      )
+
+      return {}
+    },
   }
 }
@@ -0,0 +1,27 @@
+import type { OperationServiceImplementation } from "@highstate/api/operation.v1"
+import type { Services } from "@highstate/backend"
+import { workerOperationTypeSchema } from "@highstate/backend/shared"
+import { z } from "@highstate/contract"
+import { authenticate, parseArgument } from "../shared"
+
+export function createOperationService(services: Services): OperationServiceImplementation {
+  return {
+    async requestOperation(request, context) {
+      const [projectId, apiKey] = await authenticate(services, context)
+
+      const type = parseArgument(request, "type", workerOperationTypeSchema)
+      const stateIds = parseArgument(request, "stateIds", z.array(z.cuid2()).min(1))
+      const reason = parseArgument(request, "reason", z.string().optional())
+
+      const operation = await services.workerOperationRequester.requestOperation(
+        projectId,
+        apiKey.serviceAccountId,
+        { type, stateIds, reason },
+      )
+
+      return {
+        operationId: operation.id,
+      }
+    },
+  }
+}
@@ -1,19 +1,26 @@
 import type { SecretServiceImplementation } from "@highstate/api/secret.v1"
 import type { Services } from "@highstate/backend"
-import { authenticate } from "../shared"
+import { z } from "@highstate/contract"
+import { authenticate, parseArgument } from "../shared"
 
 export function createSecretService(services: Services): SecretServiceImplementation {
   return {
-    async getSecretContent(_request, context) {
-      const [_projectId] = await authenticate(services, context)
+    async getSecretContent(request, context) {
+      const [projectId, apiKey] = await authenticate(services, context)
 
-      // TODO: validate secret access
+      const secretId = parseArgument(request, "secretId", z.cuid2())
 
-      throw new Error("Not implemented")
+      await services.serviceAccountAccessService.ensureSecretAccess(
+        projectId,
+        apiKey.serviceAccountId,
+        secretId,
+      )
 
-      // return {
-      //   content,
-      // }
+      const content = await services.secretService.getSecretContent(projectId, secretId)
+
+      return {
+        content,
+      }
     },
   }
 }
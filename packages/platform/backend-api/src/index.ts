@@ -1,10 +1,12 @@
 import type { Services } from "@highstate/backend"
 import { rm } from "node:fs/promises"
 import { InstanceServiceDefinition } from "@highstate/api/instance.v1"
+import { OperationServiceDefinition } from "@highstate/api/operation.v1"
 import { SecretServiceDefinition } from "@highstate/api/secret.v1"
 import { WorkerServiceDefinition } from "@highstate/api/worker.v1"
 import { createServer } from "nice-grpc"
 import { createInstanceService } from "./handlers/instance"
+import { createOperationService } from "./handlers/operation"
 import { createSecretService } from "./handlers/secret"
 import { createWorkerService } from "./handlers/worker"
 import { createErrorHandlingMiddleware } from "./shared"
@@ -14,6 +16,7 @@ export async function startBackedApi(services: Services) {
   server.use(createErrorHandlingMiddleware(services))
 
   server.add(InstanceServiceDefinition, createInstanceService(services))
+  server.add(OperationServiceDefinition, createOperationService(services))
   server.add(SecretServiceDefinition, createSecretService(services))
   server.add(WorkerServiceDefinition, createWorkerService(services))
 
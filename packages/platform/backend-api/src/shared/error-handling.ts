@@ -1,5 +1,5 @@
 import type { Services } from "@highstate/backend"
-import { AccessError } from "@highstate/backend/shared"
+import { AccessError, OperationRateLimitExceededError } from "@highstate/backend/shared"
 import { isAbortError } from "abort-controller-x"
 import { type CallContext, ServerError, type ServerMiddlewareCall, Status } from "nice-grpc-common"
 
@@ -20,6 +20,10 @@ export function createErrorHandlingMiddleware(services: Services) {
         throw new ServerError(Status.UNAUTHENTICATED, "Access denied")
       }
 
+      if (error instanceof OperationRateLimitExceededError) {
+        throw new ServerError(Status.RESOURCE_EXHAUSTED, error.message)
+      }
+
       services.logger.error({ error }, "unexpected error")
       throw new ServerError(Status.INTERNAL, "An unexpected error occurred")
     }
@@ -0,0 +1,7 @@
+-- CreateTable
+CREATE TABLE "Object" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+
+    CONSTRAINT "Object_pkey" PRIMARY KEY ("id","projectId")
+);
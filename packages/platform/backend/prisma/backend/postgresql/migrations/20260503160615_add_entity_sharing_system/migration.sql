@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN "encryptedPrivateKey" TEXT,
+ADD COLUMN "publicKey" TEXT;
+
+-- CreateTable
+CREATE TABLE "ProjectImportPort" (
+    "projectId" TEXT NOT NULL,
+    "sourceProjectId" TEXT NOT NULL,
+    "sourceStateId" TEXT NOT NULL,
+    "contentHash" TEXT NOT NULL,
+    "encryptedContent" TEXT NOT NULL,
+
+    CONSTRAINT "ProjectImportPort_pkey" PRIMARY KEY ("projectId","sourceStateId")
+);
+
+-- CreateIndex
+CREATE INDEX "ProjectImportPort_sourceProjectId_sourceStateId_idx" ON "ProjectImportPort"("sourceProjectId", "sourceStateId");
+
+-- AddForeignKey
+ALTER TABLE "ProjectImportPort" ADD CONSTRAINT "ProjectImportPort_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProjectImportPort" ADD CONSTRAINT "ProjectImportPort_sourceProjectId_fkey" FOREIGN KEY ("sourceProjectId") REFERENCES "Project"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
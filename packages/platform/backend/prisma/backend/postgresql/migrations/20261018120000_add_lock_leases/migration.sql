@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "LockHolder" (
+    "id" TEXT NOT NULL,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LockHolder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "LockLease" (
+    "key" TEXT NOT NULL,
+    "holderId" TEXT NOT NULL,
+    "acquiredAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LockLease_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateIndex
+CREATE INDEX "LockLease_holderId_idx" ON "LockLease"("holderId");
+
+-- AddForeignKey
+ALTER TABLE "LockLease" ADD CONSTRAINT "LockLease_holderId_fkey" FOREIGN KEY ("holderId") REFERENCES "LockHolder"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "LockHolder" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "startedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "LockLease" (
+    "key" TEXT NOT NULL PRIMARY KEY,
+    "holderId" TEXT NOT NULL,
+    "acquiredAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "LockLease_holderId_fkey" FOREIGN KEY ("holderId") REFERENCES "LockHolder" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "LockLease_holderId_idx" ON "LockLease"("holderId");
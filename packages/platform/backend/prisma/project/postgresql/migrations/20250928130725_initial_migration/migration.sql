@@ -0,0 +1,520 @@
+-- CreateEnum
+CREATE TYPE "InstanceEvaluationStatus" AS ENUM ('evaluating', 'evaluated', 'error');
+
+-- CreateEnum
+CREATE TYPE "InstanceStatus" AS ENUM ('undeployed', 'attempted', 'deployed', 'failed');
+
+-- CreateEnum
+CREATE TYPE "InstanceSource" AS ENUM ('resident', 'virtual');
+
+-- CreateEnum
+CREATE TYPE "OperationStatus" AS ENUM ('pending', 'running', 'failing', 'cancelling', 'completed', 'failed', 'cancelled');
+
+-- CreateEnum
+CREATE TYPE "OperationType" AS ENUM ('update', 'preview', 'destroy', 'recreate', 'refresh');
+
+-- CreateEnum
+CREATE TYPE "InstanceOperationStatus" AS ENUM ('updating', 'processing_triggers', 'previewing', 'destroying', 'refreshing', 'pending', 'cancelling', 'updated', 'previewed', 'skipped', 'destroyed', 'refreshed', 'cancelled', 'failed');
+
+-- CreateEnum
+CREATE TYPE "TerminalStatus" AS ENUM ('active', 'unavailable');
+
+-- CreateEnum
+CREATE TYPE "UnlockMethodType" AS ENUM ('password', 'passkey');
+
+-- CreateEnum
+CREATE TYPE "WorkerVersionStatus" AS ENUM ('unknown', 'starting', 'running', 'stopping', 'stopped', 'error');
+
+-- CreateTable
+CREATE TABLE "ApiKey" (
+    "id" TEXT NOT NULL,
+    "meta" JSONB NOT NULL,
+    "serviceAccountId" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ApiKey_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Artifact" (
+    "id" TEXT NOT NULL,
+    "meta" JSONB NOT NULL,
+    "hash" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "chunkSize" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Artifact_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "InstanceCustomStatus" (
+    "stateId" TEXT NOT NULL,
+    "serviceAccountId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "meta" JSONB NOT NULL,
+    "value" TEXT NOT NULL,
+    "message" TEXT,
+    "order" INTEGER NOT NULL DEFAULT 50,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "InstanceCustomStatus_pkey" PRIMARY KEY ("stateId","serviceAccountId","name")
+);
+
+-- CreateTable
+CREATE TABLE "InstanceEvaluationState" (
+    "stateId" TEXT NOT NULL,
+    "status" "InstanceEvaluationStatus" NOT NULL,
+    "message" TEXT,
+    "model" JSONB,
+    "evaluatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "InstanceEvaluationState_pkey" PRIMARY KEY ("stateId")
+);
+
+-- CreateTable
+-- the hash columns are unsigned 32-bit CRC values, so they do not fit into INTEGER
+CREATE TABLE "InstanceState" (
+    "id" TEXT NOT NULL,
+    "instanceId" TEXT NOT NULL,
+    "status" "InstanceStatus" NOT NULL,
+    "source" "InstanceSource" NOT NULL,
+    "kind" TEXT NOT NULL,
+    "parentId" TEXT,
+    "inputHashNonce" INTEGER,
+    "inputHash" BIGINT,
+    "outputHash" BIGINT,
+    "dependencyOutputHash" BIGINT,
+    "exportedArtifactIds" JSONB,
+    "model" JSONB,
+    "resolvedInputs" JSONB,
+    "currentResourceCount" INTEGER,
+    "statusFields" JSONB,
+
+    CONSTRAINT "InstanceState_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "UserProjectViewport" (
+    "userId" TEXT NOT NULL,
+    "viewport" JSONB NOT NULL,
+
+    CONSTRAINT "UserProjectViewport_pkey" PRIMARY KEY ("userId")
+);
+
+-- CreateTable
+CREATE TABLE "UserCompositeViewport" (
+    "userId" TEXT NOT NULL,
+    "stateId" TEXT NOT NULL,
+    "viewport" JSONB NOT NULL,
+
+    CONSTRAINT "UserCompositeViewport_pkey" PRIMARY KEY ("userId","stateId")
+);
+
+-- CreateTable
+CREATE TABLE "InstanceLock" (
+    "stateId" TEXT NOT NULL,
+    "meta" JSONB NOT NULL,
+    "token" TEXT NOT NULL,
+    "acquiredAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "InstanceLock_pkey" PRIMARY KEY ("stateId")
+);
+
+-- CreateTable
+CREATE TABLE "InstanceModel" (
+    "id" TEXT NOT NULL,
+    "model" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "InstanceModel_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "HubModel" (
+    "id" TEXT NOT NULL,
+    "model" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "HubModel_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Operation" (
+    "id" TEXT NOT NULL,
+    "meta" JSONB NOT NULL,
+    "type" "OperationType" NOT NULL,
+    "status" "OperationStatus" NOT NULL DEFAULT 'pending',
+    "options" JSONB NOT NULL,
+    "requestedInstanceIds" JSONB NOT NULL,
+    "phases" JSONB,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "Operation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "InstanceOperationState" (
+    "operationId" TEXT NOT NULL,
+    "stateId" TEXT NOT NULL,
+    "status" "InstanceOperationStatus" NOT NULL,
+    "currentResourceCount" INTEGER,
+    "totalResourceCount" INTEGER,
+    "model" JSONB NOT NULL,
+    "resolvedInputs" JSONB NOT NULL,
+    "startedAt" TIMESTAMP(3),
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "InstanceOperationState_pkey" PRIMARY KEY ("operationId","stateId")
+);
+
+-- CreateTable
+CREATE TABLE "OperationLog" (
+    "id" TEXT NOT NULL,
+    "operationId" TEXT NOT NULL,
+    "stateId" TEXT,
+    "isSystem" BOOLEAN NOT NULL DEFAULT false,
+    "content" TEXT NOT NULL,
+
+    CONSTRAINT "OperationLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Page" (
+    "id" TEXT NOT NULL,
+    "meta" JSONB NOT NULL,
+    "stateId" TEXT,
+    "name" TEXT,
+    "serviceAccountId" TEXT,
+    "content" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Page_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Secret" (
+    "id" TEXT NOT NULL,
+    "meta" JSONB NOT NULL,
+    "stateId" TEXT,
+    "name" TEXT,
+    "systemName" TEXT,
+    "serviceAccountId" TEXT,
+    "content" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Secret_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ServiceAccount" (
+    "id" TEXT NOT NULL,
+    "meta" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ServiceAccount_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Terminal" (
+    "id" TEXT NOT NULL,
+    "meta" JSONB NOT NULL,
+    "status" "TerminalStatus" NOT NULL DEFAULT 'active',
+    "spec" JSONB NOT NULL,
+    "stateId" TEXT,
+    "name" TEXT,
+    "serviceAccountId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Terminal_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TerminalSession" (
+    "id" TEXT NOT NULL,
+    "terminalId" TEXT NOT NULL,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "TerminalSession_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TerminalSessionLog" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+
+    CONSTRAINT "TerminalSessionLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Trigger" (
+    "id" TEXT NOT NULL,
+    "meta" JSONB NOT NULL,
+    "stateId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "spec" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Trigger_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "UnlockMethod" (
+    "id" TEXT NOT NULL,
+    "meta" JSONB NOT NULL,
+    "type" "UnlockMethodType" NOT NULL,
+    "encryptedIdentity" TEXT NOT NULL,
+    "recipient" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "UnlockMethod_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Worker" (
+    "id" TEXT NOT NULL,
+    "identity" TEXT NOT NULL,
+    "serviceAccountId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Worker_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "WorkerVersion" (
+    "id" TEXT NOT NULL,
+    "meta" JSONB NOT NULL,
+    "status" "WorkerVersionStatus" NOT NULL DEFAULT 'unknown',
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "runtimeId" TEXT,
+    "workerId" TEXT NOT NULL,
+    "digest" TEXT NOT NULL,
+    "apiKeyId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "WorkerVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "WorkerUnitRegistration" (
+    "stateId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "params" JSONB NOT NULL,
+    "workerVersionId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "WorkerUnitRegistration_pkey" PRIMARY KEY ("stateId","name")
+);
+
+-- CreateTable
+CREATE TABLE "WorkerVersionLog" (
+    "id" TEXT NOT NULL,
+    "workerVersionId" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "isSystem" BOOLEAN NOT NULL DEFAULT false,
+
+    CONSTRAINT "WorkerVersionLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "_ArtifactToServiceAccount" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+
+    CONSTRAINT "_ArtifactToServiceAccount_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateTable
+CREATE TABLE "_ArtifactToInstanceState" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+
+    CONSTRAINT "_ArtifactToInstanceState_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateTable
+CREATE TABLE "_ArtifactToTerminal" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+
+    CONSTRAINT "_ArtifactToTerminal_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateTable
+CREATE TABLE "_ArtifactToPage" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+
+    CONSTRAINT "_ArtifactToPage_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ApiKey_token_key" ON "ApiKey"("token");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Artifact_hash_key" ON "Artifact"("hash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InstanceState_instanceId_key" ON "InstanceState"("instanceId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Page_stateId_name_key" ON "Page"("stateId", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Secret_systemName_key" ON "Secret"("systemName");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Secret_stateId_name_key" ON "Secret"("stateId", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Terminal_stateId_name_key" ON "Terminal"("stateId", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Trigger_stateId_name_key" ON "Trigger"("stateId", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UnlockMethod_recipient_key" ON "UnlockMethod"("recipient");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Worker_identity_key" ON "Worker"("identity");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Worker_serviceAccountId_key" ON "Worker"("serviceAccountId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WorkerVersion_digest_key" ON "WorkerVersion"("digest");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WorkerVersion_apiKeyId_key" ON "WorkerVersion"("apiKeyId");
+
+-- CreateIndex
+CREATE INDEX "_ArtifactToServiceAccount_B_index" ON "_ArtifactToServiceAccount"("B");
+
+-- CreateIndex
+CREATE INDEX "_ArtifactToInstanceState_B_index" ON "_ArtifactToInstanceState"("B");
+
+-- CreateIndex
+CREATE INDEX "_ArtifactToTerminal_B_index" ON "_ArtifactToTerminal"("B");
+
+-- CreateIndex
+CREATE INDEX "_ArtifactToPage_B_index" ON "_ArtifactToPage"("B");
+
+-- AddForeignKey
+ALTER TABLE "ApiKey" ADD CONSTRAINT "ApiKey_serviceAccountId_fkey" FOREIGN KEY ("serviceAccountId") REFERENCES "ServiceAccount"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InstanceCustomStatus" ADD CONSTRAINT "InstanceCustomStatus_stateId_fkey" FOREIGN KEY ("stateId") REFERENCES "InstanceState"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InstanceCustomStatus" ADD CONSTRAINT "InstanceCustomStatus_serviceAccountId_fkey" FOREIGN KEY ("serviceAccountId") REFERENCES "ServiceAccount"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InstanceEvaluationState" ADD CONSTRAINT "InstanceEvaluationState_stateId_fkey" FOREIGN KEY ("stateId") REFERENCES "InstanceState"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InstanceState" ADD CONSTRAINT "InstanceState_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "InstanceState"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UserCompositeViewport" ADD CONSTRAINT "UserCompositeViewport_stateId_fkey" FOREIGN KEY ("stateId") REFERENCES "InstanceState"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InstanceLock" ADD CONSTRAINT "InstanceLock_stateId_fkey" FOREIGN KEY ("stateId") REFERENCES "InstanceState"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InstanceOperationState" ADD CONSTRAINT "InstanceOperationState_operationId_fkey" FOREIGN KEY ("operationId") REFERENCES "Operation"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InstanceOperationState" ADD CONSTRAINT "InstanceOperationState_stateId_fkey" FOREIGN KEY ("stateId") REFERENCES "InstanceState"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OperationLog" ADD CONSTRAINT "OperationLog_operationId_fkey" FOREIGN KEY ("operationId") REFERENCES "Operation"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OperationLog" ADD CONSTRAINT "OperationLog_stateId_fkey" FOREIGN KEY ("stateId") REFERENCES "InstanceState"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Page" ADD CONSTRAINT "Page_stateId_fkey" FOREIGN KEY ("stateId") REFERENCES "InstanceState"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Page" ADD CONSTRAINT "Page_serviceAccountId_fkey" FOREIGN KEY ("serviceAccountId") REFERENCES "ServiceAccount"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Secret" ADD CONSTRAINT "Secret_stateId_fkey" FOREIGN KEY ("stateId") REFERENCES "InstanceState"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Secret" ADD CONSTRAINT "Secret_serviceAccountId_fkey" FOREIGN KEY ("serviceAccountId") REFERENCES "ServiceAccount"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Terminal" ADD CONSTRAINT "Terminal_stateId_fkey" FOREIGN KEY ("stateId") REFERENCES "InstanceState"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Terminal" ADD CONSTRAINT "Terminal_serviceAccountId_fkey" FOREIGN KEY ("serviceAccountId") REFERENCES "ServiceAccount"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TerminalSession" ADD CONSTRAINT "TerminalSession_terminalId_fkey" FOREIGN KEY ("terminalId") REFERENCES "Terminal"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TerminalSessionLog" ADD CONSTRAINT "TerminalSessionLog_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "TerminalSession"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Trigger" ADD CONSTRAINT "Trigger_stateId_fkey" FOREIGN KEY ("stateId") REFERENCES "InstanceState"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Worker" ADD CONSTRAINT "Worker_serviceAccountId_fkey" FOREIGN KEY ("serviceAccountId") REFERENCES "ServiceAccount"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WorkerVersion" ADD CONSTRAINT "WorkerVersion_workerId_fkey" FOREIGN KEY ("workerId") REFERENCES "Worker"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WorkerVersion" ADD CONSTRAINT "WorkerVersion_apiKeyId_fkey" FOREIGN KEY ("apiKeyId") REFERENCES "ApiKey"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WorkerUnitRegistration" ADD CONSTRAINT "WorkerUnitRegistration_stateId_fkey" FOREIGN KEY ("stateId") REFERENCES "InstanceState"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WorkerUnitRegistration" ADD CONSTRAINT "WorkerUnitRegistration_workerVersionId_fkey" FOREIGN KEY ("workerVersionId") REFERENCES "WorkerVersion"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WorkerVersionLog" ADD CONSTRAINT "WorkerVersionLog_workerVersionId_fkey" FOREIGN KEY ("workerVersionId") REFERENCES "WorkerVersion"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_ArtifactToServiceAccount" ADD CONSTRAINT "_ArtifactToServiceAccount_A_fkey" FOREIGN KEY ("A") REFERENCES "Artifact"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_ArtifactToServiceAccount" ADD CONSTRAINT "_ArtifactToServiceAccount_B_fkey" FOREIGN KEY ("B") REFERENCES "ServiceAccount"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_ArtifactToInstanceState" ADD CONSTRAINT "_ArtifactToInstanceState_A_fkey" FOREIGN KEY ("A") REFERENCES "Artifact"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_ArtifactToInstanceState" ADD CONSTRAINT "_ArtifactToInstanceState_B_fkey" FOREIGN KEY ("B") REFERENCES "InstanceState"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_ArtifactToTerminal" ADD CONSTRAINT "_ArtifactToTerminal_A_fkey" FOREIGN KEY ("A") REFERENCES "Artifact"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_ArtifactToTerminal" ADD CONSTRAINT "_ArtifactToTerminal_B_fkey" FOREIGN KEY ("B") REFERENCES "Terminal"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_ArtifactToPage" ADD CONSTRAINT "_ArtifactToPage_A_fkey" FOREIGN KEY ("A") REFERENCES "Artifact"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_ArtifactToPage" ADD CONSTRAINT "_ArtifactToPage_B_fkey" FOREIGN KEY ("B") REFERENCES "Page"("id") ON DELETE CASCADE ON UPDATE CASCADE;
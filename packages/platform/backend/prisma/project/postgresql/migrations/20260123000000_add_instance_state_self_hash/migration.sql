@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "InstanceState" ADD COLUMN "selfHash" BIGINT;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "InstanceLock" ADD COLUMN "holderId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Operation" ADD COLUMN "holderId" TEXT;
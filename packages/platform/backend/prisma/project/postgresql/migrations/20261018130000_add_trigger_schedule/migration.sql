@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Trigger" ADD COLUMN "lastRunAt" TIMESTAMP(3),
+ADD COLUMN "nextRunAt" TIMESTAMP(3);
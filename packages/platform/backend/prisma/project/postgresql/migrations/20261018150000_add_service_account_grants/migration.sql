@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "ServiceAccountGrant" (
+    "id" TEXT NOT NULL,
+    "serviceAccountId" TEXT NOT NULL,
+    "stateId" TEXT,
+    "secretId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ServiceAccountGrant_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ServiceAccountGrant_serviceAccountId_idx" ON "ServiceAccountGrant"("serviceAccountId");
+
+-- AddForeignKey
+ALTER TABLE "ServiceAccountGrant" ADD CONSTRAINT "ServiceAccountGrant_serviceAccountId_fkey" FOREIGN KEY ("serviceAccountId") REFERENCES "ServiceAccount"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ServiceAccountGrant" ADD CONSTRAINT "ServiceAccountGrant_stateId_fkey" FOREIGN KEY ("stateId") REFERENCES "InstanceState"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ServiceAccountGrant" ADD CONSTRAINT "ServiceAccountGrant_secretId_fkey" FOREIGN KEY ("secretId") REFERENCES "Secret"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "InstanceState" ADD COLUMN "lastEditedAt" TIMESTAMP(3),
+ADD COLUMN "lastEditedBy" TEXT;
+
+-- AlterTable
+ALTER TABLE "Secret" ADD COLUMN "updatedBy" TEXT;
@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "OperationApprovalDecision" AS ENUM ('approved', 'rejected');
+
+-- AlterEnum
+ALTER TYPE "OperationStatus" ADD VALUE 'awaiting_approval';
+
+-- AlterTable
+ALTER TABLE "Operation" ADD COLUMN "approvalRequest" JSONB;
+
+-- CreateTable
+CREATE TABLE "OperationApproval" (
+    "id" TEXT NOT NULL,
+    "operationId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "decision" "OperationApprovalDecision" NOT NULL,
+    "comment" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OperationApproval_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OperationApproval_operationId_userId_key" ON "OperationApproval"("operationId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "OperationApproval" ADD CONSTRAINT "OperationApproval_operationId_fkey" FOREIGN KEY ("operationId") REFERENCES "Operation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "SecretVersion" (
+    "id" TEXT NOT NULL,
+    "secretId" TEXT NOT NULL,
+    "content" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SecretVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SecretVersion_secretId_idx" ON "SecretVersion"("secretId");
+
+-- AddForeignKey
+ALTER TABLE "SecretVersion" ADD CONSTRAINT "SecretVersion_secretId_fkey" FOREIGN KEY ("secretId") REFERENCES "Secret"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- the snapshots stored the values of the secrets instead of the IDs of their versions
+UPDATE "InstanceOperationState" SET "secrets" = NULL;
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "WorkerOperationRequest" (
+    "id" TEXT NOT NULL,
+    "workerId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WorkerOperationRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "WorkerOperationRequest_workerId_createdAt_idx" ON "WorkerOperationRequest"("workerId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "WorkerOperationRequest" ADD CONSTRAINT "WorkerOperationRequest_workerId_fkey" FOREIGN KEY ("workerId") REFERENCES "Worker"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1 @@
+ALTER TABLE "InstanceState" ADD COLUMN "hasResourceHooks" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Trigger" ADD COLUMN "lastRunAt" DATETIME;
+ALTER TABLE "Trigger" ADD COLUMN "nextRunAt" DATETIME;
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "ServiceAccountGrant" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "serviceAccountId" TEXT NOT NULL,
+    "stateId" TEXT,
+    "secretId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ServiceAccountGrant_serviceAccountId_fkey" FOREIGN KEY ("serviceAccountId") REFERENCES "ServiceAccount" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "ServiceAccountGrant_stateId_fkey" FOREIGN KEY ("stateId") REFERENCES "InstanceState" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "ServiceAccountGrant_secretId_fkey" FOREIGN KEY ("secretId") REFERENCES "Secret" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "ServiceAccountGrant_serviceAccountId_idx" ON "ServiceAccountGrant"("serviceAccountId");
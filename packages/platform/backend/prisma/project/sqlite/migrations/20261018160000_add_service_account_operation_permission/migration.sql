@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ServiceAccount" ADD COLUMN "canRequestOperations" BOOLEAN NOT NULL DEFAULT false;
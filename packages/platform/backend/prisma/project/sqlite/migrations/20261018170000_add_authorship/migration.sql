@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "InstanceState" ADD COLUMN "lastEditedAt" DATETIME;
+ALTER TABLE "InstanceState" ADD COLUMN "lastEditedBy" TEXT;
+
+-- AlterTable
+ALTER TABLE "Secret" ADD COLUMN "updatedBy" TEXT;
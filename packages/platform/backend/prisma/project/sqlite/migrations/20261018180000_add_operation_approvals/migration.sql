@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "Operation" ADD COLUMN "approvalRequest" JSONB;
+
+-- CreateTable
+CREATE TABLE "OperationApproval" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "operationId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "decision" TEXT NOT NULL,
+    "comment" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "OperationApproval_operationId_fkey" FOREIGN KEY ("operationId") REFERENCES "Operation" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OperationApproval_operationId_userId_key" ON "OperationApproval"("operationId", "userId");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "InstanceOperationState" ADD COLUMN "secrets" JSONB;
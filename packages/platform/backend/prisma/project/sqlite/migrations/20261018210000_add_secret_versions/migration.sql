@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "SecretVersion" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "secretId" TEXT NOT NULL,
+    "content" JSONB NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "SecretVersion_secretId_fkey" FOREIGN KEY ("secretId") REFERENCES "Secret" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "SecretVersion_secretId_idx" ON "SecretVersion"("secretId");
+
+-- the snapshots stored the values of the secrets instead of the IDs of their versions
+UPDATE "InstanceOperationState" SET "secrets" = NULL;
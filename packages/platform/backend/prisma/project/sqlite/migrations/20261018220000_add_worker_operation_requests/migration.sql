@@ -0,0 +1,10 @@
+-- CreateTable
+CREATE TABLE "WorkerOperationRequest" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "workerId" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "WorkerOperationRequest_workerId_fkey" FOREIGN KEY ("workerId") REFERENCES "Worker" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "WorkerOperationRequest_workerId_createdAt_idx" ON "WorkerOperationRequest"("workerId", "createdAt");
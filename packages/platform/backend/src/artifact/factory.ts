@@ -4,11 +4,13 @@ import type { ArtifactBackend } from "./abstractions"
 import { z } from "zod"
 import { EncryptionArtifactBackend } from "./encryption"
 import { LocalArtifactBackend, localArtifactBackendConfig } from "./local"
+import { S3ArtifactBackend, s3ArtifactBackendConfig } from "./s3"
 
 export const artifactBackendConfig = z.object({
-  HIGHSTATE_ARTIFACT_BACKEND_TYPE: z.enum(["local"]).default("local"),
+  HIGHSTATE_ARTIFACT_BACKEND_TYPE: z.enum(["local", "s3"]).default("local"),
   HIGHSTATE_ENCRYPTION_ENABLED: z.stringbool().default(true),
   ...localArtifactBackendConfig.shape,
+  ...s3ArtifactBackendConfig.shape,
 })
 
 export async function createArtifactBackend(
@@ -23,6 +25,11 @@ export async function createArtifactBackend(
   switch (config.HIGHSTATE_ARTIFACT_BACKEND_TYPE) {
     case "local": {
       backend = await LocalArtifactBackend.create(config, fileExtension, logger)
+      break
+    }
+    case "s3": {
+      backend = S3ArtifactBackend.create(config, fileExtension, logger)
+      break
     }
   }
 
@@ -0,0 +1,79 @@
+import { createId } from "@paralleldrive/cuid2"
+import { describe } from "vitest"
+import { test } from "../test-utils"
+import { S3ArtifactBackend } from "./s3"
+
+// runs against the local MinIO/RustFS container when its endpoint is provided, for example:
+// HIGHSTATE_TEST_S3_ENDPOINT=http://localhost:9000 HIGHSTATE_TEST_S3_BUCKET=highstate
+const endpoint = process.env.HIGHSTATE_TEST_S3_ENDPOINT
+
+async function* toChunks(content: Uint8Array, size: number): AsyncIterable<Uint8Array> {
+  for (let offset = 0; offset < content.length; offset += size) {
+    yield content.subarray(offset, offset + size)
+  }
+}
+
+async function collect(content: AsyncIterable<Uint8Array>): Promise<Uint8Array[]> {
+  const chunks: Uint8Array[] = []
+  for await (const chunk of content) {
+    chunks.push(chunk)
+  }
+
+  return chunks
+}
+
+describe.runIf(endpoint)("S3ArtifactBackend", () => {
+  const s3Test = test.extend<{ backend: S3ArtifactBackend }>({
+    backend: async ({ logger }, use) => {
+      const backend = S3ArtifactBackend.create(
+        {
+          HIGHSTATE_ARTIFACT_BACKEND_S3_ENDPOINT: endpoint,
+          HIGHSTATE_ARTIFACT_BACKEND_S3_REGION: "us-east-1",
+          HIGHSTATE_ARTIFACT_BACKEND_S3_BUCKET: process.env.HIGHSTATE_TEST_S3_BUCKET ?? "highstate",
+          HIGHSTATE_ARTIFACT_BACKEND_S3_PREFIX: `test-${createId()}`,
+          HIGHSTATE_ARTIFACT_BACKEND_S3_FORCE_PATH_STYLE: true,
+          HIGHSTATE_ARTIFACT_BACKEND_S3_ACCESS_KEY_ID:
+            process.env.HIGHSTATE_TEST_S3_ACCESS_KEY_ID ?? "minioadmin",
+          HIGHSTATE_ARTIFACT_BACKEND_S3_SECRET_ACCESS_KEY:
+            process.env.HIGHSTATE_TEST_S3_SECRET_ACCESS_KEY ?? "minioadmin",
+        },
+        ".tgz",
+        logger,
+      )
+
+      await use(backend)
+    },
+  })
+
+  s3Test(
+    "stores and retrieves artifact in chunks of requested size",
+    async ({ backend, expect }) => {
+      // arrange
+      const content = new Uint8Array(10_000).map((_, index) => index % 251)
+
+      // act
+      await backend.store("project-1", "artifact-1", 4096, toChunks(content, 1000))
+      const retrieved = await backend.retrieve("project-1", "artifact-1", 4096)
+
+      // assert
+      expect(await backend.exists("project-1", "artifact-1")).toBe(true)
+      expect(retrieved).not.toBeNull()
+
+      const chunks = await collect(retrieved!)
+      expect(chunks.map(chunk => chunk.length)).toEqual([4096, 4096, 1808])
+      expect(Buffer.concat(chunks)).toEqual(Buffer.from(content))
+    },
+  )
+
+  s3Test("deletes artifact", async ({ backend, expect }) => {
+    // arrange
+    await backend.store("project-1", "artifact-2", 1024, toChunks(new Uint8Array(10), 10))
+
+    // act
+    await backend.delete("project-1", "artifact-2")
+
+    // assert
+    expect(await backend.exists("project-1", "artifact-2")).toBe(false)
+    expect(await backend.retrieve("project-1", "artifact-2", 1024)).toBeNull()
+  })
+})
@@ -0,0 +1,197 @@
+import type { Logger } from "pino"
+import type { ArtifactBackend } from "./abstractions"
+import { Readable } from "node:stream"
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  NoSuchKey,
+  NotFound,
+  S3Client,
+} from "@aws-sdk/client-s3"
+import { Upload } from "@aws-sdk/lib-storage"
+import { z } from "zod"
+import { createProjectLogger } from "../common"
+import { BackendError } from "../shared"
+
+export const s3ArtifactBackendConfig = z.object({
+  HIGHSTATE_ARTIFACT_BACKEND_S3_ENDPOINT: z.string().optional(),
+  HIGHSTATE_ARTIFACT_BACKEND_S3_REGION: z.string().default("us-east-1"),
+  HIGHSTATE_ARTIFACT_BACKEND_S3_BUCKET: z.string().optional(),
+  HIGHSTATE_ARTIFACT_BACKEND_S3_PREFIX: z.string().default(""),
+  HIGHSTATE_ARTIFACT_BACKEND_S3_FORCE_PATH_STYLE: z.stringbool().default(false),
+  HIGHSTATE_ARTIFACT_BACKEND_S3_ACCESS_KEY_ID: z.string().optional(),
+  HIGHSTATE_ARTIFACT_BACKEND_S3_SECRET_ACCESS_KEY: z.string().optional(),
+})
+
+/**
+ * An artifact backend that stores artifacts in the S3-compatible object storage.
+ *
+ * Object structure:
+ * - `{prefix}/projects/{projectId}/artifacts/{id}.{extension}`
+ *
+ * When the credentials are not configured explicitly, the default AWS SDK credential chain is used.
+ */
+export class S3ArtifactBackend implements ArtifactBackend {
+  constructor(
+    private readonly client: S3Client,
+    private readonly bucket: string,
+    private readonly prefix: string,
+    private readonly extension: string,
+    private readonly logger: Logger,
+  ) {}
+
+  async store(
+    projectId: string,
+    artifactId: string,
+    chunkSize: number,
+    content: AsyncIterable<Uint8Array>,
+  ): Promise<void> {
+    const logger = createProjectLogger(this.logger, projectId)
+    const key = this.getArtifactKey(projectId, artifactId)
+
+    if (await this.exists(projectId, artifactId)) {
+      logger.debug({ artifactId }, "artifact already exists")
+      return
+    }
+
+    const upload = new Upload({
+      client: this.client,
+      params: {
+        Bucket: this.bucket,
+        Key: key,
+        Body: Readable.from(content, { highWaterMark: chunkSize }),
+      },
+    })
+
+    await upload.done()
+    logger.info({ artifactId, key }, "artifact stored")
+  }
+
+  async retrieve(
+    projectId: string,
+    artifactId: string,
+    chunkSize: number,
+  ): Promise<AsyncIterable<Uint8Array> | null> {
+    const logger = createProjectLogger(this.logger, projectId)
+    const key = this.getArtifactKey(projectId, artifactId)
+
+    try {
+      const response = await this.client.send(
+        new GetObjectCommand({ Bucket: this.bucket, Key: key }),
+      )
+
+      if (!response.Body) {
+        return null
+      }
+
+      return rechunk(response.Body.transformToWebStream(), chunkSize)
+    } catch (error) {
+      if (error instanceof NoSuchKey) {
+        logger.debug({ hash: artifactId }, "artifact not found")
+        return null
+      }
+
+      logger.debug({ hash: artifactId, error }, "artifact retrieval failed")
+      return null
+    }
+  }
+
+  async delete(projectId: string, hash: string): Promise<void> {
+    const logger = createProjectLogger(this.logger, projectId)
+    const key = this.getArtifactKey(projectId, hash)
+
+    try {
+      await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }))
+      logger.info({ hash, key }, "artifact deleted")
+    } catch (error) {
+      logger.error({ hash, key, error }, "artifact deletion failed")
+    }
+  }
+
+  async exists(projectId: string, artifactId: string): Promise<boolean> {
+    const key = this.getArtifactKey(projectId, artifactId)
+
+    try {
+      await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: key }))
+      return true
+    } catch (error) {
+      if (error instanceof NotFound) {
+        return false
+      }
+
+      throw error
+    }
+  }
+
+  private getArtifactKey(projectId: string, artifactId: string): string {
+    return `${this.prefix}projects/${projectId}/artifacts/${artifactId}${this.extension}`
+  }
+
+  static create(
+    config: z.infer<typeof s3ArtifactBackendConfig>,
+    extension: string,
+    logger: Logger,
+  ): S3ArtifactBackend {
+    const bucket = config.HIGHSTATE_ARTIFACT_BACKEND_S3_BUCKET
+    if (!bucket) {
+      throw new BackendError(
+        `HIGHSTATE_ARTIFACT_BACKEND_S3_BUCKET must be set when the artifact backend type is "s3".`,
+      )
+    }
+
+    const accessKeyId = config.HIGHSTATE_ARTIFACT_BACKEND_S3_ACCESS_KEY_ID
+    const secretAccessKey = config.HIGHSTATE_ARTIFACT_BACKEND_S3_SECRET_ACCESS_KEY
+
+    const client = new S3Client({
+      endpoint: config.HIGHSTATE_ARTIFACT_BACKEND_S3_ENDPOINT,
+      region: config.HIGHSTATE_ARTIFACT_BACKEND_S3_REGION,
+      forcePathStyle: config.HIGHSTATE_ARTIFACT_BACKEND_S3_FORCE_PATH_STYLE,
+      credentials: accessKeyId && secretAccessKey ? { accessKeyId, secretAccessKey } : undefined,
+    })
+
+    const prefix = config.HIGHSTATE_ARTIFACT_BACKEND_S3_PREFIX.replace(/^\/+|\/+$/g, "")
+
+    return new S3ArtifactBackend(
+      client,
+      bucket,
+      prefix ? `${prefix}/` : "",
+      extension,
+      logger.child({ service: "S3ArtifactBackend" }),
+    )
+  }
+}
+
+/**
+ * Splits the content into the chunks of the exact size like the file streams of the local backend do.
+ * Only the last chunk may be smaller.
+ */
+async function* rechunk(
+  content: AsyncIterable<Uint8Array>,
+  chunkSize: number,
+): AsyncIterable<Uint8Array> {
+  let buffer = new Uint8Array(chunkSize)
+  let offset = 0
+
+  for await (const part of content) {
+    let position = 0
+
+    while (position < part.length) {
+      const length = Math.min(chunkSize - offset, part.length - position)
+      buffer.set(part.subarray(position, position + length), offset)
+
+      offset += length
+      position += length
+
+      if (offset === chunkSize) {
+        yield buffer
+        buffer = new Uint8Array(chunkSize)
+        offset = 0
+      }
+    }
+  }
+
+  if (offset > 0) {
+    yield buffer.subarray(0, offset)
+  }
+}
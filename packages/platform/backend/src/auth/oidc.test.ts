@@ -0,0 +1,48 @@
+import { afterEach, describe, vi } from "vitest"
+import { test } from "../test-utils"
+import { OidcClient } from "./oidc"
+
+const issuer = "https://issuer.example.com"
+
+function stubDiscoveryDocument(documentIssuer: string): void {
+  vi.stubGlobal(
+    "fetch",
+    vi.fn().mockResolvedValue(
+      Response.json({
+        issuer: documentIssuer,
+        authorization_endpoint: `${documentIssuer}/authorize`,
+        token_endpoint: `${documentIssuer}/token`,
+        userinfo_endpoint: `${documentIssuer}/userinfo`,
+      }),
+    ),
+  )
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe("createAuthorizationRequest", () => {
+  test("uses authorization endpoint of configured issuer", async ({ logger, expect }) => {
+    // arrange
+    stubDiscoveryDocument(issuer)
+    const client = new OidcClient(issuer, "client", undefined, "openid", logger)
+
+    // act
+    const request = await client.createAuthorizationRequest("https://designer/callback")
+
+    // assert
+    expect(request.url).toMatch(/^https:\/\/issuer\.example\.com\/authorize\?/)
+  })
+
+  test("rejects discovery document of another issuer", async ({ logger, expect }) => {
+    // arrange
+    stubDiscoveryDocument("https://attacker.example.com")
+    const client = new OidcClient(issuer, "client", undefined, "openid", logger)
+
+    // act & assert
+    await expect(client.createAuthorizationRequest("https://designer/callback")).rejects.toThrow(
+      /does not match the configured issuer/,
+    )
+  })
+})
@@ -0,0 +1,220 @@
+import type { Logger } from "pino"
+import { createHash, randomBytes } from "node:crypto"
+import { z } from "zod"
+import { AuthenticationError } from "../shared"
+
+export const oidcClientConfig = z.object({
+  HIGHSTATE_AUTH_OIDC_ISSUER: z.url().optional(),
+  HIGHSTATE_AUTH_OIDC_CLIENT_ID: z.string().optional(),
+  HIGHSTATE_AUTH_OIDC_CLIENT_SECRET: z.string().optional(),
+  HIGHSTATE_AUTH_OIDC_SCOPES: z.string().default("openid profile email"),
+})
+
+const discoveryDocumentSchema = z.object({
+  issuer: z.string(),
+  authorization_endpoint: z.url(),
+  token_endpoint: z.url(),
+  userinfo_endpoint: z.url(),
+})
+
+const tokenResponseSchema = z.object({
+  access_token: z.string(),
+})
+
+const userInfoSchema = z.object({
+  sub: z.string(),
+  name: z.string().optional(),
+  preferred_username: z.string().optional(),
+  email: z.string().optional(),
+  email_verified: z.boolean().optional(),
+  groups: z.array(z.string()).optional(),
+})
+
+export type OidcAuthorizationRequest = {
+  /**
+   * The URL to redirect the user to.
+   */
+  url: string
+
+  /**
+   * The opaque value which must be returned by the issuer to the callback unchanged.
+   */
+  state: string
+
+  /**
+   * The PKCE code verifier which must be passed to `exchangeCode` along with the code.
+   */
+  codeVerifier: string
+}
+
+export type OidcIdentity = {
+  issuer: string
+  subject: string
+  displayName?: string
+  email?: string
+
+  /**
+   * Whether the issuer verified the email of the user.
+   *
+   * Undefined if the issuer does not return the `email_verified` claim.
+   */
+  emailVerified?: boolean
+
+  /**
+   * The groups of the user if the issuer returns the `groups` claim.
+   */
+  groups: string[]
+}
+
+/**
+ * The minimal OIDC relying party implementing the authorization code flow with PKCE.
+ *
+ * The identity of the user is taken from the userinfo endpoint of the issuer
+ * which is requested with the access token obtained directly from the issuer,
+ * so the ID token does not need to be verified.
+ */
+export class OidcClient {
+  private discoveryDocument: Promise<z.infer<typeof discoveryDocumentSchema>> | undefined
+
+  constructor(
+    private readonly issuer: string,
+    private readonly clientId: string,
+    private readonly clientSecret: string | undefined,
+    private readonly scopes: string,
+    private readonly logger: Logger,
+  ) {}
+
+  /**
+   * Creates the request to the authorization endpoint of the issuer.
+   *
+   * @param redirectUri The callback URL of the designer registered in the issuer.
+   */
+  async createAuthorizationRequest(redirectUri: string): Promise<OidcAuthorizationRequest> {
+    const { authorization_endpoint } = await this.discover()
+
+    const state = randomBytes(16).toString("base64url")
+    const codeVerifier = randomBytes(32).toString("base64url")
+    const codeChallenge = createHash("sha256").update(codeVerifier).digest("base64url")
+
+    const url = new URL(authorization_endpoint)
+    url.searchParams.set("response_type", "code")
+    url.searchParams.set("client_id", this.clientId)
+    url.searchParams.set("redirect_uri", redirectUri)
+    url.searchParams.set("scope", this.scopes)
+    url.searchParams.set("state", state)
+    url.searchParams.set("code_challenge", codeChallenge)
+    url.searchParams.set("code_challenge_method", "S256")
+
+    return { url: url.toString(), state, codeVerifier }
+  }
+
+  /**
+   * Exchanges the authorization code for the access token and fetches the identity of the user.
+   *
+   * @param code The code passed by the issuer to the callback.
+   * @param redirectUri The same callback URL used to create the authorization request.
+   * @param codeVerifier The code verifier of the authorization request.
+   */
+  async exchangeCode(
+    code: string,
+    redirectUri: string,
+    codeVerifier: string,
+  ): Promise<OidcIdentity> {
+    const { issuer, token_endpoint, userinfo_endpoint } = await this.discover()
+
+    const body = new URLSearchParams({
+      grant_type: "authorization_code",
+      code,
+      redirect_uri: redirectUri,
+      client_id: this.clientId,
+      code_verifier: codeVerifier,
+    })
+
+    if (this.clientSecret) {
+      body.set("client_secret", this.clientSecret)
+    }
+
+    const tokenResponse = await fetch(token_endpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body,
+    })
+
+    if (!tokenResponse.ok) {
+      this.logger.warn(
+        { status: tokenResponse.status, body: await tokenResponse.text() },
+        "failed to exchange authorization code",
+      )
+      throw new AuthenticationError("Failed to exchange the authorization code")
+    }
+
+    const { access_token } = tokenResponseSchema.parse(await tokenResponse.json())
+
+    const userInfoResponse = await fetch(userinfo_endpoint, {
+      headers: { Authorization: `Bearer ${access_token}` },
+    })
+
+    if (!userInfoResponse.ok) {
+      throw new AuthenticationError("Failed to fetch the user info from the issuer")
+    }
+
+    const userInfo = userInfoSchema.parse(await userInfoResponse.json())
+
+    return {
+      issuer,
+      subject: userInfo.sub,
+      displayName: userInfo.name ?? userInfo.preferred_username,
+      email: userInfo.email,
+      emailVerified: userInfo.email_verified,
+      groups: userInfo.groups ?? [],
+    }
+  }
+
+  private discover() {
+    if (!this.discoveryDocument) {
+      const url = `${this.issuer.replace(/\/$/, "")}/.well-known/openid-configuration`
+
+      this.discoveryDocument = fetch(url)
+        .then(async response => {
+          if (!response.ok) {
+            throw new Error(`Failed to fetch OIDC discovery document: ${response.status}`)
+          }
+
+          const document = discoveryDocumentSchema.parse(await response.json())
+
+          // the issuer of the document must exactly match the configured one (OIDC Discovery 4.3),
+          // otherwise the endpoints of another issuer may be used
+          if (document.issuer !== this.issuer) {
+            throw new Error(
+              `The issuer "${document.issuer}" of the OIDC discovery document does not match the configured issuer "${this.issuer}"`,
+            )
+          }
+
+          return document
+        })
+        .catch(error => {
+          // allow to retry the discovery on the next request
+          this.discoveryDocument = undefined
+          throw error
+        })
+    }
+
+    return this.discoveryDocument
+  }
+
+  static create(config: z.infer<typeof oidcClientConfig>, logger: Logger): OidcClient {
+    if (!config.HIGHSTATE_AUTH_OIDC_ISSUER || !config.HIGHSTATE_AUTH_OIDC_CLIENT_ID) {
+      throw new Error(
+        "HIGHSTATE_AUTH_OIDC_ISSUER and HIGHSTATE_AUTH_OIDC_CLIENT_ID are required for OIDC authentication",
+      )
+    }
+
+    return new OidcClient(
+      config.HIGHSTATE_AUTH_OIDC_ISSUER,
+      config.HIGHSTATE_AUTH_OIDC_CLIENT_ID,
+      config.HIGHSTATE_AUTH_OIDC_CLIENT_SECRET,
+      config.HIGHSTATE_AUTH_OIDC_SCOPES,
+      logger.child({ service: "OidcClient" }),
+    )
+  }
+}
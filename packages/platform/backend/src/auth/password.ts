@@ -0,0 +1,52 @@
+import { randomBytes, type ScryptOptions, scrypt, timingSafeEqual } from "node:crypto"
+
+const keyLength = 64
+const scryptOptions: ScryptOptions = { N: 16384, r: 8, p: 1 }
+
+/**
+ * The hash of the random password nobody knows.
+ *
+ * The passwords of the unknown users are verified against it,
+ * so the login takes the same time regardless of whether the user exists.
+ */
+export const dummyPasswordHash =
+  "scrypt:phRzYSDNBvSl6MgbfuS04w==:DqgPZaU+G/bS1IjhU9Sa84O4mcBbdDoBduggxcoU6pYMqloIBPteCoc091BBt6GFmHXjKoKYRanH22d4JsUMjg=="
+
+function deriveKey(password: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, keyLength, scryptOptions, (error, key) => {
+      if (error) {
+        reject(error)
+      } else {
+        resolve(key)
+      }
+    })
+  })
+}
+
+/**
+ * Hashes the password using scrypt with the random salt.
+ *
+ * The result has the format `scrypt:{salt}:{hash}` with both parts encoded as base64.
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16)
+  const key = await deriveKey(password, salt)
+
+  return `scrypt:${salt.toString("base64")}:${key.toString("base64")}`
+}
+
+/**
+ * Verifies the password against the hash produced by `hashPassword`.
+ */
+export async function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+  const [algorithm, salt, hash] = passwordHash.split(":")
+  if (algorithm !== "scrypt" || !salt || !hash) {
+    return false
+  }
+
+  const expected = Buffer.from(hash, "base64")
+  const actual = await deriveKey(password, Buffer.from(salt, "base64"))
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
@@ -0,0 +1,234 @@
+import type { OidcClient, OidcIdentity } from "./oidc"
+import { describe, vi } from "vitest"
+import { AuthenticationError, LocalUserNotFoundError } from "../shared"
+import { test } from "../test-utils"
+import * as password from "./password"
+import { AuthService, authConfig } from "./service"
+
+const authTest = test.extend<{
+  authService: AuthService
+  createOidcAuthService: (identity: OidcIdentity, config?: Record<string, string>) => AuthService
+}>({
+  authService: async ({ database, logger }, use) => {
+    const config = authConfig.parse({ HIGHSTATE_AUTH_TYPE: "local" })
+
+    await use(new AuthService(config, database, undefined, logger))
+  },
+
+  createOidcAuthService: async ({ database, logger }, use) => {
+    await use((identity, config = {}) => {
+      const oidcClient = vi.mockObject({
+        exchangeCode: vi.fn().mockResolvedValue(identity),
+      } as unknown as OidcClient)
+
+      return new AuthService(
+        authConfig.parse({ HIGHSTATE_AUTH_TYPE: "oidc", ...config }),
+        database,
+        oidcClient,
+        logger,
+      )
+    })
+  },
+})
+
+describe("loginWithPassword", () => {
+  authTest("creates session for valid credentials", async ({ authService, expect }) => {
+    // arrange
+    const user = await authService.createLocalUser("alice", "correct horse")
+
+    // act
+    const session = await authService.loginWithPassword("alice", "correct horse")
+
+    // assert
+    expect(session.user.id).toBe(user.id)
+    expect(session.expiresAt.getTime()).toBeGreaterThan(Date.now())
+
+    const authenticated = await authService.authenticate(session.token)
+    expect(authenticated.id).toBe(user.id)
+  })
+
+  authTest("rejects invalid password and unknown user", async ({ authService, expect }) => {
+    // arrange
+    await authService.createLocalUser("bob", "correct horse")
+
+    // act & assert
+    await expect(authService.loginWithPassword("bob", "wrong")).rejects.toThrow(AuthenticationError)
+    await expect(authService.loginWithPassword("carol", "correct horse")).rejects.toThrow(
+      AuthenticationError,
+    )
+  })
+
+  authTest(
+    "verifies password of unknown user against dummy hash",
+    async ({ authService, expect }) => {
+      // arrange
+      const verifyPassword = vi.spyOn(password, "verifyPassword")
+
+      // act
+      await expect(authService.loginWithPassword("frank", "correct horse")).rejects.toThrow(
+        AuthenticationError,
+      )
+
+      // assert
+      expect(verifyPassword).toHaveBeenCalledWith("correct horse", password.dummyPasswordHash)
+      expect(await password.verifyPassword("correct horse", password.dummyPasswordHash)).toBe(false)
+    },
+  )
+})
+
+describe("local user management", () => {
+  authTest(
+    "changes password and terminates sessions of local user",
+    async ({ authService, expect }) => {
+      // arrange
+      await authService.createLocalUser("grace", "correct horse")
+      const session = await authService.loginWithPassword("grace", "correct horse")
+
+      // act
+      await authService.setLocalUserPassword("grace", "battery staple")
+
+      // assert
+      await expect(authService.authenticate(session.token)).rejects.toThrow(AuthenticationError)
+      await expect(authService.loginWithPassword("grace", "correct horse")).rejects.toThrow(
+        AuthenticationError,
+      )
+
+      const newSession = await authService.loginWithPassword("grace", "battery staple")
+      expect(newSession.user.username).toBe("grace")
+    },
+  )
+
+  authTest("lists and deletes local users", async ({ authService, expect }) => {
+    // arrange
+    await authService.createLocalUser("heidi", "correct horse")
+
+    // act
+    await authService.deleteLocalUser("heidi")
+
+    // assert
+    const users = await authService.listLocalUsers()
+    expect(users.map(user => user.username)).not.toContain("heidi")
+
+    await expect(authService.deleteLocalUser("heidi")).rejects.toThrow(LocalUserNotFoundError)
+    await expect(authService.setLocalUserPassword("heidi", "x")).rejects.toThrow(
+      LocalUserNotFoundError,
+    )
+  })
+})
+
+describe("loginWithOidc", () => {
+  const identity: OidcIdentity = {
+    issuer: "https://issuer.example.com",
+    subject: "subject-1",
+    email: "Alice@Example.com",
+    emailVerified: true,
+    groups: ["developers"],
+  }
+
+  authTest("allows every user without allowlists", async ({ createOidcAuthService, expect }) => {
+    // arrange
+    const authService = createOidcAuthService(identity)
+
+    // act
+    const session = await authService.loginWithOidc("code", "https://designer/callback", "verifier")
+
+    // assert
+    expect(session.user.oidcSubject).toBe("subject-1")
+  })
+
+  authTest(
+    "allows user matching subject, email or group",
+    async ({ createOidcAuthService, expect }) => {
+      // arrange
+      const configs: Record<string, string>[] = [
+        { HIGHSTATE_AUTH_OIDC_ALLOWED_SUBJECTS: "subject-0, subject-1" },
+        { HIGHSTATE_AUTH_OIDC_ALLOWED_EMAILS: "alice@example.com" },
+        { HIGHSTATE_AUTH_OIDC_ALLOWED_GROUPS: "admins,developers" },
+      ]
+
+      for (const config of configs) {
+        const authService = createOidcAuthService(identity, config)
+
+        // act
+        const session = await authService.loginWithOidc(
+          "code",
+          "https://designer/callback",
+          "verifier",
+        )
+
+        // assert
+        expect(session.user.oidcSubject).toBe("subject-1")
+      }
+    },
+  )
+
+  authTest(
+    "rejects user not matching allowlists or with unverified email",
+    async ({ createOidcAuthService, database, expect }) => {
+      // arrange
+      const config = {
+        HIGHSTATE_AUTH_OIDC_ALLOWED_EMAILS: "alice@example.com",
+        HIGHSTATE_AUTH_OIDC_ALLOWED_GROUPS: "admins",
+      }
+
+      const otherService = createOidcAuthService(
+        { ...identity, subject: "subject-2", email: "bob@example.com" },
+        config,
+      )
+
+      const unverifiedService = createOidcAuthService(
+        { ...identity, subject: "subject-2", emailVerified: false },
+        config,
+      )
+
+      const unknownVerificationService = createOidcAuthService(
+        { ...identity, subject: "subject-2", emailVerified: undefined },
+        config,
+      )
+
+      // act & assert
+      await expect(
+        otherService.loginWithOidc("code", "https://designer/callback", "verifier"),
+      ).rejects.toThrow(AuthenticationError)
+
+      await expect(
+        unverifiedService.loginWithOidc("code", "https://designer/callback", "verifier"),
+      ).rejects.toThrow(AuthenticationError)
+
+      await expect(
+        unknownVerificationService.loginWithOidc("code", "https://designer/callback", "verifier"),
+      ).rejects.toThrow(AuthenticationError)
+
+      const user = await database.backend.user.findFirst({ where: { oidcSubject: "subject-2" } })
+      expect(user).toBeNull()
+    },
+  )
+})
+
+describe("authenticate", () => {
+  authTest("rejects session after logout", async ({ authService, expect }) => {
+    // arrange
+    await authService.createLocalUser("dave", "correct horse")
+    const session = await authService.loginWithPassword("dave", "correct horse")
+
+    // act
+    await authService.logout(session.token)
+
+    // assert
+    await expect(authService.authenticate(session.token)).rejects.toThrow(AuthenticationError)
+  })
+
+  authTest("rejects expired session", async ({ authService, database, expect }) => {
+    // arrange
+    await authService.createLocalUser("erin", "correct horse")
+    const session = await authService.loginWithPassword("erin", "correct horse")
+
+    await database.backend.userSession.updateMany({
+      where: { userId: session.user.id },
+      data: { expiresAt: new Date(Date.now() - 1000) },
+    })
+
+    // act & assert
+    await expect(authService.authenticate(session.token)).rejects.toThrow(AuthenticationError)
+  })
+})
@@ -0,0 +1,364 @@
+import type { Logger } from "pino"
+import type { DatabaseManager, User } from "../database"
+import { createHash, randomBytes } from "node:crypto"
+import { z } from "zod"
+import { stringArrayType } from "../common"
+import { AuthenticationError, LocalUserNotFoundError } from "../shared"
+import {
+  type OidcAuthorizationRequest,
+  OidcClient,
+  type OidcIdentity,
+  oidcClientConfig,
+} from "./oidc"
+import { dummyPasswordHash, hashPassword, verifyPassword } from "./password"
+
+export const authConfig = z.object({
+  HIGHSTATE_AUTH_TYPE: z.enum(["none", "local", "oidc"]).default("none"),
+  HIGHSTATE_AUTH_SESSION_TTL_MS: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(7 * 24 * 60 * 60 * 1000),
+  HIGHSTATE_AUTH_LOCAL_INITIAL_USERNAME: z.string().optional(),
+  HIGHSTATE_AUTH_LOCAL_INITIAL_PASSWORD: z.string().optional(),
+  HIGHSTATE_AUTH_OIDC_ALLOWED_SUBJECTS: stringArrayType.default(() => []),
+  HIGHSTATE_AUTH_OIDC_ALLOWED_EMAILS: stringArrayType.default(() => []),
+  HIGHSTATE_AUTH_OIDC_ALLOWED_GROUPS: stringArrayType.default(() => []),
+  ...oidcClientConfig.shape,
+})
+
+export type AuthType = z.infer<typeof authConfig>["HIGHSTATE_AUTH_TYPE"]
+
+export type UserSessionToken = {
+  /**
+   * The secret token of the session to be stored in the cookie.
+   */
+  token: string
+
+  /**
+   * The time after which the session is no longer valid.
+   */
+  expiresAt: Date
+
+  /**
+   * The user owning the session.
+   */
+  user: User
+}
+
+/**
+ * Authenticates the users of the designer and manages their sessions.
+ *
+ * The authentication type is selected by `HIGHSTATE_AUTH_TYPE`:
+ * - `none`: the authentication is disabled and the designer is only accessible by the local user;
+ * - `local`: the users log in with the username and the password stored in the backend database;
+ * - `oidc`: the users log in using the configured OIDC issuer and are created on the first login.
+ *
+ * When any of `HIGHSTATE_AUTH_OIDC_ALLOWED_SUBJECTS`, `HIGHSTATE_AUTH_OIDC_ALLOWED_EMAILS`
+ * or `HIGHSTATE_AUTH_OIDC_ALLOWED_GROUPS` is set, only the OIDC users matching at least one of them can log in.
+ * Otherwise every user of the issuer can log in.
+ */
+export class AuthService {
+  constructor(
+    private readonly config: z.infer<typeof authConfig>,
+    private readonly database: DatabaseManager,
+    private readonly oidcClient: OidcClient | undefined,
+    private readonly logger: Logger,
+  ) {}
+
+  /**
+   * The configured authentication type.
+   */
+  get authType(): AuthType {
+    return this.config.HIGHSTATE_AUTH_TYPE
+  }
+
+  /**
+   * Creates the local user which can log in with the password.
+   *
+   * @param username The unique name of the user.
+   * @param password The password of the user.
+   * @param displayName The human-readable name of the user.
+   */
+  async createLocalUser(username: string, password: string, displayName?: string): Promise<User> {
+    const user = await this.database.backend.user.create({
+      data: {
+        username,
+        displayName,
+        passwordHash: await hashPassword(password),
+      },
+    })
+
+    this.logger.info({ userId: user.id }, `created local user "%s"`, username)
+
+    return user
+  }
+
+  /**
+   * Lists the local users which can log in with the password.
+   */
+  async listLocalUsers(): Promise<User[]> {
+    return await this.database.backend.user.findMany({
+      where: { passwordHash: { not: null } },
+      orderBy: { username: "asc" },
+    })
+  }
+
+  /**
+   * Changes the password of the local user and terminates all their sessions.
+   *
+   * @param username The name of the user.
+   * @param password The new password of the user.
+   * @throws LocalUserNotFoundError if the local user does not exist.
+   */
+  async setLocalUserPassword(username: string, password: string): Promise<void> {
+    const user = await this.getLocalUser(username)
+
+    await this.database.backend.user.update({
+      where: { id: user.id },
+      data: { passwordHash: await hashPassword(password) },
+    })
+
+    await this.database.backend.userSession.deleteMany({ where: { userId: user.id } })
+
+    this.logger.info({ userId: user.id }, `changed password of local user "%s"`, username)
+  }
+
+  /**
+   * Deletes the local user along with their sessions.
+   *
+   * The authorship records referencing the user are kept.
+   *
+   * @param username The name of the user.
+   * @throws LocalUserNotFoundError if the local user does not exist.
+   */
+  async deleteLocalUser(username: string): Promise<void> {
+    const user = await this.getLocalUser(username)
+
+    await this.database.backend.user.delete({ where: { id: user.id } })
+
+    this.logger.info({ userId: user.id }, `deleted local user "%s"`, username)
+  }
+
+  /**
+   * Creates the initial local user from the configuration if there are no users yet.
+   */
+  async ensureInitialUser(): Promise<void> {
+    const username = this.config.HIGHSTATE_AUTH_LOCAL_INITIAL_USERNAME
+    const password = this.config.HIGHSTATE_AUTH_LOCAL_INITIAL_PASSWORD
+
+    if (this.authType !== "local" || !username || !password) {
+      return
+    }
+
+    const userCount = await this.database.backend.user.count()
+    if (userCount > 0) {
+      return
+    }
+
+    await this.createLocalUser(username, password)
+  }
+
+  /**
+   * Gets the users by their IDs.
+   *
+   * @param userIds The IDs of the users.
+   */
+  async getUsers(userIds: string[]): Promise<User[]> {
+    return await this.database.backend.user.findMany({
+      where: { id: { in: userIds } },
+    })
+  }
+
+  /**
+   * Logs in the local user with the password and creates the session.
+   *
+   * @param username The name of the user.
+   * @param password The password of the user.
+   * @throws AuthenticationError if the local authentication is disabled or the credentials are invalid.
+   */
+  async loginWithPassword(username: string, password: string): Promise<UserSessionToken> {
+    if (this.authType !== "local") {
+      throw new AuthenticationError("The password authentication is disabled")
+    }
+
+    const user = await this.database.backend.user.findUnique({ where: { username } })
+
+    // do not reveal whether the user exists, neither by the error nor by the time taken
+    const isValid = await verifyPassword(password, user?.passwordHash ?? dummyPasswordHash)
+
+    if (!user?.passwordHash || !isValid) {
+      this.logger.warn(`failed login attempt for user "%s"`, username)
+      throw new AuthenticationError("Invalid username or password")
+    }
+
+    return await this.createSession(user)
+  }
+
+  /**
+   * Creates the request to the authorization endpoint of the OIDC issuer.
+   *
+   * @param redirectUri The callback URL of the designer.
+   * @throws AuthenticationError if the OIDC authentication is disabled.
+   */
+  async createOidcAuthorizationRequest(redirectUri: string): Promise<OidcAuthorizationRequest> {
+    return await this.getOidcClient().createAuthorizationRequest(redirectUri)
+  }
+
+  /**
+   * Completes the OIDC login, creates the user on the first login and creates the session.
+   *
+   * @param code The authorization code passed by the issuer to the callback.
+   * @param redirectUri The callback URL used to create the authorization request.
+   * @param codeVerifier The code verifier of the authorization request.
+   * @throws AuthenticationError if the OIDC authentication is disabled, the code is invalid or the user is not allowed to log in.
+   */
+  async loginWithOidc(
+    code: string,
+    redirectUri: string,
+    codeVerifier: string,
+  ): Promise<UserSessionToken> {
+    const identity = await this.getOidcClient().exchangeCode(code, redirectUri, codeVerifier)
+
+    if (!this.isOidcIdentityAllowed(identity)) {
+      this.logger.warn(
+        { subject: identity.subject, email: identity.email, groups: identity.groups },
+        "OIDC user is not allowed to log in",
+      )
+      throw new AuthenticationError("The user is not allowed to log in")
+    }
+
+    const user = await this.database.backend.user.upsert({
+      where: {
+        oidcIssuer_oidcSubject: { oidcIssuer: identity.issuer, oidcSubject: identity.subject },
+      },
+      create: {
+        oidcIssuer: identity.issuer,
+        oidcSubject: identity.subject,
+        displayName: identity.displayName,
+        email: identity.email,
+      },
+      update: {
+        displayName: identity.displayName,
+        email: identity.email,
+      },
+    })
+
+    return await this.createSession(user)
+  }
+
+  /**
+   * Gets the user owning the session.
+   *
+   * @param token The token of the session.
+   * @throws AuthenticationError if the session does not exist or expired.
+   */
+  async authenticate(token: string): Promise<User> {
+    const session = await this.database.backend.userSession.findUnique({
+      where: { id: hashSessionToken(token) },
+      include: { user: true },
+    })
+
+    if (!session || session.expiresAt <= new Date()) {
+      throw new AuthenticationError("The session is invalid or expired")
+    }
+
+    return session.user
+  }
+
+  /**
+   * Deletes the session. Does nothing if the session does not exist.
+   *
+   * @param token The token of the session.
+   */
+  async logout(token: string): Promise<void> {
+    await this.database.backend.userSession.deleteMany({
+      where: { id: hashSessionToken(token) },
+    })
+  }
+
+  private async createSession(user: User): Promise<UserSessionToken> {
+    const token = randomBytes(32).toString("base64url")
+    const expiresAt = new Date(Date.now() + this.config.HIGHSTATE_AUTH_SESSION_TTL_MS)
+
+    await this.database.backend.userSession.create({
+      data: {
+        id: hashSessionToken(token),
+        userId: user.id,
+        expiresAt,
+      },
+    })
+
+    // clean up the expired sessions of the user to keep the table small
+    await this.database.backend.userSession.deleteMany({
+      where: { userId: user.id, expiresAt: { lte: new Date() } },
+    })
+
+    this.logger.info({ userId: user.id }, "user logged in")
+
+    return { token, expiresAt, user }
+  }
+
+  private async getLocalUser(username: string): Promise<User> {
+    const user = await this.database.backend.user.findUnique({ where: { username } })
+
+    if (!user?.passwordHash) {
+      throw new LocalUserNotFoundError(username)
+    }
+
+    return user
+  }
+
+  private isOidcIdentityAllowed(identity: OidcIdentity): boolean {
+    const subjects = this.config.HIGHSTATE_AUTH_OIDC_ALLOWED_SUBJECTS
+    const emails = this.config.HIGHSTATE_AUTH_OIDC_ALLOWED_EMAILS
+    const groups = this.config.HIGHSTATE_AUTH_OIDC_ALLOWED_GROUPS
+
+    if (subjects.length === 0 && emails.length === 0 && groups.length === 0) {
+      return true
+    }
+
+    if (subjects.includes(identity.subject)) {
+      return true
+    }
+
+    // the unverified email may be set to anything by the user,
+    // so the email is only trusted when the issuer explicitly reports it as verified
+    if (identity.email && identity.emailVerified === true) {
+      const email = identity.email.toLowerCase()
+
+      if (emails.some(allowed => allowed.toLowerCase() === email)) {
+        return true
+      }
+    }
+
+    return identity.groups.some(group => groups.includes(group))
+  }
+
+  private getOidcClient(): OidcClient {
+    if (!this.oidcClient) {
+      throw new AuthenticationError("The OIDC authentication is disabled")
+    }
+
+    return this.oidcClient
+  }
+
+  static create(
+    config: z.infer<typeof authConfig>,
+    database: DatabaseManager,
+    logger: Logger,
+  ): AuthService {
+    const serviceLogger = logger.child({ service: "AuthService" })
+
+    return new AuthService(
+      config,
+      database,
+      config.HIGHSTATE_AUTH_TYPE === "oidc" ? OidcClient.create(config, serviceLogger) : undefined,
+      serviceLogger,
+    )
+  }
+}
+
+function hashSessionToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex")
+}
@@ -1,6 +1,6 @@
 import { hostname } from "node:os"
 import { describe, expect } from "vitest"
-import { getInitialBackendUnlockMethodMeta } from "../database/local/backend"
+import { getInitialBackendUnlockMethodMeta } from "../database/master-key"
 import { test } from "../test-utils"
 import { TestDatabaseManager } from "../test-utils/database"
 import { BackendUnlockService } from "./backend-unlock"
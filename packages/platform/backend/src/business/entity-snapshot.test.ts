@@ -1,20 +1,31 @@
 import type { ProjectDatabase } from "../database"
 import type { ObjectRefIndexService } from "./object-ref-index"
-import { getEntityId } from "@highstate/contract"
+import type { UnitOutputService } from "./unit-output"
+import { getEntityId, type InstanceModel } from "@highstate/contract"
 import { createId } from "@paralleldrive/cuid2"
-import { describe, vi } from "vitest"
+import { describe, type MockedObject, vi } from "vitest"
 import { test } from "../test-utils"
 import { EntitySnapshotService } from "./entity-snapshot"
 
 const entitySnapshotTest = test.extend<{
+  unitOutputService: MockedObject<UnitOutputService>
   entitySnapshotService: EntitySnapshotService
 }>({
-  entitySnapshotService: async ({ database, logger }, use) => {
+  unitOutputService: async ({}, use) => {
+    const unitOutputService = vi.mockObject({
+      parseEntityOutputs: vi.fn(),
+    } as unknown as UnitOutputService)
+
+    await use(unitOutputService)
+  },
+
+  entitySnapshotService: async ({ database, unitOutputService, logger }, use) => {
     const service = new EntitySnapshotService(
       database,
       vi.mockObject({
         track: vi.fn().mockResolvedValue(undefined),
       } as unknown as ObjectRefIndexService),
+      unitOutputService,
       logger.child({ service: "EntitySnapshotService" }),
     )
 
@@ -272,6 +283,81 @@ describe("persistUnitEntitySnapshots", () => {
   )
 })
 
+describe("persistInstanceEntitySnapshots", () => {
+  entitySnapshotTest(
+    "attributes snapshots to last operation of instance",
+    async ({
+      entitySnapshotService,
+      unitOutputService,
+      projectDatabase,
+      project,
+      createInstanceState,
+      expect,
+    }) => {
+      const operation = await createOperation(projectDatabase)
+      const state = await createInstanceState(project.id)
+
+      await projectDatabase.instanceOperationState.create({
+        data: {
+          operationId: operation.id,
+          stateId: state.id,
+          status: "updated",
+          model: {} as InstanceModel,
+          resolvedInputs: {},
+        },
+      })
+
+      const entityId = getEntityId({
+        $meta: { type: "test.entity.v1", identity: "id-1" },
+      })
+
+      unitOutputService.parseEntityOutputs.mockResolvedValue({
+        nodes: [
+          {
+            entityId,
+            entityType: "test.entity.v1",
+            identity: "id-1",
+            meta: null,
+            content: { value: "hello" },
+            referencedOutputs: [],
+            exportedOutputs: ["value"],
+          },
+        ],
+        implicitReferences: [],
+        explicitReferences: [],
+      })
+
+      await entitySnapshotService.persistInstanceEntitySnapshots(project.id, state.id, {
+        value: { $meta: { type: "test.entity.v1", identity: "id-1" }, value: "hello" },
+      })
+
+      expect(unitOutputService.parseEntityOutputs).toHaveBeenCalledWith(
+        expect.objectContaining({ libraryId: project.libraryId }),
+      )
+
+      const snapshots = await projectDatabase.entitySnapshot.findMany({
+        where: { stateId: state.id },
+      })
+      expect(snapshots).toHaveLength(1)
+      expect(snapshots[0]?.operationId).toBe(operation.id)
+      expect(snapshots[0]?.entityId).toBe(entityId)
+    },
+  )
+
+  entitySnapshotTest(
+    "rejects instance without operations",
+    async ({ entitySnapshotService, unitOutputService, project, createInstanceState, expect }) => {
+      const state = await createInstanceState(project.id)
+
+      await expect(
+        entitySnapshotService.persistInstanceEntitySnapshots(project.id, state.id, {}),
+      ).rejects.toThrow("has no operations")
+
+      expect(unitOutputService.parseEntityOutputs).not.toHaveBeenCalled()
+    },
+  )
+})
+
 describe("listReferencedEntitySnapshotsForOutput", () => {
   entitySnapshotTest(
     "returns snapshots when output is exported",
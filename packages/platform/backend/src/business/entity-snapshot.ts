@@ -1,11 +1,18 @@
 import type { Logger } from "pino"
 import type { ObjectRefIndexService } from "./object-ref-index"
-import type { UnitEntitySnapshotPayload } from "./unit-output"
+import type { UnitEntitySnapshotPayload, UnitOutputService } from "./unit-output"
 import { createHash } from "node:crypto"
+import { parseInstanceId } from "@highstate/contract"
 import { createId } from "@paralleldrive/cuid2"
 import { PrismaClientKnownRequestError } from "@prisma/client/runtime/client"
 import { type DatabaseManager, DbNull, type ProjectTransaction } from "../database"
-import { type LibraryModel, stableJsonStringify } from "../shared"
+import {
+  InstanceStateNotFoundError,
+  InvalidInstanceKindError,
+  type LibraryModel,
+  ProjectNotFoundError,
+  stableJsonStringify,
+} from "../shared"
 
 function sha256String(value: string): string {
   return createHash("sha256").update(value).digest("hex")
@@ -54,6 +61,7 @@ export class EntitySnapshotService {
   constructor(
     private readonly database: DatabaseManager,
     private readonly objectRefIndexService: ObjectRefIndexService,
+    private readonly unitOutputService: UnitOutputService,
     private readonly logger: Logger,
   ) {}
 
@@ -884,6 +892,85 @@ export class EntitySnapshotService {
     }
   }
 
+  /**
+   * Persists the entity snapshots of the unit outputs provided outside of the operation,
+   * e.g. by the worker.
+   *
+   * The snapshots are attributed to the last operation of the instance.
+   *
+   * @param projectId The ID of the project containing the instance.
+   * @param stateId The ID of the unit instance state.
+   * @param outputs The entity values keyed by the output names of the unit.
+   */
+  async persistInstanceEntitySnapshots(
+    projectId: string,
+    stateId: string,
+    outputs: Record<string, unknown>,
+  ): Promise<void> {
+    const project = await this.database.backend.project.findUnique({
+      where: { id: projectId },
+      select: { libraryId: true },
+    })
+
+    if (!project) {
+      throw new ProjectNotFoundError(projectId)
+    }
+
+    const projectDatabase = await this.database.forProject(projectId)
+
+    const state = await projectDatabase.instanceState.findUnique({
+      where: { id: stateId },
+      select: {
+        instanceId: true,
+        kind: true,
+        operationStates: {
+          take: 1,
+          orderBy: { startedAt: "desc" },
+          select: { operationId: true },
+        },
+      },
+    })
+
+    if (!state) {
+      throw new InstanceStateNotFoundError(projectId, stateId)
+    }
+
+    if (state.kind !== "unit") {
+      throw new InvalidInstanceKindError(projectId, stateId, "unit", state.kind)
+    }
+
+    const [lastOperationState] = state.operationStates
+    if (!lastOperationState) {
+      throw new Error(
+        `Instance "${state.instanceId}" has no operations to attribute the entity snapshots to`,
+      )
+    }
+
+    const [instanceType] = parseInstanceId(state.instanceId)
+
+    const payload = await this.unitOutputService.parseEntityOutputs({
+      libraryId: project.libraryId,
+      instanceType,
+      outputs,
+    })
+
+    if (!payload) {
+      return
+    }
+
+    await this.persistUnitEntitySnapshots({
+      projectId,
+      operationId: lastOperationState.operationId,
+      stateId,
+      payload,
+    })
+
+    this.logger.info(
+      { projectId, stateId, snapshotCount: payload.nodes.length },
+      "persisted instance entity snapshots",
+    )
+  }
+
   private async persistUnitEntitySnapshotsInTransaction(
     tx: ProjectTransaction,
     options: {
@@ -8,12 +8,16 @@ export * from "./instance-state"
 export * from "./library"
 export * from "./object-ref-index"
 export * from "./operation"
+export * from "./operation-approval"
 export * from "./project"
 export * from "./project-model"
 export * from "./project-port"
 export * from "./project-unlock"
+export * from "./pulumi-backend"
 export * from "./secret"
+export * from "./service-account-access"
 export * from "./settings"
+export * from "./stack-state"
 export * from "./terminal-session"
 export * from "./unit-extra"
 export * from "./unit-output"
@@ -1,6 +1,8 @@
 import type { CommonObjectMeta } from "@highstate/contract"
 import type { ProjectTransaction } from "../database"
 import { describe, type MockedObject, vi } from "vitest"
+import { LockManager } from "../lock"
+import { MemoryLockBackend } from "../lock/memory"
 import { MemoryPubSubBackend, PubSubManager } from "../pubsub"
 import { type InstanceLockEvent, InstanceLockLostError } from "../shared"
 import { test } from "../test-utils"
@@ -31,6 +33,7 @@ const instanceLockTest = test.extend<{
   instanceLockService: async ({ database, pubsubManager, logger }, use) => {
     const service = new InstanceLockService(
       database,
+      new LockManager(MemoryLockBackend.create()),
       pubsubManager,
       logger.child({ service: "InstanceLockService" }),
     )
@@ -141,6 +144,42 @@ describe("tryLockInstances", () => {
     },
   )
 
+  instanceLockTest(
+    "takes over locks held by dead backends",
+    async ({ instanceLockService, projectDatabase, project, createInstanceState, expect }) => {
+      // arrange
+      const instance = await createInstanceState(project.id)
+
+      await projectDatabase.instanceLock.create({
+        data: {
+          stateId: instance.id,
+          meta: { title: "Stale Lock" },
+          token: "stale-token-123",
+          holderId: "dead-holder",
+        },
+      })
+
+      const lockMeta: CommonObjectMeta = { title: "New Lock" }
+
+      // act
+      const [token, lockedStateIds] = await instanceLockService.tryLockInstances(
+        project.id,
+        [instance.id],
+        lockMeta,
+      )
+
+      // assert
+      expect(token).not.toBe("")
+      expect(lockedStateIds).toEqual([instance.id])
+
+      const lock = await projectDatabase.instanceLock.findUnique({
+        where: { stateId: instance.id },
+      })
+      expect(lock?.token).toBe(token)
+      expect(lock?.holderId).not.toBe("dead-holder")
+    },
+  )
+
   instanceLockTest(
     "locks available instances when partial lock is allowed",
     async ({
@@ -1,6 +1,7 @@
 import type { CommonObjectMeta } from "@highstate/contract"
 import type { Logger } from "pino"
 import type { DatabaseManager, InstanceLock, ProjectTransaction } from "../database"
+import type { LockManager } from "../lock"
 import type { PubSubManager } from "../pubsub"
 import { createId } from "@paralleldrive/cuid2"
 import { type InstanceLockEvent, InstanceLockLostError } from "../shared"
@@ -8,10 +9,14 @@ import { type InstanceLockEvent, InstanceLockLostError } from "../shared"
 /**
  * Service for managing instance locks within projects.
  * Handles atomic lock operations using database transactions.
+ *
+ * Each lock records the runtime of the backend holding it,
+ * so the locks held by the crashed backends can be taken over by the others.
  */
 export class InstanceLockService {
   constructor(
     private readonly database: DatabaseManager,
+    private readonly lockManager: LockManager,
     private readonly pubsubManager: PubSubManager,
     private readonly logger: Logger,
   ) {}
@@ -44,65 +49,112 @@ export class InstanceLockService {
     const token = customToken ?? createId()
     const database = await this.database.forProject(projectId)
 
-    return await database.$transaction(async tx => {
-      // check for existing locks on requested instances
-      const existingLocks = await tx.instanceLock.findMany({
-        where: { stateId: { in: stateIds } },
-        select: { stateId: true },
-      })
+    // serialize the lock attempts across the backends sharing the project
+    const lockKeys = stateIds.map(stateId => ["instance-lock", projectId, stateId] as const)
 
-      const lockedStateIds = existingLocks.map(lock => lock.stateId)
-      const availableStateIds = stateIds.filter(id => !lockedStateIds.includes(id))
+    return await this.lockManager.acquire(lockKeys, async () => {
+      const staleStateIds = await this.getStaleLockStateIds(projectId, stateIds)
 
-      if (lockedStateIds.length > 0) {
-        this.logger.debug(
-          {
-            projectId,
-            conflictingInstances: lockedStateIds.length,
-            totalRequested: stateIds.length,
-          },
-          "found %s conflicting locks when attempting to lock %s instances",
-          lockedStateIds.length,
-          stateIds.length,
-        )
+      return await database.$transaction(async tx => {
+        if (staleStateIds.length > 0) {
+          await tx.instanceLock.deleteMany({ where: { stateId: { in: staleStateIds } } })
 
-        if (!allowPartialLock) {
-          return ["", []]
+          this.logger.warn(
+            { projectId, staleStateIds },
+            "took over %s locks held by dead backends",
+            staleStateIds.length,
+          )
         }
-      }
 
-      if (availableStateIds.length === 0) {
-        // when custom token is provided and no instances are locked, don't return the token
-        // when allowPartialLock is true and no custom token, return a token for consistency
-        return [allowPartialLock && !customToken ? token : "", []]
-      }
+        // check for existing locks on requested instances
+        const existingLocks = await tx.instanceLock.findMany({
+          where: { stateId: { in: stateIds } },
+          select: { stateId: true },
+        })
 
-      // create locks for available instances with the generated token
-      const lockData: InstanceLock[] = availableStateIds.map(stateId => ({
-        stateId,
-        meta: lockMeta,
-        token,
-        acquiredAt: new Date(),
-      }))
+        const lockedStateIds = existingLocks.map(lock => lock.stateId)
+        const availableStateIds = stateIds.filter(id => !lockedStateIds.includes(id))
+
+        if (lockedStateIds.length > 0) {
+          this.logger.debug(
+            {
+              projectId,
+              conflictingInstances: lockedStateIds.length,
+              totalRequested: stateIds.length,
+            },
+            "found %s conflicting locks when attempting to lock %s instances",
+            lockedStateIds.length,
+            stateIds.length,
+          )
+
+          if (!allowPartialLock) {
+            return ["", []]
+          }
+        }
 
-      await tx.instanceLock.createMany({ data: lockData })
+        if (availableStateIds.length === 0) {
+          // when custom token is provided and no instances are locked, don't return the token
+          // when allowPartialLock is true and no custom token, return a token for consistency
+          return [allowPartialLock && !customToken ? token : "", []]
+        }
 
-      await action?.(tx, availableStateIds)
+        // create locks for available instances with the generated token
+        const lockData: InstanceLock[] = availableStateIds.map(stateId => ({
+          stateId,
+          meta: lockMeta,
+          token,
+          holderId: this.lockManager.holderId,
+          acquiredAt: new Date(),
+        }))
 
-      this.logger.debug(
-        { projectId, lockedCount: availableStateIds.length, token },
-        "locked %s instances",
-        availableStateIds.length,
-      )
+        await tx.instanceLock.createMany({ data: lockData })
+
+        await action?.(tx, availableStateIds)
 
-      // publish lock event
-      await this.pubsubManager.publish(["instance-lock", projectId], {
-        type: "locked",
-        locks: lockData,
+        this.logger.debug(
+          { projectId, lockedCount: availableStateIds.length, token },
+          "locked %s instances",
+          availableStateIds.length,
+        )
+
+        // publish lock event
+        await this.pubsubManager.publish(["instance-lock", projectId], {
+          type: "locked",
+          locks: lockData,
+        })
+
+        return [token, availableStateIds]
       })
+    })
+  }
 
-      return [token, availableStateIds]
+  /**
+   * Finds the locks on the specified instances held by the backends which are no longer alive.
+   *
+   * The locks without the holder are never considered stale here,
+   * they are only removed by the recovery of the project state.
+   *
+   * @param projectId The project ID containing the instances.
+   * @param stateIds The instance state IDs to check.
+   * @returns The state IDs of the instances with stale locks.
+   */
+  private async getStaleLockStateIds(projectId: string, stateIds: string[]): Promise<string[]> {
+    const database = await this.database.forProject(projectId)
+
+    const locks = await database.instanceLock.findMany({
+      where: {
+        stateId: { in: stateIds },
+        holderId: { not: null },
+      },
+      select: { stateId: true, holderId: true },
     })
+
+    const holderIds = Array.from(new Set(locks.map(lock => lock.holderId ?? "")))
+    const aliveHolderIds = await this.lockManager.getAliveHolderIds(holderIds)
+
+    return locks
+      .filter(lock => !aliveHolderIds.includes(lock.holderId ?? ""))
+      .map(lock => lock.stateId)
   }
 
   /**
@@ -10,7 +10,12 @@ import type { WorkerService } from "./worker"
 import { parseInstanceId } from "@highstate/contract"
 import { createId } from "@paralleldrive/cuid2"
 import { describe, type MockedObject, vi } from "vitest"
-import { InstanceLockedError, InstanceStateNotFoundError } from "../shared"
+import {
+  driftCustomStatusName,
+  driftDetectorServiceAccount,
+  InstanceLockedError,
+  InstanceStateNotFoundError,
+} from "../shared"
 import { test } from "../test-utils"
 import { InstanceStateService } from "./instance-state"
 
@@ -753,3 +758,42 @@ describe("removeCustomStatus", () => {
     },
   )
 })
+
+describe("updateDriftStatus", () => {
+  instanceStateTest(
+    "attaches drifted status and removes it when no drift is detected",
+    async ({ instanceStateService, projectDatabase, project, createInstanceState, expect }) => {
+      // arrange
+      const instanceState = await createInstanceState(project.id)
+
+      const where = {
+        stateId_serviceAccountId_name: {
+          stateId: instanceState.id,
+          serviceAccountId: driftDetectorServiceAccount.id,
+          name: driftCustomStatusName,
+        },
+      }
+
+      // act
+      await instanceStateService.updateDriftStatus(project.id, instanceState.id, [
+        {
+          urn: "urn:pulumi:main::k8s::kubernetes:apps/v1:Deployment::app",
+          type: "kubernetes:apps/v1:Deployment",
+          deleted: false,
+          diffs: ["spec"],
+        },
+      ])
+
+      const driftedStatus = await projectDatabase.instanceCustomStatus.findUnique({ where })
+
+      await instanceStateService.updateDriftStatus(project.id, instanceState.id, [])
+
+      const clearedStatus = await projectDatabase.instanceCustomStatus.findUnique({ where })
+
+      // assert
+      expect(driftedStatus?.value).toBe("drifted")
+      expect(driftedStatus?.message).toContain("~ app (kubernetes:apps/v1:Deployment): spec")
+      expect(clearedStatus).toBeNull()
+    },
+  )
+})
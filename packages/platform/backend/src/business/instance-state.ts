@@ -9,9 +9,13 @@ import type { Logger } from "pino"
 import type { ArtifactService } from "../artifact"
 import type { SecretService, UnitExtraService, WorkerService } from "../business"
 import type { PubSubManager } from "../pubsub"
-import type { RunnerBackend } from "../runner"
+import type { DriftedResource, RunnerBackend } from "../runner"
 import type { ObjectRefIndexService } from "./object-ref-index"
-import { type InstanceId, parseInstanceId } from "@highstate/contract"
+import {
+  type InstanceId,
+  parseInstanceId,
+  WellKnownInstanceCustomStatus,
+} from "@highstate/contract"
 import { isNonNullish, omit } from "remeda"
 import {
   type DatabaseManager,
@@ -23,6 +27,8 @@ import {
   type ProjectTransaction,
 } from "../database"
 import {
+  driftCustomStatusName,
+  driftDetectorServiceAccount,
   forSchema,
   type InstanceCustomStatusInput,
   InstanceLockedError,
@@ -167,7 +173,7 @@ export function includeForInstanceState(
     parent: options.includeParentInstanceId ? { select: { instanceId: true } } : undefined,
 
     operationStates: options.includeLastOperationState
-      ? { take: 1, orderBy: { startedAt: "desc" } }
+      ? { take: 1, orderBy: { startedAt: "desc" }, omit: { secrets: true } }
       : undefined,
 
     evaluationState: options.includeEvaluationState,
@@ -187,7 +193,7 @@ export function mapInstanceStateResult(
   instance: InstanceState & {
     secrets: { name: string | null }[]
     parent?: { instanceId: InstanceId } | null
-    operationStates?: InstanceOperationState[]
+    operationStates?: Omit<InstanceOperationState, "secrets">[]
     terminals?: { id: string }[]
     pages?: { id: string }[]
     customStatuses: InstanceState["customStatuses"]
@@ -213,6 +219,18 @@ export function mapInstanceStateResult(
   }
 }
 
+function formatDriftedResources(driftedResources: DriftedResource[]): string {
+  const lines = driftedResources.map(resource => {
+    const name = resource.urn.split("::").at(-1) ?? resource.urn
+
+    return resource.deleted
+      ? `- ${name} (${resource.type}): deleted`
+      : `~ ${name} (${resource.type}): ${resource.diffs.join(", ") || "changed"}`
+  })
+
+  return ["The following resources were changed outside of Highstate:", "", ...lines].join("\n")
+}
+
 export class InstanceStateService {
   constructor(
     private readonly database: DatabaseManager,
@@ -629,6 +647,168 @@ export class InstanceStateService {
     })
   }
 
+  /**
+   * Creates or updates a page of an instance outside of the operation, e.g. by the worker.
+   *
+   * The pages not included in the update are preserved,
+   * but the next completed operation of the instance replaces all its pages.
+   *
+   * @param projectId The ID of the project containing the instance.
+   * @param stateId The ID of the instance state to update.
+   * @param page The page to create or update.
+   */
+  async updateUnitPage(projectId: string, stateId: string, page: UnitPage): Promise<void> {
+    const database = await this.database.forProject(projectId)
+
+    const [updatedPageIds, pages] = await database.$transaction(async tx => {
+      const updatedPageIds = await this.unitExtraService.processUnitPages(tx, stateId, [page], {
+        prune: false,
+      })
+
+      const pages = await tx.page.findMany({ where: { stateId }, select: { id: true } })
+
+      return [updatedPageIds, pages] as const
+    })
+
+    await this.objectRefIndexService.track(projectId, updatedPageIds)
+
+    void this.pubsubManager.publish(["instance-state", projectId], {
+      type: "patched",
+      stateId,
+      patch: { pageIds: pages.map(page => page.id) },
+    })
+  }
+
+  /**
+   * Removes a page from an instance outside of the operation, e.g. by the worker.
+   *
+   * @param projectId The ID of the project containing the instance.
+   * @param stateId The ID of the instance state to update.
+   * @param pageName The name of the page to remove.
+   */
+  async removeUnitPage(projectId: string, stateId: string, pageName: string): Promise<void> {
+    const database = await this.database.forProject(projectId)
+
+    const pages = await database.$transaction(async tx => {
+      await this.unitExtraService.removeUnitPages(tx, stateId, [pageName])
+
+      return await tx.page.findMany({ where: { stateId }, select: { id: true } })
+    })
+
+    void this.pubsubManager.publish(["instance-state", projectId], {
+      type: "patched",
+      stateId,
+      patch: { pageIds: pages.map(page => page.id) },
+    })
+  }
+
+  /**
+   * Creates or updates a terminal of an instance outside of the operation, e.g. by the worker.
+   *
+   * The terminals not included in the update are preserved,
+   * but the next completed operation of the instance replaces all its terminals.
+   *
+   * @param projectId The ID of the project containing the instance.
+   * @param stateId The ID of the instance state to update.
+   * @param terminal The terminal to create or update.
+   */
+  async updateUnitTerminal(
+    projectId: string,
+    stateId: string,
+    terminal: UnitTerminal,
+  ): Promise<void> {
+    const database = await this.database.forProject(projectId)
+
+    const [updatedTerminalIds, terminals] = await database.$transaction(async tx => {
+      const updatedTerminalIds = await this.unitExtraService.processUnitTerminals(
+        tx,
+        stateId,
+        [terminal],
+        { prune: false },
+      )
+
+      const terminals = await tx.terminal.findMany({ where: { stateId }, select: { id: true } })
+
+      return [updatedTerminalIds, terminals] as const
+    })
+
+    await this.objectRefIndexService.track(projectId, updatedTerminalIds)
+
+    void this.pubsubManager.publish(["instance-state", projectId], {
+      type: "patched",
+      stateId,
+      patch: { terminalIds: terminals.map(terminal => terminal.id) },
+    })
+  }
+
+  /**
+   * Marks a terminal of an instance as unavailable outside of the operation, e.g. by the worker.
+   *
+   * The terminal is not deleted since it may still be referenced by the terminal sessions.
+   *
+   * @param projectId The ID of the project containing the instance.
+   * @param stateId The ID of the instance state to update.
+   * @param terminalName The name of the terminal to remove.
+   */
+  async removeUnitTerminal(
+    projectId: string,
+    stateId: string,
+    terminalName: string,
+  ): Promise<void> {
+    const database = await this.database.forProject(projectId)
+
+    await database.$transaction(async tx => {
+      await this.unitExtraService.removeUnitTerminals(tx, stateId, [terminalName])
+    })
+  }
+
+  /**
+   * Records the result of the drift detection for an instance in a project.
+   *
+   * Attaches the `drifted` custom status owned by the built-in drift detector service account
+   * if some resources were changed outside of Highstate and removes it otherwise.
+   *
+   * @param projectId The ID of the project containing the instance.
+   * @param stateId The ID of the instance state to update.
+   * @param driftedResources The resources changed outside of Highstate.
+   */
+  async updateDriftStatus(
+    projectId: string,
+    stateId: string,
+    driftedResources: DriftedResource[],
+  ): Promise<void> {
+    if (driftedResources.length === 0) {
+      await this.removeCustomStatus(
+        projectId,
+        stateId,
+        driftDetectorServiceAccount.id,
+        driftCustomStatusName,
+      )
+      return
+    }
+
+    const database = await this.database.forProject(projectId)
+
+    await database.serviceAccount.upsert({
+      where: { id: driftDetectorServiceAccount.id },
+      create: driftDetectorServiceAccount,
+      update: {},
+    })
+
+    await this.updateCustomStatus(projectId, stateId, driftDetectorServiceAccount.id, {
+      name: driftCustomStatusName,
+      meta: {
+        title: "Drift",
+        description:
+          driftedResources.length === 1
+            ? "1 resource was changed outside of Highstate"
+            : `${driftedResources.length} resources were changed outside of Highstate`,
+      },
+      value: WellKnownInstanceCustomStatus.Drifted,
+      message: formatDriftedResources(driftedResources),
+    })
+  }
+
   /**
    * Creates the provided operation states.
    * Also updates the instance state if provided.
@@ -650,6 +830,7 @@ export class InstanceStateService {
         operationStates.map(async ([opState, instanceState]) => {
           const operationState = await tx.instanceOperationState.create({
             data: opState,
+            omit: { secrets: true },
           })
 
           const state = await tx.instanceState.update({
@@ -705,6 +886,7 @@ export class InstanceStateService {
           },
         },
         data: operationState,
+        omit: { secrets: true },
       })
 
       // update unit-specific data if provided
@@ -0,0 +1,254 @@
+import type { LibraryBackend } from "../library"
+import type { ProjectUnlockBackend } from "../unlock"
+import { describe, type MockedObject, vi } from "vitest"
+import { MemoryPubSubBackend, PubSubManager } from "../pubsub"
+import { LibrarySourceNotAllowedError, type LibrarySpec } from "../shared"
+import { test } from "../test-utils"
+import { LibraryService } from "./library"
+
+// the fixtures have unique names, since the fixtures of all test files share the same base test
+const libraryTest = test.extend<{
+  restrictedLibraryBackend: MockedObject<LibraryBackend>
+  libraryPubSubManager: PubSubManager
+  restrictedLibraryService: LibraryService
+}>({
+  restrictedLibraryBackend: async ({}, use) => {
+    const libraryBackend = vi.mockObject({
+      prepareLibrary: vi.fn().mockResolvedValue(undefined),
+      refreshLibrary: vi.fn().mockResolvedValue(undefined),
+    } as unknown as LibraryBackend)
+
+    await use(libraryBackend)
+  },
+
+  libraryPubSubManager: async ({ logger }, use) => {
+    await use(new PubSubManager(new MemoryPubSubBackend(logger), logger))
+  },
+
+  restrictedLibraryService: async (
+    { database, restrictedLibraryBackend, libraryPubSubManager, logger },
+    use,
+  ) => {
+    const service = new LibraryService(
+      {
+        HIGHSTATE_LIBRARY_ALLOWED_NPM_REGISTRIES: ["https://npm.example.com/platform"],
+        HIGHSTATE_LIBRARY_ALLOWED_NPM_TARBALL_PATHS: ["/var/tarballs"],
+        HIGHSTATE_LIBRARY_ALLOWED_NPM_PACKAGES: ["@highstate/*", "components"],
+        HIGHSTATE_LIBRARY_ALLOWED_GIT_URLS: ["https://git.example.com/platform"],
+      },
+      database,
+      restrictedLibraryBackend,
+      vi.mockObject({} as ProjectUnlockBackend),
+      libraryPubSubManager,
+      logger,
+    )
+
+    await use(service)
+
+    service[Symbol.dispose]()
+  },
+})
+
+function createNpmSpec(overrides: Partial<Extract<LibrarySpec, { type: "npm" }>> = {}) {
+  return {
+    type: "npm" as const,
+    packages: { "@highstate/library": "1.0.0", components: "1.0.0" },
+    libraryPackages: ["@highstate/library"],
+    ...overrides,
+  }
+}
+
+describe("createLibrary", () => {
+  libraryTest(
+    "creates npm library from allowed sources",
+    async ({ restrictedLibraryService, expect }) => {
+      // act
+      const library = await restrictedLibraryService.createLibrary({
+        meta: { title: "Platform" },
+        spec: createNpmSpec({
+          registryUrl: "https://npm.example.com/platform/stable/",
+          tarballPath: "/var/tarballs/release",
+        }),
+      })
+
+      // assert
+      expect(library.spec.type).toBe("npm")
+    },
+  )
+
+  libraryTest("rejects packages not allowed", async ({ restrictedLibraryService, expect }) => {
+    // act & assert
+    await expect(
+      restrictedLibraryService.createLibrary({
+        meta: { title: "Platform" },
+        spec: createNpmSpec({ packages: { "@highstate/library": "1.0.0", evil: "1.0.0" } }),
+      }),
+    ).rejects.toThrow(LibrarySourceNotAllowedError)
+  })
+
+  libraryTest("rejects registry not allowed", async ({ restrictedLibraryService, expect }) => {
+    // act & assert
+    await expect(
+      restrictedLibraryService.createLibrary({
+        meta: { title: "Platform" },
+        spec: createNpmSpec({ registryUrl: "https://npm.example.com/platform-evil" }),
+      }),
+    ).rejects.toThrow(LibrarySourceNotAllowedError)
+  })
+
+  libraryTest(
+    "rejects tarball path escaping allowed directory",
+    async ({ restrictedLibraryService, expect }) => {
+      // act & assert
+      await expect(
+        restrictedLibraryService.createLibrary({
+          meta: { title: "Platform" },
+          spec: createNpmSpec({ tarballPath: "/var/tarballs/../uploads" }),
+        }),
+      ).rejects.toThrow(LibrarySourceNotAllowedError)
+    },
+  )
+
+  libraryTest(
+    "creates git library from allowed repository",
+    async ({ restrictedLibraryService, expect }) => {
+      // act
+      const library = await restrictedLibraryService.createLibrary({
+        meta: { title: "Platform" },
+        spec: {
+          type: "git",
+          url: "https://git.example.com/platform/components.git",
+          ref: "main",
+          libraryPackages: ["@platform/library"],
+        },
+      })
+
+      // assert
+      expect(library.spec.type).toBe("git")
+    },
+  )
+
+  libraryTest(
+    "rejects git repository not allowed",
+    async ({ restrictedLibraryService, expect }) => {
+      // act & assert
+      await expect(
+        restrictedLibraryService.createLibrary({
+          meta: { title: "Platform" },
+          spec: {
+            type: "git",
+            url: "https://git.example.com/platform/../attacker/components.git",
+            ref: "main",
+            libraryPackages: ["@platform/library"],
+          },
+        }),
+      ).rejects.toThrow(LibrarySourceNotAllowedError)
+    },
+  )
+})
+
+describe("updateLibrarySpec", () => {
+  libraryTest(
+    "does not update spec to source not allowed",
+    async ({ restrictedLibraryService, database, expect }) => {
+      // arrange
+      const library = await restrictedLibraryService.createLibrary({
+        meta: { title: "Platform" },
+        spec: createNpmSpec(),
+      })
+
+      // act
+      const update = restrictedLibraryService.updateLibrarySpec(
+        library.id,
+        createNpmSpec({ registryUrl: "https://attacker.example.com" }),
+      )
+
+      // assert
+      await expect(update).rejects.toThrow(LibrarySourceNotAllowedError)
+
+      const stored = await database.backend.library.findUniqueOrThrow({
+        where: { id: library.id },
+      })
+      expect(stored.spec).toEqual(library.spec)
+    },
+  )
+
+  libraryTest(
+    "does not update spec which cannot be prepared",
+    async ({ restrictedLibraryService, restrictedLibraryBackend, database, expect }) => {
+      // arrange
+      const library = await restrictedLibraryService.createLibrary({
+        meta: { title: "Platform" },
+        spec: createNpmSpec(),
+      })
+
+      restrictedLibraryBackend.prepareLibrary.mockRejectedValue(new Error("install failed"))
+
+      // act
+      const update = restrictedLibraryService.updateLibrarySpec(
+        library.id,
+        createNpmSpec({ packages: { "@highstate/library": "2.0.0" } }),
+      )
+
+      // assert
+      await expect(update).rejects.toThrow("install failed")
+
+      const stored = await database.backend.library.findUniqueOrThrow({
+        where: { id: library.id },
+      })
+      expect(stored.spec).toEqual(library.spec)
+      expect(restrictedLibraryBackend.refreshLibrary).not.toHaveBeenCalled()
+    },
+  )
+
+  libraryTest(
+    "publishes spec change to other backends",
+    async ({ restrictedLibraryService, libraryPubSubManager, expect }) => {
+      // arrange
+      const library = await restrictedLibraryService.createLibrary({
+        meta: { title: "Platform" },
+        spec: createNpmSpec(),
+      })
+
+      const controller = new AbortController()
+      const events = await libraryPubSubManager.subscribe(["library-spec"], controller.signal)
+      const event = events[Symbol.asyncIterator]().next()
+
+      // act
+      await restrictedLibraryService.updateLibrarySpec(
+        library.id,
+        createNpmSpec({ packages: { "@highstate/library": "2.0.0" } }),
+      )
+
+      // assert
+      expect((await event).value).toEqual({ libraryId: library.id })
+      controller.abort()
+    },
+  )
+})
+
+describe("library spec changes", () => {
+  libraryTest(
+    "refreshes library changed by other backend",
+    async ({
+      restrictedLibraryService,
+      restrictedLibraryBackend,
+      libraryPubSubManager,
+      expect,
+    }) => {
+      // arrange
+      expect(restrictedLibraryService).toBeInstanceOf(LibraryService)
+
+      // let the service subscribe to the changes
+      await new Promise(resolve => setImmediate(resolve))
+
+      // act
+      await libraryPubSubManager.publish(["library-spec"], { libraryId: "changed-library" })
+
+      // assert
+      await vi.waitFor(() => {
+        expect(restrictedLibraryBackend.refreshLibrary).toHaveBeenCalledWith("changed-library")
+      })
+    },
+  )
+})
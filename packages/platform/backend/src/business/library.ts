@@ -1,7 +1,9 @@
 import type { Logger } from "pino"
 import type { DatabaseManager } from "../database"
 import type { LibraryBackend, ResolvedUnitSource } from "../library"
+import type { PubSubManager } from "../pubsub"
 import type { ProjectUnlockBackend } from "../unlock"
+import { isAbsolute, resolve } from "node:path"
 import {
   type ComponentInput,
   type ComponentModel,
@@ -9,9 +11,28 @@ import {
   objectEntity,
 } from "@highstate/contract"
 import { armor, Decrypter } from "age-encryption"
-import { type LibraryModel, SYSTEM_EXPORT_COMPONENT_TYPE } from "../shared"
+import { z } from "zod"
+import { stringArrayType } from "../common"
+import {
+  forSchema,
+  type LibraryInput,
+  type LibraryModel,
+  LibraryNotFoundError,
+  type LibraryOutput,
+  LibrarySourceNotAllowedError,
+  type LibrarySpec,
+  libraryOutputSchema,
+  SYSTEM_EXPORT_COMPONENT_TYPE,
+} from "../shared"
 import { projectImportPortDataSchema } from "../shared/models/import"
 
+export const libraryServiceConfig = z.object({
+  HIGHSTATE_LIBRARY_ALLOWED_NPM_REGISTRIES: stringArrayType.default(() => []),
+  HIGHSTATE_LIBRARY_ALLOWED_NPM_TARBALL_PATHS: stringArrayType.default(() => []),
+  HIGHSTATE_LIBRARY_ALLOWED_NPM_PACKAGES: stringArrayType.default(() => []),
+  HIGHSTATE_LIBRARY_ALLOWED_GIT_URLS: stringArrayType.default(() => []),
+})
+
 type ProjectRow = {
   id: string
   name: string
@@ -23,13 +44,34 @@ type ImportPortRow = {
   encryptedContent: string
 }
 
-export class LibraryService {
+/**
+ * Manages the libraries available for the projects.
+ *
+ * The packages of the libraries are installed and imported by the backend,
+ * so the libraries can only be created from the sources allowed by the configuration:
+ * - the npm packages must match `HIGHSTATE_LIBRARY_ALLOWED_NPM_PACKAGES`,
+ *   e.g. `@highstate/*` for all packages of the scope;
+ * - the registry and the tarball directory, if any, must be listed in
+ *   `HIGHSTATE_LIBRARY_ALLOWED_NPM_REGISTRIES` and `HIGHSTATE_LIBRARY_ALLOWED_NPM_TARBALL_PATHS`,
+ *   the sources nested in the listed ones are also allowed;
+ * - the git repository must be listed in `HIGHSTATE_LIBRARY_ALLOWED_GIT_URLS`
+ *   or be nested in the listed URL, since its build scripts are run on the backend.
+ *
+ * The changes of the library specs are published, so all backends sharing the database reload the libraries.
+ */
+export class LibraryService implements Disposable {
+  private readonly abortController = new AbortController()
+
   constructor(
+    private readonly config: z.infer<typeof libraryServiceConfig>,
     private readonly database: DatabaseManager,
     private readonly libraryBackend: LibraryBackend,
     private readonly projectUnlockBackend: ProjectUnlockBackend,
+    private readonly pubsubManager: PubSubManager,
     private readonly logger: Logger,
-  ) {}
+  ) {
+    void this.refreshChangedLibraries()
+  }
 
   /**
    * Returns project-specific virtual components.
@@ -71,6 +113,80 @@ export class LibraryService {
     return await this.libraryBackend.getResolvedUnitSources(libraryId, unitTypes)
   }
 
+  /**
+   * Returns all libraries available for the projects.
+   */
+  async getLibraries(): Promise<LibraryOutput[]> {
+    return await this.database.backend.library.findMany({
+      select: forSchema(libraryOutputSchema),
+    })
+  }
+
+  /**
+   * Creates a new library which can be selected for the new projects.
+   *
+   * The library is created only after its packages are prepared.
+   *
+   * @param input The meta and spec of the library.
+   * @returns The created library.
+   */
+  async createLibrary(input: LibraryInput): Promise<LibraryOutput> {
+    this.assertSourceAllowed(input.spec)
+
+    await this.libraryBackend.prepareLibrary(input.spec)
+
+    const library = await this.database.backend.library.create({
+      data: input,
+      select: forSchema(libraryOutputSchema),
+    })
+
+    this.logger.info({ libraryId: library.id }, `created "%s" library`, input.spec.type)
+
+    return library
+  }
+
+  /**
+   * Updates the spec of the library, e.g. changes the pinned versions of its packages.
+   *
+   * The spec is saved only after its packages are prepared, so the library keeps working
+   * with the previous spec if the new one cannot be prepared.
+   * Then the library is reloaded by all backends and the changes are emitted to all projects using it.
+   *
+   * @param libraryId The ID of the library to update.
+   * @param spec The new spec of the library.
+   */
+  async updateLibrarySpec(libraryId: string, spec: LibrarySpec): Promise<LibraryOutput> {
+    this.assertSourceAllowed(spec)
+
+    const existing = await this.database.backend.library.findUnique({
+      where: { id: libraryId },
+      select: { id: true },
+    })
+
+    if (!existing) {
+      throw new LibraryNotFoundError(libraryId)
+    }
+
+    await this.libraryBackend.prepareLibrary(spec)
+
+    const library = await this.database.backend.library.update({
+      where: { id: libraryId },
+      data: { spec },
+      select: forSchema(libraryOutputSchema),
+    })
+
+    this.logger.info({ libraryId }, "library spec updated")
+
+    await this.libraryBackend.refreshLibrary(libraryId)
+    await this.pubsubManager.publish(["library-spec"], { libraryId })
+
+    return library
+  }
+
+  [Symbol.dispose](): void {
+    this.abortController.abort()
+  }
+
   /**
    * Returns a project-scoped library model where virtual components overlay global components.
    *
@@ -175,6 +291,75 @@ export class LibraryService {
     }
   }
 
+  /**
+   * Reloads the libraries whose specs were changed by other backends.
+   *
+   * The event published by this backend reloads the library once again, which does nothing
+   * since the library is already switched to the packages of the new spec.
+   */
+  private async refreshChangedLibraries(): Promise<void> {
+    const signal = this.abortController.signal
+
+    try {
+      for await (const { libraryId } of await this.pubsubManager.subscribe(
+        ["library-spec"],
+        signal,
+      )) {
+        try {
+          await this.libraryBackend.refreshLibrary(libraryId)
+        } catch (error) {
+          this.logger.error({ error, libraryId }, "failed to refresh changed library")
+        }
+      }
+    } catch (error) {
+      this.logger.error({ error }, "failed to watch library spec changes")
+    }
+  }
+
+  private assertSourceAllowed(spec: LibrarySpec): void {
+    switch (spec.type) {
+      case "npm": {
+        for (const name of Object.keys(spec.packages)) {
+          if (!isPackageAllowed(name, this.config.HIGHSTATE_LIBRARY_ALLOWED_NPM_PACKAGES)) {
+            throw new LibrarySourceNotAllowedError(name, "HIGHSTATE_LIBRARY_ALLOWED_NPM_PACKAGES")
+          }
+        }
+
+        if (
+          spec.registryUrl &&
+          !isSourceAllowed(spec.registryUrl, this.config.HIGHSTATE_LIBRARY_ALLOWED_NPM_REGISTRIES)
+        ) {
+          throw new LibrarySourceNotAllowedError(
+            spec.registryUrl,
+            "HIGHSTATE_LIBRARY_ALLOWED_NPM_REGISTRIES",
+          )
+        }
+
+        if (
+          spec.tarballPath &&
+          !isSourceAllowed(
+            resolve(spec.tarballPath),
+            this.config.HIGHSTATE_LIBRARY_ALLOWED_NPM_TARBALL_PATHS,
+          )
+        ) {
+          throw new LibrarySourceNotAllowedError(
+            spec.tarballPath,
+            "HIGHSTATE_LIBRARY_ALLOWED_NPM_TARBALL_PATHS",
+          )
+        }
+
+        return
+      }
+      case "git": {
+        if (!isSourceAllowed(spec.url, this.config.HIGHSTATE_LIBRARY_ALLOWED_GIT_URLS)) {
+          throw new LibrarySourceNotAllowedError(spec.url, "HIGHSTATE_LIBRARY_ALLOWED_GIT_URLS")
+        }
+
+        return
+      }
+    }
+  }
+
   private getVirtualEntities(): Record<string, EntityModel> {
     return {
       [objectEntity.model.type]: objectEntity.model,
@@ -345,3 +530,38 @@ export class LibraryService {
     }
   }
 }
+
+function isPackageAllowed(name: string, allowedPackages: string[]): boolean {
+  return allowedPackages.some(allowed =>
+    allowed.endsWith("/*") ? name.startsWith(allowed.slice(0, -1)) : name === allowed,
+  )
+}
+
+/**
+ * Checks whether the source is one of the allowed sources or is nested in one of them.
+ *
+ * The paths and the URLs are normalized first, so `..` segments cannot escape the allowed source.
+ */
+function isSourceAllowed(source: string, allowedSources: string[]): boolean {
+  const normalizedSource = normalizeSource(source)
+
+  return allowedSources.some(allowed => {
+    const normalizedAllowed = normalizeSource(allowed)
+
+    return (
+      normalizedSource === normalizedAllowed || normalizedSource.startsWith(`${normalizedAllowed}/`)
+    )
+  })
+}
+
+function normalizeSource(source: string): string {
+  if (isAbsolute(source)) {
+    return resolve(source)
+  }
+
+  if (URL.canParse(source)) {
+    return new URL(source).href.replace(/\/$/, "")
+  }
+
+  return source.replace(/\/$/, "")
+}
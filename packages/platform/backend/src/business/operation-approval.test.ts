@@ -0,0 +1,210 @@
+import type { PubSubManager } from "../pubsub"
+import type { ObjectRefIndexService } from "./object-ref-index"
+import { describe, vi } from "vitest"
+import { AccessError, OperationNotAwaitingApprovalError } from "../shared"
+import { test } from "../test-utils"
+import { OperationService } from "./operation"
+import { OperationApprovalService } from "./operation-approval"
+
+const approvalTest = test.extend<{
+  operationService: OperationService
+  approvalService: OperationApprovalService
+  createAwaitingOperation: () => Promise<string>
+}>({
+  operationService: async ({ database, logger }, use) => {
+    const pubsubManager = vi.mockObject({
+      publish: vi.fn().mockResolvedValue(undefined),
+    } as unknown as PubSubManager)
+
+    const objectRefIndexService = vi.mockObject({
+      track: vi.fn().mockResolvedValue(undefined),
+    } as unknown as ObjectRefIndexService)
+
+    await use(new OperationService(database, pubsubManager, objectRefIndexService, logger))
+  },
+
+  approvalService: async ({ database, operationService, logger }, use) => {
+    const service = new OperationApprovalService(
+      { HIGHSTATE_OPERATION_REQUIRED_APPROVALS: 2 },
+      database,
+      operationService,
+      logger,
+    )
+
+    await use(service)
+  },
+
+  createAwaitingOperation: async ({ project, operationService, approvalService }, use) => {
+    await use(async () => {
+      const operation = await operationService.createOperation(
+        project.id,
+        { title: "Test Operation", initiator: { type: "user", userId: "author" } },
+        "update",
+        [],
+        {},
+      )
+
+      await approvalService.requestApproval(project.id, operation.id, [], {}, [])
+
+      return operation.id
+    })
+  },
+})
+
+describe("OperationApprovalService", () => {
+  approvalTest(
+    "requires approval for all non-preview operations not initiated by system",
+    async ({ approvalService, expect }) => {
+      // arrange
+      const initiator = { type: "user" as const, userId: "author" }
+      const hasUndeployedChanges = vi.fn().mockResolvedValue(false)
+
+      // act & assert
+      await expect(
+        approvalService.isApprovalRequired(
+          "update",
+          { title: "Update", initiator },
+          hasUndeployedChanges,
+        ),
+      ).resolves.toBe(true)
+      await expect(
+        approvalService.isApprovalRequired(
+          "preview",
+          { title: "Preview", initiator },
+          hasUndeployedChanges,
+        ),
+      ).resolves.toBe(false)
+      await expect(
+        approvalService.isApprovalRequired("update", { title: "Unknown" }, hasUndeployedChanges),
+      ).resolves.toBe(true)
+
+      expect(hasUndeployedChanges).not.toHaveBeenCalled()
+    },
+  )
+
+  approvalTest(
+    "requires approval for operations initiated by system only with undeployed changes",
+    async ({ approvalService, expect }) => {
+      // arrange
+      const meta = {
+        title: "Trigger",
+        initiator: { type: "system" as const, source: "trigger-scheduler" },
+      }
+
+      // act & assert
+      await expect(
+        approvalService.isApprovalRequired("update", meta, () => Promise.resolve(false)),
+      ).resolves.toBe(false)
+      await expect(
+        approvalService.isApprovalRequired("update", meta, () => Promise.resolve(true)),
+      ).resolves.toBe(true)
+    },
+  )
+
+  approvalTest(
+    "approves operation after required number of approvals",
+    async ({ approvalService, createAwaitingOperation, project, expect }) => {
+      // arrange
+      const operationId = await createAwaitingOperation()
+
+      // act
+      const first = await approvalService.decide(
+        { projectId: project.id, operationId, decision: "approved" },
+        "reviewer-1",
+      )
+
+      const second = await approvalService.decide(
+        { projectId: project.id, operationId, decision: "approved" },
+        "reviewer-2",
+      )
+
+      // assert
+      expect(first.approved).toBe(false)
+      expect(second.approved).toBe(true)
+    },
+  )
+
+  approvalTest(
+    "counts repeated approvals of same user once",
+    async ({ approvalService, createAwaitingOperation, project, expect }) => {
+      // arrange
+      const operationId = await createAwaitingOperation()
+      const input = { projectId: project.id, operationId, decision: "approved" as const }
+
+      // act
+      await approvalService.decide(input, "reviewer-1")
+      const result = await approvalService.decide(input, "reviewer-1")
+
+      // assert
+      expect(result.approved).toBe(false)
+    },
+  )
+
+  approvalTest(
+    "rejects approval by operation initiator",
+    async ({ approvalService, createAwaitingOperation, project, expect }) => {
+      // arrange
+      const operationId = await createAwaitingOperation()
+
+      // act & assert
+      await expect(
+        approvalService.decide(
+          { projectId: project.id, operationId, decision: "approved" },
+          "author",
+        ),
+      ).rejects.toThrow(AccessError)
+    },
+  )
+
+  approvalTest(
+    "cancels operation on rejection",
+    async ({ approvalService, createAwaitingOperation, project, projectDatabase, expect }) => {
+      // arrange
+      const operationId = await createAwaitingOperation()
+
+      // act
+      await approvalService.decide(
+        { projectId: project.id, operationId, decision: "rejected", comment: "wrong cluster" },
+        "reviewer-1",
+      )
+
+      // assert
+      const operation = await projectDatabase.operation.findUniqueOrThrow({
+        where: { id: operationId },
+      })
+
+      expect(operation.status).toBe("cancelled")
+      expect(operation.finishedAt).not.toBeNull()
+
+      await expect(
+        approvalService.decide(
+          { projectId: project.id, operationId, decision: "approved" },
+          "reviewer-2",
+        ),
+      ).rejects.toThrow(OperationNotAwaitingApprovalError)
+    },
+  )
+
+  approvalTest(
+    "lists only operations awaiting approval",
+    async ({ approvalService, createAwaitingOperation, project, expect }) => {
+      // arrange
+      const awaitingId = await createAwaitingOperation()
+      const rejectedId = await createAwaitingOperation()
+
+      await approvalService.decide(
+        { projectId: project.id, operationId: rejectedId, decision: "rejected" },
+        "reviewer-1",
+      )
+
+      // act
+      const operations = await approvalService.getAwaitingOperations(project.id)
+
+      // assert
+      const operationIds = operations.map(operation => operation.id)
+      expect(operationIds).toContain(awaitingId)
+      expect(operationIds).not.toContain(rejectedId)
+      expect(operations.every(operation => operation.status === "awaiting_approval")).toBe(true)
+    },
+  )
+})
@@ -0,0 +1,253 @@
+import type { Logger } from "pino"
+import type { DatabaseManager, Operation, OperationApproval } from "../database"
+import type { OperationService } from "./operation"
+import { z } from "zod"
+import { createProjectLogger } from "../common"
+import {
+  AccessError,
+  type OperationApprovalInput,
+  type OperationApprovalRequest,
+  type OperationMeta,
+  OperationNotAwaitingApprovalError,
+  OperationNotFoundError,
+  type OperationPhase,
+  type OperationType,
+} from "../shared"
+
+export const operationApprovalServiceConfig = z.object({
+  HIGHSTATE_OPERATION_REQUIRED_APPROVALS: z.coerce.number().int().nonnegative().default(0),
+})
+
+export type OperationApprovalResult = {
+  /**
+   * The operation after the decision.
+   */
+  operation: Operation
+
+  /**
+   * Whether the operation collected all required approvals and can be started.
+   */
+  approved: boolean
+}
+
+/**
+ * Manages the approvals of the operations which must be approved before the execution.
+ *
+ * The approval is required for all non-preview operations when `HIGHSTATE_OPERATION_REQUIRED_APPROVALS`
+ * is greater than zero, including the operations without the initiator.
+ * The operations with the `system` initiator, e.g. launched by the triggers, are only gated
+ * when they would deploy the changes which were not deployed yet,
+ * so they cannot bypass the approval of these changes.
+ * The approvals cannot be enabled without authentication since all users would share the same identity.
+ */
+export class OperationApprovalService {
+  constructor(
+    private readonly config: z.infer<typeof operationApprovalServiceConfig>,
+    private readonly database: DatabaseManager,
+    private readonly operationService: OperationService,
+    private readonly logger: Logger,
+  ) {}
+
+  /**
+   * Checks whether the operation must be approved before the execution.
+   *
+   * @param type The type of the operation.
+   * @param meta The metadata of the operation containing its initiator.
+   * @param hasUndeployedChanges Checks whether the operation would deploy the changes
+   * which were not deployed yet. Only called for the operations with the `system` initiator.
+   */
+  async isApprovalRequired(
+    type: OperationType,
+    meta: OperationMeta,
+    hasUndeployedChanges: () => Promise<boolean>,
+  ): Promise<boolean> {
+    if (this.config.HIGHSTATE_OPERATION_REQUIRED_APPROVALS === 0 || type === "preview") {
+      return false
+    }
+
+    if (meta.initiator?.type === "system") {
+      return await hasUndeployedChanges()
+    }
+
+    return true
+  }
+
+  /**
+   * Puts the operation into the `awaiting_approval` status storing its plan.
+   *
+   * The operation is not held by any backend while awaiting approval,
+   * so it survives the restarts of the backend which launched it.
+   *
+   * @param projectId The ID of the project containing the operation.
+   * @param operationId The ID of the operation.
+   * @param phases The computed phases of the operation.
+   * @param inputHashes The input hashes of the planned instances.
+   * @param previewOperationIds The IDs of the preview operations showing the planned changes.
+   */
+  async requestApproval(
+    projectId: string,
+    operationId: string,
+    phases: OperationPhase[],
+    inputHashes: Record<string, number>,
+    previewOperationIds: string[],
+  ): Promise<Operation> {
+    const logger = createProjectLogger(this.logger, projectId)
+
+    const approvalRequest: OperationApprovalRequest = {
+      requiredApprovals: this.config.HIGHSTATE_OPERATION_REQUIRED_APPROVALS,
+      inputHashes,
+      previewOperationIds,
+    }
+
+    const operation = await this.operationService.updateOperation(projectId, operationId, {
+      status: "awaiting_approval",
+      phases,
+      approvalRequest,
+      holderId: null,
+    })
+
+    logger.info(
+      { operationId, requiredApprovals: approvalRequest.requiredApprovals },
+      "operation is awaiting approval",
+    )
+
+    return operation
+  }
+
+  /**
+   * Records the decision of the user on the operation awaiting approval.
+   *
+   * The rejection cancels the operation immediately.
+   * The user cannot approve the operation launched by themselves, but can reject it.
+   * Repeated decisions of the same user replace the previous one.
+   *
+   * @param input The decision.
+   * @param userId The ID of the user making the decision.
+   * @throws OperationNotAwaitingApprovalError if the operation is not awaiting approval.
+   * @throws AccessError if the user tries to approve their own operation.
+   */
+  async decide(input: OperationApprovalInput, userId: string): Promise<OperationApprovalResult> {
+    const logger = createProjectLogger(this.logger, input.projectId)
+    const database = await this.database.forProject(input.projectId)
+
+    const operation = await database.operation.findUnique({
+      where: { id: input.operationId },
+    })
+
+    if (!operation) {
+      throw new OperationNotFoundError(input.projectId, input.operationId)
+    }
+
+    if (operation.status !== "awaiting_approval" || !operation.approvalRequest) {
+      throw new OperationNotAwaitingApprovalError(input.projectId, input.operationId)
+    }
+
+    const initiator = operation.meta.initiator
+    if (
+      input.decision === "approved" &&
+      initiator?.type === "user" &&
+      initiator.userId === userId
+    ) {
+      throw new AccessError(
+        `User "${userId}" cannot approve operation "${input.operationId}" launched by themselves`,
+      )
+    }
+
+    await database.operationApproval.upsert({
+      where: { operationId_userId: { operationId: input.operationId, userId } },
+      create: {
+        operationId: input.operationId,
+        userId,
+        decision: input.decision,
+        comment: input.comment,
+      },
+      update: {
+        decision: input.decision,
+        comment: input.comment ?? null,
+      },
+    })
+
+    logger.info({ operationId: input.operationId, userId }, `operation %s`, input.decision)
+
+    if (input.decision === "rejected") {
+      const cancelled = await this.cancelOperation(
+        input.projectId,
+        input.operationId,
+        input.comment
+          ? `Operation was rejected by user "${userId}": ${input.comment}`
+          : `Operation was rejected by user "${userId}"`,
+      )
+
+      return { operation: cancelled ?? operation, approved: false }
+    }
+
+    const approvalCount = await database.operationApproval.count({
+      where: { operationId: input.operationId, decision: "approved" },
+    })
+
+    return {
+      operation,
+      approved: approvalCount >= operation.approvalRequest.requiredApprovals,
+    }
+  }
+
+  /**
+   * Cancels the operation awaiting approval.
+   * Does nothing if the operation is no longer awaiting approval.
+   *
+   * @param projectId The ID of the project containing the operation.
+   * @param operationId The ID of the operation.
+   * @param reason The reason written to the operation log.
+   * @returns The cancelled operation or `null` if the operation is no longer awaiting approval.
+   */
+  async cancelOperation(
+    projectId: string,
+    operationId: string,
+    reason: string,
+  ): Promise<Operation | null> {
+    const logger = createProjectLogger(this.logger, projectId)
+
+    const operation = await this.operationService.transitionOperation(
+      projectId,
+      operationId,
+      "awaiting_approval",
+      { status: "cancelled", finishedAt: new Date() },
+    )
+
+    if (operation) {
+      await this.operationService.appendLog(projectId, operationId, null, reason)
+      logger.info({ operationId }, "cancelled operation awaiting approval")
+    }
+
+    return operation
+  }
+
+  /**
+   * Gets the operations of the project awaiting approval.
+   *
+   * @param projectId The ID of the project.
+   */
+  async getAwaitingOperations(projectId: string): Promise<Operation[]> {
+    const database = await this.database.forProject(projectId)
+
+    return await database.operation.findMany({
+      where: { status: "awaiting_approval" },
+      orderBy: { startedAt: "asc" },
+    })
+  }
+
+  /**
+   * Gets all decisions made on the operation.
+   *
+   * @param projectId The ID of the project containing the operation.
+   * @param operationId The ID of the operation.
+   */
+  async getApprovals(projectId: string, operationId: string): Promise<OperationApproval[]> {
+    const database = await this.database.forProject(projectId)
+
+    return await database.operationApproval.findMany({
+      where: { operationId },
+      orderBy: { createdAt: "asc" },
+    })
+  }
+}
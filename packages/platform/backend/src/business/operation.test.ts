@@ -1,8 +1,9 @@
-import type { InstanceId } from "@highstate/contract"
+import type { InstanceId, InstanceModel } from "@highstate/contract"
 import type { PubSubManager } from "../pubsub"
-import type { OperationOptions } from "../shared"
+import type { OperationOptions, ResourceChange } from "../shared"
 import type { ObjectRefIndexService } from "./object-ref-index"
 import { createId } from "@paralleldrive/cuid2"
+import { ulid } from "ulid"
 import { describe, type MockedObject, vi } from "vitest"
 import { test } from "../test-utils"
 import { OperationService } from "./operation"
@@ -373,6 +374,39 @@ describe("getOperationLogs", () => {
     },
   )
 
+  operationTest(
+    "returns only logs after the given log ID",
+    async ({ operationService, projectDatabase, project, expect }) => {
+      // arrange
+      const operation = await projectDatabase.operation.create({
+        data: {
+          id: createId(),
+          meta: { title: "Test Operation" },
+          type: "update",
+          options: {},
+          requestedInstanceIds: [],
+          startedAt: new Date(),
+        },
+      })
+
+      const [id1, id2, id3] = [ulid(), ulid(), ulid()].sort()
+
+      await projectDatabase.operationLog.createMany({
+        data: [
+          { id: id1, operationId: operation.id, stateId: null, content: "Log 1" },
+          { id: id2, operationId: operation.id, stateId: null, content: "Log 2" },
+          { id: id3, operationId: operation.id, stateId: null, content: "Log 3" },
+        ],
+      })
+
+      // act
+      const logs = await operationService.getOperationLogs(project.id, operation.id, undefined, id1)
+
+      // assert
+      expect(logs.map(l => l.content)).toEqual(["Log 2", "Log 3"])
+    },
+  )
+
   operationTest(
     "returns empty array when no logs exist",
     async ({ operationService, projectDatabase, project, expect }) => {
@@ -397,6 +431,62 @@ describe("getOperationLogs", () => {
   )
 })
 
+describe("getOperationResourceChanges", () => {
+  operationTest(
+    "returns resource changes of previewed instances",
+    async ({ operationService, projectDatabase, project, createInstanceState, expect }) => {
+      // arrange
+      const changedInstance = await createInstanceState(project.id)
+      const unchangedInstance = await createInstanceState(project.id)
+      const operation = await projectDatabase.operation.create({
+        data: {
+          id: createId(),
+          meta: { title: "Test Operation" },
+          type: "preview",
+          options: {},
+          requestedInstanceIds: [],
+          startedAt: new Date(),
+        },
+      })
+
+      const resourceChanges: ResourceChange[] = [
+        {
+          urn: "urn:pulumi:test::test::random:index/randomString:RandomString::name",
+          type: "random:index/randomString:RandomString",
+          op: "create",
+          diffs: [],
+        },
+      ]
+
+      await projectDatabase.instanceOperationState.createMany({
+        data: [
+          {
+            operationId: operation.id,
+            stateId: changedInstance.id,
+            status: "previewed",
+            resourceChanges,
+            model: {} as InstanceModel,
+            resolvedInputs: {},
+          },
+          {
+            operationId: operation.id,
+            stateId: unchangedInstance.id,
+            status: "previewed",
+            model: {} as InstanceModel,
+            resolvedInputs: {},
+          },
+        ],
+      })
+
+      // act
+      const result = await operationService.getOperationResourceChanges(project.id, operation.id)
+
+      // assert
+      expect(result).toEqual([{ instanceId: changedInstance.instanceId, resourceChanges }])
+    },
+  )
+})
+
 describe("completeOperation", () => {
   operationTest(
     "successfully completes operation",
@@ -1,14 +1,17 @@
-import type { InstanceId } from "@highstate/contract"
+import type { InstanceId, InstanceModel } from "@highstate/contract"
 import type { Logger } from "pino"
 import type { DatabaseManager, Operation, OperationStatus, OperationUpdateInput } from "../database"
 import type { PubSubManager } from "../pubsub"
 import type { ObjectRefIndexService } from "./object-ref-index"
 import { ulid } from "ulid"
 import {
+  type InstanceResourceChanges,
   type OperationMeta,
   OperationNotFoundError,
   type OperationOptions,
+  type OperationPhase,
   type OperationType,
+  type StableInstanceInput,
 } from "../shared"
 
 export class OperationService {
@@ -27,6 +30,9 @@ export class OperationService {
    * @param type The operation type.
    * @param requestedInstanceIds The instance IDs that were explicitly requested.
    * @param options The operation options.
+   * @param holderId The ID of the backend runtime executing the operation.
+   * @param phases The precomputed phases of the operation. If not set, the plan is computed at start.
+   * @param retriedOperationId The ID of the failed operation retried by this operation.
    * @returns The created operation.
    */
   async createOperation(
@@ -35,6 +41,9 @@ export class OperationService {
     type: OperationType,
     requestedInstanceIds: InstanceId[],
     options: OperationOptions,
+    holderId?: string,
+    phases?: OperationPhase[],
+    retriedOperationId?: string,
   ): Promise<Operation> {
     const database = await this.database.forProject(projectId)
 
@@ -44,6 +53,9 @@ export class OperationService {
         type,
         options,
         requestedInstanceIds,
+        holderId,
+        phases,
+        retriedOperationId,
         startedAt: new Date(),
       },
     })
@@ -88,6 +100,47 @@ export class OperationService {
     return operation
   }
 
+  /**
+   * Updates the operation only if it still has the expected status.
+   *
+   * Used to transition the operation exactly once when multiple actors may try to do it concurrently.
+   *
+   * @param projectId The project ID containing the operation.
+   * @param operationId The operation ID to update.
+   * @param expectedStatus The status the operation must have to be updated.
+   * @param updates The updates to apply.
+   * @returns The updated operation or `null` if the operation has another status.
+   */
+  async transitionOperation(
+    projectId: string,
+    operationId: string,
+    expectedStatus: OperationStatus,
+    updates: OperationUpdateInput,
+  ): Promise<Operation | null> {
+    const database = await this.database.forProject(projectId)
+
+    const { count } = await database.operation.updateMany({
+      where: { id: operationId, status: expectedStatus },
+      data: updates,
+    })
+
+    if (count === 0) {
+      return null
+    }
+
+    const operation = await database.operation.findUniqueOrThrow({
+      where: { id: operationId },
+    })
+
+    await this.pubsubManager.publish(["operation", projectId], {
+      type: "updated",
+      operation,
+    })
+
+    this.logger.info({ projectId, operationId }, "updated operation")
+    return operation
+  }
+
   /**
    * Gets an operation by ID.
    *
@@ -105,6 +158,35 @@ export class OperationService {
     return operation ?? undefined
   }
 
+  /**
+   * Gets the snapshot of the instance taken by the last operation which successfully deployed it.
+   *
+   * @param projectId The project ID containing the instance.
+   * @param stateId The ID of the instance state.
+   * @returns The deployed model, resolved inputs and secret versions or undefined if the instance was never deployed.
+   */
+  async getLastDeployedInstanceSnapshot(
+    projectId: string,
+    stateId: string,
+  ): Promise<
+    | {
+        model: InstanceModel
+        resolvedInputs: Record<string, StableInstanceInput[]>
+        secrets: Record<string, string> | null
+      }
+    | undefined
+  > {
+    const database = await this.database.forProject(projectId)
+
+    const operationState = await database.instanceOperationState.findFirst({
+      where: { stateId, status: "updated", finishedAt: { not: null } },
+      select: { model: true, resolvedInputs: true, secrets: true },
+      orderBy: { finishedAt: "desc" },
+    })
+
+    return operationState ?? undefined
+  }
+
   /**
    * Gets all operations for a project.
    *
@@ -169,12 +251,14 @@ export class OperationService {
    * @param projectId The ID of the project to retrieve logs for.
    * @param operationId The ID of the operation to retrieve logs for.
    * @param stateId Optional instance state ID to filter logs.
+   * @param afterId Optional ID of the last received log entry to only return the entries after it.
    * @returns Array of log entries.
    */
   async getOperationLogs(
     projectId: string,
     operationId: string,
     stateId?: string,
+    afterId?: string,
   ): Promise<Array<{ id: string; stateId: string | null; content: string }>> {
     const database = await this.database.forProject(projectId)
 
@@ -182,6 +266,7 @@ export class OperationService {
       where: {
         operationId,
         ...(stateId ? { stateId } : {}),
+        ...(afterId ? { id: { gt: afterId } } : {}),
       },
       orderBy: { id: "asc" },
       select: {
@@ -194,6 +279,45 @@ export class OperationService {
     return logs
   }
 
+  /**
+   * Retrieves the resource changes captured by the preview operation.
+   *
+   * For the operation awaiting approval, returns the changes captured by its preview operations.
+   *
+   * @param projectId The ID of the project containing the operation.
+   * @param operationId The ID of the operation to retrieve the resource changes for.
+   * @returns The resource changes of the previewed instances.
+   */
+  async getOperationResourceChanges(
+    projectId: string,
+    operationId: string,
+  ): Promise<InstanceResourceChanges[]> {
+    const database = await this.database.forProject(projectId)
+
+    const operation = await database.operation.findUnique({
+      where: { id: operationId },
+      select: { approvalRequest: true },
+    })
+
+    // the changes of the operation awaiting approval are captured by its preview operations
+    const operationIds = [operationId, ...(operation?.approvalRequest?.previewOperationIds ?? [])]
+
+    const operationStates = await database.instanceOperationState.findMany({
+      where: { operationId: { in: operationIds } },
+      select: {
+        resourceChanges: true,
+        state: { select: { instanceId: true } },
+      },
+    })
+
+    return operationStates
+      .filter(operationState => operationState.resourceChanges)
+      .map(operationState => ({
+        instanceId: operationState.state.instanceId as InstanceId,
+        resourceChanges: operationState.resourceChanges ?? [],
+      }))
+  }
+
   /**
    * Marks an operation as finished with given status.
    *
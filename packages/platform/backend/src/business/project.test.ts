@@ -0,0 +1,503 @@
+import type { InstanceId, InstanceModel } from "@highstate/contract"
+import type { Project, ProjectDatabase } from "../database"
+import type { ProjectEvaluationSubsystem, ProjectModelBackend } from "../project-model"
+import type { PubSubManager } from "../pubsub"
+import type { InstanceStateService } from "./instance-state"
+import type { LibraryService } from "./library"
+import type { ObjectRefIndexService } from "./object-ref-index"
+import type { ProjectUnlockService } from "./project-unlock"
+import type { PulumiBackendService } from "./pulumi-backend"
+import { mkdtemp, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { createId } from "@paralleldrive/cuid2"
+import { describe, type MockedObject, vi } from "vitest"
+import { CodebaseProjectModelBackend } from "../project-model/backends/codebase"
+import { DatabaseProjectModelBackend } from "../project-model/backends/database"
+import {
+  codebaseProjectModelStorage,
+  databaseProjectModelStorage,
+  InstanceRollbackSnapshotNotFoundError,
+} from "../shared"
+import { test } from "../test-utils"
+import { ProjectService } from "./project"
+import { ProjectModelService } from "./project-model"
+import { SecretService } from "./secret"
+
+const projectTest = test.extend<{
+  projectModelBackends: Record<string, ProjectModelBackend>
+  libraryService: MockedObject<LibraryService>
+  projectEvaluationSubsystem: MockedObject<ProjectEvaluationSubsystem>
+  projectService: ProjectService
+}>({
+  projectModelBackends: async ({ database, logger }, use) => {
+    const projectsDir = await mkdtemp(join(tmpdir(), "highstate-projects-"))
+
+    try {
+      await use({
+        codebase: new CodebaseProjectModelBackend(projectsDir, logger),
+        database: new DatabaseProjectModelBackend(database, logger),
+      })
+    } finally {
+      await rm(projectsDir, { recursive: true, force: true })
+    }
+  },
+
+  libraryService: async ({}, use) => {
+    const libraryService = vi.mockObject({
+      getLibraryModel: vi.fn().mockResolvedValue({
+        components: {
+          "component.v1": {
+            type: "component.v1",
+            meta: { title: "Component" },
+            source: {},
+            secrets: {
+              token: { meta: { title: "Token" } },
+              password: { meta: { title: "Password" } },
+            },
+          },
+        },
+        entities: {},
+      }),
+    } as unknown as LibraryService)
+
+    await use(libraryService)
+  },
+
+  projectEvaluationSubsystem: async ({}, use) => {
+    const projectEvaluationSubsystem = vi.mockObject({
+      evaluateProject: vi.fn().mockResolvedValue(undefined),
+    } as unknown as ProjectEvaluationSubsystem)
+
+    await use(projectEvaluationSubsystem)
+  },
+
+  projectService: async (
+    { database, projectModelBackends, libraryService, projectEvaluationSubsystem, logger },
+    use,
+  ) => {
+    const projectUnlockService = vi.mockObject({
+      registerUnlockTask: vi.fn(),
+    } as unknown as ProjectUnlockService)
+
+    const projectModelService = new ProjectModelService(
+      database,
+      libraryService,
+      vi.mockObject({} as unknown as InstanceStateService),
+      projectModelBackends,
+      projectUnlockService,
+      logger,
+    )
+
+    const pubsubManager = vi.mockObject({
+      publish: vi.fn().mockResolvedValue(undefined),
+    } as unknown as PubSubManager)
+
+    await use(
+      new ProjectService(
+        database,
+        projectUnlockService,
+        projectEvaluationSubsystem,
+        projectModelService,
+        projectModelBackends,
+        libraryService,
+        vi.mockObject({} as unknown as PulumiBackendService),
+        new SecretService(
+          database,
+          pubsubManager,
+          libraryService,
+          vi.mockObject({} as unknown as ObjectRefIndexService),
+          logger,
+        ),
+        pubsubManager,
+        vi.mockObject({} as unknown as ObjectRefIndexService),
+        logger,
+      ),
+    )
+  },
+})
+
+const instance: InstanceModel = {
+  id: "component.v1:web" as InstanceId,
+  kind: "unit",
+  type: "component.v1",
+  name: "web",
+  args: { replicas: 3, image: "web:2" },
+}
+
+async function createDeployment(
+  projectDatabase: ProjectDatabase,
+  stateId: string,
+  args: Record<string, unknown>,
+  deployedAt: Date,
+  status: "updated" | "failed" = "updated",
+  secrets?: Record<string, unknown>,
+): Promise<string> {
+  const operationId = createId()
+  const secretVersionIds: Record<string, string> = {}
+
+  for (const [name, content] of Object.entries(secrets ?? {})) {
+    const secret = await projectDatabase.secret.upsert({
+      where: { stateId_name: { stateId, name } },
+      update: { content },
+      create: { meta: { title: name }, stateId, name, content },
+    })
+
+    const version = await projectDatabase.secretVersion.create({
+      data: { secretId: secret.id, content },
+    })
+
+    secretVersionIds[name] = version.id
+  }
+
+  await projectDatabase.operation.create({
+    data: {
+      id: operationId,
+      meta: { title: `Update at ${deployedAt.toISOString()}` },
+      type: "update",
+      options: {},
+      requestedInstanceIds: [instance.id],
+      startedAt: deployedAt,
+    },
+  })
+
+  await projectDatabase.instanceOperationState.create({
+    data: {
+      operationId,
+      stateId,
+      status,
+      model: { ...instance, args },
+      resolvedInputs: {},
+      secrets: secrets ? secretVersionIds : undefined,
+      finishedAt: deployedAt,
+    },
+  })
+
+  return operationId
+}
+
+describe.each([{ storage: codebaseProjectModelStorage }, { storage: databaseProjectModelStorage }])(
+  "ProjectService rollback with $storage.spec.type model storage",
+  ({ storage }) => {
+    const rollbackTest = projectTest.extend<{
+      rollbackProject: Project
+      rollbackDatabase: ProjectDatabase
+      stateId: string
+    }>({
+      rollbackProject: async ({ createProject, projectModelBackends }, use) => {
+        const project = await createProject(createId(), { modelStorageId: storage.id })
+        const backend = projectModelBackends[storage.spec.type]!
+
+        await backend.createProjectModel(project, storage.spec)
+        await backend.createNodes(project, storage.spec, [instance], [])
+
+        await use(project)
+      },
+
+      rollbackDatabase: async ({ database, rollbackProject }, use) => {
+        await use(await database.forProject(rollbackProject.id))
+      },
+
+      stateId: async ({ rollbackDatabase }, use) => {
+        const state = await rollbackDatabase.instanceState.create({
+          data: {
+            instanceId: instance.id,
+            kind: "unit",
+            status: "deployed",
+            source: "resident",
+          },
+        })
+
+        await use(state.id)
+      },
+    })
+
+    rollbackTest(
+      "lists successful deployments from the most recent",
+      async ({ projectService, rollbackProject, rollbackDatabase, stateId, expect }) => {
+        // arrange
+        const firstDeployedAt = new Date("2026-01-01T00:00:00Z")
+        const secondDeployedAt = new Date("2026-01-02T00:00:00Z")
+
+        const firstOperationId = await createDeployment(
+          rollbackDatabase,
+          stateId,
+          { replicas: 1 },
+          firstDeployedAt,
+        )
+
+        const secondOperationId = await createDeployment(
+          rollbackDatabase,
+          stateId,
+          { replicas: 2 },
+          secondDeployedAt,
+        )
+
+        await createDeployment(
+          rollbackDatabase,
+          stateId,
+          { replicas: 5 },
+          new Date("2026-01-03T00:00:00Z"),
+          "failed",
+        )
+
+        // act
+        const targets = await projectService.getInstanceRollbackTargets(
+          rollbackProject.id,
+          instance.id,
+        )
+
+        // assert
+        expect(targets).toEqual([
+          {
+            operationId: secondOperationId,
+            operationTitle: `Update at ${secondDeployedAt.toISOString()}`,
+            deployedAt: secondDeployedAt,
+          },
+          {
+            operationId: firstOperationId,
+            operationTitle: `Update at ${firstDeployedAt.toISOString()}`,
+            deployedAt: firstDeployedAt,
+          },
+        ])
+      },
+    )
+
+    rollbackTest(
+      "previews deployed arguments and secrets changed after deployment",
+      async ({ projectService, rollbackProject, rollbackDatabase, stateId, expect }) => {
+        // arrange
+        const deployedAt = new Date("2026-01-01T00:00:00Z")
+        const operationId = await createDeployment(
+          rollbackDatabase,
+          stateId,
+          { replicas: 1, image: "web:1" },
+          deployedAt,
+          "updated",
+          { password: "password" },
+        )
+
+        await rollbackDatabase.secret.create({
+          data: { meta: { title: "Token" }, stateId, name: "token", content: "new-token" },
+        })
+
+        await rollbackDatabase.secret.update({
+          where: { stateId_name: { stateId, name: "password" } },
+          data: { content: "new-password" },
+        })
+
+        // act
+        const preview = await projectService.getInstanceRollbackPreview(
+          rollbackProject.id,
+          instance.id,
+          operationId,
+        )
+
+        // assert
+        expect(preview.currentModel.args).toEqual({ replicas: 3, image: "web:2" })
+        expect(preview.rollbackModel).toEqual({
+          ...preview.currentModel,
+          args: { replicas: 1, image: "web:1" },
+        })
+        expect(preview.restoredSecretNames).toEqual(["password"])
+        expect(preview.changedSecretNames).toEqual(["token"])
+      },
+    )
+
+    rollbackTest(
+      "does not restore secrets which are not changed after deployment",
+      async ({ projectService, rollbackProject, rollbackDatabase, stateId, expect }) => {
+        // arrange
+        const operationId = await createDeployment(
+          rollbackDatabase,
+          stateId,
+          { replicas: 1 },
+          new Date("2026-01-01T00:00:00Z"),
+          "updated",
+          { password: "password" },
+        )
+
+        // act
+        const preview = await projectService.getInstanceRollbackPreview(
+          rollbackProject.id,
+          instance.id,
+          operationId,
+        )
+
+        // assert
+        expect(preview.restoredSecretNames).toEqual([])
+        expect(preview.changedSecretNames).toEqual([])
+      },
+    )
+
+    rollbackTest(
+      "restores deployed arguments in project model",
+      async ({
+        projectService,
+        rollbackProject,
+        rollbackDatabase,
+        stateId,
+        projectEvaluationSubsystem,
+        expect,
+      }) => {
+        // arrange
+        const operationId = await createDeployment(
+          rollbackDatabase,
+          stateId,
+          { replicas: 1 },
+          new Date("2026-01-01T00:00:00Z"),
+        )
+
+        // act
+        const rolledBack = await projectService.rollbackInstance(
+          rollbackProject.id,
+          instance.id,
+          operationId,
+          "user-1",
+        )
+
+        // assert
+        const projectModel = await projectService.getProjectModel(rollbackProject.id)
+
+        expect(rolledBack.args).toEqual({ replicas: 1 })
+        expect(projectModel.instances).toEqual([expect.objectContaining({ args: { replicas: 1 } })])
+        expect(projectEvaluationSubsystem.evaluateProject).not.toHaveBeenCalled()
+
+        const state = await rollbackDatabase.instanceState.findUniqueOrThrow({
+          where: { id: stateId },
+        })
+
+        expect(state.lastEditedBy).toBe("user-1")
+      },
+    )
+
+    rollbackTest(
+      "restores deployed secrets",
+      async ({ projectService, rollbackProject, rollbackDatabase, stateId, expect }) => {
+        // arrange
+        const operationId = await createDeployment(
+          rollbackDatabase,
+          stateId,
+          { replicas: 1 },
+          new Date("2026-01-01T00:00:00Z"),
+          "updated",
+          { password: "password" },
+        )
+
+        await rollbackDatabase.secret.create({
+          data: { meta: { title: "Token" }, stateId, name: "token", content: "new-token" },
+        })
+
+        await rollbackDatabase.secret.update({
+          where: { stateId_name: { stateId, name: "password" } },
+          data: { content: "new-password" },
+        })
+
+        // act
+        await projectService.rollbackInstance(
+          rollbackProject.id,
+          instance.id,
+          operationId,
+          "user-1",
+        )
+
+        // assert
+        const secrets = await rollbackDatabase.secret.findMany({
+          where: { stateId },
+          select: { name: true, content: true, updatedBy: true },
+          orderBy: { name: "asc" },
+        })
+
+        expect(secrets).toEqual([
+          { name: "password", content: "password", updatedBy: "user-1" },
+          { name: "token", content: "new-token", updatedBy: null },
+        ])
+      },
+    )
+
+    rollbackTest(
+      "does not restore secrets no longer declared by component",
+      async ({ projectService, rollbackProject, rollbackDatabase, stateId, expect }) => {
+        // arrange
+        const operationId = await createDeployment(
+          rollbackDatabase,
+          stateId,
+          { replicas: 1 },
+          new Date("2026-01-01T00:00:00Z"),
+          "updated",
+          { password: "password", legacy: "legacy" },
+        )
+
+        await rollbackDatabase.secret.updateMany({
+          where: { stateId },
+          data: { content: "changed" },
+        })
+
+        // act
+        const rolledBack = await projectService.rollbackInstance(
+          rollbackProject.id,
+          instance.id,
+          operationId,
+        )
+
+        // assert
+        const secrets = await rollbackDatabase.secret.findMany({
+          where: { stateId },
+          select: { name: true, content: true },
+          orderBy: { name: "asc" },
+        })
+
+        expect(rolledBack.args).toEqual({ replicas: 1 })
+        expect(secrets).toEqual([
+          { name: "legacy", content: "changed" },
+          { name: "password", content: "password" },
+        ])
+      },
+    )
+
+    rollbackTest(
+      "does not restore secrets deleted after deployment",
+      async ({ projectService, rollbackProject, rollbackDatabase, stateId, expect }) => {
+        // arrange
+        const operationId = await createDeployment(
+          rollbackDatabase,
+          stateId,
+          { replicas: 1 },
+          new Date("2026-01-01T00:00:00Z"),
+          "updated",
+          { password: "password" },
+        )
+
+        await rollbackDatabase.secret.delete({
+          where: { stateId_name: { stateId, name: "password" } },
+        })
+
+        // act
+        await projectService.rollbackInstance(rollbackProject.id, instance.id, operationId)
+
+        // assert
+        expect(await rollbackDatabase.secret.count({ where: { stateId } })).toBe(0)
+        expect(await rollbackDatabase.secretVersion.count()).toBe(0)
+      },
+    )
+
+    rollbackTest(
+      "rejects operation which did not deploy instance",
+      async ({ projectService, rollbackProject, rollbackDatabase, stateId, expect }) => {
+        // arrange
+        const operationId = await createDeployment(
+          rollbackDatabase,
+          stateId,
+          { replicas: 5 },
+          new Date("2026-01-01T00:00:00Z"),
+          "failed",
+        )
+
+        // act & assert
+        await expect(
+          projectService.rollbackInstance(rollbackProject.id, instance.id, operationId),
+        ).rejects.toThrow(InstanceRollbackSnapshotNotFoundError)
+      },
+    )
+  },
+)
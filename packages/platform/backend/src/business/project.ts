@@ -5,6 +5,8 @@ import type { LibraryService } from "./library"
 import type { ObjectRefIndexService } from "./object-ref-index"
 import type { ProjectModelService } from "./project-model"
 import type { ProjectUnlockService } from "./project-unlock"
+import type { PulumiBackendService } from "./pulumi-backend"
+import type { SecretService } from "./secret"
 import {
   type HubModel,
   type HubModelPatch,
@@ -14,8 +16,10 @@ import {
   instanceModelSchema,
   isUnitModel,
   parseInstanceId,
+  type VersionedName,
 } from "@highstate/contract"
 import { createId } from "@paralleldrive/cuid2"
+import { isDeepEqual } from "remeda"
 import { createProjectLogger } from "../common"
 import { type DatabaseManager, type Project, projectDatabaseVersion } from "../database"
 import {
@@ -28,6 +32,10 @@ import {
 import {
   type FullProjectModel,
   forSchema,
+  InstanceNotFoundError,
+  type InstanceRollbackPreview,
+  InstanceRollbackSnapshotNotFoundError,
+  type InstanceRollbackTarget,
   type ProjectInput,
   type ProjectModelStorageSpec,
   ProjectNotFoundError,
@@ -37,6 +45,14 @@ import {
 } from "../shared"
 import { includeForInstanceState, mapInstanceStateResult } from "./instance-state"
 
+type InstanceRollbackSnapshot = {
+  instanceType: VersionedName
+  patch: InstanceModelPatch
+  secretVersionIds: Record<string, string>
+  stateId: string
+  deployedAt: Date
+}
+
 export class ProjectService {
   constructor(
     private readonly database: DatabaseManager,
@@ -45,6 +61,8 @@ export class ProjectService {
     private readonly projectModelService: ProjectModelService,
     private readonly projectModelBackends: Record<string, ProjectModelBackend>,
     private readonly libraryService: LibraryService,
+    private readonly pulumiBackendService: PulumiBackendService,
+    private readonly secretService: SecretService,
     private readonly pubsubManager: PubSubManager,
     private readonly objectRefIndexService: ObjectRefIndexService,
     private readonly logger: Logger,
@@ -77,6 +95,9 @@ export class ProjectService {
 
     logger.info("creating new project")
 
+    // fail early instead of leaving the orphaned project database behind
+    await this.pulumiBackendService.ensurePulumiBackendExists(projectInput.pulumiBackendId)
+
     // setup project database
     const [encryptedMasterKey, encryptedPrivateKey, publicKey, unlockSuite] =
       await this.projectUnlockService.setupProjectDatabase(projectId, unlockMethodInput)
@@ -147,11 +168,13 @@ export class ProjectService {
    * @param projectId The ID of the project containing the instance.
    * @param instanceId The ID of the instance to rename.
    * @param newName The new name for the instance.
+   * @param userId The ID of the user renaming the instance.
    */
   async renameInstance(
     projectId: string,
     instanceId: InstanceId,
     newName: string,
+    userId?: string,
   ): Promise<InstanceModel> {
     try {
       // rename the instance in the model
@@ -174,7 +197,7 @@ export class ProjectService {
 
         await tx.instanceState.update({
           where: { id: state.id },
-          data: { instanceId: instance.id },
+          data: { instanceId: instance.id, ...getInstanceEditData(userId) },
         })
 
         // if the instance is composite, we also need to rename all child instance states
@@ -257,16 +280,19 @@ export class ProjectService {
    * @param projectId The ID of the project containing the instance.
    * @param instanceId The ID of the instance to update.
    * @param patch The patch to apply to the instance.
+   * @param userId The ID of the user updating the instance.
    */
   async updateInstance(
     projectId: string,
     instanceId: InstanceId,
     patch: InstanceModelPatch,
+    userId?: string,
   ): Promise<InstanceModel> {
     try {
       const { project, backend, spec } = await this.getProjectWithBackend(projectId)
       try {
         const instance = await backend.updateInstance(project, spec, instanceId, patch)
+        await this.recordInstanceEdit(projectId, instance.id, userId)
         const library = await this.libraryService.getLibraryModel(projectId)
         const component = library.components[instance.type]
 
@@ -289,6 +315,7 @@ export class ProjectService {
 
         if (cause instanceof ProjectModelInstanceNotFoundError) {
           const instance = await this.updateGhostInstanceModel(projectId, instanceId, patch)
+          await this.recordInstanceEdit(projectId, instance.id, userId)
 
           await this.pubsubManager.publish(["project-model", projectId], {
             updatedGhostInstances: [instance],
@@ -327,6 +354,228 @@ export class ProjectService {
     }
   }
 
+  /**
+   * Get the operations which successfully deployed the instance and can be used as rollback targets.
+   *
+   * @param projectId The ID of the project containing the instance.
+   * @param instanceId The ID of the instance.
+   * @returns The rollback targets ordered from the most recent to the oldest.
+   */
+  async getInstanceRollbackTargets(
+    projectId: string,
+    instanceId: InstanceId,
+  ): Promise<InstanceRollbackTarget[]> {
+    const database = await this.database.forProject(projectId)
+
+    const operationStates = await database.instanceOperationState.findMany({
+      where: { state: { instanceId }, status: "updated" },
+      select: {
+        finishedAt: true,
+        operation: { select: { id: true, meta: true, startedAt: true } },
+      },
+      orderBy: { operation: { startedAt: "desc" } },
+    })
+
+    return operationStates.map(operationState => ({
+      operationId: operationState.operation.id,
+      operationTitle: operationState.operation.meta.title,
+      deployedAt: operationState.finishedAt,
+    }))
+  }
+
+  /**
+   * Get the current model of the instance and its model after the rollback to the configuration
+   * deployed by the given operation.
+   *
+   * @param projectId The ID of the project containing the instance.
+   * @param instanceId The ID of the instance.
+   * @param operationId The ID of the operation which deployed the target configuration.
+   */
+  async getInstanceRollbackPreview(
+    projectId: string,
+    instanceId: InstanceId,
+    operationId: string,
+  ): Promise<InstanceRollbackPreview> {
+    const [projectModel, snapshot] = await Promise.all([
+      this.getProjectModel(projectId),
+      this.getInstanceRollbackSnapshot(projectId, instanceId, operationId),
+    ])
+
+    const currentModel =
+      projectModel.instances.find(instance => instance.id === instanceId) ??
+      projectModel.ghostInstances.find(instance => instance.id === instanceId)
+
+    if (!currentModel) {
+      throw new InstanceNotFoundError(projectId, instanceId)
+    }
+
+    const rollbackModel = structuredClone(currentModel)
+    applyInstancePatch(rollbackModel, snapshot.patch)
+
+    const { restoredSecrets, changedSecretNames } = await this.getInstanceRollbackSecrets(
+      projectId,
+      snapshot,
+    )
+
+    return {
+      currentModel,
+      rollbackModel,
+      restoredSecretNames: Object.keys(restoredSecrets).sort(),
+      changedSecretNames,
+    }
+  }
+
+  /**
+   * Roll the instance back to the configuration deployed by the given operation.
+   *
+   * The arguments and the secrets are restored from the snapshot taken by the operation.
+   * The inputs are kept since the connected instances may no longer exist.
+   * The secrets which are not in the snapshot keep their current values
+   * and the ones no longer declared by the component are not restored.
+   *
+   * The rollback only changes the project model and the secrets, the update must be launched separately.
+   *
+   * @param projectId The ID of the project containing the instance.
+   * @param instanceId The ID of the instance to roll back.
+   * @param operationId The ID of the operation which deployed the target configuration.
+   * @param userId The ID of the user rolling back the instance.
+   */
+  async rollbackInstance(
+    projectId: string,
+    instanceId: InstanceId,
+    operationId: string,
+    userId?: string,
+  ): Promise<InstanceModel> {
+    const snapshot = await this.getInstanceRollbackSnapshot(projectId, instanceId, operationId)
+
+    // resolve the secrets first, so the rollback fails before changing anything
+    const { restoredSecrets } = await this.getInstanceRollbackSecrets(projectId, snapshot)
+    const instance = await this.updateInstance(projectId, instanceId, snapshot.patch, userId)
+
+    if (Object.keys(restoredSecrets).length > 0) {
+      await this.secretService.updateInstanceSecrets(
+        projectId,
+        snapshot.stateId,
+        restoredSecrets,
+        userId,
+      )
+    }
+
+    this.logger.info(
+      { projectId, instanceId, operationId, secretCount: Object.keys(restoredSecrets).length },
+      "rolled back instance",
+    )
+
+    return instance
+  }
+
+  private async getInstanceRollbackSnapshot(
+    projectId: string,
+    instanceId: InstanceId,
+    operationId: string,
+  ): Promise<InstanceRollbackSnapshot> {
+    const database = await this.database.forProject(projectId)
+
+    const operationState = await database.instanceOperationState.findFirst({
+      where: { operationId, state: { instanceId }, status: "updated" },
+      select: {
+        model: true,
+        secrets: true,
+        stateId: true,
+        finishedAt: true,
+        operation: { select: { startedAt: true } },
+      },
+    })
+
+    if (!operationState) {
+      throw new InstanceRollbackSnapshotNotFoundError(projectId, instanceId, operationId)
+    }
+
+    return {
+      instanceType: operationState.model.type,
+      patch: { args: operationState.model.args ?? {} },
+      secretVersionIds: operationState.secrets ?? {},
+      stateId: operationState.stateId,
+      deployedAt: operationState.finishedAt ?? operationState.operation.startedAt,
+    }
+  }
+
+  /**
+   * Splits the current secrets of the instance into the ones restored from the snapshot
+   * and the ones changed after the deployment which cannot be restored.
+   *
+   * The secrets deleted after the deployment are not restored, since their versions are deleted with them.
+   * The secrets no longer declared by the component are not restored too, since they cannot be passed to the unit.
+   */
+  private async getInstanceRollbackSecrets(
+    projectId: string,
+    snapshot: InstanceRollbackSnapshot,
+  ): Promise<{ restoredSecrets: Record<string, unknown>; changedSecretNames: string[] }> {
+    const database = await this.database.forProject(projectId)
+
+    const [library, secrets, versions] = await Promise.all([
+      this.libraryService.getLibraryModel(projectId),
+      database.secret.findMany({
+        where: { stateId: snapshot.stateId, name: { not: null } },
+        select: { name: true, content: true, updatedAt: true },
+        orderBy: { name: "asc" },
+      }),
+      database.secretVersion.findMany({
+        where: { id: { in: Object.values(snapshot.secretVersionIds) } },
+        select: { id: true, content: true },
+      }),
+    ])
+
+    const restoredSecrets: Record<string, unknown> = {}
+    const changedSecretNames: string[] = []
+
+    const component = library.components[snapshot.instanceType]
+    const declaredSecrets = component && isUnitModel(component) ? component.secrets : {}
+
+    for (const [name, versionId] of Object.entries(snapshot.secretVersionIds)) {
+      if (!(name in declaredSecrets)) {
+        continue
+      }
+
+      const version = versions.find(version => version.id === versionId)
+      const secret = secrets.find(secret => secret.name === name)
+
+      if (version && secret && !isDeepEqual(secret.content, version.content)) {
+        restoredSecrets[name] = version.content
+      }
+    }
+
+    for (const secret of secrets) {
+      if (
+        secret.name &&
+        !(secret.name in snapshot.secretVersionIds) &&
+        secret.updatedAt > snapshot.deployedAt
+      ) {
+        changedSecretNames.push(secret.name)
+      }
+    }
+
+    return { restoredSecrets, changedSecretNames }
+  }
+
+  private async recordInstanceEdit(
+    projectId: string,
+    instanceId: InstanceId,
+    userId: string | undefined,
+  ): Promise<void> {
+    if (!userId) {
+      return
+    }
+
+    const database = await this.database.forProject(projectId)
+
+    // the state may not exist yet if the instance was never evaluated
+    await database.instanceState.updateMany({
+      where: { instanceId },
+      data: getInstanceEditData(userId),
+    })
+  }
+
   private async updateGhostInstanceModel(
     projectId: string,
     instanceId: InstanceId,
@@ -412,11 +661,13 @@ export class ProjectService {
    * @param projectId The ID of the project to create the nodes in.
    * @param instances The instances to create.
    * @param hubs The hubs to create.
+   * @param userId The ID of the user creating the nodes.
    */
   async createNodes(
     projectId: string,
     instances: InstanceModel[],
     hubs: HubModel[],
+    userId?: string,
   ): Promise<void> {
     try {
       const database = await this.database.forProject(projectId)
@@ -435,11 +686,13 @@ export class ProjectService {
                 kind: instance.kind,
                 source: "resident",
                 status: "undeployed",
+                ...getInstanceEditData(userId),
               },
               update: {
                 // turn any virtual instance into resident
                 // the next evaluation will throw an error indicating the instance is now duplicate and will no longer produce this virtual instance
                 source: "resident",
+                ...getInstanceEditData(userId),
               },
               // in case we restoring instance for existing state, to stream it correctly
               include: includeForInstanceState({
@@ -529,3 +782,7 @@ export class ProjectService {
     return backend
   }
 }
+
+function getInstanceEditData(userId: string | undefined) {
+  return userId ? { lastEditedBy: userId, lastEditedAt: new Date() } : {}
+}
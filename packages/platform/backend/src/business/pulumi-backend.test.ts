@@ -0,0 +1,93 @@
+import { createId } from "@paralleldrive/cuid2"
+import { describe } from "vitest"
+import { hostPulumiBackend, PulumiBackendNotFoundError } from "../shared"
+import { test } from "../test-utils"
+import { PulumiBackendService } from "./pulumi-backend"
+
+const pulumiBackendTest = test.extend<{
+  pulumiBackendService: PulumiBackendService
+}>({
+  pulumiBackendService: async ({ database, logger }, use) => {
+    const service = new PulumiBackendService(
+      database,
+      logger.child({ service: "PulumiBackendService" }),
+    )
+
+    await use(service)
+  },
+})
+
+describe("createPulumiBackend", () => {
+  pulumiBackendTest(
+    "persists backend meta and spec",
+    async ({ pulumiBackendService, database, expect }) => {
+      // act
+      const backend = await pulumiBackendService.createPulumiBackend({
+        meta: { title: "State Bucket" },
+        spec: {
+          type: "s3",
+          bucket: "state",
+          prefix: "",
+          region: "us-east-1",
+          forcePathStyle: true,
+        },
+      })
+
+      // assert
+      const stored = await database.backend.pulumiBackend.findUnique({
+        where: { id: backend.id },
+      })
+
+      expect(stored?.spec).toEqual(backend.spec)
+      expect(backend.meta.title).toBe("State Bucket")
+    },
+  )
+})
+
+describe("getPulumiBackends", () => {
+  pulumiBackendTest(
+    "includes well-known host backend",
+    async ({ pulumiBackendService, expect }) => {
+      // act
+      const backends = await pulumiBackendService.getPulumiBackends()
+
+      // assert
+      expect(backends).toContainEqual(
+        expect.objectContaining({ id: hostPulumiBackend.id, spec: { type: "host" } }),
+      )
+    },
+  )
+})
+
+describe("ensurePulumiBackendExists", () => {
+  pulumiBackendTest(
+    "throws when backend does not exist",
+    async ({ pulumiBackendService, expect }) => {
+      // act & assert
+      await expect(pulumiBackendService.ensurePulumiBackendExists(createId())).rejects.toThrow(
+        PulumiBackendNotFoundError,
+      )
+    },
+  )
+})
+
+describe("getProjectPulumiBackendSpec", () => {
+  pulumiBackendTest(
+    "returns spec of backend selected by project",
+    async ({ pulumiBackendService, createProject, expect }) => {
+      // arrange
+      const backend = await pulumiBackendService.createPulumiBackend({
+        meta: { title: "Local State" },
+        spec: { type: "local", path: "/var/lib/highstate/pulumi" },
+      })
+
+      const project = await createProject("local-state", { pulumiBackendId: backend.id })
+
+      // act
+      const spec = await pulumiBackendService.getProjectPulumiBackendSpec(project.id)
+
+      // assert
+      expect(spec).toEqual({ type: "local", path: "/var/lib/highstate/pulumi" })
+    },
+  )
+})
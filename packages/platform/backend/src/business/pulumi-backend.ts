@@ -0,0 +1,82 @@
+import type { Logger } from "pino"
+import type { DatabaseManager } from "../database"
+import {
+  forSchema,
+  ProjectNotFoundError,
+  type PulumiBackendInput,
+  PulumiBackendNotFoundError,
+  type PulumiBackendOutput,
+  type PulumiBackendSpec,
+  pulumiBackendOutputSchema,
+} from "../shared"
+
+export class PulumiBackendService {
+  constructor(
+    private readonly database: DatabaseManager,
+    private readonly logger: Logger,
+  ) {}
+
+  /**
+   * Returns all Pulumi backends available for the projects.
+   */
+  async getPulumiBackends(): Promise<PulumiBackendOutput[]> {
+    return await this.database.backend.pulumiBackend.findMany({
+      select: forSchema(pulumiBackendOutputSchema),
+    })
+  }
+
+  /**
+   * Creates a new Pulumi backend which can be selected for the new projects.
+   *
+   * @param input The meta and spec of the backend.
+   * @returns The created backend.
+   */
+  async createPulumiBackend(input: PulumiBackendInput): Promise<PulumiBackendOutput> {
+    const backend = await this.database.backend.pulumiBackend.create({
+      data: input,
+      select: forSchema(pulumiBackendOutputSchema),
+    })
+
+    this.logger.info(
+      { pulumiBackendId: backend.id },
+      `created "%s" pulumi backend`,
+      input.spec.type,
+    )
+
+    return backend
+  }
+
+  /**
+   * Ensures that the Pulumi backend with the given ID exists.
+   *
+   * @param pulumiBackendId The ID of the backend to check.
+   */
+  async ensurePulumiBackendExists(pulumiBackendId: string): Promise<void> {
+    const backend = await this.database.backend.pulumiBackend.findUnique({
+      where: { id: pulumiBackendId },
+      select: { id: true },
+    })
+
+    if (!backend) {
+      throw new PulumiBackendNotFoundError(pulumiBackendId)
+    }
+  }
+
+  /**
+   * Returns the spec of the Pulumi backend used by the project.
+   *
+   * @param projectId The ID of the project.
+   */
+  async getProjectPulumiBackendSpec(projectId: string): Promise<PulumiBackendSpec> {
+    const project = await this.database.backend.project.findUnique({
+      where: { id: projectId },
+      select: { pulumiBackend: { select: { spec: true } } },
+    })
+
+    if (!project) {
+      throw new ProjectNotFoundError(projectId)
+    }
+
+    return project.pulumiBackend.spec
+  }
+}
@@ -486,6 +486,131 @@ describe("getInstanceSecretValues", () => {
   )
 })
 
+describe("snapshotInstanceSecrets", () => {
+  secretTest(
+    "records versions of secret values",
+    async ({ secretService, projectDatabase, project, createInstanceState, expect }) => {
+      // arrange
+      const instance = await createInstanceState(project.id)
+
+      const secret = await projectDatabase.secret.create({
+        data: {
+          stateId: instance.id,
+          name: "api-key",
+          meta: { title: "API Key" },
+          content: "secret-api-key",
+        },
+      })
+
+      // act
+      const snapshot = await secretService.snapshotInstanceSecrets(project.id, instance.id)
+
+      // assert
+      const version = await projectDatabase.secretVersion.findUniqueOrThrow({
+        where: { id: snapshot.versionIds["api-key"] },
+      })
+
+      expect(snapshot.values).toEqual({ "api-key": "secret-api-key" })
+      expect(version).toMatchObject({ secretId: secret.id, content: "secret-api-key" })
+    },
+  )
+
+  secretTest(
+    "records new version only when secret value changes",
+    async ({ secretService, projectDatabase, project, createInstanceState, expect }) => {
+      // arrange
+      const instance = await createInstanceState(project.id)
+
+      await projectDatabase.secret.create({
+        data: {
+          stateId: instance.id,
+          name: "api-key",
+          meta: { title: "API Key" },
+          content: "secret-api-key",
+        },
+      })
+
+      const first = await secretService.snapshotInstanceSecrets(project.id, instance.id)
+
+      // act
+      const unchanged = await secretService.snapshotInstanceSecrets(project.id, instance.id)
+
+      await projectDatabase.secret.update({
+        where: { stateId_name: { stateId: instance.id, name: "api-key" } },
+        data: { content: "new-api-key" },
+      })
+
+      const changed = await secretService.snapshotInstanceSecrets(project.id, instance.id)
+
+      // assert
+      expect(unchanged.versionIds).toEqual(first.versionIds)
+      expect(changed.versionIds["api-key"]).not.toBe(first.versionIds["api-key"])
+      expect(changed.values).toEqual({ "api-key": "new-api-key" })
+    },
+  )
+})
+
+describe("getSecretVersionValues", () => {
+  secretTest(
+    "returns recorded values of secrets",
+    async ({ secretService, projectDatabase, project, createInstanceState, expect }) => {
+      // arrange
+      const instance = await createInstanceState(project.id)
+
+      await projectDatabase.secret.create({
+        data: {
+          stateId: instance.id,
+          name: "api-key",
+          meta: { title: "API Key" },
+          content: "secret-api-key",
+        },
+      })
+
+      const snapshot = await secretService.snapshotInstanceSecrets(project.id, instance.id)
+
+      await projectDatabase.secret.update({
+        where: { stateId_name: { stateId: instance.id, name: "api-key" } },
+        data: { content: "new-api-key" },
+      })
+
+      // act
+      const values = await secretService.getSecretVersionValues(project.id, snapshot.versionIds)
+
+      // assert
+      expect(values).toEqual({ "api-key": "secret-api-key" })
+    },
+  )
+
+  secretTest(
+    "omits deleted secrets",
+    async ({ secretService, projectDatabase, project, createInstanceState, expect }) => {
+      // arrange
+      const instance = await createInstanceState(project.id)
+
+      await projectDatabase.secret.create({
+        data: {
+          stateId: instance.id,
+          name: "api-key",
+          meta: { title: "API Key" },
+          content: "secret-api-key",
+        },
+      })
+
+      const snapshot = await secretService.snapshotInstanceSecrets(project.id, instance.id)
+
+      await projectDatabase.secret.delete({
+        where: { stateId_name: { stateId: instance.id, name: "api-key" } },
+      })
+
+      // act
+      const values = await secretService.getSecretVersionValues(project.id, snapshot.versionIds)
+
+      // assert
+      expect(values).toEqual({})
+    },
+  )
+})
+
 describe("getPulumiPassword", () => {
   secretTest(
     "tracks created pulumi password secret",
@@ -5,10 +5,12 @@ import type { LibraryService } from "./library"
 import type { ObjectRefIndexService } from "./object-ref-index"
 import { randomBytes } from "node:crypto"
 import { type CommonObjectMeta, isUnitModel, parseInstanceId } from "@highstate/contract"
+import { isDeepEqual } from "remeda"
 import {
   InstanceStateNotFoundError,
   InvalidInstanceKindError,
   ProjectNotFoundError,
+  SecretNotFoundError,
   SystemSecretNames,
 } from "../shared"
 
@@ -29,6 +31,7 @@ export class SecretService {
    * @param projectId The ID of the project containing the component.
    * @param stateId The ID of the instance state.
    * @param secretValues The secrets to create or update. Existing secrets not in this update are preserved.
+   * @param userId The ID of the user updating the secrets. Not set for the updates made by the system.
    * @returns The list of secret names that were updated or created.
    */
   async updateInstanceSecretsCore(
@@ -36,6 +39,7 @@ export class SecretService {
     projectId: string,
     stateId: string,
     secretValues: Record<string, unknown>,
+    userId?: string,
   ): Promise<{ secretNames: string[]; secretIds: string[] }> {
     // verify instance exists and is a unit
     const state = await tx.instanceState.findUnique({
@@ -95,12 +99,14 @@ export class SecretService {
         update: {
           meta,
           content: value,
+          updatedBy: userId ?? null,
         },
         create: {
           stateId,
           name: secretName,
           meta,
           content: value,
+          updatedBy: userId,
         },
         select: {
           id: true,
@@ -120,11 +126,13 @@ export class SecretService {
    * @param projectId The project ID containing the instance.
    * @param stateId The ID of the instance state.
    * @param secretValues The secrets to create or update. Existing secrets not in this update are preserved.
+   * @param userId The ID of the user updating the secrets.
    */
   async updateInstanceSecrets(
     projectId: string,
     stateId: string,
     secretValues: Record<string, unknown>,
+    userId?: string,
   ): Promise<void> {
     const database = await this.database.forProject(projectId)
 
@@ -139,6 +147,7 @@ export class SecretService {
         projectId,
         stateId,
         secretValues,
+        userId,
       )
 
       // invalidate instance state
@@ -161,6 +170,7 @@ export class SecretService {
       {
         projectId,
         stateId,
+        userId,
         secretCount: Object.keys(secretValues).length,
       },
       "updated instance secrets",
@@ -213,6 +223,133 @@ export class SecretService {
     return values
   }
 
+  /**
+   * Gets the values of all secrets for a specific instance and records the versions of their content,
+   * so the values can be restored later without copying them anywhere.
+   * Only works with unit instances.
+   *
+   * @param projectId The project ID containing the instance.
+   * @param stateId The ID of the instance state.
+   * @returns The secret values and the IDs of their versions keyed by the secret names.
+   */
+  async snapshotInstanceSecrets(
+    projectId: string,
+    stateId: string,
+  ): Promise<{ values: Record<string, unknown>; versionIds: Record<string, string> }> {
+    const database = await this.database.forProject(projectId)
+
+    return await database.$transaction(async tx => {
+      // verify instance exists and is a unit
+      const state = await tx.instanceState.findUnique({
+        where: { id: stateId },
+        select: { kind: true },
+      })
+
+      if (!state) {
+        throw new InstanceStateNotFoundError(projectId, stateId)
+      }
+
+      if (state.kind !== "unit") {
+        throw new InvalidInstanceKindError(projectId, stateId, "unit", state.kind)
+      }
+
+      const secrets = await tx.secret.findMany({
+        where: {
+          stateId,
+          name: { not: null },
+        },
+        select: {
+          id: true,
+          name: true,
+          content: true,
+          versions: {
+            select: { id: true, content: true },
+            orderBy: { createdAt: "desc" },
+            take: 1,
+          },
+        },
+      })
+
+      const values: Record<string, unknown> = {}
+      const versionIds: Record<string, string> = {}
+
+      for (const secret of secrets) {
+        if (!secret.name) {
+          continue
+        }
+
+        // the new version is only recorded when the content was changed since the last one
+        let [version] = secret.versions
+        if (!version || !isDeepEqual(version.content, secret.content)) {
+          version = await tx.secretVersion.create({
+            data: { secretId: secret.id, content: secret.content },
+            select: { id: true, content: true },
+          })
+        }
+
+        values[secret.name] = secret.content
+        versionIds[secret.name] = version.id
+      }
+
+      return { values, versionIds }
+    })
+  }
+
+  /**
+   * Gets the values of the secrets recorded by `snapshotInstanceSecrets`.
+   *
+   * The versions are deleted with their secrets, so the deleted secrets are omitted.
+   *
+   * @param projectId The project ID containing the secrets.
+   * @param versionIds The IDs of the secret versions keyed by the secret names.
+   * @returns A record of secret key-value pairs.
+   */
+  async getSecretVersionValues(
+    projectId: string,
+    versionIds: Record<string, string>,
+  ): Promise<Record<string, unknown>> {
+    const database = await this.database.forProject(projectId)
+
+    const versions = await database.secretVersion.findMany({
+      where: { id: { in: Object.values(versionIds) } },
+      select: { id: true, content: true },
+    })
+
+    const values: Record<string, unknown> = {}
+
+    for (const [name, versionId] of Object.entries(versionIds)) {
+      const version = versions.find(version => version.id === versionId)
+
+      if (version) {
+        values[name] = version.content
+      }
+    }
+
+    return values
+  }
+
+  /**
+   * Gets the content of the secret by its ID.
+   *
+   * @param projectId The project ID containing the secret.
+   * @param secretId The ID of the secret.
+   * @returns The decrypted content of the secret.
+   */
+  async getSecretContent(projectId: string, secretId: string): Promise<unknown> {
+    const database = await this.database.forProject(projectId)
+
+    const secret = await database.secret.findUnique({
+      where: { id: secretId },
+      select: { content: true },
+    })
+
+    if (!secret) {
+      throw new SecretNotFoundError(projectId, secretId)
+    }
+
+    return secret.content
+  }
+
   /**
    * Gets or creates the Pulumi password secret for the given project.
    * Uses the new direct systemName field approach.
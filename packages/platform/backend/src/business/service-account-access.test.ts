@@ -0,0 +1,272 @@
+import type { Secret, ServiceAccount, Worker } from "../database"
+import { createId } from "@paralleldrive/cuid2"
+import { describe } from "vitest"
+import { AccessError, InstanceStateNotFoundError, ServiceAccountNotFoundError } from "../shared"
+import { test } from "../test-utils"
+import { ServiceAccountAccessService } from "./service-account-access"
+
+const accessTest = test.extend<{
+  serviceAccountAccessService: ServiceAccountAccessService
+  createServiceAccount: () => Promise<ServiceAccount>
+  createSecret: (data?: Pick<Partial<Secret>, "stateId" | "serviceAccountId">) => Promise<Secret>
+  createRegisteredWorker: (stateId: string) => Promise<Worker>
+}>({
+  serviceAccountAccessService: async ({ database, logger }, use) => {
+    const service = new ServiceAccountAccessService(
+      database,
+      logger.child({ service: "ServiceAccountAccessService" }),
+    )
+
+    await use(service)
+  },
+
+  createServiceAccount: async ({ projectDatabase }, use) => {
+    await use(async () => {
+      return await projectDatabase.serviceAccount.create({
+        data: { meta: { title: "Test Service Account" } },
+      })
+    })
+  },
+
+  createSecret: async ({ projectDatabase }, use) => {
+    await use(async (data = {}) => {
+      return await projectDatabase.secret.create({
+        data: {
+          ...data,
+          name: data.stateId ? createId() : undefined,
+          meta: { title: "Test Secret" },
+          content: "secret-value",
+        },
+      })
+    })
+  },
+
+  createRegisteredWorker: async ({ projectDatabase }, use) => {
+    await use(async (stateId: string) => {
+      const worker = await projectDatabase.worker.create({
+        data: {
+          identity: `ghcr.io/org/${createId()}`,
+          serviceAccount: { create: { meta: { title: "Test Worker Service Account" } } },
+        },
+      })
+
+      const workerVersion = await projectDatabase.workerVersion.create({
+        data: {
+          worker: { connect: worker },
+          digest: createId(),
+          meta: { title: "Test Worker Version" },
+          apiKey: {
+            create: {
+              meta: { title: "Test Worker API Key" },
+              serviceAccountId: worker.serviceAccountId,
+              token: createId(),
+            },
+          },
+        },
+      })
+
+      await projectDatabase.workerUnitRegistration.create({
+        data: {
+          stateId,
+          name: "test-worker",
+          params: {},
+          workerVersionId: workerVersion.id,
+        },
+      })
+
+      return worker
+    })
+  },
+})
+
+describe("grantAccess", () => {
+  accessTest(
+    "returns existing grant instead of creating duplicate",
+    async ({
+      serviceAccountAccessService,
+      project,
+      createInstanceState,
+      createServiceAccount,
+      expect,
+    }) => {
+      // arrange
+      const instance = await createInstanceState(project.id)
+      const serviceAccount = await createServiceAccount()
+
+      // act
+      const first = await serviceAccountAccessService.grantAccess(project.id, serviceAccount.id, {
+        stateId: instance.id,
+      })
+      const second = await serviceAccountAccessService.grantAccess(project.id, serviceAccount.id, {
+        stateId: instance.id,
+      })
+
+      // assert
+      expect(second.id).toBe(first.id)
+
+      const grants = await serviceAccountAccessService.getServiceAccountGrants(
+        project.id,
+        serviceAccount.id,
+      )
+      expect(grants).toHaveLength(1)
+    },
+  )
+
+  accessTest(
+    "throws when service account or target does not exist",
+    async ({ serviceAccountAccessService, project, createServiceAccount, expect }) => {
+      // arrange
+      const serviceAccount = await createServiceAccount()
+
+      // act & assert
+      await expect(
+        serviceAccountAccessService.grantAccess(project.id, createId(), { stateId: createId() }),
+      ).rejects.toThrow(ServiceAccountNotFoundError)
+
+      await expect(
+        serviceAccountAccessService.grantAccess(project.id, serviceAccount.id, {
+          stateId: createId(),
+        }),
+      ).rejects.toThrow(InstanceStateNotFoundError)
+    },
+  )
+})
+
+describe("ensureSecretAccess", () => {
+  accessTest(
+    "allows owned secrets and secrets granted directly or via instance",
+    async ({
+      serviceAccountAccessService,
+      project,
+      createInstanceState,
+      createServiceAccount,
+      createSecret,
+      expect,
+    }) => {
+      // arrange
+      const instance = await createInstanceState(project.id)
+      const serviceAccount = await createServiceAccount()
+
+      const ownedSecret = await createSecret({ serviceAccountId: serviceAccount.id })
+      const grantedSecret = await createSecret()
+      const instanceSecret = await createSecret({ stateId: instance.id })
+
+      await serviceAccountAccessService.grantAccess(project.id, serviceAccount.id, {
+        secretId: grantedSecret.id,
+      })
+      await serviceAccountAccessService.grantAccess(project.id, serviceAccount.id, {
+        stateId: instance.id,
+      })
+
+      // act & assert
+      for (const secret of [ownedSecret, grantedSecret, instanceSecret]) {
+        await expect(
+          serviceAccountAccessService.ensureSecretAccess(project.id, serviceAccount.id, secret.id),
+        ).resolves.toBeUndefined()
+      }
+    },
+  )
+
+  accessTest(
+    "rejects secrets without grants and missing secrets",
+    async ({
+      serviceAccountAccessService,
+      project,
+      createInstanceState,
+      createServiceAccount,
+      createSecret,
+      expect,
+    }) => {
+      // arrange
+      const instance = await createInstanceState(project.id)
+      const serviceAccount = await createServiceAccount()
+      const otherServiceAccount = await createServiceAccount()
+      const secret = await createSecret({ stateId: instance.id })
+
+      await serviceAccountAccessService.grantAccess(project.id, otherServiceAccount.id, {
+        stateId: instance.id,
+      })
+
+      // act & assert
+      await expect(
+        serviceAccountAccessService.ensureSecretAccess(project.id, serviceAccount.id, secret.id),
+      ).rejects.toThrow(AccessError)
+
+      await expect(
+        serviceAccountAccessService.ensureSecretAccess(project.id, serviceAccount.id, createId()),
+      ).rejects.toThrow(AccessError)
+    },
+  )
+
+  accessTest(
+    "rejects access after grant is revoked",
+    async ({
+      serviceAccountAccessService,
+      project,
+      createServiceAccount,
+      createSecret,
+      expect,
+    }) => {
+      // arrange
+      const serviceAccount = await createServiceAccount()
+      const secret = await createSecret()
+
+      const grant = await serviceAccountAccessService.grantAccess(project.id, serviceAccount.id, {
+        secretId: secret.id,
+      })
+
+      // act
+      await serviceAccountAccessService.revokeAccess(project.id, grant.id)
+
+      // assert
+      await expect(
+        serviceAccountAccessService.ensureSecretAccess(project.id, serviceAccount.id, secret.id),
+      ).rejects.toThrow(AccessError)
+    },
+  )
+})
+
+describe("ensureInstanceAccess", () => {
+  accessTest(
+    "allows only service accounts of workers registered for instance",
+    async ({
+      serviceAccountAccessService,
+      project,
+      createInstanceState,
+      createServiceAccount,
+      createRegisteredWorker,
+      expect,
+    }) => {
+      // arrange
+      const instance = await createInstanceState(project.id)
+      const otherInstance = await createInstanceState(project.id)
+      const worker = await createRegisteredWorker(instance.id)
+      const serviceAccount = await createServiceAccount()
+
+      // act & assert
+      await expect(
+        serviceAccountAccessService.ensureInstanceAccess(
+          project.id,
+          worker.serviceAccountId,
+          instance.id,
+        ),
+      ).resolves.toBeUndefined()
+
+      await expect(
+        serviceAccountAccessService.ensureInstanceAccess(
+          project.id,
+          worker.serviceAccountId,
+          otherInstance.id,
+        ),
+      ).rejects.toThrow(AccessError)
+
+      await expect(
+        serviceAccountAccessService.ensureInstanceAccess(
+          project.id,
+          serviceAccount.id,
+          instance.id,
+        ),
+      ).rejects.toThrow(AccessError)
+    },
+  )
+})
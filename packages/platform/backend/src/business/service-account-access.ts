@@ -0,0 +1,230 @@
+import type { Logger } from "pino"
+import type { DatabaseManager, ServiceAccountGrant } from "../database"
+import { createProjectLogger } from "../common"
+import {
+  AccessError,
+  InstanceStateNotFoundError,
+  SecretNotFoundError,
+  ServiceAccountNotFoundError,
+} from "../shared"
+
+export type ServiceAccountGrantTarget = { stateId: string } | { secretId: string }
+
+export class ServiceAccountAccessService {
+  constructor(
+    private readonly database: DatabaseManager,
+    private readonly logger: Logger,
+  ) {}
+
+  /**
+   * Grants the service account access to the instance or the secret.
+   *
+   * The access to the instance includes the access to all its secrets.
+   * If the same grant already exists, it is returned instead of creating a new one.
+   *
+   * @param projectId The ID of the project containing the service account.
+   * @param serviceAccountId The ID of the service account to grant the access to.
+   * @param target The instance state or the secret to grant the access to.
+   * @returns The created or existing grant.
+   */
+  async grantAccess(
+    projectId: string,
+    serviceAccountId: string,
+    target: ServiceAccountGrantTarget,
+  ): Promise<ServiceAccountGrant> {
+    const logger = createProjectLogger(this.logger, projectId)
+    const database = await this.database.forProject(projectId)
+
+    return await database.$transaction(async tx => {
+      const serviceAccount = await tx.serviceAccount.findUnique({
+        where: { id: serviceAccountId },
+        select: { id: true },
+      })
+
+      if (!serviceAccount) {
+        throw new ServiceAccountNotFoundError(projectId, serviceAccountId)
+      }
+
+      if ("stateId" in target) {
+        const state = await tx.instanceState.findUnique({
+          where: { id: target.stateId },
+          select: { id: true },
+        })
+
+        if (!state) {
+          throw new InstanceStateNotFoundError(projectId, target.stateId)
+        }
+      } else {
+        const secret = await tx.secret.findUnique({
+          where: { id: target.secretId },
+          select: { id: true },
+        })
+
+        if (!secret) {
+          throw new SecretNotFoundError(projectId, target.secretId)
+        }
+      }
+
+      const existing = await tx.serviceAccountGrant.findFirst({
+        where: { serviceAccountId, ...target },
+      })
+
+      if (existing) {
+        return existing
+      }
+
+      const grant = await tx.serviceAccountGrant.create({
+        data: { serviceAccountId, ...target },
+      })
+
+      logger.info({ serviceAccountId, ...target }, `created service account grant "%s"`, grant.id)
+
+      return grant
+    })
+  }
+
+  /**
+   * Revokes the grant of the service account.
+   *
+   * @param projectId The ID of the project containing the grant.
+   * @param grantId The ID of the grant to revoke.
+   */
+  async revokeAccess(projectId: string, grantId: string): Promise<void> {
+    const logger = createProjectLogger(this.logger, projectId)
+    const database = await this.database.forProject(projectId)
+
+    await database.serviceAccountGrant.deleteMany({ where: { id: grantId } })
+
+    logger.info(`revoked service account grant "%s"`, grantId)
+  }
+
+  /**
+   * Gets all grants of the service account.
+   *
+   * @param projectId The ID of the project containing the service account.
+   * @param serviceAccountId The ID of the service account.
+   */
+  async getServiceAccountGrants(
+    projectId: string,
+    serviceAccountId: string,
+  ): Promise<ServiceAccountGrant[]> {
+    const database = await this.database.forProject(projectId)
+
+    return await database.serviceAccountGrant.findMany({
+      where: { serviceAccountId },
+      orderBy: { createdAt: "asc" },
+    })
+  }
+
+  /**
+   * Allows or disallows the service account to request the operations
+   * for the instances its worker is registered for.
+   *
+   * @param projectId The ID of the project containing the service account.
+   * @param serviceAccountId The ID of the service account.
+   * @param canRequestOperations Whether the service account can request the operations.
+   */
+  async setOperationPermission(
+    projectId: string,
+    serviceAccountId: string,
+    canRequestOperations: boolean,
+  ): Promise<void> {
+    const logger = createProjectLogger(this.logger, projectId)
+    const database = await this.database.forProject(projectId)
+
+    const { count } = await database.serviceAccount.updateMany({
+      where: { id: serviceAccountId },
+      data: { canRequestOperations },
+    })
+
+    if (count === 0) {
+      throw new ServiceAccountNotFoundError(projectId, serviceAccountId)
+    }
+
+    logger.info(
+      { serviceAccountId },
+      canRequestOperations
+        ? "allowed service account to request operations"
+        : "disallowed service account to request operations",
+    )
+  }
+
+  /**
+   * Ensures the service account can read the content of the secret.
+   *
+   * The access is allowed if the secret is owned by the service account
+   * or the service account is granted the access to the secret or to the instance owning it.
+   *
+   * @param projectId The ID of the project containing the secret.
+   * @param serviceAccountId The ID of the service account requesting the access.
+   * @param secretId The ID of the secret.
+   * @throws AccessError if the access is not allowed or the secret does not exist.
+   */
+  async ensureSecretAccess(
+    projectId: string,
+    serviceAccountId: string,
+    secretId: string,
+  ): Promise<void> {
+    const database = await this.database.forProject(projectId)
+
+    const secret = await database.secret.findUnique({
+      where: { id: secretId },
+      select: { stateId: true, serviceAccountId: true },
+    })
+
+    // do not reveal whether the secret exists
+    if (secret) {
+      if (secret.serviceAccountId === serviceAccountId) {
+        return
+      }
+
+      const grant = await database.serviceAccountGrant.findFirst({
+        where: {
+          serviceAccountId,
+          OR: secret.stateId ? [{ secretId }, { stateId: secret.stateId }] : [{ secretId }],
+        },
+        select: { id: true },
+      })
+
+      if (grant) {
+        return
+      }
+    }
+
+    throw new AccessError(
+      `Service account "${serviceAccountId}" has no access to secret "${secretId}" in project "${projectId}"`,
+    )
+  }
+
+  /**
+   * Ensures the service account can manage the instance, e.g. update its custom statuses.
+   *
+   * The access is allowed only for the service accounts of the workers registered for the instance.
+   *
+   * @param projectId The ID of the project containing the instance.
+   * @param serviceAccountId The ID of the service account requesting the access.
+   * @param stateId The ID of the instance state.
+   * @throws AccessError if the worker of the service account is not registered for the instance.
+   */
+  async ensureInstanceAccess(
+    projectId: string,
+    serviceAccountId: string,
+    stateId: string,
+  ): Promise<void> {
+    const database = await this.database.forProject(projectId)
+
+    const registration = await database.workerUnitRegistration.findFirst({
+      where: {
+        stateId,
+        workerVersion: { worker: { serviceAccountId } },
+      },
+      select: { stateId: true },
+    })
+
+    if (!registration) {
+      throw new AccessError(
+        `Service account "${serviceAccountId}" has no access to instance "${stateId}" in project "${projectId}"`,
+      )
+    }
+  }
+}
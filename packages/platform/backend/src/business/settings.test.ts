@@ -1,6 +1,7 @@
 import { createId } from "@paralleldrive/cuid2"
 import { generateIdentity, identityToRecipient } from "age-encryption"
 import { describe } from "vitest"
+import { driftCustomStatusName, driftDetectorServiceAccount } from "../shared"
 import { test } from "../test-utils"
 import { SettingsService } from "./settings"
 
@@ -890,4 +891,54 @@ describe("SettingsService", () => {
       },
     )
   })
+  describe("queryInstanceDrifts", () => {
+    settingsTest(
+      "returns drifted instances marked by drift detector",
+      async ({ settingsService, projectDatabase, project, createInstanceState, expect }) => {
+        // arrange
+        const driftedInstance = await createInstanceState(project.id)
+        const otherInstance = await createInstanceState(project.id)
+
+        await projectDatabase.serviceAccount.upsert({
+          where: { id: driftDetectorServiceAccount.id },
+          create: driftDetectorServiceAccount,
+          update: {},
+        })
+
+        const otherServiceAccount = await projectDatabase.serviceAccount.create({
+          data: { meta: { title: "Monitor" } },
+        })
+
+        await projectDatabase.instanceCustomStatus.createMany({
+          data: [
+            {
+              stateId: driftedInstance.id,
+              serviceAccountId: driftDetectorServiceAccount.id,
+              name: driftCustomStatusName,
+              meta: { title: "Drift", description: "1 resource was changed outside of Highstate" },
+              value: "drifted",
+            },
+            {
+              stateId: otherInstance.id,
+              serviceAccountId: otherServiceAccount.id,
+              name: driftCustomStatusName,
+              meta: { title: "Drift" },
+              value: "drifted",
+            },
+          ],
+        })
+
+        // act
+        const result = await settingsService.queryInstanceDrifts(project.id, {})
+
+        // assert
+        expect(result.total).toBe(1)
+        expect(result.items[0]).toMatchObject({
+          id: driftedInstance.id,
+          instanceId: driftedInstance.instanceId,
+          meta: { description: "1 resource was changed outside of Highstate" },
+        })
+      },
+    )
+  })
 })
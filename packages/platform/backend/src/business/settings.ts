@@ -7,6 +7,7 @@ import type {
   EntitySnapshotReferenceOrderByWithRelationInput,
   EntitySnapshotReferenceWhereInput,
   EntityWhereInput,
+  InstanceCustomStatusWhereInput,
   OperationWhereInput,
   PageWhereInput,
   SecretWhereInput,
@@ -16,7 +17,7 @@ import type {
   UnlockMethodWhereInput,
   WorkerVersionWhereInput,
   WorkerWhereInput,
-} from "../database/_generated/project/models"
+} from "../database/_generated/project/sqlite/models"
 import type {
   ApiKeyOutput,
   ApiKeyQuery,
@@ -30,6 +31,7 @@ import type {
   EntityReferenceOutput,
   EntitySnapshotDetailsOutput,
   EntitySnapshotListItemOutput,
+  InstanceDriftOutput,
   OperationOutput,
   OperationType,
   PageDetailsOutput,
@@ -55,6 +57,8 @@ import {
   apiKeyOutputSchema,
   artifactOutputSchema,
   collectionQuerySchema,
+  driftCustomStatusName,
+  driftDetectorServiceAccount,
   entityDetailsOutputSchema,
   entityOutputSchema,
   entityQuerySchema,
@@ -1547,6 +1551,51 @@ export class SettingsService {
     return { items, total }
   }
 
+  async queryInstanceDrifts(
+    projectId: string,
+    query: CollectionQuery,
+  ): Promise<CollectionQueryResult<InstanceDriftOutput>> {
+    const db = await this.database.forProject(projectId)
+
+    const whereClause: InstanceCustomStatusWhereInput = {
+      serviceAccountId: driftDetectorServiceAccount.id,
+      name: driftCustomStatusName,
+    }
+
+    if (query.search) {
+      whereClause.state = { instanceId: { contains: query.search } }
+    }
+
+    const [total, items] = await Promise.all([
+      db.instanceCustomStatus.count({ where: whereClause }),
+      db.instanceCustomStatus.findMany({
+        where: whereClause,
+        orderBy: { createdAt: "desc" },
+        skip: query.skip,
+        take: query.count,
+        select: {
+          stateId: true,
+          meta: true,
+          message: true,
+          createdAt: true,
+          updatedAt: true,
+          state: { select: { instanceId: true } },
+        },
+      }),
+    ])
+
+    const driftOutputItems = items.map(item => ({
+      id: item.stateId,
+      instanceId: item.state.instanceId,
+      meta: item.meta,
+      message: item.message,
+      detectedAt: item.createdAt,
+      checkedAt: item.updatedAt,
+    }))
+
+    return { items: driftOutputItems, total }
+  }
+
   async queryArtifacts(
     projectId: string,
     query: ArtifactQuery,
@@ -0,0 +1,189 @@
+import type { InstanceId } from "@highstate/contract"
+import type { RunnerBackend } from "../runner"
+import type { StackCheckpoint, StackResource } from "../shared"
+import type { InstanceLockService } from "./instance-lock"
+import { describe, type MockedObject, vi } from "vitest"
+import {
+  InstanceLockedError,
+  InvalidInstanceKindError,
+  StackResourceNotFoundError,
+} from "../shared"
+import { test } from "../test-utils"
+import { StackStateService } from "./stack-state"
+
+const resourceUrn = "urn:pulumi:abc::project::random:index:RandomId::id"
+
+const checkpoint: StackCheckpoint = {
+  version: 3,
+  deployment: {
+    resources: [{ urn: resourceUrn, type: "random:index:RandomId" }],
+  },
+}
+
+const resources: StackResource[] = [
+  {
+    urn: resourceUrn,
+    type: "random:index:RandomId",
+    protect: false,
+    dependencies: [],
+  },
+]
+
+const stackStateTest = test.extend<{
+  runnerBackend: MockedObject<RunnerBackend>
+  instanceLockService: MockedObject<InstanceLockService>
+  stackStateService: StackStateService
+}>({
+  runnerBackend: async ({}, use) => {
+    const runnerBackend = vi.mockObject({
+      getResources: vi.fn().mockResolvedValue(resources),
+      exportState: vi.fn().mockResolvedValue(checkpoint),
+      importState: vi.fn().mockResolvedValue(undefined),
+    } as unknown as RunnerBackend)
+
+    await use(runnerBackend)
+  },
+
+  instanceLockService: async ({}, use) => {
+    const instanceLockService = vi.mockObject({
+      tryLockInstances: vi
+        .fn()
+        .mockImplementation(async (_projectId: string, stateIds: string[]) => ["token", stateIds]),
+      unlockInstances: vi.fn().mockResolvedValue(undefined),
+    } as unknown as InstanceLockService)
+
+    await use(instanceLockService)
+  },
+
+  stackStateService: async ({ database, runnerBackend, instanceLockService, logger }, use) => {
+    await use(new StackStateService(database, runnerBackend, instanceLockService, logger))
+  },
+})
+
+describe("StackStateService", () => {
+  stackStateTest(
+    "gets resources of unit instance stack",
+    async ({ stackStateService, runnerBackend, project, createInstanceState, expect }) => {
+      // arrange
+      const state = await createInstanceState(project.id)
+
+      // act
+      const result = await stackStateService.getResources(
+        project.id,
+        state.instanceId as InstanceId,
+      )
+
+      // assert
+      expect(result).toEqual(resources)
+      expect(runnerBackend.getResources).toHaveBeenCalledWith(
+        expect.objectContaining({ projectId: project.id, stateId: state.id }),
+      )
+    },
+  )
+
+  stackStateTest(
+    "applies modification under instance lock",
+    async ({
+      stackStateService,
+      runnerBackend,
+      instanceLockService,
+      project,
+      createInstanceState,
+      expect,
+    }) => {
+      // arrange
+      const state = await createInstanceState(project.id)
+
+      // act
+      await stackStateService.modifyState(project.id, state.instanceId as InstanceId, {
+        type: "unprotect",
+        urn: resourceUrn,
+      })
+
+      // assert
+      expect(instanceLockService.tryLockInstances).toHaveBeenCalledWith(
+        project.id,
+        [state.id],
+        expect.any(Object),
+      )
+
+      expect(runnerBackend.importState).toHaveBeenCalledWith(
+        expect.objectContaining({ stateId: state.id }),
+        {
+          version: 3,
+          deployment: {
+            resources: [{ urn: resourceUrn, type: "random:index:RandomId", protect: false }],
+          },
+        },
+      )
+
+      expect(instanceLockService.unlockInstances).toHaveBeenCalledWith(
+        project.id,
+        [state.id],
+        "token",
+      )
+    },
+  )
+
+  stackStateTest(
+    "throws when instance is locked",
+    async ({
+      stackStateService,
+      runnerBackend,
+      instanceLockService,
+      project,
+      createInstanceState,
+      expect,
+    }) => {
+      // arrange
+      const state = await createInstanceState(project.id)
+      instanceLockService.tryLockInstances.mockResolvedValueOnce(["token", []])
+
+      // act & assert
+      await expect(
+        stackStateService.importState(project.id, state.instanceId as InstanceId, checkpoint),
+      ).rejects.toThrow(InstanceLockedError)
+
+      expect(runnerBackend.importState).not.toHaveBeenCalled()
+    },
+  )
+
+  stackStateTest(
+    "unlocks instance when modification fails",
+    async ({
+      stackStateService,
+      runnerBackend,
+      instanceLockService,
+      project,
+      createInstanceState,
+      expect,
+    }) => {
+      // arrange
+      const state = await createInstanceState(project.id)
+
+      // act & assert
+      await expect(
+        stackStateService.modifyState(project.id, state.instanceId as InstanceId, {
+          type: "delete",
+          urn: `${resourceUrn}-missing`,
+        }),
+      ).rejects.toThrow(StackResourceNotFoundError)
+
+      expect(runnerBackend.importState).not.toHaveBeenCalled()
+      expect(instanceLockService.unlockInstances).toHaveBeenCalled()
+    },
+  )
+
+  stackStateTest(
+    "rejects composite instances",
+    async ({ stackStateService, project, createInstanceState, expect }) => {
+      // arrange
+      const state = await createInstanceState(project.id, "composite.v1", "composite")
+
+      // act & assert
+      await expect(
+        stackStateService.getResources(project.id, state.instanceId as InstanceId),
+      ).rejects.toThrow(InvalidInstanceKindError)
+    },
+  )
+})
@@ -0,0 +1,194 @@
+import type { Logger } from "pino"
+import type { DatabaseManager } from "../database"
+import type { RunnerBackend, UnitStateOptions } from "../runner"
+import type { InstanceLockService } from "./instance-lock"
+import { type InstanceId, parseInstanceId } from "@highstate/contract"
+import { createProjectLogger } from "../common"
+import { modifyStackState } from "../runner"
+import {
+  InstanceLockedError,
+  InstanceStateNotFoundError,
+  InvalidInstanceKindError,
+  ProjectNotFoundError,
+  type StackCheckpoint,
+  type StackResource,
+  type StackStateModification,
+} from "../shared"
+
+/**
+ * Inspects and modifies the Pulumi stack states of the unit instances.
+ *
+ * All modifications are performed under the instance lock,
+ * so they cannot interfere with the operations running on the instance.
+ */
+export class StackStateService {
+  constructor(
+    private readonly database: DatabaseManager,
+    private readonly runnerBackend: RunnerBackend,
+    private readonly instanceLockService: InstanceLockService,
+    private readonly logger: Logger,
+  ) {}
+
+  /**
+   * Gets the resources currently managed by the stack of the unit instance.
+   *
+   * @param projectId The ID of the project containing the instance.
+   * @param instanceId The ID of the unit instance.
+   */
+  async getResources(projectId: string, instanceId: InstanceId): Promise<StackResource[]> {
+    const { options } = await this.getUnitStateOptions(projectId, instanceId)
+
+    return await this.runnerBackend.getResources(options)
+  }
+
+  /**
+   * Exports the checkpoint of the stack of the unit instance.
+   *
+   * The secrets in the checkpoint remain encrypted with the Pulumi password of the project.
+   *
+   * @param projectId The ID of the project containing the instance.
+   * @param instanceId The ID of the unit instance.
+   * @throws PulumiStackNotFoundError if the instance was never deployed.
+   */
+  async exportState(projectId: string, instanceId: InstanceId): Promise<StackCheckpoint> {
+    const { options } = await this.getUnitStateOptions(projectId, instanceId)
+
+    return await this.runnerBackend.exportState(options)
+  }
+
+  /**
+   * Imports the checkpoint into the stack of the unit instance replacing its current state.
+   *
+   * @param projectId The ID of the project containing the instance.
+   * @param instanceId The ID of the unit instance.
+   * @param checkpoint The checkpoint to import.
+   * @param userId The ID of the user importing the checkpoint.
+   * @throws InstanceLockedError if the instance is locked by an operation.
+   * @throws StackCheckpointMismatchError if the checkpoint contains resources of another stack.
+   */
+  async importState(
+    projectId: string,
+    instanceId: InstanceId,
+    checkpoint: StackCheckpoint,
+    userId?: string,
+  ): Promise<void> {
+    const logger = createProjectLogger(this.logger, projectId)
+    const { stateId, options } = await this.getUnitStateOptions(projectId, instanceId)
+
+    await this.withInstanceLock(projectId, instanceId, stateId, async () => {
+      await this.runnerBackend.importState(options, checkpoint)
+    })
+
+    logger.info({ instanceId, userId }, "imported stack state")
+  }
+
+  /**
+   * Modifies the single resource in the stack of the unit instance.
+   *
+   * @param projectId The ID of the project containing the instance.
+   * @param instanceId The ID of the unit instance.
+   * @param modification The modification to apply.
+   * @param userId The ID of the user modifying the state.
+   * @returns The resources of the stack after the modification.
+   * @throws InstanceLockedError if the instance is locked by an operation.
+   * @throws PulumiStackNotFoundError if the instance was never deployed.
+   * @throws StackResourceNotFoundError if the resource does not exist in the stack.
+   * @throws StackStateModificationError if the modification cannot be applied.
+   */
+  async modifyState(
+    projectId: string,
+    instanceId: InstanceId,
+    modification: StackStateModification,
+    userId?: string,
+  ): Promise<StackResource[]> {
+    const logger = createProjectLogger(this.logger, projectId)
+    const { stateId, options } = await this.getUnitStateOptions(projectId, instanceId)
+
+    const resources = await this.withInstanceLock(projectId, instanceId, stateId, async () => {
+      const checkpoint = await this.runnerBackend.exportState(options)
+      const modifiedCheckpoint = modifyStackState(checkpoint, modification)
+
+      await this.runnerBackend.importState(options, modifiedCheckpoint)
+
+      return await this.runnerBackend.getResources(options)
+    })
+
+    logger.info(
+      { instanceId, userId, urn: modification.urn },
+      "applied %s modification to stack state",
+      modification.type,
+    )
+
+    return resources
+  }
+
+  private async withInstanceLock<T>(
+    projectId: string,
+    instanceId: InstanceId,
+    stateId: string,
+    action: () => Promise<T>,
+  ): Promise<T> {
+    const [token, lockedStateIds] = await this.instanceLockService.tryLockInstances(
+      projectId,
+      [stateId],
+      {
+        title: "Stack State Lock",
+        description: "The stack state of the instance is being modified.",
+        icon: "mdi:database-edit",
+      },
+    )
+
+    if (lockedStateIds.length === 0) {
+      throw new InstanceLockedError(projectId, instanceId)
+    }
+
+    try {
+      return await action()
+    } finally {
+      await this.instanceLockService.unlockInstances(projectId, [stateId], token)
+    }
+  }
+
+  private async getUnitStateOptions(
+    projectId: string,
+    instanceId: InstanceId,
+  ): Promise<{ stateId: string; options: UnitStateOptions }> {
+    const database = await this.database.forProject(projectId)
+
+    const [project, state] = await Promise.all([
+      this.database.backend.project.findUnique({
+        where: { id: projectId },
+        select: { libraryId: true },
+      }),
+      database.instanceState.findUnique({
+        where: { instanceId },
+        select: { id: true, kind: true },
+      }),
+    ])
+
+    if (!project) {
+      throw new ProjectNotFoundError(projectId)
+    }
+
+    if (!state) {
+      throw new InstanceStateNotFoundError(projectId, instanceId)
+    }
+
+    if (state.kind !== "unit") {
+      throw new InvalidInstanceKindError(projectId, instanceId, "unit", state.kind)
+    }
+
+    const [instanceType, instanceName] = parseInstanceId(instanceId)
+
+    return {
+      stateId: state.id,
+      options: {
+        projectId,
+        stateId: state.id,
+        libraryId: project.libraryId,
+        instanceType,
+        instanceName,
+      },
+    }
+  }
+}
@@ -0,0 +1,84 @@
+import { createId } from "@paralleldrive/cuid2"
+import { ulid } from "ulid"
+import { v7 as uuidv7 } from "uuid"
+import { describe } from "vitest"
+import { formatAsciicast, TerminalSessionNotFoundError } from "../shared"
+import { test } from "../test-utils"
+import { getTerminalSessionLogTime, TerminalSessionService } from "./terminal-session"
+
+describe("getTerminalSessionLogTime", () => {
+  test("extracts time from ULID and UUIDv7", ({ expect }) => {
+    const time = Date.UTC(2025, 0, 1)
+
+    expect(getTerminalSessionLogTime(ulid(time))).toBe(time)
+    expect(getTerminalSessionLogTime(uuidv7({ msecs: time }))).toBe(time)
+  })
+})
+
+describe("getSessionRecording", () => {
+  test("derives event timing from log IDs", async ({
+    database,
+    project,
+    projectDatabase,
+    expect,
+  }) => {
+    // arrange
+    const service = new TerminalSessionService(database)
+    const startedAt = new Date(Date.UTC(2025, 0, 1))
+
+    const terminal = await projectDatabase.terminal.create({
+      data: {
+        meta: { title: "Shell" },
+        spec: { image: "alpine", command: ["sh"] },
+      },
+    })
+
+    const session = await projectDatabase.terminalSession.create({
+      data: { terminalId: terminal.id, startedAt },
+    })
+
+    await projectDatabase.terminalSessionLog.createMany({
+      data: [
+        { id: uuidv7({ msecs: startedAt.getTime() + 500 }), sessionId: session.id, content: "$ " },
+        { id: uuidv7({ msecs: startedAt.getTime() + 2000 }), sessionId: session.id, content: "ls" },
+      ],
+    })
+
+    // act
+    const recording = await service.getSessionRecording(project.id, session.id, {
+      cols: 80,
+      rows: 24,
+    })
+
+    // assert
+    expect(recording.header).toMatchObject({
+      version: 2,
+      width: 80,
+      height: 24,
+      timestamp: startedAt.getTime() / 1000,
+      title: "Shell",
+    })
+
+    expect(recording.events).toEqual([
+      [0.5, "o", "$ "],
+      [2, "o", "ls"],
+    ])
+
+    expect(formatAsciicast(recording).split("\n")).toEqual([
+      JSON.stringify(recording.header),
+      `[0.5,"o","$ "]`,
+      `[2,"o","ls"]`,
+      "",
+    ])
+  })
+
+  test("throws when session does not exist", async ({ database, project, expect }) => {
+    // arrange
+    const service = new TerminalSessionService(database)
+
+    // act & assert
+    await expect(service.getSessionRecording(project.id, createId())).rejects.toThrow(
+      TerminalSessionNotFoundError,
+    )
+  })
+})
@@ -1,6 +1,11 @@
 import type { DatabaseManager, TerminalSessionLog } from "../database"
+import type { ScreenSize } from "../terminal"
+import { decodeTime } from "ulid"
+import { TerminalSessionNotFoundError } from "../shared"
 import {
+  type AsciicastEvent,
   type TerminalSessionOutput,
+  type TerminalSessionRecording,
   toTerminalSessionOutput,
 } from "../shared/models/project/terminal"
 
@@ -87,4 +92,59 @@ export class TerminalSessionService {
       orderBy: { id: "asc" },
     })
   }
+
+  /**
+   * Get the recording of the terminal session in the asciicast v2 format
+   *
+   * The screen size is not persisted, so the size of the viewer should be provided.
+   *
+   * @param projectId The project ID
+   * @param sessionId The session ID to get the recording for
+   * @param screenSize The screen size to put into the recording header
+   * @returns The header and the output events with the timing derived from the log IDs
+   */
+  async getSessionRecording(
+    projectId: string,
+    sessionId: string,
+    screenSize: ScreenSize = { cols: 120, rows: 30 },
+  ): Promise<TerminalSessionRecording> {
+    const session = await this.getTerminalSession(projectId, sessionId)
+    if (!session) {
+      throw new TerminalSessionNotFoundError(projectId, sessionId)
+    }
+
+    const logs = await this.getSessionHistory(projectId, sessionId)
+    const startTime = session.startedAt.getTime()
+
+    const events = logs.map((log): AsciicastEvent => {
+      const time = Math.max(0, getTerminalSessionLogTime(log.id) - startTime)
+
+      return [time / 1000, "o", log.content]
+    })
+
+    return {
+      header: {
+        version: 2,
+        width: screenSize.cols,
+        height: screenSize.rows,
+        timestamp: Math.floor(startTime / 1000),
+        title: session.meta.globalTitle ?? session.meta.title,
+        env: { TERM: "xterm-256color" },
+      },
+      events,
+    }
+  }
+}
+
+/**
+ * Returns the creation time of the log in milliseconds extracted from its ID.
+ *
+ * Supports both the ULIDs and the UUIDv7s, since both start with the 48-bit timestamp.
+ */
+export function getTerminalSessionLogTime(logId: string): number {
+  if (logId.includes("-")) {
+    return Number.parseInt(logId.replaceAll("-", "").slice(0, 12), 16)
+  }
+
+  return decodeTime(logId)
 }
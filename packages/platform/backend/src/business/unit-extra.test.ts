@@ -8,11 +8,12 @@ describe("UnitExtraService", () => {
   describe("processUnitTerminals", () => {
     test("should create new terminals", async ({
       database,
+      logger,
       project,
       createInstanceState,
       projectDatabase,
     }) => {
-      const service = new UnitExtraService(database)
+      const service = new UnitExtraService(database, logger)
       const instance = await createInstanceState(project.id)
 
       const unitTerminals: UnitTerminal[] = [
@@ -70,11 +71,12 @@ describe("UnitExtraService", () => {
 
     test("should update existing terminals", async ({
       database,
+      logger,
       project,
       createInstanceState,
       projectDatabase,
     }) => {
-      const service = new UnitExtraService(database)
+      const service = new UnitExtraService(database, logger)
       const instance = await createInstanceState(project.id)
 
       await projectDatabase.terminal.create({
@@ -132,10 +134,11 @@ describe("UnitExtraService", () => {
 
     test("should mark dangling terminals as unavailable", async ({
       database,
+      logger,
       project,
       createInstanceState,
     }) => {
-      const service = new UnitExtraService(database)
+      const service = new UnitExtraService(database, logger)
       const instance = await createInstanceState(project.id)
 
       const db = await database.forProject(project.id)
@@ -190,11 +193,12 @@ describe("UnitExtraService", () => {
 
     test("should not affect already unavailable terminals", async ({
       database,
+      logger,
       project,
       createInstanceState,
       projectDatabase,
     }) => {
-      const service = new UnitExtraService(database)
+      const service = new UnitExtraService(database, logger)
       const instance = await createInstanceState(project.id)
 
       await projectDatabase.terminal.create({
@@ -221,11 +225,12 @@ describe("UnitExtraService", () => {
   describe("processUnitPages", () => {
     test("should create new pages", async ({
       database,
+      logger,
       project,
       createInstanceState,
       projectDatabase,
     }) => {
-      const service = new UnitExtraService(database)
+      const service = new UnitExtraService(database, logger)
       const instance = await createInstanceState(project.id)
 
       const unitPages: UnitPage[] = [
@@ -279,11 +284,12 @@ To login, use the following token:`,
 
     test("should update existing pages", async ({
       database,
+      logger,
       project,
       createInstanceState,
       projectDatabase,
     }) => {
-      const service = new UnitExtraService(database)
+      const service = new UnitExtraService(database, logger)
       const instance = await createInstanceState(project.id)
 
       const db = await database.forProject(project.id)
@@ -338,11 +344,12 @@ To login, use the following token:`,
 
     test("should delete dangling pages", async ({
       database,
+      logger,
       project,
       createInstanceState,
       projectDatabase,
     }) => {
-      const service = new UnitExtraService(database)
+      const service = new UnitExtraService(database, logger)
       const instance = await createInstanceState(project.id)
 
       const db = await database.forProject(project.id)
@@ -387,16 +394,131 @@ To login, use the following token:`,
       expect(pages).toHaveLength(1)
       expect(pages[0].name).toBe("dashboard")
     })
+
+    test("should preserve other pages without pruning", async ({
+      database,
+      logger,
+      project,
+      createInstanceState,
+      projectDatabase,
+    }) => {
+      const service = new UnitExtraService(database, logger)
+      const instance = await createInstanceState(project.id)
+
+      await projectDatabase.page.create({
+        data: {
+          stateId: instance.id,
+          name: "settings",
+          meta: { title: "Settings" },
+          content: [],
+        },
+      })
+
+      const unitPages: UnitPage[] = [
+        {
+          name: "dashboard",
+          meta: { title: "Dashboard" },
+          content: [{ type: "markdown", content: "Dashboard content" }],
+        },
+      ]
+
+      await projectDatabase.$transaction(async tx => {
+        await service.processUnitPages(tx, instance.id, unitPages, { prune: false })
+      })
+
+      const pages = await projectDatabase.page.findMany({
+        where: { stateId: instance.id },
+        orderBy: { name: "asc" },
+      })
+
+      expect(pages.map(page => page.name)).toEqual(["dashboard", "settings"])
+    })
+  })
+
+  describe("removeUnitPages", () => {
+    test("should delete only named pages", async ({
+      database,
+      logger,
+      project,
+      createInstanceState,
+      projectDatabase,
+    }) => {
+      const service = new UnitExtraService(database, logger)
+      const instance = await createInstanceState(project.id)
+
+      await projectDatabase.page.createMany({
+        data: [
+          { stateId: instance.id, name: "dashboard", meta: { title: "Dashboard" }, content: [] },
+          { stateId: instance.id, name: "settings", meta: { title: "Settings" }, content: [] },
+        ],
+      })
+
+      await projectDatabase.$transaction(async tx => {
+        await service.removeUnitPages(tx, instance.id, ["settings"])
+      })
+
+      const pages = await projectDatabase.page.findMany({ where: { stateId: instance.id } })
+
+      expect(pages).toHaveLength(1)
+      expect(pages[0].name).toBe("dashboard")
+    })
+  })
+
+  describe("removeUnitTerminals", () => {
+    test("should mark only named terminals as unavailable", async ({
+      database,
+      logger,
+      project,
+      createInstanceState,
+      projectDatabase,
+    }) => {
+      const service = new UnitExtraService(database, logger)
+      const instance = await createInstanceState(project.id)
+
+      await projectDatabase.terminal.createMany({
+        data: [
+          {
+            stateId: instance.id,
+            name: "ssh",
+            meta: { title: "SSH Terminal" },
+            spec: { image: "alpine", command: ["ssh"] },
+            status: "active",
+          },
+          {
+            stateId: instance.id,
+            name: "backup",
+            meta: { title: "Backup Terminal" },
+            spec: { image: "restic", command: ["restic"] },
+            status: "active",
+          },
+        ],
+      })
+
+      await projectDatabase.$transaction(async tx => {
+        await service.removeUnitTerminals(tx, instance.id, ["backup"])
+      })
+
+      const terminals = await projectDatabase.terminal.findMany({
+        where: { stateId: instance.id },
+        orderBy: { name: "asc" },
+      })
+
+      expect(terminals.map(terminal => [terminal.name, terminal.status])).toEqual([
+        ["backup", "unavailable"],
+        ["ssh", "active"],
+      ])
+    })
   })
 
   describe("processUnitTriggers", () => {
     test("should create new triggers", async ({
       database,
+      logger,
       project,
       createInstanceState,
       projectDatabase,
     }) => {
-      const service = new UnitExtraService(database)
+      const service = new UnitExtraService(database, logger)
       const instance = await createInstanceState(project.id)
 
       const unitTriggers: UnitTrigger[] = [
@@ -433,11 +555,12 @@ To login, use the following token:`,
 
     test("should update existing triggers", async ({
       database,
+      logger,
       project,
       createInstanceState,
       projectDatabase,
     }) => {
-      const service = new UnitExtraService(database)
+      const service = new UnitExtraService(database, logger)
       const instance = await createInstanceState(project.id)
 
       const db = await database.forProject(project.id)
@@ -490,11 +613,12 @@ To login, use the following token:`,
 
     test("should delete dangling triggers", async ({
       database,
+      logger,
       project,
       createInstanceState,
       projectDatabase,
     }) => {
-      const service = new UnitExtraService(database)
+      const service = new UnitExtraService(database, logger)
       const instance = await createInstanceState(project.id)
 
       const db = await database.forProject(project.id)
@@ -536,17 +660,90 @@ To login, use the following token:`,
       expect(triggers).toHaveLength(1)
       expect(triggers[0].name).toBe("cleanup")
     })
+
+    test("should plan the next run of schedule triggers", async ({
+      database,
+      logger,
+      project,
+      createInstanceState,
+      projectDatabase,
+    }) => {
+      const service = new UnitExtraService(database, logger)
+      const instance = await createInstanceState(project.id)
+
+      const plannedRunAt = new Date("2000-01-01T00:00:00Z")
+
+      const db = await database.forProject(project.id)
+      await db.trigger.createMany({
+        data: [
+          {
+            stateId: instance.id,
+            name: "backup",
+            meta: { title: "Backup" },
+            spec: { type: "schedule", cron: "0 3 * * *" },
+            nextRunAt: plannedRunAt,
+          },
+          {
+            stateId: instance.id,
+            name: "rotate",
+            meta: { title: "Rotate" },
+            spec: { type: "schedule", cron: "0 3 * * *" },
+            nextRunAt: plannedRunAt,
+          },
+        ],
+      })
+
+      const unitTriggers: UnitTrigger[] = [
+        {
+          name: "backup",
+          meta: { title: "Backup" },
+          spec: { type: "schedule", cron: "0 3 * * *" },
+        },
+        {
+          name: "rotate",
+          meta: { title: "Rotate" },
+          spec: { type: "schedule", cron: "0 4 * * *" },
+        },
+        {
+          name: "cleanup",
+          meta: { title: "Cleanup" },
+          spec: { type: "before-destroy" },
+        },
+      ]
+
+      await projectDatabase.$transaction(async tx => {
+        await service.processUnitTriggers(tx, instance.id, unitTriggers)
+      })
+
+      const triggers = await projectDatabase.trigger.findMany({
+        where: { stateId: instance.id },
+        orderBy: { name: "asc" },
+      })
+
+      // the planned run is kept when the schedule is not changed
+      expect(triggers[0].name).toBe("backup")
+      expect(triggers[0].nextRunAt).toEqual(plannedRunAt)
+
+      expect(triggers[1].name).toBe("cleanup")
+      expect(triggers[1].nextRunAt).toBeNull()
+
+      // the next run is recalculated when the schedule is changed
+      expect(triggers[2].name).toBe("rotate")
+      expect(triggers[2].nextRunAt!.getTime()).toBeGreaterThan(Date.now())
+      expect(triggers[2].nextRunAt!.getMinutes()).toBe(0)
+    })
   })
 })
 
 describe("pruneInstanceArtifacts", () => {
   test("removes artifacts not included in the keep list", async ({
     database,
+    logger,
     project,
     createInstanceState,
     projectDatabase,
   }) => {
-    const service = new UnitExtraService(database)
+    const service = new UnitExtraService(database, logger)
     const instance = await createInstanceState(project.id)
 
     const artifactToKeep = await projectDatabase.artifact.create({
@@ -602,11 +799,12 @@ describe("pruneInstanceArtifacts", () => {
 
   test("removes all artifacts when keep list is empty", async ({
     database,
+    logger,
     project,
     createInstanceState,
     projectDatabase,
   }) => {
-    const service = new UnitExtraService(database)
+    const service = new UnitExtraService(database, logger)
     const instance = await createInstanceState(project.id)
 
     await projectDatabase.artifact.create({
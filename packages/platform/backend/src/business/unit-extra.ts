@@ -1,8 +1,23 @@
 import type { UnitPage, UnitTerminal, UnitTrigger } from "@highstate/contract"
+import type { Logger } from "pino"
 import type { DatabaseManager, ProjectTransaction } from "../database"
+import { isDeepEqual } from "remeda"
+import { getTriggerNextRunAt } from "../shared"
+
+export type ProcessUnitExtraOptions = {
+  /**
+   * Whether to remove or deactivate the existing items not included in the processed list.
+   *
+   * By default, this is true.
+   */
+  prune?: boolean
+}
 
 export class UnitExtraService {
-  constructor(private readonly database: DatabaseManager) {}
+  constructor(
+    private readonly database: DatabaseManager,
+    private readonly logger: Logger,
+  ) {}
 
   /**
    * Processes unit terminals within an existing transaction.
@@ -10,12 +25,14 @@ export class UnitExtraService {
    * @param tx The database transaction to use.
    * @param stateId The ID of the instance state.
    * @param unitTerminals The unit terminals to process.
+   * @param options The options of the processing.
    * @returns Array of terminal IDs that are active for this instance.
    */
   async processUnitTerminals(
     tx: ProjectTransaction,
     stateId: string,
     unitTerminals: UnitTerminal[],
+    { prune = true }: ProcessUnitExtraOptions = {},
   ): Promise<string[]> {
     const terminalIds: string[] = []
 
@@ -40,6 +57,10 @@ export class UnitExtraService {
       terminalIds.push(terminal.id)
     }
 
+    if (!prune) {
+      return terminalIds
+    }
+
     // mark dangling terminals as unavailable
     const unitNames = unitTerminals.map(u => u.name)
     await tx.terminal.updateMany({
@@ -60,12 +81,14 @@ export class UnitExtraService {
    * @param tx The database transaction to use.
    * @param stateId The ID of the instance state.
    * @param unitPages The unit pages to process.
+   * @param options The options of the processing.
    * @returns Array of page IDs that exist for this instance.
    */
   async processUnitPages(
     tx: ProjectTransaction,
     stateId: string,
     unitPages: UnitPage[],
+    { prune = true }: ProcessUnitExtraOptions = {},
   ): Promise<string[]> {
     const pageIds: string[] = []
 
@@ -88,6 +111,10 @@ export class UnitExtraService {
       pageIds.push(page.id)
     }
 
+    if (!prune) {
+      return pageIds
+    }
+
     // delete dangling pages
     const unitNames = unitPages.map(u => u.name)
     await tx.page.deleteMany({
@@ -100,6 +127,48 @@ export class UnitExtraService {
     return pageIds
   }
 
+  /**
+   * Marks the unit terminals with the given names as unavailable within an existing transaction.
+   *
+   * @param tx The database transaction to use.
+   * @param stateId The ID of the instance state.
+   * @param terminalNames The names of the terminals to mark as unavailable.
+   */
+  async removeUnitTerminals(
+    tx: ProjectTransaction,
+    stateId: string,
+    terminalNames: string[],
+  ): Promise<void> {
+    await tx.terminal.updateMany({
+      where: {
+        stateId,
+        name: { in: terminalNames },
+        status: "active",
+      },
+      data: { status: "unavailable" },
+    })
+  }
+
+  /**
+   * Deletes the unit pages with the given names within an existing transaction.
+   *
+   * @param tx The database transaction to use.
+   * @param stateId The ID of the instance state.
+   * @param pageNames The names of the pages to delete.
+   */
+  async removeUnitPages(
+    tx: ProjectTransaction,
+    stateId: string,
+    pageNames: string[],
+  ): Promise<void> {
+    await tx.page.deleteMany({
+      where: {
+        stateId,
+        name: { in: pageNames },
+      },
+    })
+  }
+
   /**
    * Processes unit triggers within an existing transaction.
    *
@@ -117,6 +186,17 @@ export class UnitExtraService {
 
     // upsert triggers
     for (const unit of unitTriggers) {
+      const existingTrigger = await tx.trigger.findUnique({
+        where: { stateId_name: { stateId, name: unit.name } },
+        select: { spec: true, nextRunAt: true },
+      })
+
+      // keep the planned run unless the schedule was changed
+      const nextRunAt =
+        existingTrigger?.nextRunAt && isDeepEqual(existingTrigger.spec, unit.spec)
+          ? existingTrigger.nextRunAt
+          : getTriggerNextRunAt(unit.spec, new Date(), this.logger)
+
       const trigger = await tx.trigger.upsert({
         where: { stateId_name: { stateId, name: unit.name } },
         create: {
@@ -124,10 +204,12 @@ export class UnitExtraService {
           name: unit.name,
           meta: unit.meta ?? {},
           spec: unit.spec,
+          nextRunAt,
         },
         update: {
           meta: unit.meta ?? {},
           spec: unit.spec,
+          nextRunAt,
         },
         select: { id: true },
       })
@@ -160,6 +160,28 @@ export class UnitOutputService {
     }
   }
 
+  /**
+   * Builds the entity snapshot payload from the entity values of the unit outputs
+   * provided outside of the operation, e.g. by the worker.
+   *
+   * The values are validated the same way as the outputs returned by the runner.
+   *
+   * @param options The entity values keyed by the output names and the unit they belong to.
+   */
+  async parseEntityOutputs(options: {
+    libraryId: string
+    instanceType: VersionedName
+    outputs: Record<string, unknown>
+    signal?: AbortSignal
+  }): Promise<UnitEntitySnapshotPayload | null> {
+    return await this.parseEntitySnapshotPayload({
+      libraryId: options.libraryId,
+      instanceType: options.instanceType,
+      unitOutputs: mapValues(options.outputs, value => ({ value })),
+      signal: options.signal,
+    })
+  }
+
   private parseExportedArtifactIds(outputs: RawPulumiOutputs): Record<string, string[]> | null {
     const rawArtifacts = outputs.$artifacts
     if (!rawArtifacts) {
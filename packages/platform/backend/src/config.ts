@@ -1,12 +1,24 @@
 import { z } from "zod"
 import { artifactBackendConfig } from "./artifact"
-import { projectUnlockServiceConfig } from "./business"
+import { authConfig } from "./auth"
+import {
+  libraryServiceConfig,
+  operationApprovalServiceConfig,
+  projectUnlockServiceConfig,
+} from "./business"
 import { codebaseConfig } from "./common"
 import { databaseConfig } from "./database"
 import { libraryBackendConfig } from "./library"
 import { lockBackendConfig } from "./lock"
+import {
+  approvalStalenessCheckerConfig,
+  driftDetectorConfig,
+  triggerSchedulerConfig,
+  workerOperationRequesterConfig,
+} from "./orchestrator"
 import { pubSubBackendConfig } from "./pubsub"
 import { runnerBackendConfig } from "./runner"
+import { shareStoreConfig } from "./share"
 import { terminalBackendConfig } from "./terminal"
 import { workerBackendConfig, workerManagerConfig } from "./worker"
 
@@ -14,20 +26,39 @@ const loggerConfig = z.object({
   HIGHSTATE_LOG_LEVEL: z.enum(["fatal", "error", "warn", "info", "debug", "trace"]).default("info"),
 })
 
-const configSchema = z.object({
-  ...codebaseConfig.shape,
-  ...databaseConfig.shape,
-  ...pubSubBackendConfig.shape,
-  ...lockBackendConfig.shape,
-  ...libraryBackendConfig.shape,
-  ...projectUnlockServiceConfig.shape,
-  ...runnerBackendConfig.shape,
-  ...terminalBackendConfig.shape,
-  ...workerBackendConfig.shape,
-  ...workerManagerConfig.shape,
-  ...artifactBackendConfig.shape,
-  ...loggerConfig.shape,
-})
+const configSchema = z
+  .object({
+    ...codebaseConfig.shape,
+    ...databaseConfig.shape,
+    ...pubSubBackendConfig.shape,
+    ...lockBackendConfig.shape,
+    ...libraryBackendConfig.shape,
+    ...libraryServiceConfig.shape,
+    ...projectUnlockServiceConfig.shape,
+    ...runnerBackendConfig.shape,
+    ...terminalBackendConfig.shape,
+    ...workerBackendConfig.shape,
+    ...workerManagerConfig.shape,
+    ...triggerSchedulerConfig.shape,
+    ...driftDetectorConfig.shape,
+    ...workerOperationRequesterConfig.shape,
+    ...operationApprovalServiceConfig.shape,
+    ...approvalStalenessCheckerConfig.shape,
+    ...artifactBackendConfig.shape,
+    ...shareStoreConfig.shape,
+    ...authConfig.shape,
+    ...loggerConfig.shape,
+  })
+  .refine(
+    // without authentication all users share the same identity, so no one could approve operations
+    config =>
+      config.HIGHSTATE_OPERATION_REQUIRED_APPROVALS === 0 || config.HIGHSTATE_AUTH_TYPE !== "none",
+    {
+      error:
+        'HIGHSTATE_OPERATION_REQUIRED_APPROVALS requires HIGHSTATE_AUTH_TYPE other than "none"',
+      path: ["HIGHSTATE_OPERATION_REQUIRED_APPROVALS"],
+    },
+  )
 
 export type Config = z.infer<typeof configSchema>
 
@@ -32,6 +32,19 @@ export type UserWorkspaceLayout = Prisma.UserWorkspaceLayoutModel
  * 
  */
 export type Library = Prisma.LibraryModel
+/**
+ * Model LockHolder
+ * The backend runtime holding the distributed locks.
+ * 
+ * Each backend process registers itself as a holder on startup and keeps extending its expiration time.
+ * Once the holder is expired, all its leases (and the instance locks it held) are considered stale.
+ */
+export type LockHolder = Prisma.LockHolderModel
+/**
+ * Model LockLease
+ * The lease of the distributed lock held by the backend runtime.
+ */
+export type LockLease = Prisma.LockLeaseModel
 /**
  * Model Object
  * The object allows to track arbitrary object across multiple projects and search them globally by their IDs.
@@ -63,3 +76,16 @@ export type PulumiBackend = Prisma.PulumiBackendModel
  * Unlock methods describe trusted identities that can decrypt the backend master key.
  */
 export type BackendUnlockMethod = Prisma.BackendUnlockMethodModel
+/**
+ * Model User
+ * The user of the designer.
+ * 
+ * The local users are created explicitly and log in with the password,
+ * while the OIDC users are created on their first login using the configured issuer.
+ */
+export type User = Prisma.UserModel
+/**
+ * Model UserSession
+ * The session of the user logged in to the designer.
+ */
+export type UserSession = Prisma.UserSessionModel
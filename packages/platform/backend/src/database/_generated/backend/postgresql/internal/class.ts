@@ -20,7 +20,7 @@ const config: runtime.GetPrismaClientConfig = {
   "clientVersion": "7.4.1",
   "engineVersion": "55ae170b1ced7fc6ed07a15f110549408c501bb3",
   "activeProvider": "postgresql",
-  "inlineSchema": "model ProjectImportPort {\n  /// The CUIDv2 of the project where import port is located.\n  projectId String\n\n  /// The ID of the project exporting to this import port.\n  sourceProjectId String\n\n  /// The ID of the instance state representing paired export port in the source project.\n  sourceStateId String\n\n  /// The SHA256 of the encrypted content before armoring.\n  contentHash String\n\n  /// The encrypted content of the import port armored in AGE format.\n  encryptedContent String\n\n  /// The project this import port belongs to.\n  project Project @relation(fields: [projectId], references: [id])\n\n  /// The project that is the source of the import content.\n  sourceProject Project @relation(\"ProjectImportSource\", fields: [sourceProjectId], references: [id])\n\n  @@id([projectId, sourceStateId]) // don't allow different source projects use the same state id (state id is cuidv2 and must be globally unique)\n  @@index([sourceProjectId, sourceStateId])\n}\n\nmodel UserWorkspaceLayout {\n  /// The opaque ID of the user to which this layout belongs.\n  userId String @id\n\n  /// The layout of the user workspace managed by the frontend.\n  ///\n  /// ![unknown]\n  layout Json\n}\n\nmodel Library {\n  /// The CUIDv2 of the library.\n  id String @id @default(cuid(2))\n\n  /// The metadata of the library managed by the backend.\n  ///\n  /// [CommonObjectMeta]\n  meta Json\n\n  /// The spec of the library.\n  ///\n  /// [LibrarySpec]\n  spec Json\n\n  /// The projects using this library.\n  projects Project[]\n}\n\n/// The object allows to track arbitrary object across multiple projects and search them globally by their IDs.\n/// This also allow to correlate different entities across different projects.\nmodel Object {\n  /// The CUIDv2(d) of the object.\n  id String\n\n  /// The ID of the project that knows this object.\n  /// Multiple projects can reference the same object, but each project can only reference an object once.\n  projectId String\n\n  @@id([id, projectId])\n}\n\nmodel Project {\n  /// The CUIDv2 of the project.\n  id String @id @default(cuid(2))\n\n  /// Project meta managed by the backend.\n  ///\n  /// [CommonObjectMeta]\n  meta Json\n\n  /// The name of the project within the space.\n  name String\n\n  /// The ID of the project space this project belongs to.\n  spaceId String\n\n  /// The ID of the project model storage this project uses.\n  modelStorageId String\n\n  /// The ID of the library used by this project.\n  libraryId String\n\n  /// The ID of the Pulumi backend used by this project.\n  pulumiBackendId String\n\n  /// Encrypted project master key in AGE format.\n  encryptedMasterKey String\n\n  /// The encrypted private key of the project in AGE format used for encrypting exported entities for this project.\n  encryptedPrivateKey String?\n\n  /// The public key of the project in AGE format used for encrypting exported entities for this project.\n  publicKey String?\n\n  /// The unlock suite for this project.\n  ///\n  /// [ProjectUnlockSuite]\n  unlockSuite Json\n\n  /// The current version of the project database.\n  /// This is used to determine if the project needs to be migrated.\n  databaseVersion Int\n\n  /// The time when the project was created.\n  createdAt DateTime @default(now())\n\n  /// The time when the project was last updated.\n  updatedAt DateTime @updatedAt\n\n  /// The project space this project belongs to.\n  space ProjectSpace @relation(fields: [spaceId], references: [id])\n\n  /// The project model storage this project uses.\n  modelStorage ProjectModelStorage @relation(fields: [modelStorageId], references: [id])\n\n  /// The library used by this project.\n  library Library @relation(fields: [libraryId], references: [id])\n\n  /// The Pulumi backend used by this project.\n  pulumiBackend PulumiBackend @relation(fields: [pulumiBackendId], references: [id])\n\n  /// The import ports in this project.\n  importPorts ProjectImportPort[]\n\n  /// The import ports in this project where this project is the source.\n  exportPorts ProjectImportPort[] @relation(\"ProjectImportSource\")\n\n  @@unique([spaceId, name])\n}\n\nmodel ProjectSpace {\n  /// The CUIDv2 of the project space.\n  id String @id @default(cuid(2))\n\n  /// The name of the project space within the parent space.\n  ///\n  /// Will be null for the global project space.\n  name String?\n\n  /// The ID of the parent project space, if any.\n  parentId String?\n\n  /// The metadata of the project space managed by the backend.\n  ///\n  /// [CommonObjectMeta]\n  meta Json\n\n  /// The projects in this project space.\n  projects Project[]\n\n  /// The parent project space, if any.\n  parent ProjectSpace? @relation(\"ProjectSpaceHierarchy\", fields: [parentId], references: [id])\n\n  /// The child project spaces, if any.\n  children ProjectSpace[] @relation(\"ProjectSpaceHierarchy\")\n\n  @@unique([parentId, name])\n}\n\nmodel ProjectModelStorage {\n  /// The CUIDv2 of the project model storage.\n  id String @id @default(cuid(2))\n\n  /// The metadata of the project model storage managed by the backend.\n  ///\n  /// [CommonObjectMeta]\n  meta Json\n\n  /// The specification of the project model storage.\n  ///\n  /// [ProjectModelStorageSpec]\n  spec Json\n\n  /// The projects using this model storage.\n  projects Project[]\n}\n\nmodel PulumiBackend {\n  /// The CUIDv2 of the Pulumi backend.\n  id String @id @default(cuid(2))\n\n  /// The backend meta managed by the backend.\n  ///\n  /// [CommonObjectMeta]\n  meta Json\n\n  /// The spec of the Pulumi backend.\n  ///\n  /// [PulumiBackendSpec]\n  spec Json\n\n  /// The projects using this backend.\n  projects Project[]\n}\n\n/// Unlock methods describe trusted identities that can decrypt the backend master key.\nmodel BackendUnlockMethod {\n  /// The CUIDv2 of the unlock method.\n  id String @id @default(cuid(2))\n\n  /// The metadata of the unlock method managed by the backend.\n  /// \n  /// [BackendUnlockMethodMeta]\n  meta Json\n\n  /// The AGE recipient for this unlock method.\n  recipient String @unique\n\n  /// The time when the unlock method was created.\n  createdAt DateTime @default(now())\n\n  /// The time when the unlock method was last updated.\n  updatedAt DateTime @updatedAt\n}\n\ndatasource db {\n  provider = \"postgresql\"\n}\n\ngenerator client {\n  provider               = \"prisma-client\"\n  output                 = \"../../../src/database/_generated/backend/postgresql\"\n  moduleFormat           = \"esm\"\n  generatedFileExtension = \"ts\"\n  importFileExtension    = \"ts\"\n}\n\ngenerator json {\n  provider = \"prisma-json-types-generator\"\n}\n",
+  "inlineSchema": "model ProjectImportPort {\n  /// The CUIDv2 of the project where import port is located.\n  projectId String\n\n  /// The ID of the project exporting to this import port.\n  sourceProjectId String\n\n  /// The ID of the instance state representing paired export port in the source project.\n  sourceStateId String\n\n  /// The SHA256 of the encrypted content before armoring.\n  contentHash String\n\n  /// The encrypted content of the import port armored in AGE format.\n  encryptedContent String\n\n  /// The project this import port belongs to.\n  project Project @relation(fields: [projectId], references: [id])\n\n  /// The project that is the source of the import content.\n  sourceProject Project @relation(\"ProjectImportSource\", fields: [sourceProjectId], references: [id])\n\n  @@id([projectId, sourceStateId]) // don't allow different source projects use the same state id (state id is cuidv2 and must be globally unique)\n  @@index([sourceProjectId, sourceStateId])\n}\n\nmodel UserWorkspaceLayout {\n  /// The opaque ID of the user to which this layout belongs.\n  userId String @id\n\n  /// The layout of the user workspace managed by the frontend.\n  ///\n  /// ![unknown]\n  layout Json\n}\n\nmodel Library {\n  /// The CUIDv2 of the library.\n  id String @id @default(cuid(2))\n\n  /// The metadata of the library managed by the backend.\n  ///\n  /// [CommonObjectMeta]\n  meta Json\n\n  /// The spec of the library.\n  ///\n  /// [LibrarySpec]\n  spec Json\n\n  /// The projects using this library.\n  projects Project[]\n}\n\n/// The backend runtime holding the distributed locks.\n///\n/// Each backend process registers itself as a holder on startup and keeps extending its expiration time.\n/// Once the holder is expired, all its leases (and the instance locks it held) are considered stale.\nmodel LockHolder {\n  /// The runtime ID of the backend process.\n  id String @id\n\n  /// The time when the holder was registered.\n  startedAt DateTime @default(now())\n\n  /// The time after which the holder is considered dead unless the heartbeat extends it.\n  expiresAt DateTime\n\n  /// The leases currently held by the holder.\n  leases LockLease[]\n}\n\n/// The lease of the distributed lock held by the backend runtime.\nmodel LockLease {\n  /// The key of the lock.\n  key String @id\n\n  /// The ID of the holder of the lease.\n  holderId String\n\n  /// The time when the lease was acquired.\n  acquiredAt DateTime @default(now())\n\n  /// The holder of the lease.\n  holder LockHolder @relation(fields: [holderId], references: [id], onDelete: Cascade)\n\n  @@index([holderId])\n}\n\n/// The object allows to track arbitrary object across multiple projects and search them globally by their IDs.\n/// This also allow to correlate different entities across different projects.\nmodel Object {\n  /// The CUIDv2(d) of the object.\n  id String\n\n  /// The ID of the project that knows this object.\n  /// Multiple projects can reference the same object, but each project can only reference an object once.\n  projectId String\n\n  @@id([id, projectId])\n}\n\nmodel Project {\n  /// The CUIDv2 of the project.\n  id String @id @default(cuid(2))\n\n  /// Project meta managed by the backend.\n  ///\n  /// [CommonObjectMeta]\n  meta Json\n\n  /// The name of the project within the space.\n  name String\n\n  /// The ID of the project space this project belongs to.\n  spaceId String\n\n  /// The ID of the project model storage this project uses.\n  modelStorageId String\n\n  /// The ID of the library used by this project.\n  libraryId String\n\n  /// The ID of the Pulumi backend used by this project.\n  pulumiBackendId String\n\n  /// Encrypted project master key in AGE format.\n  encryptedMasterKey String\n\n  /// The encrypted private key of the project in AGE format used for encrypting exported entities for this project.\n  encryptedPrivateKey String?\n\n  /// The public key of the project in AGE format used for encrypting exported entities for this project.\n  publicKey String?\n\n  /// The unlock suite for this project.\n  ///\n  /// [ProjectUnlockSuite]\n  unlockSuite Json\n\n  /// The current version of the project database.\n  /// This is used to determine if the project needs to be migrated.\n  databaseVersion Int\n\n  /// The time when the project was created.\n  createdAt DateTime @default(now())\n\n  /// The time when the project was last updated.\n  updatedAt DateTime @updatedAt\n\n  /// The project space this project belongs to.\n  space ProjectSpace @relation(fields: [spaceId], references: [id])\n\n  /// The project model storage this project uses.\n  modelStorage ProjectModelStorage @relation(fields: [modelStorageId], references: [id])\n\n  /// The library used by this project.\n  library Library @relation(fields: [libraryId], references: [id])\n\n  /// The Pulumi backend used by this project.\n  pulumiBackend PulumiBackend @relation(fields: [pulumiBackendId], references: [id])\n\n  /// The import ports in this project.\n  importPorts ProjectImportPort[]\n\n  /// The import ports in this project where this project is the source.\n  exportPorts ProjectImportPort[] @relation(\"ProjectImportSource\")\n\n  @@unique([spaceId, name])\n}\n\nmodel ProjectSpace {\n  /// The CUIDv2 of the project space.\n  id String @id @default(cuid(2))\n\n  /// The name of the project space within the parent space.\n  ///\n  /// Will be null for the global project space.\n  name String?\n\n  /// The ID of the parent project space, if any.\n  parentId String?\n\n  /// The metadata of the project space managed by the backend.\n  ///\n  /// [CommonObjectMeta]\n  meta Json\n\n  /// The projects in this project space.\n  projects Project[]\n\n  /// The parent project space, if any.\n  parent ProjectSpace? @relation(\"ProjectSpaceHierarchy\", fields: [parentId], references: [id])\n\n  /// The child project spaces, if any.\n  children ProjectSpace[] @relation(\"ProjectSpaceHierarchy\")\n\n  @@unique([parentId, name])\n}\n\nmodel ProjectModelStorage {\n  /// The CUIDv2 of the project model storage.\n  id String @id @default(cuid(2))\n\n  /// The metadata of the project model storage managed by the backend.\n  ///\n  /// [CommonObjectMeta]\n  meta Json\n\n  /// The specification of the project model storage.\n  ///\n  /// [ProjectModelStorageSpec]\n  spec Json\n\n  /// The projects using this model storage.\n  projects Project[]\n}\n\nmodel PulumiBackend {\n  /// The CUIDv2 of the Pulumi backend.\n  id String @id @default(cuid(2))\n\n  /// The backend meta managed by the backend.\n  ///\n  /// [CommonObjectMeta]\n  meta Json\n\n  /// The spec of the Pulumi backend.\n  ///\n  /// [PulumiBackendSpec]\n  spec Json\n\n  /// The projects using this backend.\n  projects Project[]\n}\n\n/// Unlock methods describe trusted identities that can decrypt the backend master key.\nmodel BackendUnlockMethod {\n  /// The CUIDv2 of the unlock method.\n  id String @id @default(cuid(2))\n\n  /// The metadata of the unlock method managed by the backend.\n  /// \n  /// [BackendUnlockMethodMeta]\n  meta Json\n\n  /// The AGE recipient for this unlock method.\n  recipient String @unique\n\n  /// The time when the unlock method was created.\n  createdAt DateTime @default(now())\n\n  /// The time when the unlock method was last updated.\n  updatedAt DateTime @updatedAt\n}\n\n/// The user of the designer.\n///\n/// The local users are created explicitly and log in with the password,\n/// while the OIDC users are created on their first login using the configured issuer.\nmodel User {\n  /// The CUIDv2 of the user.\n  ///\n  /// Recorded as the author of the operations, instance edits and secret updates.\n  id String @id @default(cuid(2))\n\n  /// The name the local user logs in with.\n  ///\n  /// Will be null for the OIDC users.\n  username String? @unique\n\n  /// The human-readable name of the user.\n  displayName String?\n\n  /// The email of the user, if known.\n  email String?\n\n  /// The scrypt hash of the password of the local user.\n  passwordHash String?\n\n  /// The issuer of the OIDC user.\n  oidcIssuer String?\n\n  /// The subject of the OIDC user unique within the issuer.\n  oidcSubject String?\n\n  /// The time when the user was created.\n  createdAt DateTime @default(now())\n\n  /// The time when the user was last updated.\n  updatedAt DateTime @updatedAt\n\n  /// The active sessions of the user.\n  sessions UserSession[]\n\n  @@unique([oidcIssuer, oidcSubject])\n}\n\n/// The session of the user logged in to the designer.\nmodel UserSession {\n  /// The SHA-256 hash of the session token.\n  ///\n  /// The token itself is only stored in the cookie of the user.\n  id String @id\n\n  /// The ID of the user owning the session.\n  userId String\n\n  /// The time when the session was created.\n  createdAt DateTime @default(now())\n\n  /// The time after which the session is no longer valid.\n  expiresAt DateTime\n\n  /// The user owning the session.\n  user User @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  @@index([userId])\n}\n\ndatasource db {\n  provider = \"postgresql\"\n}\n\ngenerator client {\n  provider               = \"prisma-client\"\n  output                 = \"../../../src/database/_generated/backend/postgresql\"\n  moduleFormat           = \"esm\"\n  generatedFileExtension = \"ts\"\n  importFileExtension    = \"ts\"\n}\n\ngenerator json {\n  provider = \"prisma-json-types-generator\"\n}\n",
   "runtimeDataModel": {
     "models": {},
     "enums": {},
@@ -32,10 +32,10 @@ const config: runtime.GetPrismaClientConfig = {
   }
 }
 
-config.runtimeDataModel = JSON.parse("{\"models\":{\"ProjectImportPort\":{\"fields\":[{\"name\":\"projectId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sourceProjectId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sourceStateId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"contentHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"encryptedContent\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"project\",\"kind\":\"object\",\"type\":\"Project\",\"relationName\":\"ProjectToProjectImportPort\"},{\"name\":\"sourceProject\",\"kind\":\"object\",\"type\":\"Project\",\"relationName\":\"ProjectImportSource\"}],\"dbName\":null},\"UserWorkspaceLayout\":{\"fields\":[{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"layout\",\"kind\":\"scalar\",\"type\":\"Json\"}],\"dbName\":null},\"Library\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"meta\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"spec\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"projects\",\"kind\":\"object\",\"type\":\"Project\",\"relationName\":\"LibraryToProject\"}],\"dbName\":null},\"Object\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"projectId\",\"kind\":\"scalar\",\"type\":\"String\"}],\"dbName\":null},\"Project\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"meta\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"spaceId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"modelStorageId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"libraryId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"pulumiBackendId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"encryptedMasterKey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"encryptedPrivateKey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"publicKey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"unlockSuite\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"databaseVersion\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"space\",\"kind\":\"object\",\"type\":\"ProjectSpace\",\"relationName\":\"ProjectToProjectSpace\"},{\"name\":\"modelStorage\",\"kind\":\"object\",\"type\":\"ProjectModelStorage\",\"relationName\":\"ProjectToProjectModelStorage\"},{\"name\":\"library\",\"kind\":\"object\",\"type\":\"Library\",\"relationName\":\"LibraryToProject\"},{\"name\":\"pulumiBackend\",\"kind\":\"object\",\"type\":\"PulumiBackend\",\"relationName\":\"ProjectToPulumiBackend\"},{\"name\":\"importPorts\",\"kind\":\"object\",\"type\":\"ProjectImportPort\",\"relationName\":\"ProjectToProjectImportPort\"},{\"name\":\"exportPorts\",\"kind\":\"object\",\"type\":\"ProjectImportPort\",\"relationName\":\"ProjectImportSource\"}],\"dbName\":null},\"ProjectSpace\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"parentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"meta\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"projects\",\"kind\":\"object\",\"type\":\"Project\",\"relationName\":\"ProjectToProjectSpace\"},{\"name\":\"parent\",\"kind\":\"object\",\"type\":\"ProjectSpace\",\"relationName\":\"ProjectSpaceHierarchy\"},{\"name\":\"children\",\"kind\":\"object\",\"type\":\"ProjectSpace\",\"relationName\":\"ProjectSpaceHierarchy\"}],\"dbName\":null},\"ProjectModelStorage\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"meta\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"spec\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"projects\",\"kind\":\"object\",\"type\":\"Project\",\"relationName\":\"ProjectToProjectModelStorage\"}],\"dbName\":null},\"PulumiBackend\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"meta\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"spec\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"projects\",\"kind\":\"object\",\"type\":\"Project\",\"relationName\":\"ProjectToPulumiBackend\"}],\"dbName\":null},\"BackendUnlockMethod\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"meta\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"recipient\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null}},\"enums\":{},\"types\":{}}")
+config.runtimeDataModel = JSON.parse("{\"models\":{\"ProjectImportPort\":{\"fields\":[{\"name\":\"projectId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sourceProjectId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sourceStateId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"contentHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"encryptedContent\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"project\",\"kind\":\"object\",\"type\":\"Project\",\"relationName\":\"ProjectToProjectImportPort\"},{\"name\":\"sourceProject\",\"kind\":\"object\",\"type\":\"Project\",\"relationName\":\"ProjectImportSource\"}],\"dbName\":null},\"UserWorkspaceLayout\":{\"fields\":[{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"layout\",\"kind\":\"scalar\",\"type\":\"Json\"}],\"dbName\":null},\"Library\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"meta\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"spec\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"projects\",\"kind\":\"object\",\"type\":\"Project\",\"relationName\":\"LibraryToProject\"}],\"dbName\":null},\"LockHolder\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"startedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"leases\",\"kind\":\"object\",\"type\":\"LockLease\",\"relationName\":\"LockHolderToLockLease\"}],\"dbName\":null},\"LockLease\":{\"fields\":[{\"name\":\"key\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"holderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"acquiredAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"holder\",\"kind\":\"object\",\"type\":\"LockHolder\",\"relationName\":\"LockHolderToLockLease\"}],\"dbName\":null},\"Object\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"projectId\",\"kind\":\"scalar\",\"type\":\"String\"}],\"dbName\":null},\"Project\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"meta\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"spaceId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"modelStorageId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"libraryId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"pulumiBackendId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"encryptedMasterKey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"encryptedPrivateKey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"publicKey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"unlockSuite\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"databaseVersion\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"space\",\"kind\":\"object\",\"type\":\"ProjectSpace\",\"relationName\":\"ProjectToProjectSpace\"},{\"name\":\"modelStorage\",\"kind\":\"object\",\"type\":\"ProjectModelStorage\",\"relationName\":\"ProjectToProjectModelStorage\"},{\"name\":\"library\",\"kind\":\"object\",\"type\":\"Library\",\"relationName\":\"LibraryToProject\"},{\"name\":\"pulumiBackend\",\"kind\":\"object\",\"type\":\"PulumiBackend\",\"relationName\":\"ProjectToPulumiBackend\"},{\"name\":\"importPorts\",\"kind\":\"object\",\"type\":\"ProjectImportPort\",\"relationName\":\"ProjectToProjectImportPort\"},{\"name\":\"exportPorts\",\"kind\":\"object\",\"type\":\"ProjectImportPort\",\"relationName\":\"ProjectImportSource\"}],\"dbName\":null},\"ProjectSpace\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"parentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"meta\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"projects\",\"kind\":\"object\",\"type\":\"Project\",\"relationName\":\"ProjectToProjectSpace\"},{\"name\":\"parent\",\"kind\":\"object\",\"type\":\"ProjectSpace\",\"relationName\":\"ProjectSpaceHierarchy\"},{\"name\":\"children\",\"kind\":\"object\",\"type\":\"ProjectSpace\",\"relationName\":\"ProjectSpaceHierarchy\"}],\"dbName\":null},\"ProjectModelStorage\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"meta\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"spec\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"projects\",\"kind\":\"object\",\"type\":\"Project\",\"relationName\":\"ProjectToProjectModelStorage\"}],\"dbName\":null},\"PulumiBackend\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"meta\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"spec\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"projects\",\"kind\":\"object\",\"type\":\"Project\",\"relationName\":\"ProjectToPulumiBackend\"}],\"dbName\":null},\"BackendUnlockMethod\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"meta\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"recipient\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"User\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"username\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"displayName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"passwordHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"oidcIssuer\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"oidcSubject\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"sessions\",\"kind\":\"object\",\"type\":\"UserSession\",\"relationName\":\"UserToUserSession\"}],\"dbName\":null},\"UserSession\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"UserToUserSession\"}],\"dbName\":null}},\"enums\":{},\"types\":{}}")
 config.parameterizationSchema = {
-  strings: JSON.parse("[\"where\",\"orderBy\",\"cursor\",\"projects\",\"parent\",\"children\",\"_count\",\"space\",\"modelStorage\",\"library\",\"pulumiBackend\",\"importPorts\",\"exportPorts\",\"project\",\"sourceProject\",\"ProjectImportPort.findUnique\",\"ProjectImportPort.findUniqueOrThrow\",\"ProjectImportPort.findFirst\",\"ProjectImportPort.findFirstOrThrow\",\"ProjectImportPort.findMany\",\"data\",\"ProjectImportPort.createOne\",\"ProjectImportPort.createMany\",\"ProjectImportPort.createManyAndReturn\",\"ProjectImportPort.updateOne\",\"ProjectImportPort.updateMany\",\"ProjectImportPort.updateManyAndReturn\",\"create\",\"update\",\"ProjectImportPort.upsertOne\",\"ProjectImportPort.deleteOne\",\"ProjectImportPort.deleteMany\",\"having\",\"_min\",\"_max\",\"ProjectImportPort.groupBy\",\"ProjectImportPort.aggregate\",\"UserWorkspaceLayout.findUnique\",\"UserWorkspaceLayout.findUniqueOrThrow\",\"UserWorkspaceLayout.findFirst\",\"UserWorkspaceLayout.findFirstOrThrow\",\"UserWorkspaceLayout.findMany\",\"UserWorkspaceLayout.createOne\",\"UserWorkspaceLayout.createMany\",\"UserWorkspaceLayout.createManyAndReturn\",\"UserWorkspaceLayout.updateOne\",\"UserWorkspaceLayout.updateMany\",\"UserWorkspaceLayout.updateManyAndReturn\",\"UserWorkspaceLayout.upsertOne\",\"UserWorkspaceLayout.deleteOne\",\"UserWorkspaceLayout.deleteMany\",\"UserWorkspaceLayout.groupBy\",\"UserWorkspaceLayout.aggregate\",\"Library.findUnique\",\"Library.findUniqueOrThrow\",\"Library.findFirst\",\"Library.findFirstOrThrow\",\"Library.findMany\",\"Library.createOne\",\"Library.createMany\",\"Library.createManyAndReturn\",\"Library.updateOne\",\"Library.updateMany\",\"Library.updateManyAndReturn\",\"Library.upsertOne\",\"Library.deleteOne\",\"Library.deleteMany\",\"Library.groupBy\",\"Library.aggregate\",\"Object.findUnique\",\"Object.findUniqueOrThrow\",\"Object.findFirst\",\"Object.findFirstOrThrow\",\"Object.findMany\",\"Object.createOne\",\"Object.createMany\",\"Object.createManyAndReturn\",\"Object.updateOne\",\"Object.updateMany\",\"Object.updateManyAndReturn\",\"Object.upsertOne\",\"Object.deleteOne\",\"Object.deleteMany\",\"Object.groupBy\",\"Object.aggregate\",\"Project.findUnique\",\"Project.findUniqueOrThrow\",\"Project.findFirst\",\"Project.findFirstOrThrow\",\"Project.findMany\",\"Project.createOne\",\"Project.createMany\",\"Project.createManyAndReturn\",\"Project.updateOne\",\"Project.updateMany\",\"Project.updateManyAndReturn\",\"Project.upsertOne\",\"Project.deleteOne\",\"Project.deleteMany\",\"_avg\",\"_sum\",\"Project.groupBy\",\"Project.aggregate\",\"ProjectSpace.findUnique\",\"ProjectSpace.findUniqueOrThrow\",\"ProjectSpace.findFirst\",\"ProjectSpace.findFirstOrThrow\",\"ProjectSpace.findMany\",\"ProjectSpace.createOne\",\"ProjectSpace.createMany\",\"ProjectSpace.createManyAndReturn\",\"ProjectSpace.updateOne\",\"ProjectSpace.updateMany\",\"ProjectSpace.updateManyAndReturn\",\"ProjectSpace.upsertOne\",\"ProjectSpace.deleteOne\",\"ProjectSpace.deleteMany\",\"ProjectSpace.groupBy\",\"ProjectSpace.aggregate\",\"ProjectModelStorage.findUnique\",\"ProjectModelStorage.findUniqueOrThrow\",\"ProjectModelStorage.findFirst\",\"ProjectModelStorage.findFirstOrThrow\",\"ProjectModelStorage.findMany\",\"ProjectModelStorage.createOne\",\"ProjectModelStorage.createMany\",\"ProjectModelStorage.createManyAndReturn\",\"ProjectModelStorage.updateOne\",\"ProjectModelStorage.updateMany\",\"ProjectModelStorage.updateManyAndReturn\",\"ProjectModelStorage.upsertOne\",\"ProjectModelStorage.deleteOne\",\"ProjectModelStorage.deleteMany\",\"ProjectModelStorage.groupBy\",\"ProjectModelStorage.aggregate\",\"PulumiBackend.findUnique\",\"PulumiBackend.findUniqueOrThrow\",\"PulumiBackend.findFirst\",\"PulumiBackend.findFirstOrThrow\",\"PulumiBackend.findMany\",\"PulumiBackend.createOne\",\"PulumiBackend.createMany\",\"PulumiBackend.createManyAndReturn\",\"PulumiBackend.updateOne\",\"PulumiBackend.updateMany\",\"PulumiBackend.updateManyAndReturn\",\"PulumiBackend.upsertOne\",\"PulumiBackend.deleteOne\",\"PulumiBackend.deleteMany\",\"PulumiBackend.groupBy\",\"PulumiBackend.aggregate\",\"BackendUnlockMethod.findUnique\",\"BackendUnlockMethod.findUniqueOrThrow\",\"BackendUnlockMethod.findFirst\",\"BackendUnlockMethod.findFirstOrThrow\",\"BackendUnlockMethod.findMany\",\"BackendUnlockMethod.createOne\",\"BackendUnlockMethod.createMany\",\"BackendUnlockMethod.createManyAndReturn\",\"BackendUnlockMethod.updateOne\",\"BackendUnlockMethod.updateMany\",\"BackendUnlockMethod.updateManyAndReturn\",\"BackendUnlockMethod.upsertOne\",\"BackendUnlockMethod.deleteOne\",\"BackendUnlockMethod.deleteMany\",\"BackendUnlockMethod.groupBy\",\"BackendUnlockMethod.aggregate\",\"AND\",\"OR\",\"NOT\",\"id\",\"meta\",\"recipient\",\"createdAt\",\"updatedAt\",\"equals\",\"in\",\"notIn\",\"lt\",\"lte\",\"gt\",\"gte\",\"not\",\"string_contains\",\"string_starts_with\",\"string_ends_with\",\"array_starts_with\",\"array_ends_with\",\"array_contains\",\"contains\",\"startsWith\",\"endsWith\",\"spec\",\"every\",\"some\",\"none\",\"name\",\"parentId\",\"spaceId\",\"modelStorageId\",\"libraryId\",\"pulumiBackendId\",\"encryptedMasterKey\",\"encryptedPrivateKey\",\"publicKey\",\"unlockSuite\",\"databaseVersion\",\"projectId\",\"id_projectId\",\"userId\",\"layout\",\"sourceProjectId\",\"sourceStateId\",\"contentHash\",\"encryptedContent\",\"parentId_name\",\"spaceId_name\",\"projectId_sourceStateId\",\"is\",\"isNot\",\"connectOrCreate\",\"upsert\",\"createMany\",\"set\",\"disconnect\",\"delete\",\"connect\",\"updateMany\",\"deleteMany\",\"increment\",\"decrement\",\"multiply\",\"divide\"]"),
-  graph: "3gNQkAELDQAAmAIAIA4AAJgCACCnAQAAlwIAMKgBAAAUABCpAQAAlwIAMM8BAQD-AQAh0wEBAP4BACHUAQEA_gEAIdUBAQD-AQAh1gEBAP4BACHZAQAApgIAIAEAAAABACAXBwAAoQIAIAgAAKICACAJAACjAgAgCgAApAIAIAsAAKUCACAMAAClAgAgpwEAAJ8CADCoAQAAAwAQqQEAAJ8CADCqAQEA_gEAIasBAAD_AQAgrQFAAIACACGuAUAAgAIAIcQBAQD-AQAhxgEBAP4BACHHAQEA_gEAIcgBAQD-AQAhyQEBAP4BACHKAQEA_gEAIcsBAQCbAgAhzAEBAJsCACHNAQAA_wEAIM4BAgCgAgAhCAcAAK8DACAIAACxAwAgCQAAsgMAIAoAALMDACALAAC0AwAgDAAAtAMAIMsBAADzAgAgzAEAAPMCACAYBwAAoQIAIAgAAKICACAJAACjAgAgCgAApAIAIAsAAKUCACAMAAClAgAgpwEAAJ8CADCoAQAAAwAQqQEAAJ8CADCqAQEAAAABqwEAAP8BACCtAUAAgAIAIa4BQACAAgAhxAEBAP4BACHGAQEA_gEAIccBAQD-AQAhyAEBAP4BACHJAQEA_gEAIcoBAQD-AQAhywEBAJsCACHMAQEAmwIAIc0BAAD_AQAgzgECAKACACHYAQAAngIAIAMAAAADACABAAAEADACAAAFACAKAwAAgwIAIAQAAJwCACAFAACdAgAgpwEAAJoCADCoAQAABwAQqQEAAJoCADCqAQEA_gEAIasBAAD_AQAgxAEBAJsCACHFAQEAmwIAIQEAAAAHACAFAwAA4gIAIAQAAK8DACAFAACwAwAgxAEAAPMCACDFAQAA8wIAIAsDAACDAgAgBAAAnAIAIAUAAJ0CACCnAQAAmgIAMKgBAAAHABCpAQAAmgIAMKoBAQAAAAGrAQAA_wEAIMQBAQCbAgAhxQEBAJsCACHXAQAAmQIAIAMAAAAHACABAAAJADACAAAKACABAAAAAwAgAQAAAAcAIAMAAAADACABAAAEADACAAAFACABAAAAAwAgAwAAAAMAIAEAAAQAMAIAAAUAIAEAAAADACADAAAAAwAgAQAABAAwAgAABQAgAQAAAAMAIAoNAACYAgAgDgAAmAIAIKcBAACXAgAwqAEAABQAEKkBAACXAgAwzwEBAP4BACHTAQEA_gEAIdQBAQD-AQAh1QEBAP4BACHWAQEA_gEAIQINAACuAwAgDgAArgMAIAMAAAAUACABAAAVADACAAABACADAAAAFAAgAQAAFQAwAgAAAQAgAQAAABQAIAEAAAAUACABAAAAAQAgAwAAABQAIAEAABUAMAIAAAEAIAMAAAAUACABAAAVADACAAABACADAAAAFAAgAQAAFQAwAgAAAQAgBw0AAM8CACAOAADaAgAgzwEBAAAAAdMBAQAAAAHUAQEAAAAB1QEBAAAAAdYBAQAAAAEBFAAAHgAgBc8BAQAAAAHTAQEAAAAB1AEBAAAAAdUBAQAAAAHWAQEAAAABARQAACAAMAEUAAAgADAHDQAAzQIAIA4AANgCACDPAQEAqgIAIdMBAQCqAgAh1AEBAKoCACHVAQEAqgIAIdYBAQCqAgAhAgAAAAEAIBQAACMAIAXPAQEAqgIAIdMBAQCqAgAh1AEBAKoCACHVAQEAqgIAIdYBAQCqAgAhAgAAABQAIBQAACUAIAIAAAAUACAUAAAlACADAAAAAQAgGwAAHgAgHAAAIwAgAQAAAAEAIAEAAAAUACADBgAAqwMAICEAAK0DACAiAACsAwAgCKcBAACWAgAwqAEAACwAEKkBAACWAgAwzwEBAPQBACHTAQEA9AEAIdQBAQD0AQAh1QEBAPQBACHWAQEA9AEAIQMAAAAUACABAAArADAgAAAsACADAAAAFAAgAQAAFQAwAgAAAQAgBacBAACVAgAwqAEAADIAEKkBAACVAgAw0QEBAAAAAdIBAAD_AQAgAQAAAC8AIAEAAAAvACAFpwEAAJUCADCoAQAAMgAQqQEAAJUCADDRAQEA_gEAIdIBAAD_AQAgAAMAAAAyACABAAAzADACAAAvACADAAAAMgAgAQAAMwAwAgAALwAgAwAAADIAIAEAADMAMAIAAC8AIALRAQEAAAAB0gGAAAAAAQEUAAA3ACAC0QEBAAAAAdIBgAAAAAEBFAAAOQAwARQAADkAMALRAQEAqgIAIdIBgAAAAAECAAAALwAgFAAAPAAgAtEBAQCqAgAh0gGAAAAAAQIAAAAyACAUAAA-ACACAAAAMgAgFAAAPgAgAwAAAC8AIBsAADcAIBwAADwAIAEAAAAvACABAAAAMgAgAwYAAKgDACAhAACqAwAgIgAAqQMAIAWnAQAAlAIAMKgBAABFABCpAQAAlAIAMNEBAQD0AQAh0gEAAPUBACADAAAAMgAgAQAARAAwIAAARQAgAwAAADIAIAEAADMAMAIAAC8AIAcDAACDAgAgpwEAAJMCADCoAQAASwAQqQEAAJMCADCqAQEAAAABqwEAAP8BACDAAQAA_wEAIAEAAABIACABAAAASAAgBwMAAIMCACCnAQAAkwIAMKgBAABLABCpAQAAkwIAMKoBAQD-AQAhqwEAAP8BACDAAQAA_wEAIAEDAADiAgAgAwAAAEsAIAEAAEwAMAIAAEgAIAMAAABLACABAABMADACAABIACADAAAASwAgAQAATAAwAgAASAAgBAMAAKcDACCqAQEAAAABqwGAAAAAAcABgAAAAAEBFAAAUAAgA6oBAQAAAAGrAYAAAAABwAGAAAAAAQEUAABSADABFAAAUgAwBAMAAJ0DACCqAQEAqgIAIasBgAAAAAHAAYAAAAABAgAAAEgAIBQAAFUAIAOqAQEAqgIAIasBgAAAAAHAAYAAAAABAgAAAEsAIBQAAFcAIAIAAABLACAUAABXACADAAAASAAgGwAAUAAgHAAAVQAgAQAAAEgAIAEAAABLACADBgAAmgMAICEAAJwDACAiAACbAwAgBqcBAACSAgAwqAEAAF4AEKkBAACSAgAwqgEBAPQBACGrAQAA9QEAIMABAAD1AQAgAwAAAEsAIAEAAF0AMCAAAF4AIAMAAABLACABAABMADACAABIACAGpwEAAJACADCoAQAAZAAQqQEAAJACADCqAQEA_gEAIc8BAQD-AQAh0AEAAJECACABAAAAYQAgAQAAAGEAIAWnAQAAkAIAMKgBAABkABCpAQAAkAIAMKoBAQD-AQAhzwEBAP4BACEAAwAAAGQAIAEAAGUAMAIAAGEAIAMAAABkACABAABlADACAABhACADAAAAZAAgAQAAZQAwAgAAYQAgAqoBAQAAAAHPAQEAAAABARQAAGkAIAKqAQEAAAABzwEBAAAAAQEUAABrADABFAAAawAwAqoBAQCqAgAhzwEBAKoCACECAAAAYQAgFAAAbgAgAqoBAQCqAgAhzwEBAKoCACECAAAAZAAgFAAAcAAgAgAAAGQAIBQAAHAAIAMAAABhACAbAABpACAcAABuACABAAAAYQAgAQAAAGQAIAMGAACXAwAgIQAAmQMAICIAAJgDACAFpwEAAI8CADCoAQAAdwAQqQEAAI8CADCqAQEA9AEAIc8BAQD0AQAhAwAAAGQAIAEAAHYAMCAAAHcAIAMAAABkACABAABlADACAABhACABAAAABQAgAQAAAAUAIAMAAAADACABAAAEADACAAAFACADAAAAAwAgAQAABAAwAgAABQAgAwAAAAMAIAEAAAQAMAIAAAUAIBQHAADcAgAgCAAA3QIAIAkAAN4CACAKAADxAgAgCwAA3wIAIAwAAOACACCqAQEAAAABqwGAAAAAAa0BQAAAAAGuAUAAAAABxAEBAAAAAcYBAQAAAAHHAQEAAAAByAEBAAAAAckBAQAAAAHKAQEAAAABywEBAAAAAcwBAQAAAAHNAYAAAAABzgECAAAAAQEUAAB_ACAOqgEBAAAAAasBgAAAAAGtAUAAAAABrgFAAAAAAcQBAQAAAAHGAQEAAAABxwEBAAAAAcgBAQAAAAHJAQEAAAABygEBAAAAAcsBAQAAAAHMAQEAAAABzQGAAAAAAc4BAgAAAAEBFAAAgQEAMAEUAACBAQAwFAcAAL0CACAIAAC-AgAgCQAAvwIAIAoAAO8CACALAADAAgAgDAAAwQIAIKoBAQCqAgAhqwGAAAAAAa0BQACrAgAhrgFAAKsCACHEAQEAqgIAIcYBAQCqAgAhxwEBAKoCACHIAQEAqgIAIckBAQCqAgAhygEBAKoCACHLAQEAugIAIcwBAQC6AgAhzQGAAAAAAc4BAgC7AgAhAgAAAAUAIBQAAIQBACAOqgEBAKoCACGrAYAAAAABrQFAAKsCACGuAUAAqwIAIcQBAQCqAgAhxgEBAKoCACHHAQEAqgIAIcgBAQCqAgAhyQEBAKoCACHKAQEAqgIAIcsBAQC6AgAhzAEBALoCACHNAYAAAAABzgECALsCACECAAAAAwAgFAAAhgEAIAIAAAADACAUAACGAQAgAwAAAAUAIBsAAH8AIBwAAIQBACABAAAABQAgAQAAAAMAIAcGAACSAwAgIQAAlQMAICIAAJQDACBjAACTAwAgZAAAlgMAIMsBAADzAgAgzAEAAPMCACARpwEAAIsCADCoAQAAjQEAEKkBAACLAgAwqgEBAPQBACGrAQAA9QEAIK0BQAD2AQAhrgFAAPYBACHEAQEA9AEAIcYBAQD0AQAhxwEBAPQBACHIAQEA9AEAIckBAQD0AQAhygEBAPQBACHLAQEAhwIAIcwBAQCHAgAhzQEAAPUBACDOAQIAjAIAIQMAAAADACABAACMAQAwIAAAjQEAIAMAAAADACABAAAEADACAAAFACABAAAACgAgAQAAAAoAIAMAAAAHACABAAAJADACAAAKACADAAAABwAgAQAACQAwAgAACgAgAwAAAAcAIAEAAAkAMAIAAAoAIAcDAACGAwAgBAAAkQMAIAUAAIcDACCqAQEAAAABqwGAAAAAAcQBAQAAAAHFAQEAAAABARQAAJUBACAEqgEBAAAAAasBgAAAAAHEAQEAAAABxQEBAAAAAQEUAACXAQAwARQAAJcBADABAAAABwAgBwMAAPcCACAEAAD4AgAgBQAA-QIAIKoBAQCqAgAhqwGAAAAAAcQBAQC6AgAhxQEBALoCACECAAAACgAgFAAAmwEAIASqAQEAqgIAIasBgAAAAAHEAQEAugIAIcUBAQC6AgAhAgAAAAcAIBQAAJ0BACACAAAABwAgFAAAnQEAIAEAAAAHACADAAAACgAgGwAAlQEAIBwAAJsBACABAAAACgAgAQAAAAcAIAUGAAD0AgAgIQAA9gIAICIAAPUCACDEAQAA8wIAIMUBAADzAgAgB6cBAACGAgAwqAEAAKUBABCpAQAAhgIAMKoBAQD0AQAhqwEAAPUBACDEAQEAhwIAIcUBAQCHAgAhAwAAAAcAIAEAAKQBADAgAAClAQAgAwAAAAcAIAEAAAkAMAIAAAoAIAcDAACDAgAgpwEAAIUCADCoAQAAqwEAEKkBAACFAgAwqgEBAAAAAasBAAD_AQAgwAEAAP8BACABAAAAqAEAIAEAAACoAQAgBwMAAIMCACCnAQAAhQIAMKgBAACrAQAQqQEAAIUCADCqAQEA_gEAIasBAAD_AQAgwAEAAP8BACABAwAA4gIAIAMAAACrAQAgAQAArAEAMAIAAKgBACADAAAAqwEAIAEAAKwBADACAACoAQAgAwAAAKsBACABAACsAQAwAgAAqAEAIAQDAADyAgAgqgEBAAAAAasBgAAAAAHAAYAAAAABARQAALABACADqgEBAAAAAasBgAAAAAHAAYAAAAABARQAALIBADABFAAAsgEAMAQDAADmAgAgqgEBAKoCACGrAYAAAAABwAGAAAAAAQIAAACoAQAgFAAAtQEAIAOqAQEAqgIAIasBgAAAAAHAAYAAAAABAgAAAKsBACAUAAC3AQAgAgAAAKsBACAUAAC3AQAgAwAAAKgBACAbAACwAQAgHAAAtQEAIAEAAACoAQAgAQAAAKsBACADBgAA4wIAICEAAOUCACAiAADkAgAgBqcBAACEAgAwqAEAAL4BABCpAQAAhAIAMKoBAQD0AQAhqwEAAPUBACDAAQAA9QEAIAMAAACrAQAgAQAAvQEAMCAAAL4BACADAAAAqwEAIAEAAKwBADACAACoAQAgBwMAAIMCACCnAQAAggIAMKgBAADEAQAQqQEAAIICADCqAQEAAAABqwEAAP8BACDAAQAA_wEAIAEAAADBAQAgAQAAAMEBACAHAwAAgwIAIKcBAACCAgAwqAEAAMQBABCpAQAAggIAMKoBAQD-AQAhqwEAAP8BACDAAQAA_wEAIAEDAADiAgAgAwAAAMQBACABAADFAQAwAgAAwQEAIAMAAADEAQAgAQAAxQEAMAIAAMEBACADAAAAxAEAIAEAAMUBADACAADBAQAgBAMAAOECACCqAQEAAAABqwGAAAAAAcABgAAAAAEBFAAAyQEAIAOqAQEAAAABqwGAAAAAAcABgAAAAAEBFAAAywEAMAEUAADLAQAwBAMAAK8CACCqAQEAqgIAIasBgAAAAAHAAYAAAAABAgAAAMEBACAUAADOAQAgA6oBAQCqAgAhqwGAAAAAAcABgAAAAAECAAAAxAEAIBQAANABACACAAAAxAEAIBQAANABACADAAAAwQEAIBsAAMkBACAcAADOAQAgAQAAAMEBACABAAAAxAEAIAMGAACsAgAgIQAArgIAICIAAK0CACAGpwEAAIECADCoAQAA1wEAEKkBAACBAgAwqgEBAPQBACGrAQAA9QEAIMABAAD1AQAgAwAAAMQBACABAADWAQAwIAAA1wEAIAMAAADEAQAgAQAAxQEAMAIAAMEBACAIpwEAAP0BADCoAQAA3QEAEKkBAAD9AQAwqgEBAAAAAasBAAD_AQAgrAEBAAAAAa0BQACAAgAhrgFAAIACACEBAAAA2gEAIAEAAADaAQAgCKcBAAD9AQAwqAEAAN0BABCpAQAA_QEAMKoBAQD-AQAhqwEAAP8BACCsAQEA_gEAIa0BQACAAgAhrgFAAIACACEAAwAAAN0BACABAADeAQAwAgAA2gEAIAMAAADdAQAgAQAA3gEAMAIAANoBACADAAAA3QEAIAEAAN4BADACAADaAQAgBaoBAQAAAAGrAYAAAAABrAEBAAAAAa0BQAAAAAGuAUAAAAABARQAAOIBACAFqgEBAAAAAasBgAAAAAGsAQEAAAABrQFAAAAAAa4BQAAAAAEBFAAA5AEAMAEUAADkAQAwBaoBAQCqAgAhqwGAAAAAAawBAQCqAgAhrQFAAKsCACGuAUAAqwIAIQIAAADaAQAgFAAA5wEAIAWqAQEAqgIAIasBgAAAAAGsAQEAqgIAIa0BQACrAgAhrgFAAKsCACECAAAA3QEAIBQAAOkBACACAAAA3QEAIBQAAOkBACADAAAA2gEAIBsAAOIBACAcAADnAQAgAQAAANoBACABAAAA3QEAIAMGAACnAgAgIQAAqQIAICIAAKgCACAIpwEAAPMBADCoAQAA8AEAEKkBAADzAQAwqgEBAPQBACGrAQAA9QEAIKwBAQD0AQAhrQFAAPYBACGuAUAA9gEAIQMAAADdAQAgAQAA7wEAMCAAAPABACADAAAA3QEAIAEAAN4BADACAADaAQAgCKcBAADzAQAwqAEAAPABABCpAQAA8wEAMKoBAQD0AQAhqwEAAPUBACCsAQEA9AEAIa0BQAD2AQAhrgFAAPYBACEOBgAA-AEAICEAAPwBACAiAAD8AQAgrwEBAAAAAbABAQAAAASxAQEAAAAEsgEBAAAAAbMBAQAAAAG0AQEAAAABtQEBAAAAAbYBAQD7AQAhvQEBAAAAAb4BAQAAAAG_AQEAAAABDwYAAPgBACAhAAD6AQAgIgAA-gEAIK8BgAAAAAGyAYAAAAABswGAAAAAAbQBgAAAAAG1AYAAAAABtgGAAAAAAbcBAQAAAAG4AQEAAAABuQEBAAAAAboBgAAAAAG7AYAAAAABvAGAAAAAAQsGAAD4AQAgIQAA-QEAICIAAPkBACCvAUAAAAABsAFAAAAABLEBQAAAAASyAUAAAAABswFAAAAAAbQBQAAAAAG1AUAAAAABtgFAAPcBACELBgAA-AEAICEAAPkBACAiAAD5AQAgrwFAAAAAAbABQAAAAASxAUAAAAAEsgFAAAAAAbMBQAAAAAG0AUAAAAABtQFAAAAAAbYBQAD3AQAhCK8BAgAAAAGwAQIAAAAEsQECAAAABLIBAgAAAAGzAQIAAAABtAECAAAAAbUBAgAAAAG2AQIA-AEAIQivAUAAAAABsAFAAAAABLEBQAAAAASyAUAAAAABswFAAAAAAbQBQAAAAAG1AUAAAAABtgFAAPkBACEMrwGAAAAAAbIBgAAAAAGzAYAAAAABtAGAAAAAAbUBgAAAAAG2AYAAAAABtwEBAAAAAbgBAQAAAAG5AQEAAAABugGAAAAAAbsBgAAAAAG8AYAAAAABDgYAAPgBACAhAAD8AQAgIgAA_AEAIK8BAQAAAAGwAQEAAAAEsQEBAAAABLIBAQAAAAGzAQEAAAABtAEBAAAAAbUBAQAAAAG2AQEA-wEAIb0BAQAAAAG-AQEAAAABvwEBAAAAAQuvAQEAAAABsAEBAAAABLEBAQAAAASyAQEAAAABswEBAAAAAbQBAQAAAAG1AQEAAAABtgEBAPwBACG9AQEAAAABvgEBAAAAAb8BAQAAAAEIpwEAAP0BADCoAQAA3QEAEKkBAAD9AQAwqgEBAP4BACGrAQAA_wEAIKwBAQD-AQAhrQFAAIACACGuAUAAgAIAIQuvAQEAAAABsAEBAAAABLEBAQAAAASyAQEAAAABswEBAAAAAbQBAQAAAAG1AQEAAAABtgEBAPwBACG9AQEAAAABvgEBAAAAAb8BAQAAAAEMrwGAAAAAAbIBgAAAAAGzAYAAAAABtAGAAAAAAbUBgAAAAAG2AYAAAAABtwEBAAAAAbgBAQAAAAG5AQEAAAABugGAAAAAAbsBgAAAAAG8AYAAAAABCK8BQAAAAAGwAUAAAAAEsQFAAAAABLIBQAAAAAGzAUAAAAABtAFAAAAAAbUBQAAAAAG2AUAA-QEAIQanAQAAgQIAMKgBAADXAQAQqQEAAIECADCqAQEA9AEAIasBAAD1AQAgwAEAAPUBACAHAwAAgwIAIKcBAACCAgAwqAEAAMQBABCpAQAAggIAMKoBAQD-AQAhqwEAAP8BACDAAQAA_wEAIAPBAQAAAwAgwgEAAAMAIMMBAAADACAGpwEAAIQCADCoAQAAvgEAEKkBAACEAgAwqgEBAPQBACGrAQAA9QEAIMABAAD1AQAgBwMAAIMCACCnAQAAhQIAMKgBAACrAQAQqQEAAIUCADCqAQEA_gEAIasBAAD_AQAgwAEAAP8BACAHpwEAAIYCADCoAQAApQEAEKkBAACGAgAwqgEBAPQBACGrAQAA9QEAIMQBAQCHAgAhxQEBAIcCACEOBgAAiQIAICEAAIoCACAiAACKAgAgrwEBAAAAAbABAQAAAAWxAQEAAAAFsgEBAAAAAbMBAQAAAAG0AQEAAAABtQEBAAAAAbYBAQCIAgAhvQEBAAAAAb4BAQAAAAG_AQEAAAABDgYAAIkCACAhAACKAgAgIgAAigIAIK8BAQAAAAGwAQEAAAAFsQEBAAAABbIBAQAAAAGzAQEAAAABtAEBAAAAAbUBAQAAAAG2AQEAiAIAIb0BAQAAAAG-AQEAAAABvwEBAAAAAQivAQIAAAABsAECAAAABbEBAgAAAAWyAQIAAAABswECAAAAAbQBAgAAAAG1AQIAAAABtgECAIkCACELrwEBAAAAAbABAQAAAAWxAQEAAAAFsgEBAAAAAbMBAQAAAAG0AQEAAAABtQEBAAAAAbYBAQCKAgAhvQEBAAAAAb4BAQAAAAG_AQEAAAABEacBAACLAgAwqAEAAI0BABCpAQAAiwIAMKoBAQD0AQAhqwEAAPUBACCtAUAA9gEAIa4BQAD2AQAhxAEBAPQBACHGAQEA9AEAIccBAQD0AQAhyAEBAPQBACHJAQEA9AEAIcoBAQD0AQAhywEBAIcCACHMAQEAhwIAIc0BAAD1AQAgzgECAIwCACENBgAA-AEAICEAAPgBACAiAAD4AQAgYwAAjgIAIGQAAPgBACCvAQIAAAABsAECAAAABLEBAgAAAASyAQIAAAABswECAAAAAbQBAgAAAAG1AQIAAAABtgECAI0CACENBgAA-AEAICEAAPgBACAiAAD4AQAgYwAAjgIAIGQAAPgBACCvAQIAAAABsAECAAAABLEBAgAAAASyAQIAAAABswECAAAAAbQBAgAAAAG1AQIAAAABtgECAI0CACEIrwEIAAAAAbABCAAAAASxAQgAAAAEsgEIAAAAAbMBCAAAAAG0AQgAAAABtQEIAAAAAbYBCACOAgAhBacBAACPAgAwqAEAAHcAEKkBAACPAgAwqgEBAPQBACHPAQEA9AEAIQWnAQAAkAIAMKgBAABkABCpAQAAkAIAMKoBAQD-AQAhzwEBAP4BACECqgEBAAAAAc8BAQAAAAEGpwEAAJICADCoAQAAXgAQqQEAAJICADCqAQEA9AEAIasBAAD1AQAgwAEAAPUBACAHAwAAgwIAIKcBAACTAgAwqAEAAEsAEKkBAACTAgAwqgEBAP4BACGrAQAA_wEAIMABAAD_AQAgBacBAACUAgAwqAEAAEUAEKkBAACUAgAw0QEBAPQBACHSAQAA9QEAIAWnAQAAlQIAMKgBAAAyABCpAQAAlQIAMNEBAQD-AQAh0gEAAP8BACAIpwEAAJYCADCoAQAALAAQqQEAAJYCADDPAQEA9AEAIdMBAQD0AQAh1AEBAPQBACHVAQEA9AEAIdYBAQD0AQAhCg0AAJgCACAOAACYAgAgpwEAAJcCADCoAQAAFAAQqQEAAJcCADDPAQEA_gEAIdMBAQD-AQAh1AEBAP4BACHVAQEA_gEAIdYBAQD-AQAhGQcAAKECACAIAACiAgAgCQAAowIAIAoAAKQCACALAAClAgAgDAAApQIAIKcBAACfAgAwqAEAAAMAEKkBAACfAgAwqgEBAP4BACGrAQAA_wEAIK0BQACAAgAhrgFAAIACACHEAQEA_gEAIcYBAQD-AQAhxwEBAP4BACHIAQEA_gEAIckBAQD-AQAhygEBAP4BACHLAQEAmwIAIcwBAQCbAgAhzQEAAP8BACDOAQIAoAIAIdoBAAADACDbAQAAAwAgAsQBAQAAAAHFAQEAAAABCgMAAIMCACAEAACcAgAgBQAAnQIAIKcBAACaAgAwqAEAAAcAEKkBAACaAgAwqgEBAP4BACGrAQAA_wEAIMQBAQCbAgAhxQEBAJsCACELrwEBAAAAAbABAQAAAAWxAQEAAAAFsgEBAAAAAbMBAQAAAAG0AQEAAAABtQEBAAAAAbYBAQCKAgAhvQEBAAAAAb4BAQAAAAG_AQEAAAABDAMAAIMCACAEAACcAgAgBQAAnQIAIKcBAACaAgAwqAEAAAcAEKkBAACaAgAwqgEBAP4BACGrAQAA_wEAIMQBAQCbAgAhxQEBAJsCACHaAQAABwAg2wEAAAcAIAPBAQAABwAgwgEAAAcAIMMBAAAHACACxAEBAAAAAcYBAQAAAAEXBwAAoQIAIAgAAKICACAJAACjAgAgCgAApAIAIAsAAKUCACAMAAClAgAgpwEAAJ8CADCoAQAAAwAQqQEAAJ8CADCqAQEA_gEAIasBAAD_AQAgrQFAAIACACGuAUAAgAIAIcQBAQD-AQAhxgEBAP4BACHHAQEA_gEAIcgBAQD-AQAhyQEBAP4BACHKAQEA_gEAIcsBAQCbAgAhzAEBAJsCACHNAQAA_wEAIM4BAgCgAgAhCK8BAgAAAAGwAQIAAAAEsQECAAAABLIBAgAAAAGzAQIAAAABtAECAAAAAbUBAgAAAAG2AQIA-AEAIQwDAACDAgAgBAAAnAIAIAUAAJ0CACCnAQAAmgIAMKgBAAAHABCpAQAAmgIAMKoBAQD-AQAhqwEAAP8BACDEAQEAmwIAIcUBAQCbAgAh2gEAAAcAINsBAAAHACAJAwAAgwIAIKcBAACFAgAwqAEAAKsBABCpAQAAhQIAMKoBAQD-AQAhqwEAAP8BACDAAQAA_wEAINoBAACrAQAg2wEAAKsBACAJAwAAgwIAIKcBAACTAgAwqAEAAEsAEKkBAACTAgAwqgEBAP4BACGrAQAA_wEAIMABAAD_AQAg2gEAAEsAINsBAABLACAJAwAAgwIAIKcBAACCAgAwqAEAAMQBABCpAQAAggIAMKoBAQD-AQAhqwEAAP8BACDAAQAA_wEAINoBAADEAQAg2wEAAMQBACADwQEAABQAIMIBAAAUACDDAQAAFAAgAs8BAQAAAAHUAQEAAAABAAAAAd8BAQAAAAEB3wFAAAAAAQAAAAsbAACwAgAwHAAAtQIAMNwBAACxAgAw3QEAALICADDeAQAAswIAIN8BAAC0AgAw4AEAALQCADDhAQAAtAIAMOIBAAC0AgAw4wEAALYCADDkAQAAtwIAMBIHAADcAgAgCAAA3QIAIAkAAN4CACALAADfAgAgDAAA4AIAIKoBAQAAAAGrAYAAAAABrQFAAAAAAa4BQAAAAAHEAQEAAAABxgEBAAAAAccBAQAAAAHIAQEAAAABygEBAAAAAcsBAQAAAAHMAQEAAAABzQGAAAAAAc4BAgAAAAECAAAABQAgGwAA2wIAIAMAAAAFACAbAADbAgAgHAAAvAIAIAEUAADeAwAwGAcAAKECACAIAACiAgAgCQAAowIAIAoAAKQCACALAAClAgAgDAAApQIAIKcBAACfAgAwqAEAAAMAEKkBAACfAgAwqgEBAAAAAasBAAD_AQAgrQFAAIACACGuAUAAgAIAIcQBAQD-AQAhxgEBAP4BACHHAQEA_gEAIcgBAQD-AQAhyQEBAP4BACHKAQEA_gEAIcsBAQCbAgAhzAEBAJsCACHNAQAA_wEAIM4BAgCgAgAh2AEAAJ4CACACAAAABQAgFAAAvAIAIAIAAAC4AgAgFAAAuQIAIBGnAQAAtwIAMKgBAAC4AgAQqQEAALcCADCqAQEA_gEAIasBAAD_AQAgrQFAAIACACGuAUAAgAIAIcQBAQD-AQAhxgEBAP4BACHHAQEA_gEAIcgBAQD-AQAhyQEBAP4BACHKAQEA_gEAIcsBAQCbAgAhzAEBAJsCACHNAQAA_wEAIM4BAgCgAgAhEacBAAC3AgAwqAEAALgCABCpAQAAtwIAMKoBAQD-AQAhqwEAAP8BACCtAUAAgAIAIa4BQACAAgAhxAEBAP4BACHGAQEA_gEAIccBAQD-AQAhyAEBAP4BACHJAQEA_gEAIcoBAQD-AQAhywEBAJsCACHMAQEAmwIAIc0BAAD_AQAgzgECAKACACENqgEBAKoCACGrAYAAAAABrQFAAKsCACGuAUAAqwIAIcQBAQCqAgAhxgEBAKoCACHHAQEAqgIAIcgBAQCqAgAhygEBAKoCACHLAQEAugIAIcwBAQC6AgAhzQGAAAAAAc4BAgC7AgAhAd8BAQAAAAEF3wECAAAAAeUBAgAAAAHmAQIAAAAB5wECAAAAAegBAgAAAAESBwAAvQIAIAgAAL4CACAJAAC_AgAgCwAAwAIAIAwAAMECACCqAQEAqgIAIasBgAAAAAGtAUAAqwIAIa4BQACrAgAhxAEBAKoCACHGAQEAqgIAIccBAQCqAgAhyAEBAKoCACHKAQEAqgIAIcsBAQC6AgAhzAEBALoCACHNAYAAAAABzgECALsCACEFGwAAxwMAIBwAANwDACDcAQAAyAMAIN0BAADbAwAg4gEAAAoAIAUbAADFAwAgHAAA2QMAINwBAADGAwAg3QEAANgDACDiAQAAqAEAIAUbAADDAwAgHAAA1gMAINwBAADEAwAg3QEAANUDACDiAQAASAAgCxsAANACADAcAADUAgAw3AEAANECADDdAQAA0gIAMN4BAADTAgAg3wEAAMYCADDgAQAAxgIAMOEBAADGAgAw4gEAAMYCADDjAQAA1QIAMOQBAADJAgAwCxsAAMICADAcAADHAgAw3AEAAMMCADDdAQAAxAIAMN4BAADFAgAg3wEAAMYCADDgAQAAxgIAMOEBAADGAgAw4gEAAMYCADDjAQAAyAIAMOQBAADJAgAwBQ0AAM8CACDPAQEAAAAB1AEBAAAAAdUBAQAAAAHWAQEAAAABAgAAAAEAIBsAAM4CACADAAAAAQAgGwAAzgIAIBwAAMwCACABFAAA1AMAMAsNAACYAgAgDgAAmAIAIKcBAACXAgAwqAEAABQAEKkBAACXAgAwzwEBAP4BACHTAQEA_gEAIdQBAQD-AQAh1QEBAP4BACHWAQEA_gEAIdkBAACmAgAgAgAAAAEAIBQAAMwCACACAAAAygIAIBQAAMsCACAIpwEAAMkCADCoAQAAygIAEKkBAADJAgAwzwEBAP4BACHTAQEA_gEAIdQBAQD-AQAh1QEBAP4BACHWAQEA_gEAIQinAQAAyQIAMKgBAADKAgAQqQEAAMkCADDPAQEA_gEAIdMBAQD-AQAh1AEBAP4BACHVAQEA_gEAIdYBAQD-AQAhBM8BAQCqAgAh1AEBAKoCACHVAQEAqgIAIdYBAQCqAgAhBQ0AAM0CACDPAQEAqgIAIdQBAQCqAgAh1QEBAKoCACHWAQEAqgIAIQUbAADPAwAgHAAA0gMAINwBAADQAwAg3QEAANEDACDiAQAABQAgBQ0AAM8CACDPAQEAAAAB1AEBAAAAAdUBAQAAAAHWAQEAAAABAxsAAM8DACDcAQAA0AMAIOIBAAAFACAFDgAA2gIAINMBAQAAAAHUAQEAAAAB1QEBAAAAAdYBAQAAAAECAAAAAQAgGwAA2QIAIAMAAAABACAbAADZAgAgHAAA1wIAIAEUAADOAwAwAgAAAAEAIBQAANcCACACAAAAygIAIBQAANYCACAE0wEBAKoCACHUAQEAqgIAIdUBAQCqAgAh1gEBAKoCACEFDgAA2AIAINMBAQCqAgAh1AEBAKoCACHVAQEAqgIAIdYBAQCqAgAhBRsAAMkDACAcAADMAwAg3AEAAMoDACDdAQAAywMAIOIBAAAFACAFDgAA2gIAINMBAQAAAAHUAQEAAAAB1QEBAAAAAdYBAQAAAAEDGwAAyQMAINwBAADKAwAg4gEAAAUAIBIHAADcAgAgCAAA3QIAIAkAAN4CACALAADfAgAgDAAA4AIAIKoBAQAAAAGrAYAAAAABrQFAAAAAAa4BQAAAAAHEAQEAAAABxgEBAAAAAccBAQAAAAHIAQEAAAABygEBAAAAAcsBAQAAAAHMAQEAAAABzQGAAAAAAc4BAgAAAAEDGwAAxwMAINwBAADIAwAg4gEAAAoAIAMbAADFAwAg3AEAAMYDACDiAQAAqAEAIAMbAADDAwAg3AEAAMQDACDiAQAASAAgBBsAANACADDcAQAA0QIAMN4BAADTAgAg4gEAAMYCADAEGwAAwgIAMNwBAADDAgAw3gEAAMUCACDiAQAAxgIAMAQbAACwAgAw3AEAALECADDeAQAAswIAIOIBAAC0AgAwAAAAAAsbAADnAgAwHAAA6wIAMNwBAADoAgAw3QEAAOkCADDeAQAA6gIAIN8BAAC0AgAw4AEAALQCADDhAQAAtAIAMOIBAAC0AgAw4wEAAOwCADDkAQAAtwIAMBIHAADcAgAgCQAA3gIAIAoAAPECACALAADfAgAgDAAA4AIAIKoBAQAAAAGrAYAAAAABrQFAAAAAAa4BQAAAAAHEAQEAAAABxgEBAAAAAcgBAQAAAAHJAQEAAAABygEBAAAAAcsBAQAAAAHMAQEAAAABzQGAAAAAAc4BAgAAAAECAAAABQAgGwAA8AIAIAMAAAAFACAbAADwAgAgHAAA7gIAIAEUAADCAwAwAgAAAAUAIBQAAO4CACACAAAAuAIAIBQAAO0CACANqgEBAKoCACGrAYAAAAABrQFAAKsCACGuAUAAqwIAIcQBAQCqAgAhxgEBAKoCACHIAQEAqgIAIckBAQCqAgAhygEBAKoCACHLAQEAugIAIcwBAQC6AgAhzQGAAAAAAc4BAgC7AgAhEgcAAL0CACAJAAC_AgAgCgAA7wIAIAsAAMACACAMAADBAgAgqgEBAKoCACGrAYAAAAABrQFAAKsCACGuAUAAqwIAIcQBAQCqAgAhxgEBAKoCACHIAQEAqgIAIckBAQCqAgAhygEBAKoCACHLAQEAugIAIcwBAQC6AgAhzQGAAAAAAc4BAgC7AgAhBRsAAL0DACAcAADAAwAg3AEAAL4DACDdAQAAvwMAIOIBAADBAQAgEgcAANwCACAJAADeAgAgCgAA8QIAIAsAAN8CACAMAADgAgAgqgEBAAAAAasBgAAAAAGtAUAAAAABrgFAAAAAAcQBAQAAAAHGAQEAAAAByAEBAAAAAckBAQAAAAHKAQEAAAABywEBAAAAAcwBAQAAAAHNAYAAAAABzgECAAAAAQMbAAC9AwAg3AEAAL4DACDiAQAAwQEAIAQbAADnAgAw3AEAAOgCADDeAQAA6gIAIOIBAAC0AgAwAAAAAAsbAACIAwAwHAAAjQMAMNwBAACJAwAw3QEAAIwDADDeAQAAigMAIN8BAAC0AgAw4AEAALQCADDhAQAAtAIAMOIBAAC0AgAw4wEAAI4DADDkAQAAtwIAMAcbAAC2AwAgHAAAuwMAINwBAAC3AwAg3QEAALoDACDgAQAABwAg4QEAAAcAIOIBAAAKACALGwAA-gIAMBwAAP8CADDcAQAA-wIAMN0BAAD8AgAw3gEAAP0CACDfAQAA_gIAMOABAAD-AgAw4QEAAP4CADDiAQAA_gIAMOMBAACAAwAw5AEAAIEDADAFAwAAhgMAIAUAAIcDACCqAQEAAAABqwGAAAAAAcQBAQAAAAECAAAACgAgGwAAhQMAIAMAAAAKACAbAACFAwAgHAAAhAMAIAEUAAC5AwAwCwMAAIMCACAEAACcAgAgBQAAnQIAIKcBAACaAgAwqAEAAAcAEKkBAACaAgAwqgEBAAAAAasBAAD_AQAgxAEBAJsCACHFAQEAmwIAIdcBAACZAgAgAgAAAAoAIBQAAIQDACACAAAAggMAIBQAAIMDACAHpwEAAIEDADCoAQAAggMAEKkBAACBAwAwqgEBAP4BACGrAQAA_wEAIMQBAQCbAgAhxQEBAJsCACEHpwEAAIEDADCoAQAAggMAEKkBAACBAwAwqgEBAP4BACGrAQAA_wEAIMQBAQCbAgAhxQEBAJsCACEDqgEBAKoCACGrAYAAAAABxAEBALoCACEFAwAA9wIAIAUAAPkCACCqAQEAqgIAIasBgAAAAAHEAQEAugIAIQUDAACGAwAgBQAAhwMAIKoBAQAAAAGrAYAAAAABxAEBAAAAAQQbAACIAwAw3AEAAIkDADDeAQAAigMAIOIBAAC0AgAwBBsAAPoCADDcAQAA-wIAMN4BAAD9AgAg4gEAAP4CADASCAAA3QIAIAkAAN4CACAKAADxAgAgCwAA3wIAIAwAAOACACCqAQEAAAABqwGAAAAAAa0BQAAAAAGuAUAAAAABxAEBAAAAAccBAQAAAAHIAQEAAAAByQEBAAAAAcoBAQAAAAHLAQEAAAABzAEBAAAAAc0BgAAAAAHOAQIAAAABAgAAAAUAIBsAAIsDACABFAAAuAMAMBIIAADdAgAgCQAA3gIAIAoAAPECACALAADfAgAgDAAA4AIAIKoBAQAAAAGrAYAAAAABrQFAAAAAAa4BQAAAAAHEAQEAAAABxwEBAAAAAcgBAQAAAAHJAQEAAAABygEBAAAAAcsBAQAAAAHMAQEAAAABzQGAAAAAAc4BAgAAAAEDAAAABQAgGwAAiwMAIBwAAJADACACAAAABQAgFAAAkAMAIAIAAAC4AgAgFAAAjwMAIA2qAQEAqgIAIasBgAAAAAGtAUAAqwIAIa4BQACrAgAhxAEBAKoCACHHAQEAqgIAIcgBAQCqAgAhyQEBAKoCACHKAQEAqgIAIcsBAQC6AgAhzAEBALoCACHNAYAAAAABzgECALsCACESCAAAvgIAIAkAAL8CACAKAADvAgAgCwAAwAIAIAwAAMECACCqAQEAqgIAIasBgAAAAAGtAUAAqwIAIa4BQACrAgAhxAEBAKoCACHHAQEAqgIAIcgBAQCqAgAhyQEBAKoCACHKAQEAqgIAIcsBAQC6AgAhzAEBALoCACHNAYAAAAABzgECALsCACEDGwAAtgMAINwBAAC3AwAg4gEAAAoAIAAAAAAAAAAAAAAACxsAAJ4DADAcAACiAwAw3AEAAJ8DADDdAQAAoAMAMN4BAAChAwAg3wEAALQCADDgAQAAtAIAMOEBAAC0AgAw4gEAALQCADDjAQAAowMAMOQBAAC3AgAwEgcAANwCACAIAADdAgAgCgAA8QIAIAsAAN8CACAMAADgAgAgqgEBAAAAAasBgAAAAAGtAUAAAAABrgFAAAAAAcQBAQAAAAHGAQEAAAABxwEBAAAAAckBAQAAAAHKAQEAAAABywEBAAAAAcwBAQAAAAHNAYAAAAABzgECAAAAAQIAAAAFACAbAACmAwAgAwAAAAUAIBsAAKYDACAcAAClAwAgARQAALUDADACAAAABQAgFAAApQMAIAIAAAC4AgAgFAAApAMAIA2qAQEAqgIAIasBgAAAAAGtAUAAqwIAIa4BQACrAgAhxAEBAKoCACHGAQEAqgIAIccBAQCqAgAhyQEBAKoCACHKAQEAqgIAIcsBAQC6AgAhzAEBALoCACHNAYAAAAABzgECALsCACESBwAAvQIAIAgAAL4CACAKAADvAgAgCwAAwAIAIAwAAMECACCqAQEAqgIAIasBgAAAAAGtAUAAqwIAIa4BQACrAgAhxAEBAKoCACHGAQEAqgIAIccBAQCqAgAhyQEBAKoCACHKAQEAqgIAIcsBAQC6AgAhzAEBALoCACHNAYAAAAABzgECALsCACESBwAA3AIAIAgAAN0CACAKAADxAgAgCwAA3wIAIAwAAOACACCqAQEAAAABqwGAAAAAAa0BQAAAAAGuAUAAAAABxAEBAAAAAcYBAQAAAAHHAQEAAAAByQEBAAAAAcoBAQAAAAHLAQEAAAABzAEBAAAAAc0BgAAAAAHOAQIAAAABBBsAAJ4DADDcAQAAnwMAMN4BAAChAwAg4gEAALQCADAAAAAAAAAIBwAArwMAIAgAALEDACAJAACyAwAgCgAAswMAIAsAALQDACAMAAC0AwAgywEAAPMCACDMAQAA8wIAIAUDAADiAgAgBAAArwMAIAUAALADACDEAQAA8wIAIMUBAADzAgAgAAEDAADiAgAgAQMAAOICACABAwAA4gIAIAANqgEBAAAAAasBgAAAAAGtAUAAAAABrgFAAAAAAcQBAQAAAAHGAQEAAAABxwEBAAAAAckBAQAAAAHKAQEAAAABywEBAAAAAcwBAQAAAAHNAYAAAAABzgECAAAAAQYDAACGAwAgBAAAkQMAIKoBAQAAAAGrAYAAAAABxAEBAAAAAcUBAQAAAAECAAAACgAgGwAAtgMAIA2qAQEAAAABqwGAAAAAAa0BQAAAAAGuAUAAAAABxAEBAAAAAccBAQAAAAHIAQEAAAAByQEBAAAAAcoBAQAAAAHLAQEAAAABzAEBAAAAAc0BgAAAAAHOAQIAAAABA6oBAQAAAAGrAYAAAAABxAEBAAAAAQMAAAAHACAbAAC2AwAgHAAAvAMAIAgAAAAHACADAAD3AgAgBAAA-AIAIBQAALwDACCqAQEAqgIAIasBgAAAAAHEAQEAugIAIcUBAQC6AgAhBgMAAPcCACAEAAD4AgAgqgEBAKoCACGrAYAAAAABxAEBALoCACHFAQEAugIAIQOqAQEAAAABqwGAAAAAAcABgAAAAAECAAAAwQEAIBsAAL0DACADAAAAxAEAIBsAAL0DACAcAADBAwAgBQAAAMQBACAUAADBAwAgqgEBAKoCACGrAYAAAAABwAGAAAAAAQOqAQEAqgIAIasBgAAAAAHAAYAAAAABDaoBAQAAAAGrAYAAAAABrQFAAAAAAa4BQAAAAAHEAQEAAAABxgEBAAAAAcgBAQAAAAHJAQEAAAABygEBAAAAAcsBAQAAAAHMAQEAAAABzQGAAAAAAc4BAgAAAAEDqgEBAAAAAasBgAAAAAHAAYAAAAABAgAAAEgAIBsAAMMDACADqgEBAAAAAasBgAAAAAHAAYAAAAABAgAAAKgBACAbAADFAwAgBgQAAJEDACAFAACHAwAgqgEBAAAAAasBgAAAAAHEAQEAAAABxQEBAAAAAQIAAAAKACAbAADHAwAgEwcAANwCACAIAADdAgAgCQAA3gIAIAoAAPECACALAADfAgAgqgEBAAAAAasBgAAAAAGtAUAAAAABrgFAAAAAAcQBAQAAAAHGAQEAAAABxwEBAAAAAcgBAQAAAAHJAQEAAAABygEBAAAAAcsBAQAAAAHMAQEAAAABzQGAAAAAAc4BAgAAAAECAAAABQAgGwAAyQMAIAMAAAADACAbAADJAwAgHAAAzQMAIBUAAAADACAHAAC9AgAgCAAAvgIAIAkAAL8CACAKAADvAgAgCwAAwAIAIBQAAM0DACCqAQEAqgIAIasBgAAAAAGtAUAAqwIAIa4BQACrAgAhxAEBAKoCACHGAQEAqgIAIccBAQCqAgAhyAEBAKoCACHJAQEAqgIAIcoBAQCqAgAhywEBALoCACHMAQEAugIAIc0BgAAAAAHOAQIAuwIAIRMHAAC9AgAgCAAAvgIAIAkAAL8CACAKAADvAgAgCwAAwAIAIKoBAQCqAgAhqwGAAAAAAa0BQACrAgAhrgFAAKsCACHEAQEAqgIAIcYBAQCqAgAhxwEBAKoCACHIAQEAqgIAIckBAQCqAgAhygEBAKoCACHLAQEAugIAIcwBAQC6AgAhzQGAAAAAAc4BAgC7AgAhBNMBAQAAAAHUAQEAAAAB1QEBAAAAAdYBAQAAAAETBwAA3AIAIAgAAN0CACAJAADeAgAgCgAA8QIAIAwAAOACACCqAQEAAAABqwGAAAAAAa0BQAAAAAGuAUAAAAABxAEBAAAAAcYBAQAAAAHHAQEAAAAByAEBAAAAAckBAQAAAAHKAQEAAAABywEBAAAAAcwBAQAAAAHNAYAAAAABzgECAAAAAQIAAAAFACAbAADPAwAgAwAAAAMAIBsAAM8DACAcAADTAwAgFQAAAAMAIAcAAL0CACAIAAC-AgAgCQAAvwIAIAoAAO8CACAMAADBAgAgFAAA0wMAIKoBAQCqAgAhqwGAAAAAAa0BQACrAgAhrgFAAKsCACHEAQEAqgIAIcYBAQCqAgAhxwEBAKoCACHIAQEAqgIAIckBAQCqAgAhygEBAKoCACHLAQEAugIAIcwBAQC6AgAhzQGAAAAAAc4BAgC7AgAhEwcAAL0CACAIAAC-AgAgCQAAvwIAIAoAAO8CACAMAADBAgAgqgEBAKoCACGrAYAAAAABrQFAAKsCACGuAUAAqwIAIcQBAQCqAgAhxgEBAKoCACHHAQEAqgIAIcgBAQCqAgAhyQEBAKoCACHKAQEAqgIAIcsBAQC6AgAhzAEBALoCACHNAYAAAAABzgECALsCACEEzwEBAAAAAdQBAQAAAAHVAQEAAAAB1gEBAAAAAQMAAABLACAbAADDAwAgHAAA1wMAIAUAAABLACAUAADXAwAgqgEBAKoCACGrAYAAAAABwAGAAAAAAQOqAQEAqgIAIasBgAAAAAHAAYAAAAABAwAAAKsBACAbAADFAwAgHAAA2gMAIAUAAACrAQAgFAAA2gMAIKoBAQCqAgAhqwGAAAAAAcABgAAAAAEDqgEBAKoCACGrAYAAAAABwAGAAAAAAQMAAAAHACAbAADHAwAgHAAA3QMAIAgAAAAHACAEAAD4AgAgBQAA-QIAIBQAAN0DACCqAQEAqgIAIasBgAAAAAHEAQEAugIAIcUBAQC6AgAhBgQAAPgCACAFAAD5AgAgqgEBAKoCACGrAYAAAAABxAEBALoCACHFAQEAugIAIQ2qAQEAAAABqwGAAAAAAa0BQAAAAAGuAUAAAAABxAEBAAAAAcYBAQAAAAHHAQEAAAAByAEBAAAAAcoBAQAAAAHLAQEAAAABzAEBAAAAAc0BgAAAAAHOAQIAAAABAg0AAg4AAgcGAAsHAAMIAAUJAAcKAAkLFgEMFwEEAwYCBAgDBQsDBgAEAgMMAAUNAAIDDgIGAAYBAw8AAgMQAgYACAEDEQACAxICBgAKAQMTAAILGAAMGQAAAg0AAg4AAgINAAIOAAIDBgAQIQARIgASAAAAAwYAECEAESIAEgAAAAMGABghABkiABoAAAADBgAYIQAZIgAaAAADBgAfIQAgIgAhAAAAAwYAHyEAICIAIQAAAAMGACchACgiACkAAAADBgAnIQAoIgApBAcAAwgABQkABwoACQQHAAMIAAUJAAcKAAkFBgAuIQAxIgAyYwAvZAAwAAAAAAAFBgAuIQAxIgAyYwAvZAAwAQSaAQMBBKABAwMGADchADgiADkAAAADBgA3IQA4IgA5AAADBgA-IQA_IgBAAAAAAwYAPiEAPyIAQAAAAwYARSEARiIARwAAAAMGAEUhAEYiAEcAAAADBgBNIQBOIgBPAAAAAwYATSEATiIATw8CARAaAREbARIcARMdARUfARYhDBciDRgkARkmDBonDh0oAR4pAR8qDCMtDyQuEyUwFCYxFCc0FCg1FCk2FCo4FCs6DCw7FS09FC4_DC9AFjBBFDFCFDJDDDNGFzRHGzVJBzZKBzdNBzhOBzlPBzpRBztTDDxUHD1WBz5YDD9ZHUBaB0FbB0JcDENfHkRgIkViI0ZjI0dmI0hnI0loI0pqI0tsDExtJE1vI05xDE9yJVBzI1F0I1J1DFN4JlR5KlV6AlZ7Ald8Alh9All-AlqAAQJbggEMXIMBK12FAQJehwEMX4gBLGCJAQJhigECYosBDGWOAS1mjwEzZ5ABA2iRAQNpkgEDapMBA2uUAQNslgEDbZgBDG6ZATRvnAEDcJ4BDHGfATVyoQEDc6IBA3SjAQx1pgE2dqcBOnepAQV4qgEFea0BBXquAQV7rwEFfLEBBX2zAQx-tAE7f7YBBYABuAEMgQG5ATyCAboBBYMBuwEFhAG8AQyFAb8BPYYBwAFBhwHCAQmIAcMBCYkBxgEJigHHAQmLAcgBCYwBygEJjQHMAQyOAc0BQo8BzwEJkAHRAQyRAdIBQ5IB0wEJkwHUAQmUAdUBDJUB2AFElgHZAUiXAdsBSZgB3AFJmQHfAUmaAeABSZsB4QFJnAHjAUmdAeUBDJ4B5gFKnwHoAUmgAeoBDKEB6wFLogHsAUmjAe0BSaQB7gEMpQHxAUymAfIBUA"
+  strings: JSON.parse("[\"where\",\"orderBy\",\"cursor\",\"projects\",\"parent\",\"children\",\"_count\",\"space\",\"modelStorage\",\"library\",\"pulumiBackend\",\"importPorts\",\"exportPorts\",\"project\",\"sourceProject\",\"ProjectImportPort.findUnique\",\"ProjectImportPort.findUniqueOrThrow\",\"ProjectImportPort.findFirst\",\"ProjectImportPort.findFirstOrThrow\",\"ProjectImportPort.findMany\",\"data\",\"ProjectImportPort.createOne\",\"ProjectImportPort.createMany\",\"ProjectImportPort.createManyAndReturn\",\"ProjectImportPort.updateOne\",\"ProjectImportPort.updateMany\",\"ProjectImportPort.updateManyAndReturn\",\"create\",\"update\",\"ProjectImportPort.upsertOne\",\"ProjectImportPort.deleteOne\",\"ProjectImportPort.deleteMany\",\"having\",\"_min\",\"_max\",\"ProjectImportPort.groupBy\",\"ProjectImportPort.aggregate\",\"UserWorkspaceLayout.findUnique\",\"UserWorkspaceLayout.findUniqueOrThrow\",\"UserWorkspaceLayout.findFirst\",\"UserWorkspaceLayout.findFirstOrThrow\",\"UserWorkspaceLayout.findMany\",\"UserWorkspaceLayout.createOne\",\"UserWorkspaceLayout.createMany\",\"UserWorkspaceLayout.createManyAndReturn\",\"UserWorkspaceLayout.updateOne\",\"UserWorkspaceLayout.updateMany\",\"UserWorkspaceLayout.updateManyAndReturn\",\"UserWorkspaceLayout.upsertOne\",\"UserWorkspaceLayout.deleteOne\",\"UserWorkspaceLayout.deleteMany\",\"UserWorkspaceLayout.groupBy\",\"UserWorkspaceLayout.aggregate\",\"Library.findUnique\",\"Library.findUniqueOrThrow\",\"Library.findFirst\",\"Library.findFirstOrThrow\",\"Library.findMany\",\"Library.createOne\",\"Library.createMany\",\"Library.createManyAndReturn\",\"Library.updateOne\",\"Library.updateMany\",\"Library.updateManyAndReturn\",\"Library.upsertOne\",\"Library.deleteOne\",\"Library.deleteMany\",\"Library.groupBy\",\"Library.aggregate\",\"holder\",\"leases\",\"LockHolder.findUnique\",\"LockHolder.findUniqueOrThrow\",\"LockHolder.findFirst\",\"LockHolder.findFirstOrThrow\",\"LockHolder.findMany\",\"LockHolder.createOne\",\"LockHolder.createMany\",\"LockHolder.createManyAndReturn\",\"LockHolder.updateOne\",\"LockHolder.updateMany\",\"LockHolder.updateManyAndReturn\",\"LockHolder.upsertOne\",\"LockHolder.deleteOne\",\"LockHolder.deleteMany\",\"LockHolder.groupBy\",\"LockHolder.aggregate\",\"LockLease.findUnique\",\"LockLease.findUniqueOrThrow\",\"LockLease.findFirst\",\"LockLease.findFirstOrThrow\",\"LockLease.findMany\",\"LockLease.createOne\",\"LockLease.createMany\",\"LockLease.createManyAndReturn\",\"LockLease.updateOne\",\"LockLease.updateMany\",\"LockLease.updateManyAndReturn\",\"LockLease.upsertOne\",\"LockLease.deleteOne\",\"LockLease.deleteMany\",\"LockLease.groupBy\",\"LockLease.aggregate\",\"Object.findUnique\",\"Object.findUniqueOrThrow\",\"Object.findFirst\",\"Object.findFirstOrThrow\",\"Object.findMany\",\"Object.createOne\",\"Object.createMany\",\"Object.createManyAndReturn\",\"Object.updateOne\",\"Object.updateMany\",\"Object.updateManyAndReturn\",\"Object.upsertOne\",\"Object.deleteOne\",\"Object.deleteMany\",\"Object.groupBy\",\"Object.aggregate\",\"Project.findUnique\",\"Project.findUniqueOrThrow\",\"Project.findFirst\",\"Project.findFirstOrThrow\",\"Project.findMany\",\"Project.createOne\",\"Project.createMany\",\"Project.createManyAndReturn\",\"Project.updateOne\",\"Project.updateMany\",\"Project.updateManyAndReturn\",\"Project.upsertOne\",\"Project.deleteOne\",\"Project.deleteMany\",\"_avg\",\"_sum\",\"Project.groupBy\",\"Project.aggregate\",\"ProjectSpace.findUnique\",\"ProjectSpace.findUniqueOrThrow\",\"ProjectSpace.findFirst\",\"ProjectSpace.findFirstOrThrow\",\"ProjectSpace.findMany\",\"ProjectSpace.createOne\",\"ProjectSpace.createMany\",\"ProjectSpace.createManyAndReturn\",\"ProjectSpace.updateOne\",\"ProjectSpace.updateMany\",\"ProjectSpace.updateManyAndReturn\",\"ProjectSpace.upsertOne\",\"ProjectSpace.deleteOne\",\"ProjectSpace.deleteMany\",\"ProjectSpace.groupBy\",\"ProjectSpace.aggregate\",\"ProjectModelStorage.findUnique\",\"ProjectModelStorage.findUniqueOrThrow\",\"ProjectModelStorage.findFirst\",\"ProjectModelStorage.findFirstOrThrow\",\"ProjectModelStorage.findMany\",\"ProjectModelStorage.createOne\",\"ProjectModelStorage.createMany\",\"ProjectModelStorage.createManyAndReturn\",\"ProjectModelStorage.updateOne\",\"ProjectModelStorage.updateMany\",\"ProjectModelStorage.updateManyAndReturn\",\"ProjectModelStorage.upsertOne\",\"ProjectModelStorage.deleteOne\",\"ProjectModelStorage.deleteMany\",\"ProjectModelStorage.groupBy\",\"ProjectModelStorage.aggregate\",\"PulumiBackend.findUnique\",\"PulumiBackend.findUniqueOrThrow\",\"PulumiBackend.findFirst\",\"PulumiBackend.findFirstOrThrow\",\"PulumiBackend.findMany\",\"PulumiBackend.createOne\",\"PulumiBackend.createMany\",\"PulumiBackend.createManyAndReturn\",\"PulumiBackend.updateOne\",\"PulumiBackend.updateMany\",\"PulumiBackend.updateManyAndReturn\",\"PulumiBackend.upsertOne\",\"PulumiBackend.deleteOne\",\"PulumiBackend.deleteMany\",\"PulumiBackend.groupBy\",\"PulumiBackend.aggregate\",\"BackendUnlockMethod.findUnique\",\"BackendUnlockMethod.findUniqueOrThrow\",\"BackendUnlockMethod.findFirst\",\"BackendUnlockMethod.findFirstOrThrow\",\"BackendUnlockMethod.findMany\",\"BackendUnlockMethod.createOne\",\"BackendUnlockMethod.createMany\",\"BackendUnlockMethod.createManyAndReturn\",\"BackendUnlockMethod.updateOne\",\"BackendUnlockMethod.updateMany\",\"BackendUnlockMethod.updateManyAndReturn\",\"BackendUnlockMethod.upsertOne\",\"BackendUnlockMethod.deleteOne\",\"BackendUnlockMethod.deleteMany\",\"BackendUnlockMethod.groupBy\",\"BackendUnlockMethod.aggregate\",\"user\",\"sessions\",\"User.findUnique\",\"User.findUniqueOrThrow\",\"User.findFirst\",\"User.findFirstOrThrow\",\"User.findMany\",\"User.createOne\",\"User.createMany\",\"User.createManyAndReturn\",\"User.updateOne\",\"User.updateMany\",\"User.updateManyAndReturn\",\"User.upsertOne\",\"User.deleteOne\",\"User.deleteMany\",\"User.groupBy\",\"User.aggregate\",\"UserSession.findUnique\",\"UserSession.findUniqueOrThrow\",\"UserSession.findFirst\",\"UserSession.findFirstOrThrow\",\"UserSession.findMany\",\"UserSession.createOne\",\"UserSession.createMany\",\"UserSession.createManyAndReturn\",\"UserSession.updateOne\",\"UserSession.updateMany\",\"UserSession.updateManyAndReturn\",\"UserSession.upsertOne\",\"UserSession.deleteOne\",\"UserSession.deleteMany\",\"UserSession.groupBy\",\"UserSession.aggregate\",\"AND\",\"OR\",\"NOT\",\"id\",\"userId\",\"createdAt\",\"expiresAt\",\"equals\",\"in\",\"notIn\",\"lt\",\"lte\",\"gt\",\"gte\",\"not\",\"contains\",\"startsWith\",\"endsWith\",\"username\",\"displayName\",\"email\",\"passwordHash\",\"oidcIssuer\",\"oidcSubject\",\"updatedAt\",\"every\",\"some\",\"none\",\"oidcIssuer_oidcSubject\",\"meta\",\"recipient\",\"string_contains\",\"string_starts_with\",\"string_ends_with\",\"array_starts_with\",\"array_ends_with\",\"array_contains\",\"spec\",\"name\",\"parentId\",\"spaceId\",\"modelStorageId\",\"libraryId\",\"pulumiBackendId\",\"encryptedMasterKey\",\"encryptedPrivateKey\",\"publicKey\",\"unlockSuite\",\"databaseVersion\",\"projectId\",\"id_projectId\",\"key\",\"holderId\",\"acquiredAt\",\"startedAt\",\"layout\",\"sourceProjectId\",\"sourceStateId\",\"contentHash\",\"encryptedContent\",\"parentId_name\",\"spaceId_name\",\"projectId_sourceStateId\",\"is\",\"isNot\",\"connectOrCreate\",\"upsert\",\"createMany\",\"set\",\"disconnect\",\"delete\",\"connect\",\"updateMany\",\"deleteMany\",\"increment\",\"decrement\",\"multiply\",\"divide\"]"),
+  graph: "jwVy0AELDQAAjgMAIA4AAI4DACDrAQAAjQMAMOwBAAAUABDtAQAAjQMAMJwCAQDpAgAhowIBAOkCACGkAgEA6QIAIaUCAQDpAgAhpgIBAOkCACGpAgAAmwMAIAEAAAABACAXBwAAlgMAIAgAAJcDACAJAACYAwAgCgAAmQMAIAsAAJoDACAMAACaAwAg6wEAAJQDADDsAQAAAwAQ7QEAAJQDADDuAQEA6QIAIfABQADrAgAhgwJAAOsCACGIAgAA9AIAIJECAQDpAgAhkwIBAOkCACGUAgEA6QIAIZUCAQDpAgAhlgIBAOkCACGXAgEA6QIAIZgCAQDqAgAhmQIBAOoCACGaAgAA9AIAIJsCAgCVAwAhCAcAANQEACAIAADWBAAgCQAA1wQAIAoAANgEACALAADZBAAgDAAA2QQAIJgCAACjAwAgmQIAAKMDACAYBwAAlgMAIAgAAJcDACAJAACYAwAgCgAAmQMAIAsAAJoDACAMAACaAwAg6wEAAJQDADDsAQAAAwAQ7QEAAJQDADDuAQEAAAAB8AFAAOsCACGDAkAA6wIAIYgCAAD0AgAgkQIBAOkCACGTAgEA6QIAIZQCAQDpAgAhlQIBAOkCACGWAgEA6QIAIZcCAQDpAgAhmAIBAOoCACGZAgEA6gIAIZoCAAD0AgAgmwICAJUDACGoAgAAkwMAIAMAAAADACABAAAEADACAAAFACAKAwAA9wIAIAQAAJEDACAFAACSAwAg6wEAAJADADDsAQAABwAQ7QEAAJADADDuAQEA6QIAIYgCAAD0AgAgkQIBAOoCACGSAgEA6gIAIQEAAAAHACAFAwAA8AMAIAQAANQEACAFAADVBAAgkQIAAKMDACCSAgAAowMAIAsDAAD3AgAgBAAAkQMAIAUAAJIDACDrAQAAkAMAMOwBAAAHABDtAQAAkAMAMO4BAQAAAAGIAgAA9AIAIJECAQDqAgAhkgIBAOoCACGnAgAAjwMAIAMAAAAHACABAAAJADACAAAKACABAAAAAwAgAQAAAAcAIAMAAAADACABAAAEADACAAAFACABAAAAAwAgAwAAAAMAIAEAAAQAMAIAAAUAIAEAAAADACADAAAAAwAgAQAABAAwAgAABQAgAQAAAAMAIAoNAACOAwAgDgAAjgMAIOsBAACNAwAw7AEAABQAEO0BAACNAwAwnAIBAOkCACGjAgEA6QIAIaQCAQDpAgAhpQIBAOkCACGmAgEA6QIAIQINAADTBAAgDgAA0wQAIAMAAAAUACABAAAVADACAAABACADAAAAFAAgAQAAFQAwAgAAAQAgAQAAABQAIAEAAAAUACABAAAAAQAgAwAAABQAIAEAABUAMAIAAAEAIAMAAAAUACABAAAVADACAAABACADAAAAFAAgAQAAFQAwAgAAAQAgBw0AAN0DACAOAADoAwAgnAIBAAAAAaMCAQAAAAGkAgEAAAABpQIBAAAAAaYCAQAAAAEBFAAAHgAgBZwCAQAAAAGjAgEAAAABpAIBAAAAAaUCAQAAAAGmAgEAAAABARQAACAAMAEUAAAgADAHDQAA2wMAIA4AAOYDACCcAgEAnwMAIaMCAQCfAwAhpAIBAJ8DACGlAgEAnwMAIaYCAQCfAwAhAgAAAAEAIBQAACMAIAWcAgEAnwMAIaMCAQCfAwAhpAIBAJ8DACGlAgEAnwMAIaYCAQCfAwAhAgAAABQAIBQAACUAIAIAAAAUACAUAAAlACADAAAAAQAgGwAAHgAgHAAAIwAgAQAAAAEAIAEAAAAUACADBgAA0AQAICEAANIEACAiAADRBAAgCOsBAACMAwAw7AEAACwAEO0BAACMAwAwnAIBANwCACGjAgEA3AIAIaQCAQDcAgAhpQIBANwCACGmAgEA3AIAIQMAAAAUACABAAArADAgAAAsACADAAAAFAAgAQAAFQAwAgAAAQAgBesBAACLAwAw7AEAADIAEO0BAACLAwAw7wEBAAAAAaICAAD0AgAgAQAAAC8AIAEAAAAvACAF6wEAAIsDADDsAQAAMgAQ7QEAAIsDADDvAQEA6QIAIaICAAD0AgAgAAMAAAAyACABAAAzADACAAAvACADAAAAMgAgAQAAMwAwAgAALwAgAwAAADIAIAEAADMAMAIAAC8AIALvAQEAAAABogKAAAAAAQEUAAA3ACAC7wEBAAAAAaICgAAAAAEBFAAAOQAwARQAADkAMALvAQEAnwMAIaICgAAAAAECAAAALwAgFAAAPAAgAu8BAQCfAwAhogKAAAAAAQIAAAAyACAUAAA-ACACAAAAMgAgFAAAPgAgAwAAAC8AIBsAADcAIBwAADwAIAEAAAAvACABAAAAMgAgAwYAAM0EACAhAADPBAAgIgAAzgQAIAXrAQAAigMAMOwBAABFABDtAQAAigMAMO8BAQDcAgAhogIAAPECACADAAAAMgAgAQAARAAwIAAARQAgAwAAADIAIAEAADMAMAIAAC8AIAcDAAD3AgAg6wEAAIkDADDsAQAASwAQ7QEAAIkDADDuAQEAAAABiAIAAPQCACCQAgAA9AIAIAEAAABIACABAAAASAAgBwMAAPcCACDrAQAAiQMAMOwBAABLABDtAQAAiQMAMO4BAQDpAgAhiAIAAPQCACCQAgAA9AIAIAEDAADwAwAgAwAAAEsAIAEAAEwAMAIAAEgAIAMAAABLACABAABMADACAABIACADAAAASwAgAQAATAAwAgAASAAgBAMAAMwEACDuAQEAAAABiAKAAAAAAZACgAAAAAEBFAAAUAAgA-4BAQAAAAGIAoAAAAABkAKAAAAAAQEUAABSADABFAAAUgAwBAMAAMIEACDuAQEAnwMAIYgCgAAAAAGQAoAAAAABAgAAAEgAIBQAAFUAIAPuAQEAnwMAIYgCgAAAAAGQAoAAAAABAgAAAEsAIBQAAFcAIAIAAABLACAUAABXACADAAAASAAgGwAAUAAgHAAAVQAgAQAAAEgAIAEAAABLACADBgAAvwQAICEAAMEEACAiAADABAAgBusBAACIAwAw7AEAAF4AEO0BAACIAwAw7gEBANwCACGIAgAA8QIAIJACAADxAgAgAwAAAEsAIAEAAF0AMCAAAF4AIAMAAABLACABAABMADACAABIACAHRgAAhQMAIOsBAACEAwAw7AEAAGkAEO0BAACEAwAw7gEBAAAAAfEBQADrAgAhoQJAAOsCACEBAAAAYQAgB0UAAIcDACDrAQAAhgMAMOwBAABjABDtAQAAhgMAMJ4CAQDpAgAhnwIBAOkCACGgAkAA6wIAIQFFAAC-BAAgB0UAAIcDACDrAQAAhgMAMOwBAABjABDtAQAAhgMAMJ4CAQAAAAGfAgEA6QIAIaACQADrAgAhAwAAAGMAIAEAAGQAMAIAAGUAIAEAAABjACABAAAAYQAgB0YAAIUDACDrAQAAhAMAMOwBAABpABDtAQAAhAMAMO4BAQDpAgAh8QFAAOsCACGhAkAA6wIAIQFGAAC9BAAgAwAAAGkAIAEAAGoAMAIAAGEAIAMAAABpACABAABqADACAABhACADAAAAaQAgAQAAagAwAgAAYQAgBEYAALwEACDuAQEAAAAB8QFAAAAAAaECQAAAAAEBFAAAbgAgA-4BAQAAAAHxAUAAAAABoQJAAAAAAQEUAABwADABFAAAcAAwBEYAAK8EACDuAQEAnwMAIfEBQACgAwAhoQJAAKADACECAAAAYQAgFAAAcwAgA-4BAQCfAwAh8QFAAKADACGhAkAAoAMAIQIAAABpACAUAAB1ACACAAAAaQAgFAAAdQAgAwAAAGEAIBsAAG4AIBwAAHMAIAEAAABhACABAAAAaQAgAwYAAKwEACAhAACuBAAgIgAArQQAIAbrAQAAgwMAMOwBAAB8ABDtAQAAgwMAMO4BAQDcAgAh8QFAAN0CACGhAkAA3QIAIQMAAABpACABAAB7ADAgAAB8ACADAAAAaQAgAQAAagAwAgAAYQAgAQAAAGUAIAEAAABlACADAAAAYwAgAQAAZAAwAgAAZQAgAwAAAGMAIAEAAGQAMAIAAGUAIAMAAABjACABAABkADACAABlACAERQAAqwQAIJ4CAQAAAAGfAgEAAAABoAJAAAAAAQEUAACEAQAgA54CAQAAAAGfAgEAAAABoAJAAAAAAQEUAACGAQAwARQAAIYBADAERQAAqgQAIJ4CAQCfAwAhnwIBAJ8DACGgAkAAoAMAIQIAAABlACAUAACJAQAgA54CAQCfAwAhnwIBAJ8DACGgAkAAoAMAIQIAAABjACAUAACLAQAgAgAAAGMAIBQAAIsBACADAAAAZQAgGwAAhAEAIBwAAIkBACABAAAAZQAgAQAAAGMAIAMGAACnBAAgIQAAqQQAICIAAKgEACAG6wEAAIIDADDsAQAAkgEAEO0BAACCAwAwngIBANwCACGfAgEA3AIAIaACQADdAgAhAwAAAGMAIAEAAJEBADAgAACSAQAgAwAAAGMAIAEAAGQAMAIAAGUAIAbrAQAAgAMAMOwBAACYAQAQ7QEAAIADADDuAQEA6QIAIZwCAQDpAgAhnQIAAIEDACABAAAAlQEAIAEAAACVAQAgBesBAACAAwAw7AEAAJgBABDtAQAAgAMAMO4BAQDpAgAhnAIBAOkCACEAAwAAAJgBACABAACZAQAwAgAAlQEAIAMAAACYAQAgAQAAmQEAMAIAAJUBACADAAAAmAEAIAEAAJkBADACAACVAQAgAu4BAQAAAAGcAgEAAAABARQAAJ0BACAC7gEBAAAAAZwCAQAAAAEBFAAAnwEAMAEUAACfAQAwAu4BAQCfAwAhnAIBAJ8DACECAAAAlQEAIBQAAKIBACAC7gEBAJ8DACGcAgEAnwMAIQIAAACYAQAgFAAApAEAIAIAAACYAQAgFAAApAEAIAMAAACVAQAgGwAAnQEAIBwAAKIBACABAAAAlQEAIAEAAACYAQAgAwYAAKQEACAhAACmBAAgIgAApQQAIAXrAQAA_wIAMOwBAACrAQAQ7QEAAP8CADDuAQEA3AIAIZwCAQDcAgAhAwAAAJgBACABAACqAQAwIAAAqwEAIAMAAACYAQAgAQAAmQEAMAIAAJUBACABAAAABQAgAQAAAAUAIAMAAAADACABAAAEADACAAAFACADAAAAAwAgAQAABAAwAgAABQAgAwAAAAMAIAEAAAQAMAIAAAUAIBQHAADqAwAgCAAA6wMAIAkAAOwDACAKAAD_AwAgCwAA7QMAIAwAAO4DACDuAQEAAAAB8AFAAAAAAYMCQAAAAAGIAoAAAAABkQIBAAAAAZMCAQAAAAGUAgEAAAABlQIBAAAAAZYCAQAAAAGXAgEAAAABmAIBAAAAAZkCAQAAAAGaAoAAAAABmwICAAAAAQEUAACzAQAgDu4BAQAAAAHwAUAAAAABgwJAAAAAAYgCgAAAAAGRAgEAAAABkwIBAAAAAZQCAQAAAAGVAgEAAAABlgIBAAAAAZcCAQAAAAGYAgEAAAABmQIBAAAAAZoCgAAAAAGbAgIAAAABARQAALUBADABFAAAtQEAMBQHAADLAwAgCAAAzAMAIAkAAM0DACAKAAD9AwAgCwAAzgMAIAwAAM8DACDuAQEAnwMAIfABQACgAwAhgwJAAKADACGIAoAAAAABkQIBAJ8DACGTAgEAnwMAIZQCAQCfAwAhlQIBAJ8DACGWAgEAnwMAIZcCAQCfAwAhmAIBAKcDACGZAgEApwMAIZoCgAAAAAGbAgIAyQMAIQIAAAAFACAUAAC4AQAgDu4BAQCfAwAh8AFAAKADACGDAkAAoAMAIYgCgAAAAAGRAgEAnwMAIZMCAQCfAwAhlAIBAJ8DACGVAgEAnwMAIZYCAQCfAwAhlwIBAJ8DACGYAgEApwMAIZkCAQCnAwAhmgKAAAAAAZsCAgDJAwAhAgAAAAMAIBQAALoBACACAAAAAwAgFAAAugEAIAMAAAAFACAbAACzAQAgHAAAuAEAIAEAAAAFACABAAAAAwAgBwYAAJ8EACAhAACiBAAgIgAAoQQAIIUBAACgBAAghgEAAKMEACCYAgAAowMAIJkCAACjAwAgEesBAAD7AgAw7AEAAMEBABDtAQAA-wIAMO4BAQDcAgAh8AFAAN0CACGDAkAA3QIAIYgCAADxAgAgkQIBANwCACGTAgEA3AIAIZQCAQDcAgAhlQIBANwCACGWAgEA3AIAIZcCAQDcAgAhmAIBAOQCACGZAgEA5AIAIZoCAADxAgAgmwICAPwCACEDAAAAAwAgAQAAwAEAMCAAAMEBACADAAAAAwAgAQAABAAwAgAABQAgAQAAAAoAIAEAAAAKACADAAAABwAgAQAACQAwAgAACgAgAwAAAAcAIAEAAAkAMAIAAAoAIAMAAAAHACABAAAJADACAAAKACAHAwAAkwQAIAQAAJ4EACAFAACUBAAg7gEBAAAAAYgCgAAAAAGRAgEAAAABkgIBAAAAAQEUAADJAQAgBO4BAQAAAAGIAoAAAAABkQIBAAAAAZICAQAAAAEBFAAAywEAMAEUAADLAQAwAQAAAAcAIAcDAACEBAAgBAAAhQQAIAUAAIYEACDuAQEAnwMAIYgCgAAAAAGRAgEApwMAIZICAQCnAwAhAgAAAAoAIBQAAM8BACAE7gEBAJ8DACGIAoAAAAABkQIBAKcDACGSAgEApwMAIQIAAAAHACAUAADRAQAgAgAAAAcAIBQAANEBACABAAAABwAgAwAAAAoAIBsAAMkBACAcAADPAQAgAQAAAAoAIAEAAAAHACAFBgAAgQQAICEAAIMEACAiAACCBAAgkQIAAKMDACCSAgAAowMAIAfrAQAA-gIAMOwBAADZAQAQ7QEAAPoCADDuAQEA3AIAIYgCAADxAgAgkQIBAOQCACGSAgEA5AIAIQMAAAAHACABAADYAQAwIAAA2QEAIAMAAAAHACABAAAJADACAAAKACAHAwAA9wIAIOsBAAD5AgAw7AEAAN8BABDtAQAA-QIAMO4BAQAAAAGIAgAA9AIAIJACAAD0AgAgAQAAANwBACABAAAA3AEAIAcDAAD3AgAg6wEAAPkCADDsAQAA3wEAEO0BAAD5AgAw7gEBAOkCACGIAgAA9AIAIJACAAD0AgAgAQMAAPADACADAAAA3wEAIAEAAOABADACAADcAQAgAwAAAN8BACABAADgAQAwAgAA3AEAIAMAAADfAQAgAQAA4AEAMAIAANwBACAEAwAAgAQAIO4BAQAAAAGIAoAAAAABkAKAAAAAAQEUAADkAQAgA-4BAQAAAAGIAoAAAAABkAKAAAAAAQEUAADmAQAwARQAAOYBADAEAwAA9AMAIO4BAQCfAwAhiAKAAAAAAZACgAAAAAECAAAA3AEAIBQAAOkBACAD7gEBAJ8DACGIAoAAAAABkAKAAAAAAQIAAADfAQAgFAAA6wEAIAIAAADfAQAgFAAA6wEAIAMAAADcAQAgGwAA5AEAIBwAAOkBACABAAAA3AEAIAEAAADfAQAgAwYAAPEDACAhAADzAwAgIgAA8gMAIAbrAQAA-AIAMOwBAADyAQAQ7QEAAPgCADDuAQEA3AIAIYgCAADxAgAgkAIAAPECACADAAAA3wEAIAEAAPEBADAgAADyAQAgAwAAAN8BACABAADgAQAwAgAA3AEAIAcDAAD3AgAg6wEAAPYCADDsAQAA-AEAEO0BAAD2AgAw7gEBAAAAAYgCAAD0AgAgkAIAAPQCACABAAAA9QEAIAEAAAD1AQAgBwMAAPcCACDrAQAA9gIAMOwBAAD4AQAQ7QEAAPYCADDuAQEA6QIAIYgCAAD0AgAgkAIAAPQCACABAwAA8AMAIAMAAAD4AQAgAQAA-QEAMAIAAPUBACADAAAA-AEAIAEAAPkBADACAAD1AQAgAwAAAPgBACABAAD5AQAwAgAA9QEAIAQDAADvAwAg7gEBAAAAAYgCgAAAAAGQAoAAAAABARQAAP0BACAD7gEBAAAAAYgCgAAAAAGQAoAAAAABARQAAP8BADABFAAA_wEAMAQDAAC-AwAg7gEBAJ8DACGIAoAAAAABkAKAAAAAAQIAAAD1AQAgFAAAggIAIAPuAQEAnwMAIYgCgAAAAAGQAoAAAAABAgAAAPgBACAUAACEAgAgAgAAAPgBACAUAACEAgAgAwAAAPUBACAbAAD9AQAgHAAAggIAIAEAAAD1AQAgAQAAAPgBACADBgAAuwMAICEAAL0DACAiAAC8AwAgBusBAAD1AgAw7AEAAIsCABDtAQAA9QIAMO4BAQDcAgAhiAIAAPECACCQAgAA8QIAIAMAAAD4AQAgAQAAigIAMCAAAIsCACADAAAA-AEAIAEAAPkBADACAAD1AQAgCOsBAADzAgAw7AEAAJECABDtAQAA8wIAMO4BAQAAAAHwAUAA6wIAIYMCQADrAgAhiAIAAPQCACCJAgEAAAABAQAAAI4CACABAAAAjgIAIAjrAQAA8wIAMOwBAACRAgAQ7QEAAPMCADDuAQEA6QIAIfABQADrAgAhgwJAAOsCACGIAgAA9AIAIIkCAQDpAgAhAAMAAACRAgAgAQAAkgIAMAIAAI4CACADAAAAkQIAIAEAAJICADACAACOAgAgAwAAAJECACABAACSAgAwAgAAjgIAIAXuAQEAAAAB8AFAAAAAAYMCQAAAAAGIAoAAAAABiQIBAAAAAQEUAACWAgAgBe4BAQAAAAHwAUAAAAABgwJAAAAAAYgCgAAAAAGJAgEAAAABARQAAJgCADABFAAAmAIAMAXuAQEAnwMAIfABQACgAwAhgwJAAKADACGIAoAAAAABiQIBAJ8DACECAAAAjgIAIBQAAJsCACAF7gEBAJ8DACHwAUAAoAMAIYMCQACgAwAhiAKAAAAAAYkCAQCfAwAhAgAAAJECACAUAACdAgAgAgAAAJECACAUAACdAgAgAwAAAI4CACAbAACWAgAgHAAAmwIAIAEAAACOAgAgAQAAAJECACADBgAAuAMAICEAALoDACAiAAC5AwAgCOsBAADwAgAw7AEAAKQCABDtAQAA8AIAMO4BAQDcAgAh8AFAAN0CACGDAkAA3QIAIYgCAADxAgAgiQIBANwCACEDAAAAkQIAIAEAAKMCADAgAACkAgAgAwAAAJECACABAACSAgAwAgAAjgIAIA7KAQAA7AIAIOsBAADoAgAw7AEAAK8CABDtAQAA6AIAMO4BAQAAAAHwAUAA6wIAIf0BAQAAAAH-AQEA6gIAIf8BAQDqAgAhgAIBAOoCACGBAgEA6gIAIYICAQDqAgAhgwJAAOsCACGHAgAA7wIAIAEAAACnAgAgCMkBAADuAgAg6wEAAO0CADDsAQAAqQIAEO0BAADtAgAw7gEBAOkCACHvAQEA6QIAIfABQADrAgAh8QFAAOsCACEByQEAALcDACAIyQEAAO4CACDrAQAA7QIAMOwBAACpAgAQ7QEAAO0CADDuAQEAAAAB7wEBAOkCACHwAUAA6wIAIfEBQADrAgAhAwAAAKkCACABAACqAgAwAgAAqwIAIAEAAACpAgAgAQAAAKcCACANygEAAOwCACDrAQAA6AIAMOwBAACvAgAQ7QEAAOgCADDuAQEA6QIAIfABQADrAgAh_QEBAOoCACH-AQEA6gIAIf8BAQDqAgAhgAIBAOoCACGBAgEA6gIAIYICAQDqAgAhgwJAAOsCACEHygEAALYDACD9AQAAowMAIP4BAACjAwAg_wEAAKMDACCAAgAAowMAIIECAACjAwAgggIAAKMDACADAAAArwIAIAEAALACADACAACnAgAgAwAAAK8CACABAACwAgAwAgAApwIAIAMAAACvAgAgAQAAsAIAMAIAAKcCACAKygEAALUDACDuAQEAAAAB8AFAAAAAAf0BAQAAAAH-AQEAAAAB_wEBAAAAAYACAQAAAAGBAgEAAAABggIBAAAAAYMCQAAAAAEBFAAAtAIAIAnuAQEAAAAB8AFAAAAAAf0BAQAAAAH-AQEAAAAB_wEBAAAAAYACAQAAAAGBAgEAAAABggIBAAAAAYMCQAAAAAEBFAAAtgIAMAEUAAC2AgAwCsoBAACoAwAg7gEBAJ8DACHwAUAAoAMAIf0BAQCnAwAh_gEBAKcDACH_AQEApwMAIYACAQCnAwAhgQIBAKcDACGCAgEApwMAIYMCQACgAwAhAgAAAKcCACAUAAC5AgAgCe4BAQCfAwAh8AFAAKADACH9AQEApwMAIf4BAQCnAwAh_wEBAKcDACGAAgEApwMAIYECAQCnAwAhggIBAKcDACGDAkAAoAMAIQIAAACvAgAgFAAAuwIAIAIAAACvAgAgFAAAuwIAIAMAAACnAgAgGwAAtAIAIBwAALkCACABAAAApwIAIAEAAACvAgAgCQYAAKQDACAhAACmAwAgIgAApQMAIP0BAACjAwAg_gEAAKMDACD_AQAAowMAIIACAACjAwAggQIAAKMDACCCAgAAowMAIAzrAQAA4wIAMOwBAADCAgAQ7QEAAOMCADDuAQEA3AIAIfABQADdAgAh_QEBAOQCACH-AQEA5AIAIf8BAQDkAgAhgAIBAOQCACGBAgEA5AIAIYICAQDkAgAhgwJAAN0CACEDAAAArwIAIAEAAMECADAgAADCAgAgAwAAAK8CACABAACwAgAwAgAApwIAIAEAAACrAgAgAQAAAKsCACADAAAAqQIAIAEAAKoCADACAACrAgAgAwAAAKkCACABAACqAgAwAgAAqwIAIAMAAACpAgAgAQAAqgIAMAIAAKsCACAFyQEAAKIDACDuAQEAAAAB7wEBAAAAAfABQAAAAAHxAUAAAAABARQAAMoCACAE7gEBAAAAAe8BAQAAAAHwAUAAAAAB8QFAAAAAAQEUAADMAgAwARQAAMwCADAFyQEAAKEDACDuAQEAnwMAIe8BAQCfAwAh8AFAAKADACHxAUAAoAMAIQIAAACrAgAgFAAAzwIAIATuAQEAnwMAIe8BAQCfAwAh8AFAAKADACHxAUAAoAMAIQIAAACpAgAgFAAA0QIAIAIAAACpAgAgFAAA0QIAIAMAAACrAgAgGwAAygIAIBwAAM8CACABAAAAqwIAIAEAAACpAgAgAwYAAJwDACAhAACeAwAgIgAAnQMAIAfrAQAA2wIAMOwBAADYAgAQ7QEAANsCADDuAQEA3AIAIe8BAQDcAgAh8AFAAN0CACHxAUAA3QIAIQMAAACpAgAgAQAA1wIAMCAAANgCACADAAAAqQIAIAEAAKoCADACAACrAgAgB-sBAADbAgAw7AEAANgCABDtAQAA2wIAMO4BAQDcAgAh7wEBANwCACHwAUAA3QIAIfEBQADdAgAhDgYAAN8CACAhAADiAgAgIgAA4gIAIPIBAQAAAAHzAQEAAAAE9AEBAAAABPUBAQAAAAH2AQEAAAAB9wEBAAAAAfgBAQAAAAH5AQEA4QIAIfoBAQAAAAH7AQEAAAAB_AEBAAAAAQsGAADfAgAgIQAA4AIAICIAAOACACDyAUAAAAAB8wFAAAAABPQBQAAAAAT1AUAAAAAB9gFAAAAAAfcBQAAAAAH4AUAAAAAB-QFAAN4CACELBgAA3wIAICEAAOACACAiAADgAgAg8gFAAAAAAfMBQAAAAAT0AUAAAAAE9QFAAAAAAfYBQAAAAAH3AUAAAAAB-AFAAAAAAfkBQADeAgAhCPIBAgAAAAHzAQIAAAAE9AECAAAABPUBAgAAAAH2AQIAAAAB9wECAAAAAfgBAgAAAAH5AQIA3wIAIQjyAUAAAAAB8wFAAAAABPQBQAAAAAT1AUAAAAAB9gFAAAAAAfcBQAAAAAH4AUAAAAAB-QFAAOACACEOBgAA3wIAICEAAOICACAiAADiAgAg8gEBAAAAAfMBAQAAAAT0AQEAAAAE9QEBAAAAAfYBAQAAAAH3AQEAAAAB-AEBAAAAAfkBAQDhAgAh-gEBAAAAAfsBAQAAAAH8AQEAAAABC_IBAQAAAAHzAQEAAAAE9AEBAAAABPUBAQAAAAH2AQEAAAAB9wEBAAAAAfgBAQAAAAH5AQEA4gIAIfoBAQAAAAH7AQEAAAAB_AEBAAAAAQzrAQAA4wIAMOwBAADCAgAQ7QEAAOMCADDuAQEA3AIAIfABQADdAgAh_QEBAOQCACH-AQEA5AIAIf8BAQDkAgAhgAIBAOQCACGBAgEA5AIAIYICAQDkAgAhgwJAAN0CACEOBgAA5gIAICEAAOcCACAiAADnAgAg8gEBAAAAAfMBAQAAAAX0AQEAAAAF9QEBAAAAAfYBAQAAAAH3AQEAAAAB-AEBAAAAAfkBAQDlAgAh-gEBAAAAAfsBAQAAAAH8AQEAAAABDgYAAOYCACAhAADnAgAgIgAA5wIAIPIBAQAAAAHzAQEAAAAF9AEBAAAABfUBAQAAAAH2AQEAAAAB9wEBAAAAAfgBAQAAAAH5AQEA5QIAIfoBAQAAAAH7AQEAAAAB_AEBAAAAAQjyAQIAAAAB8wECAAAABfQBAgAAAAX1AQIAAAAB9gECAAAAAfcBAgAAAAH4AQIAAAAB-QECAOYCACEL8gEBAAAAAfMBAQAAAAX0AQEAAAAF9QEBAAAAAfYBAQAAAAH3AQEAAAAB-AEBAAAAAfkBAQDnAgAh-gEBAAAAAfsBAQAAAAH8AQEAAAABDcoBAADsAgAg6wEAAOgCADDsAQAArwIAEO0BAADoAgAw7gEBAOkCACHwAUAA6wIAIf0BAQDqAgAh_gEBAOoCACH_AQEA6gIAIYACAQDqAgAhgQIBAOoCACGCAgEA6gIAIYMCQADrAgAhC_IBAQAAAAHzAQEAAAAE9AEBAAAABPUBAQAAAAH2AQEAAAAB9wEBAAAAAfgBAQAAAAH5AQEA4gIAIfoBAQAAAAH7AQEAAAAB_AEBAAAAAQvyAQEAAAAB8wEBAAAABfQBAQAAAAX1AQEAAAAB9gEBAAAAAfcBAQAAAAH4AQEAAAAB-QEBAOcCACH6AQEAAAAB-wEBAAAAAfwBAQAAAAEI8gFAAAAAAfMBQAAAAAT0AUAAAAAE9QFAAAAAAfYBQAAAAAH3AUAAAAAB-AFAAAAAAfkBQADgAgAhA4QCAACpAgAghQIAAKkCACCGAgAAqQIAIAjJAQAA7gIAIOsBAADtAgAw7AEAAKkCABDtAQAA7QIAMO4BAQDpAgAh7wEBAOkCACHwAUAA6wIAIfEBQADrAgAhD8oBAADsAgAg6wEAAOgCADDsAQAArwIAEO0BAADoAgAw7gEBAOkCACHwAUAA6wIAIf0BAQDqAgAh_gEBAOoCACH_AQEA6gIAIYACAQDqAgAhgQIBAOoCACGCAgEA6gIAIYMCQADrAgAhqgIAAK8CACCrAgAArwIAIAKBAgEAAAABggIBAAAAAQjrAQAA8AIAMOwBAACkAgAQ7QEAAPACADDuAQEA3AIAIfABQADdAgAhgwJAAN0CACGIAgAA8QIAIIkCAQDcAgAhDwYAAN8CACAhAADyAgAgIgAA8gIAIPIBgAAAAAH1AYAAAAAB9gGAAAAAAfcBgAAAAAH4AYAAAAAB-QGAAAAAAYoCAQAAAAGLAgEAAAABjAIBAAAAAY0CgAAAAAGOAoAAAAABjwKAAAAAAQzyAYAAAAAB9QGAAAAAAfYBgAAAAAH3AYAAAAAB-AGAAAAAAfkBgAAAAAGKAgEAAAABiwIBAAAAAYwCAQAAAAGNAoAAAAABjgKAAAAAAY8CgAAAAAEI6wEAAPMCADDsAQAAkQIAEO0BAADzAgAw7gEBAOkCACHwAUAA6wIAIYMCQADrAgAhiAIAAPQCACCJAgEA6QIAIQzyAYAAAAAB9QGAAAAAAfYBgAAAAAH3AYAAAAAB-AGAAAAAAfkBgAAAAAGKAgEAAAABiwIBAAAAAYwCAQAAAAGNAoAAAAABjgKAAAAAAY8CgAAAAAEG6wEAAPUCADDsAQAAiwIAEO0BAAD1AgAw7gEBANwCACGIAgAA8QIAIJACAADxAgAgBwMAAPcCACDrAQAA9gIAMOwBAAD4AQAQ7QEAAPYCADDuAQEA6QIAIYgCAAD0AgAgkAIAAPQCACADhAIAAAMAIIUCAAADACCGAgAAAwAgBusBAAD4AgAw7AEAAPIBABDtAQAA-AIAMO4BAQDcAgAhiAIAAPECACCQAgAA8QIAIAcDAAD3AgAg6wEAAPkCADDsAQAA3wEAEO0BAAD5AgAw7gEBAOkCACGIAgAA9AIAIJACAAD0AgAgB-sBAAD6AgAw7AEAANkBABDtAQAA-gIAMO4BAQDcAgAhiAIAAPECACCRAgEA5AIAIZICAQDkAgAhEesBAAD7AgAw7AEAAMEBABDtAQAA-wIAMO4BAQDcAgAh8AFAAN0CACGDAkAA3QIAIYgCAADxAgAgkQIBANwCACGTAgEA3AIAIZQCAQDcAgAhlQIBANwCACGWAgEA3AIAIZcCAQDcAgAhmAIBAOQCACGZAgEA5AIAIZoCAADxAgAgmwICAPwCACENBgAA3wIAICEAAN8CACAiAADfAgAghQEAAP4CACCGAQAA3wIAIPIBAgAAAAHzAQIAAAAE9AECAAAABPUBAgAAAAH2AQIAAAAB9wECAAAAAfgBAgAAAAH5AQIA_QIAIQ0GAADfAgAgIQAA3wIAICIAAN8CACCFAQAA_gIAIIYBAADfAgAg8gECAAAAAfMBAgAAAAT0AQIAAAAE9QECAAAAAfYBAgAAAAH3AQIAAAAB-AECAAAAAfkBAgD9AgAhCPIBCAAAAAHzAQgAAAAE9AEIAAAABPUBCAAAAAH2AQgAAAAB9wEIAAAAAfgBCAAAAAH5AQgA_gIAIQXrAQAA_wIAMOwBAACrAQAQ7QEAAP8CADDuAQEA3AIAIZwCAQDcAgAhBesBAACAAwAw7AEAAJgBABDtAQAAgAMAMO4BAQDpAgAhnAIBAOkCACEC7gEBAAAAAZwCAQAAAAEG6wEAAIIDADDsAQAAkgEAEO0BAACCAwAwngIBANwCACGfAgEA3AIAIaACQADdAgAhBusBAACDAwAw7AEAAHwAEO0BAACDAwAw7gEBANwCACHxAUAA3QIAIaECQADdAgAhB0YAAIUDACDrAQAAhAMAMOwBAABpABDtAQAAhAMAMO4BAQDpAgAh8QFAAOsCACGhAkAA6wIAIQOEAgAAYwAghQIAAGMAIIYCAABjACAHRQAAhwMAIOsBAACGAwAw7AEAAGMAEO0BAACGAwAwngIBAOkCACGfAgEA6QIAIaACQADrAgAhCUYAAIUDACDrAQAAhAMAMOwBAABpABDtAQAAhAMAMO4BAQDpAgAh8QFAAOsCACGhAkAA6wIAIaoCAABpACCrAgAAaQAgBusBAACIAwAw7AEAAF4AEO0BAACIAwAw7gEBANwCACGIAgAA8QIAIJACAADxAgAgBwMAAPcCACDrAQAAiQMAMOwBAABLABDtAQAAiQMAMO4BAQDpAgAhiAIAAPQCACCQAgAA9AIAIAXrAQAAigMAMOwBAABFABDtAQAAigMAMO8BAQDcAgAhogIAAPECACAF6wEAAIsDADDsAQAAMgAQ7QEAAIsDADDvAQEA6QIAIaICAAD0AgAgCOsBAACMAwAw7AEAACwAEO0BAACMAwAwnAIBANwCACGjAgEA3AIAIaQCAQDcAgAhpQIBANwCACGmAgEA3AIAIQoNAACOAwAgDgAAjgMAIOsBAACNAwAw7AEAABQAEO0BAACNAwAwnAIBAOkCACGjAgEA6QIAIaQCAQDpAgAhpQIBAOkCACGmAgEA6QIAIRkHAACWAwAgCAAAlwMAIAkAAJgDACAKAACZAwAgCwAAmgMAIAwAAJoDACDrAQAAlAMAMOwBAAADABDtAQAAlAMAMO4BAQDpAgAh8AFAAOsCACGDAkAA6wIAIYgCAAD0AgAgkQIBAOkCACGTAgEA6QIAIZQCAQDpAgAhlQIBAOkCACGWAgEA6QIAIZcCAQDpAgAhmAIBAOoCACGZAgEA6gIAIZoCAAD0AgAgmwICAJUDACGqAgAAAwAgqwIAAAMAIAKRAgEAAAABkgIBAAAAAQoDAAD3AgAgBAAAkQMAIAUAAJIDACDrAQAAkAMAMOwBAAAHABDtAQAAkAMAMO4BAQDpAgAhiAIAAPQCACCRAgEA6gIAIZICAQDqAgAhDAMAAPcCACAEAACRAwAgBQAAkgMAIOsBAACQAwAw7AEAAAcAEO0BAACQAwAw7gEBAOkCACGIAgAA9AIAIJECAQDqAgAhkgIBAOoCACGqAgAABwAgqwIAAAcAIAOEAgAABwAghQIAAAcAIIYCAAAHACACkQIBAAAAAZMCAQAAAAEXBwAAlgMAIAgAAJcDACAJAACYAwAgCgAAmQMAIAsAAJoDACAMAACaAwAg6wEAAJQDADDsAQAAAwAQ7QEAAJQDADDuAQEA6QIAIfABQADrAgAhgwJAAOsCACGIAgAA9AIAIJECAQDpAgAhkwIBAOkCACGUAgEA6QIAIZUCAQDpAgAhlgIBAOkCACGXAgEA6QIAIZgCAQDqAgAhmQIBAOoCACGaAgAA9AIAIJsCAgCVAwAhCPIBAgAAAAHzAQIAAAAE9AECAAAABPUBAgAAAAH2AQIAAAAB9wECAAAAAfgBAgAAAAH5AQIA3wIAIQwDAAD3AgAgBAAAkQMAIAUAAJIDACDrAQAAkAMAMOwBAAAHABDtAQAAkAMAMO4BAQDpAgAhiAIAAPQCACCRAgEA6gIAIZICAQDqAgAhqgIAAAcAIKsCAAAHACAJAwAA9wIAIOsBAAD5AgAw7AEAAN8BABDtAQAA-QIAMO4BAQDpAgAhiAIAAPQCACCQAgAA9AIAIKoCAADfAQAgqwIAAN8BACAJAwAA9wIAIOsBAACJAwAw7AEAAEsAEO0BAACJAwAw7gEBAOkCACGIAgAA9AIAIJACAAD0AgAgqgIAAEsAIKsCAABLACAJAwAA9wIAIOsBAAD2AgAw7AEAAPgBABDtAQAA9gIAMO4BAQDpAgAhiAIAAPQCACCQAgAA9AIAIKoCAAD4AQAgqwIAAPgBACADhAIAABQAIIUCAAAUACCGAgAAFAAgApwCAQAAAAGkAgEAAAABAAAAAa8CAQAAAAEBrwJAAAAAAQUbAACLBQAgHAAAjgUAIKwCAACMBQAgrQIAAI0FACCyAgAApwIAIAMbAACLBQAgrAIAAIwFACCyAgAApwIAIAAAAAABrwIBAAAAAQsbAACpAwAwHAAArgMAMKwCAACqAwAwrQIAAKsDADCuAgAArAMAIK8CAACtAwAwsAIAAK0DADCxAgAArQMAMLICAACtAwAwswIAAK8DADC0AgAAsAMAMAPuAQEAAAAB8AFAAAAAAfEBQAAAAAECAAAAqwIAIBsAALQDACADAAAAqwIAIBsAALQDACAcAACzAwAgARQAAIoFADAIyQEAAO4CACDrAQAA7QIAMOwBAACpAgAQ7QEAAO0CADDuAQEAAAAB7wEBAOkCACHwAUAA6wIAIfEBQADrAgAhAgAAAKsCACAUAACzAwAgAgAAALEDACAUAACyAwAgB-sBAACwAwAw7AEAALEDABDtAQAAsAMAMO4BAQDpAgAh7wEBAOkCACHwAUAA6wIAIfEBQADrAgAhB-sBAACwAwAw7AEAALEDABDtAQAAsAMAMO4BAQDpAgAh7wEBAOkCACHwAUAA6wIAIfEBQADrAgAhA-4BAQCfAwAh8AFAAKADACHxAUAAoAMAIQPuAQEAnwMAIfABQACgAwAh8QFAAKADACED7gEBAAAAAfABQAAAAAHxAUAAAAABBBsAAKkDADCsAgAAqgMAMK4CAACsAwAgsgIAAK0DADAAB8oBAAC2AwAg_QEAAKMDACD-AQAAowMAIP8BAACjAwAggAIAAKMDACCBAgAAowMAIIICAACjAwAgAAAAAAAACxsAAL8DADAcAADEAwAwrAIAAMADADCtAgAAwQMAMK4CAADCAwAgrwIAAMMDADCwAgAAwwMAMLECAADDAwAwsgIAAMMDADCzAgAAxQMAMLQCAADGAwAwEgcAAOoDACAIAADrAwAgCQAA7AMAIAsAAO0DACAMAADuAwAg7gEBAAAAAfABQAAAAAGDAkAAAAABiAKAAAAAAZECAQAAAAGTAgEAAAABlAIBAAAAAZUCAQAAAAGXAgEAAAABmAIBAAAAAZkCAQAAAAGaAoAAAAABmwICAAAAAQIAAAAFACAbAADpAwAgAwAAAAUAIBsAAOkDACAcAADKAwAgARQAAIkFADAYBwAAlgMAIAgAAJcDACAJAACYAwAgCgAAmQMAIAsAAJoDACAMAACaAwAg6wEAAJQDADDsAQAAAwAQ7QEAAJQDADDuAQEAAAAB8AFAAOsCACGDAkAA6wIAIYgCAAD0AgAgkQIBAOkCACGTAgEA6QIAIZQCAQDpAgAhlQIBAOkCACGWAgEA6QIAIZcCAQDpAgAhmAIBAOoCACGZAgEA6gIAIZoCAAD0AgAgmwICAJUDACGoAgAAkwMAIAIAAAAFACAUAADKAwAgAgAAAMcDACAUAADIAwAgEesBAADGAwAw7AEAAMcDABDtAQAAxgMAMO4BAQDpAgAh8AFAAOsCACGDAkAA6wIAIYgCAAD0AgAgkQIBAOkCACGTAgEA6QIAIZQCAQDpAgAhlQIBAOkCACGWAgEA6QIAIZcCAQDpAgAhmAIBAOoCACGZAgEA6gIAIZoCAAD0AgAgmwICAJUDACER6wEAAMYDADDsAQAAxwMAEO0BAADGAwAw7gEBAOkCACHwAUAA6wIAIYMCQADrAgAhiAIAAPQCACCRAgEA6QIAIZMCAQDpAgAhlAIBAOkCACGVAgEA6QIAIZYCAQDpAgAhlwIBAOkCACGYAgEA6gIAIZkCAQDqAgAhmgIAAPQCACCbAgIAlQMAIQ3uAQEAnwMAIfABQACgAwAhgwJAAKADACGIAoAAAAABkQIBAJ8DACGTAgEAnwMAIZQCAQCfAwAhlQIBAJ8DACGXAgEAnwMAIZgCAQCnAwAhmQIBAKcDACGaAoAAAAABmwICAMkDACEFrwICAAAAAbUCAgAAAAG2AgIAAAABtwICAAAAAbgCAgAAAAESBwAAywMAIAgAAMwDACAJAADNAwAgCwAAzgMAIAwAAM8DACDuAQEAnwMAIfABQACgAwAhgwJAAKADACGIAoAAAAABkQIBAJ8DACGTAgEAnwMAIZQCAQCfAwAhlQIBAJ8DACGXAgEAnwMAIZgCAQCnAwAhmQIBAKcDACGaAoAAAAABmwICAMkDACEFGwAA8gQAIBwAAIcFACCsAgAA8wQAIK0CAACGBQAgsgIAAAoAIAUbAADwBAAgHAAAhAUAIKwCAADxBAAgrQIAAIMFACCyAgAA3AEAIAUbAADuBAAgHAAAgQUAIKwCAADvBAAgrQIAAIAFACCyAgAASAAgCxsAAN4DADAcAADiAwAwrAIAAN8DADCtAgAA4AMAMK4CAADhAwAgrwIAANQDADCwAgAA1AMAMLECAADUAwAwsgIAANQDADCzAgAA4wMAMLQCAADXAwAwCxsAANADADAcAADVAwAwrAIAANEDADCtAgAA0gMAMK4CAADTAwAgrwIAANQDADCwAgAA1AMAMLECAADUAwAwsgIAANQDADCzAgAA1gMAMLQCAADXAwAwBQ0AAN0DACCcAgEAAAABpAIBAAAAAaUCAQAAAAGmAgEAAAABAgAAAAEAIBsAANwDACADAAAAAQAgGwAA3AMAIBwAANoDACABFAAA_wQAMAsNAACOAwAgDgAAjgMAIOsBAACNAwAw7AEAABQAEO0BAACNAwAwnAIBAOkCACGjAgEA6QIAIaQCAQDpAgAhpQIBAOkCACGmAgEA6QIAIakCAACbAwAgAgAAAAEAIBQAANoDACACAAAA2AMAIBQAANkDACAI6wEAANcDADDsAQAA2AMAEO0BAADXAwAwnAIBAOkCACGjAgEA6QIAIaQCAQDpAgAhpQIBAOkCACGmAgEA6QIAIQjrAQAA1wMAMOwBAADYAwAQ7QEAANcDADCcAgEA6QIAIaMCAQDpAgAhpAIBAOkCACGlAgEA6QIAIaYCAQDpAgAhBJwCAQCfAwAhpAIBAJ8DACGlAgEAnwMAIaYCAQCfAwAhBQ0AANsDACCcAgEAnwMAIaQCAQCfAwAhpQIBAJ8DACGmAgEAnwMAIQUbAAD6BAAgHAAA_QQAIKwCAAD7BAAgrQIAAPwEACCyAgAABQAgBQ0AAN0DACCcAgEAAAABpAIBAAAAAaUCAQAAAAGmAgEAAAABAxsAAPoEACCsAgAA-wQAILICAAAFACAFDgAA6AMAIKMCAQAAAAGkAgEAAAABpQIBAAAAAaYCAQAAAAECAAAAAQAgGwAA5wMAIAMAAAABACAbAADnAwAgHAAA5QMAIAEUAAD5BAAwAgAAAAEAIBQAAOUDACACAAAA2AMAIBQAAOQDACAEowIBAJ8DACGkAgEAnwMAIaUCAQCfAwAhpgIBAJ8DACEFDgAA5gMAIKMCAQCfAwAhpAIBAJ8DACGlAgEAnwMAIaYCAQCfAwAhBRsAAPQEACAcAAD3BAAgrAIAAPUEACCtAgAA9gQAILICAAAFACAFDgAA6AMAIKMCAQAAAAGkAgEAAAABpQIBAAAAAaYCAQAAAAEDGwAA9AQAIKwCAAD1BAAgsgIAAAUAIBIHAADqAwAgCAAA6wMAIAkAAOwDACALAADtAwAgDAAA7gMAIO4BAQAAAAHwAUAAAAABgwJAAAAAAYgCgAAAAAGRAgEAAAABkwIBAAAAAZQCAQAAAAGVAgEAAAABlwIBAAAAAZgCAQAAAAGZAgEAAAABmgKAAAAAAZsCAgAAAAEDGwAA8gQAIKwCAADzBAAgsgIAAAoAIAMbAADwBAAgrAIAAPEEACCyAgAA3AEAIAMbAADuBAAgrAIAAO8EACCyAgAASAAgBBsAAN4DADCsAgAA3wMAMK4CAADhAwAgsgIAANQDADAEGwAA0AMAMKwCAADRAwAwrgIAANMDACCyAgAA1AMAMAQbAAC_AwAwrAIAAMADADCuAgAAwgMAILICAADDAwAwAAAAAAsbAAD1AwAwHAAA-QMAMKwCAAD2AwAwrQIAAPcDADCuAgAA-AMAIK8CAADDAwAwsAIAAMMDADCxAgAAwwMAMLICAADDAwAwswIAAPoDADC0AgAAxgMAMBIHAADqAwAgCQAA7AMAIAoAAP8DACALAADtAwAgDAAA7gMAIO4BAQAAAAHwAUAAAAABgwJAAAAAAYgCgAAAAAGRAgEAAAABkwIBAAAAAZUCAQAAAAGWAgEAAAABlwIBAAAAAZgCAQAAAAGZAgEAAAABmgKAAAAAAZsCAgAAAAECAAAABQAgGwAA_gMAIAMAAAAFACAbAAD-AwAgHAAA_AMAIAEUAADtBAAwAgAAAAUAIBQAAPwDACACAAAAxwMAIBQAAPsDACAN7gEBAJ8DACHwAUAAoAMAIYMCQACgAwAhiAKAAAAAAZECAQCfAwAhkwIBAJ8DACGVAgEAnwMAIZYCAQCfAwAhlwIBAJ8DACGYAgEApwMAIZkCAQCnAwAhmgKAAAAAAZsCAgDJAwAhEgcAAMsDACAJAADNAwAgCgAA_QMAIAsAAM4DACAMAADPAwAg7gEBAJ8DACHwAUAAoAMAIYMCQACgAwAhiAKAAAAAAZECAQCfAwAhkwIBAJ8DACGVAgEAnwMAIZYCAQCfAwAhlwIBAJ8DACGYAgEApwMAIZkCAQCnAwAhmgKAAAAAAZsCAgDJAwAhBRsAAOgEACAcAADrBAAgrAIAAOkEACCtAgAA6gQAILICAAD1AQAgEgcAAOoDACAJAADsAwAgCgAA_wMAIAsAAO0DACAMAADuAwAg7gEBAAAAAfABQAAAAAGDAkAAAAABiAKAAAAAAZECAQAAAAGTAgEAAAABlQIBAAAAAZYCAQAAAAGXAgEAAAABmAIBAAAAAZkCAQAAAAGaAoAAAAABmwICAAAAAQMbAADoBAAgrAIAAOkEACCyAgAA9QEAIAQbAAD1AwAwrAIAAPYDADCuAgAA-AMAILICAADDAwAwAAAACxsAAJUEADAcAACaBAAwrAIAAJYEADCtAgAAmQQAMK4CAACXBAAgrwIAAMMDADCwAgAAwwMAMLECAADDAwAwsgIAAMMDADCzAgAAmwQAMLQCAADGAwAwBxsAAOEEACAcAADmBAAgrAIAAOIEACCtAgAA5QQAILACAAAHACCxAgAABwAgsgIAAAoAIAsbAACHBAAwHAAAjAQAMKwCAACIBAAwrQIAAIkEADCuAgAAigQAIK8CAACLBAAwsAIAAIsEADCxAgAAiwQAMLICAACLBAAwswIAAI0EADC0AgAAjgQAMAUDAACTBAAgBQAAlAQAIO4BAQAAAAGIAoAAAAABkQIBAAAAAQIAAAAKACAbAACSBAAgAwAAAAoAIBsAAJIEACAcAACRBAAgARQAAOQEADALAwAA9wIAIAQAAJEDACAFAACSAwAg6wEAAJADADDsAQAABwAQ7QEAAJADADDuAQEAAAABiAIAAPQCACCRAgEA6gIAIZICAQDqAgAhpwIAAI8DACACAAAACgAgFAAAkQQAIAIAAACPBAAgFAAAkAQAIAfrAQAAjgQAMOwBAACPBAAQ7QEAAI4EADDuAQEA6QIAIYgCAAD0AgAgkQIBAOoCACGSAgEA6gIAIQfrAQAAjgQAMOwBAACPBAAQ7QEAAI4EADDuAQEA6QIAIYgCAAD0AgAgkQIBAOoCACGSAgEA6gIAIQPuAQEAnwMAIYgCgAAAAAGRAgEApwMAIQUDAACEBAAgBQAAhgQAIO4BAQCfAwAhiAKAAAAAAZECAQCnAwAhBQMAAJMEACAFAACUBAAg7gEBAAAAAYgCgAAAAAGRAgEAAAABBBsAAJUEADCsAgAAlgQAMK4CAACXBAAgsgIAAMMDADAEGwAAhwQAMKwCAACIBAAwrgIAAIoEACCyAgAAiwQAMBIIAADrAwAgCQAA7AMAIAoAAP8DACALAADtAwAgDAAA7gMAIO4BAQAAAAHwAUAAAAABgwJAAAAAAYgCgAAAAAGRAgEAAAABlAIBAAAAAZUCAQAAAAGWAgEAAAABlwIBAAAAAZgCAQAAAAGZAgEAAAABmgKAAAAAAZsCAgAAAAECAAAABQAgGwAAmAQAIAEUAADjBAAwEggAAOsDACAJAADsAwAgCgAA_wMAIAsAAO0DACAMAADuAwAg7gEBAAAAAfABQAAAAAGDAkAAAAABiAKAAAAAAZECAQAAAAGUAgEAAAABlQIBAAAAAZYCAQAAAAGXAgEAAAABmAIBAAAAAZkCAQAAAAGaAoAAAAABmwICAAAAAQMAAAAFACAbAACYBAAgHAAAnQQAIAIAAAAFACAUAACdBAAgAgAAAMcDACAUAACcBAAgDe4BAQCfAwAh8AFAAKADACGDAkAAoAMAIYgCgAAAAAGRAgEAnwMAIZQCAQCfAwAhlQIBAJ8DACGWAgEAnwMAIZcCAQCfAwAhmAIBAKcDACGZAgEApwMAIZoCgAAAAAGbAgIAyQMAIRIIAADMAwAgCQAAzQMAIAoAAP0DACALAADOAwAgDAAAzwMAIO4BAQCfAwAh8AFAAKADACGDAkAAoAMAIYgCgAAAAAGRAgEAnwMAIZQCAQCfAwAhlQIBAJ8DACGWAgEAnwMAIZcCAQCfAwAhmAIBAKcDACGZAgEApwMAIZoCgAAAAAGbAgIAyQMAIQMbAADhBAAgrAIAAOIEACCyAgAACgAgAAAAAAAAAAAAAAAFGwAA3AQAIBwAAN8EACCsAgAA3QQAIK0CAADeBAAgsgIAAGEAIAMbAADcBAAgrAIAAN0EACCyAgAAYQAgAAAACxsAALAEADAcAAC1BAAwrAIAALEEADCtAgAAsgQAMK4CAACzBAAgrwIAALQEADCwAgAAtAQAMLECAAC0BAAwsgIAALQEADCzAgAAtgQAMLQCAAC3BAAwAp4CAQAAAAGgAkAAAAABAgAAAGUAIBsAALsEACADAAAAZQAgGwAAuwQAIBwAALoEACABFAAA2wQAMAdFAACHAwAg6wEAAIYDADDsAQAAYwAQ7QEAAIYDADCeAgEAAAABnwIBAOkCACGgAkAA6wIAIQIAAABlACAUAAC6BAAgAgAAALgEACAUAAC5BAAgBusBAAC3BAAw7AEAALgEABDtAQAAtwQAMJ4CAQDpAgAhnwIBAOkCACGgAkAA6wIAIQbrAQAAtwQAMOwBAAC4BAAQ7QEAALcEADCeAgEA6QIAIZ8CAQDpAgAhoAJAAOsCACECngIBAJ8DACGgAkAAoAMAIQKeAgEAnwMAIaACQACgAwAhAp4CAQAAAAGgAkAAAAABBBsAALAEADCsAgAAsQQAMK4CAACzBAAgsgIAALQEADAAAUYAAL0EACAAAAALGwAAwwQAMBwAAMcEADCsAgAAxAQAMK0CAADFBAAwrgIAAMYEACCvAgAAwwMAMLACAADDAwAwsQIAAMMDADCyAgAAwwMAMLMCAADIBAAwtAIAAMYDADASBwAA6gMAIAgAAOsDACAKAAD_AwAgCwAA7QMAIAwAAO4DACDuAQEAAAAB8AFAAAAAAYMCQAAAAAGIAoAAAAABkQIBAAAAAZMCAQAAAAGUAgEAAAABlgIBAAAAAZcCAQAAAAGYAgEAAAABmQIBAAAAAZoCgAAAAAGbAgIAAAABAgAAAAUAIBsAAMsEACADAAAABQAgGwAAywQAIBwAAMoEACABFAAA2gQAMAIAAAAFACAUAADKBAAgAgAAAMcDACAUAADJBAAgDe4BAQCfAwAh8AFAAKADACGDAkAAoAMAIYgCgAAAAAGRAgEAnwMAIZMCAQCfAwAhlAIBAJ8DACGWAgEAnwMAIZcCAQCfAwAhmAIBAKcDACGZAgEApwMAIZoCgAAAAAGbAgIAyQMAIRIHAADLAwAgCAAAzAMAIAoAAP0DACALAADOAwAgDAAAzwMAIO4BAQCfAwAh8AFAAKADACGDAkAAoAMAIYgCgAAAAAGRAgEAnwMAIZMCAQCfAwAhlAIBAJ8DACGWAgEAnwMAIZcCAQCfAwAhmAIBAKcDACGZAgEApwMAIZoCgAAAAAGbAgIAyQMAIRIHAADqAwAgCAAA6wMAIAoAAP8DACALAADtAwAgDAAA7gMAIO4BAQAAAAHwAUAAAAABgwJAAAAAAYgCgAAAAAGRAgEAAAABkwIBAAAAAZQCAQAAAAGWAgEAAAABlwIBAAAAAZgCAQAAAAGZAgEAAAABmgKAAAAAAZsCAgAAAAEEGwAAwwQAMKwCAADEBAAwrgIAAMYEACCyAgAAwwMAMAAAAAAAAAgHAADUBAAgCAAA1gQAIAkAANcEACAKAADYBAAgCwAA2QQAIAwAANkEACCYAgAAowMAIJkCAACjAwAgBQMAAPADACAEAADUBAAgBQAA1QQAIJECAACjAwAgkgIAAKMDACAAAQMAAPADACABAwAA8AMAIAEDAADwAwAgAA3uAQEAAAAB8AFAAAAAAYMCQAAAAAGIAoAAAAABkQIBAAAAAZMCAQAAAAGUAgEAAAABlgIBAAAAAZcCAQAAAAGYAgEAAAABmQIBAAAAAZoCgAAAAAGbAgIAAAABAp4CAQAAAAGgAkAAAAABA-4BAQAAAAHxAUAAAAABoQJAAAAAAQIAAABhACAbAADcBAAgAwAAAGkAIBsAANwEACAcAADgBAAgBQAAAGkAIBQAAOAEACDuAQEAnwMAIfEBQACgAwAhoQJAAKADACED7gEBAJ8DACHxAUAAoAMAIaECQACgAwAhBgMAAJMEACAEAACeBAAg7gEBAAAAAYgCgAAAAAGRAgEAAAABkgIBAAAAAQIAAAAKACAbAADhBAAgDe4BAQAAAAHwAUAAAAABgwJAAAAAAYgCgAAAAAGRAgEAAAABlAIBAAAAAZUCAQAAAAGWAgEAAAABlwIBAAAAAZgCAQAAAAGZAgEAAAABmgKAAAAAAZsCAgAAAAED7gEBAAAAAYgCgAAAAAGRAgEAAAABAwAAAAcAIBsAAOEEACAcAADnBAAgCAAAAAcAIAMAAIQEACAEAACFBAAgFAAA5wQAIO4BAQCfAwAhiAKAAAAAAZECAQCnAwAhkgIBAKcDACEGAwAAhAQAIAQAAIUEACDuAQEAnwMAIYgCgAAAAAGRAgEApwMAIZICAQCnAwAhA-4BAQAAAAGIAoAAAAABkAKAAAAAAQIAAAD1AQAgGwAA6AQAIAMAAAD4AQAgGwAA6AQAIBwAAOwEACAFAAAA-AEAIBQAAOwEACDuAQEAnwMAIYgCgAAAAAGQAoAAAAABA-4BAQCfAwAhiAKAAAAAAZACgAAAAAEN7gEBAAAAAfABQAAAAAGDAkAAAAABiAKAAAAAAZECAQAAAAGTAgEAAAABlQIBAAAAAZYCAQAAAAGXAgEAAAABmAIBAAAAAZkCAQAAAAGaAoAAAAABmwICAAAAAQPuAQEAAAABiAKAAAAAAZACgAAAAAECAAAASAAgGwAA7gQAIAPuAQEAAAABiAKAAAAAAZACgAAAAAECAAAA3AEAIBsAAPAEACAGBAAAngQAIAUAAJQEACDuAQEAAAABiAKAAAAAAZECAQAAAAGSAgEAAAABAgAAAAoAIBsAAPIEACATBwAA6gMAIAgAAOsDACAJAADsAwAgCgAA_wMAIAsAAO0DACDuAQEAAAAB8AFAAAAAAYMCQAAAAAGIAoAAAAABkQIBAAAAAZMCAQAAAAGUAgEAAAABlQIBAAAAAZYCAQAAAAGXAgEAAAABmAIBAAAAAZkCAQAAAAGaAoAAAAABmwICAAAAAQIAAAAFACAbAAD0BAAgAwAAAAMAIBsAAPQEACAcAAD4BAAgFQAAAAMAIAcAAMsDACAIAADMAwAgCQAAzQMAIAoAAP0DACALAADOAwAgFAAA-AQAIO4BAQCfAwAh8AFAAKADACGDAkAAoAMAIYgCgAAAAAGRAgEAnwMAIZMCAQCfAwAhlAIBAJ8DACGVAgEAnwMAIZYCAQCfAwAhlwIBAJ8DACGYAgEApwMAIZkCAQCnAwAhmgKAAAAAAZsCAgDJAwAhEwcAAMsDACAIAADMAwAgCQAAzQMAIAoAAP0DACALAADOAwAg7gEBAJ8DACHwAUAAoAMAIYMCQACgAwAhiAKAAAAAAZECAQCfAwAhkwIBAJ8DACGUAgEAnwMAIZUCAQCfAwAhlgIBAJ8DACGXAgEAnwMAIZgCAQCnAwAhmQIBAKcDACGaAoAAAAABmwICAMkDACEEowIBAAAAAaQCAQAAAAGlAgEAAAABpgIBAAAAARMHAADqAwAgCAAA6wMAIAkAAOwDACAKAAD_AwAgDAAA7gMAIO4BAQAAAAHwAUAAAAABgwJAAAAAAYgCgAAAAAGRAgEAAAABkwIBAAAAAZQCAQAAAAGVAgEAAAABlgIBAAAAAZcCAQAAAAGYAgEAAAABmQIBAAAAAZoCgAAAAAGbAgIAAAABAgAAAAUAIBsAAPoEACADAAAAAwAgGwAA-gQAIBwAAP4EACAVAAAAAwAgBwAAywMAIAgAAMwDACAJAADNAwAgCgAA_QMAIAwAAM8DACAUAAD-BAAg7gEBAJ8DACHwAUAAoAMAIYMCQACgAwAhiAKAAAAAAZECAQCfAwAhkwIBAJ8DACGUAgEAnwMAIZUCAQCfAwAhlgIBAJ8DACGXAgEAnwMAIZgCAQCnAwAhmQIBAKcDACGaAoAAAAABmwICAMkDACETBwAAywMAIAgAAMwDACAJAADNAwAgCgAA_QMAIAwAAM8DACDuAQEAnwMAIfABQACgAwAhgwJAAKADACGIAoAAAAABkQIBAJ8DACGTAgEAnwMAIZQCAQCfAwAhlQIBAJ8DACGWAgEAnwMAIZcCAQCfAwAhmAIBAKcDACGZAgEApwMAIZoCgAAAAAGbAgIAyQMAIQScAgEAAAABpAIBAAAAAaUCAQAAAAGmAgEAAAABAwAAAEsAIBsAAO4EACAcAACCBQAgBQAAAEsAIBQAAIIFACDuAQEAnwMAIYgCgAAAAAGQAoAAAAABA-4BAQCfAwAhiAKAAAAAAZACgAAAAAEDAAAA3wEAIBsAAPAEACAcAACFBQAgBQAAAN8BACAUAACFBQAg7gEBAJ8DACGIAoAAAAABkAKAAAAAAQPuAQEAnwMAIYgCgAAAAAGQAoAAAAABAwAAAAcAIBsAAPIEACAcAACIBQAgCAAAAAcAIAQAAIUEACAFAACGBAAgFAAAiAUAIO4BAQCfAwAhiAKAAAAAAZECAQCnAwAhkgIBAKcDACEGBAAAhQQAIAUAAIYEACDuAQEAnwMAIYgCgAAAAAGRAgEApwMAIZICAQCnAwAhDe4BAQAAAAHwAUAAAAABgwJAAAAAAYgCgAAAAAGRAgEAAAABkwIBAAAAAZQCAQAAAAGVAgEAAAABlwIBAAAAAZgCAQAAAAGZAgEAAAABmgKAAAAAAZsCAgAAAAED7gEBAAAAAfABQAAAAAHxAUAAAAABCe4BAQAAAAHwAUAAAAAB_QEBAAAAAf4BAQAAAAH_AQEAAAABgAIBAAAAAYECAQAAAAGCAgEAAAABgwJAAAAAAQIAAACnAgAgGwAAiwUAIAMAAACvAgAgGwAAiwUAIBwAAI8FACALAAAArwIAIBQAAI8FACDuAQEAnwMAIfABQACgAwAh_QEBAKcDACH-AQEApwMAIf8BAQCnAwAhgAIBAKcDACGBAgEApwMAIYICAQCnAwAhgwJAAKADACEJ7gEBAJ8DACHwAUAAoAMAIf0BAQCnAwAh_gEBAKcDACH_AQEApwMAIYACAQCnAwAhgQIBAKcDACGCAgEApwMAIYMCQACgAwAhAg0AAg4AAgcGAAsHAAMIAAUJAAcKAAkLFgEMFwEEAwYCBAgDBQsDBgAEAgMMAAUNAAIDDgIGAAYBAw8AAgMQAgYACAEDEQACAxICBgAKAQMTAAILGAAMGQAAAg0AAg4AAgINAAIOAAIDBgAQIQARIgASAAAAAwYAECEAESIAEgAAAAMGABghABkiABoAAAADBgAYIQAZIgAaAAADBgAfIQAgIgAhAAAAAwYAHyEAICIAIQIGACVGZiQBRQAjAUZnAAAAAwYAKSEAKiIAKwAAAAMGACkhACoiACsBRQAjAUUAIwMGADAhADEiADIAAAADBgAwIQAxIgAyAAAAAwYAOCEAOSIAOgAAAAMGADghADkiADoEBwADCAAFCQAHCgAJBAcAAwgABQkABwoACQUGAD8hAEIiAEOFAQBAhgEAQQAAAAAABQYAPyEAQiIAQ4UBAECGAQBBAQTOAQMBBNQBAwMGAEghAEkiAEoAAAADBgBIIQBJIgBKAAADBgBPIQBQIgBRAAAAAwYATyEAUCIAUQAAAwYAViEAVyIAWAAAAAMGAFYhAFciAFgAAAADBgBeIQBfIgBgAAAAAwYAXiEAXyIAYAIGAGTKAawCYwHJAQBiAcoBrQIAAAADBgBoIQBpIgBqAAAAAwYAaCEAaSIAagHJAQBiAckBAGIDBgBvIQBwIgBxAAAAAwYAbyEAcCIAcQ8CARAaAREbARIcARMdARUfARYhDBciDRgkARkmDBonDh0oAR4pAR8qDCMtDyQuEyUwFCYxFCc0FCg1FCk2FCo4FCs6DCw7FS09FC4_DC9AFjBBFDFCFDJDDDNGFzRHGzVJBzZKBzdNBzhOBzlPBzpRBztTDDxUHD1WBz5YDD9ZHUBaB0FbB0JcDENfHkRgIkdiI0hoI0lrI0psI0ttI0xvI01xDE5yJk90I1B2DFF3J1J4I1N5I1R6DFV9KFZ-LFd_JFiAASRZgQEkWoIBJFuDASRchQEkXYcBDF6IAS1figEkYIwBDGGNAS5ijgEkY48BJGSQAQxlkwEvZpQBM2eWATRolwE0aZoBNGqbATRrnAE0bJ4BNG2gAQxuoQE1b6MBNHClAQxxpgE2cqcBNHOoATR0qQEMdawBN3atATt3rgECeK8BAnmwAQJ6sQECe7IBAny0AQJ9tgEMfrcBPH-5AQKAAbsBDIEBvAE9ggG9AQKDAb4BAoQBvwEMhwHCAT6IAcMBRIkBxAEDigHFAQOLAcYBA4wBxwEDjQHIAQOOAcoBA48BzAEMkAHNAUWRAdABA5IB0gEMkwHTAUaUAdUBA5UB1gEDlgHXAQyXAdoBR5gB2wFLmQHdAQWaAd4BBZsB4QEFnAHiAQWdAeMBBZ4B5QEFnwHnAQygAegBTKEB6gEFogHsAQyjAe0BTaQB7gEFpQHvAQWmAfABDKcB8wFOqAH0AVKpAfYBCaoB9wEJqwH6AQmsAfsBCa0B_AEJrgH-AQmvAYACDLABgQJTsQGDAgmyAYUCDLMBhgJUtAGHAgm1AYgCCbYBiQIMtwGMAlW4AY0CWbkBjwJaugGQAlq7AZMCWrwBlAJavQGVAlq-AZcCWr8BmQIMwAGaAlvBAZwCWsIBngIMwwGfAlzEAaACWsUBoQJaxgGiAgzHAaUCXcgBpgJhywGoAmLMAa4CYs0BsQJizgGyAmLPAbMCYtABtQJi0QG3AgzSAbgCZdMBugJi1AG8AgzVAb0CZtYBvgJi1wG_AmLYAcACDNkBwwJn2gHEAmvbAcUCY9wBxgJj3QHHAmPeAcgCY98ByQJj4AHLAmPhAc0CDOIBzgJs4wHQAmPkAdICDOUB0wJt5gHUAmPnAdUCY-gB1gIM6QHZAm7qAdoCcg"
 }
 
 async function decodeBase64AsWasm(wasmBase64: string): Promise<WebAssembly.Module> {
@@ -214,6 +214,26 @@ export interface PrismaClient<
     */
   get library(): Prisma.LibraryDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.lockHolder`: Exposes CRUD operations for the **LockHolder** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more LockHolders
+    * const lockHolders = await prisma.lockHolder.findMany()
+    * ```
+    */
+  get lockHolder(): Prisma.LockHolderDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.lockLease`: Exposes CRUD operations for the **LockLease** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more LockLeases
+    * const lockLeases = await prisma.lockLease.findMany()
+    * ```
+    */
+  get lockLease(): Prisma.LockLeaseDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.object`: Exposes CRUD operations for the **Object** model.
     * Example usage:
@@ -273,6 +293,26 @@ export interface PrismaClient<
     * ```
     */
   get backendUnlockMethod(): Prisma.BackendUnlockMethodDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.user`: Exposes CRUD operations for the **User** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Users
+    * const users = await prisma.user.findMany()
+    * ```
+    */
+  get user(): Prisma.UserDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.userSession`: Exposes CRUD operations for the **UserSession** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more UserSessions
+    * const userSessions = await prisma.userSession.findMany()
+    * ```
+    */
+  get userSession(): Prisma.UserSessionDelegate<ExtArgs, { omit: OmitOpts }>;
 }
 
 export function getPrismaClientClass(): PrismaClientConstructor {
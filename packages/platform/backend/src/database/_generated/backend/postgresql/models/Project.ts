@@ -662,10 +662,6 @@ export type IntFieldUpdateOperationsInput = {
   divide?: number
 }
 
-export type DateTimeFieldUpdateOperationsInput = {
-  set?: Date | string
-}
-
 export type ProjectCreateNestedManyWithoutSpaceInput = {
   create?: Prisma.XOR<Prisma.ProjectCreateWithoutSpaceInput, Prisma.ProjectUncheckedCreateWithoutSpaceInput> | Prisma.ProjectCreateWithoutSpaceInput[] | Prisma.ProjectUncheckedCreateWithoutSpaceInput[]
   connectOrCreate?: Prisma.ProjectCreateOrConnectWithoutSpaceInput | Prisma.ProjectCreateOrConnectWithoutSpaceInput[]
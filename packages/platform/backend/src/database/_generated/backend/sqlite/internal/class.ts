@@ -20,7 +20,7 @@ const config: runtime.GetPrismaClientConfig = {
   "clientVersion": "7.4.1",
   "engineVersion": "55ae170b1ced7fc6ed07a15f110549408c501bb3",
   "activeProvider": "sqlite",
-  "inlineSchema": "model ProjectImportPort {\n  /// The CUIDv2 of the project where import port is located.\n  projectId String\n\n  /// The ID of the project exporting to this import port.\n  sourceProjectId String\n\n  /// The ID of the instance state representing paired export port in the source project.\n  sourceStateId String\n\n  /// The SHA256 of the encrypted content before armoring.\n  contentHash String\n\n  /// The encrypted content of the import port armored in AGE format.\n  encryptedContent String\n\n  /// The project this import port belongs to.\n  project Project @relation(fields: [projectId], references: [id])\n\n  /// The project that is the source of the import content.\n  sourceProject Project @relation(\"ProjectImportSource\", fields: [sourceProjectId], references: [id])\n\n  @@id([projectId, sourceStateId]) // don't allow different source projects use the same state id (state id is cuidv2 and must be globally unique)\n  @@index([sourceProjectId, sourceStateId])\n}\n\nmodel UserWorkspaceLayout {\n  /// The opaque ID of the user to which this layout belongs.\n  userId String @id\n\n  /// The layout of the user workspace managed by the frontend.\n  ///\n  /// ![unknown]\n  layout Json\n}\n\nmodel Library {\n  /// The CUIDv2 of the library.\n  id String @id @default(cuid(2))\n\n  /// The metadata of the library managed by the backend.\n  ///\n  /// [CommonObjectMeta]\n  meta Json\n\n  /// The spec of the library.\n  ///\n  /// [LibrarySpec]\n  spec Json\n\n  /// The projects using this library.\n  projects Project[]\n}\n\n/// The object allows to track arbitrary object across multiple projects and search them globally by their IDs.\n/// This also allow to correlate different entities across different projects.\nmodel Object {\n  /// The CUIDv2(d) of the object.\n  id String\n\n  /// The ID of the project that knows this object.\n  /// Multiple projects can reference the same object, but each project can only reference an object once.\n  projectId String\n\n  @@id([id, projectId])\n}\n\nmodel Project {\n  /// The CUIDv2 of the project.\n  id String @id @default(cuid(2))\n\n  /// Project meta managed by the backend.\n  ///\n  /// [CommonObjectMeta]\n  meta Json\n\n  /// The name of the project within the space.\n  name String\n\n  /// The ID of the project space this project belongs to.\n  spaceId String\n\n  /// The ID of the project model storage this project uses.\n  modelStorageId String\n\n  /// The ID of the library used by this project.\n  libraryId String\n\n  /// The ID of the Pulumi backend used by this project.\n  pulumiBackendId String\n\n  /// Encrypted project master key in AGE format.\n  encryptedMasterKey String\n\n  /// The encrypted private key of the project in AGE format used for encrypting exported entities for this project.\n  encryptedPrivateKey String?\n\n  /// The public key of the project in AGE format used for encrypting exported entities for this project.\n  publicKey String?\n\n  /// The unlock suite for this project.\n  ///\n  /// [ProjectUnlockSuite]\n  unlockSuite Json\n\n  /// The current version of the project database.\n  /// This is used to determine if the project needs to be migrated.\n  databaseVersion Int\n\n  /// The time when the project was created.\n  createdAt DateTime @default(now())\n\n  /// The time when the project was last updated.\n  updatedAt DateTime @updatedAt\n\n  /// The project space this project belongs to.\n  space ProjectSpace @relation(fields: [spaceId], references: [id])\n\n  /// The project model storage this project uses.\n  modelStorage ProjectModelStorage @relation(fields: [modelStorageId], references: [id])\n\n  /// The library used by this project.\n  library Library @relation(fields: [libraryId], references: [id])\n\n  /// The Pulumi backend used by this project.\n  pulumiBackend PulumiBackend @relation(fields: [pulumiBackendId], references: [id])\n\n  /// The import ports in this project.\n  importPorts ProjectImportPort[]\n\n  /// The import ports in this project where this project is the source.\n  exportPorts ProjectImportPort[] @relation(\"ProjectImportSource\")\n\n  @@unique([spaceId, name])\n}\n\nmodel ProjectSpace {\n  /// The CUIDv2 of the project space.\n  id String @id @default(cuid(2))\n\n  /// The name of the project space within the parent space.\n  ///\n  /// Will be null for the global project space.\n  name String?\n\n  /// The ID of the parent project space, if any.\n  parentId String?\n\n  /// The metadata of the project space managed by the backend.\n  ///\n  /// [CommonObjectMeta]\n  meta Json\n\n  /// The projects in this project space.\n  projects Project[]\n\n  /// The parent project space, if any.\n  parent ProjectSpace? @relation(\"ProjectSpaceHierarchy\", fields: [parentId], references: [id])\n\n  /// The child project spaces, if any.\n  children ProjectSpace[] @relation(\"ProjectSpaceHierarchy\")\n\n  @@unique([parentId, name])\n}\n\nmodel ProjectModelStorage {\n  /// The CUIDv2 of the project model storage.\n  id String @id @default(cuid(2))\n\n  /// The metadata of the project model storage managed by the backend.\n  ///\n  /// [CommonObjectMeta]\n  meta Json\n\n  /// The specification of the project model storage.\n  ///\n  /// [ProjectModelStorageSpec]\n  spec Json\n\n  /// The projects using this model storage.\n  projects Project[]\n}\n\nmodel PulumiBackend {\n  /// The CUIDv2 of the Pulumi backend.\n  id String @id @default(cuid(2))\n\n  /// The backend meta managed by the backend.\n  ///\n  /// [CommonObjectMeta]\n  meta Json\n\n  /// The spec of the Pulumi backend.\n  ///\n  /// [PulumiBackendSpec]\n  spec Json\n\n  /// The projects using this backend.\n  projects Project[]\n}\n\n/// Unlock methods describe trusted identities that can decrypt the backend master key.\nmodel BackendUnlockMethod {\n  /// The CUIDv2 of the unlock method.\n  id String @id @default(cuid(2))\n\n  /// The metadata of the unlock method managed by the backend.\n  /// \n  /// [BackendUnlockMethodMeta]\n  meta Json\n\n  /// The AGE recipient for this unlock method.\n  recipient String @unique\n\n  /// The time when the unlock method was created.\n  createdAt DateTime @default(now())\n\n  /// The time when the unlock method was last updated.\n  updatedAt DateTime @updatedAt\n}\n\ndatasource db {\n  provider = \"sqlite\"\n}\n\ngenerator client {\n  provider               = \"prisma-client\"\n  output                 = \"../../../src/database/_generated/backend/sqlite\"\n  moduleFormat           = \"esm\"\n  generatedFileExtension = \"ts\"\n  importFileExtension    = \"ts\"\n}\n\ngenerator json {\n  provider = \"prisma-json-types-generator\"\n}\n",
+  "inlineSchema": "model ProjectImportPort {\n  /// The CUIDv2 of the project where import port is located.\n  projectId String\n\n  /// The ID of the project exporting to this import port.\n  sourceProjectId String\n\n  /// The ID of the instance state representing paired export port in the source project.\n  sourceStateId String\n\n  /// The SHA256 of the encrypted content before armoring.\n  contentHash String\n\n  /// The encrypted content of the import port armored in AGE format.\n  encryptedContent String\n\n  /// The project this import port belongs to.\n  project Project @relation(fields: [projectId], references: [id])\n\n  /// The project that is the source of the import content.\n  sourceProject Project @relation(\"ProjectImportSource\", fields: [sourceProjectId], references: [id])\n\n  @@id([projectId, sourceStateId]) // don't allow different source projects use the same state id (state id is cuidv2 and must be globally unique)\n  @@index([sourceProjectId, sourceStateId])\n}\n\nmodel UserWorkspaceLayout {\n  /// The opaque ID of the user to which this layout belongs.\n  userId String @id\n\n  /// The layout of the user workspace managed by the frontend.\n  ///\n  /// ![unknown]\n  layout Json\n}\n\nmodel Library {\n  /// The CUIDv2 of the library.\n  id String @id @default(cuid(2))\n\n  /// The metadata of the library managed by the backend.\n  ///\n  /// [CommonObjectMeta]\n  meta Json\n\n  /// The spec of the library.\n  ///\n  /// [LibrarySpec]\n  spec Json\n\n  /// The projects using this library.\n  projects Project[]\n}\n\n/// The backend runtime holding the distributed locks.\n///\n/// Each backend process registers itself as a holder on startup and keeps extending its expiration time.\n/// Once the holder is expired, all its leases (and the instance locks it held) are considered stale.\nmodel LockHolder {\n  /// The runtime ID of the backend process.\n  id String @id\n\n  /// The time when the holder was registered.\n  startedAt DateTime @default(now())\n\n  /// The time after which the holder is considered dead unless the heartbeat extends it.\n  expiresAt DateTime\n\n  /// The leases currently held by the holder.\n  leases LockLease[]\n}\n\n/// The lease of the distributed lock held by the backend runtime.\nmodel LockLease {\n  /// The key of the lock.\n  key String @id\n\n  /// The ID of the holder of the lease.\n  holderId String\n\n  /// The time when the lease was acquired.\n  acquiredAt DateTime @default(now())\n\n  /// The holder of the lease.\n  holder LockHolder @relation(fields: [holderId], references: [id], onDelete: Cascade)\n\n  @@index([holderId])\n}\n\n/// The object allows to track arbitrary object across multiple projects and search them globally by their IDs.\n/// This also allow to correlate different entities across different projects.\nmodel Object {\n  /// The CUIDv2(d) of the object.\n  id String\n\n  /// The ID of the project that knows this object.\n  /// Multiple projects can reference the same object, but each project can only reference an object once.\n  projectId String\n\n  @@id([id, projectId])\n}\n\nmodel Project {\n  /// The CUIDv2 of the project.\n  id String @id @default(cuid(2))\n\n  /// Project meta managed by the backend.\n  ///\n  /// [CommonObjectMeta]\n  meta Json\n\n  /// The name of the project within the space.\n  name String\n\n  /// The ID of the project space this project belongs to.\n  spaceId String\n\n  /// The ID of the project model storage this project uses.\n  modelStorageId String\n\n  /// The ID of the library used by this project.\n  libraryId String\n\n  /// The ID of the Pulumi backend used by this project.\n  pulumiBackendId String\n\n  /// Encrypted project master key in AGE format.\n  encryptedMasterKey String\n\n  /// The encrypted private key of the project in AGE format used for encrypting exported entities for this project.\n  encryptedPrivateKey String?\n\n  /// The public key of the project in AGE format used for encrypting exported entities for this project.\n  publicKey String?\n\n  /// The unlock suite for this project.\n  ///\n  /// [ProjectUnlockSuite]\n  unlockSuite Json\n\n  /// The current version of the project database.\n  /// This is used to determine if the project needs to be migrated.\n  databaseVersion Int\n\n  /// The time when the project was created.\n  createdAt DateTime @default(now())\n\n  /// The time when the project was last updated.\n  updatedAt DateTime @updatedAt\n\n  /// The project space this project belongs to.\n  space ProjectSpace @relation(fields: [spaceId], references: [id])\n\n  /// The project model storage this project uses.\n  modelStorage ProjectModelStorage @relation(fields: [modelStorageId], references: [id])\n\n  /// The library used by this project.\n  library Library @relation(fields: [libraryId], references: [id])\n\n  /// The Pulumi backend used by this project.\n  pulumiBackend PulumiBackend @relation(fields: [pulumiBackendId], references: [id])\n\n  /// The import ports in this project.\n  importPorts ProjectImportPort[]\n\n  /// The import ports in this project where this project is the source.\n  exportPorts ProjectImportPort[] @relation(\"ProjectImportSource\")\n\n  @@unique([spaceId, name])\n}\n\nmodel ProjectSpace {\n  /// The CUIDv2 of the project space.\n  id String @id @default(cuid(2))\n\n  /// The name of the project space within the parent space.\n  ///\n  /// Will be null for the global project space.\n  name String?\n\n  /// The ID of the parent project space, if any.\n  parentId String?\n\n  /// The metadata of the project space managed by the backend.\n  ///\n  /// [CommonObjectMeta]\n  meta Json\n\n  /// The projects in this project space.\n  projects Project[]\n\n  /// The parent project space, if any.\n  parent ProjectSpace? @relation(\"ProjectSpaceHierarchy\", fields: [parentId], references: [id])\n\n  /// The child project spaces, if any.\n  children ProjectSpace[] @relation(\"ProjectSpaceHierarchy\")\n\n  @@unique([parentId, name])\n}\n\nmodel ProjectModelStorage {\n  /// The CUIDv2 of the project model storage.\n  id String @id @default(cuid(2))\n\n  /// The metadata of the project model storage managed by the backend.\n  ///\n  /// [CommonObjectMeta]\n  meta Json\n\n  /// The specification of the project model storage.\n  ///\n  /// [ProjectModelStorageSpec]\n  spec Json\n\n  /// The projects using this model storage.\n  projects Project[]\n}\n\nmodel PulumiBackend {\n  /// The CUIDv2 of the Pulumi backend.\n  id String @id @default(cuid(2))\n\n  /// The backend meta managed by the backend.\n  ///\n  /// [CommonObjectMeta]\n  meta Json\n\n  /// The spec of the Pulumi backend.\n  ///\n  /// [PulumiBackendSpec]\n  spec Json\n\n  /// The projects using this backend.\n  projects Project[]\n}\n\n/// Unlock methods describe trusted identities that can decrypt the backend master key.\nmodel BackendUnlockMethod {\n  /// The CUIDv2 of the unlock method.\n  id String @id @default(cuid(2))\n\n  /// The metadata of the unlock method managed by the backend.\n  /// \n  /// [BackendUnlockMethodMeta]\n  meta Json\n\n  /// The AGE recipient for this unlock method.\n  recipient String @unique\n\n  /// The time when the unlock method was created.\n  createdAt DateTime @default(now())\n\n  /// The time when the unlock method was last updated.\n  updatedAt DateTime @updatedAt\n}\n\n/// The user of the designer.\n///\n/// The local users are created explicitly and log in with the password,\n/// while the OIDC users are created on their first login using the configured issuer.\nmodel User {\n  /// The CUIDv2 of the user.\n  ///\n  /// Recorded as the author of the operations, instance edits and secret updates.\n  id String @id @default(cuid(2))\n\n  /// The name the local user logs in with.\n  ///\n  /// Will be null for the OIDC users.\n  username String? @unique\n\n  /// The human-readable name of the user.\n  displayName String?\n\n  /// The email of the user, if known.\n  email String?\n\n  /// The scrypt hash of the password of the local user.\n  passwordHash String?\n\n  /// The issuer of the OIDC user.\n  oidcIssuer String?\n\n  /// The subject of the OIDC user unique within the issuer.\n  oidcSubject String?\n\n  /// The time when the user was created.\n  createdAt DateTime @default(now())\n\n  /// The time when the user was last updated.\n  updatedAt DateTime @updatedAt\n\n  /// The active sessions of the user.\n  sessions UserSession[]\n\n  @@unique([oidcIssuer, oidcSubject])\n}\n\n/// The session of the user logged in to the designer.\nmodel UserSession {\n  /// The SHA-256 hash of the session token.\n  ///\n  /// The token itself is only stored in the cookie of the user.\n  id String @id\n\n  /// The ID of the user owning the session.\n  userId String\n\n  /// The time when the session was created.\n  createdAt DateTime @default(now())\n\n  /// The time after which the session is no longer valid.\n  expiresAt DateTime\n\n  /// The user owning the session.\n  user User @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  @@index([userId])\n}\n\ndatasource db {\n  provider = \"sqlite\"\n}\n\ngenerator client {\n  provider               = \"prisma-client\"\n  output                 = \"../../../src/database/_generated/backend/sqlite\"\n  moduleFormat           = \"esm\"\n  generatedFileExtension = \"ts\"\n  importFileExtension    = \"ts\"\n}\n\ngenerator json {\n  provider = \"prisma-json-types-generator\"\n}\n",
   "runtimeDataModel": {
     "models": {},
     "enums": {},
@@ -32,10 +32,10 @@ const config: runtime.GetPrismaClientConfig = {
   }
 }
 
-config.runtimeDataModel = JSON.parse("{\"models\":{\"ProjectImportPort\":{\"fields\":[{\"name\":\"projectId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sourceProjectId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sourceStateId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"contentHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"encryptedContent\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"project\",\"kind\":\"object\",\"type\":\"Project\",\"relationName\":\"ProjectToProjectImportPort\"},{\"name\":\"sourceProject\",\"kind\":\"object\",\"type\":\"Project\",\"relationName\":\"ProjectImportSource\"}],\"dbName\":null},\"UserWorkspaceLayout\":{\"fields\":[{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"layout\",\"kind\":\"scalar\",\"type\":\"Json\"}],\"dbName\":null},\"Library\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"meta\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"spec\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"projects\",\"kind\":\"object\",\"type\":\"Project\",\"relationName\":\"LibraryToProject\"}],\"dbName\":null},\"Object\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"projectId\",\"kind\":\"scalar\",\"type\":\"String\"}],\"dbName\":null},\"Project\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"meta\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"spaceId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"modelStorageId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"libraryId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"pulumiBackendId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"encryptedMasterKey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"encryptedPrivateKey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"publicKey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"unlockSuite\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"databaseVersion\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"space\",\"kind\":\"object\",\"type\":\"ProjectSpace\",\"relationName\":\"ProjectToProjectSpace\"},{\"name\":\"modelStorage\",\"kind\":\"object\",\"type\":\"ProjectModelStorage\",\"relationName\":\"ProjectToProjectModelStorage\"},{\"name\":\"library\",\"kind\":\"object\",\"type\":\"Library\",\"relationName\":\"LibraryToProject\"},{\"name\":\"pulumiBackend\",\"kind\":\"object\",\"type\":\"PulumiBackend\",\"relationName\":\"ProjectToPulumiBackend\"},{\"name\":\"importPorts\",\"kind\":\"object\",\"type\":\"ProjectImportPort\",\"relationName\":\"ProjectToProjectImportPort\"},{\"name\":\"exportPorts\",\"kind\":\"object\",\"type\":\"ProjectImportPort\",\"relationName\":\"ProjectImportSource\"}],\"dbName\":null},\"ProjectSpace\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"parentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"meta\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"projects\",\"kind\":\"object\",\"type\":\"Project\",\"relationName\":\"ProjectToProjectSpace\"},{\"name\":\"parent\",\"kind\":\"object\",\"type\":\"ProjectSpace\",\"relationName\":\"ProjectSpaceHierarchy\"},{\"name\":\"children\",\"kind\":\"object\",\"type\":\"ProjectSpace\",\"relationName\":\"ProjectSpaceHierarchy\"}],\"dbName\":null},\"ProjectModelStorage\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"meta\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"spec\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"projects\",\"kind\":\"object\",\"type\":\"Project\",\"relationName\":\"ProjectToProjectModelStorage\"}],\"dbName\":null},\"PulumiBackend\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"meta\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"spec\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"projects\",\"kind\":\"object\",\"type\":\"Project\",\"relationName\":\"ProjectToPulumiBackend\"}],\"dbName\":null},\"BackendUnlockMethod\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"meta\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"recipient\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null}},\"enums\":{},\"types\":{}}")
+config.runtimeDataModel = JSON.parse("{\"models\":{\"ProjectImportPort\":{\"fields\":[{\"name\":\"projectId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sourceProjectId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sourceStateId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"contentHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"encryptedContent\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"project\",\"kind\":\"object\",\"type\":\"Project\",\"relationName\":\"ProjectToProjectImportPort\"},{\"name\":\"sourceProject\",\"kind\":\"object\",\"type\":\"Project\",\"relationName\":\"ProjectImportSource\"}],\"dbName\":null},\"UserWorkspaceLayout\":{\"fields\":[{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"layout\",\"kind\":\"scalar\",\"type\":\"Json\"}],\"dbName\":null},\"Library\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"meta\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"spec\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"projects\",\"kind\":\"object\",\"type\":\"Project\",\"relationName\":\"LibraryToProject\"}],\"dbName\":null},\"LockHolder\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"startedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"leases\",\"kind\":\"object\",\"type\":\"LockLease\",\"relationName\":\"LockHolderToLockLease\"}],\"dbName\":null},\"LockLease\":{\"fields\":[{\"name\":\"key\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"holderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"acquiredAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"holder\",\"kind\":\"object\",\"type\":\"LockHolder\",\"relationName\":\"LockHolderToLockLease\"}],\"dbName\":null},\"Object\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"projectId\",\"kind\":\"scalar\",\"type\":\"String\"}],\"dbName\":null},\"Project\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"meta\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"spaceId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"modelStorageId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"libraryId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"pulumiBackendId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"encryptedMasterKey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"encryptedPrivateKey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"publicKey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"unlockSuite\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"databaseVersion\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"space\",\"kind\":\"object\",\"type\":\"ProjectSpace\",\"relationName\":\"ProjectToProjectSpace\"},{\"name\":\"modelStorage\",\"kind\":\"object\",\"type\":\"ProjectModelStorage\",\"relationName\":\"ProjectToProjectModelStorage\"},{\"name\":\"library\",\"kind\":\"object\",\"type\":\"Library\",\"relationName\":\"LibraryToProject\"},{\"name\":\"pulumiBackend\",\"kind\":\"object\",\"type\":\"PulumiBackend\",\"relationName\":\"ProjectToPulumiBackend\"},{\"name\":\"importPorts\",\"kind\":\"object\",\"type\":\"ProjectImportPort\",\"relationName\":\"ProjectToProjectImportPort\"},{\"name\":\"exportPorts\",\"kind\":\"object\",\"type\":\"ProjectImportPort\",\"relationName\":\"ProjectImportSource\"}],\"dbName\":null},\"ProjectSpace\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"parentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"meta\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"projects\",\"kind\":\"object\",\"type\":\"Project\",\"relationName\":\"ProjectToProjectSpace\"},{\"name\":\"parent\",\"kind\":\"object\",\"type\":\"ProjectSpace\",\"relationName\":\"ProjectSpaceHierarchy\"},{\"name\":\"children\",\"kind\":\"object\",\"type\":\"ProjectSpace\",\"relationName\":\"ProjectSpaceHierarchy\"}],\"dbName\":null},\"ProjectModelStorage\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"meta\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"spec\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"projects\",\"kind\":\"object\",\"type\":\"Project\",\"relationName\":\"ProjectToProjectModelStorage\"}],\"dbName\":null},\"PulumiBackend\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"meta\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"spec\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"projects\",\"kind\":\"object\",\"type\":\"Project\",\"relationName\":\"ProjectToPulumiBackend\"}],\"dbName\":null},\"BackendUnlockMethod\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"meta\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"recipient\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"User\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"username\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"displayName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"passwordHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"oidcIssuer\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"oidcSubject\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"sessions\",\"kind\":\"object\",\"type\":\"UserSession\",\"relationName\":\"UserToUserSession\"}],\"dbName\":null},\"UserSession\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"UserToUserSession\"}],\"dbName\":null}},\"enums\":{},\"types\":{}}")
 config.parameterizationSchema = {
-  strings: JSON.parse("[\"where\",\"orderBy\",\"cursor\",\"projects\",\"parent\",\"children\",\"_count\",\"space\",\"modelStorage\",\"library\",\"pulumiBackend\",\"importPorts\",\"exportPorts\",\"project\",\"sourceProject\",\"ProjectImportPort.findUnique\",\"ProjectImportPort.findUniqueOrThrow\",\"ProjectImportPort.findFirst\",\"ProjectImportPort.findFirstOrThrow\",\"ProjectImportPort.findMany\",\"data\",\"ProjectImportPort.createOne\",\"ProjectImportPort.createMany\",\"ProjectImportPort.createManyAndReturn\",\"ProjectImportPort.updateOne\",\"ProjectImportPort.updateMany\",\"ProjectImportPort.updateManyAndReturn\",\"create\",\"update\",\"ProjectImportPort.upsertOne\",\"ProjectImportPort.deleteOne\",\"ProjectImportPort.deleteMany\",\"having\",\"_min\",\"_max\",\"ProjectImportPort.groupBy\",\"ProjectImportPort.aggregate\",\"UserWorkspaceLayout.findUnique\",\"UserWorkspaceLayout.findUniqueOrThrow\",\"UserWorkspaceLayout.findFirst\",\"UserWorkspaceLayout.findFirstOrThrow\",\"UserWorkspaceLayout.findMany\",\"UserWorkspaceLayout.createOne\",\"UserWorkspaceLayout.createMany\",\"UserWorkspaceLayout.createManyAndReturn\",\"UserWorkspaceLayout.updateOne\",\"UserWorkspaceLayout.updateMany\",\"UserWorkspaceLayout.updateManyAndReturn\",\"UserWorkspaceLayout.upsertOne\",\"UserWorkspaceLayout.deleteOne\",\"UserWorkspaceLayout.deleteMany\",\"UserWorkspaceLayout.groupBy\",\"UserWorkspaceLayout.aggregate\",\"Library.findUnique\",\"Library.findUniqueOrThrow\",\"Library.findFirst\",\"Library.findFirstOrThrow\",\"Library.findMany\",\"Library.createOne\",\"Library.createMany\",\"Library.createManyAndReturn\",\"Library.updateOne\",\"Library.updateMany\",\"Library.updateManyAndReturn\",\"Library.upsertOne\",\"Library.deleteOne\",\"Library.deleteMany\",\"Library.groupBy\",\"Library.aggregate\",\"Object.findUnique\",\"Object.findUniqueOrThrow\",\"Object.findFirst\",\"Object.findFirstOrThrow\",\"Object.findMany\",\"Object.createOne\",\"Object.createMany\",\"Object.createManyAndReturn\",\"Object.updateOne\",\"Object.updateMany\",\"Object.updateManyAndReturn\",\"Object.upsertOne\",\"Object.deleteOne\",\"Object.deleteMany\",\"Object.groupBy\",\"Object.aggregate\",\"Project.findUnique\",\"Project.findUniqueOrThrow\",\"Project.findFirst\",\"Project.findFirstOrThrow\",\"Project.findMany\",\"Project.createOne\",\"Project.createMany\",\"Project.createManyAndReturn\",\"Project.updateOne\",\"Project.updateMany\",\"Project.updateManyAndReturn\",\"Project.upsertOne\",\"Project.deleteOne\",\"Project.deleteMany\",\"_avg\",\"_sum\",\"Project.groupBy\",\"Project.aggregate\",\"ProjectSpace.findUnique\",\"ProjectSpace.findUniqueOrThrow\",\"ProjectSpace.findFirst\",\"ProjectSpace.findFirstOrThrow\",\"ProjectSpace.findMany\",\"ProjectSpace.createOne\",\"ProjectSpace.createMany\",\"ProjectSpace.createManyAndReturn\",\"ProjectSpace.updateOne\",\"ProjectSpace.updateMany\",\"ProjectSpace.updateManyAndReturn\",\"ProjectSpace.upsertOne\",\"ProjectSpace.deleteOne\",\"ProjectSpace.deleteMany\",\"ProjectSpace.groupBy\",\"ProjectSpace.aggregate\",\"ProjectModelStorage.findUnique\",\"ProjectModelStorage.findUniqueOrThrow\",\"ProjectModelStorage.findFirst\",\"ProjectModelStorage.findFirstOrThrow\",\"ProjectModelStorage.findMany\",\"ProjectModelStorage.createOne\",\"ProjectModelStorage.createMany\",\"ProjectModelStorage.createManyAndReturn\",\"ProjectModelStorage.updateOne\",\"ProjectModelStorage.updateMany\",\"ProjectModelStorage.updateManyAndReturn\",\"ProjectModelStorage.upsertOne\",\"ProjectModelStorage.deleteOne\",\"ProjectModelStorage.deleteMany\",\"ProjectModelStorage.groupBy\",\"ProjectModelStorage.aggregate\",\"PulumiBackend.findUnique\",\"PulumiBackend.findUniqueOrThrow\",\"PulumiBackend.findFirst\",\"PulumiBackend.findFirstOrThrow\",\"PulumiBackend.findMany\",\"PulumiBackend.createOne\",\"PulumiBackend.createMany\",\"PulumiBackend.createManyAndReturn\",\"PulumiBackend.updateOne\",\"PulumiBackend.updateMany\",\"PulumiBackend.updateManyAndReturn\",\"PulumiBackend.upsertOne\",\"PulumiBackend.deleteOne\",\"PulumiBackend.deleteMany\",\"PulumiBackend.groupBy\",\"PulumiBackend.aggregate\",\"BackendUnlockMethod.findUnique\",\"BackendUnlockMethod.findUniqueOrThrow\",\"BackendUnlockMethod.findFirst\",\"BackendUnlockMethod.findFirstOrThrow\",\"BackendUnlockMethod.findMany\",\"BackendUnlockMethod.createOne\",\"BackendUnlockMethod.createMany\",\"BackendUnlockMethod.createManyAndReturn\",\"BackendUnlockMethod.updateOne\",\"BackendUnlockMethod.updateMany\",\"BackendUnlockMethod.updateManyAndReturn\",\"BackendUnlockMethod.upsertOne\",\"BackendUnlockMethod.deleteOne\",\"BackendUnlockMethod.deleteMany\",\"BackendUnlockMethod.groupBy\",\"BackendUnlockMethod.aggregate\",\"AND\",\"OR\",\"NOT\",\"id\",\"meta\",\"recipient\",\"createdAt\",\"updatedAt\",\"equals\",\"in\",\"notIn\",\"lt\",\"lte\",\"gt\",\"gte\",\"not\",\"string_contains\",\"string_starts_with\",\"string_ends_with\",\"array_starts_with\",\"array_ends_with\",\"contains\",\"startsWith\",\"endsWith\",\"spec\",\"every\",\"some\",\"none\",\"name\",\"parentId\",\"spaceId\",\"modelStorageId\",\"libraryId\",\"pulumiBackendId\",\"encryptedMasterKey\",\"encryptedPrivateKey\",\"publicKey\",\"unlockSuite\",\"databaseVersion\",\"projectId\",\"id_projectId\",\"userId\",\"layout\",\"sourceProjectId\",\"sourceStateId\",\"contentHash\",\"encryptedContent\",\"parentId_name\",\"spaceId_name\",\"projectId_sourceStateId\",\"is\",\"isNot\",\"connectOrCreate\",\"upsert\",\"createMany\",\"set\",\"disconnect\",\"delete\",\"connect\",\"updateMany\",\"deleteMany\",\"increment\",\"decrement\",\"multiply\",\"divide\"]"),
-  graph: "3gNQkAELDQAAmAIAIA4AAJgCACCnAQAAlwIAMKgBAAAUABCpAQAAlwIAMM4BAQD-AQAh0gEBAP4BACHTAQEA_gEAIdQBAQD-AQAh1QEBAP4BACHYAQAApgIAIAEAAAABACAXBwAAoQIAIAgAAKICACAJAACjAgAgCgAApAIAIAsAAKUCACAMAAClAgAgpwEAAJ8CADCoAQAAAwAQqQEAAJ8CADCqAQEA_gEAIasBAAD_AQAgrQFAAIACACGuAUAAgAIAIcMBAQD-AQAhxQEBAP4BACHGAQEA_gEAIccBAQD-AQAhyAEBAP4BACHJAQEA_gEAIcoBAQCbAgAhywEBAJsCACHMAQAA_wEAIM0BAgCgAgAhCAcAAK8DACAIAACxAwAgCQAAsgMAIAoAALMDACALAAC0AwAgDAAAtAMAIMoBAADzAgAgywEAAPMCACAYBwAAoQIAIAgAAKICACAJAACjAgAgCgAApAIAIAsAAKUCACAMAAClAgAgpwEAAJ8CADCoAQAAAwAQqQEAAJ8CADCqAQEAAAABqwEAAP8BACCtAUAAgAIAIa4BQACAAgAhwwEBAP4BACHFAQEA_gEAIcYBAQD-AQAhxwEBAP4BACHIAQEA_gEAIckBAQD-AQAhygEBAJsCACHLAQEAmwIAIcwBAAD_AQAgzQECAKACACHXAQAAngIAIAMAAAADACABAAAEADACAAAFACAKAwAAgwIAIAQAAJwCACAFAACdAgAgpwEAAJoCADCoAQAABwAQqQEAAJoCADCqAQEA_gEAIasBAAD_AQAgwwEBAJsCACHEAQEAmwIAIQEAAAAHACAFAwAA4gIAIAQAAK8DACAFAACwAwAgwwEAAPMCACDEAQAA8wIAIAsDAACDAgAgBAAAnAIAIAUAAJ0CACCnAQAAmgIAMKgBAAAHABCpAQAAmgIAMKoBAQAAAAGrAQAA_wEAIMMBAQCbAgAhxAEBAJsCACHWAQAAmQIAIAMAAAAHACABAAAJADACAAAKACABAAAAAwAgAQAAAAcAIAMAAAADACABAAAEADACAAAFACABAAAAAwAgAwAAAAMAIAEAAAQAMAIAAAUAIAEAAAADACADAAAAAwAgAQAABAAwAgAABQAgAQAAAAMAIAoNAACYAgAgDgAAmAIAIKcBAACXAgAwqAEAABQAEKkBAACXAgAwzgEBAP4BACHSAQEA_gEAIdMBAQD-AQAh1AEBAP4BACHVAQEA_gEAIQINAACuAwAgDgAArgMAIAMAAAAUACABAAAVADACAAABACADAAAAFAAgAQAAFQAwAgAAAQAgAQAAABQAIAEAAAAUACABAAAAAQAgAwAAABQAIAEAABUAMAIAAAEAIAMAAAAUACABAAAVADACAAABACADAAAAFAAgAQAAFQAwAgAAAQAgBw0AAM8CACAOAADaAgAgzgEBAAAAAdIBAQAAAAHTAQEAAAAB1AEBAAAAAdUBAQAAAAEBFAAAHgAgBc4BAQAAAAHSAQEAAAAB0wEBAAAAAdQBAQAAAAHVAQEAAAABARQAACAAMAEUAAAgADAHDQAAzQIAIA4AANgCACDOAQEAqgIAIdIBAQCqAgAh0wEBAKoCACHUAQEAqgIAIdUBAQCqAgAhAgAAAAEAIBQAACMAIAXOAQEAqgIAIdIBAQCqAgAh0wEBAKoCACHUAQEAqgIAIdUBAQCqAgAhAgAAABQAIBQAACUAIAIAAAAUACAUAAAlACADAAAAAQAgGwAAHgAgHAAAIwAgAQAAAAEAIAEAAAAUACADBgAAqwMAICEAAK0DACAiAACsAwAgCKcBAACWAgAwqAEAACwAEKkBAACWAgAwzgEBAPQBACHSAQEA9AEAIdMBAQD0AQAh1AEBAPQBACHVAQEA9AEAIQMAAAAUACABAAArADAgAAAsACADAAAAFAAgAQAAFQAwAgAAAQAgBacBAACVAgAwqAEAADIAEKkBAACVAgAw0AEBAAAAAdEBAAD_AQAgAQAAAC8AIAEAAAAvACAFpwEAAJUCADCoAQAAMgAQqQEAAJUCADDQAQEA_gEAIdEBAAD_AQAgAAMAAAAyACABAAAzADACAAAvACADAAAAMgAgAQAAMwAwAgAALwAgAwAAADIAIAEAADMAMAIAAC8AIALQAQEAAAAB0QGAAAAAAQEUAAA3ACAC0AEBAAAAAdEBgAAAAAEBFAAAOQAwARQAADkAMALQAQEAqgIAIdEBgAAAAAECAAAALwAgFAAAPAAgAtABAQCqAgAh0QGAAAAAAQIAAAAyACAUAAA-ACACAAAAMgAgFAAAPgAgAwAAAC8AIBsAADcAIBwAADwAIAEAAAAvACABAAAAMgAgAwYAAKgDACAhAACqAwAgIgAAqQMAIAWnAQAAlAIAMKgBAABFABCpAQAAlAIAMNABAQD0AQAh0QEAAPUBACADAAAAMgAgAQAARAAwIAAARQAgAwAAADIAIAEAADMAMAIAAC8AIAcDAACDAgAgpwEAAJMCADCoAQAASwAQqQEAAJMCADCqAQEAAAABqwEAAP8BACC_AQAA_wEAIAEAAABIACABAAAASAAgBwMAAIMCACCnAQAAkwIAMKgBAABLABCpAQAAkwIAMKoBAQD-AQAhqwEAAP8BACC_AQAA_wEAIAEDAADiAgAgAwAAAEsAIAEAAEwAMAIAAEgAIAMAAABLACABAABMADACAABIACADAAAASwAgAQAATAAwAgAASAAgBAMAAKcDACCqAQEAAAABqwGAAAAAAb8BgAAAAAEBFAAAUAAgA6oBAQAAAAGrAYAAAAABvwGAAAAAAQEUAABSADABFAAAUgAwBAMAAJ0DACCqAQEAqgIAIasBgAAAAAG_AYAAAAABAgAAAEgAIBQAAFUAIAOqAQEAqgIAIasBgAAAAAG_AYAAAAABAgAAAEsAIBQAAFcAIAIAAABLACAUAABXACADAAAASAAgGwAAUAAgHAAAVQAgAQAAAEgAIAEAAABLACADBgAAmgMAICEAAJwDACAiAACbAwAgBqcBAACSAgAwqAEAAF4AEKkBAACSAgAwqgEBAPQBACGrAQAA9QEAIL8BAAD1AQAgAwAAAEsAIAEAAF0AMCAAAF4AIAMAAABLACABAABMADACAABIACAGpwEAAJACADCoAQAAZAAQqQEAAJACADCqAQEA_gEAIc4BAQD-AQAhzwEAAJECACABAAAAYQAgAQAAAGEAIAWnAQAAkAIAMKgBAABkABCpAQAAkAIAMKoBAQD-AQAhzgEBAP4BACEAAwAAAGQAIAEAAGUAMAIAAGEAIAMAAABkACABAABlADACAABhACADAAAAZAAgAQAAZQAwAgAAYQAgAqoBAQAAAAHOAQEAAAABARQAAGkAIAKqAQEAAAABzgEBAAAAAQEUAABrADABFAAAawAwAqoBAQCqAgAhzgEBAKoCACECAAAAYQAgFAAAbgAgAqoBAQCqAgAhzgEBAKoCACECAAAAZAAgFAAAcAAgAgAAAGQAIBQAAHAAIAMAAABhACAbAABpACAcAABuACABAAAAYQAgAQAAAGQAIAMGAACXAwAgIQAAmQMAICIAAJgDACAFpwEAAI8CADCoAQAAdwAQqQEAAI8CADCqAQEA9AEAIc4BAQD0AQAhAwAAAGQAIAEAAHYAMCAAAHcAIAMAAABkACABAABlADACAABhACABAAAABQAgAQAAAAUAIAMAAAADACABAAAEADACAAAFACADAAAAAwAgAQAABAAwAgAABQAgAwAAAAMAIAEAAAQAMAIAAAUAIBQHAADcAgAgCAAA3QIAIAkAAN4CACAKAADxAgAgCwAA3wIAIAwAAOACACCqAQEAAAABqwGAAAAAAa0BQAAAAAGuAUAAAAABwwEBAAAAAcUBAQAAAAHGAQEAAAABxwEBAAAAAcgBAQAAAAHJAQEAAAABygEBAAAAAcsBAQAAAAHMAYAAAAABzQECAAAAAQEUAAB_ACAOqgEBAAAAAasBgAAAAAGtAUAAAAABrgFAAAAAAcMBAQAAAAHFAQEAAAABxgEBAAAAAccBAQAAAAHIAQEAAAAByQEBAAAAAcoBAQAAAAHLAQEAAAABzAGAAAAAAc0BAgAAAAEBFAAAgQEAMAEUAACBAQAwFAcAAL0CACAIAAC-AgAgCQAAvwIAIAoAAO8CACALAADAAgAgDAAAwQIAIKoBAQCqAgAhqwGAAAAAAa0BQACrAgAhrgFAAKsCACHDAQEAqgIAIcUBAQCqAgAhxgEBAKoCACHHAQEAqgIAIcgBAQCqAgAhyQEBAKoCACHKAQEAugIAIcsBAQC6AgAhzAGAAAAAAc0BAgC7AgAhAgAAAAUAIBQAAIQBACAOqgEBAKoCACGrAYAAAAABrQFAAKsCACGuAUAAqwIAIcMBAQCqAgAhxQEBAKoCACHGAQEAqgIAIccBAQCqAgAhyAEBAKoCACHJAQEAqgIAIcoBAQC6AgAhywEBALoCACHMAYAAAAABzQECALsCACECAAAAAwAgFAAAhgEAIAIAAAADACAUAACGAQAgAwAAAAUAIBsAAH8AIBwAAIQBACABAAAABQAgAQAAAAMAIAcGAACSAwAgIQAAlQMAICIAAJQDACBjAACTAwAgZAAAlgMAIMoBAADzAgAgywEAAPMCACARpwEAAIsCADCoAQAAjQEAEKkBAACLAgAwqgEBAPQBACGrAQAA9QEAIK0BQAD2AQAhrgFAAPYBACHDAQEA9AEAIcUBAQD0AQAhxgEBAPQBACHHAQEA9AEAIcgBAQD0AQAhyQEBAPQBACHKAQEAhwIAIcsBAQCHAgAhzAEAAPUBACDNAQIAjAIAIQMAAAADACABAACMAQAwIAAAjQEAIAMAAAADACABAAAEADACAAAFACABAAAACgAgAQAAAAoAIAMAAAAHACABAAAJADACAAAKACADAAAABwAgAQAACQAwAgAACgAgAwAAAAcAIAEAAAkAMAIAAAoAIAcDAACGAwAgBAAAkQMAIAUAAIcDACCqAQEAAAABqwGAAAAAAcMBAQAAAAHEAQEAAAABARQAAJUBACAEqgEBAAAAAasBgAAAAAHDAQEAAAABxAEBAAAAAQEUAACXAQAwARQAAJcBADABAAAABwAgBwMAAPcCACAEAAD4AgAgBQAA-QIAIKoBAQCqAgAhqwGAAAAAAcMBAQC6AgAhxAEBALoCACECAAAACgAgFAAAmwEAIASqAQEAqgIAIasBgAAAAAHDAQEAugIAIcQBAQC6AgAhAgAAAAcAIBQAAJ0BACACAAAABwAgFAAAnQEAIAEAAAAHACADAAAACgAgGwAAlQEAIBwAAJsBACABAAAACgAgAQAAAAcAIAUGAAD0AgAgIQAA9gIAICIAAPUCACDDAQAA8wIAIMQBAADzAgAgB6cBAACGAgAwqAEAAKUBABCpAQAAhgIAMKoBAQD0AQAhqwEAAPUBACDDAQEAhwIAIcQBAQCHAgAhAwAAAAcAIAEAAKQBADAgAAClAQAgAwAAAAcAIAEAAAkAMAIAAAoAIAcDAACDAgAgpwEAAIUCADCoAQAAqwEAEKkBAACFAgAwqgEBAAAAAasBAAD_AQAgvwEAAP8BACABAAAAqAEAIAEAAACoAQAgBwMAAIMCACCnAQAAhQIAMKgBAACrAQAQqQEAAIUCADCqAQEA_gEAIasBAAD_AQAgvwEAAP8BACABAwAA4gIAIAMAAACrAQAgAQAArAEAMAIAAKgBACADAAAAqwEAIAEAAKwBADACAACoAQAgAwAAAKsBACABAACsAQAwAgAAqAEAIAQDAADyAgAgqgEBAAAAAasBgAAAAAG_AYAAAAABARQAALABACADqgEBAAAAAasBgAAAAAG_AYAAAAABARQAALIBADABFAAAsgEAMAQDAADmAgAgqgEBAKoCACGrAYAAAAABvwGAAAAAAQIAAACoAQAgFAAAtQEAIAOqAQEAqgIAIasBgAAAAAG_AYAAAAABAgAAAKsBACAUAAC3AQAgAgAAAKsBACAUAAC3AQAgAwAAAKgBACAbAACwAQAgHAAAtQEAIAEAAACoAQAgAQAAAKsBACADBgAA4wIAICEAAOUCACAiAADkAgAgBqcBAACEAgAwqAEAAL4BABCpAQAAhAIAMKoBAQD0AQAhqwEAAPUBACC_AQAA9QEAIAMAAACrAQAgAQAAvQEAMCAAAL4BACADAAAAqwEAIAEAAKwBADACAACoAQAgBwMAAIMCACCnAQAAggIAMKgBAADEAQAQqQEAAIICADCqAQEAAAABqwEAAP8BACC_AQAA_wEAIAEAAADBAQAgAQAAAMEBACAHAwAAgwIAIKcBAACCAgAwqAEAAMQBABCpAQAAggIAMKoBAQD-AQAhqwEAAP8BACC_AQAA_wEAIAEDAADiAgAgAwAAAMQBACABAADFAQAwAgAAwQEAIAMAAADEAQAgAQAAxQEAMAIAAMEBACADAAAAxAEAIAEAAMUBADACAADBAQAgBAMAAOECACCqAQEAAAABqwGAAAAAAb8BgAAAAAEBFAAAyQEAIAOqAQEAAAABqwGAAAAAAb8BgAAAAAEBFAAAywEAMAEUAADLAQAwBAMAAK8CACCqAQEAqgIAIasBgAAAAAG_AYAAAAABAgAAAMEBACAUAADOAQAgA6oBAQCqAgAhqwGAAAAAAb8BgAAAAAECAAAAxAEAIBQAANABACACAAAAxAEAIBQAANABACADAAAAwQEAIBsAAMkBACAcAADOAQAgAQAAAMEBACABAAAAxAEAIAMGAACsAgAgIQAArgIAICIAAK0CACAGpwEAAIECADCoAQAA1wEAEKkBAACBAgAwqgEBAPQBACGrAQAA9QEAIL8BAAD1AQAgAwAAAMQBACABAADWAQAwIAAA1wEAIAMAAADEAQAgAQAAxQEAMAIAAMEBACAIpwEAAP0BADCoAQAA3QEAEKkBAAD9AQAwqgEBAAAAAasBAAD_AQAgrAEBAAAAAa0BQACAAgAhrgFAAIACACEBAAAA2gEAIAEAAADaAQAgCKcBAAD9AQAwqAEAAN0BABCpAQAA_QEAMKoBAQD-AQAhqwEAAP8BACCsAQEA_gEAIa0BQACAAgAhrgFAAIACACEAAwAAAN0BACABAADeAQAwAgAA2gEAIAMAAADdAQAgAQAA3gEAMAIAANoBACADAAAA3QEAIAEAAN4BADACAADaAQAgBaoBAQAAAAGrAYAAAAABrAEBAAAAAa0BQAAAAAGuAUAAAAABARQAAOIBACAFqgEBAAAAAasBgAAAAAGsAQEAAAABrQFAAAAAAa4BQAAAAAEBFAAA5AEAMAEUAADkAQAwBaoBAQCqAgAhqwGAAAAAAawBAQCqAgAhrQFAAKsCACGuAUAAqwIAIQIAAADaAQAgFAAA5wEAIAWqAQEAqgIAIasBgAAAAAGsAQEAqgIAIa0BQACrAgAhrgFAAKsCACECAAAA3QEAIBQAAOkBACACAAAA3QEAIBQAAOkBACADAAAA2gEAIBsAAOIBACAcAADnAQAgAQAAANoBACABAAAA3QEAIAMGAACnAgAgIQAAqQIAICIAAKgCACAIpwEAAPMBADCoAQAA8AEAEKkBAADzAQAwqgEBAPQBACGrAQAA9QEAIKwBAQD0AQAhrQFAAPYBACGuAUAA9gEAIQMAAADdAQAgAQAA7wEAMCAAAPABACADAAAA3QEAIAEAAN4BADACAADaAQAgCKcBAADzAQAwqAEAAPABABCpAQAA8wEAMKoBAQD0AQAhqwEAAPUBACCsAQEA9AEAIa0BQAD2AQAhrgFAAPYBACEOBgAA-AEAICEAAPwBACAiAAD8AQAgrwEBAAAAAbABAQAAAASxAQEAAAAEsgEBAAAAAbMBAQAAAAG0AQEAAAABtQEBAAAAAbYBAQD7AQAhvAEBAAAAAb0BAQAAAAG-AQEAAAABCgYAAPgBACAhAAD6AQAgIgAA-gEAIK8BgAAAAAG2AYAAAAABtwEBAAAAAbgBAQAAAAG5AQEAAAABugGAAAAAAbsBgAAAAAELBgAA-AEAICEAAPkBACAiAAD5AQAgrwFAAAAAAbABQAAAAASxAUAAAAAEsgFAAAAAAbMBQAAAAAG0AUAAAAABtQFAAAAAAbYBQAD3AQAhCwYAAPgBACAhAAD5AQAgIgAA-QEAIK8BQAAAAAGwAUAAAAAEsQFAAAAABLIBQAAAAAGzAUAAAAABtAFAAAAAAbUBQAAAAAG2AUAA9wEAIQivAQIAAAABsAECAAAABLEBAgAAAASyAQIAAAABswECAAAAAbQBAgAAAAG1AQIAAAABtgECAPgBACEIrwFAAAAAAbABQAAAAASxAUAAAAAEsgFAAAAAAbMBQAAAAAG0AUAAAAABtQFAAAAAAbYBQAD5AQAhB68BgAAAAAG2AYAAAAABtwEBAAAAAbgBAQAAAAG5AQEAAAABugGAAAAAAbsBgAAAAAEOBgAA-AEAICEAAPwBACAiAAD8AQAgrwEBAAAAAbABAQAAAASxAQEAAAAEsgEBAAAAAbMBAQAAAAG0AQEAAAABtQEBAAAAAbYBAQD7AQAhvAEBAAAAAb0BAQAAAAG-AQEAAAABC68BAQAAAAGwAQEAAAAEsQEBAAAABLIBAQAAAAGzAQEAAAABtAEBAAAAAbUBAQAAAAG2AQEA_AEAIbwBAQAAAAG9AQEAAAABvgEBAAAAAQinAQAA_QEAMKgBAADdAQAQqQEAAP0BADCqAQEA_gEAIasBAAD_AQAgrAEBAP4BACGtAUAAgAIAIa4BQACAAgAhC68BAQAAAAGwAQEAAAAEsQEBAAAABLIBAQAAAAGzAQEAAAABtAEBAAAAAbUBAQAAAAG2AQEA_AEAIbwBAQAAAAG9AQEAAAABvgEBAAAAAQevAYAAAAABtgGAAAAAAbcBAQAAAAG4AQEAAAABuQEBAAAAAboBgAAAAAG7AYAAAAABCK8BQAAAAAGwAUAAAAAEsQFAAAAABLIBQAAAAAGzAUAAAAABtAFAAAAAAbUBQAAAAAG2AUAA-QEAIQanAQAAgQIAMKgBAADXAQAQqQEAAIECADCqAQEA9AEAIasBAAD1AQAgvwEAAPUBACAHAwAAgwIAIKcBAACCAgAwqAEAAMQBABCpAQAAggIAMKoBAQD-AQAhqwEAAP8BACC_AQAA_wEAIAPAAQAAAwAgwQEAAAMAIMIBAAADACAGpwEAAIQCADCoAQAAvgEAEKkBAACEAgAwqgEBAPQBACGrAQAA9QEAIL8BAAD1AQAgBwMAAIMCACCnAQAAhQIAMKgBAACrAQAQqQEAAIUCADCqAQEA_gEAIasBAAD_AQAgvwEAAP8BACAHpwEAAIYCADCoAQAApQEAEKkBAACGAgAwqgEBAPQBACGrAQAA9QEAIMMBAQCHAgAhxAEBAIcCACEOBgAAiQIAICEAAIoCACAiAACKAgAgrwEBAAAAAbABAQAAAAWxAQEAAAAFsgEBAAAAAbMBAQAAAAG0AQEAAAABtQEBAAAAAbYBAQCIAgAhvAEBAAAAAb0BAQAAAAG-AQEAAAABDgYAAIkCACAhAACKAgAgIgAAigIAIK8BAQAAAAGwAQEAAAAFsQEBAAAABbIBAQAAAAGzAQEAAAABtAEBAAAAAbUBAQAAAAG2AQEAiAIAIbwBAQAAAAG9AQEAAAABvgEBAAAAAQivAQIAAAABsAECAAAABbEBAgAAAAWyAQIAAAABswECAAAAAbQBAgAAAAG1AQIAAAABtgECAIkCACELrwEBAAAAAbABAQAAAAWxAQEAAAAFsgEBAAAAAbMBAQAAAAG0AQEAAAABtQEBAAAAAbYBAQCKAgAhvAEBAAAAAb0BAQAAAAG-AQEAAAABEacBAACLAgAwqAEAAI0BABCpAQAAiwIAMKoBAQD0AQAhqwEAAPUBACCtAUAA9gEAIa4BQAD2AQAhwwEBAPQBACHFAQEA9AEAIcYBAQD0AQAhxwEBAPQBACHIAQEA9AEAIckBAQD0AQAhygEBAIcCACHLAQEAhwIAIcwBAAD1AQAgzQECAIwCACENBgAA-AEAICEAAPgBACAiAAD4AQAgYwAAjgIAIGQAAPgBACCvAQIAAAABsAECAAAABLEBAgAAAASyAQIAAAABswECAAAAAbQBAgAAAAG1AQIAAAABtgECAI0CACENBgAA-AEAICEAAPgBACAiAAD4AQAgYwAAjgIAIGQAAPgBACCvAQIAAAABsAECAAAABLEBAgAAAASyAQIAAAABswECAAAAAbQBAgAAAAG1AQIAAAABtgECAI0CACEIrwEIAAAAAbABCAAAAASxAQgAAAAEsgEIAAAAAbMBCAAAAAG0AQgAAAABtQEIAAAAAbYBCACOAgAhBacBAACPAgAwqAEAAHcAEKkBAACPAgAwqgEBAPQBACHOAQEA9AEAIQWnAQAAkAIAMKgBAABkABCpAQAAkAIAMKoBAQD-AQAhzgEBAP4BACECqgEBAAAAAc4BAQAAAAEGpwEAAJICADCoAQAAXgAQqQEAAJICADCqAQEA9AEAIasBAAD1AQAgvwEAAPUBACAHAwAAgwIAIKcBAACTAgAwqAEAAEsAEKkBAACTAgAwqgEBAP4BACGrAQAA_wEAIL8BAAD_AQAgBacBAACUAgAwqAEAAEUAEKkBAACUAgAw0AEBAPQBACHRAQAA9QEAIAWnAQAAlQIAMKgBAAAyABCpAQAAlQIAMNABAQD-AQAh0QEAAP8BACAIpwEAAJYCADCoAQAALAAQqQEAAJYCADDOAQEA9AEAIdIBAQD0AQAh0wEBAPQBACHUAQEA9AEAIdUBAQD0AQAhCg0AAJgCACAOAACYAgAgpwEAAJcCADCoAQAAFAAQqQEAAJcCADDOAQEA_gEAIdIBAQD-AQAh0wEBAP4BACHUAQEA_gEAIdUBAQD-AQAhGQcAAKECACAIAACiAgAgCQAAowIAIAoAAKQCACALAAClAgAgDAAApQIAIKcBAACfAgAwqAEAAAMAEKkBAACfAgAwqgEBAP4BACGrAQAA_wEAIK0BQACAAgAhrgFAAIACACHDAQEA_gEAIcUBAQD-AQAhxgEBAP4BACHHAQEA_gEAIcgBAQD-AQAhyQEBAP4BACHKAQEAmwIAIcsBAQCbAgAhzAEAAP8BACDNAQIAoAIAIdkBAAADACDaAQAAAwAgAsMBAQAAAAHEAQEAAAABCgMAAIMCACAEAACcAgAgBQAAnQIAIKcBAACaAgAwqAEAAAcAEKkBAACaAgAwqgEBAP4BACGrAQAA_wEAIMMBAQCbAgAhxAEBAJsCACELrwEBAAAAAbABAQAAAAWxAQEAAAAFsgEBAAAAAbMBAQAAAAG0AQEAAAABtQEBAAAAAbYBAQCKAgAhvAEBAAAAAb0BAQAAAAG-AQEAAAABDAMAAIMCACAEAACcAgAgBQAAnQIAIKcBAACaAgAwqAEAAAcAEKkBAACaAgAwqgEBAP4BACGrAQAA_wEAIMMBAQCbAgAhxAEBAJsCACHZAQAABwAg2gEAAAcAIAPAAQAABwAgwQEAAAcAIMIBAAAHACACwwEBAAAAAcUBAQAAAAEXBwAAoQIAIAgAAKICACAJAACjAgAgCgAApAIAIAsAAKUCACAMAAClAgAgpwEAAJ8CADCoAQAAAwAQqQEAAJ8CADCqAQEA_gEAIasBAAD_AQAgrQFAAIACACGuAUAAgAIAIcMBAQD-AQAhxQEBAP4BACHGAQEA_gEAIccBAQD-AQAhyAEBAP4BACHJAQEA_gEAIcoBAQCbAgAhywEBAJsCACHMAQAA_wEAIM0BAgCgAgAhCK8BAgAAAAGwAQIAAAAEsQECAAAABLIBAgAAAAGzAQIAAAABtAECAAAAAbUBAgAAAAG2AQIA-AEAIQwDAACDAgAgBAAAnAIAIAUAAJ0CACCnAQAAmgIAMKgBAAAHABCpAQAAmgIAMKoBAQD-AQAhqwEAAP8BACDDAQEAmwIAIcQBAQCbAgAh2QEAAAcAINoBAAAHACAJAwAAgwIAIKcBAACFAgAwqAEAAKsBABCpAQAAhQIAMKoBAQD-AQAhqwEAAP8BACC_AQAA_wEAINkBAACrAQAg2gEAAKsBACAJAwAAgwIAIKcBAACTAgAwqAEAAEsAEKkBAACTAgAwqgEBAP4BACGrAQAA_wEAIL8BAAD_AQAg2QEAAEsAINoBAABLACAJAwAAgwIAIKcBAACCAgAwqAEAAMQBABCpAQAAggIAMKoBAQD-AQAhqwEAAP8BACC_AQAA_wEAINkBAADEAQAg2gEAAMQBACADwAEAABQAIMEBAAAUACDCAQAAFAAgAs4BAQAAAAHTAQEAAAABAAAAAd4BAQAAAAEB3gFAAAAAAQAAAAsbAACwAgAwHAAAtQIAMNsBAACxAgAw3AEAALICADDdAQAAswIAIN4BAAC0AgAw3wEAALQCADDgAQAAtAIAMOEBAAC0AgAw4gEAALYCADDjAQAAtwIAMBIHAADcAgAgCAAA3QIAIAkAAN4CACALAADfAgAgDAAA4AIAIKoBAQAAAAGrAYAAAAABrQFAAAAAAa4BQAAAAAHDAQEAAAABxQEBAAAAAcYBAQAAAAHHAQEAAAAByQEBAAAAAcoBAQAAAAHLAQEAAAABzAGAAAAAAc0BAgAAAAECAAAABQAgGwAA2wIAIAMAAAAFACAbAADbAgAgHAAAvAIAIAEUAADeAwAwGAcAAKECACAIAACiAgAgCQAAowIAIAoAAKQCACALAAClAgAgDAAApQIAIKcBAACfAgAwqAEAAAMAEKkBAACfAgAwqgEBAAAAAasBAAD_AQAgrQFAAIACACGuAUAAgAIAIcMBAQD-AQAhxQEBAP4BACHGAQEA_gEAIccBAQD-AQAhyAEBAP4BACHJAQEA_gEAIcoBAQCbAgAhywEBAJsCACHMAQAA_wEAIM0BAgCgAgAh1wEAAJ4CACACAAAABQAgFAAAvAIAIAIAAAC4AgAgFAAAuQIAIBGnAQAAtwIAMKgBAAC4AgAQqQEAALcCADCqAQEA_gEAIasBAAD_AQAgrQFAAIACACGuAUAAgAIAIcMBAQD-AQAhxQEBAP4BACHGAQEA_gEAIccBAQD-AQAhyAEBAP4BACHJAQEA_gEAIcoBAQCbAgAhywEBAJsCACHMAQAA_wEAIM0BAgCgAgAhEacBAAC3AgAwqAEAALgCABCpAQAAtwIAMKoBAQD-AQAhqwEAAP8BACCtAUAAgAIAIa4BQACAAgAhwwEBAP4BACHFAQEA_gEAIcYBAQD-AQAhxwEBAP4BACHIAQEA_gEAIckBAQD-AQAhygEBAJsCACHLAQEAmwIAIcwBAAD_AQAgzQECAKACACENqgEBAKoCACGrAYAAAAABrQFAAKsCACGuAUAAqwIAIcMBAQCqAgAhxQEBAKoCACHGAQEAqgIAIccBAQCqAgAhyQEBAKoCACHKAQEAugIAIcsBAQC6AgAhzAGAAAAAAc0BAgC7AgAhAd4BAQAAAAEF3gECAAAAAeQBAgAAAAHlAQIAAAAB5gECAAAAAecBAgAAAAESBwAAvQIAIAgAAL4CACAJAAC_AgAgCwAAwAIAIAwAAMECACCqAQEAqgIAIasBgAAAAAGtAUAAqwIAIa4BQACrAgAhwwEBAKoCACHFAQEAqgIAIcYBAQCqAgAhxwEBAKoCACHJAQEAqgIAIcoBAQC6AgAhywEBALoCACHMAYAAAAABzQECALsCACEFGwAAxwMAIBwAANwDACDbAQAAyAMAINwBAADbAwAg4QEAAAoAIAUbAADFAwAgHAAA2QMAINsBAADGAwAg3AEAANgDACDhAQAAqAEAIAUbAADDAwAgHAAA1gMAINsBAADEAwAg3AEAANUDACDhAQAASAAgCxsAANACADAcAADUAgAw2wEAANECADDcAQAA0gIAMN0BAADTAgAg3gEAAMYCADDfAQAAxgIAMOABAADGAgAw4QEAAMYCADDiAQAA1QIAMOMBAADJAgAwCxsAAMICADAcAADHAgAw2wEAAMMCADDcAQAAxAIAMN0BAADFAgAg3gEAAMYCADDfAQAAxgIAMOABAADGAgAw4QEAAMYCADDiAQAAyAIAMOMBAADJAgAwBQ0AAM8CACDOAQEAAAAB0wEBAAAAAdQBAQAAAAHVAQEAAAABAgAAAAEAIBsAAM4CACADAAAAAQAgGwAAzgIAIBwAAMwCACABFAAA1AMAMAsNAACYAgAgDgAAmAIAIKcBAACXAgAwqAEAABQAEKkBAACXAgAwzgEBAP4BACHSAQEA_gEAIdMBAQD-AQAh1AEBAP4BACHVAQEA_gEAIdgBAACmAgAgAgAAAAEAIBQAAMwCACACAAAAygIAIBQAAMsCACAIpwEAAMkCADCoAQAAygIAEKkBAADJAgAwzgEBAP4BACHSAQEA_gEAIdMBAQD-AQAh1AEBAP4BACHVAQEA_gEAIQinAQAAyQIAMKgBAADKAgAQqQEAAMkCADDOAQEA_gEAIdIBAQD-AQAh0wEBAP4BACHUAQEA_gEAIdUBAQD-AQAhBM4BAQCqAgAh0wEBAKoCACHUAQEAqgIAIdUBAQCqAgAhBQ0AAM0CACDOAQEAqgIAIdMBAQCqAgAh1AEBAKoCACHVAQEAqgIAIQUbAADPAwAgHAAA0gMAINsBAADQAwAg3AEAANEDACDhAQAABQAgBQ0AAM8CACDOAQEAAAAB0wEBAAAAAdQBAQAAAAHVAQEAAAABAxsAAM8DACDbAQAA0AMAIOEBAAAFACAFDgAA2gIAINIBAQAAAAHTAQEAAAAB1AEBAAAAAdUBAQAAAAECAAAAAQAgGwAA2QIAIAMAAAABACAbAADZAgAgHAAA1wIAIAEUAADOAwAwAgAAAAEAIBQAANcCACACAAAAygIAIBQAANYCACAE0gEBAKoCACHTAQEAqgIAIdQBAQCqAgAh1QEBAKoCACEFDgAA2AIAINIBAQCqAgAh0wEBAKoCACHUAQEAqgIAIdUBAQCqAgAhBRsAAMkDACAcAADMAwAg2wEAAMoDACDcAQAAywMAIOEBAAAFACAFDgAA2gIAINIBAQAAAAHTAQEAAAAB1AEBAAAAAdUBAQAAAAEDGwAAyQMAINsBAADKAwAg4QEAAAUAIBIHAADcAgAgCAAA3QIAIAkAAN4CACALAADfAgAgDAAA4AIAIKoBAQAAAAGrAYAAAAABrQFAAAAAAa4BQAAAAAHDAQEAAAABxQEBAAAAAcYBAQAAAAHHAQEAAAAByQEBAAAAAcoBAQAAAAHLAQEAAAABzAGAAAAAAc0BAgAAAAEDGwAAxwMAINsBAADIAwAg4QEAAAoAIAMbAADFAwAg2wEAAMYDACDhAQAAqAEAIAMbAADDAwAg2wEAAMQDACDhAQAASAAgBBsAANACADDbAQAA0QIAMN0BAADTAgAg4QEAAMYCADAEGwAAwgIAMNsBAADDAgAw3QEAAMUCACDhAQAAxgIAMAQbAACwAgAw2wEAALECADDdAQAAswIAIOEBAAC0AgAwAAAAAAsbAADnAgAwHAAA6wIAMNsBAADoAgAw3AEAAOkCADDdAQAA6gIAIN4BAAC0AgAw3wEAALQCADDgAQAAtAIAMOEBAAC0AgAw4gEAAOwCADDjAQAAtwIAMBIHAADcAgAgCQAA3gIAIAoAAPECACALAADfAgAgDAAA4AIAIKoBAQAAAAGrAYAAAAABrQFAAAAAAa4BQAAAAAHDAQEAAAABxQEBAAAAAccBAQAAAAHIAQEAAAAByQEBAAAAAcoBAQAAAAHLAQEAAAABzAGAAAAAAc0BAgAAAAECAAAABQAgGwAA8AIAIAMAAAAFACAbAADwAgAgHAAA7gIAIAEUAADCAwAwAgAAAAUAIBQAAO4CACACAAAAuAIAIBQAAO0CACANqgEBAKoCACGrAYAAAAABrQFAAKsCACGuAUAAqwIAIcMBAQCqAgAhxQEBAKoCACHHAQEAqgIAIcgBAQCqAgAhyQEBAKoCACHKAQEAugIAIcsBAQC6AgAhzAGAAAAAAc0BAgC7AgAhEgcAAL0CACAJAAC_AgAgCgAA7wIAIAsAAMACACAMAADBAgAgqgEBAKoCACGrAYAAAAABrQFAAKsCACGuAUAAqwIAIcMBAQCqAgAhxQEBAKoCACHHAQEAqgIAIcgBAQCqAgAhyQEBAKoCACHKAQEAugIAIcsBAQC6AgAhzAGAAAAAAc0BAgC7AgAhBRsAAL0DACAcAADAAwAg2wEAAL4DACDcAQAAvwMAIOEBAADBAQAgEgcAANwCACAJAADeAgAgCgAA8QIAIAsAAN8CACAMAADgAgAgqgEBAAAAAasBgAAAAAGtAUAAAAABrgFAAAAAAcMBAQAAAAHFAQEAAAABxwEBAAAAAcgBAQAAAAHJAQEAAAABygEBAAAAAcsBAQAAAAHMAYAAAAABzQECAAAAAQMbAAC9AwAg2wEAAL4DACDhAQAAwQEAIAQbAADnAgAw2wEAAOgCADDdAQAA6gIAIOEBAAC0AgAwAAAAAAsbAACIAwAwHAAAjQMAMNsBAACJAwAw3AEAAIwDADDdAQAAigMAIN4BAAC0AgAw3wEAALQCADDgAQAAtAIAMOEBAAC0AgAw4gEAAI4DADDjAQAAtwIAMAcbAAC2AwAgHAAAuwMAINsBAAC3AwAg3AEAALoDACDfAQAABwAg4AEAAAcAIOEBAAAKACALGwAA-gIAMBwAAP8CADDbAQAA-wIAMNwBAAD8AgAw3QEAAP0CACDeAQAA_gIAMN8BAAD-AgAw4AEAAP4CADDhAQAA_gIAMOIBAACAAwAw4wEAAIEDADAFAwAAhgMAIAUAAIcDACCqAQEAAAABqwGAAAAAAcMBAQAAAAECAAAACgAgGwAAhQMAIAMAAAAKACAbAACFAwAgHAAAhAMAIAEUAAC5AwAwCwMAAIMCACAEAACcAgAgBQAAnQIAIKcBAACaAgAwqAEAAAcAEKkBAACaAgAwqgEBAAAAAasBAAD_AQAgwwEBAJsCACHEAQEAmwIAIdYBAACZAgAgAgAAAAoAIBQAAIQDACACAAAAggMAIBQAAIMDACAHpwEAAIEDADCoAQAAggMAEKkBAACBAwAwqgEBAP4BACGrAQAA_wEAIMMBAQCbAgAhxAEBAJsCACEHpwEAAIEDADCoAQAAggMAEKkBAACBAwAwqgEBAP4BACGrAQAA_wEAIMMBAQCbAgAhxAEBAJsCACEDqgEBAKoCACGrAYAAAAABwwEBALoCACEFAwAA9wIAIAUAAPkCACCqAQEAqgIAIasBgAAAAAHDAQEAugIAIQUDAACGAwAgBQAAhwMAIKoBAQAAAAGrAYAAAAABwwEBAAAAAQQbAACIAwAw2wEAAIkDADDdAQAAigMAIOEBAAC0AgAwBBsAAPoCADDbAQAA-wIAMN0BAAD9AgAg4QEAAP4CADASCAAA3QIAIAkAAN4CACAKAADxAgAgCwAA3wIAIAwAAOACACCqAQEAAAABqwGAAAAAAa0BQAAAAAGuAUAAAAABwwEBAAAAAcYBAQAAAAHHAQEAAAAByAEBAAAAAckBAQAAAAHKAQEAAAABywEBAAAAAcwBgAAAAAHNAQIAAAABAgAAAAUAIBsAAIsDACABFAAAuAMAMBIIAADdAgAgCQAA3gIAIAoAAPECACALAADfAgAgDAAA4AIAIKoBAQAAAAGrAYAAAAABrQFAAAAAAa4BQAAAAAHDAQEAAAABxgEBAAAAAccBAQAAAAHIAQEAAAAByQEBAAAAAcoBAQAAAAHLAQEAAAABzAGAAAAAAc0BAgAAAAEDAAAABQAgGwAAiwMAIBwAAJADACACAAAABQAgFAAAkAMAIAIAAAC4AgAgFAAAjwMAIA2qAQEAqgIAIasBgAAAAAGtAUAAqwIAIa4BQACrAgAhwwEBAKoCACHGAQEAqgIAIccBAQCqAgAhyAEBAKoCACHJAQEAqgIAIcoBAQC6AgAhywEBALoCACHMAYAAAAABzQECALsCACESCAAAvgIAIAkAAL8CACAKAADvAgAgCwAAwAIAIAwAAMECACCqAQEAqgIAIasBgAAAAAGtAUAAqwIAIa4BQACrAgAhwwEBAKoCACHGAQEAqgIAIccBAQCqAgAhyAEBAKoCACHJAQEAqgIAIcoBAQC6AgAhywEBALoCACHMAYAAAAABzQECALsCACEDGwAAtgMAINsBAAC3AwAg4QEAAAoAIAAAAAAAAAAAAAAACxsAAJ4DADAcAACiAwAw2wEAAJ8DADDcAQAAoAMAMN0BAAChAwAg3gEAALQCADDfAQAAtAIAMOABAAC0AgAw4QEAALQCADDiAQAAowMAMOMBAAC3AgAwEgcAANwCACAIAADdAgAgCgAA8QIAIAsAAN8CACAMAADgAgAgqgEBAAAAAasBgAAAAAGtAUAAAAABrgFAAAAAAcMBAQAAAAHFAQEAAAABxgEBAAAAAcgBAQAAAAHJAQEAAAABygEBAAAAAcsBAQAAAAHMAYAAAAABzQECAAAAAQIAAAAFACAbAACmAwAgAwAAAAUAIBsAAKYDACAcAAClAwAgARQAALUDADACAAAABQAgFAAApQMAIAIAAAC4AgAgFAAApAMAIA2qAQEAqgIAIasBgAAAAAGtAUAAqwIAIa4BQACrAgAhwwEBAKoCACHFAQEAqgIAIcYBAQCqAgAhyAEBAKoCACHJAQEAqgIAIcoBAQC6AgAhywEBALoCACHMAYAAAAABzQECALsCACESBwAAvQIAIAgAAL4CACAKAADvAgAgCwAAwAIAIAwAAMECACCqAQEAqgIAIasBgAAAAAGtAUAAqwIAIa4BQACrAgAhwwEBAKoCACHFAQEAqgIAIcYBAQCqAgAhyAEBAKoCACHJAQEAqgIAIcoBAQC6AgAhywEBALoCACHMAYAAAAABzQECALsCACESBwAA3AIAIAgAAN0CACAKAADxAgAgCwAA3wIAIAwAAOACACCqAQEAAAABqwGAAAAAAa0BQAAAAAGuAUAAAAABwwEBAAAAAcUBAQAAAAHGAQEAAAAByAEBAAAAAckBAQAAAAHKAQEAAAABywEBAAAAAcwBgAAAAAHNAQIAAAABBBsAAJ4DADDbAQAAnwMAMN0BAAChAwAg4QEAALQCADAAAAAAAAAIBwAArwMAIAgAALEDACAJAACyAwAgCgAAswMAIAsAALQDACAMAAC0AwAgygEAAPMCACDLAQAA8wIAIAUDAADiAgAgBAAArwMAIAUAALADACDDAQAA8wIAIMQBAADzAgAgAAEDAADiAgAgAQMAAOICACABAwAA4gIAIAANqgEBAAAAAasBgAAAAAGtAUAAAAABrgFAAAAAAcMBAQAAAAHFAQEAAAABxgEBAAAAAcgBAQAAAAHJAQEAAAABygEBAAAAAcsBAQAAAAHMAYAAAAABzQECAAAAAQYDAACGAwAgBAAAkQMAIKoBAQAAAAGrAYAAAAABwwEBAAAAAcQBAQAAAAECAAAACgAgGwAAtgMAIA2qAQEAAAABqwGAAAAAAa0BQAAAAAGuAUAAAAABwwEBAAAAAcYBAQAAAAHHAQEAAAAByAEBAAAAAckBAQAAAAHKAQEAAAABywEBAAAAAcwBgAAAAAHNAQIAAAABA6oBAQAAAAGrAYAAAAABwwEBAAAAAQMAAAAHACAbAAC2AwAgHAAAvAMAIAgAAAAHACADAAD3AgAgBAAA-AIAIBQAALwDACCqAQEAqgIAIasBgAAAAAHDAQEAugIAIcQBAQC6AgAhBgMAAPcCACAEAAD4AgAgqgEBAKoCACGrAYAAAAABwwEBALoCACHEAQEAugIAIQOqAQEAAAABqwGAAAAAAb8BgAAAAAECAAAAwQEAIBsAAL0DACADAAAAxAEAIBsAAL0DACAcAADBAwAgBQAAAMQBACAUAADBAwAgqgEBAKoCACGrAYAAAAABvwGAAAAAAQOqAQEAqgIAIasBgAAAAAG_AYAAAAABDaoBAQAAAAGrAYAAAAABrQFAAAAAAa4BQAAAAAHDAQEAAAABxQEBAAAAAccBAQAAAAHIAQEAAAAByQEBAAAAAcoBAQAAAAHLAQEAAAABzAGAAAAAAc0BAgAAAAEDqgEBAAAAAasBgAAAAAG_AYAAAAABAgAAAEgAIBsAAMMDACADqgEBAAAAAasBgAAAAAG_AYAAAAABAgAAAKgBACAbAADFAwAgBgQAAJEDACAFAACHAwAgqgEBAAAAAasBgAAAAAHDAQEAAAABxAEBAAAAAQIAAAAKACAbAADHAwAgEwcAANwCACAIAADdAgAgCQAA3gIAIAoAAPECACALAADfAgAgqgEBAAAAAasBgAAAAAGtAUAAAAABrgFAAAAAAcMBAQAAAAHFAQEAAAABxgEBAAAAAccBAQAAAAHIAQEAAAAByQEBAAAAAcoBAQAAAAHLAQEAAAABzAGAAAAAAc0BAgAAAAECAAAABQAgGwAAyQMAIAMAAAADACAbAADJAwAgHAAAzQMAIBUAAAADACAHAAC9AgAgCAAAvgIAIAkAAL8CACAKAADvAgAgCwAAwAIAIBQAAM0DACCqAQEAqgIAIasBgAAAAAGtAUAAqwIAIa4BQACrAgAhwwEBAKoCACHFAQEAqgIAIcYBAQCqAgAhxwEBAKoCACHIAQEAqgIAIckBAQCqAgAhygEBALoCACHLAQEAugIAIcwBgAAAAAHNAQIAuwIAIRMHAAC9AgAgCAAAvgIAIAkAAL8CACAKAADvAgAgCwAAwAIAIKoBAQCqAgAhqwGAAAAAAa0BQACrAgAhrgFAAKsCACHDAQEAqgIAIcUBAQCqAgAhxgEBAKoCACHHAQEAqgIAIcgBAQCqAgAhyQEBAKoCACHKAQEAugIAIcsBAQC6AgAhzAGAAAAAAc0BAgC7AgAhBNIBAQAAAAHTAQEAAAAB1AEBAAAAAdUBAQAAAAETBwAA3AIAIAgAAN0CACAJAADeAgAgCgAA8QIAIAwAAOACACCqAQEAAAABqwGAAAAAAa0BQAAAAAGuAUAAAAABwwEBAAAAAcUBAQAAAAHGAQEAAAABxwEBAAAAAcgBAQAAAAHJAQEAAAABygEBAAAAAcsBAQAAAAHMAYAAAAABzQECAAAAAQIAAAAFACAbAADPAwAgAwAAAAMAIBsAAM8DACAcAADTAwAgFQAAAAMAIAcAAL0CACAIAAC-AgAgCQAAvwIAIAoAAO8CACAMAADBAgAgFAAA0wMAIKoBAQCqAgAhqwGAAAAAAa0BQACrAgAhrgFAAKsCACHDAQEAqgIAIcUBAQCqAgAhxgEBAKoCACHHAQEAqgIAIcgBAQCqAgAhyQEBAKoCACHKAQEAugIAIcsBAQC6AgAhzAGAAAAAAc0BAgC7AgAhEwcAAL0CACAIAAC-AgAgCQAAvwIAIAoAAO8CACAMAADBAgAgqgEBAKoCACGrAYAAAAABrQFAAKsCACGuAUAAqwIAIcMBAQCqAgAhxQEBAKoCACHGAQEAqgIAIccBAQCqAgAhyAEBAKoCACHJAQEAqgIAIcoBAQC6AgAhywEBALoCACHMAYAAAAABzQECALsCACEEzgEBAAAAAdMBAQAAAAHUAQEAAAAB1QEBAAAAAQMAAABLACAbAADDAwAgHAAA1wMAIAUAAABLACAUAADXAwAgqgEBAKoCACGrAYAAAAABvwGAAAAAAQOqAQEAqgIAIasBgAAAAAG_AYAAAAABAwAAAKsBACAbAADFAwAgHAAA2gMAIAUAAACrAQAgFAAA2gMAIKoBAQCqAgAhqwGAAAAAAb8BgAAAAAEDqgEBAKoCACGrAYAAAAABvwGAAAAAAQMAAAAHACAbAADHAwAgHAAA3QMAIAgAAAAHACAEAAD4AgAgBQAA-QIAIBQAAN0DACCqAQEAqgIAIasBgAAAAAHDAQEAugIAIcQBAQC6AgAhBgQAAPgCACAFAAD5AgAgqgEBAKoCACGrAYAAAAABwwEBALoCACHEAQEAugIAIQ2qAQEAAAABqwGAAAAAAa0BQAAAAAGuAUAAAAABwwEBAAAAAcUBAQAAAAHGAQEAAAABxwEBAAAAAckBAQAAAAHKAQEAAAABywEBAAAAAcwBgAAAAAHNAQIAAAABAg0AAg4AAgcGAAsHAAMIAAUJAAcKAAkLFgEMFwEEAwYCBAgDBQsDBgAEAgMMAAUNAAIDDgIGAAYBAw8AAgMQAgYACAEDEQACAxICBgAKAQMTAAILGAAMGQAAAg0AAg4AAgINAAIOAAIDBgAQIQARIgASAAAAAwYAECEAESIAEgAAAAMGABghABkiABoAAAADBgAYIQAZIgAaAAADBgAfIQAgIgAhAAAAAwYAHyEAICIAIQAAAAMGACchACgiACkAAAADBgAnIQAoIgApBAcAAwgABQkABwoACQQHAAMIAAUJAAcKAAkFBgAuIQAxIgAyYwAvZAAwAAAAAAAFBgAuIQAxIgAyYwAvZAAwAQSaAQMBBKABAwMGADchADgiADkAAAADBgA3IQA4IgA5AAADBgA-IQA_IgBAAAAAAwYAPiEAPyIAQAAAAwYARSEARiIARwAAAAMGAEUhAEYiAEcAAAADBgBNIQBOIgBPAAAAAwYATSEATiIATw8CARAaAREbARIcARMdARUfARYhDBciDRgkARkmDBonDh0oAR4pAR8qDCMtDyQuEyUwFCYxFCc0FCg1FCk2FCo4FCs6DCw7FS09FC4_DC9AFjBBFDFCFDJDDDNGFzRHGzVJBzZKBzdNBzhOBzlPBzpRBztTDDxUHD1WBz5YDD9ZHUBaB0FbB0JcDENfHkRgIkViI0ZjI0dmI0hnI0loI0pqI0tsDExtJE1vI05xDE9yJVBzI1F0I1J1DFN4JlR5KlV6AlZ7Ald8Alh9All-AlqAAQJbggEMXIMBK12FAQJehwEMX4gBLGCJAQJhigECYosBDGWOAS1mjwEzZ5ABA2iRAQNpkgEDapMBA2uUAQNslgEDbZgBDG6ZATRvnAEDcJ4BDHGfATVyoQEDc6IBA3SjAQx1pgE2dqcBOnepAQV4qgEFea0BBXquAQV7rwEFfLEBBX2zAQx-tAE7f7YBBYABuAEMgQG5ATyCAboBBYMBuwEFhAG8AQyFAb8BPYYBwAFBhwHCAQmIAcMBCYkBxgEJigHHAQmLAcgBCYwBygEJjQHMAQyOAc0BQo8BzwEJkAHRAQyRAdIBQ5IB0wEJkwHUAQmUAdUBDJUB2AFElgHZAUiXAdsBSZgB3AFJmQHfAUmaAeABSZsB4QFJnAHjAUmdAeUBDJ4B5gFKnwHoAUmgAeoBDKEB6wFLogHsAUmjAe0BSaQB7gEMpQHxAUymAfIBUA"
+  strings: JSON.parse("[\"where\",\"orderBy\",\"cursor\",\"projects\",\"parent\",\"children\",\"_count\",\"space\",\"modelStorage\",\"library\",\"pulumiBackend\",\"importPorts\",\"exportPorts\",\"project\",\"sourceProject\",\"ProjectImportPort.findUnique\",\"ProjectImportPort.findUniqueOrThrow\",\"ProjectImportPort.findFirst\",\"ProjectImportPort.findFirstOrThrow\",\"ProjectImportPort.findMany\",\"data\",\"ProjectImportPort.createOne\",\"ProjectImportPort.createMany\",\"ProjectImportPort.createManyAndReturn\",\"ProjectImportPort.updateOne\",\"ProjectImportPort.updateMany\",\"ProjectImportPort.updateManyAndReturn\",\"create\",\"update\",\"ProjectImportPort.upsertOne\",\"ProjectImportPort.deleteOne\",\"ProjectImportPort.deleteMany\",\"having\",\"_min\",\"_max\",\"ProjectImportPort.groupBy\",\"ProjectImportPort.aggregate\",\"UserWorkspaceLayout.findUnique\",\"UserWorkspaceLayout.findUniqueOrThrow\",\"UserWorkspaceLayout.findFirst\",\"UserWorkspaceLayout.findFirstOrThrow\",\"UserWorkspaceLayout.findMany\",\"UserWorkspaceLayout.createOne\",\"UserWorkspaceLayout.createMany\",\"UserWorkspaceLayout.createManyAndReturn\",\"UserWorkspaceLayout.updateOne\",\"UserWorkspaceLayout.updateMany\",\"UserWorkspaceLayout.updateManyAndReturn\",\"UserWorkspaceLayout.upsertOne\",\"UserWorkspaceLayout.deleteOne\",\"UserWorkspaceLayout.deleteMany\",\"UserWorkspaceLayout.groupBy\",\"UserWorkspaceLayout.aggregate\",\"Library.findUnique\",\"Library.findUniqueOrThrow\",\"Library.findFirst\",\"Library.findFirstOrThrow\",\"Library.findMany\",\"Library.createOne\",\"Library.createMany\",\"Library.createManyAndReturn\",\"Library.updateOne\",\"Library.updateMany\",\"Library.updateManyAndReturn\",\"Library.upsertOne\",\"Library.deleteOne\",\"Library.deleteMany\",\"Library.groupBy\",\"Library.aggregate\",\"holder\",\"leases\",\"LockHolder.findUnique\",\"LockHolder.findUniqueOrThrow\",\"LockHolder.findFirst\",\"LockHolder.findFirstOrThrow\",\"LockHolder.findMany\",\"LockHolder.createOne\",\"LockHolder.createMany\",\"LockHolder.createManyAndReturn\",\"LockHolder.updateOne\",\"LockHolder.updateMany\",\"LockHolder.updateManyAndReturn\",\"LockHolder.upsertOne\",\"LockHolder.deleteOne\",\"LockHolder.deleteMany\",\"LockHolder.groupBy\",\"LockHolder.aggregate\",\"LockLease.findUnique\",\"LockLease.findUniqueOrThrow\",\"LockLease.findFirst\",\"LockLease.findFirstOrThrow\",\"LockLease.findMany\",\"LockLease.createOne\",\"LockLease.createMany\",\"LockLease.createManyAndReturn\",\"LockLease.updateOne\",\"LockLease.updateMany\",\"LockLease.updateManyAndReturn\",\"LockLease.upsertOne\",\"LockLease.deleteOne\",\"LockLease.deleteMany\",\"LockLease.groupBy\",\"LockLease.aggregate\",\"Object.findUnique\",\"Object.findUniqueOrThrow\",\"Object.findFirst\",\"Object.findFirstOrThrow\",\"Object.findMany\",\"Object.createOne\",\"Object.createMany\",\"Object.createManyAndReturn\",\"Object.updateOne\",\"Object.updateMany\",\"Object.updateManyAndReturn\",\"Object.upsertOne\",\"Object.deleteOne\",\"Object.deleteMany\",\"Object.groupBy\",\"Object.aggregate\",\"Project.findUnique\",\"Project.findUniqueOrThrow\",\"Project.findFirst\",\"Project.findFirstOrThrow\",\"Project.findMany\",\"Project.createOne\",\"Project.createMany\",\"Project.createManyAndReturn\",\"Project.updateOne\",\"Project.updateMany\",\"Project.updateManyAndReturn\",\"Project.upsertOne\",\"Project.deleteOne\",\"Project.deleteMany\",\"_avg\",\"_sum\",\"Project.groupBy\",\"Project.aggregate\",\"ProjectSpace.findUnique\",\"ProjectSpace.findUniqueOrThrow\",\"ProjectSpace.findFirst\",\"ProjectSpace.findFirstOrThrow\",\"ProjectSpace.findMany\",\"ProjectSpace.createOne\",\"ProjectSpace.createMany\",\"ProjectSpace.createManyAndReturn\",\"ProjectSpace.updateOne\",\"ProjectSpace.updateMany\",\"ProjectSpace.updateManyAndReturn\",\"ProjectSpace.upsertOne\",\"ProjectSpace.deleteOne\",\"ProjectSpace.deleteMany\",\"ProjectSpace.groupBy\",\"ProjectSpace.aggregate\",\"ProjectModelStorage.findUnique\",\"ProjectModelStorage.findUniqueOrThrow\",\"ProjectModelStorage.findFirst\",\"ProjectModelStorage.findFirstOrThrow\",\"ProjectModelStorage.findMany\",\"ProjectModelStorage.createOne\",\"ProjectModelStorage.createMany\",\"ProjectModelStorage.createManyAndReturn\",\"ProjectModelStorage.updateOne\",\"ProjectModelStorage.updateMany\",\"ProjectModelStorage.updateManyAndReturn\",\"ProjectModelStorage.upsertOne\",\"ProjectModelStorage.deleteOne\",\"ProjectModelStorage.deleteMany\",\"ProjectModelStorage.groupBy\",\"ProjectModelStorage.aggregate\",\"PulumiBackend.findUnique\",\"PulumiBackend.findUniqueOrThrow\",\"PulumiBackend.findFirst\",\"PulumiBackend.findFirstOrThrow\",\"PulumiBackend.findMany\",\"PulumiBackend.createOne\",\"PulumiBackend.createMany\",\"PulumiBackend.createManyAndReturn\",\"PulumiBackend.updateOne\",\"PulumiBackend.updateMany\",\"PulumiBackend.updateManyAndReturn\",\"PulumiBackend.upsertOne\",\"PulumiBackend.deleteOne\",\"PulumiBackend.deleteMany\",\"PulumiBackend.groupBy\",\"PulumiBackend.aggregate\",\"BackendUnlockMethod.findUnique\",\"BackendUnlockMethod.findUniqueOrThrow\",\"BackendUnlockMethod.findFirst\",\"BackendUnlockMethod.findFirstOrThrow\",\"BackendUnlockMethod.findMany\",\"BackendUnlockMethod.createOne\",\"BackendUnlockMethod.createMany\",\"BackendUnlockMethod.createManyAndReturn\",\"BackendUnlockMethod.updateOne\",\"BackendUnlockMethod.updateMany\",\"BackendUnlockMethod.updateManyAndReturn\",\"BackendUnlockMethod.upsertOne\",\"BackendUnlockMethod.deleteOne\",\"BackendUnlockMethod.deleteMany\",\"BackendUnlockMethod.groupBy\",\"BackendUnlockMethod.aggregate\",\"user\",\"sessions\",\"User.findUnique\",\"User.findUniqueOrThrow\",\"User.findFirst\",\"User.findFirstOrThrow\",\"User.findMany\",\"User.createOne\",\"User.createMany\",\"User.createManyAndReturn\",\"User.updateOne\",\"User.updateMany\",\"User.updateManyAndReturn\",\"User.upsertOne\",\"User.deleteOne\",\"User.deleteMany\",\"User.groupBy\",\"User.aggregate\",\"UserSession.findUnique\",\"UserSession.findUniqueOrThrow\",\"UserSession.findFirst\",\"UserSession.findFirstOrThrow\",\"UserSession.findMany\",\"UserSession.createOne\",\"UserSession.createMany\",\"UserSession.createManyAndReturn\",\"UserSession.updateOne\",\"UserSession.updateMany\",\"UserSession.updateManyAndReturn\",\"UserSession.upsertOne\",\"UserSession.deleteOne\",\"UserSession.deleteMany\",\"UserSession.groupBy\",\"UserSession.aggregate\",\"AND\",\"OR\",\"NOT\",\"id\",\"userId\",\"createdAt\",\"expiresAt\",\"equals\",\"in\",\"notIn\",\"lt\",\"lte\",\"gt\",\"gte\",\"not\",\"contains\",\"startsWith\",\"endsWith\",\"username\",\"displayName\",\"email\",\"passwordHash\",\"oidcIssuer\",\"oidcSubject\",\"updatedAt\",\"every\",\"some\",\"none\",\"oidcIssuer_oidcSubject\",\"meta\",\"recipient\",\"string_contains\",\"string_starts_with\",\"string_ends_with\",\"array_starts_with\",\"array_ends_with\",\"spec\",\"name\",\"parentId\",\"spaceId\",\"modelStorageId\",\"libraryId\",\"pulumiBackendId\",\"encryptedMasterKey\",\"encryptedPrivateKey\",\"publicKey\",\"unlockSuite\",\"databaseVersion\",\"projectId\",\"id_projectId\",\"key\",\"holderId\",\"acquiredAt\",\"startedAt\",\"layout\",\"sourceProjectId\",\"sourceStateId\",\"contentHash\",\"encryptedContent\",\"parentId_name\",\"spaceId_name\",\"projectId_sourceStateId\",\"is\",\"isNot\",\"connectOrCreate\",\"upsert\",\"createMany\",\"set\",\"disconnect\",\"delete\",\"connect\",\"updateMany\",\"deleteMany\",\"increment\",\"decrement\",\"multiply\",\"divide\"]"),
+  graph: "jwVy0AELDQAAjgMAIA4AAI4DACDrAQAAjQMAMOwBAAAUABDtAQAAjQMAMJsCAQDpAgAhogIBAOkCACGjAgEA6QIAIaQCAQDpAgAhpQIBAOkCACGoAgAAmwMAIAEAAAABACAXBwAAlgMAIAgAAJcDACAJAACYAwAgCgAAmQMAIAsAAJoDACAMAACaAwAg6wEAAJQDADDsAQAAAwAQ7QEAAJQDADDuAQEA6QIAIfABQADrAgAhgwJAAOsCACGIAgAA9AIAIJACAQDpAgAhkgIBAOkCACGTAgEA6QIAIZQCAQDpAgAhlQIBAOkCACGWAgEA6QIAIZcCAQDqAgAhmAIBAOoCACGZAgAA9AIAIJoCAgCVAwAhCAcAANQEACAIAADWBAAgCQAA1wQAIAoAANgEACALAADZBAAgDAAA2QQAIJcCAACjAwAgmAIAAKMDACAYBwAAlgMAIAgAAJcDACAJAACYAwAgCgAAmQMAIAsAAJoDACAMAACaAwAg6wEAAJQDADDsAQAAAwAQ7QEAAJQDADDuAQEAAAAB8AFAAOsCACGDAkAA6wIAIYgCAAD0AgAgkAIBAOkCACGSAgEA6QIAIZMCAQDpAgAhlAIBAOkCACGVAgEA6QIAIZYCAQDpAgAhlwIBAOoCACGYAgEA6gIAIZkCAAD0AgAgmgICAJUDACGnAgAAkwMAIAMAAAADACABAAAEADACAAAFACAKAwAA9wIAIAQAAJEDACAFAACSAwAg6wEAAJADADDsAQAABwAQ7QEAAJADADDuAQEA6QIAIYgCAAD0AgAgkAIBAOoCACGRAgEA6gIAIQEAAAAHACAFAwAA8AMAIAQAANQEACAFAADVBAAgkAIAAKMDACCRAgAAowMAIAsDAAD3AgAgBAAAkQMAIAUAAJIDACDrAQAAkAMAMOwBAAAHABDtAQAAkAMAMO4BAQAAAAGIAgAA9AIAIJACAQDqAgAhkQIBAOoCACGmAgAAjwMAIAMAAAAHACABAAAJADACAAAKACABAAAAAwAgAQAAAAcAIAMAAAADACABAAAEADACAAAFACABAAAAAwAgAwAAAAMAIAEAAAQAMAIAAAUAIAEAAAADACADAAAAAwAgAQAABAAwAgAABQAgAQAAAAMAIAoNAACOAwAgDgAAjgMAIOsBAACNAwAw7AEAABQAEO0BAACNAwAwmwIBAOkCACGiAgEA6QIAIaMCAQDpAgAhpAIBAOkCACGlAgEA6QIAIQINAADTBAAgDgAA0wQAIAMAAAAUACABAAAVADACAAABACADAAAAFAAgAQAAFQAwAgAAAQAgAQAAABQAIAEAAAAUACABAAAAAQAgAwAAABQAIAEAABUAMAIAAAEAIAMAAAAUACABAAAVADACAAABACADAAAAFAAgAQAAFQAwAgAAAQAgBw0AAN0DACAOAADoAwAgmwIBAAAAAaICAQAAAAGjAgEAAAABpAIBAAAAAaUCAQAAAAEBFAAAHgAgBZsCAQAAAAGiAgEAAAABowIBAAAAAaQCAQAAAAGlAgEAAAABARQAACAAMAEUAAAgADAHDQAA2wMAIA4AAOYDACCbAgEAnwMAIaICAQCfAwAhowIBAJ8DACGkAgEAnwMAIaUCAQCfAwAhAgAAAAEAIBQAACMAIAWbAgEAnwMAIaICAQCfAwAhowIBAJ8DACGkAgEAnwMAIaUCAQCfAwAhAgAAABQAIBQAACUAIAIAAAAUACAUAAAlACADAAAAAQAgGwAAHgAgHAAAIwAgAQAAAAEAIAEAAAAUACADBgAA0AQAICEAANIEACAiAADRBAAgCOsBAACMAwAw7AEAACwAEO0BAACMAwAwmwIBANwCACGiAgEA3AIAIaMCAQDcAgAhpAIBANwCACGlAgEA3AIAIQMAAAAUACABAAArADAgAAAsACADAAAAFAAgAQAAFQAwAgAAAQAgBesBAACLAwAw7AEAADIAEO0BAACLAwAw7wEBAAAAAaECAAD0AgAgAQAAAC8AIAEAAAAvACAF6wEAAIsDADDsAQAAMgAQ7QEAAIsDADDvAQEA6QIAIaECAAD0AgAgAAMAAAAyACABAAAzADACAAAvACADAAAAMgAgAQAAMwAwAgAALwAgAwAAADIAIAEAADMAMAIAAC8AIALvAQEAAAABoQKAAAAAAQEUAAA3ACAC7wEBAAAAAaECgAAAAAEBFAAAOQAwARQAADkAMALvAQEAnwMAIaECgAAAAAECAAAALwAgFAAAPAAgAu8BAQCfAwAhoQKAAAAAAQIAAAAyACAUAAA-ACACAAAAMgAgFAAAPgAgAwAAAC8AIBsAADcAIBwAADwAIAEAAAAvACABAAAAMgAgAwYAAM0EACAhAADPBAAgIgAAzgQAIAXrAQAAigMAMOwBAABFABDtAQAAigMAMO8BAQDcAgAhoQIAAPECACADAAAAMgAgAQAARAAwIAAARQAgAwAAADIAIAEAADMAMAIAAC8AIAcDAAD3AgAg6wEAAIkDADDsAQAASwAQ7QEAAIkDADDuAQEAAAABiAIAAPQCACCPAgAA9AIAIAEAAABIACABAAAASAAgBwMAAPcCACDrAQAAiQMAMOwBAABLABDtAQAAiQMAMO4BAQDpAgAhiAIAAPQCACCPAgAA9AIAIAEDAADwAwAgAwAAAEsAIAEAAEwAMAIAAEgAIAMAAABLACABAABMADACAABIACADAAAASwAgAQAATAAwAgAASAAgBAMAAMwEACDuAQEAAAABiAKAAAAAAY8CgAAAAAEBFAAAUAAgA-4BAQAAAAGIAoAAAAABjwKAAAAAAQEUAABSADABFAAAUgAwBAMAAMIEACDuAQEAnwMAIYgCgAAAAAGPAoAAAAABAgAAAEgAIBQAAFUAIAPuAQEAnwMAIYgCgAAAAAGPAoAAAAABAgAAAEsAIBQAAFcAIAIAAABLACAUAABXACADAAAASAAgGwAAUAAgHAAAVQAgAQAAAEgAIAEAAABLACADBgAAvwQAICEAAMEEACAiAADABAAgBusBAACIAwAw7AEAAF4AEO0BAACIAwAw7gEBANwCACGIAgAA8QIAII8CAADxAgAgAwAAAEsAIAEAAF0AMCAAAF4AIAMAAABLACABAABMADACAABIACAHRgAAhQMAIOsBAACEAwAw7AEAAGkAEO0BAACEAwAw7gEBAAAAAfEBQADrAgAhoAJAAOsCACEBAAAAYQAgB0UAAIcDACDrAQAAhgMAMOwBAABjABDtAQAAhgMAMJ0CAQDpAgAhngIBAOkCACGfAkAA6wIAIQFFAAC-BAAgB0UAAIcDACDrAQAAhgMAMOwBAABjABDtAQAAhgMAMJ0CAQAAAAGeAgEA6QIAIZ8CQADrAgAhAwAAAGMAIAEAAGQAMAIAAGUAIAEAAABjACABAAAAYQAgB0YAAIUDACDrAQAAhAMAMOwBAABpABDtAQAAhAMAMO4BAQDpAgAh8QFAAOsCACGgAkAA6wIAIQFGAAC9BAAgAwAAAGkAIAEAAGoAMAIAAGEAIAMAAABpACABAABqADACAABhACADAAAAaQAgAQAAagAwAgAAYQAgBEYAALwEACDuAQEAAAAB8QFAAAAAAaACQAAAAAEBFAAAbgAgA-4BAQAAAAHxAUAAAAABoAJAAAAAAQEUAABwADABFAAAcAAwBEYAAK8EACDuAQEAnwMAIfEBQACgAwAhoAJAAKADACECAAAAYQAgFAAAcwAgA-4BAQCfAwAh8QFAAKADACGgAkAAoAMAIQIAAABpACAUAAB1ACACAAAAaQAgFAAAdQAgAwAAAGEAIBsAAG4AIBwAAHMAIAEAAABhACABAAAAaQAgAwYAAKwEACAhAACuBAAgIgAArQQAIAbrAQAAgwMAMOwBAAB8ABDtAQAAgwMAMO4BAQDcAgAh8QFAAN0CACGgAkAA3QIAIQMAAABpACABAAB7ADAgAAB8ACADAAAAaQAgAQAAagAwAgAAYQAgAQAAAGUAIAEAAABlACADAAAAYwAgAQAAZAAwAgAAZQAgAwAAAGMAIAEAAGQAMAIAAGUAIAMAAABjACABAABkADACAABlACAERQAAqwQAIJ0CAQAAAAGeAgEAAAABnwJAAAAAAQEUAACEAQAgA50CAQAAAAGeAgEAAAABnwJAAAAAAQEUAACGAQAwARQAAIYBADAERQAAqgQAIJ0CAQCfAwAhngIBAJ8DACGfAkAAoAMAIQIAAABlACAUAACJAQAgA50CAQCfAwAhngIBAJ8DACGfAkAAoAMAIQIAAABjACAUAACLAQAgAgAAAGMAIBQAAIsBACADAAAAZQAgGwAAhAEAIBwAAIkBACABAAAAZQAgAQAAAGMAIAMGAACnBAAgIQAAqQQAICIAAKgEACAG6wEAAIIDADDsAQAAkgEAEO0BAACCAwAwnQIBANwCACGeAgEA3AIAIZ8CQADdAgAhAwAAAGMAIAEAAJEBADAgAACSAQAgAwAAAGMAIAEAAGQAMAIAAGUAIAbrAQAAgAMAMOwBAACYAQAQ7QEAAIADADDuAQEA6QIAIZsCAQDpAgAhnAIAAIEDACABAAAAlQEAIAEAAACVAQAgBesBAACAAwAw7AEAAJgBABDtAQAAgAMAMO4BAQDpAgAhmwIBAOkCACEAAwAAAJgBACABAACZAQAwAgAAlQEAIAMAAACYAQAgAQAAmQEAMAIAAJUBACADAAAAmAEAIAEAAJkBADACAACVAQAgAu4BAQAAAAGbAgEAAAABARQAAJ0BACAC7gEBAAAAAZsCAQAAAAEBFAAAnwEAMAEUAACfAQAwAu4BAQCfAwAhmwIBAJ8DACECAAAAlQEAIBQAAKIBACAC7gEBAJ8DACGbAgEAnwMAIQIAAACYAQAgFAAApAEAIAIAAACYAQAgFAAApAEAIAMAAACVAQAgGwAAnQEAIBwAAKIBACABAAAAlQEAIAEAAACYAQAgAwYAAKQEACAhAACmBAAgIgAApQQAIAXrAQAA_wIAMOwBAACrAQAQ7QEAAP8CADDuAQEA3AIAIZsCAQDcAgAhAwAAAJgBACABAACqAQAwIAAAqwEAIAMAAACYAQAgAQAAmQEAMAIAAJUBACABAAAABQAgAQAAAAUAIAMAAAADACABAAAEADACAAAFACADAAAAAwAgAQAABAAwAgAABQAgAwAAAAMAIAEAAAQAMAIAAAUAIBQHAADqAwAgCAAA6wMAIAkAAOwDACAKAAD_AwAgCwAA7QMAIAwAAO4DACDuAQEAAAAB8AFAAAAAAYMCQAAAAAGIAoAAAAABkAIBAAAAAZICAQAAAAGTAgEAAAABlAIBAAAAAZUCAQAAAAGWAgEAAAABlwIBAAAAAZgCAQAAAAGZAoAAAAABmgICAAAAAQEUAACzAQAgDu4BAQAAAAHwAUAAAAABgwJAAAAAAYgCgAAAAAGQAgEAAAABkgIBAAAAAZMCAQAAAAGUAgEAAAABlQIBAAAAAZYCAQAAAAGXAgEAAAABmAIBAAAAAZkCgAAAAAGaAgIAAAABARQAALUBADABFAAAtQEAMBQHAADLAwAgCAAAzAMAIAkAAM0DACAKAAD9AwAgCwAAzgMAIAwAAM8DACDuAQEAnwMAIfABQACgAwAhgwJAAKADACGIAoAAAAABkAIBAJ8DACGSAgEAnwMAIZMCAQCfAwAhlAIBAJ8DACGVAgEAnwMAIZYCAQCfAwAhlwIBAKcDACGYAgEApwMAIZkCgAAAAAGaAgIAyQMAIQIAAAAFACAUAAC4AQAgDu4BAQCfAwAh8AFAAKADACGDAkAAoAMAIYgCgAAAAAGQAgEAnwMAIZICAQCfAwAhkwIBAJ8DACGUAgEAnwMAIZUCAQCfAwAhlgIBAJ8DACGXAgEApwMAIZgCAQCnAwAhmQKAAAAAAZoCAgDJAwAhAgAAAAMAIBQAALoBACACAAAAAwAgFAAAugEAIAMAAAAFACAbAACzAQAgHAAAuAEAIAEAAAAFACABAAAAAwAgBwYAAJ8EACAhAACiBAAgIgAAoQQAIIUBAACgBAAghgEAAKMEACCXAgAAowMAIJgCAACjAwAgEesBAAD7AgAw7AEAAMEBABDtAQAA-wIAMO4BAQDcAgAh8AFAAN0CACGDAkAA3QIAIYgCAADxAgAgkAIBANwCACGSAgEA3AIAIZMCAQDcAgAhlAIBANwCACGVAgEA3AIAIZYCAQDcAgAhlwIBAOQCACGYAgEA5AIAIZkCAADxAgAgmgICAPwCACEDAAAAAwAgAQAAwAEAMCAAAMEBACADAAAAAwAgAQAABAAwAgAABQAgAQAAAAoAIAEAAAAKACADAAAABwAgAQAACQAwAgAACgAgAwAAAAcAIAEAAAkAMAIAAAoAIAMAAAAHACABAAAJADACAAAKACAHAwAAkwQAIAQAAJ4EACAFAACUBAAg7gEBAAAAAYgCgAAAAAGQAgEAAAABkQIBAAAAAQEUAADJAQAgBO4BAQAAAAGIAoAAAAABkAIBAAAAAZECAQAAAAEBFAAAywEAMAEUAADLAQAwAQAAAAcAIAcDAACEBAAgBAAAhQQAIAUAAIYEACDuAQEAnwMAIYgCgAAAAAGQAgEApwMAIZECAQCnAwAhAgAAAAoAIBQAAM8BACAE7gEBAJ8DACGIAoAAAAABkAIBAKcDACGRAgEApwMAIQIAAAAHACAUAADRAQAgAgAAAAcAIBQAANEBACABAAAABwAgAwAAAAoAIBsAAMkBACAcAADPAQAgAQAAAAoAIAEAAAAHACAFBgAAgQQAICEAAIMEACAiAACCBAAgkAIAAKMDACCRAgAAowMAIAfrAQAA-gIAMOwBAADZAQAQ7QEAAPoCADDuAQEA3AIAIYgCAADxAgAgkAIBAOQCACGRAgEA5AIAIQMAAAAHACABAADYAQAwIAAA2QEAIAMAAAAHACABAAAJADACAAAKACAHAwAA9wIAIOsBAAD5AgAw7AEAAN8BABDtAQAA-QIAMO4BAQAAAAGIAgAA9AIAII8CAAD0AgAgAQAAANwBACABAAAA3AEAIAcDAAD3AgAg6wEAAPkCADDsAQAA3wEAEO0BAAD5AgAw7gEBAOkCACGIAgAA9AIAII8CAAD0AgAgAQMAAPADACADAAAA3wEAIAEAAOABADACAADcAQAgAwAAAN8BACABAADgAQAwAgAA3AEAIAMAAADfAQAgAQAA4AEAMAIAANwBACAEAwAAgAQAIO4BAQAAAAGIAoAAAAABjwKAAAAAAQEUAADkAQAgA-4BAQAAAAGIAoAAAAABjwKAAAAAAQEUAADmAQAwARQAAOYBADAEAwAA9AMAIO4BAQCfAwAhiAKAAAAAAY8CgAAAAAECAAAA3AEAIBQAAOkBACAD7gEBAJ8DACGIAoAAAAABjwKAAAAAAQIAAADfAQAgFAAA6wEAIAIAAADfAQAgFAAA6wEAIAMAAADcAQAgGwAA5AEAIBwAAOkBACABAAAA3AEAIAEAAADfAQAgAwYAAPEDACAhAADzAwAgIgAA8gMAIAbrAQAA-AIAMOwBAADyAQAQ7QEAAPgCADDuAQEA3AIAIYgCAADxAgAgjwIAAPECACADAAAA3wEAIAEAAPEBADAgAADyAQAgAwAAAN8BACABAADgAQAwAgAA3AEAIAcDAAD3AgAg6wEAAPYCADDsAQAA-AEAEO0BAAD2AgAw7gEBAAAAAYgCAAD0AgAgjwIAAPQCACABAAAA9QEAIAEAAAD1AQAgBwMAAPcCACDrAQAA9gIAMOwBAAD4AQAQ7QEAAPYCADDuAQEA6QIAIYgCAAD0AgAgjwIAAPQCACABAwAA8AMAIAMAAAD4AQAgAQAA-QEAMAIAAPUBACADAAAA-AEAIAEAAPkBADACAAD1AQAgAwAAAPgBACABAAD5AQAwAgAA9QEAIAQDAADvAwAg7gEBAAAAAYgCgAAAAAGPAoAAAAABARQAAP0BACAD7gEBAAAAAYgCgAAAAAGPAoAAAAABARQAAP8BADABFAAA_wEAMAQDAAC-AwAg7gEBAJ8DACGIAoAAAAABjwKAAAAAAQIAAAD1AQAgFAAAggIAIAPuAQEAnwMAIYgCgAAAAAGPAoAAAAABAgAAAPgBACAUAACEAgAgAgAAAPgBACAUAACEAgAgAwAAAPUBACAbAAD9AQAgHAAAggIAIAEAAAD1AQAgAQAAAPgBACADBgAAuwMAICEAAL0DACAiAAC8AwAgBusBAAD1AgAw7AEAAIsCABDtAQAA9QIAMO4BAQDcAgAhiAIAAPECACCPAgAA8QIAIAMAAAD4AQAgAQAAigIAMCAAAIsCACADAAAA-AEAIAEAAPkBADACAAD1AQAgCOsBAADzAgAw7AEAAJECABDtAQAA8wIAMO4BAQAAAAHwAUAA6wIAIYMCQADrAgAhiAIAAPQCACCJAgEAAAABAQAAAI4CACABAAAAjgIAIAjrAQAA8wIAMOwBAACRAgAQ7QEAAPMCADDuAQEA6QIAIfABQADrAgAhgwJAAOsCACGIAgAA9AIAIIkCAQDpAgAhAAMAAACRAgAgAQAAkgIAMAIAAI4CACADAAAAkQIAIAEAAJICADACAACOAgAgAwAAAJECACABAACSAgAwAgAAjgIAIAXuAQEAAAAB8AFAAAAAAYMCQAAAAAGIAoAAAAABiQIBAAAAAQEUAACWAgAgBe4BAQAAAAHwAUAAAAABgwJAAAAAAYgCgAAAAAGJAgEAAAABARQAAJgCADABFAAAmAIAMAXuAQEAnwMAIfABQACgAwAhgwJAAKADACGIAoAAAAABiQIBAJ8DACECAAAAjgIAIBQAAJsCACAF7gEBAJ8DACHwAUAAoAMAIYMCQACgAwAhiAKAAAAAAYkCAQCfAwAhAgAAAJECACAUAACdAgAgAgAAAJECACAUAACdAgAgAwAAAI4CACAbAACWAgAgHAAAmwIAIAEAAACOAgAgAQAAAJECACADBgAAuAMAICEAALoDACAiAAC5AwAgCOsBAADwAgAw7AEAAKQCABDtAQAA8AIAMO4BAQDcAgAh8AFAAN0CACGDAkAA3QIAIYgCAADxAgAgiQIBANwCACEDAAAAkQIAIAEAAKMCADAgAACkAgAgAwAAAJECACABAACSAgAwAgAAjgIAIA7KAQAA7AIAIOsBAADoAgAw7AEAAK8CABDtAQAA6AIAMO4BAQAAAAHwAUAA6wIAIf0BAQAAAAH-AQEA6gIAIf8BAQDqAgAhgAIBAOoCACGBAgEA6gIAIYICAQDqAgAhgwJAAOsCACGHAgAA7wIAIAEAAACnAgAgCMkBAADuAgAg6wEAAO0CADDsAQAAqQIAEO0BAADtAgAw7gEBAOkCACHvAQEA6QIAIfABQADrAgAh8QFAAOsCACEByQEAALcDACAIyQEAAO4CACDrAQAA7QIAMOwBAACpAgAQ7QEAAO0CADDuAQEAAAAB7wEBAOkCACHwAUAA6wIAIfEBQADrAgAhAwAAAKkCACABAACqAgAwAgAAqwIAIAEAAACpAgAgAQAAAKcCACANygEAAOwCACDrAQAA6AIAMOwBAACvAgAQ7QEAAOgCADDuAQEA6QIAIfABQADrAgAh_QEBAOoCACH-AQEA6gIAIf8BAQDqAgAhgAIBAOoCACGBAgEA6gIAIYICAQDqAgAhgwJAAOsCACEHygEAALYDACD9AQAAowMAIP4BAACjAwAg_wEAAKMDACCAAgAAowMAIIECAACjAwAgggIAAKMDACADAAAArwIAIAEAALACADACAACnAgAgAwAAAK8CACABAACwAgAwAgAApwIAIAMAAACvAgAgAQAAsAIAMAIAAKcCACAKygEAALUDACDuAQEAAAAB8AFAAAAAAf0BAQAAAAH-AQEAAAAB_wEBAAAAAYACAQAAAAGBAgEAAAABggIBAAAAAYMCQAAAAAEBFAAAtAIAIAnuAQEAAAAB8AFAAAAAAf0BAQAAAAH-AQEAAAAB_wEBAAAAAYACAQAAAAGBAgEAAAABggIBAAAAAYMCQAAAAAEBFAAAtgIAMAEUAAC2AgAwCsoBAACoAwAg7gEBAJ8DACHwAUAAoAMAIf0BAQCnAwAh_gEBAKcDACH_AQEApwMAIYACAQCnAwAhgQIBAKcDACGCAgEApwMAIYMCQACgAwAhAgAAAKcCACAUAAC5AgAgCe4BAQCfAwAh8AFAAKADACH9AQEApwMAIf4BAQCnAwAh_wEBAKcDACGAAgEApwMAIYECAQCnAwAhggIBAKcDACGDAkAAoAMAIQIAAACvAgAgFAAAuwIAIAIAAACvAgAgFAAAuwIAIAMAAACnAgAgGwAAtAIAIBwAALkCACABAAAApwIAIAEAAACvAgAgCQYAAKQDACAhAACmAwAgIgAApQMAIP0BAACjAwAg_gEAAKMDACD_AQAAowMAIIACAACjAwAggQIAAKMDACCCAgAAowMAIAzrAQAA4wIAMOwBAADCAgAQ7QEAAOMCADDuAQEA3AIAIfABQADdAgAh_QEBAOQCACH-AQEA5AIAIf8BAQDkAgAhgAIBAOQCACGBAgEA5AIAIYICAQDkAgAhgwJAAN0CACEDAAAArwIAIAEAAMECADAgAADCAgAgAwAAAK8CACABAACwAgAwAgAApwIAIAEAAACrAgAgAQAAAKsCACADAAAAqQIAIAEAAKoCADACAACrAgAgAwAAAKkCACABAACqAgAwAgAAqwIAIAMAAACpAgAgAQAAqgIAMAIAAKsCACAFyQEAAKIDACDuAQEAAAAB7wEBAAAAAfABQAAAAAHxAUAAAAABARQAAMoCACAE7gEBAAAAAe8BAQAAAAHwAUAAAAAB8QFAAAAAAQEUAADMAgAwARQAAMwCADAFyQEAAKEDACDuAQEAnwMAIe8BAQCfAwAh8AFAAKADACHxAUAAoAMAIQIAAACrAgAgFAAAzwIAIATuAQEAnwMAIe8BAQCfAwAh8AFAAKADACHxAUAAoAMAIQIAAACpAgAgFAAA0QIAIAIAAACpAgAgFAAA0QIAIAMAAACrAgAgGwAAygIAIBwAAM8CACABAAAAqwIAIAEAAACpAgAgAwYAAJwDACAhAACeAwAgIgAAnQMAIAfrAQAA2wIAMOwBAADYAgAQ7QEAANsCADDuAQEA3AIAIe8BAQDcAgAh8AFAAN0CACHxAUAA3QIAIQMAAACpAgAgAQAA1wIAMCAAANgCACADAAAAqQIAIAEAAKoCADACAACrAgAgB-sBAADbAgAw7AEAANgCABDtAQAA2wIAMO4BAQDcAgAh7wEBANwCACHwAUAA3QIAIfEBQADdAgAhDgYAAN8CACAhAADiAgAgIgAA4gIAIPIBAQAAAAHzAQEAAAAE9AEBAAAABPUBAQAAAAH2AQEAAAAB9wEBAAAAAfgBAQAAAAH5AQEA4QIAIfoBAQAAAAH7AQEAAAAB_AEBAAAAAQsGAADfAgAgIQAA4AIAICIAAOACACDyAUAAAAAB8wFAAAAABPQBQAAAAAT1AUAAAAAB9gFAAAAAAfcBQAAAAAH4AUAAAAAB-QFAAN4CACELBgAA3wIAICEAAOACACAiAADgAgAg8gFAAAAAAfMBQAAAAAT0AUAAAAAE9QFAAAAAAfYBQAAAAAH3AUAAAAAB-AFAAAAAAfkBQADeAgAhCPIBAgAAAAHzAQIAAAAE9AECAAAABPUBAgAAAAH2AQIAAAAB9wECAAAAAfgBAgAAAAH5AQIA3wIAIQjyAUAAAAAB8wFAAAAABPQBQAAAAAT1AUAAAAAB9gFAAAAAAfcBQAAAAAH4AUAAAAAB-QFAAOACACEOBgAA3wIAICEAAOICACAiAADiAgAg8gEBAAAAAfMBAQAAAAT0AQEAAAAE9QEBAAAAAfYBAQAAAAH3AQEAAAAB-AEBAAAAAfkBAQDhAgAh-gEBAAAAAfsBAQAAAAH8AQEAAAABC_IBAQAAAAHzAQEAAAAE9AEBAAAABPUBAQAAAAH2AQEAAAAB9wEBAAAAAfgBAQAAAAH5AQEA4gIAIfoBAQAAAAH7AQEAAAAB_AEBAAAAAQzrAQAA4wIAMOwBAADCAgAQ7QEAAOMCADDuAQEA3AIAIfABQADdAgAh_QEBAOQCACH-AQEA5AIAIf8BAQDkAgAhgAIBAOQCACGBAgEA5AIAIYICAQDkAgAhgwJAAN0CACEOBgAA5gIAICEAAOcCACAiAADnAgAg8gEBAAAAAfMBAQAAAAX0AQEAAAAF9QEBAAAAAfYBAQAAAAH3AQEAAAAB-AEBAAAAAfkBAQDlAgAh-gEBAAAAAfsBAQAAAAH8AQEAAAABDgYAAOYCACAhAADnAgAgIgAA5wIAIPIBAQAAAAHzAQEAAAAF9AEBAAAABfUBAQAAAAH2AQEAAAAB9wEBAAAAAfgBAQAAAAH5AQEA5QIAIfoBAQAAAAH7AQEAAAAB_AEBAAAAAQjyAQIAAAAB8wECAAAABfQBAgAAAAX1AQIAAAAB9gECAAAAAfcBAgAAAAH4AQIAAAAB-QECAOYCACEL8gEBAAAAAfMBAQAAAAX0AQEAAAAF9QEBAAAAAfYBAQAAAAH3AQEAAAAB-AEBAAAAAfkBAQDnAgAh-gEBAAAAAfsBAQAAAAH8AQEAAAABDcoBAADsAgAg6wEAAOgCADDsAQAArwIAEO0BAADoAgAw7gEBAOkCACHwAUAA6wIAIf0BAQDqAgAh_gEBAOoCACH_AQEA6gIAIYACAQDqAgAhgQIBAOoCACGCAgEA6gIAIYMCQADrAgAhC_IBAQAAAAHzAQEAAAAE9AEBAAAABPUBAQAAAAH2AQEAAAAB9wEBAAAAAfgBAQAAAAH5AQEA4gIAIfoBAQAAAAH7AQEAAAAB_AEBAAAAAQvyAQEAAAAB8wEBAAAABfQBAQAAAAX1AQEAAAAB9gEBAAAAAfcBAQAAAAH4AQEAAAAB-QEBAOcCACH6AQEAAAAB-wEBAAAAAfwBAQAAAAEI8gFAAAAAAfMBQAAAAAT0AUAAAAAE9QFAAAAAAfYBQAAAAAH3AUAAAAAB-AFAAAAAAfkBQADgAgAhA4QCAACpAgAghQIAAKkCACCGAgAAqQIAIAjJAQAA7gIAIOsBAADtAgAw7AEAAKkCABDtAQAA7QIAMO4BAQDpAgAh7wEBAOkCACHwAUAA6wIAIfEBQADrAgAhD8oBAADsAgAg6wEAAOgCADDsAQAArwIAEO0BAADoAgAw7gEBAOkCACHwAUAA6wIAIf0BAQDqAgAh_gEBAOoCACH_AQEA6gIAIYACAQDqAgAhgQIBAOoCACGCAgEA6gIAIYMCQADrAgAhqQIAAK8CACCqAgAArwIAIAKBAgEAAAABggIBAAAAAQjrAQAA8AIAMOwBAACkAgAQ7QEAAPACADDuAQEA3AIAIfABQADdAgAhgwJAAN0CACGIAgAA8QIAIIkCAQDcAgAhCgYAAN8CACAhAADyAgAgIgAA8gIAIPIBgAAAAAH5AYAAAAABigIBAAAAAYsCAQAAAAGMAgEAAAABjQKAAAAAAY4CgAAAAAEH8gGAAAAAAfkBgAAAAAGKAgEAAAABiwIBAAAAAYwCAQAAAAGNAoAAAAABjgKAAAAAAQjrAQAA8wIAMOwBAACRAgAQ7QEAAPMCADDuAQEA6QIAIfABQADrAgAhgwJAAOsCACGIAgAA9AIAIIkCAQDpAgAhB_IBgAAAAAH5AYAAAAABigIBAAAAAYsCAQAAAAGMAgEAAAABjQKAAAAAAY4CgAAAAAEG6wEAAPUCADDsAQAAiwIAEO0BAAD1AgAw7gEBANwCACGIAgAA8QIAII8CAADxAgAgBwMAAPcCACDrAQAA9gIAMOwBAAD4AQAQ7QEAAPYCADDuAQEA6QIAIYgCAAD0AgAgjwIAAPQCACADhAIAAAMAIIUCAAADACCGAgAAAwAgBusBAAD4AgAw7AEAAPIBABDtAQAA-AIAMO4BAQDcAgAhiAIAAPECACCPAgAA8QIAIAcDAAD3AgAg6wEAAPkCADDsAQAA3wEAEO0BAAD5AgAw7gEBAOkCACGIAgAA9AIAII8CAAD0AgAgB-sBAAD6AgAw7AEAANkBABDtAQAA-gIAMO4BAQDcAgAhiAIAAPECACCQAgEA5AIAIZECAQDkAgAhEesBAAD7AgAw7AEAAMEBABDtAQAA-wIAMO4BAQDcAgAh8AFAAN0CACGDAkAA3QIAIYgCAADxAgAgkAIBANwCACGSAgEA3AIAIZMCAQDcAgAhlAIBANwCACGVAgEA3AIAIZYCAQDcAgAhlwIBAOQCACGYAgEA5AIAIZkCAADxAgAgmgICAPwCACENBgAA3wIAICEAAN8CACAiAADfAgAghQEAAP4CACCGAQAA3wIAIPIBAgAAAAHzAQIAAAAE9AECAAAABPUBAgAAAAH2AQIAAAAB9wECAAAAAfgBAgAAAAH5AQIA_QIAIQ0GAADfAgAgIQAA3wIAICIAAN8CACCFAQAA_gIAIIYBAADfAgAg8gECAAAAAfMBAgAAAAT0AQIAAAAE9QECAAAAAfYBAgAAAAH3AQIAAAAB-AECAAAAAfkBAgD9AgAhCPIBCAAAAAHzAQgAAAAE9AEIAAAABPUBCAAAAAH2AQgAAAAB9wEIAAAAAfgBCAAAAAH5AQgA_gIAIQXrAQAA_wIAMOwBAACrAQAQ7QEAAP8CADDuAQEA3AIAIZsCAQDcAgAhBesBAACAAwAw7AEAAJgBABDtAQAAgAMAMO4BAQDpAgAhmwIBAOkCACEC7gEBAAAAAZsCAQAAAAEG6wEAAIIDADDsAQAAkgEAEO0BAACCAwAwnQIBANwCACGeAgEA3AIAIZ8CQADdAgAhBusBAACDAwAw7AEAAHwAEO0BAACDAwAw7gEBANwCACHxAUAA3QIAIaACQADdAgAhB0YAAIUDACDrAQAAhAMAMOwBAABpABDtAQAAhAMAMO4BAQDpAgAh8QFAAOsCACGgAkAA6wIAIQOEAgAAYwAghQIAAGMAIIYCAABjACAHRQAAhwMAIOsBAACGAwAw7AEAAGMAEO0BAACGAwAwnQIBAOkCACGeAgEA6QIAIZ8CQADrAgAhCUYAAIUDACDrAQAAhAMAMOwBAABpABDtAQAAhAMAMO4BAQDpAgAh8QFAAOsCACGgAkAA6wIAIakCAABpACCqAgAAaQAgBusBAACIAwAw7AEAAF4AEO0BAACIAwAw7gEBANwCACGIAgAA8QIAII8CAADxAgAgBwMAAPcCACDrAQAAiQMAMOwBAABLABDtAQAAiQMAMO4BAQDpAgAhiAIAAPQCACCPAgAA9AIAIAXrAQAAigMAMOwBAABFABDtAQAAigMAMO8BAQDcAgAhoQIAAPECACAF6wEAAIsDADDsAQAAMgAQ7QEAAIsDADDvAQEA6QIAIaECAAD0AgAgCOsBAACMAwAw7AEAACwAEO0BAACMAwAwmwIBANwCACGiAgEA3AIAIaMCAQDcAgAhpAIBANwCACGlAgEA3AIAIQoNAACOAwAgDgAAjgMAIOsBAACNAwAw7AEAABQAEO0BAACNAwAwmwIBAOkCACGiAgEA6QIAIaMCAQDpAgAhpAIBAOkCACGlAgEA6QIAIRkHAACWAwAgCAAAlwMAIAkAAJgDACAKAACZAwAgCwAAmgMAIAwAAJoDACDrAQAAlAMAMOwBAAADABDtAQAAlAMAMO4BAQDpAgAh8AFAAOsCACGDAkAA6wIAIYgCAAD0AgAgkAIBAOkCACGSAgEA6QIAIZMCAQDpAgAhlAIBAOkCACGVAgEA6QIAIZYCAQDpAgAhlwIBAOoCACGYAgEA6gIAIZkCAAD0AgAgmgICAJUDACGpAgAAAwAgqgIAAAMAIAKQAgEAAAABkQIBAAAAAQoDAAD3AgAgBAAAkQMAIAUAAJIDACDrAQAAkAMAMOwBAAAHABDtAQAAkAMAMO4BAQDpAgAhiAIAAPQCACCQAgEA6gIAIZECAQDqAgAhDAMAAPcCACAEAACRAwAgBQAAkgMAIOsBAACQAwAw7AEAAAcAEO0BAACQAwAw7gEBAOkCACGIAgAA9AIAIJACAQDqAgAhkQIBAOoCACGpAgAABwAgqgIAAAcAIAOEAgAABwAghQIAAAcAIIYCAAAHACACkAIBAAAAAZICAQAAAAEXBwAAlgMAIAgAAJcDACAJAACYAwAgCgAAmQMAIAsAAJoDACAMAACaAwAg6wEAAJQDADDsAQAAAwAQ7QEAAJQDADDuAQEA6QIAIfABQADrAgAhgwJAAOsCACGIAgAA9AIAIJACAQDpAgAhkgIBAOkCACGTAgEA6QIAIZQCAQDpAgAhlQIBAOkCACGWAgEA6QIAIZcCAQDqAgAhmAIBAOoCACGZAgAA9AIAIJoCAgCVAwAhCPIBAgAAAAHzAQIAAAAE9AECAAAABPUBAgAAAAH2AQIAAAAB9wECAAAAAfgBAgAAAAH5AQIA3wIAIQwDAAD3AgAgBAAAkQMAIAUAAJIDACDrAQAAkAMAMOwBAAAHABDtAQAAkAMAMO4BAQDpAgAhiAIAAPQCACCQAgEA6gIAIZECAQDqAgAhqQIAAAcAIKoCAAAHACAJAwAA9wIAIOsBAAD5AgAw7AEAAN8BABDtAQAA-QIAMO4BAQDpAgAhiAIAAPQCACCPAgAA9AIAIKkCAADfAQAgqgIAAN8BACAJAwAA9wIAIOsBAACJAwAw7AEAAEsAEO0BAACJAwAw7gEBAOkCACGIAgAA9AIAII8CAAD0AgAgqQIAAEsAIKoCAABLACAJAwAA9wIAIOsBAAD2AgAw7AEAAPgBABDtAQAA9gIAMO4BAQDpAgAhiAIAAPQCACCPAgAA9AIAIKkCAAD4AQAgqgIAAPgBACADhAIAABQAIIUCAAAUACCGAgAAFAAgApsCAQAAAAGjAgEAAAABAAAAAa4CAQAAAAEBrgJAAAAAAQUbAACLBQAgHAAAjgUAIKsCAACMBQAgrAIAAI0FACCxAgAApwIAIAMbAACLBQAgqwIAAIwFACCxAgAApwIAIAAAAAABrgIBAAAAAQsbAACpAwAwHAAArgMAMKsCAACqAwAwrAIAAKsDADCtAgAArAMAIK4CAACtAwAwrwIAAK0DADCwAgAArQMAMLECAACtAwAwsgIAAK8DADCzAgAAsAMAMAPuAQEAAAAB8AFAAAAAAfEBQAAAAAECAAAAqwIAIBsAALQDACADAAAAqwIAIBsAALQDACAcAACzAwAgARQAAIoFADAIyQEAAO4CACDrAQAA7QIAMOwBAACpAgAQ7QEAAO0CADDuAQEAAAAB7wEBAOkCACHwAUAA6wIAIfEBQADrAgAhAgAAAKsCACAUAACzAwAgAgAAALEDACAUAACyAwAgB-sBAACwAwAw7AEAALEDABDtAQAAsAMAMO4BAQDpAgAh7wEBAOkCACHwAUAA6wIAIfEBQADrAgAhB-sBAACwAwAw7AEAALEDABDtAQAAsAMAMO4BAQDpAgAh7wEBAOkCACHwAUAA6wIAIfEBQADrAgAhA-4BAQCfAwAh8AFAAKADACHxAUAAoAMAIQPuAQEAnwMAIfABQACgAwAh8QFAAKADACED7gEBAAAAAfABQAAAAAHxAUAAAAABBBsAAKkDADCrAgAAqgMAMK0CAACsAwAgsQIAAK0DADAAB8oBAAC2AwAg_QEAAKMDACD-AQAAowMAIP8BAACjAwAggAIAAKMDACCBAgAAowMAIIICAACjAwAgAAAAAAAACxsAAL8DADAcAADEAwAwqwIAAMADADCsAgAAwQMAMK0CAADCAwAgrgIAAMMDADCvAgAAwwMAMLACAADDAwAwsQIAAMMDADCyAgAAxQMAMLMCAADGAwAwEgcAAOoDACAIAADrAwAgCQAA7AMAIAsAAO0DACAMAADuAwAg7gEBAAAAAfABQAAAAAGDAkAAAAABiAKAAAAAAZACAQAAAAGSAgEAAAABkwIBAAAAAZQCAQAAAAGWAgEAAAABlwIBAAAAAZgCAQAAAAGZAoAAAAABmgICAAAAAQIAAAAFACAbAADpAwAgAwAAAAUAIBsAAOkDACAcAADKAwAgARQAAIkFADAYBwAAlgMAIAgAAJcDACAJAACYAwAgCgAAmQMAIAsAAJoDACAMAACaAwAg6wEAAJQDADDsAQAAAwAQ7QEAAJQDADDuAQEAAAAB8AFAAOsCACGDAkAA6wIAIYgCAAD0AgAgkAIBAOkCACGSAgEA6QIAIZMCAQDpAgAhlAIBAOkCACGVAgEA6QIAIZYCAQDpAgAhlwIBAOoCACGYAgEA6gIAIZkCAAD0AgAgmgICAJUDACGnAgAAkwMAIAIAAAAFACAUAADKAwAgAgAAAMcDACAUAADIAwAgEesBAADGAwAw7AEAAMcDABDtAQAAxgMAMO4BAQDpAgAh8AFAAOsCACGDAkAA6wIAIYgCAAD0AgAgkAIBAOkCACGSAgEA6QIAIZMCAQDpAgAhlAIBAOkCACGVAgEA6QIAIZYCAQDpAgAhlwIBAOoCACGYAgEA6gIAIZkCAAD0AgAgmgICAJUDACER6wEAAMYDADDsAQAAxwMAEO0BAADGAwAw7gEBAOkCACHwAUAA6wIAIYMCQADrAgAhiAIAAPQCACCQAgEA6QIAIZICAQDpAgAhkwIBAOkCACGUAgEA6QIAIZUCAQDpAgAhlgIBAOkCACGXAgEA6gIAIZgCAQDqAgAhmQIAAPQCACCaAgIAlQMAIQ3uAQEAnwMAIfABQACgAwAhgwJAAKADACGIAoAAAAABkAIBAJ8DACGSAgEAnwMAIZMCAQCfAwAhlAIBAJ8DACGWAgEAnwMAIZcCAQCnAwAhmAIBAKcDACGZAoAAAAABmgICAMkDACEFrgICAAAAAbQCAgAAAAG1AgIAAAABtgICAAAAAbcCAgAAAAESBwAAywMAIAgAAMwDACAJAADNAwAgCwAAzgMAIAwAAM8DACDuAQEAnwMAIfABQACgAwAhgwJAAKADACGIAoAAAAABkAIBAJ8DACGSAgEAnwMAIZMCAQCfAwAhlAIBAJ8DACGWAgEAnwMAIZcCAQCnAwAhmAIBAKcDACGZAoAAAAABmgICAMkDACEFGwAA8gQAIBwAAIcFACCrAgAA8wQAIKwCAACGBQAgsQIAAAoAIAUbAADwBAAgHAAAhAUAIKsCAADxBAAgrAIAAIMFACCxAgAA3AEAIAUbAADuBAAgHAAAgQUAIKsCAADvBAAgrAIAAIAFACCxAgAASAAgCxsAAN4DADAcAADiAwAwqwIAAN8DADCsAgAA4AMAMK0CAADhAwAgrgIAANQDADCvAgAA1AMAMLACAADUAwAwsQIAANQDADCyAgAA4wMAMLMCAADXAwAwCxsAANADADAcAADVAwAwqwIAANEDADCsAgAA0gMAMK0CAADTAwAgrgIAANQDADCvAgAA1AMAMLACAADUAwAwsQIAANQDADCyAgAA1gMAMLMCAADXAwAwBQ0AAN0DACCbAgEAAAABowIBAAAAAaQCAQAAAAGlAgEAAAABAgAAAAEAIBsAANwDACADAAAAAQAgGwAA3AMAIBwAANoDACABFAAA_wQAMAsNAACOAwAgDgAAjgMAIOsBAACNAwAw7AEAABQAEO0BAACNAwAwmwIBAOkCACGiAgEA6QIAIaMCAQDpAgAhpAIBAOkCACGlAgEA6QIAIagCAACbAwAgAgAAAAEAIBQAANoDACACAAAA2AMAIBQAANkDACAI6wEAANcDADDsAQAA2AMAEO0BAADXAwAwmwIBAOkCACGiAgEA6QIAIaMCAQDpAgAhpAIBAOkCACGlAgEA6QIAIQjrAQAA1wMAMOwBAADYAwAQ7QEAANcDADCbAgEA6QIAIaICAQDpAgAhowIBAOkCACGkAgEA6QIAIaUCAQDpAgAhBJsCAQCfAwAhowIBAJ8DACGkAgEAnwMAIaUCAQCfAwAhBQ0AANsDACCbAgEAnwMAIaMCAQCfAwAhpAIBAJ8DACGlAgEAnwMAIQUbAAD6BAAgHAAA_QQAIKsCAAD7BAAgrAIAAPwEACCxAgAABQAgBQ0AAN0DACCbAgEAAAABowIBAAAAAaQCAQAAAAGlAgEAAAABAxsAAPoEACCrAgAA-wQAILECAAAFACAFDgAA6AMAIKICAQAAAAGjAgEAAAABpAIBAAAAAaUCAQAAAAECAAAAAQAgGwAA5wMAIAMAAAABACAbAADnAwAgHAAA5QMAIAEUAAD5BAAwAgAAAAEAIBQAAOUDACACAAAA2AMAIBQAAOQDACAEogIBAJ8DACGjAgEAnwMAIaQCAQCfAwAhpQIBAJ8DACEFDgAA5gMAIKICAQCfAwAhowIBAJ8DACGkAgEAnwMAIaUCAQCfAwAhBRsAAPQEACAcAAD3BAAgqwIAAPUEACCsAgAA9gQAILECAAAFACAFDgAA6AMAIKICAQAAAAGjAgEAAAABpAIBAAAAAaUCAQAAAAEDGwAA9AQAIKsCAAD1BAAgsQIAAAUAIBIHAADqAwAgCAAA6wMAIAkAAOwDACALAADtAwAgDAAA7gMAIO4BAQAAAAHwAUAAAAABgwJAAAAAAYgCgAAAAAGQAgEAAAABkgIBAAAAAZMCAQAAAAGUAgEAAAABlgIBAAAAAZcCAQAAAAGYAgEAAAABmQKAAAAAAZoCAgAAAAEDGwAA8gQAIKsCAADzBAAgsQIAAAoAIAMbAADwBAAgqwIAAPEEACCxAgAA3AEAIAMbAADuBAAgqwIAAO8EACCxAgAASAAgBBsAAN4DADCrAgAA3wMAMK0CAADhAwAgsQIAANQDADAEGwAA0AMAMKsCAADRAwAwrQIAANMDACCxAgAA1AMAMAQbAAC_AwAwqwIAAMADADCtAgAAwgMAILECAADDAwAwAAAAAAsbAAD1AwAwHAAA-QMAMKsCAAD2AwAwrAIAAPcDADCtAgAA-AMAIK4CAADDAwAwrwIAAMMDADCwAgAAwwMAMLECAADDAwAwsgIAAPoDADCzAgAAxgMAMBIHAADqAwAgCQAA7AMAIAoAAP8DACALAADtAwAgDAAA7gMAIO4BAQAAAAHwAUAAAAABgwJAAAAAAYgCgAAAAAGQAgEAAAABkgIBAAAAAZQCAQAAAAGVAgEAAAABlgIBAAAAAZcCAQAAAAGYAgEAAAABmQKAAAAAAZoCAgAAAAECAAAABQAgGwAA_gMAIAMAAAAFACAbAAD-AwAgHAAA_AMAIAEUAADtBAAwAgAAAAUAIBQAAPwDACACAAAAxwMAIBQAAPsDACAN7gEBAJ8DACHwAUAAoAMAIYMCQACgAwAhiAKAAAAAAZACAQCfAwAhkgIBAJ8DACGUAgEAnwMAIZUCAQCfAwAhlgIBAJ8DACGXAgEApwMAIZgCAQCnAwAhmQKAAAAAAZoCAgDJAwAhEgcAAMsDACAJAADNAwAgCgAA_QMAIAsAAM4DACAMAADPAwAg7gEBAJ8DACHwAUAAoAMAIYMCQACgAwAhiAKAAAAAAZACAQCfAwAhkgIBAJ8DACGUAgEAnwMAIZUCAQCfAwAhlgIBAJ8DACGXAgEApwMAIZgCAQCnAwAhmQKAAAAAAZoCAgDJAwAhBRsAAOgEACAcAADrBAAgqwIAAOkEACCsAgAA6gQAILECAAD1AQAgEgcAAOoDACAJAADsAwAgCgAA_wMAIAsAAO0DACAMAADuAwAg7gEBAAAAAfABQAAAAAGDAkAAAAABiAKAAAAAAZACAQAAAAGSAgEAAAABlAIBAAAAAZUCAQAAAAGWAgEAAAABlwIBAAAAAZgCAQAAAAGZAoAAAAABmgICAAAAAQMbAADoBAAgqwIAAOkEACCxAgAA9QEAIAQbAAD1AwAwqwIAAPYDADCtAgAA-AMAILECAADDAwAwAAAACxsAAJUEADAcAACaBAAwqwIAAJYEADCsAgAAmQQAMK0CAACXBAAgrgIAAMMDADCvAgAAwwMAMLACAADDAwAwsQIAAMMDADCyAgAAmwQAMLMCAADGAwAwBxsAAOEEACAcAADmBAAgqwIAAOIEACCsAgAA5QQAIK8CAAAHACCwAgAABwAgsQIAAAoAIAsbAACHBAAwHAAAjAQAMKsCAACIBAAwrAIAAIkEADCtAgAAigQAIK4CAACLBAAwrwIAAIsEADCwAgAAiwQAMLECAACLBAAwsgIAAI0EADCzAgAAjgQAMAUDAACTBAAgBQAAlAQAIO4BAQAAAAGIAoAAAAABkAIBAAAAAQIAAAAKACAbAACSBAAgAwAAAAoAIBsAAJIEACAcAACRBAAgARQAAOQEADALAwAA9wIAIAQAAJEDACAFAACSAwAg6wEAAJADADDsAQAABwAQ7QEAAJADADDuAQEAAAABiAIAAPQCACCQAgEA6gIAIZECAQDqAgAhpgIAAI8DACACAAAACgAgFAAAkQQAIAIAAACPBAAgFAAAkAQAIAfrAQAAjgQAMOwBAACPBAAQ7QEAAI4EADDuAQEA6QIAIYgCAAD0AgAgkAIBAOoCACGRAgEA6gIAIQfrAQAAjgQAMOwBAACPBAAQ7QEAAI4EADDuAQEA6QIAIYgCAAD0AgAgkAIBAOoCACGRAgEA6gIAIQPuAQEAnwMAIYgCgAAAAAGQAgEApwMAIQUDAACEBAAgBQAAhgQAIO4BAQCfAwAhiAKAAAAAAZACAQCnAwAhBQMAAJMEACAFAACUBAAg7gEBAAAAAYgCgAAAAAGQAgEAAAABBBsAAJUEADCrAgAAlgQAMK0CAACXBAAgsQIAAMMDADAEGwAAhwQAMKsCAACIBAAwrQIAAIoEACCxAgAAiwQAMBIIAADrAwAgCQAA7AMAIAoAAP8DACALAADtAwAgDAAA7gMAIO4BAQAAAAHwAUAAAAABgwJAAAAAAYgCgAAAAAGQAgEAAAABkwIBAAAAAZQCAQAAAAGVAgEAAAABlgIBAAAAAZcCAQAAAAGYAgEAAAABmQKAAAAAAZoCAgAAAAECAAAABQAgGwAAmAQAIAEUAADjBAAwEggAAOsDACAJAADsAwAgCgAA_wMAIAsAAO0DACAMAADuAwAg7gEBAAAAAfABQAAAAAGDAkAAAAABiAKAAAAAAZACAQAAAAGTAgEAAAABlAIBAAAAAZUCAQAAAAGWAgEAAAABlwIBAAAAAZgCAQAAAAGZAoAAAAABmgICAAAAAQMAAAAFACAbAACYBAAgHAAAnQQAIAIAAAAFACAUAACdBAAgAgAAAMcDACAUAACcBAAgDe4BAQCfAwAh8AFAAKADACGDAkAAoAMAIYgCgAAAAAGQAgEAnwMAIZMCAQCfAwAhlAIBAJ8DACGVAgEAnwMAIZYCAQCfAwAhlwIBAKcDACGYAgEApwMAIZkCgAAAAAGaAgIAyQMAIRIIAADMAwAgCQAAzQMAIAoAAP0DACALAADOAwAgDAAAzwMAIO4BAQCfAwAh8AFAAKADACGDAkAAoAMAIYgCgAAAAAGQAgEAnwMAIZMCAQCfAwAhlAIBAJ8DACGVAgEAnwMAIZYCAQCfAwAhlwIBAKcDACGYAgEApwMAIZkCgAAAAAGaAgIAyQMAIQMbAADhBAAgqwIAAOIEACCxAgAACgAgAAAAAAAAAAAAAAAFGwAA3AQAIBwAAN8EACCrAgAA3QQAIKwCAADeBAAgsQIAAGEAIAMbAADcBAAgqwIAAN0EACCxAgAAYQAgAAAACxsAALAEADAcAAC1BAAwqwIAALEEADCsAgAAsgQAMK0CAACzBAAgrgIAALQEADCvAgAAtAQAMLACAAC0BAAwsQIAALQEADCyAgAAtgQAMLMCAAC3BAAwAp0CAQAAAAGfAkAAAAABAgAAAGUAIBsAALsEACADAAAAZQAgGwAAuwQAIBwAALoEACABFAAA2wQAMAdFAACHAwAg6wEAAIYDADDsAQAAYwAQ7QEAAIYDADCdAgEAAAABngIBAOkCACGfAkAA6wIAIQIAAABlACAUAAC6BAAgAgAAALgEACAUAAC5BAAgBusBAAC3BAAw7AEAALgEABDtAQAAtwQAMJ0CAQDpAgAhngIBAOkCACGfAkAA6wIAIQbrAQAAtwQAMOwBAAC4BAAQ7QEAALcEADCdAgEA6QIAIZ4CAQDpAgAhnwJAAOsCACECnQIBAJ8DACGfAkAAoAMAIQKdAgEAnwMAIZ8CQACgAwAhAp0CAQAAAAGfAkAAAAABBBsAALAEADCrAgAAsQQAMK0CAACzBAAgsQIAALQEADAAAUYAAL0EACAAAAALGwAAwwQAMBwAAMcEADCrAgAAxAQAMKwCAADFBAAwrQIAAMYEACCuAgAAwwMAMK8CAADDAwAwsAIAAMMDADCxAgAAwwMAMLICAADIBAAwswIAAMYDADASBwAA6gMAIAgAAOsDACAKAAD_AwAgCwAA7QMAIAwAAO4DACDuAQEAAAAB8AFAAAAAAYMCQAAAAAGIAoAAAAABkAIBAAAAAZICAQAAAAGTAgEAAAABlQIBAAAAAZYCAQAAAAGXAgEAAAABmAIBAAAAAZkCgAAAAAGaAgIAAAABAgAAAAUAIBsAAMsEACADAAAABQAgGwAAywQAIBwAAMoEACABFAAA2gQAMAIAAAAFACAUAADKBAAgAgAAAMcDACAUAADJBAAgDe4BAQCfAwAh8AFAAKADACGDAkAAoAMAIYgCgAAAAAGQAgEAnwMAIZICAQCfAwAhkwIBAJ8DACGVAgEAnwMAIZYCAQCfAwAhlwIBAKcDACGYAgEApwMAIZkCgAAAAAGaAgIAyQMAIRIHAADLAwAgCAAAzAMAIAoAAP0DACALAADOAwAgDAAAzwMAIO4BAQCfAwAh8AFAAKADACGDAkAAoAMAIYgCgAAAAAGQAgEAnwMAIZICAQCfAwAhkwIBAJ8DACGVAgEAnwMAIZYCAQCfAwAhlwIBAKcDACGYAgEApwMAIZkCgAAAAAGaAgIAyQMAIRIHAADqAwAgCAAA6wMAIAoAAP8DACALAADtAwAgDAAA7gMAIO4BAQAAAAHwAUAAAAABgwJAAAAAAYgCgAAAAAGQAgEAAAABkgIBAAAAAZMCAQAAAAGVAgEAAAABlgIBAAAAAZcCAQAAAAGYAgEAAAABmQKAAAAAAZoCAgAAAAEEGwAAwwQAMKsCAADEBAAwrQIAAMYEACCxAgAAwwMAMAAAAAAAAAgHAADUBAAgCAAA1gQAIAkAANcEACAKAADYBAAgCwAA2QQAIAwAANkEACCXAgAAowMAIJgCAACjAwAgBQMAAPADACAEAADUBAAgBQAA1QQAIJACAACjAwAgkQIAAKMDACAAAQMAAPADACABAwAA8AMAIAEDAADwAwAgAA3uAQEAAAAB8AFAAAAAAYMCQAAAAAGIAoAAAAABkAIBAAAAAZICAQAAAAGTAgEAAAABlQIBAAAAAZYCAQAAAAGXAgEAAAABmAIBAAAAAZkCgAAAAAGaAgIAAAABAp0CAQAAAAGfAkAAAAABA-4BAQAAAAHxAUAAAAABoAJAAAAAAQIAAABhACAbAADcBAAgAwAAAGkAIBsAANwEACAcAADgBAAgBQAAAGkAIBQAAOAEACDuAQEAnwMAIfEBQACgAwAhoAJAAKADACED7gEBAJ8DACHxAUAAoAMAIaACQACgAwAhBgMAAJMEACAEAACeBAAg7gEBAAAAAYgCgAAAAAGQAgEAAAABkQIBAAAAAQIAAAAKACAbAADhBAAgDe4BAQAAAAHwAUAAAAABgwJAAAAAAYgCgAAAAAGQAgEAAAABkwIBAAAAAZQCAQAAAAGVAgEAAAABlgIBAAAAAZcCAQAAAAGYAgEAAAABmQKAAAAAAZoCAgAAAAED7gEBAAAAAYgCgAAAAAGQAgEAAAABAwAAAAcAIBsAAOEEACAcAADnBAAgCAAAAAcAIAMAAIQEACAEAACFBAAgFAAA5wQAIO4BAQCfAwAhiAKAAAAAAZACAQCnAwAhkQIBAKcDACEGAwAAhAQAIAQAAIUEACDuAQEAnwMAIYgCgAAAAAGQAgEApwMAIZECAQCnAwAhA-4BAQAAAAGIAoAAAAABjwKAAAAAAQIAAAD1AQAgGwAA6AQAIAMAAAD4AQAgGwAA6AQAIBwAAOwEACAFAAAA-AEAIBQAAOwEACDuAQEAnwMAIYgCgAAAAAGPAoAAAAABA-4BAQCfAwAhiAKAAAAAAY8CgAAAAAEN7gEBAAAAAfABQAAAAAGDAkAAAAABiAKAAAAAAZACAQAAAAGSAgEAAAABlAIBAAAAAZUCAQAAAAGWAgEAAAABlwIBAAAAAZgCAQAAAAGZAoAAAAABmgICAAAAAQPuAQEAAAABiAKAAAAAAY8CgAAAAAECAAAASAAgGwAA7gQAIAPuAQEAAAABiAKAAAAAAY8CgAAAAAECAAAA3AEAIBsAAPAEACAGBAAAngQAIAUAAJQEACDuAQEAAAABiAKAAAAAAZACAQAAAAGRAgEAAAABAgAAAAoAIBsAAPIEACATBwAA6gMAIAgAAOsDACAJAADsAwAgCgAA_wMAIAsAAO0DACDuAQEAAAAB8AFAAAAAAYMCQAAAAAGIAoAAAAABkAIBAAAAAZICAQAAAAGTAgEAAAABlAIBAAAAAZUCAQAAAAGWAgEAAAABlwIBAAAAAZgCAQAAAAGZAoAAAAABmgICAAAAAQIAAAAFACAbAAD0BAAgAwAAAAMAIBsAAPQEACAcAAD4BAAgFQAAAAMAIAcAAMsDACAIAADMAwAgCQAAzQMAIAoAAP0DACALAADOAwAgFAAA-AQAIO4BAQCfAwAh8AFAAKADACGDAkAAoAMAIYgCgAAAAAGQAgEAnwMAIZICAQCfAwAhkwIBAJ8DACGUAgEAnwMAIZUCAQCfAwAhlgIBAJ8DACGXAgEApwMAIZgCAQCnAwAhmQKAAAAAAZoCAgDJAwAhEwcAAMsDACAIAADMAwAgCQAAzQMAIAoAAP0DACALAADOAwAg7gEBAJ8DACHwAUAAoAMAIYMCQACgAwAhiAKAAAAAAZACAQCfAwAhkgIBAJ8DACGTAgEAnwMAIZQCAQCfAwAhlQIBAJ8DACGWAgEAnwMAIZcCAQCnAwAhmAIBAKcDACGZAoAAAAABmgICAMkDACEEogIBAAAAAaMCAQAAAAGkAgEAAAABpQIBAAAAARMHAADqAwAgCAAA6wMAIAkAAOwDACAKAAD_AwAgDAAA7gMAIO4BAQAAAAHwAUAAAAABgwJAAAAAAYgCgAAAAAGQAgEAAAABkgIBAAAAAZMCAQAAAAGUAgEAAAABlQIBAAAAAZYCAQAAAAGXAgEAAAABmAIBAAAAAZkCgAAAAAGaAgIAAAABAgAAAAUAIBsAAPoEACADAAAAAwAgGwAA-gQAIBwAAP4EACAVAAAAAwAgBwAAywMAIAgAAMwDACAJAADNAwAgCgAA_QMAIAwAAM8DACAUAAD-BAAg7gEBAJ8DACHwAUAAoAMAIYMCQACgAwAhiAKAAAAAAZACAQCfAwAhkgIBAJ8DACGTAgEAnwMAIZQCAQCfAwAhlQIBAJ8DACGWAgEAnwMAIZcCAQCnAwAhmAIBAKcDACGZAoAAAAABmgICAMkDACETBwAAywMAIAgAAMwDACAJAADNAwAgCgAA_QMAIAwAAM8DACDuAQEAnwMAIfABQACgAwAhgwJAAKADACGIAoAAAAABkAIBAJ8DACGSAgEAnwMAIZMCAQCfAwAhlAIBAJ8DACGVAgEAnwMAIZYCAQCfAwAhlwIBAKcDACGYAgEApwMAIZkCgAAAAAGaAgIAyQMAIQSbAgEAAAABowIBAAAAAaQCAQAAAAGlAgEAAAABAwAAAEsAIBsAAO4EACAcAACCBQAgBQAAAEsAIBQAAIIFACDuAQEAnwMAIYgCgAAAAAGPAoAAAAABA-4BAQCfAwAhiAKAAAAAAY8CgAAAAAEDAAAA3wEAIBsAAPAEACAcAACFBQAgBQAAAN8BACAUAACFBQAg7gEBAJ8DACGIAoAAAAABjwKAAAAAAQPuAQEAnwMAIYgCgAAAAAGPAoAAAAABAwAAAAcAIBsAAPIEACAcAACIBQAgCAAAAAcAIAQAAIUEACAFAACGBAAgFAAAiAUAIO4BAQCfAwAhiAKAAAAAAZACAQCnAwAhkQIBAKcDACEGBAAAhQQAIAUAAIYEACDuAQEAnwMAIYgCgAAAAAGQAgEApwMAIZECAQCnAwAhDe4BAQAAAAHwAUAAAAABgwJAAAAAAYgCgAAAAAGQAgEAAAABkgIBAAAAAZMCAQAAAAGUAgEAAAABlgIBAAAAAZcCAQAAAAGYAgEAAAABmQKAAAAAAZoCAgAAAAED7gEBAAAAAfABQAAAAAHxAUAAAAABCe4BAQAAAAHwAUAAAAAB_QEBAAAAAf4BAQAAAAH_AQEAAAABgAIBAAAAAYECAQAAAAGCAgEAAAABgwJAAAAAAQIAAACnAgAgGwAAiwUAIAMAAACvAgAgGwAAiwUAIBwAAI8FACALAAAArwIAIBQAAI8FACDuAQEAnwMAIfABQACgAwAh_QEBAKcDACH-AQEApwMAIf8BAQCnAwAhgAIBAKcDACGBAgEApwMAIYICAQCnAwAhgwJAAKADACEJ7gEBAJ8DACHwAUAAoAMAIf0BAQCnAwAh_gEBAKcDACH_AQEApwMAIYACAQCnAwAhgQIBAKcDACGCAgEApwMAIYMCQACgAwAhAg0AAg4AAgcGAAsHAAMIAAUJAAcKAAkLFgEMFwEEAwYCBAgDBQsDBgAEAgMMAAUNAAIDDgIGAAYBAw8AAgMQAgYACAEDEQACAxICBgAKAQMTAAILGAAMGQAAAg0AAg4AAgINAAIOAAIDBgAQIQARIgASAAAAAwYAECEAESIAEgAAAAMGABghABkiABoAAAADBgAYIQAZIgAaAAADBgAfIQAgIgAhAAAAAwYAHyEAICIAIQIGACVGZiQBRQAjAUZnAAAAAwYAKSEAKiIAKwAAAAMGACkhACoiACsBRQAjAUUAIwMGADAhADEiADIAAAADBgAwIQAxIgAyAAAAAwYAOCEAOSIAOgAAAAMGADghADkiADoEBwADCAAFCQAHCgAJBAcAAwgABQkABwoACQUGAD8hAEIiAEOFAQBAhgEAQQAAAAAABQYAPyEAQiIAQ4UBAECGAQBBAQTOAQMBBNQBAwMGAEghAEkiAEoAAAADBgBIIQBJIgBKAAADBgBPIQBQIgBRAAAAAwYATyEAUCIAUQAAAwYAViEAVyIAWAAAAAMGAFYhAFciAFgAAAADBgBeIQBfIgBgAAAAAwYAXiEAXyIAYAIGAGTKAawCYwHJAQBiAcoBrQIAAAADBgBoIQBpIgBqAAAAAwYAaCEAaSIAagHJAQBiAckBAGIDBgBvIQBwIgBxAAAAAwYAbyEAcCIAcQ8CARAaAREbARIcARMdARUfARYhDBciDRgkARkmDBonDh0oAR4pAR8qDCMtDyQuEyUwFCYxFCc0FCg1FCk2FCo4FCs6DCw7FS09FC4_DC9AFjBBFDFCFDJDDDNGFzRHGzVJBzZKBzdNBzhOBzlPBzpRBztTDDxUHD1WBz5YDD9ZHUBaB0FbB0JcDENfHkRgIkdiI0hoI0lrI0psI0ttI0xvI01xDE5yJk90I1B2DFF3J1J4I1N5I1R6DFV9KFZ-LFd_JFiAASRZgQEkWoIBJFuDASRchQEkXYcBDF6IAS1figEkYIwBDGGNAS5ijgEkY48BJGSQAQxlkwEvZpQBM2eWATRolwE0aZoBNGqbATRrnAE0bJ4BNG2gAQxuoQE1b6MBNHClAQxxpgE2cqcBNHOoATR0qQEMdawBN3atATt3rgECeK8BAnmwAQJ6sQECe7IBAny0AQJ9tgEMfrcBPH-5AQKAAbsBDIEBvAE9ggG9AQKDAb4BAoQBvwEMhwHCAT6IAcMBRIkBxAEDigHFAQOLAcYBA4wBxwEDjQHIAQOOAcoBA48BzAEMkAHNAUWRAdABA5IB0gEMkwHTAUaUAdUBA5UB1gEDlgHXAQyXAdoBR5gB2wFLmQHdAQWaAd4BBZsB4QEFnAHiAQWdAeMBBZ4B5QEFnwHnAQygAegBTKEB6gEFogHsAQyjAe0BTaQB7gEFpQHvAQWmAfABDKcB8wFOqAH0AVKpAfYBCaoB9wEJqwH6AQmsAfsBCa0B_AEJrgH-AQmvAYACDLABgQJTsQGDAgmyAYUCDLMBhgJUtAGHAgm1AYgCCbYBiQIMtwGMAlW4AY0CWbkBjwJaugGQAlq7AZMCWrwBlAJavQGVAlq-AZcCWr8BmQIMwAGaAlvBAZwCWsIBngIMwwGfAlzEAaACWsUBoQJaxgGiAgzHAaUCXcgBpgJhywGoAmLMAa4CYs0BsQJizgGyAmLPAbMCYtABtQJi0QG3AgzSAbgCZdMBugJi1AG8AgzVAb0CZtYBvgJi1wG_AmLYAcACDNkBwwJn2gHEAmvbAcUCY9wBxgJj3QHHAmPeAcgCY98ByQJj4AHLAmPhAc0CDOIBzgJs4wHQAmPkAdICDOUB0wJt5gHUAmPnAdUCY-gB1gIM6QHZAm7qAdoCcg"
 }
 
 async function decodeBase64AsWasm(wasmBase64: string): Promise<WebAssembly.Module> {
@@ -214,6 +214,26 @@ export interface PrismaClient<
     */
   get library(): Prisma.LibraryDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.lockHolder`: Exposes CRUD operations for the **LockHolder** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more LockHolders
+    * const lockHolders = await prisma.lockHolder.findMany()
+    * ```
+    */
+  get lockHolder(): Prisma.LockHolderDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.lockLease`: Exposes CRUD operations for the **LockLease** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more LockLeases
+    * const lockLeases = await prisma.lockLease.findMany()
+    * ```
+    */
+  get lockLease(): Prisma.LockLeaseDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.object`: Exposes CRUD operations for the **Object** model.
     * Example usage:
@@ -273,6 +293,26 @@ export interface PrismaClient<
     * ```
     */
   get backendUnlockMethod(): Prisma.BackendUnlockMethodDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.user`: Exposes CRUD operations for the **User** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Users
+    * const users = await prisma.user.findMany()
+    * ```
+    */
+  get user(): Prisma.UserDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.userSession`: Exposes CRUD operations for the **UserSession** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more UserSessions
+    * const userSessions = await prisma.userSession.findMany()
+    * ```
+    */
+  get userSession(): Prisma.UserSessionDelegate<ExtArgs, { omit: OmitOpts }>;
 }
 
 export function getPrismaClientClass(): PrismaClientConstructor {
@@ -54,12 +54,16 @@ export const ModelName = {
   ProjectImportPort: 'ProjectImportPort',
   UserWorkspaceLayout: 'UserWorkspaceLayout',
   Library: 'Library',
+  LockHolder: 'LockHolder',
+  LockLease: 'LockLease',
   Object: 'Object',
   Project: 'Project',
   ProjectSpace: 'ProjectSpace',
   ProjectModelStorage: 'ProjectModelStorage',
   PulumiBackend: 'PulumiBackend',
-  BackendUnlockMethod: 'BackendUnlockMethod'
+  BackendUnlockMethod: 'BackendUnlockMethod',
+  User: 'User',
+  UserSession: 'UserSession'
 } as const
 
 export type ModelName = (typeof ModelName)[keyof typeof ModelName]
@@ -103,6 +107,24 @@ export const LibraryScalarFieldEnum = {
 export type LibraryScalarFieldEnum = (typeof LibraryScalarFieldEnum)[keyof typeof LibraryScalarFieldEnum]
 
 
+export const LockHolderScalarFieldEnum = {
+  id: 'id',
+  startedAt: 'startedAt',
+  expiresAt: 'expiresAt'
+} as const
+
+export type LockHolderScalarFieldEnum = (typeof LockHolderScalarFieldEnum)[keyof typeof LockHolderScalarFieldEnum]
+
+
+export const LockLeaseScalarFieldEnum = {
+  key: 'key',
+  holderId: 'holderId',
+  acquiredAt: 'acquiredAt'
+} as const
+
+export type LockLeaseScalarFieldEnum = (typeof LockLeaseScalarFieldEnum)[keyof typeof LockLeaseScalarFieldEnum]
+
+
 export const ObjectScalarFieldEnum = {
   id: 'id',
   projectId: 'projectId'
@@ -170,6 +192,31 @@ export const BackendUnlockMethodScalarFieldEnum = {
 export type BackendUnlockMethodScalarFieldEnum = (typeof BackendUnlockMethodScalarFieldEnum)[keyof typeof BackendUnlockMethodScalarFieldEnum]
 
 
+export const UserScalarFieldEnum = {
+  id: 'id',
+  username: 'username',
+  displayName: 'displayName',
+  email: 'email',
+  passwordHash: 'passwordHash',
+  oidcIssuer: 'oidcIssuer',
+  oidcSubject: 'oidcSubject',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type UserScalarFieldEnum = (typeof UserScalarFieldEnum)[keyof typeof UserScalarFieldEnum]
+
+
+export const UserSessionScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  createdAt: 'createdAt',
+  expiresAt: 'expiresAt'
+} as const
+
+export type UserSessionScalarFieldEnum = (typeof UserSessionScalarFieldEnum)[keyof typeof UserSessionScalarFieldEnum]
+
+
 export const SortOrder = {
   asc: 'asc',
   desc: 'desc'
@@ -11,10 +11,14 @@
 export type * from './models/ProjectImportPort.ts'
 export type * from './models/UserWorkspaceLayout.ts'
 export type * from './models/Library.ts'
+export type * from './models/LockHolder.ts'
+export type * from './models/LockLease.ts'
 export type * from './models/Object.ts'
 export type * from './models/Project.ts'
 export type * from './models/ProjectSpace.ts'
 export type * from './models/ProjectModelStorage.ts'
 export type * from './models/PulumiBackend.ts'
 export type * from './models/BackendUnlockMethod.ts'
+export type * from './models/User.ts'
+export type * from './models/UserSession.ts'
 export type * from './commonInputTypes.ts'
\ No newline at end of file
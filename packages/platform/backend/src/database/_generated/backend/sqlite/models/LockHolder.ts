@@ -0,0 +1,1277 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `LockHolder` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+
+import type * as PJTG from '../pjtg.ts';
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.ts"
+import type * as Prisma from "../internal/prismaNamespace.ts"
+
+/**
+ * Model LockHolder
+ * The backend runtime holding the distributed locks.
+ * 
+ * Each backend process registers itself as a holder on startup and keeps extending its expiration time.
+ * Once the holder is expired, all its leases (and the instance locks it held) are considered stale.
+ */
+export type LockHolderModel = runtime.Types.Result.DefaultSelection<Prisma.$LockHolderPayload>
+
+export type AggregateLockHolder = {
+  _count: LockHolderCountAggregateOutputType | null
+  _min: LockHolderMinAggregateOutputType | null
+  _max: LockHolderMaxAggregateOutputType | null
+}
+
+export type LockHolderMinAggregateOutputType = {
+  id: string | null
+  startedAt: Date | null
+  expiresAt: Date | null
+}
+
+export type LockHolderMaxAggregateOutputType = {
+  id: string | null
+  startedAt: Date | null
+  expiresAt: Date | null
+}
+
+export type LockHolderCountAggregateOutputType = {
+  id: number
+  startedAt: number
+  expiresAt: number
+  _all: number
+}
+
+
+export type LockHolderMinAggregateInputType = {
+  id?: true
+  startedAt?: true
+  expiresAt?: true
+}
+
+export type LockHolderMaxAggregateInputType = {
+  id?: true
+  startedAt?: true
+  expiresAt?: true
+}
+
+export type LockHolderCountAggregateInputType = {
+  id?: true
+  startedAt?: true
+  expiresAt?: true
+  _all?: true
+}
+
+export type LockHolderAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which LockHolder to aggregate.
+   */
+  where?: Prisma.LockHolderWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of LockHolders to fetch.
+   */
+  orderBy?: Prisma.LockHolderOrderByWithRelationInput | Prisma.LockHolderOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.LockHolderWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` LockHolders from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` LockHolders.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned LockHolders
+  **/
+  _count?: true | LockHolderCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: LockHolderMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: LockHolderMaxAggregateInputType
+}
+
+export type GetLockHolderAggregateType<T extends LockHolderAggregateArgs> = {
+      [P in keyof T & keyof AggregateLockHolder]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateLockHolder[P]>
+    : Prisma.GetScalarType<T[P], AggregateLockHolder[P]>
+}
+
+
+
+
+export type LockHolderGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.LockHolderWhereInput
+  orderBy?: Prisma.LockHolderOrderByWithAggregationInput | Prisma.LockHolderOrderByWithAggregationInput[]
+  by: Prisma.LockHolderScalarFieldEnum[] | Prisma.LockHolderScalarFieldEnum
+  having?: Prisma.LockHolderScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: LockHolderCountAggregateInputType | true
+  _min?: LockHolderMinAggregateInputType
+  _max?: LockHolderMaxAggregateInputType
+}
+
+export type LockHolderGroupByOutputType = {
+  id: string
+  startedAt: Date
+  expiresAt: Date
+  _count: LockHolderCountAggregateOutputType | null
+  _min: LockHolderMinAggregateOutputType | null
+  _max: LockHolderMaxAggregateOutputType | null
+}
+
+type GetLockHolderGroupByPayload<T extends LockHolderGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<LockHolderGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof LockHolderGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], LockHolderGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], LockHolderGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type LockHolderWhereInput = {
+  AND?: Prisma.LockHolderWhereInput | Prisma.LockHolderWhereInput[]
+  OR?: Prisma.LockHolderWhereInput[]
+  NOT?: Prisma.LockHolderWhereInput | Prisma.LockHolderWhereInput[]
+  id?: Prisma.StringFilter<"LockHolder"> | string
+  startedAt?: Prisma.DateTimeFilter<"LockHolder"> | Date | string
+  expiresAt?: Prisma.DateTimeFilter<"LockHolder"> | Date | string
+  leases?: Prisma.LockLeaseListRelationFilter
+}
+
+export type LockHolderOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  startedAt?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  leases?: Prisma.LockLeaseOrderByRelationAggregateInput
+}
+
+export type LockHolderWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.LockHolderWhereInput | Prisma.LockHolderWhereInput[]
+  OR?: Prisma.LockHolderWhereInput[]
+  NOT?: Prisma.LockHolderWhereInput | Prisma.LockHolderWhereInput[]
+  startedAt?: Prisma.DateTimeFilter<"LockHolder"> | Date | string
+  expiresAt?: Prisma.DateTimeFilter<"LockHolder"> | Date | string
+  leases?: Prisma.LockLeaseListRelationFilter
+}, "id">
+
+export type LockHolderOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  startedAt?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  _count?: Prisma.LockHolderCountOrderByAggregateInput
+  _max?: Prisma.LockHolderMaxOrderByAggregateInput
+  _min?: Prisma.LockHolderMinOrderByAggregateInput
+}
+
+export type LockHolderScalarWhereWithAggregatesInput = {
+  AND?: Prisma.LockHolderScalarWhereWithAggregatesInput | Prisma.LockHolderScalarWhereWithAggregatesInput[]
+  OR?: Prisma.LockHolderScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.LockHolderScalarWhereWithAggregatesInput | Prisma.LockHolderScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"LockHolder"> | string
+  startedAt?: Prisma.DateTimeWithAggregatesFilter<"LockHolder"> | Date | string
+  expiresAt?: Prisma.DateTimeWithAggregatesFilter<"LockHolder"> | Date | string
+}
+
+export type LockHolderCreateInput = {
+  id: string
+  startedAt?: Date | string
+  expiresAt: Date | string
+  leases?: Prisma.LockLeaseCreateNestedManyWithoutHolderInput
+}
+
+export type LockHolderUncheckedCreateInput = {
+  id: string
+  startedAt?: Date | string
+  expiresAt: Date | string
+  leases?: Prisma.LockLeaseUncheckedCreateNestedManyWithoutHolderInput
+}
+
+export type LockHolderUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  startedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  leases?: Prisma.LockLeaseUpdateManyWithoutHolderNestedInput
+}
+
+export type LockHolderUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  startedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  leases?: Prisma.LockLeaseUncheckedUpdateManyWithoutHolderNestedInput
+}
+
+export type LockHolderCreateManyInput = {
+  id: string
+  startedAt?: Date | string
+  expiresAt: Date | string
+}
+
+export type LockHolderUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  startedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type LockHolderUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  startedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type LockHolderCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  startedAt?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+}
+
+export type LockHolderMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  startedAt?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+}
+
+export type LockHolderMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  startedAt?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+}
+
+export type LockHolderScalarRelationFilter = {
+  is?: Prisma.LockHolderWhereInput
+  isNot?: Prisma.LockHolderWhereInput
+}
+
+export type DateTimeFieldUpdateOperationsInput = {
+  set?: Date | string
+}
+
+export type LockHolderCreateNestedOneWithoutLeasesInput = {
+  create?: Prisma.XOR<Prisma.LockHolderCreateWithoutLeasesInput, Prisma.LockHolderUncheckedCreateWithoutLeasesInput>
+  connectOrCreate?: Prisma.LockHolderCreateOrConnectWithoutLeasesInput
+  connect?: Prisma.LockHolderWhereUniqueInput
+}
+
+export type LockHolderUpdateOneRequiredWithoutLeasesNestedInput = {
+  create?: Prisma.XOR<Prisma.LockHolderCreateWithoutLeasesInput, Prisma.LockHolderUncheckedCreateWithoutLeasesInput>
+  connectOrCreate?: Prisma.LockHolderCreateOrConnectWithoutLeasesInput
+  upsert?: Prisma.LockHolderUpsertWithoutLeasesInput
+  connect?: Prisma.LockHolderWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.LockHolderUpdateToOneWithWhereWithoutLeasesInput, Prisma.LockHolderUpdateWithoutLeasesInput>, Prisma.LockHolderUncheckedUpdateWithoutLeasesInput>
+}
+
+export type LockHolderCreateWithoutLeasesInput = {
+  id: string
+  startedAt?: Date | string
+  expiresAt: Date | string
+}
+
+export type LockHolderUncheckedCreateWithoutLeasesInput = {
+  id: string
+  startedAt?: Date | string
+  expiresAt: Date | string
+}
+
+export type LockHolderCreateOrConnectWithoutLeasesInput = {
+  where: Prisma.LockHolderWhereUniqueInput
+  create: Prisma.XOR<Prisma.LockHolderCreateWithoutLeasesInput, Prisma.LockHolderUncheckedCreateWithoutLeasesInput>
+}
+
+export type LockHolderUpsertWithoutLeasesInput = {
+  update: Prisma.XOR<Prisma.LockHolderUpdateWithoutLeasesInput, Prisma.LockHolderUncheckedUpdateWithoutLeasesInput>
+  create: Prisma.XOR<Prisma.LockHolderCreateWithoutLeasesInput, Prisma.LockHolderUncheckedCreateWithoutLeasesInput>
+  where?: Prisma.LockHolderWhereInput
+}
+
+export type LockHolderUpdateToOneWithWhereWithoutLeasesInput = {
+  where?: Prisma.LockHolderWhereInput
+  data: Prisma.XOR<Prisma.LockHolderUpdateWithoutLeasesInput, Prisma.LockHolderUncheckedUpdateWithoutLeasesInput>
+}
+
+export type LockHolderUpdateWithoutLeasesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  startedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type LockHolderUncheckedUpdateWithoutLeasesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  startedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+/**
+ * Count Type LockHolderCountOutputType
+ */
+
+export type LockHolderCountOutputType = {
+  leases: number
+}
+
+export type LockHolderCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  leases?: boolean | LockHolderCountOutputTypeCountLeasesArgs
+}
+
+/**
+ * LockHolderCountOutputType without action
+ */
+export type LockHolderCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LockHolderCountOutputType
+   */
+  select?: Prisma.LockHolderCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * LockHolderCountOutputType without action
+ */
+export type LockHolderCountOutputTypeCountLeasesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.LockLeaseWhereInput
+}
+
+
+export type LockHolderSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  startedAt?: boolean
+  expiresAt?: boolean
+  leases?: boolean | Prisma.LockHolder$leasesArgs<ExtArgs>
+  _count?: boolean | Prisma.LockHolderCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["lockHolder"]>
+
+export type LockHolderSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  startedAt?: boolean
+  expiresAt?: boolean
+}, ExtArgs["result"]["lockHolder"]>
+
+export type LockHolderSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  startedAt?: boolean
+  expiresAt?: boolean
+}, ExtArgs["result"]["lockHolder"]>
+
+export type LockHolderSelectScalar = {
+  id?: boolean
+  startedAt?: boolean
+  expiresAt?: boolean
+}
+
+export type LockHolderOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "startedAt" | "expiresAt", ExtArgs["result"]["lockHolder"]>
+export type LockHolderInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  leases?: boolean | Prisma.LockHolder$leasesArgs<ExtArgs>
+  _count?: boolean | Prisma.LockHolderCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type LockHolderIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
+export type LockHolderIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
+
+export type $LockHolderPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "LockHolder"
+  objects: {
+    /**
+     * The leases currently held by the holder.
+     */
+    leases: Prisma.$LockLeasePayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    /**
+     * The runtime ID of the backend process.
+     */
+    id: string
+    /**
+     * The time when the holder was registered.
+     */
+    startedAt: Date
+    /**
+     * The time after which the holder is considered dead unless the heartbeat extends it.
+     */
+    expiresAt: Date
+  }, ExtArgs["result"]["lockHolder"]>
+  composites: {}
+}
+
+export type LockHolderGetPayload<S extends boolean | null | undefined | LockHolderDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$LockHolderPayload, S>
+
+export type LockHolderCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<LockHolderFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: LockHolderCountAggregateInputType | true
+  }
+
+export interface LockHolderDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['LockHolder'], meta: { name: 'LockHolder' } }
+  /**
+   * Find zero or one LockHolder that matches the filter.
+   * @param {LockHolderFindUniqueArgs} args - Arguments to find a LockHolder
+   * @example
+   * // Get one LockHolder
+   * const lockHolder = await prisma.lockHolder.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends LockHolderFindUniqueArgs>(args: Prisma.SelectSubset<T, LockHolderFindUniqueArgs<ExtArgs>>): Prisma.Prisma__LockHolderClient<runtime.Types.Result.GetResult<Prisma.$LockHolderPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one LockHolder that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {LockHolderFindUniqueOrThrowArgs} args - Arguments to find a LockHolder
+   * @example
+   * // Get one LockHolder
+   * const lockHolder = await prisma.lockHolder.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends LockHolderFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, LockHolderFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__LockHolderClient<runtime.Types.Result.GetResult<Prisma.$LockHolderPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first LockHolder that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {LockHolderFindFirstArgs} args - Arguments to find a LockHolder
+   * @example
+   * // Get one LockHolder
+   * const lockHolder = await prisma.lockHolder.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends LockHolderFindFirstArgs>(args?: Prisma.SelectSubset<T, LockHolderFindFirstArgs<ExtArgs>>): Prisma.Prisma__LockHolderClient<runtime.Types.Result.GetResult<Prisma.$LockHolderPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first LockHolder that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {LockHolderFindFirstOrThrowArgs} args - Arguments to find a LockHolder
+   * @example
+   * // Get one LockHolder
+   * const lockHolder = await prisma.lockHolder.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends LockHolderFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, LockHolderFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__LockHolderClient<runtime.Types.Result.GetResult<Prisma.$LockHolderPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more LockHolders that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {LockHolderFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all LockHolders
+   * const lockHolders = await prisma.lockHolder.findMany()
+   * 
+   * // Get first 10 LockHolders
+   * const lockHolders = await prisma.lockHolder.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const lockHolderWithIdOnly = await prisma.lockHolder.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends LockHolderFindManyArgs>(args?: Prisma.SelectSubset<T, LockHolderFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$LockHolderPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a LockHolder.
+   * @param {LockHolderCreateArgs} args - Arguments to create a LockHolder.
+   * @example
+   * // Create one LockHolder
+   * const LockHolder = await prisma.lockHolder.create({
+   *   data: {
+   *     // ... data to create a LockHolder
+   *   }
+   * })
+   * 
+   */
+  create<T extends LockHolderCreateArgs>(args: Prisma.SelectSubset<T, LockHolderCreateArgs<ExtArgs>>): Prisma.Prisma__LockHolderClient<runtime.Types.Result.GetResult<Prisma.$LockHolderPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many LockHolders.
+   * @param {LockHolderCreateManyArgs} args - Arguments to create many LockHolders.
+   * @example
+   * // Create many LockHolders
+   * const lockHolder = await prisma.lockHolder.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends LockHolderCreateManyArgs>(args?: Prisma.SelectSubset<T, LockHolderCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many LockHolders and returns the data saved in the database.
+   * @param {LockHolderCreateManyAndReturnArgs} args - Arguments to create many LockHolders.
+   * @example
+   * // Create many LockHolders
+   * const lockHolder = await prisma.lockHolder.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many LockHolders and only return the `id`
+   * const lockHolderWithIdOnly = await prisma.lockHolder.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends LockHolderCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, LockHolderCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$LockHolderPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a LockHolder.
+   * @param {LockHolderDeleteArgs} args - Arguments to delete one LockHolder.
+   * @example
+   * // Delete one LockHolder
+   * const LockHolder = await prisma.lockHolder.delete({
+   *   where: {
+   *     // ... filter to delete one LockHolder
+   *   }
+   * })
+   * 
+   */
+  delete<T extends LockHolderDeleteArgs>(args: Prisma.SelectSubset<T, LockHolderDeleteArgs<ExtArgs>>): Prisma.Prisma__LockHolderClient<runtime.Types.Result.GetResult<Prisma.$LockHolderPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one LockHolder.
+   * @param {LockHolderUpdateArgs} args - Arguments to update one LockHolder.
+   * @example
+   * // Update one LockHolder
+   * const lockHolder = await prisma.lockHolder.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends LockHolderUpdateArgs>(args: Prisma.SelectSubset<T, LockHolderUpdateArgs<ExtArgs>>): Prisma.Prisma__LockHolderClient<runtime.Types.Result.GetResult<Prisma.$LockHolderPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more LockHolders.
+   * @param {LockHolderDeleteManyArgs} args - Arguments to filter LockHolders to delete.
+   * @example
+   * // Delete a few LockHolders
+   * const { count } = await prisma.lockHolder.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends LockHolderDeleteManyArgs>(args?: Prisma.SelectSubset<T, LockHolderDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more LockHolders.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {LockHolderUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many LockHolders
+   * const lockHolder = await prisma.lockHolder.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends LockHolderUpdateManyArgs>(args: Prisma.SelectSubset<T, LockHolderUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more LockHolders and returns the data updated in the database.
+   * @param {LockHolderUpdateManyAndReturnArgs} args - Arguments to update many LockHolders.
+   * @example
+   * // Update many LockHolders
+   * const lockHolder = await prisma.lockHolder.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more LockHolders and only return the `id`
+   * const lockHolderWithIdOnly = await prisma.lockHolder.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends LockHolderUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, LockHolderUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$LockHolderPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one LockHolder.
+   * @param {LockHolderUpsertArgs} args - Arguments to update or create a LockHolder.
+   * @example
+   * // Update or create a LockHolder
+   * const lockHolder = await prisma.lockHolder.upsert({
+   *   create: {
+   *     // ... data to create a LockHolder
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the LockHolder we want to update
+   *   }
+   * })
+   */
+  upsert<T extends LockHolderUpsertArgs>(args: Prisma.SelectSubset<T, LockHolderUpsertArgs<ExtArgs>>): Prisma.Prisma__LockHolderClient<runtime.Types.Result.GetResult<Prisma.$LockHolderPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of LockHolders.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {LockHolderCountArgs} args - Arguments to filter LockHolders to count.
+   * @example
+   * // Count the number of LockHolders
+   * const count = await prisma.lockHolder.count({
+   *   where: {
+   *     // ... the filter for the LockHolders we want to count
+   *   }
+   * })
+  **/
+  count<T extends LockHolderCountArgs>(
+    args?: Prisma.Subset<T, LockHolderCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], LockHolderCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a LockHolder.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {LockHolderAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends LockHolderAggregateArgs>(args: Prisma.Subset<T, LockHolderAggregateArgs>): Prisma.PrismaPromise<GetLockHolderAggregateType<T>>
+
+  /**
+   * Group by LockHolder.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {LockHolderGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends LockHolderGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: LockHolderGroupByArgs['orderBy'] }
+      : { orderBy?: LockHolderGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, LockHolderGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetLockHolderGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the LockHolder model
+ */
+readonly fields: LockHolderFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for LockHolder.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__LockHolderClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  leases<T extends Prisma.LockHolder$leasesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.LockHolder$leasesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$LockLeasePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the LockHolder model
+ */
+export interface LockHolderFieldRefs {
+  readonly id: Prisma.FieldRef<"LockHolder", 'String'>
+  readonly startedAt: Prisma.FieldRef<"LockHolder", 'DateTime'>
+  readonly expiresAt: Prisma.FieldRef<"LockHolder", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * LockHolder findUnique
+ */
+export type LockHolderFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LockHolder
+   */
+  select?: Prisma.LockHolderSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LockHolder
+   */
+  omit?: Prisma.LockHolderOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LockHolderInclude<ExtArgs> | null
+  /**
+   * Filter, which LockHolder to fetch.
+   */
+  where: Prisma.LockHolderWhereUniqueInput
+}
+
+/**
+ * LockHolder findUniqueOrThrow
+ */
+export type LockHolderFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LockHolder
+   */
+  select?: Prisma.LockHolderSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LockHolder
+   */
+  omit?: Prisma.LockHolderOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LockHolderInclude<ExtArgs> | null
+  /**
+   * Filter, which LockHolder to fetch.
+   */
+  where: Prisma.LockHolderWhereUniqueInput
+}
+
+/**
+ * LockHolder findFirst
+ */
+export type LockHolderFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LockHolder
+   */
+  select?: Prisma.LockHolderSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LockHolder
+   */
+  omit?: Prisma.LockHolderOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LockHolderInclude<ExtArgs> | null
+  /**
+   * Filter, which LockHolder to fetch.
+   */
+  where?: Prisma.LockHolderWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of LockHolders to fetch.
+   */
+  orderBy?: Prisma.LockHolderOrderByWithRelationInput | Prisma.LockHolderOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for LockHolders.
+   */
+  cursor?: Prisma.LockHolderWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` LockHolders from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` LockHolders.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of LockHolders.
+   */
+  distinct?: Prisma.LockHolderScalarFieldEnum | Prisma.LockHolderScalarFieldEnum[]
+}
+
+/**
+ * LockHolder findFirstOrThrow
+ */
+export type LockHolderFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LockHolder
+   */
+  select?: Prisma.LockHolderSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LockHolder
+   */
+  omit?: Prisma.LockHolderOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LockHolderInclude<ExtArgs> | null
+  /**
+   * Filter, which LockHolder to fetch.
+   */
+  where?: Prisma.LockHolderWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of LockHolders to fetch.
+   */
+  orderBy?: Prisma.LockHolderOrderByWithRelationInput | Prisma.LockHolderOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for LockHolders.
+   */
+  cursor?: Prisma.LockHolderWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` LockHolders from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` LockHolders.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of LockHolders.
+   */
+  distinct?: Prisma.LockHolderScalarFieldEnum | Prisma.LockHolderScalarFieldEnum[]
+}
+
+/**
+ * LockHolder findMany
+ */
+export type LockHolderFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LockHolder
+   */
+  select?: Prisma.LockHolderSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LockHolder
+   */
+  omit?: Prisma.LockHolderOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LockHolderInclude<ExtArgs> | null
+  /**
+   * Filter, which LockHolders to fetch.
+   */
+  where?: Prisma.LockHolderWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of LockHolders to fetch.
+   */
+  orderBy?: Prisma.LockHolderOrderByWithRelationInput | Prisma.LockHolderOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing LockHolders.
+   */
+  cursor?: Prisma.LockHolderWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` LockHolders from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` LockHolders.
+   */
+  skip?: number
+  distinct?: Prisma.LockHolderScalarFieldEnum | Prisma.LockHolderScalarFieldEnum[]
+}
+
+/**
+ * LockHolder create
+ */
+export type LockHolderCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LockHolder
+   */
+  select?: Prisma.LockHolderSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LockHolder
+   */
+  omit?: Prisma.LockHolderOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LockHolderInclude<ExtArgs> | null
+  /**
+   * The data needed to create a LockHolder.
+   */
+  data: Prisma.XOR<Prisma.LockHolderCreateInput, Prisma.LockHolderUncheckedCreateInput>
+}
+
+/**
+ * LockHolder createMany
+ */
+export type LockHolderCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many LockHolders.
+   */
+  data: Prisma.LockHolderCreateManyInput | Prisma.LockHolderCreateManyInput[]
+}
+
+/**
+ * LockHolder createManyAndReturn
+ */
+export type LockHolderCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LockHolder
+   */
+  select?: Prisma.LockHolderSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the LockHolder
+   */
+  omit?: Prisma.LockHolderOmit<ExtArgs> | null
+  /**
+   * The data used to create many LockHolders.
+   */
+  data: Prisma.LockHolderCreateManyInput | Prisma.LockHolderCreateManyInput[]
+}
+
+/**
+ * LockHolder update
+ */
+export type LockHolderUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LockHolder
+   */
+  select?: Prisma.LockHolderSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LockHolder
+   */
+  omit?: Prisma.LockHolderOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LockHolderInclude<ExtArgs> | null
+  /**
+   * The data needed to update a LockHolder.
+   */
+  data: Prisma.XOR<Prisma.LockHolderUpdateInput, Prisma.LockHolderUncheckedUpdateInput>
+  /**
+   * Choose, which LockHolder to update.
+   */
+  where: Prisma.LockHolderWhereUniqueInput
+}
+
+/**
+ * LockHolder updateMany
+ */
+export type LockHolderUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update LockHolders.
+   */
+  data: Prisma.XOR<Prisma.LockHolderUpdateManyMutationInput, Prisma.LockHolderUncheckedUpdateManyInput>
+  /**
+   * Filter which LockHolders to update
+   */
+  where?: Prisma.LockHolderWhereInput
+  /**
+   * Limit how many LockHolders to update.
+   */
+  limit?: number
+}
+
+/**
+ * LockHolder updateManyAndReturn
+ */
+export type LockHolderUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LockHolder
+   */
+  select?: Prisma.LockHolderSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the LockHolder
+   */
+  omit?: Prisma.LockHolderOmit<ExtArgs> | null
+  /**
+   * The data used to update LockHolders.
+   */
+  data: Prisma.XOR<Prisma.LockHolderUpdateManyMutationInput, Prisma.LockHolderUncheckedUpdateManyInput>
+  /**
+   * Filter which LockHolders to update
+   */
+  where?: Prisma.LockHolderWhereInput
+  /**
+   * Limit how many LockHolders to update.
+   */
+  limit?: number
+}
+
+/**
+ * LockHolder upsert
+ */
+export type LockHolderUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LockHolder
+   */
+  select?: Prisma.LockHolderSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LockHolder
+   */
+  omit?: Prisma.LockHolderOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LockHolderInclude<ExtArgs> | null
+  /**
+   * The filter to search for the LockHolder to update in case it exists.
+   */
+  where: Prisma.LockHolderWhereUniqueInput
+  /**
+   * In case the LockHolder found by the `where` argument doesn't exist, create a new LockHolder with this data.
+   */
+  create: Prisma.XOR<Prisma.LockHolderCreateInput, Prisma.LockHolderUncheckedCreateInput>
+  /**
+   * In case the LockHolder was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.LockHolderUpdateInput, Prisma.LockHolderUncheckedUpdateInput>
+}
+
+/**
+ * LockHolder delete
+ */
+export type LockHolderDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LockHolder
+   */
+  select?: Prisma.LockHolderSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LockHolder
+   */
+  omit?: Prisma.LockHolderOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LockHolderInclude<ExtArgs> | null
+  /**
+   * Filter which LockHolder to delete.
+   */
+  where: Prisma.LockHolderWhereUniqueInput
+}
+
+/**
+ * LockHolder deleteMany
+ */
+export type LockHolderDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which LockHolders to delete
+   */
+  where?: Prisma.LockHolderWhereInput
+  /**
+   * Limit how many LockHolders to delete.
+   */
+  limit?: number
+}
+
+/**
+ * LockHolder.leases
+ */
+export type LockHolder$leasesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LockLease
+   */
+  select?: Prisma.LockLeaseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LockLease
+   */
+  omit?: Prisma.LockLeaseOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LockLeaseInclude<ExtArgs> | null
+  where?: Prisma.LockLeaseWhereInput
+  orderBy?: Prisma.LockLeaseOrderByWithRelationInput | Prisma.LockLeaseOrderByWithRelationInput[]
+  cursor?: Prisma.LockLeaseWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.LockLeaseScalarFieldEnum | Prisma.LockLeaseScalarFieldEnum[]
+}
+
+/**
+ * LockHolder without action
+ */
+export type LockHolderDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LockHolder
+   */
+  select?: Prisma.LockHolderSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LockHolder
+   */
+  omit?: Prisma.LockHolderOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LockHolderInclude<ExtArgs> | null
+}
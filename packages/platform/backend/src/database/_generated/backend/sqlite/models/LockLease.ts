@@ -0,0 +1,1281 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `LockLease` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+
+import type * as PJTG from '../pjtg.ts';
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.ts"
+import type * as Prisma from "../internal/prismaNamespace.ts"
+
+/**
+ * Model LockLease
+ * The lease of the distributed lock held by the backend runtime.
+ */
+export type LockLeaseModel = runtime.Types.Result.DefaultSelection<Prisma.$LockLeasePayload>
+
+export type AggregateLockLease = {
+  _count: LockLeaseCountAggregateOutputType | null
+  _min: LockLeaseMinAggregateOutputType | null
+  _max: LockLeaseMaxAggregateOutputType | null
+}
+
+export type LockLeaseMinAggregateOutputType = {
+  key: string | null
+  holderId: string | null
+  acquiredAt: Date | null
+}
+
+export type LockLeaseMaxAggregateOutputType = {
+  key: string | null
+  holderId: string | null
+  acquiredAt: Date | null
+}
+
+export type LockLeaseCountAggregateOutputType = {
+  key: number
+  holderId: number
+  acquiredAt: number
+  _all: number
+}
+
+
+export type LockLeaseMinAggregateInputType = {
+  key?: true
+  holderId?: true
+  acquiredAt?: true
+}
+
+export type LockLeaseMaxAggregateInputType = {
+  key?: true
+  holderId?: true
+  acquiredAt?: true
+}
+
+export type LockLeaseCountAggregateInputType = {
+  key?: true
+  holderId?: true
+  acquiredAt?: true
+  _all?: true
+}
+
+export type LockLeaseAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which LockLease to aggregate.
+   */
+  where?: Prisma.LockLeaseWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of LockLeases to fetch.
+   */
+  orderBy?: Prisma.LockLeaseOrderByWithRelationInput | Prisma.LockLeaseOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.LockLeaseWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` LockLeases from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` LockLeases.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned LockLeases
+  **/
+  _count?: true | LockLeaseCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: LockLeaseMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: LockLeaseMaxAggregateInputType
+}
+
+export type GetLockLeaseAggregateType<T extends LockLeaseAggregateArgs> = {
+      [P in keyof T & keyof AggregateLockLease]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateLockLease[P]>
+    : Prisma.GetScalarType<T[P], AggregateLockLease[P]>
+}
+
+
+
+
+export type LockLeaseGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.LockLeaseWhereInput
+  orderBy?: Prisma.LockLeaseOrderByWithAggregationInput | Prisma.LockLeaseOrderByWithAggregationInput[]
+  by: Prisma.LockLeaseScalarFieldEnum[] | Prisma.LockLeaseScalarFieldEnum
+  having?: Prisma.LockLeaseScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: LockLeaseCountAggregateInputType | true
+  _min?: LockLeaseMinAggregateInputType
+  _max?: LockLeaseMaxAggregateInputType
+}
+
+export type LockLeaseGroupByOutputType = {
+  key: string
+  holderId: string
+  acquiredAt: Date
+  _count: LockLeaseCountAggregateOutputType | null
+  _min: LockLeaseMinAggregateOutputType | null
+  _max: LockLeaseMaxAggregateOutputType | null
+}
+
+type GetLockLeaseGroupByPayload<T extends LockLeaseGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<LockLeaseGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof LockLeaseGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], LockLeaseGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], LockLeaseGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type LockLeaseWhereInput = {
+  AND?: Prisma.LockLeaseWhereInput | Prisma.LockLeaseWhereInput[]
+  OR?: Prisma.LockLeaseWhereInput[]
+  NOT?: Prisma.LockLeaseWhereInput | Prisma.LockLeaseWhereInput[]
+  key?: Prisma.StringFilter<"LockLease"> | string
+  holderId?: Prisma.StringFilter<"LockLease"> | string
+  acquiredAt?: Prisma.DateTimeFilter<"LockLease"> | Date | string
+  holder?: Prisma.XOR<Prisma.LockHolderScalarRelationFilter, Prisma.LockHolderWhereInput>
+}
+
+export type LockLeaseOrderByWithRelationInput = {
+  key?: Prisma.SortOrder
+  holderId?: Prisma.SortOrder
+  acquiredAt?: Prisma.SortOrder
+  holder?: Prisma.LockHolderOrderByWithRelationInput
+}
+
+export type LockLeaseWhereUniqueInput = Prisma.AtLeast<{
+  key?: string
+  AND?: Prisma.LockLeaseWhereInput | Prisma.LockLeaseWhereInput[]
+  OR?: Prisma.LockLeaseWhereInput[]
+  NOT?: Prisma.LockLeaseWhereInput | Prisma.LockLeaseWhereInput[]
+  holderId?: Prisma.StringFilter<"LockLease"> | string
+  acquiredAt?: Prisma.DateTimeFilter<"LockLease"> | Date | string
+  holder?: Prisma.XOR<Prisma.LockHolderScalarRelationFilter, Prisma.LockHolderWhereInput>
+}, "key">
+
+export type LockLeaseOrderByWithAggregationInput = {
+  key?: Prisma.SortOrder
+  holderId?: Prisma.SortOrder
+  acquiredAt?: Prisma.SortOrder
+  _count?: Prisma.LockLeaseCountOrderByAggregateInput
+  _max?: Prisma.LockLeaseMaxOrderByAggregateInput
+  _min?: Prisma.LockLeaseMinOrderByAggregateInput
+}
+
+export type LockLeaseScalarWhereWithAggregatesInput = {
+  AND?: Prisma.LockLeaseScalarWhereWithAggregatesInput | Prisma.LockLeaseScalarWhereWithAggregatesInput[]
+  OR?: Prisma.LockLeaseScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.LockLeaseScalarWhereWithAggregatesInput | Prisma.LockLeaseScalarWhereWithAggregatesInput[]
+  key?: Prisma.StringWithAggregatesFilter<"LockLease"> | string
+  holderId?: Prisma.StringWithAggregatesFilter<"LockLease"> | string
+  acquiredAt?: Prisma.DateTimeWithAggregatesFilter<"LockLease"> | Date | string
+}
+
+export type LockLeaseCreateInput = {
+  key: string
+  acquiredAt?: Date | string
+  holder: Prisma.LockHolderCreateNestedOneWithoutLeasesInput
+}
+
+export type LockLeaseUncheckedCreateInput = {
+  key: string
+  holderId: string
+  acquiredAt?: Date | string
+}
+
+export type LockLeaseUpdateInput = {
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  acquiredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  holder?: Prisma.LockHolderUpdateOneRequiredWithoutLeasesNestedInput
+}
+
+export type LockLeaseUncheckedUpdateInput = {
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  holderId?: Prisma.StringFieldUpdateOperationsInput | string
+  acquiredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type LockLeaseCreateManyInput = {
+  key: string
+  holderId: string
+  acquiredAt?: Date | string
+}
+
+export type LockLeaseUpdateManyMutationInput = {
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  acquiredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type LockLeaseUncheckedUpdateManyInput = {
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  holderId?: Prisma.StringFieldUpdateOperationsInput | string
+  acquiredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type LockLeaseListRelationFilter = {
+  every?: Prisma.LockLeaseWhereInput
+  some?: Prisma.LockLeaseWhereInput
+  none?: Prisma.LockLeaseWhereInput
+}
+
+export type LockLeaseOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type LockLeaseCountOrderByAggregateInput = {
+  key?: Prisma.SortOrder
+  holderId?: Prisma.SortOrder
+  acquiredAt?: Prisma.SortOrder
+}
+
+export type LockLeaseMaxOrderByAggregateInput = {
+  key?: Prisma.SortOrder
+  holderId?: Prisma.SortOrder
+  acquiredAt?: Prisma.SortOrder
+}
+
+export type LockLeaseMinOrderByAggregateInput = {
+  key?: Prisma.SortOrder
+  holderId?: Prisma.SortOrder
+  acquiredAt?: Prisma.SortOrder
+}
+
+export type LockLeaseCreateNestedManyWithoutHolderInput = {
+  create?: Prisma.XOR<Prisma.LockLeaseCreateWithoutHolderInput, Prisma.LockLeaseUncheckedCreateWithoutHolderInput> | Prisma.LockLeaseCreateWithoutHolderInput[] | Prisma.LockLeaseUncheckedCreateWithoutHolderInput[]
+  connectOrCreate?: Prisma.LockLeaseCreateOrConnectWithoutHolderInput | Prisma.LockLeaseCreateOrConnectWithoutHolderInput[]
+  createMany?: Prisma.LockLeaseCreateManyHolderInputEnvelope
+  connect?: Prisma.LockLeaseWhereUniqueInput | Prisma.LockLeaseWhereUniqueInput[]
+}
+
+export type LockLeaseUncheckedCreateNestedManyWithoutHolderInput = {
+  create?: Prisma.XOR<Prisma.LockLeaseCreateWithoutHolderInput, Prisma.LockLeaseUncheckedCreateWithoutHolderInput> | Prisma.LockLeaseCreateWithoutHolderInput[] | Prisma.LockLeaseUncheckedCreateWithoutHolderInput[]
+  connectOrCreate?: Prisma.LockLeaseCreateOrConnectWithoutHolderInput | Prisma.LockLeaseCreateOrConnectWithoutHolderInput[]
+  createMany?: Prisma.LockLeaseCreateManyHolderInputEnvelope
+  connect?: Prisma.LockLeaseWhereUniqueInput | Prisma.LockLeaseWhereUniqueInput[]
+}
+
+export type LockLeaseUpdateManyWithoutHolderNestedInput = {
+  create?: Prisma.XOR<Prisma.LockLeaseCreateWithoutHolderInput, Prisma.LockLeaseUncheckedCreateWithoutHolderInput> | Prisma.LockLeaseCreateWithoutHolderInput[] | Prisma.LockLeaseUncheckedCreateWithoutHolderInput[]
+  connectOrCreate?: Prisma.LockLeaseCreateOrConnectWithoutHolderInput | Prisma.LockLeaseCreateOrConnectWithoutHolderInput[]
+  upsert?: Prisma.LockLeaseUpsertWithWhereUniqueWithoutHolderInput | Prisma.LockLeaseUpsertWithWhereUniqueWithoutHolderInput[]
+  createMany?: Prisma.LockLeaseCreateManyHolderInputEnvelope
+  set?: Prisma.LockLeaseWhereUniqueInput | Prisma.LockLeaseWhereUniqueInput[]
+  disconnect?: Prisma.LockLeaseWhereUniqueInput | Prisma.LockLeaseWhereUniqueInput[]
+  delete?: Prisma.LockLeaseWhereUniqueInput | Prisma.LockLeaseWhereUniqueInput[]
+  connect?: Prisma.LockLeaseWhereUniqueInput | Prisma.LockLeaseWhereUniqueInput[]
+  update?: Prisma.LockLeaseUpdateWithWhereUniqueWithoutHolderInput | Prisma.LockLeaseUpdateWithWhereUniqueWithoutHolderInput[]
+  updateMany?: Prisma.LockLeaseUpdateManyWithWhereWithoutHolderInput | Prisma.LockLeaseUpdateManyWithWhereWithoutHolderInput[]
+  deleteMany?: Prisma.LockLeaseScalarWhereInput | Prisma.LockLeaseScalarWhereInput[]
+}
+
+export type LockLeaseUncheckedUpdateManyWithoutHolderNestedInput = {
+  create?: Prisma.XOR<Prisma.LockLeaseCreateWithoutHolderInput, Prisma.LockLeaseUncheckedCreateWithoutHolderInput> | Prisma.LockLeaseCreateWithoutHolderInput[] | Prisma.LockLeaseUncheckedCreateWithoutHolderInput[]
+  connectOrCreate?: Prisma.LockLeaseCreateOrConnectWithoutHolderInput | Prisma.LockLeaseCreateOrConnectWithoutHolderInput[]
+  upsert?: Prisma.LockLeaseUpsertWithWhereUniqueWithoutHolderInput | Prisma.LockLeaseUpsertWithWhereUniqueWithoutHolderInput[]
+  createMany?: Prisma.LockLeaseCreateManyHolderInputEnvelope
+  set?: Prisma.LockLeaseWhereUniqueInput | Prisma.LockLeaseWhereUniqueInput[]
+  disconnect?: Prisma.LockLeaseWhereUniqueInput | Prisma.LockLeaseWhereUniqueInput[]
+  delete?: Prisma.LockLeaseWhereUniqueInput | Prisma.LockLeaseWhereUniqueInput[]
+  connect?: Prisma.LockLeaseWhereUniqueInput | Prisma.LockLeaseWhereUniqueInput[]
+  update?: Prisma.LockLeaseUpdateWithWhereUniqueWithoutHolderInput | Prisma.LockLeaseUpdateWithWhereUniqueWithoutHolderInput[]
+  updateMany?: Prisma.LockLeaseUpdateManyWithWhereWithoutHolderInput | Prisma.LockLeaseUpdateManyWithWhereWithoutHolderInput[]
+  deleteMany?: Prisma.LockLeaseScalarWhereInput | Prisma.LockLeaseScalarWhereInput[]
+}
+
+export type LockLeaseCreateWithoutHolderInput = {
+  key: string
+  acquiredAt?: Date | string
+}
+
+export type LockLeaseUncheckedCreateWithoutHolderInput = {
+  key: string
+  acquiredAt?: Date | string
+}
+
+export type LockLeaseCreateOrConnectWithoutHolderInput = {
+  where: Prisma.LockLeaseWhereUniqueInput
+  create: Prisma.XOR<Prisma.LockLeaseCreateWithoutHolderInput, Prisma.LockLeaseUncheckedCreateWithoutHolderInput>
+}
+
+export type LockLeaseCreateManyHolderInputEnvelope = {
+  data: Prisma.LockLeaseCreateManyHolderInput | Prisma.LockLeaseCreateManyHolderInput[]
+}
+
+export type LockLeaseUpsertWithWhereUniqueWithoutHolderInput = {
+  where: Prisma.LockLeaseWhereUniqueInput
+  update: Prisma.XOR<Prisma.LockLeaseUpdateWithoutHolderInput, Prisma.LockLeaseUncheckedUpdateWithoutHolderInput>
+  create: Prisma.XOR<Prisma.LockLeaseCreateWithoutHolderInput, Prisma.LockLeaseUncheckedCreateWithoutHolderInput>
+}
+
+export type LockLeaseUpdateWithWhereUniqueWithoutHolderInput = {
+  where: Prisma.LockLeaseWhereUniqueInput
+  data: Prisma.XOR<Prisma.LockLeaseUpdateWithoutHolderInput, Prisma.LockLeaseUncheckedUpdateWithoutHolderInput>
+}
+
+export type LockLeaseUpdateManyWithWhereWithoutHolderInput = {
+  where: Prisma.LockLeaseScalarWhereInput
+  data: Prisma.XOR<Prisma.LockLeaseUpdateManyMutationInput, Prisma.LockLeaseUncheckedUpdateManyWithoutHolderInput>
+}
+
+export type LockLeaseScalarWhereInput = {
+  AND?: Prisma.LockLeaseScalarWhereInput | Prisma.LockLeaseScalarWhereInput[]
+  OR?: Prisma.LockLeaseScalarWhereInput[]
+  NOT?: Prisma.LockLeaseScalarWhereInput | Prisma.LockLeaseScalarWhereInput[]
+  key?: Prisma.StringFilter<"LockLease"> | string
+  holderId?: Prisma.StringFilter<"LockLease"> | string
+  acquiredAt?: Prisma.DateTimeFilter<"LockLease"> | Date | string
+}
+
+export type LockLeaseCreateManyHolderInput = {
+  key: string
+  acquiredAt?: Date | string
+}
+
+export type LockLeaseUpdateWithoutHolderInput = {
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  acquiredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type LockLeaseUncheckedUpdateWithoutHolderInput = {
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  acquiredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type LockLeaseUncheckedUpdateManyWithoutHolderInput = {
+  key?: Prisma.StringFieldUpdateOperationsInput | string
+  acquiredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type LockLeaseSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  key?: boolean
+  holderId?: boolean
+  acquiredAt?: boolean
+  holder?: boolean | Prisma.LockHolderDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["lockLease"]>
+
+export type LockLeaseSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  key?: boolean
+  holderId?: boolean
+  acquiredAt?: boolean
+  holder?: boolean | Prisma.LockHolderDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["lockLease"]>
+
+export type LockLeaseSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  key?: boolean
+  holderId?: boolean
+  acquiredAt?: boolean
+  holder?: boolean | Prisma.LockHolderDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["lockLease"]>
+
+export type LockLeaseSelectScalar = {
+  key?: boolean
+  holderId?: boolean
+  acquiredAt?: boolean
+}
+
+export type LockLeaseOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"key" | "holderId" | "acquiredAt", ExtArgs["result"]["lockLease"]>
+export type LockLeaseInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  holder?: boolean | Prisma.LockHolderDefaultArgs<ExtArgs>
+}
+export type LockLeaseIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  holder?: boolean | Prisma.LockHolderDefaultArgs<ExtArgs>
+}
+export type LockLeaseIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  holder?: boolean | Prisma.LockHolderDefaultArgs<ExtArgs>
+}
+
+export type $LockLeasePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "LockLease"
+  objects: {
+    /**
+     * The holder of the lease.
+     */
+    holder: Prisma.$LockHolderPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    /**
+     * The key of the lock.
+     */
+    key: string
+    /**
+     * The ID of the holder of the lease.
+     */
+    holderId: string
+    /**
+     * The time when the lease was acquired.
+     */
+    acquiredAt: Date
+  }, ExtArgs["result"]["lockLease"]>
+  composites: {}
+}
+
+export type LockLeaseGetPayload<S extends boolean | null | undefined | LockLeaseDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$LockLeasePayload, S>
+
+export type LockLeaseCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<LockLeaseFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: LockLeaseCountAggregateInputType | true
+  }
+
+export interface LockLeaseDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['LockLease'], meta: { name: 'LockLease' } }
+  /**
+   * Find zero or one LockLease that matches the filter.
+   * @param {LockLeaseFindUniqueArgs} args - Arguments to find a LockLease
+   * @example
+   * // Get one LockLease
+   * const lockLease = await prisma.lockLease.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends LockLeaseFindUniqueArgs>(args: Prisma.SelectSubset<T, LockLeaseFindUniqueArgs<ExtArgs>>): Prisma.Prisma__LockLeaseClient<runtime.Types.Result.GetResult<Prisma.$LockLeasePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one LockLease that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {LockLeaseFindUniqueOrThrowArgs} args - Arguments to find a LockLease
+   * @example
+   * // Get one LockLease
+   * const lockLease = await prisma.lockLease.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends LockLeaseFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, LockLeaseFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__LockLeaseClient<runtime.Types.Result.GetResult<Prisma.$LockLeasePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first LockLease that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {LockLeaseFindFirstArgs} args - Arguments to find a LockLease
+   * @example
+   * // Get one LockLease
+   * const lockLease = await prisma.lockLease.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends LockLeaseFindFirstArgs>(args?: Prisma.SelectSubset<T, LockLeaseFindFirstArgs<ExtArgs>>): Prisma.Prisma__LockLeaseClient<runtime.Types.Result.GetResult<Prisma.$LockLeasePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first LockLease that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {LockLeaseFindFirstOrThrowArgs} args - Arguments to find a LockLease
+   * @example
+   * // Get one LockLease
+   * const lockLease = await prisma.lockLease.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends LockLeaseFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, LockLeaseFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__LockLeaseClient<runtime.Types.Result.GetResult<Prisma.$LockLeasePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more LockLeases that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {LockLeaseFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all LockLeases
+   * const lockLeases = await prisma.lockLease.findMany()
+   * 
+   * // Get first 10 LockLeases
+   * const lockLeases = await prisma.lockLease.findMany({ take: 10 })
+   * 
+   * // Only select the `key`
+   * const lockLeaseWithKeyOnly = await prisma.lockLease.findMany({ select: { key: true } })
+   * 
+   */
+  findMany<T extends LockLeaseFindManyArgs>(args?: Prisma.SelectSubset<T, LockLeaseFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$LockLeasePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a LockLease.
+   * @param {LockLeaseCreateArgs} args - Arguments to create a LockLease.
+   * @example
+   * // Create one LockLease
+   * const LockLease = await prisma.lockLease.create({
+   *   data: {
+   *     // ... data to create a LockLease
+   *   }
+   * })
+   * 
+   */
+  create<T extends LockLeaseCreateArgs>(args: Prisma.SelectSubset<T, LockLeaseCreateArgs<ExtArgs>>): Prisma.Prisma__LockLeaseClient<runtime.Types.Result.GetResult<Prisma.$LockLeasePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many LockLeases.
+   * @param {LockLeaseCreateManyArgs} args - Arguments to create many LockLeases.
+   * @example
+   * // Create many LockLeases
+   * const lockLease = await prisma.lockLease.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends LockLeaseCreateManyArgs>(args?: Prisma.SelectSubset<T, LockLeaseCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many LockLeases and returns the data saved in the database.
+   * @param {LockLeaseCreateManyAndReturnArgs} args - Arguments to create many LockLeases.
+   * @example
+   * // Create many LockLeases
+   * const lockLease = await prisma.lockLease.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many LockLeases and only return the `key`
+   * const lockLeaseWithKeyOnly = await prisma.lockLease.createManyAndReturn({
+   *   select: { key: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends LockLeaseCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, LockLeaseCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$LockLeasePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a LockLease.
+   * @param {LockLeaseDeleteArgs} args - Arguments to delete one LockLease.
+   * @example
+   * // Delete one LockLease
+   * const LockLease = await prisma.lockLease.delete({
+   *   where: {
+   *     // ... filter to delete one LockLease
+   *   }
+   * })
+   * 
+   */
+  delete<T extends LockLeaseDeleteArgs>(args: Prisma.SelectSubset<T, LockLeaseDeleteArgs<ExtArgs>>): Prisma.Prisma__LockLeaseClient<runtime.Types.Result.GetResult<Prisma.$LockLeasePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one LockLease.
+   * @param {LockLeaseUpdateArgs} args - Arguments to update one LockLease.
+   * @example
+   * // Update one LockLease
+   * const lockLease = await prisma.lockLease.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends LockLeaseUpdateArgs>(args: Prisma.SelectSubset<T, LockLeaseUpdateArgs<ExtArgs>>): Prisma.Prisma__LockLeaseClient<runtime.Types.Result.GetResult<Prisma.$LockLeasePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more LockLeases.
+   * @param {LockLeaseDeleteManyArgs} args - Arguments to filter LockLeases to delete.
+   * @example
+   * // Delete a few LockLeases
+   * const { count } = await prisma.lockLease.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends LockLeaseDeleteManyArgs>(args?: Prisma.SelectSubset<T, LockLeaseDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more LockLeases.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {LockLeaseUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many LockLeases
+   * const lockLease = await prisma.lockLease.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends LockLeaseUpdateManyArgs>(args: Prisma.SelectSubset<T, LockLeaseUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more LockLeases and returns the data updated in the database.
+   * @param {LockLeaseUpdateManyAndReturnArgs} args - Arguments to update many LockLeases.
+   * @example
+   * // Update many LockLeases
+   * const lockLease = await prisma.lockLease.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more LockLeases and only return the `key`
+   * const lockLeaseWithKeyOnly = await prisma.lockLease.updateManyAndReturn({
+   *   select: { key: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends LockLeaseUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, LockLeaseUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$LockLeasePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one LockLease.
+   * @param {LockLeaseUpsertArgs} args - Arguments to update or create a LockLease.
+   * @example
+   * // Update or create a LockLease
+   * const lockLease = await prisma.lockLease.upsert({
+   *   create: {
+   *     // ... data to create a LockLease
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the LockLease we want to update
+   *   }
+   * })
+   */
+  upsert<T extends LockLeaseUpsertArgs>(args: Prisma.SelectSubset<T, LockLeaseUpsertArgs<ExtArgs>>): Prisma.Prisma__LockLeaseClient<runtime.Types.Result.GetResult<Prisma.$LockLeasePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of LockLeases.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {LockLeaseCountArgs} args - Arguments to filter LockLeases to count.
+   * @example
+   * // Count the number of LockLeases
+   * const count = await prisma.lockLease.count({
+   *   where: {
+   *     // ... the filter for the LockLeases we want to count
+   *   }
+   * })
+  **/
+  count<T extends LockLeaseCountArgs>(
+    args?: Prisma.Subset<T, LockLeaseCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], LockLeaseCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a LockLease.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {LockLeaseAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends LockLeaseAggregateArgs>(args: Prisma.Subset<T, LockLeaseAggregateArgs>): Prisma.PrismaPromise<GetLockLeaseAggregateType<T>>
+
+  /**
+   * Group by LockLease.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {LockLeaseGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends LockLeaseGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: LockLeaseGroupByArgs['orderBy'] }
+      : { orderBy?: LockLeaseGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, LockLeaseGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetLockLeaseGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the LockLease model
+ */
+readonly fields: LockLeaseFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for LockLease.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__LockLeaseClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  holder<T extends Prisma.LockHolderDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.LockHolderDefaultArgs<ExtArgs>>): Prisma.Prisma__LockHolderClient<runtime.Types.Result.GetResult<Prisma.$LockHolderPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the LockLease model
+ */
+export interface LockLeaseFieldRefs {
+  readonly key: Prisma.FieldRef<"LockLease", 'String'>
+  readonly holderId: Prisma.FieldRef<"LockLease", 'String'>
+  readonly acquiredAt: Prisma.FieldRef<"LockLease", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * LockLease findUnique
+ */
+export type LockLeaseFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LockLease
+   */
+  select?: Prisma.LockLeaseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LockLease
+   */
+  omit?: Prisma.LockLeaseOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LockLeaseInclude<ExtArgs> | null
+  /**
+   * Filter, which LockLease to fetch.
+   */
+  where: Prisma.LockLeaseWhereUniqueInput
+}
+
+/**
+ * LockLease findUniqueOrThrow
+ */
+export type LockLeaseFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LockLease
+   */
+  select?: Prisma.LockLeaseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LockLease
+   */
+  omit?: Prisma.LockLeaseOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LockLeaseInclude<ExtArgs> | null
+  /**
+   * Filter, which LockLease to fetch.
+   */
+  where: Prisma.LockLeaseWhereUniqueInput
+}
+
+/**
+ * LockLease findFirst
+ */
+export type LockLeaseFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LockLease
+   */
+  select?: Prisma.LockLeaseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LockLease
+   */
+  omit?: Prisma.LockLeaseOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LockLeaseInclude<ExtArgs> | null
+  /**
+   * Filter, which LockLease to fetch.
+   */
+  where?: Prisma.LockLeaseWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of LockLeases to fetch.
+   */
+  orderBy?: Prisma.LockLeaseOrderByWithRelationInput | Prisma.LockLeaseOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for LockLeases.
+   */
+  cursor?: Prisma.LockLeaseWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` LockLeases from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` LockLeases.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of LockLeases.
+   */
+  distinct?: Prisma.LockLeaseScalarFieldEnum | Prisma.LockLeaseScalarFieldEnum[]
+}
+
+/**
+ * LockLease findFirstOrThrow
+ */
+export type LockLeaseFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LockLease
+   */
+  select?: Prisma.LockLeaseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LockLease
+   */
+  omit?: Prisma.LockLeaseOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LockLeaseInclude<ExtArgs> | null
+  /**
+   * Filter, which LockLease to fetch.
+   */
+  where?: Prisma.LockLeaseWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of LockLeases to fetch.
+   */
+  orderBy?: Prisma.LockLeaseOrderByWithRelationInput | Prisma.LockLeaseOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for LockLeases.
+   */
+  cursor?: Prisma.LockLeaseWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` LockLeases from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` LockLeases.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of LockLeases.
+   */
+  distinct?: Prisma.LockLeaseScalarFieldEnum | Prisma.LockLeaseScalarFieldEnum[]
+}
+
+/**
+ * LockLease findMany
+ */
+export type LockLeaseFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LockLease
+   */
+  select?: Prisma.LockLeaseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LockLease
+   */
+  omit?: Prisma.LockLeaseOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LockLeaseInclude<ExtArgs> | null
+  /**
+   * Filter, which LockLeases to fetch.
+   */
+  where?: Prisma.LockLeaseWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of LockLeases to fetch.
+   */
+  orderBy?: Prisma.LockLeaseOrderByWithRelationInput | Prisma.LockLeaseOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing LockLeases.
+   */
+  cursor?: Prisma.LockLeaseWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` LockLeases from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` LockLeases.
+   */
+  skip?: number
+  distinct?: Prisma.LockLeaseScalarFieldEnum | Prisma.LockLeaseScalarFieldEnum[]
+}
+
+/**
+ * LockLease create
+ */
+export type LockLeaseCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LockLease
+   */
+  select?: Prisma.LockLeaseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LockLease
+   */
+  omit?: Prisma.LockLeaseOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LockLeaseInclude<ExtArgs> | null
+  /**
+   * The data needed to create a LockLease.
+   */
+  data: Prisma.XOR<Prisma.LockLeaseCreateInput, Prisma.LockLeaseUncheckedCreateInput>
+}
+
+/**
+ * LockLease createMany
+ */
+export type LockLeaseCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many LockLeases.
+   */
+  data: Prisma.LockLeaseCreateManyInput | Prisma.LockLeaseCreateManyInput[]
+}
+
+/**
+ * LockLease createManyAndReturn
+ */
+export type LockLeaseCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LockLease
+   */
+  select?: Prisma.LockLeaseSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the LockLease
+   */
+  omit?: Prisma.LockLeaseOmit<ExtArgs> | null
+  /**
+   * The data used to create many LockLeases.
+   */
+  data: Prisma.LockLeaseCreateManyInput | Prisma.LockLeaseCreateManyInput[]
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LockLeaseIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * LockLease update
+ */
+export type LockLeaseUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LockLease
+   */
+  select?: Prisma.LockLeaseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LockLease
+   */
+  omit?: Prisma.LockLeaseOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LockLeaseInclude<ExtArgs> | null
+  /**
+   * The data needed to update a LockLease.
+   */
+  data: Prisma.XOR<Prisma.LockLeaseUpdateInput, Prisma.LockLeaseUncheckedUpdateInput>
+  /**
+   * Choose, which LockLease to update.
+   */
+  where: Prisma.LockLeaseWhereUniqueInput
+}
+
+/**
+ * LockLease updateMany
+ */
+export type LockLeaseUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update LockLeases.
+   */
+  data: Prisma.XOR<Prisma.LockLeaseUpdateManyMutationInput, Prisma.LockLeaseUncheckedUpdateManyInput>
+  /**
+   * Filter which LockLeases to update
+   */
+  where?: Prisma.LockLeaseWhereInput
+  /**
+   * Limit how many LockLeases to update.
+   */
+  limit?: number
+}
+
+/**
+ * LockLease updateManyAndReturn
+ */
+export type LockLeaseUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LockLease
+   */
+  select?: Prisma.LockLeaseSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the LockLease
+   */
+  omit?: Prisma.LockLeaseOmit<ExtArgs> | null
+  /**
+   * The data used to update LockLeases.
+   */
+  data: Prisma.XOR<Prisma.LockLeaseUpdateManyMutationInput, Prisma.LockLeaseUncheckedUpdateManyInput>
+  /**
+   * Filter which LockLeases to update
+   */
+  where?: Prisma.LockLeaseWhereInput
+  /**
+   * Limit how many LockLeases to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LockLeaseIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * LockLease upsert
+ */
+export type LockLeaseUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LockLease
+   */
+  select?: Prisma.LockLeaseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LockLease
+   */
+  omit?: Prisma.LockLeaseOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LockLeaseInclude<ExtArgs> | null
+  /**
+   * The filter to search for the LockLease to update in case it exists.
+   */
+  where: Prisma.LockLeaseWhereUniqueInput
+  /**
+   * In case the LockLease found by the `where` argument doesn't exist, create a new LockLease with this data.
+   */
+  create: Prisma.XOR<Prisma.LockLeaseCreateInput, Prisma.LockLeaseUncheckedCreateInput>
+  /**
+   * In case the LockLease was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.LockLeaseUpdateInput, Prisma.LockLeaseUncheckedUpdateInput>
+}
+
+/**
+ * LockLease delete
+ */
+export type LockLeaseDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LockLease
+   */
+  select?: Prisma.LockLeaseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LockLease
+   */
+  omit?: Prisma.LockLeaseOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LockLeaseInclude<ExtArgs> | null
+  /**
+   * Filter which LockLease to delete.
+   */
+  where: Prisma.LockLeaseWhereUniqueInput
+}
+
+/**
+ * LockLease deleteMany
+ */
+export type LockLeaseDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which LockLeases to delete
+   */
+  where?: Prisma.LockLeaseWhereInput
+  /**
+   * Limit how many LockLeases to delete.
+   */
+  limit?: number
+}
+
+/**
+ * LockLease without action
+ */
+export type LockLeaseDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LockLease
+   */
+  select?: Prisma.LockLeaseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LockLease
+   */
+  omit?: Prisma.LockLeaseOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LockLeaseInclude<ExtArgs> | null
+}
@@ -1,480 +0,0 @@
-
-/* !!! This is code generated by Prisma. Do not edit directly. !!! */
-/* eslint-disable */
-// biome-ignore-all lint: generated file
-// @ts-nocheck 
-/*
- * WARNING: This is an internal file that is subject to change!
- *
- * 🛑 Under no circumstances should you import this file directly! 🛑
- *
- * Please import the `PrismaClient` class from the `client.ts` file instead.
- */
-
-import * as runtime from "@prisma/client/runtime/client"
-import type * as Prisma from "./prismaNamespace.ts"
-
-
-const config: runtime.GetPrismaClientConfig = {
-  "previewFeatures": [],
-  "clientVersion": "7.4.1",
-  "engineVersion": "55ae170b1ced7fc6ed07a15f110549408c501bb3",
-  "activeProvider": "sqlite",
-  "inlineSchema": "/// The API key provides authentication tokens for accessing the platform API.\n///\n/// Each API key impersonates a service account, inheriting its permissions and access scope.\n/// Keys are automatically created for worker versions and can be manually created for\n/// external integrations. The token is a 32-byte random hex string that can be regenerated.\nmodel ApiKey {\n  /// The CUIDv2 of the API key.\n  id String @id @default(cuid(2))\n\n  /// The metadata of the API key managed by the backend.\n  ///\n  /// [ApiKeyMeta]\n  meta Json\n\n  /// The ID of the service account impersonated by this API key.\n  serviceAccountId String\n\n  /// The API token for authentication.\n  ///\n  /// Should be treated as a secret and only shown once at creation/regeneration.\n  token String @unique\n\n  /// The time when the API key was created.\n  createdAt DateTime @default(now())\n\n  /// The time when the API key was last updated.\n  updatedAt DateTime @updatedAt\n\n  /// The worker version that owns this API key.\n  worker WorkerVersion?\n\n  /// The service account which this API key impersonates.\n  serviceAccount ServiceAccount @relation(fields: [serviceAccountId], references: [id])\n}\n\n/// The artifact represents a file or folder stored in the system.\n///\n/// It can be produced by units or manually uploaded via API by service accounts.\n///\n/// Since different actors can produce the same artifact with the same content and hash,\n/// there is the ownership/usage concept to track which entities produce or use the artifact.\n/// The \"ownership\" and \"usage\" are synonymous in this context and often referred to as \"usage\".\n///\n/// When no usages are present, the artifact will be automatically garbage collected after a certain period.\nmodel Artifact {\n  /// The CUIDv2 of the artifact.\n  id String @id @default(cuid(2))\n\n  /// The metadata of the artifact managed by the backend.\n  ///\n  /// Since multiple actors can produce the same artifact,\n  /// this metadata is the last one provided by any actor.\n  ///\n  /// [CommonObjectMeta]\n  meta Json\n\n  /// The SHA256 hash of the artifact content.\n  hash String @unique\n\n  /// The size of the compressed artifact content in bytes.\n  ///\n  /// Does not represent the size of the original file or folder,\n  /// but the size used to store the artifact in the system.\n  size Int\n\n  /// The chunk size of the artifact content in bytes.\n  /// Used to split the artifact into smaller chunks for storage.\n  chunkSize Int\n\n  /// The time when the artifact first appeared in the system.\n  createdAt DateTime @default(now())\n\n  /// The time when the artifact was last updated.\n  updatedAt DateTime @updatedAt\n\n  /// The service accounts using this artifact.\n  serviceAccounts ServiceAccount[]\n\n  /// The instances using this artifact.\n  instances InstanceState[]\n\n  /// The terminals using this artifact.\n  terminals Terminal[]\n\n  /// The pages using this artifact.\n  pages Page[]\n\n  /// The entity snapshots referenced this artifact.\n  entitySnapshots EntitySnapshot[]\n}\n\nmodel InstanceCustomStatus {\n  /// The ID of the instance state this status belongs to.\n  stateId String\n\n  /// The ID of the service account which attached this custom status.\n  serviceAccountId String\n\n  /// The name of the custom status unique within the instance and service account.\n  name String\n\n  /// The metadata of the custom status managed by the backend.\n  ///\n  /// [CommonObjectMeta]\n  meta Json\n\n  /// The status value of the custom status.\n  value String\n\n  /// The message describing the instance's custom status.\n  /// \n  /// Can be used to provide additional context or information about the status.\n  ///\n  /// The message will be displayed in the 800x600 ANSI terminal in the UI,\n  /// so different TUI elements should be drawn within this area.\n  message String?\n\n  /// The order of the custom status in the list of statuses.\n  ///\n  /// Should be values from 0 to 100, where 0 is the highest priority.\n  /// By default, the order is 50.\n  order Int @default(50)\n\n  /// The time when the custom status was first attached to the instance.\n  createdAt DateTime @default(now())\n\n  /// The time when the custom status was last updated.\n  updatedAt DateTime @updatedAt\n\n  /// The instance this custom status belongs to.\n  state InstanceState @relation(fields: [stateId], references: [id])\n\n  /// The service account this custom status belongs to.\n  serviceAccount ServiceAccount @relation(fields: [serviceAccountId], references: [id])\n\n  @@id([stateId, serviceAccountId, name]) // the name must be unique within the instance and service account\n}\n\n/// This model represents and instance of Highstate entity produced by one or many component instances one or many times.\n/// Entity tracks EntitySnapshots by their unique IDs allowing to correlate them across different operations and instances.\n/// Entities also can be tracked globally across different projects by referencing them in the Object model at the backend level.\nmodel Entity {\n  /// The CUIDv2 or CUIDv2d of the entity.\n  ///\n  /// The ID is calculated by the backend as CUIDv2d(entityType, identity), where identity is a user-provided string value that is expected to be globally unique for each entity of the same type.\n  id String @id\n\n  /// The type of the entity.\n  type String\n\n  /// The identity of the entity.\n  identity String\n\n  /// The snapshots of the entity.\n  snapshots EntitySnapshot[]\n}\n\n/// This model represents an immutable snapshot of an entity at a certain point of time\n/// provide by some component instance during an operation.\nmodel EntitySnapshot {\n  /// The CUIDv2 of the entity snapshot.\n  id String @id @default(cuid(2))\n\n  /// The SHA-256 hash of the entity snapshot content.\n  /// The content is stored separately in the EntitySnapshotContent model and can be shared between different snapshots with the same content hash.\n  contentHash String\n\n  /// The ID of the entity this snapshot belongs to.\n  entityId String\n\n  /// The ID of the operation that created this snapshot.\n  operationId String\n\n  /// The ID of the instance state produced this entity snapshot.\n  stateId String\n\n  /// The names of the instance outputs where this entity was referenced (including nested entities).\n  ///\n  /// ![string[]]\n  referencedInOutputs Json\n\n  /// The names of the outputs that exported this entity directly.\n  ///\n  /// ![string[]]\n  exportedInOutputs Json\n\n  /// The time when the entity snapshot was created.\n  createdAt DateTime @default(now())\n\n  /// The content of the entity snapshot.\n  content EntitySnapshotContent @relation(fields: [contentHash], references: [hash])\n\n  /// The entity this snapshot belongs to.\n  entity Entity @relation(fields: [entityId], references: [id])\n\n  /// The operation that created this snapshot.\n  operation Operation @relation(fields: [operationId], references: [id])\n\n  /// The instance state that produced this entity snapshot.\n  state InstanceState @relation(fields: [stateId], references: [id])\n\n  /// The snapshots of entities referenced by this entity snapshot.\n  /// For explicit references (specified manually by their IDs) the last snapshot of the referenced entity will be used.\n  /// For implicit references (collected via includes) the same snapshot of the same operation will be used.\n  references EntitySnapshotReference[] @relation(\"EntitySnapshotReferences\")\n\n  /// The snapshots of entities that reference this entity snapshot.\n  referencedBy EntitySnapshotReference[] @relation(\"EntitySnapshotReferencedBy\")\n\n  /// The artifacts referenced by this entity snapshot.\n  artifacts Artifact[]\n\n  @@index([entityId, createdAt(sort: Desc)])\n  @@index([operationId])\n  @@index([stateId, createdAt(sort: Desc)])\n}\n\nenum EntityReferenceKind {\n  explicit\n  inclusion\n}\n\nmodel EntitySnapshotReference {\n  /// The CUIDv2 of the entity snapshot relation.\n  fromId String\n\n  /// The CUIDv2 of the referenced entity snapshot.\n  toId String\n\n  /// The kind of the reference, which can be either explicit or inclusion (implicit).\n  kind EntityReferenceKind\n\n  /// The group of the references.\n  /// It can be either the exlicit group name provided by the entity explicit reference,\n  /// or name of the inclusion field of the parent entity for implicit references.\n  group String\n\n  /// The entity snapshot that holds the reference.\n  from EntitySnapshot @relation(\"EntitySnapshotReferences\", fields: [fromId], references: [id])\n\n  /// The entity snapshot that is referenced.\n  to EntitySnapshot @relation(\"EntitySnapshotReferencedBy\", fields: [toId], references: [id])\n\n  @@id([fromId, toId, kind, group])\n  @@index([toId])\n  @@index([fromId])\n}\n\nmodel EntitySnapshotContent {\n  /// The SHA-256 hash of the entity snapshot content.\n  hash String @id\n\n  /// The metadata of the entity at the time of the snapshot.\n  ///\n  /// [EntityMeta]\n  meta Json?\n\n  /// The content of the entity snapshot, which is opaque to the backend.\n  content Json\n\n  /// The entity snapshots that have this content.\n  snapshots EntitySnapshot[]\n}\n\nenum InstanceEvaluationStatus {\n  /// transient statuses (not persisted in the database)\n  evaluating\n\n  /// stable statuses\n  evaluated\n  error\n}\n\n/// The evaluation state tracks the result of evaluating composite instances to produce virtual instances.\n///\n/// Composite instances are template components that generate other instances (virtual instances) when evaluated.\n/// The evaluation process executes the composite's create function with resolved inputs to produce a tree\n/// of child instances. These virtual instances exist in the source \"virtual\" state and can be units\n/// (mapping to Pulumi resources) or other composites (producing more virtual instances recursively).\n///\n/// Evaluation happens automatically after project unlock and library reloads to keep virtual instances\n/// synchronized with their composite definitions. Evaluation state persists the produced instance model\n/// and tracks success/error status with descriptive messages showing the instance tree or error details.\nmodel InstanceEvaluationState {\n  /// The ID of the state of the instance.\n  stateId String @id\n\n  /// The status of the instance evaluation.\n  status InstanceEvaluationStatus\n\n  /// The message describing the evaluation status.\n  /// If the evaluation is failed, this message will contain the error description.\n  message String?\n\n  /// The model produced by the evaluation.\n  ///\n  /// Will be `null` if the evaluation is failed.\n  ///\n  /// Can be set for both: real composite instances and virtual instances produced by the evaluation.\n  ///\n  /// [InstanceModel]\n  model Json?\n\n  /// The time when the last evaluation was finished.\n  evaluatedAt DateTime @updatedAt\n\n  /// The instance this state belongs to.\n  state InstanceState @relation(fields: [stateId], references: [id])\n}\n\nenum InstanceStatus {\n  /// The instance is exists in the model (resident or virtual), but not yet deployed or was completely destroyed.\n  ///\n  /// \"attempted\", \"deployed\" and \"failed\" instances can be transitioned back to \"undeployed\" after\n  /// successful \"destroy\" operation.\n  undeployed\n\n  /// The instance is attempted, but not yet fully deployed.\n  ///\n  /// Normally, this status is very short-lived, and here to indicate that the instance\n  /// cannot be safely deleted from the the model until it will be completely destroyed.\n  attempted\n\n  /// The initial deployment of the instance was successful.\n  ///\n  /// The transition of \"deployed -> failed\" is not possible, so consequent failed operations\n  /// will not affect this status.\n  ///\n  /// Like \"attempted\", that instance cannot be safely deleted from the model until it will be completely destroyed.\n  deployed\n\n  /// The initial deployment of the instance failed.\n  /// It can still be transitioned to \"deployed\" by a successful operation\n  ///\n  /// Like \"attempted\", that instance cannot be safely deleted from the model until it will be completely destroyed.\n  failed\n}\n\nenum InstanceSource {\n  /// The instance is defined in the project model.\n  resident\n\n  /// The instance is produced by evaluation of composite instance.\n  virtual\n}\n\nmodel InstanceState {\n  /// The surrogate CUIDv2 primary key of the instance to allow renaming instances.\n  id String @id @default(cuid(2))\n\n  /// The ID of the instance managed by the system.\n  ///\n  /// [InstanceId]\n  instanceId String @unique\n\n  /// The status of the instance.\n  status InstanceStatus\n\n  /// The source of the instance.\n  source InstanceSource\n\n  /// The kind of the instance.\n  ///\n  /// [InstanceKind]\n  kind String\n\n  /// The ID of the parent instance state, if this instance is a child of another composite instance.\n  parentId String?\n\n  /// The 32-bit nonce used to invalidate the input hash when secrets are updated.\n  inputHashNonce Int?\n\n  /// The calculated CRC32 hash of the instance's own configuration at the moment of last operation completion.\n  ///\n  /// This hash covers:\n  /// - component definition hash;\n  /// - the unit's source hash (if applicable);\n  /// - the instance's configuration (name, args, secret hashes / nonce).\n  ///\n  /// It does not include hashes of dependencies.\n  ///\n  /// Used together with `dependencyOutputHash` to short-circuit execution at runtime.\n  selfHash Int?\n\n  /// The calculated instance CRC32 input hash at the moment of last operation completion.\n  ///\n  /// This hash covers:\n  /// - the instance's configuration (name, args, secret hashes);\n  /// - component definition hash;\n  /// - the unit's source hash (if applicable);\n  /// - the input hashes and output hashes of all input instances.\n  inputHash Int?\n\n  /// The CRC32 of the SHA256 of the output produced by the instance at the moment of last operation completion.\n  ///\n  /// Does not depend on anything except the instance's output.\n  outputHash Int?\n\n  /// The calculated CRC32 dependency output hash at the moment of last operation completion.\n  ///\n  /// This hash is calculated as combination of output hashes of all input instances and nothing else.\n  ///\n  /// The primary use case of this hash is to \"short-circuit\" execution:\n  /// if the outputs of input instances have not changed, dependent instances can skip execution,\n  /// even if their input hashes changed due to upstream config changes.\n  /// This prevents unnecessary re-execution of the entire dependency graph when only non-output-affecting inputs are modified.\n  dependencyOutputHash Int?\n\n  /// The mapping of instance output names to artifact IDs passed via them.\n  ///\n  /// Used to authorize access to artifacts for other instances connected to these outputs.\n  ///\n  /// [InstanceArtifactIds]\n  exportedArtifactIds Json?\n\n  /// The snapshot of the instance model at the moment of last non-preview operation start.\n  ///\n  /// Null if the instance was never operated on.\n  ///\n  /// [InstanceModel]\n  model Json?\n\n  /// The snapshot of the resolved inputs at the moment of last non-preview operation start.\n  ///\n  /// Null if the instance was never operated on.\n  ///\n  /// [InstanceResolvedInputs]\n  resolvedInputs Json?\n\n  /// The count of Pulumi resources currently managed by this instance.\n  currentResourceCount Int?\n\n  /// The status fields produced by the last operation.\n  ///\n  /// [InstanceStatusFields]\n  statusFields Json?\n\n  /// Whether the instance has resource hooks and requires running program on destroy to properly clean up resources.\n  hasResourceHooks Boolean @default(false)\n\n  /// The parent instance.\n  parent InstanceState? @relation(\"InstanceHierarchy\", fields: [parentId], references: [id])\n\n  /// The child instances, if any.\n  children InstanceState[] @relation(\"InstanceHierarchy\")\n\n  /// The evaluation state of this instance.\n  evaluationState InstanceEvaluationState?\n\n  /// The operation states associated with this instance.\n  operationStates InstanceOperationState[]\n\n  /// The secrets associated with this instance.\n  secrets Secret[]\n\n  /// The terminals associated with this instance.\n  terminals Terminal[]\n\n  /// The pages associated with this instance.\n  pages Page[]\n\n  /// The triggers associated with this instance.\n  triggers Trigger[]\n\n  /// Custom statuses for this instance.\n  customStatuses InstanceCustomStatus[]\n\n  /// The lock that is currently held on this instance.\n  lock InstanceLock?\n\n  /// Worker registrations associated with this instance.\n  workerRegistrations WorkerUnitRegistration[]\n\n  /// The artifacts produced or used by this instance.\n  artifacts Artifact[]\n\n  /// The operation logs associated with this instance.\n  operationLogs OperationLog[]\n\n  /// The user viewports associated with this instance.\n  userViewports UserCompositeViewport[]\n\n  /// The entity snapshots associated with this instance.\n  entitySnapshots EntitySnapshot[]\n}\n\nmodel UserProjectViewport {\n  /// The opaque ID of the user to which this viewport belongs.\n  userId String @id\n\n  /// The viewport of the user project managed by the frontend.\n  ///\n  /// ![unknown]\n  viewport Json\n}\n\nmodel UserCompositeViewport {\n  /// The opaque ID of the user to which this viewport belongs.\n  userId String\n\n  /// The ID of the state of the composite instance to which this viewport belongs.\n  stateId String\n\n  /// The viewport of the user composite instance managed by the frontend.\n  ///\n  /// ![unknown]\n  viewport Json\n\n  /// The instance state to which this viewport belongs.\n  state InstanceState @relation(fields: [stateId], references: [id])\n\n  @@id([userId, stateId])\n}\n\nmodel InstanceLock {\n  /// The ID of the instance state being locked.\n  stateId String @id\n\n  /// The metadata of the lock managed by the backend.\n  ///\n  /// [CommonObjectMeta]\n  meta Json\n\n  /// The CUIDv2 token to ensure ownership of the lock.\n  token String\n\n  /// The time when the lock was acquired.\n  acquiredAt DateTime @default(now())\n\n  /// The instance being locked.\n  state InstanceState @relation(fields: [stateId], references: [id])\n}\n\ndatasource db {\n  provider = \"sqlite\"\n}\n\ngenerator client {\n  provider               = \"prisma-client\"\n  engineType             = \"client\"\n  output                 = \"../../src/database/_generated/project\"\n  moduleFormat           = \"esm\"\n  generatedFileExtension = \"ts\"\n  importFileExtension    = \"ts\"\n}\n\ngenerator json {\n  provider = \"prisma-json-types-generator\"\n}\n\n/// The container for project instances. \n///\n/// Only used when \"database\" project model storage is used.\nmodel InstanceModel {\n  /// The ID of the instance in the format of `{type}:{name}`.\n  id String @id\n\n  /// The model of the instance managed by the backend.\n  ///\n  /// [InstanceModel]\n  model Json\n\n  /// The time when the instance model was created.\n  createdAt DateTime @default(now())\n\n  /// The time when the instance model was last updated.\n  updatedAt DateTime @updatedAt\n}\n\n/// The container for project hubs.\n///\n/// Only used when \"database\" project model storage is used.\nmodel HubModel {\n  /// The CUIDv2 of the hub.\n  id String @id\n\n  /// The model of the hub managed by the backend.\n  ///\n  /// [HubModel]\n  model Json\n\n  /// The time when the hub model was created.\n  createdAt DateTime @default(now())\n\n  /// The time when the hub model was last updated.\n  updatedAt DateTime @updatedAt\n}\n\nenum OperationStatus {\n  // transient statuses\n  pending\n  running\n  failing\n  cancelling\n\n  // stable statuses\n  completed\n  failed\n  cancelled\n}\n\nenum OperationType {\n  update\n  preview\n  destroy\n  recreate\n  refresh\n}\n\nenum InstanceOperationStatus {\n  // transient statuses\n  updating\n  processing_triggers\n  previewing\n  destroying\n  refreshing\n  pending\n  cancelling\n\n  // stable statuses\n  updated\n  previewed\n  skipped\n  destroyed\n  refreshed\n  cancelled\n  failed\n}\n\nmodel Operation {\n  /// The CUIDv2 of the operation.\n  id String @id @default(cuid(2))\n\n  /// The metadata of the operation.\n  ///\n  /// [OperationMeta]\n  meta Json\n\n  /// The type of the operation.\n  type OperationType\n\n  /// The status of the operation.\n  status OperationStatus @default(pending)\n\n  /// The options of the operation.\n  ///\n  /// [OperationOptions]\n  options Json\n\n  /// The IDs of the instances that were exlicitly requested to operate on.\n  ///\n  /// [InstanceIds]\n  requestedInstanceIds Json\n\n  /// The execution phases of the operation.\n  ///\n  /// [OperationPhase[]]\n  phases Json?\n\n  /// The time when the operation started.\n  startedAt DateTime @default(now())\n\n  /// The time when the operation was last updated.\n  updatedAt DateTime @updatedAt\n\n  /// The time when the operation finished.\n  finishedAt DateTime?\n\n  /// The operation states associated with this operation.\n  operationStates InstanceOperationState[]\n\n  /// The logs of the operation.\n  logs OperationLog[]\n\n  /// The entity snapshots created by this operation.\n  entitySnapshots EntitySnapshot[]\n}\n\nmodel InstanceOperationState {\n  /// The ID of the operation this state belongs to.\n  operationId String\n\n  /// The ID of the instance state affected by the operation.\n  stateId String\n\n  /// The enum representing the current status of the instance from the operation perspective.\n  status InstanceOperationStatus\n\n  /// The current count of the Pulumi resources being managed by this instance.\n  currentResourceCount Int?\n\n  /// The total count of the Pulumi resources that this instance is expected to manage.\n  totalResourceCount Int?\n\n  /// The snapshot of the instance model at the moment of operation start.\n  ///\n  /// [InstanceModel]\n  model Json\n\n  /// The snapshot of the resolved inputs at the moment of operation start.\n  ///\n  /// [InstanceResolvedInputs]\n  resolvedInputs Json\n\n  /// The time when the operation on this instance started.\n  /// Not populated on create, even if the instance is ready to start immediately.\n  startedAt DateTime?\n\n  /// The time when the operation on this instance finished.\n  finishedAt DateTime?\n\n  /// The operation this state belongs to.\n  operation Operation @relation(fields: [operationId], references: [id])\n\n  /// The instance this state belongs to.\n  state InstanceState @relation(fields: [stateId], references: [id])\n\n  @@id([operationId, stateId])\n}\n\nmodel OperationLog {\n  /// The ULID of the log. Also used to extract the timestamp.\n  id String @id\n\n  /// The ID of the operation this log belongs to.\n  operationId String\n\n  /// The ID of the instance state this log produced by.\n  /// Can be `null` if the log is not associated with any instance.\n  stateId String?\n\n  /// Whether this log is a system/runtime message (vs unit output).\n  isSystem Boolean @default(false)\n\n  /// The content of the log.\n  content String\n\n  /// The operation this log belongs to.\n  operation Operation @relation(fields: [operationId], references: [id])\n\n  /// The instance this log produced by.\n  /// Can be `null` if the log is not associated with any instance.\n  state InstanceState? @relation(fields: [stateId], references: [id])\n}\n\n/// The page provides custom UI content for instances and service accounts.\n///\n/// Pages can be created by units to display instance-specific information or by service accounts.\n/// The content consists of blocks that support markdown text, QR codes with optional content display,\n/// and file attachments (inline or artifact references). Instance pages are explicitly deleted\n/// when instances are destroyed.\nmodel Page {\n  /// The CUIDv2 of the page.\n  id String @id @default(cuid(2))\n\n  /// The metadata of the page managed by the backend.\n  ///\n  /// [GlobalCommonObjectMeta]\n  meta Json\n\n  /// The ID of the instance state that owns this page.\n  stateId String?\n\n  /// The name of the page within the instance.\n  /// Will be null if the page is not owned by an instance.\n  name String?\n\n  /// The ID of the service account that owns this page.\n  serviceAccountId String?\n\n  /// The content of the page as an array of blocks.\n  ///\n  /// Supports markdown, QR codes, and file blocks.\n  ///\n  /// [PageContent]\n  content Json\n\n  /// The time when the page was created.\n  createdAt DateTime @default(now())\n\n  /// The time when the page was last updated.\n  updatedAt DateTime @updatedAt\n\n  /// The instance this page belongs to if any.\n  state InstanceState? @relation(fields: [stateId], references: [id])\n\n  /// The service account this page belongs to if any. \n  serviceAccount ServiceAccount? @relation(fields: [serviceAccountId], references: [id])\n\n  /// The artifacts used by this page.\n  artifacts Artifact[]\n\n  @@unique([stateId, name]) // the name is unique within the instance\n}\n\n/// The secret stores sensitive configuration values for instances, service accounts, and system components.\n///\n/// Secrets can be instance-owned (for unit configuration), service account-owned, or system-level\n/// (like Pulumi passwords). \n///\n/// Secrets persist through normal destroy (recreate) operations\n/// and are only deleted when explicitly forgetting instance state with the deleteSecrets flag or when manually deleted.\n///\n/// Secret updates invalidate instance input hashes via inputHashNonce, triggering re-execution\n/// during operations. But the content of the secrets itself do not contribute to the input hash.\n///\n/// System secrets like Pulumi passwords are created on-demand and persist for the whole project lifetime.\nmodel Secret {\n  /// The CUIDv2 of the secret.\n  id String @id @default(cuid(2))\n\n  /// The metadata of the secret managed by the backend.\n  ///\n  /// [GlobalCommonObjectMeta]\n  meta Json\n\n  /// The ID of the state of the instance owning this secret.\n  stateId String?\n\n  /// The name of the secret within the instance.\n  ///\n  /// Will be null if the secret is not owned by an instance.\n  name String?\n\n  /// The name of the secret within the project if the secret is a system secret.\n  systemName String? @unique\n\n  /// The ID of the service account owning this secret.\n  serviceAccountId String?\n\n  /// The content of the secret.\n  ///\n  /// ![unknown]\n  content Json\n\n  /// The time when the secret was created.\n  createdAt DateTime @default(now())\n\n  /// The time when the secret was last updated.\n  updatedAt DateTime @updatedAt\n\n  /// The instance this secret belongs to.\n  state InstanceState? @relation(fields: [stateId], references: [id])\n\n  /// The service account this secret belongs to.\n  serviceAccount ServiceAccount? @relation(fields: [serviceAccountId], references: [id])\n\n  @@unique([stateId, name]) // the name must be unique within the instance\n}\n\n/// The service account represents an identity for non-human actors in the system.\n///\n/// Service accounts are automatically created for workers and can be manually created\n/// for external integrations. They define the access scope for resources like artifacts,\n/// secrets, terminals, and pages. Multiple API keys can impersonate the same service account,\n/// allowing different authentication tokens to share the same permissions.\nmodel ServiceAccount {\n  /// The CUIDv2 of the service account.\n  id String @id @default(cuid(2))\n\n  /// The metadata of the service account managed by the backend.\n  ///\n  /// [ServiceAccountMeta]\n  meta Json\n\n  /// The time when the service account was created.\n  createdAt DateTime @default(now())\n\n  /// The time when the service account was last updated.\n  updatedAt DateTime @updatedAt\n\n  /// The workers using this service account.\n  workers Worker[]\n\n  /// The artifacts used by this service account.\n  artifacts Artifact[]\n\n  /// The secrets owned by this service account.\n  secrets Secret[]\n\n  /// The terminals owned by this service account.\n  terminals Terminal[]\n\n  /// The pages owned by this service account.\n  pages Page[]\n\n  /// The instance custom statuses attached by this service account.\n  customStatuses InstanceCustomStatus[]\n\n  /// The API keys impersonating this service account.\n  apiKeys ApiKey[]\n}\n\n/// The terminal status indicates whether a terminal can accept new connections.\nenum TerminalStatus {\n  /// The terminal is currently active and can create new sessions.\n  active\n\n  /// The instance was destroyed and the terminal is no longer available, but here for historical purposes.\n  unavailable\n}\n\n/// The terminal provides interactive shell access to infrastructure resources.\n///\n/// Terminals can be created by units (owned by instances) or by service accounts.\n/// Each terminal maintains a specification for creating containers that power the terminal,\n/// including image, command, environment, and mounted files.\n///\n/// Instance-owned terminals are marked unavailable when the instance is destroyed, preserving session history.\n/// Service account terminals persist independently.\nmodel Terminal {\n  /// The CUIDv2 of the terminal.\n  id String @id @default(cuid(2))\n\n  /// The metadata of the terminal managed by the backend.\n  ///\n  /// [GlobalCommonObjectMeta]\n  meta Json\n\n  /// The status of the terminal.\n  status TerminalStatus @default(active)\n\n  /// The specification for creating the container that powers this terminal.\n  ///\n  /// Includes image, command, working directory, environment variables, and files.\n  ///\n  /// [TerminalSpec]\n  spec Json\n\n  /// The ID of the instance state owning this terminal.\n  stateId String?\n\n  /// The name of the terminal within the instance.\n  ///\n  /// Will be null if the terminal is not owned by an instance.\n  name String?\n\n  /// The ID of the service account owning this terminal.\n  serviceAccountId String?\n\n  /// The time when the terminal was created.\n  createdAt DateTime @default(now())\n\n  /// The time when the terminal was last updated.\n  updatedAt DateTime @updatedAt\n\n  /// The instance this terminal belongs to.\n  state InstanceState? @relation(fields: [stateId], references: [id])\n\n  /// The service account this terminal belongs to.\n  serviceAccount ServiceAccount? @relation(fields: [serviceAccountId], references: [id])\n\n  /// The terminal sessions associated with this terminal.\n  sessions TerminalSession[]\n\n  /// The artifacts used by this terminal.\n  artifacts Artifact[]\n\n  @@unique([stateId, name]) // the name is unique within the instance\n}\n\n/// The terminal session represents a single interactive connection to a terminal.\n///\n/// Each session tracks when it started and finished. All session output is preserved in logs.\nmodel TerminalSession {\n  /// The CUIDv2 of the terminal session.\n  id String @id @default(cuid(2))\n\n  /// The ID of the terminal this session belongs to.\n  terminalId String\n\n  /// The time when the terminal session started.\n  startedAt DateTime @default(now())\n\n  /// The time when the terminal session finished.\n  finishedAt DateTime?\n\n  /// The terminal this session belongs to.\n  terminal Terminal @relation(fields: [terminalId], references: [id], onDelete: Cascade)\n\n  /// The logs of the terminal session.\n  logs TerminalSessionLog[]\n}\n\n/// The terminal session log captures all input and output from a terminal session.\n///\n/// Logs are stored with ULID identifiers for timestamp ordering.\nmodel TerminalSessionLog {\n  /// The ULID of the session log. Also used to extract the timestamp.\n  id String @id\n\n  /// The ID of the terminal session this log belongs to.\n  sessionId String\n\n  /// The content of the log.\n  content String\n\n  /// The terminal session this log belongs to.\n  session TerminalSession @relation(fields: [sessionId], references: [id], onDelete: Cascade)\n}\n\n/// The trigger defines automated actions that execute in response to specific events.\n///\n/// Triggers are created by units to perform actions at defined points in the instance lifecycle\n/// or on schedule. The spec field determines the trigger type and behavior - currently supporting\n/// before-destroy triggers, with planned support for additional types like cron scheduling.\n/// Triggers are deleted along with their instance.\nmodel Trigger {\n  /// The CUIDv2 of the trigger.\n  id String @id @default(cuid(2))\n\n  /// The metadata of the trigger managed by the backend.\n  ///\n  /// [GlobalCommonObjectMeta]\n  meta Json\n\n  /// The ID of the instance state this trigger belongs to.\n  stateId String\n\n  /// The name of the trigger within the instance.\n  name String\n\n  /// The specification of the trigger describing its type and behavior.\n  ///\n  /// [TriggerSpec]\n  spec Json\n\n  /// The time when the trigger was created.\n  createdAt DateTime @default(now())\n\n  /// The time when the trigger was last updated.\n  updatedAt DateTime @updatedAt\n\n  /// The instance this trigger belongs to.\n  state InstanceState @relation(fields: [stateId], references: [id])\n\n  @@unique([stateId, name]) // the name is unique within the instance\n}\n\n/// The unlock method type determines how users authenticate to decrypt project databases.\nenum UnlockMethodType {\n  /// The password is used to unlock the project.\n  password\n\n  /// The passkey (via WebAuthn) is used to unlock the project.\n  passkey\n}\n\n/// The unlock method enables decryption of project databases through user authentication.\n///\n/// Each project database is encrypted with a master key, which is then encrypted for each\n/// unlock method's recipient using AGE encryption. Users authenticate (password or passkey)\n/// to decrypt their specific AGE identity, which then decrypts the master key.\n///\n/// Multiple unlock methods can exist per project, allowing different authentication paths\n/// to the same encrypted database. When unlock methods are added/removed, the master key\n/// is re-encrypted for the new set of recipients.\n///\n/// The encryptedIdentity contains the AGE identity encrypted with the user's authentication\n/// method (password-derived key or WebAuthn), while the recipient is the public key\n/// corresponding to that identity.\nmodel UnlockMethod {\n  /// The CUIDv2 of the unlock method.\n  id String @id @default(cuid(2))\n\n  /// The metadata of the unlock method managed by the backend.\n  /// \n  /// [UnlockMethodMeta]\n  meta Json\n\n  /// The type of unlock method.\n  type UnlockMethodType\n\n  /// The AGE identity encrypted and armored also with AGE.\n  encryptedIdentity String\n\n  /// The AGE recipient for this unlock method.\n  recipient String @unique\n\n  /// The time when the unlock method was created.\n  createdAt DateTime @default(now())\n\n  /// The time when the unlock method was last updated.\n  updatedAt DateTime @updatedAt\n}\n\n/// The worker represents a containerized application that extends unit capabilities beyond Pulumi execution.\n///\n/// Workers enable units to perform runtime operations after Pulumi program completion,\n/// such as attaching custom statuses, monitoring resources, or triggering unit reconfigurations.\n/// Since Pulumi programs cannot affect instances after execution, workers bypass this limitation\n/// by providing persistent runtime behavior.\n///\n/// The worker identity (fully qualified image name) indicates the same publisher/party and services as natural authentication mechanism.\n/// All versions of a worker share the same service account, meaning they operate over\n/// the same resources and have the same access scope within the platform.\nmodel Worker {\n  /// The CUIDv2 of the worker.\n  id String @id @default(cuid(2))\n\n  /// The identity of the worker derived from the container image.\n  ///\n  /// This is the fully qualified image name without the tag or digest.\n  /// The format is `{<registry>/}[<namespace>/]<name>`.\n  ///\n  /// For example: `ghcr.io/highstate/worker` or `docker.io/library/ubuntu`.\n  identity String @unique\n\n  /// The ID of the service account this worker uses.\n  serviceAccountId String @unique\n\n  /// The time this worker first appeared in the system.\n  createdAt DateTime @default(now())\n\n  /// The service account impersonating this worker.\n  serviceAccount ServiceAccount @relation(fields: [serviceAccountId], references: [id])\n\n  /// The versions of this worker.\n  versions WorkerVersion[]\n}\n\nenum WorkerVersionStatus {\n  /// The status is unknown.\n  unknown\n\n  /// The worker is being started by one of the runtimes.\n  starting\n\n  /// The worker is running and serving registrations.\n  running\n\n  /// The worker is being stopping (after was starting/running and was disabled).\n  stopping\n\n  /// The worker is stopped and not serving registrations.\n  stopped\n\n  /// The worker failed to start/crashed more than the allowed number of times.\n  error\n}\n\n/// The worker version represents a specific container image digest of a worker.\n///\n/// Each version corresponds to an immutable container image identified by its SHA256 digest.\n/// Versions are automatically created when units reference new image digests and deleted\n/// when no longer referenced by any unit registrations.\n///\n/// Each version has its own API key for isolation, but all versions of a worker\n/// share the same service account and thus the same access scope within the platform.\n/// The runtime starts containers when registrations exist and stops them when removed.\nmodel WorkerVersion {\n  /// The CUIDv2 of the worker version.\n  id String @id @default(cuid(2))\n\n  /// The metadata of the worker version managed by the backend.\n  ///\n  /// [CommonObjectMeta]\n  meta Json\n\n  /// The current status of the worker version reported by the runtime.\n  status WorkerVersionStatus @default(unknown)\n\n  /// Whether this worker version is enabled and will be launched when project is unclocked.\n  enabled Boolean @default(true)\n\n  /// The ID of the runtime where this worker version currently runs.\n  runtimeId String?\n\n  /// The ID of the worker this version belongs to.\n  workerId String\n\n  /// The digest of the worker version used to identify it.\n  /// The format is raw SHA256 digest without the `sha256:` prefix in lowercase hex.\n  digest String @unique\n\n  /// The ID of the API key this worker version uses.\n  apiKeyId String @unique\n\n  /// The time this worker version was created.\n  createdAt DateTime @default(now())\n\n  /// The time this worker version was last updated.\n  updatedAt DateTime @updatedAt\n\n  /// The worker this version belongs to.\n  worker Worker @relation(fields: [workerId], references: [id])\n\n  /// The API key this worker version uses.\n  apiKey ApiKey @relation(fields: [apiKeyId], references: [id])\n\n  /// The unit registrations for this worker version.\n  unitRegistrations WorkerUnitRegistration[]\n\n  /// The logs produced by this worker version.\n  logs WorkerVersionLog[]\n}\n\n/// The worker unit registration tracks which unit instances require specific worker versions.\n///\n/// Units declare worker dependencies through their outputs, creating registrations that\n/// trigger the runtime to start corresponding worker containers. Each registration\n/// includes parameters passed to the worker for unit-specific configuration.\n///\n/// Registrations are managed during operation execution - created when units declare workers\n/// and removed when units are destroyed. Worker versions without registrations are garbage collected.\nmodel WorkerUnitRegistration {\n  /// The ID of the state of the unit instance requesting the registration.\n  stateId String\n\n  /// The name of the worker within the instance.\n  name String\n\n  /// The parameters of the registration passed by the unit.\n  ///\n  /// [WorkerUnitRegistrationParams]\n  params Json\n\n  /// The ID of the worker version this registration currently uses.\n  workerVersionId String\n\n  /// The time this registration was created.\n  createdAt DateTime @default(now())\n\n  /// The time this registration was last updated.\n  updatedAt DateTime @updatedAt\n\n  /// The unit instance requesting the registration.\n  state InstanceState @relation(fields: [stateId], references: [id])\n\n  /// The worker version this registration currently uses.\n  workerVersion WorkerVersion @relation(fields: [workerVersionId], references: [id])\n\n  @@id([stateId, name]) // the registration is identified by the instance and name\n}\n\n/// The worker version log captures output from running worker containers.\n///\n/// Logs include both worker-generated output and system messages from the runtime.\n/// The ULID identifier provides timestamp ordering. Logs are deleted with the worker version.\nmodel WorkerVersionLog {\n  /// The ULID of the worker log. Also used to extract the timestamp.\n  id String @id @default(ulid())\n\n  /// The ID of the worker version that produced this log.\n  workerVersionId String\n\n  /// The log content.\n  content String\n\n  /// Whether this log is a system/runtime message (vs worker output).\n  isSystem Boolean @default(false)\n\n  /// The worker version that produced this log.\n  workerVersion WorkerVersion @relation(fields: [workerVersionId], references: [id], onDelete: Cascade)\n}\n",
-  "runtimeDataModel": {
-    "models": {},
-    "enums": {},
-    "types": {}
-  },
-  "parameterizationSchema": {
-    "strings": [],
-    "graph": ""
-  }
-}
-
-config.runtimeDataModel = JSON.parse("{\"models\":{\"ApiKey\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"meta\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"serviceAccountId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"token\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"worker\",\"kind\":\"object\",\"type\":\"WorkerVersion\",\"relationName\":\"ApiKeyToWorkerVersion\"},{\"name\":\"serviceAccount\",\"kind\":\"object\",\"type\":\"ServiceAccount\",\"relationName\":\"ApiKeyToServiceAccount\"}],\"dbName\":null},\"Artifact\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"meta\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"hash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"size\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"chunkSize\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"serviceAccounts\",\"kind\":\"object\",\"type\":\"ServiceAccount\",\"relationName\":\"ArtifactToServiceAccount\"},{\"name\":\"instances\",\"kind\":\"object\",\"type\":\"InstanceState\",\"relationName\":\"ArtifactToInstanceState\"},{\"name\":\"terminals\",\"kind\":\"object\",\"type\":\"Terminal\",\"relationName\":\"ArtifactToTerminal\"},{\"name\":\"pages\",\"kind\":\"object\",\"type\":\"Page\",\"relationName\":\"ArtifactToPage\"},{\"name\":\"entitySnapshots\",\"kind\":\"object\",\"type\":\"EntitySnapshot\",\"relationName\":\"ArtifactToEntitySnapshot\"}],\"dbName\":null},\"InstanceCustomStatus\":{\"fields\":[{\"name\":\"stateId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"serviceAccountId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"meta\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"value\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"message\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"order\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"state\",\"kind\":\"object\",\"type\":\"InstanceState\",\"relationName\":\"InstanceCustomStatusToInstanceState\"},{\"name\":\"serviceAccount\",\"kind\":\"object\",\"type\":\"ServiceAccount\",\"relationName\":\"InstanceCustomStatusToServiceAccount\"}],\"dbName\":null},\"Entity\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"identity\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"snapshots\",\"kind\":\"object\",\"type\":\"EntitySnapshot\",\"relationName\":\"EntityToEntitySnapshot\"}],\"dbName\":null},\"EntitySnapshot\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"contentHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"entityId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"operationId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"stateId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"referencedInOutputs\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"exportedInOutputs\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"content\",\"kind\":\"object\",\"type\":\"EntitySnapshotContent\",\"relationName\":\"EntitySnapshotToEntitySnapshotContent\"},{\"name\":\"entity\",\"kind\":\"object\",\"type\":\"Entity\",\"relationName\":\"EntityToEntitySnapshot\"},{\"name\":\"operation\",\"kind\":\"object\",\"type\":\"Operation\",\"relationName\":\"EntitySnapshotToOperation\"},{\"name\":\"state\",\"kind\":\"object\",\"type\":\"InstanceState\",\"relationName\":\"EntitySnapshotToInstanceState\"},{\"name\":\"references\",\"kind\":\"object\",\"type\":\"EntitySnapshotReference\",\"relationName\":\"EntitySnapshotReferences\"},{\"name\":\"referencedBy\",\"kind\":\"object\",\"type\":\"EntitySnapshotReference\",\"relationName\":\"EntitySnapshotReferencedBy\"},{\"name\":\"artifacts\",\"kind\":\"object\",\"type\":\"Artifact\",\"relationName\":\"ArtifactToEntitySnapshot\"}],\"dbName\":null},\"EntitySnapshotReference\":{\"fields\":[{\"name\":\"fromId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"toId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"kind\",\"kind\":\"enum\",\"type\":\"EntityReferenceKind\"},{\"name\":\"group\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"from\",\"kind\":\"object\",\"type\":\"EntitySnapshot\",\"relationName\":\"EntitySnapshotReferences\"},{\"name\":\"to\",\"kind\":\"object\",\"type\":\"EntitySnapshot\",\"relationName\":\"EntitySnapshotReferencedBy\"}],\"dbName\":null},\"EntitySnapshotContent\":{\"fields\":[{\"name\":\"hash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"meta\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"content\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"snapshots\",\"kind\":\"object\",\"type\":\"EntitySnapshot\",\"relationName\":\"EntitySnapshotToEntitySnapshotContent\"}],\"dbName\":null},\"InstanceEvaluationState\":{\"fields\":[{\"name\":\"stateId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"InstanceEvaluationStatus\"},{\"name\":\"message\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"model\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"evaluatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"state\",\"kind\":\"object\",\"type\":\"InstanceState\",\"relationName\":\"InstanceEvaluationStateToInstanceState\"}],\"dbName\":null},\"InstanceState\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"instanceId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"InstanceStatus\"},{\"name\":\"source\",\"kind\":\"enum\",\"type\":\"InstanceSource\"},{\"name\":\"kind\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"parentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"inputHashNonce\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"selfHash\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"inputHash\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"outputHash\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"dependencyOutputHash\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"exportedArtifactIds\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"model\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"resolvedInputs\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"currentResourceCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"statusFields\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"hasResourceHooks\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"parent\",\"kind\":\"object\",\"type\":\"InstanceState\",\"relationName\":\"InstanceHierarchy\"},{\"name\":\"children\",\"kind\":\"object\",\"type\":\"InstanceState\",\"relationName\":\"InstanceHierarchy\"},{\"name\":\"evaluationState\",\"kind\":\"object\",\"type\":\"InstanceEvaluationState\",\"relationName\":\"InstanceEvaluationStateToInstanceState\"},{\"name\":\"operationStates\",\"kind\":\"object\",\"type\":\"InstanceOperationState\",\"relationName\":\"InstanceOperationStateToInstanceState\"},{\"name\":\"secrets\",\"kind\":\"object\",\"type\":\"Secret\",\"relationName\":\"InstanceStateToSecret\"},{\"name\":\"terminals\",\"kind\":\"object\",\"type\":\"Terminal\",\"relationName\":\"InstanceStateToTerminal\"},{\"name\":\"pages\",\"kind\":\"object\",\"type\":\"Page\",\"relationName\":\"InstanceStateToPage\"},{\"name\":\"triggers\",\"kind\":\"object\",\"type\":\"Trigger\",\"relationName\":\"InstanceStateToTrigger\"},{\"name\":\"customStatuses\",\"kind\":\"object\",\"type\":\"InstanceCustomStatus\",\"relationName\":\"InstanceCustomStatusToInstanceState\"},{\"name\":\"lock\",\"kind\":\"object\",\"type\":\"InstanceLock\",\"relationName\":\"InstanceLockToInstanceState\"},{\"name\":\"workerRegistrations\",\"kind\":\"object\",\"type\":\"WorkerUnitRegistration\",\"relationName\":\"InstanceStateToWorkerUnitRegistration\"},{\"name\":\"artifacts\",\"kind\":\"object\",\"type\":\"Artifact\",\"relationName\":\"ArtifactToInstanceState\"},{\"name\":\"operationLogs\",\"kind\":\"object\",\"type\":\"OperationLog\",\"relationName\":\"InstanceStateToOperationLog\"},{\"name\":\"userViewports\",\"kind\":\"object\",\"type\":\"UserCompositeViewport\",\"relationName\":\"InstanceStateToUserCompositeViewport\"},{\"name\":\"entitySnapshots\",\"kind\":\"object\",\"type\":\"EntitySnapshot\",\"relationName\":\"EntitySnapshotToInstanceState\"}],\"dbName\":null},\"UserProjectViewport\":{\"fields\":[{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"viewport\",\"kind\":\"scalar\",\"type\":\"Json\"}],\"dbName\":null},\"UserCompositeViewport\":{\"fields\":[{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"stateId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"viewport\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"state\",\"kind\":\"object\",\"type\":\"InstanceState\",\"relationName\":\"InstanceStateToUserCompositeViewport\"}],\"dbName\":null},\"InstanceLock\":{\"fields\":[{\"name\":\"stateId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"meta\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"token\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"acquiredAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"state\",\"kind\":\"object\",\"type\":\"InstanceState\",\"relationName\":\"InstanceLockToInstanceState\"}],\"dbName\":null},\"InstanceModel\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"model\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"HubModel\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"model\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"Operation\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"meta\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"OperationType\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"OperationStatus\"},{\"name\":\"options\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"requestedInstanceIds\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"phases\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"startedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"finishedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"operationStates\",\"kind\":\"object\",\"type\":\"InstanceOperationState\",\"relationName\":\"InstanceOperationStateToOperation\"},{\"name\":\"logs\",\"kind\":\"object\",\"type\":\"OperationLog\",\"relationName\":\"OperationToOperationLog\"},{\"name\":\"entitySnapshots\",\"kind\":\"object\",\"type\":\"EntitySnapshot\",\"relationName\":\"EntitySnapshotToOperation\"}],\"dbName\":null},\"InstanceOperationState\":{\"fields\":[{\"name\":\"operationId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"stateId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"InstanceOperationStatus\"},{\"name\":\"currentResourceCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"totalResourceCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"model\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"resolvedInputs\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"startedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"finishedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"operation\",\"kind\":\"object\",\"type\":\"Operation\",\"relationName\":\"InstanceOperationStateToOperation\"},{\"name\":\"state\",\"kind\":\"object\",\"type\":\"InstanceState\",\"relationName\":\"InstanceOperationStateToInstanceState\"}],\"dbName\":null},\"OperationLog\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"operationId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"stateId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"isSystem\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"content\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"operation\",\"kind\":\"object\",\"type\":\"Operation\",\"relationName\":\"OperationToOperationLog\"},{\"name\":\"state\",\"kind\":\"object\",\"type\":\"InstanceState\",\"relationName\":\"InstanceStateToOperationLog\"}],\"dbName\":null},\"Page\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"meta\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"stateId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"serviceAccountId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"content\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"state\",\"kind\":\"object\",\"type\":\"InstanceState\",\"relationName\":\"InstanceStateToPage\"},{\"name\":\"serviceAccount\",\"kind\":\"object\",\"type\":\"ServiceAccount\",\"relationName\":\"PageToServiceAccount\"},{\"name\":\"artifacts\",\"kind\":\"object\",\"type\":\"Artifact\",\"relationName\":\"ArtifactToPage\"}],\"dbName\":null},\"Secret\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"meta\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"stateId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"systemName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"serviceAccountId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"content\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"state\",\"kind\":\"object\",\"type\":\"InstanceState\",\"relationName\":\"InstanceStateToSecret\"},{\"name\":\"serviceAccount\",\"kind\":\"object\",\"type\":\"ServiceAccount\",\"relationName\":\"SecretToServiceAccount\"}],\"dbName\":null},\"ServiceAccount\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"meta\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"workers\",\"kind\":\"object\",\"type\":\"Worker\",\"relationName\":\"ServiceAccountToWorker\"},{\"name\":\"artifacts\",\"kind\":\"object\",\"type\":\"Artifact\",\"relationName\":\"ArtifactToServiceAccount\"},{\"name\":\"secrets\",\"kind\":\"object\",\"type\":\"Secret\",\"relationName\":\"SecretToServiceAccount\"},{\"name\":\"terminals\",\"kind\":\"object\",\"type\":\"Terminal\",\"relationName\":\"ServiceAccountToTerminal\"},{\"name\":\"pages\",\"kind\":\"object\",\"type\":\"Page\",\"relationName\":\"PageToServiceAccount\"},{\"name\":\"customStatuses\",\"kind\":\"object\",\"type\":\"InstanceCustomStatus\",\"relationName\":\"InstanceCustomStatusToServiceAccount\"},{\"name\":\"apiKeys\",\"kind\":\"object\",\"type\":\"ApiKey\",\"relationName\":\"ApiKeyToServiceAccount\"}],\"dbName\":null},\"Terminal\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"meta\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"TerminalStatus\"},{\"name\":\"spec\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"stateId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"serviceAccountId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"state\",\"kind\":\"object\",\"type\":\"InstanceState\",\"relationName\":\"InstanceStateToTerminal\"},{\"name\":\"serviceAccount\",\"kind\":\"object\",\"type\":\"ServiceAccount\",\"relationName\":\"ServiceAccountToTerminal\"},{\"name\":\"sessions\",\"kind\":\"object\",\"type\":\"TerminalSession\",\"relationName\":\"TerminalToTerminalSession\"},{\"name\":\"artifacts\",\"kind\":\"object\",\"type\":\"Artifact\",\"relationName\":\"ArtifactToTerminal\"}],\"dbName\":null},\"TerminalSession\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"terminalId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"startedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"finishedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"terminal\",\"kind\":\"object\",\"type\":\"Terminal\",\"relationName\":\"TerminalToTerminalSession\"},{\"name\":\"logs\",\"kind\":\"object\",\"type\":\"TerminalSessionLog\",\"relationName\":\"TerminalSessionToTerminalSessionLog\"}],\"dbName\":null},\"TerminalSessionLog\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sessionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"content\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"session\",\"kind\":\"object\",\"type\":\"TerminalSession\",\"relationName\":\"TerminalSessionToTerminalSessionLog\"}],\"dbName\":null},\"Trigger\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"meta\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"stateId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"spec\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"state\",\"kind\":\"object\",\"type\":\"InstanceState\",\"relationName\":\"InstanceStateToTrigger\"}],\"dbName\":null},\"UnlockMethod\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"meta\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"UnlockMethodType\"},{\"name\":\"encryptedIdentity\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"recipient\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"Worker\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"identity\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"serviceAccountId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"serviceAccount\",\"kind\":\"object\",\"type\":\"ServiceAccount\",\"relationName\":\"ServiceAccountToWorker\"},{\"name\":\"versions\",\"kind\":\"object\",\"type\":\"WorkerVersion\",\"relationName\":\"WorkerToWorkerVersion\"}],\"dbName\":null},\"WorkerVersion\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"meta\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"WorkerVersionStatus\"},{\"name\":\"enabled\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"runtimeId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"workerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"digest\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"apiKeyId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"worker\",\"kind\":\"object\",\"type\":\"Worker\",\"relationName\":\"WorkerToWorkerVersion\"},{\"name\":\"apiKey\",\"kind\":\"object\",\"type\":\"ApiKey\",\"relationName\":\"ApiKeyToWorkerVersion\"},{\"name\":\"unitRegistrations\",\"kind\":\"object\",\"type\":\"WorkerUnitRegistration\",\"relationName\":\"WorkerUnitRegistrationToWorkerVersion\"},{\"name\":\"logs\",\"kind\":\"object\",\"type\":\"WorkerVersionLog\",\"relationName\":\"WorkerVersionToWorkerVersionLog\"}],\"dbName\":null},\"WorkerUnitRegistration\":{\"fields\":[{\"name\":\"stateId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"params\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"workerVersionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"state\",\"kind\":\"object\",\"type\":\"InstanceState\",\"relationName\":\"InstanceStateToWorkerUnitRegistration\"},{\"name\":\"workerVersion\",\"kind\":\"object\",\"type\":\"WorkerVersion\",\"relationName\":\"WorkerUnitRegistrationToWorkerVersion\"}],\"dbName\":null},\"WorkerVersionLog\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"workerVersionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"content\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"isSystem\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"workerVersion\",\"kind\":\"object\",\"type\":\"WorkerVersion\",\"relationName\":\"WorkerVersionToWorkerVersionLog\"}],\"dbName\":null}},\"enums\":{},\"types\":{}}")
-config.parameterizationSchema = {
-  strings: JSON.parse("[\"where\",\"orderBy\",\"cursor\",\"workers\",\"serviceAccounts\",\"parent\",\"children\",\"state\",\"evaluationState\",\"operationStates\",\"operation\",\"logs\",\"snapshots\",\"_count\",\"content\",\"entity\",\"from\",\"to\",\"references\",\"referencedBy\",\"artifacts\",\"entitySnapshots\",\"serviceAccount\",\"secrets\",\"terminal\",\"session\",\"sessions\",\"terminals\",\"pages\",\"triggers\",\"customStatuses\",\"lock\",\"workerVersion\",\"workerRegistrations\",\"operationLogs\",\"userViewports\",\"instances\",\"apiKeys\",\"versions\",\"worker\",\"apiKey\",\"unitRegistrations\",\"ApiKey.findUnique\",\"ApiKey.findUniqueOrThrow\",\"ApiKey.findFirst\",\"ApiKey.findFirstOrThrow\",\"ApiKey.findMany\",\"data\",\"ApiKey.createOne\",\"ApiKey.createMany\",\"ApiKey.createManyAndReturn\",\"ApiKey.updateOne\",\"ApiKey.updateMany\",\"ApiKey.updateManyAndReturn\",\"create\",\"update\",\"ApiKey.upsertOne\",\"ApiKey.deleteOne\",\"ApiKey.deleteMany\",\"having\",\"_min\",\"_max\",\"ApiKey.groupBy\",\"ApiKey.aggregate\",\"Artifact.findUnique\",\"Artifact.findUniqueOrThrow\",\"Artifact.findFirst\",\"Artifact.findFirstOrThrow\",\"Artifact.findMany\",\"Artifact.createOne\",\"Artifact.createMany\",\"Artifact.createManyAndReturn\",\"Artifact.updateOne\",\"Artifact.updateMany\",\"Artifact.updateManyAndReturn\",\"Artifact.upsertOne\",\"Artifact.deleteOne\",\"Artifact.deleteMany\",\"_avg\",\"_sum\",\"Artifact.groupBy\",\"Artifact.aggregate\",\"InstanceCustomStatus.findUnique\",\"InstanceCustomStatus.findUniqueOrThrow\",\"InstanceCustomStatus.findFirst\",\"InstanceCustomStatus.findFirstOrThrow\",\"InstanceCustomStatus.findMany\",\"InstanceCustomStatus.createOne\",\"InstanceCustomStatus.createMany\",\"InstanceCustomStatus.createManyAndReturn\",\"InstanceCustomStatus.updateOne\",\"InstanceCustomStatus.updateMany\",\"InstanceCustomStatus.updateManyAndReturn\",\"InstanceCustomStatus.upsertOne\",\"InstanceCustomStatus.deleteOne\",\"InstanceCustomStatus.deleteMany\",\"InstanceCustomStatus.groupBy\",\"InstanceCustomStatus.aggregate\",\"Entity.findUnique\",\"Entity.findUniqueOrThrow\",\"Entity.findFirst\",\"Entity.findFirstOrThrow\",\"Entity.findMany\",\"Entity.createOne\",\"Entity.createMany\",\"Entity.createManyAndReturn\",\"Entity.updateOne\",\"Entity.updateMany\",\"Entity.updateManyAndReturn\",\"Entity.upsertOne\",\"Entity.deleteOne\",\"Entity.deleteMany\",\"Entity.groupBy\",\"Entity.aggregate\",\"EntitySnapshot.findUnique\",\"EntitySnapshot.findUniqueOrThrow\",\"EntitySnapshot.findFirst\",\"EntitySnapshot.findFirstOrThrow\",\"EntitySnapshot.findMany\",\"EntitySnapshot.createOne\",\"EntitySnapshot.createMany\",\"EntitySnapshot.createManyAndReturn\",\"EntitySnapshot.updateOne\",\"EntitySnapshot.updateMany\",\"EntitySnapshot.updateManyAndReturn\",\"EntitySnapshot.upsertOne\",\"EntitySnapshot.deleteOne\",\"EntitySnapshot.deleteMany\",\"EntitySnapshot.groupBy\",\"EntitySnapshot.aggregate\",\"EntitySnapshotReference.findUnique\",\"EntitySnapshotReference.findUniqueOrThrow\",\"EntitySnapshotReference.findFirst\",\"EntitySnapshotReference.findFirstOrThrow\",\"EntitySnapshotReference.findMany\",\"EntitySnapshotReference.createOne\",\"EntitySnapshotReference.createMany\",\"EntitySnapshotReference.createManyAndReturn\",\"EntitySnapshotReference.updateOne\",\"EntitySnapshotReference.updateMany\",\"EntitySnapshotReference.updateManyAndReturn\",\"EntitySnapshotReference.upsertOne\",\"EntitySnapshotReference.deleteOne\",\"EntitySnapshotReference.deleteMany\",\"EntitySnapshotReference.groupBy\",\"EntitySnapshotReference.aggregate\",\"EntitySnapshotContent.findUnique\",\"EntitySnapshotContent.findUniqueOrThrow\",\"EntitySnapshotContent.findFirst\",\"EntitySnapshotContent.findFirstOrThrow\",\"EntitySnapshotContent.findMany\",\"EntitySnapshotContent.createOne\",\"EntitySnapshotContent.createMany\",\"EntitySnapshotContent.createManyAndReturn\",\"EntitySnapshotContent.updateOne\",\"EntitySnapshotContent.updateMany\",\"EntitySnapshotContent.updateManyAndReturn\",\"EntitySnapshotContent.upsertOne\",\"EntitySnapshotContent.deleteOne\",\"EntitySnapshotContent.deleteMany\",\"EntitySnapshotContent.groupBy\",\"EntitySnapshotContent.aggregate\",\"InstanceEvaluationState.findUnique\",\"InstanceEvaluationState.findUniqueOrThrow\",\"InstanceEvaluationState.findFirst\",\"InstanceEvaluationState.findFirstOrThrow\",\"InstanceEvaluationState.findMany\",\"InstanceEvaluationState.createOne\",\"InstanceEvaluationState.createMany\",\"InstanceEvaluationState.createManyAndReturn\",\"InstanceEvaluationState.updateOne\",\"InstanceEvaluationState.updateMany\",\"InstanceEvaluationState.updateManyAndReturn\",\"InstanceEvaluationState.upsertOne\",\"InstanceEvaluationState.deleteOne\",\"InstanceEvaluationState.deleteMany\",\"InstanceEvaluationState.groupBy\",\"InstanceEvaluationState.aggregate\",\"InstanceState.findUnique\",\"InstanceState.findUniqueOrThrow\",\"InstanceState.findFirst\",\"InstanceState.findFirstOrThrow\",\"InstanceState.findMany\",\"InstanceState.createOne\",\"InstanceState.createMany\",\"InstanceState.createManyAndReturn\",\"InstanceState.updateOne\",\"InstanceState.updateMany\",\"InstanceState.updateManyAndReturn\",\"InstanceState.upsertOne\",\"InstanceState.deleteOne\",\"InstanceState.deleteMany\",\"InstanceState.groupBy\",\"InstanceState.aggregate\",\"UserProjectViewport.findUnique\",\"UserProjectViewport.findUniqueOrThrow\",\"UserProjectViewport.findFirst\",\"UserProjectViewport.findFirstOrThrow\",\"UserProjectViewport.findMany\",\"UserProjectViewport.createOne\",\"UserProjectViewport.createMany\",\"UserProjectViewport.createManyAndReturn\",\"UserProjectViewport.updateOne\",\"UserProjectViewport.updateMany\",\"UserProjectViewport.updateManyAndReturn\",\"UserProjectViewport.upsertOne\",\"UserProjectViewport.deleteOne\",\"UserProjectViewport.deleteMany\",\"UserProjectViewport.groupBy\",\"UserProjectViewport.aggregate\",\"UserCompositeViewport.findUnique\",\"UserCompositeViewport.findUniqueOrThrow\",\"UserCompositeViewport.findFirst\",\"UserCompositeViewport.findFirstOrThrow\",\"UserCompositeViewport.findMany\",\"UserCompositeViewport.createOne\",\"UserCompositeViewport.createMany\",\"UserCompositeViewport.createManyAndReturn\",\"UserCompositeViewport.updateOne\",\"UserCompositeViewport.updateMany\",\"UserCompositeViewport.updateManyAndReturn\",\"UserCompositeViewport.upsertOne\",\"UserCompositeViewport.deleteOne\",\"UserCompositeViewport.deleteMany\",\"UserCompositeViewport.groupBy\",\"UserCompositeViewport.aggregate\",\"InstanceLock.findUnique\",\"InstanceLock.findUniqueOrThrow\",\"InstanceLock.findFirst\",\"InstanceLock.findFirstOrThrow\",\"InstanceLock.findMany\",\"InstanceLock.createOne\",\"InstanceLock.createMany\",\"InstanceLock.createManyAndReturn\",\"InstanceLock.updateOne\",\"InstanceLock.updateMany\",\"InstanceLock.updateManyAndReturn\",\"InstanceLock.upsertOne\",\"InstanceLock.deleteOne\",\"InstanceLock.deleteMany\",\"InstanceLock.groupBy\",\"InstanceLock.aggregate\",\"InstanceModel.findUnique\",\"InstanceModel.findUniqueOrThrow\",\"InstanceModel.findFirst\",\"InstanceModel.findFirstOrThrow\",\"InstanceModel.findMany\",\"InstanceModel.createOne\",\"InstanceModel.createMany\",\"InstanceModel.createManyAndReturn\",\"InstanceModel.updateOne\",\"InstanceModel.updateMany\",\"InstanceModel.updateManyAndReturn\",\"InstanceModel.upsertOne\",\"InstanceModel.deleteOne\",\"InstanceModel.deleteMany\",\"InstanceModel.groupBy\",\"InstanceModel.aggregate\",\"HubModel.findUnique\",\"HubModel.findUniqueOrThrow\",\"HubModel.findFirst\",\"HubModel.findFirstOrThrow\",\"HubModel.findMany\",\"HubModel.createOne\",\"HubModel.createMany\",\"HubModel.createManyAndReturn\",\"HubModel.updateOne\",\"HubModel.updateMany\",\"HubModel.updateManyAndReturn\",\"HubModel.upsertOne\",\"HubModel.deleteOne\",\"HubModel.deleteMany\",\"HubModel.groupBy\",\"HubModel.aggregate\",\"Operation.findUnique\",\"Operation.findUniqueOrThrow\",\"Operation.findFirst\",\"Operation.findFirstOrThrow\",\"Operation.findMany\",\"Operation.createOne\",\"Operation.createMany\",\"Operation.createManyAndReturn\",\"Operation.updateOne\",\"Operation.updateMany\",\"Operation.updateManyAndReturn\",\"Operation.upsertOne\",\"Operation.deleteOne\",\"Operation.deleteMany\",\"Operation.groupBy\",\"Operation.aggregate\",\"InstanceOperationState.findUnique\",\"InstanceOperationState.findUniqueOrThrow\",\"InstanceOperationState.findFirst\",\"InstanceOperationState.findFirstOrThrow\",\"InstanceOperationState.findMany\",\"InstanceOperationState.createOne\",\"InstanceOperationState.createMany\",\"InstanceOperationState.createManyAndReturn\",\"InstanceOperationState.updateOne\",\"InstanceOperationState.updateMany\",\"InstanceOperationState.updateManyAndReturn\",\"InstanceOperationState.upsertOne\",\"InstanceOperationState.deleteOne\",\"InstanceOperationState.deleteMany\",\"InstanceOperationState.groupBy\",\"InstanceOperationState.aggregate\",\"OperationLog.findUnique\",\"OperationLog.findUniqueOrThrow\",\"OperationLog.findFirst\",\"OperationLog.findFirstOrThrow\",\"OperationLog.findMany\",\"OperationLog.createOne\",\"OperationLog.createMany\",\"OperationLog.createManyAndReturn\",\"OperationLog.updateOne\",\"OperationLog.updateMany\",\"OperationLog.updateManyAndReturn\",\"OperationLog.upsertOne\",\"OperationLog.deleteOne\",\"OperationLog.deleteMany\",\"OperationLog.groupBy\",\"OperationLog.aggregate\",\"Page.findUnique\",\"Page.findUniqueOrThrow\",\"Page.findFirst\",\"Page.findFirstOrThrow\",\"Page.findMany\",\"Page.createOne\",\"Page.createMany\",\"Page.createManyAndReturn\",\"Page.updateOne\",\"Page.updateMany\",\"Page.updateManyAndReturn\",\"Page.upsertOne\",\"Page.deleteOne\",\"Page.deleteMany\",\"Page.groupBy\",\"Page.aggregate\",\"Secret.findUnique\",\"Secret.findUniqueOrThrow\",\"Secret.findFirst\",\"Secret.findFirstOrThrow\",\"Secret.findMany\",\"Secret.createOne\",\"Secret.createMany\",\"Secret.createManyAndReturn\",\"Secret.updateOne\",\"Secret.updateMany\",\"Secret.updateManyAndReturn\",\"Secret.upsertOne\",\"Secret.deleteOne\",\"Secret.deleteMany\",\"Secret.groupBy\",\"Secret.aggregate\",\"ServiceAccount.findUnique\",\"ServiceAccount.findUniqueOrThrow\",\"ServiceAccount.findFirst\",\"ServiceAccount.findFirstOrThrow\",\"ServiceAccount.findMany\",\"ServiceAccount.createOne\",\"ServiceAccount.createMany\",\"ServiceAccount.createManyAndReturn\",\"ServiceAccount.updateOne\",\"ServiceAccount.updateMany\",\"ServiceAccount.updateManyAndReturn\",\"ServiceAccount.upsertOne\",\"ServiceAccount.deleteOne\",\"ServiceAccount.deleteMany\",\"ServiceAccount.groupBy\",\"ServiceAccount.aggregate\",\"Terminal.findUnique\",\"Terminal.findUniqueOrThrow\",\"Terminal.findFirst\",\"Terminal.findFirstOrThrow\",\"Terminal.findMany\",\"Terminal.createOne\",\"Terminal.createMany\",\"Terminal.createManyAndReturn\",\"Terminal.updateOne\",\"Terminal.updateMany\",\"Terminal.updateManyAndReturn\",\"Terminal.upsertOne\",\"Terminal.deleteOne\",\"Terminal.deleteMany\",\"Terminal.groupBy\",\"Terminal.aggregate\",\"TerminalSession.findUnique\",\"TerminalSession.findUniqueOrThrow\",\"TerminalSession.findFirst\",\"TerminalSession.findFirstOrThrow\",\"TerminalSession.findMany\",\"TerminalSession.createOne\",\"TerminalSession.createMany\",\"TerminalSession.createManyAndReturn\",\"TerminalSession.updateOne\",\"TerminalSession.updateMany\",\"TerminalSession.updateManyAndReturn\",\"TerminalSession.upsertOne\",\"TerminalSession.deleteOne\",\"TerminalSession.deleteMany\",\"TerminalSession.groupBy\",\"TerminalSession.aggregate\",\"TerminalSessionLog.findUnique\",\"TerminalSessionLog.findUniqueOrThrow\",\"TerminalSessionLog.findFirst\",\"TerminalSessionLog.findFirstOrThrow\",\"TerminalSessionLog.findMany\",\"TerminalSessionLog.createOne\",\"TerminalSessionLog.createMany\",\"TerminalSessionLog.createManyAndReturn\",\"TerminalSessionLog.updateOne\",\"TerminalSessionLog.updateMany\",\"TerminalSessionLog.updateManyAndReturn\",\"TerminalSessionLog.upsertOne\",\"TerminalSessionLog.deleteOne\",\"TerminalSessionLog.deleteMany\",\"TerminalSessionLog.groupBy\",\"TerminalSessionLog.aggregate\",\"Trigger.findUnique\",\"Trigger.findUniqueOrThrow\",\"Trigger.findFirst\",\"Trigger.findFirstOrThrow\",\"Trigger.findMany\",\"Trigger.createOne\",\"Trigger.createMany\",\"Trigger.createManyAndReturn\",\"Trigger.updateOne\",\"Trigger.updateMany\",\"Trigger.updateManyAndReturn\",\"Trigger.upsertOne\",\"Trigger.deleteOne\",\"Trigger.deleteMany\",\"Trigger.groupBy\",\"Trigger.aggregate\",\"UnlockMethod.findUnique\",\"UnlockMethod.findUniqueOrThrow\",\"UnlockMethod.findFirst\",\"UnlockMethod.findFirstOrThrow\",\"UnlockMethod.findMany\",\"UnlockMethod.createOne\",\"UnlockMethod.createMany\",\"UnlockMethod.createManyAndReturn\",\"UnlockMethod.updateOne\",\"UnlockMethod.updateMany\",\"UnlockMethod.updateManyAndReturn\",\"UnlockMethod.upsertOne\",\"UnlockMethod.deleteOne\",\"UnlockMethod.deleteMany\",\"UnlockMethod.groupBy\",\"UnlockMethod.aggregate\",\"Worker.findUnique\",\"Worker.findUniqueOrThrow\",\"Worker.findFirst\",\"Worker.findFirstOrThrow\",\"Worker.findMany\",\"Worker.createOne\",\"Worker.createMany\",\"Worker.createManyAndReturn\",\"Worker.updateOne\",\"Worker.updateMany\",\"Worker.updateManyAndReturn\",\"Worker.upsertOne\",\"Worker.deleteOne\",\"Worker.deleteMany\",\"Worker.groupBy\",\"Worker.aggregate\",\"WorkerVersion.findUnique\",\"WorkerVersion.findUniqueOrThrow\",\"WorkerVersion.findFirst\",\"WorkerVersion.findFirstOrThrow\",\"WorkerVersion.findMany\",\"WorkerVersion.createOne\",\"WorkerVersion.createMany\",\"WorkerVersion.createManyAndReturn\",\"WorkerVersion.updateOne\",\"WorkerVersion.updateMany\",\"WorkerVersion.updateManyAndReturn\",\"WorkerVersion.upsertOne\",\"WorkerVersion.deleteOne\",\"WorkerVersion.deleteMany\",\"WorkerVersion.groupBy\",\"WorkerVersion.aggregate\",\"WorkerUnitRegistration.findUnique\",\"WorkerUnitRegistration.findUniqueOrThrow\",\"WorkerUnitRegistration.findFirst\",\"WorkerUnitRegistration.findFirstOrThrow\",\"WorkerUnitRegistration.findMany\",\"WorkerUnitRegistration.createOne\",\"WorkerUnitRegistration.createMany\",\"WorkerUnitRegistration.createManyAndReturn\",\"WorkerUnitRegistration.updateOne\",\"WorkerUnitRegistration.updateMany\",\"WorkerUnitRegistration.updateManyAndReturn\",\"WorkerUnitRegistration.upsertOne\",\"WorkerUnitRegistration.deleteOne\",\"WorkerUnitRegistration.deleteMany\",\"WorkerUnitRegistration.groupBy\",\"WorkerUnitRegistration.aggregate\",\"WorkerVersionLog.findUnique\",\"WorkerVersionLog.findUniqueOrThrow\",\"WorkerVersionLog.findFirst\",\"WorkerVersionLog.findFirstOrThrow\",\"WorkerVersionLog.findMany\",\"WorkerVersionLog.createOne\",\"WorkerVersionLog.createMany\",\"WorkerVersionLog.createManyAndReturn\",\"WorkerVersionLog.updateOne\",\"WorkerVersionLog.updateMany\",\"WorkerVersionLog.updateManyAndReturn\",\"WorkerVersionLog.upsertOne\",\"WorkerVersionLog.deleteOne\",\"WorkerVersionLog.deleteMany\",\"WorkerVersionLog.groupBy\",\"WorkerVersionLog.aggregate\",\"AND\",\"OR\",\"NOT\",\"id\",\"workerVersionId\",\"isSystem\",\"equals\",\"not\",\"in\",\"notIn\",\"lt\",\"lte\",\"gt\",\"gte\",\"contains\",\"startsWith\",\"endsWith\",\"stateId\",\"name\",\"params\",\"createdAt\",\"updatedAt\",\"string_contains\",\"string_starts_with\",\"string_ends_with\",\"array_starts_with\",\"array_ends_with\",\"meta\",\"WorkerVersionStatus\",\"status\",\"enabled\",\"runtimeId\",\"workerId\",\"digest\",\"apiKeyId\",\"identity\",\"serviceAccountId\",\"UnlockMethodType\",\"type\",\"encryptedIdentity\",\"recipient\",\"spec\",\"sessionId\",\"terminalId\",\"startedAt\",\"finishedAt\",\"TerminalStatus\",\"systemName\",\"operationId\",\"InstanceOperationStatus\",\"currentResourceCount\",\"totalResourceCount\",\"model\",\"resolvedInputs\",\"OperationType\",\"OperationStatus\",\"options\",\"requestedInstanceIds\",\"phases\",\"every\",\"some\",\"none\",\"token\",\"acquiredAt\",\"userId\",\"viewport\",\"instanceId\",\"InstanceStatus\",\"InstanceSource\",\"source\",\"kind\",\"parentId\",\"inputHashNonce\",\"selfHash\",\"inputHash\",\"outputHash\",\"dependencyOutputHash\",\"exportedArtifactIds\",\"statusFields\",\"hasResourceHooks\",\"InstanceEvaluationStatus\",\"message\",\"evaluatedAt\",\"hash\",\"fromId\",\"toId\",\"EntityReferenceKind\",\"group\",\"contentHash\",\"entityId\",\"referencedInOutputs\",\"exportedInOutputs\",\"value\",\"order\",\"size\",\"chunkSize\",\"userId_stateId\",\"stateId_name\",\"stateId_serviceAccountId_name\",\"fromId_toId_kind_group\",\"operationId_stateId\",\"is\",\"isNot\",\"connectOrCreate\",\"upsert\",\"createMany\",\"set\",\"disconnect\",\"delete\",\"connect\",\"updateMany\",\"deleteMany\",\"increment\",\"decrement\",\"multiply\",\"divide\"]"),
-  graph: "9A79AdADCxYAALcHACAnAAC2BwAgggQAALUHADCDBAAAhAEAEIQEAAC1BwAwhQQBAAAAAZYEQADeBgAhlwRAAN4GACGdBAAA3AYAIKYEAQDbBgAhwAQBAAAAAQEAAAABACARCwAAtAcAICcAALEHACAoAACyBwAgKQAAswcAIIIEAACvBwAwgwQAAAMAEIQEAACvBwAwhQQBANsGACGWBEAA3gYAIZcEQADeBgAhnQQAANwGACCfBAAAsAefBCKgBCAArQcAIaEEAQCcBwAhogQBANsGACGjBAEA2wYAIaQEAQDbBgAhAQAAAAMAIAkWAAC3BwAgJgAA8QcAIIIEAADwBwAwgwQAAAUAEIQEAADwBwAwhQQBANsGACGWBEAA3gYAIaUEAQDbBgAhpgQBANsGACECFgAAoA0AICYAALcNACAJFgAAtwcAICYAAPEHACCCBAAA8AcAMIMEAAAFABCEBAAA8AcAMIUEAQAAAAGWBEAA3gYAIaUEAQAAAAGmBAEAAAABAwAAAAUAIAEAAAYAMAIAAAcAIA8EAADvBwAgFQAAhAcAIBsAAOUHACAcAADmBwAgJAAA4gcAIIIEAADuBwAwgwQAAAkAEIQEAADuBwAwhQQBANsGACGWBEAA3gYAIZcEQADeBgAhnQQAANwGACDVBAEA2wYAIeAEAgC-BwAh4QQCAL4HACEFBAAAtg0AIBUAAMsMACAbAACuDQAgHAAArw0AICQAAKsNACAPBAAA7wcAIBUAAIQHACAbAADlBwAgHAAA5gcAICQAAOIHACCCBAAA7gcAMIMEAAAJABCEBAAA7gcAMIUEAQAAAAGWBEAA3gYAIZcEQADeBgAhnQQAANwGACDVBAEAAAAB4AQCAL4HACHhBAIAvgcAIQMAAAAJACABAAAKADACAAALACAOAwAA7AcAIBQAAMUHACAXAADkBwAgGwAA5QcAIBwAAOYHACAeAADoBwAgJQAA7QcAIIIEAADrBwAwgwQAAA0AEIQEAADrBwAwhQQBANsGACGWBEAA3gYAIZcEQADeBgAhnQQAANwGACAHAwAAtA0AIBQAAKENACAXAACtDQAgGwAArg0AIBwAAK8NACAeAACxDQAgJQAAtQ0AIA4DAADsBwAgFAAAxQcAIBcAAOQHACAbAADlBwAgHAAA5gcAIB4AAOgHACAlAADtBwAgggQAAOsHADCDBAAADQAQhAQAAOsHADCFBAEAAAABlgRAAN4GACGXBEAA3gYAIZ0EAADcBgAgAwAAAA0AIAEAAA4AMAIAAA8AICMFAADDBwAgBgAA4gcAIAgAAOMHACAJAACCBwAgFAAAxQcAIBUAAIQHACAXAADkBwAgGwAA5QcAIBwAAOYHACAdAADnBwAgHgAA6AcAIB8AAOkHACAhAACzBwAgIgAAgwcAICMAAOoHACCCBAAA3wcAMIMEAAARABCEBAAA3wcAMIUEAQDbBgAhnwQAAOAHxgQitAQCAN4HACG2BAAAgAcAILcEAACABwAgxAQBANsGACHHBAAA4QfHBCLIBAEA2wYAIckEAQCcBwAhygQCAN4HACHLBAIA3gcAIcwEAgDeBwAhzQQCAN4HACHOBAIA3gcAIc8EAACABwAg0AQAAIAHACDRBCAArQcAIRoFAADXDAAgBgAAqw0AIAgAAKwNACAJAADJDAAgFAAAoQ0AIBUAAMsMACAXAACtDQAgGwAArg0AIBwAAK8NACAdAACwDQAgHgAAsQ0AIB8AALINACAhAACeDQAgIgAAygwAICMAALMNACC0BAAAgQgAILYEAACBCAAgtwQAAIEIACDJBAAAgQgAIMoEAACBCAAgywQAAIEIACDMBAAAgQgAIM0EAACBCAAgzgQAAIEIACDPBAAAgQgAINAEAACBCAAgIwUAAMMHACAGAADiBwAgCAAA4wcAIAkAAIIHACAUAADFBwAgFQAAhAcAIBcAAOQHACAbAADlBwAgHAAA5gcAIB0AAOcHACAeAADoBwAgHwAA6QcAICEAALMHACAiAACDBwAgIwAA6gcAIIIEAADfBwAwgwQAABEAEIQEAADfBwAwhQQBAAAAAZ8EAADgB8YEIrQEAgDeBwAhtgQAAIAHACC3BAAAgAcAIMQEAQAAAAHHBAAA4QfHBCLIBAEA2wYAIckEAQCcBwAhygQCAN4HACHLBAIA3gcAIcwEAgDeBwAhzQQCAN4HACHOBAIA3gcAIc8EAACABwAg0AQAAIAHACDRBCAArQcAIQMAAAARACABAAASADACAAATACABAAAAEQAgAwAAABEAIAEAABIAMAIAABMAIAkHAACLBwAgggQAAJoHADCDBAAAFwAQhAQAAJoHADCTBAEA2wYAIZ8EAACbB9MEIrYEAACABwAg0wQBAJwHACHUBEAA3gYAIQEAAAAXACAOBwAAiwcAIAoAANgHACCCBAAA3AcAMIMEAAAZABCEBAAA3AcAMJMEAQDbBgAhnwQAAN0HtAQirgRAAIEHACGvBEAAgQcAIbIEAQDbBgAhtAQCAN4HACG1BAIA3gcAIbYEAADcBgAgtwQAANwGACAGBwAA1wwAIAoAAKkNACCuBAAAgQgAIK8EAACBCAAgtAQAAIEIACC1BAAAgQgAIA8HAACLBwAgCgAA2AcAIIIEAADcBwAwgwQAABkAEIQEAADcBwAwkwQBANsGACGfBAAA3Qe0BCKuBEAAgQcAIa8EQACBBwAhsgQBANsGACG0BAIA3gcAIbUEAgDeBwAhtgQAANwGACC3BAAA3AYAIOYEAADbBwAgAwAAABkAIAEAABoAMAIAABsAIAMAAAAZACABAAAaADACAAAbACAKBwAAwwcAIAoAANgHACAOAQDbBgAhggQAANoHADCDBAAAHgAQhAQAANoHADCFBAEA2wYAIYcEIACtBwAhkwQBAJwHACGyBAEA2wYAIQMHAADXDAAgCgAAqQ0AIJMEAACBCAAgCgcAAMMHACAKAADYBwAgDgEA2wYAIYIEAADaBwAwgwQAAB4AEIQEAADaBwAwhQQBAAAAAYcEIACtBwAhkwQBAJwHACGyBAEA2wYAIQMAAAAeACABAAAfADACAAAgACABAAAAEQAgEgcAAIsHACAKAADYBwAgDgAA1gcAIA8AANcHACASAADZBwAgEwAA2QcAIBQAAMUHACCCBAAA1QcAMIMEAAAjABCEBAAA1QcAMIUEAQDbBgAhkwQBANsGACGWBEAA3gYAIbIEAQDbBgAh2gQBANsGACHbBAEA2wYAIdwEAADcBgAg3QQAANwGACAHBwAA1wwAIAoAAKkNACAOAACnDQAgDwAAqA0AIBIAAKoNACATAACqDQAgFAAAoQ0AIBIHAACLBwAgCgAA2AcAIA4AANYHACAPAADXBwAgEgAA2QcAIBMAANkHACAUAADFBwAgggQAANUHADCDBAAAIwAQhAQAANUHADCFBAEAAAABkwQBANsGACGWBEAA3gYAIbIEAQDbBgAh2gQBANsGACHbBAEA2wYAIdwEAADcBgAg3QQAANwGACADAAAAIwAgAQAAJAAwAgAAJQAgAwAAACMAIAEAACQAMAIAACUAIAEAAAAjACADAAAAIwAgAQAAJAAwAgAAJQAgAQAAACMAIAkQAADUBwAgEQAA1AcAIIIEAADSBwAwgwQAACsAEIQEAADSBwAwyAQAANMH2QQi1gQBANsGACHXBAEA2wYAIdkEAQDbBgAhAhAAAKYNACARAACmDQAgChAAANQHACARAADUBwAgggQAANIHADCDBAAAKwAQhAQAANIHADDIBAAA0wfZBCLWBAEA2wYAIdcEAQDbBgAh2QQBANsGACHlBAAA0QcAIAMAAAArACABAAAsADACAAAtACADAAAAKwAgAQAALAAwAgAALQAgAwAAAAkAIAEAAAoAMAIAAAsAIAEAAAArACABAAAAKwAgAQAAAAkAIAEAAAAZACABAAAAHgAgAQAAACMAIA4HAADDBwAgDgAA3AYAIBYAAMQHACCCBAAA0AcAMIMEAAA3ABCEBAAA0AcAMIUEAQDbBgAhkwQBAJwHACGUBAEAnAcAIZYEQADeBgAhlwRAAN4GACGdBAAA3AYAIKYEAQCcBwAhsQQBAJwHACEGBwAA1wwAIBYAAKANACCTBAAAgQgAIJQEAACBCAAgpgQAAIEIACCxBAAAgQgAIA8HAADDBwAgDgAA3AYAIBYAAMQHACCCBAAA0AcAMIMEAAA3ABCEBAAA0AcAMIUEAQAAAAGTBAEAnAcAIZQEAQCcBwAhlgRAAN4GACGXBEAA3gYAIZ0EAADcBgAgpgQBAJwHACGxBAEAAAAB4wQAAM8HACADAAAANwAgAQAAOAAwAgAAOQAgAQAAABEAIAEAAAANACAQBwAAwwcAIBQAAMUHACAWAADEBwAgGgAAzgcAIIIEAADMBwAwgwQAAD0AEIQEAADMBwAwhQQBANsGACGTBAEAnAcAIZQEAQCcBwAhlgRAAN4GACGXBEAA3gYAIZ0EAADcBgAgnwQAAM0HsQQipgQBAJwHACGrBAAA3AYAIAcHAADXDAAgFAAAoQ0AIBYAAKANACAaAAClDQAgkwQAAIEIACCUBAAAgQgAIKYEAACBCAAgEQcAAMMHACAUAADFBwAgFgAAxAcAIBoAAM4HACCCBAAAzAcAMIMEAAA9ABCEBAAAzAcAMIUEAQAAAAGTBAEAnAcAIZQEAQCcBwAhlgRAAN4GACGXBEAA3gYAIZ0EAADcBgAgnwQAAM0HsQQipgQBAJwHACGrBAAA3AYAIOMEAADLBwAgAwAAAD0AIAEAAD4AMAIAAD8AIAEAAAARACABAAAADQAgCQsAAMoHACAYAADJBwAgggQAAMgHADCDBAAAQwAQhAQAAMgHADCFBAEA2wYAIa0EAQDbBgAhrgRAAN4GACGvBEAAgQcAIQMLAACkDQAgGAAAow0AIK8EAACBCAAgCQsAAMoHACAYAADJBwAgggQAAMgHADCDBAAAQwAQhAQAAMgHADCFBAEAAAABrQQBANsGACGuBEAA3gYAIa8EQACBBwAhAwAAAEMAIAEAAEQAMAIAAEUAIAcOAQDbBgAhGQAAxwcAIIIEAADGBwAwgwQAAEcAEIQEAADGBwAwhQQBANsGACGsBAEA2wYAIQEZAACiDQAgBw4BANsGACEZAADHBwAgggQAAMYHADCDBAAARwAQhAQAAMYHADCFBAEAAAABrAQBANsGACEDAAAARwAgAQAASAAwAgAASQAgAQAAAEcAIAMAAAAJACABAAAKADACAAALACABAAAAQwAgAQAAAAkAIA4HAADDBwAgDgAA3AYAIBQAAMUHACAWAADEBwAgggQAAMIHADCDBAAATwAQhAQAAMIHADCFBAEA2wYAIZMEAQCcBwAhlAQBAJwHACGWBEAA3gYAIZcEQADeBgAhnQQAANwGACCmBAEAnAcAIQYHAADXDAAgFAAAoQ0AIBYAAKANACCTBAAAgQgAIJQEAACBCAAgpgQAAIEIACAPBwAAwwcAIA4AANwGACAUAADFBwAgFgAAxAcAIIIEAADCBwAwgwQAAE8AEIQEAADCBwAwhQQBAAAAAZMEAQCcBwAhlAQBAJwHACGWBEAA3gYAIZcEQADeBgAhnQQAANwGACCmBAEAnAcAIeMEAADBBwAgAwAAAE8AIAEAAFAAMAIAAFEAIAEAAAARACABAAAADQAgAwAAAAkAIAEAAAoAMAIAAAsAIAEAAAAJACALBwAAiwcAIIIEAADABwAwgwQAAFcAEIQEAADABwAwhQQBANsGACGTBAEA2wYAIZQEAQDbBgAhlgRAAN4GACGXBEAA3gYAIZ0EAADcBgAgqwQAANwGACABBwAA1wwAIAwHAACLBwAgggQAAMAHADCDBAAAVwAQhAQAAMAHADCFBAEAAAABkwQBANsGACGUBAEA2wYAIZYEQADeBgAhlwRAAN4GACGdBAAA3AYAIKsEAADcBgAg4wQAAL8HACADAAAAVwAgAQAAWAAwAgAAWQAgDgcAAIsHACAWAAC3BwAgggQAAL0HADCDBAAAWwAQhAQAAL0HADCTBAEA2wYAIZQEAQDbBgAhlgRAAN4GACGXBEAA3gYAIZ0EAADcBgAgpgQBANsGACHTBAEAnAcAId4EAQDbBgAh3wQCAL4HACEDBwAA1wwAIBYAAKANACDTBAAAgQgAIA8HAACLBwAgFgAAtwcAIIIEAAC9BwAwgwQAAFsAEIQEAAC9BwAwkwQBANsGACGUBAEA2wYAIZYEQADeBgAhlwRAAN4GACGdBAAA3AYAIKYEAQDbBgAh0wQBAJwHACHeBAEA2wYAId8EAgC-BwAh5AQAALwHACADAAAAWwAgAQAAXAAwAgAAXQAgCAcAAIsHACCCBAAAigcAMIMEAABfABCEBAAAigcAMJMEAQDbBgAhnQQAANwGACDABAEA2wYAIcEEQADeBgAhAQAAAF8AIAsHAACLBwAgIAAArgcAIIIEAAC7BwAwgwQAAGEAEIQEAAC7BwAwhgQBANsGACGTBAEA2wYAIZQEAQDbBgAhlQQAANwGACCWBEAA3gYAIZcEQADeBgAhAgcAANcMACAgAACbDQAgDAcAAIsHACAgAACuBwAgggQAALsHADCDBAAAYQAQhAQAALsHADCGBAEA2wYAIZMEAQDbBgAhlAQBANsGACGVBAAA3AYAIJYEQADeBgAhlwRAAN4GACHjBAAAugcAIAMAAABhACABAABiADACAABjACADAAAACQAgAQAACgAwAgAACwAgAwAAAB4AIAEAAB8AMAIAACAAIAcHAACLBwAgggQAALkHADCDBAAAZwAQhAQAALkHADCTBAEA2wYAIcIEAQDbBgAhwwQAANwGACABBwAA1wwAIAgHAACLBwAgggQAALkHADCDBAAAZwAQhAQAALkHADCTBAEA2wYAIcIEAQDbBgAhwwQAANwGACDiBAAAuAcAIAMAAABnACABAABoADACAABpACADAAAAIwAgAQAAJAAwAgAAJQAgAQAAABEAIAEAAAAZACABAAAANwAgAQAAAD0AIAEAAABPACABAAAAVwAgAQAAAFsAIAEAAABhACABAAAACQAgAQAAAB4AIAEAAABnACABAAAAIwAgAwAAAD0AIAEAAD4AMAIAAD8AIAMAAABPACABAABQADACAABRACADAAAAIwAgAQAAJAAwAgAAJQAgAQAAAA0AIAEAAAARACABAAAAPQAgAQAAAE8AIAEAAAAjACADAAAANwAgAQAAOAAwAgAAOQAgAwAAAD0AIAEAAD4AMAIAAD8AIAMAAABPACABAABQADACAABRACADAAAAWwAgAQAAXAAwAgAAXQAgCxYAALcHACAnAAC2BwAgggQAALUHADCDBAAAhAEAEIQEAAC1BwAwhQQBANsGACGWBEAA3gYAIZcEQADeBgAhnQQAANwGACCmBAEA2wYAIcAEAQDbBgAhAhYAAKANACAnAACbDQAgAwAAAIQBACABAACFAQAwAgAAAQAgAQAAAAUAIAEAAAAJACABAAAANwAgAQAAAD0AIAEAAABPACABAAAAWwAgAQAAAIQBACAFCwAAnw0AICcAAJwNACAoAACdDQAgKQAAng0AIKEEAACBCAAgEQsAALQHACAnAACxBwAgKAAAsgcAICkAALMHACCCBAAArwcAMIMEAAADABCEBAAArwcAMIUEAQAAAAGWBEAA3gYAIZcEQADeBgAhnQQAANwGACCfBAAAsAefBCKgBCAArQcAIaEEAQCcBwAhogQBANsGACGjBAEAAAABpAQBAAAAAQMAAAADACABAACOAQAwAgAAjwEAIAEAAAADACADAAAAYQAgAQAAYgAwAgAAYwAgCA4BANsGACEgAACuBwAgggQAAKwHADCDBAAAkwEAEIQEAACsBwAwhQQBANsGACGGBAEA2wYAIYcEIACtBwAhASAAAJsNACAIDgEA2wYAISAAAK4HACCCBAAArAcAMIMEAACTAQAQhAQAAKwHADCFBAEAAAABhgQBANsGACGHBCAArQcAIQMAAACTAQAgAQAAlAEAMAIAAJUBACABAAAAYQAgAQAAAJMBACABAAAAAQAgAwAAAIQBACABAACFAQAwAgAAAQAgAwAAAIQBACABAACFAQAwAgAAAQAgAwAAAIQBACABAACFAQAwAgAAAQAgCBYAAJoNACAnAACGCgAghQQBAAAAAZYEQAAAAAGXBEAAAAABnQSAAAAAAaYEAQAAAAHABAEAAAABAS8AAJ0BACAGhQQBAAAAAZYEQAAAAAGXBEAAAAABnQSAAAAAAaYEAQAAAAHABAEAAAABAS8AAJ8BADABLwAAnwEAMAgWAACZDQAgJwAA2wsAIIUEAQD1BwAhlgRAAPwHACGXBEAA_AcAIZ0EgAAAAAGmBAEA9QcAIcAEAQD1BwAhAgAAAAEAIC8AAKIBACAGhQQBAPUHACGWBEAA_AcAIZcEQAD8BwAhnQSAAAAAAaYEAQD1BwAhwAQBAPUHACECAAAAhAEAIC8AAKQBACACAAAAhAEAIC8AAKQBACADAAAAAQAgNgAAnQEAIDcAAKIBACABAAAAAQAgAQAAAIQBACADDQAAlg0AIDwAAJgNACA9AACXDQAgCYIEAACrBwAwgwQAAKsBABCEBAAAqwcAMIUEAQDABgAhlgRAAMkGACGXBEAAyQYAIZ0EAADIBgAgpgQBAMAGACHABAEAwAYAIQMAAACEAQAgAQAAqgEAMDsAAKsBACADAAAAhAEAIAEAAIUBADACAAABACABAAAACwAgAQAAAAsAIAMAAAAJACABAAAKADACAAALACADAAAACQAgAQAACgAwAgAACwAgAwAAAAkAIAEAAAoAMAIAAAsAIAwEAADzCQAgFQAAlwoAIBsAAPUJACAcAAD2CQAgJAAA9AkAIIUEAQAAAAGWBEAAAAABlwRAAAAAAZ0EgAAAAAHVBAEAAAAB4AQCAAAAAeEEAgAAAAEBLwAAswEAIAeFBAEAAAABlgRAAAAAAZcEQAAAAAGdBIAAAAAB1QQBAAAAAeAEAgAAAAHhBAIAAAABAS8AALUBADABLwAAtQEAMAwEAADvCAAgFQAA8ggAIBsAAN4JACAcAADxCAAgJAAA8AgAIIUEAQD1BwAhlgRAAPwHACGXBEAA_AcAIZ0EgAAAAAHVBAEA9QcAIeAEAgDtCAAh4QQCAO0IACECAAAACwAgLwAAuAEAIAeFBAEA9QcAIZYEQAD8BwAhlwRAAPwHACGdBIAAAAAB1QQBAPUHACHgBAIA7QgAIeEEAgDtCAAhAgAAAAkAIC8AALoBACACAAAACQAgLwAAugEAIAMAAAALACA2AACzAQAgNwAAuAEAIAEAAAALACABAAAACQAgBQ0AAJENACA8AACUDQAgPQAAkw0AIE4AAJINACBPAACVDQAgCoIEAACqBwAwgwQAAMEBABCEBAAAqgcAMIUEAQDABgAhlgRAAMkGACGXBEAAyQYAIZ0EAADIBgAg1QQBAMAGACHgBAIApwcAIeEEAgCnBwAhAwAAAAkAIAEAAMABADA7AADBAQAgAwAAAAkAIAEAAAoAMAIAAAsAIAEAAABdACABAAAAXQAgAwAAAFsAIAEAAFwAMAIAAF0AIAMAAABbACABAABcADACAABdACADAAAAWwAgAQAAXAAwAgAAXQAgCwcAAI4KACAWAADeCgAgkwQBAAAAAZQEAQAAAAGWBEAAAAABlwRAAAAAAZ0EgAAAAAGmBAEAAAAB0wQBAAAAAd4EAQAAAAHfBAIAAAABAS8AAMkBACAJkwQBAAAAAZQEAQAAAAGWBEAAAAABlwRAAAAAAZ0EgAAAAAGmBAEAAAAB0wQBAAAAAd4EAQAAAAHfBAIAAAABAS8AAMsBADABLwAAywEAMAsHAADkCwAgFgAA3AoAIJMEAQD1BwAhlAQBAPUHACGWBEAA_AcAIZcEQAD8BwAhnQSAAAAAAaYEAQD1BwAh0wQBAIYIACHeBAEA9QcAId8EAgDtCAAhAgAAAF0AIC8AAM4BACAJkwQBAPUHACGUBAEA9QcAIZYEQAD8BwAhlwRAAPwHACGdBIAAAAABpgQBAPUHACHTBAEAhggAId4EAQD1BwAh3wQCAO0IACECAAAAWwAgLwAA0AEAIAIAAABbACAvAADQAQAgAwAAAF0AIDYAAMkBACA3AADOAQAgAQAAAF0AIAEAAABbACAGDQAAjA0AIDwAAI8NACA9AACODQAgTgAAjQ0AIE8AAJANACDTBAAAgQgAIAyCBAAApgcAMIMEAADXAQAQhAQAAKYHADCTBAEAwAYAIZQEAQDABgAhlgRAAMkGACGXBEAAyQYAIZ0EAADIBgAgpgQBAMAGACHTBAEAzwYAId4EAQDABgAh3wQCAKcHACEDAAAAWwAgAQAA1gEAMDsAANcBACADAAAAWwAgAQAAXAAwAgAAXQAgBwwAAIQHACCCBAAApQcAMIMEAADdAQAQhAQAAKUHADCFBAEAAAABpQQBANsGACGoBAEA2wYAIQEAAADaAQAgAQAAANoBACAHDAAAhAcAIIIEAAClBwAwgwQAAN0BABCEBAAApQcAMIUEAQDbBgAhpQQBANsGACGoBAEA2wYAIQEMAADLDAAgAwAAAN0BACABAADeAQAwAgAA2gEAIAMAAADdAQAgAQAA3gEAMAIAANoBACADAAAA3QEAIAEAAN4BADACAADaAQAgBAwAAIsNACCFBAEAAAABpQQBAAAAAagEAQAAAAEBLwAA4gEAIAOFBAEAAAABpQQBAAAAAagEAQAAAAEBLwAA5AEAMAEvAADkAQAwBAwAAIENACCFBAEA9QcAIaUEAQD1BwAhqAQBAPUHACECAAAA2gEAIC8AAOcBACADhQQBAPUHACGlBAEA9QcAIagEAQD1BwAhAgAAAN0BACAvAADpAQAgAgAAAN0BACAvAADpAQAgAwAAANoBACA2AADiAQAgNwAA5wEAIAEAAADaAQAgAQAAAN0BACADDQAA_gwAIDwAAIANACA9AAD_DAAgBoIEAACkBwAwgwQAAPABABCEBAAApAcAMIUEAQDABgAhpQQBAMAGACGoBAEAwAYAIQMAAADdAQAgAQAA7wEAMDsAAPABACADAAAA3QEAIAEAAN4BADACAADaAQAgAQAAACUAIAEAAAAlACADAAAAIwAgAQAAJAAwAgAAJQAgAwAAACMAIAEAACQAMAIAACUAIAMAAAAjACABAAAkADACAAAlACAPBwAAoQkAIAoAAKAJACAOAACeCQAgDwAAnwkAIBIAAKIJACATAACjCQAgFAAAqQoAIIUEAQAAAAGTBAEAAAABlgRAAAAAAbIEAQAAAAHaBAEAAAAB2wQBAAAAAdwEgAAAAAHdBIAAAAABAS8AAPgBACAIhQQBAAAAAZMEAQAAAAGWBEAAAAABsgQBAAAAAdoEAQAAAAHbBAEAAAAB3ASAAAAAAd0EgAAAAAEBLwAA-gEAMAEvAAD6AQAwDwcAAIAJACAKAAD_CAAgDgAA_QgAIA8AAP4IACASAACBCQAgEwAAggkAIBQAANYJACCFBAEA9QcAIZMEAQD1BwAhlgRAAPwHACGyBAEA9QcAIdoEAQD1BwAh2wQBAPUHACHcBIAAAAAB3QSAAAAAAQIAAAAlACAvAAD9AQAgCIUEAQD1BwAhkwQBAPUHACGWBEAA_AcAIbIEAQD1BwAh2gQBAPUHACHbBAEA9QcAIdwEgAAAAAHdBIAAAAABAgAAACMAIC8AAP8BACACAAAAIwAgLwAA_wEAIAMAAAAlACA2AAD4AQAgNwAA_QEAIAEAAAAlACABAAAAIwAgAw0AAPsMACA8AAD9DAAgPQAA_AwAIAuCBAAAowcAMIMEAACGAgAQhAQAAKMHADCFBAEAwAYAIZMEAQDABgAhlgRAAMkGACGyBAEAwAYAIdoEAQDABgAh2wQBAMAGACHcBAAAyAYAIN0EAADIBgAgAwAAACMAIAEAAIUCADA7AACGAgAgAwAAACMAIAEAACQAMAIAACUAIAEAAAAtACABAAAALQAgAwAAACsAIAEAACwAMAIAAC0AIAMAAAArACABAAAsADACAAAtACADAAAAKwAgAQAALAAwAgAALQAgBhAAAJEJACARAACcCQAgyAQAAADZBALWBAEAAAAB1wQBAAAAAdkEAQAAAAEBLwAAjgIAIATIBAAAANkEAtYEAQAAAAHXBAEAAAAB2QQBAAAAAQEvAACQAgAwAS8AAJACADAGEAAAjwkAIBEAAJoJACDIBAAAjQnZBCLWBAEA9QcAIdcEAQD1BwAh2QQBAPUHACECAAAALQAgLwAAkwIAIATIBAAAjQnZBCLWBAEA9QcAIdcEAQD1BwAh2QQBAPUHACECAAAAKwAgLwAAlQIAIAIAAAArACAvAACVAgAgAwAAAC0AIDYAAI4CACA3AACTAgAgAQAAAC0AIAEAAAArACADDQAA-AwAIDwAAPoMACA9AAD5DAAgB4IEAACfBwAwgwQAAJwCABCEBAAAnwcAMMgEAACgB9kEItYEAQDABgAh1wQBAMAGACHZBAEAwAYAIQMAAAArACABAACbAgAwOwAAnAIAIAMAAAArACABAAAsADACAAAtACAHDAAAhAcAIA4AANwGACCCBAAAngcAMIMEAACiAgAQhAQAAJ4HADCdBAAAgAcAINUEAQAAAAEBAAAAnwIAIAEAAACfAgAgBwwAAIQHACAOAADcBgAgggQAAJ4HADCDBAAAogIAEIQEAACeBwAwnQQAAIAHACDVBAEA2wYAIQIMAADLDAAgnQQAAIEIACADAAAAogIAIAEAAKMCADACAACfAgAgAwAAAKICACABAACjAgAwAgAAnwIAIAMAAACiAgAgAQAAowIAMAIAAJ8CACAEDAAA9wwAIA6AAAAAAZ0EgAAAAAHVBAEAAAABAS8AAKcCACADDoAAAAABnQSAAAAAAdUEAQAAAAEBLwAAqQIAMAEvAACpAgAwBAwAAO0MACAOgAAAAAGdBIAAAAAB1QQBAPUHACECAAAAnwIAIC8AAKwCACADDoAAAAABnQSAAAAAAdUEAQD1BwAhAgAAAKICACAvAACuAgAgAgAAAKICACAvAACuAgAgAwAAAJ8CACA2AACnAgAgNwAArAIAIAEAAACfAgAgAQAAAKICACAEDQAA6gwAIDwAAOwMACA9AADrDAAgnQQAAIEIACAGDgAAyAYAIIIEAACdBwAwgwQAALUCABCEBAAAnQcAMJ0EAAD3BgAg1QQBAMAGACEDAAAAogIAIAEAALQCADA7AAC1AgAgAwAAAKICACABAACjAgAwAgAAnwIAIAkHAACLBwAgggQAAJoHADCDBAAAFwAQhAQAAJoHADCTBAEAAAABnwQAAJsH0wQitgQAAIAHACDTBAEAnAcAIdQEQADeBgAhAQAAALgCACABAAAAuAIAIAMHAADXDAAgtgQAAIEIACDTBAAAgQgAIAMAAAAXACABAAC7AgAwAgAAuAIAIAMAAAAXACABAAC7AgAwAgAAuAIAIAMAAAAXACABAAC7AgAwAgAAuAIAIAYHAADpDAAgkwQBAAAAAZ8EAAAA0wQCtgSAAAAAAdMEAQAAAAHUBEAAAAABAS8AAL8CACAFkwQBAAAAAZ8EAAAA0wQCtgSAAAAAAdMEAQAAAAHUBEAAAAABAS8AAMECADABLwAAwQIAMAYHAADoDAAgkwQBAPUHACGfBAAApAvTBCK2BIAAAAAB0wQBAIYIACHUBEAA_AcAIQIAAAC4AgAgLwAAxAIAIAWTBAEA9QcAIZ8EAACkC9MEIrYEgAAAAAHTBAEAhggAIdQEQAD8BwAhAgAAABcAIC8AAMYCACACAAAAFwAgLwAAxgIAIAMAAAC4AgAgNgAAvwIAIDcAAMQCACABAAAAuAIAIAEAAAAXACAFDQAA5QwAIDwAAOcMACA9AADmDAAgtgQAAIEIACDTBAAAgQgAIAiCBAAAlgcAMIMEAADNAgAQhAQAAJYHADCTBAEAwAYAIZ8EAACXB9MEIrYEAAD3BgAg0wQBAM8GACHUBEAAyQYAIQMAAAAXACABAADMAgAwOwAAzQIAIAMAAAAXACABAAC7AgAwAgAAuAIAIAEAAAATACABAAAAEwAgAwAAABEAIAEAABIAMAIAABMAIAMAAAARACABAAASADACAAATACADAAAAEQAgAQAAEgAwAgAAEwAgIAUAAMYLACAGAAC3CwAgCAAAuAsAIAkAALkLACAUAADBCwAgFQAAxAsAIBcAALoLACAbAAC7CwAgHAAAvAsAIB0AAL0LACAeAAC-CwAgHwAAvwsAICEAAMALACAiAADCCwAgIwAAwwsAIIUEAQAAAAGfBAAAAMYEArQEAgAAAAG2BIAAAAABtwSAAAAAAcQEAQAAAAHHBAAAAMcEAsgEAQAAAAHJBAEAAAABygQCAAAAAcsEAgAAAAHMBAIAAAABzQQCAAAAAc4EAgAAAAHPBIAAAAAB0ASAAAAAAdEEIAAAAAEBLwAA1QIAIBGFBAEAAAABnwQAAADGBAK0BAIAAAABtgSAAAAAAbcEgAAAAAHEBAEAAAABxwQAAADHBALIBAEAAAAByQQBAAAAAcoEAgAAAAHLBAIAAAABzAQCAAAAAc0EAgAAAAHOBAIAAAABzwSAAAAAAdAEgAAAAAHRBCAAAAABAS8AANcCADABLwAA1wIAMAEAAAARACAgBQAAwAkAIAYAAMEJACAIAADCCQAgCQAAwwkAIBQAAK0LACAVAADNCQAgFwAAxAkAIBsAAMUJACAcAADGCQAgHQAAxwkAIB4AAMgJACAfAADJCQAgIQAAygkAICIAAMsJACAjAADMCQAghQQBAPUHACGfBAAAvAnGBCK0BAIAvgkAIbYEgAAAAAG3BIAAAAABxAQBAPUHACHHBAAAvQnHBCLIBAEA9QcAIckEAQCGCAAhygQCAL4JACHLBAIAvgkAIcwEAgC-CQAhzQQCAL4JACHOBAIAvgkAIc8EgAAAAAHQBIAAAAAB0QQgAPYHACECAAAAEwAgLwAA2wIAIBGFBAEA9QcAIZ8EAAC8CcYEIrQEAgC-CQAhtgSAAAAAAbcEgAAAAAHEBAEA9QcAIccEAAC9CccEIsgEAQD1BwAhyQQBAIYIACHKBAIAvgkAIcsEAgC-CQAhzAQCAL4JACHNBAIAvgkAIc4EAgC-CQAhzwSAAAAAAdAEgAAAAAHRBCAA9gcAIQIAAAARACAvAADdAgAgAgAAABEAIC8AAN0CACABAAAAEQAgAwAAABMAIDYAANUCACA3AADbAgAgAQAAABMAIAEAAAARACAQDQAA4AwAIDwAAOMMACA9AADiDAAgTgAA4QwAIE8AAOQMACC0BAAAgQgAILYEAACBCAAgtwQAAIEIACDJBAAAgQgAIMoEAACBCAAgywQAAIEIACDMBAAAgQgAIM0EAACBCAAgzgQAAIEIACDPBAAAgQgAINAEAACBCAAgFIIEAACPBwAwgwQAAOUCABCEBAAAjwcAMIUEAQDABgAhnwQAAJAHxgQitAQCAO8GACG2BAAA9wYAILcEAAD3BgAgxAQBAMAGACHHBAAAkQfHBCLIBAEAwAYAIckEAQDPBgAhygQCAO8GACHLBAIA7wYAIcwEAgDvBgAhzQQCAO8GACHOBAIA7wYAIc8EAAD3BgAg0AQAAPcGACDRBCAAwQYAIQMAAAARACABAADkAgAwOwAA5QIAIAMAAAARACABAAASADACAAATACAFggQAAI4HADCDBAAA6wIAEIQEAACOBwAwwgQBAAAAAcMEAADcBgAgAQAAAOgCACABAAAA6AIAIAWCBAAAjgcAMIMEAADrAgAQhAQAAI4HADDCBAEA2wYAIcMEAADcBgAgAAMAAADrAgAgAQAA7AIAMAIAAOgCACADAAAA6wIAIAEAAOwCADACAADoAgAgAwAAAOsCACABAADsAgAwAgAA6AIAIALCBAEAAAABwwSAAAAAAQEvAADwAgAgAsIEAQAAAAHDBIAAAAABAS8AAPICADABLwAA8gIAMALCBAEA9QcAIcMEgAAAAAECAAAA6AIAIC8AAPUCACACwgQBAPUHACHDBIAAAAABAgAAAOsCACAvAAD3AgAgAgAAAOsCACAvAAD3AgAgAwAAAOgCACA2AADwAgAgNwAA9QIAIAEAAADoAgAgAQAAAOsCACADDQAA3QwAIDwAAN8MACA9AADeDAAgBYIEAACNBwAwgwQAAP4CABCEBAAAjQcAMMIEAQDABgAhwwQAAMgGACADAAAA6wIAIAEAAP0CADA7AAD-AgAgAwAAAOsCACABAADsAgAwAgAA6AIAIAEAAABpACABAAAAaQAgAwAAAGcAIAEAAGgAMAIAAGkAIAMAAABnACABAABoADACAABpACADAAAAZwAgAQAAaAAwAgAAaQAgBAcAANwMACCTBAEAAAABwgQBAAAAAcMEgAAAAAEBLwAAhgMAIAOTBAEAAAABwgQBAAAAAcMEgAAAAAEBLwAAiAMAMAEvAACIAwAwBAcAANsMACCTBAEA9QcAIcIEAQD1BwAhwwSAAAAAAQIAAABpACAvAACLAwAgA5MEAQD1BwAhwgQBAPUHACHDBIAAAAABAgAAAGcAIC8AAI0DACACAAAAZwAgLwAAjQMAIAMAAABpACA2AACGAwAgNwAAiwMAIAEAAABpACABAAAAZwAgAw0AANgMACA8AADaDAAgPQAA2QwAIAaCBAAAjAcAMIMEAACUAwAQhAQAAIwHADCTBAEAwAYAIcIEAQDABgAhwwQAAMgGACADAAAAZwAgAQAAkwMAMDsAAJQDACADAAAAZwAgAQAAaAAwAgAAaQAgCAcAAIsHACCCBAAAigcAMIMEAABfABCEBAAAigcAMJMEAQAAAAGdBAAA3AYAIMAEAQDbBgAhwQRAAN4GACEBAAAAlwMAIAEAAACXAwAgAQcAANcMACADAAAAXwAgAQAAmgMAMAIAAJcDACADAAAAXwAgAQAAmgMAMAIAAJcDACADAAAAXwAgAQAAmgMAMAIAAJcDACAFBwAA1gwAIJMEAQAAAAGdBIAAAAABwAQBAAAAAcEEQAAAAAEBLwAAngMAIASTBAEAAAABnQSAAAAAAcAEAQAAAAHBBEAAAAABAS8AAKADADABLwAAoAMAMAUHAADVDAAgkwQBAPUHACGdBIAAAAABwAQBAPUHACHBBEAA_AcAIQIAAACXAwAgLwAAowMAIASTBAEA9QcAIZ0EgAAAAAHABAEA9QcAIcEEQAD8BwAhAgAAAF8AIC8AAKUDACACAAAAXwAgLwAApQMAIAMAAACXAwAgNgAAngMAIDcAAKMDACABAAAAlwMAIAEAAABfACADDQAA0gwAIDwAANQMACA9AADTDAAgB4IEAACJBwAwgwQAAKwDABCEBAAAiQcAMJMEAQDABgAhnQQAAMgGACDABAEAwAYAIcEEQADJBgAhAwAAAF8AIAEAAKsDADA7AACsAwAgAwAAAF8AIAEAAJoDADACAACXAwAgB4IEAACIBwAwgwQAALIDABCEBAAAiAcAMIUEAQAAAAGWBEAA3gYAIZcEQADeBgAhtgQAANwGACABAAAArwMAIAEAAACvAwAgB4IEAACIBwAwgwQAALIDABCEBAAAiAcAMIUEAQDbBgAhlgRAAN4GACGXBEAA3gYAIbYEAADcBgAgAAMAAACyAwAgAQAAswMAMAIAAK8DACADAAAAsgMAIAEAALMDADACAACvAwAgAwAAALIDACABAACzAwAwAgAArwMAIASFBAEAAAABlgRAAAAAAZcEQAAAAAG2BIAAAAABAS8AALcDACAEhQQBAAAAAZYEQAAAAAGXBEAAAAABtgSAAAAAAQEvAAC5AwAwAS8AALkDADAEhQQBAPUHACGWBEAA_AcAIZcEQAD8BwAhtgSAAAAAAQIAAACvAwAgLwAAvAMAIASFBAEA9QcAIZYEQAD8BwAhlwRAAPwHACG2BIAAAAABAgAAALIDACAvAAC-AwAgAgAAALIDACAvAAC-AwAgAwAAAK8DACA2AAC3AwAgNwAAvAMAIAEAAACvAwAgAQAAALIDACADDQAAzwwAIDwAANEMACA9AADQDAAgB4IEAACHBwAwgwQAAMUDABCEBAAAhwcAMIUEAQDABgAhlgRAAMkGACGXBEAAyQYAIbYEAADIBgAgAwAAALIDACABAADEAwAwOwAAxQMAIAMAAACyAwAgAQAAswMAMAIAAK8DACAHggQAAIYHADCDBAAAywMAEIQEAACGBwAwhQQBAAAAAZYEQADeBgAhlwRAAN4GACG2BAAA3AYAIAEAAADIAwAgAQAAAMgDACAHggQAAIYHADCDBAAAywMAEIQEAACGBwAwhQQBANsGACGWBEAA3gYAIZcEQADeBgAhtgQAANwGACAAAwAAAMsDACABAADMAwAwAgAAyAMAIAMAAADLAwAgAQAAzAMAMAIAAMgDACADAAAAywMAIAEAAMwDADACAADIAwAgBIUEAQAAAAGWBEAAAAABlwRAAAAAAbYEgAAAAAEBLwAA0AMAIASFBAEAAAABlgRAAAAAAZcEQAAAAAG2BIAAAAABAS8AANIDADABLwAA0gMAMASFBAEA9QcAIZYEQAD8BwAhlwRAAPwHACG2BIAAAAABAgAAAMgDACAvAADVAwAgBIUEAQD1BwAhlgRAAPwHACGXBEAA_AcAIbYEgAAAAAECAAAAywMAIC8AANcDACACAAAAywMAIC8AANcDACADAAAAyAMAIDYAANADACA3AADVAwAgAQAAAMgDACABAAAAywMAIAMNAADMDAAgPAAAzgwAID0AAM0MACAHggQAAIUHADCDBAAA3gMAEIQEAACFBwAwhQQBAMAGACGWBEAAyQYAIZcEQADJBgAhtgQAAMgGACADAAAAywMAIAEAAN0DADA7AADeAwAgAwAAAMsDACABAADMAwAwAgAAyAMAIBAJAACCBwAgCwAAgwcAIBUAAIQHACCCBAAA_QYAMIMEAADkAwAQhAQAAP0GADCFBAEAAAABlwRAAN4GACGdBAAA3AYAIJ8EAAD_BroEIqgEAAD-BrkEIq4EQADeBgAhrwRAAIEHACG6BAAA3AYAILsEAADcBgAgvAQAAIAHACABAAAA4QMAIAEAAADhAwAgEAkAAIIHACALAACDBwAgFQAAhAcAIIIEAAD9BgAwgwQAAOQDABCEBAAA_QYAMIUEAQDbBgAhlwRAAN4GACGdBAAA3AYAIJ8EAAD_BroEIqgEAAD-BrkEIq4EQADeBgAhrwRAAIEHACG6BAAA3AYAILsEAADcBgAgvAQAAIAHACAFCQAAyQwAIAsAAMoMACAVAADLDAAgrwQAAIEIACC8BAAAgQgAIAMAAADkAwAgAQAA5QMAMAIAAOEDACADAAAA5AMAIAEAAOUDADACAADhAwAgAwAAAOQDACABAADlAwAwAgAA4QMAIA0JAADGDAAgCwAAxwwAIBUAAMgMACCFBAEAAAABlwRAAAAAAZ0EgAAAAAGfBAAAALoEAqgEAAAAuQQCrgRAAAAAAa8EQAAAAAG6BIAAAAABuwSAAAAAAbwEgAAAAAEBLwAA6QMAIAqFBAEAAAABlwRAAAAAAZ0EgAAAAAGfBAAAALoEAqgEAAAAuQQCrgRAAAAAAa8EQAAAAAG6BIAAAAABuwSAAAAAAbwEgAAAAAEBLwAA6wMAMAEvAADrAwAwDQkAAKgMACALAACpDAAgFQAAqgwAIIUEAQD1BwAhlwRAAPwHACGdBIAAAAABnwQAAKcMugQiqAQAAKYMuQQirgRAAPwHACGvBEAAywgAIboEgAAAAAG7BIAAAAABvASAAAAAAQIAAADhAwAgLwAA7gMAIAqFBAEA9QcAIZcEQAD8BwAhnQSAAAAAAZ8EAACnDLoEIqgEAACmDLkEIq4EQAD8BwAhrwRAAMsIACG6BIAAAAABuwSAAAAAAbwEgAAAAAECAAAA5AMAIC8AAPADACACAAAA5AMAIC8AAPADACADAAAA4QMAIDYAAOkDACA3AADuAwAgAQAAAOEDACABAAAA5AMAIAUNAACjDAAgPAAApQwAID0AAKQMACCvBAAAgQgAILwEAACBCAAgDYIEAAD0BgAwgwQAAPcDABCEBAAA9AYAMIUEAQDABgAhlwRAAMkGACGdBAAAyAYAIJ8EAAD2BroEIqgEAAD1BrkEIq4EQADJBgAhrwRAAOIGACG6BAAAyAYAILsEAADIBgAgvAQAAPcGACADAAAA5AMAIAEAAPYDADA7AAD3AwAgAwAAAOQDACABAADlAwAwAgAA4QMAIAEAAAAbACABAAAAGwAgAwAAABkAIAEAABoAMAIAABsAIAMAAAAZACABAAAaADACAAAbACADAAAAGQAgAQAAGgAwAgAAGwAgCwcAAKIMACAKAACeCwAgkwQBAAAAAZ8EAAAAtAQCrgRAAAAAAa8EQAAAAAGyBAEAAAABtAQCAAAAAbUEAgAAAAG2BIAAAAABtwSAAAAAAQEvAAD_AwAgCZMEAQAAAAGfBAAAALQEAq4EQAAAAAGvBEAAAAABsgQBAAAAAbQEAgAAAAG1BAIAAAABtgSAAAAAAbcEgAAAAAEBLwAAgQQAMAEvAACBBAAwCwcAAKEMACAKAACcCwAgkwQBAPUHACGfBAAAmgu0BCKuBEAAywgAIa8EQADLCAAhsgQBAPUHACG0BAIAvgkAIbUEAgC-CQAhtgSAAAAAAbcEgAAAAAECAAAAGwAgLwAAhAQAIAmTBAEA9QcAIZ8EAACaC7QEIq4EQADLCAAhrwRAAMsIACGyBAEA9QcAIbQEAgC-CQAhtQQCAL4JACG2BIAAAAABtwSAAAAAAQIAAAAZACAvAACGBAAgAgAAABkAIC8AAIYEACADAAAAGwAgNgAA_wMAIDcAAIQEACABAAAAGwAgAQAAABkAIAkNAACcDAAgPAAAnwwAID0AAJ4MACBOAACdDAAgTwAAoAwAIK4EAACBCAAgrwQAAIEIACC0BAAAgQgAILUEAACBCAAgDIIEAADtBgAwgwQAAI0EABCEBAAA7QYAMJMEAQDABgAhnwQAAO4GtAQirgRAAOIGACGvBEAA4gYAIbIEAQDABgAhtAQCAO8GACG1BAIA7wYAIbYEAADIBgAgtwQAAMgGACADAAAAGQAgAQAAjAQAMDsAAI0EACADAAAAGQAgAQAAGgAwAgAAGwAgAQAAACAAIAEAAAAgACADAAAAHgAgAQAAHwAwAgAAIAAgAwAAAB4AIAEAAB8AMAIAACAAIAMAAAAeACABAAAfADACAAAgACAHBwAAmwwAIAoAAMMKACAOAQAAAAGFBAEAAAABhwQgAAAAAZMEAQAAAAGyBAEAAAABAS8AAJUEACAFDgEAAAABhQQBAAAAAYcEIAAAAAGTBAEAAAABsgQBAAAAAQEvAACXBAAwAS8AAJcEADABAAAAEQAgBwcAAJoMACAKAADBCgAgDgEA9QcAIYUEAQD1BwAhhwQgAPYHACGTBAEAhggAIbIEAQD1BwAhAgAAACAAIC8AAJsEACAFDgEA9QcAIYUEAQD1BwAhhwQgAPYHACGTBAEAhggAIbIEAQD1BwAhAgAAAB4AIC8AAJ0EACACAAAAHgAgLwAAnQQAIAEAAAARACADAAAAIAAgNgAAlQQAIDcAAJsEACABAAAAIAAgAQAAAB4AIAQNAACXDAAgPAAAmQwAID0AAJgMACCTBAAAgQgAIAgOAQDABgAhggQAAOwGADCDBAAApQQAEIQEAADsBgAwhQQBAMAGACGHBCAAwQYAIZMEAQDPBgAhsgQBAMAGACEDAAAAHgAgAQAApAQAMDsAAKUEACADAAAAHgAgAQAAHwAwAgAAIAAgAQAAAFEAIAEAAABRACADAAAATwAgAQAAUAAwAgAAUQAgAwAAAE8AIAEAAFAAMAIAAFEAIAMAAABPACABAABQADACAABRACALBwAAsQkAIA6AAAAAARQAAJMKACAWAACyCQAghQQBAAAAAZMEAQAAAAGUBAEAAAABlgRAAAAAAZcEQAAAAAGdBIAAAAABpgQBAAAAAQEvAACtBAAgCA6AAAAAAYUEAQAAAAGTBAEAAAABlAQBAAAAAZYEQAAAAAGXBEAAAAABnQSAAAAAAaYEAQAAAAEBLwAArwQAMAEvAACvBAAwAQAAABEAIAEAAAANACALBwAArgkAIA6AAAAAARQAAPMKACAWAACvCQAghQQBAPUHACGTBAEAhggAIZQEAQCGCAAhlgRAAPwHACGXBEAA_AcAIZ0EgAAAAAGmBAEAhggAIQIAAABRACAvAAC0BAAgCA6AAAAAAYUEAQD1BwAhkwQBAIYIACGUBAEAhggAIZYEQAD8BwAhlwRAAPwHACGdBIAAAAABpgQBAIYIACECAAAATwAgLwAAtgQAIAIAAABPACAvAAC2BAAgAQAAABEAIAEAAAANACADAAAAUQAgNgAArQQAIDcAALQEACABAAAAUQAgAQAAAE8AIAYNAACUDAAgPAAAlgwAID0AAJUMACCTBAAAgQgAIJQEAACBCAAgpgQAAIEIACALDgAAyAYAIIIEAADrBgAwgwQAAL8EABCEBAAA6wYAMIUEAQDABgAhkwQBAM8GACGUBAEAzwYAIZYEQADJBgAhlwRAAMkGACGdBAAAyAYAIKYEAQDPBgAhAwAAAE8AIAEAAL4EADA7AAC_BAAgAwAAAE8AIAEAAFAAMAIAAFEAIAEAAAA5ACABAAAAOQAgAwAAADcAIAEAADgAMAIAADkAIAMAAAA3ACABAAA4ADACAAA5ACADAAAANwAgAQAAOAAwAgAAOQAgCwcAAKIKACAOgAAAAAEWAACPCwAghQQBAAAAAZMEAQAAAAGUBAEAAAABlgRAAAAAAZcEQAAAAAGdBIAAAAABpgQBAAAAAbEEAQAAAAEBLwAAxwQAIAkOgAAAAAGFBAEAAAABkwQBAAAAAZQEAQAAAAGWBEAAAAABlwRAAAAAAZ0EgAAAAAGmBAEAAAABsQQBAAAAAQEvAADJBAAwAS8AAMkEADABAAAAEQAgAQAAAA0AIAsHAAD0CwAgDoAAAAABFgAAjQsAIIUEAQD1BwAhkwQBAIYIACGUBAEAhggAIZYEQAD8BwAhlwRAAPwHACGdBIAAAAABpgQBAIYIACGxBAEAhggAIQIAAAA5ACAvAADOBAAgCQ6AAAAAAYUEAQD1BwAhkwQBAIYIACGUBAEAhggAIZYEQAD8BwAhlwRAAPwHACGdBIAAAAABpgQBAIYIACGxBAEAhggAIQIAAAA3ACAvAADQBAAgAgAAADcAIC8AANAEACABAAAAEQAgAQAAAA0AIAMAAAA5ACA2AADHBAAgNwAAzgQAIAEAAAA5ACABAAAANwAgBw0AAJEMACA8AACTDAAgPQAAkgwAIJMEAACBCAAglAQAAIEIACCmBAAAgQgAILEEAACBCAAgDA4AAMgGACCCBAAA6gYAMIMEAADZBAAQhAQAAOoGADCFBAEAwAYAIZMEAQDPBgAhlAQBAM8GACGWBEAAyQYAIZcEQADJBgAhnQQAAMgGACCmBAEAzwYAIbEEAQDPBgAhAwAAADcAIAEAANgEADA7AADZBAAgAwAAADcAIAEAADgAMAIAADkAIAEAAAAPACABAAAADwAgAwAAAA0AIAEAAA4AMAIAAA8AIAMAAAANACABAAAOADACAAAPACADAAAADQAgAQAADgAwAgAADwAgCwMAAPsJACAUAACQDAAgFwAA_AkAIBsAAP0JACAcAAD-CQAgHgAA_wkAICUAAIAKACCFBAEAAAABlgRAAAAAAZcEQAAAAAGdBIAAAAABAS8AAOEEACAEhQQBAAAAAZYEQAAAAAGXBEAAAAABnQSAAAAAAQEvAADjBAAwAS8AAOMEADALAwAAzgsAIBQAAIcMACAXAADPCwAgGwAA0AsAIBwAANELACAeAADSCwAgJQAA0wsAIIUEAQD1BwAhlgRAAPwHACGXBEAA_AcAIZ0EgAAAAAECAAAADwAgLwAA5gQAIASFBAEA9QcAIZYEQAD8BwAhlwRAAPwHACGdBIAAAAABAgAAAA0AIC8AAOgEACACAAAADQAgLwAA6AQAIAMAAAAPACA2AADhBAAgNwAA5gQAIAEAAAAPACABAAAADQAgAw0AAIQMACA8AACGDAAgPQAAhQwAIAeCBAAA6QYAMIMEAADvBAAQhAQAAOkGADCFBAEAwAYAIZYEQADJBgAhlwRAAMkGACGdBAAAyAYAIAMAAAANACABAADuBAAwOwAA7wQAIAMAAAANACABAAAOADACAAAPACABAAAAPwAgAQAAAD8AIAMAAAA9ACABAAA-ADACAAA_ACADAAAAPQAgAQAAPgAwAgAAPwAgAwAAAD0AIAEAAD4AMAIAAD8AIA0HAADqCQAgFAAAnAoAIBYAAOsJACAaAADsCQAghQQBAAAAAZMEAQAAAAGUBAEAAAABlgRAAAAAAZcEQAAAAAGdBIAAAAABnwQAAACxBAKmBAEAAAABqwSAAAAAAQEvAAD3BAAgCYUEAQAAAAGTBAEAAAABlAQBAAAAAZYEQAAAAAGXBEAAAAABnQSAAAAAAZ8EAAAAsQQCpgQBAAAAAasEgAAAAAEBLwAA-QQAMAEvAAD5BAAwAQAAABEAIAEAAAANACANBwAA4AgAIBQAAOMIACAWAADhCAAgGgAA4ggAIIUEAQD1BwAhkwQBAIYIACGUBAEAhggAIZYEQAD8BwAhlwRAAPwHACGdBIAAAAABnwQAAN8IsQQipgQBAIYIACGrBIAAAAABAgAAAD8AIC8AAP4EACAJhQQBAPUHACGTBAEAhggAIZQEAQCGCAAhlgRAAPwHACGXBEAA_AcAIZ0EgAAAAAGfBAAA3wixBCKmBAEAhggAIasEgAAAAAECAAAAPQAgLwAAgAUAIAIAAAA9ACAvAACABQAgAQAAABEAIAEAAAANACADAAAAPwAgNgAA9wQAIDcAAP4EACABAAAAPwAgAQAAAD0AIAYNAADcCAAgPAAA3ggAID0AAN0IACCTBAAAgQgAIJQEAACBCAAgpgQAAIEIACAMggQAAOUGADCDBAAAiQUAEIQEAADlBgAwhQQBAMAGACGTBAEAzwYAIZQEAQDPBgAhlgRAAMkGACGXBEAAyQYAIZ0EAADIBgAgnwQAAOYGsQQipgQBAM8GACGrBAAAyAYAIAMAAAA9ACABAACIBQAwOwAAiQUAIAMAAAA9ACABAAA-ADACAAA_ACABAAAARQAgAQAAAEUAIAMAAABDACABAABEADACAABFACADAAAAQwAgAQAARAAwAgAARQAgAwAAAEMAIAEAAEQAMAIAAEUAIAYLAADbCAAgGAAA2ggAIIUEAQAAAAGtBAEAAAABrgRAAAAAAa8EQAAAAAEBLwAAkQUAIASFBAEAAAABrQQBAAAAAa4EQAAAAAGvBEAAAAABAS8AAJMFADABLwAAkwUAMAYLAADNCAAgGAAAzAgAIIUEAQD1BwAhrQQBAPUHACGuBEAA_AcAIa8EQADLCAAhAgAAAEUAIC8AAJYFACAEhQQBAPUHACGtBAEA9QcAIa4EQAD8BwAhrwRAAMsIACECAAAAQwAgLwAAmAUAIAIAAABDACAvAACYBQAgAwAAAEUAIDYAAJEFACA3AACWBQAgAQAAAEUAIAEAAABDACAEDQAAyAgAIDwAAMoIACA9AADJCAAgrwQAAIEIACAHggQAAOEGADCDBAAAnwUAEIQEAADhBgAwhQQBAMAGACGtBAEAwAYAIa4EQADJBgAhrwRAAOIGACEDAAAAQwAgAQAAngUAMDsAAJ8FACADAAAAQwAgAQAARAAwAgAARQAgAQAAAEkAIAEAAABJACADAAAARwAgAQAASAAwAgAASQAgAwAAAEcAIAEAAEgAMAIAAEkAIAMAAABHACABAABIADACAABJACAEDgEAAAABGQAAxwgAIIUEAQAAAAGsBAEAAAABAS8AAKcFACADDgEAAAABhQQBAAAAAawEAQAAAAEBLwAAqQUAMAEvAACpBQAwBA4BAPUHACEZAADGCAAghQQBAPUHACGsBAEA9QcAIQIAAABJACAvAACsBQAgAw4BAPUHACGFBAEA9QcAIawEAQD1BwAhAgAAAEcAIC8AAK4FACACAAAARwAgLwAArgUAIAMAAABJACA2AACnBQAgNwAArAUAIAEAAABJACABAAAARwAgAw0AAMMIACA8AADFCAAgPQAAxAgAIAYOAQDABgAhggQAAOAGADCDBAAAtQUAEIQEAADgBgAwhQQBAMAGACGsBAEAwAYAIQMAAABHACABAAC0BQAwOwAAtQUAIAMAAABHACABAABIADACAABJACABAAAAWQAgAQAAAFkAIAMAAABXACABAABYADACAABZACADAAAAVwAgAQAAWAAwAgAAWQAgAwAAAFcAIAEAAFgAMAIAAFkAIAgHAADCCAAghQQBAAAAAZMEAQAAAAGUBAEAAAABlgRAAAAAAZcEQAAAAAGdBIAAAAABqwSAAAAAAQEvAAC9BQAgB4UEAQAAAAGTBAEAAAABlAQBAAAAAZYEQAAAAAGXBEAAAAABnQSAAAAAAasEgAAAAAEBLwAAvwUAMAEvAAC_BQAwCAcAAMEIACCFBAEA9QcAIZMEAQD1BwAhlAQBAPUHACGWBEAA_AcAIZcEQAD8BwAhnQSAAAAAAasEgAAAAAECAAAAWQAgLwAAwgUAIAeFBAEA9QcAIZMEAQD1BwAhlAQBAPUHACGWBEAA_AcAIZcEQAD8BwAhnQSAAAAAAasEgAAAAAECAAAAVwAgLwAAxAUAIAIAAABXACAvAADEBQAgAwAAAFkAIDYAAL0FACA3AADCBQAgAQAAAFkAIAEAAABXACADDQAAvggAIDwAAMAIACA9AAC_CAAgCoIEAADfBgAwgwQAAMsFABCEBAAA3wYAMIUEAQDABgAhkwQBAMAGACGUBAEAwAYAIZYEQADJBgAhlwRAAMkGACGdBAAAyAYAIKsEAADIBgAgAwAAAFcAIAEAAMoFADA7AADLBQAgAwAAAFcAIAEAAFgAMAIAAFkAIAqCBAAA2gYAMIMEAADRBQAQhAQAANoGADCFBAEAAAABlgRAAN4GACGXBEAA3gYAIZ0EAADcBgAgqAQAAN0GqAQiqQQBANsGACGqBAEAAAABAQAAAM4FACABAAAAzgUAIAqCBAAA2gYAMIMEAADRBQAQhAQAANoGADCFBAEA2wYAIZYEQADeBgAhlwRAAN4GACGdBAAA3AYAIKgEAADdBqgEIqkEAQDbBgAhqgQBANsGACEAAwAAANEFACABAADSBQAwAgAAzgUAIAMAAADRBQAgAQAA0gUAMAIAAM4FACADAAAA0QUAIAEAANIFADACAADOBQAgB4UEAQAAAAGWBEAAAAABlwRAAAAAAZ0EgAAAAAGoBAAAAKgEAqkEAQAAAAGqBAEAAAABAS8AANYFACAHhQQBAAAAAZYEQAAAAAGXBEAAAAABnQSAAAAAAagEAAAAqAQCqQQBAAAAAaoEAQAAAAEBLwAA2AUAMAEvAADYBQAwB4UEAQD1BwAhlgRAAPwHACGXBEAA_AcAIZ0EgAAAAAGoBAAAvQioBCKpBAEA9QcAIaoEAQD1BwAhAgAAAM4FACAvAADbBQAgB4UEAQD1BwAhlgRAAPwHACGXBEAA_AcAIZ0EgAAAAAGoBAAAvQioBCKpBAEA9QcAIaoEAQD1BwAhAgAAANEFACAvAADdBQAgAgAAANEFACAvAADdBQAgAwAAAM4FACA2AADWBQAgNwAA2wUAIAEAAADOBQAgAQAAANEFACADDQAAuggAIDwAALwIACA9AAC7CAAgCoIEAADWBgAwgwQAAOQFABCEBAAA1gYAMIUEAQDABgAhlgRAAMkGACGXBEAAyQYAIZ0EAADIBgAgqAQAANcGqAQiqQQBAMAGACGqBAEAwAYAIQMAAADRBQAgAQAA4wUAMDsAAOQFACADAAAA0QUAIAEAANIFADACAADOBQAgAQAAAAcAIAEAAAAHACADAAAABQAgAQAABgAwAgAABwAgAwAAAAUAIAEAAAYAMAIAAAcAIAMAAAAFACABAAAGADACAAAHACAGFgAAuAgAICYAALkIACCFBAEAAAABlgRAAAAAAaUEAQAAAAGmBAEAAAABAS8AAOwFACAEhQQBAAAAAZYEQAAAAAGlBAEAAAABpgQBAAAAAQEvAADuBQAwAS8AAO4FADAGFgAAqggAICYAAKsIACCFBAEA9QcAIZYEQAD8BwAhpQQBAPUHACGmBAEA9QcAIQIAAAAHACAvAADxBQAgBIUEAQD1BwAhlgRAAPwHACGlBAEA9QcAIaYEAQD1BwAhAgAAAAUAIC8AAPMFACACAAAABQAgLwAA8wUAIAMAAAAHACA2AADsBQAgNwAA8QUAIAEAAAAHACABAAAABQAgAw0AAKcIACA8AACpCAAgPQAAqAgAIAeCBAAA1QYAMIMEAAD6BQAQhAQAANUGADCFBAEAwAYAIZYEQADJBgAhpQQBAMAGACGmBAEAwAYAIQMAAAAFACABAAD5BQAwOwAA-gUAIAMAAAAFACABAAAGADACAAAHACABAAAAjwEAIAEAAACPAQAgAwAAAAMAIAEAAI4BADACAACPAQAgAwAAAAMAIAEAAI4BADACAACPAQAgAwAAAAMAIAEAAI4BADACAACPAQAgDgsAAKYIACAnAACjCAAgKAAApAgAICkAAKUIACCFBAEAAAABlgRAAAAAAZcEQAAAAAGdBIAAAAABnwQAAACfBAKgBCAAAAABoQQBAAAAAaIEAQAAAAGjBAEAAAABpAQBAAAAAQEvAACCBgAgCoUEAQAAAAGWBEAAAAABlwRAAAAAAZ0EgAAAAAGfBAAAAJ8EAqAEIAAAAAGhBAEAAAABogQBAAAAAaMEAQAAAAGkBAEAAAABAS8AAIQGADABLwAAhAYAMA4LAACKCAAgJwAAhwgAICgAAIgIACApAACJCAAghQQBAPUHACGWBEAA_AcAIZcEQAD8BwAhnQSAAAAAAZ8EAACFCJ8EIqAEIAD2BwAhoQQBAIYIACGiBAEA9QcAIaMEAQD1BwAhpAQBAPUHACECAAAAjwEAIC8AAIcGACAKhQQBAPUHACGWBEAA_AcAIZcEQAD8BwAhnQSAAAAAAZ8EAACFCJ8EIqAEIAD2BwAhoQQBAIYIACGiBAEA9QcAIaMEAQD1BwAhpAQBAPUHACECAAAAAwAgLwAAiQYAIAIAAAADACAvAACJBgAgAwAAAI8BACA2AACCBgAgNwAAhwYAIAEAAACPAQAgAQAAAAMAIAQNAACCCAAgPAAAhAgAID0AAIMIACChBAAAgQgAIA2CBAAAzQYAMIMEAACQBgAQhAQAAM0GADCFBAEAwAYAIZYEQADJBgAhlwRAAMkGACGdBAAAyAYAIJ8EAADOBp8EIqAEIADBBgAhoQQBAM8GACGiBAEAwAYAIaMEAQDABgAhpAQBAMAGACEDAAAAAwAgAQAAjwYAMDsAAJAGACADAAAAAwAgAQAAjgEAMAIAAI8BACABAAAAYwAgAQAAAGMAIAMAAABhACABAABiADACAABjACADAAAAYQAgAQAAYgAwAgAAYwAgAwAAAGEAIAEAAGIAMAIAAGMAIAgHAAD_BwAgIAAAgAgAIIYEAQAAAAGTBAEAAAABlAQBAAAAAZUEgAAAAAGWBEAAAAABlwRAAAAAAQEvAACYBgAgBoYEAQAAAAGTBAEAAAABlAQBAAAAAZUEgAAAAAGWBEAAAAABlwRAAAAAAQEvAACaBgAwAS8AAJoGADAIBwAA_QcAICAAAP4HACCGBAEA9QcAIZMEAQD1BwAhlAQBAPUHACGVBIAAAAABlgRAAPwHACGXBEAA_AcAIQIAAABjACAvAACdBgAgBoYEAQD1BwAhkwQBAPUHACGUBAEA9QcAIZUEgAAAAAGWBEAA_AcAIZcEQAD8BwAhAgAAAGEAIC8AAJ8GACACAAAAYQAgLwAAnwYAIAMAAABjACA2AACYBgAgNwAAnQYAIAEAAABjACABAAAAYQAgAw0AAPkHACA8AAD7BwAgPQAA-gcAIAmCBAAAxwYAMIMEAACmBgAQhAQAAMcGADCGBAEAwAYAIZMEAQDABgAhlAQBAMAGACGVBAAAyAYAIJYEQADJBgAhlwRAAMkGACEDAAAAYQAgAQAApQYAMDsAAKYGACADAAAAYQAgAQAAYgAwAgAAYwAgAQAAAJUBACABAAAAlQEAIAMAAACTAQAgAQAAlAEAMAIAAJUBACADAAAAkwEAIAEAAJQBADACAACVAQAgAwAAAJMBACABAACUAQAwAgAAlQEAIAUOAQAAAAEgAAD4BwAghQQBAAAAAYYEAQAAAAGHBCAAAAABAS8AAK4GACAEDgEAAAABhQQBAAAAAYYEAQAAAAGHBCAAAAABAS8AALAGADABLwAAsAYAMAUOAQD1BwAhIAAA9wcAIIUEAQD1BwAhhgQBAPUHACGHBCAA9gcAIQIAAACVAQAgLwAAswYAIAQOAQD1BwAhhQQBAPUHACGGBAEA9QcAIYcEIAD2BwAhAgAAAJMBACAvAAC1BgAgAgAAAJMBACAvAAC1BgAgAwAAAJUBACA2AACuBgAgNwAAswYAIAEAAACVAQAgAQAAAJMBACADDQAA8gcAIDwAAPQHACA9AADzBwAgBw4BAMAGACGCBAAAvwYAMIMEAAC8BgAQhAQAAL8GADCFBAEAwAYAIYYEAQDABgAhhwQgAMEGACEDAAAAkwEAIAEAALsGADA7AAC8BgAgAwAAAJMBACABAACUAQAwAgAAlQEAIAcOAQDABgAhggQAAL8GADCDBAAAvAYAEIQEAAC_BgAwhQQBAMAGACGGBAEAwAYAIYcEIADBBgAhDg0AAMMGACA8AADGBgAgPQAAxgYAIIgEAQAAAAGJBAEAxQYAIYoEAQAAAASLBAEAAAAEjAQBAAAAAY0EAQAAAAGOBAEAAAABjwQBAAAAAZAEAQAAAAGRBAEAAAABkgQBAAAAAQUNAADDBgAgPAAAxAYAID0AAMQGACCIBCAAAAABiQQgAMIGACEFDQAAwwYAIDwAAMQGACA9AADEBgAgiAQgAAAAAYkEIADCBgAhCIgEAgAAAAGJBAIAwwYAIYoEAgAAAASLBAIAAAAEjAQCAAAAAY0EAgAAAAGOBAIAAAABjwQCAAAAAQKIBCAAAAABiQQgAMQGACEODQAAwwYAIDwAAMYGACA9AADGBgAgiAQBAAAAAYkEAQDFBgAhigQBAAAABIsEAQAAAASMBAEAAAABjQQBAAAAAY4EAQAAAAGPBAEAAAABkAQBAAAAAZEEAQAAAAGSBAEAAAABC4gEAQAAAAGJBAEAxgYAIYoEAQAAAASLBAEAAAAEjAQBAAAAAY0EAQAAAAGOBAEAAAABjwQBAAAAAZAEAQAAAAGRBAEAAAABkgQBAAAAAQmCBAAAxwYAMIMEAACmBgAQhAQAAMcGADCGBAEAwAYAIZMEAQDABgAhlAQBAMAGACGVBAAAyAYAIJYEQADJBgAhlwRAAMkGACEKDQAAwwYAIDwAAMwGACA9AADMBgAgiASAAAAAAYkEgAAAAAGYBAEAAAABmQQBAAAAAZoEAQAAAAGbBIAAAAABnASAAAAAAQsNAADDBgAgPAAAywYAID0AAMsGACCIBEAAAAABiQRAAMoGACGKBEAAAAAEiwRAAAAABIwEQAAAAAGNBEAAAAABjgRAAAAAAY8EQAAAAAELDQAAwwYAIDwAAMsGACA9AADLBgAgiARAAAAAAYkEQADKBgAhigRAAAAABIsEQAAAAASMBEAAAAABjQRAAAAAAY4EQAAAAAGPBEAAAAABCIgEQAAAAAGJBEAAywYAIYoEQAAAAASLBEAAAAAEjARAAAAAAY0EQAAAAAGOBEAAAAABjwRAAAAAAQeIBIAAAAABiQSAAAAAAZgEAQAAAAGZBAEAAAABmgQBAAAAAZsEgAAAAAGcBIAAAAABDYIEAADNBgAwgwQAAJAGABCEBAAAzQYAMIUEAQDABgAhlgRAAMkGACGXBEAAyQYAIZ0EAADIBgAgnwQAAM4GnwQioAQgAMEGACGhBAEAzwYAIaIEAQDABgAhowQBAMAGACGkBAEAwAYAIQcNAADDBgAgPAAA1AYAID0AANQGACCIBAAAAJ8EAokEAADTBp8EIooEAAAAnwQIiwQAAACfBAgODQAA0QYAIDwAANIGACA9AADSBgAgiAQBAAAAAYkEAQDQBgAhigQBAAAABYsEAQAAAAWMBAEAAAABjQQBAAAAAY4EAQAAAAGPBAEAAAABkAQBAAAAAZEEAQAAAAGSBAEAAAABDg0AANEGACA8AADSBgAgPQAA0gYAIIgEAQAAAAGJBAEA0AYAIYoEAQAAAAWLBAEAAAAFjAQBAAAAAY0EAQAAAAGOBAEAAAABjwQBAAAAAZAEAQAAAAGRBAEAAAABkgQBAAAAAQiIBAIAAAABiQQCANEGACGKBAIAAAAFiwQCAAAABYwEAgAAAAGNBAIAAAABjgQCAAAAAY8EAgAAAAELiAQBAAAAAYkEAQDSBgAhigQBAAAABYsEAQAAAAWMBAEAAAABjQQBAAAAAY4EAQAAAAGPBAEAAAABkAQBAAAAAZEEAQAAAAGSBAEAAAABBw0AAMMGACA8AADUBgAgPQAA1AYAIIgEAAAAnwQCiQQAANMGnwQiigQAAACfBAiLBAAAAJ8ECASIBAAAAJ8EAokEAADUBp8EIooEAAAAnwQIiwQAAACfBAgHggQAANUGADCDBAAA-gUAEIQEAADVBgAwhQQBAMAGACGWBEAAyQYAIaUEAQDABgAhpgQBAMAGACEKggQAANYGADCDBAAA5AUAEIQEAADWBgAwhQQBAMAGACGWBEAAyQYAIZcEQADJBgAhnQQAAMgGACCoBAAA1waoBCKpBAEAwAYAIaoEAQDABgAhBw0AAMMGACA8AADZBgAgPQAA2QYAIIgEAAAAqAQCiQQAANgGqAQiigQAAACoBAiLBAAAAKgECAcNAADDBgAgPAAA2QYAID0AANkGACCIBAAAAKgEAokEAADYBqgEIooEAAAAqAQIiwQAAACoBAgEiAQAAACoBAKJBAAA2QaoBCKKBAAAAKgECIsEAAAAqAQICoIEAADaBgAwgwQAANEFABCEBAAA2gYAMIUEAQDbBgAhlgRAAN4GACGXBEAA3gYAIZ0EAADcBgAgqAQAAN0GqAQiqQQBANsGACGqBAEA2wYAIQuIBAEAAAABiQQBAMYGACGKBAEAAAAEiwQBAAAABIwEAQAAAAGNBAEAAAABjgQBAAAAAY8EAQAAAAGQBAEAAAABkQQBAAAAAZIEAQAAAAEHiASAAAAAAYkEgAAAAAGYBAEAAAABmQQBAAAAAZoEAQAAAAGbBIAAAAABnASAAAAAAQSIBAAAAKgEAokEAADZBqgEIooEAAAAqAQIiwQAAACoBAgIiARAAAAAAYkEQADLBgAhigRAAAAABIsEQAAAAASMBEAAAAABjQRAAAAAAY4EQAAAAAGPBEAAAAABCoIEAADfBgAwgwQAAMsFABCEBAAA3wYAMIUEAQDABgAhkwQBAMAGACGUBAEAwAYAIZYEQADJBgAhlwRAAMkGACGdBAAAyAYAIKsEAADIBgAgBg4BAMAGACGCBAAA4AYAMIMEAAC1BQAQhAQAAOAGADCFBAEAwAYAIawEAQDABgAhB4IEAADhBgAwgwQAAJ8FABCEBAAA4QYAMIUEAQDABgAhrQQBAMAGACGuBEAAyQYAIa8EQADiBgAhCw0AANEGACA8AADkBgAgPQAA5AYAIIgEQAAAAAGJBEAA4wYAIYoEQAAAAAWLBEAAAAAFjARAAAAAAY0EQAAAAAGOBEAAAAABjwRAAAAAAQsNAADRBgAgPAAA5AYAID0AAOQGACCIBEAAAAABiQRAAOMGACGKBEAAAAAFiwRAAAAABYwEQAAAAAGNBEAAAAABjgRAAAAAAY8EQAAAAAEIiARAAAAAAYkEQADkBgAhigRAAAAABYsEQAAAAAWMBEAAAAABjQRAAAAAAY4EQAAAAAGPBEAAAAABDIIEAADlBgAwgwQAAIkFABCEBAAA5QYAMIUEAQDABgAhkwQBAM8GACGUBAEAzwYAIZYEQADJBgAhlwRAAMkGACGdBAAAyAYAIJ8EAADmBrEEIqYEAQDPBgAhqwQAAMgGACAHDQAAwwYAIDwAAOgGACA9AADoBgAgiAQAAACxBAKJBAAA5waxBCKKBAAAALEECIsEAAAAsQQIBw0AAMMGACA8AADoBgAgPQAA6AYAIIgEAAAAsQQCiQQAAOcGsQQiigQAAACxBAiLBAAAALEECASIBAAAALEEAokEAADoBrEEIooEAAAAsQQIiwQAAACxBAgHggQAAOkGADCDBAAA7wQAEIQEAADpBgAwhQQBAMAGACGWBEAAyQYAIZcEQADJBgAhnQQAAMgGACAMDgAAyAYAIIIEAADqBgAwgwQAANkEABCEBAAA6gYAMIUEAQDABgAhkwQBAM8GACGUBAEAzwYAIZYEQADJBgAhlwRAAMkGACGdBAAAyAYAIKYEAQDPBgAhsQQBAM8GACELDgAAyAYAIIIEAADrBgAwgwQAAL8EABCEBAAA6wYAMIUEAQDABgAhkwQBAM8GACGUBAEAzwYAIZYEQADJBgAhlwRAAMkGACGdBAAAyAYAIKYEAQDPBgAhCA4BAMAGACGCBAAA7AYAMIMEAAClBAAQhAQAAOwGADCFBAEAwAYAIYcEIADBBgAhkwQBAM8GACGyBAEAwAYAIQyCBAAA7QYAMIMEAACNBAAQhAQAAO0GADCTBAEAwAYAIZ8EAADuBrQEIq4EQADiBgAhrwRAAOIGACGyBAEAwAYAIbQEAgDvBgAhtQQCAO8GACG2BAAAyAYAILcEAADIBgAgBw0AAMMGACA8AADzBgAgPQAA8wYAIIgEAAAAtAQCiQQAAPIGtAQiigQAAAC0BAiLBAAAALQECA0NAADRBgAgPAAA0QYAID0AANEGACBOAADxBgAgTwAA0QYAIIgEAgAAAAGJBAIA8AYAIYoEAgAAAAWLBAIAAAAFjAQCAAAAAY0EAgAAAAGOBAIAAAABjwQCAAAAAQ0NAADRBgAgPAAA0QYAID0AANEGACBOAADxBgAgTwAA0QYAIIgEAgAAAAGJBAIA8AYAIYoEAgAAAAWLBAIAAAAFjAQCAAAAAY0EAgAAAAGOBAIAAAABjwQCAAAAAQiIBAgAAAABiQQIAPEGACGKBAgAAAAFiwQIAAAABYwECAAAAAGNBAgAAAABjgQIAAAAAY8ECAAAAAEHDQAAwwYAIDwAAPMGACA9AADzBgAgiAQAAAC0BAKJBAAA8ga0BCKKBAAAALQECIsEAAAAtAQIBIgEAAAAtAQCiQQAAPMGtAQiigQAAAC0BAiLBAAAALQECA2CBAAA9AYAMIMEAAD3AwAQhAQAAPQGADCFBAEAwAYAIZcEQADJBgAhnQQAAMgGACCfBAAA9ga6BCKoBAAA9Qa5BCKuBEAAyQYAIa8EQADiBgAhugQAAMgGACC7BAAAyAYAILwEAAD3BgAgBw0AAMMGACA8AAD8BgAgPQAA_AYAIIgEAAAAuQQCiQQAAPsGuQQiigQAAAC5BAiLBAAAALkECAcNAADDBgAgPAAA-gYAID0AAPoGACCIBAAAALoEAokEAAD5BroEIooEAAAAugQIiwQAAAC6BAgKDQAA0QYAIDwAAPgGACA9AAD4BgAgiASAAAAAAYkEgAAAAAGYBAEAAAABmQQBAAAAAZoEAQAAAAGbBIAAAAABnASAAAAAAQeIBIAAAAABiQSAAAAAAZgEAQAAAAGZBAEAAAABmgQBAAAAAZsEgAAAAAGcBIAAAAABBw0AAMMGACA8AAD6BgAgPQAA-gYAIIgEAAAAugQCiQQAAPkGugQiigQAAAC6BAiLBAAAALoECASIBAAAALoEAokEAAD6BroEIooEAAAAugQIiwQAAAC6BAgHDQAAwwYAIDwAAPwGACA9AAD8BgAgiAQAAAC5BAKJBAAA-wa5BCKKBAAAALkECIsEAAAAuQQIBIgEAAAAuQQCiQQAAPwGuQQiigQAAAC5BAiLBAAAALkECBAJAACCBwAgCwAAgwcAIBUAAIQHACCCBAAA_QYAMIMEAADkAwAQhAQAAP0GADCFBAEA2wYAIZcEQADeBgAhnQQAANwGACCfBAAA_wa6BCKoBAAA_ga5BCKuBEAA3gYAIa8EQACBBwAhugQAANwGACC7BAAA3AYAILwEAACABwAgBIgEAAAAuQQCiQQAAPwGuQQiigQAAAC5BAiLBAAAALkECASIBAAAALoEAokEAAD6BroEIooEAAAAugQIiwQAAAC6BAgHiASAAAAAAYkEgAAAAAGYBAEAAAABmQQBAAAAAZoEAQAAAAGbBIAAAAABnASAAAAAAQiIBEAAAAABiQRAAOQGACGKBEAAAAAFiwRAAAAABYwEQAAAAAGNBEAAAAABjgRAAAAAAY8EQAAAAAEDvQQAABkAIL4EAAAZACC_BAAAGQAgA70EAAAeACC-BAAAHgAgvwQAAB4AIAO9BAAAIwAgvgQAACMAIL8EAAAjACAHggQAAIUHADCDBAAA3gMAEIQEAACFBwAwhQQBAMAGACGWBEAAyQYAIZcEQADJBgAhtgQAAMgGACAHggQAAIYHADCDBAAAywMAEIQEAACGBwAwhQQBANsGACGWBEAA3gYAIZcEQADeBgAhtgQAANwGACAHggQAAIcHADCDBAAAxQMAEIQEAACHBwAwhQQBAMAGACGWBEAAyQYAIZcEQADJBgAhtgQAAMgGACAHggQAAIgHADCDBAAAsgMAEIQEAACIBwAwhQQBANsGACGWBEAA3gYAIZcEQADeBgAhtgQAANwGACAHggQAAIkHADCDBAAArAMAEIQEAACJBwAwkwQBAMAGACGdBAAAyAYAIMAEAQDABgAhwQRAAMkGACEIBwAAiwcAIIIEAACKBwAwgwQAAF8AEIQEAACKBwAwkwQBANsGACGdBAAA3AYAIMAEAQDbBgAhwQRAAN4GACElBQAAwwcAIAYAAOIHACAIAADjBwAgCQAAggcAIBQAAMUHACAVAACEBwAgFwAA5AcAIBsAAOUHACAcAADmBwAgHQAA5wcAIB4AAOgHACAfAADpBwAgIQAAswcAICIAAIMHACAjAADqBwAgggQAAN8HADCDBAAAEQAQhAQAAN8HADCFBAEA2wYAIZ8EAADgB8YEIrQEAgDeBwAhtgQAAIAHACC3BAAAgAcAIMQEAQDbBgAhxwQAAOEHxwQiyAQBANsGACHJBAEAnAcAIcoEAgDeBwAhywQCAN4HACHMBAIA3gcAIc0EAgDeBwAhzgQCAN4HACHPBAAAgAcAINAEAACABwAg0QQgAK0HACHnBAAAEQAg6AQAABEAIAaCBAAAjAcAMIMEAACUAwAQhAQAAIwHADCTBAEAwAYAIcIEAQDABgAhwwQAAMgGACAFggQAAI0HADCDBAAA_gIAEIQEAACNBwAwwgQBAMAGACHDBAAAyAYAIAWCBAAAjgcAMIMEAADrAgAQhAQAAI4HADDCBAEA2wYAIcMEAADcBgAgFIIEAACPBwAwgwQAAOUCABCEBAAAjwcAMIUEAQDABgAhnwQAAJAHxgQitAQCAO8GACG2BAAA9wYAILcEAAD3BgAgxAQBAMAGACHHBAAAkQfHBCLIBAEAwAYAIckEAQDPBgAhygQCAO8GACHLBAIA7wYAIcwEAgDvBgAhzQQCAO8GACHOBAIA7wYAIc8EAAD3BgAg0AQAAPcGACDRBCAAwQYAIQcNAADDBgAgPAAAlQcAID0AAJUHACCIBAAAAMYEAokEAACUB8YEIooEAAAAxgQIiwQAAADGBAgHDQAAwwYAIDwAAJMHACA9AACTBwAgiAQAAADHBAKJBAAAkgfHBCKKBAAAAMcECIsEAAAAxwQIBw0AAMMGACA8AACTBwAgPQAAkwcAIIgEAAAAxwQCiQQAAJIHxwQiigQAAADHBAiLBAAAAMcECASIBAAAAMcEAokEAACTB8cEIooEAAAAxwQIiwQAAADHBAgHDQAAwwYAIDwAAJUHACA9AACVBwAgiAQAAADGBAKJBAAAlAfGBCKKBAAAAMYECIsEAAAAxgQIBIgEAAAAxgQCiQQAAJUHxgQiigQAAADGBAiLBAAAAMYECAiCBAAAlgcAMIMEAADNAgAQhAQAAJYHADCTBAEAwAYAIZ8EAACXB9MEIrYEAAD3BgAg0wQBAM8GACHUBEAAyQYAIQcNAADDBgAgPAAAmQcAID0AAJkHACCIBAAAANMEAokEAACYB9MEIooEAAAA0wQIiwQAAADTBAgHDQAAwwYAIDwAAJkHACA9AACZBwAgiAQAAADTBAKJBAAAmAfTBCKKBAAAANMECIsEAAAA0wQIBIgEAAAA0wQCiQQAAJkH0wQiigQAAADTBAiLBAAAANMECAkHAACLBwAgggQAAJoHADCDBAAAFwAQhAQAAJoHADCTBAEA2wYAIZ8EAACbB9MEIrYEAACABwAg0wQBAJwHACHUBEAA3gYAIQSIBAAAANMEAokEAACZB9MEIooEAAAA0wQIiwQAAADTBAgLiAQBAAAAAYkEAQDSBgAhigQBAAAABYsEAQAAAAWMBAEAAAABjQQBAAAAAY4EAQAAAAGPBAEAAAABkAQBAAAAAZEEAQAAAAGSBAEAAAABBg4AAMgGACCCBAAAnQcAMIMEAAC1AgAQhAQAAJ0HADCdBAAA9wYAINUEAQDABgAhBwwAAIQHACAOAADcBgAgggQAAJ4HADCDBAAAogIAEIQEAACeBwAwnQQAAIAHACDVBAEA2wYAIQeCBAAAnwcAMIMEAACcAgAQhAQAAJ8HADDIBAAAoAfZBCLWBAEAwAYAIdcEAQDABgAh2QQBAMAGACEHDQAAwwYAIDwAAKIHACA9AACiBwAgiAQAAADZBAKJBAAAoQfZBCKKBAAAANkECIsEAAAA2QQIBw0AAMMGACA8AACiBwAgPQAAogcAIIgEAAAA2QQCiQQAAKEH2QQiigQAAADZBAiLBAAAANkECASIBAAAANkEAokEAACiB9kEIooEAAAA2QQIiwQAAADZBAgLggQAAKMHADCDBAAAhgIAEIQEAACjBwAwhQQBAMAGACGTBAEAwAYAIZYEQADJBgAhsgQBAMAGACHaBAEAwAYAIdsEAQDABgAh3AQAAMgGACDdBAAAyAYAIAaCBAAApAcAMIMEAADwAQAQhAQAAKQHADCFBAEAwAYAIaUEAQDABgAhqAQBAMAGACEHDAAAhAcAIIIEAAClBwAwgwQAAN0BABCEBAAApQcAMIUEAQDbBgAhpQQBANsGACGoBAEA2wYAIQyCBAAApgcAMIMEAADXAQAQhAQAAKYHADCTBAEAwAYAIZQEAQDABgAhlgRAAMkGACGXBEAAyQYAIZ0EAADIBgAgpgQBAMAGACHTBAEAzwYAId4EAQDABgAh3wQCAKcHACENDQAAwwYAIDwAAMMGACA9AADDBgAgTgAAqQcAIE8AAMMGACCIBAIAAAABiQQCAKgHACGKBAIAAAAEiwQCAAAABIwEAgAAAAGNBAIAAAABjgQCAAAAAY8EAgAAAAENDQAAwwYAIDwAAMMGACA9AADDBgAgTgAAqQcAIE8AAMMGACCIBAIAAAABiQQCAKgHACGKBAIAAAAEiwQCAAAABIwEAgAAAAGNBAIAAAABjgQCAAAAAY8EAgAAAAEIiAQIAAAAAYkECACpBwAhigQIAAAABIsECAAAAASMBAgAAAABjQQIAAAAAY4ECAAAAAGPBAgAAAABCoIEAACqBwAwgwQAAMEBABCEBAAAqgcAMIUEAQDABgAhlgRAAMkGACGXBEAAyQYAIZ0EAADIBgAg1QQBAMAGACHgBAIApwcAIeEEAgCnBwAhCYIEAACrBwAwgwQAAKsBABCEBAAAqwcAMIUEAQDABgAhlgRAAMkGACGXBEAAyQYAIZ0EAADIBgAgpgQBAMAGACHABAEAwAYAIQgOAQDbBgAhIAAArgcAIIIEAACsBwAwgwQAAJMBABCEBAAArAcAMIUEAQDbBgAhhgQBANsGACGHBCAArQcAIQKIBCAAAAABiQQgAMQGACETCwAAtAcAICcAALEHACAoAACyBwAgKQAAswcAIIIEAACvBwAwgwQAAAMAEIQEAACvBwAwhQQBANsGACGWBEAA3gYAIZcEQADeBgAhnQQAANwGACCfBAAAsAefBCKgBCAArQcAIaEEAQCcBwAhogQBANsGACGjBAEA2wYAIaQEAQDbBgAh5wQAAAMAIOgEAAADACARCwAAtAcAICcAALEHACAoAACyBwAgKQAAswcAIIIEAACvBwAwgwQAAAMAEIQEAACvBwAwhQQBANsGACGWBEAA3gYAIZcEQADeBgAhnQQAANwGACCfBAAAsAefBCKgBCAArQcAIaEEAQCcBwAhogQBANsGACGjBAEA2wYAIaQEAQDbBgAhBIgEAAAAnwQCiQQAANQGnwQiigQAAACfBAiLBAAAAJ8ECAsWAAC3BwAgJgAA8QcAIIIEAADwBwAwgwQAAAUAEIQEAADwBwAwhQQBANsGACGWBEAA3gYAIaUEAQDbBgAhpgQBANsGACHnBAAABQAg6AQAAAUAIA0WAAC3BwAgJwAAtgcAIIIEAAC1BwAwgwQAAIQBABCEBAAAtQcAMIUEAQDbBgAhlgRAAN4GACGXBEAA3gYAIZ0EAADcBgAgpgQBANsGACHABAEA2wYAIecEAACEAQAg6AQAAIQBACADvQQAAGEAIL4EAABhACC_BAAAYQAgA70EAACTAQAgvgQAAJMBACC_BAAAkwEAIAsWAAC3BwAgJwAAtgcAIIIEAAC1BwAwgwQAAIQBABCEBAAAtQcAMIUEAQDbBgAhlgRAAN4GACGXBEAA3gYAIZ0EAADcBgAgpgQBANsGACHABAEA2wYAIRMLAAC0BwAgJwAAsQcAICgAALIHACApAACzBwAgggQAAK8HADCDBAAAAwAQhAQAAK8HADCFBAEA2wYAIZYEQADeBgAhlwRAAN4GACGdBAAA3AYAIJ8EAACwB58EIqAEIACtBwAhoQQBAJwHACGiBAEA2wYAIaMEAQDbBgAhpAQBANsGACHnBAAAAwAg6AQAAAMAIBADAADsBwAgFAAAxQcAIBcAAOQHACAbAADlBwAgHAAA5gcAIB4AAOgHACAlAADtBwAgggQAAOsHADCDBAAADQAQhAQAAOsHADCFBAEA2wYAIZYEQADeBgAhlwRAAN4GACGdBAAA3AYAIOcEAAANACDoBAAADQAgApMEAQAAAAHCBAEAAAABBwcAAIsHACCCBAAAuQcAMIMEAABnABCEBAAAuQcAMJMEAQDbBgAhwgQBANsGACHDBAAA3AYAIAKTBAEAAAABlAQBAAAAAQsHAACLBwAgIAAArgcAIIIEAAC7BwAwgwQAAGEAEIQEAAC7BwAwhgQBANsGACGTBAEA2wYAIZQEAQDbBgAhlQQAANwGACCWBEAA3gYAIZcEQADeBgAhA5MEAQAAAAGUBAEAAAABpgQBAAAAAQ4HAACLBwAgFgAAtwcAIIIEAAC9BwAwgwQAAFsAEIQEAAC9BwAwkwQBANsGACGUBAEA2wYAIZYEQADeBgAhlwRAAN4GACGdBAAA3AYAIKYEAQDbBgAh0wQBAJwHACHeBAEA2wYAId8EAgC-BwAhCIgEAgAAAAGJBAIAwwYAIYoEAgAAAASLBAIAAAAEjAQCAAAAAY0EAgAAAAGOBAIAAAABjwQCAAAAAQKTBAEAAAABlAQBAAAAAQsHAACLBwAgggQAAMAHADCDBAAAVwAQhAQAAMAHADCFBAEA2wYAIZMEAQDbBgAhlAQBANsGACGWBEAA3gYAIZcEQADeBgAhnQQAANwGACCrBAAA3AYAIAKTBAEAAAABlAQBAAAAAQ4HAADDBwAgDgAA3AYAIBQAAMUHACAWAADEBwAgggQAAMIHADCDBAAATwAQhAQAAMIHADCFBAEA2wYAIZMEAQCcBwAhlAQBAJwHACGWBEAA3gYAIZcEQADeBgAhnQQAANwGACCmBAEAnAcAISUFAADDBwAgBgAA4gcAIAgAAOMHACAJAACCBwAgFAAAxQcAIBUAAIQHACAXAADkBwAgGwAA5QcAIBwAAOYHACAdAADnBwAgHgAA6AcAIB8AAOkHACAhAACzBwAgIgAAgwcAICMAAOoHACCCBAAA3wcAMIMEAAARABCEBAAA3wcAMIUEAQDbBgAhnwQAAOAHxgQitAQCAN4HACG2BAAAgAcAILcEAACABwAgxAQBANsGACHHBAAA4QfHBCLIBAEA2wYAIckEAQCcBwAhygQCAN4HACHLBAIA3gcAIcwEAgDeBwAhzQQCAN4HACHOBAIA3gcAIc8EAACABwAg0AQAAIAHACDRBCAArQcAIecEAAARACDoBAAAEQAgEAMAAOwHACAUAADFBwAgFwAA5AcAIBsAAOUHACAcAADmBwAgHgAA6AcAICUAAO0HACCCBAAA6wcAMIMEAAANABCEBAAA6wcAMIUEAQDbBgAhlgRAAN4GACGXBEAA3gYAIZ0EAADcBgAg5wQAAA0AIOgEAAANACADvQQAAAkAIL4EAAAJACC_BAAACQAgBw4BANsGACEZAADHBwAgggQAAMYHADCDBAAARwAQhAQAAMYHADCFBAEA2wYAIawEAQDbBgAhCwsAAMoHACAYAADJBwAgggQAAMgHADCDBAAAQwAQhAQAAMgHADCFBAEA2wYAIa0EAQDbBgAhrgRAAN4GACGvBEAAgQcAIecEAABDACDoBAAAQwAgCQsAAMoHACAYAADJBwAgggQAAMgHADCDBAAAQwAQhAQAAMgHADCFBAEA2wYAIa0EAQDbBgAhrgRAAN4GACGvBEAAgQcAIRIHAADDBwAgFAAAxQcAIBYAAMQHACAaAADOBwAgggQAAMwHADCDBAAAPQAQhAQAAMwHADCFBAEA2wYAIZMEAQCcBwAhlAQBAJwHACGWBEAA3gYAIZcEQADeBgAhnQQAANwGACCfBAAAzQexBCKmBAEAnAcAIasEAADcBgAg5wQAAD0AIOgEAAA9ACADvQQAAEcAIL4EAABHACC_BAAARwAgApMEAQAAAAGUBAEAAAABEAcAAMMHACAUAADFBwAgFgAAxAcAIBoAAM4HACCCBAAAzAcAMIMEAAA9ABCEBAAAzAcAMIUEAQDbBgAhkwQBAJwHACGUBAEAnAcAIZYEQADeBgAhlwRAAN4GACGdBAAA3AYAIJ8EAADNB7EEIqYEAQCcBwAhqwQAANwGACAEiAQAAACxBAKJBAAA6AaxBCKKBAAAALEECIsEAAAAsQQIA70EAABDACC-BAAAQwAgvwQAAEMAIAKTBAEAAAABlAQBAAAAAQ4HAADDBwAgDgAA3AYAIBYAAMQHACCCBAAA0AcAMIMEAAA3ABCEBAAA0AcAMIUEAQDbBgAhkwQBAJwHACGUBAEAnAcAIZYEQADeBgAhlwRAAN4GACGdBAAA3AYAIKYEAQCcBwAhsQQBAJwHACEEyAQAAADZBALWBAEAAAAB1wQBAAAAAdkEAQAAAAEJEAAA1AcAIBEAANQHACCCBAAA0gcAMIMEAAArABCEBAAA0gcAMMgEAADTB9kEItYEAQDbBgAh1wQBANsGACHZBAEA2wYAIQSIBAAAANkEAokEAACiB9kEIooEAAAA2QQIiwQAAADZBAgUBwAAiwcAIAoAANgHACAOAADWBwAgDwAA1wcAIBIAANkHACATAADZBwAgFAAAxQcAIIIEAADVBwAwgwQAACMAEIQEAADVBwAwhQQBANsGACGTBAEA2wYAIZYEQADeBgAhsgQBANsGACHaBAEA2wYAIdsEAQDbBgAh3AQAANwGACDdBAAA3AYAIOcEAAAjACDoBAAAIwAgEgcAAIsHACAKAADYBwAgDgAA1gcAIA8AANcHACASAADZBwAgEwAA2QcAIBQAAMUHACCCBAAA1QcAMIMEAAAjABCEBAAA1QcAMIUEAQDbBgAhkwQBANsGACGWBEAA3gYAIbIEAQDbBgAh2gQBANsGACHbBAEA2wYAIdwEAADcBgAg3QQAANwGACAJDAAAhAcAIA4AANwGACCCBAAAngcAMIMEAACiAgAQhAQAAJ4HADCdBAAAgAcAINUEAQDbBgAh5wQAAKICACDoBAAAogIAIAkMAACEBwAgggQAAKUHADCDBAAA3QEAEIQEAAClBwAwhQQBANsGACGlBAEA2wYAIagEAQDbBgAh5wQAAN0BACDoBAAA3QEAIBIJAACCBwAgCwAAgwcAIBUAAIQHACCCBAAA_QYAMIMEAADkAwAQhAQAAP0GADCFBAEA2wYAIZcEQADeBgAhnQQAANwGACCfBAAA_wa6BCKoBAAA_ga5BCKuBEAA3gYAIa8EQACBBwAhugQAANwGACC7BAAA3AYAILwEAACABwAg5wQAAOQDACDoBAAA5AMAIAO9BAAAKwAgvgQAACsAIL8EAAArACAKBwAAwwcAIAoAANgHACAOAQDbBgAhggQAANoHADCDBAAAHgAQhAQAANoHADCFBAEA2wYAIYcEIACtBwAhkwQBAJwHACGyBAEA2wYAIQKTBAEAAAABsgQBAAAAAQ4HAACLBwAgCgAA2AcAIIIEAADcBwAwgwQAABkAEIQEAADcBwAwkwQBANsGACGfBAAA3Qe0BCKuBEAAgQcAIa8EQACBBwAhsgQBANsGACG0BAIA3gcAIbUEAgDeBwAhtgQAANwGACC3BAAA3AYAIASIBAAAALQEAokEAADzBrQEIooEAAAAtAQIiwQAAAC0BAgIiAQCAAAAAYkEAgDRBgAhigQCAAAABYsEAgAAAAWMBAIAAAABjQQCAAAAAY4EAgAAAAGPBAIAAAABIwUAAMMHACAGAADiBwAgCAAA4wcAIAkAAIIHACAUAADFBwAgFQAAhAcAIBcAAOQHACAbAADlBwAgHAAA5gcAIB0AAOcHACAeAADoBwAgHwAA6QcAICEAALMHACAiAACDBwAgIwAA6gcAIIIEAADfBwAwgwQAABEAEIQEAADfBwAwhQQBANsGACGfBAAA4AfGBCK0BAIA3gcAIbYEAACABwAgtwQAAIAHACDEBAEA2wYAIccEAADhB8cEIsgEAQDbBgAhyQQBAJwHACHKBAIA3gcAIcsEAgDeBwAhzAQCAN4HACHNBAIA3gcAIc4EAgDeBwAhzwQAAIAHACDQBAAAgAcAINEEIACtBwAhBIgEAAAAxgQCiQQAAJUHxgQiigQAAADGBAiLBAAAAMYECASIBAAAAMcEAokEAACTB8cEIooEAAAAxwQIiwQAAADHBAgDvQQAABEAIL4EAAARACC_BAAAEQAgCwcAAIsHACCCBAAAmgcAMIMEAAAXABCEBAAAmgcAMJMEAQDbBgAhnwQAAJsH0wQitgQAAIAHACDTBAEAnAcAIdQEQADeBgAh5wQAABcAIOgEAAAXACADvQQAADcAIL4EAAA3ACC_BAAANwAgA70EAAA9ACC-BAAAPQAgvwQAAD0AIAO9BAAATwAgvgQAAE8AIL8EAABPACADvQQAAFcAIL4EAABXACC_BAAAVwAgA70EAABbACC-BAAAWwAgvwQAAFsAIAoHAACLBwAgggQAAIoHADCDBAAAXwAQhAQAAIoHADCTBAEA2wYAIZ0EAADcBgAgwAQBANsGACHBBEAA3gYAIecEAABfACDoBAAAXwAgA70EAABnACC-BAAAZwAgvwQAAGcAIA4DAADsBwAgFAAAxQcAIBcAAOQHACAbAADlBwAgHAAA5gcAIB4AAOgHACAlAADtBwAgggQAAOsHADCDBAAADQAQhAQAAOsHADCFBAEA2wYAIZYEQADeBgAhlwRAAN4GACGdBAAA3AYAIAO9BAAABQAgvgQAAAUAIL8EAAAFACADvQQAAIQBACC-BAAAhAEAIL8EAACEAQAgDwQAAO8HACAVAACEBwAgGwAA5QcAIBwAAOYHACAkAADiBwAgggQAAO4HADCDBAAACQAQhAQAAO4HADCFBAEA2wYAIZYEQADeBgAhlwRAAN4GACGdBAAA3AYAINUEAQDbBgAh4AQCAL4HACHhBAIAvgcAIQO9BAAADQAgvgQAAA0AIL8EAAANACAJFgAAtwcAICYAAPEHACCCBAAA8AcAMIMEAAAFABCEBAAA8AcAMIUEAQDbBgAhlgRAAN4GACGlBAEA2wYAIaYEAQDbBgAhA70EAAADACC-BAAAAwAgvwQAAAMAIAAAAAHsBAEAAAABAewEIAAAAAEFNgAA8A4AIDcAAPMOACDpBAAA8Q4AIOoEAADyDgAg7wQAAI8BACADNgAA8A4AIOkEAADxDgAg7wQAAI8BACAAAAAB7ARAAAAAAQU2AADoDgAgNwAA7g4AIOkEAADpDgAg6gQAAO0OACDvBAAAEwAgBTYAAOYOACA3AADrDgAg6QQAAOcOACDqBAAA6g4AIO8EAACPAQAgAzYAAOgOACDpBAAA6Q4AIO8EAAATACADNgAA5g4AIOkEAADnDgAg7wQAAI8BACAAAAAAAewEAAAAnwQCAewEAQAAAAEFNgAA3A4AIDcAAOQOACDpBAAA3Q4AIOoEAADjDgAg7wQAAAcAIAU2AADaDgAgNwAA4Q4AIOkEAADbDgAg6gQAAOAOACDvBAAAAQAgCzYAAJcIADA3AACcCAAw6QQAAJgIADDqBAAAmQgAMOsEAACaCAAg7AQAAJsIADDtBAAAmwgAMO4EAACbCAAw7wQAAJsIADDwBAAAnQgAMPEEAACeCAAwCzYAAIsIADA3AACQCAAw6QQAAIwIADDqBAAAjQgAMOsEAACOCAAg7AQAAI8IADDtBAAAjwgAMO4EAACPCAAw7wQAAI8IADDwBAAAkQgAMPEEAACSCAAwAw4BAAAAAYUEAQAAAAGHBCAAAAABAgAAAJUBACA2AACWCAAgAwAAAJUBACA2AACWCAAgNwAAlQgAIAEvAADfDgAwCA4BANsGACEgAACuBwAgggQAAKwHADCDBAAAkwEAEIQEAACsBwAwhQQBAAAAAYYEAQDbBgAhhwQgAK0HACECAAAAlQEAIC8AAJUIACACAAAAkwgAIC8AAJQIACAHDgEA2wYAIYIEAACSCAAwgwQAAJMIABCEBAAAkggAMIUEAQDbBgAhhgQBANsGACGHBCAArQcAIQcOAQDbBgAhggQAAJIIADCDBAAAkwgAEIQEAACSCAAwhQQBANsGACGGBAEA2wYAIYcEIACtBwAhAw4BAPUHACGFBAEA9QcAIYcEIAD2BwAhAw4BAPUHACGFBAEA9QcAIYcEIAD2BwAhAw4BAAAAAYUEAQAAAAGHBCAAAAABBgcAAP8HACCTBAEAAAABlAQBAAAAAZUEgAAAAAGWBEAAAAABlwRAAAAAAQIAAABjACA2AACiCAAgAwAAAGMAIDYAAKIIACA3AAChCAAgAS8AAN4OADAMBwAAiwcAICAAAK4HACCCBAAAuwcAMIMEAABhABCEBAAAuwcAMIYEAQDbBgAhkwQBANsGACGUBAEA2wYAIZUEAADcBgAglgRAAN4GACGXBEAA3gYAIeMEAAC6BwAgAgAAAGMAIC8AAKEIACACAAAAnwgAIC8AAKAIACAJggQAAJ4IADCDBAAAnwgAEIQEAACeCAAwhgQBANsGACGTBAEA2wYAIZQEAQDbBgAhlQQAANwGACCWBEAA3gYAIZcEQADeBgAhCYIEAACeCAAwgwQAAJ8IABCEBAAAnggAMIYEAQDbBgAhkwQBANsGACGUBAEA2wYAIZUEAADcBgAglgRAAN4GACGXBEAA3gYAIQWTBAEA9QcAIZQEAQD1BwAhlQSAAAAAAZYEQAD8BwAhlwRAAPwHACEGBwAA_QcAIJMEAQD1BwAhlAQBAPUHACGVBIAAAAABlgRAAPwHACGXBEAA_AcAIQYHAAD_BwAgkwQBAAAAAZQEAQAAAAGVBIAAAAABlgRAAAAAAZcEQAAAAAEDNgAA3A4AIOkEAADdDgAg7wQAAAcAIAM2AADaDgAg6QQAANsOACDvBAAAAQAgBDYAAJcIADDpBAAAmAgAMOsEAACaCAAg7wQAAJsIADAENgAAiwgAMOkEAACMCAAw6wQAAI4IACDvBAAAjwgAMAAAAAU2AADUDgAgNwAA2A4AIOkEAADVDgAg6gQAANcOACDvBAAADwAgCzYAAKwIADA3AACxCAAw6QQAAK0IADDqBAAArggAMOsEAACvCAAg7AQAALAIADDtBAAAsAgAMO4EAACwCAAw7wQAALAIADDwBAAAsggAMPEEAACzCAAwDAsAAKYIACAoAACkCAAgKQAApQgAIIUEAQAAAAGWBEAAAAABlwRAAAAAAZ0EgAAAAAGfBAAAAJ8EAqAEIAAAAAGhBAEAAAABowQBAAAAAaQEAQAAAAECAAAAjwEAIDYAALcIACADAAAAjwEAIDYAALcIACA3AAC2CAAgAS8AANYOADARCwAAtAcAICcAALEHACAoAACyBwAgKQAAswcAIIIEAACvBwAwgwQAAAMAEIQEAACvBwAwhQQBAAAAAZYEQADeBgAhlwRAAN4GACGdBAAA3AYAIJ8EAACwB58EIqAEIACtBwAhoQQBAJwHACGiBAEA2wYAIaMEAQAAAAGkBAEAAAABAgAAAI8BACAvAAC2CAAgAgAAALQIACAvAAC1CAAgDYIEAACzCAAwgwQAALQIABCEBAAAswgAMIUEAQDbBgAhlgRAAN4GACGXBEAA3gYAIZ0EAADcBgAgnwQAALAHnwQioAQgAK0HACGhBAEAnAcAIaIEAQDbBgAhowQBANsGACGkBAEA2wYAIQ2CBAAAswgAMIMEAAC0CAAQhAQAALMIADCFBAEA2wYAIZYEQADeBgAhlwRAAN4GACGdBAAA3AYAIJ8EAACwB58EIqAEIACtBwAhoQQBAJwHACGiBAEA2wYAIaMEAQDbBgAhpAQBANsGACEJhQQBAPUHACGWBEAA_AcAIZcEQAD8BwAhnQSAAAAAAZ8EAACFCJ8EIqAEIAD2BwAhoQQBAIYIACGjBAEA9QcAIaQEAQD1BwAhDAsAAIoIACAoAACICAAgKQAAiQgAIIUEAQD1BwAhlgRAAPwHACGXBEAA_AcAIZ0EgAAAAAGfBAAAhQifBCKgBCAA9gcAIaEEAQCGCAAhowQBAPUHACGkBAEA9QcAIQwLAACmCAAgKAAApAgAICkAAKUIACCFBAEAAAABlgRAAAAAAZcEQAAAAAGdBIAAAAABnwQAAACfBAKgBCAAAAABoQQBAAAAAaMEAQAAAAGkBAEAAAABAzYAANQOACDpBAAA1Q4AIO8EAAAPACAENgAArAgAMOkEAACtCAAw6wQAAK8IACDvBAAAsAgAMAAAAAHsBAAAAKgEAgAAAAU2AADPDgAgNwAA0g4AIOkEAADQDgAg6gQAANEOACDvBAAAEwAgAzYAAM8OACDpBAAA0A4AIO8EAAATACAAAAAFNgAAyg4AIDcAAM0OACDpBAAAyw4AIOoEAADMDgAg7wQAAEUAIAM2AADKDgAg6QQAAMsOACDvBAAARQAgAAAAAewEQAAAAAEFNgAAxA4AIDcAAMgOACDpBAAAxQ4AIOoEAADHDgAg7wQAAD8AIAs2AADOCAAwNwAA0wgAMOkEAADPCAAw6gQAANAIADDrBAAA0QgAIOwEAADSCAAw7QQAANIIADDuBAAA0ggAMO8EAADSCAAw8AQAANQIADDxBAAA1QgAMAIOAQAAAAGFBAEAAAABAgAAAEkAIDYAANkIACADAAAASQAgNgAA2QgAIDcAANgIACABLwAAxg4AMAcOAQDbBgAhGQAAxwcAIIIEAADGBwAwgwQAAEcAEIQEAADGBwAwhQQBAAAAAawEAQDbBgAhAgAAAEkAIC8AANgIACACAAAA1ggAIC8AANcIACAGDgEA2wYAIYIEAADVCAAwgwQAANYIABCEBAAA1QgAMIUEAQDbBgAhrAQBANsGACEGDgEA2wYAIYIEAADVCAAwgwQAANYIABCEBAAA1QgAMIUEAQDbBgAhrAQBANsGACECDgEA9QcAIYUEAQD1BwAhAg4BAPUHACGFBAEA9QcAIQIOAQAAAAGFBAEAAAABAzYAAMQOACDpBAAAxQ4AIO8EAAA_ACAENgAAzggAMOkEAADPCAAw6wQAANEIACDvBAAA0ggAMAAAAAHsBAAAALEEAgc2AACODgAgNwAAwg4AIOkEAACPDgAg6gQAAMEOACDtBAAAEQAg7gQAABEAIO8EAAATACAHNgAAjA4AIDcAAL8OACDpBAAAjQ4AIOoEAAC-DgAg7QQAAA0AIO4EAAANACDvBAAADwAgCzYAAO0JADA3AAD-CwAw6QQAAO4JADDqBAAA_QsAMOsEAADvCQAg7AQAAPAJADDtBAAA8AkAMO4EAADwCQAw7wQAAPAJADDwBAAA_wsAMPEEAACADAAwCjYAAOQIADA3AADoCAAw6QQAAOUIADDqBAAA5ggAMOwEAADnCAAw7QQAAOcIADDuBAAA5wgAMO8EAADnCAAw8AQAAOkIADDxBAAA6ggAMAsEAADzCQAgFQAAlwoAIBwAAPYJACAkAAD0CQAghQQBAAAAAZYEQAAAAAGXBEAAAAABnQSAAAAAAdUEAQAAAAHgBAIAAAAB4QQCAAAAAQIAAAALACA2AAD8CwAgAwAAAAsAIDYAAPwLACA3AADuCAAgDwQAAO8HACAVAACEBwAgGwAA5QcAIBwAAOYHACAkAADiBwAgggQAAO4HADCDBAAACQAQhAQAAO4HADCFBAEAAAABlgRAAN4GACGXBEAA3gYAIZ0EAADcBgAg1QQBAAAAAeAEAgC-BwAh4QQCAL4HACECAAAACwAgLwAA7ggAIAIAAADrCAAgLwAA7AgAIAqCBAAA6ggAMIMEAADrCAAQhAQAAOoIADCFBAEA2wYAIZYEQADeBgAhlwRAAN4GACGdBAAA3AYAINUEAQDbBgAh4AQCAL4HACHhBAIAvgcAIQqCBAAA6ggAMIMEAADrCAAQhAQAAOoIADCFBAEA2wYAIZYEQADeBgAhlwRAAN4GACGdBAAA3AYAINUEAQDbBgAh4AQCAL4HACHhBAIAvgcAIQeFBAEA9QcAIZYEQAD8BwAhlwRAAPwHACGdBIAAAAAB1QQBAPUHACHgBAIA7QgAIeEEAgDtCAAhBewEAgAAAAHyBAIAAAAB8wQCAAAAAfQEAgAAAAH1BAIAAAABCwQAAO8IACAVAADyCAAgHAAA8QgAICQAAPAIACCFBAEA9QcAIZYEQAD8BwAhlwRAAPwHACGdBIAAAAAB1QQBAPUHACHgBAIA7QgAIeEEAgDtCAAhCjYAAPcJADA3AADICwAw6QQAAPgJADDqBAAAxwsAMOwEAAD5CQAw7QQAAPkJADDuBAAA-QkAMO8EAAD5CQAw8AQAAMkLADDxBAAAygsAMAo2AACzCQAwNwAAtwkAMOkEAAC0CQAw6gQAALUJADDsBAAAtgkAMO0EAAC2CQAw7gQAALYJADDvBAAAtgkAMPAEAAC4CQAw8QQAALkJADAKNgAApAkAMDcAAKgJADDpBAAApQkAMOoEAACmCQAw7AQAAKcJADDtBAAApwkAMO4EAACnCQAw7wQAAKcJADDwBAAAqQkAMPEEAACqCQAwCjYAAPMIADA3AAD3CAAw6QQAAPQIADDqBAAA9QgAMOwEAAD2CAAw7QQAAPYIADDuBAAA9ggAMO8EAAD2CAAw8AQAAPgIADDxBAAA-QgAMA4HAAChCQAgCgAAoAkAIA4AAJ4JACAPAACfCQAgEgAAogkAIBMAAKMJACCFBAEAAAABkwQBAAAAAZYEQAAAAAGyBAEAAAAB2gQBAAAAAdsEAQAAAAHcBIAAAAAB3QSAAAAAAQIAAAAlACA2AACdCQAgAwAAACUAIDYAAJ0JACA3AAD8CAAgEgcAAIsHACAKAADYBwAgDgAA1gcAIA8AANcHACASAADZBwAgEwAA2QcAIBQAAMUHACCCBAAA1QcAMIMEAAAjABCEBAAA1QcAMIUEAQAAAAGTBAEA2wYAIZYEQADeBgAhsgQBANsGACHaBAEA2wYAIdsEAQDbBgAh3AQAANwGACDdBAAA3AYAIAIAAAAlACAvAAD8CAAgAgAAAPoIACAvAAD7CAAgC4IEAAD5CAAwgwQAAPoIABCEBAAA-QgAMIUEAQDbBgAhkwQBANsGACGWBEAA3gYAIbIEAQDbBgAh2gQBANsGACHbBAEA2wYAIdwEAADcBgAg3QQAANwGACALggQAAPkIADCDBAAA-ggAEIQEAAD5CAAwhQQBANsGACGTBAEA2wYAIZYEQADeBgAhsgQBANsGACHaBAEA2wYAIdsEAQDbBgAh3AQAANwGACDdBAAA3AYAIAiFBAEA9QcAIZMEAQD1BwAhlgRAAPwHACGyBAEA9QcAIdoEAQD1BwAh2wQBAPUHACHcBIAAAAAB3QSAAAAAAQ4HAACACQAgCgAA_wgAIA4AAP0IACAPAAD-CAAgEgAAgQkAIBMAAIIJACCFBAEA9QcAIZMEAQD1BwAhlgRAAPwHACGyBAEA9QcAIdoEAQD1BwAh2wQBAPUHACHcBIAAAAAB3QSAAAAAAQU2AACkDgAgNwAAvA4AIOkEAAClDgAg6gQAALsOACDvBAAAnwIAIAU2AACiDgAgNwAAuQ4AIOkEAACjDgAg6gQAALgOACDvBAAA2gEAIAU2AACgDgAgNwAAtg4AIOkEAAChDgAg6gQAALUOACDvBAAA4QMAIAU2AACeDgAgNwAAsw4AIOkEAACfDgAg6gQAALIOACDvBAAAEwAgCzYAAJIJADA3AACWCQAw6QQAAJMJADDqBAAAlAkAMOsEAACVCQAg7AQAAIcJADDtBAAAhwkAMO4EAACHCQAw7wQAAIcJADDwBAAAlwkAMPEEAACKCQAwCzYAAIMJADA3AACICQAw6QQAAIQJADDqBAAAhQkAMOsEAACGCQAg7AQAAIcJADDtBAAAhwkAMO4EAACHCQAw7wQAAIcJADDwBAAAiQkAMPEEAACKCQAwBBAAAJEJACDIBAAAANkEAtYEAQAAAAHZBAEAAAABAgAAAC0AIDYAAJAJACADAAAALQAgNgAAkAkAIDcAAI4JACABLwAAsQ4AMAoQAADUBwAgEQAA1AcAIIIEAADSBwAwgwQAACsAEIQEAADSBwAwyAQAANMH2QQi1gQBANsGACHXBAEA2wYAIdkEAQDbBgAh5QQAANEHACACAAAALQAgLwAAjgkAIAIAAACLCQAgLwAAjAkAIAeCBAAAigkAMIMEAACLCQAQhAQAAIoJADDIBAAA0wfZBCLWBAEA2wYAIdcEAQDbBgAh2QQBANsGACEHggQAAIoJADCDBAAAiwkAEIQEAACKCQAwyAQAANMH2QQi1gQBANsGACHXBAEA2wYAIdkEAQDbBgAhA8gEAACNCdkEItYEAQD1BwAh2QQBAPUHACEB7AQAAADZBAIEEAAAjwkAIMgEAACNCdkEItYEAQD1BwAh2QQBAPUHACEFNgAArA4AIDcAAK8OACDpBAAArQ4AIOoEAACuDgAg7wQAACUAIAQQAACRCQAgyAQAAADZBALWBAEAAAAB2QQBAAAAAQM2AACsDgAg6QQAAK0OACDvBAAAJQAgBBEAAJwJACDIBAAAANkEAtcEAQAAAAHZBAEAAAABAgAAAC0AIDYAAJsJACADAAAALQAgNgAAmwkAIDcAAJkJACABLwAAqw4AMAIAAAAtACAvAACZCQAgAgAAAIsJACAvAACYCQAgA8gEAACNCdkEItcEAQD1BwAh2QQBAPUHACEEEQAAmgkAIMgEAACNCdkEItcEAQD1BwAh2QQBAPUHACEFNgAApg4AIDcAAKkOACDpBAAApw4AIOoEAACoDgAg7wQAACUAIAQRAACcCQAgyAQAAADZBALXBAEAAAAB2QQBAAAAAQM2AACmDgAg6QQAAKcOACDvBAAAJQAgDgcAAKEJACAKAACgCQAgDgAAngkAIA8AAJ8JACASAACiCQAgEwAAowkAIIUEAQAAAAGTBAEAAAABlgRAAAAAAbIEAQAAAAHaBAEAAAAB2wQBAAAAAdwEgAAAAAHdBIAAAAABAzYAAKQOACDpBAAApQ4AIO8EAACfAgAgAzYAAKIOACDpBAAAow4AIO8EAADaAQAgAzYAAKAOACDpBAAAoQ4AIO8EAADhAwAgAzYAAJ4OACDpBAAAnw4AIO8EAAATACAENgAAkgkAMOkEAACTCQAw6wQAAJUJACDvBAAAhwkAMAQ2AACDCQAw6QQAAIQJADDrBAAAhgkAIO8EAACHCQAwCgcAALEJACAOgAAAAAEWAACyCQAghQQBAAAAAZMEAQAAAAGUBAEAAAABlgRAAAAAAZcEQAAAAAGdBIAAAAABpgQBAAAAAQIAAABRACA2AACwCQAgAwAAAFEAIDYAALAJACA3AACtCQAgDwcAAMMHACAOAADcBgAgFAAAxQcAIBYAAMQHACCCBAAAwgcAMIMEAABPABCEBAAAwgcAMIUEAQAAAAGTBAEAnAcAIZQEAQCcBwAhlgRAAN4GACGXBEAA3gYAIZ0EAADcBgAgpgQBAJwHACHjBAAAwQcAIAIAAABRACAvAACtCQAgAgAAAKsJACAvAACsCQAgCw4AANwGACCCBAAAqgkAMIMEAACrCQAQhAQAAKoJADCFBAEA2wYAIZMEAQCcBwAhlAQBAJwHACGWBEAA3gYAIZcEQADeBgAhnQQAANwGACCmBAEAnAcAIQsOAADcBgAgggQAAKoJADCDBAAAqwkAEIQEAACqCQAwhQQBANsGACGTBAEAnAcAIZQEAQCcBwAhlgRAAN4GACGXBEAA3gYAIZ0EAADcBgAgpgQBAJwHACEIDoAAAAABhQQBAPUHACGTBAEAhggAIZQEAQCGCAAhlgRAAPwHACGXBEAA_AcAIZ0EgAAAAAGmBAEAhggAIQoHAACuCQAgDoAAAAABFgAArwkAIIUEAQD1BwAhkwQBAIYIACGUBAEAhggAIZYEQAD8BwAhlwRAAPwHACGdBIAAAAABpgQBAIYIACEHNgAAlg4AIDcAAJwOACDpBAAAlw4AIOoEAACbDgAg7QQAABEAIO4EAAARACDvBAAAEwAgBzYAAJQOACA3AACZDgAg6QQAAJUOACDqBAAAmA4AIO0EAAANACDuBAAADQAg7wQAAA8AIAoHAACxCQAgDoAAAAABFgAAsgkAIIUEAQAAAAGTBAEAAAABlAQBAAAAAZYEQAAAAAGXBEAAAAABnQSAAAAAAaYEAQAAAAEDNgAAlg4AIOkEAACXDgAg7wQAABMAIAM2AACUDgAg6QQAAJUOACDvBAAADwAgHwUAAMYLACAGAAC3CwAgCAAAuAsAIAkAALkLACAVAADECwAgFwAAugsAIBsAALsLACAcAAC8CwAgHQAAvQsAIB4AAL4LACAfAAC_CwAgIQAAwAsAICIAAMILACAjAADDCwAghQQBAAAAAZ8EAAAAxgQCtAQCAAAAAbYEgAAAAAG3BIAAAAABxAQBAAAAAccEAAAAxwQCyAQBAAAAAckEAQAAAAHKBAIAAAABywQCAAAAAcwEAgAAAAHNBAIAAAABzgQCAAAAAc8EgAAAAAHQBIAAAAAB0QQgAAAAAQIAAAATACA2AADFCwAgAwAAABMAIDYAAMULACA3AAC_CQAgIwUAAMMHACAGAADiBwAgCAAA4wcAIAkAAIIHACAUAADFBwAgFQAAhAcAIBcAAOQHACAbAADlBwAgHAAA5gcAIB0AAOcHACAeAADoBwAgHwAA6QcAICEAALMHACAiAACDBwAgIwAA6gcAIIIEAADfBwAwgwQAABEAEIQEAADfBwAwhQQBAAAAAZ8EAADgB8YEIrQEAgDeBwAhtgQAAIAHACC3BAAAgAcAIMQEAQAAAAHHBAAA4QfHBCLIBAEA2wYAIckEAQCcBwAhygQCAN4HACHLBAIA3gcAIcwEAgDeBwAhzQQCAN4HACHOBAIA3gcAIc8EAACABwAg0AQAAIAHACDRBCAArQcAIQIAAAATACAvAAC_CQAgAgAAALoJACAvAAC7CQAgFIIEAAC5CQAwgwQAALoJABCEBAAAuQkAMIUEAQDbBgAhnwQAAOAHxgQitAQCAN4HACG2BAAAgAcAILcEAACABwAgxAQBANsGACHHBAAA4QfHBCLIBAEA2wYAIckEAQCcBwAhygQCAN4HACHLBAIA3gcAIcwEAgDeBwAhzQQCAN4HACHOBAIA3gcAIc8EAACABwAg0AQAAIAHACDRBCAArQcAIRSCBAAAuQkAMIMEAAC6CQAQhAQAALkJADCFBAEA2wYAIZ8EAADgB8YEIrQEAgDeBwAhtgQAAIAHACC3BAAAgAcAIMQEAQDbBgAhxwQAAOEHxwQiyAQBANsGACHJBAEAnAcAIcoEAgDeBwAhywQCAN4HACHMBAIA3gcAIc0EAgDeBwAhzgQCAN4HACHPBAAAgAcAINAEAACABwAg0QQgAK0HACERhQQBAPUHACGfBAAAvAnGBCK0BAIAvgkAIbYEgAAAAAG3BIAAAAABxAQBAPUHACHHBAAAvQnHBCLIBAEA9QcAIckEAQCGCAAhygQCAL4JACHLBAIAvgkAIcwEAgC-CQAhzQQCAL4JACHOBAIAvgkAIc8EgAAAAAHQBIAAAAAB0QQgAPYHACEB7AQAAADGBAIB7AQAAADHBAIF7AQCAAAAAfIEAgAAAAHzBAIAAAAB9AQCAAAAAfUEAgAAAAEfBQAAwAkAIAYAAMEJACAIAADCCQAgCQAAwwkAIBUAAM0JACAXAADECQAgGwAAxQkAIBwAAMYJACAdAADHCQAgHgAAyAkAIB8AAMkJACAhAADKCQAgIgAAywkAICMAAMwJACCFBAEA9QcAIZ8EAAC8CcYEIrQEAgC-CQAhtgSAAAAAAbcEgAAAAAHEBAEA9QcAIccEAAC9CccEIsgEAQD1BwAhyQQBAIYIACHKBAIAvgkAIcsEAgC-CQAhzAQCAL4JACHNBAIAvgkAIc4EAgC-CQAhzwSAAAAAAdAEgAAAAAHRBCAA9gcAIQc2AADlDQAgNwAAkg4AIOkEAADmDQAg6gQAAJEOACDtBAAAEQAg7gQAABEAIO8EAAATACALNgAApQsAMDcAAKkLADDpBAAApgsAMOoEAACnCwAw6wQAAKgLACDsBAAAtgkAMO0EAAC2CQAw7gQAALYJADDvBAAAtgkAMPAEAACqCwAw8QQAALkJADAHNgAAnwsAIDcAAKILACDpBAAAoAsAIOoEAAChCwAg7QQAABcAIO4EAAAXACDvBAAAuAIAIAs2AACQCwAwNwAAlQsAMOkEAACRCwAw6gQAAJILADDrBAAAkwsAIOwEAACUCwAw7QQAAJQLADDuBAAAlAsAMO8EAACUCwAw8AQAAJYLADDxBAAAlwsAMAs2AACDCwAwNwAAhwsAMOkEAACECwAw6gQAAIULADDrBAAAhgsAIOwEAACgCgAw7QQAAKAKADDuBAAAoAoAMO8EAACgCgAw8AQAAIgLADDxBAAAiQsAMAs2AAD6CgAwNwAA_goAMOkEAAD7CgAw6gQAAPwKADDrBAAA_QoAIOwEAADiCQAw7QQAAOIJADDuBAAA4gkAMO8EAADiCQAw8AQAAP8KADDxBAAA5QkAMAs2AADrCgAwNwAA7woAMOkEAADsCgAw6gQAAO0KADDrBAAA7goAIOwEAACnCQAw7QQAAKcJADDuBAAApwkAMO8EAACnCQAw8AQAAPAKADDxBAAAqgkAMAs2AADfCgAwNwAA5AoAMOkEAADgCgAw6gQAAOEKADDrBAAA4goAIOwEAADjCgAw7QQAAOMKADDuBAAA4woAMO8EAADjCgAw8AQAAOUKADDxBAAA5goAMAs2AADSCgAwNwAA1goAMOkEAADTCgAw6gQAANQKADDrBAAA1QoAIOwEAACMCgAw7QQAAIwKADDuBAAAjAoAMO8EAACMCgAw8AQAANcKADDxBAAA2AoAMAc2AADNCgAgNwAA0AoAIOkEAADOCgAg6gQAAM8KACDtBAAAXwAg7gQAAF8AIO8EAACXAwAgCzYAAMQKADA3AADICgAw6QQAAMUKADDqBAAAxgoAMOsEAADHCgAg7AQAAJsIADDtBAAAmwgAMO4EAACbCAAw7wQAAJsIADDwBAAAyQoAMPEEAACeCAAwCzYAALYKADA3AAC7CgAw6QQAALcKADDqBAAAuAoAMOsEAAC5CgAg7AQAALoKADDtBAAAugoAMO4EAAC6CgAw7wQAALoKADDwBAAAvAoAMPEEAAC9CgAwCzYAAKoKADA3AACvCgAw6QQAAKsKADDqBAAArAoAMOsEAACtCgAg7AQAAK4KADDtBAAArgoAMO4EAACuCgAw7wQAAK4KADDwBAAAsAoAMPEEAACxCgAwCzYAAM4JADA3AADSCQAw6QQAAM8JADDqBAAA0AkAMOsEAADRCQAg7AQAAPYIADDtBAAA9ggAMO4EAAD2CAAw7wQAAPYIADDwBAAA0wkAMPEEAAD5CAAwDQoAAKAJACAOAACeCQAgDwAAnwkAIBIAAKIJACATAACjCQAgFAAAqQoAIIUEAQAAAAGWBEAAAAABsgQBAAAAAdoEAQAAAAHbBAEAAAAB3ASAAAAAAd0EgAAAAAECAAAAJQAgNgAAqAoAIAMAAAAlACA2AACoCgAgNwAA1QkAIAEvAACQDgAwAgAAACUAIC8AANUJACACAAAA-ggAIC8AANQJACAHhQQBAPUHACGWBEAA_AcAIbIEAQD1BwAh2gQBAPUHACHbBAEA9QcAIdwEgAAAAAHdBIAAAAABDQoAAP8IACAOAAD9CAAgDwAA_ggAIBIAAIEJACATAACCCQAgFAAA1gkAIIUEAQD1BwAhlgRAAPwHACGyBAEA9QcAIdoEAQD1BwAh2wQBAPUHACHcBIAAAAAB3QSAAAAAAQo2AADXCQAwNwAA2gkAMOkEAADYCQAw6gQAANkJADDsBAAA5wgAMO0EAADnCAAw7gQAAOcIADDvBAAA5wgAMPAEAADbCQAw8QQAAOoIADALBAAA8wkAIBsAAPUJACAcAAD2CQAgJAAA9AkAIIUEAQAAAAGWBEAAAAABlwRAAAAAAZ0EgAAAAAHVBAEAAAAB4AQCAAAAAeEEAgAAAAECAAAACwAgNgAA8gkAIAMAAAALACA2AADyCQAgNwAA3QkAIAIAAAALACAvAADdCQAgAgAAAOsIACAvAADcCQAgB4UEAQD1BwAhlgRAAPwHACGXBEAA_AcAIZ0EgAAAAAHVBAEA9QcAIeAEAgDtCAAh4QQCAO0IACELBAAA7wgAIBsAAN4JACAcAADxCAAgJAAA8AgAIIUEAQD1BwAhlgRAAPwHACGXBEAA_AcAIZ0EgAAAAAHVBAEA9QcAIeAEAgDtCAAh4QQCAO0IACEKNgAA3wkAMDcAAOMJADDpBAAA4AkAMOoEAADhCQAw7AQAAOIJADDtBAAA4gkAMO4EAADiCQAw7wQAAOIJADDwBAAA5AkAMPEEAADlCQAwDAcAAOoJACAWAADrCQAgGgAA7AkAIIUEAQAAAAGTBAEAAAABlAQBAAAAAZYEQAAAAAGXBEAAAAABnQSAAAAAAZ8EAAAAsQQCpgQBAAAAAasEgAAAAAECAAAAPwAgNgAA6QkAIAMAAAA_ACA2AADpCQAgNwAA6AkAIBEHAADDBwAgFAAAxQcAIBYAAMQHACAaAADOBwAgggQAAMwHADCDBAAAPQAQhAQAAMwHADCFBAEAAAABkwQBAJwHACGUBAEAnAcAIZYEQADeBgAhlwRAAN4GACGdBAAA3AYAIJ8EAADNB7EEIqYEAQCcBwAhqwQAANwGACDjBAAAywcAIAIAAAA_ACAvAADoCQAgAgAAAOYJACAvAADnCQAgDIIEAADlCQAwgwQAAOYJABCEBAAA5QkAMIUEAQDbBgAhkwQBAJwHACGUBAEAnAcAIZYEQADeBgAhlwRAAN4GACGdBAAA3AYAIJ8EAADNB7EEIqYEAQCcBwAhqwQAANwGACAMggQAAOUJADCDBAAA5gkAEIQEAADlCQAwhQQBANsGACGTBAEAnAcAIZQEAQCcBwAhlgRAAN4GACGXBEAA3gYAIZ0EAADcBgAgnwQAAM0HsQQipgQBAJwHACGrBAAA3AYAIAmFBAEA9QcAIZMEAQCGCAAhlAQBAIYIACGWBEAA_AcAIZcEQAD8BwAhnQSAAAAAAZ8EAADfCLEEIqYEAQCGCAAhqwSAAAAAAQwHAADgCAAgFgAA4QgAIBoAAOIIACCFBAEA9QcAIZMEAQCGCAAhlAQBAIYIACGWBEAA_AcAIZcEQAD8BwAhnQSAAAAAAZ8EAADfCLEEIqYEAQCGCAAhqwSAAAAAAQwHAADqCQAgFgAA6wkAIBoAAOwJACCFBAEAAAABkwQBAAAAAZQEAQAAAAGWBEAAAAABlwRAAAAAAZ0EgAAAAAGfBAAAALEEAqYEAQAAAAGrBIAAAAABAzYAAI4OACDpBAAAjw4AIO8EAAATACADNgAAjA4AIOkEAACNDgAg7wQAAA8AIAQ2AADtCQAw6QQAAO4JADDrBAAA7wkAIO8EAADwCQAwBAsAANsIACCFBAEAAAABrgRAAAAAAa8EQAAAAAECAAAARQAgNgAA8QkAIAEvAACLDgAwCQsAAMoHACAYAADJBwAgggQAAMgHADCDBAAAQwAQhAQAAMgHADCFBAEAAAABrQQBANsGACGuBEAA3gYAIa8EQACBBwAhBAsAANsIACCFBAEAAAABrgRAAAAAAa8EQAAAAAELBAAA8wkAIBsAAPUJACAcAAD2CQAgJAAA9AkAIIUEAQAAAAGWBEAAAAABlwRAAAAAAZ0EgAAAAAHVBAEAAAAB4AQCAAAAAeEEAgAAAAEDNgAA9wkAMOkEAAD4CQAw7wQAAPkJADADNgAAswkAMOkEAAC0CQAw7wQAALYJADADNgAA3wkAMOkEAADgCQAw7wQAAOIJADADNgAApAkAMOkEAAClCQAw7wQAAKcJADAKAwAA-wkAIBcAAPwJACAbAAD9CQAgHAAA_gkAIB4AAP8JACAlAACACgAghQQBAAAAAZYEQAAAAAGXBEAAAAABnQSAAAAAAQIAAAAPACA2AAD6CQAgDgMAAOwHACAUAADFBwAgFwAA5AcAIBsAAOUHACAcAADmBwAgHgAA6AcAICUAAO0HACCCBAAA6wcAMIMEAAANABCEBAAA6wcAMIUEAQAAAAGWBEAA3gYAIZcEQADeBgAhnQQAANwGACAKAwAA-wkAIBcAAPwJACAbAAD9CQAgHAAA_gkAIB4AAP8JACAlAACACgAghQQBAAAAAZYEQAAAAAGXBEAAAAABnQSAAAAAAQQ2AACjCgAw6QQAAKQKADDrBAAApQoAIO8EAACmCgAwBDYAAJ0KADDpBAAAngoAMOsEAACfCgAg7wQAAKAKADAENgAAmAoAMOkEAACZCgAw6wQAAJoKACDvBAAA4gkAMAQ2AACPCgAw6QQAAJAKADDrBAAAkQoAIO8EAACnCQAwBDYAAIkKADDpBAAAigoAMOsEAACLCgAg7wQAAIwKADAENgAAgQoAMOkEAACCCgAw6wQAAIMKACDvBAAAhAoAMAYnAACGCgAghQQBAAAAAZYEQAAAAAGXBEAAAAABnQSAAAAAAcAEAQAAAAECAAAAAQAgNgAAhQoAIAEvAACKDgAwCxYAALcHACAnAAC2BwAgggQAALUHADCDBAAAhAEAEIQEAAC1BwAwhQQBAAAAAZYEQADeBgAhlwRAAN4GACGdBAAA3AYAIKYEAQDbBgAhwAQBAAAAAQYnAACGCgAghQQBAAAAAZYEQAAAAAGXBEAAAAABnQSAAAAAAcAEAQAAAAEDNgAAhwoAIOkEAACICgAg7wQAAI8BACAMCwAApggAICcAAKMIACApAAClCAAghQQBAAAAAZYEQAAAAAGXBEAAAAABnQSAAAAAAZ8EAAAAnwQCoAQgAAAAAaEEAQAAAAGiBAEAAAABowQBAAAAAQIAAACPAQAgNgAAhwoAIAkHAACOCgAgkwQBAAAAAZQEAQAAAAGWBEAAAAABlwRAAAAAAZ0EgAAAAAHTBAEAAAAB3gQBAAAAAd8EAgAAAAECAAAAXQAgNgAAjQoAIAEvAACJDgAwDwcAAIsHACAWAAC3BwAgggQAAL0HADCDBAAAWwAQhAQAAL0HADCTBAEA2wYAIZQEAQDbBgAhlgRAAN4GACGXBEAA3gYAIZ0EAADcBgAgpgQBANsGACHTBAEAnAcAId4EAQDbBgAh3wQCAL4HACHkBAAAvAcAIAkHAACOCgAgkwQBAAAAAZQEAQAAAAGWBEAAAAABlwRAAAAAAZ0EgAAAAAHTBAEAAAAB3gQBAAAAAd8EAgAAAAEDNgAA4A0AIOkEAADhDQAg7wQAABMAIAkHAACxCQAgDoAAAAABFAAAkwoAIIUEAQAAAAGTBAEAAAABlAQBAAAAAZYEQAAAAAGXBEAAAAABnQSAAAAAAQIAAABRACA2AACSCgAgAS8AAIgOADAJBwAAsQkAIA6AAAAAARQAAJMKACCFBAEAAAABkwQBAAAAAZQEAQAAAAGWBEAAAAABlwRAAAAAAZ0EgAAAAAEDNgAAlAoAMOkEAACVCgAw7wQAAOcIADALBAAA8wkAIBUAAJcKACAbAAD1CQAgJAAA9AkAIIUEAQAAAAGWBEAAAAABlwRAAAAAAZ0EgAAAAAHVBAEAAAAB4AQCAAAAAeEEAgAAAAECAAAACwAgNgAAlgoAIAsEAADzCQAgFQAAlwoAIBsAAPUJACAkAAD0CQAghQQBAAAAAZYEQAAAAAGXBEAAAAABnQSAAAAAAdUEAQAAAAHgBAIAAAAB4QQCAAAAAQM2AADzCAAw6QQAAPQIADDvBAAA9ggAMAsHAADqCQAgFAAAnAoAIBoAAOwJACCFBAEAAAABkwQBAAAAAZQEAQAAAAGWBEAAAAABlwRAAAAAAZ0EgAAAAAGfBAAAALEEAqsEgAAAAAECAAAAPwAgNgAAmwoAIAEvAACHDgAwCwcAAOoJACAUAACcCgAgGgAA7AkAIIUEAQAAAAGTBAEAAAABlAQBAAAAAZYEQAAAAAGXBEAAAAABnQSAAAAAAZ8EAAAAsQQCqwSAAAAAAQM2AADkCAAw6QQAAOUIADDvBAAA5wgAMAkHAACiCgAgDoAAAAABhQQBAAAAAZMEAQAAAAGUBAEAAAABlgRAAAAAAZcEQAAAAAGdBIAAAAABsQQBAAAAAQIAAAA5ACA2AAChCgAgAS8AAIYOADAPBwAAwwcAIA4AANwGACAWAADEBwAgggQAANAHADCDBAAANwAQhAQAANAHADCFBAEAAAABkwQBAJwHACGUBAEAnAcAIZYEQADeBgAhlwRAAN4GACGdBAAA3AYAIKYEAQCcBwAhsQQBAAAAAeMEAADPBwAgCQcAAKIKACAOgAAAAAGFBAEAAAABkwQBAAAAAZQEAQAAAAGWBEAAAAABlwRAAAAAAZ0EgAAAAAGxBAEAAAABAzYAANsNACDpBAAA3A0AIO8EAAATACAEJgAAuQgAIIUEAQAAAAGWBEAAAAABpQQBAAAAAQIAAAAHACA2AACnCgAgAS8AAIUOADAJFgAAtwcAICYAAPEHACCCBAAA8AcAMIMEAAAFABCEBAAA8AcAMIUEAQAAAAGWBEAA3gYAIaUEAQAAAAGmBAEAAAABBCYAALkIACCFBAEAAAABlgRAAAAAAaUEAQAAAAENCgAAoAkAIA4AAJ4JACAPAACfCQAgEgAAogkAIBMAAKMJACAUAACpCgAghQQBAAAAAZYEQAAAAAGyBAEAAAAB2gQBAAAAAdsEAQAAAAHcBIAAAAAB3QSAAAAAAQM2AADXCQAw6QQAANgJADDvBAAA5wgAMALCBAEAAAABwwSAAAAAAQIAAABpACA2AAC1CgAgAwAAAGkAIDYAALUKACA3AAC0CgAgAS8AAIQOADAIBwAAiwcAIIIEAAC5BwAwgwQAAGcAEIQEAAC5BwAwkwQBANsGACHCBAEA2wYAIcMEAADcBgAg4gQAALgHACACAAAAaQAgLwAAtAoAIAIAAACyCgAgLwAAswoAIAaCBAAAsQoAMIMEAACyCgAQhAQAALEKADCTBAEA2wYAIcIEAQDbBgAhwwQAANwGACAGggQAALEKADCDBAAAsgoAEIQEAACxCgAwkwQBANsGACHCBAEA2wYAIcMEAADcBgAgAsIEAQD1BwAhwwSAAAAAAQLCBAEA9QcAIcMEgAAAAAECwgQBAAAAAcMEgAAAAAEFCgAAwwoAIA4BAAAAAYUEAQAAAAGHBCAAAAABsgQBAAAAAQIAAAAgACA2AADCCgAgAwAAACAAIDYAAMIKACA3AADACgAgAS8AAIMOADAKBwAAwwcAIAoAANgHACAOAQDbBgAhggQAANoHADCDBAAAHgAQhAQAANoHADCFBAEAAAABhwQgAK0HACGTBAEAnAcAIbIEAQDbBgAhAgAAACAAIC8AAMAKACACAAAAvgoAIC8AAL8KACAIDgEA2wYAIYIEAAC9CgAwgwQAAL4KABCEBAAAvQoAMIUEAQDbBgAhhwQgAK0HACGTBAEAnAcAIbIEAQDbBgAhCA4BANsGACGCBAAAvQoAMIMEAAC-CgAQhAQAAL0KADCFBAEA2wYAIYcEIACtBwAhkwQBAJwHACGyBAEA2wYAIQQOAQD1BwAhhQQBAPUHACGHBCAA9gcAIbIEAQD1BwAhBQoAAMEKACAOAQD1BwAhhQQBAPUHACGHBCAA9gcAIbIEAQD1BwAhBTYAAP4NACA3AACBDgAg6QQAAP8NACDqBAAAgA4AIO8EAADhAwAgBQoAAMMKACAOAQAAAAGFBAEAAAABhwQgAAAAAbIEAQAAAAEDNgAA_g0AIOkEAAD_DQAg7wQAAOEDACAGIAAAgAgAIIYEAQAAAAGUBAEAAAABlQSAAAAAAZYEQAAAAAGXBEAAAAABAgAAAGMAIDYAAMwKACADAAAAYwAgNgAAzAoAIDcAAMsKACABLwAA_Q0AMAIAAABjACAvAADLCgAgAgAAAJ8IACAvAADKCgAgBYYEAQD1BwAhlAQBAPUHACGVBIAAAAABlgRAAPwHACGXBEAA_AcAIQYgAAD-BwAghgQBAPUHACGUBAEA9QcAIZUEgAAAAAGWBEAA_AcAIZcEQAD8BwAhBiAAAIAIACCGBAEAAAABlAQBAAAAAZUEgAAAAAGWBEAAAAABlwRAAAAAAQOdBIAAAAABwAQBAAAAAcEEQAAAAAECAAAAlwMAIDYAAM0KACADAAAAXwAgNgAAzQoAIDcAANEKACAFAAAAXwAgLwAA0QoAIJ0EgAAAAAHABAEA9QcAIcEEQAD8BwAhA50EgAAAAAHABAEA9QcAIcEEQAD8BwAhCRYAAN4KACCUBAEAAAABlgRAAAAAAZcEQAAAAAGdBIAAAAABpgQBAAAAAdMEAQAAAAHeBAEAAAAB3wQCAAAAAQIAAABdACA2AADdCgAgAwAAAF0AIDYAAN0KACA3AADbCgAgAS8AAPwNADACAAAAXQAgLwAA2woAIAIAAADZCgAgLwAA2goAIAyCBAAA2AoAMIMEAADZCgAQhAQAANgKADCTBAEA2wYAIZQEAQDbBgAhlgRAAN4GACGXBEAA3gYAIZ0EAADcBgAgpgQBANsGACHTBAEAnAcAId4EAQDbBgAh3wQCAL4HACEMggQAANgKADCDBAAA2QoAEIQEAADYCgAwkwQBANsGACGUBAEA2wYAIZYEQADeBgAhlwRAAN4GACGdBAAA3AYAIKYEAQDbBgAh0wQBAJwHACHeBAEA2wYAId8EAgC-BwAhCJQEAQD1BwAhlgRAAPwHACGXBEAA_AcAIZ0EgAAAAAGmBAEA9QcAIdMEAQCGCAAh3gQBAPUHACHfBAIA7QgAIQkWAADcCgAglAQBAPUHACGWBEAA_AcAIZcEQAD8BwAhnQSAAAAAAaYEAQD1BwAh0wQBAIYIACHeBAEA9QcAId8EAgDtCAAhBTYAAPcNACA3AAD6DQAg6QQAAPgNACDqBAAA-Q0AIO8EAAAPACAJFgAA3goAIJQEAQAAAAGWBEAAAAABlwRAAAAAAZ0EgAAAAAGmBAEAAAAB0wQBAAAAAd4EAQAAAAHfBAIAAAABAzYAAPcNACDpBAAA-A0AIO8EAAAPACAGhQQBAAAAAZQEAQAAAAGWBEAAAAABlwRAAAAAAZ0EgAAAAAGrBIAAAAABAgAAAFkAIDYAAOoKACADAAAAWQAgNgAA6goAIDcAAOkKACABLwAA9g0AMAwHAACLBwAgggQAAMAHADCDBAAAVwAQhAQAAMAHADCFBAEAAAABkwQBANsGACGUBAEA2wYAIZYEQADeBgAhlwRAAN4GACGdBAAA3AYAIKsEAADcBgAg4wQAAL8HACACAAAAWQAgLwAA6QoAIAIAAADnCgAgLwAA6AoAIAqCBAAA5goAMIMEAADnCgAQhAQAAOYKADCFBAEA2wYAIZMEAQDbBgAhlAQBANsGACGWBEAA3gYAIZcEQADeBgAhnQQAANwGACCrBAAA3AYAIAqCBAAA5goAMIMEAADnCgAQhAQAAOYKADCFBAEA2wYAIZMEAQDbBgAhlAQBANsGACGWBEAA3gYAIZcEQADeBgAhnQQAANwGACCrBAAA3AYAIAaFBAEA9QcAIZQEAQD1BwAhlgRAAPwHACGXBEAA_AcAIZ0EgAAAAAGrBIAAAAABBoUEAQD1BwAhlAQBAPUHACGWBEAA_AcAIZcEQAD8BwAhnQSAAAAAAasEgAAAAAEGhQQBAAAAAZQEAQAAAAGWBEAAAAABlwRAAAAAAZ0EgAAAAAGrBIAAAAABCQ6AAAAAARQAAJMKACAWAACyCQAghQQBAAAAAZQEAQAAAAGWBEAAAAABlwRAAAAAAZ0EgAAAAAGmBAEAAAABAgAAAFEAIDYAAPkKACADAAAAUQAgNgAA-QoAIDcAAPIKACABLwAA9Q0AMAIAAABRACAvAADyCgAgAgAAAKsJACAvAADxCgAgBw6AAAAAAYUEAQD1BwAhlAQBAIYIACGWBEAA_AcAIZcEQAD8BwAhnQSAAAAAAaYEAQCGCAAhCQ6AAAAAARQAAPMKACAWAACvCQAghQQBAPUHACGUBAEAhggAIZYEQAD8BwAhlwRAAPwHACGdBIAAAAABpgQBAIYIACEKNgAAlAoAMDcAAPUKADDpBAAAlQoAMOoEAAD0CgAw7AQAAOcIADDtBAAA5wgAMO4EAADnCAAw7wQAAOcIADDwBAAA9goAMPEEAADqCAAwAwAAAAsAIDYAAJYKACA3AAD4CgAgAgAAAAsAIC8AAPgKACACAAAA6wgAIC8AAPcKACAHhQQBAPUHACGWBEAA_AcAIZcEQAD8BwAhnQSAAAAAAdUEAQD1BwAh4AQCAO0IACHhBAIA7QgAIQsEAADvCAAgFQAA8ggAIBsAAN4JACAkAADwCAAghQQBAPUHACGWBEAA_AcAIZcEQAD8BwAhnQSAAAAAAdUEAQD1BwAh4AQCAO0IACHhBAIA7QgAIQkOgAAAAAEUAACTCgAgFgAAsgkAIIUEAQAAAAGUBAEAAAABlgRAAAAAAZcEQAAAAAGdBIAAAAABpgQBAAAAAQsUAACcCgAgFgAA6wkAIBoAAOwJACCFBAEAAAABlAQBAAAAAZYEQAAAAAGXBEAAAAABnQSAAAAAAZ8EAAAAsQQCpgQBAAAAAasEgAAAAAECAAAAPwAgNgAAggsAIAMAAAA_ACA2AACCCwAgNwAAgQsAIAEvAAD0DQAwAgAAAD8AIC8AAIELACACAAAA5gkAIC8AAIALACAIhQQBAPUHACGUBAEAhggAIZYEQAD8BwAhlwRAAPwHACGdBIAAAAABnwQAAN8IsQQipgQBAIYIACGrBIAAAAABCxQAAOMIACAWAADhCAAgGgAA4ggAIIUEAQD1BwAhlAQBAIYIACGWBEAA_AcAIZcEQAD8BwAhnQSAAAAAAZ8EAADfCLEEIqYEAQCGCAAhqwSAAAAAAQsUAACcCgAgFgAA6wkAIBoAAOwJACCFBAEAAAABlAQBAAAAAZYEQAAAAAGXBEAAAAABnQSAAAAAAZ8EAAAAsQQCpgQBAAAAAasEgAAAAAEJDoAAAAABFgAAjwsAIIUEAQAAAAGUBAEAAAABlgRAAAAAAZcEQAAAAAGdBIAAAAABpgQBAAAAAbEEAQAAAAECAAAAOQAgNgAAjgsAIAMAAAA5ACA2AACOCwAgNwAAjAsAIAEvAADzDQAwAgAAADkAIC8AAIwLACACAAAAigsAIC8AAIsLACAMDgAA3AYAIIIEAACJCwAwgwQAAIoLABCEBAAAiQsAMIUEAQDbBgAhkwQBAJwHACGUBAEAnAcAIZYEQADeBgAhlwRAAN4GACGdBAAA3AYAIKYEAQCcBwAhsQQBAJwHACEMDgAA3AYAIIIEAACJCwAwgwQAAIoLABCEBAAAiQsAMIUEAQDbBgAhkwQBAJwHACGUBAEAnAcAIZYEQADeBgAhlwRAAN4GACGdBAAA3AYAIKYEAQCcBwAhsQQBAJwHACEIDoAAAAABhQQBAPUHACGUBAEAhggAIZYEQAD8BwAhlwRAAPwHACGdBIAAAAABpgQBAIYIACGxBAEAhggAIQkOgAAAAAEWAACNCwAghQQBAPUHACGUBAEAhggAIZYEQAD8BwAhlwRAAPwHACGdBIAAAAABpgQBAIYIACGxBAEAhggAIQc2AADuDQAgNwAA8Q0AIOkEAADvDQAg6gQAAPANACDtBAAADQAg7gQAAA0AIO8EAAAPACAJDoAAAAABFgAAjwsAIIUEAQAAAAGUBAEAAAABlgRAAAAAAZcEQAAAAAGdBIAAAAABpgQBAAAAAbEEAQAAAAEDNgAA7g0AIOkEAADvDQAg7wQAAA8AIAkKAACeCwAgnwQAAAC0BAKuBEAAAAABrwRAAAAAAbIEAQAAAAG0BAIAAAABtQQCAAAAAbYEgAAAAAG3BIAAAAABAgAAABsAIDYAAJ0LACADAAAAGwAgNgAAnQsAIDcAAJsLACABLwAA7Q0AMA8HAACLBwAgCgAA2AcAIIIEAADcBwAwgwQAABkAEIQEAADcBwAwkwQBANsGACGfBAAA3Qe0BCKuBEAAgQcAIa8EQACBBwAhsgQBANsGACG0BAIA3gcAIbUEAgDeBwAhtgQAANwGACC3BAAA3AYAIOYEAADbBwAgAgAAABsAIC8AAJsLACACAAAAmAsAIC8AAJkLACAMggQAAJcLADCDBAAAmAsAEIQEAACXCwAwkwQBANsGACGfBAAA3Qe0BCKuBEAAgQcAIa8EQACBBwAhsgQBANsGACG0BAIA3gcAIbUEAgDeBwAhtgQAANwGACC3BAAA3AYAIAyCBAAAlwsAMIMEAACYCwAQhAQAAJcLADCTBAEA2wYAIZ8EAADdB7QEIq4EQACBBwAhrwRAAIEHACGyBAEA2wYAIbQEAgDeBwAhtQQCAN4HACG2BAAA3AYAILcEAADcBgAgCJ8EAACaC7QEIq4EQADLCAAhrwRAAMsIACGyBAEA9QcAIbQEAgC-CQAhtQQCAL4JACG2BIAAAAABtwSAAAAAAQHsBAAAALQEAgkKAACcCwAgnwQAAJoLtAQirgRAAMsIACGvBEAAywgAIbIEAQD1BwAhtAQCAL4JACG1BAIAvgkAIbYEgAAAAAG3BIAAAAABBTYAAOgNACA3AADrDQAg6QQAAOkNACDqBAAA6g0AIO8EAADhAwAgCQoAAJ4LACCfBAAAALQEAq4EQAAAAAGvBEAAAAABsgQBAAAAAbQEAgAAAAG1BAIAAAABtgSAAAAAAbcEgAAAAAEDNgAA6A0AIOkEAADpDQAg7wQAAOEDACAEnwQAAADTBAK2BIAAAAAB0wQBAAAAAdQEQAAAAAECAAAAuAIAIDYAAJ8LACADAAAAFwAgNgAAnwsAIDcAAKMLACAGAAAAFwAgLwAAowsAIJ8EAACkC9MEIrYEgAAAAAHTBAEAhggAIdQEQAD8BwAhBJ8EAACkC9MEIrYEgAAAAAHTBAEAhggAIdQEQAD8BwAhAewEAAAA0wQCHgYAALcLACAIAAC4CwAgCQAAuQsAIBQAAMELACAVAADECwAgFwAAugsAIBsAALsLACAcAAC8CwAgHQAAvQsAIB4AAL4LACAfAAC_CwAgIQAAwAsAICIAAMILACAjAADDCwAghQQBAAAAAZ8EAAAAxgQCtAQCAAAAAbYEgAAAAAG3BIAAAAABxAQBAAAAAccEAAAAxwQCyAQBAAAAAcoEAgAAAAHLBAIAAAABzAQCAAAAAc0EAgAAAAHOBAIAAAABzwSAAAAAAdAEgAAAAAHRBCAAAAABAgAAABMAIDYAALYLACADAAAAEwAgNgAAtgsAIDcAAKwLACABLwAA5w0AMAIAAAATACAvAACsCwAgAgAAALoJACAvAACrCwAgEIUEAQD1BwAhnwQAALwJxgQitAQCAL4JACG2BIAAAAABtwSAAAAAAcQEAQD1BwAhxwQAAL0JxwQiyAQBAPUHACHKBAIAvgkAIcsEAgC-CQAhzAQCAL4JACHNBAIAvgkAIc4EAgC-CQAhzwSAAAAAAdAEgAAAAAHRBCAA9gcAIR4GAADBCQAgCAAAwgkAIAkAAMMJACAUAACtCwAgFQAAzQkAIBcAAMQJACAbAADFCQAgHAAAxgkAIB0AAMcJACAeAADICQAgHwAAyQkAICEAAMoJACAiAADLCQAgIwAAzAkAIIUEAQD1BwAhnwQAALwJxgQitAQCAL4JACG2BIAAAAABtwSAAAAAAcQEAQD1BwAhxwQAAL0JxwQiyAQBAPUHACHKBAIAvgkAIcsEAgC-CQAhzAQCAL4JACHNBAIAvgkAIc4EAgC-CQAhzwSAAAAAAdAEgAAAAAHRBCAA9gcAIQo2AACuCwAwNwAAsQsAMOkEAACvCwAw6gQAALALADDsBAAA5wgAMO0EAADnCAAw7gQAAOcIADDvBAAA5wgAMPAEAACyCwAw8QQAAOoIADALBAAA8wkAIBUAAJcKACAbAAD1CQAgHAAA9gkAIIUEAQAAAAGWBEAAAAABlwRAAAAAAZ0EgAAAAAHVBAEAAAAB4AQCAAAAAeEEAgAAAAECAAAACwAgNgAAtQsAIAMAAAALACA2AAC1CwAgNwAAtAsAIAIAAAALACAvAAC0CwAgAgAAAOsIACAvAACzCwAgB4UEAQD1BwAhlgRAAPwHACGXBEAA_AcAIZ0EgAAAAAHVBAEA9QcAIeAEAgDtCAAh4QQCAO0IACELBAAA7wgAIBUAAPIIACAbAADeCQAgHAAA8QgAIIUEAQD1BwAhlgRAAPwHACGXBEAA_AcAIZ0EgAAAAAHVBAEA9QcAIeAEAgDtCAAh4QQCAO0IACELBAAA8wkAIBUAAJcKACAbAAD1CQAgHAAA9gkAIIUEAQAAAAGWBEAAAAABlwRAAAAAAZ0EgAAAAAHVBAEAAAAB4AQCAAAAAeEEAgAAAAEeBgAAtwsAIAgAALgLACAJAAC5CwAgFAAAwQsAIBUAAMQLACAXAAC6CwAgGwAAuwsAIBwAALwLACAdAAC9CwAgHgAAvgsAIB8AAL8LACAhAADACwAgIgAAwgsAICMAAMMLACCFBAEAAAABnwQAAADGBAK0BAIAAAABtgSAAAAAAbcEgAAAAAHEBAEAAAABxwQAAADHBALIBAEAAAABygQCAAAAAcsEAgAAAAHMBAIAAAABzQQCAAAAAc4EAgAAAAHPBIAAAAAB0ASAAAAAAdEEIAAAAAEENgAApQsAMOkEAACmCwAw6wQAAKgLACDvBAAAtgkAMAM2AACfCwAg6QQAAKALACDvBAAAuAIAIAQ2AACQCwAw6QQAAJELADDrBAAAkwsAIO8EAACUCwAwBDYAAIMLADDpBAAAhAsAMOsEAACGCwAg7wQAAKAKADAENgAA-goAMOkEAAD7CgAw6wQAAP0KACDvBAAA4gkAMAQ2AADrCgAw6QQAAOwKADDrBAAA7goAIO8EAACnCQAwBDYAAN8KADDpBAAA4AoAMOsEAADiCgAg7wQAAOMKADAENgAA0goAMOkEAADTCgAw6wQAANUKACDvBAAAjAoAMAM2AADNCgAg6QQAAM4KACDvBAAAlwMAIAQ2AADECgAw6QQAAMUKADDrBAAAxwoAIO8EAACbCAAwAzYAAK4LADDpBAAArwsAMO8EAADnCAAwBDYAALYKADDpBAAAtwoAMOsEAAC5CgAg7wQAALoKADAENgAAqgoAMOkEAACrCgAw6wQAAK0KACDvBAAArgoAMAQ2AADOCQAw6QQAAM8JADDrBAAA0QkAIO8EAAD2CAAwHwUAAMYLACAGAAC3CwAgCAAAuAsAIAkAALkLACAVAADECwAgFwAAugsAIBsAALsLACAcAAC8CwAgHQAAvQsAIB4AAL4LACAfAAC_CwAgIQAAwAsAICIAAMILACAjAADDCwAghQQBAAAAAZ8EAAAAxgQCtAQCAAAAAbYEgAAAAAG3BIAAAAABxAQBAAAAAccEAAAAxwQCyAQBAAAAAckEAQAAAAHKBAIAAAABywQCAAAAAcwEAgAAAAHNBAIAAAABzgQCAAAAAc8EgAAAAAHQBIAAAAAB0QQgAAAAAQM2AADlDQAg6QQAAOYNACDvBAAAEwAgAwAAAA8AIDYAAPoJACA3AADNCwAgAgAAAA8AIC8AAM0LACACAAAAywsAIC8AAMwLACAHggQAAMoLADCDBAAAywsAEIQEAADKCwAwhQQBANsGACGWBEAA3gYAIZcEQADeBgAhnQQAANwGACAHggQAAMoLADCDBAAAywsAEIQEAADKCwAwhQQBANsGACGWBEAA3gYAIZcEQADeBgAhnQQAANwGACAEhQQBAPUHACGWBEAA_AcAIZcEQAD8BwAhnQSAAAAAAQoDAADOCwAgFwAAzwsAIBsAANALACAcAADRCwAgHgAA0gsAICUAANMLACCFBAEA9QcAIZYEQAD8BwAhlwRAAPwHACGdBIAAAAABCzYAAKMKADA3AAD2CwAw6QQAAKQKADDqBAAA9QsAMOsEAAClCgAg7AQAAKYKADDtBAAApgoAMO4EAACmCgAw7wQAAKYKADDwBAAA9wsAMPEEAAD4CwAwCzYAAJ0KADA3AADwCwAw6QQAAJ4KADDqBAAA7wsAMOsEAACfCgAg7AQAAKAKADDtBAAAoAoAMO4EAACgCgAw7wQAAKAKADDwBAAA8QsAMPEEAACJCwAwCzYAAJgKADA3AADrCwAw6QQAAJkKADDqBAAA6gsAMOsEAACaCgAg7AQAAOIJADDtBAAA4gkAMO4EAADiCQAw7wQAAOIJADDwBAAA7AsAMPEEAADlCQAwCzYAAI8KADA3AADmCwAw6QQAAJAKADDqBAAA5QsAMOsEAACRCgAg7AQAAKcJADDtBAAApwkAMO4EAACnCQAw7wQAAKcJADDwBAAA5wsAMPEEAACqCQAwCzYAAIkKADA3AADgCwAw6QQAAIoKADDqBAAA3wsAMOsEAACLCgAg7AQAAIwKADDtBAAAjAoAMO4EAACMCgAw7wQAAIwKADDwBAAA4QsAMPEEAADYCgAwCzYAAIEKADA3AADVCwAw6QQAAIIKADDqBAAA1AsAMOsEAACDCgAg7AQAAIQKADDtBAAAhAoAMO4EAACECgAw7wQAAIQKADDwBAAA1gsAMPEEAADXCwAwAwAAAAEAIDYAAIUKACA3AADaCwAgAgAAAAEAIC8AANoLACACAAAA2AsAIC8AANkLACAJggQAANcLADCDBAAA2AsAEIQEAADXCwAwhQQBANsGACGWBEAA3gYAIZcEQADeBgAhnQQAANwGACCmBAEA2wYAIcAEAQDbBgAhCYIEAADXCwAwgwQAANgLABCEBAAA1wsAMIUEAQDbBgAhlgRAAN4GACGXBEAA3gYAIZ0EAADcBgAgpgQBANsGACHABAEA2wYAIQWFBAEA9QcAIZYEQAD8BwAhlwRAAPwHACGdBIAAAAABwAQBAPUHACEGJwAA2wsAIIUEAQD1BwAhlgRAAPwHACGXBEAA_AcAIZ0EgAAAAAHABAEA9QcAIQc2AACHCgAgNwAA3QsAIOkEAACICgAg6gQAANwLACDtBAAAAwAg7gQAAAMAIO8EAACPAQAgAwAAAAMAIDYAAIcKACA3AADeCwAgDgAAAAMAIAsAAIoIACAnAACHCAAgKQAAiQgAIC8AAN4LACCFBAEA9QcAIZYEQAD8BwAhlwRAAPwHACGdBIAAAAABnwQAAIUInwQioAQgAPYHACGhBAEAhggAIaIEAQD1BwAhowQBAPUHACEMCwAAiggAICcAAIcIACApAACJCAAghQQBAPUHACGWBEAA_AcAIZcEQAD8BwAhnQSAAAAAAZ8EAACFCJ8EIqAEIAD2BwAhoQQBAIYIACGiBAEA9QcAIaMEAQD1BwAhAwAAAF0AIDYAAI0KACA3AADjCwAgAgAAAF0AIC8AAOMLACACAAAA2QoAIC8AAOILACAIkwQBAPUHACGUBAEA9QcAIZYEQAD8BwAhlwRAAPwHACGdBIAAAAAB0wQBAIYIACHeBAEA9QcAId8EAgDtCAAhCQcAAOQLACCTBAEA9QcAIZQEAQD1BwAhlgRAAPwHACGXBEAA_AcAIZ0EgAAAAAHTBAEAhggAId4EAQD1BwAh3wQCAO0IACEFNgAA4A0AIDcAAOMNACDpBAAA4Q0AIOoEAADiDQAg7wQAABMAIAMAAABRACA2AACSCgAgNwAA6QsAIAIAAABRACAvAADpCwAgAgAAAKsJACAvAADoCwAgBw6AAAAAAYUEAQD1BwAhkwQBAIYIACGUBAEAhggAIZYEQAD8BwAhlwRAAPwHACGdBIAAAAABCQcAAK4JACAOgAAAAAEUAADzCgAghQQBAPUHACGTBAEAhggAIZQEAQCGCAAhlgRAAPwHACGXBEAA_AcAIZ0EgAAAAAEDAAAAPwAgNgAAmwoAIDcAAO4LACACAAAAPwAgLwAA7gsAIAIAAADmCQAgLwAA7QsAIAiFBAEA9QcAIZMEAQCGCAAhlAQBAIYIACGWBEAA_AcAIZcEQAD8BwAhnQSAAAAAAZ8EAADfCLEEIqsEgAAAAAELBwAA4AgAIBQAAOMIACAaAADiCAAghQQBAPUHACGTBAEAhggAIZQEAQCGCAAhlgRAAPwHACGXBEAA_AcAIZ0EgAAAAAGfBAAA3wixBCKrBIAAAAABAwAAADkAIDYAAKEKACA3AADzCwAgAgAAADkAIC8AAPMLACACAAAAigsAIC8AAPILACAIDoAAAAABhQQBAPUHACGTBAEAhggAIZQEAQCGCAAhlgRAAPwHACGXBEAA_AcAIZ0EgAAAAAGxBAEAhggAIQkHAAD0CwAgDoAAAAABhQQBAPUHACGTBAEAhggAIZQEAQCGCAAhlgRAAPwHACGXBEAA_AcAIZ0EgAAAAAGxBAEAhggAIQc2AADbDQAgNwAA3g0AIOkEAADcDQAg6gQAAN0NACDtBAAAEQAg7gQAABEAIO8EAAATACADAAAABwAgNgAApwoAIDcAAPsLACACAAAABwAgLwAA-wsAIAIAAAD5CwAgLwAA-gsAIAeCBAAA-AsAMIMEAAD5CwAQhAQAAPgLADCFBAEA2wYAIZYEQADeBgAhpQQBANsGACGmBAEA2wYAIQeCBAAA-AsAMIMEAAD5CwAQhAQAAPgLADCFBAEA2wYAIZYEQADeBgAhpQQBANsGACGmBAEA2wYAIQOFBAEA9QcAIZYEQAD8BwAhpQQBAPUHACEEJgAAqwgAIIUEAQD1BwAhlgRAAPwHACGlBAEA9QcAIQsEAADzCQAgFQAAlwoAIBwAAPYJACAkAAD0CQAghQQBAAAAAZYEQAAAAAGXBEAAAAABnQSAAAAAAdUEAQAAAAHgBAIAAAAB4QQCAAAAAQMAAABFACA2AADxCQAgNwAAgwwAIAIAAABFACAvAACDDAAgAgAAAIEMACAvAACCDAAgB4IEAACADAAwgwQAAIEMABCEBAAAgAwAMIUEAQDbBgAhrQQBANsGACGuBEAA3gYAIa8EQACBBwAhB4IEAACADAAwgwQAAIEMABCEBAAAgAwAMIUEAQDbBgAhrQQBANsGACGuBEAA3gYAIa8EQACBBwAhA4UEAQD1BwAhrgRAAPwHACGvBEAAywgAIQQLAADNCAAghQQBAPUHACGuBEAA_AcAIa8EQADLCAAhAAAACjYAAIgMADA3AACLDAAw6QQAAIkMADDqBAAAigwAMOwEAADnCAAw7QQAAOcIADDuBAAA5wgAMO8EAADnCAAw8AQAAIwMADDxBAAA6ggAMAsVAACXCgAgGwAA9QkAIBwAAPYJACAkAAD0CQAghQQBAAAAAZYEQAAAAAGXBEAAAAABnQSAAAAAAdUEAQAAAAHgBAIAAAAB4QQCAAAAAQIAAAALACA2AACPDAAgAwAAAAsAIDYAAI8MACA3AACODAAgAgAAAAsAIC8AAI4MACACAAAA6wgAIC8AAI0MACAHhQQBAPUHACGWBEAA_AcAIZcEQAD8BwAhnQSAAAAAAdUEAQD1BwAh4AQCAO0IACHhBAIA7QgAIQsVAADyCAAgGwAA3gkAIBwAAPEIACAkAADwCAAghQQBAPUHACGWBEAA_AcAIZcEQAD8BwAhnQSAAAAAAdUEAQD1BwAh4AQCAO0IACHhBAIA7QgAIQsVAACXCgAgGwAA9QkAIBwAAPYJACAkAAD0CQAghQQBAAAAAZYEQAAAAAGXBEAAAAABnQSAAAAAAdUEAQAAAAHgBAIAAAAB4QQCAAAAAQM2AACIDAAw6QQAAIkMADDvBAAA5wgAMAAAAAAAAAAAAAc2AADWDQAgNwAA2Q0AIOkEAADXDQAg6gQAANgNACDtBAAAEQAg7gQAABEAIO8EAAATACADNgAA1g0AIOkEAADXDQAg7wQAABMAIAAAAAAABTYAANENACA3AADUDQAg6QQAANINACDqBAAA0w0AIO8EAAATACADNgAA0Q0AIOkEAADSDQAg7wQAABMAIAAAAAHsBAAAALkEAgHsBAAAALoEAgs2AAC9DAAwNwAAwQwAMOkEAAC-DAAw6gQAAL8MADDrBAAAwAwAIOwEAACUCwAw7QQAAJQLADDuBAAAlAsAMO8EAACUCwAw8AQAAMIMADDxBAAAlwsAMAs2AAC0DAAwNwAAuAwAMOkEAAC1DAAw6gQAALYMADDrBAAAtwwAIOwEAAC6CgAw7QQAALoKADDuBAAAugoAMO8EAAC6CgAw8AQAALkMADDxBAAAvQoAMAs2AACrDAAwNwAArwwAMOkEAACsDAAw6gQAAK0MADDrBAAArgwAIOwEAAD2CAAw7QQAAPYIADDuBAAA9ggAMO8EAAD2CAAw8AQAALAMADDxBAAA-QgAMA0HAAChCQAgDgAAngkAIA8AAJ8JACASAACiCQAgEwAAowkAIBQAAKkKACCFBAEAAAABkwQBAAAAAZYEQAAAAAHaBAEAAAAB2wQBAAAAAdwEgAAAAAHdBIAAAAABAgAAACUAIDYAALMMACADAAAAJQAgNgAAswwAIDcAALIMACABLwAA0A0AMAIAAAAlACAvAACyDAAgAgAAAPoIACAvAACxDAAgB4UEAQD1BwAhkwQBAPUHACGWBEAA_AcAIdoEAQD1BwAh2wQBAPUHACHcBIAAAAAB3QSAAAAAAQ0HAACACQAgDgAA_QgAIA8AAP4IACASAACBCQAgEwAAggkAIBQAANYJACCFBAEA9QcAIZMEAQD1BwAhlgRAAPwHACHaBAEA9QcAIdsEAQD1BwAh3ASAAAAAAd0EgAAAAAENBwAAoQkAIA4AAJ4JACAPAACfCQAgEgAAogkAIBMAAKMJACAUAACpCgAghQQBAAAAAZMEAQAAAAGWBEAAAAAB2gQBAAAAAdsEAQAAAAHcBIAAAAAB3QSAAAAAAQUHAACbDAAgDgEAAAABhQQBAAAAAYcEIAAAAAGTBAEAAAABAgAAACAAIDYAALwMACADAAAAIAAgNgAAvAwAIDcAALsMACABLwAAzw0AMAIAAAAgACAvAAC7DAAgAgAAAL4KACAvAAC6DAAgBA4BAPUHACGFBAEA9QcAIYcEIAD2BwAhkwQBAIYIACEFBwAAmgwAIA4BAPUHACGFBAEA9QcAIYcEIAD2BwAhkwQBAIYIACEFBwAAmwwAIA4BAAAAAYUEAQAAAAGHBCAAAAABkwQBAAAAAQkHAACiDAAgkwQBAAAAAZ8EAAAAtAQCrgRAAAAAAa8EQAAAAAG0BAIAAAABtQQCAAAAAbYEgAAAAAG3BIAAAAABAgAAABsAIDYAAMUMACADAAAAGwAgNgAAxQwAIDcAAMQMACABLwAAzg0AMAIAAAAbACAvAADEDAAgAgAAAJgLACAvAADDDAAgCJMEAQD1BwAhnwQAAJoLtAQirgRAAMsIACGvBEAAywgAIbQEAgC-CQAhtQQCAL4JACG2BIAAAAABtwSAAAAAAQkHAAChDAAgkwQBAPUHACGfBAAAmgu0BCKuBEAAywgAIa8EQADLCAAhtAQCAL4JACG1BAIAvgkAIbYEgAAAAAG3BIAAAAABCQcAAKIMACCTBAEAAAABnwQAAAC0BAKuBEAAAAABrwRAAAAAAbQEAgAAAAG1BAIAAAABtgSAAAAAAbcEgAAAAAEENgAAvQwAMOkEAAC-DAAw6wQAAMAMACDvBAAAlAsAMAQ2AAC0DAAw6QQAALUMADDrBAAAtwwAIO8EAAC6CgAwBDYAAKsMADDpBAAArAwAMOsEAACuDAAg7wQAAPYIADAAAAAAAAAAAAAAAAAFNgAAyQ0AIDcAAMwNACDpBAAAyg0AIOoEAADLDQAg7wQAABMAIAM2AADJDQAg6QQAAMoNACDvBAAAEwAgGgUAANcMACAGAACrDQAgCAAArA0AIAkAAMkMACAUAAChDQAgFQAAywwAIBcAAK0NACAbAACuDQAgHAAArw0AIB0AALANACAeAACxDQAgHwAAsg0AICEAAJ4NACAiAADKDAAgIwAAsw0AILQEAACBCAAgtgQAAIEIACC3BAAAgQgAIMkEAACBCAAgygQAAIEIACDLBAAAgQgAIMwEAACBCAAgzQQAAIEIACDOBAAAgQgAIM8EAACBCAAg0AQAAIEIACAAAAAFNgAAxA0AIDcAAMcNACDpBAAAxQ0AIOoEAADGDQAg7wQAABMAIAM2AADEDQAg6QQAAMUNACDvBAAAEwAgAAAAAAAAAAAAAAAFNgAAvw0AIDcAAMINACDpBAAAwA0AIOoEAADBDQAg7wQAABMAIAM2AAC_DQAg6QQAAMANACDvBAAAEwAgAAAACzYAAO4MADA3AADyDAAw6QQAAO8MADDqBAAA8AwAMOsEAADxDAAg7AQAAPYIADDtBAAA9ggAMO4EAAD2CAAw7wQAAPYIADDwBAAA8wwAMPEEAAD5CAAwDQcAAKEJACAKAACgCQAgDwAAnwkAIBIAAKIJACATAACjCQAgFAAAqQoAIIUEAQAAAAGTBAEAAAABlgRAAAAAAbIEAQAAAAHbBAEAAAAB3ASAAAAAAd0EgAAAAAECAAAAJQAgNgAA9gwAIAMAAAAlACA2AAD2DAAgNwAA9QwAIAEvAAC-DQAwAgAAACUAIC8AAPUMACACAAAA-ggAIC8AAPQMACAHhQQBAPUHACGTBAEA9QcAIZYEQAD8BwAhsgQBAPUHACHbBAEA9QcAIdwEgAAAAAHdBIAAAAABDQcAAIAJACAKAAD_CAAgDwAA_ggAIBIAAIEJACATAACCCQAgFAAA1gkAIIUEAQD1BwAhkwQBAPUHACGWBEAA_AcAIbIEAQD1BwAh2wQBAPUHACHcBIAAAAAB3QSAAAAAAQ0HAAChCQAgCgAAoAkAIA8AAJ8JACASAACiCQAgEwAAowkAIBQAAKkKACCFBAEAAAABkwQBAAAAAZYEQAAAAAGyBAEAAAAB2wQBAAAAAdwEgAAAAAHdBIAAAAABBDYAAO4MADDpBAAA7wwAMOsEAADxDAAg7wQAAPYIADAAAAAAAAAAAAALNgAAgg0AMDcAAIYNADDpBAAAgw0AMOoEAACEDQAw6wQAAIUNACDsBAAA9ggAMO0EAAD2CAAw7gQAAPYIADDvBAAA9ggAMPAEAACHDQAw8QQAAPkIADANBwAAoQkAIAoAAKAJACAOAACeCQAgEgAAogkAIBMAAKMJACAUAACpCgAghQQBAAAAAZMEAQAAAAGWBEAAAAABsgQBAAAAAdoEAQAAAAHcBIAAAAAB3QSAAAAAAQIAAAAlACA2AACKDQAgAwAAACUAIDYAAIoNACA3AACJDQAgAS8AAL0NADACAAAAJQAgLwAAiQ0AIAIAAAD6CAAgLwAAiA0AIAeFBAEA9QcAIZMEAQD1BwAhlgRAAPwHACGyBAEA9QcAIdoEAQD1BwAh3ASAAAAAAd0EgAAAAAENBwAAgAkAIAoAAP8IACAOAAD9CAAgEgAAgQkAIBMAAIIJACAUAADWCQAghQQBAPUHACGTBAEA9QcAIZYEQAD8BwAhsgQBAPUHACHaBAEA9QcAIdwEgAAAAAHdBIAAAAABDQcAAKEJACAKAACgCQAgDgAAngkAIBIAAKIJACATAACjCQAgFAAAqQoAIIUEAQAAAAGTBAEAAAABlgRAAAAAAbIEAQAAAAHaBAEAAAAB3ASAAAAAAd0EgAAAAAEENgAAgg0AMOkEAACDDQAw6wQAAIUNACDvBAAA9ggAMAAAAAAAAAAAAAAAAAAFNgAAuA0AIDcAALsNACDpBAAAuQ0AIOoEAAC6DQAg7wQAAA8AIAM2AAC4DQAg6QQAALkNACDvBAAADwAgBQsAAJ8NACAnAACcDQAgKAAAnQ0AICkAAJ4NACChBAAAgQgAIAIWAACgDQAgJgAAtw0AIAIWAACgDQAgJwAAmw0AIAAABwMAALQNACAUAAChDQAgFwAArQ0AIBsAAK4NACAcAACvDQAgHgAAsQ0AICUAALUNACAAAwsAAKQNACAYAACjDQAgrwQAAIEIACAHBwAA1wwAIBQAAKENACAWAACgDQAgGgAApQ0AIJMEAACBCAAglAQAAIEIACCmBAAAgQgAIAAABwcAANcMACAKAACpDQAgDgAApw0AIA8AAKgNACASAACqDQAgEwAAqg0AIBQAAKENACACDAAAywwAIJ0EAACBCAAgAQwAAMsMACAFCQAAyQwAIAsAAMoMACAVAADLDAAgrwQAAIEIACC8BAAAgQgAIAAAAwcAANcMACC2BAAAgQgAINMEAACBCAAgAAAAAAABBwAA1wwAIAAAAAAACgMAAPsJACAUAACQDAAgFwAA_AkAIBsAAP0JACAcAAD-CQAgHgAA_wkAIIUEAQAAAAGWBEAAAAABlwRAAAAAAZ0EgAAAAAECAAAADwAgNgAAuA0AIAMAAAANACA2AAC4DQAgNwAAvA0AIAwAAAANACADAADOCwAgFAAAhwwAIBcAAM8LACAbAADQCwAgHAAA0QsAIB4AANILACAvAAC8DQAghQQBAPUHACGWBEAA_AcAIZcEQAD8BwAhnQSAAAAAAQoDAADOCwAgFAAAhwwAIBcAAM8LACAbAADQCwAgHAAA0QsAIB4AANILACCFBAEA9QcAIZYEQAD8BwAhlwRAAPwHACGdBIAAAAABB4UEAQAAAAGTBAEAAAABlgRAAAAAAbIEAQAAAAHaBAEAAAAB3ASAAAAAAd0EgAAAAAEHhQQBAAAAAZMEAQAAAAGWBEAAAAABsgQBAAAAAdsEAQAAAAHcBIAAAAAB3QSAAAAAAR8FAADGCwAgBgAAtwsAIAkAALkLACAUAADBCwAgFQAAxAsAIBcAALoLACAbAAC7CwAgHAAAvAsAIB0AAL0LACAeAAC-CwAgHwAAvwsAICEAAMALACAiAADCCwAgIwAAwwsAIIUEAQAAAAGfBAAAAMYEArQEAgAAAAG2BIAAAAABtwSAAAAAAcQEAQAAAAHHBAAAAMcEAsgEAQAAAAHJBAEAAAABygQCAAAAAcsEAgAAAAHMBAIAAAABzQQCAAAAAc4EAgAAAAHPBIAAAAAB0ASAAAAAAdEEIAAAAAECAAAAEwAgNgAAvw0AIAMAAAARACA2AAC_DQAgNwAAww0AICEAAAARACAFAADACQAgBgAAwQkAIAkAAMMJACAUAACtCwAgFQAAzQkAIBcAAMQJACAbAADFCQAgHAAAxgkAIB0AAMcJACAeAADICQAgHwAAyQkAICEAAMoJACAiAADLCQAgIwAAzAkAIC8AAMMNACCFBAEA9QcAIZ8EAAC8CcYEIrQEAgC-CQAhtgSAAAAAAbcEgAAAAAHEBAEA9QcAIccEAAC9CccEIsgEAQD1BwAhyQQBAIYIACHKBAIAvgkAIcsEAgC-CQAhzAQCAL4JACHNBAIAvgkAIc4EAgC-CQAhzwSAAAAAAdAEgAAAAAHRBCAA9gcAIR8FAADACQAgBgAAwQkAIAkAAMMJACAUAACtCwAgFQAAzQkAIBcAAMQJACAbAADFCQAgHAAAxgkAIB0AAMcJACAeAADICQAgHwAAyQkAICEAAMoJACAiAADLCQAgIwAAzAkAIIUEAQD1BwAhnwQAALwJxgQitAQCAL4JACG2BIAAAAABtwSAAAAAAcQEAQD1BwAhxwQAAL0JxwQiyAQBAPUHACHJBAEAhggAIcoEAgC-CQAhywQCAL4JACHMBAIAvgkAIc0EAgC-CQAhzgQCAL4JACHPBIAAAAAB0ASAAAAAAdEEIAD2BwAhHwUAAMYLACAGAAC3CwAgCAAAuAsAIAkAALkLACAUAADBCwAgFQAAxAsAIBcAALoLACAbAAC7CwAgHAAAvAsAIB0AAL0LACAeAAC-CwAgHwAAvwsAICEAAMALACAiAADCCwAghQQBAAAAAZ8EAAAAxgQCtAQCAAAAAbYEgAAAAAG3BIAAAAABxAQBAAAAAccEAAAAxwQCyAQBAAAAAckEAQAAAAHKBAIAAAABywQCAAAAAcwEAgAAAAHNBAIAAAABzgQCAAAAAc8EgAAAAAHQBIAAAAAB0QQgAAAAAQIAAAATACA2AADEDQAgAwAAABEAIDYAAMQNACA3AADIDQAgIQAAABEAIAUAAMAJACAGAADBCQAgCAAAwgkAIAkAAMMJACAUAACtCwAgFQAAzQkAIBcAAMQJACAbAADFCQAgHAAAxgkAIB0AAMcJACAeAADICQAgHwAAyQkAICEAAMoJACAiAADLCQAgLwAAyA0AIIUEAQD1BwAhnwQAALwJxgQitAQCAL4JACG2BIAAAAABtwSAAAAAAcQEAQD1BwAhxwQAAL0JxwQiyAQBAPUHACHJBAEAhggAIcoEAgC-CQAhywQCAL4JACHMBAIAvgkAIc0EAgC-CQAhzgQCAL4JACHPBIAAAAAB0ASAAAAAAdEEIAD2BwAhHwUAAMAJACAGAADBCQAgCAAAwgkAIAkAAMMJACAUAACtCwAgFQAAzQkAIBcAAMQJACAbAADFCQAgHAAAxgkAIB0AAMcJACAeAADICQAgHwAAyQkAICEAAMoJACAiAADLCQAghQQBAPUHACGfBAAAvAnGBCK0BAIAvgkAIbYEgAAAAAG3BIAAAAABxAQBAPUHACHHBAAAvQnHBCLIBAEA9QcAIckEAQCGCAAhygQCAL4JACHLBAIAvgkAIcwEAgC-CQAhzQQCAL4JACHOBAIAvgkAIc8EgAAAAAHQBIAAAAAB0QQgAPYHACEfBQAAxgsAIAYAALcLACAIAAC4CwAgCQAAuQsAIBQAAMELACAVAADECwAgFwAAugsAIBsAALsLACAcAAC8CwAgHQAAvQsAIB4AAL4LACAhAADACwAgIgAAwgsAICMAAMMLACCFBAEAAAABnwQAAADGBAK0BAIAAAABtgSAAAAAAbcEgAAAAAHEBAEAAAABxwQAAADHBALIBAEAAAAByQQBAAAAAcoEAgAAAAHLBAIAAAABzAQCAAAAAc0EAgAAAAHOBAIAAAABzwSAAAAAAdAEgAAAAAHRBCAAAAABAgAAABMAIDYAAMkNACADAAAAEQAgNgAAyQ0AIDcAAM0NACAhAAAAEQAgBQAAwAkAIAYAAMEJACAIAADCCQAgCQAAwwkAIBQAAK0LACAVAADNCQAgFwAAxAkAIBsAAMUJACAcAADGCQAgHQAAxwkAIB4AAMgJACAhAADKCQAgIgAAywkAICMAAMwJACAvAADNDQAghQQBAPUHACGfBAAAvAnGBCK0BAIAvgkAIbYEgAAAAAG3BIAAAAABxAQBAPUHACHHBAAAvQnHBCLIBAEA9QcAIckEAQCGCAAhygQCAL4JACHLBAIAvgkAIcwEAgC-CQAhzQQCAL4JACHOBAIAvgkAIc8EgAAAAAHQBIAAAAAB0QQgAPYHACEfBQAAwAkAIAYAAMEJACAIAADCCQAgCQAAwwkAIBQAAK0LACAVAADNCQAgFwAAxAkAIBsAAMUJACAcAADGCQAgHQAAxwkAIB4AAMgJACAhAADKCQAgIgAAywkAICMAAMwJACCFBAEA9QcAIZ8EAAC8CcYEIrQEAgC-CQAhtgSAAAAAAbcEgAAAAAHEBAEA9QcAIccEAAC9CccEIsgEAQD1BwAhyQQBAIYIACHKBAIAvgkAIcsEAgC-CQAhzAQCAL4JACHNBAIAvgkAIc4EAgC-CQAhzwSAAAAAAdAEgAAAAAHRBCAA9gcAIQiTBAEAAAABnwQAAAC0BAKuBEAAAAABrwRAAAAAAbQEAgAAAAG1BAIAAAABtgSAAAAAAbcEgAAAAAEEDgEAAAABhQQBAAAAAYcEIAAAAAGTBAEAAAABB4UEAQAAAAGTBAEAAAABlgRAAAAAAdoEAQAAAAHbBAEAAAAB3ASAAAAAAd0EgAAAAAEfBQAAxgsAIAYAALcLACAIAAC4CwAgFAAAwQsAIBUAAMQLACAXAAC6CwAgGwAAuwsAIBwAALwLACAdAAC9CwAgHgAAvgsAIB8AAL8LACAhAADACwAgIgAAwgsAICMAAMMLACCFBAEAAAABnwQAAADGBAK0BAIAAAABtgSAAAAAAbcEgAAAAAHEBAEAAAABxwQAAADHBALIBAEAAAAByQQBAAAAAcoEAgAAAAHLBAIAAAABzAQCAAAAAc0EAgAAAAHOBAIAAAABzwSAAAAAAdAEgAAAAAHRBCAAAAABAgAAABMAIDYAANENACADAAAAEQAgNgAA0Q0AIDcAANUNACAhAAAAEQAgBQAAwAkAIAYAAMEJACAIAADCCQAgFAAArQsAIBUAAM0JACAXAADECQAgGwAAxQkAIBwAAMYJACAdAADHCQAgHgAAyAkAIB8AAMkJACAhAADKCQAgIgAAywkAICMAAMwJACAvAADVDQAghQQBAPUHACGfBAAAvAnGBCK0BAIAvgkAIbYEgAAAAAG3BIAAAAABxAQBAPUHACHHBAAAvQnHBCLIBAEA9QcAIckEAQCGCAAhygQCAL4JACHLBAIAvgkAIcwEAgC-CQAhzQQCAL4JACHOBAIAvgkAIc8EgAAAAAHQBIAAAAAB0QQgAPYHACEfBQAAwAkAIAYAAMEJACAIAADCCQAgFAAArQsAIBUAAM0JACAXAADECQAgGwAAxQkAIBwAAMYJACAdAADHCQAgHgAAyAkAIB8AAMkJACAhAADKCQAgIgAAywkAICMAAMwJACCFBAEA9QcAIZ8EAAC8CcYEIrQEAgC-CQAhtgSAAAAAAbcEgAAAAAHEBAEA9QcAIccEAAC9CccEIsgEAQD1BwAhyQQBAIYIACHKBAIAvgkAIcsEAgC-CQAhzAQCAL4JACHNBAIAvgkAIc4EAgC-CQAhzwSAAAAAAdAEgAAAAAHRBCAA9gcAIR8FAADGCwAgBgAAtwsAIAgAALgLACAJAAC5CwAgFAAAwQsAIBUAAMQLACAXAAC6CwAgGwAAuwsAIBwAALwLACAdAAC9CwAgHgAAvgsAIB8AAL8LACAhAADACwAgIwAAwwsAIIUEAQAAAAGfBAAAAMYEArQEAgAAAAG2BIAAAAABtwSAAAAAAcQEAQAAAAHHBAAAAMcEAsgEAQAAAAHJBAEAAAABygQCAAAAAcsEAgAAAAHMBAIAAAABzQQCAAAAAc4EAgAAAAHPBIAAAAAB0ASAAAAAAdEEIAAAAAECAAAAEwAgNgAA1g0AIAMAAAARACA2AADWDQAgNwAA2g0AICEAAAARACAFAADACQAgBgAAwQkAIAgAAMIJACAJAADDCQAgFAAArQsAIBUAAM0JACAXAADECQAgGwAAxQkAIBwAAMYJACAdAADHCQAgHgAAyAkAIB8AAMkJACAhAADKCQAgIwAAzAkAIC8AANoNACCFBAEA9QcAIZ8EAAC8CcYEIrQEAgC-CQAhtgSAAAAAAbcEgAAAAAHEBAEA9QcAIccEAAC9CccEIsgEAQD1BwAhyQQBAIYIACHKBAIAvgkAIcsEAgC-CQAhzAQCAL4JACHNBAIAvgkAIc4EAgC-CQAhzwSAAAAAAdAEgAAAAAHRBCAA9gcAIR8FAADACQAgBgAAwQkAIAgAAMIJACAJAADDCQAgFAAArQsAIBUAAM0JACAXAADECQAgGwAAxQkAIBwAAMYJACAdAADHCQAgHgAAyAkAIB8AAMkJACAhAADKCQAgIwAAzAkAIIUEAQD1BwAhnwQAALwJxgQitAQCAL4JACG2BIAAAAABtwSAAAAAAcQEAQD1BwAhxwQAAL0JxwQiyAQBAPUHACHJBAEAhggAIcoEAgC-CQAhywQCAL4JACHMBAIAvgkAIc0EAgC-CQAhzgQCAL4JACHPBIAAAAAB0ASAAAAAAdEEIAD2BwAhHwUAAMYLACAGAAC3CwAgCAAAuAsAIAkAALkLACAUAADBCwAgFQAAxAsAIBsAALsLACAcAAC8CwAgHQAAvQsAIB4AAL4LACAfAAC_CwAgIQAAwAsAICIAAMILACAjAADDCwAghQQBAAAAAZ8EAAAAxgQCtAQCAAAAAbYEgAAAAAG3BIAAAAABxAQBAAAAAccEAAAAxwQCyAQBAAAAAckEAQAAAAHKBAIAAAABywQCAAAAAcwEAgAAAAHNBAIAAAABzgQCAAAAAc8EgAAAAAHQBIAAAAAB0QQgAAAAAQIAAAATACA2AADbDQAgAwAAABEAIDYAANsNACA3AADfDQAgIQAAABEAIAUAAMAJACAGAADBCQAgCAAAwgkAIAkAAMMJACAUAACtCwAgFQAAzQkAIBsAAMUJACAcAADGCQAgHQAAxwkAIB4AAMgJACAfAADJCQAgIQAAygkAICIAAMsJACAjAADMCQAgLwAA3w0AIIUEAQD1BwAhnwQAALwJxgQitAQCAL4JACG2BIAAAAABtwSAAAAAAcQEAQD1BwAhxwQAAL0JxwQiyAQBAPUHACHJBAEAhggAIcoEAgC-CQAhywQCAL4JACHMBAIAvgkAIc0EAgC-CQAhzgQCAL4JACHPBIAAAAAB0ASAAAAAAdEEIAD2BwAhHwUAAMAJACAGAADBCQAgCAAAwgkAIAkAAMMJACAUAACtCwAgFQAAzQkAIBsAAMUJACAcAADGCQAgHQAAxwkAIB4AAMgJACAfAADJCQAgIQAAygkAICIAAMsJACAjAADMCQAghQQBAPUHACGfBAAAvAnGBCK0BAIAvgkAIbYEgAAAAAG3BIAAAAABxAQBAPUHACHHBAAAvQnHBCLIBAEA9QcAIckEAQCGCAAhygQCAL4JACHLBAIAvgkAIcwEAgC-CQAhzQQCAL4JACHOBAIAvgkAIc8EgAAAAAHQBIAAAAAB0QQgAPYHACEfBQAAxgsAIAYAALcLACAIAAC4CwAgCQAAuQsAIBQAAMELACAVAADECwAgFwAAugsAIBsAALsLACAcAAC8CwAgHQAAvQsAIB8AAL8LACAhAADACwAgIgAAwgsAICMAAMMLACCFBAEAAAABnwQAAADGBAK0BAIAAAABtgSAAAAAAbcEgAAAAAHEBAEAAAABxwQAAADHBALIBAEAAAAByQQBAAAAAcoEAgAAAAHLBAIAAAABzAQCAAAAAc0EAgAAAAHOBAIAAAABzwSAAAAAAdAEgAAAAAHRBCAAAAABAgAAABMAIDYAAOANACADAAAAEQAgNgAA4A0AIDcAAOQNACAhAAAAEQAgBQAAwAkAIAYAAMEJACAIAADCCQAgCQAAwwkAIBQAAK0LACAVAADNCQAgFwAAxAkAIBsAAMUJACAcAADGCQAgHQAAxwkAIB8AAMkJACAhAADKCQAgIgAAywkAICMAAMwJACAvAADkDQAghQQBAPUHACGfBAAAvAnGBCK0BAIAvgkAIbYEgAAAAAG3BIAAAAABxAQBAPUHACHHBAAAvQnHBCLIBAEA9QcAIckEAQCGCAAhygQCAL4JACHLBAIAvgkAIcwEAgC-CQAhzQQCAL4JACHOBAIAvgkAIc8EgAAAAAHQBIAAAAAB0QQgAPYHACEfBQAAwAkAIAYAAMEJACAIAADCCQAgCQAAwwkAIBQAAK0LACAVAADNCQAgFwAAxAkAIBsAAMUJACAcAADGCQAgHQAAxwkAIB8AAMkJACAhAADKCQAgIgAAywkAICMAAMwJACCFBAEA9QcAIZ8EAAC8CcYEIrQEAgC-CQAhtgSAAAAAAbcEgAAAAAHEBAEA9QcAIccEAAC9CccEIsgEAQD1BwAhyQQBAIYIACHKBAIAvgkAIcsEAgC-CQAhzAQCAL4JACHNBAIAvgkAIc4EAgC-CQAhzwSAAAAAAdAEgAAAAAHRBCAA9gcAIR8FAADGCwAgCAAAuAsAIAkAALkLACAUAADBCwAgFQAAxAsAIBcAALoLACAbAAC7CwAgHAAAvAsAIB0AAL0LACAeAAC-CwAgHwAAvwsAICEAAMALACAiAADCCwAgIwAAwwsAIIUEAQAAAAGfBAAAAMYEArQEAgAAAAG2BIAAAAABtwSAAAAAAcQEAQAAAAHHBAAAAMcEAsgEAQAAAAHJBAEAAAABygQCAAAAAcsEAgAAAAHMBAIAAAABzQQCAAAAAc4EAgAAAAHPBIAAAAAB0ASAAAAAAdEEIAAAAAECAAAAEwAgNgAA5Q0AIBCFBAEAAAABnwQAAADGBAK0BAIAAAABtgSAAAAAAbcEgAAAAAHEBAEAAAABxwQAAADHBALIBAEAAAABygQCAAAAAcsEAgAAAAHMBAIAAAABzQQCAAAAAc4EAgAAAAHPBIAAAAAB0ASAAAAAAdEEIAAAAAEMCwAAxwwAIBUAAMgMACCFBAEAAAABlwRAAAAAAZ0EgAAAAAGfBAAAALoEAqgEAAAAuQQCrgRAAAAAAa8EQAAAAAG6BIAAAAABuwSAAAAAAbwEgAAAAAECAAAA4QMAIDYAAOgNACADAAAA5AMAIDYAAOgNACA3AADsDQAgDgAAAOQDACALAACpDAAgFQAAqgwAIC8AAOwNACCFBAEA9QcAIZcEQAD8BwAhnQSAAAAAAZ8EAACnDLoEIqgEAACmDLkEIq4EQAD8BwAhrwRAAMsIACG6BIAAAAABuwSAAAAAAbwEgAAAAAEMCwAAqQwAIBUAAKoMACCFBAEA9QcAIZcEQAD8BwAhnQSAAAAAAZ8EAACnDLoEIqgEAACmDLkEIq4EQAD8BwAhrwRAAMsIACG6BIAAAAABuwSAAAAAAbwEgAAAAAEInwQAAAC0BAKuBEAAAAABrwRAAAAAAbIEAQAAAAG0BAIAAAABtQQCAAAAAbYEgAAAAAG3BIAAAAABCgMAAPsJACAUAACQDAAgGwAA_QkAIBwAAP4JACAeAAD_CQAgJQAAgAoAIIUEAQAAAAGWBEAAAAABlwRAAAAAAZ0EgAAAAAECAAAADwAgNgAA7g0AIAMAAAANACA2AADuDQAgNwAA8g0AIAwAAAANACADAADOCwAgFAAAhwwAIBsAANALACAcAADRCwAgHgAA0gsAICUAANMLACAvAADyDQAghQQBAPUHACGWBEAA_AcAIZcEQAD8BwAhnQSAAAAAAQoDAADOCwAgFAAAhwwAIBsAANALACAcAADRCwAgHgAA0gsAICUAANMLACCFBAEA9QcAIZYEQAD8BwAhlwRAAPwHACGdBIAAAAABCA6AAAAAAYUEAQAAAAGUBAEAAAABlgRAAAAAAZcEQAAAAAGdBIAAAAABpgQBAAAAAbEEAQAAAAEIhQQBAAAAAZQEAQAAAAGWBEAAAAABlwRAAAAAAZ0EgAAAAAGfBAAAALEEAqYEAQAAAAGrBIAAAAABBw6AAAAAAYUEAQAAAAGUBAEAAAABlgRAAAAAAZcEQAAAAAGdBIAAAAABpgQBAAAAAQaFBAEAAAABlAQBAAAAAZYEQAAAAAGXBEAAAAABnQSAAAAAAasEgAAAAAEKAwAA-wkAIBQAAJAMACAXAAD8CQAgGwAA_QkAIBwAAP4JACAlAACACgAghQQBAAAAAZYEQAAAAAGXBEAAAAABnQSAAAAAAQIAAAAPACA2AAD3DQAgAwAAAA0AIDYAAPcNACA3AAD7DQAgDAAAAA0AIAMAAM4LACAUAACHDAAgFwAAzwsAIBsAANALACAcAADRCwAgJQAA0wsAIC8AAPsNACCFBAEA9QcAIZYEQAD8BwAhlwRAAPwHACGdBIAAAAABCgMAAM4LACAUAACHDAAgFwAAzwsAIBsAANALACAcAADRCwAgJQAA0wsAIIUEAQD1BwAhlgRAAPwHACGXBEAA_AcAIZ0EgAAAAAEIlAQBAAAAAZYEQAAAAAGXBEAAAAABnQSAAAAAAaYEAQAAAAHTBAEAAAAB3gQBAAAAAd8EAgAAAAEFhgQBAAAAAZQEAQAAAAGVBIAAAAABlgRAAAAAAZcEQAAAAAEMCQAAxgwAIBUAAMgMACCFBAEAAAABlwRAAAAAAZ0EgAAAAAGfBAAAALoEAqgEAAAAuQQCrgRAAAAAAa8EQAAAAAG6BIAAAAABuwSAAAAAAbwEgAAAAAECAAAA4QMAIDYAAP4NACADAAAA5AMAIDYAAP4NACA3AACCDgAgDgAAAOQDACAJAACoDAAgFQAAqgwAIC8AAIIOACCFBAEA9QcAIZcEQAD8BwAhnQSAAAAAAZ8EAACnDLoEIqgEAACmDLkEIq4EQAD8BwAhrwRAAMsIACG6BIAAAAABuwSAAAAAAbwEgAAAAAEMCQAAqAwAIBUAAKoMACCFBAEA9QcAIZcEQAD8BwAhnQSAAAAAAZ8EAACnDLoEIqgEAACmDLkEIq4EQAD8BwAhrwRAAMsIACG6BIAAAAABuwSAAAAAAbwEgAAAAAEEDgEAAAABhQQBAAAAAYcEIAAAAAGyBAEAAAABAsIEAQAAAAHDBIAAAAABA4UEAQAAAAGWBEAAAAABpQQBAAAAAQgOgAAAAAGFBAEAAAABkwQBAAAAAZQEAQAAAAGWBEAAAAABlwRAAAAAAZ0EgAAAAAGxBAEAAAABCIUEAQAAAAGTBAEAAAABlAQBAAAAAZYEQAAAAAGXBEAAAAABnQSAAAAAAZ8EAAAAsQQCqwSAAAAAAQcOgAAAAAGFBAEAAAABkwQBAAAAAZQEAQAAAAGWBEAAAAABlwRAAAAAAZ0EgAAAAAEIkwQBAAAAAZQEAQAAAAGWBEAAAAABlwRAAAAAAZ0EgAAAAAHTBAEAAAAB3gQBAAAAAd8EAgAAAAEFhQQBAAAAAZYEQAAAAAGXBEAAAAABnQSAAAAAAcAEAQAAAAEDhQQBAAAAAa4EQAAAAAGvBEAAAAABCgMAAPsJACAUAACQDAAgFwAA_AkAIBwAAP4JACAeAAD_CQAgJQAAgAoAIIUEAQAAAAGWBEAAAAABlwRAAAAAAZ0EgAAAAAECAAAADwAgNgAAjA4AIB8FAADGCwAgBgAAtwsAIAgAALgLACAJAAC5CwAgFAAAwQsAIBUAAMQLACAXAAC6CwAgHAAAvAsAIB0AAL0LACAeAAC-CwAgHwAAvwsAICEAAMALACAiAADCCwAgIwAAwwsAIIUEAQAAAAGfBAAAAMYEArQEAgAAAAG2BIAAAAABtwSAAAAAAcQEAQAAAAHHBAAAAMcEAsgEAQAAAAHJBAEAAAABygQCAAAAAcsEAgAAAAHMBAIAAAABzQQCAAAAAc4EAgAAAAHPBIAAAAAB0ASAAAAAAdEEIAAAAAECAAAAEwAgNgAAjg4AIAeFBAEAAAABlgRAAAAAAbIEAQAAAAHaBAEAAAAB2wQBAAAAAdwEgAAAAAHdBIAAAAABAwAAABEAIDYAAOUNACA3AACTDgAgIQAAABEAIAUAAMAJACAIAADCCQAgCQAAwwkAIBQAAK0LACAVAADNCQAgFwAAxAkAIBsAAMUJACAcAADGCQAgHQAAxwkAIB4AAMgJACAfAADJCQAgIQAAygkAICIAAMsJACAjAADMCQAgLwAAkw4AIIUEAQD1BwAhnwQAALwJxgQitAQCAL4JACG2BIAAAAABtwSAAAAAAcQEAQD1BwAhxwQAAL0JxwQiyAQBAPUHACHJBAEAhggAIcoEAgC-CQAhywQCAL4JACHMBAIAvgkAIc0EAgC-CQAhzgQCAL4JACHPBIAAAAAB0ASAAAAAAdEEIAD2BwAhHwUAAMAJACAIAADCCQAgCQAAwwkAIBQAAK0LACAVAADNCQAgFwAAxAkAIBsAAMUJACAcAADGCQAgHQAAxwkAIB4AAMgJACAfAADJCQAgIQAAygkAICIAAMsJACAjAADMCQAghQQBAPUHACGfBAAAvAnGBCK0BAIAvgkAIbYEgAAAAAG3BIAAAAABxAQBAPUHACHHBAAAvQnHBCLIBAEA9QcAIckEAQCGCAAhygQCAL4JACHLBAIAvgkAIcwEAgC-CQAhzQQCAL4JACHOBAIAvgkAIc8EgAAAAAHQBIAAAAAB0QQgAPYHACEKAwAA-wkAIBQAAJAMACAXAAD8CQAgGwAA_QkAIB4AAP8JACAlAACACgAghQQBAAAAAZYEQAAAAAGXBEAAAAABnQSAAAAAAQIAAAAPACA2AACUDgAgHwUAAMYLACAGAAC3CwAgCAAAuAsAIAkAALkLACAUAADBCwAgFQAAxAsAIBcAALoLACAbAAC7CwAgHQAAvQsAIB4AAL4LACAfAAC_CwAgIQAAwAsAICIAAMILACAjAADDCwAghQQBAAAAAZ8EAAAAxgQCtAQCAAAAAbYEgAAAAAG3BIAAAAABxAQBAAAAAccEAAAAxwQCyAQBAAAAAckEAQAAAAHKBAIAAAABywQCAAAAAcwEAgAAAAHNBAIAAAABzgQCAAAAAc8EgAAAAAHQBIAAAAAB0QQgAAAAAQIAAAATACA2AACWDgAgAwAAAA0AIDYAAJQOACA3AACaDgAgDAAAAA0AIAMAAM4LACAUAACHDAAgFwAAzwsAIBsAANALACAeAADSCwAgJQAA0wsAIC8AAJoOACCFBAEA9QcAIZYEQAD8BwAhlwRAAPwHACGdBIAAAAABCgMAAM4LACAUAACHDAAgFwAAzwsAIBsAANALACAeAADSCwAgJQAA0wsAIIUEAQD1BwAhlgRAAPwHACGXBEAA_AcAIZ0EgAAAAAEDAAAAEQAgNgAAlg4AIDcAAJ0OACAhAAAAEQAgBQAAwAkAIAYAAMEJACAIAADCCQAgCQAAwwkAIBQAAK0LACAVAADNCQAgFwAAxAkAIBsAAMUJACAdAADHCQAgHgAAyAkAIB8AAMkJACAhAADKCQAgIgAAywkAICMAAMwJACAvAACdDgAghQQBAPUHACGfBAAAvAnGBCK0BAIAvgkAIbYEgAAAAAG3BIAAAAABxAQBAPUHACHHBAAAvQnHBCLIBAEA9QcAIckEAQCGCAAhygQCAL4JACHLBAIAvgkAIcwEAgC-CQAhzQQCAL4JACHOBAIAvgkAIc8EgAAAAAHQBIAAAAAB0QQgAPYHACEfBQAAwAkAIAYAAMEJACAIAADCCQAgCQAAwwkAIBQAAK0LACAVAADNCQAgFwAAxAkAIBsAAMUJACAdAADHCQAgHgAAyAkAIB8AAMkJACAhAADKCQAgIgAAywkAICMAAMwJACCFBAEA9QcAIZ8EAAC8CcYEIrQEAgC-CQAhtgSAAAAAAbcEgAAAAAHEBAEA9QcAIccEAAC9CccEIsgEAQD1BwAhyQQBAIYIACHKBAIAvgkAIcsEAgC-CQAhzAQCAL4JACHNBAIAvgkAIc4EAgC-CQAhzwSAAAAAAdAEgAAAAAHRBCAA9gcAIR8FAADGCwAgBgAAtwsAIAgAALgLACAJAAC5CwAgFAAAwQsAIBcAALoLACAbAAC7CwAgHAAAvAsAIB0AAL0LACAeAAC-CwAgHwAAvwsAICEAAMALACAiAADCCwAgIwAAwwsAIIUEAQAAAAGfBAAAAMYEArQEAgAAAAG2BIAAAAABtwSAAAAAAcQEAQAAAAHHBAAAAMcEAsgEAQAAAAHJBAEAAAABygQCAAAAAcsEAgAAAAHMBAIAAAABzQQCAAAAAc4EAgAAAAHPBIAAAAAB0ASAAAAAAdEEIAAAAAECAAAAEwAgNgAAng4AIAwJAADGDAAgCwAAxwwAIIUEAQAAAAGXBEAAAAABnQSAAAAAAZ8EAAAAugQCqAQAAAC5BAKuBEAAAAABrwRAAAAAAboEgAAAAAG7BIAAAAABvASAAAAAAQIAAADhAwAgNgAAoA4AIAOFBAEAAAABpQQBAAAAAagEAQAAAAECAAAA2gEAIDYAAKIOACADDoAAAAABnQSAAAAAAdUEAQAAAAECAAAAnwIAIDYAAKQOACAOBwAAoQkAIAoAAKAJACAOAACeCQAgDwAAnwkAIBIAAKIJACAUAACpCgAghQQBAAAAAZMEAQAAAAGWBEAAAAABsgQBAAAAAdoEAQAAAAHbBAEAAAAB3ASAAAAAAd0EgAAAAAECAAAAJQAgNgAApg4AIAMAAAAjACA2AACmDgAgNwAAqg4AIBAAAAAjACAHAACACQAgCgAA_wgAIA4AAP0IACAPAAD-CAAgEgAAgQkAIBQAANYJACAvAACqDgAghQQBAPUHACGTBAEA9QcAIZYEQAD8BwAhsgQBAPUHACHaBAEA9QcAIdsEAQD1BwAh3ASAAAAAAd0EgAAAAAEOBwAAgAkAIAoAAP8IACAOAAD9CAAgDwAA_ggAIBIAAIEJACAUAADWCQAghQQBAPUHACGTBAEA9QcAIZYEQAD8BwAhsgQBAPUHACHaBAEA9QcAIdsEAQD1BwAh3ASAAAAAAd0EgAAAAAEDyAQAAADZBALXBAEAAAAB2QQBAAAAAQ4HAAChCQAgCgAAoAkAIA4AAJ4JACAPAACfCQAgEwAAowkAIBQAAKkKACCFBAEAAAABkwQBAAAAAZYEQAAAAAGyBAEAAAAB2gQBAAAAAdsEAQAAAAHcBIAAAAAB3QSAAAAAAQIAAAAlACA2AACsDgAgAwAAACMAIDYAAKwOACA3AACwDgAgEAAAACMAIAcAAIAJACAKAAD_CAAgDgAA_QgAIA8AAP4IACATAACCCQAgFAAA1gkAIC8AALAOACCFBAEA9QcAIZMEAQD1BwAhlgRAAPwHACGyBAEA9QcAIdoEAQD1BwAh2wQBAPUHACHcBIAAAAAB3QSAAAAAAQ4HAACACQAgCgAA_wgAIA4AAP0IACAPAAD-CAAgEwAAggkAIBQAANYJACCFBAEA9QcAIZMEAQD1BwAhlgRAAPwHACGyBAEA9QcAIdoEAQD1BwAh2wQBAPUHACHcBIAAAAAB3QSAAAAAAQPIBAAAANkEAtYEAQAAAAHZBAEAAAABAwAAABEAIDYAAJ4OACA3AAC0DgAgIQAAABEAIAUAAMAJACAGAADBCQAgCAAAwgkAIAkAAMMJACAUAACtCwAgFwAAxAkAIBsAAMUJACAcAADGCQAgHQAAxwkAIB4AAMgJACAfAADJCQAgIQAAygkAICIAAMsJACAjAADMCQAgLwAAtA4AIIUEAQD1BwAhnwQAALwJxgQitAQCAL4JACG2BIAAAAABtwSAAAAAAcQEAQD1BwAhxwQAAL0JxwQiyAQBAPUHACHJBAEAhggAIcoEAgC-CQAhywQCAL4JACHMBAIAvgkAIc0EAgC-CQAhzgQCAL4JACHPBIAAAAAB0ASAAAAAAdEEIAD2BwAhHwUAAMAJACAGAADBCQAgCAAAwgkAIAkAAMMJACAUAACtCwAgFwAAxAkAIBsAAMUJACAcAADGCQAgHQAAxwkAIB4AAMgJACAfAADJCQAgIQAAygkAICIAAMsJACAjAADMCQAghQQBAPUHACGfBAAAvAnGBCK0BAIAvgkAIbYEgAAAAAG3BIAAAAABxAQBAPUHACHHBAAAvQnHBCLIBAEA9QcAIckEAQCGCAAhygQCAL4JACHLBAIAvgkAIcwEAgC-CQAhzQQCAL4JACHOBAIAvgkAIc8EgAAAAAHQBIAAAAAB0QQgAPYHACEDAAAA5AMAIDYAAKAOACA3AAC3DgAgDgAAAOQDACAJAACoDAAgCwAAqQwAIC8AALcOACCFBAEA9QcAIZcEQAD8BwAhnQSAAAAAAZ8EAACnDLoEIqgEAACmDLkEIq4EQAD8BwAhrwRAAMsIACG6BIAAAAABuwSAAAAAAbwEgAAAAAEMCQAAqAwAIAsAAKkMACCFBAEA9QcAIZcEQAD8BwAhnQSAAAAAAZ8EAACnDLoEIqgEAACmDLkEIq4EQAD8BwAhrwRAAMsIACG6BIAAAAABuwSAAAAAAbwEgAAAAAEDAAAA3QEAIDYAAKIOACA3AAC6DgAgBQAAAN0BACAvAAC6DgAghQQBAPUHACGlBAEA9QcAIagEAQD1BwAhA4UEAQD1BwAhpQQBAPUHACGoBAEA9QcAIQMAAACiAgAgNgAApA4AIDcAAL0OACAFAAAAogIAIA6AAAAAAS8AAL0OACCdBIAAAAAB1QQBAPUHACEDDoAAAAABnQSAAAAAAdUEAQD1BwAhAwAAAA0AIDYAAIwOACA3AADADgAgDAAAAA0AIAMAAM4LACAUAACHDAAgFwAAzwsAIBwAANELACAeAADSCwAgJQAA0wsAIC8AAMAOACCFBAEA9QcAIZYEQAD8BwAhlwRAAPwHACGdBIAAAAABCgMAAM4LACAUAACHDAAgFwAAzwsAIBwAANELACAeAADSCwAgJQAA0wsAIIUEAQD1BwAhlgRAAPwHACGXBEAA_AcAIZ0EgAAAAAEDAAAAEQAgNgAAjg4AIDcAAMMOACAhAAAAEQAgBQAAwAkAIAYAAMEJACAIAADCCQAgCQAAwwkAIBQAAK0LACAVAADNCQAgFwAAxAkAIBwAAMYJACAdAADHCQAgHgAAyAkAIB8AAMkJACAhAADKCQAgIgAAywkAICMAAMwJACAvAADDDgAghQQBAPUHACGfBAAAvAnGBCK0BAIAvgkAIbYEgAAAAAG3BIAAAAABxAQBAPUHACHHBAAAvQnHBCLIBAEA9QcAIckEAQCGCAAhygQCAL4JACHLBAIAvgkAIcwEAgC-CQAhzQQCAL4JACHOBAIAvgkAIc8EgAAAAAHQBIAAAAAB0QQgAPYHACEfBQAAwAkAIAYAAMEJACAIAADCCQAgCQAAwwkAIBQAAK0LACAVAADNCQAgFwAAxAkAIBwAAMYJACAdAADHCQAgHgAAyAkAIB8AAMkJACAhAADKCQAgIgAAywkAICMAAMwJACCFBAEA9QcAIZ8EAAC8CcYEIrQEAgC-CQAhtgSAAAAAAbcEgAAAAAHEBAEA9QcAIccEAAC9CccEIsgEAQD1BwAhyQQBAIYIACHKBAIAvgkAIcsEAgC-CQAhzAQCAL4JACHNBAIAvgkAIc4EAgC-CQAhzwSAAAAAAdAEgAAAAAHRBCAA9gcAIQwHAADqCQAgFAAAnAoAIBYAAOsJACCFBAEAAAABkwQBAAAAAZQEAQAAAAGWBEAAAAABlwRAAAAAAZ0EgAAAAAGfBAAAALEEAqYEAQAAAAGrBIAAAAABAgAAAD8AIDYAAMQOACACDgEAAAABhQQBAAAAAQMAAAA9ACA2AADEDgAgNwAAyQ4AIA4AAAA9ACAHAADgCAAgFAAA4wgAIBYAAOEIACAvAADJDgAghQQBAPUHACGTBAEAhggAIZQEAQCGCAAhlgRAAPwHACGXBEAA_AcAIZ0EgAAAAAGfBAAA3wixBCKmBAEAhggAIasEgAAAAAEMBwAA4AgAIBQAAOMIACAWAADhCAAghQQBAPUHACGTBAEAhggAIZQEAQCGCAAhlgRAAPwHACGXBEAA_AcAIZ0EgAAAAAGfBAAA3wixBCKmBAEAhggAIasEgAAAAAEFGAAA2ggAIIUEAQAAAAGtBAEAAAABrgRAAAAAAa8EQAAAAAECAAAARQAgNgAAyg4AIAMAAABDACA2AADKDgAgNwAAzg4AIAcAAABDACAYAADMCAAgLwAAzg4AIIUEAQD1BwAhrQQBAPUHACGuBEAA_AcAIa8EQADLCAAhBRgAAMwIACCFBAEA9QcAIa0EAQD1BwAhrgRAAPwHACGvBEAAywgAIR8FAADGCwAgBgAAtwsAIAgAALgLACAJAAC5CwAgFAAAwQsAIBUAAMQLACAXAAC6CwAgGwAAuwsAIBwAALwLACAeAAC-CwAgHwAAvwsAICEAAMALACAiAADCCwAgIwAAwwsAIIUEAQAAAAGfBAAAAMYEArQEAgAAAAG2BIAAAAABtwSAAAAAAcQEAQAAAAHHBAAAAMcEAsgEAQAAAAHJBAEAAAABygQCAAAAAcsEAgAAAAHMBAIAAAABzQQCAAAAAc4EAgAAAAHPBIAAAAAB0ASAAAAAAdEEIAAAAAECAAAAEwAgNgAAzw4AIAMAAAARACA2AADPDgAgNwAA0w4AICEAAAARACAFAADACQAgBgAAwQkAIAgAAMIJACAJAADDCQAgFAAArQsAIBUAAM0JACAXAADECQAgGwAAxQkAIBwAAMYJACAeAADICQAgHwAAyQkAICEAAMoJACAiAADLCQAgIwAAzAkAIC8AANMOACCFBAEA9QcAIZ8EAAC8CcYEIrQEAgC-CQAhtgSAAAAAAbcEgAAAAAHEBAEA9QcAIccEAAC9CccEIsgEAQD1BwAhyQQBAIYIACHKBAIAvgkAIcsEAgC-CQAhzAQCAL4JACHNBAIAvgkAIc4EAgC-CQAhzwSAAAAAAdAEgAAAAAHRBCAA9gcAIR8FAADACQAgBgAAwQkAIAgAAMIJACAJAADDCQAgFAAArQsAIBUAAM0JACAXAADECQAgGwAAxQkAIBwAAMYJACAeAADICQAgHwAAyQkAICEAAMoJACAiAADLCQAgIwAAzAkAIIUEAQD1BwAhnwQAALwJxgQitAQCAL4JACG2BIAAAAABtwSAAAAAAcQEAQD1BwAhxwQAAL0JxwQiyAQBAPUHACHJBAEAhggAIcoEAgC-CQAhywQCAL4JACHMBAIAvgkAIc0EAgC-CQAhzgQCAL4JACHPBIAAAAAB0ASAAAAAAdEEIAD2BwAhChQAAJAMACAXAAD8CQAgGwAA_QkAIBwAAP4JACAeAAD_CQAgJQAAgAoAIIUEAQAAAAGWBEAAAAABlwRAAAAAAZ0EgAAAAAECAAAADwAgNgAA1A4AIAmFBAEAAAABlgRAAAAAAZcEQAAAAAGdBIAAAAABnwQAAACfBAKgBCAAAAABoQQBAAAAAaMEAQAAAAGkBAEAAAABAwAAAA0AIDYAANQOACA3AADZDgAgDAAAAA0AIBQAAIcMACAXAADPCwAgGwAA0AsAIBwAANELACAeAADSCwAgJQAA0wsAIC8AANkOACCFBAEA9QcAIZYEQAD8BwAhlwRAAPwHACGdBIAAAAABChQAAIcMACAXAADPCwAgGwAA0AsAIBwAANELACAeAADSCwAgJQAA0wsAIIUEAQD1BwAhlgRAAPwHACGXBEAA_AcAIZ0EgAAAAAEHFgAAmg0AIIUEAQAAAAGWBEAAAAABlwRAAAAAAZ0EgAAAAAGmBAEAAAABwAQBAAAAAQIAAAABACA2AADaDgAgBRYAALgIACCFBAEAAAABlgRAAAAAAaUEAQAAAAGmBAEAAAABAgAAAAcAIDYAANwOACAFkwQBAAAAAZQEAQAAAAGVBIAAAAABlgRAAAAAAZcEQAAAAAEDDgEAAAABhQQBAAAAAYcEIAAAAAEDAAAAhAEAIDYAANoOACA3AADiDgAgCQAAAIQBACAWAACZDQAgLwAA4g4AIIUEAQD1BwAhlgRAAPwHACGXBEAA_AcAIZ0EgAAAAAGmBAEA9QcAIcAEAQD1BwAhBxYAAJkNACCFBAEA9QcAIZYEQAD8BwAhlwRAAPwHACGdBIAAAAABpgQBAPUHACHABAEA9QcAIQMAAAAFACA2AADcDgAgNwAA5Q4AIAcAAAAFACAWAACqCAAgLwAA5Q4AIIUEAQD1BwAhlgRAAPwHACGlBAEA9QcAIaYEAQD1BwAhBRYAAKoIACCFBAEA9QcAIZYEQAD8BwAhpQQBAPUHACGmBAEA9QcAIQ0LAACmCAAgJwAAowgAICgAAKQIACCFBAEAAAABlgRAAAAAAZcEQAAAAAGdBIAAAAABnwQAAACfBAKgBCAAAAABoQQBAAAAAaIEAQAAAAGjBAEAAAABpAQBAAAAAQIAAACPAQAgNgAA5g4AIB8FAADGCwAgBgAAtwsAIAgAALgLACAJAAC5CwAgFAAAwQsAIBUAAMQLACAXAAC6CwAgGwAAuwsAIBwAALwLACAdAAC9CwAgHgAAvgsAIB8AAL8LACAiAADCCwAgIwAAwwsAIIUEAQAAAAGfBAAAAMYEArQEAgAAAAG2BIAAAAABtwSAAAAAAcQEAQAAAAHHBAAAAMcEAsgEAQAAAAHJBAEAAAABygQCAAAAAcsEAgAAAAHMBAIAAAABzQQCAAAAAc4EAgAAAAHPBIAAAAAB0ASAAAAAAdEEIAAAAAECAAAAEwAgNgAA6A4AIAMAAAADACA2AADmDgAgNwAA7A4AIA8AAAADACALAACKCAAgJwAAhwgAICgAAIgIACAvAADsDgAghQQBAPUHACGWBEAA_AcAIZcEQAD8BwAhnQSAAAAAAZ8EAACFCJ8EIqAEIAD2BwAhoQQBAIYIACGiBAEA9QcAIaMEAQD1BwAhpAQBAPUHACENCwAAiggAICcAAIcIACAoAACICAAghQQBAPUHACGWBEAA_AcAIZcEQAD8BwAhnQSAAAAAAZ8EAACFCJ8EIqAEIAD2BwAhoQQBAIYIACGiBAEA9QcAIaMEAQD1BwAhpAQBAPUHACEDAAAAEQAgNgAA6A4AIDcAAO8OACAhAAAAEQAgBQAAwAkAIAYAAMEJACAIAADCCQAgCQAAwwkAIBQAAK0LACAVAADNCQAgFwAAxAkAIBsAAMUJACAcAADGCQAgHQAAxwkAIB4AAMgJACAfAADJCQAgIgAAywkAICMAAMwJACAvAADvDgAghQQBAPUHACGfBAAAvAnGBCK0BAIAvgkAIbYEgAAAAAG3BIAAAAABxAQBAPUHACHHBAAAvQnHBCLIBAEA9QcAIckEAQCGCAAhygQCAL4JACHLBAIAvgkAIcwEAgC-CQAhzQQCAL4JACHOBAIAvgkAIc8EgAAAAAHQBIAAAAAB0QQgAPYHACEfBQAAwAkAIAYAAMEJACAIAADCCQAgCQAAwwkAIBQAAK0LACAVAADNCQAgFwAAxAkAIBsAAMUJACAcAADGCQAgHQAAxwkAIB4AAMgJACAfAADJCQAgIgAAywkAICMAAMwJACCFBAEA9QcAIZ8EAAC8CcYEIrQEAgC-CQAhtgSAAAAAAbcEgAAAAAHEBAEA9QcAIccEAAC9CccEIsgEAQD1BwAhyQQBAIYIACHKBAIAvgkAIcsEAgC-CQAhzAQCAL4JACHNBAIAvgkAIc4EAgC-CQAhzwSAAAAAAdAEgAAAAAHRBCAA9gcAIQ0nAACjCAAgKAAApAgAICkAAKUIACCFBAEAAAABlgRAAAAAAZcEQAAAAAGdBIAAAAABnwQAAACfBAKgBCAAAAABoQQBAAAAAaIEAQAAAAGjBAEAAAABpAQBAAAAAQIAAACPAQAgNgAA8A4AIAMAAAADACA2AADwDgAgNwAA9A4AIA8AAAADACAnAACHCAAgKAAAiAgAICkAAIkIACAvAAD0DgAghQQBAPUHACGWBEAA_AcAIZcEQAD8BwAhnQSAAAAAAZ8EAACFCJ8EIqAEIAD2BwAhoQQBAIYIACGiBAEA9QcAIaMEAQD1BwAhpAQBAPUHACENJwAAhwgAICgAAIgIACApAACJCAAghQQBAPUHACGWBEAA_AcAIZcEQAD8BwAhnQSAAAAAAZ8EAACFCJ8EIqAEIAD2BwAhoQQBAIYIACGiBAEA9QcAIaMEAQD1BwAhpAQBAPUHACECFgAEJwQCBQuWASQNACUnAAMoAAEpkgEeAw0AIxYABCaQAQIIAwgDDQAiFAwFF4ABExuBARQcggEZHoMBHCWGAQEGBBAEDQAhFXoLG3gUHHkZJBQGEAUVBgYWBggYBwkcCA0AIBRlBRVrCxc6ExtAFBxSGR1aGx5eHB9gHSFkHiJmCiNqHwEHAAYCBwAGCgAJBAkdCAshCg0AEhUmCwIHIgYKAAkIBwAGCgAJDQARDgAMDwAOEi4QEy8QFDAFAgwnCw0ADQEMKAACDCkLDQAPAQwqAAIQAAsRAAsDEjEAEzIAFDMAAwk0AAs1ABU2AAIHOwYWPAQFB0EGDQAYFEwFFkIEGkYVAwtKFg0AFxgAFAEZABUBC0sAAhROABpNAAQHUwYNABoUVQUWVAQBFFYAAQcABgIHAAYWAAQBBwAGAgcABiAAAgEHAAYMBmwACW0AFHQAFXcAF24AG28AHHAAHXEAHnIAIXMAInUAI3YABQR7ABV_ABt9ABx-ACR8AAcDhwEAFIgBABeJAQAbigEAHIsBAB6MAQAljQEAASaRAQABIAACAguYAQAplwEAAAEWAAQBFgAEAw0AKjwAKz0ALAAAAAMNACo8ACs9ACwAAAUNADE8ADQ9ADVOADJPADMAAAAAAAUNADE8ADQ9ADVOADJPADMCBwAGFgAEAgcABhYABAUNADo8AD09AD5OADtPADwAAAAAAAUNADo8AD09AD5OADtPADwAAAMNAEM8AEQ9AEUAAAADDQBDPABEPQBFBAcABgoACQ4ADA8ADgQHAAYKAAkOAAwPAA4DDQBKPABLPQBMAAAAAw0ASjwASz0ATAIQAAsRAAsCEAALEQALAw0AUTwAUj0AUwAAAAMNAFE8AFI9AFMAAAMNAFg8AFk9AFoAAAADDQBYPABZPQBaAQcABgEHAAYDDQBfPABgPQBhAAAAAw0AXzwAYD0AYQEF2gIGAQXgAgYFDQBmPABpPQBqTgBnTwBoAAAAAAAFDQBmPABpPQBqTgBnTwBoAAAAAw0AcDwAcT0AcgAAAAMNAHA8AHE9AHIBBwAGAQcABgMNAHc8AHg9AHkAAAADDQB3PAB4PQB5AQcABgEHAAYDDQB-PAB_PQCAAQAAAAMNAH48AH89AIABAAAAAw0AhgE8AIcBPQCIAQAAAAMNAIYBPACHAT0AiAEAAAADDQCOATwAjwE9AJABAAAAAw0AjgE8AI8BPQCQAQAAAw0AlQE8AJYBPQCXAQAAAAMNAJUBPACWAT0AlwECBwAGCgAJAgcABgoACQUNAJwBPACfAT0AoAFOAJ0BTwCeAQAAAAAABQ0AnAE8AJ8BPQCgAU4AnQFPAJ4BAgeaBAYKAAkCB6AEBgoACQMNAKUBPACmAT0ApwEAAAADDQClATwApgE9AKcBAgeyBAYWswQEAge5BAYWugQEAw0ArAE8AK0BPQCuAQAAAAMNAKwBPACtAT0ArgECB8wEBhbNBAQCB9MEBhbUBAQDDQCzATwAtAE9ALUBAAAAAw0AswE8ALQBPQC1AQAAAw0AugE8ALsBPQC8AQAAAAMNALoBPAC7AT0AvAECB_wEBhb9BAQCB4MFBhaEBQQDDQDBATwAwgE9AMMBAAAAAw0AwQE8AMIBPQDDAQEYABQBGAAUAw0AyAE8AMkBPQDKAQAAAAMNAMgBPADJAT0AygEBGQAVARkAFQMNAM8BPADQAT0A0QEAAAADDQDPATwA0AE9ANEBAQcABgEHAAYDDQDWATwA1wE9ANgBAAAAAw0A1gE8ANcBPQDYAQAAAAMNAN4BPADfAT0A4AEAAAADDQDeATwA3wE9AOABARYABAEWAAQDDQDlATwA5gE9AOcBAAAAAw0A5QE8AOYBPQDnAQInAAMoAAECJwADKAABAw0A7AE8AO0BPQDuAQAAAAMNAOwBPADtAT0A7gECBwAGIAACAgcABiAAAgMNAPMBPAD0AT0A9QEAAAADDQDzATwA9AE9APUBASAAAgEgAAIDDQD6ATwA-wE9APwBAAAAAw0A-gE8APsBPQD8ASoCASuZAQEsmgEBLZsBAS6cAQEwngEBMaABJjKhASczowEBNKUBJjWmASg4pwEBOagBATqpASY-rAEpP60BLUCuAQVBrwEFQrABBUOxAQVEsgEFRbQBBUa2ASZHtwEuSLkBBUm7ASZKvAEvS70BBUy-AQVNvwEmUMIBMFHDATZSxAEcU8UBHFTGARxVxwEcVsgBHFfKARxYzAEmWc0BN1rPARxb0QEmXNIBOF3TARxe1AEcX9UBJmDYATlh2QE_YtsBDmPcAQ5k3wEOZeABDmbhAQ5n4wEOaOUBJmnmAUBq6AEOa-oBJmzrAUFt7AEObu0BDm_uASZw8QFCcfIBRnLzAQtz9AELdPUBC3X2AQt29wELd_kBC3j7ASZ5_AFHev4BC3uAAiZ8gQJIfYICC36DAgt_hAImgAGHAkmBAYgCTYIBiQIQgwGKAhCEAYsCEIUBjAIQhgGNAhCHAY8CEIgBkQImiQGSAk6KAZQCEIsBlgImjAGXAk-NAZgCEI4BmQIQjwGaAiaQAZ0CUJEBngJUkgGgAgyTAaECDJQBpAIMlQGlAgyWAaYCDJcBqAIMmAGqAiaZAasCVZoBrQIMmwGvAiacAbACVp0BsQIMngGyAgyfAbMCJqABtgJXoQG3AluiAbkCB6MBugIHpAG8AgelAb0CB6YBvgIHpwHAAgeoAcICJqkBwwJcqgHFAgerAccCJqwByAJdrQHJAgeuAcoCB68BywImsAHOAl6xAc8CYrIB0AIGswHRAga0AdICBrUB0wIGtgHUAga3AdYCBrgB2AImuQHZAmO6AdwCBrsB3gImvAHfAmS9AeECBr4B4gIGvwHjAibAAeYCZcEB5wJrwgHpAmzDAeoCbMQB7QJsxQHuAmzGAe8CbMcB8QJsyAHzAibJAfQCbcoB9gJsywH4AibMAfkCbs0B-gJszgH7AmzPAfwCJtAB_wJv0QGAA3PSAYEDH9MBggMf1AGDAx_VAYQDH9YBhQMf1wGHAx_YAYkDJtkBigN02gGMAx_bAY4DJtwBjwN13QGQAx_eAZEDH98BkgMm4AGVA3bhAZYDeuIBmAMd4wGZAx3kAZsDHeUBnAMd5gGdAx3nAZ8DHegBoQMm6QGiA3vqAaQDHesBpgMm7AGnA3ztAagDHe4BqQMd7wGqAybwAa0DffEBrgOBAfIBsAOCAfMBsQOCAfQBtAOCAfUBtQOCAfYBtgOCAfcBuAOCAfgBugMm-QG7A4MB-gG9A4IB-wG_Ayb8AcADhAH9AcEDggH-AcIDggH_AcMDJoACxgOFAYECxwOJAYICyQOKAYMCygOKAYQCzQOKAYUCzgOKAYYCzwOKAYcC0QOKAYgC0wMmiQLUA4sBigLWA4oBiwLYAyaMAtkDjAGNAtoDigGOAtsDigGPAtwDJpAC3wONAZEC4AORAZIC4gMJkwLjAwmUAuYDCZUC5wMJlgLoAwmXAuoDCZgC7AMmmQLtA5IBmgLvAwmbAvEDJpwC8gOTAZ0C8wMJngL0AwmfAvUDJqAC-AOUAaEC-QOYAaIC-gMIowL7AwikAvwDCKUC_QMIpgL-AwinAoAECKgCggQmqQKDBJkBqgKFBAirAocEJqwCiASaAa0CiQQIrgKKBAivAosEJrACjgSbAbECjwShAbICkAQKswKRBAq0ApIECrUCkwQKtgKUBAq3ApYECrgCmAQmuQKZBKIBugKcBAq7Ap4EJrwCnwSjAb0CoQQKvgKiBAq_AqMEJsACpgSkAcECpwSoAcICqAQZwwKpBBnEAqoEGcUCqwQZxgKsBBnHAq4EGcgCsAQmyQKxBKkBygK1BBnLArcEJswCuASqAc0CuwQZzgK8BBnPAr0EJtACwASrAdECwQSvAdICwgQT0wLDBBPUAsQEE9UCxQQT1gLGBBPXAsgEE9gCygQm2QLLBLAB2gLPBBPbAtEEJtwC0gSxAd0C1QQT3gLWBBPfAtcEJuAC2gSyAeEC2wS2AeIC3AQE4wLdBATkAt4EBOUC3wQE5gLgBATnAuIEBOgC5AQm6QLlBLcB6gLnBATrAukEJuwC6gS4Ae0C6wQE7gLsBATvAu0EJvAC8AS5AfEC8QS9AfIC8gQU8wLzBBT0AvQEFPUC9QQU9gL2BBT3AvgEFPgC-gQm-QL7BL4B-gL_BBT7AoEFJvwCggW_Af0ChQUU_gKGBRT_AocFJoADigXAAYEDiwXEAYIDjAUVgwONBRWEA44FFYUDjwUVhgOQBRWHA5IFFYgDlAUmiQOVBcUBigOXBRWLA5kFJowDmgXGAY0DmwUVjgOcBRWPA50FJpADoAXHAZEDoQXLAZIDogUWkwOjBRaUA6QFFpUDpQUWlgOmBRaXA6gFFpgDqgUmmQOrBcwBmgOtBRabA68FJpwDsAXNAZ0DsQUWngOyBRafA7MFJqADtgXOAaEDtwXSAaIDuAUbowO5BRukA7oFG6UDuwUbpgO8BRunA74FG6gDwAUmqQPBBdMBqgPDBRurA8UFJqwDxgXUAa0DxwUbrgPIBRuvA8kFJrADzAXVAbEDzQXZAbIDzwXaAbMD0AXaAbQD0wXaAbUD1AXaAbYD1QXaAbcD1wXaAbgD2QUmuQPaBdsBugPcBdoBuwPeBSa8A98F3AG9A-AF2gG-A-EF2gG_A-IFJsAD5QXdAcED5gXhAcID5wUDwwPoBQPEA-kFA8UD6gUDxgPrBQPHA-0FA8gD7wUmyQPwBeIBygPyBQPLA_QFJswD9QXjAc0D9gUDzgP3BQPPA_gFJtAD-wXkAdED_AXoAdID_QUC0wP-BQLUA_8FAtUDgAYC1gOBBgLXA4MGAtgDhQYm2QOGBukB2gOIBgLbA4oGJtwDiwbqAd0DjAYC3gONBgLfA44GJuADkQbrAeEDkgbvAeIDkwYe4wOUBh7kA5UGHuUDlgYe5gOXBh7nA5kGHugDmwYm6QOcBvAB6gOeBh7rA6AGJuwDoQbxAe0DogYe7gOjBh7vA6QGJvADpwbyAfEDqAb2AfIDqQYk8wOqBiT0A6sGJPUDrAYk9gOtBiT3A68GJPgDsQYm-QOyBvcB-gO0BiT7A7YGJvwDtwb4Af0DuAYk_gO5BiT_A7oGJoAEvQb5AYEEvgb9AQ"
-}
-
-async function decodeBase64AsWasm(wasmBase64: string): Promise<WebAssembly.Module> {
-  const { Buffer } = await import('node:buffer')
-  const wasmArray = Buffer.from(wasmBase64, 'base64')
-  return new WebAssembly.Module(wasmArray)
-}
-
-config.compilerWasm = {
-  getRuntime: async () => await import("@prisma/client/runtime/query_compiler_fast_bg.sqlite.mjs"),
-
-  getQueryCompilerWasmModule: async () => {
-    const { wasm } = await import("@prisma/client/runtime/query_compiler_fast_bg.sqlite.wasm-base64.mjs")
-    return await decodeBase64AsWasm(wasm)
-  },
-
-  importName: "./query_compiler_fast_bg.js"
-}
-
-
-
-export type LogOptions<ClientOptions extends Prisma.PrismaClientOptions> =
-  'log' extends keyof ClientOptions ? ClientOptions['log'] extends Array<Prisma.LogLevel | Prisma.LogDefinition> ? Prisma.GetEvents<ClientOptions['log']> : never : never
-
-export interface PrismaClientConstructor {
-    /**
-   * ## Prisma Client
-   * 
-   * Type-safe database client for TypeScript
-   * @example
-   * ```
-   * const prisma = new PrismaClient()
-   * // Fetch zero or more ApiKeys
-   * const apiKeys = await prisma.apiKey.findMany()
-   * ```
-   * 
-   * Read more in our [docs](https://pris.ly/d/client).
-   */
-
-  new <
-    Options extends Prisma.PrismaClientOptions = Prisma.PrismaClientOptions,
-    LogOpts extends LogOptions<Options> = LogOptions<Options>,
-    OmitOpts extends Prisma.PrismaClientOptions['omit'] = Options extends { omit: infer U } ? U : Prisma.PrismaClientOptions['omit'],
-    ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
-  >(options: Prisma.Subset<Options, Prisma.PrismaClientOptions> ): PrismaClient<LogOpts, OmitOpts, ExtArgs>
-}
-
-/**
- * ## Prisma Client
- * 
- * Type-safe database client for TypeScript
- * @example
- * ```
- * const prisma = new PrismaClient()
- * // Fetch zero or more ApiKeys
- * const apiKeys = await prisma.apiKey.findMany()
- * ```
- * 
- * Read more in our [docs](https://pris.ly/d/client).
- */
-
-export interface PrismaClient<
-  in LogOpts extends Prisma.LogLevel = never,
-  in out OmitOpts extends Prisma.PrismaClientOptions['omit'] = undefined,
-  in out ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
-> {
-  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['other'] }
-
-  $on<V extends LogOpts>(eventType: V, callback: (event: V extends 'query' ? Prisma.QueryEvent : Prisma.LogEvent) => void): PrismaClient;
-
-  /**
-   * Connect with the database
-   */
-  $connect(): runtime.Types.Utils.JsPromise<void>;
-
-  /**
-   * Disconnect from the database
-   */
-  $disconnect(): runtime.Types.Utils.JsPromise<void>;
-
-/**
-   * Executes a prepared raw query and returns the number of affected rows.
-   * @example
-   * ```
-   * const result = await prisma.$executeRaw`UPDATE User SET cool = ${true} WHERE email = ${'user@email.com'};`
-   * ```
-   *
-   * Read more in our [docs](https://pris.ly/d/raw-queries).
-   */
-  $executeRaw<T = unknown>(query: TemplateStringsArray | Prisma.Sql, ...values: any[]): Prisma.PrismaPromise<number>;
-
-  /**
-   * Executes a raw query and returns the number of affected rows.
-   * Susceptible to SQL injections, see documentation.
-   * @example
-   * ```
-   * const result = await prisma.$executeRawUnsafe('UPDATE User SET cool = $1 WHERE email = $2 ;', true, 'user@email.com')
-   * ```
-   *
-   * Read more in our [docs](https://pris.ly/d/raw-queries).
-   */
-  $executeRawUnsafe<T = unknown>(query: string, ...values: any[]): Prisma.PrismaPromise<number>;
-
-  /**
-   * Performs a prepared raw query and returns the `SELECT` data.
-   * @example
-   * ```
-   * const result = await prisma.$queryRaw`SELECT * FROM User WHERE id = ${1} OR email = ${'user@email.com'};`
-   * ```
-   *
-   * Read more in our [docs](https://pris.ly/d/raw-queries).
-   */
-  $queryRaw<T = unknown>(query: TemplateStringsArray | Prisma.Sql, ...values: any[]): Prisma.PrismaPromise<T>;
-
-  /**
-   * Performs a raw query and returns the `SELECT` data.
-   * Susceptible to SQL injections, see documentation.
-   * @example
-   * ```
-   * const result = await prisma.$queryRawUnsafe('SELECT * FROM User WHERE id = $1 OR email = $2;', 1, 'user@email.com')
-   * ```
-   *
-   * Read more in our [docs](https://pris.ly/d/raw-queries).
-   */
-  $queryRawUnsafe<T = unknown>(query: string, ...values: any[]): Prisma.PrismaPromise<T>;
-
-
-  /**
-   * Allows the running of a sequence of read/write operations that are guaranteed to either succeed or fail as a whole.
-   * @example
-   * ```
-   * const [george, bob, alice] = await prisma.$transaction([
-   *   prisma.user.create({ data: { name: 'George' } }),
-   *   prisma.user.create({ data: { name: 'Bob' } }),
-   *   prisma.user.create({ data: { name: 'Alice' } }),
-   * ])
-   * ```
-   * 
-   * Read more in our [docs](https://www.prisma.io/docs/orm/prisma-client/queries/transactions).
-   */
-  $transaction<P extends Prisma.PrismaPromise<any>[]>(arg: [...P], options?: { isolationLevel?: Prisma.TransactionIsolationLevel }): runtime.Types.Utils.JsPromise<runtime.Types.Utils.UnwrapTuple<P>>
-
-  $transaction<R>(fn: (prisma: Omit<PrismaClient, runtime.ITXClientDenyList>) => runtime.Types.Utils.JsPromise<R>, options?: { maxWait?: number, timeout?: number, isolationLevel?: Prisma.TransactionIsolationLevel }): runtime.Types.Utils.JsPromise<R>
-
-  $extends: runtime.Types.Extensions.ExtendsHook<"extends", Prisma.TypeMapCb<OmitOpts>, ExtArgs, runtime.Types.Utils.Call<Prisma.TypeMapCb<OmitOpts>, {
-    extArgs: ExtArgs
-  }>>
-
-      /**
-   * `prisma.apiKey`: Exposes CRUD operations for the **ApiKey** model.
-    * Example usage:
-    * ```ts
-    * // Fetch zero or more ApiKeys
-    * const apiKeys = await prisma.apiKey.findMany()
-    * ```
-    */
-  get apiKey(): Prisma.ApiKeyDelegate<ExtArgs, { omit: OmitOpts }>;
-
-  /**
-   * `prisma.artifact`: Exposes CRUD operations for the **Artifact** model.
-    * Example usage:
-    * ```ts
-    * // Fetch zero or more Artifacts
-    * const artifacts = await prisma.artifact.findMany()
-    * ```
-    */
-  get artifact(): Prisma.ArtifactDelegate<ExtArgs, { omit: OmitOpts }>;
-
-  /**
-   * `prisma.instanceCustomStatus`: Exposes CRUD operations for the **InstanceCustomStatus** model.
-    * Example usage:
-    * ```ts
-    * // Fetch zero or more InstanceCustomStatuses
-    * const instanceCustomStatuses = await prisma.instanceCustomStatus.findMany()
-    * ```
-    */
-  get instanceCustomStatus(): Prisma.InstanceCustomStatusDelegate<ExtArgs, { omit: OmitOpts }>;
-
-  /**
-   * `prisma.entity`: Exposes CRUD operations for the **Entity** model.
-    * Example usage:
-    * ```ts
-    * // Fetch zero or more Entities
-    * const entities = await prisma.entity.findMany()
-    * ```
-    */
-  get entity(): Prisma.EntityDelegate<ExtArgs, { omit: OmitOpts }>;
-
-  /**
-   * `prisma.entitySnapshot`: Exposes CRUD operations for the **EntitySnapshot** model.
-    * Example usage:
-    * ```ts
-    * // Fetch zero or more EntitySnapshots
-    * const entitySnapshots = await prisma.entitySnapshot.findMany()
-    * ```
-    */
-  get entitySnapshot(): Prisma.EntitySnapshotDelegate<ExtArgs, { omit: OmitOpts }>;
-
-  /**
-   * `prisma.entitySnapshotReference`: Exposes CRUD operations for the **EntitySnapshotReference** model.
-    * Example usage:
-    * ```ts
-    * // Fetch zero or more EntitySnapshotReferences
-    * const entitySnapshotReferences = await prisma.entitySnapshotReference.findMany()
-    * ```
-    */
-  get entitySnapshotReference(): Prisma.EntitySnapshotReferenceDelegate<ExtArgs, { omit: OmitOpts }>;
-
-  /**
-   * `prisma.entitySnapshotContent`: Exposes CRUD operations for the **EntitySnapshotContent** model.
-    * Example usage:
-    * ```ts
-    * // Fetch zero or more EntitySnapshotContents
-    * const entitySnapshotContents = await prisma.entitySnapshotContent.findMany()
-    * ```
-    */
-  get entitySnapshotContent(): Prisma.EntitySnapshotContentDelegate<ExtArgs, { omit: OmitOpts }>;
-
-  /**
-   * `prisma.instanceEvaluationState`: Exposes CRUD operations for the **InstanceEvaluationState** model.
-    * Example usage:
-    * ```ts
-    * // Fetch zero or more InstanceEvaluationStates
-    * const instanceEvaluationStates = await prisma.instanceEvaluationState.findMany()
-    * ```
-    */
-  get instanceEvaluationState(): Prisma.InstanceEvaluationStateDelegate<ExtArgs, { omit: OmitOpts }>;
-
-  /**
-   * `prisma.instanceState`: Exposes CRUD operations for the **InstanceState** model.
-    * Example usage:
-    * ```ts
-    * // Fetch zero or more InstanceStates
-    * const instanceStates = await prisma.instanceState.findMany()
-    * ```
-    */
-  get instanceState(): Prisma.InstanceStateDelegate<ExtArgs, { omit: OmitOpts }>;
-
-  /**
-   * `prisma.userProjectViewport`: Exposes CRUD operations for the **UserProjectViewport** model.
-    * Example usage:
-    * ```ts
-    * // Fetch zero or more UserProjectViewports
-    * const userProjectViewports = await prisma.userProjectViewport.findMany()
-    * ```
-    */
-  get userProjectViewport(): Prisma.UserProjectViewportDelegate<ExtArgs, { omit: OmitOpts }>;
-
-  /**
-   * `prisma.userCompositeViewport`: Exposes CRUD operations for the **UserCompositeViewport** model.
-    * Example usage:
-    * ```ts
-    * // Fetch zero or more UserCompositeViewports
-    * const userCompositeViewports = await prisma.userCompositeViewport.findMany()
-    * ```
-    */
-  get userCompositeViewport(): Prisma.UserCompositeViewportDelegate<ExtArgs, { omit: OmitOpts }>;
-
-  /**
-   * `prisma.instanceLock`: Exposes CRUD operations for the **InstanceLock** model.
-    * Example usage:
-    * ```ts
-    * // Fetch zero or more InstanceLocks
-    * const instanceLocks = await prisma.instanceLock.findMany()
-    * ```
-    */
-  get instanceLock(): Prisma.InstanceLockDelegate<ExtArgs, { omit: OmitOpts }>;
-
-  /**
-   * `prisma.instanceModel`: Exposes CRUD operations for the **InstanceModel** model.
-    * Example usage:
-    * ```ts
-    * // Fetch zero or more InstanceModels
-    * const instanceModels = await prisma.instanceModel.findMany()
-    * ```
-    */
-  get instanceModel(): Prisma.InstanceModelDelegate<ExtArgs, { omit: OmitOpts }>;
-
-  /**
-   * `prisma.hubModel`: Exposes CRUD operations for the **HubModel** model.
-    * Example usage:
-    * ```ts
-    * // Fetch zero or more HubModels
-    * const hubModels = await prisma.hubModel.findMany()
-    * ```
-    */
-  get hubModel(): Prisma.HubModelDelegate<ExtArgs, { omit: OmitOpts }>;
-
-  /**
-   * `prisma.operation`: Exposes CRUD operations for the **Operation** model.
-    * Example usage:
-    * ```ts
-    * // Fetch zero or more Operations
-    * const operations = await prisma.operation.findMany()
-    * ```
-    */
-  get operation(): Prisma.OperationDelegate<ExtArgs, { omit: OmitOpts }>;
-
-  /**
-   * `prisma.instanceOperationState`: Exposes CRUD operations for the **InstanceOperationState** model.
-    * Example usage:
-    * ```ts
-    * // Fetch zero or more InstanceOperationStates
-    * const instanceOperationStates = await prisma.instanceOperationState.findMany()
-    * ```
-    */
-  get instanceOperationState(): Prisma.InstanceOperationStateDelegate<ExtArgs, { omit: OmitOpts }>;
-
-  /**
-   * `prisma.operationLog`: Exposes CRUD operations for the **OperationLog** model.
-    * Example usage:
-    * ```ts
-    * // Fetch zero or more OperationLogs
-    * const operationLogs = await prisma.operationLog.findMany()
-    * ```
-    */
-  get operationLog(): Prisma.OperationLogDelegate<ExtArgs, { omit: OmitOpts }>;
-
-  /**
-   * `prisma.page`: Exposes CRUD operations for the **Page** model.
-    * Example usage:
-    * ```ts
-    * // Fetch zero or more Pages
-    * const pages = await prisma.page.findMany()
-    * ```
-    */
-  get page(): Prisma.PageDelegate<ExtArgs, { omit: OmitOpts }>;
-
-  /**
-   * `prisma.secret`: Exposes CRUD operations for the **Secret** model.
-    * Example usage:
-    * ```ts
-    * // Fetch zero or more Secrets
-    * const secrets = await prisma.secret.findMany()
-    * ```
-    */
-  get secret(): Prisma.SecretDelegate<ExtArgs, { omit: OmitOpts }>;
-
-  /**
-   * `prisma.serviceAccount`: Exposes CRUD operations for the **ServiceAccount** model.
-    * Example usage:
-    * ```ts
-    * // Fetch zero or more ServiceAccounts
-    * const serviceAccounts = await prisma.serviceAccount.findMany()
-    * ```
-    */
-  get serviceAccount(): Prisma.ServiceAccountDelegate<ExtArgs, { omit: OmitOpts }>;
-
-  /**
-   * `prisma.terminal`: Exposes CRUD operations for the **Terminal** model.
-    * Example usage:
-    * ```ts
-    * // Fetch zero or more Terminals
-    * const terminals = await prisma.terminal.findMany()
-    * ```
-    */
-  get terminal(): Prisma.TerminalDelegate<ExtArgs, { omit: OmitOpts }>;
-
-  /**
-   * `prisma.terminalSession`: Exposes CRUD operations for the **TerminalSession** model.
-    * Example usage:
-    * ```ts
-    * // Fetch zero or more TerminalSessions
-    * const terminalSessions = await prisma.terminalSession.findMany()
-    * ```
-    */
-  get terminalSession(): Prisma.TerminalSessionDelegate<ExtArgs, { omit: OmitOpts }>;
-
-  /**
-   * `prisma.terminalSessionLog`: Exposes CRUD operations for the **TerminalSessionLog** model.
-    * Example usage:
-    * ```ts
-    * // Fetch zero or more TerminalSessionLogs
-    * const terminalSessionLogs = await prisma.terminalSessionLog.findMany()
-    * ```
-    */
-  get terminalSessionLog(): Prisma.TerminalSessionLogDelegate<ExtArgs, { omit: OmitOpts }>;
-
-  /**
-   * `prisma.trigger`: Exposes CRUD operations for the **Trigger** model.
-    * Example usage:
-    * ```ts
-    * // Fetch zero or more Triggers
-    * const triggers = await prisma.trigger.findMany()
-    * ```
-    */
-  get trigger(): Prisma.TriggerDelegate<ExtArgs, { omit: OmitOpts }>;
-
-  /**
-   * `prisma.unlockMethod`: Exposes CRUD operations for the **UnlockMethod** model.
-    * Example usage:
-    * ```ts
-    * // Fetch zero or more UnlockMethods
-    * const unlockMethods = await prisma.unlockMethod.findMany()
-    * ```
-    */
-  get unlockMethod(): Prisma.UnlockMethodDelegate<ExtArgs, { omit: OmitOpts }>;
-
-  /**
-   * `prisma.worker`: Exposes CRUD operations for the **Worker** model.
-    * Example usage:
-    * ```ts
-    * // Fetch zero or more Workers
-    * const workers = await prisma.worker.findMany()
-    * ```
-    */
-  get worker(): Prisma.WorkerDelegate<ExtArgs, { omit: OmitOpts }>;
-
-  /**
-   * `prisma.workerVersion`: Exposes CRUD operations for the **WorkerVersion** model.
-    * Example usage:
-    * ```ts
-    * // Fetch zero or more WorkerVersions
-    * const workerVersions = await prisma.workerVersion.findMany()
-    * ```
-    */
-  get workerVersion(): Prisma.WorkerVersionDelegate<ExtArgs, { omit: OmitOpts }>;
-
-  /**
-   * `prisma.workerUnitRegistration`: Exposes CRUD operations for the **WorkerUnitRegistration** model.
-    * Example usage:
-    * ```ts
-    * // Fetch zero or more WorkerUnitRegistrations
-    * const workerUnitRegistrations = await prisma.workerUnitRegistration.findMany()
-    * ```
-    */
-  get workerUnitRegistration(): Prisma.WorkerUnitRegistrationDelegate<ExtArgs, { omit: OmitOpts }>;
-
-  /**
-   * `prisma.workerVersionLog`: Exposes CRUD operations for the **WorkerVersionLog** model.
-    * Example usage:
-    * ```ts
-    * // Fetch zero or more WorkerVersionLogs
-    * const workerVersionLogs = await prisma.workerVersionLog.findMany()
-    * ```
-    */
-  get workerVersionLog(): Prisma.WorkerVersionLogDelegate<ExtArgs, { omit: OmitOpts }>;
-}
-
-export function getPrismaClientClass(): PrismaClientConstructor {
-  return runtime.getPrismaClient(config) as unknown as PrismaClientConstructor
-}
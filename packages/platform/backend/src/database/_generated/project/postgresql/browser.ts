@@ -120,6 +120,11 @@ export type HubModel = Prisma.HubModelModel
  * 
  */
 export type Operation = Prisma.OperationModel
+/**
+ * Model OperationApproval
+ * 
+ */
+export type OperationApproval = Prisma.OperationApprovalModel
 /**
  * Model InstanceOperationState
  * 
@@ -156,6 +161,14 @@ export type Page = Prisma.PageModel
  * System secrets like Pulumi passwords are created on-demand and persist for the whole project lifetime.
  */
 export type Secret = Prisma.SecretModel
+/**
+ * Model SecretVersion
+ * The version of the content of the instance secret passed to the unit by the update operation.
+ * 
+ * The versions are recorded only when the operations snapshot the secrets, not on every update,
+ * and are deleted together with the secret.
+ */
+export type SecretVersion = Prisma.SecretVersionModel
 /**
  * Model ServiceAccount
  * The service account represents an identity for non-human actors in the system.
@@ -166,6 +179,15 @@ export type Secret = Prisma.SecretModel
  * allowing different authentication tokens to share the same permissions.
  */
 export type ServiceAccount = Prisma.ServiceAccountModel
+/**
+ * Model ServiceAccountGrant
+ * The service account grant gives the service account access to the resources it does not own.
+ * 
+ * The grant targets either the instance, giving access to the instance and all its secrets,
+ * or the single secret. Exactly one of `stateId` and `secretId` is set.
+ * The grants are deleted with the service account or the resource they target.
+ */
+export type ServiceAccountGrant = Prisma.ServiceAccountGrantModel
 /**
  * Model Terminal
  * The terminal provides interactive shell access to infrastructure resources.
@@ -198,7 +220,8 @@ export type TerminalSessionLog = Prisma.TerminalSessionLogModel
  * 
  * Triggers are created by units to perform actions at defined points in the instance lifecycle
  * or on schedule. The spec field determines the trigger type and behavior - currently supporting
- * before-destroy triggers, with planned support for additional types like cron scheduling.
+ * lifecycle triggers (before-destroy, before-update, after-update and on-failure)
+ * and schedule triggers invoked by the backend according to the cron expression.
  * Triggers are deleted along with their instance.
  */
 export type Trigger = Prisma.TriggerModel
@@ -233,6 +256,14 @@ export type UnlockMethod = Prisma.UnlockMethodModel
  * the same resources and have the same access scope within the platform.
  */
 export type Worker = Prisma.WorkerModel
+/**
+ * Model WorkerOperationRequest
+ * The operation request made by the worker.
+ * 
+ * The requests are persisted to limit the number of the operations
+ * the worker can request within the sliding window across all backends.
+ */
+export type WorkerOperationRequest = Prisma.WorkerOperationRequestModel
 /**
  * Model WorkerVersion
  * The worker version represents a specific container image digest of a worker.
@@ -0,0 +1,930 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports various common sort, input & filter types that are not directly linked to a particular model.
+ *
+ * 🟢 You can import this file directly.
+ */
+
+import type * as runtime from "@prisma/client/runtime/client"
+import * as $Enums from "./enums.ts"
+import type * as Prisma from "./internal/prismaNamespace.ts"
+
+
+export type StringFilter<$PrismaModel = never> = {
+  equals?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  in?: string[] | Prisma.ListStringFieldRefInput<$PrismaModel>
+  notIn?: string[] | Prisma.ListStringFieldRefInput<$PrismaModel>
+  lt?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  lte?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  gt?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  gte?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  contains?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  startsWith?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  endsWith?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  mode?: Prisma.QueryMode
+  not?: Prisma.NestedStringFilter<$PrismaModel> | string
+}
+
+export type JsonFilter<$PrismaModel = never> =
+| Prisma.PatchUndefined<
+    Prisma.Either<Required<JsonFilterBase<$PrismaModel>>, Exclude<keyof Required<JsonFilterBase<$PrismaModel>>, 'path'>>,
+    Required<JsonFilterBase<$PrismaModel>>
+  >
+| Prisma.OptionalFlat<Omit<Required<JsonFilterBase<$PrismaModel>>, 'path'>>
+
+export type JsonFilterBase<$PrismaModel = never> = {
+  equals?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | Prisma.JsonNullValueFilter
+  path?: string[]
+  mode?: Prisma.QueryMode | Prisma.EnumQueryModeFieldRefInput<$PrismaModel>
+  string_contains?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  string_starts_with?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  string_ends_with?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  array_starts_with?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
+  array_ends_with?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
+  array_contains?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
+  lt?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  lte?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  gt?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  gte?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  not?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | Prisma.JsonNullValueFilter
+}
+
+export type DateTimeFilter<$PrismaModel = never> = {
+  equals?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  in?: Date[] | string[] | Prisma.ListDateTimeFieldRefInput<$PrismaModel>
+  notIn?: Date[] | string[] | Prisma.ListDateTimeFieldRefInput<$PrismaModel>
+  lt?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  lte?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  gt?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  gte?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedDateTimeFilter<$PrismaModel> | Date | string
+}
+
+export type StringWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  in?: string[] | Prisma.ListStringFieldRefInput<$PrismaModel>
+  notIn?: string[] | Prisma.ListStringFieldRefInput<$PrismaModel>
+  lt?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  lte?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  gt?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  gte?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  contains?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  startsWith?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  endsWith?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  mode?: Prisma.QueryMode
+  not?: Prisma.NestedStringWithAggregatesFilter<$PrismaModel> | string
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedStringFilter<$PrismaModel>
+  _max?: Prisma.NestedStringFilter<$PrismaModel>
+}
+
+export type JsonWithAggregatesFilter<$PrismaModel = never> =
+| Prisma.PatchUndefined<
+    Prisma.Either<Required<JsonWithAggregatesFilterBase<$PrismaModel>>, Exclude<keyof Required<JsonWithAggregatesFilterBase<$PrismaModel>>, 'path'>>,
+    Required<JsonWithAggregatesFilterBase<$PrismaModel>>
+  >
+| Prisma.OptionalFlat<Omit<Required<JsonWithAggregatesFilterBase<$PrismaModel>>, 'path'>>
+
+export type JsonWithAggregatesFilterBase<$PrismaModel = never> = {
+  equals?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | Prisma.JsonNullValueFilter
+  path?: string[]
+  mode?: Prisma.QueryMode | Prisma.EnumQueryModeFieldRefInput<$PrismaModel>
+  string_contains?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  string_starts_with?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  string_ends_with?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  array_starts_with?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
+  array_ends_with?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
+  array_contains?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
+  lt?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  lte?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  gt?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  gte?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  not?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | Prisma.JsonNullValueFilter
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedJsonFilter<$PrismaModel>
+  _max?: Prisma.NestedJsonFilter<$PrismaModel>
+}
+
+export type DateTimeWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  in?: Date[] | string[] | Prisma.ListDateTimeFieldRefInput<$PrismaModel>
+  notIn?: Date[] | string[] | Prisma.ListDateTimeFieldRefInput<$PrismaModel>
+  lt?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  lte?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  gt?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  gte?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedDateTimeWithAggregatesFilter<$PrismaModel> | Date | string
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedDateTimeFilter<$PrismaModel>
+  _max?: Prisma.NestedDateTimeFilter<$PrismaModel>
+}
+
+export type IntFilter<$PrismaModel = never> = {
+  equals?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  in?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel>
+  notIn?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel>
+  lt?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  lte?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  gt?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  gte?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedIntFilter<$PrismaModel> | number
+}
+
+export type IntWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  in?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel>
+  notIn?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel>
+  lt?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  lte?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  gt?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  gte?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedIntWithAggregatesFilter<$PrismaModel> | number
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _avg?: Prisma.NestedFloatFilter<$PrismaModel>
+  _sum?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedIntFilter<$PrismaModel>
+  _max?: Prisma.NestedIntFilter<$PrismaModel>
+}
+
+export type StringNullableFilter<$PrismaModel = never> = {
+  equals?: string | Prisma.StringFieldRefInput<$PrismaModel> | null
+  in?: string[] | Prisma.ListStringFieldRefInput<$PrismaModel> | null
+  notIn?: string[] | Prisma.ListStringFieldRefInput<$PrismaModel> | null
+  lt?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  lte?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  gt?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  gte?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  contains?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  startsWith?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  endsWith?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  mode?: Prisma.QueryMode
+  not?: Prisma.NestedStringNullableFilter<$PrismaModel> | string | null
+}
+
+export type SortOrderInput = {
+  sort: Prisma.SortOrder
+  nulls?: Prisma.NullsOrder
+}
+
+export type StringNullableWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: string | Prisma.StringFieldRefInput<$PrismaModel> | null
+  in?: string[] | Prisma.ListStringFieldRefInput<$PrismaModel> | null
+  notIn?: string[] | Prisma.ListStringFieldRefInput<$PrismaModel> | null
+  lt?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  lte?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  gt?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  gte?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  contains?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  startsWith?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  endsWith?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  mode?: Prisma.QueryMode
+  not?: Prisma.NestedStringNullableWithAggregatesFilter<$PrismaModel> | string | null
+  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _min?: Prisma.NestedStringNullableFilter<$PrismaModel>
+  _max?: Prisma.NestedStringNullableFilter<$PrismaModel>
+}
+
+export type EnumEntityReferenceKindFilter<$PrismaModel = never> = {
+  equals?: $Enums.EntityReferenceKind | Prisma.EnumEntityReferenceKindFieldRefInput<$PrismaModel>
+  in?: $Enums.EntityReferenceKind[] | Prisma.ListEnumEntityReferenceKindFieldRefInput<$PrismaModel>
+  notIn?: $Enums.EntityReferenceKind[] | Prisma.ListEnumEntityReferenceKindFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumEntityReferenceKindFilter<$PrismaModel> | $Enums.EntityReferenceKind
+}
+
+export type EnumEntityReferenceKindWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.EntityReferenceKind | Prisma.EnumEntityReferenceKindFieldRefInput<$PrismaModel>
+  in?: $Enums.EntityReferenceKind[] | Prisma.ListEnumEntityReferenceKindFieldRefInput<$PrismaModel>
+  notIn?: $Enums.EntityReferenceKind[] | Prisma.ListEnumEntityReferenceKindFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumEntityReferenceKindWithAggregatesFilter<$PrismaModel> | $Enums.EntityReferenceKind
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumEntityReferenceKindFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumEntityReferenceKindFilter<$PrismaModel>
+}
+
+export type JsonNullableFilter<$PrismaModel = never> =
+| Prisma.PatchUndefined<
+    Prisma.Either<Required<JsonNullableFilterBase<$PrismaModel>>, Exclude<keyof Required<JsonNullableFilterBase<$PrismaModel>>, 'path'>>,
+    Required<JsonNullableFilterBase<$PrismaModel>>
+  >
+| Prisma.OptionalFlat<Omit<Required<JsonNullableFilterBase<$PrismaModel>>, 'path'>>
+
+export type JsonNullableFilterBase<$PrismaModel = never> = {
+  equals?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | Prisma.JsonNullValueFilter
+  path?: string[]
+  mode?: Prisma.QueryMode | Prisma.EnumQueryModeFieldRefInput<$PrismaModel>
+  string_contains?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  string_starts_with?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  string_ends_with?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  array_starts_with?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
+  array_ends_with?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
+  array_contains?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
+  lt?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  lte?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  gt?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  gte?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  not?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | Prisma.JsonNullValueFilter
+}
+
+export type JsonNullableWithAggregatesFilter<$PrismaModel = never> =
+| Prisma.PatchUndefined<
+    Prisma.Either<Required<JsonNullableWithAggregatesFilterBase<$PrismaModel>>, Exclude<keyof Required<JsonNullableWithAggregatesFilterBase<$PrismaModel>>, 'path'>>,
+    Required<JsonNullableWithAggregatesFilterBase<$PrismaModel>>
+  >
+| Prisma.OptionalFlat<Omit<Required<JsonNullableWithAggregatesFilterBase<$PrismaModel>>, 'path'>>
+
+export type JsonNullableWithAggregatesFilterBase<$PrismaModel = never> = {
+  equals?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | Prisma.JsonNullValueFilter
+  path?: string[]
+  mode?: Prisma.QueryMode | Prisma.EnumQueryModeFieldRefInput<$PrismaModel>
+  string_contains?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  string_starts_with?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  string_ends_with?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  array_starts_with?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
+  array_ends_with?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
+  array_contains?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
+  lt?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  lte?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  gt?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  gte?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  not?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | Prisma.JsonNullValueFilter
+  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _min?: Prisma.NestedJsonNullableFilter<$PrismaModel>
+  _max?: Prisma.NestedJsonNullableFilter<$PrismaModel>
+}
+
+export type EnumInstanceEvaluationStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.InstanceEvaluationStatus | Prisma.EnumInstanceEvaluationStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.InstanceEvaluationStatus[] | Prisma.ListEnumInstanceEvaluationStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.InstanceEvaluationStatus[] | Prisma.ListEnumInstanceEvaluationStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumInstanceEvaluationStatusFilter<$PrismaModel> | $Enums.InstanceEvaluationStatus
+}
+
+export type EnumInstanceEvaluationStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.InstanceEvaluationStatus | Prisma.EnumInstanceEvaluationStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.InstanceEvaluationStatus[] | Prisma.ListEnumInstanceEvaluationStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.InstanceEvaluationStatus[] | Prisma.ListEnumInstanceEvaluationStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumInstanceEvaluationStatusWithAggregatesFilter<$PrismaModel> | $Enums.InstanceEvaluationStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumInstanceEvaluationStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumInstanceEvaluationStatusFilter<$PrismaModel>
+}
+
+export type EnumInstanceStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.InstanceStatus | Prisma.EnumInstanceStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.InstanceStatus[] | Prisma.ListEnumInstanceStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.InstanceStatus[] | Prisma.ListEnumInstanceStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumInstanceStatusFilter<$PrismaModel> | $Enums.InstanceStatus
+}
+
+export type EnumInstanceSourceFilter<$PrismaModel = never> = {
+  equals?: $Enums.InstanceSource | Prisma.EnumInstanceSourceFieldRefInput<$PrismaModel>
+  in?: $Enums.InstanceSource[] | Prisma.ListEnumInstanceSourceFieldRefInput<$PrismaModel>
+  notIn?: $Enums.InstanceSource[] | Prisma.ListEnumInstanceSourceFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumInstanceSourceFilter<$PrismaModel> | $Enums.InstanceSource
+}
+
+export type IntNullableFilter<$PrismaModel = never> = {
+  equals?: number | Prisma.IntFieldRefInput<$PrismaModel> | null
+  in?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel> | null
+  notIn?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel> | null
+  lt?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  lte?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  gt?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  gte?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedIntNullableFilter<$PrismaModel> | number | null
+}
+
+export type BoolFilter<$PrismaModel = never> = {
+  equals?: boolean | Prisma.BooleanFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedBoolFilter<$PrismaModel> | boolean
+}
+
+export type DateTimeNullableFilter<$PrismaModel = never> = {
+  equals?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel> | null
+  in?: Date[] | string[] | Prisma.ListDateTimeFieldRefInput<$PrismaModel> | null
+  notIn?: Date[] | string[] | Prisma.ListDateTimeFieldRefInput<$PrismaModel> | null
+  lt?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  lte?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  gt?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  gte?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedDateTimeNullableFilter<$PrismaModel> | Date | string | null
+}
+
+export type EnumInstanceStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.InstanceStatus | Prisma.EnumInstanceStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.InstanceStatus[] | Prisma.ListEnumInstanceStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.InstanceStatus[] | Prisma.ListEnumInstanceStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumInstanceStatusWithAggregatesFilter<$PrismaModel> | $Enums.InstanceStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumInstanceStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumInstanceStatusFilter<$PrismaModel>
+}
+
+export type EnumInstanceSourceWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.InstanceSource | Prisma.EnumInstanceSourceFieldRefInput<$PrismaModel>
+  in?: $Enums.InstanceSource[] | Prisma.ListEnumInstanceSourceFieldRefInput<$PrismaModel>
+  notIn?: $Enums.InstanceSource[] | Prisma.ListEnumInstanceSourceFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumInstanceSourceWithAggregatesFilter<$PrismaModel> | $Enums.InstanceSource
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumInstanceSourceFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumInstanceSourceFilter<$PrismaModel>
+}
+
+export type IntNullableWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: number | Prisma.IntFieldRefInput<$PrismaModel> | null
+  in?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel> | null
+  notIn?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel> | null
+  lt?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  lte?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  gt?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  gte?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedIntNullableWithAggregatesFilter<$PrismaModel> | number | null
+  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _avg?: Prisma.NestedFloatNullableFilter<$PrismaModel>
+  _sum?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _min?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _max?: Prisma.NestedIntNullableFilter<$PrismaModel>
+}
+
+export type BoolWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: boolean | Prisma.BooleanFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedBoolWithAggregatesFilter<$PrismaModel> | boolean
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedBoolFilter<$PrismaModel>
+  _max?: Prisma.NestedBoolFilter<$PrismaModel>
+}
+
+export type DateTimeNullableWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel> | null
+  in?: Date[] | string[] | Prisma.ListDateTimeFieldRefInput<$PrismaModel> | null
+  notIn?: Date[] | string[] | Prisma.ListDateTimeFieldRefInput<$PrismaModel> | null
+  lt?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  lte?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  gt?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  gte?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedDateTimeNullableWithAggregatesFilter<$PrismaModel> | Date | string | null
+  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _min?: Prisma.NestedDateTimeNullableFilter<$PrismaModel>
+  _max?: Prisma.NestedDateTimeNullableFilter<$PrismaModel>
+}
+
+export type EnumOperationTypeFilter<$PrismaModel = never> = {
+  equals?: $Enums.OperationType | Prisma.EnumOperationTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.OperationType[] | Prisma.ListEnumOperationTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.OperationType[] | Prisma.ListEnumOperationTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumOperationTypeFilter<$PrismaModel> | $Enums.OperationType
+}
+
+export type EnumOperationStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.OperationStatus | Prisma.EnumOperationStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.OperationStatus[] | Prisma.ListEnumOperationStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.OperationStatus[] | Prisma.ListEnumOperationStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumOperationStatusFilter<$PrismaModel> | $Enums.OperationStatus
+}
+
+export type EnumOperationTypeWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.OperationType | Prisma.EnumOperationTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.OperationType[] | Prisma.ListEnumOperationTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.OperationType[] | Prisma.ListEnumOperationTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumOperationTypeWithAggregatesFilter<$PrismaModel> | $Enums.OperationType
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumOperationTypeFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumOperationTypeFilter<$PrismaModel>
+}
+
+export type EnumOperationStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.OperationStatus | Prisma.EnumOperationStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.OperationStatus[] | Prisma.ListEnumOperationStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.OperationStatus[] | Prisma.ListEnumOperationStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumOperationStatusWithAggregatesFilter<$PrismaModel> | $Enums.OperationStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumOperationStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumOperationStatusFilter<$PrismaModel>
+}
+
+export type EnumOperationApprovalDecisionFilter<$PrismaModel = never> = {
+  equals?: $Enums.OperationApprovalDecision | Prisma.EnumOperationApprovalDecisionFieldRefInput<$PrismaModel>
+  in?: $Enums.OperationApprovalDecision[] | Prisma.ListEnumOperationApprovalDecisionFieldRefInput<$PrismaModel>
+  notIn?: $Enums.OperationApprovalDecision[] | Prisma.ListEnumOperationApprovalDecisionFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumOperationApprovalDecisionFilter<$PrismaModel> | $Enums.OperationApprovalDecision
+}
+
+export type EnumOperationApprovalDecisionWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.OperationApprovalDecision | Prisma.EnumOperationApprovalDecisionFieldRefInput<$PrismaModel>
+  in?: $Enums.OperationApprovalDecision[] | Prisma.ListEnumOperationApprovalDecisionFieldRefInput<$PrismaModel>
+  notIn?: $Enums.OperationApprovalDecision[] | Prisma.ListEnumOperationApprovalDecisionFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumOperationApprovalDecisionWithAggregatesFilter<$PrismaModel> | $Enums.OperationApprovalDecision
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumOperationApprovalDecisionFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumOperationApprovalDecisionFilter<$PrismaModel>
+}
+
+export type EnumInstanceOperationStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.InstanceOperationStatus | Prisma.EnumInstanceOperationStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.InstanceOperationStatus[] | Prisma.ListEnumInstanceOperationStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.InstanceOperationStatus[] | Prisma.ListEnumInstanceOperationStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumInstanceOperationStatusFilter<$PrismaModel> | $Enums.InstanceOperationStatus
+}
+
+export type EnumInstanceOperationStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.InstanceOperationStatus | Prisma.EnumInstanceOperationStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.InstanceOperationStatus[] | Prisma.ListEnumInstanceOperationStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.InstanceOperationStatus[] | Prisma.ListEnumInstanceOperationStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumInstanceOperationStatusWithAggregatesFilter<$PrismaModel> | $Enums.InstanceOperationStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumInstanceOperationStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumInstanceOperationStatusFilter<$PrismaModel>
+}
+
+export type EnumTerminalStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.TerminalStatus | Prisma.EnumTerminalStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.TerminalStatus[] | Prisma.ListEnumTerminalStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.TerminalStatus[] | Prisma.ListEnumTerminalStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumTerminalStatusFilter<$PrismaModel> | $Enums.TerminalStatus
+}
+
+export type EnumTerminalStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.TerminalStatus | Prisma.EnumTerminalStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.TerminalStatus[] | Prisma.ListEnumTerminalStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.TerminalStatus[] | Prisma.ListEnumTerminalStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumTerminalStatusWithAggregatesFilter<$PrismaModel> | $Enums.TerminalStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumTerminalStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumTerminalStatusFilter<$PrismaModel>
+}
+
+export type EnumUnlockMethodTypeFilter<$PrismaModel = never> = {
+  equals?: $Enums.UnlockMethodType | Prisma.EnumUnlockMethodTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.UnlockMethodType[] | Prisma.ListEnumUnlockMethodTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.UnlockMethodType[] | Prisma.ListEnumUnlockMethodTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumUnlockMethodTypeFilter<$PrismaModel> | $Enums.UnlockMethodType
+}
+
+export type EnumUnlockMethodTypeWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.UnlockMethodType | Prisma.EnumUnlockMethodTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.UnlockMethodType[] | Prisma.ListEnumUnlockMethodTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.UnlockMethodType[] | Prisma.ListEnumUnlockMethodTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumUnlockMethodTypeWithAggregatesFilter<$PrismaModel> | $Enums.UnlockMethodType
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumUnlockMethodTypeFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumUnlockMethodTypeFilter<$PrismaModel>
+}
+
+export type EnumWorkerVersionStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.WorkerVersionStatus | Prisma.EnumWorkerVersionStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.WorkerVersionStatus[] | Prisma.ListEnumWorkerVersionStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.WorkerVersionStatus[] | Prisma.ListEnumWorkerVersionStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumWorkerVersionStatusFilter<$PrismaModel> | $Enums.WorkerVersionStatus
+}
+
+export type EnumWorkerVersionStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.WorkerVersionStatus | Prisma.EnumWorkerVersionStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.WorkerVersionStatus[] | Prisma.ListEnumWorkerVersionStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.WorkerVersionStatus[] | Prisma.ListEnumWorkerVersionStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumWorkerVersionStatusWithAggregatesFilter<$PrismaModel> | $Enums.WorkerVersionStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumWorkerVersionStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumWorkerVersionStatusFilter<$PrismaModel>
+}
+
+export type NestedStringFilter<$PrismaModel = never> = {
+  equals?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  in?: string[] | Prisma.ListStringFieldRefInput<$PrismaModel>
+  notIn?: string[] | Prisma.ListStringFieldRefInput<$PrismaModel>
+  lt?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  lte?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  gt?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  gte?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  contains?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  startsWith?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  endsWith?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedStringFilter<$PrismaModel> | string
+}
+
+export type NestedDateTimeFilter<$PrismaModel = never> = {
+  equals?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  in?: Date[] | string[] | Prisma.ListDateTimeFieldRefInput<$PrismaModel>
+  notIn?: Date[] | string[] | Prisma.ListDateTimeFieldRefInput<$PrismaModel>
+  lt?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  lte?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  gt?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  gte?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedDateTimeFilter<$PrismaModel> | Date | string
+}
+
+export type NestedStringWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  in?: string[] | Prisma.ListStringFieldRefInput<$PrismaModel>
+  notIn?: string[] | Prisma.ListStringFieldRefInput<$PrismaModel>
+  lt?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  lte?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  gt?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  gte?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  contains?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  startsWith?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  endsWith?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedStringWithAggregatesFilter<$PrismaModel> | string
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedStringFilter<$PrismaModel>
+  _max?: Prisma.NestedStringFilter<$PrismaModel>
+}
+
+export type NestedIntFilter<$PrismaModel = never> = {
+  equals?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  in?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel>
+  notIn?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel>
+  lt?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  lte?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  gt?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  gte?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedIntFilter<$PrismaModel> | number
+}
+
+export type NestedJsonFilter<$PrismaModel = never> =
+| Prisma.PatchUndefined<
+    Prisma.Either<Required<NestedJsonFilterBase<$PrismaModel>>, Exclude<keyof Required<NestedJsonFilterBase<$PrismaModel>>, 'path'>>,
+    Required<NestedJsonFilterBase<$PrismaModel>>
+  >
+| Prisma.OptionalFlat<Omit<Required<NestedJsonFilterBase<$PrismaModel>>, 'path'>>
+
+export type NestedJsonFilterBase<$PrismaModel = never> = {
+  equals?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | Prisma.JsonNullValueFilter
+  path?: string[]
+  mode?: Prisma.QueryMode | Prisma.EnumQueryModeFieldRefInput<$PrismaModel>
+  string_contains?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  string_starts_with?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  string_ends_with?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  array_starts_with?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
+  array_ends_with?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
+  array_contains?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
+  lt?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  lte?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  gt?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  gte?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  not?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | Prisma.JsonNullValueFilter
+}
+
+export type NestedDateTimeWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  in?: Date[] | string[] | Prisma.ListDateTimeFieldRefInput<$PrismaModel>
+  notIn?: Date[] | string[] | Prisma.ListDateTimeFieldRefInput<$PrismaModel>
+  lt?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  lte?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  gt?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  gte?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedDateTimeWithAggregatesFilter<$PrismaModel> | Date | string
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedDateTimeFilter<$PrismaModel>
+  _max?: Prisma.NestedDateTimeFilter<$PrismaModel>
+}
+
+export type NestedIntWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  in?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel>
+  notIn?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel>
+  lt?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  lte?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  gt?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  gte?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedIntWithAggregatesFilter<$PrismaModel> | number
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _avg?: Prisma.NestedFloatFilter<$PrismaModel>
+  _sum?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedIntFilter<$PrismaModel>
+  _max?: Prisma.NestedIntFilter<$PrismaModel>
+}
+
+export type NestedFloatFilter<$PrismaModel = never> = {
+  equals?: number | Prisma.FloatFieldRefInput<$PrismaModel>
+  in?: number[] | Prisma.ListFloatFieldRefInput<$PrismaModel>
+  notIn?: number[] | Prisma.ListFloatFieldRefInput<$PrismaModel>
+  lt?: number | Prisma.FloatFieldRefInput<$PrismaModel>
+  lte?: number | Prisma.FloatFieldRefInput<$PrismaModel>
+  gt?: number | Prisma.FloatFieldRefInput<$PrismaModel>
+  gte?: number | Prisma.FloatFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedFloatFilter<$PrismaModel> | number
+}
+
+export type NestedStringNullableFilter<$PrismaModel = never> = {
+  equals?: string | Prisma.StringFieldRefInput<$PrismaModel> | null
+  in?: string[] | Prisma.ListStringFieldRefInput<$PrismaModel> | null
+  notIn?: string[] | Prisma.ListStringFieldRefInput<$PrismaModel> | null
+  lt?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  lte?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  gt?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  gte?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  contains?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  startsWith?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  endsWith?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedStringNullableFilter<$PrismaModel> | string | null
+}
+
+export type NestedStringNullableWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: string | Prisma.StringFieldRefInput<$PrismaModel> | null
+  in?: string[] | Prisma.ListStringFieldRefInput<$PrismaModel> | null
+  notIn?: string[] | Prisma.ListStringFieldRefInput<$PrismaModel> | null
+  lt?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  lte?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  gt?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  gte?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  contains?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  startsWith?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  endsWith?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedStringNullableWithAggregatesFilter<$PrismaModel> | string | null
+  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _min?: Prisma.NestedStringNullableFilter<$PrismaModel>
+  _max?: Prisma.NestedStringNullableFilter<$PrismaModel>
+}
+
+export type NestedIntNullableFilter<$PrismaModel = never> = {
+  equals?: number | Prisma.IntFieldRefInput<$PrismaModel> | null
+  in?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel> | null
+  notIn?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel> | null
+  lt?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  lte?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  gt?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  gte?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedIntNullableFilter<$PrismaModel> | number | null
+}
+
+export type NestedEnumEntityReferenceKindFilter<$PrismaModel = never> = {
+  equals?: $Enums.EntityReferenceKind | Prisma.EnumEntityReferenceKindFieldRefInput<$PrismaModel>
+  in?: $Enums.EntityReferenceKind[] | Prisma.ListEnumEntityReferenceKindFieldRefInput<$PrismaModel>
+  notIn?: $Enums.EntityReferenceKind[] | Prisma.ListEnumEntityReferenceKindFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumEntityReferenceKindFilter<$PrismaModel> | $Enums.EntityReferenceKind
+}
+
+export type NestedEnumEntityReferenceKindWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.EntityReferenceKind | Prisma.EnumEntityReferenceKindFieldRefInput<$PrismaModel>
+  in?: $Enums.EntityReferenceKind[] | Prisma.ListEnumEntityReferenceKindFieldRefInput<$PrismaModel>
+  notIn?: $Enums.EntityReferenceKind[] | Prisma.ListEnumEntityReferenceKindFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumEntityReferenceKindWithAggregatesFilter<$PrismaModel> | $Enums.EntityReferenceKind
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumEntityReferenceKindFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumEntityReferenceKindFilter<$PrismaModel>
+}
+
+export type NestedJsonNullableFilter<$PrismaModel = never> =
+| Prisma.PatchUndefined<
+    Prisma.Either<Required<NestedJsonNullableFilterBase<$PrismaModel>>, Exclude<keyof Required<NestedJsonNullableFilterBase<$PrismaModel>>, 'path'>>,
+    Required<NestedJsonNullableFilterBase<$PrismaModel>>
+  >
+| Prisma.OptionalFlat<Omit<Required<NestedJsonNullableFilterBase<$PrismaModel>>, 'path'>>
+
+export type NestedJsonNullableFilterBase<$PrismaModel = never> = {
+  equals?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | Prisma.JsonNullValueFilter
+  path?: string[]
+  mode?: Prisma.QueryMode | Prisma.EnumQueryModeFieldRefInput<$PrismaModel>
+  string_contains?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  string_starts_with?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  string_ends_with?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  array_starts_with?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
+  array_ends_with?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
+  array_contains?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
+  lt?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  lte?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  gt?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  gte?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  not?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | Prisma.JsonNullValueFilter
+}
+
+export type NestedEnumInstanceEvaluationStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.InstanceEvaluationStatus | Prisma.EnumInstanceEvaluationStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.InstanceEvaluationStatus[] | Prisma.ListEnumInstanceEvaluationStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.InstanceEvaluationStatus[] | Prisma.ListEnumInstanceEvaluationStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumInstanceEvaluationStatusFilter<$PrismaModel> | $Enums.InstanceEvaluationStatus
+}
+
+export type NestedEnumInstanceEvaluationStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.InstanceEvaluationStatus | Prisma.EnumInstanceEvaluationStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.InstanceEvaluationStatus[] | Prisma.ListEnumInstanceEvaluationStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.InstanceEvaluationStatus[] | Prisma.ListEnumInstanceEvaluationStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumInstanceEvaluationStatusWithAggregatesFilter<$PrismaModel> | $Enums.InstanceEvaluationStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumInstanceEvaluationStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumInstanceEvaluationStatusFilter<$PrismaModel>
+}
+
+export type NestedEnumInstanceStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.InstanceStatus | Prisma.EnumInstanceStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.InstanceStatus[] | Prisma.ListEnumInstanceStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.InstanceStatus[] | Prisma.ListEnumInstanceStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumInstanceStatusFilter<$PrismaModel> | $Enums.InstanceStatus
+}
+
+export type NestedEnumInstanceSourceFilter<$PrismaModel = never> = {
+  equals?: $Enums.InstanceSource | Prisma.EnumInstanceSourceFieldRefInput<$PrismaModel>
+  in?: $Enums.InstanceSource[] | Prisma.ListEnumInstanceSourceFieldRefInput<$PrismaModel>
+  notIn?: $Enums.InstanceSource[] | Prisma.ListEnumInstanceSourceFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumInstanceSourceFilter<$PrismaModel> | $Enums.InstanceSource
+}
+
+export type NestedBoolFilter<$PrismaModel = never> = {
+  equals?: boolean | Prisma.BooleanFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedBoolFilter<$PrismaModel> | boolean
+}
+
+export type NestedDateTimeNullableFilter<$PrismaModel = never> = {
+  equals?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel> | null
+  in?: Date[] | string[] | Prisma.ListDateTimeFieldRefInput<$PrismaModel> | null
+  notIn?: Date[] | string[] | Prisma.ListDateTimeFieldRefInput<$PrismaModel> | null
+  lt?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  lte?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  gt?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  gte?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedDateTimeNullableFilter<$PrismaModel> | Date | string | null
+}
+
+export type NestedEnumInstanceStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.InstanceStatus | Prisma.EnumInstanceStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.InstanceStatus[] | Prisma.ListEnumInstanceStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.InstanceStatus[] | Prisma.ListEnumInstanceStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumInstanceStatusWithAggregatesFilter<$PrismaModel> | $Enums.InstanceStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumInstanceStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumInstanceStatusFilter<$PrismaModel>
+}
+
+export type NestedEnumInstanceSourceWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.InstanceSource | Prisma.EnumInstanceSourceFieldRefInput<$PrismaModel>
+  in?: $Enums.InstanceSource[] | Prisma.ListEnumInstanceSourceFieldRefInput<$PrismaModel>
+  notIn?: $Enums.InstanceSource[] | Prisma.ListEnumInstanceSourceFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumInstanceSourceWithAggregatesFilter<$PrismaModel> | $Enums.InstanceSource
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumInstanceSourceFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumInstanceSourceFilter<$PrismaModel>
+}
+
+export type NestedIntNullableWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: number | Prisma.IntFieldRefInput<$PrismaModel> | null
+  in?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel> | null
+  notIn?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel> | null
+  lt?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  lte?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  gt?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  gte?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedIntNullableWithAggregatesFilter<$PrismaModel> | number | null
+  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _avg?: Prisma.NestedFloatNullableFilter<$PrismaModel>
+  _sum?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _min?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _max?: Prisma.NestedIntNullableFilter<$PrismaModel>
+}
+
+export type NestedFloatNullableFilter<$PrismaModel = never> = {
+  equals?: number | Prisma.FloatFieldRefInput<$PrismaModel> | null
+  in?: number[] | Prisma.ListFloatFieldRefInput<$PrismaModel> | null
+  notIn?: number[] | Prisma.ListFloatFieldRefInput<$PrismaModel> | null
+  lt?: number | Prisma.FloatFieldRefInput<$PrismaModel>
+  lte?: number | Prisma.FloatFieldRefInput<$PrismaModel>
+  gt?: number | Prisma.FloatFieldRefInput<$PrismaModel>
+  gte?: number | Prisma.FloatFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedFloatNullableFilter<$PrismaModel> | number | null
+}
+
+export type NestedBoolWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: boolean | Prisma.BooleanFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedBoolWithAggregatesFilter<$PrismaModel> | boolean
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedBoolFilter<$PrismaModel>
+  _max?: Prisma.NestedBoolFilter<$PrismaModel>
+}
+
+export type NestedDateTimeNullableWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel> | null
+  in?: Date[] | string[] | Prisma.ListDateTimeFieldRefInput<$PrismaModel> | null
+  notIn?: Date[] | string[] | Prisma.ListDateTimeFieldRefInput<$PrismaModel> | null
+  lt?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  lte?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  gt?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  gte?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedDateTimeNullableWithAggregatesFilter<$PrismaModel> | Date | string | null
+  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _min?: Prisma.NestedDateTimeNullableFilter<$PrismaModel>
+  _max?: Prisma.NestedDateTimeNullableFilter<$PrismaModel>
+}
+
+export type NestedEnumOperationTypeFilter<$PrismaModel = never> = {
+  equals?: $Enums.OperationType | Prisma.EnumOperationTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.OperationType[] | Prisma.ListEnumOperationTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.OperationType[] | Prisma.ListEnumOperationTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumOperationTypeFilter<$PrismaModel> | $Enums.OperationType
+}
+
+export type NestedEnumOperationStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.OperationStatus | Prisma.EnumOperationStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.OperationStatus[] | Prisma.ListEnumOperationStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.OperationStatus[] | Prisma.ListEnumOperationStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumOperationStatusFilter<$PrismaModel> | $Enums.OperationStatus
+}
+
+export type NestedEnumOperationTypeWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.OperationType | Prisma.EnumOperationTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.OperationType[] | Prisma.ListEnumOperationTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.OperationType[] | Prisma.ListEnumOperationTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumOperationTypeWithAggregatesFilter<$PrismaModel> | $Enums.OperationType
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumOperationTypeFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumOperationTypeFilter<$PrismaModel>
+}
+
+export type NestedEnumOperationStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.OperationStatus | Prisma.EnumOperationStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.OperationStatus[] | Prisma.ListEnumOperationStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.OperationStatus[] | Prisma.ListEnumOperationStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumOperationStatusWithAggregatesFilter<$PrismaModel> | $Enums.OperationStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumOperationStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumOperationStatusFilter<$PrismaModel>
+}
+
+export type NestedEnumOperationApprovalDecisionFilter<$PrismaModel = never> = {
+  equals?: $Enums.OperationApprovalDecision | Prisma.EnumOperationApprovalDecisionFieldRefInput<$PrismaModel>
+  in?: $Enums.OperationApprovalDecision[] | Prisma.ListEnumOperationApprovalDecisionFieldRefInput<$PrismaModel>
+  notIn?: $Enums.OperationApprovalDecision[] | Prisma.ListEnumOperationApprovalDecisionFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumOperationApprovalDecisionFilter<$PrismaModel> | $Enums.OperationApprovalDecision
+}
+
+export type NestedEnumOperationApprovalDecisionWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.OperationApprovalDecision | Prisma.EnumOperationApprovalDecisionFieldRefInput<$PrismaModel>
+  in?: $Enums.OperationApprovalDecision[] | Prisma.ListEnumOperationApprovalDecisionFieldRefInput<$PrismaModel>
+  notIn?: $Enums.OperationApprovalDecision[] | Prisma.ListEnumOperationApprovalDecisionFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumOperationApprovalDecisionWithAggregatesFilter<$PrismaModel> | $Enums.OperationApprovalDecision
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumOperationApprovalDecisionFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumOperationApprovalDecisionFilter<$PrismaModel>
+}
+
+export type NestedEnumInstanceOperationStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.InstanceOperationStatus | Prisma.EnumInstanceOperationStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.InstanceOperationStatus[] | Prisma.ListEnumInstanceOperationStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.InstanceOperationStatus[] | Prisma.ListEnumInstanceOperationStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumInstanceOperationStatusFilter<$PrismaModel> | $Enums.InstanceOperationStatus
+}
+
+export type NestedEnumInstanceOperationStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.InstanceOperationStatus | Prisma.EnumInstanceOperationStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.InstanceOperationStatus[] | Prisma.ListEnumInstanceOperationStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.InstanceOperationStatus[] | Prisma.ListEnumInstanceOperationStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumInstanceOperationStatusWithAggregatesFilter<$PrismaModel> | $Enums.InstanceOperationStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumInstanceOperationStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumInstanceOperationStatusFilter<$PrismaModel>
+}
+
+export type NestedEnumTerminalStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.TerminalStatus | Prisma.EnumTerminalStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.TerminalStatus[] | Prisma.ListEnumTerminalStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.TerminalStatus[] | Prisma.ListEnumTerminalStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumTerminalStatusFilter<$PrismaModel> | $Enums.TerminalStatus
+}
+
+export type NestedEnumTerminalStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.TerminalStatus | Prisma.EnumTerminalStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.TerminalStatus[] | Prisma.ListEnumTerminalStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.TerminalStatus[] | Prisma.ListEnumTerminalStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumTerminalStatusWithAggregatesFilter<$PrismaModel> | $Enums.TerminalStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumTerminalStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumTerminalStatusFilter<$PrismaModel>
+}
+
+export type NestedEnumUnlockMethodTypeFilter<$PrismaModel = never> = {
+  equals?: $Enums.UnlockMethodType | Prisma.EnumUnlockMethodTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.UnlockMethodType[] | Prisma.ListEnumUnlockMethodTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.UnlockMethodType[] | Prisma.ListEnumUnlockMethodTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumUnlockMethodTypeFilter<$PrismaModel> | $Enums.UnlockMethodType
+}
+
+export type NestedEnumUnlockMethodTypeWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.UnlockMethodType | Prisma.EnumUnlockMethodTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.UnlockMethodType[] | Prisma.ListEnumUnlockMethodTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.UnlockMethodType[] | Prisma.ListEnumUnlockMethodTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumUnlockMethodTypeWithAggregatesFilter<$PrismaModel> | $Enums.UnlockMethodType
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumUnlockMethodTypeFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumUnlockMethodTypeFilter<$PrismaModel>
+}
+
+export type NestedEnumWorkerVersionStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.WorkerVersionStatus | Prisma.EnumWorkerVersionStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.WorkerVersionStatus[] | Prisma.ListEnumWorkerVersionStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.WorkerVersionStatus[] | Prisma.ListEnumWorkerVersionStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumWorkerVersionStatusFilter<$PrismaModel> | $Enums.WorkerVersionStatus
+}
+
+export type NestedEnumWorkerVersionStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.WorkerVersionStatus | Prisma.EnumWorkerVersionStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.WorkerVersionStatus[] | Prisma.ListEnumWorkerVersionStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.WorkerVersionStatus[] | Prisma.ListEnumWorkerVersionStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumWorkerVersionStatusWithAggregatesFilter<$PrismaModel> | $Enums.WorkerVersionStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumWorkerVersionStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumWorkerVersionStatusFilter<$PrismaModel>
+}
+
+
@@ -46,6 +46,7 @@ export type InstanceSource = (typeof InstanceSource)[keyof typeof InstanceSource
 
 export const OperationStatus = {
   pending: 'pending',
+  awaiting_approval: 'awaiting_approval',
   running: 'running',
   failing: 'failing',
   cancelling: 'cancelling',
@@ -88,6 +89,14 @@ export const InstanceOperationStatus = {
 export type InstanceOperationStatus = (typeof InstanceOperationStatus)[keyof typeof InstanceOperationStatus]
 
 
+export const OperationApprovalDecision = {
+  approved: 'approved',
+  rejected: 'rejected'
+} as const
+
+export type OperationApprovalDecision = (typeof OperationApprovalDecision)[keyof typeof OperationApprovalDecision]
+
+
 export const TerminalStatus = {
   active: 'active',
   unavailable: 'unavailable'
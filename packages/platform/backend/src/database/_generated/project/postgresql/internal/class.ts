@@ -0,0 +1,520 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * WARNING: This is an internal file that is subject to change!
+ *
+ * 🛑 Under no circumstances should you import this file directly! 🛑
+ *
+ * Please import the `PrismaClient` class from the `client.ts` file instead.
+ */
+
+import * as runtime from "@prisma/client/runtime/client"
+import type * as Prisma from "./prismaNamespace.ts"
+
+
+const config: runtime.GetPrismaClientConfig = {
+  "previewFeatures": [],
+  "clientVersion": "7.4.1",
+  "engineVersion": "55ae170b1ced7fc6ed07a15f110549408c501bb3",
+  "activeProvider": "postgresql",
+  "inlineSchema": "/// The API key provides authentication tokens for accessing the platform API.\n///\n/// Each API key impersonates a service account, inheriting its permissions and access scope.\n/// Keys are automatically created for worker versions and can be manually created for\n/// external integrations. The token is a 32-byte random hex string that can be regenerated.\nmodel ApiKey {\n  /// The CUIDv2 of the API key.\n  id String @id @default(cuid(2))\n\n  /// The metadata of the API key managed by the backend.\n  ///\n  /// [ApiKeyMeta]\n  meta Json\n\n  /// The ID of the service account impersonated by this API key.\n  serviceAccountId String\n\n  /// The API token for authentication.\n  ///\n  /// Should be treated as a secret and only shown once at creation/regeneration.\n  token String @unique\n\n  /// The time when the API key was created.\n  createdAt DateTime @default(now())\n\n  /// The time when the API key was last updated.\n  updatedAt DateTime @updatedAt\n\n  /// The worker version that owns this API key.\n  worker WorkerVersion?\n\n  /// The service account which this API key impersonates.\n  serviceAccount ServiceAccount @relation(fields: [serviceAccountId], references: [id])\n}\n\n/// The artifact represents a file or folder stored in the system.\n///\n/// It can be produced by units or manually uploaded via API by service accounts.\n///\n/// Since different actors can produce the same artifact with the same content and hash,\n/// there is the ownership/usage concept to track which entities produce or use the artifact.\n/// The \"ownership\" and \"usage\" are synonymous in this context and often referred to as \"usage\".\n///\n/// When no usages are present, the artifact will be automatically garbage collected after a certain period.\nmodel Artifact {\n  /// The CUIDv2 of the artifact.\n  id String @id @default(cuid(2))\n\n  /// The metadata of the artifact managed by the backend.\n  ///\n  /// Since multiple actors can produce the same artifact,\n  /// this metadata is the last one provided by any actor.\n  ///\n  /// [CommonObjectMeta]\n  meta Json\n\n  /// The SHA256 hash of the artifact content.\n  hash String @unique\n\n  /// The size of the compressed artifact content in bytes.\n  ///\n  /// Does not represent the size of the original file or folder,\n  /// but the size used to store the artifact in the system.\n  size Int\n\n  /// The chunk size of the artifact content in bytes.\n  /// Used to split the artifact into smaller chunks for storage.\n  chunkSize Int\n\n  /// The time when the artifact first appeared in the system.\n  createdAt DateTime @default(now())\n\n  /// The time when the artifact was last updated.\n  updatedAt DateTime @updatedAt\n\n  /// The service accounts using this artifact.\n  serviceAccounts ServiceAccount[]\n\n  /// The instances using this artifact.\n  instances InstanceState[]\n\n  /// The terminals using this artifact.\n  terminals Terminal[]\n\n  /// The pages using this artifact.\n  pages Page[]\n\n  /// The entity snapshots referenced this artifact.\n  entitySnapshots EntitySnapshot[]\n}\n\nmodel InstanceCustomStatus {\n  /// The ID of the instance state this status belongs to.\n  stateId String\n\n  /// The ID of the service account which attached this custom status.\n  serviceAccountId String\n\n  /// The name of the custom status unique within the instance and service account.\n  name String\n\n  /// The metadata of the custom status managed by the backend.\n  ///\n  /// [CommonObjectMeta]\n  meta Json\n\n  /// The status value of the custom status.\n  value String\n\n  /// The message describing the instance's custom status.\n  /// \n  /// Can be used to provide additional context or information about the status.\n  ///\n  /// The message will be displayed in the 800x600 ANSI terminal in the UI,\n  /// so different TUI elements should be drawn within this area.\n  message String?\n\n  /// The order of the custom status in the list of statuses.\n  ///\n  /// Should be values from 0 to 100, where 0 is the highest priority.\n  /// By default, the order is 50.\n  order Int @default(50)\n\n  /// The time when the custom status was first attached to the instance.\n  createdAt DateTime @default(now())\n\n  /// The time when the custom status was last updated.\n  updatedAt DateTime @updatedAt\n\n  /// The instance this custom status belongs to.\n  state InstanceState @relation(fields: [stateId], references: [id])\n\n  /// The service account this custom status belongs to.\n  serviceAccount ServiceAccount @relation(fields: [serviceAccountId], references: [id])\n\n  @@id([stateId, serviceAccountId, name]) // the name must be unique within the instance and service account\n}\n\n/// This model represents and instance of Highstate entity produced by one or many component instances one or many times.\n/// Entity tracks EntitySnapshots by their unique IDs allowing to correlate them across different operations and instances.\n/// Entities also can be tracked globally across different projects by referencing them in the Object model at the backend level.\nmodel Entity {\n  /// The CUIDv2 or CUIDv2d of the entity.\n  ///\n  /// The ID is calculated by the backend as CUIDv2d(entityType, identity), where identity is a user-provided string value that is expected to be globally unique for each entity of the same type.\n  id String @id\n\n  /// The type of the entity.\n  type String\n\n  /// The identity of the entity.\n  identity String\n\n  /// The snapshots of the entity.\n  snapshots EntitySnapshot[]\n}\n\n/// This model represents an immutable snapshot of an entity at a certain point of time\n/// provide by some component instance during an operation.\nmodel EntitySnapshot {\n  /// The CUIDv2 of the entity snapshot.\n  id String @id @default(cuid(2))\n\n  /// The SHA-256 hash of the entity snapshot content.\n  /// The content is stored separately in the EntitySnapshotContent model and can be shared between different snapshots with the same content hash.\n  contentHash String\n\n  /// The ID of the entity this snapshot belongs to.\n  entityId String\n\n  /// The ID of the operation that created this snapshot.\n  operationId String\n\n  /// The ID of the instance state produced this entity snapshot.\n  stateId String\n\n  /// The names of the instance outputs where this entity was referenced (including nested entities).\n  ///\n  /// ![string[]]\n  referencedInOutputs Json\n\n  /// The names of the outputs that exported this entity directly.\n  ///\n  /// ![string[]]\n  exportedInOutputs Json\n\n  /// The time when the entity snapshot was created.\n  createdAt DateTime @default(now())\n\n  /// The content of the entity snapshot.\n  content EntitySnapshotContent @relation(fields: [contentHash], references: [hash])\n\n  /// The entity this snapshot belongs to.\n  entity Entity @relation(fields: [entityId], references: [id])\n\n  /// The operation that created this snapshot.\n  operation Operation @relation(fields: [operationId], references: [id])\n\n  /// The instance state that produced this entity snapshot.\n  state InstanceState @relation(fields: [stateId], references: [id])\n\n  /// The snapshots of entities referenced by this entity snapshot.\n  /// For explicit references (specified manually by their IDs) the last snapshot of the referenced entity will be used.\n  /// For implicit references (collected via includes) the same snapshot of the same operation will be used.\n  references EntitySnapshotReference[] @relation(\"EntitySnapshotReferences\")\n\n  /// The snapshots of entities that reference this entity snapshot.\n  referencedBy EntitySnapshotReference[] @relation(\"EntitySnapshotReferencedBy\")\n\n  /// The artifacts referenced by this entity snapshot.\n  artifacts Artifact[]\n\n  @@index([entityId, createdAt(sort: Desc)])\n  @@index([operationId])\n  @@index([stateId, createdAt(sort: Desc)])\n}\n\nenum EntityReferenceKind {\n  explicit\n  inclusion\n}\n\nmodel EntitySnapshotReference {\n  /// The CUIDv2 of the entity snapshot relation.\n  fromId String\n\n  /// The CUIDv2 of the referenced entity snapshot.\n  toId String\n\n  /// The kind of the reference, which can be either explicit or inclusion (implicit).\n  kind EntityReferenceKind\n\n  /// The group of the references.\n  /// It can be either the exlicit group name provided by the entity explicit reference,\n  /// or name of the inclusion field of the parent entity for implicit references.\n  group String\n\n  /// The entity snapshot that holds the reference.\n  from EntitySnapshot @relation(\"EntitySnapshotReferences\", fields: [fromId], references: [id])\n\n  /// The entity snapshot that is referenced.\n  to EntitySnapshot @relation(\"EntitySnapshotReferencedBy\", fields: [toId], references: [id])\n\n  @@id([fromId, toId, kind, group])\n  @@index([toId])\n  @@index([fromId])\n}\n\nmodel EntitySnapshotContent {\n  /// The SHA-256 hash of the entity snapshot content.\n  hash String @id\n\n  /// The metadata of the entity at the time of the snapshot.\n  ///\n  /// [EntityMeta]\n  meta Json?\n\n  /// The content of the entity snapshot, which is opaque to the backend.\n  content Json\n\n  /// The entity snapshots that have this content.\n  snapshots EntitySnapshot[]\n}\n\nenum InstanceEvaluationStatus {\n  /// transient statuses (not persisted in the database)\n  evaluating\n\n  /// stable statuses\n  evaluated\n  error\n}\n\n/// The evaluation state tracks the result of evaluating composite instances to produce virtual instances.\n///\n/// Composite instances are template components that generate other instances (virtual instances) when evaluated.\n/// The evaluation process executes the composite's create function with resolved inputs to produce a tree\n/// of child instances. These virtual instances exist in the source \"virtual\" state and can be units\n/// (mapping to Pulumi resources) or other composites (producing more virtual instances recursively).\n///\n/// Evaluation happens automatically after project unlock and library reloads to keep virtual instances\n/// synchronized with their composite definitions. Evaluation state persists the produced instance model\n/// and tracks success/error status with descriptive messages showing the instance tree or error details.\nmodel InstanceEvaluationState {\n  /// The ID of the state of the instance.\n  stateId String @id\n\n  /// The status of the instance evaluation.\n  status InstanceEvaluationStatus\n\n  /// The message describing the evaluation status.\n  /// If the evaluation is failed, this message will contain the error description.\n  message String?\n\n  /// The model produced by the evaluation.\n  ///\n  /// Will be `null` if the evaluation is failed.\n  ///\n  /// Can be set for both: real composite instances and virtual instances produced by the evaluation.\n  ///\n  /// [InstanceModel]\n  model Json?\n\n  /// The time when the last evaluation was finished.\n  evaluatedAt DateTime @updatedAt\n\n  /// The instance this state belongs to.\n  state InstanceState @relation(fields: [stateId], references: [id])\n}\n\nenum InstanceStatus {\n  /// The instance is exists in the model (resident or virtual), but not yet deployed or was completely destroyed.\n  ///\n  /// \"attempted\", \"deployed\" and \"failed\" instances can be transitioned back to \"undeployed\" after\n  /// successful \"destroy\" operation.\n  undeployed\n\n  /// The instance is attempted, but not yet fully deployed.\n  ///\n  /// Normally, this status is very short-lived, and here to indicate that the instance\n  /// cannot be safely deleted from the the model until it will be completely destroyed.\n  attempted\n\n  /// The initial deployment of the instance was successful.\n  ///\n  /// The transition of \"deployed -> failed\" is not possible, so consequent failed operations\n  /// will not affect this status.\n  ///\n  /// Like \"attempted\", that instance cannot be safely deleted from the model until it will be completely destroyed.\n  deployed\n\n  /// The initial deployment of the instance failed.\n  /// It can still be transitioned to \"deployed\" by a successful operation\n  ///\n  /// Like \"attempted\", that instance cannot be safely deleted from the model until it will be completely destroyed.\n  failed\n}\n\nenum InstanceSource {\n  /// The instance is defined in the project model.\n  resident\n\n  /// The instance is produced by evaluation of composite instance.\n  virtual\n}\n\nmodel InstanceState {\n  /// The surrogate CUIDv2 primary key of the instance to allow renaming instances.\n  id String @id @default(cuid(2))\n\n  /// The ID of the instance managed by the system.\n  ///\n  /// [InstanceId]\n  instanceId String @unique\n\n  /// The status of the instance.\n  status InstanceStatus\n\n  /// The source of the instance.\n  source InstanceSource\n\n  /// The kind of the instance.\n  ///\n  /// [InstanceKind]\n  kind String\n\n  /// The ID of the parent instance state, if this instance is a child of another composite instance.\n  parentId String?\n\n  /// The 32-bit nonce used to invalidate the input hash when secrets are updated.\n  inputHashNonce Int?\n\n  /// The calculated CRC32 hash of the instance's own configuration at the moment of last operation completion.\n  ///\n  /// This hash covers:\n  /// - component definition hash;\n  /// - the unit's source hash (if applicable);\n  /// - the instance's configuration (name, args, secret hashes / nonce).\n  ///\n  /// It does not include hashes of dependencies.\n  ///\n  /// Used together with `dependencyOutputHash` to short-circuit execution at runtime.\n  selfHash Int?\n\n  /// The calculated instance CRC32 input hash at the moment of last operation completion.\n  ///\n  /// This hash covers:\n  /// - the instance's configuration (name, args, secret hashes);\n  /// - component definition hash;\n  /// - the unit's source hash (if applicable);\n  /// - the input hashes and output hashes of all input instances.\n  inputHash Int?\n\n  /// The CRC32 of the SHA256 of the output produced by the instance at the moment of last operation completion.\n  ///\n  /// Does not depend on anything except the instance's output.\n  outputHash Int?\n\n  /// The calculated CRC32 dependency output hash at the moment of last operation completion.\n  ///\n  /// This hash is calculated as combination of output hashes of all input instances and nothing else.\n  ///\n  /// The primary use case of this hash is to \"short-circuit\" execution:\n  /// if the outputs of input instances have not changed, dependent instances can skip execution,\n  /// even if their input hashes changed due to upstream config changes.\n  /// This prevents unnecessary re-execution of the entire dependency graph when only non-output-affecting inputs are modified.\n  dependencyOutputHash Int?\n\n  /// The mapping of instance output names to artifact IDs passed via them.\n  ///\n  /// Used to authorize access to artifacts for other instances connected to these outputs.\n  ///\n  /// [InstanceArtifactIds]\n  exportedArtifactIds Json?\n\n  /// The snapshot of the instance model at the moment of last non-preview operation start.\n  ///\n  /// Null if the instance was never operated on.\n  ///\n  /// [InstanceModel]\n  model Json?\n\n  /// The snapshot of the resolved inputs at the moment of last non-preview operation start.\n  ///\n  /// Null if the instance was never operated on.\n  ///\n  /// [InstanceResolvedInputs]\n  resolvedInputs Json?\n\n  /// The count of Pulumi resources currently managed by this instance.\n  currentResourceCount Int?\n\n  /// The status fields produced by the last operation.\n  ///\n  /// [InstanceStatusFields]\n  statusFields Json?\n\n  /// Whether the instance has resource hooks and requires running program on destroy to properly clean up resources.\n  hasResourceHooks Boolean @default(false)\n\n  /// The ID of the user who last edited the instance in the project model.\n  ///\n  /// Null if the instance was never edited by the user or it was edited before the authentication was enabled.\n  lastEditedBy String?\n\n  /// The time when the instance was last edited by the user.\n  lastEditedAt DateTime?\n\n  /// The parent instance.\n  parent InstanceState? @relation(\"InstanceHierarchy\", fields: [parentId], references: [id])\n\n  /// The child instances, if any.\n  children InstanceState[] @relation(\"InstanceHierarchy\")\n\n  /// The evaluation state of this instance.\n  evaluationState InstanceEvaluationState?\n\n  /// The operation states associated with this instance.\n  operationStates InstanceOperationState[]\n\n  /// The secrets associated with this instance.\n  secrets Secret[]\n\n  /// The terminals associated with this instance.\n  terminals Terminal[]\n\n  /// The pages associated with this instance.\n  pages Page[]\n\n  /// The triggers associated with this instance.\n  triggers Trigger[]\n\n  /// Custom statuses for this instance.\n  customStatuses InstanceCustomStatus[]\n\n  /// The lock that is currently held on this instance.\n  lock InstanceLock?\n\n  /// Worker registrations associated with this instance.\n  workerRegistrations WorkerUnitRegistration[]\n\n  /// The grants giving service accounts access to this instance.\n  serviceAccountGrants ServiceAccountGrant[]\n\n  /// The artifacts produced or used by this instance.\n  artifacts Artifact[]\n\n  /// The operation logs associated with this instance.\n  operationLogs OperationLog[]\n\n  /// The user viewports associated with this instance.\n  userViewports UserCompositeViewport[]\n\n  /// The entity snapshots associated with this instance.\n  entitySnapshots EntitySnapshot[]\n}\n\nmodel UserProjectViewport {\n  /// The opaque ID of the user to which this viewport belongs.\n  userId String @id\n\n  /// The viewport of the user project managed by the frontend.\n  ///\n  /// ![unknown]\n  viewport Json\n}\n\nmodel UserCompositeViewport {\n  /// The opaque ID of the user to which this viewport belongs.\n  userId String\n\n  /// The ID of the state of the composite instance to which this viewport belongs.\n  stateId String\n\n  /// The viewport of the user composite instance managed by the frontend.\n  ///\n  /// ![unknown]\n  viewport Json\n\n  /// The instance state to which this viewport belongs.\n  state InstanceState @relation(fields: [stateId], references: [id])\n\n  @@id([userId, stateId])\n}\n\nmodel InstanceLock {\n  /// The ID of the instance state being locked.\n  stateId String @id\n\n  /// The metadata of the lock managed by the backend.\n  ///\n  /// [CommonObjectMeta]\n  meta Json\n\n  /// The CUIDv2 token to ensure ownership of the lock.\n  token String\n\n  /// The ID of the backend runtime holding the lock.\n  ///\n  /// The lock is considered stale once the holder is no longer alive.\n  holderId String?\n\n  /// The time when the lock was acquired.\n  acquiredAt DateTime @default(now())\n\n  /// The instance being locked.\n  state InstanceState @relation(fields: [stateId], references: [id])\n}\n\n/// The container for project instances. \n///\n/// Only used when \"database\" project model storage is used.\nmodel InstanceModel {\n  /// The ID of the instance in the format of `{type}:{name}`.\n  id String @id\n\n  /// The model of the instance managed by the backend.\n  ///\n  /// [InstanceModel]\n  model Json\n\n  /// The time when the instance model was created.\n  createdAt DateTime @default(now())\n\n  /// The time when the instance model was last updated.\n  updatedAt DateTime @updatedAt\n}\n\n/// The container for project hubs.\n///\n/// Only used when \"database\" project model storage is used.\nmodel HubModel {\n  /// The CUIDv2 of the hub.\n  id String @id\n\n  /// The model of the hub managed by the backend.\n  ///\n  /// [HubModel]\n  model Json\n\n  /// The time when the hub model was created.\n  createdAt DateTime @default(now())\n\n  /// The time when the hub model was last updated.\n  updatedAt DateTime @updatedAt\n}\n\nenum OperationStatus {\n  // transient statuses\n  pending\n  awaiting_approval\n  running\n  failing\n  cancelling\n\n  // stable statuses\n  completed\n  failed\n  cancelled\n}\n\nenum OperationType {\n  update\n  preview\n  destroy\n  recreate\n  refresh\n}\n\nenum InstanceOperationStatus {\n  // transient statuses\n  updating\n  processing_triggers\n  previewing\n  destroying\n  refreshing\n  pending\n  cancelling\n\n  // stable statuses\n  updated\n  previewed\n  skipped\n  destroyed\n  refreshed\n  cancelled\n  failed\n}\n\nmodel Operation {\n  /// The CUIDv2 of the operation.\n  id String @id @default(cuid(2))\n\n  /// The metadata of the operation.\n  ///\n  /// [OperationMeta]\n  meta Json\n\n  /// The type of the operation.\n  type OperationType\n\n  /// The status of the operation.\n  status OperationStatus @default(pending)\n\n  /// The options of the operation.\n  ///\n  /// [OperationOptions]\n  options Json\n\n  /// The IDs of the instances that were exlicitly requested to operate on.\n  ///\n  /// [InstanceIds]\n  requestedInstanceIds Json\n\n  /// The execution phases of the operation.\n  ///\n  /// [OperationPhase[]]\n  phases Json?\n\n  /// The ID of the failed or cancelled operation retried by this operation.\n  retriedOperationId String?\n\n  /// The request of the approval of the operation.\n  ///\n  /// Set only for the operations which must be approved before the execution.\n  ///\n  /// [OperationApprovalRequest]\n  approvalRequest Json?\n\n  /// The ID of the backend runtime executing the operation.\n  ///\n  /// The operation is considered lost once the holder is no longer alive.\n  holderId String?\n\n  /// The time when the operation started.\n  startedAt DateTime @default(now())\n\n  /// The time when the operation was last updated.\n  updatedAt DateTime @updatedAt\n\n  /// The time when the operation finished.\n  finishedAt DateTime?\n\n  /// The operation states associated with this operation.\n  operationStates InstanceOperationState[]\n\n  /// The logs of the operation.\n  logs OperationLog[]\n\n  /// The entity snapshots created by this operation.\n  entitySnapshots EntitySnapshot[]\n\n  /// The approvals and rejections of this operation.\n  approvals OperationApproval[]\n}\n\nenum OperationApprovalDecision {\n  approved\n  rejected\n}\n\nmodel OperationApproval {\n  /// The CUIDv2 of the approval.\n  id String @id @default(cuid(2))\n\n  /// The ID of the operation being approved or rejected.\n  operationId String\n\n  /// The ID of the user who made the decision.\n  userId String\n\n  /// The decision of the user.\n  decision OperationApprovalDecision\n\n  /// The optional comment explaining the decision.\n  comment String?\n\n  /// The time when the decision was made.\n  createdAt DateTime @default(now())\n\n  /// The operation being approved or rejected.\n  operation Operation @relation(fields: [operationId], references: [id], onDelete: Cascade)\n\n  @@unique([operationId, userId])\n}\n\nmodel InstanceOperationState {\n  /// The ID of the operation this state belongs to.\n  operationId String\n\n  /// The ID of the instance state affected by the operation.\n  stateId String\n\n  /// The enum representing the current status of the instance from the operation perspective.\n  status InstanceOperationStatus\n\n  /// The current count of the Pulumi resources being managed by this instance.\n  currentResourceCount Int?\n\n  /// The total count of the Pulumi resources that this instance is expected to manage.\n  totalResourceCount Int?\n\n  /// The changes of the Pulumi resources planned by the preview operation.\n  ///\n  /// [ResourceChanges]\n  resourceChanges Json?\n\n  /// The snapshot of the instance model at the moment of operation start.\n  ///\n  /// [InstanceModel]\n  model Json\n\n  /// The snapshot of the resolved inputs at the moment of operation start.\n  ///\n  /// [InstanceResolvedInputs]\n  resolvedInputs Json\n\n  /// The IDs of the versions of the instance secrets passed to the unit by the update operation\n  /// keyed by the secret names.\n  /// Used to restore the secrets when the instance is rolled back to this operation.\n  ///\n  /// Null if the operation did not update the unit.\n  ///\n  /// ![Record<string, string>]\n  secrets Json?\n\n  /// The time when the operation on this instance started.\n  /// Not populated on create, even if the instance is ready to start immediately.\n  startedAt DateTime?\n\n  /// The time when the operation on this instance finished.\n  finishedAt DateTime?\n\n  /// The operation this state belongs to.\n  operation Operation @relation(fields: [operationId], references: [id])\n\n  /// The instance this state belongs to.\n  state InstanceState @relation(fields: [stateId], references: [id])\n\n  @@id([operationId, stateId])\n}\n\nmodel OperationLog {\n  /// The ULID of the log. Also used to extract the timestamp.\n  id String @id\n\n  /// The ID of the operation this log belongs to.\n  operationId String\n\n  /// The ID of the instance state this log produced by.\n  /// Can be `null` if the log is not associated with any instance.\n  stateId String?\n\n  /// Whether this log is a system/runtime message (vs unit output).\n  isSystem Boolean @default(false)\n\n  /// The content of the log.\n  content String\n\n  /// The operation this log belongs to.\n  operation Operation @relation(fields: [operationId], references: [id])\n\n  /// The instance this log produced by.\n  /// Can be `null` if the log is not associated with any instance.\n  state InstanceState? @relation(fields: [stateId], references: [id])\n}\n\n/// The page provides custom UI content for instances and service accounts.\n///\n/// Pages can be created by units to display instance-specific information or by service accounts.\n/// The content consists of blocks that support markdown text, QR codes with optional content display,\n/// and file attachments (inline or artifact references). Instance pages are explicitly deleted\n/// when instances are destroyed.\nmodel Page {\n  /// The CUIDv2 of the page.\n  id String @id @default(cuid(2))\n\n  /// The metadata of the page managed by the backend.\n  ///\n  /// [GlobalCommonObjectMeta]\n  meta Json\n\n  /// The ID of the instance state that owns this page.\n  stateId String?\n\n  /// The name of the page within the instance.\n  /// Will be null if the page is not owned by an instance.\n  name String?\n\n  /// The ID of the service account that owns this page.\n  serviceAccountId String?\n\n  /// The content of the page as an array of blocks.\n  ///\n  /// Supports markdown, QR codes, and file blocks.\n  ///\n  /// [PageContent]\n  content Json\n\n  /// The time when the page was created.\n  createdAt DateTime @default(now())\n\n  /// The time when the page was last updated.\n  updatedAt DateTime @updatedAt\n\n  /// The instance this page belongs to if any.\n  state InstanceState? @relation(fields: [stateId], references: [id])\n\n  /// The service account this page belongs to if any. \n  serviceAccount ServiceAccount? @relation(fields: [serviceAccountId], references: [id])\n\n  /// The artifacts used by this page.\n  artifacts Artifact[]\n\n  @@unique([stateId, name]) // the name is unique within the instance\n}\n\n/// The secret stores sensitive configuration values for instances, service accounts, and system components.\n///\n/// Secrets can be instance-owned (for unit configuration), service account-owned, or system-level\n/// (like Pulumi passwords). \n///\n/// Secrets persist through normal destroy (recreate) operations\n/// and are only deleted when explicitly forgetting instance state with the deleteSecrets flag or when manually deleted.\n///\n/// Secret updates invalidate instance input hashes via inputHashNonce, triggering re-execution\n/// during operations. But the content of the secrets itself do not contribute to the input hash.\n///\n/// System secrets like Pulumi passwords are created on-demand and persist for the whole project lifetime.\nmodel Secret {\n  /// The CUIDv2 of the secret.\n  id String @id @default(cuid(2))\n\n  /// The metadata of the secret managed by the backend.\n  ///\n  /// [GlobalCommonObjectMeta]\n  meta Json\n\n  /// The ID of the state of the instance owning this secret.\n  stateId String?\n\n  /// The name of the secret within the instance.\n  ///\n  /// Will be null if the secret is not owned by an instance.\n  name String?\n\n  /// The name of the secret within the project if the secret is a system secret.\n  systemName String? @unique\n\n  /// The ID of the service account owning this secret.\n  serviceAccountId String?\n\n  /// The content of the secret.\n  ///\n  /// ![unknown]\n  content Json\n\n  /// The time when the secret was created.\n  createdAt DateTime @default(now())\n\n  /// The time when the secret was last updated.\n  updatedAt DateTime @updatedAt\n\n  /// The ID of the user who last updated the content of the secret.\n  ///\n  /// Null if the secret was last updated by the system.\n  updatedBy String?\n\n  /// The instance this secret belongs to.\n  state InstanceState? @relation(fields: [stateId], references: [id])\n\n  /// The service account this secret belongs to.\n  serviceAccount ServiceAccount? @relation(fields: [serviceAccountId], references: [id])\n\n  /// The grants giving service accounts access to this secret.\n  serviceAccountGrants ServiceAccountGrant[]\n\n  /// The versions of the content of the secret recorded by the operations.\n  versions SecretVersion[]\n\n  @@unique([stateId, name]) // the name must be unique within the instance\n}\n\n/// The version of the content of the instance secret passed to the unit by the update operation.\n///\n/// The versions are recorded only when the operations snapshot the secrets, not on every update,\n/// and are deleted together with the secret.\nmodel SecretVersion {\n  /// The CUIDv2 of the secret version.\n  id String @id @default(cuid(2))\n\n  /// The ID of the secret.\n  secretId String\n\n  /// The content of the secret at the moment of recording.\n  ///\n  /// ![unknown]\n  content Json\n\n  /// The time when the version was recorded.\n  createdAt DateTime @default(now())\n\n  /// The secret this version belongs to.\n  secret Secret @relation(fields: [secretId], references: [id], onDelete: Cascade)\n\n  @@index([secretId])\n}\n\n/// The service account represents an identity for non-human actors in the system.\n///\n/// Service accounts are automatically created for workers and can be manually created\n/// for external integrations. They define the access scope for resources like artifacts,\n/// secrets, terminals, and pages. Multiple API keys can impersonate the same service account,\n/// allowing different authentication tokens to share the same permissions.\nmodel ServiceAccount {\n  /// The CUIDv2 of the service account.\n  id String @id @default(cuid(2))\n\n  /// The metadata of the service account managed by the backend.\n  ///\n  /// [ServiceAccountMeta]\n  meta Json\n\n  /// Whether the service account is allowed to request the operations\n  /// for the instances its worker is registered for.\n  canRequestOperations Boolean @default(false)\n\n  /// The time when the service account was created.\n  createdAt DateTime @default(now())\n\n  /// The time when the service account was last updated.\n  updatedAt DateTime @updatedAt\n\n  /// The workers using this service account.\n  workers Worker[]\n\n  /// The artifacts used by this service account.\n  artifacts Artifact[]\n\n  /// The secrets owned by this service account.\n  secrets Secret[]\n\n  /// The terminals owned by this service account.\n  terminals Terminal[]\n\n  /// The pages owned by this service account.\n  pages Page[]\n\n  /// The instance custom statuses attached by this service account.\n  customStatuses InstanceCustomStatus[]\n\n  /// The API keys impersonating this service account.\n  apiKeys ApiKey[]\n\n  /// The grants giving this service account access to instances and secrets.\n  grants ServiceAccountGrant[]\n}\n\n/// The service account grant gives the service account access to the resources it does not own.\n///\n/// The grant targets either the instance, giving access to the instance and all its secrets,\n/// or the single secret. Exactly one of `stateId` and `secretId` is set.\n/// The grants are deleted with the service account or the resource they target.\nmodel ServiceAccountGrant {\n  /// The CUIDv2 of the grant.\n  id String @id @default(cuid(2))\n\n  /// The ID of the service account receiving the access.\n  serviceAccountId String\n\n  /// The ID of the state of the instance the access is granted to.\n  stateId String?\n\n  /// The ID of the secret the access is granted to.\n  secretId String?\n\n  /// The time when the grant was created.\n  createdAt DateTime @default(now())\n\n  /// The service account receiving the access.\n  serviceAccount ServiceAccount @relation(fields: [serviceAccountId], references: [id], onDelete: Cascade)\n\n  /// The instance the access is granted to.\n  state InstanceState? @relation(fields: [stateId], references: [id], onDelete: Cascade)\n\n  /// The secret the access is granted to.\n  secret Secret? @relation(fields: [secretId], references: [id], onDelete: Cascade)\n\n  @@index([serviceAccountId])\n}\n\n/// The terminal status indicates whether a terminal can accept new connections.\nenum TerminalStatus {\n  /// The terminal is currently active and can create new sessions.\n  active\n\n  /// The instance was destroyed and the terminal is no longer available, but here for historical purposes.\n  unavailable\n}\n\n/// The terminal provides interactive shell access to infrastructure resources.\n///\n/// Terminals can be created by units (owned by instances) or by service accounts.\n/// Each terminal maintains a specification for creating containers that power the terminal,\n/// including image, command, environment, and mounted files.\n///\n/// Instance-owned terminals are marked unavailable when the instance is destroyed, preserving session history.\n/// Service account terminals persist independently.\nmodel Terminal {\n  /// The CUIDv2 of the terminal.\n  id String @id @default(cuid(2))\n\n  /// The metadata of the terminal managed by the backend.\n  ///\n  /// [GlobalCommonObjectMeta]\n  meta Json\n\n  /// The status of the terminal.\n  status TerminalStatus @default(active)\n\n  /// The specification for creating the container that powers this terminal.\n  ///\n  /// Includes image, command, working directory, environment variables, and files.\n  ///\n  /// [TerminalSpec]\n  spec Json\n\n  /// The ID of the instance state owning this terminal.\n  stateId String?\n\n  /// The name of the terminal within the instance.\n  ///\n  /// Will be null if the terminal is not owned by an instance.\n  name String?\n\n  /// The ID of the service account owning this terminal.\n  serviceAccountId String?\n\n  /// The time when the terminal was created.\n  createdAt DateTime @default(now())\n\n  /// The time when the terminal was last updated.\n  updatedAt DateTime @updatedAt\n\n  /// The instance this terminal belongs to.\n  state InstanceState? @relation(fields: [stateId], references: [id])\n\n  /// The service account this terminal belongs to.\n  serviceAccount ServiceAccount? @relation(fields: [serviceAccountId], references: [id])\n\n  /// The terminal sessions associated with this terminal.\n  sessions TerminalSession[]\n\n  /// The artifacts used by this terminal.\n  artifacts Artifact[]\n\n  @@unique([stateId, name]) // the name is unique within the instance\n}\n\n/// The terminal session represents a single interactive connection to a terminal.\n///\n/// Each session tracks when it started and finished. All session output is preserved in logs.\nmodel TerminalSession {\n  /// The CUIDv2 of the terminal session.\n  id String @id @default(cuid(2))\n\n  /// The ID of the terminal this session belongs to.\n  terminalId String\n\n  /// The time when the terminal session started.\n  startedAt DateTime @default(now())\n\n  /// The time when the terminal session finished.\n  finishedAt DateTime?\n\n  /// The terminal this session belongs to.\n  terminal Terminal @relation(fields: [terminalId], references: [id], onDelete: Cascade)\n\n  /// The logs of the terminal session.\n  logs TerminalSessionLog[]\n}\n\n/// The terminal session log captures all input and output from a terminal session.\n///\n/// Logs are stored with ULID identifiers for timestamp ordering.\nmodel TerminalSessionLog {\n  /// The ULID of the session log. Also used to extract the timestamp.\n  id String @id\n\n  /// The ID of the terminal session this log belongs to.\n  sessionId String\n\n  /// The content of the log.\n  content String\n\n  /// The terminal session this log belongs to.\n  session TerminalSession @relation(fields: [sessionId], references: [id], onDelete: Cascade)\n}\n\n/// The trigger defines automated actions that execute in response to specific events.\n///\n/// Triggers are created by units to perform actions at defined points in the instance lifecycle\n/// or on schedule. The spec field determines the trigger type and behavior - currently supporting\n/// lifecycle triggers (before-destroy, before-update, after-update and on-failure)\n/// and schedule triggers invoked by the backend according to the cron expression.\n/// Triggers are deleted along with their instance.\nmodel Trigger {\n  /// The CUIDv2 of the trigger.\n  id String @id @default(cuid(2))\n\n  /// The metadata of the trigger managed by the backend.\n  ///\n  /// [GlobalCommonObjectMeta]\n  meta Json\n\n  /// The ID of the instance state this trigger belongs to.\n  stateId String\n\n  /// The name of the trigger within the instance.\n  name String\n\n  /// The specification of the trigger describing its type and behavior.\n  ///\n  /// [TriggerSpec]\n  spec Json\n\n  /// The time when the schedule trigger was last invoked.\n  lastRunAt DateTime?\n\n  /// The time when the schedule trigger should be invoked next.\n  /// Always null for the triggers of other types.\n  nextRunAt DateTime?\n\n  /// The time when the trigger was created.\n  createdAt DateTime @default(now())\n\n  /// The time when the trigger was last updated.\n  updatedAt DateTime @updatedAt\n\n  /// The instance this trigger belongs to.\n  state InstanceState @relation(fields: [stateId], references: [id])\n\n  @@unique([stateId, name]) // the name is unique within the instance\n}\n\n/// The unlock method type determines how users authenticate to decrypt project databases.\nenum UnlockMethodType {\n  /// The password is used to unlock the project.\n  password\n\n  /// The passkey (via WebAuthn) is used to unlock the project.\n  passkey\n}\n\n/// The unlock method enables decryption of project databases through user authentication.\n///\n/// Each project database is encrypted with a master key, which is then encrypted for each\n/// unlock method's recipient using AGE encryption. Users authenticate (password or passkey)\n/// to decrypt their specific AGE identity, which then decrypts the master key.\n///\n/// Multiple unlock methods can exist per project, allowing different authentication paths\n/// to the same encrypted database. When unlock methods are added/removed, the master key\n/// is re-encrypted for the new set of recipients.\n///\n/// The encryptedIdentity contains the AGE identity encrypted with the user's authentication\n/// method (password-derived key or WebAuthn), while the recipient is the public key\n/// corresponding to that identity.\nmodel UnlockMethod {\n  /// The CUIDv2 of the unlock method.\n  id String @id @default(cuid(2))\n\n  /// The metadata of the unlock method managed by the backend.\n  /// \n  /// [UnlockMethodMeta]\n  meta Json\n\n  /// The type of unlock method.\n  type UnlockMethodType\n\n  /// The AGE identity encrypted and armored also with AGE.\n  encryptedIdentity String\n\n  /// The AGE recipient for this unlock method.\n  recipient String @unique\n\n  /// The time when the unlock method was created.\n  createdAt DateTime @default(now())\n\n  /// The time when the unlock method was last updated.\n  updatedAt DateTime @updatedAt\n}\n\n/// The worker represents a containerized application that extends unit capabilities beyond Pulumi execution.\n///\n/// Workers enable units to perform runtime operations after Pulumi program completion,\n/// such as attaching custom statuses, monitoring resources, or triggering unit reconfigurations.\n/// Since Pulumi programs cannot affect instances after execution, workers bypass this limitation\n/// by providing persistent runtime behavior.\n///\n/// The worker identity (fully qualified image name) indicates the same publisher/party and services as natural authentication mechanism.\n/// All versions of a worker share the same service account, meaning they operate over\n/// the same resources and have the same access scope within the platform.\nmodel Worker {\n  /// The CUIDv2 of the worker.\n  id String @id @default(cuid(2))\n\n  /// The identity of the worker derived from the container image.\n  ///\n  /// This is the fully qualified image name without the tag or digest.\n  /// The format is `{<registry>/}[<namespace>/]<name>`.\n  ///\n  /// For example: `ghcr.io/highstate/worker` or `docker.io/library/ubuntu`.\n  identity String @unique\n\n  /// The ID of the service account this worker uses.\n  serviceAccountId String @unique\n\n  /// The time this worker first appeared in the system.\n  createdAt DateTime @default(now())\n\n  /// The service account impersonating this worker.\n  serviceAccount ServiceAccount @relation(fields: [serviceAccountId], references: [id])\n\n  /// The versions of this worker.\n  versions WorkerVersion[]\n\n  /// The operation requests made by this worker.\n  operationRequests WorkerOperationRequest[]\n}\n\n/// The operation request made by the worker.\n///\n/// The requests are persisted to limit the number of the operations\n/// the worker can request within the sliding window across all backends.\nmodel WorkerOperationRequest {\n  /// The CUIDv2 of the request.\n  id String @id @default(cuid(2))\n\n  /// The ID of the worker which made the request.\n  workerId String\n\n  /// The time when the request was made.\n  createdAt DateTime @default(now())\n\n  /// The worker which made the request.\n  worker Worker @relation(fields: [workerId], references: [id], onDelete: Cascade)\n\n  @@index([workerId, createdAt])\n}\n\nenum WorkerVersionStatus {\n  /// The status is unknown.\n  unknown\n\n  /// The worker is being started by one of the runtimes.\n  starting\n\n  /// The worker is running and serving registrations.\n  running\n\n  /// The worker is being stopping (after was starting/running and was disabled).\n  stopping\n\n  /// The worker is stopped and not serving registrations.\n  stopped\n\n  /// The worker failed to start/crashed more than the allowed number of times.\n  error\n}\n\n/// The worker version represents a specific container image digest of a worker.\n///\n/// Each version corresponds to an immutable container image identified by its SHA256 digest.\n/// Versions are automatically created when units reference new image digests and deleted\n/// when no longer referenced by any unit registrations.\n///\n/// Each version has its own API key for isolation, but all versions of a worker\n/// share the same service account and thus the same access scope within the platform.\n/// The runtime starts containers when registrations exist and stops them when removed.\nmodel WorkerVersion {\n  /// The CUIDv2 of the worker version.\n  id String @id @default(cuid(2))\n\n  /// The metadata of the worker version managed by the backend.\n  ///\n  /// [CommonObjectMeta]\n  meta Json\n\n  /// The current status of the worker version reported by the runtime.\n  status WorkerVersionStatus @default(unknown)\n\n  /// Whether this worker version is enabled and will be launched when project is unclocked.\n  enabled Boolean @default(true)\n\n  /// The ID of the runtime where this worker version currently runs.\n  runtimeId String?\n\n  /// The ID of the worker this version belongs to.\n  workerId String\n\n  /// The digest of the worker version used to identify it.\n  /// The format is raw SHA256 digest without the `sha256:` prefix in lowercase hex.\n  digest String @unique\n\n  /// The ID of the API key this worker version uses.\n  apiKeyId String @unique\n\n  /// The time this worker version was created.\n  createdAt DateTime @default(now())\n\n  /// The time this worker version was last updated.\n  updatedAt DateTime @updatedAt\n\n  /// The worker this version belongs to.\n  worker Worker @relation(fields: [workerId], references: [id])\n\n  /// The API key this worker version uses.\n  apiKey ApiKey @relation(fields: [apiKeyId], references: [id])\n\n  /// The unit registrations for this worker version.\n  unitRegistrations WorkerUnitRegistration[]\n\n  /// The logs produced by this worker version.\n  logs WorkerVersionLog[]\n}\n\n/// The worker unit registration tracks which unit instances require specific worker versions.\n///\n/// Units declare worker dependencies through their outputs, creating registrations that\n/// trigger the runtime to start corresponding worker containers. Each registration\n/// includes parameters passed to the worker for unit-specific configuration.\n///\n/// Registrations are managed during operation execution - created when units declare workers\n/// and removed when units are destroyed. Worker versions without registrations are garbage collected.\nmodel WorkerUnitRegistration {\n  /// The ID of the state of the unit instance requesting the registration.\n  stateId String\n\n  /// The name of the worker within the instance.\n  name String\n\n  /// The parameters of the registration passed by the unit.\n  ///\n  /// [WorkerUnitRegistrationParams]\n  params Json\n\n  /// The ID of the worker version this registration currently uses.\n  workerVersionId String\n\n  /// The time this registration was created.\n  createdAt DateTime @default(now())\n\n  /// The time this registration was last updated.\n  updatedAt DateTime @updatedAt\n\n  /// The unit instance requesting the registration.\n  state InstanceState @relation(fields: [stateId], references: [id])\n\n  /// The worker version this registration currently uses.\n  workerVersion WorkerVersion @relation(fields: [workerVersionId], references: [id])\n\n  @@id([stateId, name]) // the registration is identified by the instance and name\n}\n\n/// The worker version log captures output from running worker containers.\n///\n/// Logs include both worker-generated output and system messages from the runtime.\n/// The ULID identifier provides timestamp ordering. Logs are deleted with the worker version.\nmodel WorkerVersionLog {\n  /// The ULID of the worker log. Also used to extract the timestamp.\n  id String @id @default(ulid())\n\n  /// The ID of the worker version that produced this log.\n  workerVersionId String\n\n  /// The log content.\n  content String\n\n  /// Whether this log is a system/runtime message (vs worker output).\n  isSystem Boolean @default(false)\n\n  /// The worker version that produced this log.\n  workerVersion WorkerVersion @relation(fields: [workerVersionId], references: [id], onDelete: Cascade)\n}\n\ndatasource db {\n  provider = \"postgresql\"\n}\n\ngenerator client {\n  provider               = \"prisma-client\"\n  engineType             = \"client\"\n  output                 = \"../../../src/database/_generated/project/postgresql\"\n  moduleFormat           = \"esm\"\n  generatedFileExtension = \"ts\"\n  importFileExtension    = \"ts\"\n}\n\ngenerator json {\n  provider = \"prisma-json-types-generator\"\n}\n",
+  "runtimeDataModel": {
+    "models": {},
+    "enums": {},
+    "types": {}
+  },
+  "parameterizationSchema": {
+    "strings": [],
+    "graph": ""
+  }
+}
+
+config.runtimeDataModel = JSON.parse("{\"models\":{\"ApiKey\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"meta\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"serviceAccountId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"token\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"worker\",\"kind\":\"object\",\"type\":\"WorkerVersion\",\"relationName\":\"ApiKeyToWorkerVersion\"},{\"name\":\"serviceAccount\",\"kind\":\"object\",\"type\":\"ServiceAccount\",\"relationName\":\"ApiKeyToServiceAccount\"}],\"dbName\":null},\"Artifact\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"meta\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"hash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"size\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"chunkSize\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"serviceAccounts\",\"kind\":\"object\",\"type\":\"ServiceAccount\",\"relationName\":\"ArtifactToServiceAccount\"},{\"name\":\"instances\",\"kind\":\"object\",\"type\":\"InstanceState\",\"relationName\":\"ArtifactToInstanceState\"},{\"name\":\"terminals\",\"kind\":\"object\",\"type\":\"Terminal\",\"relationName\":\"ArtifactToTerminal\"},{\"name\":\"pages\",\"kind\":\"object\",\"type\":\"Page\",\"relationName\":\"ArtifactToPage\"},{\"name\":\"entitySnapshots\",\"kind\":\"object\",\"type\":\"EntitySnapshot\",\"relationName\":\"ArtifactToEntitySnapshot\"}],\"dbName\":null},\"InstanceCustomStatus\":{\"fields\":[{\"name\":\"stateId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"serviceAccountId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"meta\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"value\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"message\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"order\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"state\",\"kind\":\"object\",\"type\":\"InstanceState\",\"relationName\":\"InstanceCustomStatusToInstanceState\"},{\"name\":\"serviceAccount\",\"kind\":\"object\",\"type\":\"ServiceAccount\",\"relationName\":\"InstanceCustomStatusToServiceAccount\"}],\"dbName\":null},\"Entity\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"identity\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"snapshots\",\"kind\":\"object\",\"type\":\"EntitySnapshot\",\"relationName\":\"EntityToEntitySnapshot\"}],\"dbName\":null},\"EntitySnapshot\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"contentHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"entityId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"operationId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"stateId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"referencedInOutputs\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"exportedInOutputs\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"content\",\"kind\":\"object\",\"type\":\"EntitySnapshotContent\",\"relationName\":\"EntitySnapshotToEntitySnapshotContent\"},{\"name\":\"entity\",\"kind\":\"object\",\"type\":\"Entity\",\"relationName\":\"EntityToEntitySnapshot\"},{\"name\":\"operation\",\"kind\":\"object\",\"type\":\"Operation\",\"relationName\":\"EntitySnapshotToOperation\"},{\"name\":\"state\",\"kind\":\"object\",\"type\":\"InstanceState\",\"relationName\":\"EntitySnapshotToInstanceState\"},{\"name\":\"references\",\"kind\":\"object\",\"type\":\"EntitySnapshotReference\",\"relationName\":\"EntitySnapshotReferences\"},{\"name\":\"referencedBy\",\"kind\":\"object\",\"type\":\"EntitySnapshotReference\",\"relationName\":\"EntitySnapshotReferencedBy\"},{\"name\":\"artifacts\",\"kind\":\"object\",\"type\":\"Artifact\",\"relationName\":\"ArtifactToEntitySnapshot\"}],\"dbName\":null},\"EntitySnapshotReference\":{\"fields\":[{\"name\":\"fromId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"toId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"kind\",\"kind\":\"enum\",\"type\":\"EntityReferenceKind\"},{\"name\":\"group\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"from\",\"kind\":\"object\",\"type\":\"EntitySnapshot\",\"relationName\":\"EntitySnapshotReferences\"},{\"name\":\"to\",\"kind\":\"object\",\"type\":\"EntitySnapshot\",\"relationName\":\"EntitySnapshotReferencedBy\"}],\"dbName\":null},\"EntitySnapshotContent\":{\"fields\":[{\"name\":\"hash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"meta\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"content\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"snapshots\",\"kind\":\"object\",\"type\":\"EntitySnapshot\",\"relationName\":\"EntitySnapshotToEntitySnapshotContent\"}],\"dbName\":null},\"InstanceEvaluationState\":{\"fields\":[{\"name\":\"stateId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"InstanceEvaluationStatus\"},{\"name\":\"message\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"model\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"evaluatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"state\",\"kind\":\"object\",\"type\":\"InstanceState\",\"relationName\":\"InstanceEvaluationStateToInstanceState\"}],\"dbName\":null},\"InstanceState\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"instanceId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"InstanceStatus\"},{\"name\":\"source\",\"kind\":\"enum\",\"type\":\"InstanceSource\"},{\"name\":\"kind\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"parentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"inputHashNonce\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"selfHash\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"inputHash\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"outputHash\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"dependencyOutputHash\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"exportedArtifactIds\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"model\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"resolvedInputs\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"currentResourceCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"statusFields\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"hasResourceHooks\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"lastEditedBy\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"lastEditedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"parent\",\"kind\":\"object\",\"type\":\"InstanceState\",\"relationName\":\"InstanceHierarchy\"},{\"name\":\"children\",\"kind\":\"object\",\"type\":\"InstanceState\",\"relationName\":\"InstanceHierarchy\"},{\"name\":\"evaluationState\",\"kind\":\"object\",\"type\":\"InstanceEvaluationState\",\"relationName\":\"InstanceEvaluationStateToInstanceState\"},{\"name\":\"operationStates\",\"kind\":\"object\",\"type\":\"InstanceOperationState\",\"relationName\":\"InstanceOperationStateToInstanceState\"},{\"name\":\"secrets\",\"kind\":\"object\",\"type\":\"Secret\",\"relationName\":\"InstanceStateToSecret\"},{\"name\":\"terminals\",\"kind\":\"object\",\"type\":\"Terminal\",\"relationName\":\"InstanceStateToTerminal\"},{\"name\":\"pages\",\"kind\":\"object\",\"type\":\"Page\",\"relationName\":\"InstanceStateToPage\"},{\"name\":\"triggers\",\"kind\":\"object\",\"type\":\"Trigger\",\"relationName\":\"InstanceStateToTrigger\"},{\"name\":\"customStatuses\",\"kind\":\"object\",\"type\":\"InstanceCustomStatus\",\"relationName\":\"InstanceCustomStatusToInstanceState\"},{\"name\":\"lock\",\"kind\":\"object\",\"type\":\"InstanceLock\",\"relationName\":\"InstanceLockToInstanceState\"},{\"name\":\"workerRegistrations\",\"kind\":\"object\",\"type\":\"WorkerUnitRegistration\",\"relationName\":\"InstanceStateToWorkerUnitRegistration\"},{\"name\":\"serviceAccountGrants\",\"kind\":\"object\",\"type\":\"ServiceAccountGrant\",\"relationName\":\"InstanceStateToServiceAccountGrant\"},{\"name\":\"artifacts\",\"kind\":\"object\",\"type\":\"Artifact\",\"relationName\":\"ArtifactToInstanceState\"},{\"name\":\"operationLogs\",\"kind\":\"object\",\"type\":\"OperationLog\",\"relationName\":\"InstanceStateToOperationLog\"},{\"name\":\"userViewports\",\"kind\":\"object\",\"type\":\"UserCompositeViewport\",\"relationName\":\"InstanceStateToUserCompositeViewport\"},{\"name\":\"entitySnapshots\",\"kind\":\"object\",\"type\":\"EntitySnapshot\",\"relationName\":\"EntitySnapshotToInstanceState\"}],\"dbName\":null},\"UserProjectViewport\":{\"fields\":[{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"viewport\",\"kind\":\"scalar\",\"type\":\"Json\"}],\"dbName\":null},\"UserCompositeViewport\":{\"fields\":[{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"stateId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"viewport\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"state\",\"kind\":\"object\",\"type\":\"InstanceState\",\"relationName\":\"InstanceStateToUserCompositeViewport\"}],\"dbName\":null},\"InstanceLock\":{\"fields\":[{\"name\":\"stateId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"meta\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"token\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"holderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"acquiredAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"state\",\"kind\":\"object\",\"type\":\"InstanceState\",\"relationName\":\"InstanceLockToInstanceState\"}],\"dbName\":null},\"InstanceModel\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"model\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"HubModel\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"model\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"Operation\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"meta\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"OperationType\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"OperationStatus\"},{\"name\":\"options\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"requestedInstanceIds\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"phases\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"retriedOperationId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"approvalRequest\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"holderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"startedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"finishedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"operationStates\",\"kind\":\"object\",\"type\":\"InstanceOperationState\",\"relationName\":\"InstanceOperationStateToOperation\"},{\"name\":\"logs\",\"kind\":\"object\",\"type\":\"OperationLog\",\"relationName\":\"OperationToOperationLog\"},{\"name\":\"entitySnapshots\",\"kind\":\"object\",\"type\":\"EntitySnapshot\",\"relationName\":\"EntitySnapshotToOperation\"},{\"name\":\"approvals\",\"kind\":\"object\",\"type\":\"OperationApproval\",\"relationName\":\"OperationToOperationApproval\"}],\"dbName\":null},\"OperationApproval\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"operationId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"decision\",\"kind\":\"enum\",\"type\":\"OperationApprovalDecision\"},{\"name\":\"comment\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"operation\",\"kind\":\"object\",\"type\":\"Operation\",\"relationName\":\"OperationToOperationApproval\"}],\"dbName\":null},\"InstanceOperationState\":{\"fields\":[{\"name\":\"operationId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"stateId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"InstanceOperationStatus\"},{\"name\":\"currentResourceCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"totalResourceCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"resourceChanges\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"model\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"resolvedInputs\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"secrets\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"startedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"finishedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"operation\",\"kind\":\"object\",\"type\":\"Operation\",\"relationName\":\"InstanceOperationStateToOperation\"},{\"name\":\"state\",\"kind\":\"object\",\"type\":\"InstanceState\",\"relationName\":\"InstanceOperationStateToInstanceState\"}],\"dbName\":null},\"OperationLog\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"operationId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"stateId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"isSystem\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"content\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"operation\",\"kind\":\"object\",\"type\":\"Operation\",\"relationName\":\"OperationToOperationLog\"},{\"name\":\"state\",\"kind\":\"object\",\"type\":\"InstanceState\",\"relationName\":\"InstanceStateToOperationLog\"}],\"dbName\":null},\"Page\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"meta\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"stateId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"serviceAccountId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"content\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"state\",\"kind\":\"object\",\"type\":\"InstanceState\",\"relationName\":\"InstanceStateToPage\"},{\"name\":\"serviceAccount\",\"kind\":\"object\",\"type\":\"ServiceAccount\",\"relationName\":\"PageToServiceAccount\"},{\"name\":\"artifacts\",\"kind\":\"object\",\"type\":\"Artifact\",\"relationName\":\"ArtifactToPage\"}],\"dbName\":null},\"Secret\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"meta\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"stateId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"systemName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"serviceAccountId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"content\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedBy\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"state\",\"kind\":\"object\",\"type\":\"InstanceState\",\"relationName\":\"InstanceStateToSecret\"},{\"name\":\"serviceAccount\",\"kind\":\"object\",\"type\":\"ServiceAccount\",\"relationName\":\"SecretToServiceAccount\"},{\"name\":\"serviceAccountGrants\",\"kind\":\"object\",\"type\":\"ServiceAccountGrant\",\"relationName\":\"SecretToServiceAccountGrant\"},{\"name\":\"versions\",\"kind\":\"object\",\"type\":\"SecretVersion\",\"relationName\":\"SecretToSecretVersion\"}],\"dbName\":null},\"SecretVersion\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"secretId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"content\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"secret\",\"kind\":\"object\",\"type\":\"Secret\",\"relationName\":\"SecretToSecretVersion\"}],\"dbName\":null},\"ServiceAccount\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"meta\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"canRequestOperations\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"workers\",\"kind\":\"object\",\"type\":\"Worker\",\"relationName\":\"ServiceAccountToWorker\"},{\"name\":\"artifacts\",\"kind\":\"object\",\"type\":\"Artifact\",\"relationName\":\"ArtifactToServiceAccount\"},{\"name\":\"secrets\",\"kind\":\"object\",\"type\":\"Secret\",\"relationName\":\"SecretToServiceAccount\"},{\"name\":\"terminals\",\"kind\":\"object\",\"type\":\"Terminal\",\"relationName\":\"ServiceAccountToTerminal\"},{\"name\":\"pages\",\"kind\":\"object\",\"type\":\"Page\",\"relationName\":\"PageToServiceAccount\"},{\"name\":\"customStatuses\",\"kind\":\"object\",\"type\":\"InstanceCustomStatus\",\"relationName\":\"InstanceCustomStatusToServiceAccount\"},{\"name\":\"apiKeys\",\"kind\":\"object\",\"type\":\"ApiKey\",\"relationName\":\"ApiKeyToServiceAccount\"},{\"name\":\"grants\",\"kind\":\"object\",\"type\":\"ServiceAccountGrant\",\"relationName\":\"ServiceAccountToServiceAccountGrant\"}],\"dbName\":null},\"ServiceAccountGrant\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"serviceAccountId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"stateId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"secretId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"serviceAccount\",\"kind\":\"object\",\"type\":\"ServiceAccount\",\"relationName\":\"ServiceAccountToServiceAccountGrant\"},{\"name\":\"state\",\"kind\":\"object\",\"type\":\"InstanceState\",\"relationName\":\"InstanceStateToServiceAccountGrant\"},{\"name\":\"secret\",\"kind\":\"object\",\"type\":\"Secret\",\"relationName\":\"SecretToServiceAccountGrant\"}],\"dbName\":null},\"Terminal\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"meta\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"TerminalStatus\"},{\"name\":\"spec\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"stateId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"serviceAccountId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"state\",\"kind\":\"object\",\"type\":\"InstanceState\",\"relationName\":\"InstanceStateToTerminal\"},{\"name\":\"serviceAccount\",\"kind\":\"object\",\"type\":\"ServiceAccount\",\"relationName\":\"ServiceAccountToTerminal\"},{\"name\":\"sessions\",\"kind\":\"object\",\"type\":\"TerminalSession\",\"relationName\":\"TerminalToTerminalSession\"},{\"name\":\"artifacts\",\"kind\":\"object\",\"type\":\"Artifact\",\"relationName\":\"ArtifactToTerminal\"}],\"dbName\":null},\"TerminalSession\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"terminalId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"startedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"finishedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"terminal\",\"kind\":\"object\",\"type\":\"Terminal\",\"relationName\":\"TerminalToTerminalSession\"},{\"name\":\"logs\",\"kind\":\"object\",\"type\":\"TerminalSessionLog\",\"relationName\":\"TerminalSessionToTerminalSessionLog\"}],\"dbName\":null},\"TerminalSessionLog\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sessionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"content\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"session\",\"kind\":\"object\",\"type\":\"TerminalSession\",\"relationName\":\"TerminalSessionToTerminalSessionLog\"}],\"dbName\":null},\"Trigger\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"meta\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"stateId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"spec\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"lastRunAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"nextRunAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"state\",\"kind\":\"object\",\"type\":\"InstanceState\",\"relationName\":\"InstanceStateToTrigger\"}],\"dbName\":null},\"UnlockMethod\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"meta\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"UnlockMethodType\"},{\"name\":\"encryptedIdentity\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"recipient\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"Worker\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"identity\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"serviceAccountId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"serviceAccount\",\"kind\":\"object\",\"type\":\"ServiceAccount\",\"relationName\":\"ServiceAccountToWorker\"},{\"name\":\"versions\",\"kind\":\"object\",\"type\":\"WorkerVersion\",\"relationName\":\"WorkerToWorkerVersion\"},{\"name\":\"operationRequests\",\"kind\":\"object\",\"type\":\"WorkerOperationRequest\",\"relationName\":\"WorkerToWorkerOperationRequest\"}],\"dbName\":null},\"WorkerOperationRequest\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"workerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"worker\",\"kind\":\"object\",\"type\":\"Worker\",\"relationName\":\"WorkerToWorkerOperationRequest\"}],\"dbName\":null},\"WorkerVersion\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"meta\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"WorkerVersionStatus\"},{\"name\":\"enabled\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"runtimeId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"workerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"digest\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"apiKeyId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"worker\",\"kind\":\"object\",\"type\":\"Worker\",\"relationName\":\"WorkerToWorkerVersion\"},{\"name\":\"apiKey\",\"kind\":\"object\",\"type\":\"ApiKey\",\"relationName\":\"ApiKeyToWorkerVersion\"},{\"name\":\"unitRegistrations\",\"kind\":\"object\",\"type\":\"WorkerUnitRegistration\",\"relationName\":\"WorkerUnitRegistrationToWorkerVersion\"},{\"name\":\"logs\",\"kind\":\"object\",\"type\":\"WorkerVersionLog\",\"relationName\":\"WorkerVersionToWorkerVersionLog\"}],\"dbName\":null},\"WorkerUnitRegistration\":{\"fields\":[{\"name\":\"stateId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"params\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"workerVersionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"state\",\"kind\":\"object\",\"type\":\"InstanceState\",\"relationName\":\"InstanceStateToWorkerUnitRegistration\"},{\"name\":\"workerVersion\",\"kind\":\"object\",\"type\":\"WorkerVersion\",\"relationName\":\"WorkerUnitRegistrationToWorkerVersion\"}],\"dbName\":null},\"WorkerVersionLog\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"workerVersionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"content\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"isSystem\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"workerVersion\",\"kind\":\"object\",\"type\":\"WorkerVersion\",\"relationName\":\"WorkerVersionToWorkerVersionLog\"}],\"dbName\":null}},\"enums\":{},\"types\":{}}")
+config.parameterizationSchema = {
+  strings: JSON.parse("[\"where\",\"orderBy\",\"cursor\",\"workers\",\"serviceAccounts\",\"parent\",\"children\",\"state\",\"evaluationState\",\"operationStates\",\"operation\",\"logs\",\"snapshots\",\"_count\",\"content\",\"entity\",\"from\",\"to\",\"references\",\"referencedBy\",\"artifacts\",\"entitySnapshots\",\"approvals\",\"serviceAccount\",\"secret\",\"serviceAccountGrants\",\"versions\",\"secrets\",\"terminal\",\"session\",\"sessions\",\"terminals\",\"pages\",\"triggers\",\"customStatuses\",\"lock\",\"workerVersion\",\"workerRegistrations\",\"operationLogs\",\"userViewports\",\"instances\",\"apiKeys\",\"grants\",\"worker\",\"operationRequests\",\"apiKey\",\"unitRegistrations\",\"ApiKey.findUnique\",\"ApiKey.findUniqueOrThrow\",\"ApiKey.findFirst\",\"ApiKey.findFirstOrThrow\",\"ApiKey.findMany\",\"data\",\"ApiKey.createOne\",\"ApiKey.createMany\",\"ApiKey.createManyAndReturn\",\"ApiKey.updateOne\",\"ApiKey.updateMany\",\"ApiKey.updateManyAndReturn\",\"create\",\"update\",\"ApiKey.upsertOne\",\"ApiKey.deleteOne\",\"ApiKey.deleteMany\",\"having\",\"_min\",\"_max\",\"ApiKey.groupBy\",\"ApiKey.aggregate\",\"Artifact.findUnique\",\"Artifact.findUniqueOrThrow\",\"Artifact.findFirst\",\"Artifact.findFirstOrThrow\",\"Artifact.findMany\",\"Artifact.createOne\",\"Artifact.createMany\",\"Artifact.createManyAndReturn\",\"Artifact.updateOne\",\"Artifact.updateMany\",\"Artifact.updateManyAndReturn\",\"Artifact.upsertOne\",\"Artifact.deleteOne\",\"Artifact.deleteMany\",\"_avg\",\"_sum\",\"Artifact.groupBy\",\"Artifact.aggregate\",\"InstanceCustomStatus.findUnique\",\"InstanceCustomStatus.findUniqueOrThrow\",\"InstanceCustomStatus.findFirst\",\"InstanceCustomStatus.findFirstOrThrow\",\"InstanceCustomStatus.findMany\",\"InstanceCustomStatus.createOne\",\"InstanceCustomStatus.createMany\",\"InstanceCustomStatus.createManyAndReturn\",\"InstanceCustomStatus.updateOne\",\"InstanceCustomStatus.updateMany\",\"InstanceCustomStatus.updateManyAndReturn\",\"InstanceCustomStatus.upsertOne\",\"InstanceCustomStatus.deleteOne\",\"InstanceCustomStatus.deleteMany\",\"InstanceCustomStatus.groupBy\",\"InstanceCustomStatus.aggregate\",\"Entity.findUnique\",\"Entity.findUniqueOrThrow\",\"Entity.findFirst\",\"Entity.findFirstOrThrow\",\"Entity.findMany\",\"Entity.createOne\",\"Entity.createMany\",\"Entity.createManyAndReturn\",\"Entity.updateOne\",\"Entity.updateMany\",\"Entity.updateManyAndReturn\",\"Entity.upsertOne\",\"Entity.deleteOne\",\"Entity.deleteMany\",\"Entity.groupBy\",\"Entity.aggregate\",\"EntitySnapshot.findUnique\",\"EntitySnapshot.findUniqueOrThrow\",\"EntitySnapshot.findFirst\",\"EntitySnapshot.findFirstOrThrow\",\"EntitySnapshot.findMany\",\"EntitySnapshot.createOne\",\"EntitySnapshot.createMany\",\"EntitySnapshot.createManyAndReturn\",\"EntitySnapshot.updateOne\",\"EntitySnapshot.updateMany\",\"EntitySnapshot.updateManyAndReturn\",\"EntitySnapshot.upsertOne\",\"EntitySnapshot.deleteOne\",\"EntitySnapshot.deleteMany\",\"EntitySnapshot.groupBy\",\"EntitySnapshot.aggregate\",\"EntitySnapshotReference.findUnique\",\"EntitySnapshotReference.findUniqueOrThrow\",\"EntitySnapshotReference.findFirst\",\"EntitySnapshotReference.findFirstOrThrow\",\"EntitySnapshotReference.findMany\",\"EntitySnapshotReference.createOne\",\"EntitySnapshotReference.createMany\",\"EntitySnapshotReference.createManyAndReturn\",\"EntitySnapshotReference.updateOne\",\"EntitySnapshotReference.updateMany\",\"EntitySnapshotReference.updateManyAndReturn\",\"EntitySnapshotReference.upsertOne\",\"EntitySnapshotReference.deleteOne\",\"EntitySnapshotReference.deleteMany\",\"EntitySnapshotReference.groupBy\",\"EntitySnapshotReference.aggregate\",\"EntitySnapshotContent.findUnique\",\"EntitySnapshotContent.findUniqueOrThrow\",\"EntitySnapshotContent.findFirst\",\"EntitySnapshotContent.findFirstOrThrow\",\"EntitySnapshotContent.findMany\",\"EntitySnapshotContent.createOne\",\"EntitySnapshotContent.createMany\",\"EntitySnapshotContent.createManyAndReturn\",\"EntitySnapshotContent.updateOne\",\"EntitySnapshotContent.updateMany\",\"EntitySnapshotContent.updateManyAndReturn\",\"EntitySnapshotContent.upsertOne\",\"EntitySnapshotContent.deleteOne\",\"EntitySnapshotContent.deleteMany\",\"EntitySnapshotContent.groupBy\",\"EntitySnapshotContent.aggregate\",\"InstanceEvaluationState.findUnique\",\"InstanceEvaluationState.findUniqueOrThrow\",\"InstanceEvaluationState.findFirst\",\"InstanceEvaluationState.findFirstOrThrow\",\"InstanceEvaluationState.findMany\",\"InstanceEvaluationState.createOne\",\"InstanceEvaluationState.createMany\",\"InstanceEvaluationState.createManyAndReturn\",\"InstanceEvaluationState.updateOne\",\"InstanceEvaluationState.updateMany\",\"InstanceEvaluationState.updateManyAndReturn\",\"InstanceEvaluationState.upsertOne\",\"InstanceEvaluationState.deleteOne\",\"InstanceEvaluationState.deleteMany\",\"InstanceEvaluationState.groupBy\",\"InstanceEvaluationState.aggregate\",\"InstanceState.findUnique\",\"InstanceState.findUniqueOrThrow\",\"InstanceState.findFirst\",\"InstanceState.findFirstOrThrow\",\"InstanceState.findMany\",\"InstanceState.createOne\",\"InstanceState.createMany\",\"InstanceState.createManyAndReturn\",\"InstanceState.updateOne\",\"InstanceState.updateMany\",\"InstanceState.updateManyAndReturn\",\"InstanceState.upsertOne\",\"InstanceState.deleteOne\",\"InstanceState.deleteMany\",\"InstanceState.groupBy\",\"InstanceState.aggregate\",\"UserProjectViewport.findUnique\",\"UserProjectViewport.findUniqueOrThrow\",\"UserProjectViewport.findFirst\",\"UserProjectViewport.findFirstOrThrow\",\"UserProjectViewport.findMany\",\"UserProjectViewport.createOne\",\"UserProjectViewport.createMany\",\"UserProjectViewport.createManyAndReturn\",\"UserProjectViewport.updateOne\",\"UserProjectViewport.updateMany\",\"UserProjectViewport.updateManyAndReturn\",\"UserProjectViewport.upsertOne\",\"UserProjectViewport.deleteOne\",\"UserProjectViewport.deleteMany\",\"UserProjectViewport.groupBy\",\"UserProjectViewport.aggregate\",\"UserCompositeViewport.findUnique\",\"UserCompositeViewport.findUniqueOrThrow\",\"UserCompositeViewport.findFirst\",\"UserCompositeViewport.findFirstOrThrow\",\"UserCompositeViewport.findMany\",\"UserCompositeViewport.createOne\",\"UserCompositeViewport.createMany\",\"UserCompositeViewport.createManyAndReturn\",\"UserCompositeViewport.updateOne\",\"UserCompositeViewport.updateMany\",\"UserCompositeViewport.updateManyAndReturn\",\"UserCompositeViewport.upsertOne\",\"UserCompositeViewport.deleteOne\",\"UserCompositeViewport.deleteMany\",\"UserCompositeViewport.groupBy\",\"UserCompositeViewport.aggregate\",\"InstanceLock.findUnique\",\"InstanceLock.findUniqueOrThrow\",\"InstanceLock.findFirst\",\"InstanceLock.findFirstOrThrow\",\"InstanceLock.findMany\",\"InstanceLock.createOne\",\"InstanceLock.createMany\",\"InstanceLock.createManyAndReturn\",\"InstanceLock.updateOne\",\"InstanceLock.updateMany\",\"InstanceLock.updateManyAndReturn\",\"InstanceLock.upsertOne\",\"InstanceLock.deleteOne\",\"InstanceLock.deleteMany\",\"InstanceLock.groupBy\",\"InstanceLock.aggregate\",\"InstanceModel.findUnique\",\"InstanceModel.findUniqueOrThrow\",\"InstanceModel.findFirst\",\"InstanceModel.findFirstOrThrow\",\"InstanceModel.findMany\",\"InstanceModel.createOne\",\"InstanceModel.createMany\",\"InstanceModel.createManyAndReturn\",\"InstanceModel.updateOne\",\"InstanceModel.updateMany\",\"InstanceModel.updateManyAndReturn\",\"InstanceModel.upsertOne\",\"InstanceModel.deleteOne\",\"InstanceModel.deleteMany\",\"InstanceModel.groupBy\",\"InstanceModel.aggregate\",\"HubModel.findUnique\",\"HubModel.findUniqueOrThrow\",\"HubModel.findFirst\",\"HubModel.findFirstOrThrow\",\"HubModel.findMany\",\"HubModel.createOne\",\"HubModel.createMany\",\"HubModel.createManyAndReturn\",\"HubModel.updateOne\",\"HubModel.updateMany\",\"HubModel.updateManyAndReturn\",\"HubModel.upsertOne\",\"HubModel.deleteOne\",\"HubModel.deleteMany\",\"HubModel.groupBy\",\"HubModel.aggregate\",\"Operation.findUnique\",\"Operation.findUniqueOrThrow\",\"Operation.findFirst\",\"Operation.findFirstOrThrow\",\"Operation.findMany\",\"Operation.createOne\",\"Operation.createMany\",\"Operation.createManyAndReturn\",\"Operation.updateOne\",\"Operation.updateMany\",\"Operation.updateManyAndReturn\",\"Operation.upsertOne\",\"Operation.deleteOne\",\"Operation.deleteMany\",\"Operation.groupBy\",\"Operation.aggregate\",\"OperationApproval.findUnique\",\"OperationApproval.findUniqueOrThrow\",\"OperationApproval.findFirst\",\"OperationApproval.findFirstOrThrow\",\"OperationApproval.findMany\",\"OperationApproval.createOne\",\"OperationApproval.createMany\",\"OperationApproval.createManyAndReturn\",\"OperationApproval.updateOne\",\"OperationApproval.updateMany\",\"OperationApproval.updateManyAndReturn\",\"OperationApproval.upsertOne\",\"OperationApproval.deleteOne\",\"OperationApproval.deleteMany\",\"OperationApproval.groupBy\",\"OperationApproval.aggregate\",\"InstanceOperationState.findUnique\",\"InstanceOperationState.findUniqueOrThrow\",\"InstanceOperationState.findFirst\",\"InstanceOperationState.findFirstOrThrow\",\"InstanceOperationState.findMany\",\"InstanceOperationState.createOne\",\"InstanceOperationState.createMany\",\"InstanceOperationState.createManyAndReturn\",\"InstanceOperationState.updateOne\",\"InstanceOperationState.updateMany\",\"InstanceOperationState.updateManyAndReturn\",\"InstanceOperationState.upsertOne\",\"InstanceOperationState.deleteOne\",\"InstanceOperationState.deleteMany\",\"InstanceOperationState.groupBy\",\"InstanceOperationState.aggregate\",\"OperationLog.findUnique\",\"OperationLog.findUniqueOrThrow\",\"OperationLog.findFirst\",\"OperationLog.findFirstOrThrow\",\"OperationLog.findMany\",\"OperationLog.createOne\",\"OperationLog.createMany\",\"OperationLog.createManyAndReturn\",\"OperationLog.updateOne\",\"OperationLog.updateMany\",\"OperationLog.updateManyAndReturn\",\"OperationLog.upsertOne\",\"OperationLog.deleteOne\",\"OperationLog.deleteMany\",\"OperationLog.groupBy\",\"OperationLog.aggregate\",\"Page.findUnique\",\"Page.findUniqueOrThrow\",\"Page.findFirst\",\"Page.findFirstOrThrow\",\"Page.findMany\",\"Page.createOne\",\"Page.createMany\",\"Page.createManyAndReturn\",\"Page.updateOne\",\"Page.updateMany\",\"Page.updateManyAndReturn\",\"Page.upsertOne\",\"Page.deleteOne\",\"Page.deleteMany\",\"Page.groupBy\",\"Page.aggregate\",\"Secret.findUnique\",\"Secret.findUniqueOrThrow\",\"Secret.findFirst\",\"Secret.findFirstOrThrow\",\"Secret.findMany\",\"Secret.createOne\",\"Secret.createMany\",\"Secret.createManyAndReturn\",\"Secret.updateOne\",\"Secret.updateMany\",\"Secret.updateManyAndReturn\",\"Secret.upsertOne\",\"Secret.deleteOne\",\"Secret.deleteMany\",\"Secret.groupBy\",\"Secret.aggregate\",\"SecretVersion.findUnique\",\"SecretVersion.findUniqueOrThrow\",\"SecretVersion.findFirst\",\"SecretVersion.findFirstOrThrow\",\"SecretVersion.findMany\",\"SecretVersion.createOne\",\"SecretVersion.createMany\",\"SecretVersion.createManyAndReturn\",\"SecretVersion.updateOne\",\"SecretVersion.updateMany\",\"SecretVersion.updateManyAndReturn\",\"SecretVersion.upsertOne\",\"SecretVersion.deleteOne\",\"SecretVersion.deleteMany\",\"SecretVersion.groupBy\",\"SecretVersion.aggregate\",\"ServiceAccount.findUnique\",\"ServiceAccount.findUniqueOrThrow\",\"ServiceAccount.findFirst\",\"ServiceAccount.findFirstOrThrow\",\"ServiceAccount.findMany\",\"ServiceAccount.createOne\",\"ServiceAccount.createMany\",\"ServiceAccount.createManyAndReturn\",\"ServiceAccount.updateOne\",\"ServiceAccount.updateMany\",\"ServiceAccount.updateManyAndReturn\",\"ServiceAccount.upsertOne\",\"ServiceAccount.deleteOne\",\"ServiceAccount.deleteMany\",\"ServiceAccount.groupBy\",\"ServiceAccount.aggregate\",\"ServiceAccountGrant.findUnique\",\"ServiceAccountGrant.findUniqueOrThrow\",\"ServiceAccountGrant.findFirst\",\"ServiceAccountGrant.findFirstOrThrow\",\"ServiceAccountGrant.findMany\",\"ServiceAccountGrant.createOne\",\"ServiceAccountGrant.createMany\",\"ServiceAccountGrant.createManyAndReturn\",\"ServiceAccountGrant.updateOne\",\"ServiceAccountGrant.updateMany\",\"ServiceAccountGrant.updateManyAndReturn\",\"ServiceAccountGrant.upsertOne\",\"ServiceAccountGrant.deleteOne\",\"ServiceAccountGrant.deleteMany\",\"ServiceAccountGrant.groupBy\",\"ServiceAccountGrant.aggregate\",\"Terminal.findUnique\",\"Terminal.findUniqueOrThrow\",\"Terminal.findFirst\",\"Terminal.findFirstOrThrow\",\"Terminal.findMany\",\"Terminal.createOne\",\"Terminal.createMany\",\"Terminal.createManyAndReturn\",\"Terminal.updateOne\",\"Terminal.updateMany\",\"Terminal.updateManyAndReturn\",\"Terminal.upsertOne\",\"Terminal.deleteOne\",\"Terminal.deleteMany\",\"Terminal.groupBy\",\"Terminal.aggregate\",\"TerminalSession.findUnique\",\"TerminalSession.findUniqueOrThrow\",\"TerminalSession.findFirst\",\"TerminalSession.findFirstOrThrow\",\"TerminalSession.findMany\",\"TerminalSession.createOne\",\"TerminalSession.createMany\",\"TerminalSession.createManyAndReturn\",\"TerminalSession.updateOne\",\"TerminalSession.updateMany\",\"TerminalSession.updateManyAndReturn\",\"TerminalSession.upsertOne\",\"TerminalSession.deleteOne\",\"TerminalSession.deleteMany\",\"TerminalSession.groupBy\",\"TerminalSession.aggregate\",\"TerminalSessionLog.findUnique\",\"TerminalSessionLog.findUniqueOrThrow\",\"TerminalSessionLog.findFirst\",\"TerminalSessionLog.findFirstOrThrow\",\"TerminalSessionLog.findMany\",\"TerminalSessionLog.createOne\",\"TerminalSessionLog.createMany\",\"TerminalSessionLog.createManyAndReturn\",\"TerminalSessionLog.updateOne\",\"TerminalSessionLog.updateMany\",\"TerminalSessionLog.updateManyAndReturn\",\"TerminalSessionLog.upsertOne\",\"TerminalSessionLog.deleteOne\",\"TerminalSessionLog.deleteMany\",\"TerminalSessionLog.groupBy\",\"TerminalSessionLog.aggregate\",\"Trigger.findUnique\",\"Trigger.findUniqueOrThrow\",\"Trigger.findFirst\",\"Trigger.findFirstOrThrow\",\"Trigger.findMany\",\"Trigger.createOne\",\"Trigger.createMany\",\"Trigger.createManyAndReturn\",\"Trigger.updateOne\",\"Trigger.updateMany\",\"Trigger.updateManyAndReturn\",\"Trigger.upsertOne\",\"Trigger.deleteOne\",\"Trigger.deleteMany\",\"Trigger.groupBy\",\"Trigger.aggregate\",\"UnlockMethod.findUnique\",\"UnlockMethod.findUniqueOrThrow\",\"UnlockMethod.findFirst\",\"UnlockMethod.findFirstOrThrow\",\"UnlockMethod.findMany\",\"UnlockMethod.createOne\",\"UnlockMethod.createMany\",\"UnlockMethod.createManyAndReturn\",\"UnlockMethod.updateOne\",\"UnlockMethod.updateMany\",\"UnlockMethod.updateManyAndReturn\",\"UnlockMethod.upsertOne\",\"UnlockMethod.deleteOne\",\"UnlockMethod.deleteMany\",\"UnlockMethod.groupBy\",\"UnlockMethod.aggregate\",\"Worker.findUnique\",\"Worker.findUniqueOrThrow\",\"Worker.findFirst\",\"Worker.findFirstOrThrow\",\"Worker.findMany\",\"Worker.createOne\",\"Worker.createMany\",\"Worker.createManyAndReturn\",\"Worker.updateOne\",\"Worker.updateMany\",\"Worker.updateManyAndReturn\",\"Worker.upsertOne\",\"Worker.deleteOne\",\"Worker.deleteMany\",\"Worker.groupBy\",\"Worker.aggregate\",\"WorkerOperationRequest.findUnique\",\"WorkerOperationRequest.findUniqueOrThrow\",\"WorkerOperationRequest.findFirst\",\"WorkerOperationRequest.findFirstOrThrow\",\"WorkerOperationRequest.findMany\",\"WorkerOperationRequest.createOne\",\"WorkerOperationRequest.createMany\",\"WorkerOperationRequest.createManyAndReturn\",\"WorkerOperationRequest.updateOne\",\"WorkerOperationRequest.updateMany\",\"WorkerOperationRequest.updateManyAndReturn\",\"WorkerOperationRequest.upsertOne\",\"WorkerOperationRequest.deleteOne\",\"WorkerOperationRequest.deleteMany\",\"WorkerOperationRequest.groupBy\",\"WorkerOperationRequest.aggregate\",\"WorkerVersion.findUnique\",\"WorkerVersion.findUniqueOrThrow\",\"WorkerVersion.findFirst\",\"WorkerVersion.findFirstOrThrow\",\"WorkerVersion.findMany\",\"WorkerVersion.createOne\",\"WorkerVersion.createMany\",\"WorkerVersion.createManyAndReturn\",\"WorkerVersion.updateOne\",\"WorkerVersion.updateMany\",\"WorkerVersion.updateManyAndReturn\",\"WorkerVersion.upsertOne\",\"WorkerVersion.deleteOne\",\"WorkerVersion.deleteMany\",\"WorkerVersion.groupBy\",\"WorkerVersion.aggregate\",\"WorkerUnitRegistration.findUnique\",\"WorkerUnitRegistration.findUniqueOrThrow\",\"WorkerUnitRegistration.findFirst\",\"WorkerUnitRegistration.findFirstOrThrow\",\"WorkerUnitRegistration.findMany\",\"WorkerUnitRegistration.createOne\",\"WorkerUnitRegistration.createMany\",\"WorkerUnitRegistration.createManyAndReturn\",\"WorkerUnitRegistration.updateOne\",\"WorkerUnitRegistration.updateMany\",\"WorkerUnitRegistration.updateManyAndReturn\",\"WorkerUnitRegistration.upsertOne\",\"WorkerUnitRegistration.deleteOne\",\"WorkerUnitRegistration.deleteMany\",\"WorkerUnitRegistration.groupBy\",\"WorkerUnitRegistration.aggregate\",\"WorkerVersionLog.findUnique\",\"WorkerVersionLog.findUniqueOrThrow\",\"WorkerVersionLog.findFirst\",\"WorkerVersionLog.findFirstOrThrow\",\"WorkerVersionLog.findMany\",\"WorkerVersionLog.createOne\",\"WorkerVersionLog.createMany\",\"WorkerVersionLog.createManyAndReturn\",\"WorkerVersionLog.updateOne\",\"WorkerVersionLog.updateMany\",\"WorkerVersionLog.updateManyAndReturn\",\"WorkerVersionLog.upsertOne\",\"WorkerVersionLog.deleteOne\",\"WorkerVersionLog.deleteMany\",\"WorkerVersionLog.groupBy\",\"WorkerVersionLog.aggregate\",\"AND\",\"OR\",\"NOT\",\"id\",\"workerVersionId\",\"isSystem\",\"equals\",\"not\",\"in\",\"notIn\",\"lt\",\"lte\",\"gt\",\"gte\",\"contains\",\"startsWith\",\"endsWith\",\"stateId\",\"name\",\"params\",\"createdAt\",\"updatedAt\",\"string_contains\",\"string_starts_with\",\"string_ends_with\",\"array_starts_with\",\"array_ends_with\",\"array_contains\",\"meta\",\"WorkerVersionStatus\",\"status\",\"enabled\",\"runtimeId\",\"workerId\",\"digest\",\"apiKeyId\",\"identity\",\"serviceAccountId\",\"UnlockMethodType\",\"type\",\"encryptedIdentity\",\"recipient\",\"spec\",\"lastRunAt\",\"nextRunAt\",\"sessionId\",\"terminalId\",\"startedAt\",\"finishedAt\",\"TerminalStatus\",\"secretId\",\"canRequestOperations\",\"systemName\",\"updatedBy\",\"operationId\",\"InstanceOperationStatus\",\"currentResourceCount\",\"totalResourceCount\",\"resourceChanges\",\"model\",\"resolvedInputs\",\"userId\",\"OperationApprovalDecision\",\"decision\",\"comment\",\"OperationType\",\"OperationStatus\",\"options\",\"requestedInstanceIds\",\"phases\",\"retriedOperationId\",\"approvalRequest\",\"holderId\",\"every\",\"some\",\"none\",\"token\",\"acquiredAt\",\"viewport\",\"instanceId\",\"InstanceStatus\",\"InstanceSource\",\"source\",\"kind\",\"parentId\",\"inputHashNonce\",\"selfHash\",\"inputHash\",\"outputHash\",\"dependencyOutputHash\",\"exportedArtifactIds\",\"statusFields\",\"hasResourceHooks\",\"lastEditedBy\",\"lastEditedAt\",\"InstanceEvaluationStatus\",\"message\",\"evaluatedAt\",\"hash\",\"fromId\",\"toId\",\"EntityReferenceKind\",\"group\",\"contentHash\",\"entityId\",\"referencedInOutputs\",\"exportedInOutputs\",\"value\",\"order\",\"size\",\"chunkSize\",\"userId_stateId\",\"stateId_name\",\"stateId_serviceAccountId_name\",\"operationId_userId\",\"fromId_toId_kind_group\",\"operationId_stateId\",\"is\",\"isNot\",\"connectOrCreate\",\"upsert\",\"createMany\",\"set\",\"disconnect\",\"delete\",\"connect\",\"updateMany\",\"deleteMany\",\"increment\",\"decrement\",\"multiply\",\"divide\"]"),
+  graph: "jRGeApAECxcAALYIACArAAC1CAAgxwQAALQIADDIBAAAlwEAEMkEAAC0CAAwygQBAAAAAdsEQADVBwAh3ARAANUHACHjBAAA0wcAIOwEAQDSBwAhkwUBAAAAAQEAAAABACARCwAAswgAICsAAK4IACAtAACxCAAgLgAAsggAIMcEAACvCAAwyAQAAAMAEMkEAACvCAAwygQBANIHACHbBEAA1QcAIdwEQADVBwAh4wQAANMHACDlBAAAsAjlBCLmBCAAqwgAIecEAQD-BwAh6AQBANIHACHpBAEA0gcAIeoEAQDSBwAhAQAAAAMAIAoXAAC2CAAgGgAA-QgAICwAAPoIACDHBAAA-AgAMMgEAAAFABDJBAAA-AgAMMoEAQDSBwAh2wRAANUHACHrBAEA0gcAIewEAQDSBwAhAxcAAJEPACAaAACrDwAgLAAArA8AIAoXAAC2CAAgGgAA-QgAICwAAPoIACDHBAAA-AgAMMgEAAAFABDJBAAA-AgAMMoEAQAAAAHbBEAA1QcAIesEAQAAAAHsBAEAAAABAwAAAAUAIAEAAAYAMAIAAAcAIA8EAAD3CAAgFQAAgggAIB8AAO0IACAgAADuCAAgKAAA6ggAIMcEAAD2CAAwyAQAAAkAEMkEAAD2CAAwygQBANIHACHbBEAA1QcAIdwEQADVBwAh4wQAANMHACCpBQEA0gcAIbQFAgC9CAAhtQUCAL0IACEFBAAAqg8AIBUAALsOACAfAACiDwAgIAAAow8AICgAAJ8PACAPBAAA9wgAIBUAAIIIACAfAADtCAAgIAAA7ggAICgAAOoIACDHBAAA9ggAMMgEAAAJABDJBAAA9ggAMMoEAQAAAAHbBEAA1QcAIdwEQADVBwAh4wQAANMHACCpBQEAAAABtAUCAL0IACG1BQIAvQgAIQMAAAAJACABAAAKADACAAALACAQAwAA9AgAIBQAAMQIACAbAADsCAAgHwAA7QgAICAAAO4IACAiAADwCAAgKQAA9QgAICoAANQIACDHBAAA8wgAMMgEAAANABDJBAAA8wgAMMoEAQDSBwAh2wRAANUHACHcBEAA1QcAIeMEAADTBwAg-gQgAKsIACEIAwAAqA8AIBQAAJIPACAbAAChDwAgHwAAog8AICAAAKMPACAiAAClDwAgKQAAqQ8AICoAAJgPACAQAwAA9AgAIBQAAMQIACAbAADsCAAgHwAA7QgAICAAAO4IACAiAADwCAAgKQAA9QgAICoAANQIACDHBAAA8wgAMMgEAAANABDJBAAA8wgAMMoEAQAAAAHbBEAA1QcAIdwEQADVBwAh4wQAANMHACD6BCAAqwgAIQMAAAANACABAAAOADACAAAPACAmBQAAwggAIAYAAOoIACAIAADrCAAgCQAAgAgAIBQAAMQIACAVAACCCAAgGQAA1AgAIBsAAOwIACAfAADtCAAgIAAA7ggAICEAAO8IACAiAADwCAAgIwAA8QgAICUAALIIACAmAACBCAAgJwAA8ggAIMcEAADnCAAwyAQAABEAEMkEAADnCAAwygQBANIHACHlBAAA6AiYBSL_BAIA5ggAIYIFAAD9BwAggwUAAP0HACCWBQEA0gcAIZkFAADpCJkFIpoFAQDSBwAhmwUBAP4HACGcBQIA5ggAIZ0FAgDmCAAhngUCAOYIACGfBQIA5ggAIaAFAgDmCAAhoQUAAP0HACCiBQAA_QcAIKMFIACrCAAhpAUBAP4HACGlBUAA_wcAIR0FAADIDgAgBgAAnw8AIAgAAKAPACAJAAC5DgAgFAAAkg8AIBUAALsOACAZAACYDwAgGwAAoQ8AIB8AAKIPACAgAACjDwAgIQAApA8AICIAAKUPACAjAACmDwAgJQAAjw8AICYAALoOACAnAACnDwAg_wQAAIoJACCCBQAAigkAIIMFAACKCQAgmwUAAIoJACCcBQAAigkAIJ0FAACKCQAgngUAAIoJACCfBQAAigkAIKAFAACKCQAgoQUAAIoJACCiBQAAigkAIKQFAACKCQAgpQUAAIoJACAmBQAAwggAIAYAAOoIACAIAADrCAAgCQAAgAgAIBQAAMQIACAVAACCCAAgGQAA1AgAIBsAAOwIACAfAADtCAAgIAAA7ggAICEAAO8IACAiAADwCAAgIwAA8QgAICUAALIIACAmAACBCAAgJwAA8ggAIMcEAADnCAAwyAQAABEAEMkEAADnCAAwygQBAAAAAeUEAADoCJgFIv8EAgDmCAAhggUAAP0HACCDBQAA_QcAIJYFAQAAAAGZBQAA6QiZBSKaBQEA0gcAIZsFAQD-BwAhnAUCAOYIACGdBQIA5ggAIZ4FAgDmCAAhnwUCAOYIACGgBQIA5ggAIaEFAAD9BwAgogUAAP0HACCjBSAAqwgAIaQFAQD-BwAhpQVAAP8HACEDAAAAEQAgAQAAEgAwAgAAEwAgAQAAABEAIAMAAAARACABAAASADACAAATACAJBwAAiggAIMcEAACZCAAwyAQAABcAEMkEAACZCAAw2AQBANIHACHlBAAAmginBSKCBQAA_QcAIKcFAQD-BwAhqAVAANUHACEBAAAAFwAgEAcAAIoIACAKAADZCAAgGwAA_QcAIMcEAADkCAAwyAQAABkAEMkEAADkCAAw2AQBANIHACHlBAAA5Qj_BCL2BEAA_wcAIfcEQAD_BwAh_QQBANIHACH_BAIA5ggAIYAFAgDmCAAhgQUAAP0HACCCBQAA0wcAIIMFAADTBwAgCAcAAMgOACAKAACaDwAgGwAAigkAIPYEAACKCQAg9wQAAIoJACD_BAAAigkAIIAFAACKCQAggQUAAIoJACARBwAAiggAIAoAANkIACAbAAD9BwAgxwQAAOQIADDIBAAAGQAQyQQAAOQIADDYBAEA0gcAIeUEAADlCP8EIvYEQAD_BwAh9wRAAP8HACH9BAEA0gcAIf8EAgDmCAAhgAUCAOYIACGBBQAA_QcAIIIFAADTBwAggwUAANMHACC7BQAA4wgAIAMAAAAZACABAAAaADACAAAbACADAAAAGQAgAQAAGgAwAgAAGwAgCgcAAMIIACAKAADZCAAgDgEA0gcAIccEAADiCAAwyAQAAB4AEMkEAADiCAAwygQBANIHACHMBCAAqwgAIdgEAQD-BwAh_QQBANIHACEDBwAAyA4AIAoAAJoPACDYBAAAigkAIAoHAADCCAAgCgAA2QgAIA4BANIHACHHBAAA4ggAMMgEAAAeABDJBAAA4ggAMMoEAQAAAAHMBCAAqwgAIdgEAQD-BwAh_QQBANIHACEDAAAAHgAgAQAAHwAwAgAAIAAgAQAAABEAIBIHAACKCAAgCgAA2QgAIA4AAN8IACAPAADgCAAgEgAA4QgAIBMAAOEIACAUAADECAAgxwQAAN4IADDIBAAAIwAQyQQAAN4IADDKBAEA0gcAIdgEAQDSBwAh2wRAANUHACH9BAEA0gcAIa4FAQDSBwAhrwUBANIHACGwBQAA0wcAILEFAADTBwAgBwcAAMgOACAKAACaDwAgDgAAnA8AIA8AAJ0PACASAACeDwAgEwAAng8AIBQAAJIPACASBwAAiggAIAoAANkIACAOAADfCAAgDwAA4AgAIBIAAOEIACATAADhCAAgFAAAxAgAIMcEAADeCAAwyAQAACMAEMkEAADeCAAwygQBAAAAAdgEAQDSBwAh2wRAANUHACH9BAEA0gcAIa4FAQDSBwAhrwUBANIHACGwBQAA0wcAILEFAADTBwAgAwAAACMAIAEAACQAMAIAACUAIAMAAAAjACABAAAkADACAAAlACABAAAAIwAgAwAAACMAIAEAACQAMAIAACUAIAEAAAAjACAJEAAA3QgAIBEAAN0IACDHBAAA2wgAMMgEAAArABDJBAAA2wgAMJoFAADcCK0FIqoFAQDSBwAhqwUBANIHACGtBQEA0gcAIQIQAACbDwAgEQAAmw8AIAoQAADdCAAgEQAA3QgAIMcEAADbCAAwyAQAACsAEMkEAADbCAAwmgUAANwIrQUiqgUBANIHACGrBQEA0gcAIa0FAQDSBwAhugUAANoIACADAAAAKwAgAQAALAAwAgAALQAgAwAAACsAIAEAACwAMAIAAC0AIAMAAAAJACABAAAKADACAAALACABAAAAKwAgAQAAACsAIAEAAAAJACAKCgAA2QgAIMcEAADXCAAwyAQAADQAEMkEAADXCAAwygQBANIHACHbBEAA1QcAIf0EAQDSBwAhhAUBANIHACGGBQAA2AiGBSKHBQEA_gcAIQIKAACaDwAghwUAAIoJACALCgAA2QgAIMcEAADXCAAwyAQAADQAEMkEAADXCAAwygQBAAAAAdsEQADVBwAh_QQBANIHACGEBQEA0gcAIYYFAADYCIYFIocFAQD-BwAhuQUAANYIACADAAAANAAgAQAANQAwAgAANgAgAQAAABkAIAEAAAAeACABAAAAIwAgAQAAADQAIBEHAADCCAAgDgAA0wcAIBcAAMMIACAZAADUCAAgGgAA1QgAIMcEAADTCAAwyAQAADwAEMkEAADTCAAwygQBANIHACHYBAEA_gcAIdkEAQD-BwAh2wRAANUHACHcBEAA1QcAIeMEAADTBwAg7AQBAP4HACH7BAEA_gcAIfwEAQD-BwAhCQcAAMgOACAXAACRDwAgGQAAmA8AIBoAAJkPACDYBAAAigkAINkEAACKCQAg7AQAAIoJACD7BAAAigkAIPwEAACKCQAgEgcAAMIIACAOAADTBwAgFwAAwwgAIBkAANQIACAaAADVCAAgxwQAANMIADDIBAAAPAAQyQQAANMIADDKBAEAAAAB2AQBAP4HACHZBAEA_gcAIdsEQADVBwAh3ARAANUHACHjBAAA0wcAIOwEAQD-BwAh-wQBAAAAAfwEAQD-BwAhtwUAANIIACADAAAAPAAgAQAAPQAwAgAAPgAgAQAAABEAIAEAAAANACALBwAAwggAIBcAALYIACAYAADRCAAgxwQAANAIADDIBAAAQgAQyQQAANAIADDKBAEA0gcAIdgEAQD-BwAh2wRAANUHACHsBAEA0gcAIfkEAQD-BwAhBQcAAMgOACAXAACRDwAgGAAAlw8AINgEAACKCQAg-QQAAIoJACALBwAAwggAIBcAALYIACAYAADRCAAgxwQAANAIADDIBAAAQgAQyQQAANAIADDKBAEAAAAB2AQBAP4HACHbBEAA1QcAIewEAQDSBwAh-QQBAP4HACEDAAAAQgAgAQAAQwAwAgAARAAgAQAAABEAIAEAAAA8ACAIDgAA0wcAIBgAAM8IACDHBAAAzggAMMgEAABIABDJBAAAzggAMMoEAQDSBwAh2wRAANUHACH5BAEA0gcAIQEYAACXDwAgCA4AANMHACAYAADPCAAgxwQAAM4IADDIBAAASAAQyQQAAM4IADDKBAEAAAAB2wRAANUHACH5BAEA0gcAIQMAAABIACABAABJADACAABKACABAAAAQgAgAQAAAEgAIBAHAADCCAAgFAAAxAgAIBcAAMMIACAeAADNCAAgxwQAAMsIADDIBAAATgAQyQQAAMsIADDKBAEA0gcAIdgEAQD-BwAh2QQBAP4HACHbBEAA1QcAIdwEQADVBwAh4wQAANMHACDlBAAAzAj5BCLsBAEA_gcAIfEEAADTBwAgBwcAAMgOACAUAACSDwAgFwAAkQ8AIB4AAJYPACDYBAAAigkAINkEAACKCQAg7AQAAIoJACARBwAAwggAIBQAAMQIACAXAADDCAAgHgAAzQgAIMcEAADLCAAwyAQAAE4AEMkEAADLCAAwygQBAAAAAdgEAQD-BwAh2QQBAP4HACHbBEAA1QcAIdwEQADVBwAh4wQAANMHACDlBAAAzAj5BCLsBAEA_gcAIfEEAADTBwAgtwUAAMoIACADAAAATgAgAQAATwAwAgAAUAAgAQAAABEAIAEAAAANACAJCwAAyQgAIBwAAMgIACDHBAAAxwgAMMgEAABUABDJBAAAxwgAMMoEAQDSBwAh9QQBANIHACH2BEAA1QcAIfcEQAD_BwAhAwsAAJUPACAcAACUDwAg9wQAAIoJACAJCwAAyQgAIBwAAMgIACDHBAAAxwgAMMgEAABUABDJBAAAxwgAMMoEAQAAAAH1BAEA0gcAIfYEQADVBwAh9wRAAP8HACEDAAAAVAAgAQAAVQAwAgAAVgAgBw4BANIHACEdAADGCAAgxwQAAMUIADDIBAAAWAAQyQQAAMUIADDKBAEA0gcAIfQEAQDSBwAhAR0AAJMPACAHDgEA0gcAIR0AAMYIACDHBAAAxQgAMMgEAABYABDJBAAAxQgAMMoEAQAAAAH0BAEA0gcAIQMAAABYACABAABZADACAABaACABAAAAWAAgAwAAAAkAIAEAAAoAMAIAAAsAIAEAAABUACABAAAACQAgDgcAAMIIACAOAADTBwAgFAAAxAgAIBcAAMMIACDHBAAAwQgAMMgEAABgABDJBAAAwQgAMMoEAQDSBwAh2AQBAP4HACHZBAEA_gcAIdsEQADVBwAh3ARAANUHACHjBAAA0wcAIOwEAQD-BwAhBgcAAMgOACAUAACSDwAgFwAAkQ8AINgEAACKCQAg2QQAAIoJACDsBAAAigkAIA8HAADCCAAgDgAA0wcAIBQAAMQIACAXAADDCAAgxwQAAMEIADDIBAAAYAAQyQQAAMEIADDKBAEAAAAB2AQBAP4HACHZBAEA_gcAIdsEQADVBwAh3ARAANUHACHjBAAA0wcAIOwEAQD-BwAhtwUAAMAIACADAAAAYAAgAQAAYQAwAgAAYgAgAQAAABEAIAEAAAANACADAAAACQAgAQAACgAwAgAACwAgAQAAAAkAIA0HAACKCAAgxwQAAL8IADDIBAAAaAAQyQQAAL8IADDKBAEA0gcAIdgEAQDSBwAh2QQBANIHACHbBEAA1QcAIdwEQADVBwAh4wQAANMHACDxBAAA0wcAIPIEQAD_BwAh8wRAAP8HACEDBwAAyA4AIPIEAACKCQAg8wQAAIoJACAOBwAAiggAIMcEAAC_CAAwyAQAAGgAEMkEAAC_CAAwygQBAAAAAdgEAQDSBwAh2QQBANIHACHbBEAA1QcAIdwEQADVBwAh4wQAANMHACDxBAAA0wcAIPIEQAD_BwAh8wRAAP8HACG3BQAAvggAIAMAAABoACABAABpADACAABqACAOBwAAiggAIBcAALYIACDHBAAAvAgAMMgEAABsABDJBAAAvAgAMNgEAQDSBwAh2QQBANIHACHbBEAA1QcAIdwEQADVBwAh4wQAANMHACDsBAEA0gcAIacFAQD-BwAhsgUBANIHACGzBQIAvQgAIQMHAADIDgAgFwAAkQ8AIKcFAACKCQAgDwcAAIoIACAXAAC2CAAgxwQAALwIADDIBAAAbAAQyQQAALwIADDYBAEA0gcAIdkEAQDSBwAh2wRAANUHACHcBEAA1QcAIeMEAADTBwAg7AQBANIHACGnBQEA_gcAIbIFAQDSBwAhswUCAL0IACG4BQAAuwgAIAMAAABsACABAABtADACAABuACAJBwAAiggAIMcEAACJCAAwyAQAAHAAEMkEAACJCAAw2AQBANIHACHjBAAA0wcAII8FAQD-BwAhkwUBANIHACGUBUAA1QcAIQEAAABwACALBwAAiggAICQAAKwIACDHBAAAuggAMMgEAAByABDJBAAAuggAMMsEAQDSBwAh2AQBANIHACHZBAEA0gcAIdoEAADTBwAg2wRAANUHACHcBEAA1QcAIQIHAADIDgAgJAAAjA8AIAwHAACKCAAgJAAArAgAIMcEAAC6CAAwyAQAAHIAEMkEAAC6CAAwywQBANIHACHYBAEA0gcAIdkEAQDSBwAh2gQAANMHACDbBEAA1QcAIdwEQADVBwAhtwUAALkIACADAAAAcgAgAQAAcwAwAgAAdAAgAwAAAEIAIAEAAEMAMAIAAEQAIAMAAAAJACABAAAKADACAAALACADAAAAHgAgAQAAHwAwAgAAIAAgBwcAAIoIACDHBAAAuAgAMMgEAAB5ABDJBAAAuAgAMNgEAQDSBwAhhAUBANIHACGVBQAA0wcAIAEHAADIDgAgCAcAAIoIACDHBAAAuAgAMMgEAAB5ABDJBAAAuAgAMNgEAQDSBwAhhAUBANIHACGVBQAA0wcAILYFAAC3CAAgAwAAAHkAIAEAAHoAMAIAAHsAIAMAAAAjACABAAAkADACAAAlACABAAAAEQAgAQAAABkAIAEAAAA8ACABAAAATgAgAQAAAGAAIAEAAABoACABAAAAbAAgAQAAAHIAIAEAAABCACABAAAACQAgAQAAAB4AIAEAAAB5ACABAAAAIwAgAwAAAE4AIAEAAE8AMAIAAFAAIAMAAABgACABAABhADACAABiACADAAAAIwAgAQAAJAAwAgAAJQAgAQAAAA0AIAEAAAARACABAAAATgAgAQAAAGAAIAEAAAAjACADAAAAPAAgAQAAPQAwAgAAPgAgAwAAAE4AIAEAAE8AMAIAAFAAIAMAAABgACABAABhADACAABiACADAAAAbAAgAQAAbQAwAgAAbgAgCxcAALYIACArAAC1CAAgxwQAALQIADDIBAAAlwEAEMkEAAC0CAAwygQBANIHACHbBEAA1QcAIdwEQADVBwAh4wQAANMHACDsBAEA0gcAIZMFAQDSBwAhAhcAAJEPACArAACMDwAgAwAAAJcBACABAACYAQAwAgAAAQAgAwAAAEIAIAEAAEMAMAIAAEQAIAEAAAAFACABAAAACQAgAQAAADwAIAEAAABOACABAAAAYAAgAQAAAGwAIAEAAACXAQAgAQAAAEIAIAULAACQDwAgKwAAjQ8AIC0AAI4PACAuAACPDwAg5wQAAIoJACARCwAAswgAICsAAK4IACAtAACxCAAgLgAAsggAIMcEAACvCAAwyAQAAAMAEMkEAACvCAAwygQBAAAAAdsEQADVBwAh3ARAANUHACHjBAAA0wcAIOUEAACwCOUEIuYEIACrCAAh5wQBAP4HACHoBAEA0gcAIekEAQAAAAHqBAEAAAABAwAAAAMAIAEAAKMBADACAACkAQAgBysAAK4IACDHBAAArQgAMMgEAACmAQAQyQQAAK0IADDKBAEA0gcAIdsEQADVBwAh6AQBANIHACEBKwAAjQ8AIAcrAACuCAAgxwQAAK0IADDIBAAApgEAEMkEAACtCAAwygQBAAAAAdsEQADVBwAh6AQBANIHACEDAAAApgEAIAEAAKcBADACAACoAQAgAQAAAAMAIAEAAACmAQAgAwAAAHIAIAEAAHMAMAIAAHQAIAgOAQDSBwAhJAAArAgAIMcEAACqCAAwyAQAAK0BABDJBAAAqggAMMoEAQDSBwAhywQBANIHACHMBCAAqwgAIQEkAACMDwAgCA4BANIHACEkAACsCAAgxwQAAKoIADDIBAAArQEAEMkEAACqCAAwygQBAAAAAcsEAQDSBwAhzAQgAKsIACEDAAAArQEAIAEAAK4BADACAACvAQAgAQAAAHIAIAEAAACtAQAgAQAAAAEAIAMAAACXAQAgAQAAmAEAMAIAAAEAIAMAAACXAQAgAQAAmAEAMAIAAAEAIAMAAACXAQAgAQAAmAEAMAIAAAEAIAgXAACLDwAgKwAAqwsAIMoEAQAAAAHbBEAAAAAB3ARAAAAAAeMEgAAAAAHsBAEAAAABkwUBAAAAAQE0AAC3AQAgBsoEAQAAAAHbBEAAAAAB3ARAAAAAAeMEgAAAAAHsBAEAAAABkwUBAAAAAQE0AAC5AQAwATQAALkBADAIFwAAig8AICsAAK8NACDKBAEA_ggAIdsEQACFCQAh3ARAAIUJACHjBIAAAAAB7AQBAP4IACGTBQEA_ggAIQIAAAABACA0AAC8AQAgBsoEAQD-CAAh2wRAAIUJACHcBEAAhQkAIeMEgAAAAAHsBAEA_ggAIZMFAQD-CAAhAgAAAJcBACA0AAC-AQAgAgAAAJcBACA0AAC-AQAgAwAAAAEAIDsAALcBACA8AAC8AQAgAQAAAAEAIAEAAACXAQAgAw0AAIcPACBBAACJDwAgQgAAiA8AIAnHBAAAqQgAMMgEAADFAQAQyQQAAKkIADDKBAEAtgcAIdsEQAC_BwAh3ARAAL8HACHjBAAAvgcAIOwEAQC2BwAhkwUBALYHACEDAAAAlwEAIAEAAMQBADBAAADFAQAgAwAAAJcBACABAACYAQAwAgAAAQAgAQAAAAsAIAEAAAALACADAAAACQAgAQAACgAwAgAACwAgAwAAAAkAIAEAAAoAMAIAAAsAIAMAAAAJACABAAAKADACAAALACAMBAAAkAsAIBUAALwLACAfAACSCwAgIAAAkwsAICgAAJELACDKBAEAAAAB2wRAAAAAAdwEQAAAAAHjBIAAAAABqQUBAAAAAbQFAgAAAAG1BQIAAAABATQAAM0BACAHygQBAAAAAdsEQAAAAAHcBEAAAAAB4wSAAAAAAakFAQAAAAG0BQIAAAABtQUCAAAAAQE0AADPAQAwATQAAM8BADAMBAAAiwoAIBUAAI4KACAfAAD7CgAgIAAAjQoAICgAAIwKACDKBAEA_ggAIdsEQACFCQAh3ARAAIUJACHjBIAAAAABqQUBAP4IACG0BQIAiQoAIbUFAgCJCgAhAgAAAAsAIDQAANIBACAHygQBAP4IACHbBEAAhQkAIdwEQACFCQAh4wSAAAAAAakFAQD-CAAhtAUCAIkKACG1BQIAiQoAIQIAAAAJACA0AADUAQAgAgAAAAkAIDQAANQBACADAAAACwAgOwAAzQEAIDwAANIBACABAAAACwAgAQAAAAkAIAUNAACCDwAgQQAAhQ8AIEIAAIQPACBTAACDDwAgVAAAhg8AIArHBAAAqAgAMMgEAADbAQAQyQQAAKgIADDKBAEAtgcAIdsEQAC_BwAh3ARAAL8HACHjBAAAvgcAIKkFAQC2BwAhtAUCAKUIACG1BQIApQgAIQMAAAAJACABAADaAQAwQAAA2wEAIAMAAAAJACABAAAKADACAAALACABAAAAbgAgAQAAAG4AIAMAAABsACABAABtADACAABuACADAAAAbAAgAQAAbQAwAgAAbgAgAwAAAGwAIAEAAG0AMAIAAG4AIAsHAACzCwAgFwAAnAwAINgEAQAAAAHZBAEAAAAB2wRAAAAAAdwEQAAAAAHjBIAAAAAB7AQBAAAAAacFAQAAAAGyBQEAAAABswUCAAAAAQE0AADjAQAgCdgEAQAAAAHZBAEAAAAB2wRAAAAAAdwEQAAAAAHjBIAAAAAB7AQBAAAAAacFAQAAAAGyBQEAAAABswUCAAAAAQE0AADlAQAwATQAAOUBADALBwAAuA0AIBcAAJoMACDYBAEA_ggAIdkEAQD-CAAh2wRAAIUJACHcBEAAhQkAIeMEgAAAAAHsBAEA_ggAIacFAQCPCQAhsgUBAP4IACGzBQIAiQoAIQIAAABuACA0AADoAQAgCdgEAQD-CAAh2QQBAP4IACHbBEAAhQkAIdwEQACFCQAh4wSAAAAAAewEAQD-CAAhpwUBAI8JACGyBQEA_ggAIbMFAgCJCgAhAgAAAGwAIDQAAOoBACACAAAAbAAgNAAA6gEAIAMAAABuACA7AADjAQAgPAAA6AEAIAEAAABuACABAAAAbAAgBg0AAP0OACBBAACADwAgQgAA_w4AIFMAAP4OACBUAACBDwAgpwUAAIoJACAMxwQAAKQIADDIBAAA8QEAEMkEAACkCAAw2AQBALYHACHZBAEAtgcAIdsEQAC_BwAh3ARAAL8HACHjBAAAvgcAIOwEAQC2BwAhpwUBAMUHACGyBQEAtgcAIbMFAgClCAAhAwAAAGwAIAEAAPABADBAAADxAQAgAwAAAGwAIAEAAG0AMAIAAG4AIAcMAACCCAAgxwQAAKMIADDIBAAA9wEAEMkEAACjCAAwygQBAAAAAesEAQDSBwAh7gQBANIHACEBAAAA9AEAIAEAAAD0AQAgBwwAAIIIACDHBAAAowgAMMgEAAD3AQAQyQQAAKMIADDKBAEA0gcAIesEAQDSBwAh7gQBANIHACEBDAAAuw4AIAMAAAD3AQAgAQAA-AEAMAIAAPQBACADAAAA9wEAIAEAAPgBADACAAD0AQAgAwAAAPcBACABAAD4AQAwAgAA9AEAIAQMAAD8DgAgygQBAAAAAesEAQAAAAHuBAEAAAABATQAAPwBACADygQBAAAAAesEAQAAAAHuBAEAAAABATQAAP4BADABNAAA_gEAMAQMAADyDgAgygQBAP4IACHrBAEA_ggAIe4EAQD-CAAhAgAAAPQBACA0AACBAgAgA8oEAQD-CAAh6wQBAP4IACHuBAEA_ggAIQIAAAD3AQAgNAAAgwIAIAIAAAD3AQAgNAAAgwIAIAMAAAD0AQAgOwAA_AEAIDwAAIECACABAAAA9AEAIAEAAAD3AQAgAw0AAO8OACBBAADxDgAgQgAA8A4AIAbHBAAAoggAMMgEAACKAgAQyQQAAKIIADDKBAEAtgcAIesEAQC2BwAh7gQBALYHACEDAAAA9wEAIAEAAIkCADBAAACKAgAgAwAAAPcBACABAAD4AQAwAgAA9AEAIAEAAAAlACABAAAAJQAgAwAAACMAIAEAACQAMAIAACUAIAMAAAAjACABAAAkADACAAAlACADAAAAIwAgAQAAJAAwAgAAJQAgDwcAAL0KACAKAAC8CgAgDgAAugoAIA8AALsKACASAAC-CgAgEwAAvwoAIBQAANoLACDKBAEAAAAB2AQBAAAAAdsEQAAAAAH9BAEAAAABrgUBAAAAAa8FAQAAAAGwBYAAAAABsQWAAAAAAQE0AACSAgAgCMoEAQAAAAHYBAEAAAAB2wRAAAAAAf0EAQAAAAGuBQEAAAABrwUBAAAAAbAFgAAAAAGxBYAAAAABATQAAJQCADABNAAAlAIAMA8HAACcCgAgCgAAmwoAIA4AAJkKACAPAACaCgAgEgAAnQoAIBMAAJ4KACAUAADzCgAgygQBAP4IACHYBAEA_ggAIdsEQACFCQAh_QQBAP4IACGuBQEA_ggAIa8FAQD-CAAhsAWAAAAAAbEFgAAAAAECAAAAJQAgNAAAlwIAIAjKBAEA_ggAIdgEAQD-CAAh2wRAAIUJACH9BAEA_ggAIa4FAQD-CAAhrwUBAP4IACGwBYAAAAABsQWAAAAAAQIAAAAjACA0AACZAgAgAgAAACMAIDQAAJkCACADAAAAJQAgOwAAkgIAIDwAAJcCACABAAAAJQAgAQAAACMAIAMNAADsDgAgQQAA7g4AIEIAAO0OACALxwQAAKEIADDIBAAAoAIAEMkEAAChCAAwygQBALYHACHYBAEAtgcAIdsEQAC_BwAh_QQBALYHACGuBQEAtgcAIa8FAQC2BwAhsAUAAL4HACCxBQAAvgcAIAMAAAAjACABAACfAgAwQAAAoAIAIAMAAAAjACABAAAkADACAAAlACABAAAALQAgAQAAAC0AIAMAAAArACABAAAsADACAAAtACADAAAAKwAgAQAALAAwAgAALQAgAwAAACsAIAEAACwAMAIAAC0AIAYQAACtCgAgEQAAuAoAIJoFAAAArQUCqgUBAAAAAasFAQAAAAGtBQEAAAABATQAAKgCACAEmgUAAACtBQKqBQEAAAABqwUBAAAAAa0FAQAAAAEBNAAAqgIAMAE0AACqAgAwBhAAAKsKACARAAC2CgAgmgUAAKkKrQUiqgUBAP4IACGrBQEA_ggAIa0FAQD-CAAhAgAAAC0AIDQAAK0CACAEmgUAAKkKrQUiqgUBAP4IACGrBQEA_ggAIa0FAQD-CAAhAgAAACsAIDQAAK8CACACAAAAKwAgNAAArwIAIAMAAAAtACA7AACoAgAgPAAArQIAIAEAAAAtACABAAAAKwAgAw0AAOkOACBBAADrDgAgQgAA6g4AIAfHBAAAnQgAMMgEAAC2AgAQyQQAAJ0IADCaBQAAngitBSKqBQEAtgcAIasFAQC2BwAhrQUBALYHACEDAAAAKwAgAQAAtQIAMEAAALYCACADAAAAKwAgAQAALAAwAgAALQAgBwwAAIIIACAOAADTBwAgxwQAAJwIADDIBAAAvAIAEMkEAACcCAAw4wQAAP0HACCpBQEAAAABAQAAALkCACABAAAAuQIAIAcMAACCCAAgDgAA0wcAIMcEAACcCAAwyAQAALwCABDJBAAAnAgAMOMEAAD9BwAgqQUBANIHACECDAAAuw4AIOMEAACKCQAgAwAAALwCACABAAC9AgAwAgAAuQIAIAMAAAC8AgAgAQAAvQIAMAIAALkCACADAAAAvAIAIAEAAL0CADACAAC5AgAgBAwAAOgOACAOgAAAAAHjBIAAAAABqQUBAAAAAQE0AADBAgAgAw6AAAAAAeMEgAAAAAGpBQEAAAABATQAAMMCADABNAAAwwIAMAQMAADeDgAgDoAAAAAB4wSAAAAAAakFAQD-CAAhAgAAALkCACA0AADGAgAgAw6AAAAAAeMEgAAAAAGpBQEA_ggAIQIAAAC8AgAgNAAAyAIAIAIAAAC8AgAgNAAAyAIAIAMAAAC5AgAgOwAAwQIAIDwAAMYCACABAAAAuQIAIAEAAAC8AgAgBA0AANsOACBBAADdDgAgQgAA3A4AIOMEAACKCQAgBg4AAL4HACDHBAAAmwgAMMgEAADPAgAQyQQAAJsIADDjBAAA6QcAIKkFAQC2BwAhAwAAALwCACABAADOAgAwQAAAzwIAIAMAAAC8AgAgAQAAvQIAMAIAALkCACAJBwAAiggAIMcEAACZCAAwyAQAABcAEMkEAACZCAAw2AQBAAAAAeUEAACaCKcFIoIFAAD9BwAgpwUBAP4HACGoBUAA1QcAIQEAAADSAgAgAQAAANICACADBwAAyA4AIIIFAACKCQAgpwUAAIoJACADAAAAFwAgAQAA1QIAMAIAANICACADAAAAFwAgAQAA1QIAMAIAANICACADAAAAFwAgAQAA1QIAMAIAANICACAGBwAA2g4AINgEAQAAAAHlBAAAAKcFAoIFgAAAAAGnBQEAAAABqAVAAAAAAQE0AADZAgAgBdgEAQAAAAHlBAAAAKcFAoIFgAAAAAGnBQEAAAABqAVAAAAAAQE0AADbAgAwATQAANsCADAGBwAA2Q4AINgEAQD-CAAh5QQAAPEMpwUiggWAAAAAAacFAQCPCQAhqAVAAIUJACECAAAA0gIAIDQAAN4CACAF2AQBAP4IACHlBAAA8QynBSKCBYAAAAABpwUBAI8JACGoBUAAhQkAIQIAAAAXACA0AADgAgAgAgAAABcAIDQAAOACACADAAAA0gIAIDsAANkCACA8AADeAgAgAQAAANICACABAAAAFwAgBQ0AANYOACBBAADYDgAgQgAA1w4AIIIFAACKCQAgpwUAAIoJACAIxwQAAJUIADDIBAAA5wIAEMkEAACVCAAw2AQBALYHACHlBAAAlginBSKCBQAA6QcAIKcFAQDFBwAhqAVAAL8HACEDAAAAFwAgAQAA5gIAMEAAAOcCACADAAAAFwAgAQAA1QIAMAIAANICACABAAAAEwAgAQAAABMAIAMAAAARACABAAASADACAAATACADAAAAEQAgAQAAEgAwAgAAEwAgAwAAABEAIAEAABIAMAIAABMAICMFAACUDQAgBgAAhA0AIAgAAIUNACAJAACGDQAgFAAAjw0AIBUAAJINACAZAACODQAgGwAAhw0AIB8AAIgNACAgAACJDQAgIQAAig0AICIAAIsNACAjAACMDQAgJQAAjQ0AICYAAJANACAnAACRDQAgygQBAAAAAeUEAAAAmAUC_wQCAAAAAYIFgAAAAAGDBYAAAAABlgUBAAAAAZkFAAAAmQUCmgUBAAAAAZsFAQAAAAGcBQIAAAABnQUCAAAAAZ4FAgAAAAGfBQIAAAABoAUCAAAAAaEFgAAAAAGiBYAAAAABowUgAAAAAaQFAQAAAAGlBUAAAAABATQAAO8CACATygQBAAAAAeUEAAAAmAUC_wQCAAAAAYIFgAAAAAGDBYAAAAABlgUBAAAAAZkFAAAAmQUCmgUBAAAAAZsFAQAAAAGcBQIAAAABnQUCAAAAAZ4FAgAAAAGfBQIAAAABoAUCAAAAAaEFgAAAAAGiBYAAAAABowUgAAAAAaQFAQAAAAGlBUAAAAABATQAAPECADABNAAA8QIAMAEAAAARACAjBQAA3AoAIAYAAN0KACAIAADeCgAgCQAA3woAIBQAAPoMACAVAADqCgAgGQAA5woAIBsAAOAKACAfAADhCgAgIAAA4goAICEAAOMKACAiAADkCgAgIwAA5QoAICUAAOYKACAmAADoCgAgJwAA6QoAIMoEAQD-CAAh5QQAANgKmAUi_wQCANoKACGCBYAAAAABgwWAAAAAAZYFAQD-CAAhmQUAANkKmQUimgUBAP4IACGbBQEAjwkAIZwFAgDaCgAhnQUCANoKACGeBQIA2goAIZ8FAgDaCgAhoAUCANoKACGhBYAAAAABogWAAAAAAaMFIAD_CAAhpAUBAI8JACGlBUAA3QkAIQIAAAATACA0AAD1AgAgE8oEAQD-CAAh5QQAANgKmAUi_wQCANoKACGCBYAAAAABgwWAAAAAAZYFAQD-CAAhmQUAANkKmQUimgUBAP4IACGbBQEAjwkAIZwFAgDaCgAhnQUCANoKACGeBQIA2goAIZ8FAgDaCgAhoAUCANoKACGhBYAAAAABogWAAAAAAaMFIAD_CAAhpAUBAI8JACGlBUAA3QkAIQIAAAARACA0AAD3AgAgAgAAABEAIDQAAPcCACABAAAAEQAgAwAAABMAIDsAAO8CACA8AAD1AgAgAQAAABMAIAEAAAARACASDQAA0Q4AIEEAANQOACBCAADTDgAgUwAA0g4AIFQAANUOACD_BAAAigkAIIIFAACKCQAggwUAAIoJACCbBQAAigkAIJwFAACKCQAgnQUAAIoJACCeBQAAigkAIJ8FAACKCQAgoAUAAIoJACChBQAAigkAIKIFAACKCQAgpAUAAIoJACClBQAAigkAIBbHBAAAjggAMMgEAAD_AgAQyQQAAI4IADDKBAEAtgcAIeUEAACPCJgFIv8EAgDoBwAhggUAAOkHACCDBQAA6QcAIJYFAQC2BwAhmQUAAJAImQUimgUBALYHACGbBQEAxQcAIZwFAgDoBwAhnQUCAOgHACGeBQIA6AcAIZ8FAgDoBwAhoAUCAOgHACGhBQAA6QcAIKIFAADpBwAgowUgALcHACGkBQEAxQcAIaUFQADXBwAhAwAAABEAIAEAAP4CADBAAAD_AgAgAwAAABEAIAEAABIAMAIAABMAIAXHBAAAjQgAMMgEAACFAwAQyQQAAI0IADCEBQEAAAABlQUAANMHACABAAAAggMAIAEAAACCAwAgBccEAACNCAAwyAQAAIUDABDJBAAAjQgAMIQFAQDSBwAhlQUAANMHACAAAwAAAIUDACABAACGAwAwAgAAggMAIAMAAACFAwAgAQAAhgMAMAIAAIIDACADAAAAhQMAIAEAAIYDADACAACCAwAgAoQFAQAAAAGVBYAAAAABATQAAIoDACAChAUBAAAAAZUFgAAAAAEBNAAAjAMAMAE0AACMAwAwAoQFAQD-CAAhlQWAAAAAAQIAAACCAwAgNAAAjwMAIAKEBQEA_ggAIZUFgAAAAAECAAAAhQMAIDQAAJEDACACAAAAhQMAIDQAAJEDACADAAAAggMAIDsAAIoDACA8AACPAwAgAQAAAIIDACABAAAAhQMAIAMNAADODgAgQQAA0A4AIEIAAM8OACAFxwQAAIwIADDIBAAAmAMAEMkEAACMCAAwhAUBALYHACGVBQAAvgcAIAMAAACFAwAgAQAAlwMAMEAAAJgDACADAAAAhQMAIAEAAIYDADACAACCAwAgAQAAAHsAIAEAAAB7ACADAAAAeQAgAQAAegAwAgAAewAgAwAAAHkAIAEAAHoAMAIAAHsAIAMAAAB5ACABAAB6ADACAAB7ACAEBwAAzQ4AINgEAQAAAAGEBQEAAAABlQWAAAAAAQE0AACgAwAgA9gEAQAAAAGEBQEAAAABlQWAAAAAAQE0AACiAwAwATQAAKIDADAEBwAAzA4AINgEAQD-CAAhhAUBAP4IACGVBYAAAAABAgAAAHsAIDQAAKUDACAD2AQBAP4IACGEBQEA_ggAIZUFgAAAAAECAAAAeQAgNAAApwMAIAIAAAB5ACA0AACnAwAgAwAAAHsAIDsAAKADACA8AAClAwAgAQAAAHsAIAEAAAB5ACADDQAAyQ4AIEEAAMsOACBCAADKDgAgBscEAACLCAAwyAQAAK4DABDJBAAAiwgAMNgEAQC2BwAhhAUBALYHACGVBQAAvgcAIAMAAAB5ACABAACtAwAwQAAArgMAIAMAAAB5ACABAAB6ADACAAB7ACAJBwAAiggAIMcEAACJCAAwyAQAAHAAEMkEAACJCAAw2AQBAAAAAeMEAADTBwAgjwUBAP4HACGTBQEA0gcAIZQFQADVBwAhAQAAALEDACABAAAAsQMAIAIHAADIDgAgjwUAAIoJACADAAAAcAAgAQAAtAMAMAIAALEDACADAAAAcAAgAQAAtAMAMAIAALEDACADAAAAcAAgAQAAtAMAMAIAALEDACAGBwAAxw4AINgEAQAAAAHjBIAAAAABjwUBAAAAAZMFAQAAAAGUBUAAAAABATQAALgDACAF2AQBAAAAAeMEgAAAAAGPBQEAAAABkwUBAAAAAZQFQAAAAAEBNAAAugMAMAE0AAC6AwAwBgcAAMYOACDYBAEA_ggAIeMEgAAAAAGPBQEAjwkAIZMFAQD-CAAhlAVAAIUJACECAAAAsQMAIDQAAL0DACAF2AQBAP4IACHjBIAAAAABjwUBAI8JACGTBQEA_ggAIZQFQACFCQAhAgAAAHAAIDQAAL8DACACAAAAcAAgNAAAvwMAIAMAAACxAwAgOwAAuAMAIDwAAL0DACABAAAAsQMAIAEAAABwACAEDQAAww4AIEEAAMUOACBCAADEDgAgjwUAAIoJACAIxwQAAIgIADDIBAAAxgMAEMkEAACICAAw2AQBALYHACHjBAAAvgcAII8FAQDFBwAhkwUBALYHACGUBUAAvwcAIQMAAABwACABAADFAwAwQAAAxgMAIAMAAABwACABAAC0AwAwAgAAsQMAIAfHBAAAhwgAMMgEAADMAwAQyQQAAIcIADDKBAEAAAAB2wRAANUHACHcBEAA1QcAIYIFAADTBwAgAQAAAMkDACABAAAAyQMAIAfHBAAAhwgAMMgEAADMAwAQyQQAAIcIADDKBAEA0gcAIdsEQADVBwAh3ARAANUHACGCBQAA0wcAIAADAAAAzAMAIAEAAM0DADACAADJAwAgAwAAAMwDACABAADNAwAwAgAAyQMAIAMAAADMAwAgAQAAzQMAMAIAAMkDACAEygQBAAAAAdsEQAAAAAHcBEAAAAABggWAAAAAAQE0AADRAwAgBMoEAQAAAAHbBEAAAAAB3ARAAAAAAYIFgAAAAAEBNAAA0wMAMAE0AADTAwAwBMoEAQD-CAAh2wRAAIUJACHcBEAAhQkAIYIFgAAAAAECAAAAyQMAIDQAANYDACAEygQBAP4IACHbBEAAhQkAIdwEQACFCQAhggWAAAAAAQIAAADMAwAgNAAA2AMAIAIAAADMAwAgNAAA2AMAIAMAAADJAwAgOwAA0QMAIDwAANYDACABAAAAyQMAIAEAAADMAwAgAw0AAMAOACBBAADCDgAgQgAAwQ4AIAfHBAAAhggAMMgEAADfAwAQyQQAAIYIADDKBAEAtgcAIdsEQAC_BwAh3ARAAL8HACGCBQAAvgcAIAMAAADMAwAgAQAA3gMAMEAAAN8DACADAAAAzAMAIAEAAM0DADACAADJAwAgB8cEAACFCAAwyAQAAOUDABDJBAAAhQgAMMoEAQAAAAHbBEAA1QcAIdwEQADVBwAhggUAANMHACABAAAA4gMAIAEAAADiAwAgB8cEAACFCAAwyAQAAOUDABDJBAAAhQgAMMoEAQDSBwAh2wRAANUHACHcBEAA1QcAIYIFAADTBwAgAAMAAADlAwAgAQAA5gMAMAIAAOIDACADAAAA5QMAIAEAAOYDADACAADiAwAgAwAAAOUDACABAADmAwAwAgAA4gMAIATKBAEAAAAB2wRAAAAAAdwEQAAAAAGCBYAAAAABATQAAOoDACAEygQBAAAAAdsEQAAAAAHcBEAAAAABggWAAAAAAQE0AADsAwAwATQAAOwDADAEygQBAP4IACHbBEAAhQkAIdwEQACFCQAhggWAAAAAAQIAAADiAwAgNAAA7wMAIATKBAEA_ggAIdsEQACFCQAh3ARAAIUJACGCBYAAAAABAgAAAOUDACA0AADxAwAgAgAAAOUDACA0AADxAwAgAwAAAOIDACA7AADqAwAgPAAA7wMAIAEAAADiAwAgAQAAAOUDACADDQAAvQ4AIEEAAL8OACBCAAC-DgAgB8cEAACECAAwyAQAAPgDABDJBAAAhAgAMMoEAQC2BwAh2wRAAL8HACHcBEAAvwcAIYIFAAC-BwAgAwAAAOUDACABAAD3AwAwQAAA-AMAIAMAAADlAwAgAQAA5gMAMAIAAOIDACAUCQAAgAgAIAsAAIEIACAVAACCCAAgFgAAgwgAIMcEAAD6BwAwyAQAAP4DABDJBAAA-gcAMMoEAQAAAAHcBEAA1QcAIeMEAADTBwAg5QQAAPwHigUi7gQAAPsHiQUi9gRAANUHACH3BEAA_wcAIYoFAADTBwAgiwUAANMHACCMBQAA_QcAII0FAQD-BwAhjgUAAP0HACCPBQEA_gcAIQEAAAD7AwAgAQAAAPsDACAUCQAAgAgAIAsAAIEIACAVAACCCAAgFgAAgwgAIMcEAAD6BwAwyAQAAP4DABDJBAAA-gcAMMoEAQDSBwAh3ARAANUHACHjBAAA0wcAIOUEAAD8B4oFIu4EAAD7B4kFIvYEQADVBwAh9wRAAP8HACGKBQAA0wcAIIsFAADTBwAgjAUAAP0HACCNBQEA_gcAIY4FAAD9BwAgjwUBAP4HACEJCQAAuQ4AIAsAALoOACAVAAC7DgAgFgAAvA4AIPcEAACKCQAgjAUAAIoJACCNBQAAigkAII4FAACKCQAgjwUAAIoJACADAAAA_gMAIAEAAP8DADACAAD7AwAgAwAAAP4DACABAAD_AwAwAgAA-wMAIAMAAAD-AwAgAQAA_wMAMAIAAPsDACARCQAAtQ4AIAsAALYOACAVAAC3DgAgFgAAuA4AIMoEAQAAAAHcBEAAAAAB4wSAAAAAAeUEAAAAigUC7gQAAACJBQL2BEAAAAAB9wRAAAAAAYoFgAAAAAGLBYAAAAABjAWAAAAAAY0FAQAAAAGOBYAAAAABjwUBAAAAAQE0AACDBAAgDcoEAQAAAAHcBEAAAAAB4wSAAAAAAeUEAAAAigUC7gQAAACJBQL2BEAAAAAB9wRAAAAAAYoFgAAAAAGLBYAAAAABjAWAAAAAAY0FAQAAAAGOBYAAAAABjwUBAAAAAQE0AACFBAAwATQAAIUEADARCQAAig4AIAsAAIsOACAVAACMDgAgFgAAjQ4AIMoEAQD-CAAh3ARAAIUJACHjBIAAAAAB5QQAAIkOigUi7gQAAIgOiQUi9gRAAIUJACH3BEAA3QkAIYoFgAAAAAGLBYAAAAABjAWAAAAAAY0FAQCPCQAhjgWAAAAAAY8FAQCPCQAhAgAAAPsDACA0AACIBAAgDcoEAQD-CAAh3ARAAIUJACHjBIAAAAAB5QQAAIkOigUi7gQAAIgOiQUi9gRAAIUJACH3BEAA3QkAIYoFgAAAAAGLBYAAAAABjAWAAAAAAY0FAQCPCQAhjgWAAAAAAY8FAQCPCQAhAgAAAP4DACA0AACKBAAgAgAAAP4DACA0AACKBAAgAwAAAPsDACA7AACDBAAgPAAAiAQAIAEAAAD7AwAgAQAAAP4DACAIDQAAhQ4AIEEAAIcOACBCAACGDgAg9wQAAIoJACCMBQAAigkAII0FAACKCQAgjgUAAIoJACCPBQAAigkAIBDHBAAA8wcAMMgEAACRBAAQyQQAAPMHADDKBAEAtgcAIdwEQAC_BwAh4wQAAL4HACDlBAAA9QeKBSLuBAAA9AeJBSL2BEAAvwcAIfcEQADXBwAhigUAAL4HACCLBQAAvgcAIIwFAADpBwAgjQUBAMUHACGOBQAA6QcAII8FAQDFBwAhAwAAAP4DACABAACQBAAwQAAAkQQAIAMAAAD-AwAgAQAA_wMAMAIAAPsDACABAAAANgAgAQAAADYAIAMAAAA0ACABAAA1ADACAAA2ACADAAAANAAgAQAANQAwAgAANgAgAwAAADQAIAEAADUAMAIAADYAIAcKAACEDgAgygQBAAAAAdsEQAAAAAH9BAEAAAABhAUBAAAAAYYFAAAAhgUChwUBAAAAAQE0AACZBAAgBsoEAQAAAAHbBEAAAAAB_QQBAAAAAYQFAQAAAAGGBQAAAIYFAocFAQAAAAEBNAAAmwQAMAE0AACbBAAwBwoAAIMOACDKBAEA_ggAIdsEQACFCQAh_QQBAP4IACGEBQEA_ggAIYYFAACCDoYFIocFAQCPCQAhAgAAADYAIDQAAJ4EACAGygQBAP4IACHbBEAAhQkAIf0EAQD-CAAhhAUBAP4IACGGBQAAgg6GBSKHBQEAjwkAIQIAAAA0ACA0AACgBAAgAgAAADQAIDQAAKAEACADAAAANgAgOwAAmQQAIDwAAJ4EACABAAAANgAgAQAAADQAIAQNAAD_DQAgQQAAgQ4AIEIAAIAOACCHBQAAigkAIAnHBAAA7wcAMMgEAACnBAAQyQQAAO8HADDKBAEAtgcAIdsEQAC_BwAh_QQBALYHACGEBQEAtgcAIYYFAADwB4YFIocFAQDFBwAhAwAAADQAIAEAAKYEADBAAACnBAAgAwAAADQAIAEAADUAMAIAADYAIAEAAAAbACABAAAAGwAgAwAAABkAIAEAABoAMAIAABsAIAMAAAAZACABAAAaADACAAAbACADAAAAGQAgAQAAGgAwAgAAGwAgDQcAAP4NACAKAADrDAAgG4AAAAAB2AQBAAAAAeUEAAAA_wQC9gRAAAAAAfcEQAAAAAH9BAEAAAAB_wQCAAAAAYAFAgAAAAGBBYAAAAABggWAAAAAAYMFgAAAAAEBNAAArwQAIAsbgAAAAAHYBAEAAAAB5QQAAAD_BAL2BEAAAAAB9wRAAAAAAf0EAQAAAAH_BAIAAAABgAUCAAAAAYEFgAAAAAGCBYAAAAABgwWAAAAAAQE0AACxBAAwATQAALEEADANBwAA_Q0AIAoAAOkMACAbgAAAAAHYBAEA_ggAIeUEAADnDP8EIvYEQADdCQAh9wRAAN0JACH9BAEA_ggAIf8EAgDaCgAhgAUCANoKACGBBYAAAAABggWAAAAAAYMFgAAAAAECAAAAGwAgNAAAtAQAIAsbgAAAAAHYBAEA_ggAIeUEAADnDP8EIvYEQADdCQAh9wRAAN0JACH9BAEA_ggAIf8EAgDaCgAhgAUCANoKACGBBYAAAAABggWAAAAAAYMFgAAAAAECAAAAGQAgNAAAtgQAIAIAAAAZACA0AAC2BAAgAwAAABsAIDsAAK8EACA8AAC0BAAgAQAAABsAIAEAAAAZACALDQAA-A0AIBsAAIoJACBBAAD7DQAgQgAA-g0AIFMAAPkNACBUAAD8DQAg9gQAAIoJACD3BAAAigkAIP8EAACKCQAggAUAAIoJACCBBQAAigkAIA4bAADpBwAgxwQAAOYHADDIBAAAvQQAEMkEAADmBwAw2AQBALYHACHlBAAA5wf_BCL2BEAA1wcAIfcEQADXBwAh_QQBALYHACH_BAIA6AcAIYAFAgDoBwAhgQUAAOkHACCCBQAAvgcAIIMFAAC-BwAgAwAAABkAIAEAALwEADBAAAC9BAAgAwAAABkAIAEAABoAMAIAABsAIAEAAAAgACABAAAAIAAgAwAAAB4AIAEAAB8AMAIAACAAIAMAAAAeACABAAAfADACAAAgACADAAAAHgAgAQAAHwAwAgAAIAAgBwcAAPcNACAKAAD0CwAgDgEAAAABygQBAAAAAcwEIAAAAAHYBAEAAAAB_QQBAAAAAQE0AADFBAAgBQ4BAAAAAcoEAQAAAAHMBCAAAAAB2AQBAAAAAf0EAQAAAAEBNAAAxwQAMAE0AADHBAAwAQAAABEAIAcHAAD2DQAgCgAA8gsAIA4BAP4IACHKBAEA_ggAIcwEIAD_CAAh2AQBAI8JACH9BAEA_ggAIQIAAAAgACA0AADLBAAgBQ4BAP4IACHKBAEA_ggAIcwEIAD_CAAh2AQBAI8JACH9BAEA_ggAIQIAAAAeACA0AADNBAAgAgAAAB4AIDQAAM0EACABAAAAEQAgAwAAACAAIDsAAMUEACA8AADLBAAgAQAAACAAIAEAAAAeACAEDQAA8w0AIEEAAPUNACBCAAD0DQAg2AQAAIoJACAIDgEAtgcAIccEAADlBwAwyAQAANUEABDJBAAA5QcAMMoEAQC2BwAhzAQgALcHACHYBAEAxQcAIf0EAQC2BwAhAwAAAB4AIAEAANQEADBAAADVBAAgAwAAAB4AIAEAAB8AMAIAACAAIAEAAABiACABAAAAYgAgAwAAAGAAIAEAAGEAMAIAAGIAIAMAAABgACABAABhADACAABiACADAAAAYAAgAQAAYQAwAgAAYgAgCwcAAM0KACAOgAAAAAEUAAC4CwAgFwAAzgoAIMoEAQAAAAHYBAEAAAAB2QQBAAAAAdsEQAAAAAHcBEAAAAAB4wSAAAAAAewEAQAAAAEBNAAA3QQAIAgOgAAAAAHKBAEAAAAB2AQBAAAAAdkEAQAAAAHbBEAAAAAB3ARAAAAAAeMEgAAAAAHsBAEAAAABATQAAN8EADABNAAA3wQAMAEAAAARACABAAAADQAgCwcAAMoKACAOgAAAAAEUAACxDAAgFwAAywoAIMoEAQD-CAAh2AQBAI8JACHZBAEAjwkAIdsEQACFCQAh3ARAAIUJACHjBIAAAAAB7AQBAI8JACECAAAAYgAgNAAA5AQAIAgOgAAAAAHKBAEA_ggAIdgEAQCPCQAh2QQBAI8JACHbBEAAhQkAIdwEQACFCQAh4wSAAAAAAewEAQCPCQAhAgAAAGAAIDQAAOYEACACAAAAYAAgNAAA5gQAIAEAAAARACABAAAADQAgAwAAAGIAIDsAAN0EACA8AADkBAAgAQAAAGIAIAEAAABgACAGDQAA8A0AIEEAAPINACBCAADxDQAg2AQAAIoJACDZBAAAigkAIOwEAACKCQAgCw4AAL4HACDHBAAA5AcAMMgEAADvBAAQyQQAAOQHADDKBAEAtgcAIdgEAQDFBwAh2QQBAMUHACHbBEAAvwcAIdwEQAC_BwAh4wQAAL4HACDsBAEAxQcAIQMAAABgACABAADuBAAwQAAA7wQAIAMAAABgACABAABhADACAABiACABAAAAPgAgAQAAAD4AIAMAAAA8ACABAAA9ADACAAA-ACADAAAAPAAgAQAAPQAwAgAAPgAgAwAAADwAIAEAAD0AMAIAAD4AIA4HAADHCwAgDoAAAAABFwAA3AwAIBkAAMgLACAaAADJCwAgygQBAAAAAdgEAQAAAAHZBAEAAAAB2wRAAAAAAdwEQAAAAAHjBIAAAAAB7AQBAAAAAfsEAQAAAAH8BAEAAAABATQAAPcEACAKDoAAAAABygQBAAAAAdgEAQAAAAHZBAEAAAAB2wRAAAAAAdwEQAAAAAHjBIAAAAAB7AQBAAAAAfsEAQAAAAH8BAEAAAABATQAAPkEADABNAAA-QQAMAEAAAARACABAAAADQAgDgcAAMgNACAOgAAAAAEXAADLDAAgGQAAzAwAIBoAAM0MACDKBAEA_ggAIdgEAQCPCQAh2QQBAI8JACHbBEAAhQkAIdwEQACFCQAh4wSAAAAAAewEAQCPCQAh-wQBAI8JACH8BAEAjwkAIQIAAAA-ACA0AAD-BAAgCg6AAAAAAcoEAQD-CAAh2AQBAI8JACHZBAEAjwkAIdsEQACFCQAh3ARAAIUJACHjBIAAAAAB7AQBAI8JACH7BAEAjwkAIfwEAQCPCQAhAgAAADwAIDQAAIAFACACAAAAPAAgNAAAgAUAIAEAAAARACABAAAADQAgAwAAAD4AIDsAAPcEACA8AAD-BAAgAQAAAD4AIAEAAAA8ACAIDQAA7Q0AIEEAAO8NACBCAADuDQAg2AQAAIoJACDZBAAAigkAIOwEAACKCQAg-wQAAIoJACD8BAAAigkAIA0OAAC-BwAgxwQAAOMHADDIBAAAiQUAEMkEAADjBwAwygQBALYHACHYBAEAxQcAIdkEAQDFBwAh2wRAAL8HACHcBEAAvwcAIeMEAAC-BwAg7AQBAMUHACH7BAEAxQcAIfwEAQDFBwAhAwAAADwAIAEAAIgFADBAAACJBQAgAwAAADwAIAEAAD0AMAIAAD4AIAEAAABKACABAAAASgAgAwAAAEgAIAEAAEkAMAIAAEoAIAMAAABIACABAABJADACAABKACADAAAASAAgAQAASQAwAgAASgAgBQ6AAAAAARgAAOwNACDKBAEAAAAB2wRAAAAAAfkEAQAAAAEBNAAAkQUAIAQOgAAAAAHKBAEAAAAB2wRAAAAAAfkEAQAAAAEBNAAAkwUAMAE0AACTBQAwBQ6AAAAAARgAAOsNACDKBAEA_ggAIdsEQACFCQAh-QQBAP4IACECAAAASgAgNAAAlgUAIAQOgAAAAAHKBAEA_ggAIdsEQACFCQAh-QQBAP4IACECAAAASAAgNAAAmAUAIAIAAABIACA0AACYBQAgAwAAAEoAIDsAAJEFACA8AACWBQAgAQAAAEoAIAEAAABIACADDQAA6A0AIEEAAOoNACBCAADpDQAgBw4AAL4HACDHBAAA4gcAMMgEAACfBQAQyQQAAOIHADDKBAEAtgcAIdsEQAC_BwAh-QQBALYHACEDAAAASAAgAQAAngUAMEAAAJ8FACADAAAASAAgAQAASQAwAgAASgAgAQAAAA8AIAEAAAAPACADAAAADQAgAQAADgAwAgAADwAgAwAAAA0AIAEAAA4AMAIAAA8AIAMAAAANACABAAAOADACAAAPACANAwAAmAsAIBQAAOcNACAbAACZCwAgHwAAmgsAICAAAJsLACAiAACcCwAgKQAAnQsAICoAAJ4LACDKBAEAAAAB2wRAAAAAAdwEQAAAAAHjBIAAAAAB-gQgAAAAAQE0AACnBQAgBcoEAQAAAAHbBEAAAAAB3ARAAAAAAeMEgAAAAAH6BCAAAAABATQAAKkFADABNAAAqQUAMA0DAACcDQAgFAAA3g0AIBsAAJ0NACAfAACeDQAgIAAAnw0AICIAAKANACApAAChDQAgKgAAog0AIMoEAQD-CAAh2wRAAIUJACHcBEAAhQkAIeMEgAAAAAH6BCAA_wgAIQIAAAAPACA0AACsBQAgBcoEAQD-CAAh2wRAAIUJACHcBEAAhQkAIeMEgAAAAAH6BCAA_wgAIQIAAAANACA0AACuBQAgAgAAAA0AIDQAAK4FACADAAAADwAgOwAApwUAIDwAAKwFACABAAAADwAgAQAAAA0AIAMNAADbDQAgQQAA3Q0AIEIAANwNACAIxwQAAOEHADDIBAAAtQUAEMkEAADhBwAwygQBALYHACHbBEAAvwcAIdwEQAC_BwAh4wQAAL4HACD6BCAAtwcAIQMAAAANACABAAC0BQAwQAAAtQUAIAMAAAANACABAAAOADACAAAPACABAAAARAAgAQAAAEQAIAMAAABCACABAABDADACAABEACADAAAAQgAgAQAAQwAwAgAARAAgAwAAAEIAIAEAAEMAMAIAAEQAIAgHAACkCwAgFwAA0wsAIBgAAKULACDKBAEAAAAB2AQBAAAAAdsEQAAAAAHsBAEAAAAB-QQBAAAAAQE0AAC9BQAgBcoEAQAAAAHYBAEAAAAB2wRAAAAAAewEAQAAAAH5BAEAAAABATQAAL8FADABNAAAvwUAMAEAAAARACABAAAAPAAgCAcAANoMACAXAAD_CwAgGAAAgAwAIMoEAQD-CAAh2AQBAI8JACHbBEAAhQkAIewEAQD-CAAh-QQBAI8JACECAAAARAAgNAAAxAUAIAXKBAEA_ggAIdgEAQCPCQAh2wRAAIUJACHsBAEA_ggAIfkEAQCPCQAhAgAAAEIAIDQAAMYFACACAAAAQgAgNAAAxgUAIAEAAAARACABAAAAPAAgAwAAAEQAIDsAAL0FACA8AADEBQAgAQAAAEQAIAEAAABCACAFDQAA2A0AIEEAANoNACBCAADZDQAg2AQAAIoJACD5BAAAigkAIAjHBAAA4AcAMMgEAADPBQAQyQQAAOAHADDKBAEAtgcAIdgEAQDFBwAh2wRAAL8HACHsBAEAtgcAIfkEAQDFBwAhAwAAAEIAIAEAAM4FADBAAADPBQAgAwAAAEIAIAEAAEMAMAIAAEQAIAEAAABQACABAAAAUAAgAwAAAE4AIAEAAE8AMAIAAFAAIAMAAABOACABAABPADACAABQACADAAAATgAgAQAATwAwAgAAUAAgDQcAAIcLACAUAADBCwAgFwAAiAsAIB4AAIkLACDKBAEAAAAB2AQBAAAAAdkEAQAAAAHbBEAAAAAB3ARAAAAAAeMEgAAAAAHlBAAAAPkEAuwEAQAAAAHxBIAAAAABATQAANcFACAJygQBAAAAAdgEAQAAAAHZBAEAAAAB2wRAAAAAAdwEQAAAAAHjBIAAAAAB5QQAAAD5BALsBAEAAAAB8QSAAAAAAQE0AADZBQAwATQAANkFADABAAAAEQAgAQAAAA0AIA0HAAD8CQAgFAAA_wkAIBcAAP0JACAeAAD-CQAgygQBAP4IACHYBAEAjwkAIdkEAQCPCQAh2wRAAIUJACHcBEAAhQkAIeMEgAAAAAHlBAAA-wn5BCLsBAEAjwkAIfEEgAAAAAECAAAAUAAgNAAA3gUAIAnKBAEA_ggAIdgEAQCPCQAh2QQBAI8JACHbBEAAhQkAIdwEQACFCQAh4wSAAAAAAeUEAAD7CfkEIuwEAQCPCQAh8QSAAAAAAQIAAABOACA0AADgBQAgAgAAAE4AIDQAAOAFACABAAAAEQAgAQAAAA0AIAMAAABQACA7AADXBQAgPAAA3gUAIAEAAABQACABAAAATgAgBg0AAPgJACBBAAD6CQAgQgAA-QkAINgEAACKCQAg2QQAAIoJACDsBAAAigkAIAzHBAAA3AcAMMgEAADpBQAQyQQAANwHADDKBAEAtgcAIdgEAQDFBwAh2QQBAMUHACHbBEAAvwcAIdwEQAC_BwAh4wQAAL4HACDlBAAA3Qf5BCLsBAEAxQcAIfEEAAC-BwAgAwAAAE4AIAEAAOgFADBAAADpBQAgAwAAAE4AIAEAAE8AMAIAAFAAIAEAAABWACABAAAAVgAgAwAAAFQAIAEAAFUAMAIAAFYAIAMAAABUACABAABVADACAABWACADAAAAVAAgAQAAVQAwAgAAVgAgBgsAAPcJACAcAAD2CQAgygQBAAAAAfUEAQAAAAH2BEAAAAAB9wRAAAAAAQE0AADxBQAgBMoEAQAAAAH1BAEAAAAB9gRAAAAAAfcEQAAAAAEBNAAA8wUAMAE0AADzBQAwBgsAAOkJACAcAADoCQAgygQBAP4IACH1BAEA_ggAIfYEQACFCQAh9wRAAN0JACECAAAAVgAgNAAA9gUAIATKBAEA_ggAIfUEAQD-CAAh9gRAAIUJACH3BEAA3QkAIQIAAABUACA0AAD4BQAgAgAAAFQAIDQAAPgFACADAAAAVgAgOwAA8QUAIDwAAPYFACABAAAAVgAgAQAAAFQAIAQNAADlCQAgQQAA5wkAIEIAAOYJACD3BAAAigkAIAfHBAAA2wcAMMgEAAD_BQAQyQQAANsHADDKBAEAtgcAIfUEAQC2BwAh9gRAAL8HACH3BEAA1wcAIQMAAABUACABAAD-BQAwQAAA_wUAIAMAAABUACABAABVADACAABWACABAAAAWgAgAQAAAFoAIAMAAABYACABAABZADACAABaACADAAAAWAAgAQAAWQAwAgAAWgAgAwAAAFgAIAEAAFkAMAIAAFoAIAQOAQAAAAEdAADkCQAgygQBAAAAAfQEAQAAAAEBNAAAhwYAIAMOAQAAAAHKBAEAAAAB9AQBAAAAAQE0AACJBgAwATQAAIkGADAEDgEA_ggAIR0AAOMJACDKBAEA_ggAIfQEAQD-CAAhAgAAAFoAIDQAAIwGACADDgEA_ggAIcoEAQD-CAAh9AQBAP4IACECAAAAWAAgNAAAjgYAIAIAAABYACA0AACOBgAgAwAAAFoAIDsAAIcGACA8AACMBgAgAQAAAFoAIAEAAABYACADDQAA4AkAIEEAAOIJACBCAADhCQAgBg4BALYHACHHBAAA2gcAMMgEAACVBgAQyQQAANoHADDKBAEAtgcAIfQEAQC2BwAhAwAAAFgAIAEAAJQGADBAAACVBgAgAwAAAFgAIAEAAFkAMAIAAFoAIAEAAABqACABAAAAagAgAwAAAGgAIAEAAGkAMAIAAGoAIAMAAABoACABAABpADACAABqACADAAAAaAAgAQAAaQAwAgAAagAgCgcAAN8JACDKBAEAAAAB2AQBAAAAAdkEAQAAAAHbBEAAAAAB3ARAAAAAAeMEgAAAAAHxBIAAAAAB8gRAAAAAAfMEQAAAAAEBNAAAnQYAIAnKBAEAAAAB2AQBAAAAAdkEAQAAAAHbBEAAAAAB3ARAAAAAAeMEgAAAAAHxBIAAAAAB8gRAAAAAAfMEQAAAAAEBNAAAnwYAMAE0AACfBgAwCgcAAN4JACDKBAEA_ggAIdgEAQD-CAAh2QQBAP4IACHbBEAAhQkAIdwEQACFCQAh4wSAAAAAAfEEgAAAAAHyBEAA3QkAIfMEQADdCQAhAgAAAGoAIDQAAKIGACAJygQBAP4IACHYBAEA_ggAIdkEAQD-CAAh2wRAAIUJACHcBEAAhQkAIeMEgAAAAAHxBIAAAAAB8gRAAN0JACHzBEAA3QkAIQIAAABoACA0AACkBgAgAgAAAGgAIDQAAKQGACADAAAAagAgOwAAnQYAIDwAAKIGACABAAAAagAgAQAAAGgAIAUNAADaCQAgQQAA3AkAIEIAANsJACDyBAAAigkAIPMEAACKCQAgDMcEAADWBwAwyAQAAKsGABDJBAAA1gcAMMoEAQC2BwAh2AQBALYHACHZBAEAtgcAIdsEQAC_BwAh3ARAAL8HACHjBAAAvgcAIPEEAAC-BwAg8gRAANcHACHzBEAA1wcAIQMAAABoACABAACqBgAwQAAAqwYAIAMAAABoACABAABpADACAABqACAKxwQAANEHADDIBAAAsQYAEMkEAADRBwAwygQBAAAAAdsEQADVBwAh3ARAANUHACHjBAAA0wcAIO4EAADUB-4EIu8EAQDSBwAh8AQBAAAAAQEAAACuBgAgAQAAAK4GACAKxwQAANEHADDIBAAAsQYAEMkEAADRBwAwygQBANIHACHbBEAA1QcAIdwEQADVBwAh4wQAANMHACDuBAAA1AfuBCLvBAEA0gcAIfAEAQDSBwAhAAMAAACxBgAgAQAAsgYAMAIAAK4GACADAAAAsQYAIAEAALIGADACAACuBgAgAwAAALEGACABAACyBgAwAgAArgYAIAfKBAEAAAAB2wRAAAAAAdwEQAAAAAHjBIAAAAAB7gQAAADuBALvBAEAAAAB8AQBAAAAAQE0AAC2BgAgB8oEAQAAAAHbBEAAAAAB3ARAAAAAAeMEgAAAAAHuBAAAAO4EAu8EAQAAAAHwBAEAAAABATQAALgGADABNAAAuAYAMAfKBAEA_ggAIdsEQACFCQAh3ARAAIUJACHjBIAAAAAB7gQAANkJ7gQi7wQBAP4IACHwBAEA_ggAIQIAAACuBgAgNAAAuwYAIAfKBAEA_ggAIdsEQACFCQAh3ARAAIUJACHjBIAAAAAB7gQAANkJ7gQi7wQBAP4IACHwBAEA_ggAIQIAAACxBgAgNAAAvQYAIAIAAACxBgAgNAAAvQYAIAMAAACuBgAgOwAAtgYAIDwAALsGACABAAAArgYAIAEAAACxBgAgAw0AANYJACBBAADYCQAgQgAA1wkAIArHBAAAzQcAMMgEAADEBgAQyQQAAM0HADDKBAEAtgcAIdsEQAC_BwAh3ARAAL8HACHjBAAAvgcAIO4EAADOB-4EIu8EAQC2BwAh8AQBALYHACEDAAAAsQYAIAEAAMMGADBAAADEBgAgAwAAALEGACABAACyBgAwAgAArgYAIAEAAAAHACABAAAABwAgAwAAAAUAIAEAAAYAMAIAAAcAIAMAAAAFACABAAAGADACAAAHACADAAAABQAgAQAABgAwAgAABwAgBxcAANMJACAaAADUCQAgLAAA1QkAIMoEAQAAAAHbBEAAAAAB6wQBAAAAAewEAQAAAAEBNAAAzAYAIATKBAEAAAAB2wRAAAAAAesEAQAAAAHsBAEAAAABATQAAM4GADABNAAAzgYAMAcXAAC4CQAgGgAAuQkAICwAALoJACDKBAEA_ggAIdsEQACFCQAh6wQBAP4IACHsBAEA_ggAIQIAAAAHACA0AADRBgAgBMoEAQD-CAAh2wRAAIUJACHrBAEA_ggAIewEAQD-CAAhAgAAAAUAIDQAANMGACACAAAABQAgNAAA0wYAIAMAAAAHACA7AADMBgAgPAAA0QYAIAEAAAAHACABAAAABQAgAw0AALUJACBBAAC3CQAgQgAAtgkAIAfHBAAAzAcAMMgEAADaBgAQyQQAAMwHADDKBAEAtgcAIdsEQAC_BwAh6wQBALYHACHsBAEAtgcAIQMAAAAFACABAADZBgAwQAAA2gYAIAMAAAAFACABAAAGADACAAAHACABAAAAqAEAIAEAAACoAQAgAwAAAKYBACABAACnAQAwAgAAqAEAIAMAAACmAQAgAQAApwEAMAIAAKgBACADAAAApgEAIAEAAKcBADACAACoAQAgBCsAALQJACDKBAEAAAAB2wRAAAAAAegEAQAAAAEBNAAA4gYAIAPKBAEAAAAB2wRAAAAAAegEAQAAAAEBNAAA5AYAMAE0AADkBgAwBCsAALMJACDKBAEA_ggAIdsEQACFCQAh6AQBAP4IACECAAAAqAEAIDQAAOcGACADygQBAP4IACHbBEAAhQkAIegEAQD-CAAhAgAAAKYBACA0AADpBgAgAgAAAKYBACA0AADpBgAgAwAAAKgBACA7AADiBgAgPAAA5wYAIAEAAACoAQAgAQAAAKYBACADDQAAsAkAIEEAALIJACBCAACxCQAgBscEAADLBwAwyAQAAPAGABDJBAAAywcAMMoEAQC2BwAh2wRAAL8HACHoBAEAtgcAIQMAAACmAQAgAQAA7wYAMEAAAPAGACADAAAApgEAIAEAAKcBADACAACoAQAgAQAAAKQBACABAAAApAEAIAMAAAADACABAACjAQAwAgAApAEAIAMAAAADACABAACjAQAwAgAApAEAIAMAAAADACABAACjAQAwAgAApAEAIA4LAACvCQAgKwAArAkAIC0AAK0JACAuAACuCQAgygQBAAAAAdsEQAAAAAHcBEAAAAAB4wSAAAAAAeUEAAAA5QQC5gQgAAAAAecEAQAAAAHoBAEAAAAB6QQBAAAAAeoEAQAAAAEBNAAA-AYAIArKBAEAAAAB2wRAAAAAAdwEQAAAAAHjBIAAAAAB5QQAAADlBALmBCAAAAAB5wQBAAAAAegEAQAAAAHpBAEAAAAB6gQBAAAAAQE0AAD6BgAwATQAAPoGADAOCwAAkwkAICsAAJAJACAtAACRCQAgLgAAkgkAIMoEAQD-CAAh2wRAAIUJACHcBEAAhQkAIeMEgAAAAAHlBAAAjgnlBCLmBCAA_wgAIecEAQCPCQAh6AQBAP4IACHpBAEA_ggAIeoEAQD-CAAhAgAAAKQBACA0AAD9BgAgCsoEAQD-CAAh2wRAAIUJACHcBEAAhQkAIeMEgAAAAAHlBAAAjgnlBCLmBCAA_wgAIecEAQCPCQAh6AQBAP4IACHpBAEA_ggAIeoEAQD-CAAhAgAAAAMAIDQAAP8GACACAAAAAwAgNAAA_wYAIAMAAACkAQAgOwAA-AYAIDwAAP0GACABAAAApAEAIAEAAAADACAEDQAAiwkAIEEAAI0JACBCAACMCQAg5wQAAIoJACANxwQAAMMHADDIBAAAhgcAEMkEAADDBwAwygQBALYHACHbBEAAvwcAIdwEQAC_BwAh4wQAAL4HACDlBAAAxAflBCLmBCAAtwcAIecEAQDFBwAh6AQBALYHACHpBAEAtgcAIeoEAQC2BwAhAwAAAAMAIAEAAIUHADBAAACGBwAgAwAAAAMAIAEAAKMBADACAACkAQAgAQAAAHQAIAEAAAB0ACADAAAAcgAgAQAAcwAwAgAAdAAgAwAAAHIAIAEAAHMAMAIAAHQAIAMAAAByACABAABzADACAAB0ACAIBwAAiAkAICQAAIkJACDLBAEAAAAB2AQBAAAAAdkEAQAAAAHaBIAAAAAB2wRAAAAAAdwEQAAAAAEBNAAAjgcAIAbLBAEAAAAB2AQBAAAAAdkEAQAAAAHaBIAAAAAB2wRAAAAAAdwEQAAAAAEBNAAAkAcAMAE0AACQBwAwCAcAAIYJACAkAACHCQAgywQBAP4IACHYBAEA_ggAIdkEAQD-CAAh2gSAAAAAAdsEQACFCQAh3ARAAIUJACECAAAAdAAgNAAAkwcAIAbLBAEA_ggAIdgEAQD-CAAh2QQBAP4IACHaBIAAAAAB2wRAAIUJACHcBEAAhQkAIQIAAAByACA0AACVBwAgAgAAAHIAIDQAAJUHACADAAAAdAAgOwAAjgcAIDwAAJMHACABAAAAdAAgAQAAAHIAIAMNAACCCQAgQQAAhAkAIEIAAIMJACAJxwQAAL0HADDIBAAAnAcAEMkEAAC9BwAwywQBALYHACHYBAEAtgcAIdkEAQC2BwAh2gQAAL4HACDbBEAAvwcAIdwEQAC_BwAhAwAAAHIAIAEAAJsHADBAAACcBwAgAwAAAHIAIAEAAHMAMAIAAHQAIAEAAACvAQAgAQAAAK8BACADAAAArQEAIAEAAK4BADACAACvAQAgAwAAAK0BACABAACuAQAwAgAArwEAIAMAAACtAQAgAQAArgEAMAIAAK8BACAFDgEAAAABJAAAgQkAIMoEAQAAAAHLBAEAAAABzAQgAAAAAQE0AACkBwAgBA4BAAAAAcoEAQAAAAHLBAEAAAABzAQgAAAAAQE0AACmBwAwATQAAKYHADAFDgEA_ggAISQAAIAJACDKBAEA_ggAIcsEAQD-CAAhzAQgAP8IACECAAAArwEAIDQAAKkHACAEDgEA_ggAIcoEAQD-CAAhywQBAP4IACHMBCAA_wgAIQIAAACtAQAgNAAAqwcAIAIAAACtAQAgNAAAqwcAIAMAAACvAQAgOwAApAcAIDwAAKkHACABAAAArwEAIAEAAACtAQAgAw0AAPsIACBBAAD9CAAgQgAA_AgAIAcOAQC2BwAhxwQAALUHADDIBAAAsgcAEMkEAAC1BwAwygQBALYHACHLBAEAtgcAIcwEIAC3BwAhAwAAAK0BACABAACxBwAwQAAAsgcAIAMAAACtAQAgAQAArgEAMAIAAK8BACAHDgEAtgcAIccEAAC1BwAwyAQAALIHABDJBAAAtQcAMMoEAQC2BwAhywQBALYHACHMBCAAtwcAIQ4NAAC5BwAgQQAAvAcAIEIAALwHACDNBAEAAAABzgQBALsHACHPBAEAAAAE0AQBAAAABNEEAQAAAAHSBAEAAAAB0wQBAAAAAdQEAQAAAAHVBAEAAAAB1gQBAAAAAdcEAQAAAAEFDQAAuQcAIEEAALoHACBCAAC6BwAgzQQgAAAAAc4EIAC4BwAhBQ0AALkHACBBAAC6BwAgQgAAugcAIM0EIAAAAAHOBCAAuAcAIQjNBAIAAAABzgQCALkHACHPBAIAAAAE0AQCAAAABNEEAgAAAAHSBAIAAAAB0wQCAAAAAdQEAgAAAAECzQQgAAAAAc4EIAC6BwAhDg0AALkHACBBAAC8BwAgQgAAvAcAIM0EAQAAAAHOBAEAuwcAIc8EAQAAAATQBAEAAAAE0QQBAAAAAdIEAQAAAAHTBAEAAAAB1AQBAAAAAdUEAQAAAAHWBAEAAAAB1wQBAAAAAQvNBAEAAAABzgQBALwHACHPBAEAAAAE0AQBAAAABNEEAQAAAAHSBAEAAAAB0wQBAAAAAdQEAQAAAAHVBAEAAAAB1gQBAAAAAdcEAQAAAAEJxwQAAL0HADDIBAAAnAcAEMkEAAC9BwAwywQBALYHACHYBAEAtgcAIdkEAQC2BwAh2gQAAL4HACDbBEAAvwcAIdwEQAC_BwAhDw0AALkHACBBAADCBwAgQgAAwgcAIM0EgAAAAAHOBIAAAAAB0QSAAAAAAdIEgAAAAAHTBIAAAAAB1ASAAAAAAd0EAQAAAAHeBAEAAAAB3wQBAAAAAeAEgAAAAAHhBIAAAAAB4gSAAAAAAQsNAAC5BwAgQQAAwQcAIEIAAMEHACDNBEAAAAABzgRAAMAHACHPBEAAAAAE0ARAAAAABNEEQAAAAAHSBEAAAAAB0wRAAAAAAdQEQAAAAAELDQAAuQcAIEEAAMEHACBCAADBBwAgzQRAAAAAAc4EQADABwAhzwRAAAAABNAEQAAAAATRBEAAAAAB0gRAAAAAAdMEQAAAAAHUBEAAAAABCM0EQAAAAAHOBEAAwQcAIc8EQAAAAATQBEAAAAAE0QRAAAAAAdIEQAAAAAHTBEAAAAAB1ARAAAAAAQzNBIAAAAABzgSAAAAAAdEEgAAAAAHSBIAAAAAB0wSAAAAAAdQEgAAAAAHdBAEAAAAB3gQBAAAAAd8EAQAAAAHgBIAAAAAB4QSAAAAAAeIEgAAAAAENxwQAAMMHADDIBAAAhgcAEMkEAADDBwAwygQBALYHACHbBEAAvwcAIdwEQAC_BwAh4wQAAL4HACDlBAAAxAflBCLmBCAAtwcAIecEAQDFBwAh6AQBALYHACHpBAEAtgcAIeoEAQC2BwAhBw0AALkHACBBAADKBwAgQgAAygcAIM0EAAAA5QQCzgQAAMkH5QQizwQAAADlBAjQBAAAAOUECA4NAADHBwAgQQAAyAcAIEIAAMgHACDNBAEAAAABzgQBAMYHACHPBAEAAAAF0AQBAAAABdEEAQAAAAHSBAEAAAAB0wQBAAAAAdQEAQAAAAHVBAEAAAAB1gQBAAAAAdcEAQAAAAEODQAAxwcAIEEAAMgHACBCAADIBwAgzQQBAAAAAc4EAQDGBwAhzwQBAAAABdAEAQAAAAXRBAEAAAAB0gQBAAAAAdMEAQAAAAHUBAEAAAAB1QQBAAAAAdYEAQAAAAHXBAEAAAABCM0EAgAAAAHOBAIAxwcAIc8EAgAAAAXQBAIAAAAF0QQCAAAAAdIEAgAAAAHTBAIAAAAB1AQCAAAAAQvNBAEAAAABzgQBAMgHACHPBAEAAAAF0AQBAAAABdEEAQAAAAHSBAEAAAAB0wQBAAAAAdQEAQAAAAHVBAEAAAAB1gQBAAAAAdcEAQAAAAEHDQAAuQcAIEEAAMoHACBCAADKBwAgzQQAAADlBALOBAAAyQflBCLPBAAAAOUECNAEAAAA5QQIBM0EAAAA5QQCzgQAAMoH5QQizwQAAADlBAjQBAAAAOUECAbHBAAAywcAMMgEAADwBgAQyQQAAMsHADDKBAEAtgcAIdsEQAC_BwAh6AQBALYHACEHxwQAAMwHADDIBAAA2gYAEMkEAADMBwAwygQBALYHACHbBEAAvwcAIesEAQC2BwAh7AQBALYHACEKxwQAAM0HADDIBAAAxAYAEMkEAADNBwAwygQBALYHACHbBEAAvwcAIdwEQAC_BwAh4wQAAL4HACDuBAAAzgfuBCLvBAEAtgcAIfAEAQC2BwAhBw0AALkHACBBAADQBwAgQgAA0AcAIM0EAAAA7gQCzgQAAM8H7gQizwQAAADuBAjQBAAAAO4ECAcNAAC5BwAgQQAA0AcAIEIAANAHACDNBAAAAO4EAs4EAADPB-4EIs8EAAAA7gQI0AQAAADuBAgEzQQAAADuBALOBAAA0AfuBCLPBAAAAO4ECNAEAAAA7gQICscEAADRBwAwyAQAALEGABDJBAAA0QcAMMoEAQDSBwAh2wRAANUHACHcBEAA1QcAIeMEAADTBwAg7gQAANQH7gQi7wQBANIHACHwBAEA0gcAIQvNBAEAAAABzgQBALwHACHPBAEAAAAE0AQBAAAABNEEAQAAAAHSBAEAAAAB0wQBAAAAAdQEAQAAAAHVBAEAAAAB1gQBAAAAAdcEAQAAAAEMzQSAAAAAAc4EgAAAAAHRBIAAAAAB0gSAAAAAAdMEgAAAAAHUBIAAAAAB3QQBAAAAAd4EAQAAAAHfBAEAAAAB4ASAAAAAAeEEgAAAAAHiBIAAAAABBM0EAAAA7gQCzgQAANAH7gQizwQAAADuBAjQBAAAAO4ECAjNBEAAAAABzgRAAMEHACHPBEAAAAAE0ARAAAAABNEEQAAAAAHSBEAAAAAB0wRAAAAAAdQEQAAAAAEMxwQAANYHADDIBAAAqwYAEMkEAADWBwAwygQBALYHACHYBAEAtgcAIdkEAQC2BwAh2wRAAL8HACHcBEAAvwcAIeMEAAC-BwAg8QQAAL4HACDyBEAA1wcAIfMEQADXBwAhCw0AAMcHACBBAADZBwAgQgAA2QcAIM0EQAAAAAHOBEAA2AcAIc8EQAAAAAXQBEAAAAAF0QRAAAAAAdIEQAAAAAHTBEAAAAAB1ARAAAAAAQsNAADHBwAgQQAA2QcAIEIAANkHACDNBEAAAAABzgRAANgHACHPBEAAAAAF0ARAAAAABdEEQAAAAAHSBEAAAAAB0wRAAAAAAdQEQAAAAAEIzQRAAAAAAc4EQADZBwAhzwRAAAAABdAEQAAAAAXRBEAAAAAB0gRAAAAAAdMEQAAAAAHUBEAAAAABBg4BALYHACHHBAAA2gcAMMgEAACVBgAQyQQAANoHADDKBAEAtgcAIfQEAQC2BwAhB8cEAADbBwAwyAQAAP8FABDJBAAA2wcAMMoEAQC2BwAh9QQBALYHACH2BEAAvwcAIfcEQADXBwAhDMcEAADcBwAwyAQAAOkFABDJBAAA3AcAMMoEAQC2BwAh2AQBAMUHACHZBAEAxQcAIdsEQAC_BwAh3ARAAL8HACHjBAAAvgcAIOUEAADdB_kEIuwEAQDFBwAh8QQAAL4HACAHDQAAuQcAIEEAAN8HACBCAADfBwAgzQQAAAD5BALOBAAA3gf5BCLPBAAAAPkECNAEAAAA-QQIBw0AALkHACBBAADfBwAgQgAA3wcAIM0EAAAA-QQCzgQAAN4H-QQizwQAAAD5BAjQBAAAAPkECATNBAAAAPkEAs4EAADfB_kEIs8EAAAA-QQI0AQAAAD5BAgIxwQAAOAHADDIBAAAzwUAEMkEAADgBwAwygQBALYHACHYBAEAxQcAIdsEQAC_BwAh7AQBALYHACH5BAEAxQcAIQjHBAAA4QcAMMgEAAC1BQAQyQQAAOEHADDKBAEAtgcAIdsEQAC_BwAh3ARAAL8HACHjBAAAvgcAIPoEIAC3BwAhBw4AAL4HACDHBAAA4gcAMMgEAACfBQAQyQQAAOIHADDKBAEAtgcAIdsEQAC_BwAh-QQBALYHACENDgAAvgcAIMcEAADjBwAwyAQAAIkFABDJBAAA4wcAMMoEAQC2BwAh2AQBAMUHACHZBAEAxQcAIdsEQAC_BwAh3ARAAL8HACHjBAAAvgcAIOwEAQDFBwAh-wQBAMUHACH8BAEAxQcAIQsOAAC-BwAgxwQAAOQHADDIBAAA7wQAEMkEAADkBwAwygQBALYHACHYBAEAxQcAIdkEAQDFBwAh2wRAAL8HACHcBEAAvwcAIeMEAAC-BwAg7AQBAMUHACEIDgEAtgcAIccEAADlBwAwyAQAANUEABDJBAAA5QcAMMoEAQC2BwAhzAQgALcHACHYBAEAxQcAIf0EAQC2BwAhDhsAAOkHACDHBAAA5gcAMMgEAAC9BAAQyQQAAOYHADDYBAEAtgcAIeUEAADnB_8EIvYEQADXBwAh9wRAANcHACH9BAEAtgcAIf8EAgDoBwAhgAUCAOgHACGBBQAA6QcAIIIFAAC-BwAggwUAAL4HACAHDQAAuQcAIEEAAO4HACBCAADuBwAgzQQAAAD_BALOBAAA7Qf_BCLPBAAAAP8ECNAEAAAA_wQIDQ0AAMcHACBBAADHBwAgQgAAxwcAIFMAAOwHACBUAADHBwAgzQQCAAAAAc4EAgDrBwAhzwQCAAAABdAEAgAAAAXRBAIAAAAB0gQCAAAAAdMEAgAAAAHUBAIAAAABDw0AAMcHACBBAADqBwAgQgAA6gcAIM0EgAAAAAHOBIAAAAAB0QSAAAAAAdIEgAAAAAHTBIAAAAAB1ASAAAAAAd0EAQAAAAHeBAEAAAAB3wQBAAAAAeAEgAAAAAHhBIAAAAAB4gSAAAAAAQzNBIAAAAABzgSAAAAAAdEEgAAAAAHSBIAAAAAB0wSAAAAAAdQEgAAAAAHdBAEAAAAB3gQBAAAAAd8EAQAAAAHgBIAAAAAB4QSAAAAAAeIEgAAAAAENDQAAxwcAIEEAAMcHACBCAADHBwAgUwAA7AcAIFQAAMcHACDNBAIAAAABzgQCAOsHACHPBAIAAAAF0AQCAAAABdEEAgAAAAHSBAIAAAAB0wQCAAAAAdQEAgAAAAEIzQQIAAAAAc4ECADsBwAhzwQIAAAABdAECAAAAAXRBAgAAAAB0gQIAAAAAdMECAAAAAHUBAgAAAABBw0AALkHACBBAADuBwAgQgAA7gcAIM0EAAAA_wQCzgQAAO0H_wQizwQAAAD_BAjQBAAAAP8ECATNBAAAAP8EAs4EAADuB_8EIs8EAAAA_wQI0AQAAAD_BAgJxwQAAO8HADDIBAAApwQAEMkEAADvBwAwygQBALYHACHbBEAAvwcAIf0EAQC2BwAhhAUBALYHACGGBQAA8AeGBSKHBQEAxQcAIQcNAAC5BwAgQQAA8gcAIEIAAPIHACDNBAAAAIYFAs4EAADxB4YFIs8EAAAAhgUI0AQAAACGBQgHDQAAuQcAIEEAAPIHACBCAADyBwAgzQQAAACGBQLOBAAA8QeGBSLPBAAAAIYFCNAEAAAAhgUIBM0EAAAAhgUCzgQAAPIHhgUizwQAAACGBQjQBAAAAIYFCBDHBAAA8wcAMMgEAACRBAAQyQQAAPMHADDKBAEAtgcAIdwEQAC_BwAh4wQAAL4HACDlBAAA9QeKBSLuBAAA9AeJBSL2BEAAvwcAIfcEQADXBwAhigUAAL4HACCLBQAAvgcAIIwFAADpBwAgjQUBAMUHACGOBQAA6QcAII8FAQDFBwAhBw0AALkHACBBAAD5BwAgQgAA-QcAIM0EAAAAiQUCzgQAAPgHiQUizwQAAACJBQjQBAAAAIkFCAcNAAC5BwAgQQAA9wcAIEIAAPcHACDNBAAAAIoFAs4EAAD2B4oFIs8EAAAAigUI0AQAAACKBQgHDQAAuQcAIEEAAPcHACBCAAD3BwAgzQQAAACKBQLOBAAA9geKBSLPBAAAAIoFCNAEAAAAigUIBM0EAAAAigUCzgQAAPcHigUizwQAAACKBQjQBAAAAIoFCAcNAAC5BwAgQQAA-QcAIEIAAPkHACDNBAAAAIkFAs4EAAD4B4kFIs8EAAAAiQUI0AQAAACJBQgEzQQAAACJBQLOBAAA-QeJBSLPBAAAAIkFCNAEAAAAiQUIFAkAAIAIACALAACBCAAgFQAAgggAIBYAAIMIACDHBAAA-gcAMMgEAAD-AwAQyQQAAPoHADDKBAEA0gcAIdwEQADVBwAh4wQAANMHACDlBAAA_AeKBSLuBAAA-weJBSL2BEAA1QcAIfcEQAD_BwAhigUAANMHACCLBQAA0wcAIIwFAAD9BwAgjQUBAP4HACGOBQAA_QcAII8FAQD-BwAhBM0EAAAAiQUCzgQAAPkHiQUizwQAAACJBQjQBAAAAIkFCATNBAAAAIoFAs4EAAD3B4oFIs8EAAAAigUI0AQAAACKBQgMzQSAAAAAAc4EgAAAAAHRBIAAAAAB0gSAAAAAAdMEgAAAAAHUBIAAAAAB3QQBAAAAAd4EAQAAAAHfBAEAAAAB4ASAAAAAAeEEgAAAAAHiBIAAAAABC80EAQAAAAHOBAEAyAcAIc8EAQAAAAXQBAEAAAAF0QQBAAAAAdIEAQAAAAHTBAEAAAAB1AQBAAAAAdUEAQAAAAHWBAEAAAAB1wQBAAAAAQjNBEAAAAABzgRAANkHACHPBEAAAAAF0ARAAAAABdEEQAAAAAHSBEAAAAAB0wRAAAAAAdQEQAAAAAEDkAUAABkAIJEFAAAZACCSBQAAGQAgA5AFAAAeACCRBQAAHgAgkgUAAB4AIAOQBQAAIwAgkQUAACMAIJIFAAAjACADkAUAADQAIJEFAAA0ACCSBQAANAAgB8cEAACECAAwyAQAAPgDABDJBAAAhAgAMMoEAQC2BwAh2wRAAL8HACHcBEAAvwcAIYIFAAC-BwAgB8cEAACFCAAwyAQAAOUDABDJBAAAhQgAMMoEAQDSBwAh2wRAANUHACHcBEAA1QcAIYIFAADTBwAgB8cEAACGCAAwyAQAAN8DABDJBAAAhggAMMoEAQC2BwAh2wRAAL8HACHcBEAAvwcAIYIFAAC-BwAgB8cEAACHCAAwyAQAAMwDABDJBAAAhwgAMMoEAQDSBwAh2wRAANUHACHcBEAA1QcAIYIFAADTBwAgCMcEAACICAAwyAQAAMYDABDJBAAAiAgAMNgEAQC2BwAh4wQAAL4HACCPBQEAxQcAIZMFAQC2BwAhlAVAAL8HACEJBwAAiggAIMcEAACJCAAwyAQAAHAAEMkEAACJCAAw2AQBANIHACHjBAAA0wcAII8FAQD-BwAhkwUBANIHACGUBUAA1QcAISgFAADCCAAgBgAA6ggAIAgAAOsIACAJAACACAAgFAAAxAgAIBUAAIIIACAZAADUCAAgGwAA7AgAIB8AAO0IACAgAADuCAAgIQAA7wgAICIAAPAIACAjAADxCAAgJQAAsggAICYAAIEIACAnAADyCAAgxwQAAOcIADDIBAAAEQAQyQQAAOcIADDKBAEA0gcAIeUEAADoCJgFIv8EAgDmCAAhggUAAP0HACCDBQAA_QcAIJYFAQDSBwAhmQUAAOkImQUimgUBANIHACGbBQEA_gcAIZwFAgDmCAAhnQUCAOYIACGeBQIA5ggAIZ8FAgDmCAAhoAUCAOYIACGhBQAA_QcAIKIFAAD9BwAgowUgAKsIACGkBQEA_gcAIaUFQAD_BwAhvAUAABEAIL0FAAARACAGxwQAAIsIADDIBAAArgMAEMkEAACLCAAw2AQBALYHACGEBQEAtgcAIZUFAAC-BwAgBccEAACMCAAwyAQAAJgDABDJBAAAjAgAMIQFAQC2BwAhlQUAAL4HACAFxwQAAI0IADDIBAAAhQMAEMkEAACNCAAwhAUBANIHACGVBQAA0wcAIBbHBAAAjggAMMgEAAD_AgAQyQQAAI4IADDKBAEAtgcAIeUEAACPCJgFIv8EAgDoBwAhggUAAOkHACCDBQAA6QcAIJYFAQC2BwAhmQUAAJAImQUimgUBALYHACGbBQEAxQcAIZwFAgDoBwAhnQUCAOgHACGeBQIA6AcAIZ8FAgDoBwAhoAUCAOgHACGhBQAA6QcAIKIFAADpBwAgowUgALcHACGkBQEAxQcAIaUFQADXBwAhBw0AALkHACBBAACUCAAgQgAAlAgAIM0EAAAAmAUCzgQAAJMImAUizwQAAACYBQjQBAAAAJgFCAcNAAC5BwAgQQAAkggAIEIAAJIIACDNBAAAAJkFAs4EAACRCJkFIs8EAAAAmQUI0AQAAACZBQgHDQAAuQcAIEEAAJIIACBCAACSCAAgzQQAAACZBQLOBAAAkQiZBSLPBAAAAJkFCNAEAAAAmQUIBM0EAAAAmQUCzgQAAJIImQUizwQAAACZBQjQBAAAAJkFCAcNAAC5BwAgQQAAlAgAIEIAAJQIACDNBAAAAJgFAs4EAACTCJgFIs8EAAAAmAUI0AQAAACYBQgEzQQAAACYBQLOBAAAlAiYBSLPBAAAAJgFCNAEAAAAmAUICMcEAACVCAAwyAQAAOcCABDJBAAAlQgAMNgEAQC2BwAh5QQAAJYIpwUiggUAAOkHACCnBQEAxQcAIagFQAC_BwAhBw0AALkHACBBAACYCAAgQgAAmAgAIM0EAAAApwUCzgQAAJcIpwUizwQAAACnBQjQBAAAAKcFCAcNAAC5BwAgQQAAmAgAIEIAAJgIACDNBAAAAKcFAs4EAACXCKcFIs8EAAAApwUI0AQAAACnBQgEzQQAAACnBQLOBAAAmAinBSLPBAAAAKcFCNAEAAAApwUICQcAAIoIACDHBAAAmQgAMMgEAAAXABDJBAAAmQgAMNgEAQDSBwAh5QQAAJoIpwUiggUAAP0HACCnBQEA_gcAIagFQADVBwAhBM0EAAAApwUCzgQAAJgIpwUizwQAAACnBQjQBAAAAKcFCAYOAAC-BwAgxwQAAJsIADDIBAAAzwIAEMkEAACbCAAw4wQAAOkHACCpBQEAtgcAIQcMAACCCAAgDgAA0wcAIMcEAACcCAAwyAQAALwCABDJBAAAnAgAMOMEAAD9BwAgqQUBANIHACEHxwQAAJ0IADDIBAAAtgIAEMkEAACdCAAwmgUAAJ4IrQUiqgUBALYHACGrBQEAtgcAIa0FAQC2BwAhBw0AALkHACBBAACgCAAgQgAAoAgAIM0EAAAArQUCzgQAAJ8IrQUizwQAAACtBQjQBAAAAK0FCAcNAAC5BwAgQQAAoAgAIEIAAKAIACDNBAAAAK0FAs4EAACfCK0FIs8EAAAArQUI0AQAAACtBQgEzQQAAACtBQLOBAAAoAitBSLPBAAAAK0FCNAEAAAArQUIC8cEAAChCAAwyAQAAKACABDJBAAAoQgAMMoEAQC2BwAh2AQBALYHACHbBEAAvwcAIf0EAQC2BwAhrgUBALYHACGvBQEAtgcAIbAFAAC-BwAgsQUAAL4HACAGxwQAAKIIADDIBAAAigIAEMkEAACiCAAwygQBALYHACHrBAEAtgcAIe4EAQC2BwAhBwwAAIIIACDHBAAAowgAMMgEAAD3AQAQyQQAAKMIADDKBAEA0gcAIesEAQDSBwAh7gQBANIHACEMxwQAAKQIADDIBAAA8QEAEMkEAACkCAAw2AQBALYHACHZBAEAtgcAIdsEQAC_BwAh3ARAAL8HACHjBAAAvgcAIOwEAQC2BwAhpwUBAMUHACGyBQEAtgcAIbMFAgClCAAhDQ0AALkHACBBAAC5BwAgQgAAuQcAIFMAAKcIACBUAAC5BwAgzQQCAAAAAc4EAgCmCAAhzwQCAAAABNAEAgAAAATRBAIAAAAB0gQCAAAAAdMEAgAAAAHUBAIAAAABDQ0AALkHACBBAAC5BwAgQgAAuQcAIFMAAKcIACBUAAC5BwAgzQQCAAAAAc4EAgCmCAAhzwQCAAAABNAEAgAAAATRBAIAAAAB0gQCAAAAAdMEAgAAAAHUBAIAAAABCM0ECAAAAAHOBAgApwgAIc8ECAAAAATQBAgAAAAE0QQIAAAAAdIECAAAAAHTBAgAAAAB1AQIAAAAAQrHBAAAqAgAMMgEAADbAQAQyQQAAKgIADDKBAEAtgcAIdsEQAC_BwAh3ARAAL8HACHjBAAAvgcAIKkFAQC2BwAhtAUCAKUIACG1BQIApQgAIQnHBAAAqQgAMMgEAADFAQAQyQQAAKkIADDKBAEAtgcAIdsEQAC_BwAh3ARAAL8HACHjBAAAvgcAIOwEAQC2BwAhkwUBALYHACEIDgEA0gcAISQAAKwIACDHBAAAqggAMMgEAACtAQAQyQQAAKoIADDKBAEA0gcAIcsEAQDSBwAhzAQgAKsIACECzQQgAAAAAc4EIAC6BwAhEwsAALMIACArAACuCAAgLQAAsQgAIC4AALIIACDHBAAArwgAMMgEAAADABDJBAAArwgAMMoEAQDSBwAh2wRAANUHACHcBEAA1QcAIeMEAADTBwAg5QQAALAI5QQi5gQgAKsIACHnBAEA_gcAIegEAQDSBwAh6QQBANIHACHqBAEA0gcAIbwFAAADACC9BQAAAwAgBysAAK4IACDHBAAArQgAMMgEAACmAQAQyQQAAK0IADDKBAEA0gcAIdsEQADVBwAh6AQBANIHACEMFwAAtggAIBoAAPkIACAsAAD6CAAgxwQAAPgIADDIBAAABQAQyQQAAPgIADDKBAEA0gcAIdsEQADVBwAh6wQBANIHACHsBAEA0gcAIbwFAAAFACC9BQAABQAgEQsAALMIACArAACuCAAgLQAAsQgAIC4AALIIACDHBAAArwgAMMgEAAADABDJBAAArwgAMMoEAQDSBwAh2wRAANUHACHcBEAA1QcAIeMEAADTBwAg5QQAALAI5QQi5gQgAKsIACHnBAEA_gcAIegEAQDSBwAh6QQBANIHACHqBAEA0gcAIQTNBAAAAOUEAs4EAADKB-UEIs8EAAAA5QQI0AQAAADlBAgNFwAAtggAICsAALUIACDHBAAAtAgAMMgEAACXAQAQyQQAALQIADDKBAEA0gcAIdsEQADVBwAh3ARAANUHACHjBAAA0wcAIOwEAQDSBwAhkwUBANIHACG8BQAAlwEAIL0FAACXAQAgA5AFAAByACCRBQAAcgAgkgUAAHIAIAOQBQAArQEAIJEFAACtAQAgkgUAAK0BACALFwAAtggAICsAALUIACDHBAAAtAgAMMgEAACXAQAQyQQAALQIADDKBAEA0gcAIdsEQADVBwAh3ARAANUHACHjBAAA0wcAIOwEAQDSBwAhkwUBANIHACETCwAAswgAICsAAK4IACAtAACxCAAgLgAAsggAIMcEAACvCAAwyAQAAAMAEMkEAACvCAAwygQBANIHACHbBEAA1QcAIdwEQADVBwAh4wQAANMHACDlBAAAsAjlBCLmBCAAqwgAIecEAQD-BwAh6AQBANIHACHpBAEA0gcAIeoEAQDSBwAhvAUAAAMAIL0FAAADACASAwAA9AgAIBQAAMQIACAbAADsCAAgHwAA7QgAICAAAO4IACAiAADwCAAgKQAA9QgAICoAANQIACDHBAAA8wgAMMgEAAANABDJBAAA8wgAMMoEAQDSBwAh2wRAANUHACHcBEAA1QcAIeMEAADTBwAg-gQgAKsIACG8BQAADQAgvQUAAA0AIALYBAEAAAABhAUBAAAAAQcHAACKCAAgxwQAALgIADDIBAAAeQAQyQQAALgIADDYBAEA0gcAIYQFAQDSBwAhlQUAANMHACAC2AQBAAAAAdkEAQAAAAELBwAAiggAICQAAKwIACDHBAAAuggAMMgEAAByABDJBAAAuggAMMsEAQDSBwAh2AQBANIHACHZBAEA0gcAIdoEAADTBwAg2wRAANUHACHcBEAA1QcAIQPYBAEAAAAB2QQBAAAAAewEAQAAAAEOBwAAiggAIBcAALYIACDHBAAAvAgAMMgEAABsABDJBAAAvAgAMNgEAQDSBwAh2QQBANIHACHbBEAA1QcAIdwEQADVBwAh4wQAANMHACDsBAEA0gcAIacFAQD-BwAhsgUBANIHACGzBQIAvQgAIQjNBAIAAAABzgQCALkHACHPBAIAAAAE0AQCAAAABNEEAgAAAAHSBAIAAAAB0wQCAAAAAdQEAgAAAAEC2AQBAAAAAdkEAQAAAAENBwAAiggAIMcEAAC_CAAwyAQAAGgAEMkEAAC_CAAwygQBANIHACHYBAEA0gcAIdkEAQDSBwAh2wRAANUHACHcBEAA1QcAIeMEAADTBwAg8QQAANMHACDyBEAA_wcAIfMEQAD_BwAhAtgEAQAAAAHZBAEAAAABDgcAAMIIACAOAADTBwAgFAAAxAgAIBcAAMMIACDHBAAAwQgAMMgEAABgABDJBAAAwQgAMMoEAQDSBwAh2AQBAP4HACHZBAEA_gcAIdsEQADVBwAh3ARAANUHACHjBAAA0wcAIOwEAQD-BwAhKAUAAMIIACAGAADqCAAgCAAA6wgAIAkAAIAIACAUAADECAAgFQAAgggAIBkAANQIACAbAADsCAAgHwAA7QgAICAAAO4IACAhAADvCAAgIgAA8AgAICMAAPEIACAlAACyCAAgJgAAgQgAICcAAPIIACDHBAAA5wgAMMgEAAARABDJBAAA5wgAMMoEAQDSBwAh5QQAAOgImAUi_wQCAOYIACGCBQAA_QcAIIMFAAD9BwAglgUBANIHACGZBQAA6QiZBSKaBQEA0gcAIZsFAQD-BwAhnAUCAOYIACGdBQIA5ggAIZ4FAgDmCAAhnwUCAOYIACGgBQIA5ggAIaEFAAD9BwAgogUAAP0HACCjBSAAqwgAIaQFAQD-BwAhpQVAAP8HACG8BQAAEQAgvQUAABEAIBIDAAD0CAAgFAAAxAgAIBsAAOwIACAfAADtCAAgIAAA7ggAICIAAPAIACApAAD1CAAgKgAA1AgAIMcEAADzCAAwyAQAAA0AEMkEAADzCAAwygQBANIHACHbBEAA1QcAIdwEQADVBwAh4wQAANMHACD6BCAAqwgAIbwFAAANACC9BQAADQAgA5AFAAAJACCRBQAACQAgkgUAAAkAIAcOAQDSBwAhHQAAxggAIMcEAADFCAAwyAQAAFgAEMkEAADFCAAwygQBANIHACH0BAEA0gcAIQsLAADJCAAgHAAAyAgAIMcEAADHCAAwyAQAAFQAEMkEAADHCAAwygQBANIHACH1BAEA0gcAIfYEQADVBwAh9wRAAP8HACG8BQAAVAAgvQUAAFQAIAkLAADJCAAgHAAAyAgAIMcEAADHCAAwyAQAAFQAEMkEAADHCAAwygQBANIHACH1BAEA0gcAIfYEQADVBwAh9wRAAP8HACESBwAAwggAIBQAAMQIACAXAADDCAAgHgAAzQgAIMcEAADLCAAwyAQAAE4AEMkEAADLCAAwygQBANIHACHYBAEA_gcAIdkEAQD-BwAh2wRAANUHACHcBEAA1QcAIeMEAADTBwAg5QQAAMwI-QQi7AQBAP4HACHxBAAA0wcAILwFAABOACC9BQAATgAgA5AFAABYACCRBQAAWAAgkgUAAFgAIALYBAEAAAAB2QQBAAAAARAHAADCCAAgFAAAxAgAIBcAAMMIACAeAADNCAAgxwQAAMsIADDIBAAATgAQyQQAAMsIADDKBAEA0gcAIdgEAQD-BwAh2QQBAP4HACHbBEAA1QcAIdwEQADVBwAh4wQAANMHACDlBAAAzAj5BCLsBAEA_gcAIfEEAADTBwAgBM0EAAAA-QQCzgQAAN8H-QQizwQAAAD5BAjQBAAAAPkECAOQBQAAVAAgkQUAAFQAIJIFAABUACAIDgAA0wcAIBgAAM8IACDHBAAAzggAMMgEAABIABDJBAAAzggAMMoEAQDSBwAh2wRAANUHACH5BAEA0gcAIRMHAADCCAAgDgAA0wcAIBcAAMMIACAZAADUCAAgGgAA1QgAIMcEAADTCAAwyAQAADwAEMkEAADTCAAwygQBANIHACHYBAEA_gcAIdkEAQD-BwAh2wRAANUHACHcBEAA1QcAIeMEAADTBwAg7AQBAP4HACH7BAEA_gcAIfwEAQD-BwAhvAUAADwAIL0FAAA8ACALBwAAwggAIBcAALYIACAYAADRCAAgxwQAANAIADDIBAAAQgAQyQQAANAIADDKBAEA0gcAIdgEAQD-BwAh2wRAANUHACHsBAEA0gcAIfkEAQD-BwAhEwcAAMIIACAOAADTBwAgFwAAwwgAIBkAANQIACAaAADVCAAgxwQAANMIADDIBAAAPAAQyQQAANMIADDKBAEA0gcAIdgEAQD-BwAh2QQBAP4HACHbBEAA1QcAIdwEQADVBwAh4wQAANMHACDsBAEA_gcAIfsEAQD-BwAh_AQBAP4HACG8BQAAPAAgvQUAADwAIALYBAEAAAAB2QQBAAAAAREHAADCCAAgDgAA0wcAIBcAAMMIACAZAADUCAAgGgAA1QgAIMcEAADTCAAwyAQAADwAEMkEAADTCAAwygQBANIHACHYBAEA_gcAIdkEAQD-BwAh2wRAANUHACHcBEAA1QcAIeMEAADTBwAg7AQBAP4HACH7BAEA_gcAIfwEAQD-BwAhA5AFAABCACCRBQAAQgAgkgUAAEIAIAOQBQAASAAgkQUAAEgAIJIFAABIACAC_QQBAAAAAYQFAQAAAAEKCgAA2QgAIMcEAADXCAAwyAQAADQAEMkEAADXCAAwygQBANIHACHbBEAA1QcAIf0EAQDSBwAhhAUBANIHACGGBQAA2AiGBSKHBQEA_gcAIQTNBAAAAIYFAs4EAADyB4YFIs8EAAAAhgUI0AQAAACGBQgWCQAAgAgAIAsAAIEIACAVAACCCAAgFgAAgwgAIMcEAAD6BwAwyAQAAP4DABDJBAAA-gcAMMoEAQDSBwAh3ARAANUHACHjBAAA0wcAIOUEAAD8B4oFIu4EAAD7B4kFIvYEQADVBwAh9wRAAP8HACGKBQAA0wcAIIsFAADTBwAgjAUAAP0HACCNBQEA_gcAIY4FAAD9BwAgjwUBAP4HACG8BQAA_gMAIL0FAAD-AwAgBJoFAAAArQUCqgUBAAAAAasFAQAAAAGtBQEAAAABCRAAAN0IACARAADdCAAgxwQAANsIADDIBAAAKwAQyQQAANsIADCaBQAA3AitBSKqBQEA0gcAIasFAQDSBwAhrQUBANIHACEEzQQAAACtBQLOBAAAoAitBSLPBAAAAK0FCNAEAAAArQUIFAcAAIoIACAKAADZCAAgDgAA3wgAIA8AAOAIACASAADhCAAgEwAA4QgAIBQAAMQIACDHBAAA3ggAMMgEAAAjABDJBAAA3ggAMMoEAQDSBwAh2AQBANIHACHbBEAA1QcAIf0EAQDSBwAhrgUBANIHACGvBQEA0gcAIbAFAADTBwAgsQUAANMHACC8BQAAIwAgvQUAACMAIBIHAACKCAAgCgAA2QgAIA4AAN8IACAPAADgCAAgEgAA4QgAIBMAAOEIACAUAADECAAgxwQAAN4IADDIBAAAIwAQyQQAAN4IADDKBAEA0gcAIdgEAQDSBwAh2wRAANUHACH9BAEA0gcAIa4FAQDSBwAhrwUBANIHACGwBQAA0wcAILEFAADTBwAgCQwAAIIIACAOAADTBwAgxwQAAJwIADDIBAAAvAIAEMkEAACcCAAw4wQAAP0HACCpBQEA0gcAIbwFAAC8AgAgvQUAALwCACAJDAAAgggAIMcEAACjCAAwyAQAAPcBABDJBAAAowgAMMoEAQDSBwAh6wQBANIHACHuBAEA0gcAIbwFAAD3AQAgvQUAAPcBACADkAUAACsAIJEFAAArACCSBQAAKwAgCgcAAMIIACAKAADZCAAgDgEA0gcAIccEAADiCAAwyAQAAB4AEMkEAADiCAAwygQBANIHACHMBCAAqwgAIdgEAQD-BwAh_QQBANIHACEC2AQBAAAAAf0EAQAAAAEQBwAAiggAIAoAANkIACAbAAD9BwAgxwQAAOQIADDIBAAAGQAQyQQAAOQIADDYBAEA0gcAIeUEAADlCP8EIvYEQAD_BwAh9wRAAP8HACH9BAEA0gcAIf8EAgDmCAAhgAUCAOYIACGBBQAA_QcAIIIFAADTBwAggwUAANMHACAEzQQAAAD_BALOBAAA7gf_BCLPBAAAAP8ECNAEAAAA_wQICM0EAgAAAAHOBAIAxwcAIc8EAgAAAAXQBAIAAAAF0QQCAAAAAdIEAgAAAAHTBAIAAAAB1AQCAAAAASYFAADCCAAgBgAA6ggAIAgAAOsIACAJAACACAAgFAAAxAgAIBUAAIIIACAZAADUCAAgGwAA7AgAIB8AAO0IACAgAADuCAAgIQAA7wgAICIAAPAIACAjAADxCAAgJQAAsggAICYAAIEIACAnAADyCAAgxwQAAOcIADDIBAAAEQAQyQQAAOcIADDKBAEA0gcAIeUEAADoCJgFIv8EAgDmCAAhggUAAP0HACCDBQAA_QcAIJYFAQDSBwAhmQUAAOkImQUimgUBANIHACGbBQEA_gcAIZwFAgDmCAAhnQUCAOYIACGeBQIA5ggAIZ8FAgDmCAAhoAUCAOYIACGhBQAA_QcAIKIFAAD9BwAgowUgAKsIACGkBQEA_gcAIaUFQAD_BwAhBM0EAAAAmAUCzgQAAJQImAUizwQAAACYBQjQBAAAAJgFCATNBAAAAJkFAs4EAACSCJkFIs8EAAAAmQUI0AQAAACZBQgDkAUAABEAIJEFAAARACCSBQAAEQAgCwcAAIoIACDHBAAAmQgAMMgEAAAXABDJBAAAmQgAMNgEAQDSBwAh5QQAAJoIpwUiggUAAP0HACCnBQEA_gcAIagFQADVBwAhvAUAABcAIL0FAAAXACADkAUAADwAIJEFAAA8ACCSBQAAPAAgA5AFAABOACCRBQAATgAgkgUAAE4AIAOQBQAAYAAgkQUAAGAAIJIFAABgACADkAUAAGgAIJEFAABoACCSBQAAaAAgA5AFAABsACCRBQAAbAAgkgUAAGwAIAsHAACKCAAgxwQAAIkIADDIBAAAcAAQyQQAAIkIADDYBAEA0gcAIeMEAADTBwAgjwUBAP4HACGTBQEA0gcAIZQFQADVBwAhvAUAAHAAIL0FAABwACADkAUAAHkAIJEFAAB5ACCSBQAAeQAgEAMAAPQIACAUAADECAAgGwAA7AgAIB8AAO0IACAgAADuCAAgIgAA8AgAICkAAPUIACAqAADUCAAgxwQAAPMIADDIBAAADQAQyQQAAPMIADDKBAEA0gcAIdsEQADVBwAh3ARAANUHACHjBAAA0wcAIPoEIACrCAAhA5AFAAAFACCRBQAABQAgkgUAAAUAIAOQBQAAlwEAIJEFAACXAQAgkgUAAJcBACAPBAAA9wgAIBUAAIIIACAfAADtCAAgIAAA7ggAICgAAOoIACDHBAAA9ggAMMgEAAAJABDJBAAA9ggAMMoEAQDSBwAh2wRAANUHACHcBEAA1QcAIeMEAADTBwAgqQUBANIHACG0BQIAvQgAIbUFAgC9CAAhA5AFAAANACCRBQAADQAgkgUAAA0AIAoXAAC2CAAgGgAA-QgAICwAAPoIACDHBAAA-AgAMMgEAAAFABDJBAAA-AgAMMoEAQDSBwAh2wRAANUHACHrBAEA0gcAIewEAQDSBwAhA5AFAAADACCRBQAAAwAgkgUAAAMAIAOQBQAApgEAIJEFAACmAQAgkgUAAKYBACAAAAABwQUBAAAAAQHBBSAAAAABBTsAAIkRACA8AACMEQAgvgUAAIoRACC_BQAAixEAIMQFAACkAQAgAzsAAIkRACC-BQAAihEAIMQFAACkAQAgAAAAAcEFQAAAAAEFOwAAgREAIDwAAIcRACC-BQAAghEAIL8FAACGEQAgxAUAABMAIAU7AAD_EAAgPAAAhBEAIL4FAACAEQAgvwUAAIMRACDEBQAApAEAIAM7AACBEQAgvgUAAIIRACDEBQAAEwAgAzsAAP8QACC-BQAAgBEAIMQFAACkAQAgAAAAAAHBBQAAAOUEAgHBBQEAAAABBTsAAPUQACA8AAD9EAAgvgUAAPYQACC_BQAA_BAAIMQFAAAHACAFOwAA8xAAIDwAAPoQACC-BQAA9BAAIL8FAAD5EAAgxAUAAAEAIAs7AACgCQAwPAAApQkAML4FAAChCQAwvwUAAKIJADDABQAAowkAIMEFAACkCQAwwgUAAKQJADDDBQAApAkAMMQFAACkCQAwxQUAAKYJADDGBQAApwkAMAs7AACUCQAwPAAAmQkAML4FAACVCQAwvwUAAJYJADDABQAAlwkAIMEFAACYCQAwwgUAAJgJADDDBQAAmAkAMMQFAACYCQAwxQUAAJoJADDGBQAAmwkAMAMOAQAAAAHKBAEAAAABzAQgAAAAAQIAAACvAQAgOwAAnwkAIAMAAACvAQAgOwAAnwkAIDwAAJ4JACABNAAA-BAAMAgOAQDSBwAhJAAArAgAIMcEAACqCAAwyAQAAK0BABDJBAAAqggAMMoEAQAAAAHLBAEA0gcAIcwEIACrCAAhAgAAAK8BACA0AACeCQAgAgAAAJwJACA0AACdCQAgBw4BANIHACHHBAAAmwkAMMgEAACcCQAQyQQAAJsJADDKBAEA0gcAIcsEAQDSBwAhzAQgAKsIACEHDgEA0gcAIccEAACbCQAwyAQAAJwJABDJBAAAmwkAMMoEAQDSBwAhywQBANIHACHMBCAAqwgAIQMOAQD-CAAhygQBAP4IACHMBCAA_wgAIQMOAQD-CAAhygQBAP4IACHMBCAA_wgAIQMOAQAAAAHKBAEAAAABzAQgAAAAAQYHAACICQAg2AQBAAAAAdkEAQAAAAHaBIAAAAAB2wRAAAAAAdwEQAAAAAECAAAAdAAgOwAAqwkAIAMAAAB0ACA7AACrCQAgPAAAqgkAIAE0AAD3EAAwDAcAAIoIACAkAACsCAAgxwQAALoIADDIBAAAcgAQyQQAALoIADDLBAEA0gcAIdgEAQDSBwAh2QQBANIHACHaBAAA0wcAINsEQADVBwAh3ARAANUHACG3BQAAuQgAIAIAAAB0ACA0AACqCQAgAgAAAKgJACA0AACpCQAgCccEAACnCQAwyAQAAKgJABDJBAAApwkAMMsEAQDSBwAh2AQBANIHACHZBAEA0gcAIdoEAADTBwAg2wRAANUHACHcBEAA1QcAIQnHBAAApwkAMMgEAACoCQAQyQQAAKcJADDLBAEA0gcAIdgEAQDSBwAh2QQBANIHACHaBAAA0wcAINsEQADVBwAh3ARAANUHACEF2AQBAP4IACHZBAEA_ggAIdoEgAAAAAHbBEAAhQkAIdwEQACFCQAhBgcAAIYJACDYBAEA_ggAIdkEAQD-CAAh2gSAAAAAAdsEQACFCQAh3ARAAIUJACEGBwAAiAkAINgEAQAAAAHZBAEAAAAB2gSAAAAAAdsEQAAAAAHcBEAAAAABAzsAAPUQACC-BQAA9hAAIMQFAAAHACADOwAA8xAAIL4FAAD0EAAgxAUAAAEAIAQ7AACgCQAwvgUAAKEJADDABQAAowkAIMQFAACkCQAwBDsAAJQJADC-BQAAlQkAMMAFAACXCQAgxAUAAJgJADAAAAAFOwAA7hAAIDwAAPEQACC-BQAA7xAAIL8FAADwEAAgxAUAAAcAIAM7AADuEAAgvgUAAO8QACDEBQAABwAgAAAABTsAAOcQACA8AADsEAAgvgUAAOgQACC_BQAA6xAAIMQFAAAPACALOwAAxwkAMDwAAMwJADC-BQAAyAkAML8FAADJCQAwwAUAAMoJACDBBQAAywkAMMIFAADLCQAwwwUAAMsJADDEBQAAywkAMMUFAADNCQAwxgUAAM4JADALOwAAuwkAMDwAAMAJADC-BQAAvAkAML8FAAC9CQAwwAUAAL4JACDBBQAAvwkAMMIFAAC_CQAwwwUAAL8JADDEBQAAvwkAMMUFAADBCQAwxgUAAMIJADACygQBAAAAAdsEQAAAAAECAAAAqAEAIDsAAMYJACADAAAAqAEAIDsAAMYJACA8AADFCQAgATQAAOoQADAHKwAArggAIMcEAACtCAAwyAQAAKYBABDJBAAArQgAMMoEAQAAAAHbBEAA1QcAIegEAQDSBwAhAgAAAKgBACA0AADFCQAgAgAAAMMJACA0AADECQAgBscEAADCCQAwyAQAAMMJABDJBAAAwgkAMMoEAQDSBwAh2wRAANUHACHoBAEA0gcAIQbHBAAAwgkAMMgEAADDCQAQyQQAAMIJADDKBAEA0gcAIdsEQADVBwAh6AQBANIHACECygQBAP4IACHbBEAAhQkAIQLKBAEA_ggAIdsEQACFCQAhAsoEAQAAAAHbBEAAAAABDAsAAK8JACAtAACtCQAgLgAArgkAIMoEAQAAAAHbBEAAAAAB3ARAAAAAAeMEgAAAAAHlBAAAAOUEAuYEIAAAAAHnBAEAAAAB6QQBAAAAAeoEAQAAAAECAAAApAEAIDsAANIJACADAAAApAEAIDsAANIJACA8AADRCQAgATQAAOkQADARCwAAswgAICsAAK4IACAtAACxCAAgLgAAsggAIMcEAACvCAAwyAQAAAMAEMkEAACvCAAwygQBAAAAAdsEQADVBwAh3ARAANUHACHjBAAA0wcAIOUEAACwCOUEIuYEIACrCAAh5wQBAP4HACHoBAEA0gcAIekEAQAAAAHqBAEAAAABAgAAAKQBACA0AADRCQAgAgAAAM8JACA0AADQCQAgDccEAADOCQAwyAQAAM8JABDJBAAAzgkAMMoEAQDSBwAh2wRAANUHACHcBEAA1QcAIeMEAADTBwAg5QQAALAI5QQi5gQgAKsIACHnBAEA_gcAIegEAQDSBwAh6QQBANIHACHqBAEA0gcAIQ3HBAAAzgkAMMgEAADPCQAQyQQAAM4JADDKBAEA0gcAIdsEQADVBwAh3ARAANUHACHjBAAA0wcAIOUEAACwCOUEIuYEIACrCAAh5wQBAP4HACHoBAEA0gcAIekEAQDSBwAh6gQBANIHACEJygQBAP4IACHbBEAAhQkAIdwEQACFCQAh4wSAAAAAAeUEAACOCeUEIuYEIAD_CAAh5wQBAI8JACHpBAEA_ggAIeoEAQD-CAAhDAsAAJMJACAtAACRCQAgLgAAkgkAIMoEAQD-CAAh2wRAAIUJACHcBEAAhQkAIeMEgAAAAAHlBAAAjgnlBCLmBCAA_wgAIecEAQCPCQAh6QQBAP4IACHqBAEA_ggAIQwLAACvCQAgLQAArQkAIC4AAK4JACDKBAEAAAAB2wRAAAAAAdwEQAAAAAHjBIAAAAAB5QQAAADlBALmBCAAAAAB5wQBAAAAAekEAQAAAAHqBAEAAAABAzsAAOcQACC-BQAA6BAAIMQFAAAPACAEOwAAxwkAML4FAADICQAwwAUAAMoJACDEBQAAywkAMAQ7AAC7CQAwvgUAALwJADDABQAAvgkAIMQFAAC_CQAwAAAAAcEFAAAA7gQCAAAAAcEFQAAAAAEFOwAA4hAAIDwAAOUQACC-BQAA4xAAIL8FAADkEAAgxAUAABMAIAM7AADiEAAgvgUAAOMQACDEBQAAEwAgAAAABTsAAN0QACA8AADgEAAgvgUAAN4QACC_BQAA3xAAIMQFAABWACADOwAA3RAAIL4FAADeEAAgxAUAAFYAIAAAAAU7AADXEAAgPAAA2xAAIL4FAADYEAAgvwUAANoQACDEBQAAUAAgCzsAAOoJADA8AADvCQAwvgUAAOsJADC_BQAA7AkAMMAFAADtCQAgwQUAAO4JADDCBQAA7gkAMMMFAADuCQAwxAUAAO4JADDFBQAA8AkAMMYFAADxCQAwAg4BAAAAAcoEAQAAAAECAAAAWgAgOwAA9QkAIAMAAABaACA7AAD1CQAgPAAA9AkAIAE0AADZEAAwBw4BANIHACEdAADGCAAgxwQAAMUIADDIBAAAWAAQyQQAAMUIADDKBAEAAAAB9AQBANIHACECAAAAWgAgNAAA9AkAIAIAAADyCQAgNAAA8wkAIAYOAQDSBwAhxwQAAPEJADDIBAAA8gkAEMkEAADxCQAwygQBANIHACH0BAEA0gcAIQYOAQDSBwAhxwQAAPEJADDIBAAA8gkAEMkEAADxCQAwygQBANIHACH0BAEA0gcAIQIOAQD-CAAhygQBAP4IACECDgEA_ggAIcoEAQD-CAAhAg4BAAAAAcoEAQAAAAEDOwAA1xAAIL4FAADYEAAgxAUAAFAAIAQ7AADqCQAwvgUAAOsJADDABQAA7QkAIMQFAADuCQAwAAAAAcEFAAAA-QQCBzsAAKEQACA8AADVEAAgvgUAAKIQACC_BQAA1BAAIMIFAAARACDDBQAAEQAgxAUAABMAIAc7AACfEAAgPAAA0hAAIL4FAACgEAAgvwUAANEQACDCBQAADQAgwwUAAA0AIMQFAAAPACALOwAAigsAMDwAANINADC-BQAAiwsAML8FAADRDQAwwAUAAIwLACDBBQAAjQsAMMIFAACNCwAwwwUAAI0LADDEBQAAjQsAMMUFAADTDQAwxgUAANQNADAKOwAAgAoAMDwAAIQKADC-BQAAgQoAML8FAACCCgAwwQUAAIMKADDCBQAAgwoAMMMFAACDCgAwxAUAAIMKADDFBQAAhQoAMMYFAACGCgAwCwQAAJALACAVAAC8CwAgIAAAkwsAICgAAJELACDKBAEAAAAB2wRAAAAAAdwEQAAAAAHjBIAAAAABqQUBAAAAAbQFAgAAAAG1BQIAAAABAgAAAAsAIDsAANANACADAAAACwAgOwAA0A0AIDwAAIoKACAPBAAA9wgAIBUAAIIIACAfAADtCAAgIAAA7ggAICgAAOoIACDHBAAA9ggAMMgEAAAJABDJBAAA9ggAMMoEAQAAAAHbBEAA1QcAIdwEQADVBwAh4wQAANMHACCpBQEAAAABtAUCAL0IACG1BQIAvQgAIQIAAAALACA0AACKCgAgAgAAAIcKACA0AACICgAgCscEAACGCgAwyAQAAIcKABDJBAAAhgoAMMoEAQDSBwAh2wRAANUHACHcBEAA1QcAIeMEAADTBwAgqQUBANIHACG0BQIAvQgAIbUFAgC9CAAhCscEAACGCgAwyAQAAIcKABDJBAAAhgoAMMoEAQDSBwAh2wRAANUHACHcBEAA1QcAIeMEAADTBwAgqQUBANIHACG0BQIAvQgAIbUFAgC9CAAhB8oEAQD-CAAh2wRAAIUJACHcBEAAhQkAIeMEgAAAAAGpBQEA_ggAIbQFAgCJCgAhtQUCAIkKACEFwQUCAAAAAccFAgAAAAHIBQIAAAAByQUCAAAAAcoFAgAAAAELBAAAiwoAIBUAAI4KACAgAACNCgAgKAAAjAoAIMoEAQD-CAAh2wRAAIUJACHcBEAAhQkAIeMEgAAAAAGpBQEA_ggAIbQFAgCJCgAhtQUCAIkKACEKOwAAlAsAMDwAAJYNADC-BQAAlQsAML8FAACVDQAwwQUAAJYLADDCBQAAlgsAMMMFAACWCwAwxAUAAJYLADDFBQAAlw0AMMYFAACYDQAwCjsAAM8KADA8AADTCgAwvgUAANAKADC_BQAA0QoAMMEFAADSCgAwwgUAANIKADDDBQAA0goAMMQFAADSCgAwxQUAANQKADDGBQAA1QoAMAo7AADACgAwPAAAxAoAML4FAADBCgAwvwUAAMIKADDBBQAAwwoAMMIFAADDCgAwwwUAAMMKADDEBQAAwwoAMMUFAADFCgAwxgUAAMYKADAKOwAAjwoAMDwAAJMKADC-BQAAkAoAML8FAACRCgAwwQUAAJIKADDCBQAAkgoAMMMFAACSCgAwxAUAAJIKADDFBQAAlAoAMMYFAACVCgAwDgcAAL0KACAKAAC8CgAgDgAAugoAIA8AALsKACASAAC-CgAgEwAAvwoAIMoEAQAAAAHYBAEAAAAB2wRAAAAAAf0EAQAAAAGuBQEAAAABrwUBAAAAAbAFgAAAAAGxBYAAAAABAgAAACUAIDsAALkKACADAAAAJQAgOwAAuQoAIDwAAJgKACASBwAAiggAIAoAANkIACAOAADfCAAgDwAA4AgAIBIAAOEIACATAADhCAAgFAAAxAgAIMcEAADeCAAwyAQAACMAEMkEAADeCAAwygQBAAAAAdgEAQDSBwAh2wRAANUHACH9BAEA0gcAIa4FAQDSBwAhrwUBANIHACGwBQAA0wcAILEFAADTBwAgAgAAACUAIDQAAJgKACACAAAAlgoAIDQAAJcKACALxwQAAJUKADDIBAAAlgoAEMkEAACVCgAwygQBANIHACHYBAEA0gcAIdsEQADVBwAh_QQBANIHACGuBQEA0gcAIa8FAQDSBwAhsAUAANMHACCxBQAA0wcAIAvHBAAAlQoAMMgEAACWCgAQyQQAAJUKADDKBAEA0gcAIdgEAQDSBwAh2wRAANUHACH9BAEA0gcAIa4FAQDSBwAhrwUBANIHACGwBQAA0wcAILEFAADTBwAgCMoEAQD-CAAh2AQBAP4IACHbBEAAhQkAIf0EAQD-CAAhrgUBAP4IACGvBQEA_ggAIbAFgAAAAAGxBYAAAAABDgcAAJwKACAKAACbCgAgDgAAmQoAIA8AAJoKACASAACdCgAgEwAAngoAIMoEAQD-CAAh2AQBAP4IACHbBEAAhQkAIf0EAQD-CAAhrgUBAP4IACGvBQEA_ggAIbAFgAAAAAGxBYAAAAABBTsAALcQACA8AADPEAAgvgUAALgQACC_BQAAzhAAIMQFAAC5AgAgBTsAALUQACA8AADMEAAgvgUAALYQACC_BQAAyxAAIMQFAAD0AQAgBTsAALMQACA8AADJEAAgvgUAALQQACC_BQAAyBAAIMQFAAD7AwAgBTsAALEQACA8AADGEAAgvgUAALIQACC_BQAAxRAAIMQFAAATACALOwAArgoAMDwAALIKADC-BQAArwoAML8FAACwCgAwwAUAALEKACDBBQAAowoAMMIFAACjCgAwwwUAAKMKADDEBQAAowoAMMUFAACzCgAwxgUAAKYKADALOwAAnwoAMDwAAKQKADC-BQAAoAoAML8FAAChCgAwwAUAAKIKACDBBQAAowoAMMIFAACjCgAwwwUAAKMKADDEBQAAowoAMMUFAAClCgAwxgUAAKYKADAEEAAArQoAIJoFAAAArQUCqgUBAAAAAa0FAQAAAAECAAAALQAgOwAArAoAIAMAAAAtACA7AACsCgAgPAAAqgoAIAE0AADEEAAwChAAAN0IACARAADdCAAgxwQAANsIADDIBAAAKwAQyQQAANsIADCaBQAA3AitBSKqBQEA0gcAIasFAQDSBwAhrQUBANIHACG6BQAA2ggAIAIAAAAtACA0AACqCgAgAgAAAKcKACA0AACoCgAgB8cEAACmCgAwyAQAAKcKABDJBAAApgoAMJoFAADcCK0FIqoFAQDSBwAhqwUBANIHACGtBQEA0gcAIQfHBAAApgoAMMgEAACnCgAQyQQAAKYKADCaBQAA3AitBSKqBQEA0gcAIasFAQDSBwAhrQUBANIHACEDmgUAAKkKrQUiqgUBAP4IACGtBQEA_ggAIQHBBQAAAK0FAgQQAACrCgAgmgUAAKkKrQUiqgUBAP4IACGtBQEA_ggAIQU7AAC_EAAgPAAAwhAAIL4FAADAEAAgvwUAAMEQACDEBQAAJQAgBBAAAK0KACCaBQAAAK0FAqoFAQAAAAGtBQEAAAABAzsAAL8QACC-BQAAwBAAIMQFAAAlACAEEQAAuAoAIJoFAAAArQUCqwUBAAAAAa0FAQAAAAECAAAALQAgOwAAtwoAIAMAAAAtACA7AAC3CgAgPAAAtQoAIAE0AAC-EAAwAgAAAC0AIDQAALUKACACAAAApwoAIDQAALQKACADmgUAAKkKrQUiqwUBAP4IACGtBQEA_ggAIQQRAAC2CgAgmgUAAKkKrQUiqwUBAP4IACGtBQEA_ggAIQU7AAC5EAAgPAAAvBAAIL4FAAC6EAAgvwUAALsQACDEBQAAJQAgBBEAALgKACCaBQAAAK0FAqsFAQAAAAGtBQEAAAABAzsAALkQACC-BQAAuhAAIMQFAAAlACAOBwAAvQoAIAoAALwKACAOAAC6CgAgDwAAuwoAIBIAAL4KACATAAC_CgAgygQBAAAAAdgEAQAAAAHbBEAAAAAB_QQBAAAAAa4FAQAAAAGvBQEAAAABsAWAAAAAAbEFgAAAAAEDOwAAtxAAIL4FAAC4EAAgxAUAALkCACADOwAAtRAAIL4FAAC2EAAgxAUAAPQBACADOwAAsxAAIL4FAAC0EAAgxAUAAPsDACADOwAAsRAAIL4FAACyEAAgxAUAABMAIAQ7AACuCgAwvgUAAK8KADDABQAAsQoAIMQFAACjCgAwBDsAAJ8KADC-BQAAoAoAMMAFAACiCgAgxAUAAKMKADAKBwAAzQoAIA6AAAAAARcAAM4KACDKBAEAAAAB2AQBAAAAAdkEAQAAAAHbBEAAAAAB3ARAAAAAAeMEgAAAAAHsBAEAAAABAgAAAGIAIDsAAMwKACADAAAAYgAgOwAAzAoAIDwAAMkKACAPBwAAwggAIA4AANMHACAUAADECAAgFwAAwwgAIMcEAADBCAAwyAQAAGAAEMkEAADBCAAwygQBAAAAAdgEAQD-BwAh2QQBAP4HACHbBEAA1QcAIdwEQADVBwAh4wQAANMHACDsBAEA_gcAIbcFAADACAAgAgAAAGIAIDQAAMkKACACAAAAxwoAIDQAAMgKACALDgAA0wcAIMcEAADGCgAwyAQAAMcKABDJBAAAxgoAMMoEAQDSBwAh2AQBAP4HACHZBAEA_gcAIdsEQADVBwAh3ARAANUHACHjBAAA0wcAIOwEAQD-BwAhCw4AANMHACDHBAAAxgoAMMgEAADHCgAQyQQAAMYKADDKBAEA0gcAIdgEAQD-BwAh2QQBAP4HACHbBEAA1QcAIdwEQADVBwAh4wQAANMHACDsBAEA_gcAIQgOgAAAAAHKBAEA_ggAIdgEAQCPCQAh2QQBAI8JACHbBEAAhQkAIdwEQACFCQAh4wSAAAAAAewEAQCPCQAhCgcAAMoKACAOgAAAAAEXAADLCgAgygQBAP4IACHYBAEAjwkAIdkEAQCPCQAh2wRAAIUJACHcBEAAhQkAIeMEgAAAAAHsBAEAjwkAIQc7AACpEAAgPAAArxAAIL4FAACqEAAgvwUAAK4QACDCBQAAEQAgwwUAABEAIMQFAAATACAHOwAApxAAIDwAAKwQACC-BQAAqBAAIL8FAACrEAAgwgUAAA0AIMMFAAANACDEBQAADwAgCgcAAM0KACAOgAAAAAEXAADOCgAgygQBAAAAAdgEAQAAAAHZBAEAAAAB2wRAAAAAAdwEQAAAAAHjBIAAAAAB7AQBAAAAAQM7AACpEAAgvgUAAKoQACDEBQAAEwAgAzsAAKcQACC-BQAAqBAAIMQFAAAPACAiBQAAlA0AIAYAAIQNACAIAACFDQAgCQAAhg0AIBUAAJINACAZAACODQAgGwAAhw0AIB8AAIgNACAgAACJDQAgIQAAig0AICIAAIsNACAjAACMDQAgJQAAjQ0AICYAAJANACAnAACRDQAgygQBAAAAAeUEAAAAmAUC_wQCAAAAAYIFgAAAAAGDBYAAAAABlgUBAAAAAZkFAAAAmQUCmgUBAAAAAZsFAQAAAAGcBQIAAAABnQUCAAAAAZ4FAgAAAAGfBQIAAAABoAUCAAAAAaEFgAAAAAGiBYAAAAABowUgAAAAAaQFAQAAAAGlBUAAAAABAgAAABMAIDsAAJMNACADAAAAEwAgOwAAkw0AIDwAANsKACAmBQAAwggAIAYAAOoIACAIAADrCAAgCQAAgAgAIBQAAMQIACAVAACCCAAgGQAA1AgAIBsAAOwIACAfAADtCAAgIAAA7ggAICEAAO8IACAiAADwCAAgIwAA8QgAICUAALIIACAmAACBCAAgJwAA8ggAIMcEAADnCAAwyAQAABEAEMkEAADnCAAwygQBAAAAAeUEAADoCJgFIv8EAgDmCAAhggUAAP0HACCDBQAA_QcAIJYFAQAAAAGZBQAA6QiZBSKaBQEA0gcAIZsFAQD-BwAhnAUCAOYIACGdBQIA5ggAIZ4FAgDmCAAhnwUCAOYIACGgBQIA5ggAIaEFAAD9BwAgogUAAP0HACCjBSAAqwgAIaQFAQD-BwAhpQVAAP8HACECAAAAEwAgNAAA2woAIAIAAADWCgAgNAAA1woAIBbHBAAA1QoAMMgEAADWCgAQyQQAANUKADDKBAEA0gcAIeUEAADoCJgFIv8EAgDmCAAhggUAAP0HACCDBQAA_QcAIJYFAQDSBwAhmQUAAOkImQUimgUBANIHACGbBQEA_gcAIZwFAgDmCAAhnQUCAOYIACGeBQIA5ggAIZ8FAgDmCAAhoAUCAOYIACGhBQAA_QcAIKIFAAD9BwAgowUgAKsIACGkBQEA_gcAIaUFQAD_BwAhFscEAADVCgAwyAQAANYKABDJBAAA1QoAMMoEAQDSBwAh5QQAAOgImAUi_wQCAOYIACGCBQAA_QcAIIMFAAD9BwAglgUBANIHACGZBQAA6QiZBSKaBQEA0gcAIZsFAQD-BwAhnAUCAOYIACGdBQIA5ggAIZ4FAgDmCAAhnwUCAOYIACGgBQIA5ggAIaEFAAD9BwAgogUAAP0HACCjBSAAqwgAIaQFAQD-BwAhpQVAAP8HACETygQBAP4IACHlBAAA2AqYBSL_BAIA2goAIYIFgAAAAAGDBYAAAAABlgUBAP4IACGZBQAA2QqZBSKaBQEA_ggAIZsFAQCPCQAhnAUCANoKACGdBQIA2goAIZ4FAgDaCgAhnwUCANoKACGgBQIA2goAIaEFgAAAAAGiBYAAAAABowUgAP8IACGkBQEAjwkAIaUFQADdCQAhAcEFAAAAmAUCAcEFAAAAmQUCBcEFAgAAAAHHBQIAAAAByAUCAAAAAckFAgAAAAHKBQIAAAABIgUAANwKACAGAADdCgAgCAAA3goAIAkAAN8KACAVAADqCgAgGQAA5woAIBsAAOAKACAfAADhCgAgIAAA4goAICEAAOMKACAiAADkCgAgIwAA5QoAICUAAOYKACAmAADoCgAgJwAA6QoAIMoEAQD-CAAh5QQAANgKmAUi_wQCANoKACGCBYAAAAABgwWAAAAAAZYFAQD-CAAhmQUAANkKmQUimgUBAP4IACGbBQEAjwkAIZwFAgDaCgAhnQUCANoKACGeBQIA2goAIZ8FAgDaCgAhoAUCANoKACGhBYAAAAABogWAAAAAAaMFIAD_CAAhpAUBAI8JACGlBUAA3QkAIQc7AADlDwAgPAAApRAAIL4FAADmDwAgvwUAAKQQACDCBQAAEQAgwwUAABEAIMQFAAATACALOwAA8gwAMDwAAPYMADC-BQAA8wwAML8FAAD0DAAwwAUAAPUMACDBBQAA0goAMMIFAADSCgAwwwUAANIKADDEBQAA0goAMMUFAAD3DAAwxgUAANUKADAHOwAA7AwAIDwAAO8MACC-BQAA7QwAIL8FAADuDAAgwgUAABcAIMMFAAAXACDEBQAA0gIAIAs7AADdDAAwPAAA4gwAML4FAADeDAAwvwUAAN8MADDABQAA4AwAIMEFAADhDAAwwgUAAOEMADDDBQAA4QwAMMQFAADhDAAwxQUAAOMMADDGBQAA5AwAMAs7AADBDAAwPAAAxQwAML4FAADCDAAwvwUAAMMMADDABQAAxAwAIMEFAADFCwAwwgUAAMULADDDBQAAxQsAMMQFAADFCwAwxQUAAMYMADDGBQAAxwwAMAs7AAC4DAAwPAAAvAwAML4FAAC5DAAwvwUAALoMADDABQAAuwwAIMEFAAD_CgAwwgUAAP8KADDDBQAA_woAMMQFAAD_CgAwxQUAAL0MADDGBQAAggsAMAs7AACpDAAwPAAArQwAML4FAACqDAAwvwUAAKsMADDABQAArAwAIMEFAADDCgAwwgUAAMMKADDDBQAAwwoAMMQFAADDCgAwxQUAAK4MADDGBQAAxgoAMAs7AACdDAAwPAAAogwAML4FAACeDAAwvwUAAJ8MADDABQAAoAwAIMEFAAChDAAwwgUAAKEMADDDBQAAoQwAMMQFAAChDAAwxQUAAKMMADDGBQAApAwAMAs7AACQDAAwPAAAlAwAML4FAACRDAAwvwUAAJIMADDABQAAkwwAIMEFAACxCwAwwgUAALELADDDBQAAsQsAMMQFAACxCwAwxQUAAJUMADDGBQAAlgwAMAc7AACLDAAgPAAAjgwAIL4FAACMDAAgvwUAAI0MACDCBQAAcAAgwwUAAHAAIMQFAACxAwAgCzsAAIIMADA8AACGDAAwvgUAAIMMADC_BQAAhAwAMMAFAACFDAAgwQUAAKQJADDCBQAApAkAMMMFAACkCQAwxAUAAKQJADDFBQAAhwwAMMYFAACnCQAwCzsAAPULADA8AAD5CwAwvgUAAPYLADC_BQAA9wsAMMAFAAD4CwAgwQUAAKILADDCBQAAogsAMMMFAACiCwAwxAUAAKILADDFBQAA-gsAMMYFAAD7CwAwCzsAAOcLADA8AADsCwAwvgUAAOgLADC_BQAA6QsAMMAFAADqCwAgwQUAAOsLADDCBQAA6wsAMMMFAADrCwAwxAUAAOsLADDFBQAA7QsAMMYFAADuCwAwCzsAANsLADA8AADgCwAwvgUAANwLADC_BQAA3QsAMMAFAADeCwAgwQUAAN8LADDCBQAA3wsAMMMFAADfCwAwxAUAAN8LADDFBQAA4QsAMMYFAADiCwAwCzsAAOsKADA8AADvCgAwvgUAAOwKADC_BQAA7QoAMMAFAADuCgAgwQUAAJIKADDCBQAAkgoAMMMFAACSCgAwxAUAAJIKADDFBQAA8AoAMMYFAACVCgAwDQoAALwKACAOAAC6CgAgDwAAuwoAIBIAAL4KACATAAC_CgAgFAAA2gsAIMoEAQAAAAHbBEAAAAAB_QQBAAAAAa4FAQAAAAGvBQEAAAABsAWAAAAAAbEFgAAAAAECAAAAJQAgOwAA2QsAIAMAAAAlACA7AADZCwAgPAAA8goAIAE0AACjEAAwAgAAACUAIDQAAPIKACACAAAAlgoAIDQAAPEKACAHygQBAP4IACHbBEAAhQkAIf0EAQD-CAAhrgUBAP4IACGvBQEA_ggAIbAFgAAAAAGxBYAAAAABDQoAAJsKACAOAACZCgAgDwAAmgoAIBIAAJ0KACATAACeCgAgFAAA8woAIMoEAQD-CAAh2wRAAIUJACH9BAEA_ggAIa4FAQD-CAAhrwUBAP4IACGwBYAAAAABsQWAAAAAAQo7AAD0CgAwPAAA9woAML4FAAD1CgAwvwUAAPYKADDBBQAAgwoAMMIFAACDCgAwwwUAAIMKADDEBQAAgwoAMMUFAAD4CgAwxgUAAIYKADALBAAAkAsAIB8AAJILACAgAACTCwAgKAAAkQsAIMoEAQAAAAHbBEAAAAAB3ARAAAAAAeMEgAAAAAGpBQEAAAABtAUCAAAAAbUFAgAAAAECAAAACwAgOwAAjwsAIAMAAAALACA7AACPCwAgPAAA-goAIAIAAAALACA0AAD6CgAgAgAAAIcKACA0AAD5CgAgB8oEAQD-CAAh2wRAAIUJACHcBEAAhQkAIeMEgAAAAAGpBQEA_ggAIbQFAgCJCgAhtQUCAIkKACELBAAAiwoAIB8AAPsKACAgAACNCgAgKAAAjAoAIMoEAQD-CAAh2wRAAIUJACHcBEAAhQkAIeMEgAAAAAGpBQEA_ggAIbQFAgCJCgAhtQUCAIkKACEKOwAA_AoAMDwAAIALADC-BQAA_QoAML8FAAD-CgAwwQUAAP8KADDCBQAA_woAMMMFAAD_CgAwxAUAAP8KADDFBQAAgQsAMMYFAACCCwAwDAcAAIcLACAXAACICwAgHgAAiQsAIMoEAQAAAAHYBAEAAAAB2QQBAAAAAdsEQAAAAAHcBEAAAAAB4wSAAAAAAeUEAAAA-QQC7AQBAAAAAfEEgAAAAAECAAAAUAAgOwAAhgsAIAMAAABQACA7AACGCwAgPAAAhQsAIBEHAADCCAAgFAAAxAgAIBcAAMMIACAeAADNCAAgxwQAAMsIADDIBAAATgAQyQQAAMsIADDKBAEAAAAB2AQBAP4HACHZBAEA_gcAIdsEQADVBwAh3ARAANUHACHjBAAA0wcAIOUEAADMCPkEIuwEAQD-BwAh8QQAANMHACC3BQAAyggAIAIAAABQACA0AACFCwAgAgAAAIMLACA0AACECwAgDMcEAACCCwAwyAQAAIMLABDJBAAAggsAMMoEAQDSBwAh2AQBAP4HACHZBAEA_gcAIdsEQADVBwAh3ARAANUHACHjBAAA0wcAIOUEAADMCPkEIuwEAQD-BwAh8QQAANMHACAMxwQAAIILADDIBAAAgwsAEMkEAACCCwAwygQBANIHACHYBAEA_gcAIdkEAQD-BwAh2wRAANUHACHcBEAA1QcAIeMEAADTBwAg5QQAAMwI-QQi7AQBAP4HACHxBAAA0wcAIAnKBAEA_ggAIdgEAQCPCQAh2QQBAI8JACHbBEAAhQkAIdwEQACFCQAh4wSAAAAAAeUEAAD7CfkEIuwEAQCPCQAh8QSAAAAAAQwHAAD8CQAgFwAA_QkAIB4AAP4JACDKBAEA_ggAIdgEAQCPCQAh2QQBAI8JACHbBEAAhQkAIdwEQACFCQAh4wSAAAAAAeUEAAD7CfkEIuwEAQCPCQAh8QSAAAAAAQwHAACHCwAgFwAAiAsAIB4AAIkLACDKBAEAAAAB2AQBAAAAAdkEAQAAAAHbBEAAAAAB3ARAAAAAAeMEgAAAAAHlBAAAAPkEAuwEAQAAAAHxBIAAAAABAzsAAKEQACC-BQAAohAAIMQFAAATACADOwAAnxAAIL4FAACgEAAgxAUAAA8AIAQ7AACKCwAwvgUAAIsLADDABQAAjAsAIMQFAACNCwAwBAsAAPcJACDKBAEAAAAB9gRAAAAAAfcEQAAAAAECAAAAVgAgOwAAjgsAIAE0AACeEAAwCQsAAMkIACAcAADICAAgxwQAAMcIADDIBAAAVAAQyQQAAMcIADDKBAEAAAAB9QQBANIHACH2BEAA1QcAIfcEQAD_BwAhBAsAAPcJACDKBAEAAAAB9gRAAAAAAfcEQAAAAAELBAAAkAsAIB8AAJILACAgAACTCwAgKAAAkQsAIMoEAQAAAAHbBEAAAAAB3ARAAAAAAeMEgAAAAAGpBQEAAAABtAUCAAAAAbUFAgAAAAEDOwAAlAsAML4FAACVCwAwxAUAAJYLADADOwAAzwoAML4FAADQCgAwxAUAANIKADADOwAA_AoAML4FAAD9CgAwxAUAAP8KADADOwAAwAoAML4FAADBCgAwxAUAAMMKADAMAwAAmAsAIBsAAJkLACAfAACaCwAgIAAAmwsAICIAAJwLACApAACdCwAgKgAAngsAIMoEAQAAAAHbBEAAAAAB3ARAAAAAAeMEgAAAAAH6BCAAAAABAgAAAA8AIDsAAJcLACAQAwAA9AgAIBQAAMQIACAbAADsCAAgHwAA7QgAICAAAO4IACAiAADwCAAgKQAA9QgAICoAANQIACDHBAAA8wgAMMgEAAANABDJBAAA8wgAMMoEAQAAAAHbBEAA1QcAIdwEQADVBwAh4wQAANMHACD6BCAAqwgAIQwDAACYCwAgGwAAmQsAIB8AAJoLACAgAACbCwAgIgAAnAsAICkAAJ0LACAqAACeCwAgygQBAAAAAdsEQAAAAAHcBEAAAAAB4wSAAAAAAfoEIAAAAAEEOwAA1AsAML4FAADVCwAwwAUAANYLACDEBQAA1wsAMAQ7AADCCwAwvgUAAMMLADDABQAAxAsAIMQFAADFCwAwBDsAAL0LADC-BQAAvgsAMMAFAAC_CwAgxAUAAP8KADAEOwAAtAsAML4FAAC1CwAwwAUAALYLACDEBQAAwwoAMAQ7AACuCwAwvgUAAK8LADDABQAAsAsAIMQFAACxCwAwBDsAAKYLADC-BQAApwsAMMAFAACoCwAgxAUAAKkLADAEOwAAnwsAML4FAACgCwAwwAUAAKELACDEBQAAogsAMAYHAACkCwAgGAAApQsAIMoEAQAAAAHYBAEAAAAB2wRAAAAAAfkEAQAAAAECAAAARAAgOwAAowsAIAE0AACdEAAwCwcAAMIIACAXAAC2CAAgGAAA0QgAIMcEAADQCAAwyAQAAEIAEMkEAADQCAAwygQBAAAAAdgEAQD-BwAh2wRAANUHACHsBAEA0gcAIfkEAQD-BwAhBgcAAKQLACAYAAClCwAgygQBAAAAAdgEAQAAAAHbBEAAAAAB-QQBAAAAAQM7AADwDwAgvgUAAPEPACDEBQAAEwAgAzsAAIMQACC-BQAAhBAAIMQFAAA-ACAGKwAAqwsAIMoEAQAAAAHbBEAAAAAB3ARAAAAAAeMEgAAAAAGTBQEAAAABAgAAAAEAIDsAAKoLACABNAAAnBAAMAsXAAC2CAAgKwAAtQgAIMcEAAC0CAAwyAQAAJcBABDJBAAAtAgAMMoEAQAAAAHbBEAA1QcAIdwEQADVBwAh4wQAANMHACDsBAEA0gcAIZMFAQAAAAEGKwAAqwsAIMoEAQAAAAHbBEAAAAAB3ARAAAAAAeMEgAAAAAGTBQEAAAABAzsAAKwLACC-BQAArQsAIMQFAACkAQAgDAsAAK8JACArAACsCQAgLgAArgkAIMoEAQAAAAHbBEAAAAAB3ARAAAAAAeMEgAAAAAHlBAAAAOUEAuYEIAAAAAHnBAEAAAAB6AQBAAAAAekEAQAAAAECAAAApAEAIDsAAKwLACAJBwAAswsAINgEAQAAAAHZBAEAAAAB2wRAAAAAAdwEQAAAAAHjBIAAAAABpwUBAAAAAbIFAQAAAAGzBQIAAAABAgAAAG4AIDsAALILACABNAAAmxAAMA8HAACKCAAgFwAAtggAIMcEAAC8CAAwyAQAAGwAEMkEAAC8CAAw2AQBANIHACHZBAEA0gcAIdsEQADVBwAh3ARAANUHACHjBAAA0wcAIOwEAQDSBwAhpwUBAP4HACGyBQEA0gcAIbMFAgC9CAAhuAUAALsIACAJBwAAswsAINgEAQAAAAHZBAEAAAAB2wRAAAAAAdwEQAAAAAHjBIAAAAABpwUBAAAAAbIFAQAAAAGzBQIAAAABAzsAAOAPACC-BQAA4Q8AIMQFAAATACAJBwAAzQoAIA6AAAAAARQAALgLACDKBAEAAAAB2AQBAAAAAdkEAQAAAAHbBEAAAAAB3ARAAAAAAeMEgAAAAAECAAAAYgAgOwAAtwsAIAE0AACaEAAwCQcAAM0KACAOgAAAAAEUAAC4CwAgygQBAAAAAdgEAQAAAAHZBAEAAAAB2wRAAAAAAdwEQAAAAAHjBIAAAAABAzsAALkLADC-BQAAugsAMMQFAACDCgAwCwQAAJALACAVAAC8CwAgHwAAkgsAICgAAJELACDKBAEAAAAB2wRAAAAAAdwEQAAAAAHjBIAAAAABqQUBAAAAAbQFAgAAAAG1BQIAAAABAgAAAAsAIDsAALsLACALBAAAkAsAIBUAALwLACAfAACSCwAgKAAAkQsAIMoEAQAAAAHbBEAAAAAB3ARAAAAAAeMEgAAAAAGpBQEAAAABtAUCAAAAAbUFAgAAAAEDOwAAjwoAML4FAACQCgAwxAUAAJIKADALBwAAhwsAIBQAAMELACAeAACJCwAgygQBAAAAAdgEAQAAAAHZBAEAAAAB2wRAAAAAAdwEQAAAAAHjBIAAAAAB5QQAAAD5BALxBIAAAAABAgAAAFAAIDsAAMALACABNAAAmRAAMAsHAACHCwAgFAAAwQsAIB4AAIkLACDKBAEAAAAB2AQBAAAAAdkEAQAAAAHbBEAAAAAB3ARAAAAAAeMEgAAAAAHlBAAAAPkEAvEEgAAAAAEDOwAAgAoAML4FAACBCgAwxAUAAIMKADAMBwAAxwsAIA6AAAAAARkAAMgLACAaAADJCwAgygQBAAAAAdgEAQAAAAHZBAEAAAAB2wRAAAAAAdwEQAAAAAHjBIAAAAAB-wQBAAAAAfwEAQAAAAECAAAAPgAgOwAAxgsAIAE0AACYEAAwEgcAAMIIACAOAADTBwAgFwAAwwgAIBkAANQIACAaAADVCAAgxwQAANMIADDIBAAAPAAQyQQAANMIADDKBAEAAAAB2AQBAP4HACHZBAEA_gcAIdsEQADVBwAh3ARAANUHACHjBAAA0wcAIOwEAQD-BwAh-wQBAAAAAfwEAQD-BwAhtwUAANIIACAMBwAAxwsAIA6AAAAAARkAAMgLACAaAADJCwAgygQBAAAAAdgEAQAAAAHZBAEAAAAB2wRAAAAAAdwEQAAAAAHjBIAAAAAB-wQBAAAAAfwEAQAAAAEDOwAA2w8AIL4FAADcDwAgxAUAABMAIAQ7AADPCwAwvgUAANALADDABQAA0QsAIMQFAACiCwAwBDsAAMoLADC-BQAAywsAMMAFAADMCwAgxAUAAM0LADADDoAAAAABygQBAAAAAdsEQAAAAAECAAAASgAgOwAAzgsAIAE0AACXEAAwCA4AANMHACAYAADPCAAgxwQAAM4IADDIBAAASAAQyQQAAM4IADDKBAEAAAAB2wRAANUHACH5BAEA0gcAIQMOgAAAAAHKBAEAAAAB2wRAAAAAAQYHAACkCwAgFwAA0wsAIMoEAQAAAAHYBAEAAAAB2wRAAAAAAewEAQAAAAECAAAARAAgOwAA0gsAIAE0AACWEAAwBgcAAKQLACAXAADTCwAgygQBAAAAAdgEAQAAAAHbBEAAAAAB7AQBAAAAAQM7AACIEAAgvgUAAIkQACDEBQAADwAgBRoAANQJACAsAADVCQAgygQBAAAAAdsEQAAAAAHrBAEAAAABAgAAAAcAIDsAANgLACABNAAAlRAAMAoXAAC2CAAgGgAA-QgAICwAAPoIACDHBAAA-AgAMMgEAAAFABDJBAAA-AgAMMoEAQAAAAHbBEAA1QcAIesEAQAAAAHsBAEAAAABBRoAANQJACAsAADVCQAgygQBAAAAAdsEQAAAAAHrBAEAAAABDQoAALwKACAOAAC6CgAgDwAAuwoAIBIAAL4KACATAAC_CgAgFAAA2gsAIMoEAQAAAAHbBEAAAAAB_QQBAAAAAa4FAQAAAAGvBQEAAAABsAWAAAAAAbEFgAAAAAEDOwAA9AoAML4FAAD1CgAwxAUAAIMKADAChAUBAAAAAZUFgAAAAAECAAAAewAgOwAA5gsAIAMAAAB7ACA7AADmCwAgPAAA5QsAIAE0AACUEAAwCAcAAIoIACDHBAAAuAgAMMgEAAB5ABDJBAAAuAgAMNgEAQDSBwAhhAUBANIHACGVBQAA0wcAILYFAAC3CAAgAgAAAHsAIDQAAOULACACAAAA4wsAIDQAAOQLACAGxwQAAOILADDIBAAA4wsAEMkEAADiCwAw2AQBANIHACGEBQEA0gcAIZUFAADTBwAgBscEAADiCwAwyAQAAOMLABDJBAAA4gsAMNgEAQDSBwAhhAUBANIHACGVBQAA0wcAIAKEBQEA_ggAIZUFgAAAAAEChAUBAP4IACGVBYAAAAABAoQFAQAAAAGVBYAAAAABBQoAAPQLACAOAQAAAAHKBAEAAAABzAQgAAAAAf0EAQAAAAECAAAAIAAgOwAA8wsAIAMAAAAgACA7AADzCwAgPAAA8QsAIAE0AACTEAAwCgcAAMIIACAKAADZCAAgDgEA0gcAIccEAADiCAAwyAQAAB4AEMkEAADiCAAwygQBAAAAAcwEIACrCAAh2AQBAP4HACH9BAEA0gcAIQIAAAAgACA0AADxCwAgAgAAAO8LACA0AADwCwAgCA4BANIHACHHBAAA7gsAMMgEAADvCwAQyQQAAO4LADDKBAEA0gcAIcwEIACrCAAh2AQBAP4HACH9BAEA0gcAIQgOAQDSBwAhxwQAAO4LADDIBAAA7wsAEMkEAADuCwAwygQBANIHACHMBCAAqwgAIdgEAQD-BwAh_QQBANIHACEEDgEA_ggAIcoEAQD-CAAhzAQgAP8IACH9BAEA_ggAIQUKAADyCwAgDgEA_ggAIcoEAQD-CAAhzAQgAP8IACH9BAEA_ggAIQU7AACOEAAgPAAAkRAAIL4FAACPEAAgvwUAAJAQACDEBQAA-wMAIAUKAAD0CwAgDgEAAAABygQBAAAAAcwEIAAAAAH9BAEAAAABAzsAAI4QACC-BQAAjxAAIMQFAAD7AwAgBhcAANMLACAYAAClCwAgygQBAAAAAdsEQAAAAAHsBAEAAAAB-QQBAAAAAQIAAABEACA7AACBDAAgAwAAAEQAIDsAAIEMACA8AAD-CwAgATQAAI0QADACAAAARAAgNAAA_gsAIAIAAAD8CwAgNAAA_QsAIAjHBAAA-wsAMMgEAAD8CwAQyQQAAPsLADDKBAEA0gcAIdgEAQD-BwAh2wRAANUHACHsBAEA0gcAIfkEAQD-BwAhCMcEAAD7CwAwyAQAAPwLABDJBAAA-wsAMMoEAQDSBwAh2AQBAP4HACHbBEAA1QcAIewEAQDSBwAh-QQBAP4HACEEygQBAP4IACHbBEAAhQkAIewEAQD-CAAh-QQBAI8JACEGFwAA_wsAIBgAAIAMACDKBAEA_ggAIdsEQACFCQAh7AQBAP4IACH5BAEAjwkAIQU7AACIEAAgPAAAixAAIL4FAACJEAAgvwUAAIoQACDEBQAADwAgBzsAAIMQACA8AACGEAAgvgUAAIQQACC_BQAAhRAAIMIFAAA8ACDDBQAAPAAgxAUAAD4AIAYXAADTCwAgGAAApQsAIMoEAQAAAAHbBEAAAAAB7AQBAAAAAfkEAQAAAAEGJAAAiQkAIMsEAQAAAAHZBAEAAAAB2gSAAAAAAdsEQAAAAAHcBEAAAAABAgAAAHQAIDsAAIoMACADAAAAdAAgOwAAigwAIDwAAIkMACABNAAAghAAMAIAAAB0ACA0AACJDAAgAgAAAKgJACA0AACIDAAgBcsEAQD-CAAh2QQBAP4IACHaBIAAAAAB2wRAAIUJACHcBEAAhQkAIQYkAACHCQAgywQBAP4IACHZBAEA_ggAIdoEgAAAAAHbBEAAhQkAIdwEQACFCQAhBiQAAIkJACDLBAEAAAAB2QQBAAAAAdoEgAAAAAHbBEAAAAAB3ARAAAAAAQTjBIAAAAABjwUBAAAAAZMFAQAAAAGUBUAAAAABAgAAALEDACA7AACLDAAgAwAAAHAAIDsAAIsMACA8AACPDAAgBgAAAHAAIDQAAI8MACDjBIAAAAABjwUBAI8JACGTBQEA_ggAIZQFQACFCQAhBOMEgAAAAAGPBQEAjwkAIZMFAQD-CAAhlAVAAIUJACEJFwAAnAwAINkEAQAAAAHbBEAAAAAB3ARAAAAAAeMEgAAAAAHsBAEAAAABpwUBAAAAAbIFAQAAAAGzBQIAAAABAgAAAG4AIDsAAJsMACADAAAAbgAgOwAAmwwAIDwAAJkMACABNAAAgRAAMAIAAABuACA0AACZDAAgAgAAAJcMACA0AACYDAAgDMcEAACWDAAwyAQAAJcMABDJBAAAlgwAMNgEAQDSBwAh2QQBANIHACHbBEAA1QcAIdwEQADVBwAh4wQAANMHACDsBAEA0gcAIacFAQD-BwAhsgUBANIHACGzBQIAvQgAIQzHBAAAlgwAMMgEAACXDAAQyQQAAJYMADDYBAEA0gcAIdkEAQDSBwAh2wRAANUHACHcBEAA1QcAIeMEAADTBwAg7AQBANIHACGnBQEA_gcAIbIFAQDSBwAhswUCAL0IACEI2QQBAP4IACHbBEAAhQkAIdwEQACFCQAh4wSAAAAAAewEAQD-CAAhpwUBAI8JACGyBQEA_ggAIbMFAgCJCgAhCRcAAJoMACDZBAEA_ggAIdsEQACFCQAh3ARAAIUJACHjBIAAAAAB7AQBAP4IACGnBQEAjwkAIbIFAQD-CAAhswUCAIkKACEFOwAA_A8AIDwAAP8PACC-BQAA_Q8AIL8FAAD-DwAgxAUAAA8AIAkXAACcDAAg2QQBAAAAAdsEQAAAAAHcBEAAAAAB4wSAAAAAAewEAQAAAAGnBQEAAAABsgUBAAAAAbMFAgAAAAEDOwAA_A8AIL4FAAD9DwAgxAUAAA8AIAjKBAEAAAAB2QQBAAAAAdsEQAAAAAHcBEAAAAAB4wSAAAAAAfEEgAAAAAHyBEAAAAAB8wRAAAAAAQIAAABqACA7AACoDAAgAwAAAGoAIDsAAKgMACA8AACnDAAgATQAAPsPADAOBwAAiggAIMcEAAC_CAAwyAQAAGgAEMkEAAC_CAAwygQBAAAAAdgEAQDSBwAh2QQBANIHACHbBEAA1QcAIdwEQADVBwAh4wQAANMHACDxBAAA0wcAIPIEQAD_BwAh8wRAAP8HACG3BQAAvggAIAIAAABqACA0AACnDAAgAgAAAKUMACA0AACmDAAgDMcEAACkDAAwyAQAAKUMABDJBAAApAwAMMoEAQDSBwAh2AQBANIHACHZBAEA0gcAIdsEQADVBwAh3ARAANUHACHjBAAA0wcAIPEEAADTBwAg8gRAAP8HACHzBEAA_wcAIQzHBAAApAwAMMgEAAClDAAQyQQAAKQMADDKBAEA0gcAIdgEAQDSBwAh2QQBANIHACHbBEAA1QcAIdwEQADVBwAh4wQAANMHACDxBAAA0wcAIPIEQAD_BwAh8wRAAP8HACEIygQBAP4IACHZBAEA_ggAIdsEQACFCQAh3ARAAIUJACHjBIAAAAAB8QSAAAAAAfIEQADdCQAh8wRAAN0JACEIygQBAP4IACHZBAEA_ggAIdsEQACFCQAh3ARAAIUJACHjBIAAAAAB8QSAAAAAAfIEQADdCQAh8wRAAN0JACEIygQBAAAAAdkEAQAAAAHbBEAAAAAB3ARAAAAAAeMEgAAAAAHxBIAAAAAB8gRAAAAAAfMEQAAAAAEJDoAAAAABFAAAuAsAIBcAAM4KACDKBAEAAAAB2QQBAAAAAdsEQAAAAAHcBEAAAAAB4wSAAAAAAewEAQAAAAECAAAAYgAgOwAAtwwAIAMAAABiACA7AAC3DAAgPAAAsAwAIAE0AAD6DwAwAgAAAGIAIDQAALAMACACAAAAxwoAIDQAAK8MACAHDoAAAAABygQBAP4IACHZBAEAjwkAIdsEQACFCQAh3ARAAIUJACHjBIAAAAAB7AQBAI8JACEJDoAAAAABFAAAsQwAIBcAAMsKACDKBAEA_ggAIdkEAQCPCQAh2wRAAIUJACHcBEAAhQkAIeMEgAAAAAHsBAEAjwkAIQo7AAC5CwAwPAAAswwAML4FAAC6CwAwvwUAALIMADDBBQAAgwoAMMIFAACDCgAwwwUAAIMKADDEBQAAgwoAMMUFAAC0DAAwxgUAAIYKADADAAAACwAgOwAAuwsAIDwAALYMACACAAAACwAgNAAAtgwAIAIAAACHCgAgNAAAtQwAIAfKBAEA_ggAIdsEQACFCQAh3ARAAIUJACHjBIAAAAABqQUBAP4IACG0BQIAiQoAIbUFAgCJCgAhCwQAAIsKACAVAACOCgAgHwAA-woAICgAAIwKACDKBAEA_ggAIdsEQACFCQAh3ARAAIUJACHjBIAAAAABqQUBAP4IACG0BQIAiQoAIbUFAgCJCgAhCQ6AAAAAARQAALgLACAXAADOCgAgygQBAAAAAdkEAQAAAAHbBEAAAAAB3ARAAAAAAeMEgAAAAAHsBAEAAAABCxQAAMELACAXAACICwAgHgAAiQsAIMoEAQAAAAHZBAEAAAAB2wRAAAAAAdwEQAAAAAHjBIAAAAAB5QQAAAD5BALsBAEAAAAB8QSAAAAAAQIAAABQACA7AADADAAgAwAAAFAAIDsAAMAMACA8AAC_DAAgATQAAPkPADACAAAAUAAgNAAAvwwAIAIAAACDCwAgNAAAvgwAIAjKBAEA_ggAIdkEAQCPCQAh2wRAAIUJACHcBEAAhQkAIeMEgAAAAAHlBAAA-wn5BCLsBAEAjwkAIfEEgAAAAAELFAAA_wkAIBcAAP0JACAeAAD-CQAgygQBAP4IACHZBAEAjwkAIdsEQACFCQAh3ARAAIUJACHjBIAAAAAB5QQAAPsJ-QQi7AQBAI8JACHxBIAAAAABCxQAAMELACAXAACICwAgHgAAiQsAIMoEAQAAAAHZBAEAAAAB2wRAAAAAAdwEQAAAAAHjBIAAAAAB5QQAAAD5BALsBAEAAAAB8QSAAAAAAQwOgAAAAAEXAADcDAAgGQAAyAsAIBoAAMkLACDKBAEAAAAB2QQBAAAAAdsEQAAAAAHcBEAAAAAB4wSAAAAAAewEAQAAAAH7BAEAAAAB_AQBAAAAAQIAAAA-ACA7AADbDAAgAwAAAD4AIDsAANsMACA8AADKDAAgATQAAPgPADACAAAAPgAgNAAAygwAIAIAAADIDAAgNAAAyQwAIA0OAADTBwAgxwQAAMcMADDIBAAAyAwAEMkEAADHDAAwygQBANIHACHYBAEA_gcAIdkEAQD-BwAh2wRAANUHACHcBEAA1QcAIeMEAADTBwAg7AQBAP4HACH7BAEA_gcAIfwEAQD-BwAhDQ4AANMHACDHBAAAxwwAMMgEAADIDAAQyQQAAMcMADDKBAEA0gcAIdgEAQD-BwAh2QQBAP4HACHbBEAA1QcAIdwEQADVBwAh4wQAANMHACDsBAEA_gcAIfsEAQD-BwAh_AQBAP4HACEJDoAAAAABygQBAP4IACHZBAEAjwkAIdsEQACFCQAh3ARAAIUJACHjBIAAAAAB7AQBAI8JACH7BAEAjwkAIfwEAQCPCQAhDA6AAAAAARcAAMsMACAZAADMDAAgGgAAzQwAIMoEAQD-CAAh2QQBAI8JACHbBEAAhQkAIdwEQACFCQAh4wSAAAAAAewEAQCPCQAh-wQBAI8JACH8BAEAjwkAIQc7AADuDwAgPAAA9g8AIL4FAADvDwAgvwUAAPUPACDCBQAADQAgwwUAAA0AIMQFAAAPACALOwAAzwsAMDwAANYMADC-BQAA0AsAML8FAADVDAAwwAUAANELACDBBQAAogsAMMIFAACiCwAwwwUAAKILADDEBQAAogsAMMUFAADXDAAwxgUAAPsLADALOwAAygsAMDwAAM8MADC-BQAAywsAML8FAADODAAwwAUAAMwLACDBBQAAzQsAMMIFAADNCwAwwwUAAM0LADDEBQAAzQsAMMUFAADQDAAwxgUAANEMADADAAAASgAgOwAAzgsAIDwAANQMACACAAAASgAgNAAA1AwAIAIAAADSDAAgNAAA0wwAIAcOAADTBwAgxwQAANEMADDIBAAA0gwAEMkEAADRDAAwygQBANIHACHbBEAA1QcAIfkEAQDSBwAhBw4AANMHACDHBAAA0QwAMMgEAADSDAAQyQQAANEMADDKBAEA0gcAIdsEQADVBwAh-QQBANIHACEDDoAAAAABygQBAP4IACHbBEAAhQkAIQMOgAAAAAHKBAEA_ggAIdsEQACFCQAhAwAAAEQAIDsAANILACA8AADZDAAgAgAAAEQAIDQAANkMACACAAAA_AsAIDQAANgMACAEygQBAP4IACHYBAEAjwkAIdsEQACFCQAh7AQBAP4IACEGBwAA2gwAIBcAAP8LACDKBAEA_ggAIdgEAQCPCQAh2wRAAIUJACHsBAEA_ggAIQc7AADwDwAgPAAA8w8AIL4FAADxDwAgvwUAAPIPACDCBQAAEQAgwwUAABEAIMQFAAATACAMDoAAAAABFwAA3AwAIBkAAMgLACAaAADJCwAgygQBAAAAAdkEAQAAAAHbBEAAAAAB3ARAAAAAAeMEgAAAAAHsBAEAAAAB-wQBAAAAAfwEAQAAAAEDOwAA7g8AIL4FAADvDwAgxAUAAA8AIAsKAADrDAAgG4AAAAAB5QQAAAD_BAL2BEAAAAAB9wRAAAAAAf0EAQAAAAH_BAIAAAABgAUCAAAAAYEFgAAAAAGCBYAAAAABgwWAAAAAAQIAAAAbACA7AADqDAAgAwAAABsAIDsAAOoMACA8AADoDAAgATQAAO0PADARBwAAiggAIAoAANkIACAbAAD9BwAgxwQAAOQIADDIBAAAGQAQyQQAAOQIADDYBAEA0gcAIeUEAADlCP8EIvYEQAD_BwAh9wRAAP8HACH9BAEA0gcAIf8EAgDmCAAhgAUCAOYIACGBBQAA_QcAIIIFAADTBwAggwUAANMHACC7BQAA4wgAIAIAAAAbACA0AADoDAAgAgAAAOUMACA0AADmDAAgDhsAAP0HACDHBAAA5AwAMMgEAADlDAAQyQQAAOQMADDYBAEA0gcAIeUEAADlCP8EIvYEQAD_BwAh9wRAAP8HACH9BAEA0gcAIf8EAgDmCAAhgAUCAOYIACGBBQAA_QcAIIIFAADTBwAggwUAANMHACAOGwAA_QcAIMcEAADkDAAwyAQAAOUMABDJBAAA5AwAMNgEAQDSBwAh5QQAAOUI_wQi9gRAAP8HACH3BEAA_wcAIf0EAQDSBwAh_wQCAOYIACGABQIA5ggAIYEFAAD9BwAgggUAANMHACCDBQAA0wcAIAobgAAAAAHlBAAA5wz_BCL2BEAA3QkAIfcEQADdCQAh_QQBAP4IACH_BAIA2goAIYAFAgDaCgAhgQWAAAAAAYIFgAAAAAGDBYAAAAABAcEFAAAA_wQCCwoAAOkMACAbgAAAAAHlBAAA5wz_BCL2BEAA3QkAIfcEQADdCQAh_QQBAP4IACH_BAIA2goAIYAFAgDaCgAhgQWAAAAAAYIFgAAAAAGDBYAAAAABBTsAAOgPACA8AADrDwAgvgUAAOkPACC_BQAA6g8AIMQFAAD7AwAgCwoAAOsMACAbgAAAAAHlBAAAAP8EAvYEQAAAAAH3BEAAAAAB_QQBAAAAAf8EAgAAAAGABQIAAAABgQWAAAAAAYIFgAAAAAGDBYAAAAABAzsAAOgPACC-BQAA6Q8AIMQFAAD7AwAgBOUEAAAApwUCggWAAAAAAacFAQAAAAGoBUAAAAABAgAAANICACA7AADsDAAgAwAAABcAIDsAAOwMACA8AADwDAAgBgAAABcAIDQAAPAMACDlBAAA8QynBSKCBYAAAAABpwUBAI8JACGoBUAAhQkAIQTlBAAA8QynBSKCBYAAAAABpwUBAI8JACGoBUAAhQkAIQHBBQAAAKcFAiEGAACEDQAgCAAAhQ0AIAkAAIYNACAUAACPDQAgFQAAkg0AIBkAAI4NACAbAACHDQAgHwAAiA0AICAAAIkNACAhAACKDQAgIgAAiw0AICMAAIwNACAlAACNDQAgJgAAkA0AICcAAJENACDKBAEAAAAB5QQAAACYBQL_BAIAAAABggWAAAAAAYMFgAAAAAGWBQEAAAABmQUAAACZBQKaBQEAAAABnAUCAAAAAZ0FAgAAAAGeBQIAAAABnwUCAAAAAaAFAgAAAAGhBYAAAAABogWAAAAAAaMFIAAAAAGkBQEAAAABpQVAAAAAAQIAAAATACA7AACDDQAgAwAAABMAIDsAAIMNACA8AAD5DAAgATQAAOcPADACAAAAEwAgNAAA-QwAIAIAAADWCgAgNAAA-AwAIBLKBAEA_ggAIeUEAADYCpgFIv8EAgDaCgAhggWAAAAAAYMFgAAAAAGWBQEA_ggAIZkFAADZCpkFIpoFAQD-CAAhnAUCANoKACGdBQIA2goAIZ4FAgDaCgAhnwUCANoKACGgBQIA2goAIaEFgAAAAAGiBYAAAAABowUgAP8IACGkBQEAjwkAIaUFQADdCQAhIQYAAN0KACAIAADeCgAgCQAA3woAIBQAAPoMACAVAADqCgAgGQAA5woAIBsAAOAKACAfAADhCgAgIAAA4goAICEAAOMKACAiAADkCgAgIwAA5QoAICUAAOYKACAmAADoCgAgJwAA6QoAIMoEAQD-CAAh5QQAANgKmAUi_wQCANoKACGCBYAAAAABgwWAAAAAAZYFAQD-CAAhmQUAANkKmQUimgUBAP4IACGcBQIA2goAIZ0FAgDaCgAhngUCANoKACGfBQIA2goAIaAFAgDaCgAhoQWAAAAAAaIFgAAAAAGjBSAA_wgAIaQFAQCPCQAhpQVAAN0JACEKOwAA-wwAMDwAAP4MADC-BQAA_AwAML8FAAD9DAAwwQUAAIMKADDCBQAAgwoAMMMFAACDCgAwxAUAAIMKADDFBQAA_wwAMMYFAACGCgAwCwQAAJALACAVAAC8CwAgHwAAkgsAICAAAJMLACDKBAEAAAAB2wRAAAAAAdwEQAAAAAHjBIAAAAABqQUBAAAAAbQFAgAAAAG1BQIAAAABAgAAAAsAIDsAAIINACADAAAACwAgOwAAgg0AIDwAAIENACACAAAACwAgNAAAgQ0AIAIAAACHCgAgNAAAgA0AIAfKBAEA_ggAIdsEQACFCQAh3ARAAIUJACHjBIAAAAABqQUBAP4IACG0BQIAiQoAIbUFAgCJCgAhCwQAAIsKACAVAACOCgAgHwAA-woAICAAAI0KACDKBAEA_ggAIdsEQACFCQAh3ARAAIUJACHjBIAAAAABqQUBAP4IACG0BQIAiQoAIbUFAgCJCgAhCwQAAJALACAVAAC8CwAgHwAAkgsAICAAAJMLACDKBAEAAAAB2wRAAAAAAdwEQAAAAAHjBIAAAAABqQUBAAAAAbQFAgAAAAG1BQIAAAABIQYAAIQNACAIAACFDQAgCQAAhg0AIBQAAI8NACAVAACSDQAgGQAAjg0AIBsAAIcNACAfAACIDQAgIAAAiQ0AICEAAIoNACAiAACLDQAgIwAAjA0AICUAAI0NACAmAACQDQAgJwAAkQ0AIMoEAQAAAAHlBAAAAJgFAv8EAgAAAAGCBYAAAAABgwWAAAAAAZYFAQAAAAGZBQAAAJkFApoFAQAAAAGcBQIAAAABnQUCAAAAAZ4FAgAAAAGfBQIAAAABoAUCAAAAAaEFgAAAAAGiBYAAAAABowUgAAAAAaQFAQAAAAGlBUAAAAABBDsAAPIMADC-BQAA8wwAMMAFAAD1DAAgxAUAANIKADADOwAA7AwAIL4FAADtDAAgxAUAANICACAEOwAA3QwAML4FAADeDAAwwAUAAOAMACDEBQAA4QwAMAQ7AADBDAAwvgUAAMIMADDABQAAxAwAIMQFAADFCwAwBDsAALgMADC-BQAAuQwAMMAFAAC7DAAgxAUAAP8KADAEOwAAqQwAML4FAACqDAAwwAUAAKwMACDEBQAAwwoAMAQ7AACdDAAwvgUAAJ4MADDABQAAoAwAIMQFAAChDAAwBDsAAJAMADC-BQAAkQwAMMAFAACTDAAgxAUAALELADADOwAAiwwAIL4FAACMDAAgxAUAALEDACAEOwAAggwAML4FAACDDAAwwAUAAIUMACDEBQAApAkAMAQ7AAD1CwAwvgUAAPYLADDABQAA-AsAIMQFAACiCwAwAzsAAPsMADC-BQAA_AwAMMQFAACDCgAwBDsAAOcLADC-BQAA6AsAMMAFAADqCwAgxAUAAOsLADAEOwAA2wsAML4FAADcCwAwwAUAAN4LACDEBQAA3wsAMAQ7AADrCgAwvgUAAOwKADDABQAA7goAIMQFAACSCgAwIgUAAJQNACAGAACEDQAgCAAAhQ0AIAkAAIYNACAVAACSDQAgGQAAjg0AIBsAAIcNACAfAACIDQAgIAAAiQ0AICEAAIoNACAiAACLDQAgIwAAjA0AICUAAI0NACAmAACQDQAgJwAAkQ0AIMoEAQAAAAHlBAAAAJgFAv8EAgAAAAGCBYAAAAABgwWAAAAAAZYFAQAAAAGZBQAAAJkFApoFAQAAAAGbBQEAAAABnAUCAAAAAZ0FAgAAAAGeBQIAAAABnwUCAAAAAaAFAgAAAAGhBYAAAAABogWAAAAAAaMFIAAAAAGkBQEAAAABpQVAAAAAAQM7AADlDwAgvgUAAOYPACDEBQAAEwAgAwAAAA8AIDsAAJcLACA8AACbDQAgAgAAAA8AIDQAAJsNACACAAAAmQ0AIDQAAJoNACAIxwQAAJgNADDIBAAAmQ0AEMkEAACYDQAwygQBANIHACHbBEAA1QcAIdwEQADVBwAh4wQAANMHACD6BCAAqwgAIQjHBAAAmA0AMMgEAACZDQAQyQQAAJgNADDKBAEA0gcAIdsEQADVBwAh3ARAANUHACHjBAAA0wcAIPoEIACrCAAhBcoEAQD-CAAh2wRAAIUJACHcBEAAhQkAIeMEgAAAAAH6BCAA_wgAIQwDAACcDQAgGwAAnQ0AIB8AAJ4NACAgAACfDQAgIgAAoA0AICkAAKENACAqAACiDQAgygQBAP4IACHbBEAAhQkAIdwEQACFCQAh4wSAAAAAAfoEIAD_CAAhCzsAANQLADA8AADKDQAwvgUAANULADC_BQAAyQ0AMMAFAADWCwAgwQUAANcLADDCBQAA1wsAMMMFAADXCwAwxAUAANcLADDFBQAAyw0AMMYFAADMDQAwCzsAAMILADA8AADEDQAwvgUAAMMLADC_BQAAww0AMMAFAADECwAgwQUAAMULADDCBQAAxQsAMMMFAADFCwAwxAUAAMULADDFBQAAxQ0AMMYFAADHDAAwCzsAAL0LADA8AAC_DQAwvgUAAL4LADC_BQAAvg0AMMAFAAC_CwAgwQUAAP8KADDCBQAA_woAMMMFAAD_CgAwxAUAAP8KADDFBQAAwA0AMMYFAACCCwAwCzsAALQLADA8AAC6DQAwvgUAALULADC_BQAAuQ0AMMAFAAC2CwAgwQUAAMMKADDCBQAAwwoAMMMFAADDCgAwxAUAAMMKADDFBQAAuw0AMMYFAADGCgAwCzsAAK4LADA8AAC0DQAwvgUAAK8LADC_BQAAsw0AMMAFAACwCwAgwQUAALELADDCBQAAsQsAMMMFAACxCwAwxAUAALELADDFBQAAtQ0AMMYFAACWDAAwCzsAAKYLADA8AACpDQAwvgUAAKcLADC_BQAAqA0AMMAFAACoCwAgwQUAAKkLADDCBQAAqQsAMMMFAACpCwAwxAUAAKkLADDFBQAAqg0AMMYFAACrDQAwCzsAAJ8LADA8AACkDQAwvgUAAKALADC_BQAAow0AMMAFAAChCwAgwQUAAKILADDCBQAAogsAMMMFAACiCwAwxAUAAKILADDFBQAApQ0AMMYFAAD7CwAwAwAAAEQAIDsAAKMLACA8AACnDQAgAgAAAEQAIDQAAKcNACACAAAA_AsAIDQAAKYNACAEygQBAP4IACHYBAEAjwkAIdsEQACFCQAh-QQBAI8JACEGBwAA2gwAIBgAAIAMACDKBAEA_ggAIdgEAQCPCQAh2wRAAIUJACH5BAEAjwkAIQMAAAABACA7AACqCwAgPAAArg0AIAIAAAABACA0AACuDQAgAgAAAKwNACA0AACtDQAgCccEAACrDQAwyAQAAKwNABDJBAAAqw0AMMoEAQDSBwAh2wRAANUHACHcBEAA1QcAIeMEAADTBwAg7AQBANIHACGTBQEA0gcAIQnHBAAAqw0AMMgEAACsDQAQyQQAAKsNADDKBAEA0gcAIdsEQADVBwAh3ARAANUHACHjBAAA0wcAIOwEAQDSBwAhkwUBANIHACEFygQBAP4IACHbBEAAhQkAIdwEQACFCQAh4wSAAAAAAZMFAQD-CAAhBisAAK8NACDKBAEA_ggAIdsEQACFCQAh3ARAAIUJACHjBIAAAAABkwUBAP4IACEHOwAArAsAIDwAALENACC-BQAArQsAIL8FAACwDQAgwgUAAAMAIMMFAAADACDEBQAApAEAIAMAAAADACA7AACsCwAgPAAAsg0AIA4AAAADACALAACTCQAgKwAAkAkAIC4AAJIJACA0AACyDQAgygQBAP4IACHbBEAAhQkAIdwEQACFCQAh4wSAAAAAAeUEAACOCeUEIuYEIAD_CAAh5wQBAI8JACHoBAEA_ggAIekEAQD-CAAhDAsAAJMJACArAACQCQAgLgAAkgkAIMoEAQD-CAAh2wRAAIUJACHcBEAAhQkAIeMEgAAAAAHlBAAAjgnlBCLmBCAA_wgAIecEAQCPCQAh6AQBAP4IACHpBAEA_ggAIQMAAABuACA7AACyCwAgPAAAtw0AIAIAAABuACA0AAC3DQAgAgAAAJcMACA0AAC2DQAgCNgEAQD-CAAh2QQBAP4IACHbBEAAhQkAIdwEQACFCQAh4wSAAAAAAacFAQCPCQAhsgUBAP4IACGzBQIAiQoAIQkHAAC4DQAg2AQBAP4IACHZBAEA_ggAIdsEQACFCQAh3ARAAIUJACHjBIAAAAABpwUBAI8JACGyBQEA_ggAIbMFAgCJCgAhBTsAAOAPACA8AADjDwAgvgUAAOEPACC_BQAA4g8AIMQFAAATACADAAAAYgAgOwAAtwsAIDwAAL0NACACAAAAYgAgNAAAvQ0AIAIAAADHCgAgNAAAvA0AIAcOgAAAAAHKBAEA_ggAIdgEAQCPCQAh2QQBAI8JACHbBEAAhQkAIdwEQACFCQAh4wSAAAAAAQkHAADKCgAgDoAAAAABFAAAsQwAIMoEAQD-CAAh2AQBAI8JACHZBAEAjwkAIdsEQACFCQAh3ARAAIUJACHjBIAAAAABAwAAAFAAIDsAAMALACA8AADCDQAgAgAAAFAAIDQAAMINACACAAAAgwsAIDQAAMENACAIygQBAP4IACHYBAEAjwkAIdkEAQCPCQAh2wRAAIUJACHcBEAAhQkAIeMEgAAAAAHlBAAA-wn5BCLxBIAAAAABCwcAAPwJACAUAAD_CQAgHgAA_gkAIMoEAQD-CAAh2AQBAI8JACHZBAEAjwkAIdsEQACFCQAh3ARAAIUJACHjBIAAAAAB5QQAAPsJ-QQi8QSAAAAAAQMAAAA-ACA7AADGCwAgPAAAxw0AIAIAAAA-ACA0AADHDQAgAgAAAMgMACA0AADGDQAgCQ6AAAAAAcoEAQD-CAAh2AQBAI8JACHZBAEAjwkAIdsEQACFCQAh3ARAAIUJACHjBIAAAAAB-wQBAI8JACH8BAEAjwkAIQwHAADIDQAgDoAAAAABGQAAzAwAIBoAAM0MACDKBAEA_ggAIdgEAQCPCQAh2QQBAI8JACHbBEAAhQkAIdwEQACFCQAh4wSAAAAAAfsEAQCPCQAh_AQBAI8JACEHOwAA2w8AIDwAAN4PACC-BQAA3A8AIL8FAADdDwAgwgUAABEAIMMFAAARACDEBQAAEwAgAwAAAAcAIDsAANgLACA8AADPDQAgAgAAAAcAIDQAAM8NACACAAAAzQ0AIDQAAM4NACAHxwQAAMwNADDIBAAAzQ0AEMkEAADMDQAwygQBANIHACHbBEAA1QcAIesEAQDSBwAh7AQBANIHACEHxwQAAMwNADDIBAAAzQ0AEMkEAADMDQAwygQBANIHACHbBEAA1QcAIesEAQDSBwAh7AQBANIHACEDygQBAP4IACHbBEAAhQkAIesEAQD-CAAhBRoAALkJACAsAAC6CQAgygQBAP4IACHbBEAAhQkAIesEAQD-CAAhCwQAAJALACAVAAC8CwAgIAAAkwsAICgAAJELACDKBAEAAAAB2wRAAAAAAdwEQAAAAAHjBIAAAAABqQUBAAAAAbQFAgAAAAG1BQIAAAABAwAAAFYAIDsAAI4LACA8AADXDQAgAgAAAFYAIDQAANcNACACAAAA1Q0AIDQAANYNACAHxwQAANQNADDIBAAA1Q0AEMkEAADUDQAwygQBANIHACH1BAEA0gcAIfYEQADVBwAh9wRAAP8HACEHxwQAANQNADDIBAAA1Q0AEMkEAADUDQAwygQBANIHACH1BAEA0gcAIfYEQADVBwAh9wRAAP8HACEDygQBAP4IACH2BEAAhQkAIfcEQADdCQAhBAsAAOkJACDKBAEA_ggAIfYEQACFCQAh9wRAAN0JACEAAAAAAAAKOwAA3w0AMDwAAOINADC-BQAA4A0AML8FAADhDQAwwQUAAIMKADDCBQAAgwoAMMMFAACDCgAwxAUAAIMKADDFBQAA4w0AMMYFAACGCgAwCxUAALwLACAfAACSCwAgIAAAkwsAICgAAJELACDKBAEAAAAB2wRAAAAAAdwEQAAAAAHjBIAAAAABqQUBAAAAAbQFAgAAAAG1BQIAAAABAgAAAAsAIDsAAOYNACADAAAACwAgOwAA5g0AIDwAAOUNACACAAAACwAgNAAA5Q0AIAIAAACHCgAgNAAA5A0AIAfKBAEA_ggAIdsEQACFCQAh3ARAAIUJACHjBIAAAAABqQUBAP4IACG0BQIAiQoAIbUFAgCJCgAhCxUAAI4KACAfAAD7CgAgIAAAjQoAICgAAIwKACDKBAEA_ggAIdsEQACFCQAh3ARAAIUJACHjBIAAAAABqQUBAP4IACG0BQIAiQoAIbUFAgCJCgAhCxUAALwLACAfAACSCwAgIAAAkwsAICgAAJELACDKBAEAAAAB2wRAAAAAAdwEQAAAAAHjBIAAAAABqQUBAAAAAbQFAgAAAAG1BQIAAAABAzsAAN8NADC-BQAA4A0AMMQFAACDCgAwAAAABTsAANYPACA8AADZDwAgvgUAANcPACC_BQAA2A8AIMQFAAA-ACADOwAA1g8AIL4FAADXDwAgxAUAAD4AIAAAAAAAAAAAAAc7AADRDwAgPAAA1A8AIL4FAADSDwAgvwUAANMPACDCBQAAEQAgwwUAABEAIMQFAAATACADOwAA0Q8AIL4FAADSDwAgxAUAABMAIAAAAAAABTsAAMwPACA8AADPDwAgvgUAAM0PACC_BQAAzg8AIMQFAAATACADOwAAzA8AIL4FAADNDwAgxAUAABMAIAAAAAHBBQAAAIYFAgU7AADHDwAgPAAAyg8AIL4FAADIDwAgvwUAAMkPACDEBQAA-wMAIAM7AADHDwAgvgUAAMgPACDEBQAA-wMAIAAAAAHBBQAAAIkFAgHBBQAAAIoFAgs7AACsDgAwPAAAsA4AML4FAACtDgAwvwUAAK4OADDABQAArw4AIMEFAADhDAAwwgUAAOEMADDDBQAA4QwAMMQFAADhDAAwxQUAALEOADDGBQAA5AwAMAs7AACjDgAwPAAApw4AML4FAACkDgAwvwUAAKUOADDABQAApg4AIMEFAADrCwAwwgUAAOsLADDDBQAA6wsAMMQFAADrCwAwxQUAAKgOADDGBQAA7gsAMAs7AACaDgAwPAAAng4AML4FAACbDgAwvwUAAJwOADDABQAAnQ4AIMEFAACSCgAwwgUAAJIKADDDBQAAkgoAMMQFAACSCgAwxQUAAJ8OADDGBQAAlQoAMAs7AACODgAwPAAAkw4AML4FAACPDgAwvwUAAJAOADDABQAAkQ4AIMEFAACSDgAwwgUAAJIOADDDBQAAkg4AMMQFAACSDgAwxQUAAJQOADDGBQAAlQ4AMAXKBAEAAAAB2wRAAAAAAYQFAQAAAAGGBQAAAIYFAocFAQAAAAECAAAANgAgOwAAmQ4AIAMAAAA2ACA7AACZDgAgPAAAmA4AIAE0AADGDwAwCwoAANkIACDHBAAA1wgAMMgEAAA0ABDJBAAA1wgAMMoEAQAAAAHbBEAA1QcAIf0EAQDSBwAhhAUBANIHACGGBQAA2AiGBSKHBQEA_gcAIbkFAADWCAAgAgAAADYAIDQAAJgOACACAAAAlg4AIDQAAJcOACAJxwQAAJUOADDIBAAAlg4AEMkEAACVDgAwygQBANIHACHbBEAA1QcAIf0EAQDSBwAhhAUBANIHACGGBQAA2AiGBSKHBQEA_gcAIQnHBAAAlQ4AMMgEAACWDgAQyQQAAJUOADDKBAEA0gcAIdsEQADVBwAh_QQBANIHACGEBQEA0gcAIYYFAADYCIYFIocFAQD-BwAhBcoEAQD-CAAh2wRAAIUJACGEBQEA_ggAIYYFAACCDoYFIocFAQCPCQAhBcoEAQD-CAAh2wRAAIUJACGEBQEA_ggAIYYFAACCDoYFIocFAQCPCQAhBcoEAQAAAAHbBEAAAAABhAUBAAAAAYYFAAAAhgUChwUBAAAAAQ0HAAC9CgAgDgAAugoAIA8AALsKACASAAC-CgAgEwAAvwoAIBQAANoLACDKBAEAAAAB2AQBAAAAAdsEQAAAAAGuBQEAAAABrwUBAAAAAbAFgAAAAAGxBYAAAAABAgAAACUAIDsAAKIOACADAAAAJQAgOwAAog4AIDwAAKEOACABNAAAxQ8AMAIAAAAlACA0AAChDgAgAgAAAJYKACA0AACgDgAgB8oEAQD-CAAh2AQBAP4IACHbBEAAhQkAIa4FAQD-CAAhrwUBAP4IACGwBYAAAAABsQWAAAAAAQ0HAACcCgAgDgAAmQoAIA8AAJoKACASAACdCgAgEwAAngoAIBQAAPMKACDKBAEA_ggAIdgEAQD-CAAh2wRAAIUJACGuBQEA_ggAIa8FAQD-CAAhsAWAAAAAAbEFgAAAAAENBwAAvQoAIA4AALoKACAPAAC7CgAgEgAAvgoAIBMAAL8KACAUAADaCwAgygQBAAAAAdgEAQAAAAHbBEAAAAABrgUBAAAAAa8FAQAAAAGwBYAAAAABsQWAAAAAAQUHAAD3DQAgDgEAAAABygQBAAAAAcwEIAAAAAHYBAEAAAABAgAAACAAIDsAAKsOACADAAAAIAAgOwAAqw4AIDwAAKoOACABNAAAxA8AMAIAAAAgACA0AACqDgAgAgAAAO8LACA0AACpDgAgBA4BAP4IACHKBAEA_ggAIcwEIAD_CAAh2AQBAI8JACEFBwAA9g0AIA4BAP4IACHKBAEA_ggAIcwEIAD_CAAh2AQBAI8JACEFBwAA9w0AIA4BAAAAAcoEAQAAAAHMBCAAAAAB2AQBAAAAAQsHAAD-DQAgG4AAAAAB2AQBAAAAAeUEAAAA_wQC9gRAAAAAAfcEQAAAAAH_BAIAAAABgAUCAAAAAYEFgAAAAAGCBYAAAAABgwWAAAAAAQIAAAAbACA7AAC0DgAgAwAAABsAIDsAALQOACA8AACzDgAgATQAAMMPADACAAAAGwAgNAAAsw4AIAIAAADlDAAgNAAAsg4AIAobgAAAAAHYBAEA_ggAIeUEAADnDP8EIvYEQADdCQAh9wRAAN0JACH_BAIA2goAIYAFAgDaCgAhgQWAAAAAAYIFgAAAAAGDBYAAAAABCwcAAP0NACAbgAAAAAHYBAEA_ggAIeUEAADnDP8EIvYEQADdCQAh9wRAAN0JACH_BAIA2goAIYAFAgDaCgAhgQWAAAAAAYIFgAAAAAGDBYAAAAABCwcAAP4NACAbgAAAAAHYBAEAAAAB5QQAAAD_BAL2BEAAAAAB9wRAAAAAAf8EAgAAAAGABQIAAAABgQWAAAAAAYIFgAAAAAGDBYAAAAABBDsAAKwOADC-BQAArQ4AMMAFAACvDgAgxAUAAOEMADAEOwAAow4AML4FAACkDgAwwAUAAKYOACDEBQAA6wsAMAQ7AACaDgAwvgUAAJsOADDABQAAnQ4AIMQFAACSCgAwBDsAAI4OADC-BQAAjw4AMMAFAACRDgAgxAUAAJIOADAAAAAAAAAAAAAAAAAABTsAAL4PACA8AADBDwAgvgUAAL8PACC_BQAAwA8AIMQFAAATACADOwAAvg8AIL4FAAC_DwAgxAUAABMAIB0FAADIDgAgBgAAnw8AIAgAAKAPACAJAAC5DgAgFAAAkg8AIBUAALsOACAZAACYDwAgGwAAoQ8AIB8AAKIPACAgAACjDwAgIQAApA8AICIAAKUPACAjAACmDwAgJQAAjw8AICYAALoOACAnAACnDwAg_wQAAIoJACCCBQAAigkAIIMFAACKCQAgmwUAAIoJACCcBQAAigkAIJ0FAACKCQAgngUAAIoJACCfBQAAigkAIKAFAACKCQAgoQUAAIoJACCiBQAAigkAIKQFAACKCQAgpQUAAIoJACAAAAAFOwAAuQ8AIDwAALwPACC-BQAAug8AIL8FAAC7DwAgxAUAABMAIAM7AAC5DwAgvgUAALoPACDEBQAAEwAgAAAAAAAAAAAAAAAFOwAAtA8AIDwAALcPACC-BQAAtQ8AIL8FAAC2DwAgxAUAABMAIAM7AAC0DwAgvgUAALUPACDEBQAAEwAgAAAACzsAAN8OADA8AADjDgAwvgUAAOAOADC_BQAA4Q4AMMAFAADiDgAgwQUAAJIKADDCBQAAkgoAMMMFAACSCgAwxAUAAJIKADDFBQAA5A4AMMYFAACVCgAwDQcAAL0KACAKAAC8CgAgDwAAuwoAIBIAAL4KACATAAC_CgAgFAAA2gsAIMoEAQAAAAHYBAEAAAAB2wRAAAAAAf0EAQAAAAGvBQEAAAABsAWAAAAAAbEFgAAAAAECAAAAJQAgOwAA5w4AIAMAAAAlACA7AADnDgAgPAAA5g4AIAE0AACzDwAwAgAAACUAIDQAAOYOACACAAAAlgoAIDQAAOUOACAHygQBAP4IACHYBAEA_ggAIdsEQACFCQAh_QQBAP4IACGvBQEA_ggAIbAFgAAAAAGxBYAAAAABDQcAAJwKACAKAACbCgAgDwAAmgoAIBIAAJ0KACATAACeCgAgFAAA8woAIMoEAQD-CAAh2AQBAP4IACHbBEAAhQkAIf0EAQD-CAAhrwUBAP4IACGwBYAAAAABsQWAAAAAAQ0HAAC9CgAgCgAAvAoAIA8AALsKACASAAC-CgAgEwAAvwoAIBQAANoLACDKBAEAAAAB2AQBAAAAAdsEQAAAAAH9BAEAAAABrwUBAAAAAbAFgAAAAAGxBYAAAAABBDsAAN8OADC-BQAA4A4AMMAFAADiDgAgxAUAAJIKADAAAAAAAAAAAAALOwAA8w4AMDwAAPcOADC-BQAA9A4AML8FAAD1DgAwwAUAAPYOACDBBQAAkgoAMMIFAACSCgAwwwUAAJIKADDEBQAAkgoAMMUFAAD4DgAwxgUAAJUKADANBwAAvQoAIAoAALwKACAOAAC6CgAgEgAAvgoAIBMAAL8KACAUAADaCwAgygQBAAAAAdgEAQAAAAHbBEAAAAAB_QQBAAAAAa4FAQAAAAGwBYAAAAABsQWAAAAAAQIAAAAlACA7AAD7DgAgAwAAACUAIDsAAPsOACA8AAD6DgAgATQAALIPADACAAAAJQAgNAAA-g4AIAIAAACWCgAgNAAA-Q4AIAfKBAEA_ggAIdgEAQD-CAAh2wRAAIUJACH9BAEA_ggAIa4FAQD-CAAhsAWAAAAAAbEFgAAAAAENBwAAnAoAIAoAAJsKACAOAACZCgAgEgAAnQoAIBMAAJ4KACAUAADzCgAgygQBAP4IACHYBAEA_ggAIdsEQACFCQAh_QQBAP4IACGuBQEA_ggAIbAFgAAAAAGxBYAAAAABDQcAAL0KACAKAAC8CgAgDgAAugoAIBIAAL4KACATAAC_CgAgFAAA2gsAIMoEAQAAAAHYBAEAAAAB2wRAAAAAAf0EAQAAAAGuBQEAAAABsAWAAAAAAbEFgAAAAAEEOwAA8w4AML4FAAD0DgAwwAUAAPYOACDEBQAAkgoAMAAAAAAAAAAAAAAAAAAFOwAArQ8AIDwAALAPACC-BQAArg8AIL8FAACvDwAgxAUAAA8AIAM7AACtDwAgvgUAAK4PACDEBQAADwAgBQsAAJAPACArAACNDwAgLQAAjg8AIC4AAI8PACDnBAAAigkAIAMXAACRDwAgGgAAqw8AICwAAKwPACACFwAAkQ8AICsAAIwPACAAAAgDAACoDwAgFAAAkg8AIBsAAKEPACAfAACiDwAgIAAAow8AICIAAKUPACApAACpDwAgKgAAmA8AIAADCwAAlQ8AIBwAAJQPACD3BAAAigkAIAcHAADIDgAgFAAAkg8AIBcAAJEPACAeAACWDwAg2AQAAIoJACDZBAAAigkAIOwEAACKCQAgAAAJBwAAyA4AIBcAAJEPACAZAACYDwAgGgAAmQ8AINgEAACKCQAg2QQAAIoJACDsBAAAigkAIPsEAACKCQAg_AQAAIoJACAAAAkJAAC5DgAgCwAAug4AIBUAALsOACAWAAC8DgAg9wQAAIoJACCMBQAAigkAII0FAACKCQAgjgUAAIoJACCPBQAAigkAIAcHAADIDgAgCgAAmg8AIA4AAJwPACAPAACdDwAgEgAAng8AIBMAAJ4PACAUAACSDwAgAgwAALsOACDjBAAAigkAIAEMAAC7DgAgAAADBwAAyA4AIIIFAACKCQAgpwUAAIoJACAAAAAAAAIHAADIDgAgjwUAAIoJACAAAAAAAAAMAwAAmAsAIBQAAOcNACAbAACZCwAgHwAAmgsAICAAAJsLACAiAACcCwAgKgAAngsAIMoEAQAAAAHbBEAAAAAB3ARAAAAAAeMEgAAAAAH6BCAAAAABAgAAAA8AIDsAAK0PACADAAAADQAgOwAArQ8AIDwAALEPACAOAAAADQAgAwAAnA0AIBQAAN4NACAbAACdDQAgHwAAng0AICAAAJ8NACAiAACgDQAgKgAAog0AIDQAALEPACDKBAEA_ggAIdsEQACFCQAh3ARAAIUJACHjBIAAAAAB-gQgAP8IACEMAwAAnA0AIBQAAN4NACAbAACdDQAgHwAAng0AICAAAJ8NACAiAACgDQAgKgAAog0AIMoEAQD-CAAh2wRAAIUJACHcBEAAhQkAIeMEgAAAAAH6BCAA_wgAIQfKBAEAAAAB2AQBAAAAAdsEQAAAAAH9BAEAAAABrgUBAAAAAbAFgAAAAAGxBYAAAAABB8oEAQAAAAHYBAEAAAAB2wRAAAAAAf0EAQAAAAGvBQEAAAABsAWAAAAAAbEFgAAAAAEiBQAAlA0AIAYAAIQNACAJAACGDQAgFAAAjw0AIBUAAJINACAZAACODQAgGwAAhw0AIB8AAIgNACAgAACJDQAgIQAAig0AICIAAIsNACAjAACMDQAgJQAAjQ0AICYAAJANACAnAACRDQAgygQBAAAAAeUEAAAAmAUC_wQCAAAAAYIFgAAAAAGDBYAAAAABlgUBAAAAAZkFAAAAmQUCmgUBAAAAAZsFAQAAAAGcBQIAAAABnQUCAAAAAZ4FAgAAAAGfBQIAAAABoAUCAAAAAaEFgAAAAAGiBYAAAAABowUgAAAAAaQFAQAAAAGlBUAAAAABAgAAABMAIDsAALQPACADAAAAEQAgOwAAtA8AIDwAALgPACAkAAAAEQAgBQAA3AoAIAYAAN0KACAJAADfCgAgFAAA-gwAIBUAAOoKACAZAADnCgAgGwAA4AoAIB8AAOEKACAgAADiCgAgIQAA4woAICIAAOQKACAjAADlCgAgJQAA5goAICYAAOgKACAnAADpCgAgNAAAuA8AIMoEAQD-CAAh5QQAANgKmAUi_wQCANoKACGCBYAAAAABgwWAAAAAAZYFAQD-CAAhmQUAANkKmQUimgUBAP4IACGbBQEAjwkAIZwFAgDaCgAhnQUCANoKACGeBQIA2goAIZ8FAgDaCgAhoAUCANoKACGhBYAAAAABogWAAAAAAaMFIAD_CAAhpAUBAI8JACGlBUAA3QkAISIFAADcCgAgBgAA3QoAIAkAAN8KACAUAAD6DAAgFQAA6goAIBkAAOcKACAbAADgCgAgHwAA4QoAICAAAOIKACAhAADjCgAgIgAA5AoAICMAAOUKACAlAADmCgAgJgAA6AoAICcAAOkKACDKBAEA_ggAIeUEAADYCpgFIv8EAgDaCgAhggWAAAAAAYMFgAAAAAGWBQEA_ggAIZkFAADZCpkFIpoFAQD-CAAhmwUBAI8JACGcBQIA2goAIZ0FAgDaCgAhngUCANoKACGfBQIA2goAIaAFAgDaCgAhoQWAAAAAAaIFgAAAAAGjBSAA_wgAIaQFAQCPCQAhpQVAAN0JACEiBQAAlA0AIAYAAIQNACAIAACFDQAgCQAAhg0AIBQAAI8NACAVAACSDQAgGQAAjg0AIBsAAIcNACAfAACIDQAgIAAAiQ0AICEAAIoNACAiAACLDQAgIwAAjA0AICUAAI0NACAmAACQDQAgygQBAAAAAeUEAAAAmAUC_wQCAAAAAYIFgAAAAAGDBYAAAAABlgUBAAAAAZkFAAAAmQUCmgUBAAAAAZsFAQAAAAGcBQIAAAABnQUCAAAAAZ4FAgAAAAGfBQIAAAABoAUCAAAAAaEFgAAAAAGiBYAAAAABowUgAAAAAaQFAQAAAAGlBUAAAAABAgAAABMAIDsAALkPACADAAAAEQAgOwAAuQ8AIDwAAL0PACAkAAAAEQAgBQAA3AoAIAYAAN0KACAIAADeCgAgCQAA3woAIBQAAPoMACAVAADqCgAgGQAA5woAIBsAAOAKACAfAADhCgAgIAAA4goAICEAAOMKACAiAADkCgAgIwAA5QoAICUAAOYKACAmAADoCgAgNAAAvQ8AIMoEAQD-CAAh5QQAANgKmAUi_wQCANoKACGCBYAAAAABgwWAAAAAAZYFAQD-CAAhmQUAANkKmQUimgUBAP4IACGbBQEAjwkAIZwFAgDaCgAhnQUCANoKACGeBQIA2goAIZ8FAgDaCgAhoAUCANoKACGhBYAAAAABogWAAAAAAaMFIAD_CAAhpAUBAI8JACGlBUAA3QkAISIFAADcCgAgBgAA3QoAIAgAAN4KACAJAADfCgAgFAAA-gwAIBUAAOoKACAZAADnCgAgGwAA4AoAIB8AAOEKACAgAADiCgAgIQAA4woAICIAAOQKACAjAADlCgAgJQAA5goAICYAAOgKACDKBAEA_ggAIeUEAADYCpgFIv8EAgDaCgAhggWAAAAAAYMFgAAAAAGWBQEA_ggAIZkFAADZCpkFIpoFAQD-CAAhmwUBAI8JACGcBQIA2goAIZ0FAgDaCgAhngUCANoKACGfBQIA2goAIaAFAgDaCgAhoQWAAAAAAaIFgAAAAAGjBSAA_wgAIaQFAQCPCQAhpQVAAN0JACEiBQAAlA0AIAYAAIQNACAIAACFDQAgCQAAhg0AIBQAAI8NACAVAACSDQAgGQAAjg0AIBsAAIcNACAfAACIDQAgIAAAiQ0AICEAAIoNACAiAACLDQAgJQAAjQ0AICYAAJANACAnAACRDQAgygQBAAAAAeUEAAAAmAUC_wQCAAAAAYIFgAAAAAGDBYAAAAABlgUBAAAAAZkFAAAAmQUCmgUBAAAAAZsFAQAAAAGcBQIAAAABnQUCAAAAAZ4FAgAAAAGfBQIAAAABoAUCAAAAAaEFgAAAAAGiBYAAAAABowUgAAAAAaQFAQAAAAGlBUAAAAABAgAAABMAIDsAAL4PACADAAAAEQAgOwAAvg8AIDwAAMIPACAkAAAAEQAgBQAA3AoAIAYAAN0KACAIAADeCgAgCQAA3woAIBQAAPoMACAVAADqCgAgGQAA5woAIBsAAOAKACAfAADhCgAgIAAA4goAICEAAOMKACAiAADkCgAgJQAA5goAICYAAOgKACAnAADpCgAgNAAAwg8AIMoEAQD-CAAh5QQAANgKmAUi_wQCANoKACGCBYAAAAABgwWAAAAAAZYFAQD-CAAhmQUAANkKmQUimgUBAP4IACGbBQEAjwkAIZwFAgDaCgAhnQUCANoKACGeBQIA2goAIZ8FAgDaCgAhoAUCANoKACGhBYAAAAABogWAAAAAAaMFIAD_CAAhpAUBAI8JACGlBUAA3QkAISIFAADcCgAgBgAA3QoAIAgAAN4KACAJAADfCgAgFAAA-gwAIBUAAOoKACAZAADnCgAgGwAA4AoAIB8AAOEKACAgAADiCgAgIQAA4woAICIAAOQKACAlAADmCgAgJgAA6AoAICcAAOkKACDKBAEA_ggAIeUEAADYCpgFIv8EAgDaCgAhggWAAAAAAYMFgAAAAAGWBQEA_ggAIZkFAADZCpkFIpoFAQD-CAAhmwUBAI8JACGcBQIA2goAIZ0FAgDaCgAhngUCANoKACGfBQIA2goAIaAFAgDaCgAhoQWAAAAAAaIFgAAAAAGjBSAA_wgAIaQFAQCPCQAhpQVAAN0JACEKG4AAAAAB2AQBAAAAAeUEAAAA_wQC9gRAAAAAAfcEQAAAAAH_BAIAAAABgAUCAAAAAYEFgAAAAAGCBYAAAAABgwWAAAAAAQQOAQAAAAHKBAEAAAABzAQgAAAAAdgEAQAAAAEHygQBAAAAAdgEAQAAAAHbBEAAAAABrgUBAAAAAa8FAQAAAAGwBYAAAAABsQWAAAAAAQXKBAEAAAAB2wRAAAAAAYQFAQAAAAGGBQAAAIYFAocFAQAAAAEQCQAAtQ4AIAsAALYOACAVAAC3DgAgygQBAAAAAdwEQAAAAAHjBIAAAAAB5QQAAACKBQLuBAAAAIkFAvYEQAAAAAH3BEAAAAABigWAAAAAAYsFgAAAAAGMBYAAAAABjQUBAAAAAY4FgAAAAAGPBQEAAAABAgAAAPsDACA7AADHDwAgAwAAAP4DACA7AADHDwAgPAAAyw8AIBIAAAD-AwAgCQAAig4AIAsAAIsOACAVAACMDgAgNAAAyw8AIMoEAQD-CAAh3ARAAIUJACHjBIAAAAAB5QQAAIkOigUi7gQAAIgOiQUi9gRAAIUJACH3BEAA3QkAIYoFgAAAAAGLBYAAAAABjAWAAAAAAY0FAQCPCQAhjgWAAAAAAY8FAQCPCQAhEAkAAIoOACALAACLDgAgFQAAjA4AIMoEAQD-CAAh3ARAAIUJACHjBIAAAAAB5QQAAIkOigUi7gQAAIgOiQUi9gRAAIUJACH3BEAA3QkAIYoFgAAAAAGLBYAAAAABjAWAAAAAAY0FAQCPCQAhjgWAAAAAAY8FAQCPCQAhIgUAAJQNACAGAACEDQAgCAAAhQ0AIBQAAI8NACAVAACSDQAgGQAAjg0AIBsAAIcNACAfAACIDQAgIAAAiQ0AICEAAIoNACAiAACLDQAgIwAAjA0AICUAAI0NACAmAACQDQAgJwAAkQ0AIMoEAQAAAAHlBAAAAJgFAv8EAgAAAAGCBYAAAAABgwWAAAAAAZYFAQAAAAGZBQAAAJkFApoFAQAAAAGbBQEAAAABnAUCAAAAAZ0FAgAAAAGeBQIAAAABnwUCAAAAAaAFAgAAAAGhBYAAAAABogWAAAAAAaMFIAAAAAGkBQEAAAABpQVAAAAAAQIAAAATACA7AADMDwAgAwAAABEAIDsAAMwPACA8AADQDwAgJAAAABEAIAUAANwKACAGAADdCgAgCAAA3goAIBQAAPoMACAVAADqCgAgGQAA5woAIBsAAOAKACAfAADhCgAgIAAA4goAICEAAOMKACAiAADkCgAgIwAA5QoAICUAAOYKACAmAADoCgAgJwAA6QoAIDQAANAPACDKBAEA_ggAIeUEAADYCpgFIv8EAgDaCgAhggWAAAAAAYMFgAAAAAGWBQEA_ggAIZkFAADZCpkFIpoFAQD-CAAhmwUBAI8JACGcBQIA2goAIZ0FAgDaCgAhngUCANoKACGfBQIA2goAIaAFAgDaCgAhoQWAAAAAAaIFgAAAAAGjBSAA_wgAIaQFAQCPCQAhpQVAAN0JACEiBQAA3AoAIAYAAN0KACAIAADeCgAgFAAA-gwAIBUAAOoKACAZAADnCgAgGwAA4AoAIB8AAOEKACAgAADiCgAgIQAA4woAICIAAOQKACAjAADlCgAgJQAA5goAICYAAOgKACAnAADpCgAgygQBAP4IACHlBAAA2AqYBSL_BAIA2goAIYIFgAAAAAGDBYAAAAABlgUBAP4IACGZBQAA2QqZBSKaBQEA_ggAIZsFAQCPCQAhnAUCANoKACGdBQIA2goAIZ4FAgDaCgAhnwUCANoKACGgBQIA2goAIaEFgAAAAAGiBYAAAAABowUgAP8IACGkBQEAjwkAIaUFQADdCQAhIgUAAJQNACAGAACEDQAgCAAAhQ0AIAkAAIYNACAUAACPDQAgFQAAkg0AIBkAAI4NACAbAACHDQAgHwAAiA0AICAAAIkNACAhAACKDQAgIgAAiw0AICMAAIwNACAlAACNDQAgJwAAkQ0AIMoEAQAAAAHlBAAAAJgFAv8EAgAAAAGCBYAAAAABgwWAAAAAAZYFAQAAAAGZBQAAAJkFApoFAQAAAAGbBQEAAAABnAUCAAAAAZ0FAgAAAAGeBQIAAAABnwUCAAAAAaAFAgAAAAGhBYAAAAABogWAAAAAAaMFIAAAAAGkBQEAAAABpQVAAAAAAQIAAAATACA7AADRDwAgAwAAABEAIDsAANEPACA8AADVDwAgJAAAABEAIAUAANwKACAGAADdCgAgCAAA3goAIAkAAN8KACAUAAD6DAAgFQAA6goAIBkAAOcKACAbAADgCgAgHwAA4QoAICAAAOIKACAhAADjCgAgIgAA5AoAICMAAOUKACAlAADmCgAgJwAA6QoAIDQAANUPACDKBAEA_ggAIeUEAADYCpgFIv8EAgDaCgAhggWAAAAAAYMFgAAAAAGWBQEA_ggAIZkFAADZCpkFIpoFAQD-CAAhmwUBAI8JACGcBQIA2goAIZ0FAgDaCgAhngUCANoKACGfBQIA2goAIaAFAgDaCgAhoQWAAAAAAaIFgAAAAAGjBSAA_wgAIaQFAQCPCQAhpQVAAN0JACEiBQAA3AoAIAYAAN0KACAIAADeCgAgCQAA3woAIBQAAPoMACAVAADqCgAgGQAA5woAIBsAAOAKACAfAADhCgAgIAAA4goAICEAAOMKACAiAADkCgAgIwAA5QoAICUAAOYKACAnAADpCgAgygQBAP4IACHlBAAA2AqYBSL_BAIA2goAIYIFgAAAAAGDBYAAAAABlgUBAP4IACGZBQAA2QqZBSKaBQEA_ggAIZsFAQCPCQAhnAUCANoKACGdBQIA2goAIZ4FAgDaCgAhnwUCANoKACGgBQIA2goAIaEFgAAAAAGiBYAAAAABowUgAP8IACGkBQEAjwkAIaUFQADdCQAhDQcAAMcLACAOgAAAAAEXAADcDAAgGQAAyAsAIMoEAQAAAAHYBAEAAAAB2QQBAAAAAdsEQAAAAAHcBEAAAAAB4wSAAAAAAewEAQAAAAH7BAEAAAAB_AQBAAAAAQIAAAA-ACA7AADWDwAgAwAAADwAIDsAANYPACA8AADaDwAgDwAAADwAIAcAAMgNACAOgAAAAAEXAADLDAAgGQAAzAwAIDQAANoPACDKBAEA_ggAIdgEAQCPCQAh2QQBAI8JACHbBEAAhQkAIdwEQACFCQAh4wSAAAAAAewEAQCPCQAh-wQBAI8JACH8BAEAjwkAIQ0HAADIDQAgDoAAAAABFwAAywwAIBkAAMwMACDKBAEA_ggAIdgEAQCPCQAh2QQBAI8JACHbBEAAhQkAIdwEQACFCQAh4wSAAAAAAewEAQCPCQAh-wQBAI8JACH8BAEAjwkAISIFAACUDQAgBgAAhA0AIAgAAIUNACAJAACGDQAgFAAAjw0AIBUAAJINACAZAACODQAgHwAAiA0AICAAAIkNACAhAACKDQAgIgAAiw0AICMAAIwNACAlAACNDQAgJgAAkA0AICcAAJENACDKBAEAAAAB5QQAAACYBQL_BAIAAAABggWAAAAAAYMFgAAAAAGWBQEAAAABmQUAAACZBQKaBQEAAAABmwUBAAAAAZwFAgAAAAGdBQIAAAABngUCAAAAAZ8FAgAAAAGgBQIAAAABoQWAAAAAAaIFgAAAAAGjBSAAAAABpAUBAAAAAaUFQAAAAAECAAAAEwAgOwAA2w8AIAMAAAARACA7AADbDwAgPAAA3w8AICQAAAARACAFAADcCgAgBgAA3QoAIAgAAN4KACAJAADfCgAgFAAA-gwAIBUAAOoKACAZAADnCgAgHwAA4QoAICAAAOIKACAhAADjCgAgIgAA5AoAICMAAOUKACAlAADmCgAgJgAA6AoAICcAAOkKACA0AADfDwAgygQBAP4IACHlBAAA2AqYBSL_BAIA2goAIYIFgAAAAAGDBYAAAAABlgUBAP4IACGZBQAA2QqZBSKaBQEA_ggAIZsFAQCPCQAhnAUCANoKACGdBQIA2goAIZ4FAgDaCgAhnwUCANoKACGgBQIA2goAIaEFgAAAAAGiBYAAAAABowUgAP8IACGkBQEAjwkAIaUFQADdCQAhIgUAANwKACAGAADdCgAgCAAA3goAIAkAAN8KACAUAAD6DAAgFQAA6goAIBkAAOcKACAfAADhCgAgIAAA4goAICEAAOMKACAiAADkCgAgIwAA5QoAICUAAOYKACAmAADoCgAgJwAA6QoAIMoEAQD-CAAh5QQAANgKmAUi_wQCANoKACGCBYAAAAABgwWAAAAAAZYFAQD-CAAhmQUAANkKmQUimgUBAP4IACGbBQEAjwkAIZwFAgDaCgAhnQUCANoKACGeBQIA2goAIZ8FAgDaCgAhoAUCANoKACGhBYAAAAABogWAAAAAAaMFIAD_CAAhpAUBAI8JACGlBUAA3QkAISIFAACUDQAgBgAAhA0AIAgAAIUNACAJAACGDQAgFAAAjw0AIBUAAJINACAZAACODQAgGwAAhw0AIB8AAIgNACAgAACJDQAgIQAAig0AICMAAIwNACAlAACNDQAgJgAAkA0AICcAAJENACDKBAEAAAAB5QQAAACYBQL_BAIAAAABggWAAAAAAYMFgAAAAAGWBQEAAAABmQUAAACZBQKaBQEAAAABmwUBAAAAAZwFAgAAAAGdBQIAAAABngUCAAAAAZ8FAgAAAAGgBQIAAAABoQWAAAAAAaIFgAAAAAGjBSAAAAABpAUBAAAAAaUFQAAAAAECAAAAEwAgOwAA4A8AIAMAAAARACA7AADgDwAgPAAA5A8AICQAAAARACAFAADcCgAgBgAA3QoAIAgAAN4KACAJAADfCgAgFAAA-gwAIBUAAOoKACAZAADnCgAgGwAA4AoAIB8AAOEKACAgAADiCgAgIQAA4woAICMAAOUKACAlAADmCgAgJgAA6AoAICcAAOkKACA0AADkDwAgygQBAP4IACHlBAAA2AqYBSL_BAIA2goAIYIFgAAAAAGDBYAAAAABlgUBAP4IACGZBQAA2QqZBSKaBQEA_ggAIZsFAQCPCQAhnAUCANoKACGdBQIA2goAIZ4FAgDaCgAhnwUCANoKACGgBQIA2goAIaEFgAAAAAGiBYAAAAABowUgAP8IACGkBQEAjwkAIaUFQADdCQAhIgUAANwKACAGAADdCgAgCAAA3goAIAkAAN8KACAUAAD6DAAgFQAA6goAIBkAAOcKACAbAADgCgAgHwAA4QoAICAAAOIKACAhAADjCgAgIwAA5QoAICUAAOYKACAmAADoCgAgJwAA6QoAIMoEAQD-CAAh5QQAANgKmAUi_wQCANoKACGCBYAAAAABgwWAAAAAAZYFAQD-CAAhmQUAANkKmQUimgUBAP4IACGbBQEAjwkAIZwFAgDaCgAhnQUCANoKACGeBQIA2goAIZ8FAgDaCgAhoAUCANoKACGhBYAAAAABogWAAAAAAaMFIAD_CAAhpAUBAI8JACGlBUAA3QkAISIFAACUDQAgCAAAhQ0AIAkAAIYNACAUAACPDQAgFQAAkg0AIBkAAI4NACAbAACHDQAgHwAAiA0AICAAAIkNACAhAACKDQAgIgAAiw0AICMAAIwNACAlAACNDQAgJgAAkA0AICcAAJENACDKBAEAAAAB5QQAAACYBQL_BAIAAAABggWAAAAAAYMFgAAAAAGWBQEAAAABmQUAAACZBQKaBQEAAAABmwUBAAAAAZwFAgAAAAGdBQIAAAABngUCAAAAAZ8FAgAAAAGgBQIAAAABoQWAAAAAAaIFgAAAAAGjBSAAAAABpAUBAAAAAaUFQAAAAAECAAAAEwAgOwAA5Q8AIBLKBAEAAAAB5QQAAACYBQL_BAIAAAABggWAAAAAAYMFgAAAAAGWBQEAAAABmQUAAACZBQKaBQEAAAABnAUCAAAAAZ0FAgAAAAGeBQIAAAABnwUCAAAAAaAFAgAAAAGhBYAAAAABogWAAAAAAaMFIAAAAAGkBQEAAAABpQVAAAAAARALAAC2DgAgFQAAtw4AIBYAALgOACDKBAEAAAAB3ARAAAAAAeMEgAAAAAHlBAAAAIoFAu4EAAAAiQUC9gRAAAAAAfcEQAAAAAGKBYAAAAABiwWAAAAAAYwFgAAAAAGNBQEAAAABjgWAAAAAAY8FAQAAAAECAAAA-wMAIDsAAOgPACADAAAA_gMAIDsAAOgPACA8AADsDwAgEgAAAP4DACALAACLDgAgFQAAjA4AIBYAAI0OACA0AADsDwAgygQBAP4IACHcBEAAhQkAIeMEgAAAAAHlBAAAiQ6KBSLuBAAAiA6JBSL2BEAAhQkAIfcEQADdCQAhigWAAAAAAYsFgAAAAAGMBYAAAAABjQUBAI8JACGOBYAAAAABjwUBAI8JACEQCwAAiw4AIBUAAIwOACAWAACNDgAgygQBAP4IACHcBEAAhQkAIeMEgAAAAAHlBAAAiQ6KBSLuBAAAiA6JBSL2BEAAhQkAIfcEQADdCQAhigWAAAAAAYsFgAAAAAGMBYAAAAABjQUBAI8JACGOBYAAAAABjwUBAI8JACEKG4AAAAAB5QQAAAD_BAL2BEAAAAAB9wRAAAAAAf0EAQAAAAH_BAIAAAABgAUCAAAAAYEFgAAAAAGCBYAAAAABgwWAAAAAAQwDAACYCwAgFAAA5w0AIB8AAJoLACAgAACbCwAgIgAAnAsAICkAAJ0LACAqAACeCwAgygQBAAAAAdsEQAAAAAHcBEAAAAAB4wSAAAAAAfoEIAAAAAECAAAADwAgOwAA7g8AICIFAACUDQAgBgAAhA0AIAgAAIUNACAJAACGDQAgFAAAjw0AIBUAAJINACAbAACHDQAgHwAAiA0AICAAAIkNACAhAACKDQAgIgAAiw0AICMAAIwNACAlAACNDQAgJgAAkA0AICcAAJENACDKBAEAAAAB5QQAAACYBQL_BAIAAAABggWAAAAAAYMFgAAAAAGWBQEAAAABmQUAAACZBQKaBQEAAAABmwUBAAAAAZwFAgAAAAGdBQIAAAABngUCAAAAAZ8FAgAAAAGgBQIAAAABoQWAAAAAAaIFgAAAAAGjBSAAAAABpAUBAAAAAaUFQAAAAAECAAAAEwAgOwAA8A8AIAMAAAARACA7AADwDwAgPAAA9A8AICQAAAARACAFAADcCgAgBgAA3QoAIAgAAN4KACAJAADfCgAgFAAA-gwAIBUAAOoKACAbAADgCgAgHwAA4QoAICAAAOIKACAhAADjCgAgIgAA5AoAICMAAOUKACAlAADmCgAgJgAA6AoAICcAAOkKACA0AAD0DwAgygQBAP4IACHlBAAA2AqYBSL_BAIA2goAIYIFgAAAAAGDBYAAAAABlgUBAP4IACGZBQAA2QqZBSKaBQEA_ggAIZsFAQCPCQAhnAUCANoKACGdBQIA2goAIZ4FAgDaCgAhnwUCANoKACGgBQIA2goAIaEFgAAAAAGiBYAAAAABowUgAP8IACGkBQEAjwkAIaUFQADdCQAhIgUAANwKACAGAADdCgAgCAAA3goAIAkAAN8KACAUAAD6DAAgFQAA6goAIBsAAOAKACAfAADhCgAgIAAA4goAICEAAOMKACAiAADkCgAgIwAA5QoAICUAAOYKACAmAADoCgAgJwAA6QoAIMoEAQD-CAAh5QQAANgKmAUi_wQCANoKACGCBYAAAAABgwWAAAAAAZYFAQD-CAAhmQUAANkKmQUimgUBAP4IACGbBQEAjwkAIZwFAgDaCgAhnQUCANoKACGeBQIA2goAIZ8FAgDaCgAhoAUCANoKACGhBYAAAAABogWAAAAAAaMFIAD_CAAhpAUBAI8JACGlBUAA3QkAIQMAAAANACA7AADuDwAgPAAA9w8AIA4AAAANACADAACcDQAgFAAA3g0AIB8AAJ4NACAgAACfDQAgIgAAoA0AICkAAKENACAqAACiDQAgNAAA9w8AIMoEAQD-CAAh2wRAAIUJACHcBEAAhQkAIeMEgAAAAAH6BCAA_wgAIQwDAACcDQAgFAAA3g0AIB8AAJ4NACAgAACfDQAgIgAAoA0AICkAAKENACAqAACiDQAgygQBAP4IACHbBEAAhQkAIdwEQACFCQAh4wSAAAAAAfoEIAD_CAAhCQ6AAAAAAcoEAQAAAAHZBAEAAAAB2wRAAAAAAdwEQAAAAAHjBIAAAAAB7AQBAAAAAfsEAQAAAAH8BAEAAAABCMoEAQAAAAHZBAEAAAAB2wRAAAAAAdwEQAAAAAHjBIAAAAAB5QQAAAD5BALsBAEAAAAB8QSAAAAAAQcOgAAAAAHKBAEAAAAB2QQBAAAAAdsEQAAAAAHcBEAAAAAB4wSAAAAAAewEAQAAAAEIygQBAAAAAdkEAQAAAAHbBEAAAAAB3ARAAAAAAeMEgAAAAAHxBIAAAAAB8gRAAAAAAfMEQAAAAAEMAwAAmAsAIBQAAOcNACAbAACZCwAgHwAAmgsAICAAAJsLACApAACdCwAgKgAAngsAIMoEAQAAAAHbBEAAAAAB3ARAAAAAAeMEgAAAAAH6BCAAAAABAgAAAA8AIDsAAPwPACADAAAADQAgOwAA_A8AIDwAAIAQACAOAAAADQAgAwAAnA0AIBQAAN4NACAbAACdDQAgHwAAng0AICAAAJ8NACApAAChDQAgKgAAog0AIDQAAIAQACDKBAEA_ggAIdsEQACFCQAh3ARAAIUJACHjBIAAAAAB-gQgAP8IACEMAwAAnA0AIBQAAN4NACAbAACdDQAgHwAAng0AICAAAJ8NACApAAChDQAgKgAAog0AIMoEAQD-CAAh2wRAAIUJACHcBEAAhQkAIeMEgAAAAAH6BCAA_wgAIQjZBAEAAAAB2wRAAAAAAdwEQAAAAAHjBIAAAAAB7AQBAAAAAacFAQAAAAGyBQEAAAABswUCAAAAAQXLBAEAAAAB2QQBAAAAAdoEgAAAAAHbBEAAAAAB3ARAAAAAAQ0HAADHCwAgDoAAAAABFwAA3AwAIBoAAMkLACDKBAEAAAAB2AQBAAAAAdkEAQAAAAHbBEAAAAAB3ARAAAAAAeMEgAAAAAHsBAEAAAAB-wQBAAAAAfwEAQAAAAECAAAAPgAgOwAAgxAAIAMAAAA8ACA7AACDEAAgPAAAhxAAIA8AAAA8ACAHAADIDQAgDoAAAAABFwAAywwAIBoAAM0MACA0AACHEAAgygQBAP4IACHYBAEAjwkAIdkEAQCPCQAh2wRAAIUJACHcBEAAhQkAIeMEgAAAAAHsBAEAjwkAIfsEAQCPCQAh_AQBAI8JACENBwAAyA0AIA6AAAAAARcAAMsMACAaAADNDAAgygQBAP4IACHYBAEAjwkAIdkEAQCPCQAh2wRAAIUJACHcBEAAhQkAIeMEgAAAAAHsBAEAjwkAIfsEAQCPCQAh_AQBAI8JACEMAwAAmAsAIBQAAOcNACAbAACZCwAgHwAAmgsAICAAAJsLACAiAACcCwAgKQAAnQsAIMoEAQAAAAHbBEAAAAAB3ARAAAAAAeMEgAAAAAH6BCAAAAABAgAAAA8AIDsAAIgQACADAAAADQAgOwAAiBAAIDwAAIwQACAOAAAADQAgAwAAnA0AIBQAAN4NACAbAACdDQAgHwAAng0AICAAAJ8NACAiAACgDQAgKQAAoQ0AIDQAAIwQACDKBAEA_ggAIdsEQACFCQAh3ARAAIUJACHjBIAAAAAB-gQgAP8IACEMAwAAnA0AIBQAAN4NACAbAACdDQAgHwAAng0AICAAAJ8NACAiAACgDQAgKQAAoQ0AIMoEAQD-CAAh2wRAAIUJACHcBEAAhQkAIeMEgAAAAAH6BCAA_wgAIQTKBAEAAAAB2wRAAAAAAewEAQAAAAH5BAEAAAABEAkAALUOACAVAAC3DgAgFgAAuA4AIMoEAQAAAAHcBEAAAAAB4wSAAAAAAeUEAAAAigUC7gQAAACJBQL2BEAAAAAB9wRAAAAAAYoFgAAAAAGLBYAAAAABjAWAAAAAAY0FAQAAAAGOBYAAAAABjwUBAAAAAQIAAAD7AwAgOwAAjhAAIAMAAAD-AwAgOwAAjhAAIDwAAJIQACASAAAA_gMAIAkAAIoOACAVAACMDgAgFgAAjQ4AIDQAAJIQACDKBAEA_ggAIdwEQACFCQAh4wSAAAAAAeUEAACJDooFIu4EAACIDokFIvYEQACFCQAh9wRAAN0JACGKBYAAAAABiwWAAAAAAYwFgAAAAAGNBQEAjwkAIY4FgAAAAAGPBQEAjwkAIRAJAACKDgAgFQAAjA4AIBYAAI0OACDKBAEA_ggAIdwEQACFCQAh4wSAAAAAAeUEAACJDooFIu4EAACIDokFIvYEQACFCQAh9wRAAN0JACGKBYAAAAABiwWAAAAAAYwFgAAAAAGNBQEAjwkAIY4FgAAAAAGPBQEAjwkAIQQOAQAAAAHKBAEAAAABzAQgAAAAAf0EAQAAAAEChAUBAAAAAZUFgAAAAAEDygQBAAAAAdsEQAAAAAHrBAEAAAABBMoEAQAAAAHYBAEAAAAB2wRAAAAAAewEAQAAAAEDDoAAAAABygQBAAAAAdsEQAAAAAEJDoAAAAABygQBAAAAAdgEAQAAAAHZBAEAAAAB2wRAAAAAAdwEQAAAAAHjBIAAAAAB-wQBAAAAAfwEAQAAAAEIygQBAAAAAdgEAQAAAAHZBAEAAAAB2wRAAAAAAdwEQAAAAAHjBIAAAAAB5QQAAAD5BALxBIAAAAABBw6AAAAAAcoEAQAAAAHYBAEAAAAB2QQBAAAAAdsEQAAAAAHcBEAAAAAB4wSAAAAAAQjYBAEAAAAB2QQBAAAAAdsEQAAAAAHcBEAAAAAB4wSAAAAAAacFAQAAAAGyBQEAAAABswUCAAAAAQXKBAEAAAAB2wRAAAAAAdwEQAAAAAHjBIAAAAABkwUBAAAAAQTKBAEAAAAB2AQBAAAAAdsEQAAAAAH5BAEAAAABA8oEAQAAAAH2BEAAAAAB9wRAAAAAAQwDAACYCwAgFAAA5w0AIBsAAJkLACAgAACbCwAgIgAAnAsAICkAAJ0LACAqAACeCwAgygQBAAAAAdsEQAAAAAHcBEAAAAAB4wSAAAAAAfoEIAAAAAECAAAADwAgOwAAnxAAICIFAACUDQAgBgAAhA0AIAgAAIUNACAJAACGDQAgFAAAjw0AIBUAAJINACAZAACODQAgGwAAhw0AICAAAIkNACAhAACKDQAgIgAAiw0AICMAAIwNACAlAACNDQAgJgAAkA0AICcAAJENACDKBAEAAAAB5QQAAACYBQL_BAIAAAABggWAAAAAAYMFgAAAAAGWBQEAAAABmQUAAACZBQKaBQEAAAABmwUBAAAAAZwFAgAAAAGdBQIAAAABngUCAAAAAZ8FAgAAAAGgBQIAAAABoQWAAAAAAaIFgAAAAAGjBSAAAAABpAUBAAAAAaUFQAAAAAECAAAAEwAgOwAAoRAAIAfKBAEAAAAB2wRAAAAAAf0EAQAAAAGuBQEAAAABrwUBAAAAAbAFgAAAAAGxBYAAAAABAwAAABEAIDsAAOUPACA8AACmEAAgJAAAABEAIAUAANwKACAIAADeCgAgCQAA3woAIBQAAPoMACAVAADqCgAgGQAA5woAIBsAAOAKACAfAADhCgAgIAAA4goAICEAAOMKACAiAADkCgAgIwAA5QoAICUAAOYKACAmAADoCgAgJwAA6QoAIDQAAKYQACDKBAEA_ggAIeUEAADYCpgFIv8EAgDaCgAhggWAAAAAAYMFgAAAAAGWBQEA_ggAIZkFAADZCpkFIpoFAQD-CAAhmwUBAI8JACGcBQIA2goAIZ0FAgDaCgAhngUCANoKACGfBQIA2goAIaAFAgDaCgAhoQWAAAAAAaIFgAAAAAGjBSAA_wgAIaQFAQCPCQAhpQVAAN0JACEiBQAA3AoAIAgAAN4KACAJAADfCgAgFAAA-gwAIBUAAOoKACAZAADnCgAgGwAA4AoAIB8AAOEKACAgAADiCgAgIQAA4woAICIAAOQKACAjAADlCgAgJQAA5goAICYAAOgKACAnAADpCgAgygQBAP4IACHlBAAA2AqYBSL_BAIA2goAIYIFgAAAAAGDBYAAAAABlgUBAP4IACGZBQAA2QqZBSKaBQEA_ggAIZsFAQCPCQAhnAUCANoKACGdBQIA2goAIZ4FAgDaCgAhnwUCANoKACGgBQIA2goAIaEFgAAAAAGiBYAAAAABowUgAP8IACGkBQEAjwkAIaUFQADdCQAhDAMAAJgLACAUAADnDQAgGwAAmQsAIB8AAJoLACAiAACcCwAgKQAAnQsAICoAAJ4LACDKBAEAAAAB2wRAAAAAAdwEQAAAAAHjBIAAAAAB-gQgAAAAAQIAAAAPACA7AACnEAAgIgUAAJQNACAGAACEDQAgCAAAhQ0AIAkAAIYNACAUAACPDQAgFQAAkg0AIBkAAI4NACAbAACHDQAgHwAAiA0AICEAAIoNACAiAACLDQAgIwAAjA0AICUAAI0NACAmAACQDQAgJwAAkQ0AIMoEAQAAAAHlBAAAAJgFAv8EAgAAAAGCBYAAAAABgwWAAAAAAZYFAQAAAAGZBQAAAJkFApoFAQAAAAGbBQEAAAABnAUCAAAAAZ0FAgAAAAGeBQIAAAABnwUCAAAAAaAFAgAAAAGhBYAAAAABogWAAAAAAaMFIAAAAAGkBQEAAAABpQVAAAAAAQIAAAATACA7AACpEAAgAwAAAA0AIDsAAKcQACA8AACtEAAgDgAAAA0AIAMAAJwNACAUAADeDQAgGwAAnQ0AIB8AAJ4NACAiAACgDQAgKQAAoQ0AICoAAKINACA0AACtEAAgygQBAP4IACHbBEAAhQkAIdwEQACFCQAh4wSAAAAAAfoEIAD_CAAhDAMAAJwNACAUAADeDQAgGwAAnQ0AIB8AAJ4NACAiAACgDQAgKQAAoQ0AICoAAKINACDKBAEA_ggAIdsEQACFCQAh3ARAAIUJACHjBIAAAAAB-gQgAP8IACEDAAAAEQAgOwAAqRAAIDwAALAQACAkAAAAEQAgBQAA3AoAIAYAAN0KACAIAADeCgAgCQAA3woAIBQAAPoMACAVAADqCgAgGQAA5woAIBsAAOAKACAfAADhCgAgIQAA4woAICIAAOQKACAjAADlCgAgJQAA5goAICYAAOgKACAnAADpCgAgNAAAsBAAIMoEAQD-CAAh5QQAANgKmAUi_wQCANoKACGCBYAAAAABgwWAAAAAAZYFAQD-CAAhmQUAANkKmQUimgUBAP4IACGbBQEAjwkAIZwFAgDaCgAhnQUCANoKACGeBQIA2goAIZ8FAgDaCgAhoAUCANoKACGhBYAAAAABogWAAAAAAaMFIAD_CAAhpAUBAI8JACGlBUAA3QkAISIFAADcCgAgBgAA3QoAIAgAAN4KACAJAADfCgAgFAAA-gwAIBUAAOoKACAZAADnCgAgGwAA4AoAIB8AAOEKACAhAADjCgAgIgAA5AoAICMAAOUKACAlAADmCgAgJgAA6AoAICcAAOkKACDKBAEA_ggAIeUEAADYCpgFIv8EAgDaCgAhggWAAAAAAYMFgAAAAAGWBQEA_ggAIZkFAADZCpkFIpoFAQD-CAAhmwUBAI8JACGcBQIA2goAIZ0FAgDaCgAhngUCANoKACGfBQIA2goAIaAFAgDaCgAhoQWAAAAAAaIFgAAAAAGjBSAA_wgAIaQFAQCPCQAhpQVAAN0JACEiBQAAlA0AIAYAAIQNACAIAACFDQAgCQAAhg0AIBQAAI8NACAZAACODQAgGwAAhw0AIB8AAIgNACAgAACJDQAgIQAAig0AICIAAIsNACAjAACMDQAgJQAAjQ0AICYAAJANACAnAACRDQAgygQBAAAAAeUEAAAAmAUC_wQCAAAAAYIFgAAAAAGDBYAAAAABlgUBAAAAAZkFAAAAmQUCmgUBAAAAAZsFAQAAAAGcBQIAAAABnQUCAAAAAZ4FAgAAAAGfBQIAAAABoAUCAAAAAaEFgAAAAAGiBYAAAAABowUgAAAAAaQFAQAAAAGlBUAAAAABAgAAABMAIDsAALEQACAQCQAAtQ4AIAsAALYOACAWAAC4DgAgygQBAAAAAdwEQAAAAAHjBIAAAAAB5QQAAACKBQLuBAAAAIkFAvYEQAAAAAH3BEAAAAABigWAAAAAAYsFgAAAAAGMBYAAAAABjQUBAAAAAY4FgAAAAAGPBQEAAAABAgAAAPsDACA7AACzEAAgA8oEAQAAAAHrBAEAAAAB7gQBAAAAAQIAAAD0AQAgOwAAtRAAIAMOgAAAAAHjBIAAAAABqQUBAAAAAQIAAAC5AgAgOwAAtxAAIA4HAAC9CgAgCgAAvAoAIA4AALoKACAPAAC7CgAgEgAAvgoAIBQAANoLACDKBAEAAAAB2AQBAAAAAdsEQAAAAAH9BAEAAAABrgUBAAAAAa8FAQAAAAGwBYAAAAABsQWAAAAAAQIAAAAlACA7AAC5EAAgAwAAACMAIDsAALkQACA8AAC9EAAgEAAAACMAIAcAAJwKACAKAACbCgAgDgAAmQoAIA8AAJoKACASAACdCgAgFAAA8woAIDQAAL0QACDKBAEA_ggAIdgEAQD-CAAh2wRAAIUJACH9BAEA_ggAIa4FAQD-CAAhrwUBAP4IACGwBYAAAAABsQWAAAAAAQ4HAACcCgAgCgAAmwoAIA4AAJkKACAPAACaCgAgEgAAnQoAIBQAAPMKACDKBAEA_ggAIdgEAQD-CAAh2wRAAIUJACH9BAEA_ggAIa4FAQD-CAAhrwUBAP4IACGwBYAAAAABsQWAAAAAAQOaBQAAAK0FAqsFAQAAAAGtBQEAAAABDgcAAL0KACAKAAC8CgAgDgAAugoAIA8AALsKACATAAC_CgAgFAAA2gsAIMoEAQAAAAHYBAEAAAAB2wRAAAAAAf0EAQAAAAGuBQEAAAABrwUBAAAAAbAFgAAAAAGxBYAAAAABAgAAACUAIDsAAL8QACADAAAAIwAgOwAAvxAAIDwAAMMQACAQAAAAIwAgBwAAnAoAIAoAAJsKACAOAACZCgAgDwAAmgoAIBMAAJ4KACAUAADzCgAgNAAAwxAAIMoEAQD-CAAh2AQBAP4IACHbBEAAhQkAIf0EAQD-CAAhrgUBAP4IACGvBQEA_ggAIbAFgAAAAAGxBYAAAAABDgcAAJwKACAKAACbCgAgDgAAmQoAIA8AAJoKACATAACeCgAgFAAA8woAIMoEAQD-CAAh2AQBAP4IACHbBEAAhQkAIf0EAQD-CAAhrgUBAP4IACGvBQEA_ggAIbAFgAAAAAGxBYAAAAABA5oFAAAArQUCqgUBAAAAAa0FAQAAAAEDAAAAEQAgOwAAsRAAIDwAAMcQACAkAAAAEQAgBQAA3AoAIAYAAN0KACAIAADeCgAgCQAA3woAIBQAAPoMACAZAADnCgAgGwAA4AoAIB8AAOEKACAgAADiCgAgIQAA4woAICIAAOQKACAjAADlCgAgJQAA5goAICYAAOgKACAnAADpCgAgNAAAxxAAIMoEAQD-CAAh5QQAANgKmAUi_wQCANoKACGCBYAAAAABgwWAAAAAAZYFAQD-CAAhmQUAANkKmQUimgUBAP4IACGbBQEAjwkAIZwFAgDaCgAhnQUCANoKACGeBQIA2goAIZ8FAgDaCgAhoAUCANoKACGhBYAAAAABogWAAAAAAaMFIAD_CAAhpAUBAI8JACGlBUAA3QkAISIFAADcCgAgBgAA3QoAIAgAAN4KACAJAADfCgAgFAAA-gwAIBkAAOcKACAbAADgCgAgHwAA4QoAICAAAOIKACAhAADjCgAgIgAA5AoAICMAAOUKACAlAADmCgAgJgAA6AoAICcAAOkKACDKBAEA_ggAIeUEAADYCpgFIv8EAgDaCgAhggWAAAAAAYMFgAAAAAGWBQEA_ggAIZkFAADZCpkFIpoFAQD-CAAhmwUBAI8JACGcBQIA2goAIZ0FAgDaCgAhngUCANoKACGfBQIA2goAIaAFAgDaCgAhoQWAAAAAAaIFgAAAAAGjBSAA_wgAIaQFAQCPCQAhpQVAAN0JACEDAAAA_gMAIDsAALMQACA8AADKEAAgEgAAAP4DACAJAACKDgAgCwAAiw4AIBYAAI0OACA0AADKEAAgygQBAP4IACHcBEAAhQkAIeMEgAAAAAHlBAAAiQ6KBSLuBAAAiA6JBSL2BEAAhQkAIfcEQADdCQAhigWAAAAAAYsFgAAAAAGMBYAAAAABjQUBAI8JACGOBYAAAAABjwUBAI8JACEQCQAAig4AIAsAAIsOACAWAACNDgAgygQBAP4IACHcBEAAhQkAIeMEgAAAAAHlBAAAiQ6KBSLuBAAAiA6JBSL2BEAAhQkAIfcEQADdCQAhigWAAAAAAYsFgAAAAAGMBYAAAAABjQUBAI8JACGOBYAAAAABjwUBAI8JACEDAAAA9wEAIDsAALUQACA8AADNEAAgBQAAAPcBACA0AADNEAAgygQBAP4IACHrBAEA_ggAIe4EAQD-CAAhA8oEAQD-CAAh6wQBAP4IACHuBAEA_ggAIQMAAAC8AgAgOwAAtxAAIDwAANAQACAFAAAAvAIAIA6AAAAAATQAANAQACDjBIAAAAABqQUBAP4IACEDDoAAAAAB4wSAAAAAAakFAQD-CAAhAwAAAA0AIDsAAJ8QACA8AADTEAAgDgAAAA0AIAMAAJwNACAUAADeDQAgGwAAnQ0AICAAAJ8NACAiAACgDQAgKQAAoQ0AICoAAKINACA0AADTEAAgygQBAP4IACHbBEAAhQkAIdwEQACFCQAh4wSAAAAAAfoEIAD_CAAhDAMAAJwNACAUAADeDQAgGwAAnQ0AICAAAJ8NACAiAACgDQAgKQAAoQ0AICoAAKINACDKBAEA_ggAIdsEQACFCQAh3ARAAIUJACHjBIAAAAAB-gQgAP8IACEDAAAAEQAgOwAAoRAAIDwAANYQACAkAAAAEQAgBQAA3AoAIAYAAN0KACAIAADeCgAgCQAA3woAIBQAAPoMACAVAADqCgAgGQAA5woAIBsAAOAKACAgAADiCgAgIQAA4woAICIAAOQKACAjAADlCgAgJQAA5goAICYAAOgKACAnAADpCgAgNAAA1hAAIMoEAQD-CAAh5QQAANgKmAUi_wQCANoKACGCBYAAAAABgwWAAAAAAZYFAQD-CAAhmQUAANkKmQUimgUBAP4IACGbBQEAjwkAIZwFAgDaCgAhnQUCANoKACGeBQIA2goAIZ8FAgDaCgAhoAUCANoKACGhBYAAAAABogWAAAAAAaMFIAD_CAAhpAUBAI8JACGlBUAA3QkAISIFAADcCgAgBgAA3QoAIAgAAN4KACAJAADfCgAgFAAA-gwAIBUAAOoKACAZAADnCgAgGwAA4AoAICAAAOIKACAhAADjCgAgIgAA5AoAICMAAOUKACAlAADmCgAgJgAA6AoAICcAAOkKACDKBAEA_ggAIeUEAADYCpgFIv8EAgDaCgAhggWAAAAAAYMFgAAAAAGWBQEA_ggAIZkFAADZCpkFIpoFAQD-CAAhmwUBAI8JACGcBQIA2goAIZ0FAgDaCgAhngUCANoKACGfBQIA2goAIaAFAgDaCgAhoQWAAAAAAaIFgAAAAAGjBSAA_wgAIaQFAQCPCQAhpQVAAN0JACEMBwAAhwsAIBQAAMELACAXAACICwAgygQBAAAAAdgEAQAAAAHZBAEAAAAB2wRAAAAAAdwEQAAAAAHjBIAAAAAB5QQAAAD5BALsBAEAAAAB8QSAAAAAAQIAAABQACA7AADXEAAgAg4BAAAAAcoEAQAAAAEDAAAATgAgOwAA1xAAIDwAANwQACAOAAAATgAgBwAA_AkAIBQAAP8JACAXAAD9CQAgNAAA3BAAIMoEAQD-CAAh2AQBAI8JACHZBAEAjwkAIdsEQACFCQAh3ARAAIUJACHjBIAAAAAB5QQAAPsJ-QQi7AQBAI8JACHxBIAAAAABDAcAAPwJACAUAAD_CQAgFwAA_QkAIMoEAQD-CAAh2AQBAI8JACHZBAEAjwkAIdsEQACFCQAh3ARAAIUJACHjBIAAAAAB5QQAAPsJ-QQi7AQBAI8JACHxBIAAAAABBRwAAPYJACDKBAEAAAAB9QQBAAAAAfYEQAAAAAH3BEAAAAABAgAAAFYAIDsAAN0QACADAAAAVAAgOwAA3RAAIDwAAOEQACAHAAAAVAAgHAAA6AkAIDQAAOEQACDKBAEA_ggAIfUEAQD-CAAh9gRAAIUJACH3BEAA3QkAIQUcAADoCQAgygQBAP4IACH1BAEA_ggAIfYEQACFCQAh9wRAAN0JACEiBQAAlA0AIAYAAIQNACAIAACFDQAgCQAAhg0AIBQAAI8NACAVAACSDQAgGQAAjg0AIBsAAIcNACAfAACIDQAgIAAAiQ0AICIAAIsNACAjAACMDQAgJQAAjQ0AICYAAJANACAnAACRDQAgygQBAAAAAeUEAAAAmAUC_wQCAAAAAYIFgAAAAAGDBYAAAAABlgUBAAAAAZkFAAAAmQUCmgUBAAAAAZsFAQAAAAGcBQIAAAABnQUCAAAAAZ4FAgAAAAGfBQIAAAABoAUCAAAAAaEFgAAAAAGiBYAAAAABowUgAAAAAaQFAQAAAAGlBUAAAAABAgAAABMAIDsAAOIQACADAAAAEQAgOwAA4hAAIDwAAOYQACAkAAAAEQAgBQAA3AoAIAYAAN0KACAIAADeCgAgCQAA3woAIBQAAPoMACAVAADqCgAgGQAA5woAIBsAAOAKACAfAADhCgAgIAAA4goAICIAAOQKACAjAADlCgAgJQAA5goAICYAAOgKACAnAADpCgAgNAAA5hAAIMoEAQD-CAAh5QQAANgKmAUi_wQCANoKACGCBYAAAAABgwWAAAAAAZYFAQD-CAAhmQUAANkKmQUimgUBAP4IACGbBQEAjwkAIZwFAgDaCgAhnQUCANoKACGeBQIA2goAIZ8FAgDaCgAhoAUCANoKACGhBYAAAAABogWAAAAAAaMFIAD_CAAhpAUBAI8JACGlBUAA3QkAISIFAADcCgAgBgAA3QoAIAgAAN4KACAJAADfCgAgFAAA-gwAIBUAAOoKACAZAADnCgAgGwAA4AoAIB8AAOEKACAgAADiCgAgIgAA5AoAICMAAOUKACAlAADmCgAgJgAA6AoAICcAAOkKACDKBAEA_ggAIeUEAADYCpgFIv8EAgDaCgAhggWAAAAAAYMFgAAAAAGWBQEA_ggAIZkFAADZCpkFIpoFAQD-CAAhmwUBAI8JACGcBQIA2goAIZ0FAgDaCgAhngUCANoKACGfBQIA2goAIaAFAgDaCgAhoQWAAAAAAaIFgAAAAAGjBSAA_wgAIaQFAQCPCQAhpQVAAN0JACEMFAAA5w0AIBsAAJkLACAfAACaCwAgIAAAmwsAICIAAJwLACApAACdCwAgKgAAngsAIMoEAQAAAAHbBEAAAAAB3ARAAAAAAeMEgAAAAAH6BCAAAAABAgAAAA8AIDsAAOcQACAJygQBAAAAAdsEQAAAAAHcBEAAAAAB4wSAAAAAAeUEAAAA5QQC5gQgAAAAAecEAQAAAAHpBAEAAAAB6gQBAAAAAQLKBAEAAAAB2wRAAAAAAQMAAAANACA7AADnEAAgPAAA7RAAIA4AAAANACAUAADeDQAgGwAAnQ0AIB8AAJ4NACAgAACfDQAgIgAAoA0AICkAAKENACAqAACiDQAgNAAA7RAAIMoEAQD-CAAh2wRAAIUJACHcBEAAhQkAIeMEgAAAAAH6BCAA_wgAIQwUAADeDQAgGwAAnQ0AIB8AAJ4NACAgAACfDQAgIgAAoA0AICkAAKENACAqAACiDQAgygQBAP4IACHbBEAAhQkAIdwEQACFCQAh4wSAAAAAAfoEIAD_CAAhBhcAANMJACAaAADUCQAgygQBAAAAAdsEQAAAAAHrBAEAAAAB7AQBAAAAAQIAAAAHACA7AADuEAAgAwAAAAUAIDsAAO4QACA8AADyEAAgCAAAAAUAIBcAALgJACAaAAC5CQAgNAAA8hAAIMoEAQD-CAAh2wRAAIUJACHrBAEA_ggAIewEAQD-CAAhBhcAALgJACAaAAC5CQAgygQBAP4IACHbBEAAhQkAIesEAQD-CAAh7AQBAP4IACEHFwAAiw8AIMoEAQAAAAHbBEAAAAAB3ARAAAAAAeMEgAAAAAHsBAEAAAABkwUBAAAAAQIAAAABACA7AADzEAAgBhcAANMJACAsAADVCQAgygQBAAAAAdsEQAAAAAHrBAEAAAAB7AQBAAAAAQIAAAAHACA7AAD1EAAgBdgEAQAAAAHZBAEAAAAB2gSAAAAAAdsEQAAAAAHcBEAAAAABAw4BAAAAAcoEAQAAAAHMBCAAAAABAwAAAJcBACA7AADzEAAgPAAA-xAAIAkAAACXAQAgFwAAig8AIDQAAPsQACDKBAEA_ggAIdsEQACFCQAh3ARAAIUJACHjBIAAAAAB7AQBAP4IACGTBQEA_ggAIQcXAACKDwAgygQBAP4IACHbBEAAhQkAIdwEQACFCQAh4wSAAAAAAewEAQD-CAAhkwUBAP4IACEDAAAABQAgOwAA9RAAIDwAAP4QACAIAAAABQAgFwAAuAkAICwAALoJACA0AAD-EAAgygQBAP4IACHbBEAAhQkAIesEAQD-CAAh7AQBAP4IACEGFwAAuAkAICwAALoJACDKBAEA_ggAIdsEQACFCQAh6wQBAP4IACHsBAEA_ggAIQ0LAACvCQAgKwAArAkAIC0AAK0JACDKBAEAAAAB2wRAAAAAAdwEQAAAAAHjBIAAAAAB5QQAAADlBALmBCAAAAAB5wQBAAAAAegEAQAAAAHpBAEAAAAB6gQBAAAAAQIAAACkAQAgOwAA_xAAICIFAACUDQAgBgAAhA0AIAgAAIUNACAJAACGDQAgFAAAjw0AIBUAAJINACAZAACODQAgGwAAhw0AIB8AAIgNACAgAACJDQAgIQAAig0AICIAAIsNACAjAACMDQAgJgAAkA0AICcAAJENACDKBAEAAAAB5QQAAACYBQL_BAIAAAABggWAAAAAAYMFgAAAAAGWBQEAAAABmQUAAACZBQKaBQEAAAABmwUBAAAAAZwFAgAAAAGdBQIAAAABngUCAAAAAZ8FAgAAAAGgBQIAAAABoQWAAAAAAaIFgAAAAAGjBSAAAAABpAUBAAAAAaUFQAAAAAECAAAAEwAgOwAAgREAIAMAAAADACA7AAD_EAAgPAAAhREAIA8AAAADACALAACTCQAgKwAAkAkAIC0AAJEJACA0AACFEQAgygQBAP4IACHbBEAAhQkAIdwEQACFCQAh4wSAAAAAAeUEAACOCeUEIuYEIAD_CAAh5wQBAI8JACHoBAEA_ggAIekEAQD-CAAh6gQBAP4IACENCwAAkwkAICsAAJAJACAtAACRCQAgygQBAP4IACHbBEAAhQkAIdwEQACFCQAh4wSAAAAAAeUEAACOCeUEIuYEIAD_CAAh5wQBAI8JACHoBAEA_ggAIekEAQD-CAAh6gQBAP4IACEDAAAAEQAgOwAAgREAIDwAAIgRACAkAAAAEQAgBQAA3AoAIAYAAN0KACAIAADeCgAgCQAA3woAIBQAAPoMACAVAADqCgAgGQAA5woAIBsAAOAKACAfAADhCgAgIAAA4goAICEAAOMKACAiAADkCgAgIwAA5QoAICYAAOgKACAnAADpCgAgNAAAiBEAIMoEAQD-CAAh5QQAANgKmAUi_wQCANoKACGCBYAAAAABgwWAAAAAAZYFAQD-CAAhmQUAANkKmQUimgUBAP4IACGbBQEAjwkAIZwFAgDaCgAhnQUCANoKACGeBQIA2goAIZ8FAgDaCgAhoAUCANoKACGhBYAAAAABogWAAAAAAaMFIAD_CAAhpAUBAI8JACGlBUAA3QkAISIFAADcCgAgBgAA3QoAIAgAAN4KACAJAADfCgAgFAAA-gwAIBUAAOoKACAZAADnCgAgGwAA4AoAIB8AAOEKACAgAADiCgAgIQAA4woAICIAAOQKACAjAADlCgAgJgAA6AoAICcAAOkKACDKBAEA_ggAIeUEAADYCpgFIv8EAgDaCgAhggWAAAAAAYMFgAAAAAGWBQEA_ggAIZkFAADZCpkFIpoFAQD-CAAhmwUBAI8JACGcBQIA2goAIZ0FAgDaCgAhngUCANoKACGfBQIA2goAIaAFAgDaCgAhoQWAAAAAAaIFgAAAAAGjBSAA_wgAIaQFAQCPCQAhpQVAAN0JACENKwAArAkAIC0AAK0JACAuAACuCQAgygQBAAAAAdsEQAAAAAHcBEAAAAAB4wSAAAAAAeUEAAAA5QQC5gQgAAAAAecEAQAAAAHoBAEAAAAB6QQBAAAAAeoEAQAAAAECAAAApAEAIDsAAIkRACADAAAAAwAgOwAAiREAIDwAAI0RACAPAAAAAwAgKwAAkAkAIC0AAJEJACAuAACSCQAgNAAAjREAIMoEAQD-CAAh2wRAAIUJACHcBEAAhQkAIeMEgAAAAAHlBAAAjgnlBCLmBCAA_wgAIecEAQCPCQAh6AQBAP4IACHpBAEA_ggAIeoEAQD-CAAhDSsAAJAJACAtAACRCQAgLgAAkgkAIMoEAQD-CAAh2wRAAIUJACHcBEAAhQkAIeMEgAAAAAHlBAAAjgnlBCLmBCAA_wgAIecEAQCPCQAh6AQBAP4IACHpBAEA_ggAIeoEAQD-CAAhAhcABCsEAgULsAEpDQAqKwADLQABLqwBIgQNACgXAAQapQECLKkBJwkDCAMNACYUDAUbkwEUH5QBGCCVAR0ilgEgKZkBASqaARUGBBAEDQAlFY0BCx-LARggjAEdKBQGEQUVBgYWBggYBwkcCA0AJBR3BRV9Cxl2FRs_FB9RGCBjHSFrHyJvICNxISV1IiZ4Cid8IwEHAAYCBwAGCgAJBQkdCAshCg0AExUmCxY3EgIHIgYKAAkIBwAGCgAJDQARDgAMDwAOEi4QEy8QFDAFAgwnCw0ADQEMKAACDCkLDQAPAQwqAAIQAAsRAAsDEjEAEzIAFDMAAQoACQQJOAALOQAVOgAWOwAFB0AGDQAXF0EEGUUVGksWAwdGBhcABBhHFAEYABQCGUwAGk0ABQdSBg0AHBRdBRdTBB5XGQMLWxoNABscABgBHQAZAQtcAAIUXwAeXgAEB2QGDQAeFGYFF2UEARRnAAEHAAYCBwAGFwAEAQcABgIHAAYkAAIBBwAGDQZ-AAl_ABSHAQAVigEAGYYBABuAAQAfgQEAIIIBACGDAQAihAEAJYUBACaIAQAniQEABQSOAQAVkgEAH5ABACCRAQAojwEACAObAQAUnAEAG50BAB-eAQAgnwEAIqABACmhAQAqogEAASsAAwIaqgEALKsBAAEkAAICC7IBAC6xAQAAARcABAEXAAQDDQAvQQAwQgAxAAAAAw0AL0EAMEIAMQAABQ0ANkEAOUIAOlMAN1QAOAAAAAAABQ0ANkEAOUIAOlMAN1QAOAIHAAYXAAQCBwAGFwAEBQ0AP0EAQkIAQ1MAQFQAQQAAAAAABQ0AP0EAQkIAQ1MAQFQAQQAAAw0ASEEASUIASgAAAAMNAEhBAElCAEoEBwAGCgAJDgAMDwAOBAcABgoACQ4ADA8ADgMNAE9BAFBCAFEAAAADDQBPQQBQQgBRAhAACxEACwIQAAsRAAsDDQBWQQBXQgBYAAAAAw0AVkEAV0IAWAAAAw0AXUEAXkIAXwAAAAMNAF1BAF5CAF8BBwAGAQcABgMNAGRBAGVCAGYAAAADDQBkQQBlQgBmAQX0AgYBBfoCBgUNAGtBAG5CAG9TAGxUAG0AAAAAAAUNAGtBAG5CAG9TAGxUAG0AAAADDQB1QQB2QgB3AAAAAw0AdUEAdkIAdwEHAAYBBwAGAw0AfEEAfUIAfgAAAAMNAHxBAH1CAH4BBwAGAQcABgMNAIMBQQCEAUIAhQEAAAADDQCDAUEAhAFCAIUBAAAAAw0AiwFBAIwBQgCNAQAAAAMNAIsBQQCMAUIAjQEAAAADDQCTAUEAlAFCAJUBAAAAAw0AkwFBAJQBQgCVAQAAAw0AmgFBAJsBQgCcAQAAAAMNAJoBQQCbAUIAnAEBCgAJAQoACQMNAKEBQQCiAUIAowEAAAADDQChAUEAogFCAKMBAgcABgoACQIHAAYKAAkFDQCoAUEAqwFCAKwBUwCpAVQAqgEAAAAAAAUNAKgBQQCrAUIArAFTAKkBVACqAQIHygQGCgAJAgfQBAYKAAkDDQCxAUEAsgFCALMBAAAAAw0AsQFBALIBQgCzAQIH4gQGF-MEBAIH6QQGF-oEBAMNALgBQQC5AUIAugEAAAADDQC4AUEAuQFCALoBAgf8BAYX_QQEAgeDBQYXhAUEAw0AvwFBAMABQgDBAQAAAAMNAL8BQQDAAUIAwQEBGAAUARgAFAMNAMYBQQDHAUIAyAEAAAADDQDGAUEAxwFCAMgBAAADDQDNAUEAzgFCAM8BAAAAAw0AzQFBAM4BQgDPAQMHwgUGFwAEGMMFFAMHyQUGFwAEGMoFFAMNANQBQQDVAUIA1gEAAAADDQDUAUEA1QFCANYBAgfcBQYX3QUEAgfjBQYX5AUEAw0A2wFBANwBQgDdAQAAAAMNANsBQQDcAUIA3QEBHAAYARwAGAMNAOIBQQDjAUIA5AEAAAADDQDiAUEA4wFCAOQBAR0AGQEdABkDDQDpAUEA6gFCAOsBAAAAAw0A6QFBAOoBQgDrAQEHAAYBBwAGAw0A8AFBAPEBQgDyAQAAAAMNAPABQQDxAUIA8gEAAAADDQD4AUEA-QFCAPoBAAAAAw0A-AFBAPkBQgD6AQEXAAQBFwAEAw0A_wFBAIACQgCBAgAAAAMNAP8BQQCAAkIAgQIBKwADASsAAwMNAIYCQQCHAkIAiAIAAAADDQCGAkEAhwJCAIgCAisAAy0AAQIrAAMtAAEDDQCNAkEAjgJCAI8CAAAAAw0AjQJBAI4CQgCPAgIHAAYkAAICBwAGJAACAw0AlAJBAJUCQgCWAgAAAAMNAJQCQQCVAkIAlgIBJAACASQAAgMNAJsCQQCcAkIAnQIAAAADDQCbAkEAnAJCAJ0CLwIBMLMBATG0AQEytQEBM7YBATW4AQE2ugErN7sBLDi9AQE5vwErOsABLT3BAQE-wgEBP8MBK0PGAS5ExwEyRcgBBUbJAQVHygEFSMsBBUnMAQVKzgEFS9ABK0zRATNN0wEFTtUBK0_WATRQ1wEFUdgBBVLZAStV3AE1Vt0BO1feASBY3wEgWeABIFrhASBb4gEgXOQBIF3mASte5wE8X-kBIGDrASth7AE9Yu0BIGPuASBk7wErZfIBPmbzAURn9QEOaPYBDmn5AQ5q-gEOa_sBDmz9AQ5t_wErboACRW-CAg5whAIrcYUCRnKGAg5zhwIOdIgCK3WLAkd2jAJLd40CC3iOAgt5jwILepACC3uRAgt8kwILfZUCK36WAkx_mAILgAGaAiuBAZsCTYIBnAILgwGdAguEAZ4CK4UBoQJOhgGiAlKHAaMCEIgBpAIQiQGlAhCKAaYCEIsBpwIQjAGpAhCNAasCK44BrAJTjwGuAhCQAbACK5EBsQJUkgGyAhCTAbMCEJQBtAIrlQG3AlWWAbgCWZcBugIMmAG7AgyZAb4CDJoBvwIMmwHAAgycAcICDJ0BxAIrngHFAlqfAccCDKAByQIroQHKAluiAcsCDKMBzAIMpAHNAiulAdACXKYB0QJgpwHTAgeoAdQCB6kB1gIHqgHXAgerAdgCB6wB2gIHrQHcAiuuAd0CYa8B3wIHsAHhAiuxAeICYrIB4wIHswHkAge0AeUCK7UB6AJjtgHpAme3AeoCBrgB6wIGuQHsAga6Ae0CBrsB7gIGvAHwAga9AfICK74B8wJovwH2AgbAAfgCK8EB-QJpwgH7AgbDAfwCBsQB_QIrxQGAA2rGAYEDcMcBgwNxyAGEA3HJAYcDccoBiANxywGJA3HMAYsDcc0BjQMrzgGOA3LPAZADcdABkgMr0QGTA3PSAZQDcdMBlQNx1AGWAyvVAZkDdNYBmgN41wGbAyPYAZwDI9kBnQMj2gGeAyPbAZ8DI9wBoQMj3QGjAyveAaQDed8BpgMj4AGoAyvhAakDeuIBqgMj4wGrAyPkAawDK-UBrwN75gGwA3_nAbIDIegBswMh6QG1AyHqAbYDIesBtwMh7AG5AyHtAbsDK-4BvAOAAe8BvgMh8AHAAyvxAcEDgQHyAcIDIfMBwwMh9AHEAyv1AccDggH2AcgDhgH3AcoDhwH4AcsDhwH5Ac4DhwH6Ac8DhwH7AdADhwH8AdIDhwH9AdQDK_4B1QOIAf8B1wOHAYAC2QMrgQLaA4kBggLbA4cBgwLcA4cBhALdAyuFAuADigGGAuEDjgGHAuMDjwGIAuQDjwGJAucDjwGKAugDjwGLAukDjwGMAusDjwGNAu0DK44C7gOQAY8C8AOPAZAC8gMrkQLzA5EBkgL0A48BkwL1A48BlAL2AyuVAvkDkgGWAvoDlgGXAvwDCZgC_QMJmQKABAmaAoEECZsCggQJnAKEBAmdAoYEK54ChwSXAZ8CiQQJoAKLBCuhAowEmAGiAo0ECaMCjgQJpAKPBCulApIEmQGmApMEnQGnApQEEqgClQQSqQKWBBKqApcEEqsCmAQSrAKaBBKtApwEK64CnQSeAa8CnwQSsAKhBCuxAqIEnwGyAqMEErMCpAQStAKlBCu1AqgEoAG2AqkEpAG3AqoECLgCqwQIuQKsBAi6Aq0ECLsCrgQIvAKwBAi9ArIEK74CswSlAb8CtQQIwAK3BCvBArgEpgHCArkECMMCugQIxAK7BCvFAr4EpwHGAr8ErQHHAsAECsgCwQQKyQLCBArKAsMECssCxAQKzALGBArNAsgEK84CyQSuAc8CzAQK0ALOBCvRAs8ErwHSAtEECtMC0gQK1ALTBCvVAtYEsAHWAtcEtAHXAtgEHdgC2QQd2QLaBB3aAtsEHdsC3AQd3ALeBB3dAuAEK94C4QS1Ad8C5QQd4ALnBCvhAugEtgHiAusEHeMC7AQd5ALtBCvlAvAEtwHmAvEEuwHnAvIEFOgC8wQU6QL0BBTqAvUEFOsC9gQU7AL4BBTtAvoEK-4C-wS8Ae8C_wQU8AKBBSvxAoIFvQHyAoUFFPMChgUU9AKHBSv1AooFvgH2AosFwgH3AowFFvgCjQUW-QKOBRb6Ao8FFvsCkAUW_AKSBRb9ApQFK_4ClQXDAf8ClwUWgAOZBSuBA5oFxAGCA5sFFoMDnAUWhAOdBSuFA6AFxQGGA6EFyQGHA6IFBIgDowUEiQOkBQSKA6UFBIsDpgUEjAOoBQSNA6oFK44DqwXKAY8DrQUEkAOvBSuRA7AFywGSA7EFBJMDsgUElAOzBSuVA7YFzAGWA7cF0AGXA7gFFZgDuQUVmQO6BRWaA7sFFZsDvAUVnAO-BRWdA8AFK54DwQXRAZ8DxQUVoAPHBSuhA8gF0gGiA8sFFaMDzAUVpAPNBSulA9AF0wGmA9EF1wGnA9IFGKgD0wUYqQPUBRiqA9UFGKsD1gUYrAPYBRitA9oFK64D2wXYAa8D3wUYsAPhBSuxA-IF2QGyA-UFGLMD5gUYtAPnBSu1A-oF2gG2A-sF3gG3A-wFGbgD7QUZuQPuBRm6A-8FGbsD8AUZvAPyBRm9A_QFK74D9QXfAb8D9wUZwAP5BSvBA_oF4AHCA_sFGcMD_AUZxAP9BSvFA4AG4QHGA4EG5QHHA4IGGsgDgwYayQOEBhrKA4UGGssDhgYazAOIBhrNA4oGK84DiwbmAc8DjQYa0AOPBivRA5AG5wHSA5EGGtMDkgYa1AOTBivVA5YG6AHWA5cG7AHXA5gGH9gDmQYf2QOaBh_aA5sGH9sDnAYf3AOeBh_dA6AGK94DoQbtAd8DowYf4AOlBivhA6YG7gHiA6cGH-MDqAYf5AOpBivlA6wG7wHmA60G8wHnA68G9AHoA7AG9AHpA7MG9AHqA7QG9AHrA7UG9AHsA7cG9AHtA7kGK-4Dugb1Ae8DvAb0AfADvgYr8QO_BvYB8gPABvQB8wPBBvQB9APCBiv1A8UG9wH2A8YG-wH3A8cGA_gDyAYD-QPJBgP6A8oGA_sDywYD_APNBgP9A88GK_4D0Ab8Af8D0gYDgATUBiuBBNUG_QGCBNYGA4ME1wYDhATYBiuFBNsG_gGGBNwGggKHBN0GJ4gE3gYniQTfBieKBOAGJ4sE4QYnjATjBieNBOUGK44E5gaDAo8E6AYnkATqBiuRBOsGhAKSBOwGJ5ME7QYnlATuBiuVBPEGhQKWBPIGiQKXBPMGApgE9AYCmQT1BgKaBPYGApsE9wYCnAT5BgKdBPsGK54E_AaKAp8E_gYCoASAByuhBIEHiwKiBIIHAqMEgwcCpASEByulBIcHjAKmBIgHkAKnBIkHIqgEigciqQSLByKqBIwHIqsEjQcirASPByKtBJEHK64EkgeRAq8ElAcisASWByuxBJcHkgKyBJgHIrMEmQcitASaByu1BJ0HkwK2BJ4HlwK3BJ8HKbgEoAcpuQShBym6BKIHKbsEowcpvASlBym9BKcHK74EqAeYAr8EqgcpwASsByvBBK0HmQLCBK4HKcMErwcpxASwByvFBLMHmgLGBLQHngI"
+}
+
+async function decodeBase64AsWasm(wasmBase64: string): Promise<WebAssembly.Module> {
+  const { Buffer } = await import('node:buffer')
+  const wasmArray = Buffer.from(wasmBase64, 'base64')
+  return new WebAssembly.Module(wasmArray)
+}
+
+config.compilerWasm = {
+  getRuntime: async () => await import("@prisma/client/runtime/query_compiler_fast_bg.postgresql.mjs"),
+
+  getQueryCompilerWasmModule: async () => {
+    const { wasm } = await import("@prisma/client/runtime/query_compiler_fast_bg.postgresql.wasm-base64.mjs")
+    return await decodeBase64AsWasm(wasm)
+  },
+
+  importName: "./query_compiler_fast_bg.js"
+}
+
+
+
+export type LogOptions<ClientOptions extends Prisma.PrismaClientOptions> =
+  'log' extends keyof ClientOptions ? ClientOptions['log'] extends Array<Prisma.LogLevel | Prisma.LogDefinition> ? Prisma.GetEvents<ClientOptions['log']> : never : never
+
+export interface PrismaClientConstructor {
+    /**
+   * ## Prisma Client
+   * 
+   * Type-safe database client for TypeScript
+   * @example
+   * ```
+   * const prisma = new PrismaClient()
+   * // Fetch zero or more ApiKeys
+   * const apiKeys = await prisma.apiKey.findMany()
+   * ```
+   * 
+   * Read more in our [docs](https://pris.ly/d/client).
+   */
+
+  new <
+    Options extends Prisma.PrismaClientOptions = Prisma.PrismaClientOptions,
+    LogOpts extends LogOptions<Options> = LogOptions<Options>,
+    OmitOpts extends Prisma.PrismaClientOptions['omit'] = Options extends { omit: infer U } ? U : Prisma.PrismaClientOptions['omit'],
+    ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+  >(options: Prisma.Subset<Options, Prisma.PrismaClientOptions> ): PrismaClient<LogOpts, OmitOpts, ExtArgs>
+}
+
+/**
+ * ## Prisma Client
+ * 
+ * Type-safe database client for TypeScript
+ * @example
+ * ```
+ * const prisma = new PrismaClient()
+ * // Fetch zero or more ApiKeys
+ * const apiKeys = await prisma.apiKey.findMany()
+ * ```
+ * 
+ * Read more in our [docs](https://pris.ly/d/client).
+ */
+
+export interface PrismaClient<
+  in LogOpts extends Prisma.LogLevel = never,
+  in out OmitOpts extends Prisma.PrismaClientOptions['omit'] = undefined,
+  in out ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['other'] }
+
+  $on<V extends LogOpts>(eventType: V, callback: (event: V extends 'query' ? Prisma.QueryEvent : Prisma.LogEvent) => void): PrismaClient;
+
+  /**
+   * Connect with the database
+   */
+  $connect(): runtime.Types.Utils.JsPromise<void>;
+
+  /**
+   * Disconnect from the database
+   */
+  $disconnect(): runtime.Types.Utils.JsPromise<void>;
+
+/**
+   * Executes a prepared raw query and returns the number of affected rows.
+   * @example
+   * ```
+   * const result = await prisma.$executeRaw`UPDATE User SET cool = ${true} WHERE email = ${'user@email.com'};`
+   * ```
+   *
+   * Read more in our [docs](https://pris.ly/d/raw-queries).
+   */
+  $executeRaw<T = unknown>(query: TemplateStringsArray | Prisma.Sql, ...values: any[]): Prisma.PrismaPromise<number>;
+
+  /**
+   * Executes a raw query and returns the number of affected rows.
+   * Susceptible to SQL injections, see documentation.
+   * @example
+   * ```
+   * const result = await prisma.$executeRawUnsafe('UPDATE User SET cool = $1 WHERE email = $2 ;', true, 'user@email.com')
+   * ```
+   *
+   * Read more in our [docs](https://pris.ly/d/raw-queries).
+   */
+  $executeRawUnsafe<T = unknown>(query: string, ...values: any[]): Prisma.PrismaPromise<number>;
+
+  /**
+   * Performs a prepared raw query and returns the `SELECT` data.
+   * @example
+   * ```
+   * const result = await prisma.$queryRaw`SELECT * FROM User WHERE id = ${1} OR email = ${'user@email.com'};`
+   * ```
+   *
+   * Read more in our [docs](https://pris.ly/d/raw-queries).
+   */
+  $queryRaw<T = unknown>(query: TemplateStringsArray | Prisma.Sql, ...values: any[]): Prisma.PrismaPromise<T>;
+
+  /**
+   * Performs a raw query and returns the `SELECT` data.
+   * Susceptible to SQL injections, see documentation.
+   * @example
+   * ```
+   * const result = await prisma.$queryRawUnsafe('SELECT * FROM User WHERE id = $1 OR email = $2;', 1, 'user@email.com')
+   * ```
+   *
+   * Read more in our [docs](https://pris.ly/d/raw-queries).
+   */
+  $queryRawUnsafe<T = unknown>(query: string, ...values: any[]): Prisma.PrismaPromise<T>;
+
+
+  /**
+   * Allows the running of a sequence of read/write operations that are guaranteed to either succeed or fail as a whole.
+   * @example
+   * ```
+   * const [george, bob, alice] = await prisma.$transaction([
+   *   prisma.user.create({ data: { name: 'George' } }),
+   *   prisma.user.create({ data: { name: 'Bob' } }),
+   *   prisma.user.create({ data: { name: 'Alice' } }),
+   * ])
+   * ```
+   * 
+   * Read more in our [docs](https://www.prisma.io/docs/orm/prisma-client/queries/transactions).
+   */
+  $transaction<P extends Prisma.PrismaPromise<any>[]>(arg: [...P], options?: { isolationLevel?: Prisma.TransactionIsolationLevel }): runtime.Types.Utils.JsPromise<runtime.Types.Utils.UnwrapTuple<P>>
+
+  $transaction<R>(fn: (prisma: Omit<PrismaClient, runtime.ITXClientDenyList>) => runtime.Types.Utils.JsPromise<R>, options?: { maxWait?: number, timeout?: number, isolationLevel?: Prisma.TransactionIsolationLevel }): runtime.Types.Utils.JsPromise<R>
+
+  $extends: runtime.Types.Extensions.ExtendsHook<"extends", Prisma.TypeMapCb<OmitOpts>, ExtArgs, runtime.Types.Utils.Call<Prisma.TypeMapCb<OmitOpts>, {
+    extArgs: ExtArgs
+  }>>
+
+      /**
+   * `prisma.apiKey`: Exposes CRUD operations for the **ApiKey** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more ApiKeys
+    * const apiKeys = await prisma.apiKey.findMany()
+    * ```
+    */
+  get apiKey(): Prisma.ApiKeyDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.artifact`: Exposes CRUD operations for the **Artifact** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Artifacts
+    * const artifacts = await prisma.artifact.findMany()
+    * ```
+    */
+  get artifact(): Prisma.ArtifactDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.instanceCustomStatus`: Exposes CRUD operations for the **InstanceCustomStatus** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more InstanceCustomStatuses
+    * const instanceCustomStatuses = await prisma.instanceCustomStatus.findMany()
+    * ```
+    */
+  get instanceCustomStatus(): Prisma.InstanceCustomStatusDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.entity`: Exposes CRUD operations for the **Entity** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Entities
+    * const entities = await prisma.entity.findMany()
+    * ```
+    */
+  get entity(): Prisma.EntityDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.entitySnapshot`: Exposes CRUD operations for the **EntitySnapshot** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more EntitySnapshots
+    * const entitySnapshots = await prisma.entitySnapshot.findMany()
+    * ```
+    */
+  get entitySnapshot(): Prisma.EntitySnapshotDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.entitySnapshotReference`: Exposes CRUD operations for the **EntitySnapshotReference** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more EntitySnapshotReferences
+    * const entitySnapshotReferences = await prisma.entitySnapshotReference.findMany()
+    * ```
+    */
+  get entitySnapshotReference(): Prisma.EntitySnapshotReferenceDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.entitySnapshotContent`: Exposes CRUD operations for the **EntitySnapshotContent** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more EntitySnapshotContents
+    * const entitySnapshotContents = await prisma.entitySnapshotContent.findMany()
+    * ```
+    */
+  get entitySnapshotContent(): Prisma.EntitySnapshotContentDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.instanceEvaluationState`: Exposes CRUD operations for the **InstanceEvaluationState** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more InstanceEvaluationStates
+    * const instanceEvaluationStates = await prisma.instanceEvaluationState.findMany()
+    * ```
+    */
+  get instanceEvaluationState(): Prisma.InstanceEvaluationStateDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.instanceState`: Exposes CRUD operations for the **InstanceState** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more InstanceStates
+    * const instanceStates = await prisma.instanceState.findMany()
+    * ```
+    */
+  get instanceState(): Prisma.InstanceStateDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.userProjectViewport`: Exposes CRUD operations for the **UserProjectViewport** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more UserProjectViewports
+    * const userProjectViewports = await prisma.userProjectViewport.findMany()
+    * ```
+    */
+  get userProjectViewport(): Prisma.UserProjectViewportDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.userCompositeViewport`: Exposes CRUD operations for the **UserCompositeViewport** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more UserCompositeViewports
+    * const userCompositeViewports = await prisma.userCompositeViewport.findMany()
+    * ```
+    */
+  get userCompositeViewport(): Prisma.UserCompositeViewportDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.instanceLock`: Exposes CRUD operations for the **InstanceLock** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more InstanceLocks
+    * const instanceLocks = await prisma.instanceLock.findMany()
+    * ```
+    */
+  get instanceLock(): Prisma.InstanceLockDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.instanceModel`: Exposes CRUD operations for the **InstanceModel** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more InstanceModels
+    * const instanceModels = await prisma.instanceModel.findMany()
+    * ```
+    */
+  get instanceModel(): Prisma.InstanceModelDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.hubModel`: Exposes CRUD operations for the **HubModel** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more HubModels
+    * const hubModels = await prisma.hubModel.findMany()
+    * ```
+    */
+  get hubModel(): Prisma.HubModelDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.operation`: Exposes CRUD operations for the **Operation** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Operations
+    * const operations = await prisma.operation.findMany()
+    * ```
+    */
+  get operation(): Prisma.OperationDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.operationApproval`: Exposes CRUD operations for the **OperationApproval** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more OperationApprovals
+    * const operationApprovals = await prisma.operationApproval.findMany()
+    * ```
+    */
+  get operationApproval(): Prisma.OperationApprovalDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.instanceOperationState`: Exposes CRUD operations for the **InstanceOperationState** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more InstanceOperationStates
+    * const instanceOperationStates = await prisma.instanceOperationState.findMany()
+    * ```
+    */
+  get instanceOperationState(): Prisma.InstanceOperationStateDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.operationLog`: Exposes CRUD operations for the **OperationLog** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more OperationLogs
+    * const operationLogs = await prisma.operationLog.findMany()
+    * ```
+    */
+  get operationLog(): Prisma.OperationLogDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.page`: Exposes CRUD operations for the **Page** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Pages
+    * const pages = await prisma.page.findMany()
+    * ```
+    */
+  get page(): Prisma.PageDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.secret`: Exposes CRUD operations for the **Secret** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Secrets
+    * const secrets = await prisma.secret.findMany()
+    * ```
+    */
+  get secret(): Prisma.SecretDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.secretVersion`: Exposes CRUD operations for the **SecretVersion** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more SecretVersions
+    * const secretVersions = await prisma.secretVersion.findMany()
+    * ```
+    */
+  get secretVersion(): Prisma.SecretVersionDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.serviceAccount`: Exposes CRUD operations for the **ServiceAccount** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more ServiceAccounts
+    * const serviceAccounts = await prisma.serviceAccount.findMany()
+    * ```
+    */
+  get serviceAccount(): Prisma.ServiceAccountDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.serviceAccountGrant`: Exposes CRUD operations for the **ServiceAccountGrant** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more ServiceAccountGrants
+    * const serviceAccountGrants = await prisma.serviceAccountGrant.findMany()
+    * ```
+    */
+  get serviceAccountGrant(): Prisma.ServiceAccountGrantDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.terminal`: Exposes CRUD operations for the **Terminal** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Terminals
+    * const terminals = await prisma.terminal.findMany()
+    * ```
+    */
+  get terminal(): Prisma.TerminalDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.terminalSession`: Exposes CRUD operations for the **TerminalSession** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more TerminalSessions
+    * const terminalSessions = await prisma.terminalSession.findMany()
+    * ```
+    */
+  get terminalSession(): Prisma.TerminalSessionDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.terminalSessionLog`: Exposes CRUD operations for the **TerminalSessionLog** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more TerminalSessionLogs
+    * const terminalSessionLogs = await prisma.terminalSessionLog.findMany()
+    * ```
+    */
+  get terminalSessionLog(): Prisma.TerminalSessionLogDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.trigger`: Exposes CRUD operations for the **Trigger** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Triggers
+    * const triggers = await prisma.trigger.findMany()
+    * ```
+    */
+  get trigger(): Prisma.TriggerDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.unlockMethod`: Exposes CRUD operations for the **UnlockMethod** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more UnlockMethods
+    * const unlockMethods = await prisma.unlockMethod.findMany()
+    * ```
+    */
+  get unlockMethod(): Prisma.UnlockMethodDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.worker`: Exposes CRUD operations for the **Worker** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Workers
+    * const workers = await prisma.worker.findMany()
+    * ```
+    */
+  get worker(): Prisma.WorkerDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.workerOperationRequest`: Exposes CRUD operations for the **WorkerOperationRequest** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more WorkerOperationRequests
+    * const workerOperationRequests = await prisma.workerOperationRequest.findMany()
+    * ```
+    */
+  get workerOperationRequest(): Prisma.WorkerOperationRequestDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.workerVersion`: Exposes CRUD operations for the **WorkerVersion** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more WorkerVersions
+    * const workerVersions = await prisma.workerVersion.findMany()
+    * ```
+    */
+  get workerVersion(): Prisma.WorkerVersionDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.workerUnitRegistration`: Exposes CRUD operations for the **WorkerUnitRegistration** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more WorkerUnitRegistrations
+    * const workerUnitRegistrations = await prisma.workerUnitRegistration.findMany()
+    * ```
+    */
+  get workerUnitRegistration(): Prisma.WorkerUnitRegistrationDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.workerVersionLog`: Exposes CRUD operations for the **WorkerVersionLog** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more WorkerVersionLogs
+    * const workerVersionLogs = await prisma.workerVersionLog.findMany()
+    * ```
+    */
+  get workerVersionLog(): Prisma.WorkerVersionLogDelegate<ExtArgs, { omit: OmitOpts }>;
+}
+
+export function getPrismaClientClass(): PrismaClientConstructor {
+  return runtime.getPrismaClient(config) as unknown as PrismaClientConstructor
+}
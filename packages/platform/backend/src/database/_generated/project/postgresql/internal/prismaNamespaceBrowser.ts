@@ -0,0 +1,557 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * WARNING: This is an internal file that is subject to change!
+ *
+ * 🛑 Under no circumstances should you import this file directly! 🛑
+ *
+ * All exports from this file are wrapped under a `Prisma` namespace object in the browser.ts file.
+ * While this enables partial backward compatibility, it is not part of the stable public API.
+ *
+ * If you are looking for your Models, Enums, and Input Types, please import them from the respective
+ * model files in the `model` directory!
+ */
+
+import * as runtime from "@prisma/client/runtime/index-browser"
+
+export type * from '../models.ts'
+export type * from './prismaNamespace.ts'
+
+export const Decimal = runtime.Decimal
+
+
+export const NullTypes = {
+  DbNull: runtime.NullTypes.DbNull as (new (secret: never) => typeof runtime.DbNull),
+  JsonNull: runtime.NullTypes.JsonNull as (new (secret: never) => typeof runtime.JsonNull),
+  AnyNull: runtime.NullTypes.AnyNull as (new (secret: never) => typeof runtime.AnyNull),
+}
+/**
+ * Helper for filtering JSON entries that have `null` on the database (empty on the db)
+ *
+ * @see https://www.prisma.io/docs/concepts/components/prisma-client/working-with-fields/working-with-json-fields#filtering-on-a-json-field
+ */
+export const DbNull = runtime.DbNull
+
+/**
+ * Helper for filtering JSON entries that have JSON `null` values (not empty on the db)
+ *
+ * @see https://www.prisma.io/docs/concepts/components/prisma-client/working-with-fields/working-with-json-fields#filtering-on-a-json-field
+ */
+export const JsonNull = runtime.JsonNull
+
+/**
+ * Helper for filtering JSON entries that are `Prisma.DbNull` or `Prisma.JsonNull`
+ *
+ * @see https://www.prisma.io/docs/concepts/components/prisma-client/working-with-fields/working-with-json-fields#filtering-on-a-json-field
+ */
+export const AnyNull = runtime.AnyNull
+
+
+export const ModelName = {
+  ApiKey: 'ApiKey',
+  Artifact: 'Artifact',
+  InstanceCustomStatus: 'InstanceCustomStatus',
+  Entity: 'Entity',
+  EntitySnapshot: 'EntitySnapshot',
+  EntitySnapshotReference: 'EntitySnapshotReference',
+  EntitySnapshotContent: 'EntitySnapshotContent',
+  InstanceEvaluationState: 'InstanceEvaluationState',
+  InstanceState: 'InstanceState',
+  UserProjectViewport: 'UserProjectViewport',
+  UserCompositeViewport: 'UserCompositeViewport',
+  InstanceLock: 'InstanceLock',
+  InstanceModel: 'InstanceModel',
+  HubModel: 'HubModel',
+  Operation: 'Operation',
+  OperationApproval: 'OperationApproval',
+  InstanceOperationState: 'InstanceOperationState',
+  OperationLog: 'OperationLog',
+  Page: 'Page',
+  Secret: 'Secret',
+  SecretVersion: 'SecretVersion',
+  ServiceAccount: 'ServiceAccount',
+  ServiceAccountGrant: 'ServiceAccountGrant',
+  Terminal: 'Terminal',
+  TerminalSession: 'TerminalSession',
+  TerminalSessionLog: 'TerminalSessionLog',
+  Trigger: 'Trigger',
+  UnlockMethod: 'UnlockMethod',
+  Worker: 'Worker',
+  WorkerOperationRequest: 'WorkerOperationRequest',
+  WorkerVersion: 'WorkerVersion',
+  WorkerUnitRegistration: 'WorkerUnitRegistration',
+  WorkerVersionLog: 'WorkerVersionLog'
+} as const
+
+export type ModelName = (typeof ModelName)[keyof typeof ModelName]
+
+/*
+ * Enums
+ */
+
+export const TransactionIsolationLevel = runtime.makeStrictEnum({
+  ReadUncommitted: 'ReadUncommitted',
+  ReadCommitted: 'ReadCommitted',
+  RepeatableRead: 'RepeatableRead',
+  Serializable: 'Serializable'
+} as const)
+
+export type TransactionIsolationLevel = (typeof TransactionIsolationLevel)[keyof typeof TransactionIsolationLevel]
+
+
+export const ApiKeyScalarFieldEnum = {
+  id: 'id',
+  meta: 'meta',
+  serviceAccountId: 'serviceAccountId',
+  token: 'token',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ApiKeyScalarFieldEnum = (typeof ApiKeyScalarFieldEnum)[keyof typeof ApiKeyScalarFieldEnum]
+
+
+export const ArtifactScalarFieldEnum = {
+  id: 'id',
+  meta: 'meta',
+  hash: 'hash',
+  size: 'size',
+  chunkSize: 'chunkSize',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ArtifactScalarFieldEnum = (typeof ArtifactScalarFieldEnum)[keyof typeof ArtifactScalarFieldEnum]
+
+
+export const InstanceCustomStatusScalarFieldEnum = {
+  stateId: 'stateId',
+  serviceAccountId: 'serviceAccountId',
+  name: 'name',
+  meta: 'meta',
+  value: 'value',
+  message: 'message',
+  order: 'order',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type InstanceCustomStatusScalarFieldEnum = (typeof InstanceCustomStatusScalarFieldEnum)[keyof typeof InstanceCustomStatusScalarFieldEnum]
+
+
+export const EntityScalarFieldEnum = {
+  id: 'id',
+  type: 'type',
+  identity: 'identity'
+} as const
+
+export type EntityScalarFieldEnum = (typeof EntityScalarFieldEnum)[keyof typeof EntityScalarFieldEnum]
+
+
+export const EntitySnapshotScalarFieldEnum = {
+  id: 'id',
+  contentHash: 'contentHash',
+  entityId: 'entityId',
+  operationId: 'operationId',
+  stateId: 'stateId',
+  referencedInOutputs: 'referencedInOutputs',
+  exportedInOutputs: 'exportedInOutputs',
+  createdAt: 'createdAt'
+} as const
+
+export type EntitySnapshotScalarFieldEnum = (typeof EntitySnapshotScalarFieldEnum)[keyof typeof EntitySnapshotScalarFieldEnum]
+
+
+export const EntitySnapshotReferenceScalarFieldEnum = {
+  fromId: 'fromId',
+  toId: 'toId',
+  kind: 'kind',
+  group: 'group'
+} as const
+
+export type EntitySnapshotReferenceScalarFieldEnum = (typeof EntitySnapshotReferenceScalarFieldEnum)[keyof typeof EntitySnapshotReferenceScalarFieldEnum]
+
+
+export const EntitySnapshotContentScalarFieldEnum = {
+  hash: 'hash',
+  meta: 'meta',
+  content: 'content'
+} as const
+
+export type EntitySnapshotContentScalarFieldEnum = (typeof EntitySnapshotContentScalarFieldEnum)[keyof typeof EntitySnapshotContentScalarFieldEnum]
+
+
+export const InstanceEvaluationStateScalarFieldEnum = {
+  stateId: 'stateId',
+  status: 'status',
+  message: 'message',
+  model: 'model',
+  evaluatedAt: 'evaluatedAt'
+} as const
+
+export type InstanceEvaluationStateScalarFieldEnum = (typeof InstanceEvaluationStateScalarFieldEnum)[keyof typeof InstanceEvaluationStateScalarFieldEnum]
+
+
+export const InstanceStateScalarFieldEnum = {
+  id: 'id',
+  instanceId: 'instanceId',
+  status: 'status',
+  source: 'source',
+  kind: 'kind',
+  parentId: 'parentId',
+  inputHashNonce: 'inputHashNonce',
+  selfHash: 'selfHash',
+  inputHash: 'inputHash',
+  outputHash: 'outputHash',
+  dependencyOutputHash: 'dependencyOutputHash',
+  exportedArtifactIds: 'exportedArtifactIds',
+  model: 'model',
+  resolvedInputs: 'resolvedInputs',
+  currentResourceCount: 'currentResourceCount',
+  statusFields: 'statusFields',
+  hasResourceHooks: 'hasResourceHooks',
+  lastEditedBy: 'lastEditedBy',
+  lastEditedAt: 'lastEditedAt'
+} as const
+
+export type InstanceStateScalarFieldEnum = (typeof InstanceStateScalarFieldEnum)[keyof typeof InstanceStateScalarFieldEnum]
+
+
+export const UserProjectViewportScalarFieldEnum = {
+  userId: 'userId',
+  viewport: 'viewport'
+} as const
+
+export type UserProjectViewportScalarFieldEnum = (typeof UserProjectViewportScalarFieldEnum)[keyof typeof UserProjectViewportScalarFieldEnum]
+
+
+export const UserCompositeViewportScalarFieldEnum = {
+  userId: 'userId',
+  stateId: 'stateId',
+  viewport: 'viewport'
+} as const
+
+export type UserCompositeViewportScalarFieldEnum = (typeof UserCompositeViewportScalarFieldEnum)[keyof typeof UserCompositeViewportScalarFieldEnum]
+
+
+export const InstanceLockScalarFieldEnum = {
+  stateId: 'stateId',
+  meta: 'meta',
+  token: 'token',
+  holderId: 'holderId',
+  acquiredAt: 'acquiredAt'
+} as const
+
+export type InstanceLockScalarFieldEnum = (typeof InstanceLockScalarFieldEnum)[keyof typeof InstanceLockScalarFieldEnum]
+
+
+export const InstanceModelScalarFieldEnum = {
+  id: 'id',
+  model: 'model',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type InstanceModelScalarFieldEnum = (typeof InstanceModelScalarFieldEnum)[keyof typeof InstanceModelScalarFieldEnum]
+
+
+export const HubModelScalarFieldEnum = {
+  id: 'id',
+  model: 'model',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type HubModelScalarFieldEnum = (typeof HubModelScalarFieldEnum)[keyof typeof HubModelScalarFieldEnum]
+
+
+export const OperationScalarFieldEnum = {
+  id: 'id',
+  meta: 'meta',
+  type: 'type',
+  status: 'status',
+  options: 'options',
+  requestedInstanceIds: 'requestedInstanceIds',
+  phases: 'phases',
+  retriedOperationId: 'retriedOperationId',
+  approvalRequest: 'approvalRequest',
+  holderId: 'holderId',
+  startedAt: 'startedAt',
+  updatedAt: 'updatedAt',
+  finishedAt: 'finishedAt'
+} as const
+
+export type OperationScalarFieldEnum = (typeof OperationScalarFieldEnum)[keyof typeof OperationScalarFieldEnum]
+
+
+export const OperationApprovalScalarFieldEnum = {
+  id: 'id',
+  operationId: 'operationId',
+  userId: 'userId',
+  decision: 'decision',
+  comment: 'comment',
+  createdAt: 'createdAt'
+} as const
+
+export type OperationApprovalScalarFieldEnum = (typeof OperationApprovalScalarFieldEnum)[keyof typeof OperationApprovalScalarFieldEnum]
+
+
+export const InstanceOperationStateScalarFieldEnum = {
+  operationId: 'operationId',
+  stateId: 'stateId',
+  status: 'status',
+  currentResourceCount: 'currentResourceCount',
+  totalResourceCount: 'totalResourceCount',
+  resourceChanges: 'resourceChanges',
+  model: 'model',
+  resolvedInputs: 'resolvedInputs',
+  secrets: 'secrets',
+  startedAt: 'startedAt',
+  finishedAt: 'finishedAt'
+} as const
+
+export type InstanceOperationStateScalarFieldEnum = (typeof InstanceOperationStateScalarFieldEnum)[keyof typeof InstanceOperationStateScalarFieldEnum]
+
+
+export const OperationLogScalarFieldEnum = {
+  id: 'id',
+  operationId: 'operationId',
+  stateId: 'stateId',
+  isSystem: 'isSystem',
+  content: 'content'
+} as const
+
+export type OperationLogScalarFieldEnum = (typeof OperationLogScalarFieldEnum)[keyof typeof OperationLogScalarFieldEnum]
+
+
+export const PageScalarFieldEnum = {
+  id: 'id',
+  meta: 'meta',
+  stateId: 'stateId',
+  name: 'name',
+  serviceAccountId: 'serviceAccountId',
+  content: 'content',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type PageScalarFieldEnum = (typeof PageScalarFieldEnum)[keyof typeof PageScalarFieldEnum]
+
+
+export const SecretScalarFieldEnum = {
+  id: 'id',
+  meta: 'meta',
+  stateId: 'stateId',
+  name: 'name',
+  systemName: 'systemName',
+  serviceAccountId: 'serviceAccountId',
+  content: 'content',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  updatedBy: 'updatedBy'
+} as const
+
+export type SecretScalarFieldEnum = (typeof SecretScalarFieldEnum)[keyof typeof SecretScalarFieldEnum]
+
+
+export const SecretVersionScalarFieldEnum = {
+  id: 'id',
+  secretId: 'secretId',
+  content: 'content',
+  createdAt: 'createdAt'
+} as const
+
+export type SecretVersionScalarFieldEnum = (typeof SecretVersionScalarFieldEnum)[keyof typeof SecretVersionScalarFieldEnum]
+
+
+export const ServiceAccountScalarFieldEnum = {
+  id: 'id',
+  meta: 'meta',
+  canRequestOperations: 'canRequestOperations',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ServiceAccountScalarFieldEnum = (typeof ServiceAccountScalarFieldEnum)[keyof typeof ServiceAccountScalarFieldEnum]
+
+
+export const ServiceAccountGrantScalarFieldEnum = {
+  id: 'id',
+  serviceAccountId: 'serviceAccountId',
+  stateId: 'stateId',
+  secretId: 'secretId',
+  createdAt: 'createdAt'
+} as const
+
+export type ServiceAccountGrantScalarFieldEnum = (typeof ServiceAccountGrantScalarFieldEnum)[keyof typeof ServiceAccountGrantScalarFieldEnum]
+
+
+export const TerminalScalarFieldEnum = {
+  id: 'id',
+  meta: 'meta',
+  status: 'status',
+  spec: 'spec',
+  stateId: 'stateId',
+  name: 'name',
+  serviceAccountId: 'serviceAccountId',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type TerminalScalarFieldEnum = (typeof TerminalScalarFieldEnum)[keyof typeof TerminalScalarFieldEnum]
+
+
+export const TerminalSessionScalarFieldEnum = {
+  id: 'id',
+  terminalId: 'terminalId',
+  startedAt: 'startedAt',
+  finishedAt: 'finishedAt'
+} as const
+
+export type TerminalSessionScalarFieldEnum = (typeof TerminalSessionScalarFieldEnum)[keyof typeof TerminalSessionScalarFieldEnum]
+
+
+export const TerminalSessionLogScalarFieldEnum = {
+  id: 'id',
+  sessionId: 'sessionId',
+  content: 'content'
+} as const
+
+export type TerminalSessionLogScalarFieldEnum = (typeof TerminalSessionLogScalarFieldEnum)[keyof typeof TerminalSessionLogScalarFieldEnum]
+
+
+export const TriggerScalarFieldEnum = {
+  id: 'id',
+  meta: 'meta',
+  stateId: 'stateId',
+  name: 'name',
+  spec: 'spec',
+  lastRunAt: 'lastRunAt',
+  nextRunAt: 'nextRunAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type TriggerScalarFieldEnum = (typeof TriggerScalarFieldEnum)[keyof typeof TriggerScalarFieldEnum]
+
+
+export const UnlockMethodScalarFieldEnum = {
+  id: 'id',
+  meta: 'meta',
+  type: 'type',
+  encryptedIdentity: 'encryptedIdentity',
+  recipient: 'recipient',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type UnlockMethodScalarFieldEnum = (typeof UnlockMethodScalarFieldEnum)[keyof typeof UnlockMethodScalarFieldEnum]
+
+
+export const WorkerScalarFieldEnum = {
+  id: 'id',
+  identity: 'identity',
+  serviceAccountId: 'serviceAccountId',
+  createdAt: 'createdAt'
+} as const
+
+export type WorkerScalarFieldEnum = (typeof WorkerScalarFieldEnum)[keyof typeof WorkerScalarFieldEnum]
+
+
+export const WorkerOperationRequestScalarFieldEnum = {
+  id: 'id',
+  workerId: 'workerId',
+  createdAt: 'createdAt'
+} as const
+
+export type WorkerOperationRequestScalarFieldEnum = (typeof WorkerOperationRequestScalarFieldEnum)[keyof typeof WorkerOperationRequestScalarFieldEnum]
+
+
+export const WorkerVersionScalarFieldEnum = {
+  id: 'id',
+  meta: 'meta',
+  status: 'status',
+  enabled: 'enabled',
+  runtimeId: 'runtimeId',
+  workerId: 'workerId',
+  digest: 'digest',
+  apiKeyId: 'apiKeyId',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type WorkerVersionScalarFieldEnum = (typeof WorkerVersionScalarFieldEnum)[keyof typeof WorkerVersionScalarFieldEnum]
+
+
+export const WorkerUnitRegistrationScalarFieldEnum = {
+  stateId: 'stateId',
+  name: 'name',
+  params: 'params',
+  workerVersionId: 'workerVersionId',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type WorkerUnitRegistrationScalarFieldEnum = (typeof WorkerUnitRegistrationScalarFieldEnum)[keyof typeof WorkerUnitRegistrationScalarFieldEnum]
+
+
+export const WorkerVersionLogScalarFieldEnum = {
+  id: 'id',
+  workerVersionId: 'workerVersionId',
+  content: 'content',
+  isSystem: 'isSystem'
+} as const
+
+export type WorkerVersionLogScalarFieldEnum = (typeof WorkerVersionLogScalarFieldEnum)[keyof typeof WorkerVersionLogScalarFieldEnum]
+
+
+export const SortOrder = {
+  asc: 'asc',
+  desc: 'desc'
+} as const
+
+export type SortOrder = (typeof SortOrder)[keyof typeof SortOrder]
+
+
+export const JsonNullValueInput = {
+  JsonNull: JsonNull
+} as const
+
+export type JsonNullValueInput = (typeof JsonNullValueInput)[keyof typeof JsonNullValueInput]
+
+
+export const NullableJsonNullValueInput = {
+  DbNull: DbNull,
+  JsonNull: JsonNull
+} as const
+
+export type NullableJsonNullValueInput = (typeof NullableJsonNullValueInput)[keyof typeof NullableJsonNullValueInput]
+
+
+export const QueryMode = {
+  default: 'default',
+  insensitive: 'insensitive'
+} as const
+
+export type QueryMode = (typeof QueryMode)[keyof typeof QueryMode]
+
+
+export const JsonNullValueFilter = {
+  DbNull: DbNull,
+  JsonNull: JsonNull,
+  AnyNull: AnyNull
+} as const
+
+export type JsonNullValueFilter = (typeof JsonNullValueFilter)[keyof typeof JsonNullValueFilter]
+
+
+export const NullsOrder = {
+  first: 'first',
+  last: 'last'
+} as const
+
+export type NullsOrder = (typeof NullsOrder)[keyof typeof NullsOrder]
+
@@ -23,17 +23,21 @@ export type * from './models/InstanceLock.ts'
 export type * from './models/InstanceModel.ts'
 export type * from './models/HubModel.ts'
 export type * from './models/Operation.ts'
+export type * from './models/OperationApproval.ts'
 export type * from './models/InstanceOperationState.ts'
 export type * from './models/OperationLog.ts'
 export type * from './models/Page.ts'
 export type * from './models/Secret.ts'
+export type * from './models/SecretVersion.ts'
 export type * from './models/ServiceAccount.ts'
+export type * from './models/ServiceAccountGrant.ts'
 export type * from './models/Terminal.ts'
 export type * from './models/TerminalSession.ts'
 export type * from './models/TerminalSessionLog.ts'
 export type * from './models/Trigger.ts'
 export type * from './models/UnlockMethod.ts'
 export type * from './models/Worker.ts'
+export type * from './models/WorkerOperationRequest.ts'
 export type * from './models/WorkerVersion.ts'
 export type * from './models/WorkerUnitRegistration.ts'
 export type * from './models/WorkerVersionLog.ts'
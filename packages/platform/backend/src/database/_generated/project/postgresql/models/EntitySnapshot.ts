@@ -0,0 +1,2395 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `EntitySnapshot` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+
+import type * as PJTG from '../pjtg.ts';
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.ts"
+import type * as Prisma from "../internal/prismaNamespace.ts"
+
+/**
+ * Model EntitySnapshot
+ * This model represents an immutable snapshot of an entity at a certain point of time
+ * provide by some component instance during an operation.
+ */
+export type EntitySnapshotModel = runtime.Types.Result.DefaultSelection<Prisma.$EntitySnapshotPayload>
+
+export type AggregateEntitySnapshot = {
+  _count: EntitySnapshotCountAggregateOutputType | null
+  _min: EntitySnapshotMinAggregateOutputType | null
+  _max: EntitySnapshotMaxAggregateOutputType | null
+}
+
+export type EntitySnapshotMinAggregateOutputType = {
+  id: string | null
+  contentHash: string | null
+  entityId: string | null
+  operationId: string | null
+  stateId: string | null
+  createdAt: Date | null
+}
+
+export type EntitySnapshotMaxAggregateOutputType = {
+  id: string | null
+  contentHash: string | null
+  entityId: string | null
+  operationId: string | null
+  stateId: string | null
+  createdAt: Date | null
+}
+
+export type EntitySnapshotCountAggregateOutputType = {
+  id: number
+  contentHash: number
+  entityId: number
+  operationId: number
+  stateId: number
+  referencedInOutputs: number
+  exportedInOutputs: number
+  createdAt: number
+  _all: number
+}
+
+
+export type EntitySnapshotMinAggregateInputType = {
+  id?: true
+  contentHash?: true
+  entityId?: true
+  operationId?: true
+  stateId?: true
+  createdAt?: true
+}
+
+export type EntitySnapshotMaxAggregateInputType = {
+  id?: true
+  contentHash?: true
+  entityId?: true
+  operationId?: true
+  stateId?: true
+  createdAt?: true
+}
+
+export type EntitySnapshotCountAggregateInputType = {
+  id?: true
+  contentHash?: true
+  entityId?: true
+  operationId?: true
+  stateId?: true
+  referencedInOutputs?: true
+  exportedInOutputs?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type EntitySnapshotAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which EntitySnapshot to aggregate.
+   */
+  where?: Prisma.EntitySnapshotWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of EntitySnapshots to fetch.
+   */
+  orderBy?: Prisma.EntitySnapshotOrderByWithRelationInput | Prisma.EntitySnapshotOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.EntitySnapshotWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` EntitySnapshots from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` EntitySnapshots.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned EntitySnapshots
+  **/
+  _count?: true | EntitySnapshotCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: EntitySnapshotMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: EntitySnapshotMaxAggregateInputType
+}
+
+export type GetEntitySnapshotAggregateType<T extends EntitySnapshotAggregateArgs> = {
+      [P in keyof T & keyof AggregateEntitySnapshot]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateEntitySnapshot[P]>
+    : Prisma.GetScalarType<T[P], AggregateEntitySnapshot[P]>
+}
+
+
+
+
+export type EntitySnapshotGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.EntitySnapshotWhereInput
+  orderBy?: Prisma.EntitySnapshotOrderByWithAggregationInput | Prisma.EntitySnapshotOrderByWithAggregationInput[]
+  by: Prisma.EntitySnapshotScalarFieldEnum[] | Prisma.EntitySnapshotScalarFieldEnum
+  having?: Prisma.EntitySnapshotScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: EntitySnapshotCountAggregateInputType | true
+  _min?: EntitySnapshotMinAggregateInputType
+  _max?: EntitySnapshotMaxAggregateInputType
+}
+
+export type EntitySnapshotGroupByOutputType = {
+  id: string
+  contentHash: string
+  entityId: string
+  operationId: string
+  stateId: string
+  referencedInOutputs:(string[])
+  exportedInOutputs:(string[])
+  createdAt: Date
+  _count: EntitySnapshotCountAggregateOutputType | null
+  _min: EntitySnapshotMinAggregateOutputType | null
+  _max: EntitySnapshotMaxAggregateOutputType | null
+}
+
+type GetEntitySnapshotGroupByPayload<T extends EntitySnapshotGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<EntitySnapshotGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof EntitySnapshotGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], EntitySnapshotGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], EntitySnapshotGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type EntitySnapshotWhereInput = {
+  AND?: Prisma.EntitySnapshotWhereInput | Prisma.EntitySnapshotWhereInput[]
+  OR?: Prisma.EntitySnapshotWhereInput[]
+  NOT?: Prisma.EntitySnapshotWhereInput | Prisma.EntitySnapshotWhereInput[]
+  id?: Prisma.StringFilter<"EntitySnapshot"> | string
+  contentHash?: Prisma.StringFilter<"EntitySnapshot"> | string
+  entityId?: Prisma.StringFilter<"EntitySnapshot"> | string
+  operationId?: Prisma.StringFilter<"EntitySnapshot"> | string
+  stateId?: Prisma.StringFilter<"EntitySnapshot"> | string
+  referencedInOutputs?: Prisma.JsonFilter<"EntitySnapshot">
+  exportedInOutputs?: Prisma.JsonFilter<"EntitySnapshot">
+  createdAt?: Prisma.DateTimeFilter<"EntitySnapshot"> | Date | string
+  content?: Prisma.XOR<Prisma.EntitySnapshotContentScalarRelationFilter, Prisma.EntitySnapshotContentWhereInput>
+  entity?: Prisma.XOR<Prisma.EntityScalarRelationFilter, Prisma.EntityWhereInput>
+  operation?: Prisma.XOR<Prisma.OperationScalarRelationFilter, Prisma.OperationWhereInput>
+  state?: Prisma.XOR<Prisma.InstanceStateScalarRelationFilter, Prisma.InstanceStateWhereInput>
+  references?: Prisma.EntitySnapshotReferenceListRelationFilter
+  referencedBy?: Prisma.EntitySnapshotReferenceListRelationFilter
+  artifacts?: Prisma.ArtifactListRelationFilter
+}
+
+export type EntitySnapshotOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  contentHash?: Prisma.SortOrder
+  entityId?: Prisma.SortOrder
+  operationId?: Prisma.SortOrder
+  stateId?: Prisma.SortOrder
+  referencedInOutputs?: Prisma.SortOrder
+  exportedInOutputs?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  content?: Prisma.EntitySnapshotContentOrderByWithRelationInput
+  entity?: Prisma.EntityOrderByWithRelationInput
+  operation?: Prisma.OperationOrderByWithRelationInput
+  state?: Prisma.InstanceStateOrderByWithRelationInput
+  references?: Prisma.EntitySnapshotReferenceOrderByRelationAggregateInput
+  referencedBy?: Prisma.EntitySnapshotReferenceOrderByRelationAggregateInput
+  artifacts?: Prisma.ArtifactOrderByRelationAggregateInput
+}
+
+export type EntitySnapshotWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.EntitySnapshotWhereInput | Prisma.EntitySnapshotWhereInput[]
+  OR?: Prisma.EntitySnapshotWhereInput[]
+  NOT?: Prisma.EntitySnapshotWhereInput | Prisma.EntitySnapshotWhereInput[]
+  contentHash?: Prisma.StringFilter<"EntitySnapshot"> | string
+  entityId?: Prisma.StringFilter<"EntitySnapshot"> | string
+  operationId?: Prisma.StringFilter<"EntitySnapshot"> | string
+  stateId?: Prisma.StringFilter<"EntitySnapshot"> | string
+  referencedInOutputs?: Prisma.JsonFilter<"EntitySnapshot">
+  exportedInOutputs?: Prisma.JsonFilter<"EntitySnapshot">
+  createdAt?: Prisma.DateTimeFilter<"EntitySnapshot"> | Date | string
+  content?: Prisma.XOR<Prisma.EntitySnapshotContentScalarRelationFilter, Prisma.EntitySnapshotContentWhereInput>
+  entity?: Prisma.XOR<Prisma.EntityScalarRelationFilter, Prisma.EntityWhereInput>
+  operation?: Prisma.XOR<Prisma.OperationScalarRelationFilter, Prisma.OperationWhereInput>
+  state?: Prisma.XOR<Prisma.InstanceStateScalarRelationFilter, Prisma.InstanceStateWhereInput>
+  references?: Prisma.EntitySnapshotReferenceListRelationFilter
+  referencedBy?: Prisma.EntitySnapshotReferenceListRelationFilter
+  artifacts?: Prisma.ArtifactListRelationFilter
+}, "id">
+
+export type EntitySnapshotOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  contentHash?: Prisma.SortOrder
+  entityId?: Prisma.SortOrder
+  operationId?: Prisma.SortOrder
+  stateId?: Prisma.SortOrder
+  referencedInOutputs?: Prisma.SortOrder
+  exportedInOutputs?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.EntitySnapshotCountOrderByAggregateInput
+  _max?: Prisma.EntitySnapshotMaxOrderByAggregateInput
+  _min?: Prisma.EntitySnapshotMinOrderByAggregateInput
+}
+
+export type EntitySnapshotScalarWhereWithAggregatesInput = {
+  AND?: Prisma.EntitySnapshotScalarWhereWithAggregatesInput | Prisma.EntitySnapshotScalarWhereWithAggregatesInput[]
+  OR?: Prisma.EntitySnapshotScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.EntitySnapshotScalarWhereWithAggregatesInput | Prisma.EntitySnapshotScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"EntitySnapshot"> | string
+  contentHash?: Prisma.StringWithAggregatesFilter<"EntitySnapshot"> | string
+  entityId?: Prisma.StringWithAggregatesFilter<"EntitySnapshot"> | string
+  operationId?: Prisma.StringWithAggregatesFilter<"EntitySnapshot"> | string
+  stateId?: Prisma.StringWithAggregatesFilter<"EntitySnapshot"> | string
+  referencedInOutputs?: Prisma.JsonWithAggregatesFilter<"EntitySnapshot">
+  exportedInOutputs?: Prisma.JsonWithAggregatesFilter<"EntitySnapshot">
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"EntitySnapshot"> | Date | string
+}
+
+export type EntitySnapshotCreateInput = {
+  id?: string
+  referencedInOutputs:(string[])
+  exportedInOutputs:(string[])
+  createdAt?: Date | string
+  content: Prisma.EntitySnapshotContentCreateNestedOneWithoutSnapshotsInput
+  entity: Prisma.EntityCreateNestedOneWithoutSnapshotsInput
+  operation: Prisma.OperationCreateNestedOneWithoutEntitySnapshotsInput
+  state: Prisma.InstanceStateCreateNestedOneWithoutEntitySnapshotsInput
+  references?: Prisma.EntitySnapshotReferenceCreateNestedManyWithoutFromInput
+  referencedBy?: Prisma.EntitySnapshotReferenceCreateNestedManyWithoutToInput
+  artifacts?: Prisma.ArtifactCreateNestedManyWithoutEntitySnapshotsInput
+}
+
+export type EntitySnapshotUncheckedCreateInput = {
+  id?: string
+  contentHash: string
+  entityId: string
+  operationId: string
+  stateId: string
+  referencedInOutputs:(string[])
+  exportedInOutputs:(string[])
+  createdAt?: Date | string
+  references?: Prisma.EntitySnapshotReferenceUncheckedCreateNestedManyWithoutFromInput
+  referencedBy?: Prisma.EntitySnapshotReferenceUncheckedCreateNestedManyWithoutToInput
+  artifacts?: Prisma.ArtifactUncheckedCreateNestedManyWithoutEntitySnapshotsInput
+}
+
+export type EntitySnapshotUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  referencedInOutputs?:(string[])
+  exportedInOutputs?:(string[])
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  content?: Prisma.EntitySnapshotContentUpdateOneRequiredWithoutSnapshotsNestedInput
+  entity?: Prisma.EntityUpdateOneRequiredWithoutSnapshotsNestedInput
+  operation?: Prisma.OperationUpdateOneRequiredWithoutEntitySnapshotsNestedInput
+  state?: Prisma.InstanceStateUpdateOneRequiredWithoutEntitySnapshotsNestedInput
+  references?: Prisma.EntitySnapshotReferenceUpdateManyWithoutFromNestedInput
+  referencedBy?: Prisma.EntitySnapshotReferenceUpdateManyWithoutToNestedInput
+  artifacts?: Prisma.ArtifactUpdateManyWithoutEntitySnapshotsNestedInput
+}
+
+export type EntitySnapshotUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  contentHash?: Prisma.StringFieldUpdateOperationsInput | string
+  entityId?: Prisma.StringFieldUpdateOperationsInput | string
+  operationId?: Prisma.StringFieldUpdateOperationsInput | string
+  stateId?: Prisma.StringFieldUpdateOperationsInput | string
+  referencedInOutputs?:(string[])
+  exportedInOutputs?:(string[])
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  references?: Prisma.EntitySnapshotReferenceUncheckedUpdateManyWithoutFromNestedInput
+  referencedBy?: Prisma.EntitySnapshotReferenceUncheckedUpdateManyWithoutToNestedInput
+  artifacts?: Prisma.ArtifactUncheckedUpdateManyWithoutEntitySnapshotsNestedInput
+}
+
+export type EntitySnapshotCreateManyInput = {
+  id?: string
+  contentHash: string
+  entityId: string
+  operationId: string
+  stateId: string
+  referencedInOutputs:(string[])
+  exportedInOutputs:(string[])
+  createdAt?: Date | string
+}
+
+export type EntitySnapshotUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  referencedInOutputs?:(string[])
+  exportedInOutputs?:(string[])
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type EntitySnapshotUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  contentHash?: Prisma.StringFieldUpdateOperationsInput | string
+  entityId?: Prisma.StringFieldUpdateOperationsInput | string
+  operationId?: Prisma.StringFieldUpdateOperationsInput | string
+  stateId?: Prisma.StringFieldUpdateOperationsInput | string
+  referencedInOutputs?:(string[])
+  exportedInOutputs?:(string[])
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type EntitySnapshotListRelationFilter = {
+  every?: Prisma.EntitySnapshotWhereInput
+  some?: Prisma.EntitySnapshotWhereInput
+  none?: Prisma.EntitySnapshotWhereInput
+}
+
+export type EntitySnapshotOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type EntitySnapshotCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  contentHash?: Prisma.SortOrder
+  entityId?: Prisma.SortOrder
+  operationId?: Prisma.SortOrder
+  stateId?: Prisma.SortOrder
+  referencedInOutputs?: Prisma.SortOrder
+  exportedInOutputs?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type EntitySnapshotMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  contentHash?: Prisma.SortOrder
+  entityId?: Prisma.SortOrder
+  operationId?: Prisma.SortOrder
+  stateId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type EntitySnapshotMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  contentHash?: Prisma.SortOrder
+  entityId?: Prisma.SortOrder
+  operationId?: Prisma.SortOrder
+  stateId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type EntitySnapshotScalarRelationFilter = {
+  is?: Prisma.EntitySnapshotWhereInput
+  isNot?: Prisma.EntitySnapshotWhereInput
+}
+
+export type EntitySnapshotCreateNestedManyWithoutArtifactsInput = {
+  create?: Prisma.XOR<Prisma.EntitySnapshotCreateWithoutArtifactsInput, Prisma.EntitySnapshotUncheckedCreateWithoutArtifactsInput> | Prisma.EntitySnapshotCreateWithoutArtifactsInput[] | Prisma.EntitySnapshotUncheckedCreateWithoutArtifactsInput[]
+  connectOrCreate?: Prisma.EntitySnapshotCreateOrConnectWithoutArtifactsInput | Prisma.EntitySnapshotCreateOrConnectWithoutArtifactsInput[]
+  connect?: Prisma.EntitySnapshotWhereUniqueInput | Prisma.EntitySnapshotWhereUniqueInput[]
+}
+
+export type EntitySnapshotUncheckedCreateNestedManyWithoutArtifactsInput = {
+  create?: Prisma.XOR<Prisma.EntitySnapshotCreateWithoutArtifactsInput, Prisma.EntitySnapshotUncheckedCreateWithoutArtifactsInput> | Prisma.EntitySnapshotCreateWithoutArtifactsInput[] | Prisma.EntitySnapshotUncheckedCreateWithoutArtifactsInput[]
+  connectOrCreate?: Prisma.EntitySnapshotCreateOrConnectWithoutArtifactsInput | Prisma.EntitySnapshotCreateOrConnectWithoutArtifactsInput[]
+  connect?: Prisma.EntitySnapshotWhereUniqueInput | Prisma.EntitySnapshotWhereUniqueInput[]
+}
+
+export type EntitySnapshotUpdateManyWithoutArtifactsNestedInput = {
+  create?: Prisma.XOR<Prisma.EntitySnapshotCreateWithoutArtifactsInput, Prisma.EntitySnapshotUncheckedCreateWithoutArtifactsInput> | Prisma.EntitySnapshotCreateWithoutArtifactsInput[] | Prisma.EntitySnapshotUncheckedCreateWithoutArtifactsInput[]
+  connectOrCreate?: Prisma.EntitySnapshotCreateOrConnectWithoutArtifactsInput | Prisma.EntitySnapshotCreateOrConnectWithoutArtifactsInput[]
+  upsert?: Prisma.EntitySnapshotUpsertWithWhereUniqueWithoutArtifactsInput | Prisma.EntitySnapshotUpsertWithWhereUniqueWithoutArtifactsInput[]
+  set?: Prisma.EntitySnapshotWhereUniqueInput | Prisma.EntitySnapshotWhereUniqueInput[]
+  disconnect?: Prisma.EntitySnapshotWhereUniqueInput | Prisma.EntitySnapshotWhereUniqueInput[]
+  delete?: Prisma.EntitySnapshotWhereUniqueInput | Prisma.EntitySnapshotWhereUniqueInput[]
+  connect?: Prisma.EntitySnapshotWhereUniqueInput | Prisma.EntitySnapshotWhereUniqueInput[]
+  update?: Prisma.EntitySnapshotUpdateWithWhereUniqueWithoutArtifactsInput | Prisma.EntitySnapshotUpdateWithWhereUniqueWithoutArtifactsInput[]
+  updateMany?: Prisma.EntitySnapshotUpdateManyWithWhereWithoutArtifactsInput | Prisma.EntitySnapshotUpdateManyWithWhereWithoutArtifactsInput[]
+  deleteMany?: Prisma.EntitySnapshotScalarWhereInput | Prisma.EntitySnapshotScalarWhereInput[]
+}
+
+export type EntitySnapshotUncheckedUpdateManyWithoutArtifactsNestedInput = {
+  create?: Prisma.XOR<Prisma.EntitySnapshotCreateWithoutArtifactsInput, Prisma.EntitySnapshotUncheckedCreateWithoutArtifactsInput> | Prisma.EntitySnapshotCreateWithoutArtifactsInput[] | Prisma.EntitySnapshotUncheckedCreateWithoutArtifactsInput[]
+  connectOrCreate?: Prisma.EntitySnapshotCreateOrConnectWithoutArtifactsInput | Prisma.EntitySnapshotCreateOrConnectWithoutArtifactsInput[]
+  upsert?: Prisma.EntitySnapshotUpsertWithWhereUniqueWithoutArtifactsInput | Prisma.EntitySnapshotUpsertWithWhereUniqueWithoutArtifactsInput[]
+  set?: Prisma.EntitySnapshotWhereUniqueInput | Prisma.EntitySnapshotWhereUniqueInput[]
+  disconnect?: Prisma.EntitySnapshotWhereUniqueInput | Prisma.EntitySnapshotWhereUniqueInput[]
+  delete?: Prisma.EntitySnapshotWhereUniqueInput | Prisma.EntitySnapshotWhereUniqueInput[]
+  connect?: Prisma.EntitySnapshotWhereUniqueInput | Prisma.EntitySnapshotWhereUniqueInput[]
+  update?: Prisma.EntitySnapshotUpdateWithWhereUniqueWithoutArtifactsInput | Prisma.EntitySnapshotUpdateWithWhereUniqueWithoutArtifactsInput[]
+  updateMany?: Prisma.EntitySnapshotUpdateManyWithWhereWithoutArtifactsInput | Prisma.EntitySnapshotUpdateManyWithWhereWithoutArtifactsInput[]
+  deleteMany?: Prisma.EntitySnapshotScalarWhereInput | Prisma.EntitySnapshotScalarWhereInput[]
+}
+
+export type EntitySnapshotCreateNestedManyWithoutEntityInput = {
+  create?: Prisma.XOR<Prisma.EntitySnapshotCreateWithoutEntityInput, Prisma.EntitySnapshotUncheckedCreateWithoutEntityInput> | Prisma.EntitySnapshotCreateWithoutEntityInput[] | Prisma.EntitySnapshotUncheckedCreateWithoutEntityInput[]
+  connectOrCreate?: Prisma.EntitySnapshotCreateOrConnectWithoutEntityInput | Prisma.EntitySnapshotCreateOrConnectWithoutEntityInput[]
+  createMany?: Prisma.EntitySnapshotCreateManyEntityInputEnvelope
+  connect?: Prisma.EntitySnapshotWhereUniqueInput | Prisma.EntitySnapshotWhereUniqueInput[]
+}
+
+export type EntitySnapshotUncheckedCreateNestedManyWithoutEntityInput = {
+  create?: Prisma.XOR<Prisma.EntitySnapshotCreateWithoutEntityInput, Prisma.EntitySnapshotUncheckedCreateWithoutEntityInput> | Prisma.EntitySnapshotCreateWithoutEntityInput[] | Prisma.EntitySnapshotUncheckedCreateWithoutEntityInput[]
+  connectOrCreate?: Prisma.EntitySnapshotCreateOrConnectWithoutEntityInput | Prisma.EntitySnapshotCreateOrConnectWithoutEntityInput[]
+  createMany?: Prisma.EntitySnapshotCreateManyEntityInputEnvelope
+  connect?: Prisma.EntitySnapshotWhereUniqueInput | Prisma.EntitySnapshotWhereUniqueInput[]
+}
+
+export type EntitySnapshotUpdateManyWithoutEntityNestedInput = {
+  create?: Prisma.XOR<Prisma.EntitySnapshotCreateWithoutEntityInput, Prisma.EntitySnapshotUncheckedCreateWithoutEntityInput> | Prisma.EntitySnapshotCreateWithoutEntityInput[] | Prisma.EntitySnapshotUncheckedCreateWithoutEntityInput[]
+  connectOrCreate?: Prisma.EntitySnapshotCreateOrConnectWithoutEntityInput | Prisma.EntitySnapshotCreateOrConnectWithoutEntityInput[]
+  upsert?: Prisma.EntitySnapshotUpsertWithWhereUniqueWithoutEntityInput | Prisma.EntitySnapshotUpsertWithWhereUniqueWithoutEntityInput[]
+  createMany?: Prisma.EntitySnapshotCreateManyEntityInputEnvelope
+  set?: Prisma.EntitySnapshotWhereUniqueInput | Prisma.EntitySnapshotWhereUniqueInput[]
+  disconnect?: Prisma.EntitySnapshotWhereUniqueInput | Prisma.EntitySnapshotWhereUniqueInput[]
+  delete?: Prisma.EntitySnapshotWhereUniqueInput | Prisma.EntitySnapshotWhereUniqueInput[]
+  connect?: Prisma.EntitySnapshotWhereUniqueInput | Prisma.EntitySnapshotWhereUniqueInput[]
+  update?: Prisma.EntitySnapshotUpdateWithWhereUniqueWithoutEntityInput | Prisma.EntitySnapshotUpdateWithWhereUniqueWithoutEntityInput[]
+  updateMany?: Prisma.EntitySnapshotUpdateManyWithWhereWithoutEntityInput | Prisma.EntitySnapshotUpdateManyWithWhereWithoutEntityInput[]
+  deleteMany?: Prisma.EntitySnapshotScalarWhereInput | Prisma.EntitySnapshotScalarWhereInput[]
+}
+
+export type EntitySnapshotUncheckedUpdateManyWithoutEntityNestedInput = {
+  create?: Prisma.XOR<Prisma.EntitySnapshotCreateWithoutEntityInput, Prisma.EntitySnapshotUncheckedCreateWithoutEntityInput> | Prisma.EntitySnapshotCreateWithoutEntityInput[] | Prisma.EntitySnapshotUncheckedCreateWithoutEntityInput[]
+  connectOrCreate?: Prisma.EntitySnapshotCreateOrConnectWithoutEntityInput | Prisma.EntitySnapshotCreateOrConnectWithoutEntityInput[]
+  upsert?: Prisma.EntitySnapshotUpsertWithWhereUniqueWithoutEntityInput | Prisma.EntitySnapshotUpsertWithWhereUniqueWithoutEntityInput[]
+  createMany?: Prisma.EntitySnapshotCreateManyEntityInputEnvelope
+  set?: Prisma.EntitySnapshotWhereUniqueInput | Prisma.EntitySnapshotWhereUniqueInput[]
+  disconnect?: Prisma.EntitySnapshotWhereUniqueInput | Prisma.EntitySnapshotWhereUniqueInput[]
+  delete?: Prisma.EntitySnapshotWhereUniqueInput | Prisma.EntitySnapshotWhereUniqueInput[]
+  connect?: Prisma.EntitySnapshotWhereUniqueInput | Prisma.EntitySnapshotWhereUniqueInput[]
+  update?: Prisma.EntitySnapshotUpdateWithWhereUniqueWithoutEntityInput | Prisma.EntitySnapshotUpdateWithWhereUniqueWithoutEntityInput[]
+  updateMany?: Prisma.EntitySnapshotUpdateManyWithWhereWithoutEntityInput | Prisma.EntitySnapshotUpdateManyWithWhereWithoutEntityInput[]
+  deleteMany?: Prisma.EntitySnapshotScalarWhereInput | Prisma.EntitySnapshotScalarWhereInput[]
+}
+
+export type EntitySnapshotCreateNestedOneWithoutReferencesInput = {
+  create?: Prisma.XOR<Prisma.EntitySnapshotCreateWithoutReferencesInput, Prisma.EntitySnapshotUncheckedCreateWithoutReferencesInput>
+  connectOrCreate?: Prisma.EntitySnapshotCreateOrConnectWithoutReferencesInput
+  connect?: Prisma.EntitySnapshotWhereUniqueInput
+}
+
+export type EntitySnapshotCreateNestedOneWithoutReferencedByInput = {
+  create?: Prisma.XOR<Prisma.EntitySnapshotCreateWithoutReferencedByInput, Prisma.EntitySnapshotUncheckedCreateWithoutReferencedByInput>
+  connectOrCreate?: Prisma.EntitySnapshotCreateOrConnectWithoutReferencedByInput
+  connect?: Prisma.EntitySnapshotWhereUniqueInput
+}
+
+export type EntitySnapshotUpdateOneRequiredWithoutReferencesNestedInput = {
+  create?: Prisma.XOR<Prisma.EntitySnapshotCreateWithoutReferencesInput, Prisma.EntitySnapshotUncheckedCreateWithoutReferencesInput>
+  connectOrCreate?: Prisma.EntitySnapshotCreateOrConnectWithoutReferencesInput
+  upsert?: Prisma.EntitySnapshotUpsertWithoutReferencesInput
+  connect?: Prisma.EntitySnapshotWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.EntitySnapshotUpdateToOneWithWhereWithoutReferencesInput, Prisma.EntitySnapshotUpdateWithoutReferencesInput>, Prisma.EntitySnapshotUncheckedUpdateWithoutReferencesInput>
+}
+
+export type EntitySnapshotUpdateOneRequiredWithoutReferencedByNestedInput = {
+  create?: Prisma.XOR<Prisma.EntitySnapshotCreateWithoutReferencedByInput, Prisma.EntitySnapshotUncheckedCreateWithoutReferencedByInput>
+  connectOrCreate?: Prisma.EntitySnapshotCreateOrConnectWithoutReferencedByInput
+  upsert?: Prisma.EntitySnapshotUpsertWithoutReferencedByInput
+  connect?: Prisma.EntitySnapshotWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.EntitySnapshotUpdateToOneWithWhereWithoutReferencedByInput, Prisma.EntitySnapshotUpdateWithoutReferencedByInput>, Prisma.EntitySnapshotUncheckedUpdateWithoutReferencedByInput>
+}
+
+export type EntitySnapshotCreateNestedManyWithoutContentInput = {
+  create?: Prisma.XOR<Prisma.EntitySnapshotCreateWithoutContentInput, Prisma.EntitySnapshotUncheckedCreateWithoutContentInput> | Prisma.EntitySnapshotCreateWithoutContentInput[] | Prisma.EntitySnapshotUncheckedCreateWithoutContentInput[]
+  connectOrCreate?: Prisma.EntitySnapshotCreateOrConnectWithoutContentInput | Prisma.EntitySnapshotCreateOrConnectWithoutContentInput[]
+  createMany?: Prisma.EntitySnapshotCreateManyContentInputEnvelope
+  connect?: Prisma.EntitySnapshotWhereUniqueInput | Prisma.EntitySnapshotWhereUniqueInput[]
+}
+
+export type EntitySnapshotUncheckedCreateNestedManyWithoutContentInput = {
+  create?: Prisma.XOR<Prisma.EntitySnapshotCreateWithoutContentInput, Prisma.EntitySnapshotUncheckedCreateWithoutContentInput> | Prisma.EntitySnapshotCreateWithoutContentInput[] | Prisma.EntitySnapshotUncheckedCreateWithoutContentInput[]
+  connectOrCreate?: Prisma.EntitySnapshotCreateOrConnectWithoutContentInput | Prisma.EntitySnapshotCreateOrConnectWithoutContentInput[]
+  createMany?: Prisma.EntitySnapshotCreateManyContentInputEnvelope
+  connect?: Prisma.EntitySnapshotWhereUniqueInput | Prisma.EntitySnapshotWhereUniqueInput[]
+}
+
+export type EntitySnapshotUpdateManyWithoutContentNestedInput = {
+  create?: Prisma.XOR<Prisma.EntitySnapshotCreateWithoutContentInput, Prisma.EntitySnapshotUncheckedCreateWithoutContentInput> | Prisma.EntitySnapshotCreateWithoutContentInput[] | Prisma.EntitySnapshotUncheckedCreateWithoutContentInput[]
+  connectOrCreate?: Prisma.EntitySnapshotCreateOrConnectWithoutContentInput | Prisma.EntitySnapshotCreateOrConnectWithoutContentInput[]
+  upsert?: Prisma.EntitySnapshotUpsertWithWhereUniqueWithoutContentInput | Prisma.EntitySnapshotUpsertWithWhereUniqueWithoutContentInput[]
+  createMany?: Prisma.EntitySnapshotCreateManyContentInputEnvelope
+  set?: Prisma.EntitySnapshotWhereUniqueInput | Prisma.EntitySnapshotWhereUniqueInput[]
+  disconnect?: Prisma.EntitySnapshotWhereUniqueInput | Prisma.EntitySnapshotWhereUniqueInput[]
+  delete?: Prisma.EntitySnapshotWhereUniqueInput | Prisma.EntitySnapshotWhereUniqueInput[]
+  connect?: Prisma.EntitySnapshotWhereUniqueInput | Prisma.EntitySnapshotWhereUniqueInput[]
+  update?: Prisma.EntitySnapshotUpdateWithWhereUniqueWithoutContentInput | Prisma.EntitySnapshotUpdateWithWhereUniqueWithoutContentInput[]
+  updateMany?: Prisma.EntitySnapshotUpdateManyWithWhereWithoutContentInput | Prisma.EntitySnapshotUpdateManyWithWhereWithoutContentInput[]
+  deleteMany?: Prisma.EntitySnapshotScalarWhereInput | Prisma.EntitySnapshotScalarWhereInput[]
+}
+
+export type EntitySnapshotUncheckedUpdateManyWithoutContentNestedInput = {
+  create?: Prisma.XOR<Prisma.EntitySnapshotCreateWithoutContentInput, Prisma.EntitySnapshotUncheckedCreateWithoutContentInput> | Prisma.EntitySnapshotCreateWithoutContentInput[] | Prisma.EntitySnapshotUncheckedCreateWithoutContentInput[]
+  connectOrCreate?: Prisma.EntitySnapshotCreateOrConnectWithoutContentInput | Prisma.EntitySnapshotCreateOrConnectWithoutContentInput[]
+  upsert?: Prisma.EntitySnapshotUpsertWithWhereUniqueWithoutContentInput | Prisma.EntitySnapshotUpsertWithWhereUniqueWithoutContentInput[]
+  createMany?: Prisma.EntitySnapshotCreateManyContentInputEnvelope
+  set?: Prisma.EntitySnapshotWhereUniqueInput | Prisma.EntitySnapshotWhereUniqueInput[]
+  disconnect?: Prisma.EntitySnapshotWhereUniqueInput | Prisma.EntitySnapshotWhereUniqueInput[]
+  delete?: Prisma.EntitySnapshotWhereUniqueInput | Prisma.EntitySnapshotWhereUniqueInput[]
+  connect?: Prisma.EntitySnapshotWhereUniqueInput | Prisma.EntitySnapshotWhereUniqueInput[]
+  update?: Prisma.EntitySnapshotUpdateWithWhereUniqueWithoutContentInput | Prisma.EntitySnapshotUpdateWithWhereUniqueWithoutContentInput[]
+  updateMany?: Prisma.EntitySnapshotUpdateManyWithWhereWithoutContentInput | Prisma.EntitySnapshotUpdateManyWithWhereWithoutContentInput[]
+  deleteMany?: Prisma.EntitySnapshotScalarWhereInput | Prisma.EntitySnapshotScalarWhereInput[]
+}
+
+export type EntitySnapshotCreateNestedManyWithoutStateInput = {
+  create?: Prisma.XOR<Prisma.EntitySnapshotCreateWithoutStateInput, Prisma.EntitySnapshotUncheckedCreateWithoutStateInput> | Prisma.EntitySnapshotCreateWithoutStateInput[] | Prisma.EntitySnapshotUncheckedCreateWithoutStateInput[]
+  connectOrCreate?: Prisma.EntitySnapshotCreateOrConnectWithoutStateInput | Prisma.EntitySnapshotCreateOrConnectWithoutStateInput[]
+  createMany?: Prisma.EntitySnapshotCreateManyStateInputEnvelope
+  connect?: Prisma.EntitySnapshotWhereUniqueInput | Prisma.EntitySnapshotWhereUniqueInput[]
+}
+
+export type EntitySnapshotUncheckedCreateNestedManyWithoutStateInput = {
+  create?: Prisma.XOR<Prisma.EntitySnapshotCreateWithoutStateInput, Prisma.EntitySnapshotUncheckedCreateWithoutStateInput> | Prisma.EntitySnapshotCreateWithoutStateInput[] | Prisma.EntitySnapshotUncheckedCreateWithoutStateInput[]
+  connectOrCreate?: Prisma.EntitySnapshotCreateOrConnectWithoutStateInput | Prisma.EntitySnapshotCreateOrConnectWithoutStateInput[]
+  createMany?: Prisma.EntitySnapshotCreateManyStateInputEnvelope
+  connect?: Prisma.EntitySnapshotWhereUniqueInput | Prisma.EntitySnapshotWhereUniqueInput[]
+}
+
+export type EntitySnapshotUpdateManyWithoutStateNestedInput = {
+  create?: Prisma.XOR<Prisma.EntitySnapshotCreateWithoutStateInput, Prisma.EntitySnapshotUncheckedCreateWithoutStateInput> | Prisma.EntitySnapshotCreateWithoutStateInput[] | Prisma.EntitySnapshotUncheckedCreateWithoutStateInput[]
+  connectOrCreate?: Prisma.EntitySnapshotCreateOrConnectWithoutStateInput | Prisma.EntitySnapshotCreateOrConnectWithoutStateInput[]
+  upsert?: Prisma.EntitySnapshotUpsertWithWhereUniqueWithoutStateInput | Prisma.EntitySnapshotUpsertWithWhereUniqueWithoutStateInput[]
+  createMany?: Prisma.EntitySnapshotCreateManyStateInputEnvelope
+  set?: Prisma.EntitySnapshotWhereUniqueInput | Prisma.EntitySnapshotWhereUniqueInput[]
+  disconnect?: Prisma.EntitySnapshotWhereUniqueInput | Prisma.EntitySnapshotWhereUniqueInput[]
+  delete?: Prisma.EntitySnapshotWhereUniqueInput | Prisma.EntitySnapshotWhereUniqueInput[]
+  connect?: Prisma.EntitySnapshotWhereUniqueInput | Prisma.EntitySnapshotWhereUniqueInput[]
+  update?: Prisma.EntitySnapshotUpdateWithWhereUniqueWithoutStateInput | Prisma.EntitySnapshotUpdateWithWhereUniqueWithoutStateInput[]
+  updateMany?: Prisma.EntitySnapshotUpdateManyWithWhereWithoutStateInput | Prisma.EntitySnapshotUpdateManyWithWhereWithoutStateInput[]
+  deleteMany?: Prisma.EntitySnapshotScalarWhereInput | Prisma.EntitySnapshotScalarWhereInput[]
+}
+
+export type EntitySnapshotUncheckedUpdateManyWithoutStateNestedInput = {
+  create?: Prisma.XOR<Prisma.EntitySnapshotCreateWithoutStateInput, Prisma.EntitySnapshotUncheckedCreateWithoutStateInput> | Prisma.EntitySnapshotCreateWithoutStateInput[] | Prisma.EntitySnapshotUncheckedCreateWithoutStateInput[]
+  connectOrCreate?: Prisma.EntitySnapshotCreateOrConnectWithoutStateInput | Prisma.EntitySnapshotCreateOrConnectWithoutStateInput[]
+  upsert?: Prisma.EntitySnapshotUpsertWithWhereUniqueWithoutStateInput | Prisma.EntitySnapshotUpsertWithWhereUniqueWithoutStateInput[]
+  createMany?: Prisma.EntitySnapshotCreateManyStateInputEnvelope
+  set?: Prisma.EntitySnapshotWhereUniqueInput | Prisma.EntitySnapshotWhereUniqueInput[]
+  disconnect?: Prisma.EntitySnapshotWhereUniqueInput | Prisma.EntitySnapshotWhereUniqueInput[]
+  delete?: Prisma.EntitySnapshotWhereUniqueInput | Prisma.EntitySnapshotWhereUniqueInput[]
+  connect?: Prisma.EntitySnapshotWhereUniqueInput | Prisma.EntitySnapshotWhereUniqueInput[]
+  update?: Prisma.EntitySnapshotUpdateWithWhereUniqueWithoutStateInput | Prisma.EntitySnapshotUpdateWithWhereUniqueWithoutStateInput[]
+  updateMany?: Prisma.EntitySnapshotUpdateManyWithWhereWithoutStateInput | Prisma.EntitySnapshotUpdateManyWithWhereWithoutStateInput[]
+  deleteMany?: Prisma.EntitySnapshotScalarWhereInput | Prisma.EntitySnapshotScalarWhereInput[]
+}
+
+export type EntitySnapshotCreateNestedManyWithoutOperationInput = {
+  create?: Prisma.XOR<Prisma.EntitySnapshotCreateWithoutOperationInput, Prisma.EntitySnapshotUncheckedCreateWithoutOperationInput> | Prisma.EntitySnapshotCreateWithoutOperationInput[] | Prisma.EntitySnapshotUncheckedCreateWithoutOperationInput[]
+  connectOrCreate?: Prisma.EntitySnapshotCreateOrConnectWithoutOperationInput | Prisma.EntitySnapshotCreateOrConnectWithoutOperationInput[]
+  createMany?: Prisma.EntitySnapshotCreateManyOperationInputEnvelope
+  connect?: Prisma.EntitySnapshotWhereUniqueInput | Prisma.EntitySnapshotWhereUniqueInput[]
+}
+
+export type EntitySnapshotUncheckedCreateNestedManyWithoutOperationInput = {
+  create?: Prisma.XOR<Prisma.EntitySnapshotCreateWithoutOperationInput, Prisma.EntitySnapshotUncheckedCreateWithoutOperationInput> | Prisma.EntitySnapshotCreateWithoutOperationInput[] | Prisma.EntitySnapshotUncheckedCreateWithoutOperationInput[]
+  connectOrCreate?: Prisma.EntitySnapshotCreateOrConnectWithoutOperationInput | Prisma.EntitySnapshotCreateOrConnectWithoutOperationInput[]
+  createMany?: Prisma.EntitySnapshotCreateManyOperationInputEnvelope
+  connect?: Prisma.EntitySnapshotWhereUniqueInput | Prisma.EntitySnapshotWhereUniqueInput[]
+}
+
+export type EntitySnapshotUpdateManyWithoutOperationNestedInput = {
+  create?: Prisma.XOR<Prisma.EntitySnapshotCreateWithoutOperationInput, Prisma.EntitySnapshotUncheckedCreateWithoutOperationInput> | Prisma.EntitySnapshotCreateWithoutOperationInput[] | Prisma.EntitySnapshotUncheckedCreateWithoutOperationInput[]
+  connectOrCreate?: Prisma.EntitySnapshotCreateOrConnectWithoutOperationInput | Prisma.EntitySnapshotCreateOrConnectWithoutOperationInput[]
+  upsert?: Prisma.EntitySnapshotUpsertWithWhereUniqueWithoutOperationInput | Prisma.EntitySnapshotUpsertWithWhereUniqueWithoutOperationInput[]
+  createMany?: Prisma.EntitySnapshotCreateManyOperationInputEnvelope
+  set?: Prisma.EntitySnapshotWhereUniqueInput | Prisma.EntitySnapshotWhereUniqueInput[]
+  disconnect?: Prisma.EntitySnapshotWhereUniqueInput | Prisma.EntitySnapshotWhereUniqueInput[]
+  delete?: Prisma.EntitySnapshotWhereUniqueInput | Prisma.EntitySnapshotWhereUniqueInput[]
+  connect?: Prisma.EntitySnapshotWhereUniqueInput | Prisma.EntitySnapshotWhereUniqueInput[]
+  update?: Prisma.EntitySnapshotUpdateWithWhereUniqueWithoutOperationInput | Prisma.EntitySnapshotUpdateWithWhereUniqueWithoutOperationInput[]
+  updateMany?: Prisma.EntitySnapshotUpdateManyWithWhereWithoutOperationInput | Prisma.EntitySnapshotUpdateManyWithWhereWithoutOperationInput[]
+  deleteMany?: Prisma.EntitySnapshotScalarWhereInput | Prisma.EntitySnapshotScalarWhereInput[]
+}
+
+export type EntitySnapshotUncheckedUpdateManyWithoutOperationNestedInput = {
+  create?: Prisma.XOR<Prisma.EntitySnapshotCreateWithoutOperationInput, Prisma.EntitySnapshotUncheckedCreateWithoutOperationInput> | Prisma.EntitySnapshotCreateWithoutOperationInput[] | Prisma.EntitySnapshotUncheckedCreateWithoutOperationInput[]
+  connectOrCreate?: Prisma.EntitySnapshotCreateOrConnectWithoutOperationInput | Prisma.EntitySnapshotCreateOrConnectWithoutOperationInput[]
+  upsert?: Prisma.EntitySnapshotUpsertWithWhereUniqueWithoutOperationInput | Prisma.EntitySnapshotUpsertWithWhereUniqueWithoutOperationInput[]
+  createMany?: Prisma.EntitySnapshotCreateManyOperationInputEnvelope
+  set?: Prisma.EntitySnapshotWhereUniqueInput | Prisma.EntitySnapshotWhereUniqueInput[]
+  disconnect?: Prisma.EntitySnapshotWhereUniqueInput | Prisma.EntitySnapshotWhereUniqueInput[]
+  delete?: Prisma.EntitySnapshotWhereUniqueInput | Prisma.EntitySnapshotWhereUniqueInput[]
+  connect?: Prisma.EntitySnapshotWhereUniqueInput | Prisma.EntitySnapshotWhereUniqueInput[]
+  update?: Prisma.EntitySnapshotUpdateWithWhereUniqueWithoutOperationInput | Prisma.EntitySnapshotUpdateWithWhereUniqueWithoutOperationInput[]
+  updateMany?: Prisma.EntitySnapshotUpdateManyWithWhereWithoutOperationInput | Prisma.EntitySnapshotUpdateManyWithWhereWithoutOperationInput[]
+  deleteMany?: Prisma.EntitySnapshotScalarWhereInput | Prisma.EntitySnapshotScalarWhereInput[]
+}
+
+export type EntitySnapshotCreateWithoutArtifactsInput = {
+  id?: string
+  referencedInOutputs:(string[])
+  exportedInOutputs:(string[])
+  createdAt?: Date | string
+  content: Prisma.EntitySnapshotContentCreateNestedOneWithoutSnapshotsInput
+  entity: Prisma.EntityCreateNestedOneWithoutSnapshotsInput
+  operation: Prisma.OperationCreateNestedOneWithoutEntitySnapshotsInput
+  state: Prisma.InstanceStateCreateNestedOneWithoutEntitySnapshotsInput
+  references?: Prisma.EntitySnapshotReferenceCreateNestedManyWithoutFromInput
+  referencedBy?: Prisma.EntitySnapshotReferenceCreateNestedManyWithoutToInput
+}
+
+export type EntitySnapshotUncheckedCreateWithoutArtifactsInput = {
+  id?: string
+  contentHash: string
+  entityId: string
+  operationId: string
+  stateId: string
+  referencedInOutputs:(string[])
+  exportedInOutputs:(string[])
+  createdAt?: Date | string
+  references?: Prisma.EntitySnapshotReferenceUncheckedCreateNestedManyWithoutFromInput
+  referencedBy?: Prisma.EntitySnapshotReferenceUncheckedCreateNestedManyWithoutToInput
+}
+
+export type EntitySnapshotCreateOrConnectWithoutArtifactsInput = {
+  where: Prisma.EntitySnapshotWhereUniqueInput
+  create: Prisma.XOR<Prisma.EntitySnapshotCreateWithoutArtifactsInput, Prisma.EntitySnapshotUncheckedCreateWithoutArtifactsInput>
+}
+
+export type EntitySnapshotUpsertWithWhereUniqueWithoutArtifactsInput = {
+  where: Prisma.EntitySnapshotWhereUniqueInput
+  update: Prisma.XOR<Prisma.EntitySnapshotUpdateWithoutArtifactsInput, Prisma.EntitySnapshotUncheckedUpdateWithoutArtifactsInput>
+  create: Prisma.XOR<Prisma.EntitySnapshotCreateWithoutArtifactsInput, Prisma.EntitySnapshotUncheckedCreateWithoutArtifactsInput>
+}
+
+export type EntitySnapshotUpdateWithWhereUniqueWithoutArtifactsInput = {
+  where: Prisma.EntitySnapshotWhereUniqueInput
+  data: Prisma.XOR<Prisma.EntitySnapshotUpdateWithoutArtifactsInput, Prisma.EntitySnapshotUncheckedUpdateWithoutArtifactsInput>
+}
+
+export type EntitySnapshotUpdateManyWithWhereWithoutArtifactsInput = {
+  where: Prisma.EntitySnapshotScalarWhereInput
+  data: Prisma.XOR<Prisma.EntitySnapshotUpdateManyMutationInput, Prisma.EntitySnapshotUncheckedUpdateManyWithoutArtifactsInput>
+}
+
+export type EntitySnapshotScalarWhereInput = {
+  AND?: Prisma.EntitySnapshotScalarWhereInput | Prisma.EntitySnapshotScalarWhereInput[]
+  OR?: Prisma.EntitySnapshotScalarWhereInput[]
+  NOT?: Prisma.EntitySnapshotScalarWhereInput | Prisma.EntitySnapshotScalarWhereInput[]
+  id?: Prisma.StringFilter<"EntitySnapshot"> | string
+  contentHash?: Prisma.StringFilter<"EntitySnapshot"> | string
+  entityId?: Prisma.StringFilter<"EntitySnapshot"> | string
+  operationId?: Prisma.StringFilter<"EntitySnapshot"> | string
+  stateId?: Prisma.StringFilter<"EntitySnapshot"> | string
+  referencedInOutputs?: Prisma.JsonFilter<"EntitySnapshot">
+  exportedInOutputs?: Prisma.JsonFilter<"EntitySnapshot">
+  createdAt?: Prisma.DateTimeFilter<"EntitySnapshot"> | Date | string
+}
+
+export type EntitySnapshotCreateWithoutEntityInput = {
+  id?: string
+  referencedInOutputs:(string[])
+  exportedInOutputs:(string[])
+  createdAt?: Date | string
+  content: Prisma.EntitySnapshotContentCreateNestedOneWithoutSnapshotsInput
+  operation: Prisma.OperationCreateNestedOneWithoutEntitySnapshotsInput
+  state: Prisma.InstanceStateCreateNestedOneWithoutEntitySnapshotsInput
+  references?: Prisma.EntitySnapshotReferenceCreateNestedManyWithoutFromInput
+  referencedBy?: Prisma.EntitySnapshotReferenceCreateNestedManyWithoutToInput
+  artifacts?: Prisma.ArtifactCreateNestedManyWithoutEntitySnapshotsInput
+}
+
+export type EntitySnapshotUncheckedCreateWithoutEntityInput = {
+  id?: string
+  contentHash: string
+  operationId: string
+  stateId: string
+  referencedInOutputs:(string[])
+  exportedInOutputs:(string[])
+  createdAt?: Date | string
+  references?: Prisma.EntitySnapshotReferenceUncheckedCreateNestedManyWithoutFromInput
+  referencedBy?: Prisma.EntitySnapshotReferenceUncheckedCreateNestedManyWithoutToInput
+  artifacts?: Prisma.ArtifactUncheckedCreateNestedManyWithoutEntitySnapshotsInput
+}
+
+export type EntitySnapshotCreateOrConnectWithoutEntityInput = {
+  where: Prisma.EntitySnapshotWhereUniqueInput
+  create: Prisma.XOR<Prisma.EntitySnapshotCreateWithoutEntityInput, Prisma.EntitySnapshotUncheckedCreateWithoutEntityInput>
+}
+
+export type EntitySnapshotCreateManyEntityInputEnvelope = {
+  data: Prisma.EntitySnapshotCreateManyEntityInput | Prisma.EntitySnapshotCreateManyEntityInput[]
+  skipDuplicates?: boolean
+}
+
+export type EntitySnapshotUpsertWithWhereUniqueWithoutEntityInput = {
+  where: Prisma.EntitySnapshotWhereUniqueInput
+  update: Prisma.XOR<Prisma.EntitySnapshotUpdateWithoutEntityInput, Prisma.EntitySnapshotUncheckedUpdateWithoutEntityInput>
+  create: Prisma.XOR<Prisma.EntitySnapshotCreateWithoutEntityInput, Prisma.EntitySnapshotUncheckedCreateWithoutEntityInput>
+}
+
+export type EntitySnapshotUpdateWithWhereUniqueWithoutEntityInput = {
+  where: Prisma.EntitySnapshotWhereUniqueInput
+  data: Prisma.XOR<Prisma.EntitySnapshotUpdateWithoutEntityInput, Prisma.EntitySnapshotUncheckedUpdateWithoutEntityInput>
+}
+
+export type EntitySnapshotUpdateManyWithWhereWithoutEntityInput = {
+  where: Prisma.EntitySnapshotScalarWhereInput
+  data: Prisma.XOR<Prisma.EntitySnapshotUpdateManyMutationInput, Prisma.EntitySnapshotUncheckedUpdateManyWithoutEntityInput>
+}
+
+export type EntitySnapshotCreateWithoutReferencesInput = {
+  id?: string
+  referencedInOutputs:(string[])
+  exportedInOutputs:(string[])
+  createdAt?: Date | string
+  content: Prisma.EntitySnapshotContentCreateNestedOneWithoutSnapshotsInput
+  entity: Prisma.EntityCreateNestedOneWithoutSnapshotsInput
+  operation: Prisma.OperationCreateNestedOneWithoutEntitySnapshotsInput
+  state: Prisma.InstanceStateCreateNestedOneWithoutEntitySnapshotsInput
+  referencedBy?: Prisma.EntitySnapshotReferenceCreateNestedManyWithoutToInput
+  artifacts?: Prisma.ArtifactCreateNestedManyWithoutEntitySnapshotsInput
+}
+
+export type EntitySnapshotUncheckedCreateWithoutReferencesInput = {
+  id?: string
+  contentHash: string
+  entityId: string
+  operationId: string
+  stateId: string
+  referencedInOutputs:(string[])
+  exportedInOutputs:(string[])
+  createdAt?: Date | string
+  referencedBy?: Prisma.EntitySnapshotReferenceUncheckedCreateNestedManyWithoutToInput
+  artifacts?: Prisma.ArtifactUncheckedCreateNestedManyWithoutEntitySnapshotsInput
+}
+
+export type EntitySnapshotCreateOrConnectWithoutReferencesInput = {
+  where: Prisma.EntitySnapshotWhereUniqueInput
+  create: Prisma.XOR<Prisma.EntitySnapshotCreateWithoutReferencesInput, Prisma.EntitySnapshotUncheckedCreateWithoutReferencesInput>
+}
+
+export type EntitySnapshotCreateWithoutReferencedByInput = {
+  id?: string
+  referencedInOutputs:(string[])
+  exportedInOutputs:(string[])
+  createdAt?: Date | string
+  content: Prisma.EntitySnapshotContentCreateNestedOneWithoutSnapshotsInput
+  entity: Prisma.EntityCreateNestedOneWithoutSnapshotsInput
+  operation: Prisma.OperationCreateNestedOneWithoutEntitySnapshotsInput
+  state: Prisma.InstanceStateCreateNestedOneWithoutEntitySnapshotsInput
+  references?: Prisma.EntitySnapshotReferenceCreateNestedManyWithoutFromInput
+  artifacts?: Prisma.ArtifactCreateNestedManyWithoutEntitySnapshotsInput
+}
+
+export type EntitySnapshotUncheckedCreateWithoutReferencedByInput = {
+  id?: string
+  contentHash: string
+  entityId: string
+  operationId: string
+  stateId: string
+  referencedInOutputs:(string[])
+  exportedInOutputs:(string[])
+  createdAt?: Date | string
+  references?: Prisma.EntitySnapshotReferenceUncheckedCreateNestedManyWithoutFromInput
+  artifacts?: Prisma.ArtifactUncheckedCreateNestedManyWithoutEntitySnapshotsInput
+}
+
+export type EntitySnapshotCreateOrConnectWithoutReferencedByInput = {
+  where: Prisma.EntitySnapshotWhereUniqueInput
+  create: Prisma.XOR<Prisma.EntitySnapshotCreateWithoutReferencedByInput, Prisma.EntitySnapshotUncheckedCreateWithoutReferencedByInput>
+}
+
+export type EntitySnapshotUpsertWithoutReferencesInput = {
+  update: Prisma.XOR<Prisma.EntitySnapshotUpdateWithoutReferencesInput, Prisma.EntitySnapshotUncheckedUpdateWithoutReferencesInput>
+  create: Prisma.XOR<Prisma.EntitySnapshotCreateWithoutReferencesInput, Prisma.EntitySnapshotUncheckedCreateWithoutReferencesInput>
+  where?: Prisma.EntitySnapshotWhereInput
+}
+
+export type EntitySnapshotUpdateToOneWithWhereWithoutReferencesInput = {
+  where?: Prisma.EntitySnapshotWhereInput
+  data: Prisma.XOR<Prisma.EntitySnapshotUpdateWithoutReferencesInput, Prisma.EntitySnapshotUncheckedUpdateWithoutReferencesInput>
+}
+
+export type EntitySnapshotUpdateWithoutReferencesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  referencedInOutputs?:(string[])
+  exportedInOutputs?:(string[])
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  content?: Prisma.EntitySnapshotContentUpdateOneRequiredWithoutSnapshotsNestedInput
+  entity?: Prisma.EntityUpdateOneRequiredWithoutSnapshotsNestedInput
+  operation?: Prisma.OperationUpdateOneRequiredWithoutEntitySnapshotsNestedInput
+  state?: Prisma.InstanceStateUpdateOneRequiredWithoutEntitySnapshotsNestedInput
+  referencedBy?: Prisma.EntitySnapshotReferenceUpdateManyWithoutToNestedInput
+  artifacts?: Prisma.ArtifactUpdateManyWithoutEntitySnapshotsNestedInput
+}
+
+export type EntitySnapshotUncheckedUpdateWithoutReferencesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  contentHash?: Prisma.StringFieldUpdateOperationsInput | string
+  entityId?: Prisma.StringFieldUpdateOperationsInput | string
+  operationId?: Prisma.StringFieldUpdateOperationsInput | string
+  stateId?: Prisma.StringFieldUpdateOperationsInput | string
+  referencedInOutputs?:(string[])
+  exportedInOutputs?:(string[])
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  referencedBy?: Prisma.EntitySnapshotReferenceUncheckedUpdateManyWithoutToNestedInput
+  artifacts?: Prisma.ArtifactUncheckedUpdateManyWithoutEntitySnapshotsNestedInput
+}
+
+export type EntitySnapshotUpsertWithoutReferencedByInput = {
+  update: Prisma.XOR<Prisma.EntitySnapshotUpdateWithoutReferencedByInput, Prisma.EntitySnapshotUncheckedUpdateWithoutReferencedByInput>
+  create: Prisma.XOR<Prisma.EntitySnapshotCreateWithoutReferencedByInput, Prisma.EntitySnapshotUncheckedCreateWithoutReferencedByInput>
+  where?: Prisma.EntitySnapshotWhereInput
+}
+
+export type EntitySnapshotUpdateToOneWithWhereWithoutReferencedByInput = {
+  where?: Prisma.EntitySnapshotWhereInput
+  data: Prisma.XOR<Prisma.EntitySnapshotUpdateWithoutReferencedByInput, Prisma.EntitySnapshotUncheckedUpdateWithoutReferencedByInput>
+}
+
+export type EntitySnapshotUpdateWithoutReferencedByInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  referencedInOutputs?:(string[])
+  exportedInOutputs?:(string[])
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  content?: Prisma.EntitySnapshotContentUpdateOneRequiredWithoutSnapshotsNestedInput
+  entity?: Prisma.EntityUpdateOneRequiredWithoutSnapshotsNestedInput
+  operation?: Prisma.OperationUpdateOneRequiredWithoutEntitySnapshotsNestedInput
+  state?: Prisma.InstanceStateUpdateOneRequiredWithoutEntitySnapshotsNestedInput
+  references?: Prisma.EntitySnapshotReferenceUpdateManyWithoutFromNestedInput
+  artifacts?: Prisma.ArtifactUpdateManyWithoutEntitySnapshotsNestedInput
+}
+
+export type EntitySnapshotUncheckedUpdateWithoutReferencedByInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  contentHash?: Prisma.StringFieldUpdateOperationsInput | string
+  entityId?: Prisma.StringFieldUpdateOperationsInput | string
+  operationId?: Prisma.StringFieldUpdateOperationsInput | string
+  stateId?: Prisma.StringFieldUpdateOperationsInput | string
+  referencedInOutputs?:(string[])
+  exportedInOutputs?:(string[])
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  references?: Prisma.EntitySnapshotReferenceUncheckedUpdateManyWithoutFromNestedInput
+  artifacts?: Prisma.ArtifactUncheckedUpdateManyWithoutEntitySnapshotsNestedInput
+}
+
+export type EntitySnapshotCreateWithoutContentInput = {
+  id?: string
+  referencedInOutputs:(string[])
+  exportedInOutputs:(string[])
+  createdAt?: Date | string
+  entity: Prisma.EntityCreateNestedOneWithoutSnapshotsInput
+  operation: Prisma.OperationCreateNestedOneWithoutEntitySnapshotsInput
+  state: Prisma.InstanceStateCreateNestedOneWithoutEntitySnapshotsInput
+  references?: Prisma.EntitySnapshotReferenceCreateNestedManyWithoutFromInput
+  referencedBy?: Prisma.EntitySnapshotReferenceCreateNestedManyWithoutToInput
+  artifacts?: Prisma.ArtifactCreateNestedManyWithoutEntitySnapshotsInput
+}
+
+export type EntitySnapshotUncheckedCreateWithoutContentInput = {
+  id?: string
+  entityId: string
+  operationId: string
+  stateId: string
+  referencedInOutputs:(string[])
+  exportedInOutputs:(string[])
+  createdAt?: Date | string
+  references?: Prisma.EntitySnapshotReferenceUncheckedCreateNestedManyWithoutFromInput
+  referencedBy?: Prisma.EntitySnapshotReferenceUncheckedCreateNestedManyWithoutToInput
+  artifacts?: Prisma.ArtifactUncheckedCreateNestedManyWithoutEntitySnapshotsInput
+}
+
+export type EntitySnapshotCreateOrConnectWithoutContentInput = {
+  where: Prisma.EntitySnapshotWhereUniqueInput
+  create: Prisma.XOR<Prisma.EntitySnapshotCreateWithoutContentInput, Prisma.EntitySnapshotUncheckedCreateWithoutContentInput>
+}
+
+export type EntitySnapshotCreateManyContentInputEnvelope = {
+  data: Prisma.EntitySnapshotCreateManyContentInput | Prisma.EntitySnapshotCreateManyContentInput[]
+  skipDuplicates?: boolean
+}
+
+export type EntitySnapshotUpsertWithWhereUniqueWithoutContentInput = {
+  where: Prisma.EntitySnapshotWhereUniqueInput
+  update: Prisma.XOR<Prisma.EntitySnapshotUpdateWithoutContentInput, Prisma.EntitySnapshotUncheckedUpdateWithoutContentInput>
+  create: Prisma.XOR<Prisma.EntitySnapshotCreateWithoutContentInput, Prisma.EntitySnapshotUncheckedCreateWithoutContentInput>
+}
+
+export type EntitySnapshotUpdateWithWhereUniqueWithoutContentInput = {
+  where: Prisma.EntitySnapshotWhereUniqueInput
+  data: Prisma.XOR<Prisma.EntitySnapshotUpdateWithoutContentInput, Prisma.EntitySnapshotUncheckedUpdateWithoutContentInput>
+}
+
+export type EntitySnapshotUpdateManyWithWhereWithoutContentInput = {
+  where: Prisma.EntitySnapshotScalarWhereInput
+  data: Prisma.XOR<Prisma.EntitySnapshotUpdateManyMutationInput, Prisma.EntitySnapshotUncheckedUpdateManyWithoutContentInput>
+}
+
+export type EntitySnapshotCreateWithoutStateInput = {
+  id?: string
+  referencedInOutputs:(string[])
+  exportedInOutputs:(string[])
+  createdAt?: Date | string
+  content: Prisma.EntitySnapshotContentCreateNestedOneWithoutSnapshotsInput
+  entity: Prisma.EntityCreateNestedOneWithoutSnapshotsInput
+  operation: Prisma.OperationCreateNestedOneWithoutEntitySnapshotsInput
+  references?: Prisma.EntitySnapshotReferenceCreateNestedManyWithoutFromInput
+  referencedBy?: Prisma.EntitySnapshotReferenceCreateNestedManyWithoutToInput
+  artifacts?: Prisma.ArtifactCreateNestedManyWithoutEntitySnapshotsInput
+}
+
+export type EntitySnapshotUncheckedCreateWithoutStateInput = {
+  id?: string
+  contentHash: string
+  entityId: string
+  operationId: string
+  referencedInOutputs:(string[])
+  exportedInOutputs:(string[])
+  createdAt?: Date | string
+  references?: Prisma.EntitySnapshotReferenceUncheckedCreateNestedManyWithoutFromInput
+  referencedBy?: Prisma.EntitySnapshotReferenceUncheckedCreateNestedManyWithoutToInput
+  artifacts?: Prisma.ArtifactUncheckedCreateNestedManyWithoutEntitySnapshotsInput
+}
+
+export type EntitySnapshotCreateOrConnectWithoutStateInput = {
+  where: Prisma.EntitySnapshotWhereUniqueInput
+  create: Prisma.XOR<Prisma.EntitySnapshotCreateWithoutStateInput, Prisma.EntitySnapshotUncheckedCreateWithoutStateInput>
+}
+
+export type EntitySnapshotCreateManyStateInputEnvelope = {
+  data: Prisma.EntitySnapshotCreateManyStateInput | Prisma.EntitySnapshotCreateManyStateInput[]
+  skipDuplicates?: boolean
+}
+
+export type EntitySnapshotUpsertWithWhereUniqueWithoutStateInput = {
+  where: Prisma.EntitySnapshotWhereUniqueInput
+  update: Prisma.XOR<Prisma.EntitySnapshotUpdateWithoutStateInput, Prisma.EntitySnapshotUncheckedUpdateWithoutStateInput>
+  create: Prisma.XOR<Prisma.EntitySnapshotCreateWithoutStateInput, Prisma.EntitySnapshotUncheckedCreateWithoutStateInput>
+}
+
+export type EntitySnapshotUpdateWithWhereUniqueWithoutStateInput = {
+  where: Prisma.EntitySnapshotWhereUniqueInput
+  data: Prisma.XOR<Prisma.EntitySnapshotUpdateWithoutStateInput, Prisma.EntitySnapshotUncheckedUpdateWithoutStateInput>
+}
+
+export type EntitySnapshotUpdateManyWithWhereWithoutStateInput = {
+  where: Prisma.EntitySnapshotScalarWhereInput
+  data: Prisma.XOR<Prisma.EntitySnapshotUpdateManyMutationInput, Prisma.EntitySnapshotUncheckedUpdateManyWithoutStateInput>
+}
+
+export type EntitySnapshotCreateWithoutOperationInput = {
+  id?: string
+  referencedInOutputs:(string[])
+  exportedInOutputs:(string[])
+  createdAt?: Date | string
+  content: Prisma.EntitySnapshotContentCreateNestedOneWithoutSnapshotsInput
+  entity: Prisma.EntityCreateNestedOneWithoutSnapshotsInput
+  state: Prisma.InstanceStateCreateNestedOneWithoutEntitySnapshotsInput
+  references?: Prisma.EntitySnapshotReferenceCreateNestedManyWithoutFromInput
+  referencedBy?: Prisma.EntitySnapshotReferenceCreateNestedManyWithoutToInput
+  artifacts?: Prisma.ArtifactCreateNestedManyWithoutEntitySnapshotsInput
+}
+
+export type EntitySnapshotUncheckedCreateWithoutOperationInput = {
+  id?: string
+  contentHash: string
+  entityId: string
+  stateId: string
+  referencedInOutputs:(string[])
+  exportedInOutputs:(string[])
+  createdAt?: Date | string
+  references?: Prisma.EntitySnapshotReferenceUncheckedCreateNestedManyWithoutFromInput
+  referencedBy?: Prisma.EntitySnapshotReferenceUncheckedCreateNestedManyWithoutToInput
+  artifacts?: Prisma.ArtifactUncheckedCreateNestedManyWithoutEntitySnapshotsInput
+}
+
+export type EntitySnapshotCreateOrConnectWithoutOperationInput = {
+  where: Prisma.EntitySnapshotWhereUniqueInput
+  create: Prisma.XOR<Prisma.EntitySnapshotCreateWithoutOperationInput, Prisma.EntitySnapshotUncheckedCreateWithoutOperationInput>
+}
+
+export type EntitySnapshotCreateManyOperationInputEnvelope = {
+  data: Prisma.EntitySnapshotCreateManyOperationInput | Prisma.EntitySnapshotCreateManyOperationInput[]
+  skipDuplicates?: boolean
+}
+
+export type EntitySnapshotUpsertWithWhereUniqueWithoutOperationInput = {
+  where: Prisma.EntitySnapshotWhereUniqueInput
+  update: Prisma.XOR<Prisma.EntitySnapshotUpdateWithoutOperationInput, Prisma.EntitySnapshotUncheckedUpdateWithoutOperationInput>
+  create: Prisma.XOR<Prisma.EntitySnapshotCreateWithoutOperationInput, Prisma.EntitySnapshotUncheckedCreateWithoutOperationInput>
+}
+
+export type EntitySnapshotUpdateWithWhereUniqueWithoutOperationInput = {
+  where: Prisma.EntitySnapshotWhereUniqueInput
+  data: Prisma.XOR<Prisma.EntitySnapshotUpdateWithoutOperationInput, Prisma.EntitySnapshotUncheckedUpdateWithoutOperationInput>
+}
+
+export type EntitySnapshotUpdateManyWithWhereWithoutOperationInput = {
+  where: Prisma.EntitySnapshotScalarWhereInput
+  data: Prisma.XOR<Prisma.EntitySnapshotUpdateManyMutationInput, Prisma.EntitySnapshotUncheckedUpdateManyWithoutOperationInput>
+}
+
+export type EntitySnapshotUpdateWithoutArtifactsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  referencedInOutputs?:(string[])
+  exportedInOutputs?:(string[])
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  content?: Prisma.EntitySnapshotContentUpdateOneRequiredWithoutSnapshotsNestedInput
+  entity?: Prisma.EntityUpdateOneRequiredWithoutSnapshotsNestedInput
+  operation?: Prisma.OperationUpdateOneRequiredWithoutEntitySnapshotsNestedInput
+  state?: Prisma.InstanceStateUpdateOneRequiredWithoutEntitySnapshotsNestedInput
+  references?: Prisma.EntitySnapshotReferenceUpdateManyWithoutFromNestedInput
+  referencedBy?: Prisma.EntitySnapshotReferenceUpdateManyWithoutToNestedInput
+}
+
+export type EntitySnapshotUncheckedUpdateWithoutArtifactsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  contentHash?: Prisma.StringFieldUpdateOperationsInput | string
+  entityId?: Prisma.StringFieldUpdateOperationsInput | string
+  operationId?: Prisma.StringFieldUpdateOperationsInput | string
+  stateId?: Prisma.StringFieldUpdateOperationsInput | string
+  referencedInOutputs?:(string[])
+  exportedInOutputs?:(string[])
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  references?: Prisma.EntitySnapshotReferenceUncheckedUpdateManyWithoutFromNestedInput
+  referencedBy?: Prisma.EntitySnapshotReferenceUncheckedUpdateManyWithoutToNestedInput
+}
+
+export type EntitySnapshotUncheckedUpdateManyWithoutArtifactsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  contentHash?: Prisma.StringFieldUpdateOperationsInput | string
+  entityId?: Prisma.StringFieldUpdateOperationsInput | string
+  operationId?: Prisma.StringFieldUpdateOperationsInput | string
+  stateId?: Prisma.StringFieldUpdateOperationsInput | string
+  referencedInOutputs?:(string[])
+  exportedInOutputs?:(string[])
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type EntitySnapshotCreateManyEntityInput = {
+  id?: string
+  contentHash: string
+  operationId: string
+  stateId: string
+  referencedInOutputs:(string[])
+  exportedInOutputs:(string[])
+  createdAt?: Date | string
+}
+
+export type EntitySnapshotUpdateWithoutEntityInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  referencedInOutputs?:(string[])
+  exportedInOutputs?:(string[])
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  content?: Prisma.EntitySnapshotContentUpdateOneRequiredWithoutSnapshotsNestedInput
+  operation?: Prisma.OperationUpdateOneRequiredWithoutEntitySnapshotsNestedInput
+  state?: Prisma.InstanceStateUpdateOneRequiredWithoutEntitySnapshotsNestedInput
+  references?: Prisma.EntitySnapshotReferenceUpdateManyWithoutFromNestedInput
+  referencedBy?: Prisma.EntitySnapshotReferenceUpdateManyWithoutToNestedInput
+  artifacts?: Prisma.ArtifactUpdateManyWithoutEntitySnapshotsNestedInput
+}
+
+export type EntitySnapshotUncheckedUpdateWithoutEntityInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  contentHash?: Prisma.StringFieldUpdateOperationsInput | string
+  operationId?: Prisma.StringFieldUpdateOperationsInput | string
+  stateId?: Prisma.StringFieldUpdateOperationsInput | string
+  referencedInOutputs?:(string[])
+  exportedInOutputs?:(string[])
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  references?: Prisma.EntitySnapshotReferenceUncheckedUpdateManyWithoutFromNestedInput
+  referencedBy?: Prisma.EntitySnapshotReferenceUncheckedUpdateManyWithoutToNestedInput
+  artifacts?: Prisma.ArtifactUncheckedUpdateManyWithoutEntitySnapshotsNestedInput
+}
+
+export type EntitySnapshotUncheckedUpdateManyWithoutEntityInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  contentHash?: Prisma.StringFieldUpdateOperationsInput | string
+  operationId?: Prisma.StringFieldUpdateOperationsInput | string
+  stateId?: Prisma.StringFieldUpdateOperationsInput | string
+  referencedInOutputs?:(string[])
+  exportedInOutputs?:(string[])
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type EntitySnapshotCreateManyContentInput = {
+  id?: string
+  entityId: string
+  operationId: string
+  stateId: string
+  referencedInOutputs:(string[])
+  exportedInOutputs:(string[])
+  createdAt?: Date | string
+}
+
+export type EntitySnapshotUpdateWithoutContentInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  referencedInOutputs?:(string[])
+  exportedInOutputs?:(string[])
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  entity?: Prisma.EntityUpdateOneRequiredWithoutSnapshotsNestedInput
+  operation?: Prisma.OperationUpdateOneRequiredWithoutEntitySnapshotsNestedInput
+  state?: Prisma.InstanceStateUpdateOneRequiredWithoutEntitySnapshotsNestedInput
+  references?: Prisma.EntitySnapshotReferenceUpdateManyWithoutFromNestedInput
+  referencedBy?: Prisma.EntitySnapshotReferenceUpdateManyWithoutToNestedInput
+  artifacts?: Prisma.ArtifactUpdateManyWithoutEntitySnapshotsNestedInput
+}
+
+export type EntitySnapshotUncheckedUpdateWithoutContentInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  entityId?: Prisma.StringFieldUpdateOperationsInput | string
+  operationId?: Prisma.StringFieldUpdateOperationsInput | string
+  stateId?: Prisma.StringFieldUpdateOperationsInput | string
+  referencedInOutputs?:(string[])
+  exportedInOutputs?:(string[])
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  references?: Prisma.EntitySnapshotReferenceUncheckedUpdateManyWithoutFromNestedInput
+  referencedBy?: Prisma.EntitySnapshotReferenceUncheckedUpdateManyWithoutToNestedInput
+  artifacts?: Prisma.ArtifactUncheckedUpdateManyWithoutEntitySnapshotsNestedInput
+}
+
+export type EntitySnapshotUncheckedUpdateManyWithoutContentInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  entityId?: Prisma.StringFieldUpdateOperationsInput | string
+  operationId?: Prisma.StringFieldUpdateOperationsInput | string
+  stateId?: Prisma.StringFieldUpdateOperationsInput | string
+  referencedInOutputs?:(string[])
+  exportedInOutputs?:(string[])
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type EntitySnapshotCreateManyStateInput = {
+  id?: string
+  contentHash: string
+  entityId: string
+  operationId: string
+  referencedInOutputs:(string[])
+  exportedInOutputs:(string[])
+  createdAt?: Date | string
+}
+
+export type EntitySnapshotUpdateWithoutStateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  referencedInOutputs?:(string[])
+  exportedInOutputs?:(string[])
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  content?: Prisma.EntitySnapshotContentUpdateOneRequiredWithoutSnapshotsNestedInput
+  entity?: Prisma.EntityUpdateOneRequiredWithoutSnapshotsNestedInput
+  operation?: Prisma.OperationUpdateOneRequiredWithoutEntitySnapshotsNestedInput
+  references?: Prisma.EntitySnapshotReferenceUpdateManyWithoutFromNestedInput
+  referencedBy?: Prisma.EntitySnapshotReferenceUpdateManyWithoutToNestedInput
+  artifacts?: Prisma.ArtifactUpdateManyWithoutEntitySnapshotsNestedInput
+}
+
+export type EntitySnapshotUncheckedUpdateWithoutStateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  contentHash?: Prisma.StringFieldUpdateOperationsInput | string
+  entityId?: Prisma.StringFieldUpdateOperationsInput | string
+  operationId?: Prisma.StringFieldUpdateOperationsInput | string
+  referencedInOutputs?:(string[])
+  exportedInOutputs?:(string[])
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  references?: Prisma.EntitySnapshotReferenceUncheckedUpdateManyWithoutFromNestedInput
+  referencedBy?: Prisma.EntitySnapshotReferenceUncheckedUpdateManyWithoutToNestedInput
+  artifacts?: Prisma.ArtifactUncheckedUpdateManyWithoutEntitySnapshotsNestedInput
+}
+
+export type EntitySnapshotUncheckedUpdateManyWithoutStateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  contentHash?: Prisma.StringFieldUpdateOperationsInput | string
+  entityId?: Prisma.StringFieldUpdateOperationsInput | string
+  operationId?: Prisma.StringFieldUpdateOperationsInput | string
+  referencedInOutputs?:(string[])
+  exportedInOutputs?:(string[])
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type EntitySnapshotCreateManyOperationInput = {
+  id?: string
+  contentHash: string
+  entityId: string
+  stateId: string
+  referencedInOutputs:(string[])
+  exportedInOutputs:(string[])
+  createdAt?: Date | string
+}
+
+export type EntitySnapshotUpdateWithoutOperationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  referencedInOutputs?:(string[])
+  exportedInOutputs?:(string[])
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  content?: Prisma.EntitySnapshotContentUpdateOneRequiredWithoutSnapshotsNestedInput
+  entity?: Prisma.EntityUpdateOneRequiredWithoutSnapshotsNestedInput
+  state?: Prisma.InstanceStateUpdateOneRequiredWithoutEntitySnapshotsNestedInput
+  references?: Prisma.EntitySnapshotReferenceUpdateManyWithoutFromNestedInput
+  referencedBy?: Prisma.EntitySnapshotReferenceUpdateManyWithoutToNestedInput
+  artifacts?: Prisma.ArtifactUpdateManyWithoutEntitySnapshotsNestedInput
+}
+
+export type EntitySnapshotUncheckedUpdateWithoutOperationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  contentHash?: Prisma.StringFieldUpdateOperationsInput | string
+  entityId?: Prisma.StringFieldUpdateOperationsInput | string
+  stateId?: Prisma.StringFieldUpdateOperationsInput | string
+  referencedInOutputs?:(string[])
+  exportedInOutputs?:(string[])
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  references?: Prisma.EntitySnapshotReferenceUncheckedUpdateManyWithoutFromNestedInput
+  referencedBy?: Prisma.EntitySnapshotReferenceUncheckedUpdateManyWithoutToNestedInput
+  artifacts?: Prisma.ArtifactUncheckedUpdateManyWithoutEntitySnapshotsNestedInput
+}
+
+export type EntitySnapshotUncheckedUpdateManyWithoutOperationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  contentHash?: Prisma.StringFieldUpdateOperationsInput | string
+  entityId?: Prisma.StringFieldUpdateOperationsInput | string
+  stateId?: Prisma.StringFieldUpdateOperationsInput | string
+  referencedInOutputs?:(string[])
+  exportedInOutputs?:(string[])
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+/**
+ * Count Type EntitySnapshotCountOutputType
+ */
+
+export type EntitySnapshotCountOutputType = {
+  references: number
+  referencedBy: number
+  artifacts: number
+}
+
+export type EntitySnapshotCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  references?: boolean | EntitySnapshotCountOutputTypeCountReferencesArgs
+  referencedBy?: boolean | EntitySnapshotCountOutputTypeCountReferencedByArgs
+  artifacts?: boolean | EntitySnapshotCountOutputTypeCountArtifactsArgs
+}
+
+/**
+ * EntitySnapshotCountOutputType without action
+ */
+export type EntitySnapshotCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EntitySnapshotCountOutputType
+   */
+  select?: Prisma.EntitySnapshotCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * EntitySnapshotCountOutputType without action
+ */
+export type EntitySnapshotCountOutputTypeCountReferencesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.EntitySnapshotReferenceWhereInput
+}
+
+/**
+ * EntitySnapshotCountOutputType without action
+ */
+export type EntitySnapshotCountOutputTypeCountReferencedByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.EntitySnapshotReferenceWhereInput
+}
+
+/**
+ * EntitySnapshotCountOutputType without action
+ */
+export type EntitySnapshotCountOutputTypeCountArtifactsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ArtifactWhereInput
+}
+
+
+export type EntitySnapshotSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  contentHash?: boolean
+  entityId?: boolean
+  operationId?: boolean
+  stateId?: boolean
+  referencedInOutputs?: boolean
+  exportedInOutputs?: boolean
+  createdAt?: boolean
+  content?: boolean | Prisma.EntitySnapshotContentDefaultArgs<ExtArgs>
+  entity?: boolean | Prisma.EntityDefaultArgs<ExtArgs>
+  operation?: boolean | Prisma.OperationDefaultArgs<ExtArgs>
+  state?: boolean | Prisma.InstanceStateDefaultArgs<ExtArgs>
+  references?: boolean | Prisma.EntitySnapshot$referencesArgs<ExtArgs>
+  referencedBy?: boolean | Prisma.EntitySnapshot$referencedByArgs<ExtArgs>
+  artifacts?: boolean | Prisma.EntitySnapshot$artifactsArgs<ExtArgs>
+  _count?: boolean | Prisma.EntitySnapshotCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["entitySnapshot"]>
+
+export type EntitySnapshotSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  contentHash?: boolean
+  entityId?: boolean
+  operationId?: boolean
+  stateId?: boolean
+  referencedInOutputs?: boolean
+  exportedInOutputs?: boolean
+  createdAt?: boolean
+  content?: boolean | Prisma.EntitySnapshotContentDefaultArgs<ExtArgs>
+  entity?: boolean | Prisma.EntityDefaultArgs<ExtArgs>
+  operation?: boolean | Prisma.OperationDefaultArgs<ExtArgs>
+  state?: boolean | Prisma.InstanceStateDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["entitySnapshot"]>
+
+export type EntitySnapshotSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  contentHash?: boolean
+  entityId?: boolean
+  operationId?: boolean
+  stateId?: boolean
+  referencedInOutputs?: boolean
+  exportedInOutputs?: boolean
+  createdAt?: boolean
+  content?: boolean | Prisma.EntitySnapshotContentDefaultArgs<ExtArgs>
+  entity?: boolean | Prisma.EntityDefaultArgs<ExtArgs>
+  operation?: boolean | Prisma.OperationDefaultArgs<ExtArgs>
+  state?: boolean | Prisma.InstanceStateDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["entitySnapshot"]>
+
+export type EntitySnapshotSelectScalar = {
+  id?: boolean
+  contentHash?: boolean
+  entityId?: boolean
+  operationId?: boolean
+  stateId?: boolean
+  referencedInOutputs?: boolean
+  exportedInOutputs?: boolean
+  createdAt?: boolean
+}
+
+export type EntitySnapshotOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "contentHash" | "entityId" | "operationId" | "stateId" | "referencedInOutputs" | "exportedInOutputs" | "createdAt", ExtArgs["result"]["entitySnapshot"]>
+export type EntitySnapshotInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  content?: boolean | Prisma.EntitySnapshotContentDefaultArgs<ExtArgs>
+  entity?: boolean | Prisma.EntityDefaultArgs<ExtArgs>
+  operation?: boolean | Prisma.OperationDefaultArgs<ExtArgs>
+  state?: boolean | Prisma.InstanceStateDefaultArgs<ExtArgs>
+  references?: boolean | Prisma.EntitySnapshot$referencesArgs<ExtArgs>
+  referencedBy?: boolean | Prisma.EntitySnapshot$referencedByArgs<ExtArgs>
+  artifacts?: boolean | Prisma.EntitySnapshot$artifactsArgs<ExtArgs>
+  _count?: boolean | Prisma.EntitySnapshotCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type EntitySnapshotIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  content?: boolean | Prisma.EntitySnapshotContentDefaultArgs<ExtArgs>
+  entity?: boolean | Prisma.EntityDefaultArgs<ExtArgs>
+  operation?: boolean | Prisma.OperationDefaultArgs<ExtArgs>
+  state?: boolean | Prisma.InstanceStateDefaultArgs<ExtArgs>
+}
+export type EntitySnapshotIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  content?: boolean | Prisma.EntitySnapshotContentDefaultArgs<ExtArgs>
+  entity?: boolean | Prisma.EntityDefaultArgs<ExtArgs>
+  operation?: boolean | Prisma.OperationDefaultArgs<ExtArgs>
+  state?: boolean | Prisma.InstanceStateDefaultArgs<ExtArgs>
+}
+
+export type $EntitySnapshotPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "EntitySnapshot"
+  objects: {
+    /**
+     * The content of the entity snapshot.
+     */
+    content: Prisma.$EntitySnapshotContentPayload<ExtArgs>
+    /**
+     * The entity this snapshot belongs to.
+     */
+    entity: Prisma.$EntityPayload<ExtArgs>
+    /**
+     * The operation that created this snapshot.
+     */
+    operation: Prisma.$OperationPayload<ExtArgs>
+    /**
+     * The instance state that produced this entity snapshot.
+     */
+    state: Prisma.$InstanceStatePayload<ExtArgs>
+    /**
+     * The snapshots of entities referenced by this entity snapshot.
+     * For explicit references (specified manually by their IDs) the last snapshot of the referenced entity will be used.
+     * For implicit references (collected via includes) the same snapshot of the same operation will be used.
+     */
+    references: Prisma.$EntitySnapshotReferencePayload<ExtArgs>[]
+    /**
+     * The snapshots of entities that reference this entity snapshot.
+     */
+    referencedBy: Prisma.$EntitySnapshotReferencePayload<ExtArgs>[]
+    /**
+     * The artifacts referenced by this entity snapshot.
+     */
+    artifacts: Prisma.$ArtifactPayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    /**
+     * The CUIDv2 of the entity snapshot.
+     */
+    id: string
+    /**
+     * The SHA-256 hash of the entity snapshot content.
+     * The content is stored separately in the EntitySnapshotContent model and can be shared between different snapshots with the same content hash.
+     */
+    contentHash: string
+    /**
+     * The ID of the entity this snapshot belongs to.
+     */
+    entityId: string
+    /**
+     * The ID of the operation that created this snapshot.
+     */
+    operationId: string
+    /**
+     * The ID of the instance state produced this entity snapshot.
+     */
+    stateId: string
+    /**
+     * The names of the instance outputs where this entity was referenced (including nested entities).
+     * 
+     * ![string[]]
+     */
+    referencedInOutputs:(string[])
+    /**
+     * The names of the outputs that exported this entity directly.
+     * 
+     * ![string[]]
+     */
+    exportedInOutputs:(string[])
+    /**
+     * The time when the entity snapshot was created.
+     */
+    createdAt: Date
+  }, ExtArgs["result"]["entitySnapshot"]>
+  composites: {}
+}
+
+export type EntitySnapshotGetPayload<S extends boolean | null | undefined | EntitySnapshotDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$EntitySnapshotPayload, S>
+
+export type EntitySnapshotCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<EntitySnapshotFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: EntitySnapshotCountAggregateInputType | true
+  }
+
+export interface EntitySnapshotDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['EntitySnapshot'], meta: { name: 'EntitySnapshot' } }
+  /**
+   * Find zero or one EntitySnapshot that matches the filter.
+   * @param {EntitySnapshotFindUniqueArgs} args - Arguments to find a EntitySnapshot
+   * @example
+   * // Get one EntitySnapshot
+   * const entitySnapshot = await prisma.entitySnapshot.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends EntitySnapshotFindUniqueArgs>(args: Prisma.SelectSubset<T, EntitySnapshotFindUniqueArgs<ExtArgs>>): Prisma.Prisma__EntitySnapshotClient<runtime.Types.Result.GetResult<Prisma.$EntitySnapshotPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one EntitySnapshot that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {EntitySnapshotFindUniqueOrThrowArgs} args - Arguments to find a EntitySnapshot
+   * @example
+   * // Get one EntitySnapshot
+   * const entitySnapshot = await prisma.entitySnapshot.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends EntitySnapshotFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, EntitySnapshotFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__EntitySnapshotClient<runtime.Types.Result.GetResult<Prisma.$EntitySnapshotPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first EntitySnapshot that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {EntitySnapshotFindFirstArgs} args - Arguments to find a EntitySnapshot
+   * @example
+   * // Get one EntitySnapshot
+   * const entitySnapshot = await prisma.entitySnapshot.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends EntitySnapshotFindFirstArgs>(args?: Prisma.SelectSubset<T, EntitySnapshotFindFirstArgs<ExtArgs>>): Prisma.Prisma__EntitySnapshotClient<runtime.Types.Result.GetResult<Prisma.$EntitySnapshotPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first EntitySnapshot that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {EntitySnapshotFindFirstOrThrowArgs} args - Arguments to find a EntitySnapshot
+   * @example
+   * // Get one EntitySnapshot
+   * const entitySnapshot = await prisma.entitySnapshot.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends EntitySnapshotFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, EntitySnapshotFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__EntitySnapshotClient<runtime.Types.Result.GetResult<Prisma.$EntitySnapshotPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more EntitySnapshots that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {EntitySnapshotFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all EntitySnapshots
+   * const entitySnapshots = await prisma.entitySnapshot.findMany()
+   * 
+   * // Get first 10 EntitySnapshots
+   * const entitySnapshots = await prisma.entitySnapshot.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const entitySnapshotWithIdOnly = await prisma.entitySnapshot.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends EntitySnapshotFindManyArgs>(args?: Prisma.SelectSubset<T, EntitySnapshotFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$EntitySnapshotPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a EntitySnapshot.
+   * @param {EntitySnapshotCreateArgs} args - Arguments to create a EntitySnapshot.
+   * @example
+   * // Create one EntitySnapshot
+   * const EntitySnapshot = await prisma.entitySnapshot.create({
+   *   data: {
+   *     // ... data to create a EntitySnapshot
+   *   }
+   * })
+   * 
+   */
+  create<T extends EntitySnapshotCreateArgs>(args: Prisma.SelectSubset<T, EntitySnapshotCreateArgs<ExtArgs>>): Prisma.Prisma__EntitySnapshotClient<runtime.Types.Result.GetResult<Prisma.$EntitySnapshotPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many EntitySnapshots.
+   * @param {EntitySnapshotCreateManyArgs} args - Arguments to create many EntitySnapshots.
+   * @example
+   * // Create many EntitySnapshots
+   * const entitySnapshot = await prisma.entitySnapshot.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends EntitySnapshotCreateManyArgs>(args?: Prisma.SelectSubset<T, EntitySnapshotCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many EntitySnapshots and returns the data saved in the database.
+   * @param {EntitySnapshotCreateManyAndReturnArgs} args - Arguments to create many EntitySnapshots.
+   * @example
+   * // Create many EntitySnapshots
+   * const entitySnapshot = await prisma.entitySnapshot.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many EntitySnapshots and only return the `id`
+   * const entitySnapshotWithIdOnly = await prisma.entitySnapshot.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends EntitySnapshotCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, EntitySnapshotCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$EntitySnapshotPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a EntitySnapshot.
+   * @param {EntitySnapshotDeleteArgs} args - Arguments to delete one EntitySnapshot.
+   * @example
+   * // Delete one EntitySnapshot
+   * const EntitySnapshot = await prisma.entitySnapshot.delete({
+   *   where: {
+   *     // ... filter to delete one EntitySnapshot
+   *   }
+   * })
+   * 
+   */
+  delete<T extends EntitySnapshotDeleteArgs>(args: Prisma.SelectSubset<T, EntitySnapshotDeleteArgs<ExtArgs>>): Prisma.Prisma__EntitySnapshotClient<runtime.Types.Result.GetResult<Prisma.$EntitySnapshotPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one EntitySnapshot.
+   * @param {EntitySnapshotUpdateArgs} args - Arguments to update one EntitySnapshot.
+   * @example
+   * // Update one EntitySnapshot
+   * const entitySnapshot = await prisma.entitySnapshot.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends EntitySnapshotUpdateArgs>(args: Prisma.SelectSubset<T, EntitySnapshotUpdateArgs<ExtArgs>>): Prisma.Prisma__EntitySnapshotClient<runtime.Types.Result.GetResult<Prisma.$EntitySnapshotPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more EntitySnapshots.
+   * @param {EntitySnapshotDeleteManyArgs} args - Arguments to filter EntitySnapshots to delete.
+   * @example
+   * // Delete a few EntitySnapshots
+   * const { count } = await prisma.entitySnapshot.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends EntitySnapshotDeleteManyArgs>(args?: Prisma.SelectSubset<T, EntitySnapshotDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more EntitySnapshots.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {EntitySnapshotUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many EntitySnapshots
+   * const entitySnapshot = await prisma.entitySnapshot.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends EntitySnapshotUpdateManyArgs>(args: Prisma.SelectSubset<T, EntitySnapshotUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more EntitySnapshots and returns the data updated in the database.
+   * @param {EntitySnapshotUpdateManyAndReturnArgs} args - Arguments to update many EntitySnapshots.
+   * @example
+   * // Update many EntitySnapshots
+   * const entitySnapshot = await prisma.entitySnapshot.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more EntitySnapshots and only return the `id`
+   * const entitySnapshotWithIdOnly = await prisma.entitySnapshot.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends EntitySnapshotUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, EntitySnapshotUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$EntitySnapshotPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one EntitySnapshot.
+   * @param {EntitySnapshotUpsertArgs} args - Arguments to update or create a EntitySnapshot.
+   * @example
+   * // Update or create a EntitySnapshot
+   * const entitySnapshot = await prisma.entitySnapshot.upsert({
+   *   create: {
+   *     // ... data to create a EntitySnapshot
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the EntitySnapshot we want to update
+   *   }
+   * })
+   */
+  upsert<T extends EntitySnapshotUpsertArgs>(args: Prisma.SelectSubset<T, EntitySnapshotUpsertArgs<ExtArgs>>): Prisma.Prisma__EntitySnapshotClient<runtime.Types.Result.GetResult<Prisma.$EntitySnapshotPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of EntitySnapshots.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {EntitySnapshotCountArgs} args - Arguments to filter EntitySnapshots to count.
+   * @example
+   * // Count the number of EntitySnapshots
+   * const count = await prisma.entitySnapshot.count({
+   *   where: {
+   *     // ... the filter for the EntitySnapshots we want to count
+   *   }
+   * })
+  **/
+  count<T extends EntitySnapshotCountArgs>(
+    args?: Prisma.Subset<T, EntitySnapshotCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], EntitySnapshotCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a EntitySnapshot.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {EntitySnapshotAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends EntitySnapshotAggregateArgs>(args: Prisma.Subset<T, EntitySnapshotAggregateArgs>): Prisma.PrismaPromise<GetEntitySnapshotAggregateType<T>>
+
+  /**
+   * Group by EntitySnapshot.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {EntitySnapshotGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends EntitySnapshotGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: EntitySnapshotGroupByArgs['orderBy'] }
+      : { orderBy?: EntitySnapshotGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, EntitySnapshotGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetEntitySnapshotGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the EntitySnapshot model
+ */
+readonly fields: EntitySnapshotFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for EntitySnapshot.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__EntitySnapshotClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  content<T extends Prisma.EntitySnapshotContentDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.EntitySnapshotContentDefaultArgs<ExtArgs>>): Prisma.Prisma__EntitySnapshotContentClient<runtime.Types.Result.GetResult<Prisma.$EntitySnapshotContentPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  entity<T extends Prisma.EntityDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.EntityDefaultArgs<ExtArgs>>): Prisma.Prisma__EntityClient<runtime.Types.Result.GetResult<Prisma.$EntityPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  operation<T extends Prisma.OperationDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.OperationDefaultArgs<ExtArgs>>): Prisma.Prisma__OperationClient<runtime.Types.Result.GetResult<Prisma.$OperationPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  state<T extends Prisma.InstanceStateDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InstanceStateDefaultArgs<ExtArgs>>): Prisma.Prisma__InstanceStateClient<runtime.Types.Result.GetResult<Prisma.$InstanceStatePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  references<T extends Prisma.EntitySnapshot$referencesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.EntitySnapshot$referencesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$EntitySnapshotReferencePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  referencedBy<T extends Prisma.EntitySnapshot$referencedByArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.EntitySnapshot$referencedByArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$EntitySnapshotReferencePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  artifacts<T extends Prisma.EntitySnapshot$artifactsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.EntitySnapshot$artifactsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ArtifactPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the EntitySnapshot model
+ */
+export interface EntitySnapshotFieldRefs {
+  readonly id: Prisma.FieldRef<"EntitySnapshot", 'String'>
+  readonly contentHash: Prisma.FieldRef<"EntitySnapshot", 'String'>
+  readonly entityId: Prisma.FieldRef<"EntitySnapshot", 'String'>
+  readonly operationId: Prisma.FieldRef<"EntitySnapshot", 'String'>
+  readonly stateId: Prisma.FieldRef<"EntitySnapshot", 'String'>
+  readonly referencedInOutputs: Prisma.FieldRef<"EntitySnapshot", 'Json'>
+  readonly exportedInOutputs: Prisma.FieldRef<"EntitySnapshot", 'Json'>
+  readonly createdAt: Prisma.FieldRef<"EntitySnapshot", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * EntitySnapshot findUnique
+ */
+export type EntitySnapshotFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EntitySnapshot
+   */
+  select?: Prisma.EntitySnapshotSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EntitySnapshot
+   */
+  omit?: Prisma.EntitySnapshotOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EntitySnapshotInclude<ExtArgs> | null
+  /**
+   * Filter, which EntitySnapshot to fetch.
+   */
+  where: Prisma.EntitySnapshotWhereUniqueInput
+}
+
+/**
+ * EntitySnapshot findUniqueOrThrow
+ */
+export type EntitySnapshotFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EntitySnapshot
+   */
+  select?: Prisma.EntitySnapshotSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EntitySnapshot
+   */
+  omit?: Prisma.EntitySnapshotOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EntitySnapshotInclude<ExtArgs> | null
+  /**
+   * Filter, which EntitySnapshot to fetch.
+   */
+  where: Prisma.EntitySnapshotWhereUniqueInput
+}
+
+/**
+ * EntitySnapshot findFirst
+ */
+export type EntitySnapshotFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EntitySnapshot
+   */
+  select?: Prisma.EntitySnapshotSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EntitySnapshot
+   */
+  omit?: Prisma.EntitySnapshotOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EntitySnapshotInclude<ExtArgs> | null
+  /**
+   * Filter, which EntitySnapshot to fetch.
+   */
+  where?: Prisma.EntitySnapshotWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of EntitySnapshots to fetch.
+   */
+  orderBy?: Prisma.EntitySnapshotOrderByWithRelationInput | Prisma.EntitySnapshotOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for EntitySnapshots.
+   */
+  cursor?: Prisma.EntitySnapshotWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` EntitySnapshots from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` EntitySnapshots.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of EntitySnapshots.
+   */
+  distinct?: Prisma.EntitySnapshotScalarFieldEnum | Prisma.EntitySnapshotScalarFieldEnum[]
+}
+
+/**
+ * EntitySnapshot findFirstOrThrow
+ */
+export type EntitySnapshotFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EntitySnapshot
+   */
+  select?: Prisma.EntitySnapshotSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EntitySnapshot
+   */
+  omit?: Prisma.EntitySnapshotOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EntitySnapshotInclude<ExtArgs> | null
+  /**
+   * Filter, which EntitySnapshot to fetch.
+   */
+  where?: Prisma.EntitySnapshotWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of EntitySnapshots to fetch.
+   */
+  orderBy?: Prisma.EntitySnapshotOrderByWithRelationInput | Prisma.EntitySnapshotOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for EntitySnapshots.
+   */
+  cursor?: Prisma.EntitySnapshotWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` EntitySnapshots from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` EntitySnapshots.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of EntitySnapshots.
+   */
+  distinct?: Prisma.EntitySnapshotScalarFieldEnum | Prisma.EntitySnapshotScalarFieldEnum[]
+}
+
+/**
+ * EntitySnapshot findMany
+ */
+export type EntitySnapshotFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EntitySnapshot
+   */
+  select?: Prisma.EntitySnapshotSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EntitySnapshot
+   */
+  omit?: Prisma.EntitySnapshotOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EntitySnapshotInclude<ExtArgs> | null
+  /**
+   * Filter, which EntitySnapshots to fetch.
+   */
+  where?: Prisma.EntitySnapshotWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of EntitySnapshots to fetch.
+   */
+  orderBy?: Prisma.EntitySnapshotOrderByWithRelationInput | Prisma.EntitySnapshotOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing EntitySnapshots.
+   */
+  cursor?: Prisma.EntitySnapshotWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` EntitySnapshots from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` EntitySnapshots.
+   */
+  skip?: number
+  distinct?: Prisma.EntitySnapshotScalarFieldEnum | Prisma.EntitySnapshotScalarFieldEnum[]
+}
+
+/**
+ * EntitySnapshot create
+ */
+export type EntitySnapshotCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EntitySnapshot
+   */
+  select?: Prisma.EntitySnapshotSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EntitySnapshot
+   */
+  omit?: Prisma.EntitySnapshotOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EntitySnapshotInclude<ExtArgs> | null
+  /**
+   * The data needed to create a EntitySnapshot.
+   */
+  data: Prisma.XOR<Prisma.EntitySnapshotCreateInput, Prisma.EntitySnapshotUncheckedCreateInput>
+}
+
+/**
+ * EntitySnapshot createMany
+ */
+export type EntitySnapshotCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many EntitySnapshots.
+   */
+  data: Prisma.EntitySnapshotCreateManyInput | Prisma.EntitySnapshotCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * EntitySnapshot createManyAndReturn
+ */
+export type EntitySnapshotCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EntitySnapshot
+   */
+  select?: Prisma.EntitySnapshotSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the EntitySnapshot
+   */
+  omit?: Prisma.EntitySnapshotOmit<ExtArgs> | null
+  /**
+   * The data used to create many EntitySnapshots.
+   */
+  data: Prisma.EntitySnapshotCreateManyInput | Prisma.EntitySnapshotCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EntitySnapshotIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * EntitySnapshot update
+ */
+export type EntitySnapshotUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EntitySnapshot
+   */
+  select?: Prisma.EntitySnapshotSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EntitySnapshot
+   */
+  omit?: Prisma.EntitySnapshotOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EntitySnapshotInclude<ExtArgs> | null
+  /**
+   * The data needed to update a EntitySnapshot.
+   */
+  data: Prisma.XOR<Prisma.EntitySnapshotUpdateInput, Prisma.EntitySnapshotUncheckedUpdateInput>
+  /**
+   * Choose, which EntitySnapshot to update.
+   */
+  where: Prisma.EntitySnapshotWhereUniqueInput
+}
+
+/**
+ * EntitySnapshot updateMany
+ */
+export type EntitySnapshotUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update EntitySnapshots.
+   */
+  data: Prisma.XOR<Prisma.EntitySnapshotUpdateManyMutationInput, Prisma.EntitySnapshotUncheckedUpdateManyInput>
+  /**
+   * Filter which EntitySnapshots to update
+   */
+  where?: Prisma.EntitySnapshotWhereInput
+  /**
+   * Limit how many EntitySnapshots to update.
+   */
+  limit?: number
+}
+
+/**
+ * EntitySnapshot updateManyAndReturn
+ */
+export type EntitySnapshotUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EntitySnapshot
+   */
+  select?: Prisma.EntitySnapshotSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the EntitySnapshot
+   */
+  omit?: Prisma.EntitySnapshotOmit<ExtArgs> | null
+  /**
+   * The data used to update EntitySnapshots.
+   */
+  data: Prisma.XOR<Prisma.EntitySnapshotUpdateManyMutationInput, Prisma.EntitySnapshotUncheckedUpdateManyInput>
+  /**
+   * Filter which EntitySnapshots to update
+   */
+  where?: Prisma.EntitySnapshotWhereInput
+  /**
+   * Limit how many EntitySnapshots to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EntitySnapshotIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * EntitySnapshot upsert
+ */
+export type EntitySnapshotUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EntitySnapshot
+   */
+  select?: Prisma.EntitySnapshotSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EntitySnapshot
+   */
+  omit?: Prisma.EntitySnapshotOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EntitySnapshotInclude<ExtArgs> | null
+  /**
+   * The filter to search for the EntitySnapshot to update in case it exists.
+   */
+  where: Prisma.EntitySnapshotWhereUniqueInput
+  /**
+   * In case the EntitySnapshot found by the `where` argument doesn't exist, create a new EntitySnapshot with this data.
+   */
+  create: Prisma.XOR<Prisma.EntitySnapshotCreateInput, Prisma.EntitySnapshotUncheckedCreateInput>
+  /**
+   * In case the EntitySnapshot was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.EntitySnapshotUpdateInput, Prisma.EntitySnapshotUncheckedUpdateInput>
+}
+
+/**
+ * EntitySnapshot delete
+ */
+export type EntitySnapshotDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EntitySnapshot
+   */
+  select?: Prisma.EntitySnapshotSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EntitySnapshot
+   */
+  omit?: Prisma.EntitySnapshotOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EntitySnapshotInclude<ExtArgs> | null
+  /**
+   * Filter which EntitySnapshot to delete.
+   */
+  where: Prisma.EntitySnapshotWhereUniqueInput
+}
+
+/**
+ * EntitySnapshot deleteMany
+ */
+export type EntitySnapshotDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which EntitySnapshots to delete
+   */
+  where?: Prisma.EntitySnapshotWhereInput
+  /**
+   * Limit how many EntitySnapshots to delete.
+   */
+  limit?: number
+}
+
+/**
+ * EntitySnapshot.references
+ */
+export type EntitySnapshot$referencesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EntitySnapshotReference
+   */
+  select?: Prisma.EntitySnapshotReferenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EntitySnapshotReference
+   */
+  omit?: Prisma.EntitySnapshotReferenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EntitySnapshotReferenceInclude<ExtArgs> | null
+  where?: Prisma.EntitySnapshotReferenceWhereInput
+  orderBy?: Prisma.EntitySnapshotReferenceOrderByWithRelationInput | Prisma.EntitySnapshotReferenceOrderByWithRelationInput[]
+  cursor?: Prisma.EntitySnapshotReferenceWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.EntitySnapshotReferenceScalarFieldEnum | Prisma.EntitySnapshotReferenceScalarFieldEnum[]
+}
+
+/**
+ * EntitySnapshot.referencedBy
+ */
+export type EntitySnapshot$referencedByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EntitySnapshotReference
+   */
+  select?: Prisma.EntitySnapshotReferenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EntitySnapshotReference
+   */
+  omit?: Prisma.EntitySnapshotReferenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EntitySnapshotReferenceInclude<ExtArgs> | null
+  where?: Prisma.EntitySnapshotReferenceWhereInput
+  orderBy?: Prisma.EntitySnapshotReferenceOrderByWithRelationInput | Prisma.EntitySnapshotReferenceOrderByWithRelationInput[]
+  cursor?: Prisma.EntitySnapshotReferenceWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.EntitySnapshotReferenceScalarFieldEnum | Prisma.EntitySnapshotReferenceScalarFieldEnum[]
+}
+
+/**
+ * EntitySnapshot.artifacts
+ */
+export type EntitySnapshot$artifactsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Artifact
+   */
+  select?: Prisma.ArtifactSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Artifact
+   */
+  omit?: Prisma.ArtifactOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ArtifactInclude<ExtArgs> | null
+  where?: Prisma.ArtifactWhereInput
+  orderBy?: Prisma.ArtifactOrderByWithRelationInput | Prisma.ArtifactOrderByWithRelationInput[]
+  cursor?: Prisma.ArtifactWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ArtifactScalarFieldEnum | Prisma.ArtifactScalarFieldEnum[]
+}
+
+/**
+ * EntitySnapshot without action
+ */
+export type EntitySnapshotDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EntitySnapshot
+   */
+  select?: Prisma.EntitySnapshotSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EntitySnapshot
+   */
+  omit?: Prisma.EntitySnapshotOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EntitySnapshotInclude<ExtArgs> | null
+}
@@ -0,0 +1,1262 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `EntitySnapshotContent` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+
+import type * as PJTG from '../pjtg.ts';
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.ts"
+import type * as Prisma from "../internal/prismaNamespace.ts"
+
+/**
+ * Model EntitySnapshotContent
+ * 
+ */
+export type EntitySnapshotContentModel = runtime.Types.Result.DefaultSelection<Prisma.$EntitySnapshotContentPayload>
+
+export type AggregateEntitySnapshotContent = {
+  _count: EntitySnapshotContentCountAggregateOutputType | null
+  _min: EntitySnapshotContentMinAggregateOutputType | null
+  _max: EntitySnapshotContentMaxAggregateOutputType | null
+}
+
+export type EntitySnapshotContentMinAggregateOutputType = {
+  hash: string | null
+}
+
+export type EntitySnapshotContentMaxAggregateOutputType = {
+  hash: string | null
+}
+
+export type EntitySnapshotContentCountAggregateOutputType = {
+  hash: number
+  meta: number
+  content: number
+  _all: number
+}
+
+
+export type EntitySnapshotContentMinAggregateInputType = {
+  hash?: true
+}
+
+export type EntitySnapshotContentMaxAggregateInputType = {
+  hash?: true
+}
+
+export type EntitySnapshotContentCountAggregateInputType = {
+  hash?: true
+  meta?: true
+  content?: true
+  _all?: true
+}
+
+export type EntitySnapshotContentAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which EntitySnapshotContent to aggregate.
+   */
+  where?: Prisma.EntitySnapshotContentWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of EntitySnapshotContents to fetch.
+   */
+  orderBy?: Prisma.EntitySnapshotContentOrderByWithRelationInput | Prisma.EntitySnapshotContentOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.EntitySnapshotContentWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` EntitySnapshotContents from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` EntitySnapshotContents.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned EntitySnapshotContents
+  **/
+  _count?: true | EntitySnapshotContentCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: EntitySnapshotContentMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: EntitySnapshotContentMaxAggregateInputType
+}
+
+export type GetEntitySnapshotContentAggregateType<T extends EntitySnapshotContentAggregateArgs> = {
+      [P in keyof T & keyof AggregateEntitySnapshotContent]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateEntitySnapshotContent[P]>
+    : Prisma.GetScalarType<T[P], AggregateEntitySnapshotContent[P]>
+}
+
+
+
+
+export type EntitySnapshotContentGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.EntitySnapshotContentWhereInput
+  orderBy?: Prisma.EntitySnapshotContentOrderByWithAggregationInput | Prisma.EntitySnapshotContentOrderByWithAggregationInput[]
+  by: Prisma.EntitySnapshotContentScalarFieldEnum[] | Prisma.EntitySnapshotContentScalarFieldEnum
+  having?: Prisma.EntitySnapshotContentScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: EntitySnapshotContentCountAggregateInputType | true
+  _min?: EntitySnapshotContentMinAggregateInputType
+  _max?: EntitySnapshotContentMaxAggregateInputType
+}
+
+export type EntitySnapshotContentGroupByOutputType = {
+  hash: string
+  meta:PrismaJson.EntityMeta | null
+  content:unknown
+  _count: EntitySnapshotContentCountAggregateOutputType | null
+  _min: EntitySnapshotContentMinAggregateOutputType | null
+  _max: EntitySnapshotContentMaxAggregateOutputType | null
+}
+
+type GetEntitySnapshotContentGroupByPayload<T extends EntitySnapshotContentGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<EntitySnapshotContentGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof EntitySnapshotContentGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], EntitySnapshotContentGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], EntitySnapshotContentGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type EntitySnapshotContentWhereInput = {
+  AND?: Prisma.EntitySnapshotContentWhereInput | Prisma.EntitySnapshotContentWhereInput[]
+  OR?: Prisma.EntitySnapshotContentWhereInput[]
+  NOT?: Prisma.EntitySnapshotContentWhereInput | Prisma.EntitySnapshotContentWhereInput[]
+  hash?: Prisma.StringFilter<"EntitySnapshotContent"> | string
+  meta?: Prisma.JsonNullableFilter<"EntitySnapshotContent">
+  content?: Prisma.JsonFilter<"EntitySnapshotContent">
+  snapshots?: Prisma.EntitySnapshotListRelationFilter
+}
+
+export type EntitySnapshotContentOrderByWithRelationInput = {
+  hash?: Prisma.SortOrder
+  meta?: Prisma.SortOrderInput | Prisma.SortOrder
+  content?: Prisma.SortOrder
+  snapshots?: Prisma.EntitySnapshotOrderByRelationAggregateInput
+}
+
+export type EntitySnapshotContentWhereUniqueInput = Prisma.AtLeast<{
+  hash?: string
+  AND?: Prisma.EntitySnapshotContentWhereInput | Prisma.EntitySnapshotContentWhereInput[]
+  OR?: Prisma.EntitySnapshotContentWhereInput[]
+  NOT?: Prisma.EntitySnapshotContentWhereInput | Prisma.EntitySnapshotContentWhereInput[]
+  meta?: Prisma.JsonNullableFilter<"EntitySnapshotContent">
+  content?: Prisma.JsonFilter<"EntitySnapshotContent">
+  snapshots?: Prisma.EntitySnapshotListRelationFilter
+}, "hash">
+
+export type EntitySnapshotContentOrderByWithAggregationInput = {
+  hash?: Prisma.SortOrder
+  meta?: Prisma.SortOrderInput | Prisma.SortOrder
+  content?: Prisma.SortOrder
+  _count?: Prisma.EntitySnapshotContentCountOrderByAggregateInput
+  _max?: Prisma.EntitySnapshotContentMaxOrderByAggregateInput
+  _min?: Prisma.EntitySnapshotContentMinOrderByAggregateInput
+}
+
+export type EntitySnapshotContentScalarWhereWithAggregatesInput = {
+  AND?: Prisma.EntitySnapshotContentScalarWhereWithAggregatesInput | Prisma.EntitySnapshotContentScalarWhereWithAggregatesInput[]
+  OR?: Prisma.EntitySnapshotContentScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.EntitySnapshotContentScalarWhereWithAggregatesInput | Prisma.EntitySnapshotContentScalarWhereWithAggregatesInput[]
+  hash?: Prisma.StringWithAggregatesFilter<"EntitySnapshotContent"> | string
+  meta?: Prisma.JsonNullableWithAggregatesFilter<"EntitySnapshotContent">
+  content?: Prisma.JsonWithAggregatesFilter<"EntitySnapshotContent">
+}
+
+export type EntitySnapshotContentCreateInput = {
+  hash: string
+  meta?:PrismaJson.EntityMeta | Prisma.NullableJsonNullValueInput
+  content:unknown
+  snapshots?: Prisma.EntitySnapshotCreateNestedManyWithoutContentInput
+}
+
+export type EntitySnapshotContentUncheckedCreateInput = {
+  hash: string
+  meta?:PrismaJson.EntityMeta | Prisma.NullableJsonNullValueInput
+  content:unknown
+  snapshots?: Prisma.EntitySnapshotUncheckedCreateNestedManyWithoutContentInput
+}
+
+export type EntitySnapshotContentUpdateInput = {
+  hash?: Prisma.StringFieldUpdateOperationsInput | string
+  meta?:PrismaJson.EntityMeta | Prisma.NullableJsonNullValueInput
+  content?:unknown
+  snapshots?: Prisma.EntitySnapshotUpdateManyWithoutContentNestedInput
+}
+
+export type EntitySnapshotContentUncheckedUpdateInput = {
+  hash?: Prisma.StringFieldUpdateOperationsInput | string
+  meta?:PrismaJson.EntityMeta | Prisma.NullableJsonNullValueInput
+  content?:unknown
+  snapshots?: Prisma.EntitySnapshotUncheckedUpdateManyWithoutContentNestedInput
+}
+
+export type EntitySnapshotContentCreateManyInput = {
+  hash: string
+  meta?:PrismaJson.EntityMeta | Prisma.NullableJsonNullValueInput
+  content:unknown
+}
+
+export type EntitySnapshotContentUpdateManyMutationInput = {
+  hash?: Prisma.StringFieldUpdateOperationsInput | string
+  meta?:PrismaJson.EntityMeta | Prisma.NullableJsonNullValueInput
+  content?:unknown
+}
+
+export type EntitySnapshotContentUncheckedUpdateManyInput = {
+  hash?: Prisma.StringFieldUpdateOperationsInput | string
+  meta?:PrismaJson.EntityMeta | Prisma.NullableJsonNullValueInput
+  content?:unknown
+}
+
+export type EntitySnapshotContentScalarRelationFilter = {
+  is?: Prisma.EntitySnapshotContentWhereInput
+  isNot?: Prisma.EntitySnapshotContentWhereInput
+}
+
+export type EntitySnapshotContentCountOrderByAggregateInput = {
+  hash?: Prisma.SortOrder
+  meta?: Prisma.SortOrder
+  content?: Prisma.SortOrder
+}
+
+export type EntitySnapshotContentMaxOrderByAggregateInput = {
+  hash?: Prisma.SortOrder
+}
+
+export type EntitySnapshotContentMinOrderByAggregateInput = {
+  hash?: Prisma.SortOrder
+}
+
+export type EntitySnapshotContentCreateNestedOneWithoutSnapshotsInput = {
+  create?: Prisma.XOR<Prisma.EntitySnapshotContentCreateWithoutSnapshotsInput, Prisma.EntitySnapshotContentUncheckedCreateWithoutSnapshotsInput>
+  connectOrCreate?: Prisma.EntitySnapshotContentCreateOrConnectWithoutSnapshotsInput
+  connect?: Prisma.EntitySnapshotContentWhereUniqueInput
+}
+
+export type EntitySnapshotContentUpdateOneRequiredWithoutSnapshotsNestedInput = {
+  create?: Prisma.XOR<Prisma.EntitySnapshotContentCreateWithoutSnapshotsInput, Prisma.EntitySnapshotContentUncheckedCreateWithoutSnapshotsInput>
+  connectOrCreate?: Prisma.EntitySnapshotContentCreateOrConnectWithoutSnapshotsInput
+  upsert?: Prisma.EntitySnapshotContentUpsertWithoutSnapshotsInput
+  connect?: Prisma.EntitySnapshotContentWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.EntitySnapshotContentUpdateToOneWithWhereWithoutSnapshotsInput, Prisma.EntitySnapshotContentUpdateWithoutSnapshotsInput>, Prisma.EntitySnapshotContentUncheckedUpdateWithoutSnapshotsInput>
+}
+
+export type EntitySnapshotContentCreateWithoutSnapshotsInput = {
+  hash: string
+  meta?:PrismaJson.EntityMeta | Prisma.NullableJsonNullValueInput
+  content:unknown
+}
+
+export type EntitySnapshotContentUncheckedCreateWithoutSnapshotsInput = {
+  hash: string
+  meta?:PrismaJson.EntityMeta | Prisma.NullableJsonNullValueInput
+  content:unknown
+}
+
+export type EntitySnapshotContentCreateOrConnectWithoutSnapshotsInput = {
+  where: Prisma.EntitySnapshotContentWhereUniqueInput
+  create: Prisma.XOR<Prisma.EntitySnapshotContentCreateWithoutSnapshotsInput, Prisma.EntitySnapshotContentUncheckedCreateWithoutSnapshotsInput>
+}
+
+export type EntitySnapshotContentUpsertWithoutSnapshotsInput = {
+  update: Prisma.XOR<Prisma.EntitySnapshotContentUpdateWithoutSnapshotsInput, Prisma.EntitySnapshotContentUncheckedUpdateWithoutSnapshotsInput>
+  create: Prisma.XOR<Prisma.EntitySnapshotContentCreateWithoutSnapshotsInput, Prisma.EntitySnapshotContentUncheckedCreateWithoutSnapshotsInput>
+  where?: Prisma.EntitySnapshotContentWhereInput
+}
+
+export type EntitySnapshotContentUpdateToOneWithWhereWithoutSnapshotsInput = {
+  where?: Prisma.EntitySnapshotContentWhereInput
+  data: Prisma.XOR<Prisma.EntitySnapshotContentUpdateWithoutSnapshotsInput, Prisma.EntitySnapshotContentUncheckedUpdateWithoutSnapshotsInput>
+}
+
+export type EntitySnapshotContentUpdateWithoutSnapshotsInput = {
+  hash?: Prisma.StringFieldUpdateOperationsInput | string
+  meta?:PrismaJson.EntityMeta | Prisma.NullableJsonNullValueInput
+  content?:unknown
+}
+
+export type EntitySnapshotContentUncheckedUpdateWithoutSnapshotsInput = {
+  hash?: Prisma.StringFieldUpdateOperationsInput | string
+  meta?:PrismaJson.EntityMeta | Prisma.NullableJsonNullValueInput
+  content?:unknown
+}
+
+
+/**
+ * Count Type EntitySnapshotContentCountOutputType
+ */
+
+export type EntitySnapshotContentCountOutputType = {
+  snapshots: number
+}
+
+export type EntitySnapshotContentCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  snapshots?: boolean | EntitySnapshotContentCountOutputTypeCountSnapshotsArgs
+}
+
+/**
+ * EntitySnapshotContentCountOutputType without action
+ */
+export type EntitySnapshotContentCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EntitySnapshotContentCountOutputType
+   */
+  select?: Prisma.EntitySnapshotContentCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * EntitySnapshotContentCountOutputType without action
+ */
+export type EntitySnapshotContentCountOutputTypeCountSnapshotsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.EntitySnapshotWhereInput
+}
+
+
+export type EntitySnapshotContentSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  hash?: boolean
+  meta?: boolean
+  content?: boolean
+  snapshots?: boolean | Prisma.EntitySnapshotContent$snapshotsArgs<ExtArgs>
+  _count?: boolean | Prisma.EntitySnapshotContentCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["entitySnapshotContent"]>
+
+export type EntitySnapshotContentSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  hash?: boolean
+  meta?: boolean
+  content?: boolean
+}, ExtArgs["result"]["entitySnapshotContent"]>
+
+export type EntitySnapshotContentSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  hash?: boolean
+  meta?: boolean
+  content?: boolean
+}, ExtArgs["result"]["entitySnapshotContent"]>
+
+export type EntitySnapshotContentSelectScalar = {
+  hash?: boolean
+  meta?: boolean
+  content?: boolean
+}
+
+export type EntitySnapshotContentOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"hash" | "meta" | "content", ExtArgs["result"]["entitySnapshotContent"]>
+export type EntitySnapshotContentInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  snapshots?: boolean | Prisma.EntitySnapshotContent$snapshotsArgs<ExtArgs>
+  _count?: boolean | Prisma.EntitySnapshotContentCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type EntitySnapshotContentIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
+export type EntitySnapshotContentIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
+
+export type $EntitySnapshotContentPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "EntitySnapshotContent"
+  objects: {
+    /**
+     * The entity snapshots that have this content.
+     */
+    snapshots: Prisma.$EntitySnapshotPayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    /**
+     * The SHA-256 hash of the entity snapshot content.
+     */
+    hash: string
+    /**
+     * The metadata of the entity at the time of the snapshot.
+     * 
+     * [EntityMeta]
+     */
+    meta:PrismaJson.EntityMeta | null
+    /**
+     * The content of the entity snapshot, which is opaque to the backend.
+     */
+    content:unknown
+  }, ExtArgs["result"]["entitySnapshotContent"]>
+  composites: {}
+}
+
+export type EntitySnapshotContentGetPayload<S extends boolean | null | undefined | EntitySnapshotContentDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$EntitySnapshotContentPayload, S>
+
+export type EntitySnapshotContentCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<EntitySnapshotContentFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: EntitySnapshotContentCountAggregateInputType | true
+  }
+
+export interface EntitySnapshotContentDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['EntitySnapshotContent'], meta: { name: 'EntitySnapshotContent' } }
+  /**
+   * Find zero or one EntitySnapshotContent that matches the filter.
+   * @param {EntitySnapshotContentFindUniqueArgs} args - Arguments to find a EntitySnapshotContent
+   * @example
+   * // Get one EntitySnapshotContent
+   * const entitySnapshotContent = await prisma.entitySnapshotContent.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends EntitySnapshotContentFindUniqueArgs>(args: Prisma.SelectSubset<T, EntitySnapshotContentFindUniqueArgs<ExtArgs>>): Prisma.Prisma__EntitySnapshotContentClient<runtime.Types.Result.GetResult<Prisma.$EntitySnapshotContentPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one EntitySnapshotContent that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {EntitySnapshotContentFindUniqueOrThrowArgs} args - Arguments to find a EntitySnapshotContent
+   * @example
+   * // Get one EntitySnapshotContent
+   * const entitySnapshotContent = await prisma.entitySnapshotContent.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends EntitySnapshotContentFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, EntitySnapshotContentFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__EntitySnapshotContentClient<runtime.Types.Result.GetResult<Prisma.$EntitySnapshotContentPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first EntitySnapshotContent that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {EntitySnapshotContentFindFirstArgs} args - Arguments to find a EntitySnapshotContent
+   * @example
+   * // Get one EntitySnapshotContent
+   * const entitySnapshotContent = await prisma.entitySnapshotContent.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends EntitySnapshotContentFindFirstArgs>(args?: Prisma.SelectSubset<T, EntitySnapshotContentFindFirstArgs<ExtArgs>>): Prisma.Prisma__EntitySnapshotContentClient<runtime.Types.Result.GetResult<Prisma.$EntitySnapshotContentPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first EntitySnapshotContent that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {EntitySnapshotContentFindFirstOrThrowArgs} args - Arguments to find a EntitySnapshotContent
+   * @example
+   * // Get one EntitySnapshotContent
+   * const entitySnapshotContent = await prisma.entitySnapshotContent.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends EntitySnapshotContentFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, EntitySnapshotContentFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__EntitySnapshotContentClient<runtime.Types.Result.GetResult<Prisma.$EntitySnapshotContentPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more EntitySnapshotContents that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {EntitySnapshotContentFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all EntitySnapshotContents
+   * const entitySnapshotContents = await prisma.entitySnapshotContent.findMany()
+   * 
+   * // Get first 10 EntitySnapshotContents
+   * const entitySnapshotContents = await prisma.entitySnapshotContent.findMany({ take: 10 })
+   * 
+   * // Only select the `hash`
+   * const entitySnapshotContentWithHashOnly = await prisma.entitySnapshotContent.findMany({ select: { hash: true } })
+   * 
+   */
+  findMany<T extends EntitySnapshotContentFindManyArgs>(args?: Prisma.SelectSubset<T, EntitySnapshotContentFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$EntitySnapshotContentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a EntitySnapshotContent.
+   * @param {EntitySnapshotContentCreateArgs} args - Arguments to create a EntitySnapshotContent.
+   * @example
+   * // Create one EntitySnapshotContent
+   * const EntitySnapshotContent = await prisma.entitySnapshotContent.create({
+   *   data: {
+   *     // ... data to create a EntitySnapshotContent
+   *   }
+   * })
+   * 
+   */
+  create<T extends EntitySnapshotContentCreateArgs>(args: Prisma.SelectSubset<T, EntitySnapshotContentCreateArgs<ExtArgs>>): Prisma.Prisma__EntitySnapshotContentClient<runtime.Types.Result.GetResult<Prisma.$EntitySnapshotContentPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many EntitySnapshotContents.
+   * @param {EntitySnapshotContentCreateManyArgs} args - Arguments to create many EntitySnapshotContents.
+   * @example
+   * // Create many EntitySnapshotContents
+   * const entitySnapshotContent = await prisma.entitySnapshotContent.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends EntitySnapshotContentCreateManyArgs>(args?: Prisma.SelectSubset<T, EntitySnapshotContentCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many EntitySnapshotContents and returns the data saved in the database.
+   * @param {EntitySnapshotContentCreateManyAndReturnArgs} args - Arguments to create many EntitySnapshotContents.
+   * @example
+   * // Create many EntitySnapshotContents
+   * const entitySnapshotContent = await prisma.entitySnapshotContent.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many EntitySnapshotContents and only return the `hash`
+   * const entitySnapshotContentWithHashOnly = await prisma.entitySnapshotContent.createManyAndReturn({
+   *   select: { hash: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends EntitySnapshotContentCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, EntitySnapshotContentCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$EntitySnapshotContentPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a EntitySnapshotContent.
+   * @param {EntitySnapshotContentDeleteArgs} args - Arguments to delete one EntitySnapshotContent.
+   * @example
+   * // Delete one EntitySnapshotContent
+   * const EntitySnapshotContent = await prisma.entitySnapshotContent.delete({
+   *   where: {
+   *     // ... filter to delete one EntitySnapshotContent
+   *   }
+   * })
+   * 
+   */
+  delete<T extends EntitySnapshotContentDeleteArgs>(args: Prisma.SelectSubset<T, EntitySnapshotContentDeleteArgs<ExtArgs>>): Prisma.Prisma__EntitySnapshotContentClient<runtime.Types.Result.GetResult<Prisma.$EntitySnapshotContentPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one EntitySnapshotContent.
+   * @param {EntitySnapshotContentUpdateArgs} args - Arguments to update one EntitySnapshotContent.
+   * @example
+   * // Update one EntitySnapshotContent
+   * const entitySnapshotContent = await prisma.entitySnapshotContent.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends EntitySnapshotContentUpdateArgs>(args: Prisma.SelectSubset<T, EntitySnapshotContentUpdateArgs<ExtArgs>>): Prisma.Prisma__EntitySnapshotContentClient<runtime.Types.Result.GetResult<Prisma.$EntitySnapshotContentPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more EntitySnapshotContents.
+   * @param {EntitySnapshotContentDeleteManyArgs} args - Arguments to filter EntitySnapshotContents to delete.
+   * @example
+   * // Delete a few EntitySnapshotContents
+   * const { count } = await prisma.entitySnapshotContent.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends EntitySnapshotContentDeleteManyArgs>(args?: Prisma.SelectSubset<T, EntitySnapshotContentDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more EntitySnapshotContents.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {EntitySnapshotContentUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many EntitySnapshotContents
+   * const entitySnapshotContent = await prisma.entitySnapshotContent.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends EntitySnapshotContentUpdateManyArgs>(args: Prisma.SelectSubset<T, EntitySnapshotContentUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more EntitySnapshotContents and returns the data updated in the database.
+   * @param {EntitySnapshotContentUpdateManyAndReturnArgs} args - Arguments to update many EntitySnapshotContents.
+   * @example
+   * // Update many EntitySnapshotContents
+   * const entitySnapshotContent = await prisma.entitySnapshotContent.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more EntitySnapshotContents and only return the `hash`
+   * const entitySnapshotContentWithHashOnly = await prisma.entitySnapshotContent.updateManyAndReturn({
+   *   select: { hash: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends EntitySnapshotContentUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, EntitySnapshotContentUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$EntitySnapshotContentPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one EntitySnapshotContent.
+   * @param {EntitySnapshotContentUpsertArgs} args - Arguments to update or create a EntitySnapshotContent.
+   * @example
+   * // Update or create a EntitySnapshotContent
+   * const entitySnapshotContent = await prisma.entitySnapshotContent.upsert({
+   *   create: {
+   *     // ... data to create a EntitySnapshotContent
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the EntitySnapshotContent we want to update
+   *   }
+   * })
+   */
+  upsert<T extends EntitySnapshotContentUpsertArgs>(args: Prisma.SelectSubset<T, EntitySnapshotContentUpsertArgs<ExtArgs>>): Prisma.Prisma__EntitySnapshotContentClient<runtime.Types.Result.GetResult<Prisma.$EntitySnapshotContentPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of EntitySnapshotContents.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {EntitySnapshotContentCountArgs} args - Arguments to filter EntitySnapshotContents to count.
+   * @example
+   * // Count the number of EntitySnapshotContents
+   * const count = await prisma.entitySnapshotContent.count({
+   *   where: {
+   *     // ... the filter for the EntitySnapshotContents we want to count
+   *   }
+   * })
+  **/
+  count<T extends EntitySnapshotContentCountArgs>(
+    args?: Prisma.Subset<T, EntitySnapshotContentCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], EntitySnapshotContentCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a EntitySnapshotContent.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {EntitySnapshotContentAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends EntitySnapshotContentAggregateArgs>(args: Prisma.Subset<T, EntitySnapshotContentAggregateArgs>): Prisma.PrismaPromise<GetEntitySnapshotContentAggregateType<T>>
+
+  /**
+   * Group by EntitySnapshotContent.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {EntitySnapshotContentGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends EntitySnapshotContentGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: EntitySnapshotContentGroupByArgs['orderBy'] }
+      : { orderBy?: EntitySnapshotContentGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, EntitySnapshotContentGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetEntitySnapshotContentGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the EntitySnapshotContent model
+ */
+readonly fields: EntitySnapshotContentFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for EntitySnapshotContent.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__EntitySnapshotContentClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  snapshots<T extends Prisma.EntitySnapshotContent$snapshotsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.EntitySnapshotContent$snapshotsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$EntitySnapshotPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the EntitySnapshotContent model
+ */
+export interface EntitySnapshotContentFieldRefs {
+  readonly hash: Prisma.FieldRef<"EntitySnapshotContent", 'String'>
+  readonly meta: Prisma.FieldRef<"EntitySnapshotContent", 'Json'>
+  readonly content: Prisma.FieldRef<"EntitySnapshotContent", 'Json'>
+}
+    
+
+// Custom InputTypes
+/**
+ * EntitySnapshotContent findUnique
+ */
+export type EntitySnapshotContentFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EntitySnapshotContent
+   */
+  select?: Prisma.EntitySnapshotContentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EntitySnapshotContent
+   */
+  omit?: Prisma.EntitySnapshotContentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EntitySnapshotContentInclude<ExtArgs> | null
+  /**
+   * Filter, which EntitySnapshotContent to fetch.
+   */
+  where: Prisma.EntitySnapshotContentWhereUniqueInput
+}
+
+/**
+ * EntitySnapshotContent findUniqueOrThrow
+ */
+export type EntitySnapshotContentFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EntitySnapshotContent
+   */
+  select?: Prisma.EntitySnapshotContentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EntitySnapshotContent
+   */
+  omit?: Prisma.EntitySnapshotContentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EntitySnapshotContentInclude<ExtArgs> | null
+  /**
+   * Filter, which EntitySnapshotContent to fetch.
+   */
+  where: Prisma.EntitySnapshotContentWhereUniqueInput
+}
+
+/**
+ * EntitySnapshotContent findFirst
+ */
+export type EntitySnapshotContentFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EntitySnapshotContent
+   */
+  select?: Prisma.EntitySnapshotContentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EntitySnapshotContent
+   */
+  omit?: Prisma.EntitySnapshotContentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EntitySnapshotContentInclude<ExtArgs> | null
+  /**
+   * Filter, which EntitySnapshotContent to fetch.
+   */
+  where?: Prisma.EntitySnapshotContentWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of EntitySnapshotContents to fetch.
+   */
+  orderBy?: Prisma.EntitySnapshotContentOrderByWithRelationInput | Prisma.EntitySnapshotContentOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for EntitySnapshotContents.
+   */
+  cursor?: Prisma.EntitySnapshotContentWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` EntitySnapshotContents from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` EntitySnapshotContents.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of EntitySnapshotContents.
+   */
+  distinct?: Prisma.EntitySnapshotContentScalarFieldEnum | Prisma.EntitySnapshotContentScalarFieldEnum[]
+}
+
+/**
+ * EntitySnapshotContent findFirstOrThrow
+ */
+export type EntitySnapshotContentFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EntitySnapshotContent
+   */
+  select?: Prisma.EntitySnapshotContentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EntitySnapshotContent
+   */
+  omit?: Prisma.EntitySnapshotContentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EntitySnapshotContentInclude<ExtArgs> | null
+  /**
+   * Filter, which EntitySnapshotContent to fetch.
+   */
+  where?: Prisma.EntitySnapshotContentWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of EntitySnapshotContents to fetch.
+   */
+  orderBy?: Prisma.EntitySnapshotContentOrderByWithRelationInput | Prisma.EntitySnapshotContentOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for EntitySnapshotContents.
+   */
+  cursor?: Prisma.EntitySnapshotContentWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` EntitySnapshotContents from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` EntitySnapshotContents.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of EntitySnapshotContents.
+   */
+  distinct?: Prisma.EntitySnapshotContentScalarFieldEnum | Prisma.EntitySnapshotContentScalarFieldEnum[]
+}
+
+/**
+ * EntitySnapshotContent findMany
+ */
+export type EntitySnapshotContentFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EntitySnapshotContent
+   */
+  select?: Prisma.EntitySnapshotContentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EntitySnapshotContent
+   */
+  omit?: Prisma.EntitySnapshotContentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EntitySnapshotContentInclude<ExtArgs> | null
+  /**
+   * Filter, which EntitySnapshotContents to fetch.
+   */
+  where?: Prisma.EntitySnapshotContentWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of EntitySnapshotContents to fetch.
+   */
+  orderBy?: Prisma.EntitySnapshotContentOrderByWithRelationInput | Prisma.EntitySnapshotContentOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing EntitySnapshotContents.
+   */
+  cursor?: Prisma.EntitySnapshotContentWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` EntitySnapshotContents from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` EntitySnapshotContents.
+   */
+  skip?: number
+  distinct?: Prisma.EntitySnapshotContentScalarFieldEnum | Prisma.EntitySnapshotContentScalarFieldEnum[]
+}
+
+/**
+ * EntitySnapshotContent create
+ */
+export type EntitySnapshotContentCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EntitySnapshotContent
+   */
+  select?: Prisma.EntitySnapshotContentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EntitySnapshotContent
+   */
+  omit?: Prisma.EntitySnapshotContentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EntitySnapshotContentInclude<ExtArgs> | null
+  /**
+   * The data needed to create a EntitySnapshotContent.
+   */
+  data: Prisma.XOR<Prisma.EntitySnapshotContentCreateInput, Prisma.EntitySnapshotContentUncheckedCreateInput>
+}
+
+/**
+ * EntitySnapshotContent createMany
+ */
+export type EntitySnapshotContentCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many EntitySnapshotContents.
+   */
+  data: Prisma.EntitySnapshotContentCreateManyInput | Prisma.EntitySnapshotContentCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * EntitySnapshotContent createManyAndReturn
+ */
+export type EntitySnapshotContentCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EntitySnapshotContent
+   */
+  select?: Prisma.EntitySnapshotContentSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the EntitySnapshotContent
+   */
+  omit?: Prisma.EntitySnapshotContentOmit<ExtArgs> | null
+  /**
+   * The data used to create many EntitySnapshotContents.
+   */
+  data: Prisma.EntitySnapshotContentCreateManyInput | Prisma.EntitySnapshotContentCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * EntitySnapshotContent update
+ */
+export type EntitySnapshotContentUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EntitySnapshotContent
+   */
+  select?: Prisma.EntitySnapshotContentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EntitySnapshotContent
+   */
+  omit?: Prisma.EntitySnapshotContentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EntitySnapshotContentInclude<ExtArgs> | null
+  /**
+   * The data needed to update a EntitySnapshotContent.
+   */
+  data: Prisma.XOR<Prisma.EntitySnapshotContentUpdateInput, Prisma.EntitySnapshotContentUncheckedUpdateInput>
+  /**
+   * Choose, which EntitySnapshotContent to update.
+   */
+  where: Prisma.EntitySnapshotContentWhereUniqueInput
+}
+
+/**
+ * EntitySnapshotContent updateMany
+ */
+export type EntitySnapshotContentUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update EntitySnapshotContents.
+   */
+  data: Prisma.XOR<Prisma.EntitySnapshotContentUpdateManyMutationInput, Prisma.EntitySnapshotContentUncheckedUpdateManyInput>
+  /**
+   * Filter which EntitySnapshotContents to update
+   */
+  where?: Prisma.EntitySnapshotContentWhereInput
+  /**
+   * Limit how many EntitySnapshotContents to update.
+   */
+  limit?: number
+}
+
+/**
+ * EntitySnapshotContent updateManyAndReturn
+ */
+export type EntitySnapshotContentUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EntitySnapshotContent
+   */
+  select?: Prisma.EntitySnapshotContentSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the EntitySnapshotContent
+   */
+  omit?: Prisma.EntitySnapshotContentOmit<ExtArgs> | null
+  /**
+   * The data used to update EntitySnapshotContents.
+   */
+  data: Prisma.XOR<Prisma.EntitySnapshotContentUpdateManyMutationInput, Prisma.EntitySnapshotContentUncheckedUpdateManyInput>
+  /**
+   * Filter which EntitySnapshotContents to update
+   */
+  where?: Prisma.EntitySnapshotContentWhereInput
+  /**
+   * Limit how many EntitySnapshotContents to update.
+   */
+  limit?: number
+}
+
+/**
+ * EntitySnapshotContent upsert
+ */
+export type EntitySnapshotContentUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EntitySnapshotContent
+   */
+  select?: Prisma.EntitySnapshotContentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EntitySnapshotContent
+   */
+  omit?: Prisma.EntitySnapshotContentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EntitySnapshotContentInclude<ExtArgs> | null
+  /**
+   * The filter to search for the EntitySnapshotContent to update in case it exists.
+   */
+  where: Prisma.EntitySnapshotContentWhereUniqueInput
+  /**
+   * In case the EntitySnapshotContent found by the `where` argument doesn't exist, create a new EntitySnapshotContent with this data.
+   */
+  create: Prisma.XOR<Prisma.EntitySnapshotContentCreateInput, Prisma.EntitySnapshotContentUncheckedCreateInput>
+  /**
+   * In case the EntitySnapshotContent was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.EntitySnapshotContentUpdateInput, Prisma.EntitySnapshotContentUncheckedUpdateInput>
+}
+
+/**
+ * EntitySnapshotContent delete
+ */
+export type EntitySnapshotContentDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EntitySnapshotContent
+   */
+  select?: Prisma.EntitySnapshotContentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EntitySnapshotContent
+   */
+  omit?: Prisma.EntitySnapshotContentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EntitySnapshotContentInclude<ExtArgs> | null
+  /**
+   * Filter which EntitySnapshotContent to delete.
+   */
+  where: Prisma.EntitySnapshotContentWhereUniqueInput
+}
+
+/**
+ * EntitySnapshotContent deleteMany
+ */
+export type EntitySnapshotContentDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which EntitySnapshotContents to delete
+   */
+  where?: Prisma.EntitySnapshotContentWhereInput
+  /**
+   * Limit how many EntitySnapshotContents to delete.
+   */
+  limit?: number
+}
+
+/**
+ * EntitySnapshotContent.snapshots
+ */
+export type EntitySnapshotContent$snapshotsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EntitySnapshot
+   */
+  select?: Prisma.EntitySnapshotSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EntitySnapshot
+   */
+  omit?: Prisma.EntitySnapshotOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EntitySnapshotInclude<ExtArgs> | null
+  where?: Prisma.EntitySnapshotWhereInput
+  orderBy?: Prisma.EntitySnapshotOrderByWithRelationInput | Prisma.EntitySnapshotOrderByWithRelationInput[]
+  cursor?: Prisma.EntitySnapshotWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.EntitySnapshotScalarFieldEnum | Prisma.EntitySnapshotScalarFieldEnum[]
+}
+
+/**
+ * EntitySnapshotContent without action
+ */
+export type EntitySnapshotContentDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EntitySnapshotContent
+   */
+  select?: Prisma.EntitySnapshotContentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EntitySnapshotContent
+   */
+  omit?: Prisma.EntitySnapshotContentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EntitySnapshotContentInclude<ExtArgs> | null
+}
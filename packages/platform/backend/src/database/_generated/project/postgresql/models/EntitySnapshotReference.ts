@@ -0,0 +1,1453 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `EntitySnapshotReference` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+
+import type * as PJTG from '../pjtg.ts';
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.ts"
+import type * as Prisma from "../internal/prismaNamespace.ts"
+
+/**
+ * Model EntitySnapshotReference
+ * 
+ */
+export type EntitySnapshotReferenceModel = runtime.Types.Result.DefaultSelection<Prisma.$EntitySnapshotReferencePayload>
+
+export type AggregateEntitySnapshotReference = {
+  _count: EntitySnapshotReferenceCountAggregateOutputType | null
+  _min: EntitySnapshotReferenceMinAggregateOutputType | null
+  _max: EntitySnapshotReferenceMaxAggregateOutputType | null
+}
+
+export type EntitySnapshotReferenceMinAggregateOutputType = {
+  fromId: string | null
+  toId: string | null
+  kind: $Enums.EntityReferenceKind | null
+  group: string | null
+}
+
+export type EntitySnapshotReferenceMaxAggregateOutputType = {
+  fromId: string | null
+  toId: string | null
+  kind: $Enums.EntityReferenceKind | null
+  group: string | null
+}
+
+export type EntitySnapshotReferenceCountAggregateOutputType = {
+  fromId: number
+  toId: number
+  kind: number
+  group: number
+  _all: number
+}
+
+
+export type EntitySnapshotReferenceMinAggregateInputType = {
+  fromId?: true
+  toId?: true
+  kind?: true
+  group?: true
+}
+
+export type EntitySnapshotReferenceMaxAggregateInputType = {
+  fromId?: true
+  toId?: true
+  kind?: true
+  group?: true
+}
+
+export type EntitySnapshotReferenceCountAggregateInputType = {
+  fromId?: true
+  toId?: true
+  kind?: true
+  group?: true
+  _all?: true
+}
+
+export type EntitySnapshotReferenceAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which EntitySnapshotReference to aggregate.
+   */
+  where?: Prisma.EntitySnapshotReferenceWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of EntitySnapshotReferences to fetch.
+   */
+  orderBy?: Prisma.EntitySnapshotReferenceOrderByWithRelationInput | Prisma.EntitySnapshotReferenceOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.EntitySnapshotReferenceWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` EntitySnapshotReferences from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` EntitySnapshotReferences.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned EntitySnapshotReferences
+  **/
+  _count?: true | EntitySnapshotReferenceCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: EntitySnapshotReferenceMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: EntitySnapshotReferenceMaxAggregateInputType
+}
+
+export type GetEntitySnapshotReferenceAggregateType<T extends EntitySnapshotReferenceAggregateArgs> = {
+      [P in keyof T & keyof AggregateEntitySnapshotReference]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateEntitySnapshotReference[P]>
+    : Prisma.GetScalarType<T[P], AggregateEntitySnapshotReference[P]>
+}
+
+
+
+
+export type EntitySnapshotReferenceGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.EntitySnapshotReferenceWhereInput
+  orderBy?: Prisma.EntitySnapshotReferenceOrderByWithAggregationInput | Prisma.EntitySnapshotReferenceOrderByWithAggregationInput[]
+  by: Prisma.EntitySnapshotReferenceScalarFieldEnum[] | Prisma.EntitySnapshotReferenceScalarFieldEnum
+  having?: Prisma.EntitySnapshotReferenceScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: EntitySnapshotReferenceCountAggregateInputType | true
+  _min?: EntitySnapshotReferenceMinAggregateInputType
+  _max?: EntitySnapshotReferenceMaxAggregateInputType
+}
+
+export type EntitySnapshotReferenceGroupByOutputType = {
+  fromId: string
+  toId: string
+  kind: $Enums.EntityReferenceKind
+  group: string
+  _count: EntitySnapshotReferenceCountAggregateOutputType | null
+  _min: EntitySnapshotReferenceMinAggregateOutputType | null
+  _max: EntitySnapshotReferenceMaxAggregateOutputType | null
+}
+
+type GetEntitySnapshotReferenceGroupByPayload<T extends EntitySnapshotReferenceGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<EntitySnapshotReferenceGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof EntitySnapshotReferenceGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], EntitySnapshotReferenceGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], EntitySnapshotReferenceGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type EntitySnapshotReferenceWhereInput = {
+  AND?: Prisma.EntitySnapshotReferenceWhereInput | Prisma.EntitySnapshotReferenceWhereInput[]
+  OR?: Prisma.EntitySnapshotReferenceWhereInput[]
+  NOT?: Prisma.EntitySnapshotReferenceWhereInput | Prisma.EntitySnapshotReferenceWhereInput[]
+  fromId?: Prisma.StringFilter<"EntitySnapshotReference"> | string
+  toId?: Prisma.StringFilter<"EntitySnapshotReference"> | string
+  kind?: Prisma.EnumEntityReferenceKindFilter<"EntitySnapshotReference"> | $Enums.EntityReferenceKind
+  group?: Prisma.StringFilter<"EntitySnapshotReference"> | string
+  from?: Prisma.XOR<Prisma.EntitySnapshotScalarRelationFilter, Prisma.EntitySnapshotWhereInput>
+  to?: Prisma.XOR<Prisma.EntitySnapshotScalarRelationFilter, Prisma.EntitySnapshotWhereInput>
+}
+
+export type EntitySnapshotReferenceOrderByWithRelationInput = {
+  fromId?: Prisma.SortOrder
+  toId?: Prisma.SortOrder
+  kind?: Prisma.SortOrder
+  group?: Prisma.SortOrder
+  from?: Prisma.EntitySnapshotOrderByWithRelationInput
+  to?: Prisma.EntitySnapshotOrderByWithRelationInput
+}
+
+export type EntitySnapshotReferenceWhereUniqueInput = Prisma.AtLeast<{
+  fromId_toId_kind_group?: Prisma.EntitySnapshotReferenceFromIdToIdKindGroupCompoundUniqueInput
+  AND?: Prisma.EntitySnapshotReferenceWhereInput | Prisma.EntitySnapshotReferenceWhereInput[]
+  OR?: Prisma.EntitySnapshotReferenceWhereInput[]
+  NOT?: Prisma.EntitySnapshotReferenceWhereInput | Prisma.EntitySnapshotReferenceWhereInput[]
+  fromId?: Prisma.StringFilter<"EntitySnapshotReference"> | string
+  toId?: Prisma.StringFilter<"EntitySnapshotReference"> | string
+  kind?: Prisma.EnumEntityReferenceKindFilter<"EntitySnapshotReference"> | $Enums.EntityReferenceKind
+  group?: Prisma.StringFilter<"EntitySnapshotReference"> | string
+  from?: Prisma.XOR<Prisma.EntitySnapshotScalarRelationFilter, Prisma.EntitySnapshotWhereInput>
+  to?: Prisma.XOR<Prisma.EntitySnapshotScalarRelationFilter, Prisma.EntitySnapshotWhereInput>
+}, "fromId_toId_kind_group">
+
+export type EntitySnapshotReferenceOrderByWithAggregationInput = {
+  fromId?: Prisma.SortOrder
+  toId?: Prisma.SortOrder
+  kind?: Prisma.SortOrder
+  group?: Prisma.SortOrder
+  _count?: Prisma.EntitySnapshotReferenceCountOrderByAggregateInput
+  _max?: Prisma.EntitySnapshotReferenceMaxOrderByAggregateInput
+  _min?: Prisma.EntitySnapshotReferenceMinOrderByAggregateInput
+}
+
+export type EntitySnapshotReferenceScalarWhereWithAggregatesInput = {
+  AND?: Prisma.EntitySnapshotReferenceScalarWhereWithAggregatesInput | Prisma.EntitySnapshotReferenceScalarWhereWithAggregatesInput[]
+  OR?: Prisma.EntitySnapshotReferenceScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.EntitySnapshotReferenceScalarWhereWithAggregatesInput | Prisma.EntitySnapshotReferenceScalarWhereWithAggregatesInput[]
+  fromId?: Prisma.StringWithAggregatesFilter<"EntitySnapshotReference"> | string
+  toId?: Prisma.StringWithAggregatesFilter<"EntitySnapshotReference"> | string
+  kind?: Prisma.EnumEntityReferenceKindWithAggregatesFilter<"EntitySnapshotReference"> | $Enums.EntityReferenceKind
+  group?: Prisma.StringWithAggregatesFilter<"EntitySnapshotReference"> | string
+}
+
+export type EntitySnapshotReferenceCreateInput = {
+  kind: $Enums.EntityReferenceKind
+  group: string
+  from: Prisma.EntitySnapshotCreateNestedOneWithoutReferencesInput
+  to: Prisma.EntitySnapshotCreateNestedOneWithoutReferencedByInput
+}
+
+export type EntitySnapshotReferenceUncheckedCreateInput = {
+  fromId: string
+  toId: string
+  kind: $Enums.EntityReferenceKind
+  group: string
+}
+
+export type EntitySnapshotReferenceUpdateInput = {
+  kind?: Prisma.EnumEntityReferenceKindFieldUpdateOperationsInput | $Enums.EntityReferenceKind
+  group?: Prisma.StringFieldUpdateOperationsInput | string
+  from?: Prisma.EntitySnapshotUpdateOneRequiredWithoutReferencesNestedInput
+  to?: Prisma.EntitySnapshotUpdateOneRequiredWithoutReferencedByNestedInput
+}
+
+export type EntitySnapshotReferenceUncheckedUpdateInput = {
+  fromId?: Prisma.StringFieldUpdateOperationsInput | string
+  toId?: Prisma.StringFieldUpdateOperationsInput | string
+  kind?: Prisma.EnumEntityReferenceKindFieldUpdateOperationsInput | $Enums.EntityReferenceKind
+  group?: Prisma.StringFieldUpdateOperationsInput | string
+}
+
+export type EntitySnapshotReferenceCreateManyInput = {
+  fromId: string
+  toId: string
+  kind: $Enums.EntityReferenceKind
+  group: string
+}
+
+export type EntitySnapshotReferenceUpdateManyMutationInput = {
+  kind?: Prisma.EnumEntityReferenceKindFieldUpdateOperationsInput | $Enums.EntityReferenceKind
+  group?: Prisma.StringFieldUpdateOperationsInput | string
+}
+
+export type EntitySnapshotReferenceUncheckedUpdateManyInput = {
+  fromId?: Prisma.StringFieldUpdateOperationsInput | string
+  toId?: Prisma.StringFieldUpdateOperationsInput | string
+  kind?: Prisma.EnumEntityReferenceKindFieldUpdateOperationsInput | $Enums.EntityReferenceKind
+  group?: Prisma.StringFieldUpdateOperationsInput | string
+}
+
+export type EntitySnapshotReferenceListRelationFilter = {
+  every?: Prisma.EntitySnapshotReferenceWhereInput
+  some?: Prisma.EntitySnapshotReferenceWhereInput
+  none?: Prisma.EntitySnapshotReferenceWhereInput
+}
+
+export type EntitySnapshotReferenceOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type EntitySnapshotReferenceFromIdToIdKindGroupCompoundUniqueInput = {
+  fromId: string
+  toId: string
+  kind: $Enums.EntityReferenceKind
+  group: string
+}
+
+export type EntitySnapshotReferenceCountOrderByAggregateInput = {
+  fromId?: Prisma.SortOrder
+  toId?: Prisma.SortOrder
+  kind?: Prisma.SortOrder
+  group?: Prisma.SortOrder
+}
+
+export type EntitySnapshotReferenceMaxOrderByAggregateInput = {
+  fromId?: Prisma.SortOrder
+  toId?: Prisma.SortOrder
+  kind?: Prisma.SortOrder
+  group?: Prisma.SortOrder
+}
+
+export type EntitySnapshotReferenceMinOrderByAggregateInput = {
+  fromId?: Prisma.SortOrder
+  toId?: Prisma.SortOrder
+  kind?: Prisma.SortOrder
+  group?: Prisma.SortOrder
+}
+
+export type EntitySnapshotReferenceCreateNestedManyWithoutFromInput = {
+  create?: Prisma.XOR<Prisma.EntitySnapshotReferenceCreateWithoutFromInput, Prisma.EntitySnapshotReferenceUncheckedCreateWithoutFromInput> | Prisma.EntitySnapshotReferenceCreateWithoutFromInput[] | Prisma.EntitySnapshotReferenceUncheckedCreateWithoutFromInput[]
+  connectOrCreate?: Prisma.EntitySnapshotReferenceCreateOrConnectWithoutFromInput | Prisma.EntitySnapshotReferenceCreateOrConnectWithoutFromInput[]
+  createMany?: Prisma.EntitySnapshotReferenceCreateManyFromInputEnvelope
+  connect?: Prisma.EntitySnapshotReferenceWhereUniqueInput | Prisma.EntitySnapshotReferenceWhereUniqueInput[]
+}
+
+export type EntitySnapshotReferenceCreateNestedManyWithoutToInput = {
+  create?: Prisma.XOR<Prisma.EntitySnapshotReferenceCreateWithoutToInput, Prisma.EntitySnapshotReferenceUncheckedCreateWithoutToInput> | Prisma.EntitySnapshotReferenceCreateWithoutToInput[] | Prisma.EntitySnapshotReferenceUncheckedCreateWithoutToInput[]
+  connectOrCreate?: Prisma.EntitySnapshotReferenceCreateOrConnectWithoutToInput | Prisma.EntitySnapshotReferenceCreateOrConnectWithoutToInput[]
+  createMany?: Prisma.EntitySnapshotReferenceCreateManyToInputEnvelope
+  connect?: Prisma.EntitySnapshotReferenceWhereUniqueInput | Prisma.EntitySnapshotReferenceWhereUniqueInput[]
+}
+
+export type EntitySnapshotReferenceUncheckedCreateNestedManyWithoutFromInput = {
+  create?: Prisma.XOR<Prisma.EntitySnapshotReferenceCreateWithoutFromInput, Prisma.EntitySnapshotReferenceUncheckedCreateWithoutFromInput> | Prisma.EntitySnapshotReferenceCreateWithoutFromInput[] | Prisma.EntitySnapshotReferenceUncheckedCreateWithoutFromInput[]
+  connectOrCreate?: Prisma.EntitySnapshotReferenceCreateOrConnectWithoutFromInput | Prisma.EntitySnapshotReferenceCreateOrConnectWithoutFromInput[]
+  createMany?: Prisma.EntitySnapshotReferenceCreateManyFromInputEnvelope
+  connect?: Prisma.EntitySnapshotReferenceWhereUniqueInput | Prisma.EntitySnapshotReferenceWhereUniqueInput[]
+}
+
+export type EntitySnapshotReferenceUncheckedCreateNestedManyWithoutToInput = {
+  create?: Prisma.XOR<Prisma.EntitySnapshotReferenceCreateWithoutToInput, Prisma.EntitySnapshotReferenceUncheckedCreateWithoutToInput> | Prisma.EntitySnapshotReferenceCreateWithoutToInput[] | Prisma.EntitySnapshotReferenceUncheckedCreateWithoutToInput[]
+  connectOrCreate?: Prisma.EntitySnapshotReferenceCreateOrConnectWithoutToInput | Prisma.EntitySnapshotReferenceCreateOrConnectWithoutToInput[]
+  createMany?: Prisma.EntitySnapshotReferenceCreateManyToInputEnvelope
+  connect?: Prisma.EntitySnapshotReferenceWhereUniqueInput | Prisma.EntitySnapshotReferenceWhereUniqueInput[]
+}
+
+export type EntitySnapshotReferenceUpdateManyWithoutFromNestedInput = {
+  create?: Prisma.XOR<Prisma.EntitySnapshotReferenceCreateWithoutFromInput, Prisma.EntitySnapshotReferenceUncheckedCreateWithoutFromInput> | Prisma.EntitySnapshotReferenceCreateWithoutFromInput[] | Prisma.EntitySnapshotReferenceUncheckedCreateWithoutFromInput[]
+  connectOrCreate?: Prisma.EntitySnapshotReferenceCreateOrConnectWithoutFromInput | Prisma.EntitySnapshotReferenceCreateOrConnectWithoutFromInput[]
+  upsert?: Prisma.EntitySnapshotReferenceUpsertWithWhereUniqueWithoutFromInput | Prisma.EntitySnapshotReferenceUpsertWithWhereUniqueWithoutFromInput[]
+  createMany?: Prisma.EntitySnapshotReferenceCreateManyFromInputEnvelope
+  set?: Prisma.EntitySnapshotReferenceWhereUniqueInput | Prisma.EntitySnapshotReferenceWhereUniqueInput[]
+  disconnect?: Prisma.EntitySnapshotReferenceWhereUniqueInput | Prisma.EntitySnapshotReferenceWhereUniqueInput[]
+  delete?: Prisma.EntitySnapshotReferenceWhereUniqueInput | Prisma.EntitySnapshotReferenceWhereUniqueInput[]
+  connect?: Prisma.EntitySnapshotReferenceWhereUniqueInput | Prisma.EntitySnapshotReferenceWhereUniqueInput[]
+  update?: Prisma.EntitySnapshotReferenceUpdateWithWhereUniqueWithoutFromInput | Prisma.EntitySnapshotReferenceUpdateWithWhereUniqueWithoutFromInput[]
+  updateMany?: Prisma.EntitySnapshotReferenceUpdateManyWithWhereWithoutFromInput | Prisma.EntitySnapshotReferenceUpdateManyWithWhereWithoutFromInput[]
+  deleteMany?: Prisma.EntitySnapshotReferenceScalarWhereInput | Prisma.EntitySnapshotReferenceScalarWhereInput[]
+}
+
+export type EntitySnapshotReferenceUpdateManyWithoutToNestedInput = {
+  create?: Prisma.XOR<Prisma.EntitySnapshotReferenceCreateWithoutToInput, Prisma.EntitySnapshotReferenceUncheckedCreateWithoutToInput> | Prisma.EntitySnapshotReferenceCreateWithoutToInput[] | Prisma.EntitySnapshotReferenceUncheckedCreateWithoutToInput[]
+  connectOrCreate?: Prisma.EntitySnapshotReferenceCreateOrConnectWithoutToInput | Prisma.EntitySnapshotReferenceCreateOrConnectWithoutToInput[]
+  upsert?: Prisma.EntitySnapshotReferenceUpsertWithWhereUniqueWithoutToInput | Prisma.EntitySnapshotReferenceUpsertWithWhereUniqueWithoutToInput[]
+  createMany?: Prisma.EntitySnapshotReferenceCreateManyToInputEnvelope
+  set?: Prisma.EntitySnapshotReferenceWhereUniqueInput | Prisma.EntitySnapshotReferenceWhereUniqueInput[]
+  disconnect?: Prisma.EntitySnapshotReferenceWhereUniqueInput | Prisma.EntitySnapshotReferenceWhereUniqueInput[]
+  delete?: Prisma.EntitySnapshotReferenceWhereUniqueInput | Prisma.EntitySnapshotReferenceWhereUniqueInput[]
+  connect?: Prisma.EntitySnapshotReferenceWhereUniqueInput | Prisma.EntitySnapshotReferenceWhereUniqueInput[]
+  update?: Prisma.EntitySnapshotReferenceUpdateWithWhereUniqueWithoutToInput | Prisma.EntitySnapshotReferenceUpdateWithWhereUniqueWithoutToInput[]
+  updateMany?: Prisma.EntitySnapshotReferenceUpdateManyWithWhereWithoutToInput | Prisma.EntitySnapshotReferenceUpdateManyWithWhereWithoutToInput[]
+  deleteMany?: Prisma.EntitySnapshotReferenceScalarWhereInput | Prisma.EntitySnapshotReferenceScalarWhereInput[]
+}
+
+export type EntitySnapshotReferenceUncheckedUpdateManyWithoutFromNestedInput = {
+  create?: Prisma.XOR<Prisma.EntitySnapshotReferenceCreateWithoutFromInput, Prisma.EntitySnapshotReferenceUncheckedCreateWithoutFromInput> | Prisma.EntitySnapshotReferenceCreateWithoutFromInput[] | Prisma.EntitySnapshotReferenceUncheckedCreateWithoutFromInput[]
+  connectOrCreate?: Prisma.EntitySnapshotReferenceCreateOrConnectWithoutFromInput | Prisma.EntitySnapshotReferenceCreateOrConnectWithoutFromInput[]
+  upsert?: Prisma.EntitySnapshotReferenceUpsertWithWhereUniqueWithoutFromInput | Prisma.EntitySnapshotReferenceUpsertWithWhereUniqueWithoutFromInput[]
+  createMany?: Prisma.EntitySnapshotReferenceCreateManyFromInputEnvelope
+  set?: Prisma.EntitySnapshotReferenceWhereUniqueInput | Prisma.EntitySnapshotReferenceWhereUniqueInput[]
+  disconnect?: Prisma.EntitySnapshotReferenceWhereUniqueInput | Prisma.EntitySnapshotReferenceWhereUniqueInput[]
+  delete?: Prisma.EntitySnapshotReferenceWhereUniqueInput | Prisma.EntitySnapshotReferenceWhereUniqueInput[]
+  connect?: Prisma.EntitySnapshotReferenceWhereUniqueInput | Prisma.EntitySnapshotReferenceWhereUniqueInput[]
+  update?: Prisma.EntitySnapshotReferenceUpdateWithWhereUniqueWithoutFromInput | Prisma.EntitySnapshotReferenceUpdateWithWhereUniqueWithoutFromInput[]
+  updateMany?: Prisma.EntitySnapshotReferenceUpdateManyWithWhereWithoutFromInput | Prisma.EntitySnapshotReferenceUpdateManyWithWhereWithoutFromInput[]
+  deleteMany?: Prisma.EntitySnapshotReferenceScalarWhereInput | Prisma.EntitySnapshotReferenceScalarWhereInput[]
+}
+
+export type EntitySnapshotReferenceUncheckedUpdateManyWithoutToNestedInput = {
+  create?: Prisma.XOR<Prisma.EntitySnapshotReferenceCreateWithoutToInput, Prisma.EntitySnapshotReferenceUncheckedCreateWithoutToInput> | Prisma.EntitySnapshotReferenceCreateWithoutToInput[] | Prisma.EntitySnapshotReferenceUncheckedCreateWithoutToInput[]
+  connectOrCreate?: Prisma.EntitySnapshotReferenceCreateOrConnectWithoutToInput | Prisma.EntitySnapshotReferenceCreateOrConnectWithoutToInput[]
+  upsert?: Prisma.EntitySnapshotReferenceUpsertWithWhereUniqueWithoutToInput | Prisma.EntitySnapshotReferenceUpsertWithWhereUniqueWithoutToInput[]
+  createMany?: Prisma.EntitySnapshotReferenceCreateManyToInputEnvelope
+  set?: Prisma.EntitySnapshotReferenceWhereUniqueInput | Prisma.EntitySnapshotReferenceWhereUniqueInput[]
+  disconnect?: Prisma.EntitySnapshotReferenceWhereUniqueInput | Prisma.EntitySnapshotReferenceWhereUniqueInput[]
+  delete?: Prisma.EntitySnapshotReferenceWhereUniqueInput | Prisma.EntitySnapshotReferenceWhereUniqueInput[]
+  connect?: Prisma.EntitySnapshotReferenceWhereUniqueInput | Prisma.EntitySnapshotReferenceWhereUniqueInput[]
+  update?: Prisma.EntitySnapshotReferenceUpdateWithWhereUniqueWithoutToInput | Prisma.EntitySnapshotReferenceUpdateWithWhereUniqueWithoutToInput[]
+  updateMany?: Prisma.EntitySnapshotReferenceUpdateManyWithWhereWithoutToInput | Prisma.EntitySnapshotReferenceUpdateManyWithWhereWithoutToInput[]
+  deleteMany?: Prisma.EntitySnapshotReferenceScalarWhereInput | Prisma.EntitySnapshotReferenceScalarWhereInput[]
+}
+
+export type EnumEntityReferenceKindFieldUpdateOperationsInput = {
+  set?: $Enums.EntityReferenceKind
+}
+
+export type EntitySnapshotReferenceCreateWithoutFromInput = {
+  kind: $Enums.EntityReferenceKind
+  group: string
+  to: Prisma.EntitySnapshotCreateNestedOneWithoutReferencedByInput
+}
+
+export type EntitySnapshotReferenceUncheckedCreateWithoutFromInput = {
+  toId: string
+  kind: $Enums.EntityReferenceKind
+  group: string
+}
+
+export type EntitySnapshotReferenceCreateOrConnectWithoutFromInput = {
+  where: Prisma.EntitySnapshotReferenceWhereUniqueInput
+  create: Prisma.XOR<Prisma.EntitySnapshotReferenceCreateWithoutFromInput, Prisma.EntitySnapshotReferenceUncheckedCreateWithoutFromInput>
+}
+
+export type EntitySnapshotReferenceCreateManyFromInputEnvelope = {
+  data: Prisma.EntitySnapshotReferenceCreateManyFromInput | Prisma.EntitySnapshotReferenceCreateManyFromInput[]
+  skipDuplicates?: boolean
+}
+
+export type EntitySnapshotReferenceCreateWithoutToInput = {
+  kind: $Enums.EntityReferenceKind
+  group: string
+  from: Prisma.EntitySnapshotCreateNestedOneWithoutReferencesInput
+}
+
+export type EntitySnapshotReferenceUncheckedCreateWithoutToInput = {
+  fromId: string
+  kind: $Enums.EntityReferenceKind
+  group: string
+}
+
+export type EntitySnapshotReferenceCreateOrConnectWithoutToInput = {
+  where: Prisma.EntitySnapshotReferenceWhereUniqueInput
+  create: Prisma.XOR<Prisma.EntitySnapshotReferenceCreateWithoutToInput, Prisma.EntitySnapshotReferenceUncheckedCreateWithoutToInput>
+}
+
+export type EntitySnapshotReferenceCreateManyToInputEnvelope = {
+  data: Prisma.EntitySnapshotReferenceCreateManyToInput | Prisma.EntitySnapshotReferenceCreateManyToInput[]
+  skipDuplicates?: boolean
+}
+
+export type EntitySnapshotReferenceUpsertWithWhereUniqueWithoutFromInput = {
+  where: Prisma.EntitySnapshotReferenceWhereUniqueInput
+  update: Prisma.XOR<Prisma.EntitySnapshotReferenceUpdateWithoutFromInput, Prisma.EntitySnapshotReferenceUncheckedUpdateWithoutFromInput>
+  create: Prisma.XOR<Prisma.EntitySnapshotReferenceCreateWithoutFromInput, Prisma.EntitySnapshotReferenceUncheckedCreateWithoutFromInput>
+}
+
+export type EntitySnapshotReferenceUpdateWithWhereUniqueWithoutFromInput = {
+  where: Prisma.EntitySnapshotReferenceWhereUniqueInput
+  data: Prisma.XOR<Prisma.EntitySnapshotReferenceUpdateWithoutFromInput, Prisma.EntitySnapshotReferenceUncheckedUpdateWithoutFromInput>
+}
+
+export type EntitySnapshotReferenceUpdateManyWithWhereWithoutFromInput = {
+  where: Prisma.EntitySnapshotReferenceScalarWhereInput
+  data: Prisma.XOR<Prisma.EntitySnapshotReferenceUpdateManyMutationInput, Prisma.EntitySnapshotReferenceUncheckedUpdateManyWithoutFromInput>
+}
+
+export type EntitySnapshotReferenceScalarWhereInput = {
+  AND?: Prisma.EntitySnapshotReferenceScalarWhereInput | Prisma.EntitySnapshotReferenceScalarWhereInput[]
+  OR?: Prisma.EntitySnapshotReferenceScalarWhereInput[]
+  NOT?: Prisma.EntitySnapshotReferenceScalarWhereInput | Prisma.EntitySnapshotReferenceScalarWhereInput[]
+  fromId?: Prisma.StringFilter<"EntitySnapshotReference"> | string
+  toId?: Prisma.StringFilter<"EntitySnapshotReference"> | string
+  kind?: Prisma.EnumEntityReferenceKindFilter<"EntitySnapshotReference"> | $Enums.EntityReferenceKind
+  group?: Prisma.StringFilter<"EntitySnapshotReference"> | string
+}
+
+export type EntitySnapshotReferenceUpsertWithWhereUniqueWithoutToInput = {
+  where: Prisma.EntitySnapshotReferenceWhereUniqueInput
+  update: Prisma.XOR<Prisma.EntitySnapshotReferenceUpdateWithoutToInput, Prisma.EntitySnapshotReferenceUncheckedUpdateWithoutToInput>
+  create: Prisma.XOR<Prisma.EntitySnapshotReferenceCreateWithoutToInput, Prisma.EntitySnapshotReferenceUncheckedCreateWithoutToInput>
+}
+
+export type EntitySnapshotReferenceUpdateWithWhereUniqueWithoutToInput = {
+  where: Prisma.EntitySnapshotReferenceWhereUniqueInput
+  data: Prisma.XOR<Prisma.EntitySnapshotReferenceUpdateWithoutToInput, Prisma.EntitySnapshotReferenceUncheckedUpdateWithoutToInput>
+}
+
+export type EntitySnapshotReferenceUpdateManyWithWhereWithoutToInput = {
+  where: Prisma.EntitySnapshotReferenceScalarWhereInput
+  data: Prisma.XOR<Prisma.EntitySnapshotReferenceUpdateManyMutationInput, Prisma.EntitySnapshotReferenceUncheckedUpdateManyWithoutToInput>
+}
+
+export type EntitySnapshotReferenceCreateManyFromInput = {
+  toId: string
+  kind: $Enums.EntityReferenceKind
+  group: string
+}
+
+export type EntitySnapshotReferenceCreateManyToInput = {
+  fromId: string
+  kind: $Enums.EntityReferenceKind
+  group: string
+}
+
+export type EntitySnapshotReferenceUpdateWithoutFromInput = {
+  kind?: Prisma.EnumEntityReferenceKindFieldUpdateOperationsInput | $Enums.EntityReferenceKind
+  group?: Prisma.StringFieldUpdateOperationsInput | string
+  to?: Prisma.EntitySnapshotUpdateOneRequiredWithoutReferencedByNestedInput
+}
+
+export type EntitySnapshotReferenceUncheckedUpdateWithoutFromInput = {
+  toId?: Prisma.StringFieldUpdateOperationsInput | string
+  kind?: Prisma.EnumEntityReferenceKindFieldUpdateOperationsInput | $Enums.EntityReferenceKind
+  group?: Prisma.StringFieldUpdateOperationsInput | string
+}
+
+export type EntitySnapshotReferenceUncheckedUpdateManyWithoutFromInput = {
+  toId?: Prisma.StringFieldUpdateOperationsInput | string
+  kind?: Prisma.EnumEntityReferenceKindFieldUpdateOperationsInput | $Enums.EntityReferenceKind
+  group?: Prisma.StringFieldUpdateOperationsInput | string
+}
+
+export type EntitySnapshotReferenceUpdateWithoutToInput = {
+  kind?: Prisma.EnumEntityReferenceKindFieldUpdateOperationsInput | $Enums.EntityReferenceKind
+  group?: Prisma.StringFieldUpdateOperationsInput | string
+  from?: Prisma.EntitySnapshotUpdateOneRequiredWithoutReferencesNestedInput
+}
+
+export type EntitySnapshotReferenceUncheckedUpdateWithoutToInput = {
+  fromId?: Prisma.StringFieldUpdateOperationsInput | string
+  kind?: Prisma.EnumEntityReferenceKindFieldUpdateOperationsInput | $Enums.EntityReferenceKind
+  group?: Prisma.StringFieldUpdateOperationsInput | string
+}
+
+export type EntitySnapshotReferenceUncheckedUpdateManyWithoutToInput = {
+  fromId?: Prisma.StringFieldUpdateOperationsInput | string
+  kind?: Prisma.EnumEntityReferenceKindFieldUpdateOperationsInput | $Enums.EntityReferenceKind
+  group?: Prisma.StringFieldUpdateOperationsInput | string
+}
+
+
+
+export type EntitySnapshotReferenceSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  fromId?: boolean
+  toId?: boolean
+  kind?: boolean
+  group?: boolean
+  from?: boolean | Prisma.EntitySnapshotDefaultArgs<ExtArgs>
+  to?: boolean | Prisma.EntitySnapshotDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["entitySnapshotReference"]>
+
+export type EntitySnapshotReferenceSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  fromId?: boolean
+  toId?: boolean
+  kind?: boolean
+  group?: boolean
+  from?: boolean | Prisma.EntitySnapshotDefaultArgs<ExtArgs>
+  to?: boolean | Prisma.EntitySnapshotDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["entitySnapshotReference"]>
+
+export type EntitySnapshotReferenceSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  fromId?: boolean
+  toId?: boolean
+  kind?: boolean
+  group?: boolean
+  from?: boolean | Prisma.EntitySnapshotDefaultArgs<ExtArgs>
+  to?: boolean | Prisma.EntitySnapshotDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["entitySnapshotReference"]>
+
+export type EntitySnapshotReferenceSelectScalar = {
+  fromId?: boolean
+  toId?: boolean
+  kind?: boolean
+  group?: boolean
+}
+
+export type EntitySnapshotReferenceOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"fromId" | "toId" | "kind" | "group", ExtArgs["result"]["entitySnapshotReference"]>
+export type EntitySnapshotReferenceInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  from?: boolean | Prisma.EntitySnapshotDefaultArgs<ExtArgs>
+  to?: boolean | Prisma.EntitySnapshotDefaultArgs<ExtArgs>
+}
+export type EntitySnapshotReferenceIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  from?: boolean | Prisma.EntitySnapshotDefaultArgs<ExtArgs>
+  to?: boolean | Prisma.EntitySnapshotDefaultArgs<ExtArgs>
+}
+export type EntitySnapshotReferenceIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  from?: boolean | Prisma.EntitySnapshotDefaultArgs<ExtArgs>
+  to?: boolean | Prisma.EntitySnapshotDefaultArgs<ExtArgs>
+}
+
+export type $EntitySnapshotReferencePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "EntitySnapshotReference"
+  objects: {
+    /**
+     * The entity snapshot that holds the reference.
+     */
+    from: Prisma.$EntitySnapshotPayload<ExtArgs>
+    /**
+     * The entity snapshot that is referenced.
+     */
+    to: Prisma.$EntitySnapshotPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    /**
+     * The CUIDv2 of the entity snapshot relation.
+     */
+    fromId: string
+    /**
+     * The CUIDv2 of the referenced entity snapshot.
+     */
+    toId: string
+    /**
+     * The kind of the reference, which can be either explicit or inclusion (implicit).
+     */
+    kind: $Enums.EntityReferenceKind
+    /**
+     * The group of the references.
+     * It can be either the exlicit group name provided by the entity explicit reference,
+     * or name of the inclusion field of the parent entity for implicit references.
+     */
+    group: string
+  }, ExtArgs["result"]["entitySnapshotReference"]>
+  composites: {}
+}
+
+export type EntitySnapshotReferenceGetPayload<S extends boolean | null | undefined | EntitySnapshotReferenceDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$EntitySnapshotReferencePayload, S>
+
+export type EntitySnapshotReferenceCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<EntitySnapshotReferenceFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: EntitySnapshotReferenceCountAggregateInputType | true
+  }
+
+export interface EntitySnapshotReferenceDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['EntitySnapshotReference'], meta: { name: 'EntitySnapshotReference' } }
+  /**
+   * Find zero or one EntitySnapshotReference that matches the filter.
+   * @param {EntitySnapshotReferenceFindUniqueArgs} args - Arguments to find a EntitySnapshotReference
+   * @example
+   * // Get one EntitySnapshotReference
+   * const entitySnapshotReference = await prisma.entitySnapshotReference.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends EntitySnapshotReferenceFindUniqueArgs>(args: Prisma.SelectSubset<T, EntitySnapshotReferenceFindUniqueArgs<ExtArgs>>): Prisma.Prisma__EntitySnapshotReferenceClient<runtime.Types.Result.GetResult<Prisma.$EntitySnapshotReferencePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one EntitySnapshotReference that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {EntitySnapshotReferenceFindUniqueOrThrowArgs} args - Arguments to find a EntitySnapshotReference
+   * @example
+   * // Get one EntitySnapshotReference
+   * const entitySnapshotReference = await prisma.entitySnapshotReference.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends EntitySnapshotReferenceFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, EntitySnapshotReferenceFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__EntitySnapshotReferenceClient<runtime.Types.Result.GetResult<Prisma.$EntitySnapshotReferencePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first EntitySnapshotReference that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {EntitySnapshotReferenceFindFirstArgs} args - Arguments to find a EntitySnapshotReference
+   * @example
+   * // Get one EntitySnapshotReference
+   * const entitySnapshotReference = await prisma.entitySnapshotReference.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends EntitySnapshotReferenceFindFirstArgs>(args?: Prisma.SelectSubset<T, EntitySnapshotReferenceFindFirstArgs<ExtArgs>>): Prisma.Prisma__EntitySnapshotReferenceClient<runtime.Types.Result.GetResult<Prisma.$EntitySnapshotReferencePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first EntitySnapshotReference that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {EntitySnapshotReferenceFindFirstOrThrowArgs} args - Arguments to find a EntitySnapshotReference
+   * @example
+   * // Get one EntitySnapshotReference
+   * const entitySnapshotReference = await prisma.entitySnapshotReference.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends EntitySnapshotReferenceFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, EntitySnapshotReferenceFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__EntitySnapshotReferenceClient<runtime.Types.Result.GetResult<Prisma.$EntitySnapshotReferencePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more EntitySnapshotReferences that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {EntitySnapshotReferenceFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all EntitySnapshotReferences
+   * const entitySnapshotReferences = await prisma.entitySnapshotReference.findMany()
+   * 
+   * // Get first 10 EntitySnapshotReferences
+   * const entitySnapshotReferences = await prisma.entitySnapshotReference.findMany({ take: 10 })
+   * 
+   * // Only select the `fromId`
+   * const entitySnapshotReferenceWithFromIdOnly = await prisma.entitySnapshotReference.findMany({ select: { fromId: true } })
+   * 
+   */
+  findMany<T extends EntitySnapshotReferenceFindManyArgs>(args?: Prisma.SelectSubset<T, EntitySnapshotReferenceFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$EntitySnapshotReferencePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a EntitySnapshotReference.
+   * @param {EntitySnapshotReferenceCreateArgs} args - Arguments to create a EntitySnapshotReference.
+   * @example
+   * // Create one EntitySnapshotReference
+   * const EntitySnapshotReference = await prisma.entitySnapshotReference.create({
+   *   data: {
+   *     // ... data to create a EntitySnapshotReference
+   *   }
+   * })
+   * 
+   */
+  create<T extends EntitySnapshotReferenceCreateArgs>(args: Prisma.SelectSubset<T, EntitySnapshotReferenceCreateArgs<ExtArgs>>): Prisma.Prisma__EntitySnapshotReferenceClient<runtime.Types.Result.GetResult<Prisma.$EntitySnapshotReferencePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many EntitySnapshotReferences.
+   * @param {EntitySnapshotReferenceCreateManyArgs} args - Arguments to create many EntitySnapshotReferences.
+   * @example
+   * // Create many EntitySnapshotReferences
+   * const entitySnapshotReference = await prisma.entitySnapshotReference.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends EntitySnapshotReferenceCreateManyArgs>(args?: Prisma.SelectSubset<T, EntitySnapshotReferenceCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many EntitySnapshotReferences and returns the data saved in the database.
+   * @param {EntitySnapshotReferenceCreateManyAndReturnArgs} args - Arguments to create many EntitySnapshotReferences.
+   * @example
+   * // Create many EntitySnapshotReferences
+   * const entitySnapshotReference = await prisma.entitySnapshotReference.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many EntitySnapshotReferences and only return the `fromId`
+   * const entitySnapshotReferenceWithFromIdOnly = await prisma.entitySnapshotReference.createManyAndReturn({
+   *   select: { fromId: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends EntitySnapshotReferenceCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, EntitySnapshotReferenceCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$EntitySnapshotReferencePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a EntitySnapshotReference.
+   * @param {EntitySnapshotReferenceDeleteArgs} args - Arguments to delete one EntitySnapshotReference.
+   * @example
+   * // Delete one EntitySnapshotReference
+   * const EntitySnapshotReference = await prisma.entitySnapshotReference.delete({
+   *   where: {
+   *     // ... filter to delete one EntitySnapshotReference
+   *   }
+   * })
+   * 
+   */
+  delete<T extends EntitySnapshotReferenceDeleteArgs>(args: Prisma.SelectSubset<T, EntitySnapshotReferenceDeleteArgs<ExtArgs>>): Prisma.Prisma__EntitySnapshotReferenceClient<runtime.Types.Result.GetResult<Prisma.$EntitySnapshotReferencePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one EntitySnapshotReference.
+   * @param {EntitySnapshotReferenceUpdateArgs} args - Arguments to update one EntitySnapshotReference.
+   * @example
+   * // Update one EntitySnapshotReference
+   * const entitySnapshotReference = await prisma.entitySnapshotReference.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends EntitySnapshotReferenceUpdateArgs>(args: Prisma.SelectSubset<T, EntitySnapshotReferenceUpdateArgs<ExtArgs>>): Prisma.Prisma__EntitySnapshotReferenceClient<runtime.Types.Result.GetResult<Prisma.$EntitySnapshotReferencePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more EntitySnapshotReferences.
+   * @param {EntitySnapshotReferenceDeleteManyArgs} args - Arguments to filter EntitySnapshotReferences to delete.
+   * @example
+   * // Delete a few EntitySnapshotReferences
+   * const { count } = await prisma.entitySnapshotReference.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends EntitySnapshotReferenceDeleteManyArgs>(args?: Prisma.SelectSubset<T, EntitySnapshotReferenceDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more EntitySnapshotReferences.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {EntitySnapshotReferenceUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many EntitySnapshotReferences
+   * const entitySnapshotReference = await prisma.entitySnapshotReference.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends EntitySnapshotReferenceUpdateManyArgs>(args: Prisma.SelectSubset<T, EntitySnapshotReferenceUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more EntitySnapshotReferences and returns the data updated in the database.
+   * @param {EntitySnapshotReferenceUpdateManyAndReturnArgs} args - Arguments to update many EntitySnapshotReferences.
+   * @example
+   * // Update many EntitySnapshotReferences
+   * const entitySnapshotReference = await prisma.entitySnapshotReference.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more EntitySnapshotReferences and only return the `fromId`
+   * const entitySnapshotReferenceWithFromIdOnly = await prisma.entitySnapshotReference.updateManyAndReturn({
+   *   select: { fromId: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends EntitySnapshotReferenceUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, EntitySnapshotReferenceUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$EntitySnapshotReferencePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one EntitySnapshotReference.
+   * @param {EntitySnapshotReferenceUpsertArgs} args - Arguments to update or create a EntitySnapshotReference.
+   * @example
+   * // Update or create a EntitySnapshotReference
+   * const entitySnapshotReference = await prisma.entitySnapshotReference.upsert({
+   *   create: {
+   *     // ... data to create a EntitySnapshotReference
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the EntitySnapshotReference we want to update
+   *   }
+   * })
+   */
+  upsert<T extends EntitySnapshotReferenceUpsertArgs>(args: Prisma.SelectSubset<T, EntitySnapshotReferenceUpsertArgs<ExtArgs>>): Prisma.Prisma__EntitySnapshotReferenceClient<runtime.Types.Result.GetResult<Prisma.$EntitySnapshotReferencePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of EntitySnapshotReferences.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {EntitySnapshotReferenceCountArgs} args - Arguments to filter EntitySnapshotReferences to count.
+   * @example
+   * // Count the number of EntitySnapshotReferences
+   * const count = await prisma.entitySnapshotReference.count({
+   *   where: {
+   *     // ... the filter for the EntitySnapshotReferences we want to count
+   *   }
+   * })
+  **/
+  count<T extends EntitySnapshotReferenceCountArgs>(
+    args?: Prisma.Subset<T, EntitySnapshotReferenceCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], EntitySnapshotReferenceCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a EntitySnapshotReference.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {EntitySnapshotReferenceAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends EntitySnapshotReferenceAggregateArgs>(args: Prisma.Subset<T, EntitySnapshotReferenceAggregateArgs>): Prisma.PrismaPromise<GetEntitySnapshotReferenceAggregateType<T>>
+
+  /**
+   * Group by EntitySnapshotReference.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {EntitySnapshotReferenceGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends EntitySnapshotReferenceGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: EntitySnapshotReferenceGroupByArgs['orderBy'] }
+      : { orderBy?: EntitySnapshotReferenceGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, EntitySnapshotReferenceGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetEntitySnapshotReferenceGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the EntitySnapshotReference model
+ */
+readonly fields: EntitySnapshotReferenceFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for EntitySnapshotReference.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__EntitySnapshotReferenceClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  from<T extends Prisma.EntitySnapshotDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.EntitySnapshotDefaultArgs<ExtArgs>>): Prisma.Prisma__EntitySnapshotClient<runtime.Types.Result.GetResult<Prisma.$EntitySnapshotPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  to<T extends Prisma.EntitySnapshotDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.EntitySnapshotDefaultArgs<ExtArgs>>): Prisma.Prisma__EntitySnapshotClient<runtime.Types.Result.GetResult<Prisma.$EntitySnapshotPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the EntitySnapshotReference model
+ */
+export interface EntitySnapshotReferenceFieldRefs {
+  readonly fromId: Prisma.FieldRef<"EntitySnapshotReference", 'String'>
+  readonly toId: Prisma.FieldRef<"EntitySnapshotReference", 'String'>
+  readonly kind: Prisma.FieldRef<"EntitySnapshotReference", 'EntityReferenceKind'>
+  readonly group: Prisma.FieldRef<"EntitySnapshotReference", 'String'>
+}
+    
+
+// Custom InputTypes
+/**
+ * EntitySnapshotReference findUnique
+ */
+export type EntitySnapshotReferenceFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EntitySnapshotReference
+   */
+  select?: Prisma.EntitySnapshotReferenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EntitySnapshotReference
+   */
+  omit?: Prisma.EntitySnapshotReferenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EntitySnapshotReferenceInclude<ExtArgs> | null
+  /**
+   * Filter, which EntitySnapshotReference to fetch.
+   */
+  where: Prisma.EntitySnapshotReferenceWhereUniqueInput
+}
+
+/**
+ * EntitySnapshotReference findUniqueOrThrow
+ */
+export type EntitySnapshotReferenceFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EntitySnapshotReference
+   */
+  select?: Prisma.EntitySnapshotReferenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EntitySnapshotReference
+   */
+  omit?: Prisma.EntitySnapshotReferenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EntitySnapshotReferenceInclude<ExtArgs> | null
+  /**
+   * Filter, which EntitySnapshotReference to fetch.
+   */
+  where: Prisma.EntitySnapshotReferenceWhereUniqueInput
+}
+
+/**
+ * EntitySnapshotReference findFirst
+ */
+export type EntitySnapshotReferenceFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EntitySnapshotReference
+   */
+  select?: Prisma.EntitySnapshotReferenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EntitySnapshotReference
+   */
+  omit?: Prisma.EntitySnapshotReferenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EntitySnapshotReferenceInclude<ExtArgs> | null
+  /**
+   * Filter, which EntitySnapshotReference to fetch.
+   */
+  where?: Prisma.EntitySnapshotReferenceWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of EntitySnapshotReferences to fetch.
+   */
+  orderBy?: Prisma.EntitySnapshotReferenceOrderByWithRelationInput | Prisma.EntitySnapshotReferenceOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for EntitySnapshotReferences.
+   */
+  cursor?: Prisma.EntitySnapshotReferenceWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` EntitySnapshotReferences from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` EntitySnapshotReferences.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of EntitySnapshotReferences.
+   */
+  distinct?: Prisma.EntitySnapshotReferenceScalarFieldEnum | Prisma.EntitySnapshotReferenceScalarFieldEnum[]
+}
+
+/**
+ * EntitySnapshotReference findFirstOrThrow
+ */
+export type EntitySnapshotReferenceFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EntitySnapshotReference
+   */
+  select?: Prisma.EntitySnapshotReferenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EntitySnapshotReference
+   */
+  omit?: Prisma.EntitySnapshotReferenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EntitySnapshotReferenceInclude<ExtArgs> | null
+  /**
+   * Filter, which EntitySnapshotReference to fetch.
+   */
+  where?: Prisma.EntitySnapshotReferenceWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of EntitySnapshotReferences to fetch.
+   */
+  orderBy?: Prisma.EntitySnapshotReferenceOrderByWithRelationInput | Prisma.EntitySnapshotReferenceOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for EntitySnapshotReferences.
+   */
+  cursor?: Prisma.EntitySnapshotReferenceWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` EntitySnapshotReferences from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` EntitySnapshotReferences.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of EntitySnapshotReferences.
+   */
+  distinct?: Prisma.EntitySnapshotReferenceScalarFieldEnum | Prisma.EntitySnapshotReferenceScalarFieldEnum[]
+}
+
+/**
+ * EntitySnapshotReference findMany
+ */
+export type EntitySnapshotReferenceFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EntitySnapshotReference
+   */
+  select?: Prisma.EntitySnapshotReferenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EntitySnapshotReference
+   */
+  omit?: Prisma.EntitySnapshotReferenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EntitySnapshotReferenceInclude<ExtArgs> | null
+  /**
+   * Filter, which EntitySnapshotReferences to fetch.
+   */
+  where?: Prisma.EntitySnapshotReferenceWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of EntitySnapshotReferences to fetch.
+   */
+  orderBy?: Prisma.EntitySnapshotReferenceOrderByWithRelationInput | Prisma.EntitySnapshotReferenceOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing EntitySnapshotReferences.
+   */
+  cursor?: Prisma.EntitySnapshotReferenceWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` EntitySnapshotReferences from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` EntitySnapshotReferences.
+   */
+  skip?: number
+  distinct?: Prisma.EntitySnapshotReferenceScalarFieldEnum | Prisma.EntitySnapshotReferenceScalarFieldEnum[]
+}
+
+/**
+ * EntitySnapshotReference create
+ */
+export type EntitySnapshotReferenceCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EntitySnapshotReference
+   */
+  select?: Prisma.EntitySnapshotReferenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EntitySnapshotReference
+   */
+  omit?: Prisma.EntitySnapshotReferenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EntitySnapshotReferenceInclude<ExtArgs> | null
+  /**
+   * The data needed to create a EntitySnapshotReference.
+   */
+  data: Prisma.XOR<Prisma.EntitySnapshotReferenceCreateInput, Prisma.EntitySnapshotReferenceUncheckedCreateInput>
+}
+
+/**
+ * EntitySnapshotReference createMany
+ */
+export type EntitySnapshotReferenceCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many EntitySnapshotReferences.
+   */
+  data: Prisma.EntitySnapshotReferenceCreateManyInput | Prisma.EntitySnapshotReferenceCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * EntitySnapshotReference createManyAndReturn
+ */
+export type EntitySnapshotReferenceCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EntitySnapshotReference
+   */
+  select?: Prisma.EntitySnapshotReferenceSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the EntitySnapshotReference
+   */
+  omit?: Prisma.EntitySnapshotReferenceOmit<ExtArgs> | null
+  /**
+   * The data used to create many EntitySnapshotReferences.
+   */
+  data: Prisma.EntitySnapshotReferenceCreateManyInput | Prisma.EntitySnapshotReferenceCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EntitySnapshotReferenceIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * EntitySnapshotReference update
+ */
+export type EntitySnapshotReferenceUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EntitySnapshotReference
+   */
+  select?: Prisma.EntitySnapshotReferenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EntitySnapshotReference
+   */
+  omit?: Prisma.EntitySnapshotReferenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EntitySnapshotReferenceInclude<ExtArgs> | null
+  /**
+   * The data needed to update a EntitySnapshotReference.
+   */
+  data: Prisma.XOR<Prisma.EntitySnapshotReferenceUpdateInput, Prisma.EntitySnapshotReferenceUncheckedUpdateInput>
+  /**
+   * Choose, which EntitySnapshotReference to update.
+   */
+  where: Prisma.EntitySnapshotReferenceWhereUniqueInput
+}
+
+/**
+ * EntitySnapshotReference updateMany
+ */
+export type EntitySnapshotReferenceUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update EntitySnapshotReferences.
+   */
+  data: Prisma.XOR<Prisma.EntitySnapshotReferenceUpdateManyMutationInput, Prisma.EntitySnapshotReferenceUncheckedUpdateManyInput>
+  /**
+   * Filter which EntitySnapshotReferences to update
+   */
+  where?: Prisma.EntitySnapshotReferenceWhereInput
+  /**
+   * Limit how many EntitySnapshotReferences to update.
+   */
+  limit?: number
+}
+
+/**
+ * EntitySnapshotReference updateManyAndReturn
+ */
+export type EntitySnapshotReferenceUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EntitySnapshotReference
+   */
+  select?: Prisma.EntitySnapshotReferenceSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the EntitySnapshotReference
+   */
+  omit?: Prisma.EntitySnapshotReferenceOmit<ExtArgs> | null
+  /**
+   * The data used to update EntitySnapshotReferences.
+   */
+  data: Prisma.XOR<Prisma.EntitySnapshotReferenceUpdateManyMutationInput, Prisma.EntitySnapshotReferenceUncheckedUpdateManyInput>
+  /**
+   * Filter which EntitySnapshotReferences to update
+   */
+  where?: Prisma.EntitySnapshotReferenceWhereInput
+  /**
+   * Limit how many EntitySnapshotReferences to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EntitySnapshotReferenceIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * EntitySnapshotReference upsert
+ */
+export type EntitySnapshotReferenceUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EntitySnapshotReference
+   */
+  select?: Prisma.EntitySnapshotReferenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EntitySnapshotReference
+   */
+  omit?: Prisma.EntitySnapshotReferenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EntitySnapshotReferenceInclude<ExtArgs> | null
+  /**
+   * The filter to search for the EntitySnapshotReference to update in case it exists.
+   */
+  where: Prisma.EntitySnapshotReferenceWhereUniqueInput
+  /**
+   * In case the EntitySnapshotReference found by the `where` argument doesn't exist, create a new EntitySnapshotReference with this data.
+   */
+  create: Prisma.XOR<Prisma.EntitySnapshotReferenceCreateInput, Prisma.EntitySnapshotReferenceUncheckedCreateInput>
+  /**
+   * In case the EntitySnapshotReference was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.EntitySnapshotReferenceUpdateInput, Prisma.EntitySnapshotReferenceUncheckedUpdateInput>
+}
+
+/**
+ * EntitySnapshotReference delete
+ */
+export type EntitySnapshotReferenceDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EntitySnapshotReference
+   */
+  select?: Prisma.EntitySnapshotReferenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EntitySnapshotReference
+   */
+  omit?: Prisma.EntitySnapshotReferenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EntitySnapshotReferenceInclude<ExtArgs> | null
+  /**
+   * Filter which EntitySnapshotReference to delete.
+   */
+  where: Prisma.EntitySnapshotReferenceWhereUniqueInput
+}
+
+/**
+ * EntitySnapshotReference deleteMany
+ */
+export type EntitySnapshotReferenceDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which EntitySnapshotReferences to delete
+   */
+  where?: Prisma.EntitySnapshotReferenceWhereInput
+  /**
+   * Limit how many EntitySnapshotReferences to delete.
+   */
+  limit?: number
+}
+
+/**
+ * EntitySnapshotReference without action
+ */
+export type EntitySnapshotReferenceDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EntitySnapshotReference
+   */
+  select?: Prisma.EntitySnapshotReferenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EntitySnapshotReference
+   */
+  omit?: Prisma.EntitySnapshotReferenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EntitySnapshotReferenceInclude<ExtArgs> | null
+}
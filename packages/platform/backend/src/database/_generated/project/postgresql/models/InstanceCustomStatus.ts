@@ -0,0 +1,1718 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `InstanceCustomStatus` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+
+import type * as PJTG from '../pjtg.ts';
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.ts"
+import type * as Prisma from "../internal/prismaNamespace.ts"
+
+/**
+ * Model InstanceCustomStatus
+ * 
+ */
+export type InstanceCustomStatusModel = runtime.Types.Result.DefaultSelection<Prisma.$InstanceCustomStatusPayload>
+
+export type AggregateInstanceCustomStatus = {
+  _count: InstanceCustomStatusCountAggregateOutputType | null
+  _avg: InstanceCustomStatusAvgAggregateOutputType | null
+  _sum: InstanceCustomStatusSumAggregateOutputType | null
+  _min: InstanceCustomStatusMinAggregateOutputType | null
+  _max: InstanceCustomStatusMaxAggregateOutputType | null
+}
+
+export type InstanceCustomStatusAvgAggregateOutputType = {
+  order: number | null
+}
+
+export type InstanceCustomStatusSumAggregateOutputType = {
+  order: number | null
+}
+
+export type InstanceCustomStatusMinAggregateOutputType = {
+  stateId: string | null
+  serviceAccountId: string | null
+  name: string | null
+  value: string | null
+  message: string | null
+  order: number | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type InstanceCustomStatusMaxAggregateOutputType = {
+  stateId: string | null
+  serviceAccountId: string | null
+  name: string | null
+  value: string | null
+  message: string | null
+  order: number | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type InstanceCustomStatusCountAggregateOutputType = {
+  stateId: number
+  serviceAccountId: number
+  name: number
+  meta: number
+  value: number
+  message: number
+  order: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type InstanceCustomStatusAvgAggregateInputType = {
+  order?: true
+}
+
+export type InstanceCustomStatusSumAggregateInputType = {
+  order?: true
+}
+
+export type InstanceCustomStatusMinAggregateInputType = {
+  stateId?: true
+  serviceAccountId?: true
+  name?: true
+  value?: true
+  message?: true
+  order?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type InstanceCustomStatusMaxAggregateInputType = {
+  stateId?: true
+  serviceAccountId?: true
+  name?: true
+  value?: true
+  message?: true
+  order?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type InstanceCustomStatusCountAggregateInputType = {
+  stateId?: true
+  serviceAccountId?: true
+  name?: true
+  meta?: true
+  value?: true
+  message?: true
+  order?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type InstanceCustomStatusAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which InstanceCustomStatus to aggregate.
+   */
+  where?: Prisma.InstanceCustomStatusWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of InstanceCustomStatuses to fetch.
+   */
+  orderBy?: Prisma.InstanceCustomStatusOrderByWithRelationInput | Prisma.InstanceCustomStatusOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.InstanceCustomStatusWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` InstanceCustomStatuses from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` InstanceCustomStatuses.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned InstanceCustomStatuses
+  **/
+  _count?: true | InstanceCustomStatusCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: InstanceCustomStatusAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: InstanceCustomStatusSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: InstanceCustomStatusMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: InstanceCustomStatusMaxAggregateInputType
+}
+
+export type GetInstanceCustomStatusAggregateType<T extends InstanceCustomStatusAggregateArgs> = {
+      [P in keyof T & keyof AggregateInstanceCustomStatus]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateInstanceCustomStatus[P]>
+    : Prisma.GetScalarType<T[P], AggregateInstanceCustomStatus[P]>
+}
+
+
+
+
+export type InstanceCustomStatusGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.InstanceCustomStatusWhereInput
+  orderBy?: Prisma.InstanceCustomStatusOrderByWithAggregationInput | Prisma.InstanceCustomStatusOrderByWithAggregationInput[]
+  by: Prisma.InstanceCustomStatusScalarFieldEnum[] | Prisma.InstanceCustomStatusScalarFieldEnum
+  having?: Prisma.InstanceCustomStatusScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: InstanceCustomStatusCountAggregateInputType | true
+  _avg?: InstanceCustomStatusAvgAggregateInputType
+  _sum?: InstanceCustomStatusSumAggregateInputType
+  _min?: InstanceCustomStatusMinAggregateInputType
+  _max?: InstanceCustomStatusMaxAggregateInputType
+}
+
+export type InstanceCustomStatusGroupByOutputType = {
+  stateId: string
+  serviceAccountId: string
+  name: string
+  meta:PrismaJson.CommonObjectMeta
+  value: string
+  message: string | null
+  order: number
+  createdAt: Date
+  updatedAt: Date
+  _count: InstanceCustomStatusCountAggregateOutputType | null
+  _avg: InstanceCustomStatusAvgAggregateOutputType | null
+  _sum: InstanceCustomStatusSumAggregateOutputType | null
+  _min: InstanceCustomStatusMinAggregateOutputType | null
+  _max: InstanceCustomStatusMaxAggregateOutputType | null
+}
+
+type GetInstanceCustomStatusGroupByPayload<T extends InstanceCustomStatusGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<InstanceCustomStatusGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof InstanceCustomStatusGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], InstanceCustomStatusGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], InstanceCustomStatusGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type InstanceCustomStatusWhereInput = {
+  AND?: Prisma.InstanceCustomStatusWhereInput | Prisma.InstanceCustomStatusWhereInput[]
+  OR?: Prisma.InstanceCustomStatusWhereInput[]
+  NOT?: Prisma.InstanceCustomStatusWhereInput | Prisma.InstanceCustomStatusWhereInput[]
+  stateId?: Prisma.StringFilter<"InstanceCustomStatus"> | string
+  serviceAccountId?: Prisma.StringFilter<"InstanceCustomStatus"> | string
+  name?: Prisma.StringFilter<"InstanceCustomStatus"> | string
+  meta?: Prisma.JsonFilter<"InstanceCustomStatus">
+  value?: Prisma.StringFilter<"InstanceCustomStatus"> | string
+  message?: Prisma.StringNullableFilter<"InstanceCustomStatus"> | string | null
+  order?: Prisma.IntFilter<"InstanceCustomStatus"> | number
+  createdAt?: Prisma.DateTimeFilter<"InstanceCustomStatus"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"InstanceCustomStatus"> | Date | string
+  state?: Prisma.XOR<Prisma.InstanceStateScalarRelationFilter, Prisma.InstanceStateWhereInput>
+  serviceAccount?: Prisma.XOR<Prisma.ServiceAccountScalarRelationFilter, Prisma.ServiceAccountWhereInput>
+}
+
+export type InstanceCustomStatusOrderByWithRelationInput = {
+  stateId?: Prisma.SortOrder
+  serviceAccountId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  meta?: Prisma.SortOrder
+  value?: Prisma.SortOrder
+  message?: Prisma.SortOrderInput | Prisma.SortOrder
+  order?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  state?: Prisma.InstanceStateOrderByWithRelationInput
+  serviceAccount?: Prisma.ServiceAccountOrderByWithRelationInput
+}
+
+export type InstanceCustomStatusWhereUniqueInput = Prisma.AtLeast<{
+  stateId_serviceAccountId_name?: Prisma.InstanceCustomStatusStateIdServiceAccountIdNameCompoundUniqueInput
+  AND?: Prisma.InstanceCustomStatusWhereInput | Prisma.InstanceCustomStatusWhereInput[]
+  OR?: Prisma.InstanceCustomStatusWhereInput[]
+  NOT?: Prisma.InstanceCustomStatusWhereInput | Prisma.InstanceCustomStatusWhereInput[]
+  stateId?: Prisma.StringFilter<"InstanceCustomStatus"> | string
+  serviceAccountId?: Prisma.StringFilter<"InstanceCustomStatus"> | string
+  name?: Prisma.StringFilter<"InstanceCustomStatus"> | string
+  meta?: Prisma.JsonFilter<"InstanceCustomStatus">
+  value?: Prisma.StringFilter<"InstanceCustomStatus"> | string
+  message?: Prisma.StringNullableFilter<"InstanceCustomStatus"> | string | null
+  order?: Prisma.IntFilter<"InstanceCustomStatus"> | number
+  createdAt?: Prisma.DateTimeFilter<"InstanceCustomStatus"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"InstanceCustomStatus"> | Date | string
+  state?: Prisma.XOR<Prisma.InstanceStateScalarRelationFilter, Prisma.InstanceStateWhereInput>
+  serviceAccount?: Prisma.XOR<Prisma.ServiceAccountScalarRelationFilter, Prisma.ServiceAccountWhereInput>
+}, "stateId_serviceAccountId_name">
+
+export type InstanceCustomStatusOrderByWithAggregationInput = {
+  stateId?: Prisma.SortOrder
+  serviceAccountId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  meta?: Prisma.SortOrder
+  value?: Prisma.SortOrder
+  message?: Prisma.SortOrderInput | Prisma.SortOrder
+  order?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.InstanceCustomStatusCountOrderByAggregateInput
+  _avg?: Prisma.InstanceCustomStatusAvgOrderByAggregateInput
+  _max?: Prisma.InstanceCustomStatusMaxOrderByAggregateInput
+  _min?: Prisma.InstanceCustomStatusMinOrderByAggregateInput
+  _sum?: Prisma.InstanceCustomStatusSumOrderByAggregateInput
+}
+
+export type InstanceCustomStatusScalarWhereWithAggregatesInput = {
+  AND?: Prisma.InstanceCustomStatusScalarWhereWithAggregatesInput | Prisma.InstanceCustomStatusScalarWhereWithAggregatesInput[]
+  OR?: Prisma.InstanceCustomStatusScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.InstanceCustomStatusScalarWhereWithAggregatesInput | Prisma.InstanceCustomStatusScalarWhereWithAggregatesInput[]
+  stateId?: Prisma.StringWithAggregatesFilter<"InstanceCustomStatus"> | string
+  serviceAccountId?: Prisma.StringWithAggregatesFilter<"InstanceCustomStatus"> | string
+  name?: Prisma.StringWithAggregatesFilter<"InstanceCustomStatus"> | string
+  meta?: Prisma.JsonWithAggregatesFilter<"InstanceCustomStatus">
+  value?: Prisma.StringWithAggregatesFilter<"InstanceCustomStatus"> | string
+  message?: Prisma.StringNullableWithAggregatesFilter<"InstanceCustomStatus"> | string | null
+  order?: Prisma.IntWithAggregatesFilter<"InstanceCustomStatus"> | number
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"InstanceCustomStatus"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"InstanceCustomStatus"> | Date | string
+}
+
+export type InstanceCustomStatusCreateInput = {
+  name: string
+  meta:PrismaJson.CommonObjectMeta
+  value: string
+  message?: string | null
+  order?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  state: Prisma.InstanceStateCreateNestedOneWithoutCustomStatusesInput
+  serviceAccount: Prisma.ServiceAccountCreateNestedOneWithoutCustomStatusesInput
+}
+
+export type InstanceCustomStatusUncheckedCreateInput = {
+  stateId: string
+  serviceAccountId: string
+  name: string
+  meta:PrismaJson.CommonObjectMeta
+  value: string
+  message?: string | null
+  order?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type InstanceCustomStatusUpdateInput = {
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  meta?:PrismaJson.CommonObjectMeta
+  value?: Prisma.StringFieldUpdateOperationsInput | string
+  message?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  order?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  state?: Prisma.InstanceStateUpdateOneRequiredWithoutCustomStatusesNestedInput
+  serviceAccount?: Prisma.ServiceAccountUpdateOneRequiredWithoutCustomStatusesNestedInput
+}
+
+export type InstanceCustomStatusUncheckedUpdateInput = {
+  stateId?: Prisma.StringFieldUpdateOperationsInput | string
+  serviceAccountId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  meta?:PrismaJson.CommonObjectMeta
+  value?: Prisma.StringFieldUpdateOperationsInput | string
+  message?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  order?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type InstanceCustomStatusCreateManyInput = {
+  stateId: string
+  serviceAccountId: string
+  name: string
+  meta:PrismaJson.CommonObjectMeta
+  value: string
+  message?: string | null
+  order?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type InstanceCustomStatusUpdateManyMutationInput = {
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  meta?:PrismaJson.CommonObjectMeta
+  value?: Prisma.StringFieldUpdateOperationsInput | string
+  message?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  order?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type InstanceCustomStatusUncheckedUpdateManyInput = {
+  stateId?: Prisma.StringFieldUpdateOperationsInput | string
+  serviceAccountId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  meta?:PrismaJson.CommonObjectMeta
+  value?: Prisma.StringFieldUpdateOperationsInput | string
+  message?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  order?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type InstanceCustomStatusStateIdServiceAccountIdNameCompoundUniqueInput = {
+  stateId: string
+  serviceAccountId: string
+  name: string
+}
+
+export type InstanceCustomStatusCountOrderByAggregateInput = {
+  stateId?: Prisma.SortOrder
+  serviceAccountId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  meta?: Prisma.SortOrder
+  value?: Prisma.SortOrder
+  message?: Prisma.SortOrder
+  order?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type InstanceCustomStatusAvgOrderByAggregateInput = {
+  order?: Prisma.SortOrder
+}
+
+export type InstanceCustomStatusMaxOrderByAggregateInput = {
+  stateId?: Prisma.SortOrder
+  serviceAccountId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  value?: Prisma.SortOrder
+  message?: Prisma.SortOrder
+  order?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type InstanceCustomStatusMinOrderByAggregateInput = {
+  stateId?: Prisma.SortOrder
+  serviceAccountId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  value?: Prisma.SortOrder
+  message?: Prisma.SortOrder
+  order?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type InstanceCustomStatusSumOrderByAggregateInput = {
+  order?: Prisma.SortOrder
+}
+
+export type InstanceCustomStatusListRelationFilter = {
+  every?: Prisma.InstanceCustomStatusWhereInput
+  some?: Prisma.InstanceCustomStatusWhereInput
+  none?: Prisma.InstanceCustomStatusWhereInput
+}
+
+export type InstanceCustomStatusOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type NullableStringFieldUpdateOperationsInput = {
+  set?: string | null
+}
+
+export type InstanceCustomStatusCreateNestedManyWithoutStateInput = {
+  create?: Prisma.XOR<Prisma.InstanceCustomStatusCreateWithoutStateInput, Prisma.InstanceCustomStatusUncheckedCreateWithoutStateInput> | Prisma.InstanceCustomStatusCreateWithoutStateInput[] | Prisma.InstanceCustomStatusUncheckedCreateWithoutStateInput[]
+  connectOrCreate?: Prisma.InstanceCustomStatusCreateOrConnectWithoutStateInput | Prisma.InstanceCustomStatusCreateOrConnectWithoutStateInput[]
+  createMany?: Prisma.InstanceCustomStatusCreateManyStateInputEnvelope
+  connect?: Prisma.InstanceCustomStatusWhereUniqueInput | Prisma.InstanceCustomStatusWhereUniqueInput[]
+}
+
+export type InstanceCustomStatusUncheckedCreateNestedManyWithoutStateInput = {
+  create?: Prisma.XOR<Prisma.InstanceCustomStatusCreateWithoutStateInput, Prisma.InstanceCustomStatusUncheckedCreateWithoutStateInput> | Prisma.InstanceCustomStatusCreateWithoutStateInput[] | Prisma.InstanceCustomStatusUncheckedCreateWithoutStateInput[]
+  connectOrCreate?: Prisma.InstanceCustomStatusCreateOrConnectWithoutStateInput | Prisma.InstanceCustomStatusCreateOrConnectWithoutStateInput[]
+  createMany?: Prisma.InstanceCustomStatusCreateManyStateInputEnvelope
+  connect?: Prisma.InstanceCustomStatusWhereUniqueInput | Prisma.InstanceCustomStatusWhereUniqueInput[]
+}
+
+export type InstanceCustomStatusUpdateManyWithoutStateNestedInput = {
+  create?: Prisma.XOR<Prisma.InstanceCustomStatusCreateWithoutStateInput, Prisma.InstanceCustomStatusUncheckedCreateWithoutStateInput> | Prisma.InstanceCustomStatusCreateWithoutStateInput[] | Prisma.InstanceCustomStatusUncheckedCreateWithoutStateInput[]
+  connectOrCreate?: Prisma.InstanceCustomStatusCreateOrConnectWithoutStateInput | Prisma.InstanceCustomStatusCreateOrConnectWithoutStateInput[]
+  upsert?: Prisma.InstanceCustomStatusUpsertWithWhereUniqueWithoutStateInput | Prisma.InstanceCustomStatusUpsertWithWhereUniqueWithoutStateInput[]
+  createMany?: Prisma.InstanceCustomStatusCreateManyStateInputEnvelope
+  set?: Prisma.InstanceCustomStatusWhereUniqueInput | Prisma.InstanceCustomStatusWhereUniqueInput[]
+  disconnect?: Prisma.InstanceCustomStatusWhereUniqueInput | Prisma.InstanceCustomStatusWhereUniqueInput[]
+  delete?: Prisma.InstanceCustomStatusWhereUniqueInput | Prisma.InstanceCustomStatusWhereUniqueInput[]
+  connect?: Prisma.InstanceCustomStatusWhereUniqueInput | Prisma.InstanceCustomStatusWhereUniqueInput[]
+  update?: Prisma.InstanceCustomStatusUpdateWithWhereUniqueWithoutStateInput | Prisma.InstanceCustomStatusUpdateWithWhereUniqueWithoutStateInput[]
+  updateMany?: Prisma.InstanceCustomStatusUpdateManyWithWhereWithoutStateInput | Prisma.InstanceCustomStatusUpdateManyWithWhereWithoutStateInput[]
+  deleteMany?: Prisma.InstanceCustomStatusScalarWhereInput | Prisma.InstanceCustomStatusScalarWhereInput[]
+}
+
+export type InstanceCustomStatusUncheckedUpdateManyWithoutStateNestedInput = {
+  create?: Prisma.XOR<Prisma.InstanceCustomStatusCreateWithoutStateInput, Prisma.InstanceCustomStatusUncheckedCreateWithoutStateInput> | Prisma.InstanceCustomStatusCreateWithoutStateInput[] | Prisma.InstanceCustomStatusUncheckedCreateWithoutStateInput[]
+  connectOrCreate?: Prisma.InstanceCustomStatusCreateOrConnectWithoutStateInput | Prisma.InstanceCustomStatusCreateOrConnectWithoutStateInput[]
+  upsert?: Prisma.InstanceCustomStatusUpsertWithWhereUniqueWithoutStateInput | Prisma.InstanceCustomStatusUpsertWithWhereUniqueWithoutStateInput[]
+  createMany?: Prisma.InstanceCustomStatusCreateManyStateInputEnvelope
+  set?: Prisma.InstanceCustomStatusWhereUniqueInput | Prisma.InstanceCustomStatusWhereUniqueInput[]
+  disconnect?: Prisma.InstanceCustomStatusWhereUniqueInput | Prisma.InstanceCustomStatusWhereUniqueInput[]
+  delete?: Prisma.InstanceCustomStatusWhereUniqueInput | Prisma.InstanceCustomStatusWhereUniqueInput[]
+  connect?: Prisma.InstanceCustomStatusWhereUniqueInput | Prisma.InstanceCustomStatusWhereUniqueInput[]
+  update?: Prisma.InstanceCustomStatusUpdateWithWhereUniqueWithoutStateInput | Prisma.InstanceCustomStatusUpdateWithWhereUniqueWithoutStateInput[]
+  updateMany?: Prisma.InstanceCustomStatusUpdateManyWithWhereWithoutStateInput | Prisma.InstanceCustomStatusUpdateManyWithWhereWithoutStateInput[]
+  deleteMany?: Prisma.InstanceCustomStatusScalarWhereInput | Prisma.InstanceCustomStatusScalarWhereInput[]
+}
+
+export type InstanceCustomStatusCreateNestedManyWithoutServiceAccountInput = {
+  create?: Prisma.XOR<Prisma.InstanceCustomStatusCreateWithoutServiceAccountInput, Prisma.InstanceCustomStatusUncheckedCreateWithoutServiceAccountInput> | Prisma.InstanceCustomStatusCreateWithoutServiceAccountInput[] | Prisma.InstanceCustomStatusUncheckedCreateWithoutServiceAccountInput[]
+  connectOrCreate?: Prisma.InstanceCustomStatusCreateOrConnectWithoutServiceAccountInput | Prisma.InstanceCustomStatusCreateOrConnectWithoutServiceAccountInput[]
+  createMany?: Prisma.InstanceCustomStatusCreateManyServiceAccountInputEnvelope
+  connect?: Prisma.InstanceCustomStatusWhereUniqueInput | Prisma.InstanceCustomStatusWhereUniqueInput[]
+}
+
+export type InstanceCustomStatusUncheckedCreateNestedManyWithoutServiceAccountInput = {
+  create?: Prisma.XOR<Prisma.InstanceCustomStatusCreateWithoutServiceAccountInput, Prisma.InstanceCustomStatusUncheckedCreateWithoutServiceAccountInput> | Prisma.InstanceCustomStatusCreateWithoutServiceAccountInput[] | Prisma.InstanceCustomStatusUncheckedCreateWithoutServiceAccountInput[]
+  connectOrCreate?: Prisma.InstanceCustomStatusCreateOrConnectWithoutServiceAccountInput | Prisma.InstanceCustomStatusCreateOrConnectWithoutServiceAccountInput[]
+  createMany?: Prisma.InstanceCustomStatusCreateManyServiceAccountInputEnvelope
+  connect?: Prisma.InstanceCustomStatusWhereUniqueInput | Prisma.InstanceCustomStatusWhereUniqueInput[]
+}
+
+export type InstanceCustomStatusUpdateManyWithoutServiceAccountNestedInput = {
+  create?: Prisma.XOR<Prisma.InstanceCustomStatusCreateWithoutServiceAccountInput, Prisma.InstanceCustomStatusUncheckedCreateWithoutServiceAccountInput> | Prisma.InstanceCustomStatusCreateWithoutServiceAccountInput[] | Prisma.InstanceCustomStatusUncheckedCreateWithoutServiceAccountInput[]
+  connectOrCreate?: Prisma.InstanceCustomStatusCreateOrConnectWithoutServiceAccountInput | Prisma.InstanceCustomStatusCreateOrConnectWithoutServiceAccountInput[]
+  upsert?: Prisma.InstanceCustomStatusUpsertWithWhereUniqueWithoutServiceAccountInput | Prisma.InstanceCustomStatusUpsertWithWhereUniqueWithoutServiceAccountInput[]
+  createMany?: Prisma.InstanceCustomStatusCreateManyServiceAccountInputEnvelope
+  set?: Prisma.InstanceCustomStatusWhereUniqueInput | Prisma.InstanceCustomStatusWhereUniqueInput[]
+  disconnect?: Prisma.InstanceCustomStatusWhereUniqueInput | Prisma.InstanceCustomStatusWhereUniqueInput[]
+  delete?: Prisma.InstanceCustomStatusWhereUniqueInput | Prisma.InstanceCustomStatusWhereUniqueInput[]
+  connect?: Prisma.InstanceCustomStatusWhereUniqueInput | Prisma.InstanceCustomStatusWhereUniqueInput[]
+  update?: Prisma.InstanceCustomStatusUpdateWithWhereUniqueWithoutServiceAccountInput | Prisma.InstanceCustomStatusUpdateWithWhereUniqueWithoutServiceAccountInput[]
+  updateMany?: Prisma.InstanceCustomStatusUpdateManyWithWhereWithoutServiceAccountInput | Prisma.InstanceCustomStatusUpdateManyWithWhereWithoutServiceAccountInput[]
+  deleteMany?: Prisma.InstanceCustomStatusScalarWhereInput | Prisma.InstanceCustomStatusScalarWhereInput[]
+}
+
+export type InstanceCustomStatusUncheckedUpdateManyWithoutServiceAccountNestedInput = {
+  create?: Prisma.XOR<Prisma.InstanceCustomStatusCreateWithoutServiceAccountInput, Prisma.InstanceCustomStatusUncheckedCreateWithoutServiceAccountInput> | Prisma.InstanceCustomStatusCreateWithoutServiceAccountInput[] | Prisma.InstanceCustomStatusUncheckedCreateWithoutServiceAccountInput[]
+  connectOrCreate?: Prisma.InstanceCustomStatusCreateOrConnectWithoutServiceAccountInput | Prisma.InstanceCustomStatusCreateOrConnectWithoutServiceAccountInput[]
+  upsert?: Prisma.InstanceCustomStatusUpsertWithWhereUniqueWithoutServiceAccountInput | Prisma.InstanceCustomStatusUpsertWithWhereUniqueWithoutServiceAccountInput[]
+  createMany?: Prisma.InstanceCustomStatusCreateManyServiceAccountInputEnvelope
+  set?: Prisma.InstanceCustomStatusWhereUniqueInput | Prisma.InstanceCustomStatusWhereUniqueInput[]
+  disconnect?: Prisma.InstanceCustomStatusWhereUniqueInput | Prisma.InstanceCustomStatusWhereUniqueInput[]
+  delete?: Prisma.InstanceCustomStatusWhereUniqueInput | Prisma.InstanceCustomStatusWhereUniqueInput[]
+  connect?: Prisma.InstanceCustomStatusWhereUniqueInput | Prisma.InstanceCustomStatusWhereUniqueInput[]
+  update?: Prisma.InstanceCustomStatusUpdateWithWhereUniqueWithoutServiceAccountInput | Prisma.InstanceCustomStatusUpdateWithWhereUniqueWithoutServiceAccountInput[]
+  updateMany?: Prisma.InstanceCustomStatusUpdateManyWithWhereWithoutServiceAccountInput | Prisma.InstanceCustomStatusUpdateManyWithWhereWithoutServiceAccountInput[]
+  deleteMany?: Prisma.InstanceCustomStatusScalarWhereInput | Prisma.InstanceCustomStatusScalarWhereInput[]
+}
+
+export type InstanceCustomStatusCreateWithoutStateInput = {
+  name: string
+  meta:PrismaJson.CommonObjectMeta
+  value: string
+  message?: string | null
+  order?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  serviceAccount: Prisma.ServiceAccountCreateNestedOneWithoutCustomStatusesInput
+}
+
+export type InstanceCustomStatusUncheckedCreateWithoutStateInput = {
+  serviceAccountId: string
+  name: string
+  meta:PrismaJson.CommonObjectMeta
+  value: string
+  message?: string | null
+  order?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type InstanceCustomStatusCreateOrConnectWithoutStateInput = {
+  where: Prisma.InstanceCustomStatusWhereUniqueInput
+  create: Prisma.XOR<Prisma.InstanceCustomStatusCreateWithoutStateInput, Prisma.InstanceCustomStatusUncheckedCreateWithoutStateInput>
+}
+
+export type InstanceCustomStatusCreateManyStateInputEnvelope = {
+  data: Prisma.InstanceCustomStatusCreateManyStateInput | Prisma.InstanceCustomStatusCreateManyStateInput[]
+  skipDuplicates?: boolean
+}
+
+export type InstanceCustomStatusUpsertWithWhereUniqueWithoutStateInput = {
+  where: Prisma.InstanceCustomStatusWhereUniqueInput
+  update: Prisma.XOR<Prisma.InstanceCustomStatusUpdateWithoutStateInput, Prisma.InstanceCustomStatusUncheckedUpdateWithoutStateInput>
+  create: Prisma.XOR<Prisma.InstanceCustomStatusCreateWithoutStateInput, Prisma.InstanceCustomStatusUncheckedCreateWithoutStateInput>
+}
+
+export type InstanceCustomStatusUpdateWithWhereUniqueWithoutStateInput = {
+  where: Prisma.InstanceCustomStatusWhereUniqueInput
+  data: Prisma.XOR<Prisma.InstanceCustomStatusUpdateWithoutStateInput, Prisma.InstanceCustomStatusUncheckedUpdateWithoutStateInput>
+}
+
+export type InstanceCustomStatusUpdateManyWithWhereWithoutStateInput = {
+  where: Prisma.InstanceCustomStatusScalarWhereInput
+  data: Prisma.XOR<Prisma.InstanceCustomStatusUpdateManyMutationInput, Prisma.InstanceCustomStatusUncheckedUpdateManyWithoutStateInput>
+}
+
+export type InstanceCustomStatusScalarWhereInput = {
+  AND?: Prisma.InstanceCustomStatusScalarWhereInput | Prisma.InstanceCustomStatusScalarWhereInput[]
+  OR?: Prisma.InstanceCustomStatusScalarWhereInput[]
+  NOT?: Prisma.InstanceCustomStatusScalarWhereInput | Prisma.InstanceCustomStatusScalarWhereInput[]
+  stateId?: Prisma.StringFilter<"InstanceCustomStatus"> | string
+  serviceAccountId?: Prisma.StringFilter<"InstanceCustomStatus"> | string
+  name?: Prisma.StringFilter<"InstanceCustomStatus"> | string
+  meta?: Prisma.JsonFilter<"InstanceCustomStatus">
+  value?: Prisma.StringFilter<"InstanceCustomStatus"> | string
+  message?: Prisma.StringNullableFilter<"InstanceCustomStatus"> | string | null
+  order?: Prisma.IntFilter<"InstanceCustomStatus"> | number
+  createdAt?: Prisma.DateTimeFilter<"InstanceCustomStatus"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"InstanceCustomStatus"> | Date | string
+}
+
+export type InstanceCustomStatusCreateWithoutServiceAccountInput = {
+  name: string
+  meta:PrismaJson.CommonObjectMeta
+  value: string
+  message?: string | null
+  order?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  state: Prisma.InstanceStateCreateNestedOneWithoutCustomStatusesInput
+}
+
+export type InstanceCustomStatusUncheckedCreateWithoutServiceAccountInput = {
+  stateId: string
+  name: string
+  meta:PrismaJson.CommonObjectMeta
+  value: string
+  message?: string | null
+  order?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type InstanceCustomStatusCreateOrConnectWithoutServiceAccountInput = {
+  where: Prisma.InstanceCustomStatusWhereUniqueInput
+  create: Prisma.XOR<Prisma.InstanceCustomStatusCreateWithoutServiceAccountInput, Prisma.InstanceCustomStatusUncheckedCreateWithoutServiceAccountInput>
+}
+
+export type InstanceCustomStatusCreateManyServiceAccountInputEnvelope = {
+  data: Prisma.InstanceCustomStatusCreateManyServiceAccountInput | Prisma.InstanceCustomStatusCreateManyServiceAccountInput[]
+  skipDuplicates?: boolean
+}
+
+export type InstanceCustomStatusUpsertWithWhereUniqueWithoutServiceAccountInput = {
+  where: Prisma.InstanceCustomStatusWhereUniqueInput
+  update: Prisma.XOR<Prisma.InstanceCustomStatusUpdateWithoutServiceAccountInput, Prisma.InstanceCustomStatusUncheckedUpdateWithoutServiceAccountInput>
+  create: Prisma.XOR<Prisma.InstanceCustomStatusCreateWithoutServiceAccountInput, Prisma.InstanceCustomStatusUncheckedCreateWithoutServiceAccountInput>
+}
+
+export type InstanceCustomStatusUpdateWithWhereUniqueWithoutServiceAccountInput = {
+  where: Prisma.InstanceCustomStatusWhereUniqueInput
+  data: Prisma.XOR<Prisma.InstanceCustomStatusUpdateWithoutServiceAccountInput, Prisma.InstanceCustomStatusUncheckedUpdateWithoutServiceAccountInput>
+}
+
+export type InstanceCustomStatusUpdateManyWithWhereWithoutServiceAccountInput = {
+  where: Prisma.InstanceCustomStatusScalarWhereInput
+  data: Prisma.XOR<Prisma.InstanceCustomStatusUpdateManyMutationInput, Prisma.InstanceCustomStatusUncheckedUpdateManyWithoutServiceAccountInput>
+}
+
+export type InstanceCustomStatusCreateManyStateInput = {
+  serviceAccountId: string
+  name: string
+  meta:PrismaJson.CommonObjectMeta
+  value: string
+  message?: string | null
+  order?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type InstanceCustomStatusUpdateWithoutStateInput = {
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  meta?:PrismaJson.CommonObjectMeta
+  value?: Prisma.StringFieldUpdateOperationsInput | string
+  message?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  order?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  serviceAccount?: Prisma.ServiceAccountUpdateOneRequiredWithoutCustomStatusesNestedInput
+}
+
+export type InstanceCustomStatusUncheckedUpdateWithoutStateInput = {
+  serviceAccountId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  meta?:PrismaJson.CommonObjectMeta
+  value?: Prisma.StringFieldUpdateOperationsInput | string
+  message?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  order?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type InstanceCustomStatusUncheckedUpdateManyWithoutStateInput = {
+  serviceAccountId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  meta?:PrismaJson.CommonObjectMeta
+  value?: Prisma.StringFieldUpdateOperationsInput | string
+  message?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  order?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type InstanceCustomStatusCreateManyServiceAccountInput = {
+  stateId: string
+  name: string
+  meta:PrismaJson.CommonObjectMeta
+  value: string
+  message?: string | null
+  order?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type InstanceCustomStatusUpdateWithoutServiceAccountInput = {
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  meta?:PrismaJson.CommonObjectMeta
+  value?: Prisma.StringFieldUpdateOperationsInput | string
+  message?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  order?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  state?: Prisma.InstanceStateUpdateOneRequiredWithoutCustomStatusesNestedInput
+}
+
+export type InstanceCustomStatusUncheckedUpdateWithoutServiceAccountInput = {
+  stateId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  meta?:PrismaJson.CommonObjectMeta
+  value?: Prisma.StringFieldUpdateOperationsInput | string
+  message?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  order?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type InstanceCustomStatusUncheckedUpdateManyWithoutServiceAccountInput = {
+  stateId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  meta?:PrismaJson.CommonObjectMeta
+  value?: Prisma.StringFieldUpdateOperationsInput | string
+  message?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  order?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type InstanceCustomStatusSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  stateId?: boolean
+  serviceAccountId?: boolean
+  name?: boolean
+  meta?: boolean
+  value?: boolean
+  message?: boolean
+  order?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  state?: boolean | Prisma.InstanceStateDefaultArgs<ExtArgs>
+  serviceAccount?: boolean | Prisma.ServiceAccountDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["instanceCustomStatus"]>
+
+export type InstanceCustomStatusSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  stateId?: boolean
+  serviceAccountId?: boolean
+  name?: boolean
+  meta?: boolean
+  value?: boolean
+  message?: boolean
+  order?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  state?: boolean | Prisma.InstanceStateDefaultArgs<ExtArgs>
+  serviceAccount?: boolean | Prisma.ServiceAccountDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["instanceCustomStatus"]>
+
+export type InstanceCustomStatusSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  stateId?: boolean
+  serviceAccountId?: boolean
+  name?: boolean
+  meta?: boolean
+  value?: boolean
+  message?: boolean
+  order?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  state?: boolean | Prisma.InstanceStateDefaultArgs<ExtArgs>
+  serviceAccount?: boolean | Prisma.ServiceAccountDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["instanceCustomStatus"]>
+
+export type InstanceCustomStatusSelectScalar = {
+  stateId?: boolean
+  serviceAccountId?: boolean
+  name?: boolean
+  meta?: boolean
+  value?: boolean
+  message?: boolean
+  order?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type InstanceCustomStatusOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"stateId" | "serviceAccountId" | "name" | "meta" | "value" | "message" | "order" | "createdAt" | "updatedAt", ExtArgs["result"]["instanceCustomStatus"]>
+export type InstanceCustomStatusInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  state?: boolean | Prisma.InstanceStateDefaultArgs<ExtArgs>
+  serviceAccount?: boolean | Prisma.ServiceAccountDefaultArgs<ExtArgs>
+}
+export type InstanceCustomStatusIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  state?: boolean | Prisma.InstanceStateDefaultArgs<ExtArgs>
+  serviceAccount?: boolean | Prisma.ServiceAccountDefaultArgs<ExtArgs>
+}
+export type InstanceCustomStatusIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  state?: boolean | Prisma.InstanceStateDefaultArgs<ExtArgs>
+  serviceAccount?: boolean | Prisma.ServiceAccountDefaultArgs<ExtArgs>
+}
+
+export type $InstanceCustomStatusPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "InstanceCustomStatus"
+  objects: {
+    /**
+     * The instance this custom status belongs to.
+     */
+    state: Prisma.$InstanceStatePayload<ExtArgs>
+    /**
+     * The service account this custom status belongs to.
+     */
+    serviceAccount: Prisma.$ServiceAccountPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    /**
+     * The ID of the instance state this status belongs to.
+     */
+    stateId: string
+    /**
+     * The ID of the service account which attached this custom status.
+     */
+    serviceAccountId: string
+    /**
+     * The name of the custom status unique within the instance and service account.
+     */
+    name: string
+    /**
+     * The metadata of the custom status managed by the backend.
+     * 
+     * [CommonObjectMeta]
+     */
+    meta:PrismaJson.CommonObjectMeta
+    /**
+     * The status value of the custom status.
+     */
+    value: string
+    /**
+     * The message describing the instance's custom status.
+     * 
+     * Can be used to provide additional context or information about the status.
+     * 
+     * The message will be displayed in the 800x600 ANSI terminal in the UI,
+     * so different TUI elements should be drawn within this area.
+     */
+    message: string | null
+    /**
+     * The order of the custom status in the list of statuses.
+     * 
+     * Should be values from 0 to 100, where 0 is the highest priority.
+     * By default, the order is 50.
+     */
+    order: number
+    /**
+     * The time when the custom status was first attached to the instance.
+     */
+    createdAt: Date
+    /**
+     * The time when the custom status was last updated.
+     */
+    updatedAt: Date
+  }, ExtArgs["result"]["instanceCustomStatus"]>
+  composites: {}
+}
+
+export type InstanceCustomStatusGetPayload<S extends boolean | null | undefined | InstanceCustomStatusDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$InstanceCustomStatusPayload, S>
+
+export type InstanceCustomStatusCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<InstanceCustomStatusFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: InstanceCustomStatusCountAggregateInputType | true
+  }
+
+export interface InstanceCustomStatusDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['InstanceCustomStatus'], meta: { name: 'InstanceCustomStatus' } }
+  /**
+   * Find zero or one InstanceCustomStatus that matches the filter.
+   * @param {InstanceCustomStatusFindUniqueArgs} args - Arguments to find a InstanceCustomStatus
+   * @example
+   * // Get one InstanceCustomStatus
+   * const instanceCustomStatus = await prisma.instanceCustomStatus.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends InstanceCustomStatusFindUniqueArgs>(args: Prisma.SelectSubset<T, InstanceCustomStatusFindUniqueArgs<ExtArgs>>): Prisma.Prisma__InstanceCustomStatusClient<runtime.Types.Result.GetResult<Prisma.$InstanceCustomStatusPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one InstanceCustomStatus that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {InstanceCustomStatusFindUniqueOrThrowArgs} args - Arguments to find a InstanceCustomStatus
+   * @example
+   * // Get one InstanceCustomStatus
+   * const instanceCustomStatus = await prisma.instanceCustomStatus.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends InstanceCustomStatusFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, InstanceCustomStatusFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__InstanceCustomStatusClient<runtime.Types.Result.GetResult<Prisma.$InstanceCustomStatusPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first InstanceCustomStatus that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InstanceCustomStatusFindFirstArgs} args - Arguments to find a InstanceCustomStatus
+   * @example
+   * // Get one InstanceCustomStatus
+   * const instanceCustomStatus = await prisma.instanceCustomStatus.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends InstanceCustomStatusFindFirstArgs>(args?: Prisma.SelectSubset<T, InstanceCustomStatusFindFirstArgs<ExtArgs>>): Prisma.Prisma__InstanceCustomStatusClient<runtime.Types.Result.GetResult<Prisma.$InstanceCustomStatusPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first InstanceCustomStatus that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InstanceCustomStatusFindFirstOrThrowArgs} args - Arguments to find a InstanceCustomStatus
+   * @example
+   * // Get one InstanceCustomStatus
+   * const instanceCustomStatus = await prisma.instanceCustomStatus.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends InstanceCustomStatusFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, InstanceCustomStatusFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__InstanceCustomStatusClient<runtime.Types.Result.GetResult<Prisma.$InstanceCustomStatusPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more InstanceCustomStatuses that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InstanceCustomStatusFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all InstanceCustomStatuses
+   * const instanceCustomStatuses = await prisma.instanceCustomStatus.findMany()
+   * 
+   * // Get first 10 InstanceCustomStatuses
+   * const instanceCustomStatuses = await prisma.instanceCustomStatus.findMany({ take: 10 })
+   * 
+   * // Only select the `stateId`
+   * const instanceCustomStatusWithStateIdOnly = await prisma.instanceCustomStatus.findMany({ select: { stateId: true } })
+   * 
+   */
+  findMany<T extends InstanceCustomStatusFindManyArgs>(args?: Prisma.SelectSubset<T, InstanceCustomStatusFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InstanceCustomStatusPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a InstanceCustomStatus.
+   * @param {InstanceCustomStatusCreateArgs} args - Arguments to create a InstanceCustomStatus.
+   * @example
+   * // Create one InstanceCustomStatus
+   * const InstanceCustomStatus = await prisma.instanceCustomStatus.create({
+   *   data: {
+   *     // ... data to create a InstanceCustomStatus
+   *   }
+   * })
+   * 
+   */
+  create<T extends InstanceCustomStatusCreateArgs>(args: Prisma.SelectSubset<T, InstanceCustomStatusCreateArgs<ExtArgs>>): Prisma.Prisma__InstanceCustomStatusClient<runtime.Types.Result.GetResult<Prisma.$InstanceCustomStatusPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many InstanceCustomStatuses.
+   * @param {InstanceCustomStatusCreateManyArgs} args - Arguments to create many InstanceCustomStatuses.
+   * @example
+   * // Create many InstanceCustomStatuses
+   * const instanceCustomStatus = await prisma.instanceCustomStatus.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends InstanceCustomStatusCreateManyArgs>(args?: Prisma.SelectSubset<T, InstanceCustomStatusCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many InstanceCustomStatuses and returns the data saved in the database.
+   * @param {InstanceCustomStatusCreateManyAndReturnArgs} args - Arguments to create many InstanceCustomStatuses.
+   * @example
+   * // Create many InstanceCustomStatuses
+   * const instanceCustomStatus = await prisma.instanceCustomStatus.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many InstanceCustomStatuses and only return the `stateId`
+   * const instanceCustomStatusWithStateIdOnly = await prisma.instanceCustomStatus.createManyAndReturn({
+   *   select: { stateId: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends InstanceCustomStatusCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, InstanceCustomStatusCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InstanceCustomStatusPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a InstanceCustomStatus.
+   * @param {InstanceCustomStatusDeleteArgs} args - Arguments to delete one InstanceCustomStatus.
+   * @example
+   * // Delete one InstanceCustomStatus
+   * const InstanceCustomStatus = await prisma.instanceCustomStatus.delete({
+   *   where: {
+   *     // ... filter to delete one InstanceCustomStatus
+   *   }
+   * })
+   * 
+   */
+  delete<T extends InstanceCustomStatusDeleteArgs>(args: Prisma.SelectSubset<T, InstanceCustomStatusDeleteArgs<ExtArgs>>): Prisma.Prisma__InstanceCustomStatusClient<runtime.Types.Result.GetResult<Prisma.$InstanceCustomStatusPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one InstanceCustomStatus.
+   * @param {InstanceCustomStatusUpdateArgs} args - Arguments to update one InstanceCustomStatus.
+   * @example
+   * // Update one InstanceCustomStatus
+   * const instanceCustomStatus = await prisma.instanceCustomStatus.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends InstanceCustomStatusUpdateArgs>(args: Prisma.SelectSubset<T, InstanceCustomStatusUpdateArgs<ExtArgs>>): Prisma.Prisma__InstanceCustomStatusClient<runtime.Types.Result.GetResult<Prisma.$InstanceCustomStatusPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more InstanceCustomStatuses.
+   * @param {InstanceCustomStatusDeleteManyArgs} args - Arguments to filter InstanceCustomStatuses to delete.
+   * @example
+   * // Delete a few InstanceCustomStatuses
+   * const { count } = await prisma.instanceCustomStatus.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends InstanceCustomStatusDeleteManyArgs>(args?: Prisma.SelectSubset<T, InstanceCustomStatusDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more InstanceCustomStatuses.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InstanceCustomStatusUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many InstanceCustomStatuses
+   * const instanceCustomStatus = await prisma.instanceCustomStatus.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends InstanceCustomStatusUpdateManyArgs>(args: Prisma.SelectSubset<T, InstanceCustomStatusUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more InstanceCustomStatuses and returns the data updated in the database.
+   * @param {InstanceCustomStatusUpdateManyAndReturnArgs} args - Arguments to update many InstanceCustomStatuses.
+   * @example
+   * // Update many InstanceCustomStatuses
+   * const instanceCustomStatus = await prisma.instanceCustomStatus.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more InstanceCustomStatuses and only return the `stateId`
+   * const instanceCustomStatusWithStateIdOnly = await prisma.instanceCustomStatus.updateManyAndReturn({
+   *   select: { stateId: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends InstanceCustomStatusUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, InstanceCustomStatusUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InstanceCustomStatusPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one InstanceCustomStatus.
+   * @param {InstanceCustomStatusUpsertArgs} args - Arguments to update or create a InstanceCustomStatus.
+   * @example
+   * // Update or create a InstanceCustomStatus
+   * const instanceCustomStatus = await prisma.instanceCustomStatus.upsert({
+   *   create: {
+   *     // ... data to create a InstanceCustomStatus
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the InstanceCustomStatus we want to update
+   *   }
+   * })
+   */
+  upsert<T extends InstanceCustomStatusUpsertArgs>(args: Prisma.SelectSubset<T, InstanceCustomStatusUpsertArgs<ExtArgs>>): Prisma.Prisma__InstanceCustomStatusClient<runtime.Types.Result.GetResult<Prisma.$InstanceCustomStatusPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of InstanceCustomStatuses.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InstanceCustomStatusCountArgs} args - Arguments to filter InstanceCustomStatuses to count.
+   * @example
+   * // Count the number of InstanceCustomStatuses
+   * const count = await prisma.instanceCustomStatus.count({
+   *   where: {
+   *     // ... the filter for the InstanceCustomStatuses we want to count
+   *   }
+   * })
+  **/
+  count<T extends InstanceCustomStatusCountArgs>(
+    args?: Prisma.Subset<T, InstanceCustomStatusCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], InstanceCustomStatusCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a InstanceCustomStatus.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InstanceCustomStatusAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends InstanceCustomStatusAggregateArgs>(args: Prisma.Subset<T, InstanceCustomStatusAggregateArgs>): Prisma.PrismaPromise<GetInstanceCustomStatusAggregateType<T>>
+
+  /**
+   * Group by InstanceCustomStatus.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InstanceCustomStatusGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends InstanceCustomStatusGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: InstanceCustomStatusGroupByArgs['orderBy'] }
+      : { orderBy?: InstanceCustomStatusGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, InstanceCustomStatusGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetInstanceCustomStatusGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the InstanceCustomStatus model
+ */
+readonly fields: InstanceCustomStatusFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for InstanceCustomStatus.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__InstanceCustomStatusClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  state<T extends Prisma.InstanceStateDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InstanceStateDefaultArgs<ExtArgs>>): Prisma.Prisma__InstanceStateClient<runtime.Types.Result.GetResult<Prisma.$InstanceStatePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  serviceAccount<T extends Prisma.ServiceAccountDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ServiceAccountDefaultArgs<ExtArgs>>): Prisma.Prisma__ServiceAccountClient<runtime.Types.Result.GetResult<Prisma.$ServiceAccountPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the InstanceCustomStatus model
+ */
+export interface InstanceCustomStatusFieldRefs {
+  readonly stateId: Prisma.FieldRef<"InstanceCustomStatus", 'String'>
+  readonly serviceAccountId: Prisma.FieldRef<"InstanceCustomStatus", 'String'>
+  readonly name: Prisma.FieldRef<"InstanceCustomStatus", 'String'>
+  readonly meta: Prisma.FieldRef<"InstanceCustomStatus", 'Json'>
+  readonly value: Prisma.FieldRef<"InstanceCustomStatus", 'String'>
+  readonly message: Prisma.FieldRef<"InstanceCustomStatus", 'String'>
+  readonly order: Prisma.FieldRef<"InstanceCustomStatus", 'Int'>
+  readonly createdAt: Prisma.FieldRef<"InstanceCustomStatus", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"InstanceCustomStatus", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * InstanceCustomStatus findUnique
+ */
+export type InstanceCustomStatusFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InstanceCustomStatus
+   */
+  select?: Prisma.InstanceCustomStatusSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InstanceCustomStatus
+   */
+  omit?: Prisma.InstanceCustomStatusOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InstanceCustomStatusInclude<ExtArgs> | null
+  /**
+   * Filter, which InstanceCustomStatus to fetch.
+   */
+  where: Prisma.InstanceCustomStatusWhereUniqueInput
+}
+
+/**
+ * InstanceCustomStatus findUniqueOrThrow
+ */
+export type InstanceCustomStatusFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InstanceCustomStatus
+   */
+  select?: Prisma.InstanceCustomStatusSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InstanceCustomStatus
+   */
+  omit?: Prisma.InstanceCustomStatusOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InstanceCustomStatusInclude<ExtArgs> | null
+  /**
+   * Filter, which InstanceCustomStatus to fetch.
+   */
+  where: Prisma.InstanceCustomStatusWhereUniqueInput
+}
+
+/**
+ * InstanceCustomStatus findFirst
+ */
+export type InstanceCustomStatusFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InstanceCustomStatus
+   */
+  select?: Prisma.InstanceCustomStatusSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InstanceCustomStatus
+   */
+  omit?: Prisma.InstanceCustomStatusOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InstanceCustomStatusInclude<ExtArgs> | null
+  /**
+   * Filter, which InstanceCustomStatus to fetch.
+   */
+  where?: Prisma.InstanceCustomStatusWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of InstanceCustomStatuses to fetch.
+   */
+  orderBy?: Prisma.InstanceCustomStatusOrderByWithRelationInput | Prisma.InstanceCustomStatusOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for InstanceCustomStatuses.
+   */
+  cursor?: Prisma.InstanceCustomStatusWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` InstanceCustomStatuses from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` InstanceCustomStatuses.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of InstanceCustomStatuses.
+   */
+  distinct?: Prisma.InstanceCustomStatusScalarFieldEnum | Prisma.InstanceCustomStatusScalarFieldEnum[]
+}
+
+/**
+ * InstanceCustomStatus findFirstOrThrow
+ */
+export type InstanceCustomStatusFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InstanceCustomStatus
+   */
+  select?: Prisma.InstanceCustomStatusSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InstanceCustomStatus
+   */
+  omit?: Prisma.InstanceCustomStatusOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InstanceCustomStatusInclude<ExtArgs> | null
+  /**
+   * Filter, which InstanceCustomStatus to fetch.
+   */
+  where?: Prisma.InstanceCustomStatusWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of InstanceCustomStatuses to fetch.
+   */
+  orderBy?: Prisma.InstanceCustomStatusOrderByWithRelationInput | Prisma.InstanceCustomStatusOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for InstanceCustomStatuses.
+   */
+  cursor?: Prisma.InstanceCustomStatusWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` InstanceCustomStatuses from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` InstanceCustomStatuses.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of InstanceCustomStatuses.
+   */
+  distinct?: Prisma.InstanceCustomStatusScalarFieldEnum | Prisma.InstanceCustomStatusScalarFieldEnum[]
+}
+
+/**
+ * InstanceCustomStatus findMany
+ */
+export type InstanceCustomStatusFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InstanceCustomStatus
+   */
+  select?: Prisma.InstanceCustomStatusSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InstanceCustomStatus
+   */
+  omit?: Prisma.InstanceCustomStatusOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InstanceCustomStatusInclude<ExtArgs> | null
+  /**
+   * Filter, which InstanceCustomStatuses to fetch.
+   */
+  where?: Prisma.InstanceCustomStatusWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of InstanceCustomStatuses to fetch.
+   */
+  orderBy?: Prisma.InstanceCustomStatusOrderByWithRelationInput | Prisma.InstanceCustomStatusOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing InstanceCustomStatuses.
+   */
+  cursor?: Prisma.InstanceCustomStatusWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` InstanceCustomStatuses from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` InstanceCustomStatuses.
+   */
+  skip?: number
+  distinct?: Prisma.InstanceCustomStatusScalarFieldEnum | Prisma.InstanceCustomStatusScalarFieldEnum[]
+}
+
+/**
+ * InstanceCustomStatus create
+ */
+export type InstanceCustomStatusCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InstanceCustomStatus
+   */
+  select?: Prisma.InstanceCustomStatusSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InstanceCustomStatus
+   */
+  omit?: Prisma.InstanceCustomStatusOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InstanceCustomStatusInclude<ExtArgs> | null
+  /**
+   * The data needed to create a InstanceCustomStatus.
+   */
+  data: Prisma.XOR<Prisma.InstanceCustomStatusCreateInput, Prisma.InstanceCustomStatusUncheckedCreateInput>
+}
+
+/**
+ * InstanceCustomStatus createMany
+ */
+export type InstanceCustomStatusCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many InstanceCustomStatuses.
+   */
+  data: Prisma.InstanceCustomStatusCreateManyInput | Prisma.InstanceCustomStatusCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * InstanceCustomStatus createManyAndReturn
+ */
+export type InstanceCustomStatusCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InstanceCustomStatus
+   */
+  select?: Prisma.InstanceCustomStatusSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the InstanceCustomStatus
+   */
+  omit?: Prisma.InstanceCustomStatusOmit<ExtArgs> | null
+  /**
+   * The data used to create many InstanceCustomStatuses.
+   */
+  data: Prisma.InstanceCustomStatusCreateManyInput | Prisma.InstanceCustomStatusCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InstanceCustomStatusIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * InstanceCustomStatus update
+ */
+export type InstanceCustomStatusUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InstanceCustomStatus
+   */
+  select?: Prisma.InstanceCustomStatusSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InstanceCustomStatus
+   */
+  omit?: Prisma.InstanceCustomStatusOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InstanceCustomStatusInclude<ExtArgs> | null
+  /**
+   * The data needed to update a InstanceCustomStatus.
+   */
+  data: Prisma.XOR<Prisma.InstanceCustomStatusUpdateInput, Prisma.InstanceCustomStatusUncheckedUpdateInput>
+  /**
+   * Choose, which InstanceCustomStatus to update.
+   */
+  where: Prisma.InstanceCustomStatusWhereUniqueInput
+}
+
+/**
+ * InstanceCustomStatus updateMany
+ */
+export type InstanceCustomStatusUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update InstanceCustomStatuses.
+   */
+  data: Prisma.XOR<Prisma.InstanceCustomStatusUpdateManyMutationInput, Prisma.InstanceCustomStatusUncheckedUpdateManyInput>
+  /**
+   * Filter which InstanceCustomStatuses to update
+   */
+  where?: Prisma.InstanceCustomStatusWhereInput
+  /**
+   * Limit how many InstanceCustomStatuses to update.
+   */
+  limit?: number
+}
+
+/**
+ * InstanceCustomStatus updateManyAndReturn
+ */
+export type InstanceCustomStatusUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InstanceCustomStatus
+   */
+  select?: Prisma.InstanceCustomStatusSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the InstanceCustomStatus
+   */
+  omit?: Prisma.InstanceCustomStatusOmit<ExtArgs> | null
+  /**
+   * The data used to update InstanceCustomStatuses.
+   */
+  data: Prisma.XOR<Prisma.InstanceCustomStatusUpdateManyMutationInput, Prisma.InstanceCustomStatusUncheckedUpdateManyInput>
+  /**
+   * Filter which InstanceCustomStatuses to update
+   */
+  where?: Prisma.InstanceCustomStatusWhereInput
+  /**
+   * Limit how many InstanceCustomStatuses to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InstanceCustomStatusIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * InstanceCustomStatus upsert
+ */
+export type InstanceCustomStatusUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InstanceCustomStatus
+   */
+  select?: Prisma.InstanceCustomStatusSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InstanceCustomStatus
+   */
+  omit?: Prisma.InstanceCustomStatusOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InstanceCustomStatusInclude<ExtArgs> | null
+  /**
+   * The filter to search for the InstanceCustomStatus to update in case it exists.
+   */
+  where: Prisma.InstanceCustomStatusWhereUniqueInput
+  /**
+   * In case the InstanceCustomStatus found by the `where` argument doesn't exist, create a new InstanceCustomStatus with this data.
+   */
+  create: Prisma.XOR<Prisma.InstanceCustomStatusCreateInput, Prisma.InstanceCustomStatusUncheckedCreateInput>
+  /**
+   * In case the InstanceCustomStatus was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.InstanceCustomStatusUpdateInput, Prisma.InstanceCustomStatusUncheckedUpdateInput>
+}
+
+/**
+ * InstanceCustomStatus delete
+ */
+export type InstanceCustomStatusDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InstanceCustomStatus
+   */
+  select?: Prisma.InstanceCustomStatusSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InstanceCustomStatus
+   */
+  omit?: Prisma.InstanceCustomStatusOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InstanceCustomStatusInclude<ExtArgs> | null
+  /**
+   * Filter which InstanceCustomStatus to delete.
+   */
+  where: Prisma.InstanceCustomStatusWhereUniqueInput
+}
+
+/**
+ * InstanceCustomStatus deleteMany
+ */
+export type InstanceCustomStatusDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which InstanceCustomStatuses to delete
+   */
+  where?: Prisma.InstanceCustomStatusWhereInput
+  /**
+   * Limit how many InstanceCustomStatuses to delete.
+   */
+  limit?: number
+}
+
+/**
+ * InstanceCustomStatus without action
+ */
+export type InstanceCustomStatusDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InstanceCustomStatus
+   */
+  select?: Prisma.InstanceCustomStatusSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InstanceCustomStatus
+   */
+  omit?: Prisma.InstanceCustomStatusOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InstanceCustomStatusInclude<ExtArgs> | null
+}
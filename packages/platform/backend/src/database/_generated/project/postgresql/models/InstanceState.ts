@@ -0,0 +1,5471 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `InstanceState` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+
+import type * as PJTG from '../pjtg.ts';
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.ts"
+import type * as Prisma from "../internal/prismaNamespace.ts"
+
+/**
+ * Model InstanceState
+ * 
+ */
+export type InstanceStateModel = runtime.Types.Result.DefaultSelection<Prisma.$InstanceStatePayload>
+
+export type AggregateInstanceState = {
+  _count: InstanceStateCountAggregateOutputType | null
+  _avg: InstanceStateAvgAggregateOutputType | null
+  _sum: InstanceStateSumAggregateOutputType | null
+  _min: InstanceStateMinAggregateOutputType | null
+  _max: InstanceStateMaxAggregateOutputType | null
+}
+
+export type InstanceStateAvgAggregateOutputType = {
+  inputHashNonce: number | null
+  selfHash: number | null
+  inputHash: number | null
+  outputHash: number | null
+  dependencyOutputHash: number | null
+  currentResourceCount: number | null
+}
+
+export type InstanceStateSumAggregateOutputType = {
+  inputHashNonce: number | null
+  selfHash: number | null
+  inputHash: number | null
+  outputHash: number | null
+  dependencyOutputHash: number | null
+  currentResourceCount: number | null
+}
+
+export type InstanceStateMinAggregateOutputType = {
+  id: string | null
+  instanceId: string | null
+  status: $Enums.InstanceStatus | null
+  source: $Enums.InstanceSource | null
+  kind: string | null
+  parentId: string | null
+  inputHashNonce: number | null
+  selfHash: number | null
+  inputHash: number | null
+  outputHash: number | null
+  dependencyOutputHash: number | null
+  currentResourceCount: number | null
+  hasResourceHooks: boolean | null
+  lastEditedBy: string | null
+  lastEditedAt: Date | null
+}
+
+export type InstanceStateMaxAggregateOutputType = {
+  id: string | null
+  instanceId: string | null
+  status: $Enums.InstanceStatus | null
+  source: $Enums.InstanceSource | null
+  kind: string | null
+  parentId: string | null
+  inputHashNonce: number | null
+  selfHash: number | null
+  inputHash: number | null
+  outputHash: number | null
+  dependencyOutputHash: number | null
+  currentResourceCount: number | null
+  hasResourceHooks: boolean | null
+  lastEditedBy: string | null
+  lastEditedAt: Date | null
+}
+
+export type InstanceStateCountAggregateOutputType = {
+  id: number
+  instanceId: number
+  status: number
+  source: number
+  kind: number
+  parentId: number
+  inputHashNonce: number
+  selfHash: number
+  inputHash: number
+  outputHash: number
+  dependencyOutputHash: number
+  exportedArtifactIds: number
+  model: number
+  resolvedInputs: number
+  currentResourceCount: number
+  statusFields: number
+  hasResourceHooks: number
+  lastEditedBy: number
+  lastEditedAt: number
+  _all: number
+}
+
+
+export type InstanceStateAvgAggregateInputType = {
+  inputHashNonce?: true
+  selfHash?: true
+  inputHash?: true
+  outputHash?: true
+  dependencyOutputHash?: true
+  currentResourceCount?: true
+}
+
+export type InstanceStateSumAggregateInputType = {
+  inputHashNonce?: true
+  selfHash?: true
+  inputHash?: true
+  outputHash?: true
+  dependencyOutputHash?: true
+  currentResourceCount?: true
+}
+
+export type InstanceStateMinAggregateInputType = {
+  id?: true
+  instanceId?: true
+  status?: true
+  source?: true
+  kind?: true
+  parentId?: true
+  inputHashNonce?: true
+  selfHash?: true
+  inputHash?: true
+  outputHash?: true
+  dependencyOutputHash?: true
+  currentResourceCount?: true
+  hasResourceHooks?: true
+  lastEditedBy?: true
+  lastEditedAt?: true
+}
+
+export type InstanceStateMaxAggregateInputType = {
+  id?: true
+  instanceId?: true
+  status?: true
+  source?: true
+  kind?: true
+  parentId?: true
+  inputHashNonce?: true
+  selfHash?: true
+  inputHash?: true
+  outputHash?: true
+  dependencyOutputHash?: true
+  currentResourceCount?: true
+  hasResourceHooks?: true
+  lastEditedBy?: true
+  lastEditedAt?: true
+}
+
+export type InstanceStateCountAggregateInputType = {
+  id?: true
+  instanceId?: true
+  status?: true
+  source?: true
+  kind?: true
+  parentId?: true
+  inputHashNonce?: true
+  selfHash?: true
+  inputHash?: true
+  outputHash?: true
+  dependencyOutputHash?: true
+  exportedArtifactIds?: true
+  model?: true
+  resolvedInputs?: true
+  currentResourceCount?: true
+  statusFields?: true
+  hasResourceHooks?: true
+  lastEditedBy?: true
+  lastEditedAt?: true
+  _all?: true
+}
+
+export type InstanceStateAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which InstanceState to aggregate.
+   */
+  where?: Prisma.InstanceStateWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of InstanceStates to fetch.
+   */
+  orderBy?: Prisma.InstanceStateOrderByWithRelationInput | Prisma.InstanceStateOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.InstanceStateWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` InstanceStates from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` InstanceStates.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned InstanceStates
+  **/
+  _count?: true | InstanceStateCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: InstanceStateAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: InstanceStateSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: InstanceStateMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: InstanceStateMaxAggregateInputType
+}
+
+export type GetInstanceStateAggregateType<T extends InstanceStateAggregateArgs> = {
+      [P in keyof T & keyof AggregateInstanceState]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateInstanceState[P]>
+    : Prisma.GetScalarType<T[P], AggregateInstanceState[P]>
+}
+
+
+
+
+export type InstanceStateGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.InstanceStateWhereInput
+  orderBy?: Prisma.InstanceStateOrderByWithAggregationInput | Prisma.InstanceStateOrderByWithAggregationInput[]
+  by: Prisma.InstanceStateScalarFieldEnum[] | Prisma.InstanceStateScalarFieldEnum
+  having?: Prisma.InstanceStateScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: InstanceStateCountAggregateInputType | true
+  _avg?: InstanceStateAvgAggregateInputType
+  _sum?: InstanceStateSumAggregateInputType
+  _min?: InstanceStateMinAggregateInputType
+  _max?: InstanceStateMaxAggregateInputType
+}
+
+export type InstanceStateGroupByOutputType = {
+  id: string
+  instanceId:PrismaJson.InstanceId
+  status: $Enums.InstanceStatus
+  source: $Enums.InstanceSource
+  kind:PrismaJson.InstanceKind
+  parentId: string | null
+  inputHashNonce: number | null
+  selfHash: number | null
+  inputHash: number | null
+  outputHash: number | null
+  dependencyOutputHash: number | null
+  exportedArtifactIds:PrismaJson.InstanceArtifactIds | null
+  model:PrismaJson.InstanceModel | null
+  resolvedInputs:PrismaJson.InstanceResolvedInputs | null
+  currentResourceCount: number | null
+  statusFields:PrismaJson.InstanceStatusFields | null
+  hasResourceHooks: boolean
+  lastEditedBy: string | null
+  lastEditedAt: Date | null
+  _count: InstanceStateCountAggregateOutputType | null
+  _avg: InstanceStateAvgAggregateOutputType | null
+  _sum: InstanceStateSumAggregateOutputType | null
+  _min: InstanceStateMinAggregateOutputType | null
+  _max: InstanceStateMaxAggregateOutputType | null
+}
+
+type GetInstanceStateGroupByPayload<T extends InstanceStateGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<InstanceStateGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof InstanceStateGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], InstanceStateGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], InstanceStateGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type InstanceStateWhereInput = {
+  AND?: Prisma.InstanceStateWhereInput | Prisma.InstanceStateWhereInput[]
+  OR?: Prisma.InstanceStateWhereInput[]
+  NOT?: Prisma.InstanceStateWhereInput | Prisma.InstanceStateWhereInput[]
+  id?: Prisma.StringFilter<"InstanceState"> | string
+  instanceId?: Prisma.StringFilter<"InstanceState"> | string
+  status?: Prisma.EnumInstanceStatusFilter<"InstanceState"> | $Enums.InstanceStatus
+  source?: Prisma.EnumInstanceSourceFilter<"InstanceState"> | $Enums.InstanceSource
+  kind?: Prisma.StringFilter<"InstanceState"> | string
+  parentId?: Prisma.StringNullableFilter<"InstanceState"> | string | null
+  inputHashNonce?: Prisma.IntNullableFilter<"InstanceState"> | number | null
+  selfHash?: Prisma.IntNullableFilter<"InstanceState"> | number | null
+  inputHash?: Prisma.IntNullableFilter<"InstanceState"> | number | null
+  outputHash?: Prisma.IntNullableFilter<"InstanceState"> | number | null
+  dependencyOutputHash?: Prisma.IntNullableFilter<"InstanceState"> | number | null
+  exportedArtifactIds?: Prisma.JsonNullableFilter<"InstanceState">
+  model?: Prisma.JsonNullableFilter<"InstanceState">
+  resolvedInputs?: Prisma.JsonNullableFilter<"InstanceState">
+  currentResourceCount?: Prisma.IntNullableFilter<"InstanceState"> | number | null
+  statusFields?: Prisma.JsonNullableFilter<"InstanceState">
+  hasResourceHooks?: Prisma.BoolFilter<"InstanceState"> | boolean
+  lastEditedBy?: Prisma.StringNullableFilter<"InstanceState"> | string | null
+  lastEditedAt?: Prisma.DateTimeNullableFilter<"InstanceState"> | Date | string | null
+  parent?: Prisma.XOR<Prisma.InstanceStateNullableScalarRelationFilter, Prisma.InstanceStateWhereInput> | null
+  children?: Prisma.InstanceStateListRelationFilter
+  evaluationState?: Prisma.XOR<Prisma.InstanceEvaluationStateNullableScalarRelationFilter, Prisma.InstanceEvaluationStateWhereInput> | null
+  operationStates?: Prisma.InstanceOperationStateListRelationFilter
+  secrets?: Prisma.SecretListRelationFilter
+  terminals?: Prisma.TerminalListRelationFilter
+  pages?: Prisma.PageListRelationFilter
+  triggers?: Prisma.TriggerListRelationFilter
+  customStatuses?: Prisma.InstanceCustomStatusListRelationFilter
+  lock?: Prisma.XOR<Prisma.InstanceLockNullableScalarRelationFilter, Prisma.InstanceLockWhereInput> | null
+  workerRegistrations?: Prisma.WorkerUnitRegistrationListRelationFilter
+  serviceAccountGrants?: Prisma.ServiceAccountGrantListRelationFilter
+  artifacts?: Prisma.ArtifactListRelationFilter
+  operationLogs?: Prisma.OperationLogListRelationFilter
+  userViewports?: Prisma.UserCompositeViewportListRelationFilter
+  entitySnapshots?: Prisma.EntitySnapshotListRelationFilter
+}
+
+export type InstanceStateOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  instanceId?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  source?: Prisma.SortOrder
+  kind?: Prisma.SortOrder
+  parentId?: Prisma.SortOrderInput | Prisma.SortOrder
+  inputHashNonce?: Prisma.SortOrderInput | Prisma.SortOrder
+  selfHash?: Prisma.SortOrderInput | Prisma.SortOrder
+  inputHash?: Prisma.SortOrderInput | Prisma.SortOrder
+  outputHash?: Prisma.SortOrderInput | Prisma.SortOrder
+  dependencyOutputHash?: Prisma.SortOrderInput | Prisma.SortOrder
+  exportedArtifactIds?: Prisma.SortOrderInput | Prisma.SortOrder
+  model?: Prisma.SortOrderInput | Prisma.SortOrder
+  resolvedInputs?: Prisma.SortOrderInput | Prisma.SortOrder
+  currentResourceCount?: Prisma.SortOrderInput | Prisma.SortOrder
+  statusFields?: Prisma.SortOrderInput | Prisma.SortOrder
+  hasResourceHooks?: Prisma.SortOrder
+  lastEditedBy?: Prisma.SortOrderInput | Prisma.SortOrder
+  lastEditedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  parent?: Prisma.InstanceStateOrderByWithRelationInput
+  children?: Prisma.InstanceStateOrderByRelationAggregateInput
+  evaluationState?: Prisma.InstanceEvaluationStateOrderByWithRelationInput
+  operationStates?: Prisma.InstanceOperationStateOrderByRelationAggregateInput
+  secrets?: Prisma.SecretOrderByRelationAggregateInput
+  terminals?: Prisma.TerminalOrderByRelationAggregateInput
+  pages?: Prisma.PageOrderByRelationAggregateInput
+  triggers?: Prisma.TriggerOrderByRelationAggregateInput
+  customStatuses?: Prisma.InstanceCustomStatusOrderByRelationAggregateInput
+  lock?: Prisma.InstanceLockOrderByWithRelationInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationOrderByRelationAggregateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantOrderByRelationAggregateInput
+  artifacts?: Prisma.ArtifactOrderByRelationAggregateInput
+  operationLogs?: Prisma.OperationLogOrderByRelationAggregateInput
+  userViewports?: Prisma.UserCompositeViewportOrderByRelationAggregateInput
+  entitySnapshots?: Prisma.EntitySnapshotOrderByRelationAggregateInput
+}
+
+export type InstanceStateWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  instanceId?: string
+  AND?: Prisma.InstanceStateWhereInput | Prisma.InstanceStateWhereInput[]
+  OR?: Prisma.InstanceStateWhereInput[]
+  NOT?: Prisma.InstanceStateWhereInput | Prisma.InstanceStateWhereInput[]
+  status?: Prisma.EnumInstanceStatusFilter<"InstanceState"> | $Enums.InstanceStatus
+  source?: Prisma.EnumInstanceSourceFilter<"InstanceState"> | $Enums.InstanceSource
+  kind?: Prisma.StringFilter<"InstanceState"> | string
+  parentId?: Prisma.StringNullableFilter<"InstanceState"> | string | null
+  inputHashNonce?: Prisma.IntNullableFilter<"InstanceState"> | number | null
+  selfHash?: Prisma.IntNullableFilter<"InstanceState"> | number | null
+  inputHash?: Prisma.IntNullableFilter<"InstanceState"> | number | null
+  outputHash?: Prisma.IntNullableFilter<"InstanceState"> | number | null
+  dependencyOutputHash?: Prisma.IntNullableFilter<"InstanceState"> | number | null
+  exportedArtifactIds?: Prisma.JsonNullableFilter<"InstanceState">
+  model?: Prisma.JsonNullableFilter<"InstanceState">
+  resolvedInputs?: Prisma.JsonNullableFilter<"InstanceState">
+  currentResourceCount?: Prisma.IntNullableFilter<"InstanceState"> | number | null
+  statusFields?: Prisma.JsonNullableFilter<"InstanceState">
+  hasResourceHooks?: Prisma.BoolFilter<"InstanceState"> | boolean
+  lastEditedBy?: Prisma.StringNullableFilter<"InstanceState"> | string | null
+  lastEditedAt?: Prisma.DateTimeNullableFilter<"InstanceState"> | Date | string | null
+  parent?: Prisma.XOR<Prisma.InstanceStateNullableScalarRelationFilter, Prisma.InstanceStateWhereInput> | null
+  children?: Prisma.InstanceStateListRelationFilter
+  evaluationState?: Prisma.XOR<Prisma.InstanceEvaluationStateNullableScalarRelationFilter, Prisma.InstanceEvaluationStateWhereInput> | null
+  operationStates?: Prisma.InstanceOperationStateListRelationFilter
+  secrets?: Prisma.SecretListRelationFilter
+  terminals?: Prisma.TerminalListRelationFilter
+  pages?: Prisma.PageListRelationFilter
+  triggers?: Prisma.TriggerListRelationFilter
+  customStatuses?: Prisma.InstanceCustomStatusListRelationFilter
+  lock?: Prisma.XOR<Prisma.InstanceLockNullableScalarRelationFilter, Prisma.InstanceLockWhereInput> | null
+  workerRegistrations?: Prisma.WorkerUnitRegistrationListRelationFilter
+  serviceAccountGrants?: Prisma.ServiceAccountGrantListRelationFilter
+  artifacts?: Prisma.ArtifactListRelationFilter
+  operationLogs?: Prisma.OperationLogListRelationFilter
+  userViewports?: Prisma.UserCompositeViewportListRelationFilter
+  entitySnapshots?: Prisma.EntitySnapshotListRelationFilter
+}, "id" | "instanceId">
+
+export type InstanceStateOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  instanceId?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  source?: Prisma.SortOrder
+  kind?: Prisma.SortOrder
+  parentId?: Prisma.SortOrderInput | Prisma.SortOrder
+  inputHashNonce?: Prisma.SortOrderInput | Prisma.SortOrder
+  selfHash?: Prisma.SortOrderInput | Prisma.SortOrder
+  inputHash?: Prisma.SortOrderInput | Prisma.SortOrder
+  outputHash?: Prisma.SortOrderInput | Prisma.SortOrder
+  dependencyOutputHash?: Prisma.SortOrderInput | Prisma.SortOrder
+  exportedArtifactIds?: Prisma.SortOrderInput | Prisma.SortOrder
+  model?: Prisma.SortOrderInput | Prisma.SortOrder
+  resolvedInputs?: Prisma.SortOrderInput | Prisma.SortOrder
+  currentResourceCount?: Prisma.SortOrderInput | Prisma.SortOrder
+  statusFields?: Prisma.SortOrderInput | Prisma.SortOrder
+  hasResourceHooks?: Prisma.SortOrder
+  lastEditedBy?: Prisma.SortOrderInput | Prisma.SortOrder
+  lastEditedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  _count?: Prisma.InstanceStateCountOrderByAggregateInput
+  _avg?: Prisma.InstanceStateAvgOrderByAggregateInput
+  _max?: Prisma.InstanceStateMaxOrderByAggregateInput
+  _min?: Prisma.InstanceStateMinOrderByAggregateInput
+  _sum?: Prisma.InstanceStateSumOrderByAggregateInput
+}
+
+export type InstanceStateScalarWhereWithAggregatesInput = {
+  AND?: Prisma.InstanceStateScalarWhereWithAggregatesInput | Prisma.InstanceStateScalarWhereWithAggregatesInput[]
+  OR?: Prisma.InstanceStateScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.InstanceStateScalarWhereWithAggregatesInput | Prisma.InstanceStateScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"InstanceState"> | string
+  instanceId?: Prisma.StringWithAggregatesFilter<"InstanceState"> | string
+  status?: Prisma.EnumInstanceStatusWithAggregatesFilter<"InstanceState"> | $Enums.InstanceStatus
+  source?: Prisma.EnumInstanceSourceWithAggregatesFilter<"InstanceState"> | $Enums.InstanceSource
+  kind?: Prisma.StringWithAggregatesFilter<"InstanceState"> | string
+  parentId?: Prisma.StringNullableWithAggregatesFilter<"InstanceState"> | string | null
+  inputHashNonce?: Prisma.IntNullableWithAggregatesFilter<"InstanceState"> | number | null
+  selfHash?: Prisma.IntNullableWithAggregatesFilter<"InstanceState"> | number | null
+  inputHash?: Prisma.IntNullableWithAggregatesFilter<"InstanceState"> | number | null
+  outputHash?: Prisma.IntNullableWithAggregatesFilter<"InstanceState"> | number | null
+  dependencyOutputHash?: Prisma.IntNullableWithAggregatesFilter<"InstanceState"> | number | null
+  exportedArtifactIds?: Prisma.JsonNullableWithAggregatesFilter<"InstanceState">
+  model?: Prisma.JsonNullableWithAggregatesFilter<"InstanceState">
+  resolvedInputs?: Prisma.JsonNullableWithAggregatesFilter<"InstanceState">
+  currentResourceCount?: Prisma.IntNullableWithAggregatesFilter<"InstanceState"> | number | null
+  statusFields?: Prisma.JsonNullableWithAggregatesFilter<"InstanceState">
+  hasResourceHooks?: Prisma.BoolWithAggregatesFilter<"InstanceState"> | boolean
+  lastEditedBy?: Prisma.StringNullableWithAggregatesFilter<"InstanceState"> | string | null
+  lastEditedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"InstanceState"> | Date | string | null
+}
+
+export type InstanceStateCreateInput = {
+  id?: string
+  instanceId:PrismaJson.InstanceId
+  status: $Enums.InstanceStatus
+  source: $Enums.InstanceSource
+  kind:PrismaJson.InstanceKind
+  inputHashNonce?: number | null
+  selfHash?: number | null
+  inputHash?: number | null
+  outputHash?: number | null
+  dependencyOutputHash?: number | null
+  exportedArtifactIds?:PrismaJson.InstanceArtifactIds | Prisma.NullableJsonNullValueInput
+  model?:PrismaJson.InstanceModel | Prisma.NullableJsonNullValueInput
+  resolvedInputs?:PrismaJson.InstanceResolvedInputs | Prisma.NullableJsonNullValueInput
+  currentResourceCount?: number | null
+  statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
+  hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
+  parent?: Prisma.InstanceStateCreateNestedOneWithoutChildrenInput
+  children?: Prisma.InstanceStateCreateNestedManyWithoutParentInput
+  evaluationState?: Prisma.InstanceEvaluationStateCreateNestedOneWithoutStateInput
+  operationStates?: Prisma.InstanceOperationStateCreateNestedManyWithoutStateInput
+  secrets?: Prisma.SecretCreateNestedManyWithoutStateInput
+  terminals?: Prisma.TerminalCreateNestedManyWithoutStateInput
+  pages?: Prisma.PageCreateNestedManyWithoutStateInput
+  triggers?: Prisma.TriggerCreateNestedManyWithoutStateInput
+  customStatuses?: Prisma.InstanceCustomStatusCreateNestedManyWithoutStateInput
+  lock?: Prisma.InstanceLockCreateNestedOneWithoutStateInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantCreateNestedManyWithoutStateInput
+  artifacts?: Prisma.ArtifactCreateNestedManyWithoutInstancesInput
+  operationLogs?: Prisma.OperationLogCreateNestedManyWithoutStateInput
+  userViewports?: Prisma.UserCompositeViewportCreateNestedManyWithoutStateInput
+  entitySnapshots?: Prisma.EntitySnapshotCreateNestedManyWithoutStateInput
+}
+
+export type InstanceStateUncheckedCreateInput = {
+  id?: string
+  instanceId:PrismaJson.InstanceId
+  status: $Enums.InstanceStatus
+  source: $Enums.InstanceSource
+  kind:PrismaJson.InstanceKind
+  parentId?: string | null
+  inputHashNonce?: number | null
+  selfHash?: number | null
+  inputHash?: number | null
+  outputHash?: number | null
+  dependencyOutputHash?: number | null
+  exportedArtifactIds?:PrismaJson.InstanceArtifactIds | Prisma.NullableJsonNullValueInput
+  model?:PrismaJson.InstanceModel | Prisma.NullableJsonNullValueInput
+  resolvedInputs?:PrismaJson.InstanceResolvedInputs | Prisma.NullableJsonNullValueInput
+  currentResourceCount?: number | null
+  statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
+  hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
+  children?: Prisma.InstanceStateUncheckedCreateNestedManyWithoutParentInput
+  evaluationState?: Prisma.InstanceEvaluationStateUncheckedCreateNestedOneWithoutStateInput
+  operationStates?: Prisma.InstanceOperationStateUncheckedCreateNestedManyWithoutStateInput
+  secrets?: Prisma.SecretUncheckedCreateNestedManyWithoutStateInput
+  terminals?: Prisma.TerminalUncheckedCreateNestedManyWithoutStateInput
+  pages?: Prisma.PageUncheckedCreateNestedManyWithoutStateInput
+  triggers?: Prisma.TriggerUncheckedCreateNestedManyWithoutStateInput
+  customStatuses?: Prisma.InstanceCustomStatusUncheckedCreateNestedManyWithoutStateInput
+  lock?: Prisma.InstanceLockUncheckedCreateNestedOneWithoutStateInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedCreateNestedManyWithoutStateInput
+  artifacts?: Prisma.ArtifactUncheckedCreateNestedManyWithoutInstancesInput
+  operationLogs?: Prisma.OperationLogUncheckedCreateNestedManyWithoutStateInput
+  userViewports?: Prisma.UserCompositeViewportUncheckedCreateNestedManyWithoutStateInput
+  entitySnapshots?: Prisma.EntitySnapshotUncheckedCreateNestedManyWithoutStateInput
+}
+
+export type InstanceStateUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  instanceId?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumInstanceStatusFieldUpdateOperationsInput | $Enums.InstanceStatus
+  source?: Prisma.EnumInstanceSourceFieldUpdateOperationsInput | $Enums.InstanceSource
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  inputHashNonce?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  selfHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  inputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  outputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  dependencyOutputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  exportedArtifactIds?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  model?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  resolvedInputs?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  parent?: Prisma.InstanceStateUpdateOneWithoutChildrenNestedInput
+  children?: Prisma.InstanceStateUpdateManyWithoutParentNestedInput
+  evaluationState?: Prisma.InstanceEvaluationStateUpdateOneWithoutStateNestedInput
+  operationStates?: Prisma.InstanceOperationStateUpdateManyWithoutStateNestedInput
+  secrets?: Prisma.SecretUpdateManyWithoutStateNestedInput
+  terminals?: Prisma.TerminalUpdateManyWithoutStateNestedInput
+  pages?: Prisma.PageUpdateManyWithoutStateNestedInput
+  triggers?: Prisma.TriggerUpdateManyWithoutStateNestedInput
+  customStatuses?: Prisma.InstanceCustomStatusUpdateManyWithoutStateNestedInput
+  lock?: Prisma.InstanceLockUpdateOneWithoutStateNestedInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUpdateManyWithoutStateNestedInput
+  artifacts?: Prisma.ArtifactUpdateManyWithoutInstancesNestedInput
+  operationLogs?: Prisma.OperationLogUpdateManyWithoutStateNestedInput
+  userViewports?: Prisma.UserCompositeViewportUpdateManyWithoutStateNestedInput
+  entitySnapshots?: Prisma.EntitySnapshotUpdateManyWithoutStateNestedInput
+}
+
+export type InstanceStateUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  instanceId?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumInstanceStatusFieldUpdateOperationsInput | $Enums.InstanceStatus
+  source?: Prisma.EnumInstanceSourceFieldUpdateOperationsInput | $Enums.InstanceSource
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  parentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  inputHashNonce?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  selfHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  inputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  outputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  dependencyOutputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  exportedArtifactIds?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  model?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  resolvedInputs?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  children?: Prisma.InstanceStateUncheckedUpdateManyWithoutParentNestedInput
+  evaluationState?: Prisma.InstanceEvaluationStateUncheckedUpdateOneWithoutStateNestedInput
+  operationStates?: Prisma.InstanceOperationStateUncheckedUpdateManyWithoutStateNestedInput
+  secrets?: Prisma.SecretUncheckedUpdateManyWithoutStateNestedInput
+  terminals?: Prisma.TerminalUncheckedUpdateManyWithoutStateNestedInput
+  pages?: Prisma.PageUncheckedUpdateManyWithoutStateNestedInput
+  triggers?: Prisma.TriggerUncheckedUpdateManyWithoutStateNestedInput
+  customStatuses?: Prisma.InstanceCustomStatusUncheckedUpdateManyWithoutStateNestedInput
+  lock?: Prisma.InstanceLockUncheckedUpdateOneWithoutStateNestedInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedUpdateManyWithoutStateNestedInput
+  artifacts?: Prisma.ArtifactUncheckedUpdateManyWithoutInstancesNestedInput
+  operationLogs?: Prisma.OperationLogUncheckedUpdateManyWithoutStateNestedInput
+  userViewports?: Prisma.UserCompositeViewportUncheckedUpdateManyWithoutStateNestedInput
+  entitySnapshots?: Prisma.EntitySnapshotUncheckedUpdateManyWithoutStateNestedInput
+}
+
+export type InstanceStateCreateManyInput = {
+  id?: string
+  instanceId:PrismaJson.InstanceId
+  status: $Enums.InstanceStatus
+  source: $Enums.InstanceSource
+  kind:PrismaJson.InstanceKind
+  parentId?: string | null
+  inputHashNonce?: number | null
+  selfHash?: number | null
+  inputHash?: number | null
+  outputHash?: number | null
+  dependencyOutputHash?: number | null
+  exportedArtifactIds?:PrismaJson.InstanceArtifactIds | Prisma.NullableJsonNullValueInput
+  model?:PrismaJson.InstanceModel | Prisma.NullableJsonNullValueInput
+  resolvedInputs?:PrismaJson.InstanceResolvedInputs | Prisma.NullableJsonNullValueInput
+  currentResourceCount?: number | null
+  statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
+  hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
+}
+
+export type InstanceStateUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  instanceId?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumInstanceStatusFieldUpdateOperationsInput | $Enums.InstanceStatus
+  source?: Prisma.EnumInstanceSourceFieldUpdateOperationsInput | $Enums.InstanceSource
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  inputHashNonce?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  selfHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  inputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  outputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  dependencyOutputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  exportedArtifactIds?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  model?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  resolvedInputs?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type InstanceStateUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  instanceId?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumInstanceStatusFieldUpdateOperationsInput | $Enums.InstanceStatus
+  source?: Prisma.EnumInstanceSourceFieldUpdateOperationsInput | $Enums.InstanceSource
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  parentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  inputHashNonce?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  selfHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  inputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  outputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  dependencyOutputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  exportedArtifactIds?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  model?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  resolvedInputs?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type InstanceStateListRelationFilter = {
+  every?: Prisma.InstanceStateWhereInput
+  some?: Prisma.InstanceStateWhereInput
+  none?: Prisma.InstanceStateWhereInput
+}
+
+export type InstanceStateOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type InstanceStateScalarRelationFilter = {
+  is?: Prisma.InstanceStateWhereInput
+  isNot?: Prisma.InstanceStateWhereInput
+}
+
+export type InstanceStateNullableScalarRelationFilter = {
+  is?: Prisma.InstanceStateWhereInput | null
+  isNot?: Prisma.InstanceStateWhereInput | null
+}
+
+export type InstanceStateCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  instanceId?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  source?: Prisma.SortOrder
+  kind?: Prisma.SortOrder
+  parentId?: Prisma.SortOrder
+  inputHashNonce?: Prisma.SortOrder
+  selfHash?: Prisma.SortOrder
+  inputHash?: Prisma.SortOrder
+  outputHash?: Prisma.SortOrder
+  dependencyOutputHash?: Prisma.SortOrder
+  exportedArtifactIds?: Prisma.SortOrder
+  model?: Prisma.SortOrder
+  resolvedInputs?: Prisma.SortOrder
+  currentResourceCount?: Prisma.SortOrder
+  statusFields?: Prisma.SortOrder
+  hasResourceHooks?: Prisma.SortOrder
+  lastEditedBy?: Prisma.SortOrder
+  lastEditedAt?: Prisma.SortOrder
+}
+
+export type InstanceStateAvgOrderByAggregateInput = {
+  inputHashNonce?: Prisma.SortOrder
+  selfHash?: Prisma.SortOrder
+  inputHash?: Prisma.SortOrder
+  outputHash?: Prisma.SortOrder
+  dependencyOutputHash?: Prisma.SortOrder
+  currentResourceCount?: Prisma.SortOrder
+}
+
+export type InstanceStateMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  instanceId?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  source?: Prisma.SortOrder
+  kind?: Prisma.SortOrder
+  parentId?: Prisma.SortOrder
+  inputHashNonce?: Prisma.SortOrder
+  selfHash?: Prisma.SortOrder
+  inputHash?: Prisma.SortOrder
+  outputHash?: Prisma.SortOrder
+  dependencyOutputHash?: Prisma.SortOrder
+  currentResourceCount?: Prisma.SortOrder
+  hasResourceHooks?: Prisma.SortOrder
+  lastEditedBy?: Prisma.SortOrder
+  lastEditedAt?: Prisma.SortOrder
+}
+
+export type InstanceStateMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  instanceId?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  source?: Prisma.SortOrder
+  kind?: Prisma.SortOrder
+  parentId?: Prisma.SortOrder
+  inputHashNonce?: Prisma.SortOrder
+  selfHash?: Prisma.SortOrder
+  inputHash?: Prisma.SortOrder
+  outputHash?: Prisma.SortOrder
+  dependencyOutputHash?: Prisma.SortOrder
+  currentResourceCount?: Prisma.SortOrder
+  hasResourceHooks?: Prisma.SortOrder
+  lastEditedBy?: Prisma.SortOrder
+  lastEditedAt?: Prisma.SortOrder
+}
+
+export type InstanceStateSumOrderByAggregateInput = {
+  inputHashNonce?: Prisma.SortOrder
+  selfHash?: Prisma.SortOrder
+  inputHash?: Prisma.SortOrder
+  outputHash?: Prisma.SortOrder
+  dependencyOutputHash?: Prisma.SortOrder
+  currentResourceCount?: Prisma.SortOrder
+}
+
+export type InstanceStateCreateNestedManyWithoutArtifactsInput = {
+  create?: Prisma.XOR<Prisma.InstanceStateCreateWithoutArtifactsInput, Prisma.InstanceStateUncheckedCreateWithoutArtifactsInput> | Prisma.InstanceStateCreateWithoutArtifactsInput[] | Prisma.InstanceStateUncheckedCreateWithoutArtifactsInput[]
+  connectOrCreate?: Prisma.InstanceStateCreateOrConnectWithoutArtifactsInput | Prisma.InstanceStateCreateOrConnectWithoutArtifactsInput[]
+  connect?: Prisma.InstanceStateWhereUniqueInput | Prisma.InstanceStateWhereUniqueInput[]
+}
+
+export type InstanceStateUncheckedCreateNestedManyWithoutArtifactsInput = {
+  create?: Prisma.XOR<Prisma.InstanceStateCreateWithoutArtifactsInput, Prisma.InstanceStateUncheckedCreateWithoutArtifactsInput> | Prisma.InstanceStateCreateWithoutArtifactsInput[] | Prisma.InstanceStateUncheckedCreateWithoutArtifactsInput[]
+  connectOrCreate?: Prisma.InstanceStateCreateOrConnectWithoutArtifactsInput | Prisma.InstanceStateCreateOrConnectWithoutArtifactsInput[]
+  connect?: Prisma.InstanceStateWhereUniqueInput | Prisma.InstanceStateWhereUniqueInput[]
+}
+
+export type InstanceStateUpdateManyWithoutArtifactsNestedInput = {
+  create?: Prisma.XOR<Prisma.InstanceStateCreateWithoutArtifactsInput, Prisma.InstanceStateUncheckedCreateWithoutArtifactsInput> | Prisma.InstanceStateCreateWithoutArtifactsInput[] | Prisma.InstanceStateUncheckedCreateWithoutArtifactsInput[]
+  connectOrCreate?: Prisma.InstanceStateCreateOrConnectWithoutArtifactsInput | Prisma.InstanceStateCreateOrConnectWithoutArtifactsInput[]
+  upsert?: Prisma.InstanceStateUpsertWithWhereUniqueWithoutArtifactsInput | Prisma.InstanceStateUpsertWithWhereUniqueWithoutArtifactsInput[]
+  set?: Prisma.InstanceStateWhereUniqueInput | Prisma.InstanceStateWhereUniqueInput[]
+  disconnect?: Prisma.InstanceStateWhereUniqueInput | Prisma.InstanceStateWhereUniqueInput[]
+  delete?: Prisma.InstanceStateWhereUniqueInput | Prisma.InstanceStateWhereUniqueInput[]
+  connect?: Prisma.InstanceStateWhereUniqueInput | Prisma.InstanceStateWhereUniqueInput[]
+  update?: Prisma.InstanceStateUpdateWithWhereUniqueWithoutArtifactsInput | Prisma.InstanceStateUpdateWithWhereUniqueWithoutArtifactsInput[]
+  updateMany?: Prisma.InstanceStateUpdateManyWithWhereWithoutArtifactsInput | Prisma.InstanceStateUpdateManyWithWhereWithoutArtifactsInput[]
+  deleteMany?: Prisma.InstanceStateScalarWhereInput | Prisma.InstanceStateScalarWhereInput[]
+}
+
+export type InstanceStateUncheckedUpdateManyWithoutArtifactsNestedInput = {
+  create?: Prisma.XOR<Prisma.InstanceStateCreateWithoutArtifactsInput, Prisma.InstanceStateUncheckedCreateWithoutArtifactsInput> | Prisma.InstanceStateCreateWithoutArtifactsInput[] | Prisma.InstanceStateUncheckedCreateWithoutArtifactsInput[]
+  connectOrCreate?: Prisma.InstanceStateCreateOrConnectWithoutArtifactsInput | Prisma.InstanceStateCreateOrConnectWithoutArtifactsInput[]
+  upsert?: Prisma.InstanceStateUpsertWithWhereUniqueWithoutArtifactsInput | Prisma.InstanceStateUpsertWithWhereUniqueWithoutArtifactsInput[]
+  set?: Prisma.InstanceStateWhereUniqueInput | Prisma.InstanceStateWhereUniqueInput[]
+  disconnect?: Prisma.InstanceStateWhereUniqueInput | Prisma.InstanceStateWhereUniqueInput[]
+  delete?: Prisma.InstanceStateWhereUniqueInput | Prisma.InstanceStateWhereUniqueInput[]
+  connect?: Prisma.InstanceStateWhereUniqueInput | Prisma.InstanceStateWhereUniqueInput[]
+  update?: Prisma.InstanceStateUpdateWithWhereUniqueWithoutArtifactsInput | Prisma.InstanceStateUpdateWithWhereUniqueWithoutArtifactsInput[]
+  updateMany?: Prisma.InstanceStateUpdateManyWithWhereWithoutArtifactsInput | Prisma.InstanceStateUpdateManyWithWhereWithoutArtifactsInput[]
+  deleteMany?: Prisma.InstanceStateScalarWhereInput | Prisma.InstanceStateScalarWhereInput[]
+}
+
+export type InstanceStateCreateNestedOneWithoutCustomStatusesInput = {
+  create?: Prisma.XOR<Prisma.InstanceStateCreateWithoutCustomStatusesInput, Prisma.InstanceStateUncheckedCreateWithoutCustomStatusesInput>
+  connectOrCreate?: Prisma.InstanceStateCreateOrConnectWithoutCustomStatusesInput
+  connect?: Prisma.InstanceStateWhereUniqueInput
+}
+
+export type InstanceStateUpdateOneRequiredWithoutCustomStatusesNestedInput = {
+  create?: Prisma.XOR<Prisma.InstanceStateCreateWithoutCustomStatusesInput, Prisma.InstanceStateUncheckedCreateWithoutCustomStatusesInput>
+  connectOrCreate?: Prisma.InstanceStateCreateOrConnectWithoutCustomStatusesInput
+  upsert?: Prisma.InstanceStateUpsertWithoutCustomStatusesInput
+  connect?: Prisma.InstanceStateWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.InstanceStateUpdateToOneWithWhereWithoutCustomStatusesInput, Prisma.InstanceStateUpdateWithoutCustomStatusesInput>, Prisma.InstanceStateUncheckedUpdateWithoutCustomStatusesInput>
+}
+
+export type InstanceStateCreateNestedOneWithoutEntitySnapshotsInput = {
+  create?: Prisma.XOR<Prisma.InstanceStateCreateWithoutEntitySnapshotsInput, Prisma.InstanceStateUncheckedCreateWithoutEntitySnapshotsInput>
+  connectOrCreate?: Prisma.InstanceStateCreateOrConnectWithoutEntitySnapshotsInput
+  connect?: Prisma.InstanceStateWhereUniqueInput
+}
+
+export type InstanceStateUpdateOneRequiredWithoutEntitySnapshotsNestedInput = {
+  create?: Prisma.XOR<Prisma.InstanceStateCreateWithoutEntitySnapshotsInput, Prisma.InstanceStateUncheckedCreateWithoutEntitySnapshotsInput>
+  connectOrCreate?: Prisma.InstanceStateCreateOrConnectWithoutEntitySnapshotsInput
+  upsert?: Prisma.InstanceStateUpsertWithoutEntitySnapshotsInput
+  connect?: Prisma.InstanceStateWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.InstanceStateUpdateToOneWithWhereWithoutEntitySnapshotsInput, Prisma.InstanceStateUpdateWithoutEntitySnapshotsInput>, Prisma.InstanceStateUncheckedUpdateWithoutEntitySnapshotsInput>
+}
+
+export type InstanceStateCreateNestedOneWithoutEvaluationStateInput = {
+  create?: Prisma.XOR<Prisma.InstanceStateCreateWithoutEvaluationStateInput, Prisma.InstanceStateUncheckedCreateWithoutEvaluationStateInput>
+  connectOrCreate?: Prisma.InstanceStateCreateOrConnectWithoutEvaluationStateInput
+  connect?: Prisma.InstanceStateWhereUniqueInput
+}
+
+export type InstanceStateUpdateOneRequiredWithoutEvaluationStateNestedInput = {
+  create?: Prisma.XOR<Prisma.InstanceStateCreateWithoutEvaluationStateInput, Prisma.InstanceStateUncheckedCreateWithoutEvaluationStateInput>
+  connectOrCreate?: Prisma.InstanceStateCreateOrConnectWithoutEvaluationStateInput
+  upsert?: Prisma.InstanceStateUpsertWithoutEvaluationStateInput
+  connect?: Prisma.InstanceStateWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.InstanceStateUpdateToOneWithWhereWithoutEvaluationStateInput, Prisma.InstanceStateUpdateWithoutEvaluationStateInput>, Prisma.InstanceStateUncheckedUpdateWithoutEvaluationStateInput>
+}
+
+export type InstanceStateCreateNestedOneWithoutChildrenInput = {
+  create?: Prisma.XOR<Prisma.InstanceStateCreateWithoutChildrenInput, Prisma.InstanceStateUncheckedCreateWithoutChildrenInput>
+  connectOrCreate?: Prisma.InstanceStateCreateOrConnectWithoutChildrenInput
+  connect?: Prisma.InstanceStateWhereUniqueInput
+}
+
+export type InstanceStateCreateNestedManyWithoutParentInput = {
+  create?: Prisma.XOR<Prisma.InstanceStateCreateWithoutParentInput, Prisma.InstanceStateUncheckedCreateWithoutParentInput> | Prisma.InstanceStateCreateWithoutParentInput[] | Prisma.InstanceStateUncheckedCreateWithoutParentInput[]
+  connectOrCreate?: Prisma.InstanceStateCreateOrConnectWithoutParentInput | Prisma.InstanceStateCreateOrConnectWithoutParentInput[]
+  createMany?: Prisma.InstanceStateCreateManyParentInputEnvelope
+  connect?: Prisma.InstanceStateWhereUniqueInput | Prisma.InstanceStateWhereUniqueInput[]
+}
+
+export type InstanceStateUncheckedCreateNestedManyWithoutParentInput = {
+  create?: Prisma.XOR<Prisma.InstanceStateCreateWithoutParentInput, Prisma.InstanceStateUncheckedCreateWithoutParentInput> | Prisma.InstanceStateCreateWithoutParentInput[] | Prisma.InstanceStateUncheckedCreateWithoutParentInput[]
+  connectOrCreate?: Prisma.InstanceStateCreateOrConnectWithoutParentInput | Prisma.InstanceStateCreateOrConnectWithoutParentInput[]
+  createMany?: Prisma.InstanceStateCreateManyParentInputEnvelope
+  connect?: Prisma.InstanceStateWhereUniqueInput | Prisma.InstanceStateWhereUniqueInput[]
+}
+
+export type EnumInstanceStatusFieldUpdateOperationsInput = {
+  set?: $Enums.InstanceStatus
+}
+
+export type EnumInstanceSourceFieldUpdateOperationsInput = {
+  set?: $Enums.InstanceSource
+}
+
+export type NullableIntFieldUpdateOperationsInput = {
+  set?: number | null
+  increment?: number
+  decrement?: number
+  multiply?: number
+  divide?: number
+}
+
+export type BoolFieldUpdateOperationsInput = {
+  set?: boolean
+}
+
+export type NullableDateTimeFieldUpdateOperationsInput = {
+  set?: Date | string | null
+}
+
+export type InstanceStateUpdateOneWithoutChildrenNestedInput = {
+  create?: Prisma.XOR<Prisma.InstanceStateCreateWithoutChildrenInput, Prisma.InstanceStateUncheckedCreateWithoutChildrenInput>
+  connectOrCreate?: Prisma.InstanceStateCreateOrConnectWithoutChildrenInput
+  upsert?: Prisma.InstanceStateUpsertWithoutChildrenInput
+  disconnect?: Prisma.InstanceStateWhereInput | boolean
+  delete?: Prisma.InstanceStateWhereInput | boolean
+  connect?: Prisma.InstanceStateWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.InstanceStateUpdateToOneWithWhereWithoutChildrenInput, Prisma.InstanceStateUpdateWithoutChildrenInput>, Prisma.InstanceStateUncheckedUpdateWithoutChildrenInput>
+}
+
+export type InstanceStateUpdateManyWithoutParentNestedInput = {
+  create?: Prisma.XOR<Prisma.InstanceStateCreateWithoutParentInput, Prisma.InstanceStateUncheckedCreateWithoutParentInput> | Prisma.InstanceStateCreateWithoutParentInput[] | Prisma.InstanceStateUncheckedCreateWithoutParentInput[]
+  connectOrCreate?: Prisma.InstanceStateCreateOrConnectWithoutParentInput | Prisma.InstanceStateCreateOrConnectWithoutParentInput[]
+  upsert?: Prisma.InstanceStateUpsertWithWhereUniqueWithoutParentInput | Prisma.InstanceStateUpsertWithWhereUniqueWithoutParentInput[]
+  createMany?: Prisma.InstanceStateCreateManyParentInputEnvelope
+  set?: Prisma.InstanceStateWhereUniqueInput | Prisma.InstanceStateWhereUniqueInput[]
+  disconnect?: Prisma.InstanceStateWhereUniqueInput | Prisma.InstanceStateWhereUniqueInput[]
+  delete?: Prisma.InstanceStateWhereUniqueInput | Prisma.InstanceStateWhereUniqueInput[]
+  connect?: Prisma.InstanceStateWhereUniqueInput | Prisma.InstanceStateWhereUniqueInput[]
+  update?: Prisma.InstanceStateUpdateWithWhereUniqueWithoutParentInput | Prisma.InstanceStateUpdateWithWhereUniqueWithoutParentInput[]
+  updateMany?: Prisma.InstanceStateUpdateManyWithWhereWithoutParentInput | Prisma.InstanceStateUpdateManyWithWhereWithoutParentInput[]
+  deleteMany?: Prisma.InstanceStateScalarWhereInput | Prisma.InstanceStateScalarWhereInput[]
+}
+
+export type InstanceStateUncheckedUpdateManyWithoutParentNestedInput = {
+  create?: Prisma.XOR<Prisma.InstanceStateCreateWithoutParentInput, Prisma.InstanceStateUncheckedCreateWithoutParentInput> | Prisma.InstanceStateCreateWithoutParentInput[] | Prisma.InstanceStateUncheckedCreateWithoutParentInput[]
+  connectOrCreate?: Prisma.InstanceStateCreateOrConnectWithoutParentInput | Prisma.InstanceStateCreateOrConnectWithoutParentInput[]
+  upsert?: Prisma.InstanceStateUpsertWithWhereUniqueWithoutParentInput | Prisma.InstanceStateUpsertWithWhereUniqueWithoutParentInput[]
+  createMany?: Prisma.InstanceStateCreateManyParentInputEnvelope
+  set?: Prisma.InstanceStateWhereUniqueInput | Prisma.InstanceStateWhereUniqueInput[]
+  disconnect?: Prisma.InstanceStateWhereUniqueInput | Prisma.InstanceStateWhereUniqueInput[]
+  delete?: Prisma.InstanceStateWhereUniqueInput | Prisma.InstanceStateWhereUniqueInput[]
+  connect?: Prisma.InstanceStateWhereUniqueInput | Prisma.InstanceStateWhereUniqueInput[]
+  update?: Prisma.InstanceStateUpdateWithWhereUniqueWithoutParentInput | Prisma.InstanceStateUpdateWithWhereUniqueWithoutParentInput[]
+  updateMany?: Prisma.InstanceStateUpdateManyWithWhereWithoutParentInput | Prisma.InstanceStateUpdateManyWithWhereWithoutParentInput[]
+  deleteMany?: Prisma.InstanceStateScalarWhereInput | Prisma.InstanceStateScalarWhereInput[]
+}
+
+export type InstanceStateCreateNestedOneWithoutUserViewportsInput = {
+  create?: Prisma.XOR<Prisma.InstanceStateCreateWithoutUserViewportsInput, Prisma.InstanceStateUncheckedCreateWithoutUserViewportsInput>
+  connectOrCreate?: Prisma.InstanceStateCreateOrConnectWithoutUserViewportsInput
+  connect?: Prisma.InstanceStateWhereUniqueInput
+}
+
+export type InstanceStateUpdateOneRequiredWithoutUserViewportsNestedInput = {
+  create?: Prisma.XOR<Prisma.InstanceStateCreateWithoutUserViewportsInput, Prisma.InstanceStateUncheckedCreateWithoutUserViewportsInput>
+  connectOrCreate?: Prisma.InstanceStateCreateOrConnectWithoutUserViewportsInput
+  upsert?: Prisma.InstanceStateUpsertWithoutUserViewportsInput
+  connect?: Prisma.InstanceStateWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.InstanceStateUpdateToOneWithWhereWithoutUserViewportsInput, Prisma.InstanceStateUpdateWithoutUserViewportsInput>, Prisma.InstanceStateUncheckedUpdateWithoutUserViewportsInput>
+}
+
+export type InstanceStateCreateNestedOneWithoutLockInput = {
+  create?: Prisma.XOR<Prisma.InstanceStateCreateWithoutLockInput, Prisma.InstanceStateUncheckedCreateWithoutLockInput>
+  connectOrCreate?: Prisma.InstanceStateCreateOrConnectWithoutLockInput
+  connect?: Prisma.InstanceStateWhereUniqueInput
+}
+
+export type InstanceStateUpdateOneRequiredWithoutLockNestedInput = {
+  create?: Prisma.XOR<Prisma.InstanceStateCreateWithoutLockInput, Prisma.InstanceStateUncheckedCreateWithoutLockInput>
+  connectOrCreate?: Prisma.InstanceStateCreateOrConnectWithoutLockInput
+  upsert?: Prisma.InstanceStateUpsertWithoutLockInput
+  connect?: Prisma.InstanceStateWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.InstanceStateUpdateToOneWithWhereWithoutLockInput, Prisma.InstanceStateUpdateWithoutLockInput>, Prisma.InstanceStateUncheckedUpdateWithoutLockInput>
+}
+
+export type InstanceStateCreateNestedOneWithoutOperationStatesInput = {
+  create?: Prisma.XOR<Prisma.InstanceStateCreateWithoutOperationStatesInput, Prisma.InstanceStateUncheckedCreateWithoutOperationStatesInput>
+  connectOrCreate?: Prisma.InstanceStateCreateOrConnectWithoutOperationStatesInput
+  connect?: Prisma.InstanceStateWhereUniqueInput
+}
+
+export type InstanceStateUpdateOneRequiredWithoutOperationStatesNestedInput = {
+  create?: Prisma.XOR<Prisma.InstanceStateCreateWithoutOperationStatesInput, Prisma.InstanceStateUncheckedCreateWithoutOperationStatesInput>
+  connectOrCreate?: Prisma.InstanceStateCreateOrConnectWithoutOperationStatesInput
+  upsert?: Prisma.InstanceStateUpsertWithoutOperationStatesInput
+  connect?: Prisma.InstanceStateWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.InstanceStateUpdateToOneWithWhereWithoutOperationStatesInput, Prisma.InstanceStateUpdateWithoutOperationStatesInput>, Prisma.InstanceStateUncheckedUpdateWithoutOperationStatesInput>
+}
+
+export type InstanceStateCreateNestedOneWithoutOperationLogsInput = {
+  create?: Prisma.XOR<Prisma.InstanceStateCreateWithoutOperationLogsInput, Prisma.InstanceStateUncheckedCreateWithoutOperationLogsInput>
+  connectOrCreate?: Prisma.InstanceStateCreateOrConnectWithoutOperationLogsInput
+  connect?: Prisma.InstanceStateWhereUniqueInput
+}
+
+export type InstanceStateUpdateOneWithoutOperationLogsNestedInput = {
+  create?: Prisma.XOR<Prisma.InstanceStateCreateWithoutOperationLogsInput, Prisma.InstanceStateUncheckedCreateWithoutOperationLogsInput>
+  connectOrCreate?: Prisma.InstanceStateCreateOrConnectWithoutOperationLogsInput
+  upsert?: Prisma.InstanceStateUpsertWithoutOperationLogsInput
+  disconnect?: Prisma.InstanceStateWhereInput | boolean
+  delete?: Prisma.InstanceStateWhereInput | boolean
+  connect?: Prisma.InstanceStateWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.InstanceStateUpdateToOneWithWhereWithoutOperationLogsInput, Prisma.InstanceStateUpdateWithoutOperationLogsInput>, Prisma.InstanceStateUncheckedUpdateWithoutOperationLogsInput>
+}
+
+export type InstanceStateCreateNestedOneWithoutPagesInput = {
+  create?: Prisma.XOR<Prisma.InstanceStateCreateWithoutPagesInput, Prisma.InstanceStateUncheckedCreateWithoutPagesInput>
+  connectOrCreate?: Prisma.InstanceStateCreateOrConnectWithoutPagesInput
+  connect?: Prisma.InstanceStateWhereUniqueInput
+}
+
+export type InstanceStateUpdateOneWithoutPagesNestedInput = {
+  create?: Prisma.XOR<Prisma.InstanceStateCreateWithoutPagesInput, Prisma.InstanceStateUncheckedCreateWithoutPagesInput>
+  connectOrCreate?: Prisma.InstanceStateCreateOrConnectWithoutPagesInput
+  upsert?: Prisma.InstanceStateUpsertWithoutPagesInput
+  disconnect?: Prisma.InstanceStateWhereInput | boolean
+  delete?: Prisma.InstanceStateWhereInput | boolean
+  connect?: Prisma.InstanceStateWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.InstanceStateUpdateToOneWithWhereWithoutPagesInput, Prisma.InstanceStateUpdateWithoutPagesInput>, Prisma.InstanceStateUncheckedUpdateWithoutPagesInput>
+}
+
+export type InstanceStateCreateNestedOneWithoutSecretsInput = {
+  create?: Prisma.XOR<Prisma.InstanceStateCreateWithoutSecretsInput, Prisma.InstanceStateUncheckedCreateWithoutSecretsInput>
+  connectOrCreate?: Prisma.InstanceStateCreateOrConnectWithoutSecretsInput
+  connect?: Prisma.InstanceStateWhereUniqueInput
+}
+
+export type InstanceStateUpdateOneWithoutSecretsNestedInput = {
+  create?: Prisma.XOR<Prisma.InstanceStateCreateWithoutSecretsInput, Prisma.InstanceStateUncheckedCreateWithoutSecretsInput>
+  connectOrCreate?: Prisma.InstanceStateCreateOrConnectWithoutSecretsInput
+  upsert?: Prisma.InstanceStateUpsertWithoutSecretsInput
+  disconnect?: Prisma.InstanceStateWhereInput | boolean
+  delete?: Prisma.InstanceStateWhereInput | boolean
+  connect?: Prisma.InstanceStateWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.InstanceStateUpdateToOneWithWhereWithoutSecretsInput, Prisma.InstanceStateUpdateWithoutSecretsInput>, Prisma.InstanceStateUncheckedUpdateWithoutSecretsInput>
+}
+
+export type InstanceStateCreateNestedOneWithoutServiceAccountGrantsInput = {
+  create?: Prisma.XOR<Prisma.InstanceStateCreateWithoutServiceAccountGrantsInput, Prisma.InstanceStateUncheckedCreateWithoutServiceAccountGrantsInput>
+  connectOrCreate?: Prisma.InstanceStateCreateOrConnectWithoutServiceAccountGrantsInput
+  connect?: Prisma.InstanceStateWhereUniqueInput
+}
+
+export type InstanceStateUpdateOneWithoutServiceAccountGrantsNestedInput = {
+  create?: Prisma.XOR<Prisma.InstanceStateCreateWithoutServiceAccountGrantsInput, Prisma.InstanceStateUncheckedCreateWithoutServiceAccountGrantsInput>
+  connectOrCreate?: Prisma.InstanceStateCreateOrConnectWithoutServiceAccountGrantsInput
+  upsert?: Prisma.InstanceStateUpsertWithoutServiceAccountGrantsInput
+  disconnect?: Prisma.InstanceStateWhereInput | boolean
+  delete?: Prisma.InstanceStateWhereInput | boolean
+  connect?: Prisma.InstanceStateWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.InstanceStateUpdateToOneWithWhereWithoutServiceAccountGrantsInput, Prisma.InstanceStateUpdateWithoutServiceAccountGrantsInput>, Prisma.InstanceStateUncheckedUpdateWithoutServiceAccountGrantsInput>
+}
+
+export type InstanceStateCreateNestedOneWithoutTerminalsInput = {
+  create?: Prisma.XOR<Prisma.InstanceStateCreateWithoutTerminalsInput, Prisma.InstanceStateUncheckedCreateWithoutTerminalsInput>
+  connectOrCreate?: Prisma.InstanceStateCreateOrConnectWithoutTerminalsInput
+  connect?: Prisma.InstanceStateWhereUniqueInput
+}
+
+export type InstanceStateUpdateOneWithoutTerminalsNestedInput = {
+  create?: Prisma.XOR<Prisma.InstanceStateCreateWithoutTerminalsInput, Prisma.InstanceStateUncheckedCreateWithoutTerminalsInput>
+  connectOrCreate?: Prisma.InstanceStateCreateOrConnectWithoutTerminalsInput
+  upsert?: Prisma.InstanceStateUpsertWithoutTerminalsInput
+  disconnect?: Prisma.InstanceStateWhereInput | boolean
+  delete?: Prisma.InstanceStateWhereInput | boolean
+  connect?: Prisma.InstanceStateWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.InstanceStateUpdateToOneWithWhereWithoutTerminalsInput, Prisma.InstanceStateUpdateWithoutTerminalsInput>, Prisma.InstanceStateUncheckedUpdateWithoutTerminalsInput>
+}
+
+export type InstanceStateCreateNestedOneWithoutTriggersInput = {
+  create?: Prisma.XOR<Prisma.InstanceStateCreateWithoutTriggersInput, Prisma.InstanceStateUncheckedCreateWithoutTriggersInput>
+  connectOrCreate?: Prisma.InstanceStateCreateOrConnectWithoutTriggersInput
+  connect?: Prisma.InstanceStateWhereUniqueInput
+}
+
+export type InstanceStateUpdateOneRequiredWithoutTriggersNestedInput = {
+  create?: Prisma.XOR<Prisma.InstanceStateCreateWithoutTriggersInput, Prisma.InstanceStateUncheckedCreateWithoutTriggersInput>
+  connectOrCreate?: Prisma.InstanceStateCreateOrConnectWithoutTriggersInput
+  upsert?: Prisma.InstanceStateUpsertWithoutTriggersInput
+  connect?: Prisma.InstanceStateWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.InstanceStateUpdateToOneWithWhereWithoutTriggersInput, Prisma.InstanceStateUpdateWithoutTriggersInput>, Prisma.InstanceStateUncheckedUpdateWithoutTriggersInput>
+}
+
+export type InstanceStateCreateNestedOneWithoutWorkerRegistrationsInput = {
+  create?: Prisma.XOR<Prisma.InstanceStateCreateWithoutWorkerRegistrationsInput, Prisma.InstanceStateUncheckedCreateWithoutWorkerRegistrationsInput>
+  connectOrCreate?: Prisma.InstanceStateCreateOrConnectWithoutWorkerRegistrationsInput
+  connect?: Prisma.InstanceStateWhereUniqueInput
+}
+
+export type InstanceStateUpdateOneRequiredWithoutWorkerRegistrationsNestedInput = {
+  create?: Prisma.XOR<Prisma.InstanceStateCreateWithoutWorkerRegistrationsInput, Prisma.InstanceStateUncheckedCreateWithoutWorkerRegistrationsInput>
+  connectOrCreate?: Prisma.InstanceStateCreateOrConnectWithoutWorkerRegistrationsInput
+  upsert?: Prisma.InstanceStateUpsertWithoutWorkerRegistrationsInput
+  connect?: Prisma.InstanceStateWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.InstanceStateUpdateToOneWithWhereWithoutWorkerRegistrationsInput, Prisma.InstanceStateUpdateWithoutWorkerRegistrationsInput>, Prisma.InstanceStateUncheckedUpdateWithoutWorkerRegistrationsInput>
+}
+
+export type InstanceStateCreateWithoutArtifactsInput = {
+  id?: string
+  instanceId:PrismaJson.InstanceId
+  status: $Enums.InstanceStatus
+  source: $Enums.InstanceSource
+  kind:PrismaJson.InstanceKind
+  inputHashNonce?: number | null
+  selfHash?: number | null
+  inputHash?: number | null
+  outputHash?: number | null
+  dependencyOutputHash?: number | null
+  exportedArtifactIds?:PrismaJson.InstanceArtifactIds | Prisma.NullableJsonNullValueInput
+  model?:PrismaJson.InstanceModel | Prisma.NullableJsonNullValueInput
+  resolvedInputs?:PrismaJson.InstanceResolvedInputs | Prisma.NullableJsonNullValueInput
+  currentResourceCount?: number | null
+  statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
+  hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
+  parent?: Prisma.InstanceStateCreateNestedOneWithoutChildrenInput
+  children?: Prisma.InstanceStateCreateNestedManyWithoutParentInput
+  evaluationState?: Prisma.InstanceEvaluationStateCreateNestedOneWithoutStateInput
+  operationStates?: Prisma.InstanceOperationStateCreateNestedManyWithoutStateInput
+  secrets?: Prisma.SecretCreateNestedManyWithoutStateInput
+  terminals?: Prisma.TerminalCreateNestedManyWithoutStateInput
+  pages?: Prisma.PageCreateNestedManyWithoutStateInput
+  triggers?: Prisma.TriggerCreateNestedManyWithoutStateInput
+  customStatuses?: Prisma.InstanceCustomStatusCreateNestedManyWithoutStateInput
+  lock?: Prisma.InstanceLockCreateNestedOneWithoutStateInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantCreateNestedManyWithoutStateInput
+  operationLogs?: Prisma.OperationLogCreateNestedManyWithoutStateInput
+  userViewports?: Prisma.UserCompositeViewportCreateNestedManyWithoutStateInput
+  entitySnapshots?: Prisma.EntitySnapshotCreateNestedManyWithoutStateInput
+}
+
+export type InstanceStateUncheckedCreateWithoutArtifactsInput = {
+  id?: string
+  instanceId:PrismaJson.InstanceId
+  status: $Enums.InstanceStatus
+  source: $Enums.InstanceSource
+  kind:PrismaJson.InstanceKind
+  parentId?: string | null
+  inputHashNonce?: number | null
+  selfHash?: number | null
+  inputHash?: number | null
+  outputHash?: number | null
+  dependencyOutputHash?: number | null
+  exportedArtifactIds?:PrismaJson.InstanceArtifactIds | Prisma.NullableJsonNullValueInput
+  model?:PrismaJson.InstanceModel | Prisma.NullableJsonNullValueInput
+  resolvedInputs?:PrismaJson.InstanceResolvedInputs | Prisma.NullableJsonNullValueInput
+  currentResourceCount?: number | null
+  statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
+  hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
+  children?: Prisma.InstanceStateUncheckedCreateNestedManyWithoutParentInput
+  evaluationState?: Prisma.InstanceEvaluationStateUncheckedCreateNestedOneWithoutStateInput
+  operationStates?: Prisma.InstanceOperationStateUncheckedCreateNestedManyWithoutStateInput
+  secrets?: Prisma.SecretUncheckedCreateNestedManyWithoutStateInput
+  terminals?: Prisma.TerminalUncheckedCreateNestedManyWithoutStateInput
+  pages?: Prisma.PageUncheckedCreateNestedManyWithoutStateInput
+  triggers?: Prisma.TriggerUncheckedCreateNestedManyWithoutStateInput
+  customStatuses?: Prisma.InstanceCustomStatusUncheckedCreateNestedManyWithoutStateInput
+  lock?: Prisma.InstanceLockUncheckedCreateNestedOneWithoutStateInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedCreateNestedManyWithoutStateInput
+  operationLogs?: Prisma.OperationLogUncheckedCreateNestedManyWithoutStateInput
+  userViewports?: Prisma.UserCompositeViewportUncheckedCreateNestedManyWithoutStateInput
+  entitySnapshots?: Prisma.EntitySnapshotUncheckedCreateNestedManyWithoutStateInput
+}
+
+export type InstanceStateCreateOrConnectWithoutArtifactsInput = {
+  where: Prisma.InstanceStateWhereUniqueInput
+  create: Prisma.XOR<Prisma.InstanceStateCreateWithoutArtifactsInput, Prisma.InstanceStateUncheckedCreateWithoutArtifactsInput>
+}
+
+export type InstanceStateUpsertWithWhereUniqueWithoutArtifactsInput = {
+  where: Prisma.InstanceStateWhereUniqueInput
+  update: Prisma.XOR<Prisma.InstanceStateUpdateWithoutArtifactsInput, Prisma.InstanceStateUncheckedUpdateWithoutArtifactsInput>
+  create: Prisma.XOR<Prisma.InstanceStateCreateWithoutArtifactsInput, Prisma.InstanceStateUncheckedCreateWithoutArtifactsInput>
+}
+
+export type InstanceStateUpdateWithWhereUniqueWithoutArtifactsInput = {
+  where: Prisma.InstanceStateWhereUniqueInput
+  data: Prisma.XOR<Prisma.InstanceStateUpdateWithoutArtifactsInput, Prisma.InstanceStateUncheckedUpdateWithoutArtifactsInput>
+}
+
+export type InstanceStateUpdateManyWithWhereWithoutArtifactsInput = {
+  where: Prisma.InstanceStateScalarWhereInput
+  data: Prisma.XOR<Prisma.InstanceStateUpdateManyMutationInput, Prisma.InstanceStateUncheckedUpdateManyWithoutArtifactsInput>
+}
+
+export type InstanceStateScalarWhereInput = {
+  AND?: Prisma.InstanceStateScalarWhereInput | Prisma.InstanceStateScalarWhereInput[]
+  OR?: Prisma.InstanceStateScalarWhereInput[]
+  NOT?: Prisma.InstanceStateScalarWhereInput | Prisma.InstanceStateScalarWhereInput[]
+  id?: Prisma.StringFilter<"InstanceState"> | string
+  instanceId?: Prisma.StringFilter<"InstanceState"> | string
+  status?: Prisma.EnumInstanceStatusFilter<"InstanceState"> | $Enums.InstanceStatus
+  source?: Prisma.EnumInstanceSourceFilter<"InstanceState"> | $Enums.InstanceSource
+  kind?: Prisma.StringFilter<"InstanceState"> | string
+  parentId?: Prisma.StringNullableFilter<"InstanceState"> | string | null
+  inputHashNonce?: Prisma.IntNullableFilter<"InstanceState"> | number | null
+  selfHash?: Prisma.IntNullableFilter<"InstanceState"> | number | null
+  inputHash?: Prisma.IntNullableFilter<"InstanceState"> | number | null
+  outputHash?: Prisma.IntNullableFilter<"InstanceState"> | number | null
+  dependencyOutputHash?: Prisma.IntNullableFilter<"InstanceState"> | number | null
+  exportedArtifactIds?: Prisma.JsonNullableFilter<"InstanceState">
+  model?: Prisma.JsonNullableFilter<"InstanceState">
+  resolvedInputs?: Prisma.JsonNullableFilter<"InstanceState">
+  currentResourceCount?: Prisma.IntNullableFilter<"InstanceState"> | number | null
+  statusFields?: Prisma.JsonNullableFilter<"InstanceState">
+  hasResourceHooks?: Prisma.BoolFilter<"InstanceState"> | boolean
+  lastEditedBy?: Prisma.StringNullableFilter<"InstanceState"> | string | null
+  lastEditedAt?: Prisma.DateTimeNullableFilter<"InstanceState"> | Date | string | null
+}
+
+export type InstanceStateCreateWithoutCustomStatusesInput = {
+  id?: string
+  instanceId:PrismaJson.InstanceId
+  status: $Enums.InstanceStatus
+  source: $Enums.InstanceSource
+  kind:PrismaJson.InstanceKind
+  inputHashNonce?: number | null
+  selfHash?: number | null
+  inputHash?: number | null
+  outputHash?: number | null
+  dependencyOutputHash?: number | null
+  exportedArtifactIds?:PrismaJson.InstanceArtifactIds | Prisma.NullableJsonNullValueInput
+  model?:PrismaJson.InstanceModel | Prisma.NullableJsonNullValueInput
+  resolvedInputs?:PrismaJson.InstanceResolvedInputs | Prisma.NullableJsonNullValueInput
+  currentResourceCount?: number | null
+  statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
+  hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
+  parent?: Prisma.InstanceStateCreateNestedOneWithoutChildrenInput
+  children?: Prisma.InstanceStateCreateNestedManyWithoutParentInput
+  evaluationState?: Prisma.InstanceEvaluationStateCreateNestedOneWithoutStateInput
+  operationStates?: Prisma.InstanceOperationStateCreateNestedManyWithoutStateInput
+  secrets?: Prisma.SecretCreateNestedManyWithoutStateInput
+  terminals?: Prisma.TerminalCreateNestedManyWithoutStateInput
+  pages?: Prisma.PageCreateNestedManyWithoutStateInput
+  triggers?: Prisma.TriggerCreateNestedManyWithoutStateInput
+  lock?: Prisma.InstanceLockCreateNestedOneWithoutStateInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantCreateNestedManyWithoutStateInput
+  artifacts?: Prisma.ArtifactCreateNestedManyWithoutInstancesInput
+  operationLogs?: Prisma.OperationLogCreateNestedManyWithoutStateInput
+  userViewports?: Prisma.UserCompositeViewportCreateNestedManyWithoutStateInput
+  entitySnapshots?: Prisma.EntitySnapshotCreateNestedManyWithoutStateInput
+}
+
+export type InstanceStateUncheckedCreateWithoutCustomStatusesInput = {
+  id?: string
+  instanceId:PrismaJson.InstanceId
+  status: $Enums.InstanceStatus
+  source: $Enums.InstanceSource
+  kind:PrismaJson.InstanceKind
+  parentId?: string | null
+  inputHashNonce?: number | null
+  selfHash?: number | null
+  inputHash?: number | null
+  outputHash?: number | null
+  dependencyOutputHash?: number | null
+  exportedArtifactIds?:PrismaJson.InstanceArtifactIds | Prisma.NullableJsonNullValueInput
+  model?:PrismaJson.InstanceModel | Prisma.NullableJsonNullValueInput
+  resolvedInputs?:PrismaJson.InstanceResolvedInputs | Prisma.NullableJsonNullValueInput
+  currentResourceCount?: number | null
+  statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
+  hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
+  children?: Prisma.InstanceStateUncheckedCreateNestedManyWithoutParentInput
+  evaluationState?: Prisma.InstanceEvaluationStateUncheckedCreateNestedOneWithoutStateInput
+  operationStates?: Prisma.InstanceOperationStateUncheckedCreateNestedManyWithoutStateInput
+  secrets?: Prisma.SecretUncheckedCreateNestedManyWithoutStateInput
+  terminals?: Prisma.TerminalUncheckedCreateNestedManyWithoutStateInput
+  pages?: Prisma.PageUncheckedCreateNestedManyWithoutStateInput
+  triggers?: Prisma.TriggerUncheckedCreateNestedManyWithoutStateInput
+  lock?: Prisma.InstanceLockUncheckedCreateNestedOneWithoutStateInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedCreateNestedManyWithoutStateInput
+  artifacts?: Prisma.ArtifactUncheckedCreateNestedManyWithoutInstancesInput
+  operationLogs?: Prisma.OperationLogUncheckedCreateNestedManyWithoutStateInput
+  userViewports?: Prisma.UserCompositeViewportUncheckedCreateNestedManyWithoutStateInput
+  entitySnapshots?: Prisma.EntitySnapshotUncheckedCreateNestedManyWithoutStateInput
+}
+
+export type InstanceStateCreateOrConnectWithoutCustomStatusesInput = {
+  where: Prisma.InstanceStateWhereUniqueInput
+  create: Prisma.XOR<Prisma.InstanceStateCreateWithoutCustomStatusesInput, Prisma.InstanceStateUncheckedCreateWithoutCustomStatusesInput>
+}
+
+export type InstanceStateUpsertWithoutCustomStatusesInput = {
+  update: Prisma.XOR<Prisma.InstanceStateUpdateWithoutCustomStatusesInput, Prisma.InstanceStateUncheckedUpdateWithoutCustomStatusesInput>
+  create: Prisma.XOR<Prisma.InstanceStateCreateWithoutCustomStatusesInput, Prisma.InstanceStateUncheckedCreateWithoutCustomStatusesInput>
+  where?: Prisma.InstanceStateWhereInput
+}
+
+export type InstanceStateUpdateToOneWithWhereWithoutCustomStatusesInput = {
+  where?: Prisma.InstanceStateWhereInput
+  data: Prisma.XOR<Prisma.InstanceStateUpdateWithoutCustomStatusesInput, Prisma.InstanceStateUncheckedUpdateWithoutCustomStatusesInput>
+}
+
+export type InstanceStateUpdateWithoutCustomStatusesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  instanceId?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumInstanceStatusFieldUpdateOperationsInput | $Enums.InstanceStatus
+  source?: Prisma.EnumInstanceSourceFieldUpdateOperationsInput | $Enums.InstanceSource
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  inputHashNonce?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  selfHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  inputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  outputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  dependencyOutputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  exportedArtifactIds?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  model?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  resolvedInputs?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  parent?: Prisma.InstanceStateUpdateOneWithoutChildrenNestedInput
+  children?: Prisma.InstanceStateUpdateManyWithoutParentNestedInput
+  evaluationState?: Prisma.InstanceEvaluationStateUpdateOneWithoutStateNestedInput
+  operationStates?: Prisma.InstanceOperationStateUpdateManyWithoutStateNestedInput
+  secrets?: Prisma.SecretUpdateManyWithoutStateNestedInput
+  terminals?: Prisma.TerminalUpdateManyWithoutStateNestedInput
+  pages?: Prisma.PageUpdateManyWithoutStateNestedInput
+  triggers?: Prisma.TriggerUpdateManyWithoutStateNestedInput
+  lock?: Prisma.InstanceLockUpdateOneWithoutStateNestedInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUpdateManyWithoutStateNestedInput
+  artifacts?: Prisma.ArtifactUpdateManyWithoutInstancesNestedInput
+  operationLogs?: Prisma.OperationLogUpdateManyWithoutStateNestedInput
+  userViewports?: Prisma.UserCompositeViewportUpdateManyWithoutStateNestedInput
+  entitySnapshots?: Prisma.EntitySnapshotUpdateManyWithoutStateNestedInput
+}
+
+export type InstanceStateUncheckedUpdateWithoutCustomStatusesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  instanceId?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumInstanceStatusFieldUpdateOperationsInput | $Enums.InstanceStatus
+  source?: Prisma.EnumInstanceSourceFieldUpdateOperationsInput | $Enums.InstanceSource
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  parentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  inputHashNonce?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  selfHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  inputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  outputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  dependencyOutputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  exportedArtifactIds?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  model?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  resolvedInputs?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  children?: Prisma.InstanceStateUncheckedUpdateManyWithoutParentNestedInput
+  evaluationState?: Prisma.InstanceEvaluationStateUncheckedUpdateOneWithoutStateNestedInput
+  operationStates?: Prisma.InstanceOperationStateUncheckedUpdateManyWithoutStateNestedInput
+  secrets?: Prisma.SecretUncheckedUpdateManyWithoutStateNestedInput
+  terminals?: Prisma.TerminalUncheckedUpdateManyWithoutStateNestedInput
+  pages?: Prisma.PageUncheckedUpdateManyWithoutStateNestedInput
+  triggers?: Prisma.TriggerUncheckedUpdateManyWithoutStateNestedInput
+  lock?: Prisma.InstanceLockUncheckedUpdateOneWithoutStateNestedInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedUpdateManyWithoutStateNestedInput
+  artifacts?: Prisma.ArtifactUncheckedUpdateManyWithoutInstancesNestedInput
+  operationLogs?: Prisma.OperationLogUncheckedUpdateManyWithoutStateNestedInput
+  userViewports?: Prisma.UserCompositeViewportUncheckedUpdateManyWithoutStateNestedInput
+  entitySnapshots?: Prisma.EntitySnapshotUncheckedUpdateManyWithoutStateNestedInput
+}
+
+export type InstanceStateCreateWithoutEntitySnapshotsInput = {
+  id?: string
+  instanceId:PrismaJson.InstanceId
+  status: $Enums.InstanceStatus
+  source: $Enums.InstanceSource
+  kind:PrismaJson.InstanceKind
+  inputHashNonce?: number | null
+  selfHash?: number | null
+  inputHash?: number | null
+  outputHash?: number | null
+  dependencyOutputHash?: number | null
+  exportedArtifactIds?:PrismaJson.InstanceArtifactIds | Prisma.NullableJsonNullValueInput
+  model?:PrismaJson.InstanceModel | Prisma.NullableJsonNullValueInput
+  resolvedInputs?:PrismaJson.InstanceResolvedInputs | Prisma.NullableJsonNullValueInput
+  currentResourceCount?: number | null
+  statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
+  hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
+  parent?: Prisma.InstanceStateCreateNestedOneWithoutChildrenInput
+  children?: Prisma.InstanceStateCreateNestedManyWithoutParentInput
+  evaluationState?: Prisma.InstanceEvaluationStateCreateNestedOneWithoutStateInput
+  operationStates?: Prisma.InstanceOperationStateCreateNestedManyWithoutStateInput
+  secrets?: Prisma.SecretCreateNestedManyWithoutStateInput
+  terminals?: Prisma.TerminalCreateNestedManyWithoutStateInput
+  pages?: Prisma.PageCreateNestedManyWithoutStateInput
+  triggers?: Prisma.TriggerCreateNestedManyWithoutStateInput
+  customStatuses?: Prisma.InstanceCustomStatusCreateNestedManyWithoutStateInput
+  lock?: Prisma.InstanceLockCreateNestedOneWithoutStateInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantCreateNestedManyWithoutStateInput
+  artifacts?: Prisma.ArtifactCreateNestedManyWithoutInstancesInput
+  operationLogs?: Prisma.OperationLogCreateNestedManyWithoutStateInput
+  userViewports?: Prisma.UserCompositeViewportCreateNestedManyWithoutStateInput
+}
+
+export type InstanceStateUncheckedCreateWithoutEntitySnapshotsInput = {
+  id?: string
+  instanceId:PrismaJson.InstanceId
+  status: $Enums.InstanceStatus
+  source: $Enums.InstanceSource
+  kind:PrismaJson.InstanceKind
+  parentId?: string | null
+  inputHashNonce?: number | null
+  selfHash?: number | null
+  inputHash?: number | null
+  outputHash?: number | null
+  dependencyOutputHash?: number | null
+  exportedArtifactIds?:PrismaJson.InstanceArtifactIds | Prisma.NullableJsonNullValueInput
+  model?:PrismaJson.InstanceModel | Prisma.NullableJsonNullValueInput
+  resolvedInputs?:PrismaJson.InstanceResolvedInputs | Prisma.NullableJsonNullValueInput
+  currentResourceCount?: number | null
+  statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
+  hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
+  children?: Prisma.InstanceStateUncheckedCreateNestedManyWithoutParentInput
+  evaluationState?: Prisma.InstanceEvaluationStateUncheckedCreateNestedOneWithoutStateInput
+  operationStates?: Prisma.InstanceOperationStateUncheckedCreateNestedManyWithoutStateInput
+  secrets?: Prisma.SecretUncheckedCreateNestedManyWithoutStateInput
+  terminals?: Prisma.TerminalUncheckedCreateNestedManyWithoutStateInput
+  pages?: Prisma.PageUncheckedCreateNestedManyWithoutStateInput
+  triggers?: Prisma.TriggerUncheckedCreateNestedManyWithoutStateInput
+  customStatuses?: Prisma.InstanceCustomStatusUncheckedCreateNestedManyWithoutStateInput
+  lock?: Prisma.InstanceLockUncheckedCreateNestedOneWithoutStateInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedCreateNestedManyWithoutStateInput
+  artifacts?: Prisma.ArtifactUncheckedCreateNestedManyWithoutInstancesInput
+  operationLogs?: Prisma.OperationLogUncheckedCreateNestedManyWithoutStateInput
+  userViewports?: Prisma.UserCompositeViewportUncheckedCreateNestedManyWithoutStateInput
+}
+
+export type InstanceStateCreateOrConnectWithoutEntitySnapshotsInput = {
+  where: Prisma.InstanceStateWhereUniqueInput
+  create: Prisma.XOR<Prisma.InstanceStateCreateWithoutEntitySnapshotsInput, Prisma.InstanceStateUncheckedCreateWithoutEntitySnapshotsInput>
+}
+
+export type InstanceStateUpsertWithoutEntitySnapshotsInput = {
+  update: Prisma.XOR<Prisma.InstanceStateUpdateWithoutEntitySnapshotsInput, Prisma.InstanceStateUncheckedUpdateWithoutEntitySnapshotsInput>
+  create: Prisma.XOR<Prisma.InstanceStateCreateWithoutEntitySnapshotsInput, Prisma.InstanceStateUncheckedCreateWithoutEntitySnapshotsInput>
+  where?: Prisma.InstanceStateWhereInput
+}
+
+export type InstanceStateUpdateToOneWithWhereWithoutEntitySnapshotsInput = {
+  where?: Prisma.InstanceStateWhereInput
+  data: Prisma.XOR<Prisma.InstanceStateUpdateWithoutEntitySnapshotsInput, Prisma.InstanceStateUncheckedUpdateWithoutEntitySnapshotsInput>
+}
+
+export type InstanceStateUpdateWithoutEntitySnapshotsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  instanceId?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumInstanceStatusFieldUpdateOperationsInput | $Enums.InstanceStatus
+  source?: Prisma.EnumInstanceSourceFieldUpdateOperationsInput | $Enums.InstanceSource
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  inputHashNonce?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  selfHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  inputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  outputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  dependencyOutputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  exportedArtifactIds?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  model?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  resolvedInputs?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  parent?: Prisma.InstanceStateUpdateOneWithoutChildrenNestedInput
+  children?: Prisma.InstanceStateUpdateManyWithoutParentNestedInput
+  evaluationState?: Prisma.InstanceEvaluationStateUpdateOneWithoutStateNestedInput
+  operationStates?: Prisma.InstanceOperationStateUpdateManyWithoutStateNestedInput
+  secrets?: Prisma.SecretUpdateManyWithoutStateNestedInput
+  terminals?: Prisma.TerminalUpdateManyWithoutStateNestedInput
+  pages?: Prisma.PageUpdateManyWithoutStateNestedInput
+  triggers?: Prisma.TriggerUpdateManyWithoutStateNestedInput
+  customStatuses?: Prisma.InstanceCustomStatusUpdateManyWithoutStateNestedInput
+  lock?: Prisma.InstanceLockUpdateOneWithoutStateNestedInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUpdateManyWithoutStateNestedInput
+  artifacts?: Prisma.ArtifactUpdateManyWithoutInstancesNestedInput
+  operationLogs?: Prisma.OperationLogUpdateManyWithoutStateNestedInput
+  userViewports?: Prisma.UserCompositeViewportUpdateManyWithoutStateNestedInput
+}
+
+export type InstanceStateUncheckedUpdateWithoutEntitySnapshotsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  instanceId?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumInstanceStatusFieldUpdateOperationsInput | $Enums.InstanceStatus
+  source?: Prisma.EnumInstanceSourceFieldUpdateOperationsInput | $Enums.InstanceSource
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  parentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  inputHashNonce?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  selfHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  inputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  outputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  dependencyOutputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  exportedArtifactIds?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  model?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  resolvedInputs?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  children?: Prisma.InstanceStateUncheckedUpdateManyWithoutParentNestedInput
+  evaluationState?: Prisma.InstanceEvaluationStateUncheckedUpdateOneWithoutStateNestedInput
+  operationStates?: Prisma.InstanceOperationStateUncheckedUpdateManyWithoutStateNestedInput
+  secrets?: Prisma.SecretUncheckedUpdateManyWithoutStateNestedInput
+  terminals?: Prisma.TerminalUncheckedUpdateManyWithoutStateNestedInput
+  pages?: Prisma.PageUncheckedUpdateManyWithoutStateNestedInput
+  triggers?: Prisma.TriggerUncheckedUpdateManyWithoutStateNestedInput
+  customStatuses?: Prisma.InstanceCustomStatusUncheckedUpdateManyWithoutStateNestedInput
+  lock?: Prisma.InstanceLockUncheckedUpdateOneWithoutStateNestedInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedUpdateManyWithoutStateNestedInput
+  artifacts?: Prisma.ArtifactUncheckedUpdateManyWithoutInstancesNestedInput
+  operationLogs?: Prisma.OperationLogUncheckedUpdateManyWithoutStateNestedInput
+  userViewports?: Prisma.UserCompositeViewportUncheckedUpdateManyWithoutStateNestedInput
+}
+
+export type InstanceStateCreateWithoutEvaluationStateInput = {
+  id?: string
+  instanceId:PrismaJson.InstanceId
+  status: $Enums.InstanceStatus
+  source: $Enums.InstanceSource
+  kind:PrismaJson.InstanceKind
+  inputHashNonce?: number | null
+  selfHash?: number | null
+  inputHash?: number | null
+  outputHash?: number | null
+  dependencyOutputHash?: number | null
+  exportedArtifactIds?:PrismaJson.InstanceArtifactIds | Prisma.NullableJsonNullValueInput
+  model?:PrismaJson.InstanceModel | Prisma.NullableJsonNullValueInput
+  resolvedInputs?:PrismaJson.InstanceResolvedInputs | Prisma.NullableJsonNullValueInput
+  currentResourceCount?: number | null
+  statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
+  hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
+  parent?: Prisma.InstanceStateCreateNestedOneWithoutChildrenInput
+  children?: Prisma.InstanceStateCreateNestedManyWithoutParentInput
+  operationStates?: Prisma.InstanceOperationStateCreateNestedManyWithoutStateInput
+  secrets?: Prisma.SecretCreateNestedManyWithoutStateInput
+  terminals?: Prisma.TerminalCreateNestedManyWithoutStateInput
+  pages?: Prisma.PageCreateNestedManyWithoutStateInput
+  triggers?: Prisma.TriggerCreateNestedManyWithoutStateInput
+  customStatuses?: Prisma.InstanceCustomStatusCreateNestedManyWithoutStateInput
+  lock?: Prisma.InstanceLockCreateNestedOneWithoutStateInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantCreateNestedManyWithoutStateInput
+  artifacts?: Prisma.ArtifactCreateNestedManyWithoutInstancesInput
+  operationLogs?: Prisma.OperationLogCreateNestedManyWithoutStateInput
+  userViewports?: Prisma.UserCompositeViewportCreateNestedManyWithoutStateInput
+  entitySnapshots?: Prisma.EntitySnapshotCreateNestedManyWithoutStateInput
+}
+
+export type InstanceStateUncheckedCreateWithoutEvaluationStateInput = {
+  id?: string
+  instanceId:PrismaJson.InstanceId
+  status: $Enums.InstanceStatus
+  source: $Enums.InstanceSource
+  kind:PrismaJson.InstanceKind
+  parentId?: string | null
+  inputHashNonce?: number | null
+  selfHash?: number | null
+  inputHash?: number | null
+  outputHash?: number | null
+  dependencyOutputHash?: number | null
+  exportedArtifactIds?:PrismaJson.InstanceArtifactIds | Prisma.NullableJsonNullValueInput
+  model?:PrismaJson.InstanceModel | Prisma.NullableJsonNullValueInput
+  resolvedInputs?:PrismaJson.InstanceResolvedInputs | Prisma.NullableJsonNullValueInput
+  currentResourceCount?: number | null
+  statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
+  hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
+  children?: Prisma.InstanceStateUncheckedCreateNestedManyWithoutParentInput
+  operationStates?: Prisma.InstanceOperationStateUncheckedCreateNestedManyWithoutStateInput
+  secrets?: Prisma.SecretUncheckedCreateNestedManyWithoutStateInput
+  terminals?: Prisma.TerminalUncheckedCreateNestedManyWithoutStateInput
+  pages?: Prisma.PageUncheckedCreateNestedManyWithoutStateInput
+  triggers?: Prisma.TriggerUncheckedCreateNestedManyWithoutStateInput
+  customStatuses?: Prisma.InstanceCustomStatusUncheckedCreateNestedManyWithoutStateInput
+  lock?: Prisma.InstanceLockUncheckedCreateNestedOneWithoutStateInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedCreateNestedManyWithoutStateInput
+  artifacts?: Prisma.ArtifactUncheckedCreateNestedManyWithoutInstancesInput
+  operationLogs?: Prisma.OperationLogUncheckedCreateNestedManyWithoutStateInput
+  userViewports?: Prisma.UserCompositeViewportUncheckedCreateNestedManyWithoutStateInput
+  entitySnapshots?: Prisma.EntitySnapshotUncheckedCreateNestedManyWithoutStateInput
+}
+
+export type InstanceStateCreateOrConnectWithoutEvaluationStateInput = {
+  where: Prisma.InstanceStateWhereUniqueInput
+  create: Prisma.XOR<Prisma.InstanceStateCreateWithoutEvaluationStateInput, Prisma.InstanceStateUncheckedCreateWithoutEvaluationStateInput>
+}
+
+export type InstanceStateUpsertWithoutEvaluationStateInput = {
+  update: Prisma.XOR<Prisma.InstanceStateUpdateWithoutEvaluationStateInput, Prisma.InstanceStateUncheckedUpdateWithoutEvaluationStateInput>
+  create: Prisma.XOR<Prisma.InstanceStateCreateWithoutEvaluationStateInput, Prisma.InstanceStateUncheckedCreateWithoutEvaluationStateInput>
+  where?: Prisma.InstanceStateWhereInput
+}
+
+export type InstanceStateUpdateToOneWithWhereWithoutEvaluationStateInput = {
+  where?: Prisma.InstanceStateWhereInput
+  data: Prisma.XOR<Prisma.InstanceStateUpdateWithoutEvaluationStateInput, Prisma.InstanceStateUncheckedUpdateWithoutEvaluationStateInput>
+}
+
+export type InstanceStateUpdateWithoutEvaluationStateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  instanceId?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumInstanceStatusFieldUpdateOperationsInput | $Enums.InstanceStatus
+  source?: Prisma.EnumInstanceSourceFieldUpdateOperationsInput | $Enums.InstanceSource
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  inputHashNonce?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  selfHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  inputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  outputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  dependencyOutputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  exportedArtifactIds?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  model?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  resolvedInputs?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  parent?: Prisma.InstanceStateUpdateOneWithoutChildrenNestedInput
+  children?: Prisma.InstanceStateUpdateManyWithoutParentNestedInput
+  operationStates?: Prisma.InstanceOperationStateUpdateManyWithoutStateNestedInput
+  secrets?: Prisma.SecretUpdateManyWithoutStateNestedInput
+  terminals?: Prisma.TerminalUpdateManyWithoutStateNestedInput
+  pages?: Prisma.PageUpdateManyWithoutStateNestedInput
+  triggers?: Prisma.TriggerUpdateManyWithoutStateNestedInput
+  customStatuses?: Prisma.InstanceCustomStatusUpdateManyWithoutStateNestedInput
+  lock?: Prisma.InstanceLockUpdateOneWithoutStateNestedInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUpdateManyWithoutStateNestedInput
+  artifacts?: Prisma.ArtifactUpdateManyWithoutInstancesNestedInput
+  operationLogs?: Prisma.OperationLogUpdateManyWithoutStateNestedInput
+  userViewports?: Prisma.UserCompositeViewportUpdateManyWithoutStateNestedInput
+  entitySnapshots?: Prisma.EntitySnapshotUpdateManyWithoutStateNestedInput
+}
+
+export type InstanceStateUncheckedUpdateWithoutEvaluationStateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  instanceId?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumInstanceStatusFieldUpdateOperationsInput | $Enums.InstanceStatus
+  source?: Prisma.EnumInstanceSourceFieldUpdateOperationsInput | $Enums.InstanceSource
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  parentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  inputHashNonce?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  selfHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  inputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  outputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  dependencyOutputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  exportedArtifactIds?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  model?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  resolvedInputs?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  children?: Prisma.InstanceStateUncheckedUpdateManyWithoutParentNestedInput
+  operationStates?: Prisma.InstanceOperationStateUncheckedUpdateManyWithoutStateNestedInput
+  secrets?: Prisma.SecretUncheckedUpdateManyWithoutStateNestedInput
+  terminals?: Prisma.TerminalUncheckedUpdateManyWithoutStateNestedInput
+  pages?: Prisma.PageUncheckedUpdateManyWithoutStateNestedInput
+  triggers?: Prisma.TriggerUncheckedUpdateManyWithoutStateNestedInput
+  customStatuses?: Prisma.InstanceCustomStatusUncheckedUpdateManyWithoutStateNestedInput
+  lock?: Prisma.InstanceLockUncheckedUpdateOneWithoutStateNestedInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedUpdateManyWithoutStateNestedInput
+  artifacts?: Prisma.ArtifactUncheckedUpdateManyWithoutInstancesNestedInput
+  operationLogs?: Prisma.OperationLogUncheckedUpdateManyWithoutStateNestedInput
+  userViewports?: Prisma.UserCompositeViewportUncheckedUpdateManyWithoutStateNestedInput
+  entitySnapshots?: Prisma.EntitySnapshotUncheckedUpdateManyWithoutStateNestedInput
+}
+
+export type InstanceStateCreateWithoutChildrenInput = {
+  id?: string
+  instanceId:PrismaJson.InstanceId
+  status: $Enums.InstanceStatus
+  source: $Enums.InstanceSource
+  kind:PrismaJson.InstanceKind
+  inputHashNonce?: number | null
+  selfHash?: number | null
+  inputHash?: number | null
+  outputHash?: number | null
+  dependencyOutputHash?: number | null
+  exportedArtifactIds?:PrismaJson.InstanceArtifactIds | Prisma.NullableJsonNullValueInput
+  model?:PrismaJson.InstanceModel | Prisma.NullableJsonNullValueInput
+  resolvedInputs?:PrismaJson.InstanceResolvedInputs | Prisma.NullableJsonNullValueInput
+  currentResourceCount?: number | null
+  statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
+  hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
+  parent?: Prisma.InstanceStateCreateNestedOneWithoutChildrenInput
+  evaluationState?: Prisma.InstanceEvaluationStateCreateNestedOneWithoutStateInput
+  operationStates?: Prisma.InstanceOperationStateCreateNestedManyWithoutStateInput
+  secrets?: Prisma.SecretCreateNestedManyWithoutStateInput
+  terminals?: Prisma.TerminalCreateNestedManyWithoutStateInput
+  pages?: Prisma.PageCreateNestedManyWithoutStateInput
+  triggers?: Prisma.TriggerCreateNestedManyWithoutStateInput
+  customStatuses?: Prisma.InstanceCustomStatusCreateNestedManyWithoutStateInput
+  lock?: Prisma.InstanceLockCreateNestedOneWithoutStateInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantCreateNestedManyWithoutStateInput
+  artifacts?: Prisma.ArtifactCreateNestedManyWithoutInstancesInput
+  operationLogs?: Prisma.OperationLogCreateNestedManyWithoutStateInput
+  userViewports?: Prisma.UserCompositeViewportCreateNestedManyWithoutStateInput
+  entitySnapshots?: Prisma.EntitySnapshotCreateNestedManyWithoutStateInput
+}
+
+export type InstanceStateUncheckedCreateWithoutChildrenInput = {
+  id?: string
+  instanceId:PrismaJson.InstanceId
+  status: $Enums.InstanceStatus
+  source: $Enums.InstanceSource
+  kind:PrismaJson.InstanceKind
+  parentId?: string | null
+  inputHashNonce?: number | null
+  selfHash?: number | null
+  inputHash?: number | null
+  outputHash?: number | null
+  dependencyOutputHash?: number | null
+  exportedArtifactIds?:PrismaJson.InstanceArtifactIds | Prisma.NullableJsonNullValueInput
+  model?:PrismaJson.InstanceModel | Prisma.NullableJsonNullValueInput
+  resolvedInputs?:PrismaJson.InstanceResolvedInputs | Prisma.NullableJsonNullValueInput
+  currentResourceCount?: number | null
+  statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
+  hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
+  evaluationState?: Prisma.InstanceEvaluationStateUncheckedCreateNestedOneWithoutStateInput
+  operationStates?: Prisma.InstanceOperationStateUncheckedCreateNestedManyWithoutStateInput
+  secrets?: Prisma.SecretUncheckedCreateNestedManyWithoutStateInput
+  terminals?: Prisma.TerminalUncheckedCreateNestedManyWithoutStateInput
+  pages?: Prisma.PageUncheckedCreateNestedManyWithoutStateInput
+  triggers?: Prisma.TriggerUncheckedCreateNestedManyWithoutStateInput
+  customStatuses?: Prisma.InstanceCustomStatusUncheckedCreateNestedManyWithoutStateInput
+  lock?: Prisma.InstanceLockUncheckedCreateNestedOneWithoutStateInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedCreateNestedManyWithoutStateInput
+  artifacts?: Prisma.ArtifactUncheckedCreateNestedManyWithoutInstancesInput
+  operationLogs?: Prisma.OperationLogUncheckedCreateNestedManyWithoutStateInput
+  userViewports?: Prisma.UserCompositeViewportUncheckedCreateNestedManyWithoutStateInput
+  entitySnapshots?: Prisma.EntitySnapshotUncheckedCreateNestedManyWithoutStateInput
+}
+
+export type InstanceStateCreateOrConnectWithoutChildrenInput = {
+  where: Prisma.InstanceStateWhereUniqueInput
+  create: Prisma.XOR<Prisma.InstanceStateCreateWithoutChildrenInput, Prisma.InstanceStateUncheckedCreateWithoutChildrenInput>
+}
+
+export type InstanceStateCreateWithoutParentInput = {
+  id?: string
+  instanceId:PrismaJson.InstanceId
+  status: $Enums.InstanceStatus
+  source: $Enums.InstanceSource
+  kind:PrismaJson.InstanceKind
+  inputHashNonce?: number | null
+  selfHash?: number | null
+  inputHash?: number | null
+  outputHash?: number | null
+  dependencyOutputHash?: number | null
+  exportedArtifactIds?:PrismaJson.InstanceArtifactIds | Prisma.NullableJsonNullValueInput
+  model?:PrismaJson.InstanceModel | Prisma.NullableJsonNullValueInput
+  resolvedInputs?:PrismaJson.InstanceResolvedInputs | Prisma.NullableJsonNullValueInput
+  currentResourceCount?: number | null
+  statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
+  hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
+  children?: Prisma.InstanceStateCreateNestedManyWithoutParentInput
+  evaluationState?: Prisma.InstanceEvaluationStateCreateNestedOneWithoutStateInput
+  operationStates?: Prisma.InstanceOperationStateCreateNestedManyWithoutStateInput
+  secrets?: Prisma.SecretCreateNestedManyWithoutStateInput
+  terminals?: Prisma.TerminalCreateNestedManyWithoutStateInput
+  pages?: Prisma.PageCreateNestedManyWithoutStateInput
+  triggers?: Prisma.TriggerCreateNestedManyWithoutStateInput
+  customStatuses?: Prisma.InstanceCustomStatusCreateNestedManyWithoutStateInput
+  lock?: Prisma.InstanceLockCreateNestedOneWithoutStateInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantCreateNestedManyWithoutStateInput
+  artifacts?: Prisma.ArtifactCreateNestedManyWithoutInstancesInput
+  operationLogs?: Prisma.OperationLogCreateNestedManyWithoutStateInput
+  userViewports?: Prisma.UserCompositeViewportCreateNestedManyWithoutStateInput
+  entitySnapshots?: Prisma.EntitySnapshotCreateNestedManyWithoutStateInput
+}
+
+export type InstanceStateUncheckedCreateWithoutParentInput = {
+  id?: string
+  instanceId:PrismaJson.InstanceId
+  status: $Enums.InstanceStatus
+  source: $Enums.InstanceSource
+  kind:PrismaJson.InstanceKind
+  inputHashNonce?: number | null
+  selfHash?: number | null
+  inputHash?: number | null
+  outputHash?: number | null
+  dependencyOutputHash?: number | null
+  exportedArtifactIds?:PrismaJson.InstanceArtifactIds | Prisma.NullableJsonNullValueInput
+  model?:PrismaJson.InstanceModel | Prisma.NullableJsonNullValueInput
+  resolvedInputs?:PrismaJson.InstanceResolvedInputs | Prisma.NullableJsonNullValueInput
+  currentResourceCount?: number | null
+  statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
+  hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
+  children?: Prisma.InstanceStateUncheckedCreateNestedManyWithoutParentInput
+  evaluationState?: Prisma.InstanceEvaluationStateUncheckedCreateNestedOneWithoutStateInput
+  operationStates?: Prisma.InstanceOperationStateUncheckedCreateNestedManyWithoutStateInput
+  secrets?: Prisma.SecretUncheckedCreateNestedManyWithoutStateInput
+  terminals?: Prisma.TerminalUncheckedCreateNestedManyWithoutStateInput
+  pages?: Prisma.PageUncheckedCreateNestedManyWithoutStateInput
+  triggers?: Prisma.TriggerUncheckedCreateNestedManyWithoutStateInput
+  customStatuses?: Prisma.InstanceCustomStatusUncheckedCreateNestedManyWithoutStateInput
+  lock?: Prisma.InstanceLockUncheckedCreateNestedOneWithoutStateInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedCreateNestedManyWithoutStateInput
+  artifacts?: Prisma.ArtifactUncheckedCreateNestedManyWithoutInstancesInput
+  operationLogs?: Prisma.OperationLogUncheckedCreateNestedManyWithoutStateInput
+  userViewports?: Prisma.UserCompositeViewportUncheckedCreateNestedManyWithoutStateInput
+  entitySnapshots?: Prisma.EntitySnapshotUncheckedCreateNestedManyWithoutStateInput
+}
+
+export type InstanceStateCreateOrConnectWithoutParentInput = {
+  where: Prisma.InstanceStateWhereUniqueInput
+  create: Prisma.XOR<Prisma.InstanceStateCreateWithoutParentInput, Prisma.InstanceStateUncheckedCreateWithoutParentInput>
+}
+
+export type InstanceStateCreateManyParentInputEnvelope = {
+  data: Prisma.InstanceStateCreateManyParentInput | Prisma.InstanceStateCreateManyParentInput[]
+  skipDuplicates?: boolean
+}
+
+export type InstanceStateUpsertWithoutChildrenInput = {
+  update: Prisma.XOR<Prisma.InstanceStateUpdateWithoutChildrenInput, Prisma.InstanceStateUncheckedUpdateWithoutChildrenInput>
+  create: Prisma.XOR<Prisma.InstanceStateCreateWithoutChildrenInput, Prisma.InstanceStateUncheckedCreateWithoutChildrenInput>
+  where?: Prisma.InstanceStateWhereInput
+}
+
+export type InstanceStateUpdateToOneWithWhereWithoutChildrenInput = {
+  where?: Prisma.InstanceStateWhereInput
+  data: Prisma.XOR<Prisma.InstanceStateUpdateWithoutChildrenInput, Prisma.InstanceStateUncheckedUpdateWithoutChildrenInput>
+}
+
+export type InstanceStateUpdateWithoutChildrenInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  instanceId?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumInstanceStatusFieldUpdateOperationsInput | $Enums.InstanceStatus
+  source?: Prisma.EnumInstanceSourceFieldUpdateOperationsInput | $Enums.InstanceSource
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  inputHashNonce?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  selfHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  inputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  outputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  dependencyOutputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  exportedArtifactIds?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  model?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  resolvedInputs?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  parent?: Prisma.InstanceStateUpdateOneWithoutChildrenNestedInput
+  evaluationState?: Prisma.InstanceEvaluationStateUpdateOneWithoutStateNestedInput
+  operationStates?: Prisma.InstanceOperationStateUpdateManyWithoutStateNestedInput
+  secrets?: Prisma.SecretUpdateManyWithoutStateNestedInput
+  terminals?: Prisma.TerminalUpdateManyWithoutStateNestedInput
+  pages?: Prisma.PageUpdateManyWithoutStateNestedInput
+  triggers?: Prisma.TriggerUpdateManyWithoutStateNestedInput
+  customStatuses?: Prisma.InstanceCustomStatusUpdateManyWithoutStateNestedInput
+  lock?: Prisma.InstanceLockUpdateOneWithoutStateNestedInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUpdateManyWithoutStateNestedInput
+  artifacts?: Prisma.ArtifactUpdateManyWithoutInstancesNestedInput
+  operationLogs?: Prisma.OperationLogUpdateManyWithoutStateNestedInput
+  userViewports?: Prisma.UserCompositeViewportUpdateManyWithoutStateNestedInput
+  entitySnapshots?: Prisma.EntitySnapshotUpdateManyWithoutStateNestedInput
+}
+
+export type InstanceStateUncheckedUpdateWithoutChildrenInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  instanceId?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumInstanceStatusFieldUpdateOperationsInput | $Enums.InstanceStatus
+  source?: Prisma.EnumInstanceSourceFieldUpdateOperationsInput | $Enums.InstanceSource
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  parentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  inputHashNonce?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  selfHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  inputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  outputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  dependencyOutputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  exportedArtifactIds?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  model?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  resolvedInputs?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  evaluationState?: Prisma.InstanceEvaluationStateUncheckedUpdateOneWithoutStateNestedInput
+  operationStates?: Prisma.InstanceOperationStateUncheckedUpdateManyWithoutStateNestedInput
+  secrets?: Prisma.SecretUncheckedUpdateManyWithoutStateNestedInput
+  terminals?: Prisma.TerminalUncheckedUpdateManyWithoutStateNestedInput
+  pages?: Prisma.PageUncheckedUpdateManyWithoutStateNestedInput
+  triggers?: Prisma.TriggerUncheckedUpdateManyWithoutStateNestedInput
+  customStatuses?: Prisma.InstanceCustomStatusUncheckedUpdateManyWithoutStateNestedInput
+  lock?: Prisma.InstanceLockUncheckedUpdateOneWithoutStateNestedInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedUpdateManyWithoutStateNestedInput
+  artifacts?: Prisma.ArtifactUncheckedUpdateManyWithoutInstancesNestedInput
+  operationLogs?: Prisma.OperationLogUncheckedUpdateManyWithoutStateNestedInput
+  userViewports?: Prisma.UserCompositeViewportUncheckedUpdateManyWithoutStateNestedInput
+  entitySnapshots?: Prisma.EntitySnapshotUncheckedUpdateManyWithoutStateNestedInput
+}
+
+export type InstanceStateUpsertWithWhereUniqueWithoutParentInput = {
+  where: Prisma.InstanceStateWhereUniqueInput
+  update: Prisma.XOR<Prisma.InstanceStateUpdateWithoutParentInput, Prisma.InstanceStateUncheckedUpdateWithoutParentInput>
+  create: Prisma.XOR<Prisma.InstanceStateCreateWithoutParentInput, Prisma.InstanceStateUncheckedCreateWithoutParentInput>
+}
+
+export type InstanceStateUpdateWithWhereUniqueWithoutParentInput = {
+  where: Prisma.InstanceStateWhereUniqueInput
+  data: Prisma.XOR<Prisma.InstanceStateUpdateWithoutParentInput, Prisma.InstanceStateUncheckedUpdateWithoutParentInput>
+}
+
+export type InstanceStateUpdateManyWithWhereWithoutParentInput = {
+  where: Prisma.InstanceStateScalarWhereInput
+  data: Prisma.XOR<Prisma.InstanceStateUpdateManyMutationInput, Prisma.InstanceStateUncheckedUpdateManyWithoutParentInput>
+}
+
+export type InstanceStateCreateWithoutUserViewportsInput = {
+  id?: string
+  instanceId:PrismaJson.InstanceId
+  status: $Enums.InstanceStatus
+  source: $Enums.InstanceSource
+  kind:PrismaJson.InstanceKind
+  inputHashNonce?: number | null
+  selfHash?: number | null
+  inputHash?: number | null
+  outputHash?: number | null
+  dependencyOutputHash?: number | null
+  exportedArtifactIds?:PrismaJson.InstanceArtifactIds | Prisma.NullableJsonNullValueInput
+  model?:PrismaJson.InstanceModel | Prisma.NullableJsonNullValueInput
+  resolvedInputs?:PrismaJson.InstanceResolvedInputs | Prisma.NullableJsonNullValueInput
+  currentResourceCount?: number | null
+  statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
+  hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
+  parent?: Prisma.InstanceStateCreateNestedOneWithoutChildrenInput
+  children?: Prisma.InstanceStateCreateNestedManyWithoutParentInput
+  evaluationState?: Prisma.InstanceEvaluationStateCreateNestedOneWithoutStateInput
+  operationStates?: Prisma.InstanceOperationStateCreateNestedManyWithoutStateInput
+  secrets?: Prisma.SecretCreateNestedManyWithoutStateInput
+  terminals?: Prisma.TerminalCreateNestedManyWithoutStateInput
+  pages?: Prisma.PageCreateNestedManyWithoutStateInput
+  triggers?: Prisma.TriggerCreateNestedManyWithoutStateInput
+  customStatuses?: Prisma.InstanceCustomStatusCreateNestedManyWithoutStateInput
+  lock?: Prisma.InstanceLockCreateNestedOneWithoutStateInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantCreateNestedManyWithoutStateInput
+  artifacts?: Prisma.ArtifactCreateNestedManyWithoutInstancesInput
+  operationLogs?: Prisma.OperationLogCreateNestedManyWithoutStateInput
+  entitySnapshots?: Prisma.EntitySnapshotCreateNestedManyWithoutStateInput
+}
+
+export type InstanceStateUncheckedCreateWithoutUserViewportsInput = {
+  id?: string
+  instanceId:PrismaJson.InstanceId
+  status: $Enums.InstanceStatus
+  source: $Enums.InstanceSource
+  kind:PrismaJson.InstanceKind
+  parentId?: string | null
+  inputHashNonce?: number | null
+  selfHash?: number | null
+  inputHash?: number | null
+  outputHash?: number | null
+  dependencyOutputHash?: number | null
+  exportedArtifactIds?:PrismaJson.InstanceArtifactIds | Prisma.NullableJsonNullValueInput
+  model?:PrismaJson.InstanceModel | Prisma.NullableJsonNullValueInput
+  resolvedInputs?:PrismaJson.InstanceResolvedInputs | Prisma.NullableJsonNullValueInput
+  currentResourceCount?: number | null
+  statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
+  hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
+  children?: Prisma.InstanceStateUncheckedCreateNestedManyWithoutParentInput
+  evaluationState?: Prisma.InstanceEvaluationStateUncheckedCreateNestedOneWithoutStateInput
+  operationStates?: Prisma.InstanceOperationStateUncheckedCreateNestedManyWithoutStateInput
+  secrets?: Prisma.SecretUncheckedCreateNestedManyWithoutStateInput
+  terminals?: Prisma.TerminalUncheckedCreateNestedManyWithoutStateInput
+  pages?: Prisma.PageUncheckedCreateNestedManyWithoutStateInput
+  triggers?: Prisma.TriggerUncheckedCreateNestedManyWithoutStateInput
+  customStatuses?: Prisma.InstanceCustomStatusUncheckedCreateNestedManyWithoutStateInput
+  lock?: Prisma.InstanceLockUncheckedCreateNestedOneWithoutStateInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedCreateNestedManyWithoutStateInput
+  artifacts?: Prisma.ArtifactUncheckedCreateNestedManyWithoutInstancesInput
+  operationLogs?: Prisma.OperationLogUncheckedCreateNestedManyWithoutStateInput
+  entitySnapshots?: Prisma.EntitySnapshotUncheckedCreateNestedManyWithoutStateInput
+}
+
+export type InstanceStateCreateOrConnectWithoutUserViewportsInput = {
+  where: Prisma.InstanceStateWhereUniqueInput
+  create: Prisma.XOR<Prisma.InstanceStateCreateWithoutUserViewportsInput, Prisma.InstanceStateUncheckedCreateWithoutUserViewportsInput>
+}
+
+export type InstanceStateUpsertWithoutUserViewportsInput = {
+  update: Prisma.XOR<Prisma.InstanceStateUpdateWithoutUserViewportsInput, Prisma.InstanceStateUncheckedUpdateWithoutUserViewportsInput>
+  create: Prisma.XOR<Prisma.InstanceStateCreateWithoutUserViewportsInput, Prisma.InstanceStateUncheckedCreateWithoutUserViewportsInput>
+  where?: Prisma.InstanceStateWhereInput
+}
+
+export type InstanceStateUpdateToOneWithWhereWithoutUserViewportsInput = {
+  where?: Prisma.InstanceStateWhereInput
+  data: Prisma.XOR<Prisma.InstanceStateUpdateWithoutUserViewportsInput, Prisma.InstanceStateUncheckedUpdateWithoutUserViewportsInput>
+}
+
+export type InstanceStateUpdateWithoutUserViewportsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  instanceId?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumInstanceStatusFieldUpdateOperationsInput | $Enums.InstanceStatus
+  source?: Prisma.EnumInstanceSourceFieldUpdateOperationsInput | $Enums.InstanceSource
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  inputHashNonce?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  selfHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  inputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  outputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  dependencyOutputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  exportedArtifactIds?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  model?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  resolvedInputs?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  parent?: Prisma.InstanceStateUpdateOneWithoutChildrenNestedInput
+  children?: Prisma.InstanceStateUpdateManyWithoutParentNestedInput
+  evaluationState?: Prisma.InstanceEvaluationStateUpdateOneWithoutStateNestedInput
+  operationStates?: Prisma.InstanceOperationStateUpdateManyWithoutStateNestedInput
+  secrets?: Prisma.SecretUpdateManyWithoutStateNestedInput
+  terminals?: Prisma.TerminalUpdateManyWithoutStateNestedInput
+  pages?: Prisma.PageUpdateManyWithoutStateNestedInput
+  triggers?: Prisma.TriggerUpdateManyWithoutStateNestedInput
+  customStatuses?: Prisma.InstanceCustomStatusUpdateManyWithoutStateNestedInput
+  lock?: Prisma.InstanceLockUpdateOneWithoutStateNestedInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUpdateManyWithoutStateNestedInput
+  artifacts?: Prisma.ArtifactUpdateManyWithoutInstancesNestedInput
+  operationLogs?: Prisma.OperationLogUpdateManyWithoutStateNestedInput
+  entitySnapshots?: Prisma.EntitySnapshotUpdateManyWithoutStateNestedInput
+}
+
+export type InstanceStateUncheckedUpdateWithoutUserViewportsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  instanceId?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumInstanceStatusFieldUpdateOperationsInput | $Enums.InstanceStatus
+  source?: Prisma.EnumInstanceSourceFieldUpdateOperationsInput | $Enums.InstanceSource
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  parentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  inputHashNonce?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  selfHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  inputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  outputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  dependencyOutputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  exportedArtifactIds?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  model?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  resolvedInputs?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  children?: Prisma.InstanceStateUncheckedUpdateManyWithoutParentNestedInput
+  evaluationState?: Prisma.InstanceEvaluationStateUncheckedUpdateOneWithoutStateNestedInput
+  operationStates?: Prisma.InstanceOperationStateUncheckedUpdateManyWithoutStateNestedInput
+  secrets?: Prisma.SecretUncheckedUpdateManyWithoutStateNestedInput
+  terminals?: Prisma.TerminalUncheckedUpdateManyWithoutStateNestedInput
+  pages?: Prisma.PageUncheckedUpdateManyWithoutStateNestedInput
+  triggers?: Prisma.TriggerUncheckedUpdateManyWithoutStateNestedInput
+  customStatuses?: Prisma.InstanceCustomStatusUncheckedUpdateManyWithoutStateNestedInput
+  lock?: Prisma.InstanceLockUncheckedUpdateOneWithoutStateNestedInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedUpdateManyWithoutStateNestedInput
+  artifacts?: Prisma.ArtifactUncheckedUpdateManyWithoutInstancesNestedInput
+  operationLogs?: Prisma.OperationLogUncheckedUpdateManyWithoutStateNestedInput
+  entitySnapshots?: Prisma.EntitySnapshotUncheckedUpdateManyWithoutStateNestedInput
+}
+
+export type InstanceStateCreateWithoutLockInput = {
+  id?: string
+  instanceId:PrismaJson.InstanceId
+  status: $Enums.InstanceStatus
+  source: $Enums.InstanceSource
+  kind:PrismaJson.InstanceKind
+  inputHashNonce?: number | null
+  selfHash?: number | null
+  inputHash?: number | null
+  outputHash?: number | null
+  dependencyOutputHash?: number | null
+  exportedArtifactIds?:PrismaJson.InstanceArtifactIds | Prisma.NullableJsonNullValueInput
+  model?:PrismaJson.InstanceModel | Prisma.NullableJsonNullValueInput
+  resolvedInputs?:PrismaJson.InstanceResolvedInputs | Prisma.NullableJsonNullValueInput
+  currentResourceCount?: number | null
+  statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
+  hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
+  parent?: Prisma.InstanceStateCreateNestedOneWithoutChildrenInput
+  children?: Prisma.InstanceStateCreateNestedManyWithoutParentInput
+  evaluationState?: Prisma.InstanceEvaluationStateCreateNestedOneWithoutStateInput
+  operationStates?: Prisma.InstanceOperationStateCreateNestedManyWithoutStateInput
+  secrets?: Prisma.SecretCreateNestedManyWithoutStateInput
+  terminals?: Prisma.TerminalCreateNestedManyWithoutStateInput
+  pages?: Prisma.PageCreateNestedManyWithoutStateInput
+  triggers?: Prisma.TriggerCreateNestedManyWithoutStateInput
+  customStatuses?: Prisma.InstanceCustomStatusCreateNestedManyWithoutStateInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantCreateNestedManyWithoutStateInput
+  artifacts?: Prisma.ArtifactCreateNestedManyWithoutInstancesInput
+  operationLogs?: Prisma.OperationLogCreateNestedManyWithoutStateInput
+  userViewports?: Prisma.UserCompositeViewportCreateNestedManyWithoutStateInput
+  entitySnapshots?: Prisma.EntitySnapshotCreateNestedManyWithoutStateInput
+}
+
+export type InstanceStateUncheckedCreateWithoutLockInput = {
+  id?: string
+  instanceId:PrismaJson.InstanceId
+  status: $Enums.InstanceStatus
+  source: $Enums.InstanceSource
+  kind:PrismaJson.InstanceKind
+  parentId?: string | null
+  inputHashNonce?: number | null
+  selfHash?: number | null
+  inputHash?: number | null
+  outputHash?: number | null
+  dependencyOutputHash?: number | null
+  exportedArtifactIds?:PrismaJson.InstanceArtifactIds | Prisma.NullableJsonNullValueInput
+  model?:PrismaJson.InstanceModel | Prisma.NullableJsonNullValueInput
+  resolvedInputs?:PrismaJson.InstanceResolvedInputs | Prisma.NullableJsonNullValueInput
+  currentResourceCount?: number | null
+  statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
+  hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
+  children?: Prisma.InstanceStateUncheckedCreateNestedManyWithoutParentInput
+  evaluationState?: Prisma.InstanceEvaluationStateUncheckedCreateNestedOneWithoutStateInput
+  operationStates?: Prisma.InstanceOperationStateUncheckedCreateNestedManyWithoutStateInput
+  secrets?: Prisma.SecretUncheckedCreateNestedManyWithoutStateInput
+  terminals?: Prisma.TerminalUncheckedCreateNestedManyWithoutStateInput
+  pages?: Prisma.PageUncheckedCreateNestedManyWithoutStateInput
+  triggers?: Prisma.TriggerUncheckedCreateNestedManyWithoutStateInput
+  customStatuses?: Prisma.InstanceCustomStatusUncheckedCreateNestedManyWithoutStateInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedCreateNestedManyWithoutStateInput
+  artifacts?: Prisma.ArtifactUncheckedCreateNestedManyWithoutInstancesInput
+  operationLogs?: Prisma.OperationLogUncheckedCreateNestedManyWithoutStateInput
+  userViewports?: Prisma.UserCompositeViewportUncheckedCreateNestedManyWithoutStateInput
+  entitySnapshots?: Prisma.EntitySnapshotUncheckedCreateNestedManyWithoutStateInput
+}
+
+export type InstanceStateCreateOrConnectWithoutLockInput = {
+  where: Prisma.InstanceStateWhereUniqueInput
+  create: Prisma.XOR<Prisma.InstanceStateCreateWithoutLockInput, Prisma.InstanceStateUncheckedCreateWithoutLockInput>
+}
+
+export type InstanceStateUpsertWithoutLockInput = {
+  update: Prisma.XOR<Prisma.InstanceStateUpdateWithoutLockInput, Prisma.InstanceStateUncheckedUpdateWithoutLockInput>
+  create: Prisma.XOR<Prisma.InstanceStateCreateWithoutLockInput, Prisma.InstanceStateUncheckedCreateWithoutLockInput>
+  where?: Prisma.InstanceStateWhereInput
+}
+
+export type InstanceStateUpdateToOneWithWhereWithoutLockInput = {
+  where?: Prisma.InstanceStateWhereInput
+  data: Prisma.XOR<Prisma.InstanceStateUpdateWithoutLockInput, Prisma.InstanceStateUncheckedUpdateWithoutLockInput>
+}
+
+export type InstanceStateUpdateWithoutLockInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  instanceId?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumInstanceStatusFieldUpdateOperationsInput | $Enums.InstanceStatus
+  source?: Prisma.EnumInstanceSourceFieldUpdateOperationsInput | $Enums.InstanceSource
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  inputHashNonce?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  selfHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  inputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  outputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  dependencyOutputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  exportedArtifactIds?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  model?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  resolvedInputs?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  parent?: Prisma.InstanceStateUpdateOneWithoutChildrenNestedInput
+  children?: Prisma.InstanceStateUpdateManyWithoutParentNestedInput
+  evaluationState?: Prisma.InstanceEvaluationStateUpdateOneWithoutStateNestedInput
+  operationStates?: Prisma.InstanceOperationStateUpdateManyWithoutStateNestedInput
+  secrets?: Prisma.SecretUpdateManyWithoutStateNestedInput
+  terminals?: Prisma.TerminalUpdateManyWithoutStateNestedInput
+  pages?: Prisma.PageUpdateManyWithoutStateNestedInput
+  triggers?: Prisma.TriggerUpdateManyWithoutStateNestedInput
+  customStatuses?: Prisma.InstanceCustomStatusUpdateManyWithoutStateNestedInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUpdateManyWithoutStateNestedInput
+  artifacts?: Prisma.ArtifactUpdateManyWithoutInstancesNestedInput
+  operationLogs?: Prisma.OperationLogUpdateManyWithoutStateNestedInput
+  userViewports?: Prisma.UserCompositeViewportUpdateManyWithoutStateNestedInput
+  entitySnapshots?: Prisma.EntitySnapshotUpdateManyWithoutStateNestedInput
+}
+
+export type InstanceStateUncheckedUpdateWithoutLockInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  instanceId?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumInstanceStatusFieldUpdateOperationsInput | $Enums.InstanceStatus
+  source?: Prisma.EnumInstanceSourceFieldUpdateOperationsInput | $Enums.InstanceSource
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  parentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  inputHashNonce?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  selfHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  inputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  outputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  dependencyOutputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  exportedArtifactIds?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  model?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  resolvedInputs?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  children?: Prisma.InstanceStateUncheckedUpdateManyWithoutParentNestedInput
+  evaluationState?: Prisma.InstanceEvaluationStateUncheckedUpdateOneWithoutStateNestedInput
+  operationStates?: Prisma.InstanceOperationStateUncheckedUpdateManyWithoutStateNestedInput
+  secrets?: Prisma.SecretUncheckedUpdateManyWithoutStateNestedInput
+  terminals?: Prisma.TerminalUncheckedUpdateManyWithoutStateNestedInput
+  pages?: Prisma.PageUncheckedUpdateManyWithoutStateNestedInput
+  triggers?: Prisma.TriggerUncheckedUpdateManyWithoutStateNestedInput
+  customStatuses?: Prisma.InstanceCustomStatusUncheckedUpdateManyWithoutStateNestedInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedUpdateManyWithoutStateNestedInput
+  artifacts?: Prisma.ArtifactUncheckedUpdateManyWithoutInstancesNestedInput
+  operationLogs?: Prisma.OperationLogUncheckedUpdateManyWithoutStateNestedInput
+  userViewports?: Prisma.UserCompositeViewportUncheckedUpdateManyWithoutStateNestedInput
+  entitySnapshots?: Prisma.EntitySnapshotUncheckedUpdateManyWithoutStateNestedInput
+}
+
+export type InstanceStateCreateWithoutOperationStatesInput = {
+  id?: string
+  instanceId:PrismaJson.InstanceId
+  status: $Enums.InstanceStatus
+  source: $Enums.InstanceSource
+  kind:PrismaJson.InstanceKind
+  inputHashNonce?: number | null
+  selfHash?: number | null
+  inputHash?: number | null
+  outputHash?: number | null
+  dependencyOutputHash?: number | null
+  exportedArtifactIds?:PrismaJson.InstanceArtifactIds | Prisma.NullableJsonNullValueInput
+  model?:PrismaJson.InstanceModel | Prisma.NullableJsonNullValueInput
+  resolvedInputs?:PrismaJson.InstanceResolvedInputs | Prisma.NullableJsonNullValueInput
+  currentResourceCount?: number | null
+  statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
+  hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
+  parent?: Prisma.InstanceStateCreateNestedOneWithoutChildrenInput
+  children?: Prisma.InstanceStateCreateNestedManyWithoutParentInput
+  evaluationState?: Prisma.InstanceEvaluationStateCreateNestedOneWithoutStateInput
+  secrets?: Prisma.SecretCreateNestedManyWithoutStateInput
+  terminals?: Prisma.TerminalCreateNestedManyWithoutStateInput
+  pages?: Prisma.PageCreateNestedManyWithoutStateInput
+  triggers?: Prisma.TriggerCreateNestedManyWithoutStateInput
+  customStatuses?: Prisma.InstanceCustomStatusCreateNestedManyWithoutStateInput
+  lock?: Prisma.InstanceLockCreateNestedOneWithoutStateInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantCreateNestedManyWithoutStateInput
+  artifacts?: Prisma.ArtifactCreateNestedManyWithoutInstancesInput
+  operationLogs?: Prisma.OperationLogCreateNestedManyWithoutStateInput
+  userViewports?: Prisma.UserCompositeViewportCreateNestedManyWithoutStateInput
+  entitySnapshots?: Prisma.EntitySnapshotCreateNestedManyWithoutStateInput
+}
+
+export type InstanceStateUncheckedCreateWithoutOperationStatesInput = {
+  id?: string
+  instanceId:PrismaJson.InstanceId
+  status: $Enums.InstanceStatus
+  source: $Enums.InstanceSource
+  kind:PrismaJson.InstanceKind
+  parentId?: string | null
+  inputHashNonce?: number | null
+  selfHash?: number | null
+  inputHash?: number | null
+  outputHash?: number | null
+  dependencyOutputHash?: number | null
+  exportedArtifactIds?:PrismaJson.InstanceArtifactIds | Prisma.NullableJsonNullValueInput
+  model?:PrismaJson.InstanceModel | Prisma.NullableJsonNullValueInput
+  resolvedInputs?:PrismaJson.InstanceResolvedInputs | Prisma.NullableJsonNullValueInput
+  currentResourceCount?: number | null
+  statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
+  hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
+  children?: Prisma.InstanceStateUncheckedCreateNestedManyWithoutParentInput
+  evaluationState?: Prisma.InstanceEvaluationStateUncheckedCreateNestedOneWithoutStateInput
+  secrets?: Prisma.SecretUncheckedCreateNestedManyWithoutStateInput
+  terminals?: Prisma.TerminalUncheckedCreateNestedManyWithoutStateInput
+  pages?: Prisma.PageUncheckedCreateNestedManyWithoutStateInput
+  triggers?: Prisma.TriggerUncheckedCreateNestedManyWithoutStateInput
+  customStatuses?: Prisma.InstanceCustomStatusUncheckedCreateNestedManyWithoutStateInput
+  lock?: Prisma.InstanceLockUncheckedCreateNestedOneWithoutStateInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedCreateNestedManyWithoutStateInput
+  artifacts?: Prisma.ArtifactUncheckedCreateNestedManyWithoutInstancesInput
+  operationLogs?: Prisma.OperationLogUncheckedCreateNestedManyWithoutStateInput
+  userViewports?: Prisma.UserCompositeViewportUncheckedCreateNestedManyWithoutStateInput
+  entitySnapshots?: Prisma.EntitySnapshotUncheckedCreateNestedManyWithoutStateInput
+}
+
+export type InstanceStateCreateOrConnectWithoutOperationStatesInput = {
+  where: Prisma.InstanceStateWhereUniqueInput
+  create: Prisma.XOR<Prisma.InstanceStateCreateWithoutOperationStatesInput, Prisma.InstanceStateUncheckedCreateWithoutOperationStatesInput>
+}
+
+export type InstanceStateUpsertWithoutOperationStatesInput = {
+  update: Prisma.XOR<Prisma.InstanceStateUpdateWithoutOperationStatesInput, Prisma.InstanceStateUncheckedUpdateWithoutOperationStatesInput>
+  create: Prisma.XOR<Prisma.InstanceStateCreateWithoutOperationStatesInput, Prisma.InstanceStateUncheckedCreateWithoutOperationStatesInput>
+  where?: Prisma.InstanceStateWhereInput
+}
+
+export type InstanceStateUpdateToOneWithWhereWithoutOperationStatesInput = {
+  where?: Prisma.InstanceStateWhereInput
+  data: Prisma.XOR<Prisma.InstanceStateUpdateWithoutOperationStatesInput, Prisma.InstanceStateUncheckedUpdateWithoutOperationStatesInput>
+}
+
+export type InstanceStateUpdateWithoutOperationStatesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  instanceId?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumInstanceStatusFieldUpdateOperationsInput | $Enums.InstanceStatus
+  source?: Prisma.EnumInstanceSourceFieldUpdateOperationsInput | $Enums.InstanceSource
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  inputHashNonce?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  selfHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  inputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  outputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  dependencyOutputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  exportedArtifactIds?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  model?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  resolvedInputs?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  parent?: Prisma.InstanceStateUpdateOneWithoutChildrenNestedInput
+  children?: Prisma.InstanceStateUpdateManyWithoutParentNestedInput
+  evaluationState?: Prisma.InstanceEvaluationStateUpdateOneWithoutStateNestedInput
+  secrets?: Prisma.SecretUpdateManyWithoutStateNestedInput
+  terminals?: Prisma.TerminalUpdateManyWithoutStateNestedInput
+  pages?: Prisma.PageUpdateManyWithoutStateNestedInput
+  triggers?: Prisma.TriggerUpdateManyWithoutStateNestedInput
+  customStatuses?: Prisma.InstanceCustomStatusUpdateManyWithoutStateNestedInput
+  lock?: Prisma.InstanceLockUpdateOneWithoutStateNestedInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUpdateManyWithoutStateNestedInput
+  artifacts?: Prisma.ArtifactUpdateManyWithoutInstancesNestedInput
+  operationLogs?: Prisma.OperationLogUpdateManyWithoutStateNestedInput
+  userViewports?: Prisma.UserCompositeViewportUpdateManyWithoutStateNestedInput
+  entitySnapshots?: Prisma.EntitySnapshotUpdateManyWithoutStateNestedInput
+}
+
+export type InstanceStateUncheckedUpdateWithoutOperationStatesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  instanceId?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumInstanceStatusFieldUpdateOperationsInput | $Enums.InstanceStatus
+  source?: Prisma.EnumInstanceSourceFieldUpdateOperationsInput | $Enums.InstanceSource
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  parentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  inputHashNonce?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  selfHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  inputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  outputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  dependencyOutputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  exportedArtifactIds?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  model?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  resolvedInputs?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  children?: Prisma.InstanceStateUncheckedUpdateManyWithoutParentNestedInput
+  evaluationState?: Prisma.InstanceEvaluationStateUncheckedUpdateOneWithoutStateNestedInput
+  secrets?: Prisma.SecretUncheckedUpdateManyWithoutStateNestedInput
+  terminals?: Prisma.TerminalUncheckedUpdateManyWithoutStateNestedInput
+  pages?: Prisma.PageUncheckedUpdateManyWithoutStateNestedInput
+  triggers?: Prisma.TriggerUncheckedUpdateManyWithoutStateNestedInput
+  customStatuses?: Prisma.InstanceCustomStatusUncheckedUpdateManyWithoutStateNestedInput
+  lock?: Prisma.InstanceLockUncheckedUpdateOneWithoutStateNestedInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedUpdateManyWithoutStateNestedInput
+  artifacts?: Prisma.ArtifactUncheckedUpdateManyWithoutInstancesNestedInput
+  operationLogs?: Prisma.OperationLogUncheckedUpdateManyWithoutStateNestedInput
+  userViewports?: Prisma.UserCompositeViewportUncheckedUpdateManyWithoutStateNestedInput
+  entitySnapshots?: Prisma.EntitySnapshotUncheckedUpdateManyWithoutStateNestedInput
+}
+
+export type InstanceStateCreateWithoutOperationLogsInput = {
+  id?: string
+  instanceId:PrismaJson.InstanceId
+  status: $Enums.InstanceStatus
+  source: $Enums.InstanceSource
+  kind:PrismaJson.InstanceKind
+  inputHashNonce?: number | null
+  selfHash?: number | null
+  inputHash?: number | null
+  outputHash?: number | null
+  dependencyOutputHash?: number | null
+  exportedArtifactIds?:PrismaJson.InstanceArtifactIds | Prisma.NullableJsonNullValueInput
+  model?:PrismaJson.InstanceModel | Prisma.NullableJsonNullValueInput
+  resolvedInputs?:PrismaJson.InstanceResolvedInputs | Prisma.NullableJsonNullValueInput
+  currentResourceCount?: number | null
+  statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
+  hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
+  parent?: Prisma.InstanceStateCreateNestedOneWithoutChildrenInput
+  children?: Prisma.InstanceStateCreateNestedManyWithoutParentInput
+  evaluationState?: Prisma.InstanceEvaluationStateCreateNestedOneWithoutStateInput
+  operationStates?: Prisma.InstanceOperationStateCreateNestedManyWithoutStateInput
+  secrets?: Prisma.SecretCreateNestedManyWithoutStateInput
+  terminals?: Prisma.TerminalCreateNestedManyWithoutStateInput
+  pages?: Prisma.PageCreateNestedManyWithoutStateInput
+  triggers?: Prisma.TriggerCreateNestedManyWithoutStateInput
+  customStatuses?: Prisma.InstanceCustomStatusCreateNestedManyWithoutStateInput
+  lock?: Prisma.InstanceLockCreateNestedOneWithoutStateInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantCreateNestedManyWithoutStateInput
+  artifacts?: Prisma.ArtifactCreateNestedManyWithoutInstancesInput
+  userViewports?: Prisma.UserCompositeViewportCreateNestedManyWithoutStateInput
+  entitySnapshots?: Prisma.EntitySnapshotCreateNestedManyWithoutStateInput
+}
+
+export type InstanceStateUncheckedCreateWithoutOperationLogsInput = {
+  id?: string
+  instanceId:PrismaJson.InstanceId
+  status: $Enums.InstanceStatus
+  source: $Enums.InstanceSource
+  kind:PrismaJson.InstanceKind
+  parentId?: string | null
+  inputHashNonce?: number | null
+  selfHash?: number | null
+  inputHash?: number | null
+  outputHash?: number | null
+  dependencyOutputHash?: number | null
+  exportedArtifactIds?:PrismaJson.InstanceArtifactIds | Prisma.NullableJsonNullValueInput
+  model?:PrismaJson.InstanceModel | Prisma.NullableJsonNullValueInput
+  resolvedInputs?:PrismaJson.InstanceResolvedInputs | Prisma.NullableJsonNullValueInput
+  currentResourceCount?: number | null
+  statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
+  hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
+  children?: Prisma.InstanceStateUncheckedCreateNestedManyWithoutParentInput
+  evaluationState?: Prisma.InstanceEvaluationStateUncheckedCreateNestedOneWithoutStateInput
+  operationStates?: Prisma.InstanceOperationStateUncheckedCreateNestedManyWithoutStateInput
+  secrets?: Prisma.SecretUncheckedCreateNestedManyWithoutStateInput
+  terminals?: Prisma.TerminalUncheckedCreateNestedManyWithoutStateInput
+  pages?: Prisma.PageUncheckedCreateNestedManyWithoutStateInput
+  triggers?: Prisma.TriggerUncheckedCreateNestedManyWithoutStateInput
+  customStatuses?: Prisma.InstanceCustomStatusUncheckedCreateNestedManyWithoutStateInput
+  lock?: Prisma.InstanceLockUncheckedCreateNestedOneWithoutStateInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedCreateNestedManyWithoutStateInput
+  artifacts?: Prisma.ArtifactUncheckedCreateNestedManyWithoutInstancesInput
+  userViewports?: Prisma.UserCompositeViewportUncheckedCreateNestedManyWithoutStateInput
+  entitySnapshots?: Prisma.EntitySnapshotUncheckedCreateNestedManyWithoutStateInput
+}
+
+export type InstanceStateCreateOrConnectWithoutOperationLogsInput = {
+  where: Prisma.InstanceStateWhereUniqueInput
+  create: Prisma.XOR<Prisma.InstanceStateCreateWithoutOperationLogsInput, Prisma.InstanceStateUncheckedCreateWithoutOperationLogsInput>
+}
+
+export type InstanceStateUpsertWithoutOperationLogsInput = {
+  update: Prisma.XOR<Prisma.InstanceStateUpdateWithoutOperationLogsInput, Prisma.InstanceStateUncheckedUpdateWithoutOperationLogsInput>
+  create: Prisma.XOR<Prisma.InstanceStateCreateWithoutOperationLogsInput, Prisma.InstanceStateUncheckedCreateWithoutOperationLogsInput>
+  where?: Prisma.InstanceStateWhereInput
+}
+
+export type InstanceStateUpdateToOneWithWhereWithoutOperationLogsInput = {
+  where?: Prisma.InstanceStateWhereInput
+  data: Prisma.XOR<Prisma.InstanceStateUpdateWithoutOperationLogsInput, Prisma.InstanceStateUncheckedUpdateWithoutOperationLogsInput>
+}
+
+export type InstanceStateUpdateWithoutOperationLogsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  instanceId?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumInstanceStatusFieldUpdateOperationsInput | $Enums.InstanceStatus
+  source?: Prisma.EnumInstanceSourceFieldUpdateOperationsInput | $Enums.InstanceSource
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  inputHashNonce?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  selfHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  inputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  outputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  dependencyOutputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  exportedArtifactIds?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  model?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  resolvedInputs?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  parent?: Prisma.InstanceStateUpdateOneWithoutChildrenNestedInput
+  children?: Prisma.InstanceStateUpdateManyWithoutParentNestedInput
+  evaluationState?: Prisma.InstanceEvaluationStateUpdateOneWithoutStateNestedInput
+  operationStates?: Prisma.InstanceOperationStateUpdateManyWithoutStateNestedInput
+  secrets?: Prisma.SecretUpdateManyWithoutStateNestedInput
+  terminals?: Prisma.TerminalUpdateManyWithoutStateNestedInput
+  pages?: Prisma.PageUpdateManyWithoutStateNestedInput
+  triggers?: Prisma.TriggerUpdateManyWithoutStateNestedInput
+  customStatuses?: Prisma.InstanceCustomStatusUpdateManyWithoutStateNestedInput
+  lock?: Prisma.InstanceLockUpdateOneWithoutStateNestedInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUpdateManyWithoutStateNestedInput
+  artifacts?: Prisma.ArtifactUpdateManyWithoutInstancesNestedInput
+  userViewports?: Prisma.UserCompositeViewportUpdateManyWithoutStateNestedInput
+  entitySnapshots?: Prisma.EntitySnapshotUpdateManyWithoutStateNestedInput
+}
+
+export type InstanceStateUncheckedUpdateWithoutOperationLogsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  instanceId?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumInstanceStatusFieldUpdateOperationsInput | $Enums.InstanceStatus
+  source?: Prisma.EnumInstanceSourceFieldUpdateOperationsInput | $Enums.InstanceSource
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  parentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  inputHashNonce?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  selfHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  inputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  outputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  dependencyOutputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  exportedArtifactIds?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  model?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  resolvedInputs?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  children?: Prisma.InstanceStateUncheckedUpdateManyWithoutParentNestedInput
+  evaluationState?: Prisma.InstanceEvaluationStateUncheckedUpdateOneWithoutStateNestedInput
+  operationStates?: Prisma.InstanceOperationStateUncheckedUpdateManyWithoutStateNestedInput
+  secrets?: Prisma.SecretUncheckedUpdateManyWithoutStateNestedInput
+  terminals?: Prisma.TerminalUncheckedUpdateManyWithoutStateNestedInput
+  pages?: Prisma.PageUncheckedUpdateManyWithoutStateNestedInput
+  triggers?: Prisma.TriggerUncheckedUpdateManyWithoutStateNestedInput
+  customStatuses?: Prisma.InstanceCustomStatusUncheckedUpdateManyWithoutStateNestedInput
+  lock?: Prisma.InstanceLockUncheckedUpdateOneWithoutStateNestedInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedUpdateManyWithoutStateNestedInput
+  artifacts?: Prisma.ArtifactUncheckedUpdateManyWithoutInstancesNestedInput
+  userViewports?: Prisma.UserCompositeViewportUncheckedUpdateManyWithoutStateNestedInput
+  entitySnapshots?: Prisma.EntitySnapshotUncheckedUpdateManyWithoutStateNestedInput
+}
+
+export type InstanceStateCreateWithoutPagesInput = {
+  id?: string
+  instanceId:PrismaJson.InstanceId
+  status: $Enums.InstanceStatus
+  source: $Enums.InstanceSource
+  kind:PrismaJson.InstanceKind
+  inputHashNonce?: number | null
+  selfHash?: number | null
+  inputHash?: number | null
+  outputHash?: number | null
+  dependencyOutputHash?: number | null
+  exportedArtifactIds?:PrismaJson.InstanceArtifactIds | Prisma.NullableJsonNullValueInput
+  model?:PrismaJson.InstanceModel | Prisma.NullableJsonNullValueInput
+  resolvedInputs?:PrismaJson.InstanceResolvedInputs | Prisma.NullableJsonNullValueInput
+  currentResourceCount?: number | null
+  statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
+  hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
+  parent?: Prisma.InstanceStateCreateNestedOneWithoutChildrenInput
+  children?: Prisma.InstanceStateCreateNestedManyWithoutParentInput
+  evaluationState?: Prisma.InstanceEvaluationStateCreateNestedOneWithoutStateInput
+  operationStates?: Prisma.InstanceOperationStateCreateNestedManyWithoutStateInput
+  secrets?: Prisma.SecretCreateNestedManyWithoutStateInput
+  terminals?: Prisma.TerminalCreateNestedManyWithoutStateInput
+  triggers?: Prisma.TriggerCreateNestedManyWithoutStateInput
+  customStatuses?: Prisma.InstanceCustomStatusCreateNestedManyWithoutStateInput
+  lock?: Prisma.InstanceLockCreateNestedOneWithoutStateInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantCreateNestedManyWithoutStateInput
+  artifacts?: Prisma.ArtifactCreateNestedManyWithoutInstancesInput
+  operationLogs?: Prisma.OperationLogCreateNestedManyWithoutStateInput
+  userViewports?: Prisma.UserCompositeViewportCreateNestedManyWithoutStateInput
+  entitySnapshots?: Prisma.EntitySnapshotCreateNestedManyWithoutStateInput
+}
+
+export type InstanceStateUncheckedCreateWithoutPagesInput = {
+  id?: string
+  instanceId:PrismaJson.InstanceId
+  status: $Enums.InstanceStatus
+  source: $Enums.InstanceSource
+  kind:PrismaJson.InstanceKind
+  parentId?: string | null
+  inputHashNonce?: number | null
+  selfHash?: number | null
+  inputHash?: number | null
+  outputHash?: number | null
+  dependencyOutputHash?: number | null
+  exportedArtifactIds?:PrismaJson.InstanceArtifactIds | Prisma.NullableJsonNullValueInput
+  model?:PrismaJson.InstanceModel | Prisma.NullableJsonNullValueInput
+  resolvedInputs?:PrismaJson.InstanceResolvedInputs | Prisma.NullableJsonNullValueInput
+  currentResourceCount?: number | null
+  statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
+  hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
+  children?: Prisma.InstanceStateUncheckedCreateNestedManyWithoutParentInput
+  evaluationState?: Prisma.InstanceEvaluationStateUncheckedCreateNestedOneWithoutStateInput
+  operationStates?: Prisma.InstanceOperationStateUncheckedCreateNestedManyWithoutStateInput
+  secrets?: Prisma.SecretUncheckedCreateNestedManyWithoutStateInput
+  terminals?: Prisma.TerminalUncheckedCreateNestedManyWithoutStateInput
+  triggers?: Prisma.TriggerUncheckedCreateNestedManyWithoutStateInput
+  customStatuses?: Prisma.InstanceCustomStatusUncheckedCreateNestedManyWithoutStateInput
+  lock?: Prisma.InstanceLockUncheckedCreateNestedOneWithoutStateInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedCreateNestedManyWithoutStateInput
+  artifacts?: Prisma.ArtifactUncheckedCreateNestedManyWithoutInstancesInput
+  operationLogs?: Prisma.OperationLogUncheckedCreateNestedManyWithoutStateInput
+  userViewports?: Prisma.UserCompositeViewportUncheckedCreateNestedManyWithoutStateInput
+  entitySnapshots?: Prisma.EntitySnapshotUncheckedCreateNestedManyWithoutStateInput
+}
+
+export type InstanceStateCreateOrConnectWithoutPagesInput = {
+  where: Prisma.InstanceStateWhereUniqueInput
+  create: Prisma.XOR<Prisma.InstanceStateCreateWithoutPagesInput, Prisma.InstanceStateUncheckedCreateWithoutPagesInput>
+}
+
+export type InstanceStateUpsertWithoutPagesInput = {
+  update: Prisma.XOR<Prisma.InstanceStateUpdateWithoutPagesInput, Prisma.InstanceStateUncheckedUpdateWithoutPagesInput>
+  create: Prisma.XOR<Prisma.InstanceStateCreateWithoutPagesInput, Prisma.InstanceStateUncheckedCreateWithoutPagesInput>
+  where?: Prisma.InstanceStateWhereInput
+}
+
+export type InstanceStateUpdateToOneWithWhereWithoutPagesInput = {
+  where?: Prisma.InstanceStateWhereInput
+  data: Prisma.XOR<Prisma.InstanceStateUpdateWithoutPagesInput, Prisma.InstanceStateUncheckedUpdateWithoutPagesInput>
+}
+
+export type InstanceStateUpdateWithoutPagesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  instanceId?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumInstanceStatusFieldUpdateOperationsInput | $Enums.InstanceStatus
+  source?: Prisma.EnumInstanceSourceFieldUpdateOperationsInput | $Enums.InstanceSource
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  inputHashNonce?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  selfHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  inputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  outputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  dependencyOutputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  exportedArtifactIds?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  model?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  resolvedInputs?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  parent?: Prisma.InstanceStateUpdateOneWithoutChildrenNestedInput
+  children?: Prisma.InstanceStateUpdateManyWithoutParentNestedInput
+  evaluationState?: Prisma.InstanceEvaluationStateUpdateOneWithoutStateNestedInput
+  operationStates?: Prisma.InstanceOperationStateUpdateManyWithoutStateNestedInput
+  secrets?: Prisma.SecretUpdateManyWithoutStateNestedInput
+  terminals?: Prisma.TerminalUpdateManyWithoutStateNestedInput
+  triggers?: Prisma.TriggerUpdateManyWithoutStateNestedInput
+  customStatuses?: Prisma.InstanceCustomStatusUpdateManyWithoutStateNestedInput
+  lock?: Prisma.InstanceLockUpdateOneWithoutStateNestedInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUpdateManyWithoutStateNestedInput
+  artifacts?: Prisma.ArtifactUpdateManyWithoutInstancesNestedInput
+  operationLogs?: Prisma.OperationLogUpdateManyWithoutStateNestedInput
+  userViewports?: Prisma.UserCompositeViewportUpdateManyWithoutStateNestedInput
+  entitySnapshots?: Prisma.EntitySnapshotUpdateManyWithoutStateNestedInput
+}
+
+export type InstanceStateUncheckedUpdateWithoutPagesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  instanceId?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumInstanceStatusFieldUpdateOperationsInput | $Enums.InstanceStatus
+  source?: Prisma.EnumInstanceSourceFieldUpdateOperationsInput | $Enums.InstanceSource
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  parentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  inputHashNonce?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  selfHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  inputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  outputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  dependencyOutputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  exportedArtifactIds?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  model?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  resolvedInputs?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  children?: Prisma.InstanceStateUncheckedUpdateManyWithoutParentNestedInput
+  evaluationState?: Prisma.InstanceEvaluationStateUncheckedUpdateOneWithoutStateNestedInput
+  operationStates?: Prisma.InstanceOperationStateUncheckedUpdateManyWithoutStateNestedInput
+  secrets?: Prisma.SecretUncheckedUpdateManyWithoutStateNestedInput
+  terminals?: Prisma.TerminalUncheckedUpdateManyWithoutStateNestedInput
+  triggers?: Prisma.TriggerUncheckedUpdateManyWithoutStateNestedInput
+  customStatuses?: Prisma.InstanceCustomStatusUncheckedUpdateManyWithoutStateNestedInput
+  lock?: Prisma.InstanceLockUncheckedUpdateOneWithoutStateNestedInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedUpdateManyWithoutStateNestedInput
+  artifacts?: Prisma.ArtifactUncheckedUpdateManyWithoutInstancesNestedInput
+  operationLogs?: Prisma.OperationLogUncheckedUpdateManyWithoutStateNestedInput
+  userViewports?: Prisma.UserCompositeViewportUncheckedUpdateManyWithoutStateNestedInput
+  entitySnapshots?: Prisma.EntitySnapshotUncheckedUpdateManyWithoutStateNestedInput
+}
+
+export type InstanceStateCreateWithoutSecretsInput = {
+  id?: string
+  instanceId:PrismaJson.InstanceId
+  status: $Enums.InstanceStatus
+  source: $Enums.InstanceSource
+  kind:PrismaJson.InstanceKind
+  inputHashNonce?: number | null
+  selfHash?: number | null
+  inputHash?: number | null
+  outputHash?: number | null
+  dependencyOutputHash?: number | null
+  exportedArtifactIds?:PrismaJson.InstanceArtifactIds | Prisma.NullableJsonNullValueInput
+  model?:PrismaJson.InstanceModel | Prisma.NullableJsonNullValueInput
+  resolvedInputs?:PrismaJson.InstanceResolvedInputs | Prisma.NullableJsonNullValueInput
+  currentResourceCount?: number | null
+  statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
+  hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
+  parent?: Prisma.InstanceStateCreateNestedOneWithoutChildrenInput
+  children?: Prisma.InstanceStateCreateNestedManyWithoutParentInput
+  evaluationState?: Prisma.InstanceEvaluationStateCreateNestedOneWithoutStateInput
+  operationStates?: Prisma.InstanceOperationStateCreateNestedManyWithoutStateInput
+  terminals?: Prisma.TerminalCreateNestedManyWithoutStateInput
+  pages?: Prisma.PageCreateNestedManyWithoutStateInput
+  triggers?: Prisma.TriggerCreateNestedManyWithoutStateInput
+  customStatuses?: Prisma.InstanceCustomStatusCreateNestedManyWithoutStateInput
+  lock?: Prisma.InstanceLockCreateNestedOneWithoutStateInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantCreateNestedManyWithoutStateInput
+  artifacts?: Prisma.ArtifactCreateNestedManyWithoutInstancesInput
+  operationLogs?: Prisma.OperationLogCreateNestedManyWithoutStateInput
+  userViewports?: Prisma.UserCompositeViewportCreateNestedManyWithoutStateInput
+  entitySnapshots?: Prisma.EntitySnapshotCreateNestedManyWithoutStateInput
+}
+
+export type InstanceStateUncheckedCreateWithoutSecretsInput = {
+  id?: string
+  instanceId:PrismaJson.InstanceId
+  status: $Enums.InstanceStatus
+  source: $Enums.InstanceSource
+  kind:PrismaJson.InstanceKind
+  parentId?: string | null
+  inputHashNonce?: number | null
+  selfHash?: number | null
+  inputHash?: number | null
+  outputHash?: number | null
+  dependencyOutputHash?: number | null
+  exportedArtifactIds?:PrismaJson.InstanceArtifactIds | Prisma.NullableJsonNullValueInput
+  model?:PrismaJson.InstanceModel | Prisma.NullableJsonNullValueInput
+  resolvedInputs?:PrismaJson.InstanceResolvedInputs | Prisma.NullableJsonNullValueInput
+  currentResourceCount?: number | null
+  statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
+  hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
+  children?: Prisma.InstanceStateUncheckedCreateNestedManyWithoutParentInput
+  evaluationState?: Prisma.InstanceEvaluationStateUncheckedCreateNestedOneWithoutStateInput
+  operationStates?: Prisma.InstanceOperationStateUncheckedCreateNestedManyWithoutStateInput
+  terminals?: Prisma.TerminalUncheckedCreateNestedManyWithoutStateInput
+  pages?: Prisma.PageUncheckedCreateNestedManyWithoutStateInput
+  triggers?: Prisma.TriggerUncheckedCreateNestedManyWithoutStateInput
+  customStatuses?: Prisma.InstanceCustomStatusUncheckedCreateNestedManyWithoutStateInput
+  lock?: Prisma.InstanceLockUncheckedCreateNestedOneWithoutStateInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedCreateNestedManyWithoutStateInput
+  artifacts?: Prisma.ArtifactUncheckedCreateNestedManyWithoutInstancesInput
+  operationLogs?: Prisma.OperationLogUncheckedCreateNestedManyWithoutStateInput
+  userViewports?: Prisma.UserCompositeViewportUncheckedCreateNestedManyWithoutStateInput
+  entitySnapshots?: Prisma.EntitySnapshotUncheckedCreateNestedManyWithoutStateInput
+}
+
+export type InstanceStateCreateOrConnectWithoutSecretsInput = {
+  where: Prisma.InstanceStateWhereUniqueInput
+  create: Prisma.XOR<Prisma.InstanceStateCreateWithoutSecretsInput, Prisma.InstanceStateUncheckedCreateWithoutSecretsInput>
+}
+
+export type InstanceStateUpsertWithoutSecretsInput = {
+  update: Prisma.XOR<Prisma.InstanceStateUpdateWithoutSecretsInput, Prisma.InstanceStateUncheckedUpdateWithoutSecretsInput>
+  create: Prisma.XOR<Prisma.InstanceStateCreateWithoutSecretsInput, Prisma.InstanceStateUncheckedCreateWithoutSecretsInput>
+  where?: Prisma.InstanceStateWhereInput
+}
+
+export type InstanceStateUpdateToOneWithWhereWithoutSecretsInput = {
+  where?: Prisma.InstanceStateWhereInput
+  data: Prisma.XOR<Prisma.InstanceStateUpdateWithoutSecretsInput, Prisma.InstanceStateUncheckedUpdateWithoutSecretsInput>
+}
+
+export type InstanceStateUpdateWithoutSecretsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  instanceId?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumInstanceStatusFieldUpdateOperationsInput | $Enums.InstanceStatus
+  source?: Prisma.EnumInstanceSourceFieldUpdateOperationsInput | $Enums.InstanceSource
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  inputHashNonce?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  selfHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  inputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  outputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  dependencyOutputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  exportedArtifactIds?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  model?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  resolvedInputs?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  parent?: Prisma.InstanceStateUpdateOneWithoutChildrenNestedInput
+  children?: Prisma.InstanceStateUpdateManyWithoutParentNestedInput
+  evaluationState?: Prisma.InstanceEvaluationStateUpdateOneWithoutStateNestedInput
+  operationStates?: Prisma.InstanceOperationStateUpdateManyWithoutStateNestedInput
+  terminals?: Prisma.TerminalUpdateManyWithoutStateNestedInput
+  pages?: Prisma.PageUpdateManyWithoutStateNestedInput
+  triggers?: Prisma.TriggerUpdateManyWithoutStateNestedInput
+  customStatuses?: Prisma.InstanceCustomStatusUpdateManyWithoutStateNestedInput
+  lock?: Prisma.InstanceLockUpdateOneWithoutStateNestedInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUpdateManyWithoutStateNestedInput
+  artifacts?: Prisma.ArtifactUpdateManyWithoutInstancesNestedInput
+  operationLogs?: Prisma.OperationLogUpdateManyWithoutStateNestedInput
+  userViewports?: Prisma.UserCompositeViewportUpdateManyWithoutStateNestedInput
+  entitySnapshots?: Prisma.EntitySnapshotUpdateManyWithoutStateNestedInput
+}
+
+export type InstanceStateUncheckedUpdateWithoutSecretsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  instanceId?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumInstanceStatusFieldUpdateOperationsInput | $Enums.InstanceStatus
+  source?: Prisma.EnumInstanceSourceFieldUpdateOperationsInput | $Enums.InstanceSource
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  parentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  inputHashNonce?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  selfHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  inputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  outputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  dependencyOutputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  exportedArtifactIds?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  model?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  resolvedInputs?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  children?: Prisma.InstanceStateUncheckedUpdateManyWithoutParentNestedInput
+  evaluationState?: Prisma.InstanceEvaluationStateUncheckedUpdateOneWithoutStateNestedInput
+  operationStates?: Prisma.InstanceOperationStateUncheckedUpdateManyWithoutStateNestedInput
+  terminals?: Prisma.TerminalUncheckedUpdateManyWithoutStateNestedInput
+  pages?: Prisma.PageUncheckedUpdateManyWithoutStateNestedInput
+  triggers?: Prisma.TriggerUncheckedUpdateManyWithoutStateNestedInput
+  customStatuses?: Prisma.InstanceCustomStatusUncheckedUpdateManyWithoutStateNestedInput
+  lock?: Prisma.InstanceLockUncheckedUpdateOneWithoutStateNestedInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedUpdateManyWithoutStateNestedInput
+  artifacts?: Prisma.ArtifactUncheckedUpdateManyWithoutInstancesNestedInput
+  operationLogs?: Prisma.OperationLogUncheckedUpdateManyWithoutStateNestedInput
+  userViewports?: Prisma.UserCompositeViewportUncheckedUpdateManyWithoutStateNestedInput
+  entitySnapshots?: Prisma.EntitySnapshotUncheckedUpdateManyWithoutStateNestedInput
+}
+
+export type InstanceStateCreateWithoutServiceAccountGrantsInput = {
+  id?: string
+  instanceId:PrismaJson.InstanceId
+  status: $Enums.InstanceStatus
+  source: $Enums.InstanceSource
+  kind:PrismaJson.InstanceKind
+  inputHashNonce?: number | null
+  selfHash?: number | null
+  inputHash?: number | null
+  outputHash?: number | null
+  dependencyOutputHash?: number | null
+  exportedArtifactIds?:PrismaJson.InstanceArtifactIds | Prisma.NullableJsonNullValueInput
+  model?:PrismaJson.InstanceModel | Prisma.NullableJsonNullValueInput
+  resolvedInputs?:PrismaJson.InstanceResolvedInputs | Prisma.NullableJsonNullValueInput
+  currentResourceCount?: number | null
+  statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
+  hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
+  parent?: Prisma.InstanceStateCreateNestedOneWithoutChildrenInput
+  children?: Prisma.InstanceStateCreateNestedManyWithoutParentInput
+  evaluationState?: Prisma.InstanceEvaluationStateCreateNestedOneWithoutStateInput
+  operationStates?: Prisma.InstanceOperationStateCreateNestedManyWithoutStateInput
+  secrets?: Prisma.SecretCreateNestedManyWithoutStateInput
+  terminals?: Prisma.TerminalCreateNestedManyWithoutStateInput
+  pages?: Prisma.PageCreateNestedManyWithoutStateInput
+  triggers?: Prisma.TriggerCreateNestedManyWithoutStateInput
+  customStatuses?: Prisma.InstanceCustomStatusCreateNestedManyWithoutStateInput
+  lock?: Prisma.InstanceLockCreateNestedOneWithoutStateInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationCreateNestedManyWithoutStateInput
+  artifacts?: Prisma.ArtifactCreateNestedManyWithoutInstancesInput
+  operationLogs?: Prisma.OperationLogCreateNestedManyWithoutStateInput
+  userViewports?: Prisma.UserCompositeViewportCreateNestedManyWithoutStateInput
+  entitySnapshots?: Prisma.EntitySnapshotCreateNestedManyWithoutStateInput
+}
+
+export type InstanceStateUncheckedCreateWithoutServiceAccountGrantsInput = {
+  id?: string
+  instanceId:PrismaJson.InstanceId
+  status: $Enums.InstanceStatus
+  source: $Enums.InstanceSource
+  kind:PrismaJson.InstanceKind
+  parentId?: string | null
+  inputHashNonce?: number | null
+  selfHash?: number | null
+  inputHash?: number | null
+  outputHash?: number | null
+  dependencyOutputHash?: number | null
+  exportedArtifactIds?:PrismaJson.InstanceArtifactIds | Prisma.NullableJsonNullValueInput
+  model?:PrismaJson.InstanceModel | Prisma.NullableJsonNullValueInput
+  resolvedInputs?:PrismaJson.InstanceResolvedInputs | Prisma.NullableJsonNullValueInput
+  currentResourceCount?: number | null
+  statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
+  hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
+  children?: Prisma.InstanceStateUncheckedCreateNestedManyWithoutParentInput
+  evaluationState?: Prisma.InstanceEvaluationStateUncheckedCreateNestedOneWithoutStateInput
+  operationStates?: Prisma.InstanceOperationStateUncheckedCreateNestedManyWithoutStateInput
+  secrets?: Prisma.SecretUncheckedCreateNestedManyWithoutStateInput
+  terminals?: Prisma.TerminalUncheckedCreateNestedManyWithoutStateInput
+  pages?: Prisma.PageUncheckedCreateNestedManyWithoutStateInput
+  triggers?: Prisma.TriggerUncheckedCreateNestedManyWithoutStateInput
+  customStatuses?: Prisma.InstanceCustomStatusUncheckedCreateNestedManyWithoutStateInput
+  lock?: Prisma.InstanceLockUncheckedCreateNestedOneWithoutStateInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedCreateNestedManyWithoutStateInput
+  artifacts?: Prisma.ArtifactUncheckedCreateNestedManyWithoutInstancesInput
+  operationLogs?: Prisma.OperationLogUncheckedCreateNestedManyWithoutStateInput
+  userViewports?: Prisma.UserCompositeViewportUncheckedCreateNestedManyWithoutStateInput
+  entitySnapshots?: Prisma.EntitySnapshotUncheckedCreateNestedManyWithoutStateInput
+}
+
+export type InstanceStateCreateOrConnectWithoutServiceAccountGrantsInput = {
+  where: Prisma.InstanceStateWhereUniqueInput
+  create: Prisma.XOR<Prisma.InstanceStateCreateWithoutServiceAccountGrantsInput, Prisma.InstanceStateUncheckedCreateWithoutServiceAccountGrantsInput>
+}
+
+export type InstanceStateUpsertWithoutServiceAccountGrantsInput = {
+  update: Prisma.XOR<Prisma.InstanceStateUpdateWithoutServiceAccountGrantsInput, Prisma.InstanceStateUncheckedUpdateWithoutServiceAccountGrantsInput>
+  create: Prisma.XOR<Prisma.InstanceStateCreateWithoutServiceAccountGrantsInput, Prisma.InstanceStateUncheckedCreateWithoutServiceAccountGrantsInput>
+  where?: Prisma.InstanceStateWhereInput
+}
+
+export type InstanceStateUpdateToOneWithWhereWithoutServiceAccountGrantsInput = {
+  where?: Prisma.InstanceStateWhereInput
+  data: Prisma.XOR<Prisma.InstanceStateUpdateWithoutServiceAccountGrantsInput, Prisma.InstanceStateUncheckedUpdateWithoutServiceAccountGrantsInput>
+}
+
+export type InstanceStateUpdateWithoutServiceAccountGrantsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  instanceId?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumInstanceStatusFieldUpdateOperationsInput | $Enums.InstanceStatus
+  source?: Prisma.EnumInstanceSourceFieldUpdateOperationsInput | $Enums.InstanceSource
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  inputHashNonce?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  selfHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  inputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  outputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  dependencyOutputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  exportedArtifactIds?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  model?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  resolvedInputs?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  parent?: Prisma.InstanceStateUpdateOneWithoutChildrenNestedInput
+  children?: Prisma.InstanceStateUpdateManyWithoutParentNestedInput
+  evaluationState?: Prisma.InstanceEvaluationStateUpdateOneWithoutStateNestedInput
+  operationStates?: Prisma.InstanceOperationStateUpdateManyWithoutStateNestedInput
+  secrets?: Prisma.SecretUpdateManyWithoutStateNestedInput
+  terminals?: Prisma.TerminalUpdateManyWithoutStateNestedInput
+  pages?: Prisma.PageUpdateManyWithoutStateNestedInput
+  triggers?: Prisma.TriggerUpdateManyWithoutStateNestedInput
+  customStatuses?: Prisma.InstanceCustomStatusUpdateManyWithoutStateNestedInput
+  lock?: Prisma.InstanceLockUpdateOneWithoutStateNestedInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationUpdateManyWithoutStateNestedInput
+  artifacts?: Prisma.ArtifactUpdateManyWithoutInstancesNestedInput
+  operationLogs?: Prisma.OperationLogUpdateManyWithoutStateNestedInput
+  userViewports?: Prisma.UserCompositeViewportUpdateManyWithoutStateNestedInput
+  entitySnapshots?: Prisma.EntitySnapshotUpdateManyWithoutStateNestedInput
+}
+
+export type InstanceStateUncheckedUpdateWithoutServiceAccountGrantsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  instanceId?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumInstanceStatusFieldUpdateOperationsInput | $Enums.InstanceStatus
+  source?: Prisma.EnumInstanceSourceFieldUpdateOperationsInput | $Enums.InstanceSource
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  parentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  inputHashNonce?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  selfHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  inputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  outputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  dependencyOutputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  exportedArtifactIds?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  model?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  resolvedInputs?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  children?: Prisma.InstanceStateUncheckedUpdateManyWithoutParentNestedInput
+  evaluationState?: Prisma.InstanceEvaluationStateUncheckedUpdateOneWithoutStateNestedInput
+  operationStates?: Prisma.InstanceOperationStateUncheckedUpdateManyWithoutStateNestedInput
+  secrets?: Prisma.SecretUncheckedUpdateManyWithoutStateNestedInput
+  terminals?: Prisma.TerminalUncheckedUpdateManyWithoutStateNestedInput
+  pages?: Prisma.PageUncheckedUpdateManyWithoutStateNestedInput
+  triggers?: Prisma.TriggerUncheckedUpdateManyWithoutStateNestedInput
+  customStatuses?: Prisma.InstanceCustomStatusUncheckedUpdateManyWithoutStateNestedInput
+  lock?: Prisma.InstanceLockUncheckedUpdateOneWithoutStateNestedInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedUpdateManyWithoutStateNestedInput
+  artifacts?: Prisma.ArtifactUncheckedUpdateManyWithoutInstancesNestedInput
+  operationLogs?: Prisma.OperationLogUncheckedUpdateManyWithoutStateNestedInput
+  userViewports?: Prisma.UserCompositeViewportUncheckedUpdateManyWithoutStateNestedInput
+  entitySnapshots?: Prisma.EntitySnapshotUncheckedUpdateManyWithoutStateNestedInput
+}
+
+export type InstanceStateCreateWithoutTerminalsInput = {
+  id?: string
+  instanceId:PrismaJson.InstanceId
+  status: $Enums.InstanceStatus
+  source: $Enums.InstanceSource
+  kind:PrismaJson.InstanceKind
+  inputHashNonce?: number | null
+  selfHash?: number | null
+  inputHash?: number | null
+  outputHash?: number | null
+  dependencyOutputHash?: number | null
+  exportedArtifactIds?:PrismaJson.InstanceArtifactIds | Prisma.NullableJsonNullValueInput
+  model?:PrismaJson.InstanceModel | Prisma.NullableJsonNullValueInput
+  resolvedInputs?:PrismaJson.InstanceResolvedInputs | Prisma.NullableJsonNullValueInput
+  currentResourceCount?: number | null
+  statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
+  hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
+  parent?: Prisma.InstanceStateCreateNestedOneWithoutChildrenInput
+  children?: Prisma.InstanceStateCreateNestedManyWithoutParentInput
+  evaluationState?: Prisma.InstanceEvaluationStateCreateNestedOneWithoutStateInput
+  operationStates?: Prisma.InstanceOperationStateCreateNestedManyWithoutStateInput
+  secrets?: Prisma.SecretCreateNestedManyWithoutStateInput
+  pages?: Prisma.PageCreateNestedManyWithoutStateInput
+  triggers?: Prisma.TriggerCreateNestedManyWithoutStateInput
+  customStatuses?: Prisma.InstanceCustomStatusCreateNestedManyWithoutStateInput
+  lock?: Prisma.InstanceLockCreateNestedOneWithoutStateInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantCreateNestedManyWithoutStateInput
+  artifacts?: Prisma.ArtifactCreateNestedManyWithoutInstancesInput
+  operationLogs?: Prisma.OperationLogCreateNestedManyWithoutStateInput
+  userViewports?: Prisma.UserCompositeViewportCreateNestedManyWithoutStateInput
+  entitySnapshots?: Prisma.EntitySnapshotCreateNestedManyWithoutStateInput
+}
+
+export type InstanceStateUncheckedCreateWithoutTerminalsInput = {
+  id?: string
+  instanceId:PrismaJson.InstanceId
+  status: $Enums.InstanceStatus
+  source: $Enums.InstanceSource
+  kind:PrismaJson.InstanceKind
+  parentId?: string | null
+  inputHashNonce?: number | null
+  selfHash?: number | null
+  inputHash?: number | null
+  outputHash?: number | null
+  dependencyOutputHash?: number | null
+  exportedArtifactIds?:PrismaJson.InstanceArtifactIds | Prisma.NullableJsonNullValueInput
+  model?:PrismaJson.InstanceModel | Prisma.NullableJsonNullValueInput
+  resolvedInputs?:PrismaJson.InstanceResolvedInputs | Prisma.NullableJsonNullValueInput
+  currentResourceCount?: number | null
+  statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
+  hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
+  children?: Prisma.InstanceStateUncheckedCreateNestedManyWithoutParentInput
+  evaluationState?: Prisma.InstanceEvaluationStateUncheckedCreateNestedOneWithoutStateInput
+  operationStates?: Prisma.InstanceOperationStateUncheckedCreateNestedManyWithoutStateInput
+  secrets?: Prisma.SecretUncheckedCreateNestedManyWithoutStateInput
+  pages?: Prisma.PageUncheckedCreateNestedManyWithoutStateInput
+  triggers?: Prisma.TriggerUncheckedCreateNestedManyWithoutStateInput
+  customStatuses?: Prisma.InstanceCustomStatusUncheckedCreateNestedManyWithoutStateInput
+  lock?: Prisma.InstanceLockUncheckedCreateNestedOneWithoutStateInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedCreateNestedManyWithoutStateInput
+  artifacts?: Prisma.ArtifactUncheckedCreateNestedManyWithoutInstancesInput
+  operationLogs?: Prisma.OperationLogUncheckedCreateNestedManyWithoutStateInput
+  userViewports?: Prisma.UserCompositeViewportUncheckedCreateNestedManyWithoutStateInput
+  entitySnapshots?: Prisma.EntitySnapshotUncheckedCreateNestedManyWithoutStateInput
+}
+
+export type InstanceStateCreateOrConnectWithoutTerminalsInput = {
+  where: Prisma.InstanceStateWhereUniqueInput
+  create: Prisma.XOR<Prisma.InstanceStateCreateWithoutTerminalsInput, Prisma.InstanceStateUncheckedCreateWithoutTerminalsInput>
+}
+
+export type InstanceStateUpsertWithoutTerminalsInput = {
+  update: Prisma.XOR<Prisma.InstanceStateUpdateWithoutTerminalsInput, Prisma.InstanceStateUncheckedUpdateWithoutTerminalsInput>
+  create: Prisma.XOR<Prisma.InstanceStateCreateWithoutTerminalsInput, Prisma.InstanceStateUncheckedCreateWithoutTerminalsInput>
+  where?: Prisma.InstanceStateWhereInput
+}
+
+export type InstanceStateUpdateToOneWithWhereWithoutTerminalsInput = {
+  where?: Prisma.InstanceStateWhereInput
+  data: Prisma.XOR<Prisma.InstanceStateUpdateWithoutTerminalsInput, Prisma.InstanceStateUncheckedUpdateWithoutTerminalsInput>
+}
+
+export type InstanceStateUpdateWithoutTerminalsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  instanceId?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumInstanceStatusFieldUpdateOperationsInput | $Enums.InstanceStatus
+  source?: Prisma.EnumInstanceSourceFieldUpdateOperationsInput | $Enums.InstanceSource
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  inputHashNonce?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  selfHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  inputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  outputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  dependencyOutputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  exportedArtifactIds?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  model?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  resolvedInputs?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  parent?: Prisma.InstanceStateUpdateOneWithoutChildrenNestedInput
+  children?: Prisma.InstanceStateUpdateManyWithoutParentNestedInput
+  evaluationState?: Prisma.InstanceEvaluationStateUpdateOneWithoutStateNestedInput
+  operationStates?: Prisma.InstanceOperationStateUpdateManyWithoutStateNestedInput
+  secrets?: Prisma.SecretUpdateManyWithoutStateNestedInput
+  pages?: Prisma.PageUpdateManyWithoutStateNestedInput
+  triggers?: Prisma.TriggerUpdateManyWithoutStateNestedInput
+  customStatuses?: Prisma.InstanceCustomStatusUpdateManyWithoutStateNestedInput
+  lock?: Prisma.InstanceLockUpdateOneWithoutStateNestedInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUpdateManyWithoutStateNestedInput
+  artifacts?: Prisma.ArtifactUpdateManyWithoutInstancesNestedInput
+  operationLogs?: Prisma.OperationLogUpdateManyWithoutStateNestedInput
+  userViewports?: Prisma.UserCompositeViewportUpdateManyWithoutStateNestedInput
+  entitySnapshots?: Prisma.EntitySnapshotUpdateManyWithoutStateNestedInput
+}
+
+export type InstanceStateUncheckedUpdateWithoutTerminalsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  instanceId?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumInstanceStatusFieldUpdateOperationsInput | $Enums.InstanceStatus
+  source?: Prisma.EnumInstanceSourceFieldUpdateOperationsInput | $Enums.InstanceSource
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  parentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  inputHashNonce?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  selfHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  inputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  outputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  dependencyOutputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  exportedArtifactIds?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  model?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  resolvedInputs?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  children?: Prisma.InstanceStateUncheckedUpdateManyWithoutParentNestedInput
+  evaluationState?: Prisma.InstanceEvaluationStateUncheckedUpdateOneWithoutStateNestedInput
+  operationStates?: Prisma.InstanceOperationStateUncheckedUpdateManyWithoutStateNestedInput
+  secrets?: Prisma.SecretUncheckedUpdateManyWithoutStateNestedInput
+  pages?: Prisma.PageUncheckedUpdateManyWithoutStateNestedInput
+  triggers?: Prisma.TriggerUncheckedUpdateManyWithoutStateNestedInput
+  customStatuses?: Prisma.InstanceCustomStatusUncheckedUpdateManyWithoutStateNestedInput
+  lock?: Prisma.InstanceLockUncheckedUpdateOneWithoutStateNestedInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedUpdateManyWithoutStateNestedInput
+  artifacts?: Prisma.ArtifactUncheckedUpdateManyWithoutInstancesNestedInput
+  operationLogs?: Prisma.OperationLogUncheckedUpdateManyWithoutStateNestedInput
+  userViewports?: Prisma.UserCompositeViewportUncheckedUpdateManyWithoutStateNestedInput
+  entitySnapshots?: Prisma.EntitySnapshotUncheckedUpdateManyWithoutStateNestedInput
+}
+
+export type InstanceStateCreateWithoutTriggersInput = {
+  id?: string
+  instanceId:PrismaJson.InstanceId
+  status: $Enums.InstanceStatus
+  source: $Enums.InstanceSource
+  kind:PrismaJson.InstanceKind
+  inputHashNonce?: number | null
+  selfHash?: number | null
+  inputHash?: number | null
+  outputHash?: number | null
+  dependencyOutputHash?: number | null
+  exportedArtifactIds?:PrismaJson.InstanceArtifactIds | Prisma.NullableJsonNullValueInput
+  model?:PrismaJson.InstanceModel | Prisma.NullableJsonNullValueInput
+  resolvedInputs?:PrismaJson.InstanceResolvedInputs | Prisma.NullableJsonNullValueInput
+  currentResourceCount?: number | null
+  statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
+  hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
+  parent?: Prisma.InstanceStateCreateNestedOneWithoutChildrenInput
+  children?: Prisma.InstanceStateCreateNestedManyWithoutParentInput
+  evaluationState?: Prisma.InstanceEvaluationStateCreateNestedOneWithoutStateInput
+  operationStates?: Prisma.InstanceOperationStateCreateNestedManyWithoutStateInput
+  secrets?: Prisma.SecretCreateNestedManyWithoutStateInput
+  terminals?: Prisma.TerminalCreateNestedManyWithoutStateInput
+  pages?: Prisma.PageCreateNestedManyWithoutStateInput
+  customStatuses?: Prisma.InstanceCustomStatusCreateNestedManyWithoutStateInput
+  lock?: Prisma.InstanceLockCreateNestedOneWithoutStateInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantCreateNestedManyWithoutStateInput
+  artifacts?: Prisma.ArtifactCreateNestedManyWithoutInstancesInput
+  operationLogs?: Prisma.OperationLogCreateNestedManyWithoutStateInput
+  userViewports?: Prisma.UserCompositeViewportCreateNestedManyWithoutStateInput
+  entitySnapshots?: Prisma.EntitySnapshotCreateNestedManyWithoutStateInput
+}
+
+export type InstanceStateUncheckedCreateWithoutTriggersInput = {
+  id?: string
+  instanceId:PrismaJson.InstanceId
+  status: $Enums.InstanceStatus
+  source: $Enums.InstanceSource
+  kind:PrismaJson.InstanceKind
+  parentId?: string | null
+  inputHashNonce?: number | null
+  selfHash?: number | null
+  inputHash?: number | null
+  outputHash?: number | null
+  dependencyOutputHash?: number | null
+  exportedArtifactIds?:PrismaJson.InstanceArtifactIds | Prisma.NullableJsonNullValueInput
+  model?:PrismaJson.InstanceModel | Prisma.NullableJsonNullValueInput
+  resolvedInputs?:PrismaJson.InstanceResolvedInputs | Prisma.NullableJsonNullValueInput
+  currentResourceCount?: number | null
+  statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
+  hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
+  children?: Prisma.InstanceStateUncheckedCreateNestedManyWithoutParentInput
+  evaluationState?: Prisma.InstanceEvaluationStateUncheckedCreateNestedOneWithoutStateInput
+  operationStates?: Prisma.InstanceOperationStateUncheckedCreateNestedManyWithoutStateInput
+  secrets?: Prisma.SecretUncheckedCreateNestedManyWithoutStateInput
+  terminals?: Prisma.TerminalUncheckedCreateNestedManyWithoutStateInput
+  pages?: Prisma.PageUncheckedCreateNestedManyWithoutStateInput
+  customStatuses?: Prisma.InstanceCustomStatusUncheckedCreateNestedManyWithoutStateInput
+  lock?: Prisma.InstanceLockUncheckedCreateNestedOneWithoutStateInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedCreateNestedManyWithoutStateInput
+  artifacts?: Prisma.ArtifactUncheckedCreateNestedManyWithoutInstancesInput
+  operationLogs?: Prisma.OperationLogUncheckedCreateNestedManyWithoutStateInput
+  userViewports?: Prisma.UserCompositeViewportUncheckedCreateNestedManyWithoutStateInput
+  entitySnapshots?: Prisma.EntitySnapshotUncheckedCreateNestedManyWithoutStateInput
+}
+
+export type InstanceStateCreateOrConnectWithoutTriggersInput = {
+  where: Prisma.InstanceStateWhereUniqueInput
+  create: Prisma.XOR<Prisma.InstanceStateCreateWithoutTriggersInput, Prisma.InstanceStateUncheckedCreateWithoutTriggersInput>
+}
+
+export type InstanceStateUpsertWithoutTriggersInput = {
+  update: Prisma.XOR<Prisma.InstanceStateUpdateWithoutTriggersInput, Prisma.InstanceStateUncheckedUpdateWithoutTriggersInput>
+  create: Prisma.XOR<Prisma.InstanceStateCreateWithoutTriggersInput, Prisma.InstanceStateUncheckedCreateWithoutTriggersInput>
+  where?: Prisma.InstanceStateWhereInput
+}
+
+export type InstanceStateUpdateToOneWithWhereWithoutTriggersInput = {
+  where?: Prisma.InstanceStateWhereInput
+  data: Prisma.XOR<Prisma.InstanceStateUpdateWithoutTriggersInput, Prisma.InstanceStateUncheckedUpdateWithoutTriggersInput>
+}
+
+export type InstanceStateUpdateWithoutTriggersInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  instanceId?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumInstanceStatusFieldUpdateOperationsInput | $Enums.InstanceStatus
+  source?: Prisma.EnumInstanceSourceFieldUpdateOperationsInput | $Enums.InstanceSource
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  inputHashNonce?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  selfHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  inputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  outputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  dependencyOutputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  exportedArtifactIds?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  model?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  resolvedInputs?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  parent?: Prisma.InstanceStateUpdateOneWithoutChildrenNestedInput
+  children?: Prisma.InstanceStateUpdateManyWithoutParentNestedInput
+  evaluationState?: Prisma.InstanceEvaluationStateUpdateOneWithoutStateNestedInput
+  operationStates?: Prisma.InstanceOperationStateUpdateManyWithoutStateNestedInput
+  secrets?: Prisma.SecretUpdateManyWithoutStateNestedInput
+  terminals?: Prisma.TerminalUpdateManyWithoutStateNestedInput
+  pages?: Prisma.PageUpdateManyWithoutStateNestedInput
+  customStatuses?: Prisma.InstanceCustomStatusUpdateManyWithoutStateNestedInput
+  lock?: Prisma.InstanceLockUpdateOneWithoutStateNestedInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUpdateManyWithoutStateNestedInput
+  artifacts?: Prisma.ArtifactUpdateManyWithoutInstancesNestedInput
+  operationLogs?: Prisma.OperationLogUpdateManyWithoutStateNestedInput
+  userViewports?: Prisma.UserCompositeViewportUpdateManyWithoutStateNestedInput
+  entitySnapshots?: Prisma.EntitySnapshotUpdateManyWithoutStateNestedInput
+}
+
+export type InstanceStateUncheckedUpdateWithoutTriggersInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  instanceId?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumInstanceStatusFieldUpdateOperationsInput | $Enums.InstanceStatus
+  source?: Prisma.EnumInstanceSourceFieldUpdateOperationsInput | $Enums.InstanceSource
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  parentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  inputHashNonce?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  selfHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  inputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  outputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  dependencyOutputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  exportedArtifactIds?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  model?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  resolvedInputs?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  children?: Prisma.InstanceStateUncheckedUpdateManyWithoutParentNestedInput
+  evaluationState?: Prisma.InstanceEvaluationStateUncheckedUpdateOneWithoutStateNestedInput
+  operationStates?: Prisma.InstanceOperationStateUncheckedUpdateManyWithoutStateNestedInput
+  secrets?: Prisma.SecretUncheckedUpdateManyWithoutStateNestedInput
+  terminals?: Prisma.TerminalUncheckedUpdateManyWithoutStateNestedInput
+  pages?: Prisma.PageUncheckedUpdateManyWithoutStateNestedInput
+  customStatuses?: Prisma.InstanceCustomStatusUncheckedUpdateManyWithoutStateNestedInput
+  lock?: Prisma.InstanceLockUncheckedUpdateOneWithoutStateNestedInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedUpdateManyWithoutStateNestedInput
+  artifacts?: Prisma.ArtifactUncheckedUpdateManyWithoutInstancesNestedInput
+  operationLogs?: Prisma.OperationLogUncheckedUpdateManyWithoutStateNestedInput
+  userViewports?: Prisma.UserCompositeViewportUncheckedUpdateManyWithoutStateNestedInput
+  entitySnapshots?: Prisma.EntitySnapshotUncheckedUpdateManyWithoutStateNestedInput
+}
+
+export type InstanceStateCreateWithoutWorkerRegistrationsInput = {
+  id?: string
+  instanceId:PrismaJson.InstanceId
+  status: $Enums.InstanceStatus
+  source: $Enums.InstanceSource
+  kind:PrismaJson.InstanceKind
+  inputHashNonce?: number | null
+  selfHash?: number | null
+  inputHash?: number | null
+  outputHash?: number | null
+  dependencyOutputHash?: number | null
+  exportedArtifactIds?:PrismaJson.InstanceArtifactIds | Prisma.NullableJsonNullValueInput
+  model?:PrismaJson.InstanceModel | Prisma.NullableJsonNullValueInput
+  resolvedInputs?:PrismaJson.InstanceResolvedInputs | Prisma.NullableJsonNullValueInput
+  currentResourceCount?: number | null
+  statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
+  hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
+  parent?: Prisma.InstanceStateCreateNestedOneWithoutChildrenInput
+  children?: Prisma.InstanceStateCreateNestedManyWithoutParentInput
+  evaluationState?: Prisma.InstanceEvaluationStateCreateNestedOneWithoutStateInput
+  operationStates?: Prisma.InstanceOperationStateCreateNestedManyWithoutStateInput
+  secrets?: Prisma.SecretCreateNestedManyWithoutStateInput
+  terminals?: Prisma.TerminalCreateNestedManyWithoutStateInput
+  pages?: Prisma.PageCreateNestedManyWithoutStateInput
+  triggers?: Prisma.TriggerCreateNestedManyWithoutStateInput
+  customStatuses?: Prisma.InstanceCustomStatusCreateNestedManyWithoutStateInput
+  lock?: Prisma.InstanceLockCreateNestedOneWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantCreateNestedManyWithoutStateInput
+  artifacts?: Prisma.ArtifactCreateNestedManyWithoutInstancesInput
+  operationLogs?: Prisma.OperationLogCreateNestedManyWithoutStateInput
+  userViewports?: Prisma.UserCompositeViewportCreateNestedManyWithoutStateInput
+  entitySnapshots?: Prisma.EntitySnapshotCreateNestedManyWithoutStateInput
+}
+
+export type InstanceStateUncheckedCreateWithoutWorkerRegistrationsInput = {
+  id?: string
+  instanceId:PrismaJson.InstanceId
+  status: $Enums.InstanceStatus
+  source: $Enums.InstanceSource
+  kind:PrismaJson.InstanceKind
+  parentId?: string | null
+  inputHashNonce?: number | null
+  selfHash?: number | null
+  inputHash?: number | null
+  outputHash?: number | null
+  dependencyOutputHash?: number | null
+  exportedArtifactIds?:PrismaJson.InstanceArtifactIds | Prisma.NullableJsonNullValueInput
+  model?:PrismaJson.InstanceModel | Prisma.NullableJsonNullValueInput
+  resolvedInputs?:PrismaJson.InstanceResolvedInputs | Prisma.NullableJsonNullValueInput
+  currentResourceCount?: number | null
+  statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
+  hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
+  children?: Prisma.InstanceStateUncheckedCreateNestedManyWithoutParentInput
+  evaluationState?: Prisma.InstanceEvaluationStateUncheckedCreateNestedOneWithoutStateInput
+  operationStates?: Prisma.InstanceOperationStateUncheckedCreateNestedManyWithoutStateInput
+  secrets?: Prisma.SecretUncheckedCreateNestedManyWithoutStateInput
+  terminals?: Prisma.TerminalUncheckedCreateNestedManyWithoutStateInput
+  pages?: Prisma.PageUncheckedCreateNestedManyWithoutStateInput
+  triggers?: Prisma.TriggerUncheckedCreateNestedManyWithoutStateInput
+  customStatuses?: Prisma.InstanceCustomStatusUncheckedCreateNestedManyWithoutStateInput
+  lock?: Prisma.InstanceLockUncheckedCreateNestedOneWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedCreateNestedManyWithoutStateInput
+  artifacts?: Prisma.ArtifactUncheckedCreateNestedManyWithoutInstancesInput
+  operationLogs?: Prisma.OperationLogUncheckedCreateNestedManyWithoutStateInput
+  userViewports?: Prisma.UserCompositeViewportUncheckedCreateNestedManyWithoutStateInput
+  entitySnapshots?: Prisma.EntitySnapshotUncheckedCreateNestedManyWithoutStateInput
+}
+
+export type InstanceStateCreateOrConnectWithoutWorkerRegistrationsInput = {
+  where: Prisma.InstanceStateWhereUniqueInput
+  create: Prisma.XOR<Prisma.InstanceStateCreateWithoutWorkerRegistrationsInput, Prisma.InstanceStateUncheckedCreateWithoutWorkerRegistrationsInput>
+}
+
+export type InstanceStateUpsertWithoutWorkerRegistrationsInput = {
+  update: Prisma.XOR<Prisma.InstanceStateUpdateWithoutWorkerRegistrationsInput, Prisma.InstanceStateUncheckedUpdateWithoutWorkerRegistrationsInput>
+  create: Prisma.XOR<Prisma.InstanceStateCreateWithoutWorkerRegistrationsInput, Prisma.InstanceStateUncheckedCreateWithoutWorkerRegistrationsInput>
+  where?: Prisma.InstanceStateWhereInput
+}
+
+export type InstanceStateUpdateToOneWithWhereWithoutWorkerRegistrationsInput = {
+  where?: Prisma.InstanceStateWhereInput
+  data: Prisma.XOR<Prisma.InstanceStateUpdateWithoutWorkerRegistrationsInput, Prisma.InstanceStateUncheckedUpdateWithoutWorkerRegistrationsInput>
+}
+
+export type InstanceStateUpdateWithoutWorkerRegistrationsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  instanceId?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumInstanceStatusFieldUpdateOperationsInput | $Enums.InstanceStatus
+  source?: Prisma.EnumInstanceSourceFieldUpdateOperationsInput | $Enums.InstanceSource
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  inputHashNonce?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  selfHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  inputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  outputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  dependencyOutputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  exportedArtifactIds?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  model?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  resolvedInputs?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  parent?: Prisma.InstanceStateUpdateOneWithoutChildrenNestedInput
+  children?: Prisma.InstanceStateUpdateManyWithoutParentNestedInput
+  evaluationState?: Prisma.InstanceEvaluationStateUpdateOneWithoutStateNestedInput
+  operationStates?: Prisma.InstanceOperationStateUpdateManyWithoutStateNestedInput
+  secrets?: Prisma.SecretUpdateManyWithoutStateNestedInput
+  terminals?: Prisma.TerminalUpdateManyWithoutStateNestedInput
+  pages?: Prisma.PageUpdateManyWithoutStateNestedInput
+  triggers?: Prisma.TriggerUpdateManyWithoutStateNestedInput
+  customStatuses?: Prisma.InstanceCustomStatusUpdateManyWithoutStateNestedInput
+  lock?: Prisma.InstanceLockUpdateOneWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUpdateManyWithoutStateNestedInput
+  artifacts?: Prisma.ArtifactUpdateManyWithoutInstancesNestedInput
+  operationLogs?: Prisma.OperationLogUpdateManyWithoutStateNestedInput
+  userViewports?: Prisma.UserCompositeViewportUpdateManyWithoutStateNestedInput
+  entitySnapshots?: Prisma.EntitySnapshotUpdateManyWithoutStateNestedInput
+}
+
+export type InstanceStateUncheckedUpdateWithoutWorkerRegistrationsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  instanceId?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumInstanceStatusFieldUpdateOperationsInput | $Enums.InstanceStatus
+  source?: Prisma.EnumInstanceSourceFieldUpdateOperationsInput | $Enums.InstanceSource
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  parentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  inputHashNonce?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  selfHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  inputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  outputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  dependencyOutputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  exportedArtifactIds?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  model?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  resolvedInputs?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  children?: Prisma.InstanceStateUncheckedUpdateManyWithoutParentNestedInput
+  evaluationState?: Prisma.InstanceEvaluationStateUncheckedUpdateOneWithoutStateNestedInput
+  operationStates?: Prisma.InstanceOperationStateUncheckedUpdateManyWithoutStateNestedInput
+  secrets?: Prisma.SecretUncheckedUpdateManyWithoutStateNestedInput
+  terminals?: Prisma.TerminalUncheckedUpdateManyWithoutStateNestedInput
+  pages?: Prisma.PageUncheckedUpdateManyWithoutStateNestedInput
+  triggers?: Prisma.TriggerUncheckedUpdateManyWithoutStateNestedInput
+  customStatuses?: Prisma.InstanceCustomStatusUncheckedUpdateManyWithoutStateNestedInput
+  lock?: Prisma.InstanceLockUncheckedUpdateOneWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedUpdateManyWithoutStateNestedInput
+  artifacts?: Prisma.ArtifactUncheckedUpdateManyWithoutInstancesNestedInput
+  operationLogs?: Prisma.OperationLogUncheckedUpdateManyWithoutStateNestedInput
+  userViewports?: Prisma.UserCompositeViewportUncheckedUpdateManyWithoutStateNestedInput
+  entitySnapshots?: Prisma.EntitySnapshotUncheckedUpdateManyWithoutStateNestedInput
+}
+
+export type InstanceStateUpdateWithoutArtifactsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  instanceId?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumInstanceStatusFieldUpdateOperationsInput | $Enums.InstanceStatus
+  source?: Prisma.EnumInstanceSourceFieldUpdateOperationsInput | $Enums.InstanceSource
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  inputHashNonce?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  selfHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  inputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  outputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  dependencyOutputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  exportedArtifactIds?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  model?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  resolvedInputs?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  parent?: Prisma.InstanceStateUpdateOneWithoutChildrenNestedInput
+  children?: Prisma.InstanceStateUpdateManyWithoutParentNestedInput
+  evaluationState?: Prisma.InstanceEvaluationStateUpdateOneWithoutStateNestedInput
+  operationStates?: Prisma.InstanceOperationStateUpdateManyWithoutStateNestedInput
+  secrets?: Prisma.SecretUpdateManyWithoutStateNestedInput
+  terminals?: Prisma.TerminalUpdateManyWithoutStateNestedInput
+  pages?: Prisma.PageUpdateManyWithoutStateNestedInput
+  triggers?: Prisma.TriggerUpdateManyWithoutStateNestedInput
+  customStatuses?: Prisma.InstanceCustomStatusUpdateManyWithoutStateNestedInput
+  lock?: Prisma.InstanceLockUpdateOneWithoutStateNestedInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUpdateManyWithoutStateNestedInput
+  operationLogs?: Prisma.OperationLogUpdateManyWithoutStateNestedInput
+  userViewports?: Prisma.UserCompositeViewportUpdateManyWithoutStateNestedInput
+  entitySnapshots?: Prisma.EntitySnapshotUpdateManyWithoutStateNestedInput
+}
+
+export type InstanceStateUncheckedUpdateWithoutArtifactsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  instanceId?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumInstanceStatusFieldUpdateOperationsInput | $Enums.InstanceStatus
+  source?: Prisma.EnumInstanceSourceFieldUpdateOperationsInput | $Enums.InstanceSource
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  parentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  inputHashNonce?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  selfHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  inputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  outputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  dependencyOutputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  exportedArtifactIds?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  model?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  resolvedInputs?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  children?: Prisma.InstanceStateUncheckedUpdateManyWithoutParentNestedInput
+  evaluationState?: Prisma.InstanceEvaluationStateUncheckedUpdateOneWithoutStateNestedInput
+  operationStates?: Prisma.InstanceOperationStateUncheckedUpdateManyWithoutStateNestedInput
+  secrets?: Prisma.SecretUncheckedUpdateManyWithoutStateNestedInput
+  terminals?: Prisma.TerminalUncheckedUpdateManyWithoutStateNestedInput
+  pages?: Prisma.PageUncheckedUpdateManyWithoutStateNestedInput
+  triggers?: Prisma.TriggerUncheckedUpdateManyWithoutStateNestedInput
+  customStatuses?: Prisma.InstanceCustomStatusUncheckedUpdateManyWithoutStateNestedInput
+  lock?: Prisma.InstanceLockUncheckedUpdateOneWithoutStateNestedInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedUpdateManyWithoutStateNestedInput
+  operationLogs?: Prisma.OperationLogUncheckedUpdateManyWithoutStateNestedInput
+  userViewports?: Prisma.UserCompositeViewportUncheckedUpdateManyWithoutStateNestedInput
+  entitySnapshots?: Prisma.EntitySnapshotUncheckedUpdateManyWithoutStateNestedInput
+}
+
+export type InstanceStateUncheckedUpdateManyWithoutArtifactsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  instanceId?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumInstanceStatusFieldUpdateOperationsInput | $Enums.InstanceStatus
+  source?: Prisma.EnumInstanceSourceFieldUpdateOperationsInput | $Enums.InstanceSource
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  parentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  inputHashNonce?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  selfHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  inputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  outputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  dependencyOutputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  exportedArtifactIds?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  model?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  resolvedInputs?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type InstanceStateCreateManyParentInput = {
+  id?: string
+  instanceId:PrismaJson.InstanceId
+  status: $Enums.InstanceStatus
+  source: $Enums.InstanceSource
+  kind:PrismaJson.InstanceKind
+  inputHashNonce?: number | null
+  selfHash?: number | null
+  inputHash?: number | null
+  outputHash?: number | null
+  dependencyOutputHash?: number | null
+  exportedArtifactIds?:PrismaJson.InstanceArtifactIds | Prisma.NullableJsonNullValueInput
+  model?:PrismaJson.InstanceModel | Prisma.NullableJsonNullValueInput
+  resolvedInputs?:PrismaJson.InstanceResolvedInputs | Prisma.NullableJsonNullValueInput
+  currentResourceCount?: number | null
+  statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
+  hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
+}
+
+export type InstanceStateUpdateWithoutParentInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  instanceId?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumInstanceStatusFieldUpdateOperationsInput | $Enums.InstanceStatus
+  source?: Prisma.EnumInstanceSourceFieldUpdateOperationsInput | $Enums.InstanceSource
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  inputHashNonce?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  selfHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  inputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  outputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  dependencyOutputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  exportedArtifactIds?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  model?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  resolvedInputs?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  children?: Prisma.InstanceStateUpdateManyWithoutParentNestedInput
+  evaluationState?: Prisma.InstanceEvaluationStateUpdateOneWithoutStateNestedInput
+  operationStates?: Prisma.InstanceOperationStateUpdateManyWithoutStateNestedInput
+  secrets?: Prisma.SecretUpdateManyWithoutStateNestedInput
+  terminals?: Prisma.TerminalUpdateManyWithoutStateNestedInput
+  pages?: Prisma.PageUpdateManyWithoutStateNestedInput
+  triggers?: Prisma.TriggerUpdateManyWithoutStateNestedInput
+  customStatuses?: Prisma.InstanceCustomStatusUpdateManyWithoutStateNestedInput
+  lock?: Prisma.InstanceLockUpdateOneWithoutStateNestedInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUpdateManyWithoutStateNestedInput
+  artifacts?: Prisma.ArtifactUpdateManyWithoutInstancesNestedInput
+  operationLogs?: Prisma.OperationLogUpdateManyWithoutStateNestedInput
+  userViewports?: Prisma.UserCompositeViewportUpdateManyWithoutStateNestedInput
+  entitySnapshots?: Prisma.EntitySnapshotUpdateManyWithoutStateNestedInput
+}
+
+export type InstanceStateUncheckedUpdateWithoutParentInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  instanceId?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumInstanceStatusFieldUpdateOperationsInput | $Enums.InstanceStatus
+  source?: Prisma.EnumInstanceSourceFieldUpdateOperationsInput | $Enums.InstanceSource
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  inputHashNonce?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  selfHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  inputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  outputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  dependencyOutputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  exportedArtifactIds?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  model?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  resolvedInputs?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  children?: Prisma.InstanceStateUncheckedUpdateManyWithoutParentNestedInput
+  evaluationState?: Prisma.InstanceEvaluationStateUncheckedUpdateOneWithoutStateNestedInput
+  operationStates?: Prisma.InstanceOperationStateUncheckedUpdateManyWithoutStateNestedInput
+  secrets?: Prisma.SecretUncheckedUpdateManyWithoutStateNestedInput
+  terminals?: Prisma.TerminalUncheckedUpdateManyWithoutStateNestedInput
+  pages?: Prisma.PageUncheckedUpdateManyWithoutStateNestedInput
+  triggers?: Prisma.TriggerUncheckedUpdateManyWithoutStateNestedInput
+  customStatuses?: Prisma.InstanceCustomStatusUncheckedUpdateManyWithoutStateNestedInput
+  lock?: Prisma.InstanceLockUncheckedUpdateOneWithoutStateNestedInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedUpdateManyWithoutStateNestedInput
+  artifacts?: Prisma.ArtifactUncheckedUpdateManyWithoutInstancesNestedInput
+  operationLogs?: Prisma.OperationLogUncheckedUpdateManyWithoutStateNestedInput
+  userViewports?: Prisma.UserCompositeViewportUncheckedUpdateManyWithoutStateNestedInput
+  entitySnapshots?: Prisma.EntitySnapshotUncheckedUpdateManyWithoutStateNestedInput
+}
+
+export type InstanceStateUncheckedUpdateManyWithoutParentInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  instanceId?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumInstanceStatusFieldUpdateOperationsInput | $Enums.InstanceStatus
+  source?: Prisma.EnumInstanceSourceFieldUpdateOperationsInput | $Enums.InstanceSource
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  inputHashNonce?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  selfHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  inputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  outputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  dependencyOutputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  exportedArtifactIds?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  model?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  resolvedInputs?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+
+/**
+ * Count Type InstanceStateCountOutputType
+ */
+
+export type InstanceStateCountOutputType = {
+  children: number
+  operationStates: number
+  secrets: number
+  terminals: number
+  pages: number
+  triggers: number
+  customStatuses: number
+  workerRegistrations: number
+  serviceAccountGrants: number
+  artifacts: number
+  operationLogs: number
+  userViewports: number
+  entitySnapshots: number
+}
+
+export type InstanceStateCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  children?: boolean | InstanceStateCountOutputTypeCountChildrenArgs
+  operationStates?: boolean | InstanceStateCountOutputTypeCountOperationStatesArgs
+  secrets?: boolean | InstanceStateCountOutputTypeCountSecretsArgs
+  terminals?: boolean | InstanceStateCountOutputTypeCountTerminalsArgs
+  pages?: boolean | InstanceStateCountOutputTypeCountPagesArgs
+  triggers?: boolean | InstanceStateCountOutputTypeCountTriggersArgs
+  customStatuses?: boolean | InstanceStateCountOutputTypeCountCustomStatusesArgs
+  workerRegistrations?: boolean | InstanceStateCountOutputTypeCountWorkerRegistrationsArgs
+  serviceAccountGrants?: boolean | InstanceStateCountOutputTypeCountServiceAccountGrantsArgs
+  artifacts?: boolean | InstanceStateCountOutputTypeCountArtifactsArgs
+  operationLogs?: boolean | InstanceStateCountOutputTypeCountOperationLogsArgs
+  userViewports?: boolean | InstanceStateCountOutputTypeCountUserViewportsArgs
+  entitySnapshots?: boolean | InstanceStateCountOutputTypeCountEntitySnapshotsArgs
+}
+
+/**
+ * InstanceStateCountOutputType without action
+ */
+export type InstanceStateCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InstanceStateCountOutputType
+   */
+  select?: Prisma.InstanceStateCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * InstanceStateCountOutputType without action
+ */
+export type InstanceStateCountOutputTypeCountChildrenArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.InstanceStateWhereInput
+}
+
+/**
+ * InstanceStateCountOutputType without action
+ */
+export type InstanceStateCountOutputTypeCountOperationStatesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.InstanceOperationStateWhereInput
+}
+
+/**
+ * InstanceStateCountOutputType without action
+ */
+export type InstanceStateCountOutputTypeCountSecretsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.SecretWhereInput
+}
+
+/**
+ * InstanceStateCountOutputType without action
+ */
+export type InstanceStateCountOutputTypeCountTerminalsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.TerminalWhereInput
+}
+
+/**
+ * InstanceStateCountOutputType without action
+ */
+export type InstanceStateCountOutputTypeCountPagesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.PageWhereInput
+}
+
+/**
+ * InstanceStateCountOutputType without action
+ */
+export type InstanceStateCountOutputTypeCountTriggersArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.TriggerWhereInput
+}
+
+/**
+ * InstanceStateCountOutputType without action
+ */
+export type InstanceStateCountOutputTypeCountCustomStatusesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.InstanceCustomStatusWhereInput
+}
+
+/**
+ * InstanceStateCountOutputType without action
+ */
+export type InstanceStateCountOutputTypeCountWorkerRegistrationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.WorkerUnitRegistrationWhereInput
+}
+
+/**
+ * InstanceStateCountOutputType without action
+ */
+export type InstanceStateCountOutputTypeCountServiceAccountGrantsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ServiceAccountGrantWhereInput
+}
+
+/**
+ * InstanceStateCountOutputType without action
+ */
+export type InstanceStateCountOutputTypeCountArtifactsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ArtifactWhereInput
+}
+
+/**
+ * InstanceStateCountOutputType without action
+ */
+export type InstanceStateCountOutputTypeCountOperationLogsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.OperationLogWhereInput
+}
+
+/**
+ * InstanceStateCountOutputType without action
+ */
+export type InstanceStateCountOutputTypeCountUserViewportsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.UserCompositeViewportWhereInput
+}
+
+/**
+ * InstanceStateCountOutputType without action
+ */
+export type InstanceStateCountOutputTypeCountEntitySnapshotsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.EntitySnapshotWhereInput
+}
+
+
+export type InstanceStateSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  instanceId?: boolean
+  status?: boolean
+  source?: boolean
+  kind?: boolean
+  parentId?: boolean
+  inputHashNonce?: boolean
+  selfHash?: boolean
+  inputHash?: boolean
+  outputHash?: boolean
+  dependencyOutputHash?: boolean
+  exportedArtifactIds?: boolean
+  model?: boolean
+  resolvedInputs?: boolean
+  currentResourceCount?: boolean
+  statusFields?: boolean
+  hasResourceHooks?: boolean
+  lastEditedBy?: boolean
+  lastEditedAt?: boolean
+  parent?: boolean | Prisma.InstanceState$parentArgs<ExtArgs>
+  children?: boolean | Prisma.InstanceState$childrenArgs<ExtArgs>
+  evaluationState?: boolean | Prisma.InstanceState$evaluationStateArgs<ExtArgs>
+  operationStates?: boolean | Prisma.InstanceState$operationStatesArgs<ExtArgs>
+  secrets?: boolean | Prisma.InstanceState$secretsArgs<ExtArgs>
+  terminals?: boolean | Prisma.InstanceState$terminalsArgs<ExtArgs>
+  pages?: boolean | Prisma.InstanceState$pagesArgs<ExtArgs>
+  triggers?: boolean | Prisma.InstanceState$triggersArgs<ExtArgs>
+  customStatuses?: boolean | Prisma.InstanceState$customStatusesArgs<ExtArgs>
+  lock?: boolean | Prisma.InstanceState$lockArgs<ExtArgs>
+  workerRegistrations?: boolean | Prisma.InstanceState$workerRegistrationsArgs<ExtArgs>
+  serviceAccountGrants?: boolean | Prisma.InstanceState$serviceAccountGrantsArgs<ExtArgs>
+  artifacts?: boolean | Prisma.InstanceState$artifactsArgs<ExtArgs>
+  operationLogs?: boolean | Prisma.InstanceState$operationLogsArgs<ExtArgs>
+  userViewports?: boolean | Prisma.InstanceState$userViewportsArgs<ExtArgs>
+  entitySnapshots?: boolean | Prisma.InstanceState$entitySnapshotsArgs<ExtArgs>
+  _count?: boolean | Prisma.InstanceStateCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["instanceState"]>
+
+export type InstanceStateSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  instanceId?: boolean
+  status?: boolean
+  source?: boolean
+  kind?: boolean
+  parentId?: boolean
+  inputHashNonce?: boolean
+  selfHash?: boolean
+  inputHash?: boolean
+  outputHash?: boolean
+  dependencyOutputHash?: boolean
+  exportedArtifactIds?: boolean
+  model?: boolean
+  resolvedInputs?: boolean
+  currentResourceCount?: boolean
+  statusFields?: boolean
+  hasResourceHooks?: boolean
+  lastEditedBy?: boolean
+  lastEditedAt?: boolean
+  parent?: boolean | Prisma.InstanceState$parentArgs<ExtArgs>
+}, ExtArgs["result"]["instanceState"]>
+
+export type InstanceStateSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  instanceId?: boolean
+  status?: boolean
+  source?: boolean
+  kind?: boolean
+  parentId?: boolean
+  inputHashNonce?: boolean
+  selfHash?: boolean
+  inputHash?: boolean
+  outputHash?: boolean
+  dependencyOutputHash?: boolean
+  exportedArtifactIds?: boolean
+  model?: boolean
+  resolvedInputs?: boolean
+  currentResourceCount?: boolean
+  statusFields?: boolean
+  hasResourceHooks?: boolean
+  lastEditedBy?: boolean
+  lastEditedAt?: boolean
+  parent?: boolean | Prisma.InstanceState$parentArgs<ExtArgs>
+}, ExtArgs["result"]["instanceState"]>
+
+export type InstanceStateSelectScalar = {
+  id?: boolean
+  instanceId?: boolean
+  status?: boolean
+  source?: boolean
+  kind?: boolean
+  parentId?: boolean
+  inputHashNonce?: boolean
+  selfHash?: boolean
+  inputHash?: boolean
+  outputHash?: boolean
+  dependencyOutputHash?: boolean
+  exportedArtifactIds?: boolean
+  model?: boolean
+  resolvedInputs?: boolean
+  currentResourceCount?: boolean
+  statusFields?: boolean
+  hasResourceHooks?: boolean
+  lastEditedBy?: boolean
+  lastEditedAt?: boolean
+}
+
+export type InstanceStateOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "instanceId" | "status" | "source" | "kind" | "parentId" | "inputHashNonce" | "selfHash" | "inputHash" | "outputHash" | "dependencyOutputHash" | "exportedArtifactIds" | "model" | "resolvedInputs" | "currentResourceCount" | "statusFields" | "hasResourceHooks" | "lastEditedBy" | "lastEditedAt", ExtArgs["result"]["instanceState"]>
+export type InstanceStateInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  parent?: boolean | Prisma.InstanceState$parentArgs<ExtArgs>
+  children?: boolean | Prisma.InstanceState$childrenArgs<ExtArgs>
+  evaluationState?: boolean | Prisma.InstanceState$evaluationStateArgs<ExtArgs>
+  operationStates?: boolean | Prisma.InstanceState$operationStatesArgs<ExtArgs>
+  secrets?: boolean | Prisma.InstanceState$secretsArgs<ExtArgs>
+  terminals?: boolean | Prisma.InstanceState$terminalsArgs<ExtArgs>
+  pages?: boolean | Prisma.InstanceState$pagesArgs<ExtArgs>
+  triggers?: boolean | Prisma.InstanceState$triggersArgs<ExtArgs>
+  customStatuses?: boolean | Prisma.InstanceState$customStatusesArgs<ExtArgs>
+  lock?: boolean | Prisma.InstanceState$lockArgs<ExtArgs>
+  workerRegistrations?: boolean | Prisma.InstanceState$workerRegistrationsArgs<ExtArgs>
+  serviceAccountGrants?: boolean | Prisma.InstanceState$serviceAccountGrantsArgs<ExtArgs>
+  artifacts?: boolean | Prisma.InstanceState$artifactsArgs<ExtArgs>
+  operationLogs?: boolean | Prisma.InstanceState$operationLogsArgs<ExtArgs>
+  userViewports?: boolean | Prisma.InstanceState$userViewportsArgs<ExtArgs>
+  entitySnapshots?: boolean | Prisma.InstanceState$entitySnapshotsArgs<ExtArgs>
+  _count?: boolean | Prisma.InstanceStateCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type InstanceStateIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  parent?: boolean | Prisma.InstanceState$parentArgs<ExtArgs>
+}
+export type InstanceStateIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  parent?: boolean | Prisma.InstanceState$parentArgs<ExtArgs>
+}
+
+export type $InstanceStatePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "InstanceState"
+  objects: {
+    /**
+     * The parent instance.
+     */
+    parent: Prisma.$InstanceStatePayload<ExtArgs> | null
+    /**
+     * The child instances, if any.
+     */
+    children: Prisma.$InstanceStatePayload<ExtArgs>[]
+    /**
+     * The evaluation state of this instance.
+     */
+    evaluationState: Prisma.$InstanceEvaluationStatePayload<ExtArgs> | null
+    /**
+     * The operation states associated with this instance.
+     */
+    operationStates: Prisma.$InstanceOperationStatePayload<ExtArgs>[]
+    /**
+     * The secrets associated with this instance.
+     */
+    secrets: Prisma.$SecretPayload<ExtArgs>[]
+    /**
+     * The terminals associated with this instance.
+     */
+    terminals: Prisma.$TerminalPayload<ExtArgs>[]
+    /**
+     * The pages associated with this instance.
+     */
+    pages: Prisma.$PagePayload<ExtArgs>[]
+    /**
+     * The triggers associated with this instance.
+     */
+    triggers: Prisma.$TriggerPayload<ExtArgs>[]
+    /**
+     * Custom statuses for this instance.
+     */
+    customStatuses: Prisma.$InstanceCustomStatusPayload<ExtArgs>[]
+    /**
+     * The lock that is currently held on this instance.
+     */
+    lock: Prisma.$InstanceLockPayload<ExtArgs> | null
+    /**
+     * Worker registrations associated with this instance.
+     */
+    workerRegistrations: Prisma.$WorkerUnitRegistrationPayload<ExtArgs>[]
+    /**
+     * The grants giving service accounts access to this instance.
+     */
+    serviceAccountGrants: Prisma.$ServiceAccountGrantPayload<ExtArgs>[]
+    /**
+     * The artifacts produced or used by this instance.
+     */
+    artifacts: Prisma.$ArtifactPayload<ExtArgs>[]
+    /**
+     * The operation logs associated with this instance.
+     */
+    operationLogs: Prisma.$OperationLogPayload<ExtArgs>[]
+    /**
+     * The user viewports associated with this instance.
+     */
+    userViewports: Prisma.$UserCompositeViewportPayload<ExtArgs>[]
+    /**
+     * The entity snapshots associated with this instance.
+     */
+    entitySnapshots: Prisma.$EntitySnapshotPayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    /**
+     * The surrogate CUIDv2 primary key of the instance to allow renaming instances.
+     */
+    id: string
+    /**
+     * The ID of the instance managed by the system.
+     * 
+     * [InstanceId]
+     */
+    instanceId:PrismaJson.InstanceId
+    /**
+     * The status of the instance.
+     */
+    status: $Enums.InstanceStatus
+    /**
+     * The source of the instance.
+     */
+    source: $Enums.InstanceSource
+    /**
+     * The kind of the instance.
+     * 
+     * [InstanceKind]
+     */
+    kind:PrismaJson.InstanceKind
+    /**
+     * The ID of the parent instance state, if this instance is a child of another composite instance.
+     */
+    parentId: string | null
+    /**
+     * The 32-bit nonce used to invalidate the input hash when secrets are updated.
+     */
+    inputHashNonce: number | null
+    /**
+     * The calculated CRC32 hash of the instance's own configuration at the moment of last operation completion.
+     * 
+     * This hash covers:
+     * - component definition hash;
+     * - the unit's source hash (if applicable);
+     * - the instance's configuration (name, args, secret hashes / nonce).
+     * 
+     * It does not include hashes of dependencies.
+     * 
+     * Used together with `dependencyOutputHash` to short-circuit execution at runtime.
+     */
+    selfHash: number | null
+    /**
+     * The calculated instance CRC32 input hash at the moment of last operation completion.
+     * 
+     * This hash covers:
+     * - the instance's configuration (name, args, secret hashes);
+     * - component definition hash;
+     * - the unit's source hash (if applicable);
+     * - the input hashes and output hashes of all input instances.
+     */
+    inputHash: number | null
+    /**
+     * The CRC32 of the SHA256 of the output produced by the instance at the moment of last operation completion.
+     * 
+     * Does not depend on anything except the instance's output.
+     */
+    outputHash: number | null
+    /**
+     * The calculated CRC32 dependency output hash at the moment of last operation completion.
+     * 
+     * This hash is calculated as combination of output hashes of all input instances and nothing else.
+     * 
+     * The primary use case of this hash is to "short-circuit" execution:
+     * if the outputs of input instances have not changed, dependent instances can skip execution,
+     * even if their input hashes changed due to upstream config changes.
+     * This prevents unnecessary re-execution of the entire dependency graph when only non-output-affecting inputs are modified.
+     */
+    dependencyOutputHash: number | null
+    /**
+     * The mapping of instance output names to artifact IDs passed via them.
+     * 
+     * Used to authorize access to artifacts for other instances connected to these outputs.
+     * 
+     * [InstanceArtifactIds]
+     */
+    exportedArtifactIds:PrismaJson.InstanceArtifactIds | null
+    /**
+     * The snapshot of the instance model at the moment of last non-preview operation start.
+     * 
+     * Null if the instance was never operated on.
+     * 
+     * [InstanceModel]
+     */
+    model:PrismaJson.InstanceModel | null
+    /**
+     * The snapshot of the resolved inputs at the moment of last non-preview operation start.
+     * 
+     * Null if the instance was never operated on.
+     * 
+     * [InstanceResolvedInputs]
+     */
+    resolvedInputs:PrismaJson.InstanceResolvedInputs | null
+    /**
+     * The count of Pulumi resources currently managed by this instance.
+     */
+    currentResourceCount: number | null
+    /**
+     * The status fields produced by the last operation.
+     * 
+     * [InstanceStatusFields]
+     */
+    statusFields:PrismaJson.InstanceStatusFields | null
+    /**
+     * Whether the instance has resource hooks and requires running program on destroy to properly clean up resources.
+     */
+    hasResourceHooks: boolean
+    /**
+     * The ID of the user who last edited the instance in the project model.
+     * 
+     * Null if the instance was never edited by the user or it was edited before the authentication was enabled.
+     */
+    lastEditedBy: string | null
+    /**
+     * The time when the instance was last edited by the user.
+     */
+    lastEditedAt: Date | null
+  }, ExtArgs["result"]["instanceState"]>
+  composites: {}
+}
+
+export type InstanceStateGetPayload<S extends boolean | null | undefined | InstanceStateDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$InstanceStatePayload, S>
+
+export type InstanceStateCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<InstanceStateFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: InstanceStateCountAggregateInputType | true
+  }
+
+export interface InstanceStateDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['InstanceState'], meta: { name: 'InstanceState' } }
+  /**
+   * Find zero or one InstanceState that matches the filter.
+   * @param {InstanceStateFindUniqueArgs} args - Arguments to find a InstanceState
+   * @example
+   * // Get one InstanceState
+   * const instanceState = await prisma.instanceState.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends InstanceStateFindUniqueArgs>(args: Prisma.SelectSubset<T, InstanceStateFindUniqueArgs<ExtArgs>>): Prisma.Prisma__InstanceStateClient<runtime.Types.Result.GetResult<Prisma.$InstanceStatePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one InstanceState that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {InstanceStateFindUniqueOrThrowArgs} args - Arguments to find a InstanceState
+   * @example
+   * // Get one InstanceState
+   * const instanceState = await prisma.instanceState.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends InstanceStateFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, InstanceStateFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__InstanceStateClient<runtime.Types.Result.GetResult<Prisma.$InstanceStatePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first InstanceState that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InstanceStateFindFirstArgs} args - Arguments to find a InstanceState
+   * @example
+   * // Get one InstanceState
+   * const instanceState = await prisma.instanceState.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends InstanceStateFindFirstArgs>(args?: Prisma.SelectSubset<T, InstanceStateFindFirstArgs<ExtArgs>>): Prisma.Prisma__InstanceStateClient<runtime.Types.Result.GetResult<Prisma.$InstanceStatePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first InstanceState that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InstanceStateFindFirstOrThrowArgs} args - Arguments to find a InstanceState
+   * @example
+   * // Get one InstanceState
+   * const instanceState = await prisma.instanceState.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends InstanceStateFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, InstanceStateFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__InstanceStateClient<runtime.Types.Result.GetResult<Prisma.$InstanceStatePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more InstanceStates that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InstanceStateFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all InstanceStates
+   * const instanceStates = await prisma.instanceState.findMany()
+   * 
+   * // Get first 10 InstanceStates
+   * const instanceStates = await prisma.instanceState.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const instanceStateWithIdOnly = await prisma.instanceState.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends InstanceStateFindManyArgs>(args?: Prisma.SelectSubset<T, InstanceStateFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InstanceStatePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a InstanceState.
+   * @param {InstanceStateCreateArgs} args - Arguments to create a InstanceState.
+   * @example
+   * // Create one InstanceState
+   * const InstanceState = await prisma.instanceState.create({
+   *   data: {
+   *     // ... data to create a InstanceState
+   *   }
+   * })
+   * 
+   */
+  create<T extends InstanceStateCreateArgs>(args: Prisma.SelectSubset<T, InstanceStateCreateArgs<ExtArgs>>): Prisma.Prisma__InstanceStateClient<runtime.Types.Result.GetResult<Prisma.$InstanceStatePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many InstanceStates.
+   * @param {InstanceStateCreateManyArgs} args - Arguments to create many InstanceStates.
+   * @example
+   * // Create many InstanceStates
+   * const instanceState = await prisma.instanceState.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends InstanceStateCreateManyArgs>(args?: Prisma.SelectSubset<T, InstanceStateCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many InstanceStates and returns the data saved in the database.
+   * @param {InstanceStateCreateManyAndReturnArgs} args - Arguments to create many InstanceStates.
+   * @example
+   * // Create many InstanceStates
+   * const instanceState = await prisma.instanceState.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many InstanceStates and only return the `id`
+   * const instanceStateWithIdOnly = await prisma.instanceState.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends InstanceStateCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, InstanceStateCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InstanceStatePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a InstanceState.
+   * @param {InstanceStateDeleteArgs} args - Arguments to delete one InstanceState.
+   * @example
+   * // Delete one InstanceState
+   * const InstanceState = await prisma.instanceState.delete({
+   *   where: {
+   *     // ... filter to delete one InstanceState
+   *   }
+   * })
+   * 
+   */
+  delete<T extends InstanceStateDeleteArgs>(args: Prisma.SelectSubset<T, InstanceStateDeleteArgs<ExtArgs>>): Prisma.Prisma__InstanceStateClient<runtime.Types.Result.GetResult<Prisma.$InstanceStatePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one InstanceState.
+   * @param {InstanceStateUpdateArgs} args - Arguments to update one InstanceState.
+   * @example
+   * // Update one InstanceState
+   * const instanceState = await prisma.instanceState.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends InstanceStateUpdateArgs>(args: Prisma.SelectSubset<T, InstanceStateUpdateArgs<ExtArgs>>): Prisma.Prisma__InstanceStateClient<runtime.Types.Result.GetResult<Prisma.$InstanceStatePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more InstanceStates.
+   * @param {InstanceStateDeleteManyArgs} args - Arguments to filter InstanceStates to delete.
+   * @example
+   * // Delete a few InstanceStates
+   * const { count } = await prisma.instanceState.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends InstanceStateDeleteManyArgs>(args?: Prisma.SelectSubset<T, InstanceStateDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more InstanceStates.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InstanceStateUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many InstanceStates
+   * const instanceState = await prisma.instanceState.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends InstanceStateUpdateManyArgs>(args: Prisma.SelectSubset<T, InstanceStateUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more InstanceStates and returns the data updated in the database.
+   * @param {InstanceStateUpdateManyAndReturnArgs} args - Arguments to update many InstanceStates.
+   * @example
+   * // Update many InstanceStates
+   * const instanceState = await prisma.instanceState.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more InstanceStates and only return the `id`
+   * const instanceStateWithIdOnly = await prisma.instanceState.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends InstanceStateUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, InstanceStateUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InstanceStatePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one InstanceState.
+   * @param {InstanceStateUpsertArgs} args - Arguments to update or create a InstanceState.
+   * @example
+   * // Update or create a InstanceState
+   * const instanceState = await prisma.instanceState.upsert({
+   *   create: {
+   *     // ... data to create a InstanceState
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the InstanceState we want to update
+   *   }
+   * })
+   */
+  upsert<T extends InstanceStateUpsertArgs>(args: Prisma.SelectSubset<T, InstanceStateUpsertArgs<ExtArgs>>): Prisma.Prisma__InstanceStateClient<runtime.Types.Result.GetResult<Prisma.$InstanceStatePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of InstanceStates.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InstanceStateCountArgs} args - Arguments to filter InstanceStates to count.
+   * @example
+   * // Count the number of InstanceStates
+   * const count = await prisma.instanceState.count({
+   *   where: {
+   *     // ... the filter for the InstanceStates we want to count
+   *   }
+   * })
+  **/
+  count<T extends InstanceStateCountArgs>(
+    args?: Prisma.Subset<T, InstanceStateCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], InstanceStateCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a InstanceState.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InstanceStateAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends InstanceStateAggregateArgs>(args: Prisma.Subset<T, InstanceStateAggregateArgs>): Prisma.PrismaPromise<GetInstanceStateAggregateType<T>>
+
+  /**
+   * Group by InstanceState.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InstanceStateGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends InstanceStateGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: InstanceStateGroupByArgs['orderBy'] }
+      : { orderBy?: InstanceStateGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, InstanceStateGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetInstanceStateGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the InstanceState model
+ */
+readonly fields: InstanceStateFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for InstanceState.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__InstanceStateClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  parent<T extends Prisma.InstanceState$parentArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InstanceState$parentArgs<ExtArgs>>): Prisma.Prisma__InstanceStateClient<runtime.Types.Result.GetResult<Prisma.$InstanceStatePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  children<T extends Prisma.InstanceState$childrenArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InstanceState$childrenArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InstanceStatePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  evaluationState<T extends Prisma.InstanceState$evaluationStateArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InstanceState$evaluationStateArgs<ExtArgs>>): Prisma.Prisma__InstanceEvaluationStateClient<runtime.Types.Result.GetResult<Prisma.$InstanceEvaluationStatePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  operationStates<T extends Prisma.InstanceState$operationStatesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InstanceState$operationStatesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InstanceOperationStatePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  secrets<T extends Prisma.InstanceState$secretsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InstanceState$secretsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SecretPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  terminals<T extends Prisma.InstanceState$terminalsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InstanceState$terminalsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TerminalPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  pages<T extends Prisma.InstanceState$pagesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InstanceState$pagesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PagePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  triggers<T extends Prisma.InstanceState$triggersArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InstanceState$triggersArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TriggerPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  customStatuses<T extends Prisma.InstanceState$customStatusesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InstanceState$customStatusesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InstanceCustomStatusPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  lock<T extends Prisma.InstanceState$lockArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InstanceState$lockArgs<ExtArgs>>): Prisma.Prisma__InstanceLockClient<runtime.Types.Result.GetResult<Prisma.$InstanceLockPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  workerRegistrations<T extends Prisma.InstanceState$workerRegistrationsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InstanceState$workerRegistrationsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WorkerUnitRegistrationPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  serviceAccountGrants<T extends Prisma.InstanceState$serviceAccountGrantsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InstanceState$serviceAccountGrantsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ServiceAccountGrantPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  artifacts<T extends Prisma.InstanceState$artifactsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InstanceState$artifactsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ArtifactPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  operationLogs<T extends Prisma.InstanceState$operationLogsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InstanceState$operationLogsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OperationLogPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  userViewports<T extends Prisma.InstanceState$userViewportsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InstanceState$userViewportsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$UserCompositeViewportPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  entitySnapshots<T extends Prisma.InstanceState$entitySnapshotsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InstanceState$entitySnapshotsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$EntitySnapshotPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the InstanceState model
+ */
+export interface InstanceStateFieldRefs {
+  readonly id: Prisma.FieldRef<"InstanceState", 'String'>
+  readonly instanceId: Prisma.FieldRef<"InstanceState", 'String'>
+  readonly status: Prisma.FieldRef<"InstanceState", 'InstanceStatus'>
+  readonly source: Prisma.FieldRef<"InstanceState", 'InstanceSource'>
+  readonly kind: Prisma.FieldRef<"InstanceState", 'String'>
+  readonly parentId: Prisma.FieldRef<"InstanceState", 'String'>
+  readonly inputHashNonce: Prisma.FieldRef<"InstanceState", 'Int'>
+  readonly selfHash: Prisma.FieldRef<"InstanceState", 'Int'>
+  readonly inputHash: Prisma.FieldRef<"InstanceState", 'Int'>
+  readonly outputHash: Prisma.FieldRef<"InstanceState", 'Int'>
+  readonly dependencyOutputHash: Prisma.FieldRef<"InstanceState", 'Int'>
+  readonly exportedArtifactIds: Prisma.FieldRef<"InstanceState", 'Json'>
+  readonly model: Prisma.FieldRef<"InstanceState", 'Json'>
+  readonly resolvedInputs: Prisma.FieldRef<"InstanceState", 'Json'>
+  readonly currentResourceCount: Prisma.FieldRef<"InstanceState", 'Int'>
+  readonly statusFields: Prisma.FieldRef<"InstanceState", 'Json'>
+  readonly hasResourceHooks: Prisma.FieldRef<"InstanceState", 'Boolean'>
+  readonly lastEditedBy: Prisma.FieldRef<"InstanceState", 'String'>
+  readonly lastEditedAt: Prisma.FieldRef<"InstanceState", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * InstanceState findUnique
+ */
+export type InstanceStateFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InstanceState
+   */
+  select?: Prisma.InstanceStateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InstanceState
+   */
+  omit?: Prisma.InstanceStateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InstanceStateInclude<ExtArgs> | null
+  /**
+   * Filter, which InstanceState to fetch.
+   */
+  where: Prisma.InstanceStateWhereUniqueInput
+}
+
+/**
+ * InstanceState findUniqueOrThrow
+ */
+export type InstanceStateFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InstanceState
+   */
+  select?: Prisma.InstanceStateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InstanceState
+   */
+  omit?: Prisma.InstanceStateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InstanceStateInclude<ExtArgs> | null
+  /**
+   * Filter, which InstanceState to fetch.
+   */
+  where: Prisma.InstanceStateWhereUniqueInput
+}
+
+/**
+ * InstanceState findFirst
+ */
+export type InstanceStateFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InstanceState
+   */
+  select?: Prisma.InstanceStateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InstanceState
+   */
+  omit?: Prisma.InstanceStateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InstanceStateInclude<ExtArgs> | null
+  /**
+   * Filter, which InstanceState to fetch.
+   */
+  where?: Prisma.InstanceStateWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of InstanceStates to fetch.
+   */
+  orderBy?: Prisma.InstanceStateOrderByWithRelationInput | Prisma.InstanceStateOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for InstanceStates.
+   */
+  cursor?: Prisma.InstanceStateWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` InstanceStates from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` InstanceStates.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of InstanceStates.
+   */
+  distinct?: Prisma.InstanceStateScalarFieldEnum | Prisma.InstanceStateScalarFieldEnum[]
+}
+
+/**
+ * InstanceState findFirstOrThrow
+ */
+export type InstanceStateFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InstanceState
+   */
+  select?: Prisma.InstanceStateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InstanceState
+   */
+  omit?: Prisma.InstanceStateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InstanceStateInclude<ExtArgs> | null
+  /**
+   * Filter, which InstanceState to fetch.
+   */
+  where?: Prisma.InstanceStateWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of InstanceStates to fetch.
+   */
+  orderBy?: Prisma.InstanceStateOrderByWithRelationInput | Prisma.InstanceStateOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for InstanceStates.
+   */
+  cursor?: Prisma.InstanceStateWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` InstanceStates from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` InstanceStates.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of InstanceStates.
+   */
+  distinct?: Prisma.InstanceStateScalarFieldEnum | Prisma.InstanceStateScalarFieldEnum[]
+}
+
+/**
+ * InstanceState findMany
+ */
+export type InstanceStateFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InstanceState
+   */
+  select?: Prisma.InstanceStateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InstanceState
+   */
+  omit?: Prisma.InstanceStateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InstanceStateInclude<ExtArgs> | null
+  /**
+   * Filter, which InstanceStates to fetch.
+   */
+  where?: Prisma.InstanceStateWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of InstanceStates to fetch.
+   */
+  orderBy?: Prisma.InstanceStateOrderByWithRelationInput | Prisma.InstanceStateOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing InstanceStates.
+   */
+  cursor?: Prisma.InstanceStateWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` InstanceStates from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` InstanceStates.
+   */
+  skip?: number
+  distinct?: Prisma.InstanceStateScalarFieldEnum | Prisma.InstanceStateScalarFieldEnum[]
+}
+
+/**
+ * InstanceState create
+ */
+export type InstanceStateCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InstanceState
+   */
+  select?: Prisma.InstanceStateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InstanceState
+   */
+  omit?: Prisma.InstanceStateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InstanceStateInclude<ExtArgs> | null
+  /**
+   * The data needed to create a InstanceState.
+   */
+  data: Prisma.XOR<Prisma.InstanceStateCreateInput, Prisma.InstanceStateUncheckedCreateInput>
+}
+
+/**
+ * InstanceState createMany
+ */
+export type InstanceStateCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many InstanceStates.
+   */
+  data: Prisma.InstanceStateCreateManyInput | Prisma.InstanceStateCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * InstanceState createManyAndReturn
+ */
+export type InstanceStateCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InstanceState
+   */
+  select?: Prisma.InstanceStateSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the InstanceState
+   */
+  omit?: Prisma.InstanceStateOmit<ExtArgs> | null
+  /**
+   * The data used to create many InstanceStates.
+   */
+  data: Prisma.InstanceStateCreateManyInput | Prisma.InstanceStateCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InstanceStateIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * InstanceState update
+ */
+export type InstanceStateUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InstanceState
+   */
+  select?: Prisma.InstanceStateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InstanceState
+   */
+  omit?: Prisma.InstanceStateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InstanceStateInclude<ExtArgs> | null
+  /**
+   * The data needed to update a InstanceState.
+   */
+  data: Prisma.XOR<Prisma.InstanceStateUpdateInput, Prisma.InstanceStateUncheckedUpdateInput>
+  /**
+   * Choose, which InstanceState to update.
+   */
+  where: Prisma.InstanceStateWhereUniqueInput
+}
+
+/**
+ * InstanceState updateMany
+ */
+export type InstanceStateUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update InstanceStates.
+   */
+  data: Prisma.XOR<Prisma.InstanceStateUpdateManyMutationInput, Prisma.InstanceStateUncheckedUpdateManyInput>
+  /**
+   * Filter which InstanceStates to update
+   */
+  where?: Prisma.InstanceStateWhereInput
+  /**
+   * Limit how many InstanceStates to update.
+   */
+  limit?: number
+}
+
+/**
+ * InstanceState updateManyAndReturn
+ */
+export type InstanceStateUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InstanceState
+   */
+  select?: Prisma.InstanceStateSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the InstanceState
+   */
+  omit?: Prisma.InstanceStateOmit<ExtArgs> | null
+  /**
+   * The data used to update InstanceStates.
+   */
+  data: Prisma.XOR<Prisma.InstanceStateUpdateManyMutationInput, Prisma.InstanceStateUncheckedUpdateManyInput>
+  /**
+   * Filter which InstanceStates to update
+   */
+  where?: Prisma.InstanceStateWhereInput
+  /**
+   * Limit how many InstanceStates to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InstanceStateIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * InstanceState upsert
+ */
+export type InstanceStateUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InstanceState
+   */
+  select?: Prisma.InstanceStateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InstanceState
+   */
+  omit?: Prisma.InstanceStateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InstanceStateInclude<ExtArgs> | null
+  /**
+   * The filter to search for the InstanceState to update in case it exists.
+   */
+  where: Prisma.InstanceStateWhereUniqueInput
+  /**
+   * In case the InstanceState found by the `where` argument doesn't exist, create a new InstanceState with this data.
+   */
+  create: Prisma.XOR<Prisma.InstanceStateCreateInput, Prisma.InstanceStateUncheckedCreateInput>
+  /**
+   * In case the InstanceState was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.InstanceStateUpdateInput, Prisma.InstanceStateUncheckedUpdateInput>
+}
+
+/**
+ * InstanceState delete
+ */
+export type InstanceStateDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InstanceState
+   */
+  select?: Prisma.InstanceStateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InstanceState
+   */
+  omit?: Prisma.InstanceStateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InstanceStateInclude<ExtArgs> | null
+  /**
+   * Filter which InstanceState to delete.
+   */
+  where: Prisma.InstanceStateWhereUniqueInput
+}
+
+/**
+ * InstanceState deleteMany
+ */
+export type InstanceStateDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which InstanceStates to delete
+   */
+  where?: Prisma.InstanceStateWhereInput
+  /**
+   * Limit how many InstanceStates to delete.
+   */
+  limit?: number
+}
+
+/**
+ * InstanceState.parent
+ */
+export type InstanceState$parentArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InstanceState
+   */
+  select?: Prisma.InstanceStateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InstanceState
+   */
+  omit?: Prisma.InstanceStateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InstanceStateInclude<ExtArgs> | null
+  where?: Prisma.InstanceStateWhereInput
+}
+
+/**
+ * InstanceState.children
+ */
+export type InstanceState$childrenArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InstanceState
+   */
+  select?: Prisma.InstanceStateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InstanceState
+   */
+  omit?: Prisma.InstanceStateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InstanceStateInclude<ExtArgs> | null
+  where?: Prisma.InstanceStateWhereInput
+  orderBy?: Prisma.InstanceStateOrderByWithRelationInput | Prisma.InstanceStateOrderByWithRelationInput[]
+  cursor?: Prisma.InstanceStateWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.InstanceStateScalarFieldEnum | Prisma.InstanceStateScalarFieldEnum[]
+}
+
+/**
+ * InstanceState.evaluationState
+ */
+export type InstanceState$evaluationStateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InstanceEvaluationState
+   */
+  select?: Prisma.InstanceEvaluationStateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InstanceEvaluationState
+   */
+  omit?: Prisma.InstanceEvaluationStateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InstanceEvaluationStateInclude<ExtArgs> | null
+  where?: Prisma.InstanceEvaluationStateWhereInput
+}
+
+/**
+ * InstanceState.operationStates
+ */
+export type InstanceState$operationStatesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InstanceOperationState
+   */
+  select?: Prisma.InstanceOperationStateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InstanceOperationState
+   */
+  omit?: Prisma.InstanceOperationStateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InstanceOperationStateInclude<ExtArgs> | null
+  where?: Prisma.InstanceOperationStateWhereInput
+  orderBy?: Prisma.InstanceOperationStateOrderByWithRelationInput | Prisma.InstanceOperationStateOrderByWithRelationInput[]
+  cursor?: Prisma.InstanceOperationStateWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.InstanceOperationStateScalarFieldEnum | Prisma.InstanceOperationStateScalarFieldEnum[]
+}
+
+/**
+ * InstanceState.secrets
+ */
+export type InstanceState$secretsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Secret
+   */
+  select?: Prisma.SecretSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Secret
+   */
+  omit?: Prisma.SecretOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SecretInclude<ExtArgs> | null
+  where?: Prisma.SecretWhereInput
+  orderBy?: Prisma.SecretOrderByWithRelationInput | Prisma.SecretOrderByWithRelationInput[]
+  cursor?: Prisma.SecretWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.SecretScalarFieldEnum | Prisma.SecretScalarFieldEnum[]
+}
+
+/**
+ * InstanceState.terminals
+ */
+export type InstanceState$terminalsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Terminal
+   */
+  select?: Prisma.TerminalSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Terminal
+   */
+  omit?: Prisma.TerminalOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TerminalInclude<ExtArgs> | null
+  where?: Prisma.TerminalWhereInput
+  orderBy?: Prisma.TerminalOrderByWithRelationInput | Prisma.TerminalOrderByWithRelationInput[]
+  cursor?: Prisma.TerminalWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.TerminalScalarFieldEnum | Prisma.TerminalScalarFieldEnum[]
+}
+
+/**
+ * InstanceState.pages
+ */
+export type InstanceState$pagesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Page
+   */
+  select?: Prisma.PageSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Page
+   */
+  omit?: Prisma.PageOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PageInclude<ExtArgs> | null
+  where?: Prisma.PageWhereInput
+  orderBy?: Prisma.PageOrderByWithRelationInput | Prisma.PageOrderByWithRelationInput[]
+  cursor?: Prisma.PageWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.PageScalarFieldEnum | Prisma.PageScalarFieldEnum[]
+}
+
+/**
+ * InstanceState.triggers
+ */
+export type InstanceState$triggersArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Trigger
+   */
+  select?: Prisma.TriggerSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Trigger
+   */
+  omit?: Prisma.TriggerOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TriggerInclude<ExtArgs> | null
+  where?: Prisma.TriggerWhereInput
+  orderBy?: Prisma.TriggerOrderByWithRelationInput | Prisma.TriggerOrderByWithRelationInput[]
+  cursor?: Prisma.TriggerWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.TriggerScalarFieldEnum | Prisma.TriggerScalarFieldEnum[]
+}
+
+/**
+ * InstanceState.customStatuses
+ */
+export type InstanceState$customStatusesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InstanceCustomStatus
+   */
+  select?: Prisma.InstanceCustomStatusSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InstanceCustomStatus
+   */
+  omit?: Prisma.InstanceCustomStatusOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InstanceCustomStatusInclude<ExtArgs> | null
+  where?: Prisma.InstanceCustomStatusWhereInput
+  orderBy?: Prisma.InstanceCustomStatusOrderByWithRelationInput | Prisma.InstanceCustomStatusOrderByWithRelationInput[]
+  cursor?: Prisma.InstanceCustomStatusWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.InstanceCustomStatusScalarFieldEnum | Prisma.InstanceCustomStatusScalarFieldEnum[]
+}
+
+/**
+ * InstanceState.lock
+ */
+export type InstanceState$lockArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InstanceLock
+   */
+  select?: Prisma.InstanceLockSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InstanceLock
+   */
+  omit?: Prisma.InstanceLockOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InstanceLockInclude<ExtArgs> | null
+  where?: Prisma.InstanceLockWhereInput
+}
+
+/**
+ * InstanceState.workerRegistrations
+ */
+export type InstanceState$workerRegistrationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkerUnitRegistration
+   */
+  select?: Prisma.WorkerUnitRegistrationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkerUnitRegistration
+   */
+  omit?: Prisma.WorkerUnitRegistrationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkerUnitRegistrationInclude<ExtArgs> | null
+  where?: Prisma.WorkerUnitRegistrationWhereInput
+  orderBy?: Prisma.WorkerUnitRegistrationOrderByWithRelationInput | Prisma.WorkerUnitRegistrationOrderByWithRelationInput[]
+  cursor?: Prisma.WorkerUnitRegistrationWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.WorkerUnitRegistrationScalarFieldEnum | Prisma.WorkerUnitRegistrationScalarFieldEnum[]
+}
+
+/**
+ * InstanceState.serviceAccountGrants
+ */
+export type InstanceState$serviceAccountGrantsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ServiceAccountGrant
+   */
+  select?: Prisma.ServiceAccountGrantSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ServiceAccountGrant
+   */
+  omit?: Prisma.ServiceAccountGrantOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ServiceAccountGrantInclude<ExtArgs> | null
+  where?: Prisma.ServiceAccountGrantWhereInput
+  orderBy?: Prisma.ServiceAccountGrantOrderByWithRelationInput | Prisma.ServiceAccountGrantOrderByWithRelationInput[]
+  cursor?: Prisma.ServiceAccountGrantWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ServiceAccountGrantScalarFieldEnum | Prisma.ServiceAccountGrantScalarFieldEnum[]
+}
+
+/**
+ * InstanceState.artifacts
+ */
+export type InstanceState$artifactsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Artifact
+   */
+  select?: Prisma.ArtifactSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Artifact
+   */
+  omit?: Prisma.ArtifactOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ArtifactInclude<ExtArgs> | null
+  where?: Prisma.ArtifactWhereInput
+  orderBy?: Prisma.ArtifactOrderByWithRelationInput | Prisma.ArtifactOrderByWithRelationInput[]
+  cursor?: Prisma.ArtifactWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ArtifactScalarFieldEnum | Prisma.ArtifactScalarFieldEnum[]
+}
+
+/**
+ * InstanceState.operationLogs
+ */
+export type InstanceState$operationLogsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OperationLog
+   */
+  select?: Prisma.OperationLogSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OperationLog
+   */
+  omit?: Prisma.OperationLogOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OperationLogInclude<ExtArgs> | null
+  where?: Prisma.OperationLogWhereInput
+  orderBy?: Prisma.OperationLogOrderByWithRelationInput | Prisma.OperationLogOrderByWithRelationInput[]
+  cursor?: Prisma.OperationLogWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.OperationLogScalarFieldEnum | Prisma.OperationLogScalarFieldEnum[]
+}
+
+/**
+ * InstanceState.userViewports
+ */
+export type InstanceState$userViewportsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the UserCompositeViewport
+   */
+  select?: Prisma.UserCompositeViewportSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the UserCompositeViewport
+   */
+  omit?: Prisma.UserCompositeViewportOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserCompositeViewportInclude<ExtArgs> | null
+  where?: Prisma.UserCompositeViewportWhereInput
+  orderBy?: Prisma.UserCompositeViewportOrderByWithRelationInput | Prisma.UserCompositeViewportOrderByWithRelationInput[]
+  cursor?: Prisma.UserCompositeViewportWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.UserCompositeViewportScalarFieldEnum | Prisma.UserCompositeViewportScalarFieldEnum[]
+}
+
+/**
+ * InstanceState.entitySnapshots
+ */
+export type InstanceState$entitySnapshotsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the EntitySnapshot
+   */
+  select?: Prisma.EntitySnapshotSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the EntitySnapshot
+   */
+  omit?: Prisma.EntitySnapshotOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EntitySnapshotInclude<ExtArgs> | null
+  where?: Prisma.EntitySnapshotWhereInput
+  orderBy?: Prisma.EntitySnapshotOrderByWithRelationInput | Prisma.EntitySnapshotOrderByWithRelationInput[]
+  cursor?: Prisma.EntitySnapshotWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.EntitySnapshotScalarFieldEnum | Prisma.EntitySnapshotScalarFieldEnum[]
+}
+
+/**
+ * InstanceState without action
+ */
+export type InstanceStateDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InstanceState
+   */
+  select?: Prisma.InstanceStateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InstanceState
+   */
+  omit?: Prisma.InstanceStateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InstanceStateInclude<ExtArgs> | null
+}
@@ -0,0 +1,1850 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `Page` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+
+import type * as PJTG from '../pjtg.ts';
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.ts"
+import type * as Prisma from "../internal/prismaNamespace.ts"
+
+/**
+ * Model Page
+ * The page provides custom UI content for instances and service accounts.
+ * 
+ * Pages can be created by units to display instance-specific information or by service accounts.
+ * The content consists of blocks that support markdown text, QR codes with optional content display,
+ * and file attachments (inline or artifact references). Instance pages are explicitly deleted
+ * when instances are destroyed.
+ */
+export type PageModel = runtime.Types.Result.DefaultSelection<Prisma.$PagePayload>
+
+export type AggregatePage = {
+  _count: PageCountAggregateOutputType | null
+  _min: PageMinAggregateOutputType | null
+  _max: PageMaxAggregateOutputType | null
+}
+
+export type PageMinAggregateOutputType = {
+  id: string | null
+  stateId: string | null
+  name: string | null
+  serviceAccountId: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type PageMaxAggregateOutputType = {
+  id: string | null
+  stateId: string | null
+  name: string | null
+  serviceAccountId: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type PageCountAggregateOutputType = {
+  id: number
+  meta: number
+  stateId: number
+  name: number
+  serviceAccountId: number
+  content: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type PageMinAggregateInputType = {
+  id?: true
+  stateId?: true
+  name?: true
+  serviceAccountId?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type PageMaxAggregateInputType = {
+  id?: true
+  stateId?: true
+  name?: true
+  serviceAccountId?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type PageCountAggregateInputType = {
+  id?: true
+  meta?: true
+  stateId?: true
+  name?: true
+  serviceAccountId?: true
+  content?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type PageAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which Page to aggregate.
+   */
+  where?: Prisma.PageWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Pages to fetch.
+   */
+  orderBy?: Prisma.PageOrderByWithRelationInput | Prisma.PageOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.PageWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Pages from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Pages.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned Pages
+  **/
+  _count?: true | PageCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: PageMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: PageMaxAggregateInputType
+}
+
+export type GetPageAggregateType<T extends PageAggregateArgs> = {
+      [P in keyof T & keyof AggregatePage]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregatePage[P]>
+    : Prisma.GetScalarType<T[P], AggregatePage[P]>
+}
+
+
+
+
+export type PageGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.PageWhereInput
+  orderBy?: Prisma.PageOrderByWithAggregationInput | Prisma.PageOrderByWithAggregationInput[]
+  by: Prisma.PageScalarFieldEnum[] | Prisma.PageScalarFieldEnum
+  having?: Prisma.PageScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: PageCountAggregateInputType | true
+  _min?: PageMinAggregateInputType
+  _max?: PageMaxAggregateInputType
+}
+
+export type PageGroupByOutputType = {
+  id: string
+  meta:PrismaJson.GlobalCommonObjectMeta
+  stateId: string | null
+  name: string | null
+  serviceAccountId: string | null
+  content:PrismaJson.PageContent
+  createdAt: Date
+  updatedAt: Date
+  _count: PageCountAggregateOutputType | null
+  _min: PageMinAggregateOutputType | null
+  _max: PageMaxAggregateOutputType | null
+}
+
+type GetPageGroupByPayload<T extends PageGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<PageGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof PageGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], PageGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], PageGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type PageWhereInput = {
+  AND?: Prisma.PageWhereInput | Prisma.PageWhereInput[]
+  OR?: Prisma.PageWhereInput[]
+  NOT?: Prisma.PageWhereInput | Prisma.PageWhereInput[]
+  id?: Prisma.StringFilter<"Page"> | string
+  meta?: Prisma.JsonFilter<"Page">
+  stateId?: Prisma.StringNullableFilter<"Page"> | string | null
+  name?: Prisma.StringNullableFilter<"Page"> | string | null
+  serviceAccountId?: Prisma.StringNullableFilter<"Page"> | string | null
+  content?: Prisma.JsonFilter<"Page">
+  createdAt?: Prisma.DateTimeFilter<"Page"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"Page"> | Date | string
+  state?: Prisma.XOR<Prisma.InstanceStateNullableScalarRelationFilter, Prisma.InstanceStateWhereInput> | null
+  serviceAccount?: Prisma.XOR<Prisma.ServiceAccountNullableScalarRelationFilter, Prisma.ServiceAccountWhereInput> | null
+  artifacts?: Prisma.ArtifactListRelationFilter
+}
+
+export type PageOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  meta?: Prisma.SortOrder
+  stateId?: Prisma.SortOrderInput | Prisma.SortOrder
+  name?: Prisma.SortOrderInput | Prisma.SortOrder
+  serviceAccountId?: Prisma.SortOrderInput | Prisma.SortOrder
+  content?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  state?: Prisma.InstanceStateOrderByWithRelationInput
+  serviceAccount?: Prisma.ServiceAccountOrderByWithRelationInput
+  artifacts?: Prisma.ArtifactOrderByRelationAggregateInput
+}
+
+export type PageWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  stateId_name?: Prisma.PageStateIdNameCompoundUniqueInput
+  AND?: Prisma.PageWhereInput | Prisma.PageWhereInput[]
+  OR?: Prisma.PageWhereInput[]
+  NOT?: Prisma.PageWhereInput | Prisma.PageWhereInput[]
+  meta?: Prisma.JsonFilter<"Page">
+  stateId?: Prisma.StringNullableFilter<"Page"> | string | null
+  name?: Prisma.StringNullableFilter<"Page"> | string | null
+  serviceAccountId?: Prisma.StringNullableFilter<"Page"> | string | null
+  content?: Prisma.JsonFilter<"Page">
+  createdAt?: Prisma.DateTimeFilter<"Page"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"Page"> | Date | string
+  state?: Prisma.XOR<Prisma.InstanceStateNullableScalarRelationFilter, Prisma.InstanceStateWhereInput> | null
+  serviceAccount?: Prisma.XOR<Prisma.ServiceAccountNullableScalarRelationFilter, Prisma.ServiceAccountWhereInput> | null
+  artifacts?: Prisma.ArtifactListRelationFilter
+}, "id" | "stateId_name">
+
+export type PageOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  meta?: Prisma.SortOrder
+  stateId?: Prisma.SortOrderInput | Prisma.SortOrder
+  name?: Prisma.SortOrderInput | Prisma.SortOrder
+  serviceAccountId?: Prisma.SortOrderInput | Prisma.SortOrder
+  content?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.PageCountOrderByAggregateInput
+  _max?: Prisma.PageMaxOrderByAggregateInput
+  _min?: Prisma.PageMinOrderByAggregateInput
+}
+
+export type PageScalarWhereWithAggregatesInput = {
+  AND?: Prisma.PageScalarWhereWithAggregatesInput | Prisma.PageScalarWhereWithAggregatesInput[]
+  OR?: Prisma.PageScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.PageScalarWhereWithAggregatesInput | Prisma.PageScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"Page"> | string
+  meta?: Prisma.JsonWithAggregatesFilter<"Page">
+  stateId?: Prisma.StringNullableWithAggregatesFilter<"Page"> | string | null
+  name?: Prisma.StringNullableWithAggregatesFilter<"Page"> | string | null
+  serviceAccountId?: Prisma.StringNullableWithAggregatesFilter<"Page"> | string | null
+  content?: Prisma.JsonWithAggregatesFilter<"Page">
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"Page"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"Page"> | Date | string
+}
+
+export type PageCreateInput = {
+  id?: string
+  meta:PrismaJson.GlobalCommonObjectMeta
+  name?: string | null
+  content:PrismaJson.PageContent
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  state?: Prisma.InstanceStateCreateNestedOneWithoutPagesInput
+  serviceAccount?: Prisma.ServiceAccountCreateNestedOneWithoutPagesInput
+  artifacts?: Prisma.ArtifactCreateNestedManyWithoutPagesInput
+}
+
+export type PageUncheckedCreateInput = {
+  id?: string
+  meta:PrismaJson.GlobalCommonObjectMeta
+  stateId?: string | null
+  name?: string | null
+  serviceAccountId?: string | null
+  content:PrismaJson.PageContent
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  artifacts?: Prisma.ArtifactUncheckedCreateNestedManyWithoutPagesInput
+}
+
+export type PageUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  meta?:PrismaJson.GlobalCommonObjectMeta
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  content?:PrismaJson.PageContent
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  state?: Prisma.InstanceStateUpdateOneWithoutPagesNestedInput
+  serviceAccount?: Prisma.ServiceAccountUpdateOneWithoutPagesNestedInput
+  artifacts?: Prisma.ArtifactUpdateManyWithoutPagesNestedInput
+}
+
+export type PageUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  meta?:PrismaJson.GlobalCommonObjectMeta
+  stateId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  serviceAccountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  content?:PrismaJson.PageContent
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  artifacts?: Prisma.ArtifactUncheckedUpdateManyWithoutPagesNestedInput
+}
+
+export type PageCreateManyInput = {
+  id?: string
+  meta:PrismaJson.GlobalCommonObjectMeta
+  stateId?: string | null
+  name?: string | null
+  serviceAccountId?: string | null
+  content:PrismaJson.PageContent
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type PageUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  meta?:PrismaJson.GlobalCommonObjectMeta
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  content?:PrismaJson.PageContent
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PageUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  meta?:PrismaJson.GlobalCommonObjectMeta
+  stateId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  serviceAccountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  content?:PrismaJson.PageContent
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PageListRelationFilter = {
+  every?: Prisma.PageWhereInput
+  some?: Prisma.PageWhereInput
+  none?: Prisma.PageWhereInput
+}
+
+export type PageOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type PageStateIdNameCompoundUniqueInput = {
+  stateId: string
+  name: string
+}
+
+export type PageCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  meta?: Prisma.SortOrder
+  stateId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  serviceAccountId?: Prisma.SortOrder
+  content?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type PageMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  stateId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  serviceAccountId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type PageMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  stateId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  serviceAccountId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type PageCreateNestedManyWithoutArtifactsInput = {
+  create?: Prisma.XOR<Prisma.PageCreateWithoutArtifactsInput, Prisma.PageUncheckedCreateWithoutArtifactsInput> | Prisma.PageCreateWithoutArtifactsInput[] | Prisma.PageUncheckedCreateWithoutArtifactsInput[]
+  connectOrCreate?: Prisma.PageCreateOrConnectWithoutArtifactsInput | Prisma.PageCreateOrConnectWithoutArtifactsInput[]
+  connect?: Prisma.PageWhereUniqueInput | Prisma.PageWhereUniqueInput[]
+}
+
+export type PageUncheckedCreateNestedManyWithoutArtifactsInput = {
+  create?: Prisma.XOR<Prisma.PageCreateWithoutArtifactsInput, Prisma.PageUncheckedCreateWithoutArtifactsInput> | Prisma.PageCreateWithoutArtifactsInput[] | Prisma.PageUncheckedCreateWithoutArtifactsInput[]
+  connectOrCreate?: Prisma.PageCreateOrConnectWithoutArtifactsInput | Prisma.PageCreateOrConnectWithoutArtifactsInput[]
+  connect?: Prisma.PageWhereUniqueInput | Prisma.PageWhereUniqueInput[]
+}
+
+export type PageUpdateManyWithoutArtifactsNestedInput = {
+  create?: Prisma.XOR<Prisma.PageCreateWithoutArtifactsInput, Prisma.PageUncheckedCreateWithoutArtifactsInput> | Prisma.PageCreateWithoutArtifactsInput[] | Prisma.PageUncheckedCreateWithoutArtifactsInput[]
+  connectOrCreate?: Prisma.PageCreateOrConnectWithoutArtifactsInput | Prisma.PageCreateOrConnectWithoutArtifactsInput[]
+  upsert?: Prisma.PageUpsertWithWhereUniqueWithoutArtifactsInput | Prisma.PageUpsertWithWhereUniqueWithoutArtifactsInput[]
+  set?: Prisma.PageWhereUniqueInput | Prisma.PageWhereUniqueInput[]
+  disconnect?: Prisma.PageWhereUniqueInput | Prisma.PageWhereUniqueInput[]
+  delete?: Prisma.PageWhereUniqueInput | Prisma.PageWhereUniqueInput[]
+  connect?: Prisma.PageWhereUniqueInput | Prisma.PageWhereUniqueInput[]
+  update?: Prisma.PageUpdateWithWhereUniqueWithoutArtifactsInput | Prisma.PageUpdateWithWhereUniqueWithoutArtifactsInput[]
+  updateMany?: Prisma.PageUpdateManyWithWhereWithoutArtifactsInput | Prisma.PageUpdateManyWithWhereWithoutArtifactsInput[]
+  deleteMany?: Prisma.PageScalarWhereInput | Prisma.PageScalarWhereInput[]
+}
+
+export type PageUncheckedUpdateManyWithoutArtifactsNestedInput = {
+  create?: Prisma.XOR<Prisma.PageCreateWithoutArtifactsInput, Prisma.PageUncheckedCreateWithoutArtifactsInput> | Prisma.PageCreateWithoutArtifactsInput[] | Prisma.PageUncheckedCreateWithoutArtifactsInput[]
+  connectOrCreate?: Prisma.PageCreateOrConnectWithoutArtifactsInput | Prisma.PageCreateOrConnectWithoutArtifactsInput[]
+  upsert?: Prisma.PageUpsertWithWhereUniqueWithoutArtifactsInput | Prisma.PageUpsertWithWhereUniqueWithoutArtifactsInput[]
+  set?: Prisma.PageWhereUniqueInput | Prisma.PageWhereUniqueInput[]
+  disconnect?: Prisma.PageWhereUniqueInput | Prisma.PageWhereUniqueInput[]
+  delete?: Prisma.PageWhereUniqueInput | Prisma.PageWhereUniqueInput[]
+  connect?: Prisma.PageWhereUniqueInput | Prisma.PageWhereUniqueInput[]
+  update?: Prisma.PageUpdateWithWhereUniqueWithoutArtifactsInput | Prisma.PageUpdateWithWhereUniqueWithoutArtifactsInput[]
+  updateMany?: Prisma.PageUpdateManyWithWhereWithoutArtifactsInput | Prisma.PageUpdateManyWithWhereWithoutArtifactsInput[]
+  deleteMany?: Prisma.PageScalarWhereInput | Prisma.PageScalarWhereInput[]
+}
+
+export type PageCreateNestedManyWithoutStateInput = {
+  create?: Prisma.XOR<Prisma.PageCreateWithoutStateInput, Prisma.PageUncheckedCreateWithoutStateInput> | Prisma.PageCreateWithoutStateInput[] | Prisma.PageUncheckedCreateWithoutStateInput[]
+  connectOrCreate?: Prisma.PageCreateOrConnectWithoutStateInput | Prisma.PageCreateOrConnectWithoutStateInput[]
+  createMany?: Prisma.PageCreateManyStateInputEnvelope
+  connect?: Prisma.PageWhereUniqueInput | Prisma.PageWhereUniqueInput[]
+}
+
+export type PageUncheckedCreateNestedManyWithoutStateInput = {
+  create?: Prisma.XOR<Prisma.PageCreateWithoutStateInput, Prisma.PageUncheckedCreateWithoutStateInput> | Prisma.PageCreateWithoutStateInput[] | Prisma.PageUncheckedCreateWithoutStateInput[]
+  connectOrCreate?: Prisma.PageCreateOrConnectWithoutStateInput | Prisma.PageCreateOrConnectWithoutStateInput[]
+  createMany?: Prisma.PageCreateManyStateInputEnvelope
+  connect?: Prisma.PageWhereUniqueInput | Prisma.PageWhereUniqueInput[]
+}
+
+export type PageUpdateManyWithoutStateNestedInput = {
+  create?: Prisma.XOR<Prisma.PageCreateWithoutStateInput, Prisma.PageUncheckedCreateWithoutStateInput> | Prisma.PageCreateWithoutStateInput[] | Prisma.PageUncheckedCreateWithoutStateInput[]
+  connectOrCreate?: Prisma.PageCreateOrConnectWithoutStateInput | Prisma.PageCreateOrConnectWithoutStateInput[]
+  upsert?: Prisma.PageUpsertWithWhereUniqueWithoutStateInput | Prisma.PageUpsertWithWhereUniqueWithoutStateInput[]
+  createMany?: Prisma.PageCreateManyStateInputEnvelope
+  set?: Prisma.PageWhereUniqueInput | Prisma.PageWhereUniqueInput[]
+  disconnect?: Prisma.PageWhereUniqueInput | Prisma.PageWhereUniqueInput[]
+  delete?: Prisma.PageWhereUniqueInput | Prisma.PageWhereUniqueInput[]
+  connect?: Prisma.PageWhereUniqueInput | Prisma.PageWhereUniqueInput[]
+  update?: Prisma.PageUpdateWithWhereUniqueWithoutStateInput | Prisma.PageUpdateWithWhereUniqueWithoutStateInput[]
+  updateMany?: Prisma.PageUpdateManyWithWhereWithoutStateInput | Prisma.PageUpdateManyWithWhereWithoutStateInput[]
+  deleteMany?: Prisma.PageScalarWhereInput | Prisma.PageScalarWhereInput[]
+}
+
+export type PageUncheckedUpdateManyWithoutStateNestedInput = {
+  create?: Prisma.XOR<Prisma.PageCreateWithoutStateInput, Prisma.PageUncheckedCreateWithoutStateInput> | Prisma.PageCreateWithoutStateInput[] | Prisma.PageUncheckedCreateWithoutStateInput[]
+  connectOrCreate?: Prisma.PageCreateOrConnectWithoutStateInput | Prisma.PageCreateOrConnectWithoutStateInput[]
+  upsert?: Prisma.PageUpsertWithWhereUniqueWithoutStateInput | Prisma.PageUpsertWithWhereUniqueWithoutStateInput[]
+  createMany?: Prisma.PageCreateManyStateInputEnvelope
+  set?: Prisma.PageWhereUniqueInput | Prisma.PageWhereUniqueInput[]
+  disconnect?: Prisma.PageWhereUniqueInput | Prisma.PageWhereUniqueInput[]
+  delete?: Prisma.PageWhereUniqueInput | Prisma.PageWhereUniqueInput[]
+  connect?: Prisma.PageWhereUniqueInput | Prisma.PageWhereUniqueInput[]
+  update?: Prisma.PageUpdateWithWhereUniqueWithoutStateInput | Prisma.PageUpdateWithWhereUniqueWithoutStateInput[]
+  updateMany?: Prisma.PageUpdateManyWithWhereWithoutStateInput | Prisma.PageUpdateManyWithWhereWithoutStateInput[]
+  deleteMany?: Prisma.PageScalarWhereInput | Prisma.PageScalarWhereInput[]
+}
+
+export type PageCreateNestedManyWithoutServiceAccountInput = {
+  create?: Prisma.XOR<Prisma.PageCreateWithoutServiceAccountInput, Prisma.PageUncheckedCreateWithoutServiceAccountInput> | Prisma.PageCreateWithoutServiceAccountInput[] | Prisma.PageUncheckedCreateWithoutServiceAccountInput[]
+  connectOrCreate?: Prisma.PageCreateOrConnectWithoutServiceAccountInput | Prisma.PageCreateOrConnectWithoutServiceAccountInput[]
+  createMany?: Prisma.PageCreateManyServiceAccountInputEnvelope
+  connect?: Prisma.PageWhereUniqueInput | Prisma.PageWhereUniqueInput[]
+}
+
+export type PageUncheckedCreateNestedManyWithoutServiceAccountInput = {
+  create?: Prisma.XOR<Prisma.PageCreateWithoutServiceAccountInput, Prisma.PageUncheckedCreateWithoutServiceAccountInput> | Prisma.PageCreateWithoutServiceAccountInput[] | Prisma.PageUncheckedCreateWithoutServiceAccountInput[]
+  connectOrCreate?: Prisma.PageCreateOrConnectWithoutServiceAccountInput | Prisma.PageCreateOrConnectWithoutServiceAccountInput[]
+  createMany?: Prisma.PageCreateManyServiceAccountInputEnvelope
+  connect?: Prisma.PageWhereUniqueInput | Prisma.PageWhereUniqueInput[]
+}
+
+export type PageUpdateManyWithoutServiceAccountNestedInput = {
+  create?: Prisma.XOR<Prisma.PageCreateWithoutServiceAccountInput, Prisma.PageUncheckedCreateWithoutServiceAccountInput> | Prisma.PageCreateWithoutServiceAccountInput[] | Prisma.PageUncheckedCreateWithoutServiceAccountInput[]
+  connectOrCreate?: Prisma.PageCreateOrConnectWithoutServiceAccountInput | Prisma.PageCreateOrConnectWithoutServiceAccountInput[]
+  upsert?: Prisma.PageUpsertWithWhereUniqueWithoutServiceAccountInput | Prisma.PageUpsertWithWhereUniqueWithoutServiceAccountInput[]
+  createMany?: Prisma.PageCreateManyServiceAccountInputEnvelope
+  set?: Prisma.PageWhereUniqueInput | Prisma.PageWhereUniqueInput[]
+  disconnect?: Prisma.PageWhereUniqueInput | Prisma.PageWhereUniqueInput[]
+  delete?: Prisma.PageWhereUniqueInput | Prisma.PageWhereUniqueInput[]
+  connect?: Prisma.PageWhereUniqueInput | Prisma.PageWhereUniqueInput[]
+  update?: Prisma.PageUpdateWithWhereUniqueWithoutServiceAccountInput | Prisma.PageUpdateWithWhereUniqueWithoutServiceAccountInput[]
+  updateMany?: Prisma.PageUpdateManyWithWhereWithoutServiceAccountInput | Prisma.PageUpdateManyWithWhereWithoutServiceAccountInput[]
+  deleteMany?: Prisma.PageScalarWhereInput | Prisma.PageScalarWhereInput[]
+}
+
+export type PageUncheckedUpdateManyWithoutServiceAccountNestedInput = {
+  create?: Prisma.XOR<Prisma.PageCreateWithoutServiceAccountInput, Prisma.PageUncheckedCreateWithoutServiceAccountInput> | Prisma.PageCreateWithoutServiceAccountInput[] | Prisma.PageUncheckedCreateWithoutServiceAccountInput[]
+  connectOrCreate?: Prisma.PageCreateOrConnectWithoutServiceAccountInput | Prisma.PageCreateOrConnectWithoutServiceAccountInput[]
+  upsert?: Prisma.PageUpsertWithWhereUniqueWithoutServiceAccountInput | Prisma.PageUpsertWithWhereUniqueWithoutServiceAccountInput[]
+  createMany?: Prisma.PageCreateManyServiceAccountInputEnvelope
+  set?: Prisma.PageWhereUniqueInput | Prisma.PageWhereUniqueInput[]
+  disconnect?: Prisma.PageWhereUniqueInput | Prisma.PageWhereUniqueInput[]
+  delete?: Prisma.PageWhereUniqueInput | Prisma.PageWhereUniqueInput[]
+  connect?: Prisma.PageWhereUniqueInput | Prisma.PageWhereUniqueInput[]
+  update?: Prisma.PageUpdateWithWhereUniqueWithoutServiceAccountInput | Prisma.PageUpdateWithWhereUniqueWithoutServiceAccountInput[]
+  updateMany?: Prisma.PageUpdateManyWithWhereWithoutServiceAccountInput | Prisma.PageUpdateManyWithWhereWithoutServiceAccountInput[]
+  deleteMany?: Prisma.PageScalarWhereInput | Prisma.PageScalarWhereInput[]
+}
+
+export type PageCreateWithoutArtifactsInput = {
+  id?: string
+  meta:PrismaJson.GlobalCommonObjectMeta
+  name?: string | null
+  content:PrismaJson.PageContent
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  state?: Prisma.InstanceStateCreateNestedOneWithoutPagesInput
+  serviceAccount?: Prisma.ServiceAccountCreateNestedOneWithoutPagesInput
+}
+
+export type PageUncheckedCreateWithoutArtifactsInput = {
+  id?: string
+  meta:PrismaJson.GlobalCommonObjectMeta
+  stateId?: string | null
+  name?: string | null
+  serviceAccountId?: string | null
+  content:PrismaJson.PageContent
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type PageCreateOrConnectWithoutArtifactsInput = {
+  where: Prisma.PageWhereUniqueInput
+  create: Prisma.XOR<Prisma.PageCreateWithoutArtifactsInput, Prisma.PageUncheckedCreateWithoutArtifactsInput>
+}
+
+export type PageUpsertWithWhereUniqueWithoutArtifactsInput = {
+  where: Prisma.PageWhereUniqueInput
+  update: Prisma.XOR<Prisma.PageUpdateWithoutArtifactsInput, Prisma.PageUncheckedUpdateWithoutArtifactsInput>
+  create: Prisma.XOR<Prisma.PageCreateWithoutArtifactsInput, Prisma.PageUncheckedCreateWithoutArtifactsInput>
+}
+
+export type PageUpdateWithWhereUniqueWithoutArtifactsInput = {
+  where: Prisma.PageWhereUniqueInput
+  data: Prisma.XOR<Prisma.PageUpdateWithoutArtifactsInput, Prisma.PageUncheckedUpdateWithoutArtifactsInput>
+}
+
+export type PageUpdateManyWithWhereWithoutArtifactsInput = {
+  where: Prisma.PageScalarWhereInput
+  data: Prisma.XOR<Prisma.PageUpdateManyMutationInput, Prisma.PageUncheckedUpdateManyWithoutArtifactsInput>
+}
+
+export type PageScalarWhereInput = {
+  AND?: Prisma.PageScalarWhereInput | Prisma.PageScalarWhereInput[]
+  OR?: Prisma.PageScalarWhereInput[]
+  NOT?: Prisma.PageScalarWhereInput | Prisma.PageScalarWhereInput[]
+  id?: Prisma.StringFilter<"Page"> | string
+  meta?: Prisma.JsonFilter<"Page">
+  stateId?: Prisma.StringNullableFilter<"Page"> | string | null
+  name?: Prisma.StringNullableFilter<"Page"> | string | null
+  serviceAccountId?: Prisma.StringNullableFilter<"Page"> | string | null
+  content?: Prisma.JsonFilter<"Page">
+  createdAt?: Prisma.DateTimeFilter<"Page"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"Page"> | Date | string
+}
+
+export type PageCreateWithoutStateInput = {
+  id?: string
+  meta:PrismaJson.GlobalCommonObjectMeta
+  name?: string | null
+  content:PrismaJson.PageContent
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  serviceAccount?: Prisma.ServiceAccountCreateNestedOneWithoutPagesInput
+  artifacts?: Prisma.ArtifactCreateNestedManyWithoutPagesInput
+}
+
+export type PageUncheckedCreateWithoutStateInput = {
+  id?: string
+  meta:PrismaJson.GlobalCommonObjectMeta
+  name?: string | null
+  serviceAccountId?: string | null
+  content:PrismaJson.PageContent
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  artifacts?: Prisma.ArtifactUncheckedCreateNestedManyWithoutPagesInput
+}
+
+export type PageCreateOrConnectWithoutStateInput = {
+  where: Prisma.PageWhereUniqueInput
+  create: Prisma.XOR<Prisma.PageCreateWithoutStateInput, Prisma.PageUncheckedCreateWithoutStateInput>
+}
+
+export type PageCreateManyStateInputEnvelope = {
+  data: Prisma.PageCreateManyStateInput | Prisma.PageCreateManyStateInput[]
+  skipDuplicates?: boolean
+}
+
+export type PageUpsertWithWhereUniqueWithoutStateInput = {
+  where: Prisma.PageWhereUniqueInput
+  update: Prisma.XOR<Prisma.PageUpdateWithoutStateInput, Prisma.PageUncheckedUpdateWithoutStateInput>
+  create: Prisma.XOR<Prisma.PageCreateWithoutStateInput, Prisma.PageUncheckedCreateWithoutStateInput>
+}
+
+export type PageUpdateWithWhereUniqueWithoutStateInput = {
+  where: Prisma.PageWhereUniqueInput
+  data: Prisma.XOR<Prisma.PageUpdateWithoutStateInput, Prisma.PageUncheckedUpdateWithoutStateInput>
+}
+
+export type PageUpdateManyWithWhereWithoutStateInput = {
+  where: Prisma.PageScalarWhereInput
+  data: Prisma.XOR<Prisma.PageUpdateManyMutationInput, Prisma.PageUncheckedUpdateManyWithoutStateInput>
+}
+
+export type PageCreateWithoutServiceAccountInput = {
+  id?: string
+  meta:PrismaJson.GlobalCommonObjectMeta
+  name?: string | null
+  content:PrismaJson.PageContent
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  state?: Prisma.InstanceStateCreateNestedOneWithoutPagesInput
+  artifacts?: Prisma.ArtifactCreateNestedManyWithoutPagesInput
+}
+
+export type PageUncheckedCreateWithoutServiceAccountInput = {
+  id?: string
+  meta:PrismaJson.GlobalCommonObjectMeta
+  stateId?: string | null
+  name?: string | null
+  content:PrismaJson.PageContent
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  artifacts?: Prisma.ArtifactUncheckedCreateNestedManyWithoutPagesInput
+}
+
+export type PageCreateOrConnectWithoutServiceAccountInput = {
+  where: Prisma.PageWhereUniqueInput
+  create: Prisma.XOR<Prisma.PageCreateWithoutServiceAccountInput, Prisma.PageUncheckedCreateWithoutServiceAccountInput>
+}
+
+export type PageCreateManyServiceAccountInputEnvelope = {
+  data: Prisma.PageCreateManyServiceAccountInput | Prisma.PageCreateManyServiceAccountInput[]
+  skipDuplicates?: boolean
+}
+
+export type PageUpsertWithWhereUniqueWithoutServiceAccountInput = {
+  where: Prisma.PageWhereUniqueInput
+  update: Prisma.XOR<Prisma.PageUpdateWithoutServiceAccountInput, Prisma.PageUncheckedUpdateWithoutServiceAccountInput>
+  create: Prisma.XOR<Prisma.PageCreateWithoutServiceAccountInput, Prisma.PageUncheckedCreateWithoutServiceAccountInput>
+}
+
+export type PageUpdateWithWhereUniqueWithoutServiceAccountInput = {
+  where: Prisma.PageWhereUniqueInput
+  data: Prisma.XOR<Prisma.PageUpdateWithoutServiceAccountInput, Prisma.PageUncheckedUpdateWithoutServiceAccountInput>
+}
+
+export type PageUpdateManyWithWhereWithoutServiceAccountInput = {
+  where: Prisma.PageScalarWhereInput
+  data: Prisma.XOR<Prisma.PageUpdateManyMutationInput, Prisma.PageUncheckedUpdateManyWithoutServiceAccountInput>
+}
+
+export type PageUpdateWithoutArtifactsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  meta?:PrismaJson.GlobalCommonObjectMeta
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  content?:PrismaJson.PageContent
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  state?: Prisma.InstanceStateUpdateOneWithoutPagesNestedInput
+  serviceAccount?: Prisma.ServiceAccountUpdateOneWithoutPagesNestedInput
+}
+
+export type PageUncheckedUpdateWithoutArtifactsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  meta?:PrismaJson.GlobalCommonObjectMeta
+  stateId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  serviceAccountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  content?:PrismaJson.PageContent
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PageUncheckedUpdateManyWithoutArtifactsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  meta?:PrismaJson.GlobalCommonObjectMeta
+  stateId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  serviceAccountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  content?:PrismaJson.PageContent
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PageCreateManyStateInput = {
+  id?: string
+  meta:PrismaJson.GlobalCommonObjectMeta
+  name?: string | null
+  serviceAccountId?: string | null
+  content:PrismaJson.PageContent
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type PageUpdateWithoutStateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  meta?:PrismaJson.GlobalCommonObjectMeta
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  content?:PrismaJson.PageContent
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  serviceAccount?: Prisma.ServiceAccountUpdateOneWithoutPagesNestedInput
+  artifacts?: Prisma.ArtifactUpdateManyWithoutPagesNestedInput
+}
+
+export type PageUncheckedUpdateWithoutStateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  meta?:PrismaJson.GlobalCommonObjectMeta
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  serviceAccountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  content?:PrismaJson.PageContent
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  artifacts?: Prisma.ArtifactUncheckedUpdateManyWithoutPagesNestedInput
+}
+
+export type PageUncheckedUpdateManyWithoutStateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  meta?:PrismaJson.GlobalCommonObjectMeta
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  serviceAccountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  content?:PrismaJson.PageContent
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PageCreateManyServiceAccountInput = {
+  id?: string
+  meta:PrismaJson.GlobalCommonObjectMeta
+  stateId?: string | null
+  name?: string | null
+  content:PrismaJson.PageContent
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type PageUpdateWithoutServiceAccountInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  meta?:PrismaJson.GlobalCommonObjectMeta
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  content?:PrismaJson.PageContent
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  state?: Prisma.InstanceStateUpdateOneWithoutPagesNestedInput
+  artifacts?: Prisma.ArtifactUpdateManyWithoutPagesNestedInput
+}
+
+export type PageUncheckedUpdateWithoutServiceAccountInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  meta?:PrismaJson.GlobalCommonObjectMeta
+  stateId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  content?:PrismaJson.PageContent
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  artifacts?: Prisma.ArtifactUncheckedUpdateManyWithoutPagesNestedInput
+}
+
+export type PageUncheckedUpdateManyWithoutServiceAccountInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  meta?:PrismaJson.GlobalCommonObjectMeta
+  stateId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  content?:PrismaJson.PageContent
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+/**
+ * Count Type PageCountOutputType
+ */
+
+export type PageCountOutputType = {
+  artifacts: number
+}
+
+export type PageCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  artifacts?: boolean | PageCountOutputTypeCountArtifactsArgs
+}
+
+/**
+ * PageCountOutputType without action
+ */
+export type PageCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PageCountOutputType
+   */
+  select?: Prisma.PageCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * PageCountOutputType without action
+ */
+export type PageCountOutputTypeCountArtifactsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ArtifactWhereInput
+}
+
+
+export type PageSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  meta?: boolean
+  stateId?: boolean
+  name?: boolean
+  serviceAccountId?: boolean
+  content?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  state?: boolean | Prisma.Page$stateArgs<ExtArgs>
+  serviceAccount?: boolean | Prisma.Page$serviceAccountArgs<ExtArgs>
+  artifacts?: boolean | Prisma.Page$artifactsArgs<ExtArgs>
+  _count?: boolean | Prisma.PageCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["page"]>
+
+export type PageSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  meta?: boolean
+  stateId?: boolean
+  name?: boolean
+  serviceAccountId?: boolean
+  content?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  state?: boolean | Prisma.Page$stateArgs<ExtArgs>
+  serviceAccount?: boolean | Prisma.Page$serviceAccountArgs<ExtArgs>
+}, ExtArgs["result"]["page"]>
+
+export type PageSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  meta?: boolean
+  stateId?: boolean
+  name?: boolean
+  serviceAccountId?: boolean
+  content?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  state?: boolean | Prisma.Page$stateArgs<ExtArgs>
+  serviceAccount?: boolean | Prisma.Page$serviceAccountArgs<ExtArgs>
+}, ExtArgs["result"]["page"]>
+
+export type PageSelectScalar = {
+  id?: boolean
+  meta?: boolean
+  stateId?: boolean
+  name?: boolean
+  serviceAccountId?: boolean
+  content?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type PageOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "meta" | "stateId" | "name" | "serviceAccountId" | "content" | "createdAt" | "updatedAt", ExtArgs["result"]["page"]>
+export type PageInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  state?: boolean | Prisma.Page$stateArgs<ExtArgs>
+  serviceAccount?: boolean | Prisma.Page$serviceAccountArgs<ExtArgs>
+  artifacts?: boolean | Prisma.Page$artifactsArgs<ExtArgs>
+  _count?: boolean | Prisma.PageCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type PageIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  state?: boolean | Prisma.Page$stateArgs<ExtArgs>
+  serviceAccount?: boolean | Prisma.Page$serviceAccountArgs<ExtArgs>
+}
+export type PageIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  state?: boolean | Prisma.Page$stateArgs<ExtArgs>
+  serviceAccount?: boolean | Prisma.Page$serviceAccountArgs<ExtArgs>
+}
+
+export type $PagePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "Page"
+  objects: {
+    /**
+     * The instance this page belongs to if any.
+     */
+    state: Prisma.$InstanceStatePayload<ExtArgs> | null
+    /**
+     * The service account this page belongs to if any. 
+     */
+    serviceAccount: Prisma.$ServiceAccountPayload<ExtArgs> | null
+    /**
+     * The artifacts used by this page.
+     */
+    artifacts: Prisma.$ArtifactPayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    /**
+     * The CUIDv2 of the page.
+     */
+    id: string
+    /**
+     * The metadata of the page managed by the backend.
+     * 
+     * [GlobalCommonObjectMeta]
+     */
+    meta:PrismaJson.GlobalCommonObjectMeta
+    /**
+     * The ID of the instance state that owns this page.
+     */
+    stateId: string | null
+    /**
+     * The name of the page within the instance.
+     * Will be null if the page is not owned by an instance.
+     */
+    name: string | null
+    /**
+     * The ID of the service account that owns this page.
+     */
+    serviceAccountId: string | null
+    /**
+     * The content of the page as an array of blocks.
+     * 
+     * Supports markdown, QR codes, and file blocks.
+     * 
+     * [PageContent]
+     */
+    content:PrismaJson.PageContent
+    /**
+     * The time when the page was created.
+     */
+    createdAt: Date
+    /**
+     * The time when the page was last updated.
+     */
+    updatedAt: Date
+  }, ExtArgs["result"]["page"]>
+  composites: {}
+}
+
+export type PageGetPayload<S extends boolean | null | undefined | PageDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$PagePayload, S>
+
+export type PageCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<PageFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: PageCountAggregateInputType | true
+  }
+
+export interface PageDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['Page'], meta: { name: 'Page' } }
+  /**
+   * Find zero or one Page that matches the filter.
+   * @param {PageFindUniqueArgs} args - Arguments to find a Page
+   * @example
+   * // Get one Page
+   * const page = await prisma.page.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends PageFindUniqueArgs>(args: Prisma.SelectSubset<T, PageFindUniqueArgs<ExtArgs>>): Prisma.Prisma__PageClient<runtime.Types.Result.GetResult<Prisma.$PagePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one Page that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {PageFindUniqueOrThrowArgs} args - Arguments to find a Page
+   * @example
+   * // Get one Page
+   * const page = await prisma.page.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends PageFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, PageFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__PageClient<runtime.Types.Result.GetResult<Prisma.$PagePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first Page that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PageFindFirstArgs} args - Arguments to find a Page
+   * @example
+   * // Get one Page
+   * const page = await prisma.page.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends PageFindFirstArgs>(args?: Prisma.SelectSubset<T, PageFindFirstArgs<ExtArgs>>): Prisma.Prisma__PageClient<runtime.Types.Result.GetResult<Prisma.$PagePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first Page that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PageFindFirstOrThrowArgs} args - Arguments to find a Page
+   * @example
+   * // Get one Page
+   * const page = await prisma.page.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends PageFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, PageFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__PageClient<runtime.Types.Result.GetResult<Prisma.$PagePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more Pages that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PageFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all Pages
+   * const pages = await prisma.page.findMany()
+   * 
+   * // Get first 10 Pages
+   * const pages = await prisma.page.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const pageWithIdOnly = await prisma.page.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends PageFindManyArgs>(args?: Prisma.SelectSubset<T, PageFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PagePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a Page.
+   * @param {PageCreateArgs} args - Arguments to create a Page.
+   * @example
+   * // Create one Page
+   * const Page = await prisma.page.create({
+   *   data: {
+   *     // ... data to create a Page
+   *   }
+   * })
+   * 
+   */
+  create<T extends PageCreateArgs>(args: Prisma.SelectSubset<T, PageCreateArgs<ExtArgs>>): Prisma.Prisma__PageClient<runtime.Types.Result.GetResult<Prisma.$PagePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many Pages.
+   * @param {PageCreateManyArgs} args - Arguments to create many Pages.
+   * @example
+   * // Create many Pages
+   * const page = await prisma.page.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends PageCreateManyArgs>(args?: Prisma.SelectSubset<T, PageCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many Pages and returns the data saved in the database.
+   * @param {PageCreateManyAndReturnArgs} args - Arguments to create many Pages.
+   * @example
+   * // Create many Pages
+   * const page = await prisma.page.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many Pages and only return the `id`
+   * const pageWithIdOnly = await prisma.page.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends PageCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, PageCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PagePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a Page.
+   * @param {PageDeleteArgs} args - Arguments to delete one Page.
+   * @example
+   * // Delete one Page
+   * const Page = await prisma.page.delete({
+   *   where: {
+   *     // ... filter to delete one Page
+   *   }
+   * })
+   * 
+   */
+  delete<T extends PageDeleteArgs>(args: Prisma.SelectSubset<T, PageDeleteArgs<ExtArgs>>): Prisma.Prisma__PageClient<runtime.Types.Result.GetResult<Prisma.$PagePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one Page.
+   * @param {PageUpdateArgs} args - Arguments to update one Page.
+   * @example
+   * // Update one Page
+   * const page = await prisma.page.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends PageUpdateArgs>(args: Prisma.SelectSubset<T, PageUpdateArgs<ExtArgs>>): Prisma.Prisma__PageClient<runtime.Types.Result.GetResult<Prisma.$PagePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more Pages.
+   * @param {PageDeleteManyArgs} args - Arguments to filter Pages to delete.
+   * @example
+   * // Delete a few Pages
+   * const { count } = await prisma.page.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends PageDeleteManyArgs>(args?: Prisma.SelectSubset<T, PageDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more Pages.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PageUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many Pages
+   * const page = await prisma.page.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends PageUpdateManyArgs>(args: Prisma.SelectSubset<T, PageUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more Pages and returns the data updated in the database.
+   * @param {PageUpdateManyAndReturnArgs} args - Arguments to update many Pages.
+   * @example
+   * // Update many Pages
+   * const page = await prisma.page.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more Pages and only return the `id`
+   * const pageWithIdOnly = await prisma.page.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends PageUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, PageUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PagePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one Page.
+   * @param {PageUpsertArgs} args - Arguments to update or create a Page.
+   * @example
+   * // Update or create a Page
+   * const page = await prisma.page.upsert({
+   *   create: {
+   *     // ... data to create a Page
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the Page we want to update
+   *   }
+   * })
+   */
+  upsert<T extends PageUpsertArgs>(args: Prisma.SelectSubset<T, PageUpsertArgs<ExtArgs>>): Prisma.Prisma__PageClient<runtime.Types.Result.GetResult<Prisma.$PagePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of Pages.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PageCountArgs} args - Arguments to filter Pages to count.
+   * @example
+   * // Count the number of Pages
+   * const count = await prisma.page.count({
+   *   where: {
+   *     // ... the filter for the Pages we want to count
+   *   }
+   * })
+  **/
+  count<T extends PageCountArgs>(
+    args?: Prisma.Subset<T, PageCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], PageCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a Page.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PageAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends PageAggregateArgs>(args: Prisma.Subset<T, PageAggregateArgs>): Prisma.PrismaPromise<GetPageAggregateType<T>>
+
+  /**
+   * Group by Page.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PageGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends PageGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: PageGroupByArgs['orderBy'] }
+      : { orderBy?: PageGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, PageGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetPageGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the Page model
+ */
+readonly fields: PageFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for Page.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__PageClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  state<T extends Prisma.Page$stateArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Page$stateArgs<ExtArgs>>): Prisma.Prisma__InstanceStateClient<runtime.Types.Result.GetResult<Prisma.$InstanceStatePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  serviceAccount<T extends Prisma.Page$serviceAccountArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Page$serviceAccountArgs<ExtArgs>>): Prisma.Prisma__ServiceAccountClient<runtime.Types.Result.GetResult<Prisma.$ServiceAccountPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  artifacts<T extends Prisma.Page$artifactsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Page$artifactsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ArtifactPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the Page model
+ */
+export interface PageFieldRefs {
+  readonly id: Prisma.FieldRef<"Page", 'String'>
+  readonly meta: Prisma.FieldRef<"Page", 'Json'>
+  readonly stateId: Prisma.FieldRef<"Page", 'String'>
+  readonly name: Prisma.FieldRef<"Page", 'String'>
+  readonly serviceAccountId: Prisma.FieldRef<"Page", 'String'>
+  readonly content: Prisma.FieldRef<"Page", 'Json'>
+  readonly createdAt: Prisma.FieldRef<"Page", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"Page", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * Page findUnique
+ */
+export type PageFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Page
+   */
+  select?: Prisma.PageSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Page
+   */
+  omit?: Prisma.PageOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PageInclude<ExtArgs> | null
+  /**
+   * Filter, which Page to fetch.
+   */
+  where: Prisma.PageWhereUniqueInput
+}
+
+/**
+ * Page findUniqueOrThrow
+ */
+export type PageFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Page
+   */
+  select?: Prisma.PageSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Page
+   */
+  omit?: Prisma.PageOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PageInclude<ExtArgs> | null
+  /**
+   * Filter, which Page to fetch.
+   */
+  where: Prisma.PageWhereUniqueInput
+}
+
+/**
+ * Page findFirst
+ */
+export type PageFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Page
+   */
+  select?: Prisma.PageSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Page
+   */
+  omit?: Prisma.PageOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PageInclude<ExtArgs> | null
+  /**
+   * Filter, which Page to fetch.
+   */
+  where?: Prisma.PageWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Pages to fetch.
+   */
+  orderBy?: Prisma.PageOrderByWithRelationInput | Prisma.PageOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for Pages.
+   */
+  cursor?: Prisma.PageWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Pages from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Pages.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of Pages.
+   */
+  distinct?: Prisma.PageScalarFieldEnum | Prisma.PageScalarFieldEnum[]
+}
+
+/**
+ * Page findFirstOrThrow
+ */
+export type PageFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Page
+   */
+  select?: Prisma.PageSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Page
+   */
+  omit?: Prisma.PageOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PageInclude<ExtArgs> | null
+  /**
+   * Filter, which Page to fetch.
+   */
+  where?: Prisma.PageWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Pages to fetch.
+   */
+  orderBy?: Prisma.PageOrderByWithRelationInput | Prisma.PageOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for Pages.
+   */
+  cursor?: Prisma.PageWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Pages from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Pages.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of Pages.
+   */
+  distinct?: Prisma.PageScalarFieldEnum | Prisma.PageScalarFieldEnum[]
+}
+
+/**
+ * Page findMany
+ */
+export type PageFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Page
+   */
+  select?: Prisma.PageSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Page
+   */
+  omit?: Prisma.PageOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PageInclude<ExtArgs> | null
+  /**
+   * Filter, which Pages to fetch.
+   */
+  where?: Prisma.PageWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Pages to fetch.
+   */
+  orderBy?: Prisma.PageOrderByWithRelationInput | Prisma.PageOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing Pages.
+   */
+  cursor?: Prisma.PageWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Pages from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Pages.
+   */
+  skip?: number
+  distinct?: Prisma.PageScalarFieldEnum | Prisma.PageScalarFieldEnum[]
+}
+
+/**
+ * Page create
+ */
+export type PageCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Page
+   */
+  select?: Prisma.PageSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Page
+   */
+  omit?: Prisma.PageOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PageInclude<ExtArgs> | null
+  /**
+   * The data needed to create a Page.
+   */
+  data: Prisma.XOR<Prisma.PageCreateInput, Prisma.PageUncheckedCreateInput>
+}
+
+/**
+ * Page createMany
+ */
+export type PageCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many Pages.
+   */
+  data: Prisma.PageCreateManyInput | Prisma.PageCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * Page createManyAndReturn
+ */
+export type PageCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Page
+   */
+  select?: Prisma.PageSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the Page
+   */
+  omit?: Prisma.PageOmit<ExtArgs> | null
+  /**
+   * The data used to create many Pages.
+   */
+  data: Prisma.PageCreateManyInput | Prisma.PageCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PageIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * Page update
+ */
+export type PageUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Page
+   */
+  select?: Prisma.PageSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Page
+   */
+  omit?: Prisma.PageOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PageInclude<ExtArgs> | null
+  /**
+   * The data needed to update a Page.
+   */
+  data: Prisma.XOR<Prisma.PageUpdateInput, Prisma.PageUncheckedUpdateInput>
+  /**
+   * Choose, which Page to update.
+   */
+  where: Prisma.PageWhereUniqueInput
+}
+
+/**
+ * Page updateMany
+ */
+export type PageUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update Pages.
+   */
+  data: Prisma.XOR<Prisma.PageUpdateManyMutationInput, Prisma.PageUncheckedUpdateManyInput>
+  /**
+   * Filter which Pages to update
+   */
+  where?: Prisma.PageWhereInput
+  /**
+   * Limit how many Pages to update.
+   */
+  limit?: number
+}
+
+/**
+ * Page updateManyAndReturn
+ */
+export type PageUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Page
+   */
+  select?: Prisma.PageSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the Page
+   */
+  omit?: Prisma.PageOmit<ExtArgs> | null
+  /**
+   * The data used to update Pages.
+   */
+  data: Prisma.XOR<Prisma.PageUpdateManyMutationInput, Prisma.PageUncheckedUpdateManyInput>
+  /**
+   * Filter which Pages to update
+   */
+  where?: Prisma.PageWhereInput
+  /**
+   * Limit how many Pages to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PageIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * Page upsert
+ */
+export type PageUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Page
+   */
+  select?: Prisma.PageSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Page
+   */
+  omit?: Prisma.PageOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PageInclude<ExtArgs> | null
+  /**
+   * The filter to search for the Page to update in case it exists.
+   */
+  where: Prisma.PageWhereUniqueInput
+  /**
+   * In case the Page found by the `where` argument doesn't exist, create a new Page with this data.
+   */
+  create: Prisma.XOR<Prisma.PageCreateInput, Prisma.PageUncheckedCreateInput>
+  /**
+   * In case the Page was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.PageUpdateInput, Prisma.PageUncheckedUpdateInput>
+}
+
+/**
+ * Page delete
+ */
+export type PageDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Page
+   */
+  select?: Prisma.PageSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Page
+   */
+  omit?: Prisma.PageOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PageInclude<ExtArgs> | null
+  /**
+   * Filter which Page to delete.
+   */
+  where: Prisma.PageWhereUniqueInput
+}
+
+/**
+ * Page deleteMany
+ */
+export type PageDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which Pages to delete
+   */
+  where?: Prisma.PageWhereInput
+  /**
+   * Limit how many Pages to delete.
+   */
+  limit?: number
+}
+
+/**
+ * Page.state
+ */
+export type Page$stateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InstanceState
+   */
+  select?: Prisma.InstanceStateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InstanceState
+   */
+  omit?: Prisma.InstanceStateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InstanceStateInclude<ExtArgs> | null
+  where?: Prisma.InstanceStateWhereInput
+}
+
+/**
+ * Page.serviceAccount
+ */
+export type Page$serviceAccountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ServiceAccount
+   */
+  select?: Prisma.ServiceAccountSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ServiceAccount
+   */
+  omit?: Prisma.ServiceAccountOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ServiceAccountInclude<ExtArgs> | null
+  where?: Prisma.ServiceAccountWhereInput
+}
+
+/**
+ * Page.artifacts
+ */
+export type Page$artifactsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Artifact
+   */
+  select?: Prisma.ArtifactSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Artifact
+   */
+  omit?: Prisma.ArtifactOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ArtifactInclude<ExtArgs> | null
+  where?: Prisma.ArtifactWhereInput
+  orderBy?: Prisma.ArtifactOrderByWithRelationInput | Prisma.ArtifactOrderByWithRelationInput[]
+  cursor?: Prisma.ArtifactWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ArtifactScalarFieldEnum | Prisma.ArtifactScalarFieldEnum[]
+}
+
+/**
+ * Page without action
+ */
+export type PageDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Page
+   */
+  select?: Prisma.PageSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Page
+   */
+  omit?: Prisma.PageOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PageInclude<ExtArgs> | null
+}
@@ -0,0 +1,1648 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `ServiceAccountGrant` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+
+import type * as PJTG from '../pjtg.ts';
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.ts"
+import type * as Prisma from "../internal/prismaNamespace.ts"
+
+/**
+ * Model ServiceAccountGrant
+ * The service account grant gives the service account access to the resources it does not own.
+ * 
+ * The grant targets either the instance, giving access to the instance and all its secrets,
+ * or the single secret. Exactly one of `stateId` and `secretId` is set.
+ * The grants are deleted with the service account or the resource they target.
+ */
+export type ServiceAccountGrantModel = runtime.Types.Result.DefaultSelection<Prisma.$ServiceAccountGrantPayload>
+
+export type AggregateServiceAccountGrant = {
+  _count: ServiceAccountGrantCountAggregateOutputType | null
+  _min: ServiceAccountGrantMinAggregateOutputType | null
+  _max: ServiceAccountGrantMaxAggregateOutputType | null
+}
+
+export type ServiceAccountGrantMinAggregateOutputType = {
+  id: string | null
+  serviceAccountId: string | null
+  stateId: string | null
+  secretId: string | null
+  createdAt: Date | null
+}
+
+export type ServiceAccountGrantMaxAggregateOutputType = {
+  id: string | null
+  serviceAccountId: string | null
+  stateId: string | null
+  secretId: string | null
+  createdAt: Date | null
+}
+
+export type ServiceAccountGrantCountAggregateOutputType = {
+  id: number
+  serviceAccountId: number
+  stateId: number
+  secretId: number
+  createdAt: number
+  _all: number
+}
+
+
+export type ServiceAccountGrantMinAggregateInputType = {
+  id?: true
+  serviceAccountId?: true
+  stateId?: true
+  secretId?: true
+  createdAt?: true
+}
+
+export type ServiceAccountGrantMaxAggregateInputType = {
+  id?: true
+  serviceAccountId?: true
+  stateId?: true
+  secretId?: true
+  createdAt?: true
+}
+
+export type ServiceAccountGrantCountAggregateInputType = {
+  id?: true
+  serviceAccountId?: true
+  stateId?: true
+  secretId?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type ServiceAccountGrantAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ServiceAccountGrant to aggregate.
+   */
+  where?: Prisma.ServiceAccountGrantWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ServiceAccountGrants to fetch.
+   */
+  orderBy?: Prisma.ServiceAccountGrantOrderByWithRelationInput | Prisma.ServiceAccountGrantOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ServiceAccountGrantWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ServiceAccountGrants from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ServiceAccountGrants.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned ServiceAccountGrants
+  **/
+  _count?: true | ServiceAccountGrantCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ServiceAccountGrantMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ServiceAccountGrantMaxAggregateInputType
+}
+
+export type GetServiceAccountGrantAggregateType<T extends ServiceAccountGrantAggregateArgs> = {
+      [P in keyof T & keyof AggregateServiceAccountGrant]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateServiceAccountGrant[P]>
+    : Prisma.GetScalarType<T[P], AggregateServiceAccountGrant[P]>
+}
+
+
+
+
+export type ServiceAccountGrantGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ServiceAccountGrantWhereInput
+  orderBy?: Prisma.ServiceAccountGrantOrderByWithAggregationInput | Prisma.ServiceAccountGrantOrderByWithAggregationInput[]
+  by: Prisma.ServiceAccountGrantScalarFieldEnum[] | Prisma.ServiceAccountGrantScalarFieldEnum
+  having?: Prisma.ServiceAccountGrantScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ServiceAccountGrantCountAggregateInputType | true
+  _min?: ServiceAccountGrantMinAggregateInputType
+  _max?: ServiceAccountGrantMaxAggregateInputType
+}
+
+export type ServiceAccountGrantGroupByOutputType = {
+  id: string
+  serviceAccountId: string
+  stateId: string | null
+  secretId: string | null
+  createdAt: Date
+  _count: ServiceAccountGrantCountAggregateOutputType | null
+  _min: ServiceAccountGrantMinAggregateOutputType | null
+  _max: ServiceAccountGrantMaxAggregateOutputType | null
+}
+
+type GetServiceAccountGrantGroupByPayload<T extends ServiceAccountGrantGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ServiceAccountGrantGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ServiceAccountGrantGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ServiceAccountGrantGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ServiceAccountGrantGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ServiceAccountGrantWhereInput = {
+  AND?: Prisma.ServiceAccountGrantWhereInput | Prisma.ServiceAccountGrantWhereInput[]
+  OR?: Prisma.ServiceAccountGrantWhereInput[]
+  NOT?: Prisma.ServiceAccountGrantWhereInput | Prisma.ServiceAccountGrantWhereInput[]
+  id?: Prisma.StringFilter<"ServiceAccountGrant"> | string
+  serviceAccountId?: Prisma.StringFilter<"ServiceAccountGrant"> | string
+  stateId?: Prisma.StringNullableFilter<"ServiceAccountGrant"> | string | null
+  secretId?: Prisma.StringNullableFilter<"ServiceAccountGrant"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"ServiceAccountGrant"> | Date | string
+  serviceAccount?: Prisma.XOR<Prisma.ServiceAccountScalarRelationFilter, Prisma.ServiceAccountWhereInput>
+  state?: Prisma.XOR<Prisma.InstanceStateNullableScalarRelationFilter, Prisma.InstanceStateWhereInput> | null
+  secret?: Prisma.XOR<Prisma.SecretNullableScalarRelationFilter, Prisma.SecretWhereInput> | null
+}
+
+export type ServiceAccountGrantOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  serviceAccountId?: Prisma.SortOrder
+  stateId?: Prisma.SortOrderInput | Prisma.SortOrder
+  secretId?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  serviceAccount?: Prisma.ServiceAccountOrderByWithRelationInput
+  state?: Prisma.InstanceStateOrderByWithRelationInput
+  secret?: Prisma.SecretOrderByWithRelationInput
+}
+
+export type ServiceAccountGrantWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.ServiceAccountGrantWhereInput | Prisma.ServiceAccountGrantWhereInput[]
+  OR?: Prisma.ServiceAccountGrantWhereInput[]
+  NOT?: Prisma.ServiceAccountGrantWhereInput | Prisma.ServiceAccountGrantWhereInput[]
+  serviceAccountId?: Prisma.StringFilter<"ServiceAccountGrant"> | string
+  stateId?: Prisma.StringNullableFilter<"ServiceAccountGrant"> | string | null
+  secretId?: Prisma.StringNullableFilter<"ServiceAccountGrant"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"ServiceAccountGrant"> | Date | string
+  serviceAccount?: Prisma.XOR<Prisma.ServiceAccountScalarRelationFilter, Prisma.ServiceAccountWhereInput>
+  state?: Prisma.XOR<Prisma.InstanceStateNullableScalarRelationFilter, Prisma.InstanceStateWhereInput> | null
+  secret?: Prisma.XOR<Prisma.SecretNullableScalarRelationFilter, Prisma.SecretWhereInput> | null
+}, "id">
+
+export type ServiceAccountGrantOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  serviceAccountId?: Prisma.SortOrder
+  stateId?: Prisma.SortOrderInput | Prisma.SortOrder
+  secretId?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.ServiceAccountGrantCountOrderByAggregateInput
+  _max?: Prisma.ServiceAccountGrantMaxOrderByAggregateInput
+  _min?: Prisma.ServiceAccountGrantMinOrderByAggregateInput
+}
+
+export type ServiceAccountGrantScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ServiceAccountGrantScalarWhereWithAggregatesInput | Prisma.ServiceAccountGrantScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ServiceAccountGrantScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ServiceAccountGrantScalarWhereWithAggregatesInput | Prisma.ServiceAccountGrantScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"ServiceAccountGrant"> | string
+  serviceAccountId?: Prisma.StringWithAggregatesFilter<"ServiceAccountGrant"> | string
+  stateId?: Prisma.StringNullableWithAggregatesFilter<"ServiceAccountGrant"> | string | null
+  secretId?: Prisma.StringNullableWithAggregatesFilter<"ServiceAccountGrant"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"ServiceAccountGrant"> | Date | string
+}
+
+export type ServiceAccountGrantCreateInput = {
+  id?: string
+  createdAt?: Date | string
+  serviceAccount: Prisma.ServiceAccountCreateNestedOneWithoutGrantsInput
+  state?: Prisma.InstanceStateCreateNestedOneWithoutServiceAccountGrantsInput
+  secret?: Prisma.SecretCreateNestedOneWithoutServiceAccountGrantsInput
+}
+
+export type ServiceAccountGrantUncheckedCreateInput = {
+  id?: string
+  serviceAccountId: string
+  stateId?: string | null
+  secretId?: string | null
+  createdAt?: Date | string
+}
+
+export type ServiceAccountGrantUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  serviceAccount?: Prisma.ServiceAccountUpdateOneRequiredWithoutGrantsNestedInput
+  state?: Prisma.InstanceStateUpdateOneWithoutServiceAccountGrantsNestedInput
+  secret?: Prisma.SecretUpdateOneWithoutServiceAccountGrantsNestedInput
+}
+
+export type ServiceAccountGrantUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  serviceAccountId?: Prisma.StringFieldUpdateOperationsInput | string
+  stateId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  secretId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ServiceAccountGrantCreateManyInput = {
+  id?: string
+  serviceAccountId: string
+  stateId?: string | null
+  secretId?: string | null
+  createdAt?: Date | string
+}
+
+export type ServiceAccountGrantUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ServiceAccountGrantUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  serviceAccountId?: Prisma.StringFieldUpdateOperationsInput | string
+  stateId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  secretId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ServiceAccountGrantListRelationFilter = {
+  every?: Prisma.ServiceAccountGrantWhereInput
+  some?: Prisma.ServiceAccountGrantWhereInput
+  none?: Prisma.ServiceAccountGrantWhereInput
+}
+
+export type ServiceAccountGrantOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type ServiceAccountGrantCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  serviceAccountId?: Prisma.SortOrder
+  stateId?: Prisma.SortOrder
+  secretId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type ServiceAccountGrantMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  serviceAccountId?: Prisma.SortOrder
+  stateId?: Prisma.SortOrder
+  secretId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type ServiceAccountGrantMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  serviceAccountId?: Prisma.SortOrder
+  stateId?: Prisma.SortOrder
+  secretId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type ServiceAccountGrantCreateNestedManyWithoutStateInput = {
+  create?: Prisma.XOR<Prisma.ServiceAccountGrantCreateWithoutStateInput, Prisma.ServiceAccountGrantUncheckedCreateWithoutStateInput> | Prisma.ServiceAccountGrantCreateWithoutStateInput[] | Prisma.ServiceAccountGrantUncheckedCreateWithoutStateInput[]
+  connectOrCreate?: Prisma.ServiceAccountGrantCreateOrConnectWithoutStateInput | Prisma.ServiceAccountGrantCreateOrConnectWithoutStateInput[]
+  createMany?: Prisma.ServiceAccountGrantCreateManyStateInputEnvelope
+  connect?: Prisma.ServiceAccountGrantWhereUniqueInput | Prisma.ServiceAccountGrantWhereUniqueInput[]
+}
+
+export type ServiceAccountGrantUncheckedCreateNestedManyWithoutStateInput = {
+  create?: Prisma.XOR<Prisma.ServiceAccountGrantCreateWithoutStateInput, Prisma.ServiceAccountGrantUncheckedCreateWithoutStateInput> | Prisma.ServiceAccountGrantCreateWithoutStateInput[] | Prisma.ServiceAccountGrantUncheckedCreateWithoutStateInput[]
+  connectOrCreate?: Prisma.ServiceAccountGrantCreateOrConnectWithoutStateInput | Prisma.ServiceAccountGrantCreateOrConnectWithoutStateInput[]
+  createMany?: Prisma.ServiceAccountGrantCreateManyStateInputEnvelope
+  connect?: Prisma.ServiceAccountGrantWhereUniqueInput | Prisma.ServiceAccountGrantWhereUniqueInput[]
+}
+
+export type ServiceAccountGrantUpdateManyWithoutStateNestedInput = {
+  create?: Prisma.XOR<Prisma.ServiceAccountGrantCreateWithoutStateInput, Prisma.ServiceAccountGrantUncheckedCreateWithoutStateInput> | Prisma.ServiceAccountGrantCreateWithoutStateInput[] | Prisma.ServiceAccountGrantUncheckedCreateWithoutStateInput[]
+  connectOrCreate?: Prisma.ServiceAccountGrantCreateOrConnectWithoutStateInput | Prisma.ServiceAccountGrantCreateOrConnectWithoutStateInput[]
+  upsert?: Prisma.ServiceAccountGrantUpsertWithWhereUniqueWithoutStateInput | Prisma.ServiceAccountGrantUpsertWithWhereUniqueWithoutStateInput[]
+  createMany?: Prisma.ServiceAccountGrantCreateManyStateInputEnvelope
+  set?: Prisma.ServiceAccountGrantWhereUniqueInput | Prisma.ServiceAccountGrantWhereUniqueInput[]
+  disconnect?: Prisma.ServiceAccountGrantWhereUniqueInput | Prisma.ServiceAccountGrantWhereUniqueInput[]
+  delete?: Prisma.ServiceAccountGrantWhereUniqueInput | Prisma.ServiceAccountGrantWhereUniqueInput[]
+  connect?: Prisma.ServiceAccountGrantWhereUniqueInput | Prisma.ServiceAccountGrantWhereUniqueInput[]
+  update?: Prisma.ServiceAccountGrantUpdateWithWhereUniqueWithoutStateInput | Prisma.ServiceAccountGrantUpdateWithWhereUniqueWithoutStateInput[]
+  updateMany?: Prisma.ServiceAccountGrantUpdateManyWithWhereWithoutStateInput | Prisma.ServiceAccountGrantUpdateManyWithWhereWithoutStateInput[]
+  deleteMany?: Prisma.ServiceAccountGrantScalarWhereInput | Prisma.ServiceAccountGrantScalarWhereInput[]
+}
+
+export type ServiceAccountGrantUncheckedUpdateManyWithoutStateNestedInput = {
+  create?: Prisma.XOR<Prisma.ServiceAccountGrantCreateWithoutStateInput, Prisma.ServiceAccountGrantUncheckedCreateWithoutStateInput> | Prisma.ServiceAccountGrantCreateWithoutStateInput[] | Prisma.ServiceAccountGrantUncheckedCreateWithoutStateInput[]
+  connectOrCreate?: Prisma.ServiceAccountGrantCreateOrConnectWithoutStateInput | Prisma.ServiceAccountGrantCreateOrConnectWithoutStateInput[]
+  upsert?: Prisma.ServiceAccountGrantUpsertWithWhereUniqueWithoutStateInput | Prisma.ServiceAccountGrantUpsertWithWhereUniqueWithoutStateInput[]
+  createMany?: Prisma.ServiceAccountGrantCreateManyStateInputEnvelope
+  set?: Prisma.ServiceAccountGrantWhereUniqueInput | Prisma.ServiceAccountGrantWhereUniqueInput[]
+  disconnect?: Prisma.ServiceAccountGrantWhereUniqueInput | Prisma.ServiceAccountGrantWhereUniqueInput[]
+  delete?: Prisma.ServiceAccountGrantWhereUniqueInput | Prisma.ServiceAccountGrantWhereUniqueInput[]
+  connect?: Prisma.ServiceAccountGrantWhereUniqueInput | Prisma.ServiceAccountGrantWhereUniqueInput[]
+  update?: Prisma.ServiceAccountGrantUpdateWithWhereUniqueWithoutStateInput | Prisma.ServiceAccountGrantUpdateWithWhereUniqueWithoutStateInput[]
+  updateMany?: Prisma.ServiceAccountGrantUpdateManyWithWhereWithoutStateInput | Prisma.ServiceAccountGrantUpdateManyWithWhereWithoutStateInput[]
+  deleteMany?: Prisma.ServiceAccountGrantScalarWhereInput | Prisma.ServiceAccountGrantScalarWhereInput[]
+}
+
+export type ServiceAccountGrantCreateNestedManyWithoutSecretInput = {
+  create?: Prisma.XOR<Prisma.ServiceAccountGrantCreateWithoutSecretInput, Prisma.ServiceAccountGrantUncheckedCreateWithoutSecretInput> | Prisma.ServiceAccountGrantCreateWithoutSecretInput[] | Prisma.ServiceAccountGrantUncheckedCreateWithoutSecretInput[]
+  connectOrCreate?: Prisma.ServiceAccountGrantCreateOrConnectWithoutSecretInput | Prisma.ServiceAccountGrantCreateOrConnectWithoutSecretInput[]
+  createMany?: Prisma.ServiceAccountGrantCreateManySecretInputEnvelope
+  connect?: Prisma.ServiceAccountGrantWhereUniqueInput | Prisma.ServiceAccountGrantWhereUniqueInput[]
+}
+
+export type ServiceAccountGrantUncheckedCreateNestedManyWithoutSecretInput = {
+  create?: Prisma.XOR<Prisma.ServiceAccountGrantCreateWithoutSecretInput, Prisma.ServiceAccountGrantUncheckedCreateWithoutSecretInput> | Prisma.ServiceAccountGrantCreateWithoutSecretInput[] | Prisma.ServiceAccountGrantUncheckedCreateWithoutSecretInput[]
+  connectOrCreate?: Prisma.ServiceAccountGrantCreateOrConnectWithoutSecretInput | Prisma.ServiceAccountGrantCreateOrConnectWithoutSecretInput[]
+  createMany?: Prisma.ServiceAccountGrantCreateManySecretInputEnvelope
+  connect?: Prisma.ServiceAccountGrantWhereUniqueInput | Prisma.ServiceAccountGrantWhereUniqueInput[]
+}
+
+export type ServiceAccountGrantUpdateManyWithoutSecretNestedInput = {
+  create?: Prisma.XOR<Prisma.ServiceAccountGrantCreateWithoutSecretInput, Prisma.ServiceAccountGrantUncheckedCreateWithoutSecretInput> | Prisma.ServiceAccountGrantCreateWithoutSecretInput[] | Prisma.ServiceAccountGrantUncheckedCreateWithoutSecretInput[]
+  connectOrCreate?: Prisma.ServiceAccountGrantCreateOrConnectWithoutSecretInput | Prisma.ServiceAccountGrantCreateOrConnectWithoutSecretInput[]
+  upsert?: Prisma.ServiceAccountGrantUpsertWithWhereUniqueWithoutSecretInput | Prisma.ServiceAccountGrantUpsertWithWhereUniqueWithoutSecretInput[]
+  createMany?: Prisma.ServiceAccountGrantCreateManySecretInputEnvelope
+  set?: Prisma.ServiceAccountGrantWhereUniqueInput | Prisma.ServiceAccountGrantWhereUniqueInput[]
+  disconnect?: Prisma.ServiceAccountGrantWhereUniqueInput | Prisma.ServiceAccountGrantWhereUniqueInput[]
+  delete?: Prisma.ServiceAccountGrantWhereUniqueInput | Prisma.ServiceAccountGrantWhereUniqueInput[]
+  connect?: Prisma.ServiceAccountGrantWhereUniqueInput | Prisma.ServiceAccountGrantWhereUniqueInput[]
+  update?: Prisma.ServiceAccountGrantUpdateWithWhereUniqueWithoutSecretInput | Prisma.ServiceAccountGrantUpdateWithWhereUniqueWithoutSecretInput[]
+  updateMany?: Prisma.ServiceAccountGrantUpdateManyWithWhereWithoutSecretInput | Prisma.ServiceAccountGrantUpdateManyWithWhereWithoutSecretInput[]
+  deleteMany?: Prisma.ServiceAccountGrantScalarWhereInput | Prisma.ServiceAccountGrantScalarWhereInput[]
+}
+
+export type ServiceAccountGrantUncheckedUpdateManyWithoutSecretNestedInput = {
+  create?: Prisma.XOR<Prisma.ServiceAccountGrantCreateWithoutSecretInput, Prisma.ServiceAccountGrantUncheckedCreateWithoutSecretInput> | Prisma.ServiceAccountGrantCreateWithoutSecretInput[] | Prisma.ServiceAccountGrantUncheckedCreateWithoutSecretInput[]
+  connectOrCreate?: Prisma.ServiceAccountGrantCreateOrConnectWithoutSecretInput | Prisma.ServiceAccountGrantCreateOrConnectWithoutSecretInput[]
+  upsert?: Prisma.ServiceAccountGrantUpsertWithWhereUniqueWithoutSecretInput | Prisma.ServiceAccountGrantUpsertWithWhereUniqueWithoutSecretInput[]
+  createMany?: Prisma.ServiceAccountGrantCreateManySecretInputEnvelope
+  set?: Prisma.ServiceAccountGrantWhereUniqueInput | Prisma.ServiceAccountGrantWhereUniqueInput[]
+  disconnect?: Prisma.ServiceAccountGrantWhereUniqueInput | Prisma.ServiceAccountGrantWhereUniqueInput[]
+  delete?: Prisma.ServiceAccountGrantWhereUniqueInput | Prisma.ServiceAccountGrantWhereUniqueInput[]
+  connect?: Prisma.ServiceAccountGrantWhereUniqueInput | Prisma.ServiceAccountGrantWhereUniqueInput[]
+  update?: Prisma.ServiceAccountGrantUpdateWithWhereUniqueWithoutSecretInput | Prisma.ServiceAccountGrantUpdateWithWhereUniqueWithoutSecretInput[]
+  updateMany?: Prisma.ServiceAccountGrantUpdateManyWithWhereWithoutSecretInput | Prisma.ServiceAccountGrantUpdateManyWithWhereWithoutSecretInput[]
+  deleteMany?: Prisma.ServiceAccountGrantScalarWhereInput | Prisma.ServiceAccountGrantScalarWhereInput[]
+}
+
+export type ServiceAccountGrantCreateNestedManyWithoutServiceAccountInput = {
+  create?: Prisma.XOR<Prisma.ServiceAccountGrantCreateWithoutServiceAccountInput, Prisma.ServiceAccountGrantUncheckedCreateWithoutServiceAccountInput> | Prisma.ServiceAccountGrantCreateWithoutServiceAccountInput[] | Prisma.ServiceAccountGrantUncheckedCreateWithoutServiceAccountInput[]
+  connectOrCreate?: Prisma.ServiceAccountGrantCreateOrConnectWithoutServiceAccountInput | Prisma.ServiceAccountGrantCreateOrConnectWithoutServiceAccountInput[]
+  createMany?: Prisma.ServiceAccountGrantCreateManyServiceAccountInputEnvelope
+  connect?: Prisma.ServiceAccountGrantWhereUniqueInput | Prisma.ServiceAccountGrantWhereUniqueInput[]
+}
+
+export type ServiceAccountGrantUncheckedCreateNestedManyWithoutServiceAccountInput = {
+  create?: Prisma.XOR<Prisma.ServiceAccountGrantCreateWithoutServiceAccountInput, Prisma.ServiceAccountGrantUncheckedCreateWithoutServiceAccountInput> | Prisma.ServiceAccountGrantCreateWithoutServiceAccountInput[] | Prisma.ServiceAccountGrantUncheckedCreateWithoutServiceAccountInput[]
+  connectOrCreate?: Prisma.ServiceAccountGrantCreateOrConnectWithoutServiceAccountInput | Prisma.ServiceAccountGrantCreateOrConnectWithoutServiceAccountInput[]
+  createMany?: Prisma.ServiceAccountGrantCreateManyServiceAccountInputEnvelope
+  connect?: Prisma.ServiceAccountGrantWhereUniqueInput | Prisma.ServiceAccountGrantWhereUniqueInput[]
+}
+
+export type ServiceAccountGrantUpdateManyWithoutServiceAccountNestedInput = {
+  create?: Prisma.XOR<Prisma.ServiceAccountGrantCreateWithoutServiceAccountInput, Prisma.ServiceAccountGrantUncheckedCreateWithoutServiceAccountInput> | Prisma.ServiceAccountGrantCreateWithoutServiceAccountInput[] | Prisma.ServiceAccountGrantUncheckedCreateWithoutServiceAccountInput[]
+  connectOrCreate?: Prisma.ServiceAccountGrantCreateOrConnectWithoutServiceAccountInput | Prisma.ServiceAccountGrantCreateOrConnectWithoutServiceAccountInput[]
+  upsert?: Prisma.ServiceAccountGrantUpsertWithWhereUniqueWithoutServiceAccountInput | Prisma.ServiceAccountGrantUpsertWithWhereUniqueWithoutServiceAccountInput[]
+  createMany?: Prisma.ServiceAccountGrantCreateManyServiceAccountInputEnvelope
+  set?: Prisma.ServiceAccountGrantWhereUniqueInput | Prisma.ServiceAccountGrantWhereUniqueInput[]
+  disconnect?: Prisma.ServiceAccountGrantWhereUniqueInput | Prisma.ServiceAccountGrantWhereUniqueInput[]
+  delete?: Prisma.ServiceAccountGrantWhereUniqueInput | Prisma.ServiceAccountGrantWhereUniqueInput[]
+  connect?: Prisma.ServiceAccountGrantWhereUniqueInput | Prisma.ServiceAccountGrantWhereUniqueInput[]
+  update?: Prisma.ServiceAccountGrantUpdateWithWhereUniqueWithoutServiceAccountInput | Prisma.ServiceAccountGrantUpdateWithWhereUniqueWithoutServiceAccountInput[]
+  updateMany?: Prisma.ServiceAccountGrantUpdateManyWithWhereWithoutServiceAccountInput | Prisma.ServiceAccountGrantUpdateManyWithWhereWithoutServiceAccountInput[]
+  deleteMany?: Prisma.ServiceAccountGrantScalarWhereInput | Prisma.ServiceAccountGrantScalarWhereInput[]
+}
+
+export type ServiceAccountGrantUncheckedUpdateManyWithoutServiceAccountNestedInput = {
+  create?: Prisma.XOR<Prisma.ServiceAccountGrantCreateWithoutServiceAccountInput, Prisma.ServiceAccountGrantUncheckedCreateWithoutServiceAccountInput> | Prisma.ServiceAccountGrantCreateWithoutServiceAccountInput[] | Prisma.ServiceAccountGrantUncheckedCreateWithoutServiceAccountInput[]
+  connectOrCreate?: Prisma.ServiceAccountGrantCreateOrConnectWithoutServiceAccountInput | Prisma.ServiceAccountGrantCreateOrConnectWithoutServiceAccountInput[]
+  upsert?: Prisma.ServiceAccountGrantUpsertWithWhereUniqueWithoutServiceAccountInput | Prisma.ServiceAccountGrantUpsertWithWhereUniqueWithoutServiceAccountInput[]
+  createMany?: Prisma.ServiceAccountGrantCreateManyServiceAccountInputEnvelope
+  set?: Prisma.ServiceAccountGrantWhereUniqueInput | Prisma.ServiceAccountGrantWhereUniqueInput[]
+  disconnect?: Prisma.ServiceAccountGrantWhereUniqueInput | Prisma.ServiceAccountGrantWhereUniqueInput[]
+  delete?: Prisma.ServiceAccountGrantWhereUniqueInput | Prisma.ServiceAccountGrantWhereUniqueInput[]
+  connect?: Prisma.ServiceAccountGrantWhereUniqueInput | Prisma.ServiceAccountGrantWhereUniqueInput[]
+  update?: Prisma.ServiceAccountGrantUpdateWithWhereUniqueWithoutServiceAccountInput | Prisma.ServiceAccountGrantUpdateWithWhereUniqueWithoutServiceAccountInput[]
+  updateMany?: Prisma.ServiceAccountGrantUpdateManyWithWhereWithoutServiceAccountInput | Prisma.ServiceAccountGrantUpdateManyWithWhereWithoutServiceAccountInput[]
+  deleteMany?: Prisma.ServiceAccountGrantScalarWhereInput | Prisma.ServiceAccountGrantScalarWhereInput[]
+}
+
+export type ServiceAccountGrantCreateWithoutStateInput = {
+  id?: string
+  createdAt?: Date | string
+  serviceAccount: Prisma.ServiceAccountCreateNestedOneWithoutGrantsInput
+  secret?: Prisma.SecretCreateNestedOneWithoutServiceAccountGrantsInput
+}
+
+export type ServiceAccountGrantUncheckedCreateWithoutStateInput = {
+  id?: string
+  serviceAccountId: string
+  secretId?: string | null
+  createdAt?: Date | string
+}
+
+export type ServiceAccountGrantCreateOrConnectWithoutStateInput = {
+  where: Prisma.ServiceAccountGrantWhereUniqueInput
+  create: Prisma.XOR<Prisma.ServiceAccountGrantCreateWithoutStateInput, Prisma.ServiceAccountGrantUncheckedCreateWithoutStateInput>
+}
+
+export type ServiceAccountGrantCreateManyStateInputEnvelope = {
+  data: Prisma.ServiceAccountGrantCreateManyStateInput | Prisma.ServiceAccountGrantCreateManyStateInput[]
+  skipDuplicates?: boolean
+}
+
+export type ServiceAccountGrantUpsertWithWhereUniqueWithoutStateInput = {
+  where: Prisma.ServiceAccountGrantWhereUniqueInput
+  update: Prisma.XOR<Prisma.ServiceAccountGrantUpdateWithoutStateInput, Prisma.ServiceAccountGrantUncheckedUpdateWithoutStateInput>
+  create: Prisma.XOR<Prisma.ServiceAccountGrantCreateWithoutStateInput, Prisma.ServiceAccountGrantUncheckedCreateWithoutStateInput>
+}
+
+export type ServiceAccountGrantUpdateWithWhereUniqueWithoutStateInput = {
+  where: Prisma.ServiceAccountGrantWhereUniqueInput
+  data: Prisma.XOR<Prisma.ServiceAccountGrantUpdateWithoutStateInput, Prisma.ServiceAccountGrantUncheckedUpdateWithoutStateInput>
+}
+
+export type ServiceAccountGrantUpdateManyWithWhereWithoutStateInput = {
+  where: Prisma.ServiceAccountGrantScalarWhereInput
+  data: Prisma.XOR<Prisma.ServiceAccountGrantUpdateManyMutationInput, Prisma.ServiceAccountGrantUncheckedUpdateManyWithoutStateInput>
+}
+
+export type ServiceAccountGrantScalarWhereInput = {
+  AND?: Prisma.ServiceAccountGrantScalarWhereInput | Prisma.ServiceAccountGrantScalarWhereInput[]
+  OR?: Prisma.ServiceAccountGrantScalarWhereInput[]
+  NOT?: Prisma.ServiceAccountGrantScalarWhereInput | Prisma.ServiceAccountGrantScalarWhereInput[]
+  id?: Prisma.StringFilter<"ServiceAccountGrant"> | string
+  serviceAccountId?: Prisma.StringFilter<"ServiceAccountGrant"> | string
+  stateId?: Prisma.StringNullableFilter<"ServiceAccountGrant"> | string | null
+  secretId?: Prisma.StringNullableFilter<"ServiceAccountGrant"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"ServiceAccountGrant"> | Date | string
+}
+
+export type ServiceAccountGrantCreateWithoutSecretInput = {
+  id?: string
+  createdAt?: Date | string
+  serviceAccount: Prisma.ServiceAccountCreateNestedOneWithoutGrantsInput
+  state?: Prisma.InstanceStateCreateNestedOneWithoutServiceAccountGrantsInput
+}
+
+export type ServiceAccountGrantUncheckedCreateWithoutSecretInput = {
+  id?: string
+  serviceAccountId: string
+  stateId?: string | null
+  createdAt?: Date | string
+}
+
+export type ServiceAccountGrantCreateOrConnectWithoutSecretInput = {
+  where: Prisma.ServiceAccountGrantWhereUniqueInput
+  create: Prisma.XOR<Prisma.ServiceAccountGrantCreateWithoutSecretInput, Prisma.ServiceAccountGrantUncheckedCreateWithoutSecretInput>
+}
+
+export type ServiceAccountGrantCreateManySecretInputEnvelope = {
+  data: Prisma.ServiceAccountGrantCreateManySecretInput | Prisma.ServiceAccountGrantCreateManySecretInput[]
+  skipDuplicates?: boolean
+}
+
+export type ServiceAccountGrantUpsertWithWhereUniqueWithoutSecretInput = {
+  where: Prisma.ServiceAccountGrantWhereUniqueInput
+  update: Prisma.XOR<Prisma.ServiceAccountGrantUpdateWithoutSecretInput, Prisma.ServiceAccountGrantUncheckedUpdateWithoutSecretInput>
+  create: Prisma.XOR<Prisma.ServiceAccountGrantCreateWithoutSecretInput, Prisma.ServiceAccountGrantUncheckedCreateWithoutSecretInput>
+}
+
+export type ServiceAccountGrantUpdateWithWhereUniqueWithoutSecretInput = {
+  where: Prisma.ServiceAccountGrantWhereUniqueInput
+  data: Prisma.XOR<Prisma.ServiceAccountGrantUpdateWithoutSecretInput, Prisma.ServiceAccountGrantUncheckedUpdateWithoutSecretInput>
+}
+
+export type ServiceAccountGrantUpdateManyWithWhereWithoutSecretInput = {
+  where: Prisma.ServiceAccountGrantScalarWhereInput
+  data: Prisma.XOR<Prisma.ServiceAccountGrantUpdateManyMutationInput, Prisma.ServiceAccountGrantUncheckedUpdateManyWithoutSecretInput>
+}
+
+export type ServiceAccountGrantCreateWithoutServiceAccountInput = {
+  id?: string
+  createdAt?: Date | string
+  state?: Prisma.InstanceStateCreateNestedOneWithoutServiceAccountGrantsInput
+  secret?: Prisma.SecretCreateNestedOneWithoutServiceAccountGrantsInput
+}
+
+export type ServiceAccountGrantUncheckedCreateWithoutServiceAccountInput = {
+  id?: string
+  stateId?: string | null
+  secretId?: string | null
+  createdAt?: Date | string
+}
+
+export type ServiceAccountGrantCreateOrConnectWithoutServiceAccountInput = {
+  where: Prisma.ServiceAccountGrantWhereUniqueInput
+  create: Prisma.XOR<Prisma.ServiceAccountGrantCreateWithoutServiceAccountInput, Prisma.ServiceAccountGrantUncheckedCreateWithoutServiceAccountInput>
+}
+
+export type ServiceAccountGrantCreateManyServiceAccountInputEnvelope = {
+  data: Prisma.ServiceAccountGrantCreateManyServiceAccountInput | Prisma.ServiceAccountGrantCreateManyServiceAccountInput[]
+  skipDuplicates?: boolean
+}
+
+export type ServiceAccountGrantUpsertWithWhereUniqueWithoutServiceAccountInput = {
+  where: Prisma.ServiceAccountGrantWhereUniqueInput
+  update: Prisma.XOR<Prisma.ServiceAccountGrantUpdateWithoutServiceAccountInput, Prisma.ServiceAccountGrantUncheckedUpdateWithoutServiceAccountInput>
+  create: Prisma.XOR<Prisma.ServiceAccountGrantCreateWithoutServiceAccountInput, Prisma.ServiceAccountGrantUncheckedCreateWithoutServiceAccountInput>
+}
+
+export type ServiceAccountGrantUpdateWithWhereUniqueWithoutServiceAccountInput = {
+  where: Prisma.ServiceAccountGrantWhereUniqueInput
+  data: Prisma.XOR<Prisma.ServiceAccountGrantUpdateWithoutServiceAccountInput, Prisma.ServiceAccountGrantUncheckedUpdateWithoutServiceAccountInput>
+}
+
+export type ServiceAccountGrantUpdateManyWithWhereWithoutServiceAccountInput = {
+  where: Prisma.ServiceAccountGrantScalarWhereInput
+  data: Prisma.XOR<Prisma.ServiceAccountGrantUpdateManyMutationInput, Prisma.ServiceAccountGrantUncheckedUpdateManyWithoutServiceAccountInput>
+}
+
+export type ServiceAccountGrantCreateManyStateInput = {
+  id?: string
+  serviceAccountId: string
+  secretId?: string | null
+  createdAt?: Date | string
+}
+
+export type ServiceAccountGrantUpdateWithoutStateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  serviceAccount?: Prisma.ServiceAccountUpdateOneRequiredWithoutGrantsNestedInput
+  secret?: Prisma.SecretUpdateOneWithoutServiceAccountGrantsNestedInput
+}
+
+export type ServiceAccountGrantUncheckedUpdateWithoutStateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  serviceAccountId?: Prisma.StringFieldUpdateOperationsInput | string
+  secretId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ServiceAccountGrantUncheckedUpdateManyWithoutStateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  serviceAccountId?: Prisma.StringFieldUpdateOperationsInput | string
+  secretId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ServiceAccountGrantCreateManySecretInput = {
+  id?: string
+  serviceAccountId: string
+  stateId?: string | null
+  createdAt?: Date | string
+}
+
+export type ServiceAccountGrantUpdateWithoutSecretInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  serviceAccount?: Prisma.ServiceAccountUpdateOneRequiredWithoutGrantsNestedInput
+  state?: Prisma.InstanceStateUpdateOneWithoutServiceAccountGrantsNestedInput
+}
+
+export type ServiceAccountGrantUncheckedUpdateWithoutSecretInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  serviceAccountId?: Prisma.StringFieldUpdateOperationsInput | string
+  stateId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ServiceAccountGrantUncheckedUpdateManyWithoutSecretInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  serviceAccountId?: Prisma.StringFieldUpdateOperationsInput | string
+  stateId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ServiceAccountGrantCreateManyServiceAccountInput = {
+  id?: string
+  stateId?: string | null
+  secretId?: string | null
+  createdAt?: Date | string
+}
+
+export type ServiceAccountGrantUpdateWithoutServiceAccountInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  state?: Prisma.InstanceStateUpdateOneWithoutServiceAccountGrantsNestedInput
+  secret?: Prisma.SecretUpdateOneWithoutServiceAccountGrantsNestedInput
+}
+
+export type ServiceAccountGrantUncheckedUpdateWithoutServiceAccountInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  stateId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  secretId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ServiceAccountGrantUncheckedUpdateManyWithoutServiceAccountInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  stateId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  secretId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type ServiceAccountGrantSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  serviceAccountId?: boolean
+  stateId?: boolean
+  secretId?: boolean
+  createdAt?: boolean
+  serviceAccount?: boolean | Prisma.ServiceAccountDefaultArgs<ExtArgs>
+  state?: boolean | Prisma.ServiceAccountGrant$stateArgs<ExtArgs>
+  secret?: boolean | Prisma.ServiceAccountGrant$secretArgs<ExtArgs>
+}, ExtArgs["result"]["serviceAccountGrant"]>
+
+export type ServiceAccountGrantSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  serviceAccountId?: boolean
+  stateId?: boolean
+  secretId?: boolean
+  createdAt?: boolean
+  serviceAccount?: boolean | Prisma.ServiceAccountDefaultArgs<ExtArgs>
+  state?: boolean | Prisma.ServiceAccountGrant$stateArgs<ExtArgs>
+  secret?: boolean | Prisma.ServiceAccountGrant$secretArgs<ExtArgs>
+}, ExtArgs["result"]["serviceAccountGrant"]>
+
+export type ServiceAccountGrantSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  serviceAccountId?: boolean
+  stateId?: boolean
+  secretId?: boolean
+  createdAt?: boolean
+  serviceAccount?: boolean | Prisma.ServiceAccountDefaultArgs<ExtArgs>
+  state?: boolean | Prisma.ServiceAccountGrant$stateArgs<ExtArgs>
+  secret?: boolean | Prisma.ServiceAccountGrant$secretArgs<ExtArgs>
+}, ExtArgs["result"]["serviceAccountGrant"]>
+
+export type ServiceAccountGrantSelectScalar = {
+  id?: boolean
+  serviceAccountId?: boolean
+  stateId?: boolean
+  secretId?: boolean
+  createdAt?: boolean
+}
+
+export type ServiceAccountGrantOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "serviceAccountId" | "stateId" | "secretId" | "createdAt", ExtArgs["result"]["serviceAccountGrant"]>
+export type ServiceAccountGrantInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  serviceAccount?: boolean | Prisma.ServiceAccountDefaultArgs<ExtArgs>
+  state?: boolean | Prisma.ServiceAccountGrant$stateArgs<ExtArgs>
+  secret?: boolean | Prisma.ServiceAccountGrant$secretArgs<ExtArgs>
+}
+export type ServiceAccountGrantIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  serviceAccount?: boolean | Prisma.ServiceAccountDefaultArgs<ExtArgs>
+  state?: boolean | Prisma.ServiceAccountGrant$stateArgs<ExtArgs>
+  secret?: boolean | Prisma.ServiceAccountGrant$secretArgs<ExtArgs>
+}
+export type ServiceAccountGrantIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  serviceAccount?: boolean | Prisma.ServiceAccountDefaultArgs<ExtArgs>
+  state?: boolean | Prisma.ServiceAccountGrant$stateArgs<ExtArgs>
+  secret?: boolean | Prisma.ServiceAccountGrant$secretArgs<ExtArgs>
+}
+
+export type $ServiceAccountGrantPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "ServiceAccountGrant"
+  objects: {
+    /**
+     * The service account receiving the access.
+     */
+    serviceAccount: Prisma.$ServiceAccountPayload<ExtArgs>
+    /**
+     * The instance the access is granted to.
+     */
+    state: Prisma.$InstanceStatePayload<ExtArgs> | null
+    /**
+     * The secret the access is granted to.
+     */
+    secret: Prisma.$SecretPayload<ExtArgs> | null
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    /**
+     * The CUIDv2 of the grant.
+     */
+    id: string
+    /**
+     * The ID of the service account receiving the access.
+     */
+    serviceAccountId: string
+    /**
+     * The ID of the state of the instance the access is granted to.
+     */
+    stateId: string | null
+    /**
+     * The ID of the secret the access is granted to.
+     */
+    secretId: string | null
+    /**
+     * The time when the grant was created.
+     */
+    createdAt: Date
+  }, ExtArgs["result"]["serviceAccountGrant"]>
+  composites: {}
+}
+
+export type ServiceAccountGrantGetPayload<S extends boolean | null | undefined | ServiceAccountGrantDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ServiceAccountGrantPayload, S>
+
+export type ServiceAccountGrantCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ServiceAccountGrantFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: ServiceAccountGrantCountAggregateInputType | true
+  }
+
+export interface ServiceAccountGrantDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ServiceAccountGrant'], meta: { name: 'ServiceAccountGrant' } }
+  /**
+   * Find zero or one ServiceAccountGrant that matches the filter.
+   * @param {ServiceAccountGrantFindUniqueArgs} args - Arguments to find a ServiceAccountGrant
+   * @example
+   * // Get one ServiceAccountGrant
+   * const serviceAccountGrant = await prisma.serviceAccountGrant.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ServiceAccountGrantFindUniqueArgs>(args: Prisma.SelectSubset<T, ServiceAccountGrantFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ServiceAccountGrantClient<runtime.Types.Result.GetResult<Prisma.$ServiceAccountGrantPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one ServiceAccountGrant that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ServiceAccountGrantFindUniqueOrThrowArgs} args - Arguments to find a ServiceAccountGrant
+   * @example
+   * // Get one ServiceAccountGrant
+   * const serviceAccountGrant = await prisma.serviceAccountGrant.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ServiceAccountGrantFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ServiceAccountGrantFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ServiceAccountGrantClient<runtime.Types.Result.GetResult<Prisma.$ServiceAccountGrantPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ServiceAccountGrant that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ServiceAccountGrantFindFirstArgs} args - Arguments to find a ServiceAccountGrant
+   * @example
+   * // Get one ServiceAccountGrant
+   * const serviceAccountGrant = await prisma.serviceAccountGrant.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ServiceAccountGrantFindFirstArgs>(args?: Prisma.SelectSubset<T, ServiceAccountGrantFindFirstArgs<ExtArgs>>): Prisma.Prisma__ServiceAccountGrantClient<runtime.Types.Result.GetResult<Prisma.$ServiceAccountGrantPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ServiceAccountGrant that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ServiceAccountGrantFindFirstOrThrowArgs} args - Arguments to find a ServiceAccountGrant
+   * @example
+   * // Get one ServiceAccountGrant
+   * const serviceAccountGrant = await prisma.serviceAccountGrant.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ServiceAccountGrantFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ServiceAccountGrantFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ServiceAccountGrantClient<runtime.Types.Result.GetResult<Prisma.$ServiceAccountGrantPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more ServiceAccountGrants that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ServiceAccountGrantFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ServiceAccountGrants
+   * const serviceAccountGrants = await prisma.serviceAccountGrant.findMany()
+   * 
+   * // Get first 10 ServiceAccountGrants
+   * const serviceAccountGrants = await prisma.serviceAccountGrant.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const serviceAccountGrantWithIdOnly = await prisma.serviceAccountGrant.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ServiceAccountGrantFindManyArgs>(args?: Prisma.SelectSubset<T, ServiceAccountGrantFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ServiceAccountGrantPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a ServiceAccountGrant.
+   * @param {ServiceAccountGrantCreateArgs} args - Arguments to create a ServiceAccountGrant.
+   * @example
+   * // Create one ServiceAccountGrant
+   * const ServiceAccountGrant = await prisma.serviceAccountGrant.create({
+   *   data: {
+   *     // ... data to create a ServiceAccountGrant
+   *   }
+   * })
+   * 
+   */
+  create<T extends ServiceAccountGrantCreateArgs>(args: Prisma.SelectSubset<T, ServiceAccountGrantCreateArgs<ExtArgs>>): Prisma.Prisma__ServiceAccountGrantClient<runtime.Types.Result.GetResult<Prisma.$ServiceAccountGrantPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many ServiceAccountGrants.
+   * @param {ServiceAccountGrantCreateManyArgs} args - Arguments to create many ServiceAccountGrants.
+   * @example
+   * // Create many ServiceAccountGrants
+   * const serviceAccountGrant = await prisma.serviceAccountGrant.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ServiceAccountGrantCreateManyArgs>(args?: Prisma.SelectSubset<T, ServiceAccountGrantCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many ServiceAccountGrants and returns the data saved in the database.
+   * @param {ServiceAccountGrantCreateManyAndReturnArgs} args - Arguments to create many ServiceAccountGrants.
+   * @example
+   * // Create many ServiceAccountGrants
+   * const serviceAccountGrant = await prisma.serviceAccountGrant.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many ServiceAccountGrants and only return the `id`
+   * const serviceAccountGrantWithIdOnly = await prisma.serviceAccountGrant.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ServiceAccountGrantCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ServiceAccountGrantCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ServiceAccountGrantPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a ServiceAccountGrant.
+   * @param {ServiceAccountGrantDeleteArgs} args - Arguments to delete one ServiceAccountGrant.
+   * @example
+   * // Delete one ServiceAccountGrant
+   * const ServiceAccountGrant = await prisma.serviceAccountGrant.delete({
+   *   where: {
+   *     // ... filter to delete one ServiceAccountGrant
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ServiceAccountGrantDeleteArgs>(args: Prisma.SelectSubset<T, ServiceAccountGrantDeleteArgs<ExtArgs>>): Prisma.Prisma__ServiceAccountGrantClient<runtime.Types.Result.GetResult<Prisma.$ServiceAccountGrantPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one ServiceAccountGrant.
+   * @param {ServiceAccountGrantUpdateArgs} args - Arguments to update one ServiceAccountGrant.
+   * @example
+   * // Update one ServiceAccountGrant
+   * const serviceAccountGrant = await prisma.serviceAccountGrant.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ServiceAccountGrantUpdateArgs>(args: Prisma.SelectSubset<T, ServiceAccountGrantUpdateArgs<ExtArgs>>): Prisma.Prisma__ServiceAccountGrantClient<runtime.Types.Result.GetResult<Prisma.$ServiceAccountGrantPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more ServiceAccountGrants.
+   * @param {ServiceAccountGrantDeleteManyArgs} args - Arguments to filter ServiceAccountGrants to delete.
+   * @example
+   * // Delete a few ServiceAccountGrants
+   * const { count } = await prisma.serviceAccountGrant.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ServiceAccountGrantDeleteManyArgs>(args?: Prisma.SelectSubset<T, ServiceAccountGrantDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ServiceAccountGrants.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ServiceAccountGrantUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ServiceAccountGrants
+   * const serviceAccountGrant = await prisma.serviceAccountGrant.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ServiceAccountGrantUpdateManyArgs>(args: Prisma.SelectSubset<T, ServiceAccountGrantUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ServiceAccountGrants and returns the data updated in the database.
+   * @param {ServiceAccountGrantUpdateManyAndReturnArgs} args - Arguments to update many ServiceAccountGrants.
+   * @example
+   * // Update many ServiceAccountGrants
+   * const serviceAccountGrant = await prisma.serviceAccountGrant.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more ServiceAccountGrants and only return the `id`
+   * const serviceAccountGrantWithIdOnly = await prisma.serviceAccountGrant.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ServiceAccountGrantUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ServiceAccountGrantUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ServiceAccountGrantPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one ServiceAccountGrant.
+   * @param {ServiceAccountGrantUpsertArgs} args - Arguments to update or create a ServiceAccountGrant.
+   * @example
+   * // Update or create a ServiceAccountGrant
+   * const serviceAccountGrant = await prisma.serviceAccountGrant.upsert({
+   *   create: {
+   *     // ... data to create a ServiceAccountGrant
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ServiceAccountGrant we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ServiceAccountGrantUpsertArgs>(args: Prisma.SelectSubset<T, ServiceAccountGrantUpsertArgs<ExtArgs>>): Prisma.Prisma__ServiceAccountGrantClient<runtime.Types.Result.GetResult<Prisma.$ServiceAccountGrantPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of ServiceAccountGrants.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ServiceAccountGrantCountArgs} args - Arguments to filter ServiceAccountGrants to count.
+   * @example
+   * // Count the number of ServiceAccountGrants
+   * const count = await prisma.serviceAccountGrant.count({
+   *   where: {
+   *     // ... the filter for the ServiceAccountGrants we want to count
+   *   }
+   * })
+  **/
+  count<T extends ServiceAccountGrantCountArgs>(
+    args?: Prisma.Subset<T, ServiceAccountGrantCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ServiceAccountGrantCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a ServiceAccountGrant.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ServiceAccountGrantAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ServiceAccountGrantAggregateArgs>(args: Prisma.Subset<T, ServiceAccountGrantAggregateArgs>): Prisma.PrismaPromise<GetServiceAccountGrantAggregateType<T>>
+
+  /**
+   * Group by ServiceAccountGrant.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ServiceAccountGrantGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ServiceAccountGrantGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ServiceAccountGrantGroupByArgs['orderBy'] }
+      : { orderBy?: ServiceAccountGrantGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ServiceAccountGrantGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetServiceAccountGrantGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the ServiceAccountGrant model
+ */
+readonly fields: ServiceAccountGrantFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ServiceAccountGrant.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ServiceAccountGrantClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  serviceAccount<T extends Prisma.ServiceAccountDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ServiceAccountDefaultArgs<ExtArgs>>): Prisma.Prisma__ServiceAccountClient<runtime.Types.Result.GetResult<Prisma.$ServiceAccountPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  state<T extends Prisma.ServiceAccountGrant$stateArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ServiceAccountGrant$stateArgs<ExtArgs>>): Prisma.Prisma__InstanceStateClient<runtime.Types.Result.GetResult<Prisma.$InstanceStatePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  secret<T extends Prisma.ServiceAccountGrant$secretArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ServiceAccountGrant$secretArgs<ExtArgs>>): Prisma.Prisma__SecretClient<runtime.Types.Result.GetResult<Prisma.$SecretPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the ServiceAccountGrant model
+ */
+export interface ServiceAccountGrantFieldRefs {
+  readonly id: Prisma.FieldRef<"ServiceAccountGrant", 'String'>
+  readonly serviceAccountId: Prisma.FieldRef<"ServiceAccountGrant", 'String'>
+  readonly stateId: Prisma.FieldRef<"ServiceAccountGrant", 'String'>
+  readonly secretId: Prisma.FieldRef<"ServiceAccountGrant", 'String'>
+  readonly createdAt: Prisma.FieldRef<"ServiceAccountGrant", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * ServiceAccountGrant findUnique
+ */
+export type ServiceAccountGrantFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ServiceAccountGrant
+   */
+  select?: Prisma.ServiceAccountGrantSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ServiceAccountGrant
+   */
+  omit?: Prisma.ServiceAccountGrantOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ServiceAccountGrantInclude<ExtArgs> | null
+  /**
+   * Filter, which ServiceAccountGrant to fetch.
+   */
+  where: Prisma.ServiceAccountGrantWhereUniqueInput
+}
+
+/**
+ * ServiceAccountGrant findUniqueOrThrow
+ */
+export type ServiceAccountGrantFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ServiceAccountGrant
+   */
+  select?: Prisma.ServiceAccountGrantSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ServiceAccountGrant
+   */
+  omit?: Prisma.ServiceAccountGrantOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ServiceAccountGrantInclude<ExtArgs> | null
+  /**
+   * Filter, which ServiceAccountGrant to fetch.
+   */
+  where: Prisma.ServiceAccountGrantWhereUniqueInput
+}
+
+/**
+ * ServiceAccountGrant findFirst
+ */
+export type ServiceAccountGrantFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ServiceAccountGrant
+   */
+  select?: Prisma.ServiceAccountGrantSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ServiceAccountGrant
+   */
+  omit?: Prisma.ServiceAccountGrantOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ServiceAccountGrantInclude<ExtArgs> | null
+  /**
+   * Filter, which ServiceAccountGrant to fetch.
+   */
+  where?: Prisma.ServiceAccountGrantWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ServiceAccountGrants to fetch.
+   */
+  orderBy?: Prisma.ServiceAccountGrantOrderByWithRelationInput | Prisma.ServiceAccountGrantOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ServiceAccountGrants.
+   */
+  cursor?: Prisma.ServiceAccountGrantWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ServiceAccountGrants from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ServiceAccountGrants.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ServiceAccountGrants.
+   */
+  distinct?: Prisma.ServiceAccountGrantScalarFieldEnum | Prisma.ServiceAccountGrantScalarFieldEnum[]
+}
+
+/**
+ * ServiceAccountGrant findFirstOrThrow
+ */
+export type ServiceAccountGrantFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ServiceAccountGrant
+   */
+  select?: Prisma.ServiceAccountGrantSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ServiceAccountGrant
+   */
+  omit?: Prisma.ServiceAccountGrantOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ServiceAccountGrantInclude<ExtArgs> | null
+  /**
+   * Filter, which ServiceAccountGrant to fetch.
+   */
+  where?: Prisma.ServiceAccountGrantWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ServiceAccountGrants to fetch.
+   */
+  orderBy?: Prisma.ServiceAccountGrantOrderByWithRelationInput | Prisma.ServiceAccountGrantOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ServiceAccountGrants.
+   */
+  cursor?: Prisma.ServiceAccountGrantWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ServiceAccountGrants from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ServiceAccountGrants.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ServiceAccountGrants.
+   */
+  distinct?: Prisma.ServiceAccountGrantScalarFieldEnum | Prisma.ServiceAccountGrantScalarFieldEnum[]
+}
+
+/**
+ * ServiceAccountGrant findMany
+ */
+export type ServiceAccountGrantFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ServiceAccountGrant
+   */
+  select?: Prisma.ServiceAccountGrantSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ServiceAccountGrant
+   */
+  omit?: Prisma.ServiceAccountGrantOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ServiceAccountGrantInclude<ExtArgs> | null
+  /**
+   * Filter, which ServiceAccountGrants to fetch.
+   */
+  where?: Prisma.ServiceAccountGrantWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ServiceAccountGrants to fetch.
+   */
+  orderBy?: Prisma.ServiceAccountGrantOrderByWithRelationInput | Prisma.ServiceAccountGrantOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing ServiceAccountGrants.
+   */
+  cursor?: Prisma.ServiceAccountGrantWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ServiceAccountGrants from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ServiceAccountGrants.
+   */
+  skip?: number
+  distinct?: Prisma.ServiceAccountGrantScalarFieldEnum | Prisma.ServiceAccountGrantScalarFieldEnum[]
+}
+
+/**
+ * ServiceAccountGrant create
+ */
+export type ServiceAccountGrantCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ServiceAccountGrant
+   */
+  select?: Prisma.ServiceAccountGrantSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ServiceAccountGrant
+   */
+  omit?: Prisma.ServiceAccountGrantOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ServiceAccountGrantInclude<ExtArgs> | null
+  /**
+   * The data needed to create a ServiceAccountGrant.
+   */
+  data: Prisma.XOR<Prisma.ServiceAccountGrantCreateInput, Prisma.ServiceAccountGrantUncheckedCreateInput>
+}
+
+/**
+ * ServiceAccountGrant createMany
+ */
+export type ServiceAccountGrantCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many ServiceAccountGrants.
+   */
+  data: Prisma.ServiceAccountGrantCreateManyInput | Prisma.ServiceAccountGrantCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ServiceAccountGrant createManyAndReturn
+ */
+export type ServiceAccountGrantCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ServiceAccountGrant
+   */
+  select?: Prisma.ServiceAccountGrantSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ServiceAccountGrant
+   */
+  omit?: Prisma.ServiceAccountGrantOmit<ExtArgs> | null
+  /**
+   * The data used to create many ServiceAccountGrants.
+   */
+  data: Prisma.ServiceAccountGrantCreateManyInput | Prisma.ServiceAccountGrantCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ServiceAccountGrantIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ServiceAccountGrant update
+ */
+export type ServiceAccountGrantUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ServiceAccountGrant
+   */
+  select?: Prisma.ServiceAccountGrantSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ServiceAccountGrant
+   */
+  omit?: Prisma.ServiceAccountGrantOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ServiceAccountGrantInclude<ExtArgs> | null
+  /**
+   * The data needed to update a ServiceAccountGrant.
+   */
+  data: Prisma.XOR<Prisma.ServiceAccountGrantUpdateInput, Prisma.ServiceAccountGrantUncheckedUpdateInput>
+  /**
+   * Choose, which ServiceAccountGrant to update.
+   */
+  where: Prisma.ServiceAccountGrantWhereUniqueInput
+}
+
+/**
+ * ServiceAccountGrant updateMany
+ */
+export type ServiceAccountGrantUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update ServiceAccountGrants.
+   */
+  data: Prisma.XOR<Prisma.ServiceAccountGrantUpdateManyMutationInput, Prisma.ServiceAccountGrantUncheckedUpdateManyInput>
+  /**
+   * Filter which ServiceAccountGrants to update
+   */
+  where?: Prisma.ServiceAccountGrantWhereInput
+  /**
+   * Limit how many ServiceAccountGrants to update.
+   */
+  limit?: number
+}
+
+/**
+ * ServiceAccountGrant updateManyAndReturn
+ */
+export type ServiceAccountGrantUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ServiceAccountGrant
+   */
+  select?: Prisma.ServiceAccountGrantSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ServiceAccountGrant
+   */
+  omit?: Prisma.ServiceAccountGrantOmit<ExtArgs> | null
+  /**
+   * The data used to update ServiceAccountGrants.
+   */
+  data: Prisma.XOR<Prisma.ServiceAccountGrantUpdateManyMutationInput, Prisma.ServiceAccountGrantUncheckedUpdateManyInput>
+  /**
+   * Filter which ServiceAccountGrants to update
+   */
+  where?: Prisma.ServiceAccountGrantWhereInput
+  /**
+   * Limit how many ServiceAccountGrants to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ServiceAccountGrantIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ServiceAccountGrant upsert
+ */
+export type ServiceAccountGrantUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ServiceAccountGrant
+   */
+  select?: Prisma.ServiceAccountGrantSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ServiceAccountGrant
+   */
+  omit?: Prisma.ServiceAccountGrantOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ServiceAccountGrantInclude<ExtArgs> | null
+  /**
+   * The filter to search for the ServiceAccountGrant to update in case it exists.
+   */
+  where: Prisma.ServiceAccountGrantWhereUniqueInput
+  /**
+   * In case the ServiceAccountGrant found by the `where` argument doesn't exist, create a new ServiceAccountGrant with this data.
+   */
+  create: Prisma.XOR<Prisma.ServiceAccountGrantCreateInput, Prisma.ServiceAccountGrantUncheckedCreateInput>
+  /**
+   * In case the ServiceAccountGrant was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ServiceAccountGrantUpdateInput, Prisma.ServiceAccountGrantUncheckedUpdateInput>
+}
+
+/**
+ * ServiceAccountGrant delete
+ */
+export type ServiceAccountGrantDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ServiceAccountGrant
+   */
+  select?: Prisma.ServiceAccountGrantSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ServiceAccountGrant
+   */
+  omit?: Prisma.ServiceAccountGrantOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ServiceAccountGrantInclude<ExtArgs> | null
+  /**
+   * Filter which ServiceAccountGrant to delete.
+   */
+  where: Prisma.ServiceAccountGrantWhereUniqueInput
+}
+
+/**
+ * ServiceAccountGrant deleteMany
+ */
+export type ServiceAccountGrantDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ServiceAccountGrants to delete
+   */
+  where?: Prisma.ServiceAccountGrantWhereInput
+  /**
+   * Limit how many ServiceAccountGrants to delete.
+   */
+  limit?: number
+}
+
+/**
+ * ServiceAccountGrant.state
+ */
+export type ServiceAccountGrant$stateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InstanceState
+   */
+  select?: Prisma.InstanceStateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InstanceState
+   */
+  omit?: Prisma.InstanceStateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InstanceStateInclude<ExtArgs> | null
+  where?: Prisma.InstanceStateWhereInput
+}
+
+/**
+ * ServiceAccountGrant.secret
+ */
+export type ServiceAccountGrant$secretArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Secret
+   */
+  select?: Prisma.SecretSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Secret
+   */
+  omit?: Prisma.SecretOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SecretInclude<ExtArgs> | null
+  where?: Prisma.SecretWhereInput
+}
+
+/**
+ * ServiceAccountGrant without action
+ */
+export type ServiceAccountGrantDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ServiceAccountGrant
+   */
+  select?: Prisma.ServiceAccountGrantSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ServiceAccountGrant
+   */
+  omit?: Prisma.ServiceAccountGrantOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ServiceAccountGrantInclude<ExtArgs> | null
+}
@@ -0,0 +1,1287 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `WorkerOperationRequest` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+
+import type * as PJTG from '../pjtg.ts';
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.ts"
+import type * as Prisma from "../internal/prismaNamespace.ts"
+
+/**
+ * Model WorkerOperationRequest
+ * The operation request made by the worker.
+ * 
+ * The requests are persisted to limit the number of the operations
+ * the worker can request within the sliding window across all backends.
+ */
+export type WorkerOperationRequestModel = runtime.Types.Result.DefaultSelection<Prisma.$WorkerOperationRequestPayload>
+
+export type AggregateWorkerOperationRequest = {
+  _count: WorkerOperationRequestCountAggregateOutputType | null
+  _min: WorkerOperationRequestMinAggregateOutputType | null
+  _max: WorkerOperationRequestMaxAggregateOutputType | null
+}
+
+export type WorkerOperationRequestMinAggregateOutputType = {
+  id: string | null
+  workerId: string | null
+  createdAt: Date | null
+}
+
+export type WorkerOperationRequestMaxAggregateOutputType = {
+  id: string | null
+  workerId: string | null
+  createdAt: Date | null
+}
+
+export type WorkerOperationRequestCountAggregateOutputType = {
+  id: number
+  workerId: number
+  createdAt: number
+  _all: number
+}
+
+
+export type WorkerOperationRequestMinAggregateInputType = {
+  id?: true
+  workerId?: true
+  createdAt?: true
+}
+
+export type WorkerOperationRequestMaxAggregateInputType = {
+  id?: true
+  workerId?: true
+  createdAt?: true
+}
+
+export type WorkerOperationRequestCountAggregateInputType = {
+  id?: true
+  workerId?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type WorkerOperationRequestAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which WorkerOperationRequest to aggregate.
+   */
+  where?: Prisma.WorkerOperationRequestWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of WorkerOperationRequests to fetch.
+   */
+  orderBy?: Prisma.WorkerOperationRequestOrderByWithRelationInput | Prisma.WorkerOperationRequestOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.WorkerOperationRequestWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` WorkerOperationRequests from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` WorkerOperationRequests.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned WorkerOperationRequests
+  **/
+  _count?: true | WorkerOperationRequestCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: WorkerOperationRequestMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: WorkerOperationRequestMaxAggregateInputType
+}
+
+export type GetWorkerOperationRequestAggregateType<T extends WorkerOperationRequestAggregateArgs> = {
+      [P in keyof T & keyof AggregateWorkerOperationRequest]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateWorkerOperationRequest[P]>
+    : Prisma.GetScalarType<T[P], AggregateWorkerOperationRequest[P]>
+}
+
+
+
+
+export type WorkerOperationRequestGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.WorkerOperationRequestWhereInput
+  orderBy?: Prisma.WorkerOperationRequestOrderByWithAggregationInput | Prisma.WorkerOperationRequestOrderByWithAggregationInput[]
+  by: Prisma.WorkerOperationRequestScalarFieldEnum[] | Prisma.WorkerOperationRequestScalarFieldEnum
+  having?: Prisma.WorkerOperationRequestScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: WorkerOperationRequestCountAggregateInputType | true
+  _min?: WorkerOperationRequestMinAggregateInputType
+  _max?: WorkerOperationRequestMaxAggregateInputType
+}
+
+export type WorkerOperationRequestGroupByOutputType = {
+  id: string
+  workerId: string
+  createdAt: Date
+  _count: WorkerOperationRequestCountAggregateOutputType | null
+  _min: WorkerOperationRequestMinAggregateOutputType | null
+  _max: WorkerOperationRequestMaxAggregateOutputType | null
+}
+
+type GetWorkerOperationRequestGroupByPayload<T extends WorkerOperationRequestGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<WorkerOperationRequestGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof WorkerOperationRequestGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], WorkerOperationRequestGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], WorkerOperationRequestGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type WorkerOperationRequestWhereInput = {
+  AND?: Prisma.WorkerOperationRequestWhereInput | Prisma.WorkerOperationRequestWhereInput[]
+  OR?: Prisma.WorkerOperationRequestWhereInput[]
+  NOT?: Prisma.WorkerOperationRequestWhereInput | Prisma.WorkerOperationRequestWhereInput[]
+  id?: Prisma.StringFilter<"WorkerOperationRequest"> | string
+  workerId?: Prisma.StringFilter<"WorkerOperationRequest"> | string
+  createdAt?: Prisma.DateTimeFilter<"WorkerOperationRequest"> | Date | string
+  worker?: Prisma.XOR<Prisma.WorkerScalarRelationFilter, Prisma.WorkerWhereInput>
+}
+
+export type WorkerOperationRequestOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  workerId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  worker?: Prisma.WorkerOrderByWithRelationInput
+}
+
+export type WorkerOperationRequestWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.WorkerOperationRequestWhereInput | Prisma.WorkerOperationRequestWhereInput[]
+  OR?: Prisma.WorkerOperationRequestWhereInput[]
+  NOT?: Prisma.WorkerOperationRequestWhereInput | Prisma.WorkerOperationRequestWhereInput[]
+  workerId?: Prisma.StringFilter<"WorkerOperationRequest"> | string
+  createdAt?: Prisma.DateTimeFilter<"WorkerOperationRequest"> | Date | string
+  worker?: Prisma.XOR<Prisma.WorkerScalarRelationFilter, Prisma.WorkerWhereInput>
+}, "id">
+
+export type WorkerOperationRequestOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  workerId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.WorkerOperationRequestCountOrderByAggregateInput
+  _max?: Prisma.WorkerOperationRequestMaxOrderByAggregateInput
+  _min?: Prisma.WorkerOperationRequestMinOrderByAggregateInput
+}
+
+export type WorkerOperationRequestScalarWhereWithAggregatesInput = {
+  AND?: Prisma.WorkerOperationRequestScalarWhereWithAggregatesInput | Prisma.WorkerOperationRequestScalarWhereWithAggregatesInput[]
+  OR?: Prisma.WorkerOperationRequestScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.WorkerOperationRequestScalarWhereWithAggregatesInput | Prisma.WorkerOperationRequestScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"WorkerOperationRequest"> | string
+  workerId?: Prisma.StringWithAggregatesFilter<"WorkerOperationRequest"> | string
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"WorkerOperationRequest"> | Date | string
+}
+
+export type WorkerOperationRequestCreateInput = {
+  id?: string
+  createdAt?: Date | string
+  worker: Prisma.WorkerCreateNestedOneWithoutOperationRequestsInput
+}
+
+export type WorkerOperationRequestUncheckedCreateInput = {
+  id?: string
+  workerId: string
+  createdAt?: Date | string
+}
+
+export type WorkerOperationRequestUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  worker?: Prisma.WorkerUpdateOneRequiredWithoutOperationRequestsNestedInput
+}
+
+export type WorkerOperationRequestUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  workerId?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WorkerOperationRequestCreateManyInput = {
+  id?: string
+  workerId: string
+  createdAt?: Date | string
+}
+
+export type WorkerOperationRequestUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WorkerOperationRequestUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  workerId?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WorkerOperationRequestListRelationFilter = {
+  every?: Prisma.WorkerOperationRequestWhereInput
+  some?: Prisma.WorkerOperationRequestWhereInput
+  none?: Prisma.WorkerOperationRequestWhereInput
+}
+
+export type WorkerOperationRequestOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type WorkerOperationRequestCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  workerId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type WorkerOperationRequestMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  workerId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type WorkerOperationRequestMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  workerId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type WorkerOperationRequestCreateNestedManyWithoutWorkerInput = {
+  create?: Prisma.XOR<Prisma.WorkerOperationRequestCreateWithoutWorkerInput, Prisma.WorkerOperationRequestUncheckedCreateWithoutWorkerInput> | Prisma.WorkerOperationRequestCreateWithoutWorkerInput[] | Prisma.WorkerOperationRequestUncheckedCreateWithoutWorkerInput[]
+  connectOrCreate?: Prisma.WorkerOperationRequestCreateOrConnectWithoutWorkerInput | Prisma.WorkerOperationRequestCreateOrConnectWithoutWorkerInput[]
+  createMany?: Prisma.WorkerOperationRequestCreateManyWorkerInputEnvelope
+  connect?: Prisma.WorkerOperationRequestWhereUniqueInput | Prisma.WorkerOperationRequestWhereUniqueInput[]
+}
+
+export type WorkerOperationRequestUncheckedCreateNestedManyWithoutWorkerInput = {
+  create?: Prisma.XOR<Prisma.WorkerOperationRequestCreateWithoutWorkerInput, Prisma.WorkerOperationRequestUncheckedCreateWithoutWorkerInput> | Prisma.WorkerOperationRequestCreateWithoutWorkerInput[] | Prisma.WorkerOperationRequestUncheckedCreateWithoutWorkerInput[]
+  connectOrCreate?: Prisma.WorkerOperationRequestCreateOrConnectWithoutWorkerInput | Prisma.WorkerOperationRequestCreateOrConnectWithoutWorkerInput[]
+  createMany?: Prisma.WorkerOperationRequestCreateManyWorkerInputEnvelope
+  connect?: Prisma.WorkerOperationRequestWhereUniqueInput | Prisma.WorkerOperationRequestWhereUniqueInput[]
+}
+
+export type WorkerOperationRequestUpdateManyWithoutWorkerNestedInput = {
+  create?: Prisma.XOR<Prisma.WorkerOperationRequestCreateWithoutWorkerInput, Prisma.WorkerOperationRequestUncheckedCreateWithoutWorkerInput> | Prisma.WorkerOperationRequestCreateWithoutWorkerInput[] | Prisma.WorkerOperationRequestUncheckedCreateWithoutWorkerInput[]
+  connectOrCreate?: Prisma.WorkerOperationRequestCreateOrConnectWithoutWorkerInput | Prisma.WorkerOperationRequestCreateOrConnectWithoutWorkerInput[]
+  upsert?: Prisma.WorkerOperationRequestUpsertWithWhereUniqueWithoutWorkerInput | Prisma.WorkerOperationRequestUpsertWithWhereUniqueWithoutWorkerInput[]
+  createMany?: Prisma.WorkerOperationRequestCreateManyWorkerInputEnvelope
+  set?: Prisma.WorkerOperationRequestWhereUniqueInput | Prisma.WorkerOperationRequestWhereUniqueInput[]
+  disconnect?: Prisma.WorkerOperationRequestWhereUniqueInput | Prisma.WorkerOperationRequestWhereUniqueInput[]
+  delete?: Prisma.WorkerOperationRequestWhereUniqueInput | Prisma.WorkerOperationRequestWhereUniqueInput[]
+  connect?: Prisma.WorkerOperationRequestWhereUniqueInput | Prisma.WorkerOperationRequestWhereUniqueInput[]
+  update?: Prisma.WorkerOperationRequestUpdateWithWhereUniqueWithoutWorkerInput | Prisma.WorkerOperationRequestUpdateWithWhereUniqueWithoutWorkerInput[]
+  updateMany?: Prisma.WorkerOperationRequestUpdateManyWithWhereWithoutWorkerInput | Prisma.WorkerOperationRequestUpdateManyWithWhereWithoutWorkerInput[]
+  deleteMany?: Prisma.WorkerOperationRequestScalarWhereInput | Prisma.WorkerOperationRequestScalarWhereInput[]
+}
+
+export type WorkerOperationRequestUncheckedUpdateManyWithoutWorkerNestedInput = {
+  create?: Prisma.XOR<Prisma.WorkerOperationRequestCreateWithoutWorkerInput, Prisma.WorkerOperationRequestUncheckedCreateWithoutWorkerInput> | Prisma.WorkerOperationRequestCreateWithoutWorkerInput[] | Prisma.WorkerOperationRequestUncheckedCreateWithoutWorkerInput[]
+  connectOrCreate?: Prisma.WorkerOperationRequestCreateOrConnectWithoutWorkerInput | Prisma.WorkerOperationRequestCreateOrConnectWithoutWorkerInput[]
+  upsert?: Prisma.WorkerOperationRequestUpsertWithWhereUniqueWithoutWorkerInput | Prisma.WorkerOperationRequestUpsertWithWhereUniqueWithoutWorkerInput[]
+  createMany?: Prisma.WorkerOperationRequestCreateManyWorkerInputEnvelope
+  set?: Prisma.WorkerOperationRequestWhereUniqueInput | Prisma.WorkerOperationRequestWhereUniqueInput[]
+  disconnect?: Prisma.WorkerOperationRequestWhereUniqueInput | Prisma.WorkerOperationRequestWhereUniqueInput[]
+  delete?: Prisma.WorkerOperationRequestWhereUniqueInput | Prisma.WorkerOperationRequestWhereUniqueInput[]
+  connect?: Prisma.WorkerOperationRequestWhereUniqueInput | Prisma.WorkerOperationRequestWhereUniqueInput[]
+  update?: Prisma.WorkerOperationRequestUpdateWithWhereUniqueWithoutWorkerInput | Prisma.WorkerOperationRequestUpdateWithWhereUniqueWithoutWorkerInput[]
+  updateMany?: Prisma.WorkerOperationRequestUpdateManyWithWhereWithoutWorkerInput | Prisma.WorkerOperationRequestUpdateManyWithWhereWithoutWorkerInput[]
+  deleteMany?: Prisma.WorkerOperationRequestScalarWhereInput | Prisma.WorkerOperationRequestScalarWhereInput[]
+}
+
+export type WorkerOperationRequestCreateWithoutWorkerInput = {
+  id?: string
+  createdAt?: Date | string
+}
+
+export type WorkerOperationRequestUncheckedCreateWithoutWorkerInput = {
+  id?: string
+  createdAt?: Date | string
+}
+
+export type WorkerOperationRequestCreateOrConnectWithoutWorkerInput = {
+  where: Prisma.WorkerOperationRequestWhereUniqueInput
+  create: Prisma.XOR<Prisma.WorkerOperationRequestCreateWithoutWorkerInput, Prisma.WorkerOperationRequestUncheckedCreateWithoutWorkerInput>
+}
+
+export type WorkerOperationRequestCreateManyWorkerInputEnvelope = {
+  data: Prisma.WorkerOperationRequestCreateManyWorkerInput | Prisma.WorkerOperationRequestCreateManyWorkerInput[]
+  skipDuplicates?: boolean
+}
+
+export type WorkerOperationRequestUpsertWithWhereUniqueWithoutWorkerInput = {
+  where: Prisma.WorkerOperationRequestWhereUniqueInput
+  update: Prisma.XOR<Prisma.WorkerOperationRequestUpdateWithoutWorkerInput, Prisma.WorkerOperationRequestUncheckedUpdateWithoutWorkerInput>
+  create: Prisma.XOR<Prisma.WorkerOperationRequestCreateWithoutWorkerInput, Prisma.WorkerOperationRequestUncheckedCreateWithoutWorkerInput>
+}
+
+export type WorkerOperationRequestUpdateWithWhereUniqueWithoutWorkerInput = {
+  where: Prisma.WorkerOperationRequestWhereUniqueInput
+  data: Prisma.XOR<Prisma.WorkerOperationRequestUpdateWithoutWorkerInput, Prisma.WorkerOperationRequestUncheckedUpdateWithoutWorkerInput>
+}
+
+export type WorkerOperationRequestUpdateManyWithWhereWithoutWorkerInput = {
+  where: Prisma.WorkerOperationRequestScalarWhereInput
+  data: Prisma.XOR<Prisma.WorkerOperationRequestUpdateManyMutationInput, Prisma.WorkerOperationRequestUncheckedUpdateManyWithoutWorkerInput>
+}
+
+export type WorkerOperationRequestScalarWhereInput = {
+  AND?: Prisma.WorkerOperationRequestScalarWhereInput | Prisma.WorkerOperationRequestScalarWhereInput[]
+  OR?: Prisma.WorkerOperationRequestScalarWhereInput[]
+  NOT?: Prisma.WorkerOperationRequestScalarWhereInput | Prisma.WorkerOperationRequestScalarWhereInput[]
+  id?: Prisma.StringFilter<"WorkerOperationRequest"> | string
+  workerId?: Prisma.StringFilter<"WorkerOperationRequest"> | string
+  createdAt?: Prisma.DateTimeFilter<"WorkerOperationRequest"> | Date | string
+}
+
+export type WorkerOperationRequestCreateManyWorkerInput = {
+  id?: string
+  createdAt?: Date | string
+}
+
+export type WorkerOperationRequestUpdateWithoutWorkerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WorkerOperationRequestUncheckedUpdateWithoutWorkerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WorkerOperationRequestUncheckedUpdateManyWithoutWorkerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type WorkerOperationRequestSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  workerId?: boolean
+  createdAt?: boolean
+  worker?: boolean | Prisma.WorkerDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["workerOperationRequest"]>
+
+export type WorkerOperationRequestSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  workerId?: boolean
+  createdAt?: boolean
+  worker?: boolean | Prisma.WorkerDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["workerOperationRequest"]>
+
+export type WorkerOperationRequestSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  workerId?: boolean
+  createdAt?: boolean
+  worker?: boolean | Prisma.WorkerDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["workerOperationRequest"]>
+
+export type WorkerOperationRequestSelectScalar = {
+  id?: boolean
+  workerId?: boolean
+  createdAt?: boolean
+}
+
+export type WorkerOperationRequestOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "workerId" | "createdAt", ExtArgs["result"]["workerOperationRequest"]>
+export type WorkerOperationRequestInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  worker?: boolean | Prisma.WorkerDefaultArgs<ExtArgs>
+}
+export type WorkerOperationRequestIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  worker?: boolean | Prisma.WorkerDefaultArgs<ExtArgs>
+}
+export type WorkerOperationRequestIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  worker?: boolean | Prisma.WorkerDefaultArgs<ExtArgs>
+}
+
+export type $WorkerOperationRequestPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "WorkerOperationRequest"
+  objects: {
+    /**
+     * The worker which made the request.
+     */
+    worker: Prisma.$WorkerPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    /**
+     * The CUIDv2 of the request.
+     */
+    id: string
+    /**
+     * The ID of the worker which made the request.
+     */
+    workerId: string
+    /**
+     * The time when the request was made.
+     */
+    createdAt: Date
+  }, ExtArgs["result"]["workerOperationRequest"]>
+  composites: {}
+}
+
+export type WorkerOperationRequestGetPayload<S extends boolean | null | undefined | WorkerOperationRequestDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$WorkerOperationRequestPayload, S>
+
+export type WorkerOperationRequestCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<WorkerOperationRequestFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: WorkerOperationRequestCountAggregateInputType | true
+  }
+
+export interface WorkerOperationRequestDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['WorkerOperationRequest'], meta: { name: 'WorkerOperationRequest' } }
+  /**
+   * Find zero or one WorkerOperationRequest that matches the filter.
+   * @param {WorkerOperationRequestFindUniqueArgs} args - Arguments to find a WorkerOperationRequest
+   * @example
+   * // Get one WorkerOperationRequest
+   * const workerOperationRequest = await prisma.workerOperationRequest.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends WorkerOperationRequestFindUniqueArgs>(args: Prisma.SelectSubset<T, WorkerOperationRequestFindUniqueArgs<ExtArgs>>): Prisma.Prisma__WorkerOperationRequestClient<runtime.Types.Result.GetResult<Prisma.$WorkerOperationRequestPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one WorkerOperationRequest that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {WorkerOperationRequestFindUniqueOrThrowArgs} args - Arguments to find a WorkerOperationRequest
+   * @example
+   * // Get one WorkerOperationRequest
+   * const workerOperationRequest = await prisma.workerOperationRequest.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends WorkerOperationRequestFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, WorkerOperationRequestFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__WorkerOperationRequestClient<runtime.Types.Result.GetResult<Prisma.$WorkerOperationRequestPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first WorkerOperationRequest that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WorkerOperationRequestFindFirstArgs} args - Arguments to find a WorkerOperationRequest
+   * @example
+   * // Get one WorkerOperationRequest
+   * const workerOperationRequest = await prisma.workerOperationRequest.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends WorkerOperationRequestFindFirstArgs>(args?: Prisma.SelectSubset<T, WorkerOperationRequestFindFirstArgs<ExtArgs>>): Prisma.Prisma__WorkerOperationRequestClient<runtime.Types.Result.GetResult<Prisma.$WorkerOperationRequestPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first WorkerOperationRequest that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WorkerOperationRequestFindFirstOrThrowArgs} args - Arguments to find a WorkerOperationRequest
+   * @example
+   * // Get one WorkerOperationRequest
+   * const workerOperationRequest = await prisma.workerOperationRequest.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends WorkerOperationRequestFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, WorkerOperationRequestFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__WorkerOperationRequestClient<runtime.Types.Result.GetResult<Prisma.$WorkerOperationRequestPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more WorkerOperationRequests that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WorkerOperationRequestFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all WorkerOperationRequests
+   * const workerOperationRequests = await prisma.workerOperationRequest.findMany()
+   * 
+   * // Get first 10 WorkerOperationRequests
+   * const workerOperationRequests = await prisma.workerOperationRequest.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const workerOperationRequestWithIdOnly = await prisma.workerOperationRequest.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends WorkerOperationRequestFindManyArgs>(args?: Prisma.SelectSubset<T, WorkerOperationRequestFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WorkerOperationRequestPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a WorkerOperationRequest.
+   * @param {WorkerOperationRequestCreateArgs} args - Arguments to create a WorkerOperationRequest.
+   * @example
+   * // Create one WorkerOperationRequest
+   * const WorkerOperationRequest = await prisma.workerOperationRequest.create({
+   *   data: {
+   *     // ... data to create a WorkerOperationRequest
+   *   }
+   * })
+   * 
+   */
+  create<T extends WorkerOperationRequestCreateArgs>(args: Prisma.SelectSubset<T, WorkerOperationRequestCreateArgs<ExtArgs>>): Prisma.Prisma__WorkerOperationRequestClient<runtime.Types.Result.GetResult<Prisma.$WorkerOperationRequestPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many WorkerOperationRequests.
+   * @param {WorkerOperationRequestCreateManyArgs} args - Arguments to create many WorkerOperationRequests.
+   * @example
+   * // Create many WorkerOperationRequests
+   * const workerOperationRequest = await prisma.workerOperationRequest.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends WorkerOperationRequestCreateManyArgs>(args?: Prisma.SelectSubset<T, WorkerOperationRequestCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many WorkerOperationRequests and returns the data saved in the database.
+   * @param {WorkerOperationRequestCreateManyAndReturnArgs} args - Arguments to create many WorkerOperationRequests.
+   * @example
+   * // Create many WorkerOperationRequests
+   * const workerOperationRequest = await prisma.workerOperationRequest.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many WorkerOperationRequests and only return the `id`
+   * const workerOperationRequestWithIdOnly = await prisma.workerOperationRequest.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends WorkerOperationRequestCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, WorkerOperationRequestCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WorkerOperationRequestPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a WorkerOperationRequest.
+   * @param {WorkerOperationRequestDeleteArgs} args - Arguments to delete one WorkerOperationRequest.
+   * @example
+   * // Delete one WorkerOperationRequest
+   * const WorkerOperationRequest = await prisma.workerOperationRequest.delete({
+   *   where: {
+   *     // ... filter to delete one WorkerOperationRequest
+   *   }
+   * })
+   * 
+   */
+  delete<T extends WorkerOperationRequestDeleteArgs>(args: Prisma.SelectSubset<T, WorkerOperationRequestDeleteArgs<ExtArgs>>): Prisma.Prisma__WorkerOperationRequestClient<runtime.Types.Result.GetResult<Prisma.$WorkerOperationRequestPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one WorkerOperationRequest.
+   * @param {WorkerOperationRequestUpdateArgs} args - Arguments to update one WorkerOperationRequest.
+   * @example
+   * // Update one WorkerOperationRequest
+   * const workerOperationRequest = await prisma.workerOperationRequest.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends WorkerOperationRequestUpdateArgs>(args: Prisma.SelectSubset<T, WorkerOperationRequestUpdateArgs<ExtArgs>>): Prisma.Prisma__WorkerOperationRequestClient<runtime.Types.Result.GetResult<Prisma.$WorkerOperationRequestPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more WorkerOperationRequests.
+   * @param {WorkerOperationRequestDeleteManyArgs} args - Arguments to filter WorkerOperationRequests to delete.
+   * @example
+   * // Delete a few WorkerOperationRequests
+   * const { count } = await prisma.workerOperationRequest.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends WorkerOperationRequestDeleteManyArgs>(args?: Prisma.SelectSubset<T, WorkerOperationRequestDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more WorkerOperationRequests.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WorkerOperationRequestUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many WorkerOperationRequests
+   * const workerOperationRequest = await prisma.workerOperationRequest.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends WorkerOperationRequestUpdateManyArgs>(args: Prisma.SelectSubset<T, WorkerOperationRequestUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more WorkerOperationRequests and returns the data updated in the database.
+   * @param {WorkerOperationRequestUpdateManyAndReturnArgs} args - Arguments to update many WorkerOperationRequests.
+   * @example
+   * // Update many WorkerOperationRequests
+   * const workerOperationRequest = await prisma.workerOperationRequest.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more WorkerOperationRequests and only return the `id`
+   * const workerOperationRequestWithIdOnly = await prisma.workerOperationRequest.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends WorkerOperationRequestUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, WorkerOperationRequestUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WorkerOperationRequestPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one WorkerOperationRequest.
+   * @param {WorkerOperationRequestUpsertArgs} args - Arguments to update or create a WorkerOperationRequest.
+   * @example
+   * // Update or create a WorkerOperationRequest
+   * const workerOperationRequest = await prisma.workerOperationRequest.upsert({
+   *   create: {
+   *     // ... data to create a WorkerOperationRequest
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the WorkerOperationRequest we want to update
+   *   }
+   * })
+   */
+  upsert<T extends WorkerOperationRequestUpsertArgs>(args: Prisma.SelectSubset<T, WorkerOperationRequestUpsertArgs<ExtArgs>>): Prisma.Prisma__WorkerOperationRequestClient<runtime.Types.Result.GetResult<Prisma.$WorkerOperationRequestPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of WorkerOperationRequests.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WorkerOperationRequestCountArgs} args - Arguments to filter WorkerOperationRequests to count.
+   * @example
+   * // Count the number of WorkerOperationRequests
+   * const count = await prisma.workerOperationRequest.count({
+   *   where: {
+   *     // ... the filter for the WorkerOperationRequests we want to count
+   *   }
+   * })
+  **/
+  count<T extends WorkerOperationRequestCountArgs>(
+    args?: Prisma.Subset<T, WorkerOperationRequestCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], WorkerOperationRequestCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a WorkerOperationRequest.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WorkerOperationRequestAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends WorkerOperationRequestAggregateArgs>(args: Prisma.Subset<T, WorkerOperationRequestAggregateArgs>): Prisma.PrismaPromise<GetWorkerOperationRequestAggregateType<T>>
+
+  /**
+   * Group by WorkerOperationRequest.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WorkerOperationRequestGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends WorkerOperationRequestGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: WorkerOperationRequestGroupByArgs['orderBy'] }
+      : { orderBy?: WorkerOperationRequestGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, WorkerOperationRequestGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetWorkerOperationRequestGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the WorkerOperationRequest model
+ */
+readonly fields: WorkerOperationRequestFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for WorkerOperationRequest.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__WorkerOperationRequestClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  worker<T extends Prisma.WorkerDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.WorkerDefaultArgs<ExtArgs>>): Prisma.Prisma__WorkerClient<runtime.Types.Result.GetResult<Prisma.$WorkerPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the WorkerOperationRequest model
+ */
+export interface WorkerOperationRequestFieldRefs {
+  readonly id: Prisma.FieldRef<"WorkerOperationRequest", 'String'>
+  readonly workerId: Prisma.FieldRef<"WorkerOperationRequest", 'String'>
+  readonly createdAt: Prisma.FieldRef<"WorkerOperationRequest", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * WorkerOperationRequest findUnique
+ */
+export type WorkerOperationRequestFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkerOperationRequest
+   */
+  select?: Prisma.WorkerOperationRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkerOperationRequest
+   */
+  omit?: Prisma.WorkerOperationRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkerOperationRequestInclude<ExtArgs> | null
+  /**
+   * Filter, which WorkerOperationRequest to fetch.
+   */
+  where: Prisma.WorkerOperationRequestWhereUniqueInput
+}
+
+/**
+ * WorkerOperationRequest findUniqueOrThrow
+ */
+export type WorkerOperationRequestFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkerOperationRequest
+   */
+  select?: Prisma.WorkerOperationRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkerOperationRequest
+   */
+  omit?: Prisma.WorkerOperationRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkerOperationRequestInclude<ExtArgs> | null
+  /**
+   * Filter, which WorkerOperationRequest to fetch.
+   */
+  where: Prisma.WorkerOperationRequestWhereUniqueInput
+}
+
+/**
+ * WorkerOperationRequest findFirst
+ */
+export type WorkerOperationRequestFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkerOperationRequest
+   */
+  select?: Prisma.WorkerOperationRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkerOperationRequest
+   */
+  omit?: Prisma.WorkerOperationRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkerOperationRequestInclude<ExtArgs> | null
+  /**
+   * Filter, which WorkerOperationRequest to fetch.
+   */
+  where?: Prisma.WorkerOperationRequestWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of WorkerOperationRequests to fetch.
+   */
+  orderBy?: Prisma.WorkerOperationRequestOrderByWithRelationInput | Prisma.WorkerOperationRequestOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for WorkerOperationRequests.
+   */
+  cursor?: Prisma.WorkerOperationRequestWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` WorkerOperationRequests from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` WorkerOperationRequests.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of WorkerOperationRequests.
+   */
+  distinct?: Prisma.WorkerOperationRequestScalarFieldEnum | Prisma.WorkerOperationRequestScalarFieldEnum[]
+}
+
+/**
+ * WorkerOperationRequest findFirstOrThrow
+ */
+export type WorkerOperationRequestFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkerOperationRequest
+   */
+  select?: Prisma.WorkerOperationRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkerOperationRequest
+   */
+  omit?: Prisma.WorkerOperationRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkerOperationRequestInclude<ExtArgs> | null
+  /**
+   * Filter, which WorkerOperationRequest to fetch.
+   */
+  where?: Prisma.WorkerOperationRequestWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of WorkerOperationRequests to fetch.
+   */
+  orderBy?: Prisma.WorkerOperationRequestOrderByWithRelationInput | Prisma.WorkerOperationRequestOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for WorkerOperationRequests.
+   */
+  cursor?: Prisma.WorkerOperationRequestWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` WorkerOperationRequests from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` WorkerOperationRequests.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of WorkerOperationRequests.
+   */
+  distinct?: Prisma.WorkerOperationRequestScalarFieldEnum | Prisma.WorkerOperationRequestScalarFieldEnum[]
+}
+
+/**
+ * WorkerOperationRequest findMany
+ */
+export type WorkerOperationRequestFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkerOperationRequest
+   */
+  select?: Prisma.WorkerOperationRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkerOperationRequest
+   */
+  omit?: Prisma.WorkerOperationRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkerOperationRequestInclude<ExtArgs> | null
+  /**
+   * Filter, which WorkerOperationRequests to fetch.
+   */
+  where?: Prisma.WorkerOperationRequestWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of WorkerOperationRequests to fetch.
+   */
+  orderBy?: Prisma.WorkerOperationRequestOrderByWithRelationInput | Prisma.WorkerOperationRequestOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing WorkerOperationRequests.
+   */
+  cursor?: Prisma.WorkerOperationRequestWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` WorkerOperationRequests from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` WorkerOperationRequests.
+   */
+  skip?: number
+  distinct?: Prisma.WorkerOperationRequestScalarFieldEnum | Prisma.WorkerOperationRequestScalarFieldEnum[]
+}
+
+/**
+ * WorkerOperationRequest create
+ */
+export type WorkerOperationRequestCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkerOperationRequest
+   */
+  select?: Prisma.WorkerOperationRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkerOperationRequest
+   */
+  omit?: Prisma.WorkerOperationRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkerOperationRequestInclude<ExtArgs> | null
+  /**
+   * The data needed to create a WorkerOperationRequest.
+   */
+  data: Prisma.XOR<Prisma.WorkerOperationRequestCreateInput, Prisma.WorkerOperationRequestUncheckedCreateInput>
+}
+
+/**
+ * WorkerOperationRequest createMany
+ */
+export type WorkerOperationRequestCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many WorkerOperationRequests.
+   */
+  data: Prisma.WorkerOperationRequestCreateManyInput | Prisma.WorkerOperationRequestCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * WorkerOperationRequest createManyAndReturn
+ */
+export type WorkerOperationRequestCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkerOperationRequest
+   */
+  select?: Prisma.WorkerOperationRequestSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkerOperationRequest
+   */
+  omit?: Prisma.WorkerOperationRequestOmit<ExtArgs> | null
+  /**
+   * The data used to create many WorkerOperationRequests.
+   */
+  data: Prisma.WorkerOperationRequestCreateManyInput | Prisma.WorkerOperationRequestCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkerOperationRequestIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * WorkerOperationRequest update
+ */
+export type WorkerOperationRequestUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkerOperationRequest
+   */
+  select?: Prisma.WorkerOperationRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkerOperationRequest
+   */
+  omit?: Prisma.WorkerOperationRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkerOperationRequestInclude<ExtArgs> | null
+  /**
+   * The data needed to update a WorkerOperationRequest.
+   */
+  data: Prisma.XOR<Prisma.WorkerOperationRequestUpdateInput, Prisma.WorkerOperationRequestUncheckedUpdateInput>
+  /**
+   * Choose, which WorkerOperationRequest to update.
+   */
+  where: Prisma.WorkerOperationRequestWhereUniqueInput
+}
+
+/**
+ * WorkerOperationRequest updateMany
+ */
+export type WorkerOperationRequestUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update WorkerOperationRequests.
+   */
+  data: Prisma.XOR<Prisma.WorkerOperationRequestUpdateManyMutationInput, Prisma.WorkerOperationRequestUncheckedUpdateManyInput>
+  /**
+   * Filter which WorkerOperationRequests to update
+   */
+  where?: Prisma.WorkerOperationRequestWhereInput
+  /**
+   * Limit how many WorkerOperationRequests to update.
+   */
+  limit?: number
+}
+
+/**
+ * WorkerOperationRequest updateManyAndReturn
+ */
+export type WorkerOperationRequestUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkerOperationRequest
+   */
+  select?: Prisma.WorkerOperationRequestSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkerOperationRequest
+   */
+  omit?: Prisma.WorkerOperationRequestOmit<ExtArgs> | null
+  /**
+   * The data used to update WorkerOperationRequests.
+   */
+  data: Prisma.XOR<Prisma.WorkerOperationRequestUpdateManyMutationInput, Prisma.WorkerOperationRequestUncheckedUpdateManyInput>
+  /**
+   * Filter which WorkerOperationRequests to update
+   */
+  where?: Prisma.WorkerOperationRequestWhereInput
+  /**
+   * Limit how many WorkerOperationRequests to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkerOperationRequestIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * WorkerOperationRequest upsert
+ */
+export type WorkerOperationRequestUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkerOperationRequest
+   */
+  select?: Prisma.WorkerOperationRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkerOperationRequest
+   */
+  omit?: Prisma.WorkerOperationRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkerOperationRequestInclude<ExtArgs> | null
+  /**
+   * The filter to search for the WorkerOperationRequest to update in case it exists.
+   */
+  where: Prisma.WorkerOperationRequestWhereUniqueInput
+  /**
+   * In case the WorkerOperationRequest found by the `where` argument doesn't exist, create a new WorkerOperationRequest with this data.
+   */
+  create: Prisma.XOR<Prisma.WorkerOperationRequestCreateInput, Prisma.WorkerOperationRequestUncheckedCreateInput>
+  /**
+   * In case the WorkerOperationRequest was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.WorkerOperationRequestUpdateInput, Prisma.WorkerOperationRequestUncheckedUpdateInput>
+}
+
+/**
+ * WorkerOperationRequest delete
+ */
+export type WorkerOperationRequestDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkerOperationRequest
+   */
+  select?: Prisma.WorkerOperationRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkerOperationRequest
+   */
+  omit?: Prisma.WorkerOperationRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkerOperationRequestInclude<ExtArgs> | null
+  /**
+   * Filter which WorkerOperationRequest to delete.
+   */
+  where: Prisma.WorkerOperationRequestWhereUniqueInput
+}
+
+/**
+ * WorkerOperationRequest deleteMany
+ */
+export type WorkerOperationRequestDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which WorkerOperationRequests to delete
+   */
+  where?: Prisma.WorkerOperationRequestWhereInput
+  /**
+   * Limit how many WorkerOperationRequests to delete.
+   */
+  limit?: number
+}
+
+/**
+ * WorkerOperationRequest without action
+ */
+export type WorkerOperationRequestDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkerOperationRequest
+   */
+  select?: Prisma.WorkerOperationRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkerOperationRequest
+   */
+  omit?: Prisma.WorkerOperationRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkerOperationRequestInclude<ExtArgs> | null
+}
@@ -0,0 +1,125 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+* This file exports all enum related types from the schema.
+*
+* 🟢 You can import this file directly.
+*/
+
+export const EntityReferenceKind = {
+  explicit: 'explicit',
+  inclusion: 'inclusion'
+} as const
+
+export type EntityReferenceKind = (typeof EntityReferenceKind)[keyof typeof EntityReferenceKind]
+
+
+export const InstanceEvaluationStatus = {
+  evaluating: 'evaluating',
+  evaluated: 'evaluated',
+  error: 'error'
+} as const
+
+export type InstanceEvaluationStatus = (typeof InstanceEvaluationStatus)[keyof typeof InstanceEvaluationStatus]
+
+
+export const InstanceStatus = {
+  undeployed: 'undeployed',
+  attempted: 'attempted',
+  deployed: 'deployed',
+  failed: 'failed'
+} as const
+
+export type InstanceStatus = (typeof InstanceStatus)[keyof typeof InstanceStatus]
+
+
+export const InstanceSource = {
+  resident: 'resident',
+  virtual: 'virtual'
+} as const
+
+export type InstanceSource = (typeof InstanceSource)[keyof typeof InstanceSource]
+
+
+export const OperationStatus = {
+  pending: 'pending',
+  awaiting_approval: 'awaiting_approval',
+  running: 'running',
+  failing: 'failing',
+  cancelling: 'cancelling',
+  completed: 'completed',
+  failed: 'failed',
+  cancelled: 'cancelled'
+} as const
+
+export type OperationStatus = (typeof OperationStatus)[keyof typeof OperationStatus]
+
+
+export const OperationType = {
+  update: 'update',
+  preview: 'preview',
+  destroy: 'destroy',
+  recreate: 'recreate',
+  refresh: 'refresh'
+} as const
+
+export type OperationType = (typeof OperationType)[keyof typeof OperationType]
+
+
+export const InstanceOperationStatus = {
+  updating: 'updating',
+  processing_triggers: 'processing_triggers',
+  previewing: 'previewing',
+  destroying: 'destroying',
+  refreshing: 'refreshing',
+  pending: 'pending',
+  cancelling: 'cancelling',
+  updated: 'updated',
+  previewed: 'previewed',
+  skipped: 'skipped',
+  destroyed: 'destroyed',
+  refreshed: 'refreshed',
+  cancelled: 'cancelled',
+  failed: 'failed'
+} as const
+
+export type InstanceOperationStatus = (typeof InstanceOperationStatus)[keyof typeof InstanceOperationStatus]
+
+
+export const OperationApprovalDecision = {
+  approved: 'approved',
+  rejected: 'rejected'
+} as const
+
+export type OperationApprovalDecision = (typeof OperationApprovalDecision)[keyof typeof OperationApprovalDecision]
+
+
+export const TerminalStatus = {
+  active: 'active',
+  unavailable: 'unavailable'
+} as const
+
+export type TerminalStatus = (typeof TerminalStatus)[keyof typeof TerminalStatus]
+
+
+export const UnlockMethodType = {
+  password: 'password',
+  passkey: 'passkey'
+} as const
+
+export type UnlockMethodType = (typeof UnlockMethodType)[keyof typeof UnlockMethodType]
+
+
+export const WorkerVersionStatus = {
+  unknown: 'unknown',
+  starting: 'starting',
+  running: 'running',
+  stopping: 'stopping',
+  stopped: 'stopped',
+  error: 'error'
+} as const
+
+export type WorkerVersionStatus = (typeof WorkerVersionStatus)[keyof typeof WorkerVersionStatus]
@@ -399,17 +399,21 @@ export const ModelName = {
   InstanceModel: 'InstanceModel',
   HubModel: 'HubModel',
   Operation: 'Operation',
+  OperationApproval: 'OperationApproval',
   InstanceOperationState: 'InstanceOperationState',
   OperationLog: 'OperationLog',
   Page: 'Page',
   Secret: 'Secret',
+  SecretVersion: 'SecretVersion',
   ServiceAccount: 'ServiceAccount',
+  ServiceAccountGrant: 'ServiceAccountGrant',
   Terminal: 'Terminal',
   TerminalSession: 'TerminalSession',
   TerminalSessionLog: 'TerminalSessionLog',
   Trigger: 'Trigger',
   UnlockMethod: 'UnlockMethod',
   Worker: 'Worker',
+  WorkerOperationRequest: 'WorkerOperationRequest',
   WorkerVersion: 'WorkerVersion',
   WorkerUnitRegistration: 'WorkerUnitRegistration',
   WorkerVersionLog: 'WorkerVersionLog'
@@ -428,7 +432,7 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
     omit: GlobalOmitOptions
   }
   meta: {
-    modelProps: "apiKey" | "artifact" | "instanceCustomStatus" | "entity" | "entitySnapshot" | "entitySnapshotReference" | "entitySnapshotContent" | "instanceEvaluationState" | "instanceState" | "userProjectViewport" | "userCompositeViewport" | "instanceLock" | "instanceModel" | "hubModel" | "operation" | "instanceOperationState" | "operationLog" | "page" | "secret" | "serviceAccount" | "terminal" | "terminalSession" | "terminalSessionLog" | "trigger" | "unlockMethod" | "worker" | "workerVersion" | "workerUnitRegistration" | "workerVersionLog"
+    modelProps: "apiKey" | "artifact" | "instanceCustomStatus" | "entity" | "entitySnapshot" | "entitySnapshotReference" | "entitySnapshotContent" | "instanceEvaluationState" | "instanceState" | "userProjectViewport" | "userCompositeViewport" | "instanceLock" | "instanceModel" | "hubModel" | "operation" | "operationApproval" | "instanceOperationState" | "operationLog" | "page" | "secret" | "secretVersion" | "serviceAccount" | "serviceAccountGrant" | "terminal" | "terminalSession" | "terminalSessionLog" | "trigger" | "unlockMethod" | "worker" | "workerOperationRequest" | "workerVersion" | "workerUnitRegistration" | "workerVersionLog"
     txIsolationLevel: TransactionIsolationLevel
   }
   model: {
@@ -1542,6 +1546,80 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
         }
       }
     }
+    OperationApproval: {
+      payload: Prisma.$OperationApprovalPayload<ExtArgs>
+      fields: Prisma.OperationApprovalFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.OperationApprovalFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OperationApprovalPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.OperationApprovalFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OperationApprovalPayload>
+        }
+        findFirst: {
+          args: Prisma.OperationApprovalFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OperationApprovalPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.OperationApprovalFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OperationApprovalPayload>
+        }
+        findMany: {
+          args: Prisma.OperationApprovalFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OperationApprovalPayload>[]
+        }
+        create: {
+          args: Prisma.OperationApprovalCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OperationApprovalPayload>
+        }
+        createMany: {
+          args: Prisma.OperationApprovalCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.OperationApprovalCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OperationApprovalPayload>[]
+        }
+        delete: {
+          args: Prisma.OperationApprovalDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OperationApprovalPayload>
+        }
+        update: {
+          args: Prisma.OperationApprovalUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OperationApprovalPayload>
+        }
+        deleteMany: {
+          args: Prisma.OperationApprovalDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.OperationApprovalUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.OperationApprovalUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OperationApprovalPayload>[]
+        }
+        upsert: {
+          args: Prisma.OperationApprovalUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$OperationApprovalPayload>
+        }
+        aggregate: {
+          args: Prisma.OperationApprovalAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateOperationApproval>
+        }
+        groupBy: {
+          args: Prisma.OperationApprovalGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.OperationApprovalGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.OperationApprovalCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.OperationApprovalCountAggregateOutputType> | number
+        }
+      }
+    }
     InstanceOperationState: {
       payload: Prisma.$InstanceOperationStatePayload<ExtArgs>
       fields: Prisma.InstanceOperationStateFieldRefs
@@ -1838,6 +1916,80 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
         }
       }
     }
+    SecretVersion: {
+      payload: Prisma.$SecretVersionPayload<ExtArgs>
+      fields: Prisma.SecretVersionFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.SecretVersionFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SecretVersionPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.SecretVersionFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SecretVersionPayload>
+        }
+        findFirst: {
+          args: Prisma.SecretVersionFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SecretVersionPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.SecretVersionFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SecretVersionPayload>
+        }
+        findMany: {
+          args: Prisma.SecretVersionFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SecretVersionPayload>[]
+        }
+        create: {
+          args: Prisma.SecretVersionCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SecretVersionPayload>
+        }
+        createMany: {
+          args: Prisma.SecretVersionCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.SecretVersionCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SecretVersionPayload>[]
+        }
+        delete: {
+          args: Prisma.SecretVersionDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SecretVersionPayload>
+        }
+        update: {
+          args: Prisma.SecretVersionUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SecretVersionPayload>
+        }
+        deleteMany: {
+          args: Prisma.SecretVersionDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.SecretVersionUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.SecretVersionUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SecretVersionPayload>[]
+        }
+        upsert: {
+          args: Prisma.SecretVersionUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SecretVersionPayload>
+        }
+        aggregate: {
+          args: Prisma.SecretVersionAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateSecretVersion>
+        }
+        groupBy: {
+          args: Prisma.SecretVersionGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.SecretVersionGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.SecretVersionCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.SecretVersionCountAggregateOutputType> | number
+        }
+      }
+    }
     ServiceAccount: {
       payload: Prisma.$ServiceAccountPayload<ExtArgs>
       fields: Prisma.ServiceAccountFieldRefs
@@ -1912,6 +2064,80 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
         }
       }
     }
+    ServiceAccountGrant: {
+      payload: Prisma.$ServiceAccountGrantPayload<ExtArgs>
+      fields: Prisma.ServiceAccountGrantFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ServiceAccountGrantFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ServiceAccountGrantPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ServiceAccountGrantFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ServiceAccountGrantPayload>
+        }
+        findFirst: {
+          args: Prisma.ServiceAccountGrantFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ServiceAccountGrantPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ServiceAccountGrantFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ServiceAccountGrantPayload>
+        }
+        findMany: {
+          args: Prisma.ServiceAccountGrantFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ServiceAccountGrantPayload>[]
+        }
+        create: {
+          args: Prisma.ServiceAccountGrantCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ServiceAccountGrantPayload>
+        }
+        createMany: {
+          args: Prisma.ServiceAccountGrantCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ServiceAccountGrantCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ServiceAccountGrantPayload>[]
+        }
+        delete: {
+          args: Prisma.ServiceAccountGrantDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ServiceAccountGrantPayload>
+        }
+        update: {
+          args: Prisma.ServiceAccountGrantUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ServiceAccountGrantPayload>
+        }
+        deleteMany: {
+          args: Prisma.ServiceAccountGrantDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.ServiceAccountGrantUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.ServiceAccountGrantUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ServiceAccountGrantPayload>[]
+        }
+        upsert: {
+          args: Prisma.ServiceAccountGrantUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ServiceAccountGrantPayload>
+        }
+        aggregate: {
+          args: Prisma.ServiceAccountGrantAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateServiceAccountGrant>
+        }
+        groupBy: {
+          args: Prisma.ServiceAccountGrantGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ServiceAccountGrantGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.ServiceAccountGrantCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ServiceAccountGrantCountAggregateOutputType> | number
+        }
+      }
+    }
     Terminal: {
       payload: Prisma.$TerminalPayload<ExtArgs>
       fields: Prisma.TerminalFieldRefs
@@ -2356,6 +2582,80 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
         }
       }
     }
+    WorkerOperationRequest: {
+      payload: Prisma.$WorkerOperationRequestPayload<ExtArgs>
+      fields: Prisma.WorkerOperationRequestFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.WorkerOperationRequestFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkerOperationRequestPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.WorkerOperationRequestFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkerOperationRequestPayload>
+        }
+        findFirst: {
+          args: Prisma.WorkerOperationRequestFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkerOperationRequestPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.WorkerOperationRequestFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkerOperationRequestPayload>
+        }
+        findMany: {
+          args: Prisma.WorkerOperationRequestFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkerOperationRequestPayload>[]
+        }
+        create: {
+          args: Prisma.WorkerOperationRequestCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkerOperationRequestPayload>
+        }
+        createMany: {
+          args: Prisma.WorkerOperationRequestCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.WorkerOperationRequestCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkerOperationRequestPayload>[]
+        }
+        delete: {
+          args: Prisma.WorkerOperationRequestDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkerOperationRequestPayload>
+        }
+        update: {
+          args: Prisma.WorkerOperationRequestUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkerOperationRequestPayload>
+        }
+        deleteMany: {
+          args: Prisma.WorkerOperationRequestDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.WorkerOperationRequestUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.WorkerOperationRequestUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkerOperationRequestPayload>[]
+        }
+        upsert: {
+          args: Prisma.WorkerOperationRequestUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WorkerOperationRequestPayload>
+        }
+        aggregate: {
+          args: Prisma.WorkerOperationRequestAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateWorkerOperationRequest>
+        }
+        groupBy: {
+          args: Prisma.WorkerOperationRequestGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.WorkerOperationRequestGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.WorkerOperationRequestCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.WorkerOperationRequestCountAggregateOutputType> | number
+        }
+      }
+    }
     WorkerVersion: {
       payload: Prisma.$WorkerVersionPayload<ExtArgs>
       fields: Prisma.WorkerVersionFieldRefs
@@ -2724,7 +3024,9 @@ export const InstanceStateScalarFieldEnum = {
   resolvedInputs: 'resolvedInputs',
   currentResourceCount: 'currentResourceCount',
   statusFields: 'statusFields',
-  hasResourceHooks: 'hasResourceHooks'
+  hasResourceHooks: 'hasResourceHooks',
+  lastEditedBy: 'lastEditedBy',
+  lastEditedAt: 'lastEditedAt'
 } as const
 
 export type InstanceStateScalarFieldEnum = (typeof InstanceStateScalarFieldEnum)[keyof typeof InstanceStateScalarFieldEnum]
@@ -2751,6 +3053,7 @@ export const InstanceLockScalarFieldEnum = {
   stateId: 'stateId',
   meta: 'meta',
   token: 'token',
+  holderId: 'holderId',
   acquiredAt: 'acquiredAt'
 } as const
 
@@ -2785,6 +3088,9 @@ export const OperationScalarFieldEnum = {
   options: 'options',
   requestedInstanceIds: 'requestedInstanceIds',
   phases: 'phases',
+  retriedOperationId: 'retriedOperationId',
+  approvalRequest: 'approvalRequest',
+  holderId: 'holderId',
   startedAt: 'startedAt',
   updatedAt: 'updatedAt',
   finishedAt: 'finishedAt'
@@ -2793,14 +3099,28 @@ export const OperationScalarFieldEnum = {
 export type OperationScalarFieldEnum = (typeof OperationScalarFieldEnum)[keyof typeof OperationScalarFieldEnum]
 
 
+export const OperationApprovalScalarFieldEnum = {
+  id: 'id',
+  operationId: 'operationId',
+  userId: 'userId',
+  decision: 'decision',
+  comment: 'comment',
+  createdAt: 'createdAt'
+} as const
+
+export type OperationApprovalScalarFieldEnum = (typeof OperationApprovalScalarFieldEnum)[keyof typeof OperationApprovalScalarFieldEnum]
+
+
 export const InstanceOperationStateScalarFieldEnum = {
   operationId: 'operationId',
   stateId: 'stateId',
   status: 'status',
   currentResourceCount: 'currentResourceCount',
   totalResourceCount: 'totalResourceCount',
+  resourceChanges: 'resourceChanges',
   model: 'model',
   resolvedInputs: 'resolvedInputs',
+  secrets: 'secrets',
   startedAt: 'startedAt',
   finishedAt: 'finishedAt'
 } as const
@@ -2842,15 +3162,27 @@ export const SecretScalarFieldEnum = {
   serviceAccountId: 'serviceAccountId',
   content: 'content',
   createdAt: 'createdAt',
-  updatedAt: 'updatedAt'
+  updatedAt: 'updatedAt',
+  updatedBy: 'updatedBy'
 } as const
 
 export type SecretScalarFieldEnum = (typeof SecretScalarFieldEnum)[keyof typeof SecretScalarFieldEnum]
 
 
+export const SecretVersionScalarFieldEnum = {
+  id: 'id',
+  secretId: 'secretId',
+  content: 'content',
+  createdAt: 'createdAt'
+} as const
+
+export type SecretVersionScalarFieldEnum = (typeof SecretVersionScalarFieldEnum)[keyof typeof SecretVersionScalarFieldEnum]
+
+
 export const ServiceAccountScalarFieldEnum = {
   id: 'id',
   meta: 'meta',
+  canRequestOperations: 'canRequestOperations',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 } as const
@@ -2858,6 +3190,17 @@ export const ServiceAccountScalarFieldEnum = {
 export type ServiceAccountScalarFieldEnum = (typeof ServiceAccountScalarFieldEnum)[keyof typeof ServiceAccountScalarFieldEnum]
 
 
+export const ServiceAccountGrantScalarFieldEnum = {
+  id: 'id',
+  serviceAccountId: 'serviceAccountId',
+  stateId: 'stateId',
+  secretId: 'secretId',
+  createdAt: 'createdAt'
+} as const
+
+export type ServiceAccountGrantScalarFieldEnum = (typeof ServiceAccountGrantScalarFieldEnum)[keyof typeof ServiceAccountGrantScalarFieldEnum]
+
+
 export const TerminalScalarFieldEnum = {
   id: 'id',
   meta: 'meta',
@@ -2898,6 +3241,8 @@ export const TriggerScalarFieldEnum = {
   stateId: 'stateId',
   name: 'name',
   spec: 'spec',
+  lastRunAt: 'lastRunAt',
+  nextRunAt: 'nextRunAt',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 } as const
@@ -2928,6 +3273,15 @@ export const WorkerScalarFieldEnum = {
 export type WorkerScalarFieldEnum = (typeof WorkerScalarFieldEnum)[keyof typeof WorkerScalarFieldEnum]
 
 
+export const WorkerOperationRequestScalarFieldEnum = {
+  id: 'id',
+  workerId: 'workerId',
+  createdAt: 'createdAt'
+} as const
+
+export type WorkerOperationRequestScalarFieldEnum = (typeof WorkerOperationRequestScalarFieldEnum)[keyof typeof WorkerOperationRequestScalarFieldEnum]
+
+
 export const WorkerVersionScalarFieldEnum = {
   id: 'id',
   meta: 'meta',
@@ -3104,6 +3458,13 @@ export type EnumOperationStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$
     
 
 
+/**
+ * Reference to a field of type 'OperationApprovalDecision'
+ */
+export type EnumOperationApprovalDecisionFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'OperationApprovalDecision'>
+    
+
+
 /**
  * Reference to a field of type 'InstanceOperationStatus'
  */
@@ -3248,17 +3609,21 @@ export type GlobalOmitConfig = {
   instanceModel?: Prisma.InstanceModelOmit
   hubModel?: Prisma.HubModelOmit
   operation?: Prisma.OperationOmit
+  operationApproval?: Prisma.OperationApprovalOmit
   instanceOperationState?: Prisma.InstanceOperationStateOmit
   operationLog?: Prisma.OperationLogOmit
   page?: Prisma.PageOmit
   secret?: Prisma.SecretOmit
+  secretVersion?: Prisma.SecretVersionOmit
   serviceAccount?: Prisma.ServiceAccountOmit
+  serviceAccountGrant?: Prisma.ServiceAccountGrantOmit
   terminal?: Prisma.TerminalOmit
   terminalSession?: Prisma.TerminalSessionOmit
   terminalSessionLog?: Prisma.TerminalSessionLogOmit
   trigger?: Prisma.TriggerOmit
   unlockMethod?: Prisma.UnlockMethodOmit
   worker?: Prisma.WorkerOmit
+  workerOperationRequest?: Prisma.WorkerOperationRequestOmit
   workerVersion?: Prisma.WorkerVersionOmit
   workerUnitRegistration?: Prisma.WorkerUnitRegistrationOmit
   workerVersionLog?: Prisma.WorkerVersionLogOmit
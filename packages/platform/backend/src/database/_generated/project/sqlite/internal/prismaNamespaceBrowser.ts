@@ -66,17 +66,21 @@ export const ModelName = {
   InstanceModel: 'InstanceModel',
   HubModel: 'HubModel',
   Operation: 'Operation',
+  OperationApproval: 'OperationApproval',
   InstanceOperationState: 'InstanceOperationState',
   OperationLog: 'OperationLog',
   Page: 'Page',
   Secret: 'Secret',
+  SecretVersion: 'SecretVersion',
   ServiceAccount: 'ServiceAccount',
+  ServiceAccountGrant: 'ServiceAccountGrant',
   Terminal: 'Terminal',
   TerminalSession: 'TerminalSession',
   TerminalSessionLog: 'TerminalSessionLog',
   Trigger: 'Trigger',
   UnlockMethod: 'UnlockMethod',
   Worker: 'Worker',
+  WorkerOperationRequest: 'WorkerOperationRequest',
   WorkerVersion: 'WorkerVersion',
   WorkerUnitRegistration: 'WorkerUnitRegistration',
   WorkerVersionLog: 'WorkerVersionLog'
@@ -205,7 +209,9 @@ export const InstanceStateScalarFieldEnum = {
   resolvedInputs: 'resolvedInputs',
   currentResourceCount: 'currentResourceCount',
   statusFields: 'statusFields',
-  hasResourceHooks: 'hasResourceHooks'
+  hasResourceHooks: 'hasResourceHooks',
+  lastEditedBy: 'lastEditedBy',
+  lastEditedAt: 'lastEditedAt'
 } as const
 
 export type InstanceStateScalarFieldEnum = (typeof InstanceStateScalarFieldEnum)[keyof typeof InstanceStateScalarFieldEnum]
@@ -232,6 +238,7 @@ export const InstanceLockScalarFieldEnum = {
   stateId: 'stateId',
   meta: 'meta',
   token: 'token',
+  holderId: 'holderId',
   acquiredAt: 'acquiredAt'
 } as const
 
@@ -266,6 +273,9 @@ export const OperationScalarFieldEnum = {
   options: 'options',
   requestedInstanceIds: 'requestedInstanceIds',
   phases: 'phases',
+  retriedOperationId: 'retriedOperationId',
+  approvalRequest: 'approvalRequest',
+  holderId: 'holderId',
   startedAt: 'startedAt',
   updatedAt: 'updatedAt',
   finishedAt: 'finishedAt'
@@ -274,14 +284,28 @@ export const OperationScalarFieldEnum = {
 export type OperationScalarFieldEnum = (typeof OperationScalarFieldEnum)[keyof typeof OperationScalarFieldEnum]
 
 
+export const OperationApprovalScalarFieldEnum = {
+  id: 'id',
+  operationId: 'operationId',
+  userId: 'userId',
+  decision: 'decision',
+  comment: 'comment',
+  createdAt: 'createdAt'
+} as const
+
+export type OperationApprovalScalarFieldEnum = (typeof OperationApprovalScalarFieldEnum)[keyof typeof OperationApprovalScalarFieldEnum]
+
+
 export const InstanceOperationStateScalarFieldEnum = {
   operationId: 'operationId',
   stateId: 'stateId',
   status: 'status',
   currentResourceCount: 'currentResourceCount',
   totalResourceCount: 'totalResourceCount',
+  resourceChanges: 'resourceChanges',
   model: 'model',
   resolvedInputs: 'resolvedInputs',
+  secrets: 'secrets',
   startedAt: 'startedAt',
   finishedAt: 'finishedAt'
 } as const
@@ -323,15 +347,27 @@ export const SecretScalarFieldEnum = {
   serviceAccountId: 'serviceAccountId',
   content: 'content',
   createdAt: 'createdAt',
-  updatedAt: 'updatedAt'
+  updatedAt: 'updatedAt',
+  updatedBy: 'updatedBy'
 } as const
 
 export type SecretScalarFieldEnum = (typeof SecretScalarFieldEnum)[keyof typeof SecretScalarFieldEnum]
 
 
+export const SecretVersionScalarFieldEnum = {
+  id: 'id',
+  secretId: 'secretId',
+  content: 'content',
+  createdAt: 'createdAt'
+} as const
+
+export type SecretVersionScalarFieldEnum = (typeof SecretVersionScalarFieldEnum)[keyof typeof SecretVersionScalarFieldEnum]
+
+
 export const ServiceAccountScalarFieldEnum = {
   id: 'id',
   meta: 'meta',
+  canRequestOperations: 'canRequestOperations',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 } as const
@@ -339,6 +375,17 @@ export const ServiceAccountScalarFieldEnum = {
 export type ServiceAccountScalarFieldEnum = (typeof ServiceAccountScalarFieldEnum)[keyof typeof ServiceAccountScalarFieldEnum]
 
 
+export const ServiceAccountGrantScalarFieldEnum = {
+  id: 'id',
+  serviceAccountId: 'serviceAccountId',
+  stateId: 'stateId',
+  secretId: 'secretId',
+  createdAt: 'createdAt'
+} as const
+
+export type ServiceAccountGrantScalarFieldEnum = (typeof ServiceAccountGrantScalarFieldEnum)[keyof typeof ServiceAccountGrantScalarFieldEnum]
+
+
 export const TerminalScalarFieldEnum = {
   id: 'id',
   meta: 'meta',
@@ -379,6 +426,8 @@ export const TriggerScalarFieldEnum = {
   stateId: 'stateId',
   name: 'name',
   spec: 'spec',
+  lastRunAt: 'lastRunAt',
+  nextRunAt: 'nextRunAt',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 } as const
@@ -409,6 +458,15 @@ export const WorkerScalarFieldEnum = {
 export type WorkerScalarFieldEnum = (typeof WorkerScalarFieldEnum)[keyof typeof WorkerScalarFieldEnum]
 
 
+export const WorkerOperationRequestScalarFieldEnum = {
+  id: 'id',
+  workerId: 'workerId',
+  createdAt: 'createdAt'
+} as const
+
+export type WorkerOperationRequestScalarFieldEnum = (typeof WorkerOperationRequestScalarFieldEnum)[keyof typeof WorkerOperationRequestScalarFieldEnum]
+
+
 export const WorkerVersionScalarFieldEnum = {
   id: 'id',
   meta: 'meta',
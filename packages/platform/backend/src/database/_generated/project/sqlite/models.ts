@@ -0,0 +1,44 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This is a barrel export file for all models and their related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+export type * from './models/ApiKey.ts'
+export type * from './models/Artifact.ts'
+export type * from './models/InstanceCustomStatus.ts'
+export type * from './models/Entity.ts'
+export type * from './models/EntitySnapshot.ts'
+export type * from './models/EntitySnapshotReference.ts'
+export type * from './models/EntitySnapshotContent.ts'
+export type * from './models/InstanceEvaluationState.ts'
+export type * from './models/InstanceState.ts'
+export type * from './models/UserProjectViewport.ts'
+export type * from './models/UserCompositeViewport.ts'
+export type * from './models/InstanceLock.ts'
+export type * from './models/InstanceModel.ts'
+export type * from './models/HubModel.ts'
+export type * from './models/Operation.ts'
+export type * from './models/OperationApproval.ts'
+export type * from './models/InstanceOperationState.ts'
+export type * from './models/OperationLog.ts'
+export type * from './models/Page.ts'
+export type * from './models/Secret.ts'
+export type * from './models/SecretVersion.ts'
+export type * from './models/ServiceAccount.ts'
+export type * from './models/ServiceAccountGrant.ts'
+export type * from './models/Terminal.ts'
+export type * from './models/TerminalSession.ts'
+export type * from './models/TerminalSessionLog.ts'
+export type * from './models/Trigger.ts'
+export type * from './models/UnlockMethod.ts'
+export type * from './models/Worker.ts'
+export type * from './models/WorkerOperationRequest.ts'
+export type * from './models/WorkerVersion.ts'
+export type * from './models/WorkerUnitRegistration.ts'
+export type * from './models/WorkerVersionLog.ts'
+export type * from './commonInputTypes.ts'
\ No newline at end of file
@@ -29,12 +29,14 @@ export type AggregateInstanceLock = {
 export type InstanceLockMinAggregateOutputType = {
   stateId: string | null
   token: string | null
+  holderId: string | null
   acquiredAt: Date | null
 }
 
 export type InstanceLockMaxAggregateOutputType = {
   stateId: string | null
   token: string | null
+  holderId: string | null
   acquiredAt: Date | null
 }
 
@@ -42,6 +44,7 @@ export type InstanceLockCountAggregateOutputType = {
   stateId: number
   meta: number
   token: number
+  holderId: number
   acquiredAt: number
   _all: number
 }
@@ -50,12 +53,14 @@ export type InstanceLockCountAggregateOutputType = {
 export type InstanceLockMinAggregateInputType = {
   stateId?: true
   token?: true
+  holderId?: true
   acquiredAt?: true
 }
 
 export type InstanceLockMaxAggregateInputType = {
   stateId?: true
   token?: true
+  holderId?: true
   acquiredAt?: true
 }
 
@@ -63,6 +68,7 @@ export type InstanceLockCountAggregateInputType = {
   stateId?: true
   meta?: true
   token?: true
+  holderId?: true
   acquiredAt?: true
   _all?: true
 }
@@ -143,6 +149,7 @@ export type InstanceLockGroupByOutputType = {
   stateId: string
   meta:PrismaJson.CommonObjectMeta
   token: string
+  holderId: string | null
   acquiredAt: Date
   _count: InstanceLockCountAggregateOutputType | null
   _min: InstanceLockMinAggregateOutputType | null
@@ -171,6 +178,7 @@ export type InstanceLockWhereInput = {
   stateId?: Prisma.StringFilter<"InstanceLock"> | string
   meta?: Prisma.JsonFilter<"InstanceLock">
   token?: Prisma.StringFilter<"InstanceLock"> | string
+  holderId?: Prisma.StringNullableFilter<"InstanceLock"> | string | null
   acquiredAt?: Prisma.DateTimeFilter<"InstanceLock"> | Date | string
   state?: Prisma.XOR<Prisma.InstanceStateScalarRelationFilter, Prisma.InstanceStateWhereInput>
 }
@@ -179,6 +187,7 @@ export type InstanceLockOrderByWithRelationInput = {
   stateId?: Prisma.SortOrder
   meta?: Prisma.SortOrder
   token?: Prisma.SortOrder
+  holderId?: Prisma.SortOrderInput | Prisma.SortOrder
   acquiredAt?: Prisma.SortOrder
   state?: Prisma.InstanceStateOrderByWithRelationInput
 }
@@ -190,6 +199,7 @@ export type InstanceLockWhereUniqueInput = Prisma.AtLeast<{
   NOT?: Prisma.InstanceLockWhereInput | Prisma.InstanceLockWhereInput[]
   meta?: Prisma.JsonFilter<"InstanceLock">
   token?: Prisma.StringFilter<"InstanceLock"> | string
+  holderId?: Prisma.StringNullableFilter<"InstanceLock"> | string | null
   acquiredAt?: Prisma.DateTimeFilter<"InstanceLock"> | Date | string
   state?: Prisma.XOR<Prisma.InstanceStateScalarRelationFilter, Prisma.InstanceStateWhereInput>
 }, "stateId">
@@ -198,6 +208,7 @@ export type InstanceLockOrderByWithAggregationInput = {
   stateId?: Prisma.SortOrder
   meta?: Prisma.SortOrder
   token?: Prisma.SortOrder
+  holderId?: Prisma.SortOrderInput | Prisma.SortOrder
   acquiredAt?: Prisma.SortOrder
   _count?: Prisma.InstanceLockCountOrderByAggregateInput
   _max?: Prisma.InstanceLockMaxOrderByAggregateInput
@@ -211,12 +222,14 @@ export type InstanceLockScalarWhereWithAggregatesInput = {
   stateId?: Prisma.StringWithAggregatesFilter<"InstanceLock"> | string
   meta?: Prisma.JsonWithAggregatesFilter<"InstanceLock">
   token?: Prisma.StringWithAggregatesFilter<"InstanceLock"> | string
+  holderId?: Prisma.StringNullableWithAggregatesFilter<"InstanceLock"> | string | null
   acquiredAt?: Prisma.DateTimeWithAggregatesFilter<"InstanceLock"> | Date | string
 }
 
 export type InstanceLockCreateInput = {
   meta:PrismaJson.CommonObjectMeta
   token: string
+  holderId?: string | null
   acquiredAt?: Date | string
   state: Prisma.InstanceStateCreateNestedOneWithoutLockInput
 }
@@ -225,12 +238,14 @@ export type InstanceLockUncheckedCreateInput = {
   stateId: string
   meta:PrismaJson.CommonObjectMeta
   token: string
+  holderId?: string | null
   acquiredAt?: Date | string
 }
 
 export type InstanceLockUpdateInput = {
   meta?:PrismaJson.CommonObjectMeta
   token?: Prisma.StringFieldUpdateOperationsInput | string
+  holderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   acquiredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   state?: Prisma.InstanceStateUpdateOneRequiredWithoutLockNestedInput
 }
@@ -239,6 +254,7 @@ export type InstanceLockUncheckedUpdateInput = {
   stateId?: Prisma.StringFieldUpdateOperationsInput | string
   meta?:PrismaJson.CommonObjectMeta
   token?: Prisma.StringFieldUpdateOperationsInput | string
+  holderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   acquiredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
@@ -246,12 +262,14 @@ export type InstanceLockCreateManyInput = {
   stateId: string
   meta:PrismaJson.CommonObjectMeta
   token: string
+  holderId?: string | null
   acquiredAt?: Date | string
 }
 
 export type InstanceLockUpdateManyMutationInput = {
   meta?:PrismaJson.CommonObjectMeta
   token?: Prisma.StringFieldUpdateOperationsInput | string
+  holderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   acquiredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
@@ -259,6 +277,7 @@ export type InstanceLockUncheckedUpdateManyInput = {
   stateId?: Prisma.StringFieldUpdateOperationsInput | string
   meta?:PrismaJson.CommonObjectMeta
   token?: Prisma.StringFieldUpdateOperationsInput | string
+  holderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   acquiredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
@@ -271,18 +290,21 @@ export type InstanceLockCountOrderByAggregateInput = {
   stateId?: Prisma.SortOrder
   meta?: Prisma.SortOrder
   token?: Prisma.SortOrder
+  holderId?: Prisma.SortOrder
   acquiredAt?: Prisma.SortOrder
 }
 
 export type InstanceLockMaxOrderByAggregateInput = {
   stateId?: Prisma.SortOrder
   token?: Prisma.SortOrder
+  holderId?: Prisma.SortOrder
   acquiredAt?: Prisma.SortOrder
 }
 
 export type InstanceLockMinOrderByAggregateInput = {
   stateId?: Prisma.SortOrder
   token?: Prisma.SortOrder
+  holderId?: Prisma.SortOrder
   acquiredAt?: Prisma.SortOrder
 }
 
@@ -321,12 +343,14 @@ export type InstanceLockUncheckedUpdateOneWithoutStateNestedInput = {
 export type InstanceLockCreateWithoutStateInput = {
   meta:PrismaJson.CommonObjectMeta
   token: string
+  holderId?: string | null
   acquiredAt?: Date | string
 }
 
 export type InstanceLockUncheckedCreateWithoutStateInput = {
   meta:PrismaJson.CommonObjectMeta
   token: string
+  holderId?: string | null
   acquiredAt?: Date | string
 }
 
@@ -349,12 +373,14 @@ export type InstanceLockUpdateToOneWithWhereWithoutStateInput = {
 export type InstanceLockUpdateWithoutStateInput = {
   meta?:PrismaJson.CommonObjectMeta
   token?: Prisma.StringFieldUpdateOperationsInput | string
+  holderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   acquiredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
 export type InstanceLockUncheckedUpdateWithoutStateInput = {
   meta?:PrismaJson.CommonObjectMeta
   token?: Prisma.StringFieldUpdateOperationsInput | string
+  holderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   acquiredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
@@ -364,6 +390,7 @@ export type InstanceLockSelect<ExtArgs extends runtime.Types.Extensions.Internal
   stateId?: boolean
   meta?: boolean
   token?: boolean
+  holderId?: boolean
   acquiredAt?: boolean
   state?: boolean | Prisma.InstanceStateDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["instanceLock"]>
@@ -372,6 +399,7 @@ export type InstanceLockSelectCreateManyAndReturn<ExtArgs extends runtime.Types.
   stateId?: boolean
   meta?: boolean
   token?: boolean
+  holderId?: boolean
   acquiredAt?: boolean
   state?: boolean | Prisma.InstanceStateDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["instanceLock"]>
@@ -380,6 +408,7 @@ export type InstanceLockSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.
   stateId?: boolean
   meta?: boolean
   token?: boolean
+  holderId?: boolean
   acquiredAt?: boolean
   state?: boolean | Prisma.InstanceStateDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["instanceLock"]>
@@ -388,10 +417,11 @@ export type InstanceLockSelectScalar = {
   stateId?: boolean
   meta?: boolean
   token?: boolean
+  holderId?: boolean
   acquiredAt?: boolean
 }
 
-export type InstanceLockOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"stateId" | "meta" | "token" | "acquiredAt", ExtArgs["result"]["instanceLock"]>
+export type InstanceLockOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"stateId" | "meta" | "token" | "holderId" | "acquiredAt", ExtArgs["result"]["instanceLock"]>
 export type InstanceLockInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   state?: boolean | Prisma.InstanceStateDefaultArgs<ExtArgs>
 }
@@ -425,6 +455,12 @@ export type $InstanceLockPayload<ExtArgs extends runtime.Types.Extensions.Intern
      * The CUIDv2 token to ensure ownership of the lock.
      */
     token: string
+    /**
+     * The ID of the backend runtime holding the lock.
+     * 
+     * The lock is considered stale once the holder is no longer alive.
+     */
+    holderId: string | null
     /**
      * The time when the lock was acquired.
      */
@@ -856,6 +892,7 @@ export interface InstanceLockFieldRefs {
   readonly stateId: Prisma.FieldRef<"InstanceLock", 'String'>
   readonly meta: Prisma.FieldRef<"InstanceLock", 'Json'>
   readonly token: Prisma.FieldRef<"InstanceLock", 'String'>
+  readonly holderId: Prisma.FieldRef<"InstanceLock", 'String'>
   readonly acquiredAt: Prisma.FieldRef<"InstanceLock", 'DateTime'>
 }
     
@@ -64,8 +64,10 @@ export type InstanceOperationStateCountAggregateOutputType = {
   status: number
   currentResourceCount: number
   totalResourceCount: number
+  resourceChanges: number
   model: number
   resolvedInputs: number
+  secrets: number
   startedAt: number
   finishedAt: number
   _all: number
@@ -108,8 +110,10 @@ export type InstanceOperationStateCountAggregateInputType = {
   status?: true
   currentResourceCount?: true
   totalResourceCount?: true
+  resourceChanges?: true
   model?: true
   resolvedInputs?: true
+  secrets?: true
   startedAt?: true
   finishedAt?: true
   _all?: true
@@ -207,8 +211,10 @@ export type InstanceOperationStateGroupByOutputType = {
   status: $Enums.InstanceOperationStatus
   currentResourceCount: number | null
   totalResourceCount: number | null
+  resourceChanges:PrismaJson.ResourceChanges | null
   model:PrismaJson.InstanceModel
   resolvedInputs:PrismaJson.InstanceResolvedInputs
+  secrets:(Record<string, string>) | null
   startedAt: Date | null
   finishedAt: Date | null
   _count: InstanceOperationStateCountAggregateOutputType | null
@@ -242,8 +248,10 @@ export type InstanceOperationStateWhereInput = {
   status?: Prisma.EnumInstanceOperationStatusFilter<"InstanceOperationState"> | $Enums.InstanceOperationStatus
   currentResourceCount?: Prisma.IntNullableFilter<"InstanceOperationState"> | number | null
   totalResourceCount?: Prisma.IntNullableFilter<"InstanceOperationState"> | number | null
+  resourceChanges?: Prisma.JsonNullableFilter<"InstanceOperationState">
   model?: Prisma.JsonFilter<"InstanceOperationState">
   resolvedInputs?: Prisma.JsonFilter<"InstanceOperationState">
+  secrets?: Prisma.JsonNullableFilter<"InstanceOperationState">
   startedAt?: Prisma.DateTimeNullableFilter<"InstanceOperationState"> | Date | string | null
   finishedAt?: Prisma.DateTimeNullableFilter<"InstanceOperationState"> | Date | string | null
   operation?: Prisma.XOR<Prisma.OperationScalarRelationFilter, Prisma.OperationWhereInput>
@@ -256,8 +264,10 @@ export type InstanceOperationStateOrderByWithRelationInput = {
   status?: Prisma.SortOrder
   currentResourceCount?: Prisma.SortOrderInput | Prisma.SortOrder
   totalResourceCount?: Prisma.SortOrderInput | Prisma.SortOrder
+  resourceChanges?: Prisma.SortOrderInput | Prisma.SortOrder
   model?: Prisma.SortOrder
   resolvedInputs?: Prisma.SortOrder
+  secrets?: Prisma.SortOrderInput | Prisma.SortOrder
   startedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   finishedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   operation?: Prisma.OperationOrderByWithRelationInput
@@ -274,8 +284,10 @@ export type InstanceOperationStateWhereUniqueInput = Prisma.AtLeast<{
   status?: Prisma.EnumInstanceOperationStatusFilter<"InstanceOperationState"> | $Enums.InstanceOperationStatus
   currentResourceCount?: Prisma.IntNullableFilter<"InstanceOperationState"> | number | null
   totalResourceCount?: Prisma.IntNullableFilter<"InstanceOperationState"> | number | null
+  resourceChanges?: Prisma.JsonNullableFilter<"InstanceOperationState">
   model?: Prisma.JsonFilter<"InstanceOperationState">
   resolvedInputs?: Prisma.JsonFilter<"InstanceOperationState">
+  secrets?: Prisma.JsonNullableFilter<"InstanceOperationState">
   startedAt?: Prisma.DateTimeNullableFilter<"InstanceOperationState"> | Date | string | null
   finishedAt?: Prisma.DateTimeNullableFilter<"InstanceOperationState"> | Date | string | null
   operation?: Prisma.XOR<Prisma.OperationScalarRelationFilter, Prisma.OperationWhereInput>
@@ -288,8 +300,10 @@ export type InstanceOperationStateOrderByWithAggregationInput = {
   status?: Prisma.SortOrder
   currentResourceCount?: Prisma.SortOrderInput | Prisma.SortOrder
   totalResourceCount?: Prisma.SortOrderInput | Prisma.SortOrder
+  resourceChanges?: Prisma.SortOrderInput | Prisma.SortOrder
   model?: Prisma.SortOrder
   resolvedInputs?: Prisma.SortOrder
+  secrets?: Prisma.SortOrderInput | Prisma.SortOrder
   startedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   finishedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   _count?: Prisma.InstanceOperationStateCountOrderByAggregateInput
@@ -308,8 +322,10 @@ export type InstanceOperationStateScalarWhereWithAggregatesInput = {
   status?: Prisma.EnumInstanceOperationStatusWithAggregatesFilter<"InstanceOperationState"> | $Enums.InstanceOperationStatus
   currentResourceCount?: Prisma.IntNullableWithAggregatesFilter<"InstanceOperationState"> | number | null
   totalResourceCount?: Prisma.IntNullableWithAggregatesFilter<"InstanceOperationState"> | number | null
+  resourceChanges?: Prisma.JsonNullableWithAggregatesFilter<"InstanceOperationState">
   model?: Prisma.JsonWithAggregatesFilter<"InstanceOperationState">
   resolvedInputs?: Prisma.JsonWithAggregatesFilter<"InstanceOperationState">
+  secrets?: Prisma.JsonNullableWithAggregatesFilter<"InstanceOperationState">
   startedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"InstanceOperationState"> | Date | string | null
   finishedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"InstanceOperationState"> | Date | string | null
 }
@@ -318,8 +334,10 @@ export type InstanceOperationStateCreateInput = {
   status: $Enums.InstanceOperationStatus
   currentResourceCount?: number | null
   totalResourceCount?: number | null
+  resourceChanges?:PrismaJson.ResourceChanges | Prisma.NullableJsonNullValueInput
   model:PrismaJson.InstanceModel
   resolvedInputs:PrismaJson.InstanceResolvedInputs
+  secrets?:(Record<string, string>) | Prisma.NullableJsonNullValueInput
   startedAt?: Date | string | null
   finishedAt?: Date | string | null
   operation: Prisma.OperationCreateNestedOneWithoutOperationStatesInput
@@ -332,8 +350,10 @@ export type InstanceOperationStateUncheckedCreateInput = {
   status: $Enums.InstanceOperationStatus
   currentResourceCount?: number | null
   totalResourceCount?: number | null
+  resourceChanges?:PrismaJson.ResourceChanges | Prisma.NullableJsonNullValueInput
   model:PrismaJson.InstanceModel
   resolvedInputs:PrismaJson.InstanceResolvedInputs
+  secrets?:(Record<string, string>) | Prisma.NullableJsonNullValueInput
   startedAt?: Date | string | null
   finishedAt?: Date | string | null
 }
@@ -342,8 +362,10 @@ export type InstanceOperationStateUpdateInput = {
   status?: Prisma.EnumInstanceOperationStatusFieldUpdateOperationsInput | $Enums.InstanceOperationStatus
   currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   totalResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  resourceChanges?:PrismaJson.ResourceChanges | Prisma.NullableJsonNullValueInput
   model?:PrismaJson.InstanceModel
   resolvedInputs?:PrismaJson.InstanceResolvedInputs
+  secrets?:(Record<string, string>) | Prisma.NullableJsonNullValueInput
   startedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   finishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   operation?: Prisma.OperationUpdateOneRequiredWithoutOperationStatesNestedInput
@@ -356,8 +378,10 @@ export type InstanceOperationStateUncheckedUpdateInput = {
   status?: Prisma.EnumInstanceOperationStatusFieldUpdateOperationsInput | $Enums.InstanceOperationStatus
   currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   totalResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  resourceChanges?:PrismaJson.ResourceChanges | Prisma.NullableJsonNullValueInput
   model?:PrismaJson.InstanceModel
   resolvedInputs?:PrismaJson.InstanceResolvedInputs
+  secrets?:(Record<string, string>) | Prisma.NullableJsonNullValueInput
   startedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   finishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
 }
@@ -368,8 +392,10 @@ export type InstanceOperationStateCreateManyInput = {
   status: $Enums.InstanceOperationStatus
   currentResourceCount?: number | null
   totalResourceCount?: number | null
+  resourceChanges?:PrismaJson.ResourceChanges | Prisma.NullableJsonNullValueInput
   model:PrismaJson.InstanceModel
   resolvedInputs:PrismaJson.InstanceResolvedInputs
+  secrets?:(Record<string, string>) | Prisma.NullableJsonNullValueInput
   startedAt?: Date | string | null
   finishedAt?: Date | string | null
 }
@@ -378,8 +404,10 @@ export type InstanceOperationStateUpdateManyMutationInput = {
   status?: Prisma.EnumInstanceOperationStatusFieldUpdateOperationsInput | $Enums.InstanceOperationStatus
   currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   totalResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  resourceChanges?:PrismaJson.ResourceChanges | Prisma.NullableJsonNullValueInput
   model?:PrismaJson.InstanceModel
   resolvedInputs?:PrismaJson.InstanceResolvedInputs
+  secrets?:(Record<string, string>) | Prisma.NullableJsonNullValueInput
   startedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   finishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
 }
@@ -390,8 +418,10 @@ export type InstanceOperationStateUncheckedUpdateManyInput = {
   status?: Prisma.EnumInstanceOperationStatusFieldUpdateOperationsInput | $Enums.InstanceOperationStatus
   currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   totalResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  resourceChanges?:PrismaJson.ResourceChanges | Prisma.NullableJsonNullValueInput
   model?:PrismaJson.InstanceModel
   resolvedInputs?:PrismaJson.InstanceResolvedInputs
+  secrets?:(Record<string, string>) | Prisma.NullableJsonNullValueInput
   startedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   finishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
 }
@@ -417,8 +447,10 @@ export type InstanceOperationStateCountOrderByAggregateInput = {
   status?: Prisma.SortOrder
   currentResourceCount?: Prisma.SortOrder
   totalResourceCount?: Prisma.SortOrder
+  resourceChanges?: Prisma.SortOrder
   model?: Prisma.SortOrder
   resolvedInputs?: Prisma.SortOrder
+  secrets?: Prisma.SortOrder
   startedAt?: Prisma.SortOrder
   finishedAt?: Prisma.SortOrder
 }
@@ -545,8 +577,10 @@ export type InstanceOperationStateCreateWithoutStateInput = {
   status: $Enums.InstanceOperationStatus
   currentResourceCount?: number | null
   totalResourceCount?: number | null
+  resourceChanges?:PrismaJson.ResourceChanges | Prisma.NullableJsonNullValueInput
   model:PrismaJson.InstanceModel
   resolvedInputs:PrismaJson.InstanceResolvedInputs
+  secrets?:(Record<string, string>) | Prisma.NullableJsonNullValueInput
   startedAt?: Date | string | null
   finishedAt?: Date | string | null
   operation: Prisma.OperationCreateNestedOneWithoutOperationStatesInput
@@ -557,8 +591,10 @@ export type InstanceOperationStateUncheckedCreateWithoutStateInput = {
   status: $Enums.InstanceOperationStatus
   currentResourceCount?: number | null
   totalResourceCount?: number | null
+  resourceChanges?:PrismaJson.ResourceChanges | Prisma.NullableJsonNullValueInput
   model:PrismaJson.InstanceModel
   resolvedInputs:PrismaJson.InstanceResolvedInputs
+  secrets?:(Record<string, string>) | Prisma.NullableJsonNullValueInput
   startedAt?: Date | string | null
   finishedAt?: Date | string | null
 }
@@ -597,8 +633,10 @@ export type InstanceOperationStateScalarWhereInput = {
   status?: Prisma.EnumInstanceOperationStatusFilter<"InstanceOperationState"> | $Enums.InstanceOperationStatus
   currentResourceCount?: Prisma.IntNullableFilter<"InstanceOperationState"> | number | null
   totalResourceCount?: Prisma.IntNullableFilter<"InstanceOperationState"> | number | null
+  resourceChanges?: Prisma.JsonNullableFilter<"InstanceOperationState">
   model?: Prisma.JsonFilter<"InstanceOperationState">
   resolvedInputs?: Prisma.JsonFilter<"InstanceOperationState">
+  secrets?: Prisma.JsonNullableFilter<"InstanceOperationState">
   startedAt?: Prisma.DateTimeNullableFilter<"InstanceOperationState"> | Date | string | null
   finishedAt?: Prisma.DateTimeNullableFilter<"InstanceOperationState"> | Date | string | null
 }
@@ -607,8 +645,10 @@ export type InstanceOperationStateCreateWithoutOperationInput = {
   status: $Enums.InstanceOperationStatus
   currentResourceCount?: number | null
   totalResourceCount?: number | null
+  resourceChanges?:PrismaJson.ResourceChanges | Prisma.NullableJsonNullValueInput
   model:PrismaJson.InstanceModel
   resolvedInputs:PrismaJson.InstanceResolvedInputs
+  secrets?:(Record<string, string>) | Prisma.NullableJsonNullValueInput
   startedAt?: Date | string | null
   finishedAt?: Date | string | null
   state: Prisma.InstanceStateCreateNestedOneWithoutOperationStatesInput
@@ -619,8 +659,10 @@ export type InstanceOperationStateUncheckedCreateWithoutOperationInput = {
   status: $Enums.InstanceOperationStatus
   currentResourceCount?: number | null
   totalResourceCount?: number | null
+  resourceChanges?:PrismaJson.ResourceChanges | Prisma.NullableJsonNullValueInput
   model:PrismaJson.InstanceModel
   resolvedInputs:PrismaJson.InstanceResolvedInputs
+  secrets?:(Record<string, string>) | Prisma.NullableJsonNullValueInput
   startedAt?: Date | string | null
   finishedAt?: Date | string | null
 }
@@ -655,8 +697,10 @@ export type InstanceOperationStateCreateManyStateInput = {
   status: $Enums.InstanceOperationStatus
   currentResourceCount?: number | null
   totalResourceCount?: number | null
+  resourceChanges?:PrismaJson.ResourceChanges | Prisma.NullableJsonNullValueInput
   model:PrismaJson.InstanceModel
   resolvedInputs:PrismaJson.InstanceResolvedInputs
+  secrets?:(Record<string, string>) | Prisma.NullableJsonNullValueInput
   startedAt?: Date | string | null
   finishedAt?: Date | string | null
 }
@@ -665,8 +709,10 @@ export type InstanceOperationStateUpdateWithoutStateInput = {
   status?: Prisma.EnumInstanceOperationStatusFieldUpdateOperationsInput | $Enums.InstanceOperationStatus
   currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   totalResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  resourceChanges?:PrismaJson.ResourceChanges | Prisma.NullableJsonNullValueInput
   model?:PrismaJson.InstanceModel
   resolvedInputs?:PrismaJson.InstanceResolvedInputs
+  secrets?:(Record<string, string>) | Prisma.NullableJsonNullValueInput
   startedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   finishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   operation?: Prisma.OperationUpdateOneRequiredWithoutOperationStatesNestedInput
@@ -677,8 +723,10 @@ export type InstanceOperationStateUncheckedUpdateWithoutStateInput = {
   status?: Prisma.EnumInstanceOperationStatusFieldUpdateOperationsInput | $Enums.InstanceOperationStatus
   currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   totalResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  resourceChanges?:PrismaJson.ResourceChanges | Prisma.NullableJsonNullValueInput
   model?:PrismaJson.InstanceModel
   resolvedInputs?:PrismaJson.InstanceResolvedInputs
+  secrets?:(Record<string, string>) | Prisma.NullableJsonNullValueInput
   startedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   finishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
 }
@@ -688,8 +736,10 @@ export type InstanceOperationStateUncheckedUpdateManyWithoutStateInput = {
   status?: Prisma.EnumInstanceOperationStatusFieldUpdateOperationsInput | $Enums.InstanceOperationStatus
   currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   totalResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  resourceChanges?:PrismaJson.ResourceChanges | Prisma.NullableJsonNullValueInput
   model?:PrismaJson.InstanceModel
   resolvedInputs?:PrismaJson.InstanceResolvedInputs
+  secrets?:(Record<string, string>) | Prisma.NullableJsonNullValueInput
   startedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   finishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
 }
@@ -699,8 +749,10 @@ export type InstanceOperationStateCreateManyOperationInput = {
   status: $Enums.InstanceOperationStatus
   currentResourceCount?: number | null
   totalResourceCount?: number | null
+  resourceChanges?:PrismaJson.ResourceChanges | Prisma.NullableJsonNullValueInput
   model:PrismaJson.InstanceModel
   resolvedInputs:PrismaJson.InstanceResolvedInputs
+  secrets?:(Record<string, string>) | Prisma.NullableJsonNullValueInput
   startedAt?: Date | string | null
   finishedAt?: Date | string | null
 }
@@ -709,8 +761,10 @@ export type InstanceOperationStateUpdateWithoutOperationInput = {
   status?: Prisma.EnumInstanceOperationStatusFieldUpdateOperationsInput | $Enums.InstanceOperationStatus
   currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   totalResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  resourceChanges?:PrismaJson.ResourceChanges | Prisma.NullableJsonNullValueInput
   model?:PrismaJson.InstanceModel
   resolvedInputs?:PrismaJson.InstanceResolvedInputs
+  secrets?:(Record<string, string>) | Prisma.NullableJsonNullValueInput
   startedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   finishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   state?: Prisma.InstanceStateUpdateOneRequiredWithoutOperationStatesNestedInput
@@ -721,8 +775,10 @@ export type InstanceOperationStateUncheckedUpdateWithoutOperationInput = {
   status?: Prisma.EnumInstanceOperationStatusFieldUpdateOperationsInput | $Enums.InstanceOperationStatus
   currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   totalResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  resourceChanges?:PrismaJson.ResourceChanges | Prisma.NullableJsonNullValueInput
   model?:PrismaJson.InstanceModel
   resolvedInputs?:PrismaJson.InstanceResolvedInputs
+  secrets?:(Record<string, string>) | Prisma.NullableJsonNullValueInput
   startedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   finishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
 }
@@ -732,8 +788,10 @@ export type InstanceOperationStateUncheckedUpdateManyWithoutOperationInput = {
   status?: Prisma.EnumInstanceOperationStatusFieldUpdateOperationsInput | $Enums.InstanceOperationStatus
   currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   totalResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  resourceChanges?:PrismaJson.ResourceChanges | Prisma.NullableJsonNullValueInput
   model?:PrismaJson.InstanceModel
   resolvedInputs?:PrismaJson.InstanceResolvedInputs
+  secrets?:(Record<string, string>) | Prisma.NullableJsonNullValueInput
   startedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   finishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
 }
@@ -746,8 +804,10 @@ export type InstanceOperationStateSelect<ExtArgs extends runtime.Types.Extension
   status?: boolean
   currentResourceCount?: boolean
   totalResourceCount?: boolean
+  resourceChanges?: boolean
   model?: boolean
   resolvedInputs?: boolean
+  secrets?: boolean
   startedAt?: boolean
   finishedAt?: boolean
   operation?: boolean | Prisma.OperationDefaultArgs<ExtArgs>
@@ -760,8 +820,10 @@ export type InstanceOperationStateSelectCreateManyAndReturn<ExtArgs extends runt
   status?: boolean
   currentResourceCount?: boolean
   totalResourceCount?: boolean
+  resourceChanges?: boolean
   model?: boolean
   resolvedInputs?: boolean
+  secrets?: boolean
   startedAt?: boolean
   finishedAt?: boolean
   operation?: boolean | Prisma.OperationDefaultArgs<ExtArgs>
@@ -774,8 +836,10 @@ export type InstanceOperationStateSelectUpdateManyAndReturn<ExtArgs extends runt
   status?: boolean
   currentResourceCount?: boolean
   totalResourceCount?: boolean
+  resourceChanges?: boolean
   model?: boolean
   resolvedInputs?: boolean
+  secrets?: boolean
   startedAt?: boolean
   finishedAt?: boolean
   operation?: boolean | Prisma.OperationDefaultArgs<ExtArgs>
@@ -788,13 +852,15 @@ export type InstanceOperationStateSelectScalar = {
   status?: boolean
   currentResourceCount?: boolean
   totalResourceCount?: boolean
+  resourceChanges?: boolean
   model?: boolean
   resolvedInputs?: boolean
+  secrets?: boolean
   startedAt?: boolean
   finishedAt?: boolean
 }
 
-export type InstanceOperationStateOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"operationId" | "stateId" | "status" | "currentResourceCount" | "totalResourceCount" | "model" | "resolvedInputs" | "startedAt" | "finishedAt", ExtArgs["result"]["instanceOperationState"]>
+export type InstanceOperationStateOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"operationId" | "stateId" | "status" | "currentResourceCount" | "totalResourceCount" | "resourceChanges" | "model" | "resolvedInputs" | "secrets" | "startedAt" | "finishedAt", ExtArgs["result"]["instanceOperationState"]>
 export type InstanceOperationStateInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   operation?: boolean | Prisma.OperationDefaultArgs<ExtArgs>
   state?: boolean | Prisma.InstanceStateDefaultArgs<ExtArgs>
@@ -841,6 +907,12 @@ export type $InstanceOperationStatePayload<ExtArgs extends runtime.Types.Extensi
      * The total count of the Pulumi resources that this instance is expected to manage.
      */
     totalResourceCount: number | null
+    /**
+     * The changes of the Pulumi resources planned by the preview operation.
+     * 
+     * [ResourceChanges]
+     */
+    resourceChanges:PrismaJson.ResourceChanges | null
     /**
      * The snapshot of the instance model at the moment of operation start.
      * 
@@ -853,6 +925,16 @@ export type $InstanceOperationStatePayload<ExtArgs extends runtime.Types.Extensi
      * [InstanceResolvedInputs]
      */
     resolvedInputs:PrismaJson.InstanceResolvedInputs
+    /**
+     * The IDs of the versions of the instance secrets passed to the unit by the update operation
+     * keyed by the secret names.
+     * Used to restore the secrets when the instance is rolled back to this operation.
+     * 
+     * Null if the operation did not update the unit.
+     * 
+     * ![Record<string, string>]
+     */
+    secrets:(Record<string, string>) | null
     /**
      * The time when the operation on this instance started.
      * Not populated on create, even if the instance is ready to start immediately.
@@ -1292,8 +1374,10 @@ export interface InstanceOperationStateFieldRefs {
   readonly status: Prisma.FieldRef<"InstanceOperationState", 'InstanceOperationStatus'>
   readonly currentResourceCount: Prisma.FieldRef<"InstanceOperationState", 'Int'>
   readonly totalResourceCount: Prisma.FieldRef<"InstanceOperationState", 'Int'>
+  readonly resourceChanges: Prisma.FieldRef<"InstanceOperationState", 'Json'>
   readonly model: Prisma.FieldRef<"InstanceOperationState", 'Json'>
   readonly resolvedInputs: Prisma.FieldRef<"InstanceOperationState", 'Json'>
+  readonly secrets: Prisma.FieldRef<"InstanceOperationState", 'Json'>
   readonly startedAt: Prisma.FieldRef<"InstanceOperationState", 'DateTime'>
   readonly finishedAt: Prisma.FieldRef<"InstanceOperationState", 'DateTime'>
 }
@@ -60,6 +60,8 @@ export type InstanceStateMinAggregateOutputType = {
   dependencyOutputHash: number | null
   currentResourceCount: number | null
   hasResourceHooks: boolean | null
+  lastEditedBy: string | null
+  lastEditedAt: Date | null
 }
 
 export type InstanceStateMaxAggregateOutputType = {
@@ -76,6 +78,8 @@ export type InstanceStateMaxAggregateOutputType = {
   dependencyOutputHash: number | null
   currentResourceCount: number | null
   hasResourceHooks: boolean | null
+  lastEditedBy: string | null
+  lastEditedAt: Date | null
 }
 
 export type InstanceStateCountAggregateOutputType = {
@@ -96,6 +100,8 @@ export type InstanceStateCountAggregateOutputType = {
   currentResourceCount: number
   statusFields: number
   hasResourceHooks: number
+  lastEditedBy: number
+  lastEditedAt: number
   _all: number
 }
 
@@ -132,6 +138,8 @@ export type InstanceStateMinAggregateInputType = {
   dependencyOutputHash?: true
   currentResourceCount?: true
   hasResourceHooks?: true
+  lastEditedBy?: true
+  lastEditedAt?: true
 }
 
 export type InstanceStateMaxAggregateInputType = {
@@ -148,6 +156,8 @@ export type InstanceStateMaxAggregateInputType = {
   dependencyOutputHash?: true
   currentResourceCount?: true
   hasResourceHooks?: true
+  lastEditedBy?: true
+  lastEditedAt?: true
 }
 
 export type InstanceStateCountAggregateInputType = {
@@ -168,6 +178,8 @@ export type InstanceStateCountAggregateInputType = {
   currentResourceCount?: true
   statusFields?: true
   hasResourceHooks?: true
+  lastEditedBy?: true
+  lastEditedAt?: true
   _all?: true
 }
 
@@ -275,6 +287,8 @@ export type InstanceStateGroupByOutputType = {
   currentResourceCount: number | null
   statusFields:PrismaJson.InstanceStatusFields | null
   hasResourceHooks: boolean
+  lastEditedBy: string | null
+  lastEditedAt: Date | null
   _count: InstanceStateCountAggregateOutputType | null
   _avg: InstanceStateAvgAggregateOutputType | null
   _sum: InstanceStateSumAggregateOutputType | null
@@ -318,6 +332,8 @@ export type InstanceStateWhereInput = {
   currentResourceCount?: Prisma.IntNullableFilter<"InstanceState"> | number | null
   statusFields?: Prisma.JsonNullableFilter<"InstanceState">
   hasResourceHooks?: Prisma.BoolFilter<"InstanceState"> | boolean
+  lastEditedBy?: Prisma.StringNullableFilter<"InstanceState"> | string | null
+  lastEditedAt?: Prisma.DateTimeNullableFilter<"InstanceState"> | Date | string | null
   parent?: Prisma.XOR<Prisma.InstanceStateNullableScalarRelationFilter, Prisma.InstanceStateWhereInput> | null
   children?: Prisma.InstanceStateListRelationFilter
   evaluationState?: Prisma.XOR<Prisma.InstanceEvaluationStateNullableScalarRelationFilter, Prisma.InstanceEvaluationStateWhereInput> | null
@@ -329,6 +345,7 @@ export type InstanceStateWhereInput = {
   customStatuses?: Prisma.InstanceCustomStatusListRelationFilter
   lock?: Prisma.XOR<Prisma.InstanceLockNullableScalarRelationFilter, Prisma.InstanceLockWhereInput> | null
   workerRegistrations?: Prisma.WorkerUnitRegistrationListRelationFilter
+  serviceAccountGrants?: Prisma.ServiceAccountGrantListRelationFilter
   artifacts?: Prisma.ArtifactListRelationFilter
   operationLogs?: Prisma.OperationLogListRelationFilter
   userViewports?: Prisma.UserCompositeViewportListRelationFilter
@@ -353,6 +370,8 @@ export type InstanceStateOrderByWithRelationInput = {
   currentResourceCount?: Prisma.SortOrderInput | Prisma.SortOrder
   statusFields?: Prisma.SortOrderInput | Prisma.SortOrder
   hasResourceHooks?: Prisma.SortOrder
+  lastEditedBy?: Prisma.SortOrderInput | Prisma.SortOrder
+  lastEditedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   parent?: Prisma.InstanceStateOrderByWithRelationInput
   children?: Prisma.InstanceStateOrderByRelationAggregateInput
   evaluationState?: Prisma.InstanceEvaluationStateOrderByWithRelationInput
@@ -364,6 +383,7 @@ export type InstanceStateOrderByWithRelationInput = {
   customStatuses?: Prisma.InstanceCustomStatusOrderByRelationAggregateInput
   lock?: Prisma.InstanceLockOrderByWithRelationInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationOrderByRelationAggregateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantOrderByRelationAggregateInput
   artifacts?: Prisma.ArtifactOrderByRelationAggregateInput
   operationLogs?: Prisma.OperationLogOrderByRelationAggregateInput
   userViewports?: Prisma.UserCompositeViewportOrderByRelationAggregateInput
@@ -391,6 +411,8 @@ export type InstanceStateWhereUniqueInput = Prisma.AtLeast<{
   currentResourceCount?: Prisma.IntNullableFilter<"InstanceState"> | number | null
   statusFields?: Prisma.JsonNullableFilter<"InstanceState">
   hasResourceHooks?: Prisma.BoolFilter<"InstanceState"> | boolean
+  lastEditedBy?: Prisma.StringNullableFilter<"InstanceState"> | string | null
+  lastEditedAt?: Prisma.DateTimeNullableFilter<"InstanceState"> | Date | string | null
   parent?: Prisma.XOR<Prisma.InstanceStateNullableScalarRelationFilter, Prisma.InstanceStateWhereInput> | null
   children?: Prisma.InstanceStateListRelationFilter
   evaluationState?: Prisma.XOR<Prisma.InstanceEvaluationStateNullableScalarRelationFilter, Prisma.InstanceEvaluationStateWhereInput> | null
@@ -402,6 +424,7 @@ export type InstanceStateWhereUniqueInput = Prisma.AtLeast<{
   customStatuses?: Prisma.InstanceCustomStatusListRelationFilter
   lock?: Prisma.XOR<Prisma.InstanceLockNullableScalarRelationFilter, Prisma.InstanceLockWhereInput> | null
   workerRegistrations?: Prisma.WorkerUnitRegistrationListRelationFilter
+  serviceAccountGrants?: Prisma.ServiceAccountGrantListRelationFilter
   artifacts?: Prisma.ArtifactListRelationFilter
   operationLogs?: Prisma.OperationLogListRelationFilter
   userViewports?: Prisma.UserCompositeViewportListRelationFilter
@@ -426,6 +449,8 @@ export type InstanceStateOrderByWithAggregationInput = {
   currentResourceCount?: Prisma.SortOrderInput | Prisma.SortOrder
   statusFields?: Prisma.SortOrderInput | Prisma.SortOrder
   hasResourceHooks?: Prisma.SortOrder
+  lastEditedBy?: Prisma.SortOrderInput | Prisma.SortOrder
+  lastEditedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   _count?: Prisma.InstanceStateCountOrderByAggregateInput
   _avg?: Prisma.InstanceStateAvgOrderByAggregateInput
   _max?: Prisma.InstanceStateMaxOrderByAggregateInput
@@ -454,6 +479,8 @@ export type InstanceStateScalarWhereWithAggregatesInput = {
   currentResourceCount?: Prisma.IntNullableWithAggregatesFilter<"InstanceState"> | number | null
   statusFields?: Prisma.JsonNullableWithAggregatesFilter<"InstanceState">
   hasResourceHooks?: Prisma.BoolWithAggregatesFilter<"InstanceState"> | boolean
+  lastEditedBy?: Prisma.StringNullableWithAggregatesFilter<"InstanceState"> | string | null
+  lastEditedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"InstanceState"> | Date | string | null
 }
 
 export type InstanceStateCreateInput = {
@@ -473,6 +500,8 @@ export type InstanceStateCreateInput = {
   currentResourceCount?: number | null
   statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
   hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
   parent?: Prisma.InstanceStateCreateNestedOneWithoutChildrenInput
   children?: Prisma.InstanceStateCreateNestedManyWithoutParentInput
   evaluationState?: Prisma.InstanceEvaluationStateCreateNestedOneWithoutStateInput
@@ -484,6 +513,7 @@ export type InstanceStateCreateInput = {
   customStatuses?: Prisma.InstanceCustomStatusCreateNestedManyWithoutStateInput
   lock?: Prisma.InstanceLockCreateNestedOneWithoutStateInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantCreateNestedManyWithoutStateInput
   artifacts?: Prisma.ArtifactCreateNestedManyWithoutInstancesInput
   operationLogs?: Prisma.OperationLogCreateNestedManyWithoutStateInput
   userViewports?: Prisma.UserCompositeViewportCreateNestedManyWithoutStateInput
@@ -508,6 +538,8 @@ export type InstanceStateUncheckedCreateInput = {
   currentResourceCount?: number | null
   statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
   hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
   children?: Prisma.InstanceStateUncheckedCreateNestedManyWithoutParentInput
   evaluationState?: Prisma.InstanceEvaluationStateUncheckedCreateNestedOneWithoutStateInput
   operationStates?: Prisma.InstanceOperationStateUncheckedCreateNestedManyWithoutStateInput
@@ -518,6 +550,7 @@ export type InstanceStateUncheckedCreateInput = {
   customStatuses?: Prisma.InstanceCustomStatusUncheckedCreateNestedManyWithoutStateInput
   lock?: Prisma.InstanceLockUncheckedCreateNestedOneWithoutStateInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedCreateNestedManyWithoutStateInput
   artifacts?: Prisma.ArtifactUncheckedCreateNestedManyWithoutInstancesInput
   operationLogs?: Prisma.OperationLogUncheckedCreateNestedManyWithoutStateInput
   userViewports?: Prisma.UserCompositeViewportUncheckedCreateNestedManyWithoutStateInput
@@ -541,6 +574,8 @@ export type InstanceStateUpdateInput = {
   currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   parent?: Prisma.InstanceStateUpdateOneWithoutChildrenNestedInput
   children?: Prisma.InstanceStateUpdateManyWithoutParentNestedInput
   evaluationState?: Prisma.InstanceEvaluationStateUpdateOneWithoutStateNestedInput
@@ -552,6 +587,7 @@ export type InstanceStateUpdateInput = {
   customStatuses?: Prisma.InstanceCustomStatusUpdateManyWithoutStateNestedInput
   lock?: Prisma.InstanceLockUpdateOneWithoutStateNestedInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUpdateManyWithoutStateNestedInput
   artifacts?: Prisma.ArtifactUpdateManyWithoutInstancesNestedInput
   operationLogs?: Prisma.OperationLogUpdateManyWithoutStateNestedInput
   userViewports?: Prisma.UserCompositeViewportUpdateManyWithoutStateNestedInput
@@ -576,6 +612,8 @@ export type InstanceStateUncheckedUpdateInput = {
   currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   children?: Prisma.InstanceStateUncheckedUpdateManyWithoutParentNestedInput
   evaluationState?: Prisma.InstanceEvaluationStateUncheckedUpdateOneWithoutStateNestedInput
   operationStates?: Prisma.InstanceOperationStateUncheckedUpdateManyWithoutStateNestedInput
@@ -586,6 +624,7 @@ export type InstanceStateUncheckedUpdateInput = {
   customStatuses?: Prisma.InstanceCustomStatusUncheckedUpdateManyWithoutStateNestedInput
   lock?: Prisma.InstanceLockUncheckedUpdateOneWithoutStateNestedInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedUpdateManyWithoutStateNestedInput
   artifacts?: Prisma.ArtifactUncheckedUpdateManyWithoutInstancesNestedInput
   operationLogs?: Prisma.OperationLogUncheckedUpdateManyWithoutStateNestedInput
   userViewports?: Prisma.UserCompositeViewportUncheckedUpdateManyWithoutStateNestedInput
@@ -610,6 +649,8 @@ export type InstanceStateCreateManyInput = {
   currentResourceCount?: number | null
   statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
   hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
 }
 
 export type InstanceStateUpdateManyMutationInput = {
@@ -629,6 +670,8 @@ export type InstanceStateUpdateManyMutationInput = {
   currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
 }
 
 export type InstanceStateUncheckedUpdateManyInput = {
@@ -649,6 +692,8 @@ export type InstanceStateUncheckedUpdateManyInput = {
   currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
 }
 
 export type InstanceStateListRelationFilter = {
@@ -689,6 +734,8 @@ export type InstanceStateCountOrderByAggregateInput = {
   currentResourceCount?: Prisma.SortOrder
   statusFields?: Prisma.SortOrder
   hasResourceHooks?: Prisma.SortOrder
+  lastEditedBy?: Prisma.SortOrder
+  lastEditedAt?: Prisma.SortOrder
 }
 
 export type InstanceStateAvgOrderByAggregateInput = {
@@ -714,6 +761,8 @@ export type InstanceStateMaxOrderByAggregateInput = {
   dependencyOutputHash?: Prisma.SortOrder
   currentResourceCount?: Prisma.SortOrder
   hasResourceHooks?: Prisma.SortOrder
+  lastEditedBy?: Prisma.SortOrder
+  lastEditedAt?: Prisma.SortOrder
 }
 
 export type InstanceStateMinOrderByAggregateInput = {
@@ -730,6 +779,8 @@ export type InstanceStateMinOrderByAggregateInput = {
   dependencyOutputHash?: Prisma.SortOrder
   currentResourceCount?: Prisma.SortOrder
   hasResourceHooks?: Prisma.SortOrder
+  lastEditedBy?: Prisma.SortOrder
+  lastEditedAt?: Prisma.SortOrder
 }
 
 export type InstanceStateSumOrderByAggregateInput = {
@@ -861,6 +912,10 @@ export type BoolFieldUpdateOperationsInput = {
   set?: boolean
 }
 
+export type NullableDateTimeFieldUpdateOperationsInput = {
+  set?: Date | string | null
+}
+
 export type InstanceStateUpdateOneWithoutChildrenNestedInput = {
   create?: Prisma.XOR<Prisma.InstanceStateCreateWithoutChildrenInput, Prisma.InstanceStateUncheckedCreateWithoutChildrenInput>
   connectOrCreate?: Prisma.InstanceStateCreateOrConnectWithoutChildrenInput
@@ -989,6 +1044,22 @@ export type InstanceStateUpdateOneWithoutSecretsNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.InstanceStateUpdateToOneWithWhereWithoutSecretsInput, Prisma.InstanceStateUpdateWithoutSecretsInput>, Prisma.InstanceStateUncheckedUpdateWithoutSecretsInput>
 }
 
+export type InstanceStateCreateNestedOneWithoutServiceAccountGrantsInput = {
+  create?: Prisma.XOR<Prisma.InstanceStateCreateWithoutServiceAccountGrantsInput, Prisma.InstanceStateUncheckedCreateWithoutServiceAccountGrantsInput>
+  connectOrCreate?: Prisma.InstanceStateCreateOrConnectWithoutServiceAccountGrantsInput
+  connect?: Prisma.InstanceStateWhereUniqueInput
+}
+
+export type InstanceStateUpdateOneWithoutServiceAccountGrantsNestedInput = {
+  create?: Prisma.XOR<Prisma.InstanceStateCreateWithoutServiceAccountGrantsInput, Prisma.InstanceStateUncheckedCreateWithoutServiceAccountGrantsInput>
+  connectOrCreate?: Prisma.InstanceStateCreateOrConnectWithoutServiceAccountGrantsInput
+  upsert?: Prisma.InstanceStateUpsertWithoutServiceAccountGrantsInput
+  disconnect?: Prisma.InstanceStateWhereInput | boolean
+  delete?: Prisma.InstanceStateWhereInput | boolean
+  connect?: Prisma.InstanceStateWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.InstanceStateUpdateToOneWithWhereWithoutServiceAccountGrantsInput, Prisma.InstanceStateUpdateWithoutServiceAccountGrantsInput>, Prisma.InstanceStateUncheckedUpdateWithoutServiceAccountGrantsInput>
+}
+
 export type InstanceStateCreateNestedOneWithoutTerminalsInput = {
   create?: Prisma.XOR<Prisma.InstanceStateCreateWithoutTerminalsInput, Prisma.InstanceStateUncheckedCreateWithoutTerminalsInput>
   connectOrCreate?: Prisma.InstanceStateCreateOrConnectWithoutTerminalsInput
@@ -1050,6 +1121,8 @@ export type InstanceStateCreateWithoutArtifactsInput = {
   currentResourceCount?: number | null
   statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
   hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
   parent?: Prisma.InstanceStateCreateNestedOneWithoutChildrenInput
   children?: Prisma.InstanceStateCreateNestedManyWithoutParentInput
   evaluationState?: Prisma.InstanceEvaluationStateCreateNestedOneWithoutStateInput
@@ -1061,6 +1134,7 @@ export type InstanceStateCreateWithoutArtifactsInput = {
   customStatuses?: Prisma.InstanceCustomStatusCreateNestedManyWithoutStateInput
   lock?: Prisma.InstanceLockCreateNestedOneWithoutStateInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantCreateNestedManyWithoutStateInput
   operationLogs?: Prisma.OperationLogCreateNestedManyWithoutStateInput
   userViewports?: Prisma.UserCompositeViewportCreateNestedManyWithoutStateInput
   entitySnapshots?: Prisma.EntitySnapshotCreateNestedManyWithoutStateInput
@@ -1084,6 +1158,8 @@ export type InstanceStateUncheckedCreateWithoutArtifactsInput = {
   currentResourceCount?: number | null
   statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
   hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
   children?: Prisma.InstanceStateUncheckedCreateNestedManyWithoutParentInput
   evaluationState?: Prisma.InstanceEvaluationStateUncheckedCreateNestedOneWithoutStateInput
   operationStates?: Prisma.InstanceOperationStateUncheckedCreateNestedManyWithoutStateInput
@@ -1094,6 +1170,7 @@ export type InstanceStateUncheckedCreateWithoutArtifactsInput = {
   customStatuses?: Prisma.InstanceCustomStatusUncheckedCreateNestedManyWithoutStateInput
   lock?: Prisma.InstanceLockUncheckedCreateNestedOneWithoutStateInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedCreateNestedManyWithoutStateInput
   operationLogs?: Prisma.OperationLogUncheckedCreateNestedManyWithoutStateInput
   userViewports?: Prisma.UserCompositeViewportUncheckedCreateNestedManyWithoutStateInput
   entitySnapshots?: Prisma.EntitySnapshotUncheckedCreateNestedManyWithoutStateInput
@@ -1141,6 +1218,8 @@ export type InstanceStateScalarWhereInput = {
   currentResourceCount?: Prisma.IntNullableFilter<"InstanceState"> | number | null
   statusFields?: Prisma.JsonNullableFilter<"InstanceState">
   hasResourceHooks?: Prisma.BoolFilter<"InstanceState"> | boolean
+  lastEditedBy?: Prisma.StringNullableFilter<"InstanceState"> | string | null
+  lastEditedAt?: Prisma.DateTimeNullableFilter<"InstanceState"> | Date | string | null
 }
 
 export type InstanceStateCreateWithoutCustomStatusesInput = {
@@ -1160,6 +1239,8 @@ export type InstanceStateCreateWithoutCustomStatusesInput = {
   currentResourceCount?: number | null
   statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
   hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
   parent?: Prisma.InstanceStateCreateNestedOneWithoutChildrenInput
   children?: Prisma.InstanceStateCreateNestedManyWithoutParentInput
   evaluationState?: Prisma.InstanceEvaluationStateCreateNestedOneWithoutStateInput
@@ -1170,6 +1251,7 @@ export type InstanceStateCreateWithoutCustomStatusesInput = {
   triggers?: Prisma.TriggerCreateNestedManyWithoutStateInput
   lock?: Prisma.InstanceLockCreateNestedOneWithoutStateInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantCreateNestedManyWithoutStateInput
   artifacts?: Prisma.ArtifactCreateNestedManyWithoutInstancesInput
   operationLogs?: Prisma.OperationLogCreateNestedManyWithoutStateInput
   userViewports?: Prisma.UserCompositeViewportCreateNestedManyWithoutStateInput
@@ -1194,6 +1276,8 @@ export type InstanceStateUncheckedCreateWithoutCustomStatusesInput = {
   currentResourceCount?: number | null
   statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
   hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
   children?: Prisma.InstanceStateUncheckedCreateNestedManyWithoutParentInput
   evaluationState?: Prisma.InstanceEvaluationStateUncheckedCreateNestedOneWithoutStateInput
   operationStates?: Prisma.InstanceOperationStateUncheckedCreateNestedManyWithoutStateInput
@@ -1203,6 +1287,7 @@ export type InstanceStateUncheckedCreateWithoutCustomStatusesInput = {
   triggers?: Prisma.TriggerUncheckedCreateNestedManyWithoutStateInput
   lock?: Prisma.InstanceLockUncheckedCreateNestedOneWithoutStateInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedCreateNestedManyWithoutStateInput
   artifacts?: Prisma.ArtifactUncheckedCreateNestedManyWithoutInstancesInput
   operationLogs?: Prisma.OperationLogUncheckedCreateNestedManyWithoutStateInput
   userViewports?: Prisma.UserCompositeViewportUncheckedCreateNestedManyWithoutStateInput
@@ -1242,6 +1327,8 @@ export type InstanceStateUpdateWithoutCustomStatusesInput = {
   currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   parent?: Prisma.InstanceStateUpdateOneWithoutChildrenNestedInput
   children?: Prisma.InstanceStateUpdateManyWithoutParentNestedInput
   evaluationState?: Prisma.InstanceEvaluationStateUpdateOneWithoutStateNestedInput
@@ -1252,6 +1339,7 @@ export type InstanceStateUpdateWithoutCustomStatusesInput = {
   triggers?: Prisma.TriggerUpdateManyWithoutStateNestedInput
   lock?: Prisma.InstanceLockUpdateOneWithoutStateNestedInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUpdateManyWithoutStateNestedInput
   artifacts?: Prisma.ArtifactUpdateManyWithoutInstancesNestedInput
   operationLogs?: Prisma.OperationLogUpdateManyWithoutStateNestedInput
   userViewports?: Prisma.UserCompositeViewportUpdateManyWithoutStateNestedInput
@@ -1276,6 +1364,8 @@ export type InstanceStateUncheckedUpdateWithoutCustomStatusesInput = {
   currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   children?: Prisma.InstanceStateUncheckedUpdateManyWithoutParentNestedInput
   evaluationState?: Prisma.InstanceEvaluationStateUncheckedUpdateOneWithoutStateNestedInput
   operationStates?: Prisma.InstanceOperationStateUncheckedUpdateManyWithoutStateNestedInput
@@ -1285,6 +1375,7 @@ export type InstanceStateUncheckedUpdateWithoutCustomStatusesInput = {
   triggers?: Prisma.TriggerUncheckedUpdateManyWithoutStateNestedInput
   lock?: Prisma.InstanceLockUncheckedUpdateOneWithoutStateNestedInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedUpdateManyWithoutStateNestedInput
   artifacts?: Prisma.ArtifactUncheckedUpdateManyWithoutInstancesNestedInput
   operationLogs?: Prisma.OperationLogUncheckedUpdateManyWithoutStateNestedInput
   userViewports?: Prisma.UserCompositeViewportUncheckedUpdateManyWithoutStateNestedInput
@@ -1308,6 +1399,8 @@ export type InstanceStateCreateWithoutEntitySnapshotsInput = {
   currentResourceCount?: number | null
   statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
   hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
   parent?: Prisma.InstanceStateCreateNestedOneWithoutChildrenInput
   children?: Prisma.InstanceStateCreateNestedManyWithoutParentInput
   evaluationState?: Prisma.InstanceEvaluationStateCreateNestedOneWithoutStateInput
@@ -1319,6 +1412,7 @@ export type InstanceStateCreateWithoutEntitySnapshotsInput = {
   customStatuses?: Prisma.InstanceCustomStatusCreateNestedManyWithoutStateInput
   lock?: Prisma.InstanceLockCreateNestedOneWithoutStateInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantCreateNestedManyWithoutStateInput
   artifacts?: Prisma.ArtifactCreateNestedManyWithoutInstancesInput
   operationLogs?: Prisma.OperationLogCreateNestedManyWithoutStateInput
   userViewports?: Prisma.UserCompositeViewportCreateNestedManyWithoutStateInput
@@ -1342,6 +1436,8 @@ export type InstanceStateUncheckedCreateWithoutEntitySnapshotsInput = {
   currentResourceCount?: number | null
   statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
   hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
   children?: Prisma.InstanceStateUncheckedCreateNestedManyWithoutParentInput
   evaluationState?: Prisma.InstanceEvaluationStateUncheckedCreateNestedOneWithoutStateInput
   operationStates?: Prisma.InstanceOperationStateUncheckedCreateNestedManyWithoutStateInput
@@ -1352,6 +1448,7 @@ export type InstanceStateUncheckedCreateWithoutEntitySnapshotsInput = {
   customStatuses?: Prisma.InstanceCustomStatusUncheckedCreateNestedManyWithoutStateInput
   lock?: Prisma.InstanceLockUncheckedCreateNestedOneWithoutStateInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedCreateNestedManyWithoutStateInput
   artifacts?: Prisma.ArtifactUncheckedCreateNestedManyWithoutInstancesInput
   operationLogs?: Prisma.OperationLogUncheckedCreateNestedManyWithoutStateInput
   userViewports?: Prisma.UserCompositeViewportUncheckedCreateNestedManyWithoutStateInput
@@ -1390,6 +1487,8 @@ export type InstanceStateUpdateWithoutEntitySnapshotsInput = {
   currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   parent?: Prisma.InstanceStateUpdateOneWithoutChildrenNestedInput
   children?: Prisma.InstanceStateUpdateManyWithoutParentNestedInput
   evaluationState?: Prisma.InstanceEvaluationStateUpdateOneWithoutStateNestedInput
@@ -1401,6 +1500,7 @@ export type InstanceStateUpdateWithoutEntitySnapshotsInput = {
   customStatuses?: Prisma.InstanceCustomStatusUpdateManyWithoutStateNestedInput
   lock?: Prisma.InstanceLockUpdateOneWithoutStateNestedInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUpdateManyWithoutStateNestedInput
   artifacts?: Prisma.ArtifactUpdateManyWithoutInstancesNestedInput
   operationLogs?: Prisma.OperationLogUpdateManyWithoutStateNestedInput
   userViewports?: Prisma.UserCompositeViewportUpdateManyWithoutStateNestedInput
@@ -1424,6 +1524,8 @@ export type InstanceStateUncheckedUpdateWithoutEntitySnapshotsInput = {
   currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   children?: Prisma.InstanceStateUncheckedUpdateManyWithoutParentNestedInput
   evaluationState?: Prisma.InstanceEvaluationStateUncheckedUpdateOneWithoutStateNestedInput
   operationStates?: Prisma.InstanceOperationStateUncheckedUpdateManyWithoutStateNestedInput
@@ -1434,6 +1536,7 @@ export type InstanceStateUncheckedUpdateWithoutEntitySnapshotsInput = {
   customStatuses?: Prisma.InstanceCustomStatusUncheckedUpdateManyWithoutStateNestedInput
   lock?: Prisma.InstanceLockUncheckedUpdateOneWithoutStateNestedInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedUpdateManyWithoutStateNestedInput
   artifacts?: Prisma.ArtifactUncheckedUpdateManyWithoutInstancesNestedInput
   operationLogs?: Prisma.OperationLogUncheckedUpdateManyWithoutStateNestedInput
   userViewports?: Prisma.UserCompositeViewportUncheckedUpdateManyWithoutStateNestedInput
@@ -1456,6 +1559,8 @@ export type InstanceStateCreateWithoutEvaluationStateInput = {
   currentResourceCount?: number | null
   statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
   hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
   parent?: Prisma.InstanceStateCreateNestedOneWithoutChildrenInput
   children?: Prisma.InstanceStateCreateNestedManyWithoutParentInput
   operationStates?: Prisma.InstanceOperationStateCreateNestedManyWithoutStateInput
@@ -1466,6 +1571,7 @@ export type InstanceStateCreateWithoutEvaluationStateInput = {
   customStatuses?: Prisma.InstanceCustomStatusCreateNestedManyWithoutStateInput
   lock?: Prisma.InstanceLockCreateNestedOneWithoutStateInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantCreateNestedManyWithoutStateInput
   artifacts?: Prisma.ArtifactCreateNestedManyWithoutInstancesInput
   operationLogs?: Prisma.OperationLogCreateNestedManyWithoutStateInput
   userViewports?: Prisma.UserCompositeViewportCreateNestedManyWithoutStateInput
@@ -1490,6 +1596,8 @@ export type InstanceStateUncheckedCreateWithoutEvaluationStateInput = {
   currentResourceCount?: number | null
   statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
   hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
   children?: Prisma.InstanceStateUncheckedCreateNestedManyWithoutParentInput
   operationStates?: Prisma.InstanceOperationStateUncheckedCreateNestedManyWithoutStateInput
   secrets?: Prisma.SecretUncheckedCreateNestedManyWithoutStateInput
@@ -1499,6 +1607,7 @@ export type InstanceStateUncheckedCreateWithoutEvaluationStateInput = {
   customStatuses?: Prisma.InstanceCustomStatusUncheckedCreateNestedManyWithoutStateInput
   lock?: Prisma.InstanceLockUncheckedCreateNestedOneWithoutStateInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedCreateNestedManyWithoutStateInput
   artifacts?: Prisma.ArtifactUncheckedCreateNestedManyWithoutInstancesInput
   operationLogs?: Prisma.OperationLogUncheckedCreateNestedManyWithoutStateInput
   userViewports?: Prisma.UserCompositeViewportUncheckedCreateNestedManyWithoutStateInput
@@ -1538,6 +1647,8 @@ export type InstanceStateUpdateWithoutEvaluationStateInput = {
   currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   parent?: Prisma.InstanceStateUpdateOneWithoutChildrenNestedInput
   children?: Prisma.InstanceStateUpdateManyWithoutParentNestedInput
   operationStates?: Prisma.InstanceOperationStateUpdateManyWithoutStateNestedInput
@@ -1548,6 +1659,7 @@ export type InstanceStateUpdateWithoutEvaluationStateInput = {
   customStatuses?: Prisma.InstanceCustomStatusUpdateManyWithoutStateNestedInput
   lock?: Prisma.InstanceLockUpdateOneWithoutStateNestedInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUpdateManyWithoutStateNestedInput
   artifacts?: Prisma.ArtifactUpdateManyWithoutInstancesNestedInput
   operationLogs?: Prisma.OperationLogUpdateManyWithoutStateNestedInput
   userViewports?: Prisma.UserCompositeViewportUpdateManyWithoutStateNestedInput
@@ -1572,6 +1684,8 @@ export type InstanceStateUncheckedUpdateWithoutEvaluationStateInput = {
   currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   children?: Prisma.InstanceStateUncheckedUpdateManyWithoutParentNestedInput
   operationStates?: Prisma.InstanceOperationStateUncheckedUpdateManyWithoutStateNestedInput
   secrets?: Prisma.SecretUncheckedUpdateManyWithoutStateNestedInput
@@ -1581,6 +1695,7 @@ export type InstanceStateUncheckedUpdateWithoutEvaluationStateInput = {
   customStatuses?: Prisma.InstanceCustomStatusUncheckedUpdateManyWithoutStateNestedInput
   lock?: Prisma.InstanceLockUncheckedUpdateOneWithoutStateNestedInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedUpdateManyWithoutStateNestedInput
   artifacts?: Prisma.ArtifactUncheckedUpdateManyWithoutInstancesNestedInput
   operationLogs?: Prisma.OperationLogUncheckedUpdateManyWithoutStateNestedInput
   userViewports?: Prisma.UserCompositeViewportUncheckedUpdateManyWithoutStateNestedInput
@@ -1604,6 +1719,8 @@ export type InstanceStateCreateWithoutChildrenInput = {
   currentResourceCount?: number | null
   statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
   hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
   parent?: Prisma.InstanceStateCreateNestedOneWithoutChildrenInput
   evaluationState?: Prisma.InstanceEvaluationStateCreateNestedOneWithoutStateInput
   operationStates?: Prisma.InstanceOperationStateCreateNestedManyWithoutStateInput
@@ -1614,6 +1731,7 @@ export type InstanceStateCreateWithoutChildrenInput = {
   customStatuses?: Prisma.InstanceCustomStatusCreateNestedManyWithoutStateInput
   lock?: Prisma.InstanceLockCreateNestedOneWithoutStateInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantCreateNestedManyWithoutStateInput
   artifacts?: Prisma.ArtifactCreateNestedManyWithoutInstancesInput
   operationLogs?: Prisma.OperationLogCreateNestedManyWithoutStateInput
   userViewports?: Prisma.UserCompositeViewportCreateNestedManyWithoutStateInput
@@ -1638,6 +1756,8 @@ export type InstanceStateUncheckedCreateWithoutChildrenInput = {
   currentResourceCount?: number | null
   statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
   hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
   evaluationState?: Prisma.InstanceEvaluationStateUncheckedCreateNestedOneWithoutStateInput
   operationStates?: Prisma.InstanceOperationStateUncheckedCreateNestedManyWithoutStateInput
   secrets?: Prisma.SecretUncheckedCreateNestedManyWithoutStateInput
@@ -1647,6 +1767,7 @@ export type InstanceStateUncheckedCreateWithoutChildrenInput = {
   customStatuses?: Prisma.InstanceCustomStatusUncheckedCreateNestedManyWithoutStateInput
   lock?: Prisma.InstanceLockUncheckedCreateNestedOneWithoutStateInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedCreateNestedManyWithoutStateInput
   artifacts?: Prisma.ArtifactUncheckedCreateNestedManyWithoutInstancesInput
   operationLogs?: Prisma.OperationLogUncheckedCreateNestedManyWithoutStateInput
   userViewports?: Prisma.UserCompositeViewportUncheckedCreateNestedManyWithoutStateInput
@@ -1675,6 +1796,8 @@ export type InstanceStateCreateWithoutParentInput = {
   currentResourceCount?: number | null
   statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
   hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
   children?: Prisma.InstanceStateCreateNestedManyWithoutParentInput
   evaluationState?: Prisma.InstanceEvaluationStateCreateNestedOneWithoutStateInput
   operationStates?: Prisma.InstanceOperationStateCreateNestedManyWithoutStateInput
@@ -1685,6 +1808,7 @@ export type InstanceStateCreateWithoutParentInput = {
   customStatuses?: Prisma.InstanceCustomStatusCreateNestedManyWithoutStateInput
   lock?: Prisma.InstanceLockCreateNestedOneWithoutStateInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantCreateNestedManyWithoutStateInput
   artifacts?: Prisma.ArtifactCreateNestedManyWithoutInstancesInput
   operationLogs?: Prisma.OperationLogCreateNestedManyWithoutStateInput
   userViewports?: Prisma.UserCompositeViewportCreateNestedManyWithoutStateInput
@@ -1708,6 +1832,8 @@ export type InstanceStateUncheckedCreateWithoutParentInput = {
   currentResourceCount?: number | null
   statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
   hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
   children?: Prisma.InstanceStateUncheckedCreateNestedManyWithoutParentInput
   evaluationState?: Prisma.InstanceEvaluationStateUncheckedCreateNestedOneWithoutStateInput
   operationStates?: Prisma.InstanceOperationStateUncheckedCreateNestedManyWithoutStateInput
@@ -1718,6 +1844,7 @@ export type InstanceStateUncheckedCreateWithoutParentInput = {
   customStatuses?: Prisma.InstanceCustomStatusUncheckedCreateNestedManyWithoutStateInput
   lock?: Prisma.InstanceLockUncheckedCreateNestedOneWithoutStateInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedCreateNestedManyWithoutStateInput
   artifacts?: Prisma.ArtifactUncheckedCreateNestedManyWithoutInstancesInput
   operationLogs?: Prisma.OperationLogUncheckedCreateNestedManyWithoutStateInput
   userViewports?: Prisma.UserCompositeViewportUncheckedCreateNestedManyWithoutStateInput
@@ -1761,6 +1888,8 @@ export type InstanceStateUpdateWithoutChildrenInput = {
   currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   parent?: Prisma.InstanceStateUpdateOneWithoutChildrenNestedInput
   evaluationState?: Prisma.InstanceEvaluationStateUpdateOneWithoutStateNestedInput
   operationStates?: Prisma.InstanceOperationStateUpdateManyWithoutStateNestedInput
@@ -1771,6 +1900,7 @@ export type InstanceStateUpdateWithoutChildrenInput = {
   customStatuses?: Prisma.InstanceCustomStatusUpdateManyWithoutStateNestedInput
   lock?: Prisma.InstanceLockUpdateOneWithoutStateNestedInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUpdateManyWithoutStateNestedInput
   artifacts?: Prisma.ArtifactUpdateManyWithoutInstancesNestedInput
   operationLogs?: Prisma.OperationLogUpdateManyWithoutStateNestedInput
   userViewports?: Prisma.UserCompositeViewportUpdateManyWithoutStateNestedInput
@@ -1795,6 +1925,8 @@ export type InstanceStateUncheckedUpdateWithoutChildrenInput = {
   currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   evaluationState?: Prisma.InstanceEvaluationStateUncheckedUpdateOneWithoutStateNestedInput
   operationStates?: Prisma.InstanceOperationStateUncheckedUpdateManyWithoutStateNestedInput
   secrets?: Prisma.SecretUncheckedUpdateManyWithoutStateNestedInput
@@ -1804,6 +1936,7 @@ export type InstanceStateUncheckedUpdateWithoutChildrenInput = {
   customStatuses?: Prisma.InstanceCustomStatusUncheckedUpdateManyWithoutStateNestedInput
   lock?: Prisma.InstanceLockUncheckedUpdateOneWithoutStateNestedInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedUpdateManyWithoutStateNestedInput
   artifacts?: Prisma.ArtifactUncheckedUpdateManyWithoutInstancesNestedInput
   operationLogs?: Prisma.OperationLogUncheckedUpdateManyWithoutStateNestedInput
   userViewports?: Prisma.UserCompositeViewportUncheckedUpdateManyWithoutStateNestedInput
@@ -1843,6 +1976,8 @@ export type InstanceStateCreateWithoutUserViewportsInput = {
   currentResourceCount?: number | null
   statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
   hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
   parent?: Prisma.InstanceStateCreateNestedOneWithoutChildrenInput
   children?: Prisma.InstanceStateCreateNestedManyWithoutParentInput
   evaluationState?: Prisma.InstanceEvaluationStateCreateNestedOneWithoutStateInput
@@ -1854,6 +1989,7 @@ export type InstanceStateCreateWithoutUserViewportsInput = {
   customStatuses?: Prisma.InstanceCustomStatusCreateNestedManyWithoutStateInput
   lock?: Prisma.InstanceLockCreateNestedOneWithoutStateInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantCreateNestedManyWithoutStateInput
   artifacts?: Prisma.ArtifactCreateNestedManyWithoutInstancesInput
   operationLogs?: Prisma.OperationLogCreateNestedManyWithoutStateInput
   entitySnapshots?: Prisma.EntitySnapshotCreateNestedManyWithoutStateInput
@@ -1877,6 +2013,8 @@ export type InstanceStateUncheckedCreateWithoutUserViewportsInput = {
   currentResourceCount?: number | null
   statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
   hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
   children?: Prisma.InstanceStateUncheckedCreateNestedManyWithoutParentInput
   evaluationState?: Prisma.InstanceEvaluationStateUncheckedCreateNestedOneWithoutStateInput
   operationStates?: Prisma.InstanceOperationStateUncheckedCreateNestedManyWithoutStateInput
@@ -1887,6 +2025,7 @@ export type InstanceStateUncheckedCreateWithoutUserViewportsInput = {
   customStatuses?: Prisma.InstanceCustomStatusUncheckedCreateNestedManyWithoutStateInput
   lock?: Prisma.InstanceLockUncheckedCreateNestedOneWithoutStateInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedCreateNestedManyWithoutStateInput
   artifacts?: Prisma.ArtifactUncheckedCreateNestedManyWithoutInstancesInput
   operationLogs?: Prisma.OperationLogUncheckedCreateNestedManyWithoutStateInput
   entitySnapshots?: Prisma.EntitySnapshotUncheckedCreateNestedManyWithoutStateInput
@@ -1925,6 +2064,8 @@ export type InstanceStateUpdateWithoutUserViewportsInput = {
   currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   parent?: Prisma.InstanceStateUpdateOneWithoutChildrenNestedInput
   children?: Prisma.InstanceStateUpdateManyWithoutParentNestedInput
   evaluationState?: Prisma.InstanceEvaluationStateUpdateOneWithoutStateNestedInput
@@ -1936,6 +2077,7 @@ export type InstanceStateUpdateWithoutUserViewportsInput = {
   customStatuses?: Prisma.InstanceCustomStatusUpdateManyWithoutStateNestedInput
   lock?: Prisma.InstanceLockUpdateOneWithoutStateNestedInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUpdateManyWithoutStateNestedInput
   artifacts?: Prisma.ArtifactUpdateManyWithoutInstancesNestedInput
   operationLogs?: Prisma.OperationLogUpdateManyWithoutStateNestedInput
   entitySnapshots?: Prisma.EntitySnapshotUpdateManyWithoutStateNestedInput
@@ -1959,6 +2101,8 @@ export type InstanceStateUncheckedUpdateWithoutUserViewportsInput = {
   currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   children?: Prisma.InstanceStateUncheckedUpdateManyWithoutParentNestedInput
   evaluationState?: Prisma.InstanceEvaluationStateUncheckedUpdateOneWithoutStateNestedInput
   operationStates?: Prisma.InstanceOperationStateUncheckedUpdateManyWithoutStateNestedInput
@@ -1969,6 +2113,7 @@ export type InstanceStateUncheckedUpdateWithoutUserViewportsInput = {
   customStatuses?: Prisma.InstanceCustomStatusUncheckedUpdateManyWithoutStateNestedInput
   lock?: Prisma.InstanceLockUncheckedUpdateOneWithoutStateNestedInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedUpdateManyWithoutStateNestedInput
   artifacts?: Prisma.ArtifactUncheckedUpdateManyWithoutInstancesNestedInput
   operationLogs?: Prisma.OperationLogUncheckedUpdateManyWithoutStateNestedInput
   entitySnapshots?: Prisma.EntitySnapshotUncheckedUpdateManyWithoutStateNestedInput
@@ -1991,6 +2136,8 @@ export type InstanceStateCreateWithoutLockInput = {
   currentResourceCount?: number | null
   statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
   hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
   parent?: Prisma.InstanceStateCreateNestedOneWithoutChildrenInput
   children?: Prisma.InstanceStateCreateNestedManyWithoutParentInput
   evaluationState?: Prisma.InstanceEvaluationStateCreateNestedOneWithoutStateInput
@@ -2001,6 +2148,7 @@ export type InstanceStateCreateWithoutLockInput = {
   triggers?: Prisma.TriggerCreateNestedManyWithoutStateInput
   customStatuses?: Prisma.InstanceCustomStatusCreateNestedManyWithoutStateInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantCreateNestedManyWithoutStateInput
   artifacts?: Prisma.ArtifactCreateNestedManyWithoutInstancesInput
   operationLogs?: Prisma.OperationLogCreateNestedManyWithoutStateInput
   userViewports?: Prisma.UserCompositeViewportCreateNestedManyWithoutStateInput
@@ -2025,6 +2173,8 @@ export type InstanceStateUncheckedCreateWithoutLockInput = {
   currentResourceCount?: number | null
   statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
   hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
   children?: Prisma.InstanceStateUncheckedCreateNestedManyWithoutParentInput
   evaluationState?: Prisma.InstanceEvaluationStateUncheckedCreateNestedOneWithoutStateInput
   operationStates?: Prisma.InstanceOperationStateUncheckedCreateNestedManyWithoutStateInput
@@ -2034,6 +2184,7 @@ export type InstanceStateUncheckedCreateWithoutLockInput = {
   triggers?: Prisma.TriggerUncheckedCreateNestedManyWithoutStateInput
   customStatuses?: Prisma.InstanceCustomStatusUncheckedCreateNestedManyWithoutStateInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedCreateNestedManyWithoutStateInput
   artifacts?: Prisma.ArtifactUncheckedCreateNestedManyWithoutInstancesInput
   operationLogs?: Prisma.OperationLogUncheckedCreateNestedManyWithoutStateInput
   userViewports?: Prisma.UserCompositeViewportUncheckedCreateNestedManyWithoutStateInput
@@ -2073,6 +2224,8 @@ export type InstanceStateUpdateWithoutLockInput = {
   currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   parent?: Prisma.InstanceStateUpdateOneWithoutChildrenNestedInput
   children?: Prisma.InstanceStateUpdateManyWithoutParentNestedInput
   evaluationState?: Prisma.InstanceEvaluationStateUpdateOneWithoutStateNestedInput
@@ -2083,6 +2236,7 @@ export type InstanceStateUpdateWithoutLockInput = {
   triggers?: Prisma.TriggerUpdateManyWithoutStateNestedInput
   customStatuses?: Prisma.InstanceCustomStatusUpdateManyWithoutStateNestedInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUpdateManyWithoutStateNestedInput
   artifacts?: Prisma.ArtifactUpdateManyWithoutInstancesNestedInput
   operationLogs?: Prisma.OperationLogUpdateManyWithoutStateNestedInput
   userViewports?: Prisma.UserCompositeViewportUpdateManyWithoutStateNestedInput
@@ -2107,6 +2261,8 @@ export type InstanceStateUncheckedUpdateWithoutLockInput = {
   currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   children?: Prisma.InstanceStateUncheckedUpdateManyWithoutParentNestedInput
   evaluationState?: Prisma.InstanceEvaluationStateUncheckedUpdateOneWithoutStateNestedInput
   operationStates?: Prisma.InstanceOperationStateUncheckedUpdateManyWithoutStateNestedInput
@@ -2116,6 +2272,7 @@ export type InstanceStateUncheckedUpdateWithoutLockInput = {
   triggers?: Prisma.TriggerUncheckedUpdateManyWithoutStateNestedInput
   customStatuses?: Prisma.InstanceCustomStatusUncheckedUpdateManyWithoutStateNestedInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedUpdateManyWithoutStateNestedInput
   artifacts?: Prisma.ArtifactUncheckedUpdateManyWithoutInstancesNestedInput
   operationLogs?: Prisma.OperationLogUncheckedUpdateManyWithoutStateNestedInput
   userViewports?: Prisma.UserCompositeViewportUncheckedUpdateManyWithoutStateNestedInput
@@ -2139,6 +2296,8 @@ export type InstanceStateCreateWithoutOperationStatesInput = {
   currentResourceCount?: number | null
   statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
   hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
   parent?: Prisma.InstanceStateCreateNestedOneWithoutChildrenInput
   children?: Prisma.InstanceStateCreateNestedManyWithoutParentInput
   evaluationState?: Prisma.InstanceEvaluationStateCreateNestedOneWithoutStateInput
@@ -2149,6 +2308,7 @@ export type InstanceStateCreateWithoutOperationStatesInput = {
   customStatuses?: Prisma.InstanceCustomStatusCreateNestedManyWithoutStateInput
   lock?: Prisma.InstanceLockCreateNestedOneWithoutStateInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantCreateNestedManyWithoutStateInput
   artifacts?: Prisma.ArtifactCreateNestedManyWithoutInstancesInput
   operationLogs?: Prisma.OperationLogCreateNestedManyWithoutStateInput
   userViewports?: Prisma.UserCompositeViewportCreateNestedManyWithoutStateInput
@@ -2173,6 +2333,8 @@ export type InstanceStateUncheckedCreateWithoutOperationStatesInput = {
   currentResourceCount?: number | null
   statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
   hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
   children?: Prisma.InstanceStateUncheckedCreateNestedManyWithoutParentInput
   evaluationState?: Prisma.InstanceEvaluationStateUncheckedCreateNestedOneWithoutStateInput
   secrets?: Prisma.SecretUncheckedCreateNestedManyWithoutStateInput
@@ -2182,6 +2344,7 @@ export type InstanceStateUncheckedCreateWithoutOperationStatesInput = {
   customStatuses?: Prisma.InstanceCustomStatusUncheckedCreateNestedManyWithoutStateInput
   lock?: Prisma.InstanceLockUncheckedCreateNestedOneWithoutStateInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedCreateNestedManyWithoutStateInput
   artifacts?: Prisma.ArtifactUncheckedCreateNestedManyWithoutInstancesInput
   operationLogs?: Prisma.OperationLogUncheckedCreateNestedManyWithoutStateInput
   userViewports?: Prisma.UserCompositeViewportUncheckedCreateNestedManyWithoutStateInput
@@ -2221,6 +2384,8 @@ export type InstanceStateUpdateWithoutOperationStatesInput = {
   currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   parent?: Prisma.InstanceStateUpdateOneWithoutChildrenNestedInput
   children?: Prisma.InstanceStateUpdateManyWithoutParentNestedInput
   evaluationState?: Prisma.InstanceEvaluationStateUpdateOneWithoutStateNestedInput
@@ -2231,6 +2396,7 @@ export type InstanceStateUpdateWithoutOperationStatesInput = {
   customStatuses?: Prisma.InstanceCustomStatusUpdateManyWithoutStateNestedInput
   lock?: Prisma.InstanceLockUpdateOneWithoutStateNestedInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUpdateManyWithoutStateNestedInput
   artifacts?: Prisma.ArtifactUpdateManyWithoutInstancesNestedInput
   operationLogs?: Prisma.OperationLogUpdateManyWithoutStateNestedInput
   userViewports?: Prisma.UserCompositeViewportUpdateManyWithoutStateNestedInput
@@ -2255,6 +2421,8 @@ export type InstanceStateUncheckedUpdateWithoutOperationStatesInput = {
   currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   children?: Prisma.InstanceStateUncheckedUpdateManyWithoutParentNestedInput
   evaluationState?: Prisma.InstanceEvaluationStateUncheckedUpdateOneWithoutStateNestedInput
   secrets?: Prisma.SecretUncheckedUpdateManyWithoutStateNestedInput
@@ -2264,6 +2432,7 @@ export type InstanceStateUncheckedUpdateWithoutOperationStatesInput = {
   customStatuses?: Prisma.InstanceCustomStatusUncheckedUpdateManyWithoutStateNestedInput
   lock?: Prisma.InstanceLockUncheckedUpdateOneWithoutStateNestedInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedUpdateManyWithoutStateNestedInput
   artifacts?: Prisma.ArtifactUncheckedUpdateManyWithoutInstancesNestedInput
   operationLogs?: Prisma.OperationLogUncheckedUpdateManyWithoutStateNestedInput
   userViewports?: Prisma.UserCompositeViewportUncheckedUpdateManyWithoutStateNestedInput
@@ -2287,6 +2456,8 @@ export type InstanceStateCreateWithoutOperationLogsInput = {
   currentResourceCount?: number | null
   statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
   hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
   parent?: Prisma.InstanceStateCreateNestedOneWithoutChildrenInput
   children?: Prisma.InstanceStateCreateNestedManyWithoutParentInput
   evaluationState?: Prisma.InstanceEvaluationStateCreateNestedOneWithoutStateInput
@@ -2298,6 +2469,7 @@ export type InstanceStateCreateWithoutOperationLogsInput = {
   customStatuses?: Prisma.InstanceCustomStatusCreateNestedManyWithoutStateInput
   lock?: Prisma.InstanceLockCreateNestedOneWithoutStateInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantCreateNestedManyWithoutStateInput
   artifacts?: Prisma.ArtifactCreateNestedManyWithoutInstancesInput
   userViewports?: Prisma.UserCompositeViewportCreateNestedManyWithoutStateInput
   entitySnapshots?: Prisma.EntitySnapshotCreateNestedManyWithoutStateInput
@@ -2321,6 +2493,8 @@ export type InstanceStateUncheckedCreateWithoutOperationLogsInput = {
   currentResourceCount?: number | null
   statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
   hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
   children?: Prisma.InstanceStateUncheckedCreateNestedManyWithoutParentInput
   evaluationState?: Prisma.InstanceEvaluationStateUncheckedCreateNestedOneWithoutStateInput
   operationStates?: Prisma.InstanceOperationStateUncheckedCreateNestedManyWithoutStateInput
@@ -2331,6 +2505,7 @@ export type InstanceStateUncheckedCreateWithoutOperationLogsInput = {
   customStatuses?: Prisma.InstanceCustomStatusUncheckedCreateNestedManyWithoutStateInput
   lock?: Prisma.InstanceLockUncheckedCreateNestedOneWithoutStateInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedCreateNestedManyWithoutStateInput
   artifacts?: Prisma.ArtifactUncheckedCreateNestedManyWithoutInstancesInput
   userViewports?: Prisma.UserCompositeViewportUncheckedCreateNestedManyWithoutStateInput
   entitySnapshots?: Prisma.EntitySnapshotUncheckedCreateNestedManyWithoutStateInput
@@ -2369,6 +2544,8 @@ export type InstanceStateUpdateWithoutOperationLogsInput = {
   currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   parent?: Prisma.InstanceStateUpdateOneWithoutChildrenNestedInput
   children?: Prisma.InstanceStateUpdateManyWithoutParentNestedInput
   evaluationState?: Prisma.InstanceEvaluationStateUpdateOneWithoutStateNestedInput
@@ -2380,6 +2557,7 @@ export type InstanceStateUpdateWithoutOperationLogsInput = {
   customStatuses?: Prisma.InstanceCustomStatusUpdateManyWithoutStateNestedInput
   lock?: Prisma.InstanceLockUpdateOneWithoutStateNestedInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUpdateManyWithoutStateNestedInput
   artifacts?: Prisma.ArtifactUpdateManyWithoutInstancesNestedInput
   userViewports?: Prisma.UserCompositeViewportUpdateManyWithoutStateNestedInput
   entitySnapshots?: Prisma.EntitySnapshotUpdateManyWithoutStateNestedInput
@@ -2403,6 +2581,8 @@ export type InstanceStateUncheckedUpdateWithoutOperationLogsInput = {
   currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   children?: Prisma.InstanceStateUncheckedUpdateManyWithoutParentNestedInput
   evaluationState?: Prisma.InstanceEvaluationStateUncheckedUpdateOneWithoutStateNestedInput
   operationStates?: Prisma.InstanceOperationStateUncheckedUpdateManyWithoutStateNestedInput
@@ -2413,6 +2593,7 @@ export type InstanceStateUncheckedUpdateWithoutOperationLogsInput = {
   customStatuses?: Prisma.InstanceCustomStatusUncheckedUpdateManyWithoutStateNestedInput
   lock?: Prisma.InstanceLockUncheckedUpdateOneWithoutStateNestedInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedUpdateManyWithoutStateNestedInput
   artifacts?: Prisma.ArtifactUncheckedUpdateManyWithoutInstancesNestedInput
   userViewports?: Prisma.UserCompositeViewportUncheckedUpdateManyWithoutStateNestedInput
   entitySnapshots?: Prisma.EntitySnapshotUncheckedUpdateManyWithoutStateNestedInput
@@ -2435,6 +2616,8 @@ export type InstanceStateCreateWithoutPagesInput = {
   currentResourceCount?: number | null
   statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
   hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
   parent?: Prisma.InstanceStateCreateNestedOneWithoutChildrenInput
   children?: Prisma.InstanceStateCreateNestedManyWithoutParentInput
   evaluationState?: Prisma.InstanceEvaluationStateCreateNestedOneWithoutStateInput
@@ -2445,6 +2628,7 @@ export type InstanceStateCreateWithoutPagesInput = {
   customStatuses?: Prisma.InstanceCustomStatusCreateNestedManyWithoutStateInput
   lock?: Prisma.InstanceLockCreateNestedOneWithoutStateInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantCreateNestedManyWithoutStateInput
   artifacts?: Prisma.ArtifactCreateNestedManyWithoutInstancesInput
   operationLogs?: Prisma.OperationLogCreateNestedManyWithoutStateInput
   userViewports?: Prisma.UserCompositeViewportCreateNestedManyWithoutStateInput
@@ -2469,6 +2653,8 @@ export type InstanceStateUncheckedCreateWithoutPagesInput = {
   currentResourceCount?: number | null
   statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
   hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
   children?: Prisma.InstanceStateUncheckedCreateNestedManyWithoutParentInput
   evaluationState?: Prisma.InstanceEvaluationStateUncheckedCreateNestedOneWithoutStateInput
   operationStates?: Prisma.InstanceOperationStateUncheckedCreateNestedManyWithoutStateInput
@@ -2478,6 +2664,7 @@ export type InstanceStateUncheckedCreateWithoutPagesInput = {
   customStatuses?: Prisma.InstanceCustomStatusUncheckedCreateNestedManyWithoutStateInput
   lock?: Prisma.InstanceLockUncheckedCreateNestedOneWithoutStateInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedCreateNestedManyWithoutStateInput
   artifacts?: Prisma.ArtifactUncheckedCreateNestedManyWithoutInstancesInput
   operationLogs?: Prisma.OperationLogUncheckedCreateNestedManyWithoutStateInput
   userViewports?: Prisma.UserCompositeViewportUncheckedCreateNestedManyWithoutStateInput
@@ -2517,6 +2704,8 @@ export type InstanceStateUpdateWithoutPagesInput = {
   currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   parent?: Prisma.InstanceStateUpdateOneWithoutChildrenNestedInput
   children?: Prisma.InstanceStateUpdateManyWithoutParentNestedInput
   evaluationState?: Prisma.InstanceEvaluationStateUpdateOneWithoutStateNestedInput
@@ -2527,6 +2716,7 @@ export type InstanceStateUpdateWithoutPagesInput = {
   customStatuses?: Prisma.InstanceCustomStatusUpdateManyWithoutStateNestedInput
   lock?: Prisma.InstanceLockUpdateOneWithoutStateNestedInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUpdateManyWithoutStateNestedInput
   artifacts?: Prisma.ArtifactUpdateManyWithoutInstancesNestedInput
   operationLogs?: Prisma.OperationLogUpdateManyWithoutStateNestedInput
   userViewports?: Prisma.UserCompositeViewportUpdateManyWithoutStateNestedInput
@@ -2551,6 +2741,8 @@ export type InstanceStateUncheckedUpdateWithoutPagesInput = {
   currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   children?: Prisma.InstanceStateUncheckedUpdateManyWithoutParentNestedInput
   evaluationState?: Prisma.InstanceEvaluationStateUncheckedUpdateOneWithoutStateNestedInput
   operationStates?: Prisma.InstanceOperationStateUncheckedUpdateManyWithoutStateNestedInput
@@ -2560,6 +2752,7 @@ export type InstanceStateUncheckedUpdateWithoutPagesInput = {
   customStatuses?: Prisma.InstanceCustomStatusUncheckedUpdateManyWithoutStateNestedInput
   lock?: Prisma.InstanceLockUncheckedUpdateOneWithoutStateNestedInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedUpdateManyWithoutStateNestedInput
   artifacts?: Prisma.ArtifactUncheckedUpdateManyWithoutInstancesNestedInput
   operationLogs?: Prisma.OperationLogUncheckedUpdateManyWithoutStateNestedInput
   userViewports?: Prisma.UserCompositeViewportUncheckedUpdateManyWithoutStateNestedInput
@@ -2583,6 +2776,8 @@ export type InstanceStateCreateWithoutSecretsInput = {
   currentResourceCount?: number | null
   statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
   hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
   parent?: Prisma.InstanceStateCreateNestedOneWithoutChildrenInput
   children?: Prisma.InstanceStateCreateNestedManyWithoutParentInput
   evaluationState?: Prisma.InstanceEvaluationStateCreateNestedOneWithoutStateInput
@@ -2593,6 +2788,7 @@ export type InstanceStateCreateWithoutSecretsInput = {
   customStatuses?: Prisma.InstanceCustomStatusCreateNestedManyWithoutStateInput
   lock?: Prisma.InstanceLockCreateNestedOneWithoutStateInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantCreateNestedManyWithoutStateInput
   artifacts?: Prisma.ArtifactCreateNestedManyWithoutInstancesInput
   operationLogs?: Prisma.OperationLogCreateNestedManyWithoutStateInput
   userViewports?: Prisma.UserCompositeViewportCreateNestedManyWithoutStateInput
@@ -2617,6 +2813,8 @@ export type InstanceStateUncheckedCreateWithoutSecretsInput = {
   currentResourceCount?: number | null
   statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
   hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
   children?: Prisma.InstanceStateUncheckedCreateNestedManyWithoutParentInput
   evaluationState?: Prisma.InstanceEvaluationStateUncheckedCreateNestedOneWithoutStateInput
   operationStates?: Prisma.InstanceOperationStateUncheckedCreateNestedManyWithoutStateInput
@@ -2626,6 +2824,7 @@ export type InstanceStateUncheckedCreateWithoutSecretsInput = {
   customStatuses?: Prisma.InstanceCustomStatusUncheckedCreateNestedManyWithoutStateInput
   lock?: Prisma.InstanceLockUncheckedCreateNestedOneWithoutStateInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedCreateNestedManyWithoutStateInput
   artifacts?: Prisma.ArtifactUncheckedCreateNestedManyWithoutInstancesInput
   operationLogs?: Prisma.OperationLogUncheckedCreateNestedManyWithoutStateInput
   userViewports?: Prisma.UserCompositeViewportUncheckedCreateNestedManyWithoutStateInput
@@ -2665,6 +2864,8 @@ export type InstanceStateUpdateWithoutSecretsInput = {
   currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   parent?: Prisma.InstanceStateUpdateOneWithoutChildrenNestedInput
   children?: Prisma.InstanceStateUpdateManyWithoutParentNestedInput
   evaluationState?: Prisma.InstanceEvaluationStateUpdateOneWithoutStateNestedInput
@@ -2675,6 +2876,7 @@ export type InstanceStateUpdateWithoutSecretsInput = {
   customStatuses?: Prisma.InstanceCustomStatusUpdateManyWithoutStateNestedInput
   lock?: Prisma.InstanceLockUpdateOneWithoutStateNestedInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUpdateManyWithoutStateNestedInput
   artifacts?: Prisma.ArtifactUpdateManyWithoutInstancesNestedInput
   operationLogs?: Prisma.OperationLogUpdateManyWithoutStateNestedInput
   userViewports?: Prisma.UserCompositeViewportUpdateManyWithoutStateNestedInput
@@ -2699,9 +2901,172 @@ export type InstanceStateUncheckedUpdateWithoutSecretsInput = {
   currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  children?: Prisma.InstanceStateUncheckedUpdateManyWithoutParentNestedInput
+  evaluationState?: Prisma.InstanceEvaluationStateUncheckedUpdateOneWithoutStateNestedInput
+  operationStates?: Prisma.InstanceOperationStateUncheckedUpdateManyWithoutStateNestedInput
+  terminals?: Prisma.TerminalUncheckedUpdateManyWithoutStateNestedInput
+  pages?: Prisma.PageUncheckedUpdateManyWithoutStateNestedInput
+  triggers?: Prisma.TriggerUncheckedUpdateManyWithoutStateNestedInput
+  customStatuses?: Prisma.InstanceCustomStatusUncheckedUpdateManyWithoutStateNestedInput
+  lock?: Prisma.InstanceLockUncheckedUpdateOneWithoutStateNestedInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedUpdateManyWithoutStateNestedInput
+  artifacts?: Prisma.ArtifactUncheckedUpdateManyWithoutInstancesNestedInput
+  operationLogs?: Prisma.OperationLogUncheckedUpdateManyWithoutStateNestedInput
+  userViewports?: Prisma.UserCompositeViewportUncheckedUpdateManyWithoutStateNestedInput
+  entitySnapshots?: Prisma.EntitySnapshotUncheckedUpdateManyWithoutStateNestedInput
+}
+
+export type InstanceStateCreateWithoutServiceAccountGrantsInput = {
+  id?: string
+  instanceId:PrismaJson.InstanceId
+  status: $Enums.InstanceStatus
+  source: $Enums.InstanceSource
+  kind:PrismaJson.InstanceKind
+  inputHashNonce?: number | null
+  selfHash?: number | null
+  inputHash?: number | null
+  outputHash?: number | null
+  dependencyOutputHash?: number | null
+  exportedArtifactIds?:PrismaJson.InstanceArtifactIds | Prisma.NullableJsonNullValueInput
+  model?:PrismaJson.InstanceModel | Prisma.NullableJsonNullValueInput
+  resolvedInputs?:PrismaJson.InstanceResolvedInputs | Prisma.NullableJsonNullValueInput
+  currentResourceCount?: number | null
+  statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
+  hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
+  parent?: Prisma.InstanceStateCreateNestedOneWithoutChildrenInput
+  children?: Prisma.InstanceStateCreateNestedManyWithoutParentInput
+  evaluationState?: Prisma.InstanceEvaluationStateCreateNestedOneWithoutStateInput
+  operationStates?: Prisma.InstanceOperationStateCreateNestedManyWithoutStateInput
+  secrets?: Prisma.SecretCreateNestedManyWithoutStateInput
+  terminals?: Prisma.TerminalCreateNestedManyWithoutStateInput
+  pages?: Prisma.PageCreateNestedManyWithoutStateInput
+  triggers?: Prisma.TriggerCreateNestedManyWithoutStateInput
+  customStatuses?: Prisma.InstanceCustomStatusCreateNestedManyWithoutStateInput
+  lock?: Prisma.InstanceLockCreateNestedOneWithoutStateInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationCreateNestedManyWithoutStateInput
+  artifacts?: Prisma.ArtifactCreateNestedManyWithoutInstancesInput
+  operationLogs?: Prisma.OperationLogCreateNestedManyWithoutStateInput
+  userViewports?: Prisma.UserCompositeViewportCreateNestedManyWithoutStateInput
+  entitySnapshots?: Prisma.EntitySnapshotCreateNestedManyWithoutStateInput
+}
+
+export type InstanceStateUncheckedCreateWithoutServiceAccountGrantsInput = {
+  id?: string
+  instanceId:PrismaJson.InstanceId
+  status: $Enums.InstanceStatus
+  source: $Enums.InstanceSource
+  kind:PrismaJson.InstanceKind
+  parentId?: string | null
+  inputHashNonce?: number | null
+  selfHash?: number | null
+  inputHash?: number | null
+  outputHash?: number | null
+  dependencyOutputHash?: number | null
+  exportedArtifactIds?:PrismaJson.InstanceArtifactIds | Prisma.NullableJsonNullValueInput
+  model?:PrismaJson.InstanceModel | Prisma.NullableJsonNullValueInput
+  resolvedInputs?:PrismaJson.InstanceResolvedInputs | Prisma.NullableJsonNullValueInput
+  currentResourceCount?: number | null
+  statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
+  hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
+  children?: Prisma.InstanceStateUncheckedCreateNestedManyWithoutParentInput
+  evaluationState?: Prisma.InstanceEvaluationStateUncheckedCreateNestedOneWithoutStateInput
+  operationStates?: Prisma.InstanceOperationStateUncheckedCreateNestedManyWithoutStateInput
+  secrets?: Prisma.SecretUncheckedCreateNestedManyWithoutStateInput
+  terminals?: Prisma.TerminalUncheckedCreateNestedManyWithoutStateInput
+  pages?: Prisma.PageUncheckedCreateNestedManyWithoutStateInput
+  triggers?: Prisma.TriggerUncheckedCreateNestedManyWithoutStateInput
+  customStatuses?: Prisma.InstanceCustomStatusUncheckedCreateNestedManyWithoutStateInput
+  lock?: Prisma.InstanceLockUncheckedCreateNestedOneWithoutStateInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedCreateNestedManyWithoutStateInput
+  artifacts?: Prisma.ArtifactUncheckedCreateNestedManyWithoutInstancesInput
+  operationLogs?: Prisma.OperationLogUncheckedCreateNestedManyWithoutStateInput
+  userViewports?: Prisma.UserCompositeViewportUncheckedCreateNestedManyWithoutStateInput
+  entitySnapshots?: Prisma.EntitySnapshotUncheckedCreateNestedManyWithoutStateInput
+}
+
+export type InstanceStateCreateOrConnectWithoutServiceAccountGrantsInput = {
+  where: Prisma.InstanceStateWhereUniqueInput
+  create: Prisma.XOR<Prisma.InstanceStateCreateWithoutServiceAccountGrantsInput, Prisma.InstanceStateUncheckedCreateWithoutServiceAccountGrantsInput>
+}
+
+export type InstanceStateUpsertWithoutServiceAccountGrantsInput = {
+  update: Prisma.XOR<Prisma.InstanceStateUpdateWithoutServiceAccountGrantsInput, Prisma.InstanceStateUncheckedUpdateWithoutServiceAccountGrantsInput>
+  create: Prisma.XOR<Prisma.InstanceStateCreateWithoutServiceAccountGrantsInput, Prisma.InstanceStateUncheckedCreateWithoutServiceAccountGrantsInput>
+  where?: Prisma.InstanceStateWhereInput
+}
+
+export type InstanceStateUpdateToOneWithWhereWithoutServiceAccountGrantsInput = {
+  where?: Prisma.InstanceStateWhereInput
+  data: Prisma.XOR<Prisma.InstanceStateUpdateWithoutServiceAccountGrantsInput, Prisma.InstanceStateUncheckedUpdateWithoutServiceAccountGrantsInput>
+}
+
+export type InstanceStateUpdateWithoutServiceAccountGrantsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  instanceId?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumInstanceStatusFieldUpdateOperationsInput | $Enums.InstanceStatus
+  source?: Prisma.EnumInstanceSourceFieldUpdateOperationsInput | $Enums.InstanceSource
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  inputHashNonce?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  selfHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  inputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  outputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  dependencyOutputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  exportedArtifactIds?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  model?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  resolvedInputs?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  parent?: Prisma.InstanceStateUpdateOneWithoutChildrenNestedInput
+  children?: Prisma.InstanceStateUpdateManyWithoutParentNestedInput
+  evaluationState?: Prisma.InstanceEvaluationStateUpdateOneWithoutStateNestedInput
+  operationStates?: Prisma.InstanceOperationStateUpdateManyWithoutStateNestedInput
+  secrets?: Prisma.SecretUpdateManyWithoutStateNestedInput
+  terminals?: Prisma.TerminalUpdateManyWithoutStateNestedInput
+  pages?: Prisma.PageUpdateManyWithoutStateNestedInput
+  triggers?: Prisma.TriggerUpdateManyWithoutStateNestedInput
+  customStatuses?: Prisma.InstanceCustomStatusUpdateManyWithoutStateNestedInput
+  lock?: Prisma.InstanceLockUpdateOneWithoutStateNestedInput
+  workerRegistrations?: Prisma.WorkerUnitRegistrationUpdateManyWithoutStateNestedInput
+  artifacts?: Prisma.ArtifactUpdateManyWithoutInstancesNestedInput
+  operationLogs?: Prisma.OperationLogUpdateManyWithoutStateNestedInput
+  userViewports?: Prisma.UserCompositeViewportUpdateManyWithoutStateNestedInput
+  entitySnapshots?: Prisma.EntitySnapshotUpdateManyWithoutStateNestedInput
+}
+
+export type InstanceStateUncheckedUpdateWithoutServiceAccountGrantsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  instanceId?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumInstanceStatusFieldUpdateOperationsInput | $Enums.InstanceStatus
+  source?: Prisma.EnumInstanceSourceFieldUpdateOperationsInput | $Enums.InstanceSource
+  kind?: Prisma.StringFieldUpdateOperationsInput | string
+  parentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  inputHashNonce?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  selfHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  inputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  outputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  dependencyOutputHash?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  exportedArtifactIds?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  model?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  resolvedInputs?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   children?: Prisma.InstanceStateUncheckedUpdateManyWithoutParentNestedInput
   evaluationState?: Prisma.InstanceEvaluationStateUncheckedUpdateOneWithoutStateNestedInput
   operationStates?: Prisma.InstanceOperationStateUncheckedUpdateManyWithoutStateNestedInput
+  secrets?: Prisma.SecretUncheckedUpdateManyWithoutStateNestedInput
   terminals?: Prisma.TerminalUncheckedUpdateManyWithoutStateNestedInput
   pages?: Prisma.PageUncheckedUpdateManyWithoutStateNestedInput
   triggers?: Prisma.TriggerUncheckedUpdateManyWithoutStateNestedInput
@@ -2731,6 +3096,8 @@ export type InstanceStateCreateWithoutTerminalsInput = {
   currentResourceCount?: number | null
   statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
   hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
   parent?: Prisma.InstanceStateCreateNestedOneWithoutChildrenInput
   children?: Prisma.InstanceStateCreateNestedManyWithoutParentInput
   evaluationState?: Prisma.InstanceEvaluationStateCreateNestedOneWithoutStateInput
@@ -2741,6 +3108,7 @@ export type InstanceStateCreateWithoutTerminalsInput = {
   customStatuses?: Prisma.InstanceCustomStatusCreateNestedManyWithoutStateInput
   lock?: Prisma.InstanceLockCreateNestedOneWithoutStateInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantCreateNestedManyWithoutStateInput
   artifacts?: Prisma.ArtifactCreateNestedManyWithoutInstancesInput
   operationLogs?: Prisma.OperationLogCreateNestedManyWithoutStateInput
   userViewports?: Prisma.UserCompositeViewportCreateNestedManyWithoutStateInput
@@ -2765,6 +3133,8 @@ export type InstanceStateUncheckedCreateWithoutTerminalsInput = {
   currentResourceCount?: number | null
   statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
   hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
   children?: Prisma.InstanceStateUncheckedCreateNestedManyWithoutParentInput
   evaluationState?: Prisma.InstanceEvaluationStateUncheckedCreateNestedOneWithoutStateInput
   operationStates?: Prisma.InstanceOperationStateUncheckedCreateNestedManyWithoutStateInput
@@ -2774,6 +3144,7 @@ export type InstanceStateUncheckedCreateWithoutTerminalsInput = {
   customStatuses?: Prisma.InstanceCustomStatusUncheckedCreateNestedManyWithoutStateInput
   lock?: Prisma.InstanceLockUncheckedCreateNestedOneWithoutStateInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedCreateNestedManyWithoutStateInput
   artifacts?: Prisma.ArtifactUncheckedCreateNestedManyWithoutInstancesInput
   operationLogs?: Prisma.OperationLogUncheckedCreateNestedManyWithoutStateInput
   userViewports?: Prisma.UserCompositeViewportUncheckedCreateNestedManyWithoutStateInput
@@ -2813,6 +3184,8 @@ export type InstanceStateUpdateWithoutTerminalsInput = {
   currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   parent?: Prisma.InstanceStateUpdateOneWithoutChildrenNestedInput
   children?: Prisma.InstanceStateUpdateManyWithoutParentNestedInput
   evaluationState?: Prisma.InstanceEvaluationStateUpdateOneWithoutStateNestedInput
@@ -2823,6 +3196,7 @@ export type InstanceStateUpdateWithoutTerminalsInput = {
   customStatuses?: Prisma.InstanceCustomStatusUpdateManyWithoutStateNestedInput
   lock?: Prisma.InstanceLockUpdateOneWithoutStateNestedInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUpdateManyWithoutStateNestedInput
   artifacts?: Prisma.ArtifactUpdateManyWithoutInstancesNestedInput
   operationLogs?: Prisma.OperationLogUpdateManyWithoutStateNestedInput
   userViewports?: Prisma.UserCompositeViewportUpdateManyWithoutStateNestedInput
@@ -2847,6 +3221,8 @@ export type InstanceStateUncheckedUpdateWithoutTerminalsInput = {
   currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   children?: Prisma.InstanceStateUncheckedUpdateManyWithoutParentNestedInput
   evaluationState?: Prisma.InstanceEvaluationStateUncheckedUpdateOneWithoutStateNestedInput
   operationStates?: Prisma.InstanceOperationStateUncheckedUpdateManyWithoutStateNestedInput
@@ -2856,6 +3232,7 @@ export type InstanceStateUncheckedUpdateWithoutTerminalsInput = {
   customStatuses?: Prisma.InstanceCustomStatusUncheckedUpdateManyWithoutStateNestedInput
   lock?: Prisma.InstanceLockUncheckedUpdateOneWithoutStateNestedInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedUpdateManyWithoutStateNestedInput
   artifacts?: Prisma.ArtifactUncheckedUpdateManyWithoutInstancesNestedInput
   operationLogs?: Prisma.OperationLogUncheckedUpdateManyWithoutStateNestedInput
   userViewports?: Prisma.UserCompositeViewportUncheckedUpdateManyWithoutStateNestedInput
@@ -2879,6 +3256,8 @@ export type InstanceStateCreateWithoutTriggersInput = {
   currentResourceCount?: number | null
   statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
   hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
   parent?: Prisma.InstanceStateCreateNestedOneWithoutChildrenInput
   children?: Prisma.InstanceStateCreateNestedManyWithoutParentInput
   evaluationState?: Prisma.InstanceEvaluationStateCreateNestedOneWithoutStateInput
@@ -2889,6 +3268,7 @@ export type InstanceStateCreateWithoutTriggersInput = {
   customStatuses?: Prisma.InstanceCustomStatusCreateNestedManyWithoutStateInput
   lock?: Prisma.InstanceLockCreateNestedOneWithoutStateInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantCreateNestedManyWithoutStateInput
   artifacts?: Prisma.ArtifactCreateNestedManyWithoutInstancesInput
   operationLogs?: Prisma.OperationLogCreateNestedManyWithoutStateInput
   userViewports?: Prisma.UserCompositeViewportCreateNestedManyWithoutStateInput
@@ -2913,6 +3293,8 @@ export type InstanceStateUncheckedCreateWithoutTriggersInput = {
   currentResourceCount?: number | null
   statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
   hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
   children?: Prisma.InstanceStateUncheckedCreateNestedManyWithoutParentInput
   evaluationState?: Prisma.InstanceEvaluationStateUncheckedCreateNestedOneWithoutStateInput
   operationStates?: Prisma.InstanceOperationStateUncheckedCreateNestedManyWithoutStateInput
@@ -2922,6 +3304,7 @@ export type InstanceStateUncheckedCreateWithoutTriggersInput = {
   customStatuses?: Prisma.InstanceCustomStatusUncheckedCreateNestedManyWithoutStateInput
   lock?: Prisma.InstanceLockUncheckedCreateNestedOneWithoutStateInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedCreateNestedManyWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedCreateNestedManyWithoutStateInput
   artifacts?: Prisma.ArtifactUncheckedCreateNestedManyWithoutInstancesInput
   operationLogs?: Prisma.OperationLogUncheckedCreateNestedManyWithoutStateInput
   userViewports?: Prisma.UserCompositeViewportUncheckedCreateNestedManyWithoutStateInput
@@ -2961,6 +3344,8 @@ export type InstanceStateUpdateWithoutTriggersInput = {
   currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   parent?: Prisma.InstanceStateUpdateOneWithoutChildrenNestedInput
   children?: Prisma.InstanceStateUpdateManyWithoutParentNestedInput
   evaluationState?: Prisma.InstanceEvaluationStateUpdateOneWithoutStateNestedInput
@@ -2971,6 +3356,7 @@ export type InstanceStateUpdateWithoutTriggersInput = {
   customStatuses?: Prisma.InstanceCustomStatusUpdateManyWithoutStateNestedInput
   lock?: Prisma.InstanceLockUpdateOneWithoutStateNestedInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUpdateManyWithoutStateNestedInput
   artifacts?: Prisma.ArtifactUpdateManyWithoutInstancesNestedInput
   operationLogs?: Prisma.OperationLogUpdateManyWithoutStateNestedInput
   userViewports?: Prisma.UserCompositeViewportUpdateManyWithoutStateNestedInput
@@ -2995,6 +3381,8 @@ export type InstanceStateUncheckedUpdateWithoutTriggersInput = {
   currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   children?: Prisma.InstanceStateUncheckedUpdateManyWithoutParentNestedInput
   evaluationState?: Prisma.InstanceEvaluationStateUncheckedUpdateOneWithoutStateNestedInput
   operationStates?: Prisma.InstanceOperationStateUncheckedUpdateManyWithoutStateNestedInput
@@ -3004,6 +3392,7 @@ export type InstanceStateUncheckedUpdateWithoutTriggersInput = {
   customStatuses?: Prisma.InstanceCustomStatusUncheckedUpdateManyWithoutStateNestedInput
   lock?: Prisma.InstanceLockUncheckedUpdateOneWithoutStateNestedInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedUpdateManyWithoutStateNestedInput
   artifacts?: Prisma.ArtifactUncheckedUpdateManyWithoutInstancesNestedInput
   operationLogs?: Prisma.OperationLogUncheckedUpdateManyWithoutStateNestedInput
   userViewports?: Prisma.UserCompositeViewportUncheckedUpdateManyWithoutStateNestedInput
@@ -3027,6 +3416,8 @@ export type InstanceStateCreateWithoutWorkerRegistrationsInput = {
   currentResourceCount?: number | null
   statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
   hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
   parent?: Prisma.InstanceStateCreateNestedOneWithoutChildrenInput
   children?: Prisma.InstanceStateCreateNestedManyWithoutParentInput
   evaluationState?: Prisma.InstanceEvaluationStateCreateNestedOneWithoutStateInput
@@ -3037,6 +3428,7 @@ export type InstanceStateCreateWithoutWorkerRegistrationsInput = {
   triggers?: Prisma.TriggerCreateNestedManyWithoutStateInput
   customStatuses?: Prisma.InstanceCustomStatusCreateNestedManyWithoutStateInput
   lock?: Prisma.InstanceLockCreateNestedOneWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantCreateNestedManyWithoutStateInput
   artifacts?: Prisma.ArtifactCreateNestedManyWithoutInstancesInput
   operationLogs?: Prisma.OperationLogCreateNestedManyWithoutStateInput
   userViewports?: Prisma.UserCompositeViewportCreateNestedManyWithoutStateInput
@@ -3061,6 +3453,8 @@ export type InstanceStateUncheckedCreateWithoutWorkerRegistrationsInput = {
   currentResourceCount?: number | null
   statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
   hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
   children?: Prisma.InstanceStateUncheckedCreateNestedManyWithoutParentInput
   evaluationState?: Prisma.InstanceEvaluationStateUncheckedCreateNestedOneWithoutStateInput
   operationStates?: Prisma.InstanceOperationStateUncheckedCreateNestedManyWithoutStateInput
@@ -3070,6 +3464,7 @@ export type InstanceStateUncheckedCreateWithoutWorkerRegistrationsInput = {
   triggers?: Prisma.TriggerUncheckedCreateNestedManyWithoutStateInput
   customStatuses?: Prisma.InstanceCustomStatusUncheckedCreateNestedManyWithoutStateInput
   lock?: Prisma.InstanceLockUncheckedCreateNestedOneWithoutStateInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedCreateNestedManyWithoutStateInput
   artifacts?: Prisma.ArtifactUncheckedCreateNestedManyWithoutInstancesInput
   operationLogs?: Prisma.OperationLogUncheckedCreateNestedManyWithoutStateInput
   userViewports?: Prisma.UserCompositeViewportUncheckedCreateNestedManyWithoutStateInput
@@ -3109,6 +3504,8 @@ export type InstanceStateUpdateWithoutWorkerRegistrationsInput = {
   currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   parent?: Prisma.InstanceStateUpdateOneWithoutChildrenNestedInput
   children?: Prisma.InstanceStateUpdateManyWithoutParentNestedInput
   evaluationState?: Prisma.InstanceEvaluationStateUpdateOneWithoutStateNestedInput
@@ -3119,6 +3516,7 @@ export type InstanceStateUpdateWithoutWorkerRegistrationsInput = {
   triggers?: Prisma.TriggerUpdateManyWithoutStateNestedInput
   customStatuses?: Prisma.InstanceCustomStatusUpdateManyWithoutStateNestedInput
   lock?: Prisma.InstanceLockUpdateOneWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUpdateManyWithoutStateNestedInput
   artifacts?: Prisma.ArtifactUpdateManyWithoutInstancesNestedInput
   operationLogs?: Prisma.OperationLogUpdateManyWithoutStateNestedInput
   userViewports?: Prisma.UserCompositeViewportUpdateManyWithoutStateNestedInput
@@ -3143,6 +3541,8 @@ export type InstanceStateUncheckedUpdateWithoutWorkerRegistrationsInput = {
   currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   children?: Prisma.InstanceStateUncheckedUpdateManyWithoutParentNestedInput
   evaluationState?: Prisma.InstanceEvaluationStateUncheckedUpdateOneWithoutStateNestedInput
   operationStates?: Prisma.InstanceOperationStateUncheckedUpdateManyWithoutStateNestedInput
@@ -3152,6 +3552,7 @@ export type InstanceStateUncheckedUpdateWithoutWorkerRegistrationsInput = {
   triggers?: Prisma.TriggerUncheckedUpdateManyWithoutStateNestedInput
   customStatuses?: Prisma.InstanceCustomStatusUncheckedUpdateManyWithoutStateNestedInput
   lock?: Prisma.InstanceLockUncheckedUpdateOneWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedUpdateManyWithoutStateNestedInput
   artifacts?: Prisma.ArtifactUncheckedUpdateManyWithoutInstancesNestedInput
   operationLogs?: Prisma.OperationLogUncheckedUpdateManyWithoutStateNestedInput
   userViewports?: Prisma.UserCompositeViewportUncheckedUpdateManyWithoutStateNestedInput
@@ -3175,6 +3576,8 @@ export type InstanceStateUpdateWithoutArtifactsInput = {
   currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   parent?: Prisma.InstanceStateUpdateOneWithoutChildrenNestedInput
   children?: Prisma.InstanceStateUpdateManyWithoutParentNestedInput
   evaluationState?: Prisma.InstanceEvaluationStateUpdateOneWithoutStateNestedInput
@@ -3186,6 +3589,7 @@ export type InstanceStateUpdateWithoutArtifactsInput = {
   customStatuses?: Prisma.InstanceCustomStatusUpdateManyWithoutStateNestedInput
   lock?: Prisma.InstanceLockUpdateOneWithoutStateNestedInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUpdateManyWithoutStateNestedInput
   operationLogs?: Prisma.OperationLogUpdateManyWithoutStateNestedInput
   userViewports?: Prisma.UserCompositeViewportUpdateManyWithoutStateNestedInput
   entitySnapshots?: Prisma.EntitySnapshotUpdateManyWithoutStateNestedInput
@@ -3209,6 +3613,8 @@ export type InstanceStateUncheckedUpdateWithoutArtifactsInput = {
   currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   children?: Prisma.InstanceStateUncheckedUpdateManyWithoutParentNestedInput
   evaluationState?: Prisma.InstanceEvaluationStateUncheckedUpdateOneWithoutStateNestedInput
   operationStates?: Prisma.InstanceOperationStateUncheckedUpdateManyWithoutStateNestedInput
@@ -3219,6 +3625,7 @@ export type InstanceStateUncheckedUpdateWithoutArtifactsInput = {
   customStatuses?: Prisma.InstanceCustomStatusUncheckedUpdateManyWithoutStateNestedInput
   lock?: Prisma.InstanceLockUncheckedUpdateOneWithoutStateNestedInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedUpdateManyWithoutStateNestedInput
   operationLogs?: Prisma.OperationLogUncheckedUpdateManyWithoutStateNestedInput
   userViewports?: Prisma.UserCompositeViewportUncheckedUpdateManyWithoutStateNestedInput
   entitySnapshots?: Prisma.EntitySnapshotUncheckedUpdateManyWithoutStateNestedInput
@@ -3242,6 +3649,8 @@ export type InstanceStateUncheckedUpdateManyWithoutArtifactsInput = {
   currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
 }
 
 export type InstanceStateCreateManyParentInput = {
@@ -3261,6 +3670,8 @@ export type InstanceStateCreateManyParentInput = {
   currentResourceCount?: number | null
   statusFields?:PrismaJson.InstanceStatusFields | Prisma.NullableJsonNullValueInput
   hasResourceHooks?: boolean
+  lastEditedBy?: string | null
+  lastEditedAt?: Date | string | null
 }
 
 export type InstanceStateUpdateWithoutParentInput = {
@@ -3280,6 +3691,8 @@ export type InstanceStateUpdateWithoutParentInput = {
   currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   children?: Prisma.InstanceStateUpdateManyWithoutParentNestedInput
   evaluationState?: Prisma.InstanceEvaluationStateUpdateOneWithoutStateNestedInput
   operationStates?: Prisma.InstanceOperationStateUpdateManyWithoutStateNestedInput
@@ -3290,6 +3703,7 @@ export type InstanceStateUpdateWithoutParentInput = {
   customStatuses?: Prisma.InstanceCustomStatusUpdateManyWithoutStateNestedInput
   lock?: Prisma.InstanceLockUpdateOneWithoutStateNestedInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUpdateManyWithoutStateNestedInput
   artifacts?: Prisma.ArtifactUpdateManyWithoutInstancesNestedInput
   operationLogs?: Prisma.OperationLogUpdateManyWithoutStateNestedInput
   userViewports?: Prisma.UserCompositeViewportUpdateManyWithoutStateNestedInput
@@ -3313,6 +3727,8 @@ export type InstanceStateUncheckedUpdateWithoutParentInput = {
   currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   children?: Prisma.InstanceStateUncheckedUpdateManyWithoutParentNestedInput
   evaluationState?: Prisma.InstanceEvaluationStateUncheckedUpdateOneWithoutStateNestedInput
   operationStates?: Prisma.InstanceOperationStateUncheckedUpdateManyWithoutStateNestedInput
@@ -3323,6 +3739,7 @@ export type InstanceStateUncheckedUpdateWithoutParentInput = {
   customStatuses?: Prisma.InstanceCustomStatusUncheckedUpdateManyWithoutStateNestedInput
   lock?: Prisma.InstanceLockUncheckedUpdateOneWithoutStateNestedInput
   workerRegistrations?: Prisma.WorkerUnitRegistrationUncheckedUpdateManyWithoutStateNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedUpdateManyWithoutStateNestedInput
   artifacts?: Prisma.ArtifactUncheckedUpdateManyWithoutInstancesNestedInput
   operationLogs?: Prisma.OperationLogUncheckedUpdateManyWithoutStateNestedInput
   userViewports?: Prisma.UserCompositeViewportUncheckedUpdateManyWithoutStateNestedInput
@@ -3346,6 +3763,8 @@ export type InstanceStateUncheckedUpdateManyWithoutParentInput = {
   currentResourceCount?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   statusFields?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   hasResourceHooks?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastEditedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lastEditedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
 }
 
 
@@ -3362,6 +3781,7 @@ export type InstanceStateCountOutputType = {
   triggers: number
   customStatuses: number
   workerRegistrations: number
+  serviceAccountGrants: number
   artifacts: number
   operationLogs: number
   userViewports: number
@@ -3377,6 +3797,7 @@ export type InstanceStateCountOutputTypeSelect<ExtArgs extends runtime.Types.Ext
   triggers?: boolean | InstanceStateCountOutputTypeCountTriggersArgs
   customStatuses?: boolean | InstanceStateCountOutputTypeCountCustomStatusesArgs
   workerRegistrations?: boolean | InstanceStateCountOutputTypeCountWorkerRegistrationsArgs
+  serviceAccountGrants?: boolean | InstanceStateCountOutputTypeCountServiceAccountGrantsArgs
   artifacts?: boolean | InstanceStateCountOutputTypeCountArtifactsArgs
   operationLogs?: boolean | InstanceStateCountOutputTypeCountOperationLogsArgs
   userViewports?: boolean | InstanceStateCountOutputTypeCountUserViewportsArgs
@@ -3449,6 +3870,13 @@ export type InstanceStateCountOutputTypeCountWorkerRegistrationsArgs<ExtArgs ext
   where?: Prisma.WorkerUnitRegistrationWhereInput
 }
 
+/**
+ * InstanceStateCountOutputType without action
+ */
+export type InstanceStateCountOutputTypeCountServiceAccountGrantsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ServiceAccountGrantWhereInput
+}
+
 /**
  * InstanceStateCountOutputType without action
  */
@@ -3496,6 +3924,8 @@ export type InstanceStateSelect<ExtArgs extends runtime.Types.Extensions.Interna
   currentResourceCount?: boolean
   statusFields?: boolean
   hasResourceHooks?: boolean
+  lastEditedBy?: boolean
+  lastEditedAt?: boolean
   parent?: boolean | Prisma.InstanceState$parentArgs<ExtArgs>
   children?: boolean | Prisma.InstanceState$childrenArgs<ExtArgs>
   evaluationState?: boolean | Prisma.InstanceState$evaluationStateArgs<ExtArgs>
@@ -3507,6 +3937,7 @@ export type InstanceStateSelect<ExtArgs extends runtime.Types.Extensions.Interna
   customStatuses?: boolean | Prisma.InstanceState$customStatusesArgs<ExtArgs>
   lock?: boolean | Prisma.InstanceState$lockArgs<ExtArgs>
   workerRegistrations?: boolean | Prisma.InstanceState$workerRegistrationsArgs<ExtArgs>
+  serviceAccountGrants?: boolean | Prisma.InstanceState$serviceAccountGrantsArgs<ExtArgs>
   artifacts?: boolean | Prisma.InstanceState$artifactsArgs<ExtArgs>
   operationLogs?: boolean | Prisma.InstanceState$operationLogsArgs<ExtArgs>
   userViewports?: boolean | Prisma.InstanceState$userViewportsArgs<ExtArgs>
@@ -3532,6 +3963,8 @@ export type InstanceStateSelectCreateManyAndReturn<ExtArgs extends runtime.Types
   currentResourceCount?: boolean
   statusFields?: boolean
   hasResourceHooks?: boolean
+  lastEditedBy?: boolean
+  lastEditedAt?: boolean
   parent?: boolean | Prisma.InstanceState$parentArgs<ExtArgs>
 }, ExtArgs["result"]["instanceState"]>
 
@@ -3553,6 +3986,8 @@ export type InstanceStateSelectUpdateManyAndReturn<ExtArgs extends runtime.Types
   currentResourceCount?: boolean
   statusFields?: boolean
   hasResourceHooks?: boolean
+  lastEditedBy?: boolean
+  lastEditedAt?: boolean
   parent?: boolean | Prisma.InstanceState$parentArgs<ExtArgs>
 }, ExtArgs["result"]["instanceState"]>
 
@@ -3574,9 +4009,11 @@ export type InstanceStateSelectScalar = {
   currentResourceCount?: boolean
   statusFields?: boolean
   hasResourceHooks?: boolean
+  lastEditedBy?: boolean
+  lastEditedAt?: boolean
 }
 
-export type InstanceStateOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "instanceId" | "status" | "source" | "kind" | "parentId" | "inputHashNonce" | "selfHash" | "inputHash" | "outputHash" | "dependencyOutputHash" | "exportedArtifactIds" | "model" | "resolvedInputs" | "currentResourceCount" | "statusFields" | "hasResourceHooks", ExtArgs["result"]["instanceState"]>
+export type InstanceStateOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "instanceId" | "status" | "source" | "kind" | "parentId" | "inputHashNonce" | "selfHash" | "inputHash" | "outputHash" | "dependencyOutputHash" | "exportedArtifactIds" | "model" | "resolvedInputs" | "currentResourceCount" | "statusFields" | "hasResourceHooks" | "lastEditedBy" | "lastEditedAt", ExtArgs["result"]["instanceState"]>
 export type InstanceStateInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   parent?: boolean | Prisma.InstanceState$parentArgs<ExtArgs>
   children?: boolean | Prisma.InstanceState$childrenArgs<ExtArgs>
@@ -3589,6 +4026,7 @@ export type InstanceStateInclude<ExtArgs extends runtime.Types.Extensions.Intern
   customStatuses?: boolean | Prisma.InstanceState$customStatusesArgs<ExtArgs>
   lock?: boolean | Prisma.InstanceState$lockArgs<ExtArgs>
   workerRegistrations?: boolean | Prisma.InstanceState$workerRegistrationsArgs<ExtArgs>
+  serviceAccountGrants?: boolean | Prisma.InstanceState$serviceAccountGrantsArgs<ExtArgs>
   artifacts?: boolean | Prisma.InstanceState$artifactsArgs<ExtArgs>
   operationLogs?: boolean | Prisma.InstanceState$operationLogsArgs<ExtArgs>
   userViewports?: boolean | Prisma.InstanceState$userViewportsArgs<ExtArgs>
@@ -3649,6 +4087,10 @@ export type $InstanceStatePayload<ExtArgs extends runtime.Types.Extensions.Inter
      * Worker registrations associated with this instance.
      */
     workerRegistrations: Prisma.$WorkerUnitRegistrationPayload<ExtArgs>[]
+    /**
+     * The grants giving service accounts access to this instance.
+     */
+    serviceAccountGrants: Prisma.$ServiceAccountGrantPayload<ExtArgs>[]
     /**
      * The artifacts produced or used by this instance.
      */
@@ -3777,6 +4219,16 @@ export type $InstanceStatePayload<ExtArgs extends runtime.Types.Extensions.Inter
      * Whether the instance has resource hooks and requires running program on destroy to properly clean up resources.
      */
     hasResourceHooks: boolean
+    /**
+     * The ID of the user who last edited the instance in the project model.
+     * 
+     * Null if the instance was never edited by the user or it was edited before the authentication was enabled.
+     */
+    lastEditedBy: string | null
+    /**
+     * The time when the instance was last edited by the user.
+     */
+    lastEditedAt: Date | null
   }, ExtArgs["result"]["instanceState"]>
   composites: {}
 }
@@ -4182,6 +4634,7 @@ export interface Prisma__InstanceStateClient<T, Null = never, ExtArgs extends ru
   customStatuses<T extends Prisma.InstanceState$customStatusesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InstanceState$customStatusesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InstanceCustomStatusPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   lock<T extends Prisma.InstanceState$lockArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InstanceState$lockArgs<ExtArgs>>): Prisma.Prisma__InstanceLockClient<runtime.Types.Result.GetResult<Prisma.$InstanceLockPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   workerRegistrations<T extends Prisma.InstanceState$workerRegistrationsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InstanceState$workerRegistrationsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WorkerUnitRegistrationPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  serviceAccountGrants<T extends Prisma.InstanceState$serviceAccountGrantsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InstanceState$serviceAccountGrantsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ServiceAccountGrantPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   artifacts<T extends Prisma.InstanceState$artifactsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InstanceState$artifactsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ArtifactPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   operationLogs<T extends Prisma.InstanceState$operationLogsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InstanceState$operationLogsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OperationLogPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   userViewports<T extends Prisma.InstanceState$userViewportsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InstanceState$userViewportsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$UserCompositeViewportPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
@@ -4232,6 +4685,8 @@ export interface InstanceStateFieldRefs {
   readonly currentResourceCount: Prisma.FieldRef<"InstanceState", 'Int'>
   readonly statusFields: Prisma.FieldRef<"InstanceState", 'Json'>
   readonly hasResourceHooks: Prisma.FieldRef<"InstanceState", 'Boolean'>
+  readonly lastEditedBy: Prisma.FieldRef<"InstanceState", 'String'>
+  readonly lastEditedAt: Prisma.FieldRef<"InstanceState", 'DateTime'>
 }
     
 
@@ -4874,6 +5329,30 @@ export type InstanceState$workerRegistrationsArgs<ExtArgs extends runtime.Types.
   distinct?: Prisma.WorkerUnitRegistrationScalarFieldEnum | Prisma.WorkerUnitRegistrationScalarFieldEnum[]
 }
 
+/**
+ * InstanceState.serviceAccountGrants
+ */
+export type InstanceState$serviceAccountGrantsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ServiceAccountGrant
+   */
+  select?: Prisma.ServiceAccountGrantSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ServiceAccountGrant
+   */
+  omit?: Prisma.ServiceAccountGrantOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ServiceAccountGrantInclude<ExtArgs> | null
+  where?: Prisma.ServiceAccountGrantWhereInput
+  orderBy?: Prisma.ServiceAccountGrantOrderByWithRelationInput | Prisma.ServiceAccountGrantOrderByWithRelationInput[]
+  cursor?: Prisma.ServiceAccountGrantWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ServiceAccountGrantScalarFieldEnum | Prisma.ServiceAccountGrantScalarFieldEnum[]
+}
+
 /**
  * InstanceState.artifacts
  */
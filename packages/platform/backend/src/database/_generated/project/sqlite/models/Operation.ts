@@ -30,6 +30,8 @@ export type OperationMinAggregateOutputType = {
   id: string | null
   type: $Enums.OperationType | null
   status: $Enums.OperationStatus | null
+  retriedOperationId: string | null
+  holderId: string | null
   startedAt: Date | null
   updatedAt: Date | null
   finishedAt: Date | null
@@ -39,6 +41,8 @@ export type OperationMaxAggregateOutputType = {
   id: string | null
   type: $Enums.OperationType | null
   status: $Enums.OperationStatus | null
+  retriedOperationId: string | null
+  holderId: string | null
   startedAt: Date | null
   updatedAt: Date | null
   finishedAt: Date | null
@@ -52,6 +56,9 @@ export type OperationCountAggregateOutputType = {
   options: number
   requestedInstanceIds: number
   phases: number
+  retriedOperationId: number
+  approvalRequest: number
+  holderId: number
   startedAt: number
   updatedAt: number
   finishedAt: number
@@ -63,6 +70,8 @@ export type OperationMinAggregateInputType = {
   id?: true
   type?: true
   status?: true
+  retriedOperationId?: true
+  holderId?: true
   startedAt?: true
   updatedAt?: true
   finishedAt?: true
@@ -72,6 +81,8 @@ export type OperationMaxAggregateInputType = {
   id?: true
   type?: true
   status?: true
+  retriedOperationId?: true
+  holderId?: true
   startedAt?: true
   updatedAt?: true
   finishedAt?: true
@@ -85,6 +96,9 @@ export type OperationCountAggregateInputType = {
   options?: true
   requestedInstanceIds?: true
   phases?: true
+  retriedOperationId?: true
+  approvalRequest?: true
+  holderId?: true
   startedAt?: true
   updatedAt?: true
   finishedAt?: true
@@ -171,6 +185,9 @@ export type OperationGroupByOutputType = {
   options:PrismaJson.OperationOptions
   requestedInstanceIds:PrismaJson.InstanceIds
   phases:PrismaJson.OperationPhase[] | null
+  retriedOperationId: string | null
+  approvalRequest:PrismaJson.OperationApprovalRequest | null
+  holderId: string | null
   startedAt: Date
   updatedAt: Date
   finishedAt: Date | null
@@ -205,12 +222,16 @@ export type OperationWhereInput = {
   options?: Prisma.JsonFilter<"Operation">
   requestedInstanceIds?: Prisma.JsonFilter<"Operation">
   phases?: Prisma.JsonNullableFilter<"Operation">
+  retriedOperationId?: Prisma.StringNullableFilter<"Operation"> | string | null
+  approvalRequest?: Prisma.JsonNullableFilter<"Operation">
+  holderId?: Prisma.StringNullableFilter<"Operation"> | string | null
   startedAt?: Prisma.DateTimeFilter<"Operation"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Operation"> | Date | string
   finishedAt?: Prisma.DateTimeNullableFilter<"Operation"> | Date | string | null
   operationStates?: Prisma.InstanceOperationStateListRelationFilter
   logs?: Prisma.OperationLogListRelationFilter
   entitySnapshots?: Prisma.EntitySnapshotListRelationFilter
+  approvals?: Prisma.OperationApprovalListRelationFilter
 }
 
 export type OperationOrderByWithRelationInput = {
@@ -221,12 +242,16 @@ export type OperationOrderByWithRelationInput = {
   options?: Prisma.SortOrder
   requestedInstanceIds?: Prisma.SortOrder
   phases?: Prisma.SortOrderInput | Prisma.SortOrder
+  retriedOperationId?: Prisma.SortOrderInput | Prisma.SortOrder
+  approvalRequest?: Prisma.SortOrderInput | Prisma.SortOrder
+  holderId?: Prisma.SortOrderInput | Prisma.SortOrder
   startedAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   finishedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   operationStates?: Prisma.InstanceOperationStateOrderByRelationAggregateInput
   logs?: Prisma.OperationLogOrderByRelationAggregateInput
   entitySnapshots?: Prisma.EntitySnapshotOrderByRelationAggregateInput
+  approvals?: Prisma.OperationApprovalOrderByRelationAggregateInput
 }
 
 export type OperationWhereUniqueInput = Prisma.AtLeast<{
@@ -240,12 +265,16 @@ export type OperationWhereUniqueInput = Prisma.AtLeast<{
   options?: Prisma.JsonFilter<"Operation">
   requestedInstanceIds?: Prisma.JsonFilter<"Operation">
   phases?: Prisma.JsonNullableFilter<"Operation">
+  retriedOperationId?: Prisma.StringNullableFilter<"Operation"> | string | null
+  approvalRequest?: Prisma.JsonNullableFilter<"Operation">
+  holderId?: Prisma.StringNullableFilter<"Operation"> | string | null
   startedAt?: Prisma.DateTimeFilter<"Operation"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Operation"> | Date | string
   finishedAt?: Prisma.DateTimeNullableFilter<"Operation"> | Date | string | null
   operationStates?: Prisma.InstanceOperationStateListRelationFilter
   logs?: Prisma.OperationLogListRelationFilter
   entitySnapshots?: Prisma.EntitySnapshotListRelationFilter
+  approvals?: Prisma.OperationApprovalListRelationFilter
 }, "id">
 
 export type OperationOrderByWithAggregationInput = {
@@ -256,6 +285,9 @@ export type OperationOrderByWithAggregationInput = {
   options?: Prisma.SortOrder
   requestedInstanceIds?: Prisma.SortOrder
   phases?: Prisma.SortOrderInput | Prisma.SortOrder
+  retriedOperationId?: Prisma.SortOrderInput | Prisma.SortOrder
+  approvalRequest?: Prisma.SortOrderInput | Prisma.SortOrder
+  holderId?: Prisma.SortOrderInput | Prisma.SortOrder
   startedAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   finishedAt?: Prisma.SortOrderInput | Prisma.SortOrder
@@ -275,6 +307,9 @@ export type OperationScalarWhereWithAggregatesInput = {
   options?: Prisma.JsonWithAggregatesFilter<"Operation">
   requestedInstanceIds?: Prisma.JsonWithAggregatesFilter<"Operation">
   phases?: Prisma.JsonNullableWithAggregatesFilter<"Operation">
+  retriedOperationId?: Prisma.StringNullableWithAggregatesFilter<"Operation"> | string | null
+  approvalRequest?: Prisma.JsonNullableWithAggregatesFilter<"Operation">
+  holderId?: Prisma.StringNullableWithAggregatesFilter<"Operation"> | string | null
   startedAt?: Prisma.DateTimeWithAggregatesFilter<"Operation"> | Date | string
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"Operation"> | Date | string
   finishedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Operation"> | Date | string | null
@@ -288,12 +323,16 @@ export type OperationCreateInput = {
   options:PrismaJson.OperationOptions
   requestedInstanceIds:PrismaJson.InstanceIds
   phases?:PrismaJson.OperationPhase[] | Prisma.NullableJsonNullValueInput
+  retriedOperationId?: string | null
+  approvalRequest?:PrismaJson.OperationApprovalRequest | Prisma.NullableJsonNullValueInput
+  holderId?: string | null
   startedAt?: Date | string
   updatedAt?: Date | string
   finishedAt?: Date | string | null
   operationStates?: Prisma.InstanceOperationStateCreateNestedManyWithoutOperationInput
   logs?: Prisma.OperationLogCreateNestedManyWithoutOperationInput
   entitySnapshots?: Prisma.EntitySnapshotCreateNestedManyWithoutOperationInput
+  approvals?: Prisma.OperationApprovalCreateNestedManyWithoutOperationInput
 }
 
 export type OperationUncheckedCreateInput = {
@@ -304,12 +343,16 @@ export type OperationUncheckedCreateInput = {
   options:PrismaJson.OperationOptions
   requestedInstanceIds:PrismaJson.InstanceIds
   phases?:PrismaJson.OperationPhase[] | Prisma.NullableJsonNullValueInput
+  retriedOperationId?: string | null
+  approvalRequest?:PrismaJson.OperationApprovalRequest | Prisma.NullableJsonNullValueInput
+  holderId?: string | null
   startedAt?: Date | string
   updatedAt?: Date | string
   finishedAt?: Date | string | null
   operationStates?: Prisma.InstanceOperationStateUncheckedCreateNestedManyWithoutOperationInput
   logs?: Prisma.OperationLogUncheckedCreateNestedManyWithoutOperationInput
   entitySnapshots?: Prisma.EntitySnapshotUncheckedCreateNestedManyWithoutOperationInput
+  approvals?: Prisma.OperationApprovalUncheckedCreateNestedManyWithoutOperationInput
 }
 
 export type OperationUpdateInput = {
@@ -320,12 +363,16 @@ export type OperationUpdateInput = {
   options?:PrismaJson.OperationOptions
   requestedInstanceIds?:PrismaJson.InstanceIds
   phases?:PrismaJson.OperationPhase[] | Prisma.NullableJsonNullValueInput
+  retriedOperationId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  approvalRequest?:PrismaJson.OperationApprovalRequest | Prisma.NullableJsonNullValueInput
+  holderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   startedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   finishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   operationStates?: Prisma.InstanceOperationStateUpdateManyWithoutOperationNestedInput
   logs?: Prisma.OperationLogUpdateManyWithoutOperationNestedInput
   entitySnapshots?: Prisma.EntitySnapshotUpdateManyWithoutOperationNestedInput
+  approvals?: Prisma.OperationApprovalUpdateManyWithoutOperationNestedInput
 }
 
 export type OperationUncheckedUpdateInput = {
@@ -336,12 +383,16 @@ export type OperationUncheckedUpdateInput = {
   options?:PrismaJson.OperationOptions
   requestedInstanceIds?:PrismaJson.InstanceIds
   phases?:PrismaJson.OperationPhase[] | Prisma.NullableJsonNullValueInput
+  retriedOperationId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  approvalRequest?:PrismaJson.OperationApprovalRequest | Prisma.NullableJsonNullValueInput
+  holderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   startedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   finishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   operationStates?: Prisma.InstanceOperationStateUncheckedUpdateManyWithoutOperationNestedInput
   logs?: Prisma.OperationLogUncheckedUpdateManyWithoutOperationNestedInput
   entitySnapshots?: Prisma.EntitySnapshotUncheckedUpdateManyWithoutOperationNestedInput
+  approvals?: Prisma.OperationApprovalUncheckedUpdateManyWithoutOperationNestedInput
 }
 
 export type OperationCreateManyInput = {
@@ -352,6 +403,9 @@ export type OperationCreateManyInput = {
   options:PrismaJson.OperationOptions
   requestedInstanceIds:PrismaJson.InstanceIds
   phases?:PrismaJson.OperationPhase[] | Prisma.NullableJsonNullValueInput
+  retriedOperationId?: string | null
+  approvalRequest?:PrismaJson.OperationApprovalRequest | Prisma.NullableJsonNullValueInput
+  holderId?: string | null
   startedAt?: Date | string
   updatedAt?: Date | string
   finishedAt?: Date | string | null
@@ -365,6 +419,9 @@ export type OperationUpdateManyMutationInput = {
   options?:PrismaJson.OperationOptions
   requestedInstanceIds?:PrismaJson.InstanceIds
   phases?:PrismaJson.OperationPhase[] | Prisma.NullableJsonNullValueInput
+  retriedOperationId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  approvalRequest?:PrismaJson.OperationApprovalRequest | Prisma.NullableJsonNullValueInput
+  holderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   startedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   finishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
@@ -378,6 +435,9 @@ export type OperationUncheckedUpdateManyInput = {
   options?:PrismaJson.OperationOptions
   requestedInstanceIds?:PrismaJson.InstanceIds
   phases?:PrismaJson.OperationPhase[] | Prisma.NullableJsonNullValueInput
+  retriedOperationId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  approvalRequest?:PrismaJson.OperationApprovalRequest | Prisma.NullableJsonNullValueInput
+  holderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   startedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   finishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
@@ -396,6 +456,9 @@ export type OperationCountOrderByAggregateInput = {
   options?: Prisma.SortOrder
   requestedInstanceIds?: Prisma.SortOrder
   phases?: Prisma.SortOrder
+  retriedOperationId?: Prisma.SortOrder
+  approvalRequest?: Prisma.SortOrder
+  holderId?: Prisma.SortOrder
   startedAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   finishedAt?: Prisma.SortOrder
@@ -405,6 +468,8 @@ export type OperationMaxOrderByAggregateInput = {
   id?: Prisma.SortOrder
   type?: Prisma.SortOrder
   status?: Prisma.SortOrder
+  retriedOperationId?: Prisma.SortOrder
+  holderId?: Prisma.SortOrder
   startedAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   finishedAt?: Prisma.SortOrder
@@ -414,6 +479,8 @@ export type OperationMinOrderByAggregateInput = {
   id?: Prisma.SortOrder
   type?: Prisma.SortOrder
   status?: Prisma.SortOrder
+  retriedOperationId?: Prisma.SortOrder
+  holderId?: Prisma.SortOrder
   startedAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   finishedAt?: Prisma.SortOrder
@@ -441,8 +508,18 @@ export type EnumOperationStatusFieldUpdateOperationsInput = {
   set?: $Enums.OperationStatus
 }
 
-export type NullableDateTimeFieldUpdateOperationsInput = {
-  set?: Date | string | null
+export type OperationCreateNestedOneWithoutApprovalsInput = {
+  create?: Prisma.XOR<Prisma.OperationCreateWithoutApprovalsInput, Prisma.OperationUncheckedCreateWithoutApprovalsInput>
+  connectOrCreate?: Prisma.OperationCreateOrConnectWithoutApprovalsInput
+  connect?: Prisma.OperationWhereUniqueInput
+}
+
+export type OperationUpdateOneRequiredWithoutApprovalsNestedInput = {
+  create?: Prisma.XOR<Prisma.OperationCreateWithoutApprovalsInput, Prisma.OperationUncheckedCreateWithoutApprovalsInput>
+  connectOrCreate?: Prisma.OperationCreateOrConnectWithoutApprovalsInput
+  upsert?: Prisma.OperationUpsertWithoutApprovalsInput
+  connect?: Prisma.OperationWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.OperationUpdateToOneWithWhereWithoutApprovalsInput, Prisma.OperationUpdateWithoutApprovalsInput>, Prisma.OperationUncheckedUpdateWithoutApprovalsInput>
 }
 
 export type OperationCreateNestedOneWithoutOperationStatesInput = {
@@ -481,11 +558,15 @@ export type OperationCreateWithoutEntitySnapshotsInput = {
   options:PrismaJson.OperationOptions
   requestedInstanceIds:PrismaJson.InstanceIds
   phases?:PrismaJson.OperationPhase[] | Prisma.NullableJsonNullValueInput
+  retriedOperationId?: string | null
+  approvalRequest?:PrismaJson.OperationApprovalRequest | Prisma.NullableJsonNullValueInput
+  holderId?: string | null
   startedAt?: Date | string
   updatedAt?: Date | string
   finishedAt?: Date | string | null
   operationStates?: Prisma.InstanceOperationStateCreateNestedManyWithoutOperationInput
   logs?: Prisma.OperationLogCreateNestedManyWithoutOperationInput
+  approvals?: Prisma.OperationApprovalCreateNestedManyWithoutOperationInput
 }
 
 export type OperationUncheckedCreateWithoutEntitySnapshotsInput = {
@@ -496,11 +577,15 @@ export type OperationUncheckedCreateWithoutEntitySnapshotsInput = {
   options:PrismaJson.OperationOptions
   requestedInstanceIds:PrismaJson.InstanceIds
   phases?:PrismaJson.OperationPhase[] | Prisma.NullableJsonNullValueInput
+  retriedOperationId?: string | null
+  approvalRequest?:PrismaJson.OperationApprovalRequest | Prisma.NullableJsonNullValueInput
+  holderId?: string | null
   startedAt?: Date | string
   updatedAt?: Date | string
   finishedAt?: Date | string | null
   operationStates?: Prisma.InstanceOperationStateUncheckedCreateNestedManyWithoutOperationInput
   logs?: Prisma.OperationLogUncheckedCreateNestedManyWithoutOperationInput
+  approvals?: Prisma.OperationApprovalUncheckedCreateNestedManyWithoutOperationInput
 }
 
 export type OperationCreateOrConnectWithoutEntitySnapshotsInput = {
@@ -527,11 +612,15 @@ export type OperationUpdateWithoutEntitySnapshotsInput = {
   options?:PrismaJson.OperationOptions
   requestedInstanceIds?:PrismaJson.InstanceIds
   phases?:PrismaJson.OperationPhase[] | Prisma.NullableJsonNullValueInput
+  retriedOperationId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  approvalRequest?:PrismaJson.OperationApprovalRequest | Prisma.NullableJsonNullValueInput
+  holderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   startedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   finishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   operationStates?: Prisma.InstanceOperationStateUpdateManyWithoutOperationNestedInput
   logs?: Prisma.OperationLogUpdateManyWithoutOperationNestedInput
+  approvals?: Prisma.OperationApprovalUpdateManyWithoutOperationNestedInput
 }
 
 export type OperationUncheckedUpdateWithoutEntitySnapshotsInput = {
@@ -542,11 +631,107 @@ export type OperationUncheckedUpdateWithoutEntitySnapshotsInput = {
   options?:PrismaJson.OperationOptions
   requestedInstanceIds?:PrismaJson.InstanceIds
   phases?:PrismaJson.OperationPhase[] | Prisma.NullableJsonNullValueInput
+  retriedOperationId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  approvalRequest?:PrismaJson.OperationApprovalRequest | Prisma.NullableJsonNullValueInput
+  holderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  finishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  operationStates?: Prisma.InstanceOperationStateUncheckedUpdateManyWithoutOperationNestedInput
+  logs?: Prisma.OperationLogUncheckedUpdateManyWithoutOperationNestedInput
+  approvals?: Prisma.OperationApprovalUncheckedUpdateManyWithoutOperationNestedInput
+}
+
+export type OperationCreateWithoutApprovalsInput = {
+  id?: string
+  meta:PrismaJson.OperationMeta
+  type: $Enums.OperationType
+  status?: $Enums.OperationStatus
+  options:PrismaJson.OperationOptions
+  requestedInstanceIds:PrismaJson.InstanceIds
+  phases?:PrismaJson.OperationPhase[] | Prisma.NullableJsonNullValueInput
+  retriedOperationId?: string | null
+  approvalRequest?:PrismaJson.OperationApprovalRequest | Prisma.NullableJsonNullValueInput
+  holderId?: string | null
+  startedAt?: Date | string
+  updatedAt?: Date | string
+  finishedAt?: Date | string | null
+  operationStates?: Prisma.InstanceOperationStateCreateNestedManyWithoutOperationInput
+  logs?: Prisma.OperationLogCreateNestedManyWithoutOperationInput
+  entitySnapshots?: Prisma.EntitySnapshotCreateNestedManyWithoutOperationInput
+}
+
+export type OperationUncheckedCreateWithoutApprovalsInput = {
+  id?: string
+  meta:PrismaJson.OperationMeta
+  type: $Enums.OperationType
+  status?: $Enums.OperationStatus
+  options:PrismaJson.OperationOptions
+  requestedInstanceIds:PrismaJson.InstanceIds
+  phases?:PrismaJson.OperationPhase[] | Prisma.NullableJsonNullValueInput
+  retriedOperationId?: string | null
+  approvalRequest?:PrismaJson.OperationApprovalRequest | Prisma.NullableJsonNullValueInput
+  holderId?: string | null
+  startedAt?: Date | string
+  updatedAt?: Date | string
+  finishedAt?: Date | string | null
+  operationStates?: Prisma.InstanceOperationStateUncheckedCreateNestedManyWithoutOperationInput
+  logs?: Prisma.OperationLogUncheckedCreateNestedManyWithoutOperationInput
+  entitySnapshots?: Prisma.EntitySnapshotUncheckedCreateNestedManyWithoutOperationInput
+}
+
+export type OperationCreateOrConnectWithoutApprovalsInput = {
+  where: Prisma.OperationWhereUniqueInput
+  create: Prisma.XOR<Prisma.OperationCreateWithoutApprovalsInput, Prisma.OperationUncheckedCreateWithoutApprovalsInput>
+}
+
+export type OperationUpsertWithoutApprovalsInput = {
+  update: Prisma.XOR<Prisma.OperationUpdateWithoutApprovalsInput, Prisma.OperationUncheckedUpdateWithoutApprovalsInput>
+  create: Prisma.XOR<Prisma.OperationCreateWithoutApprovalsInput, Prisma.OperationUncheckedCreateWithoutApprovalsInput>
+  where?: Prisma.OperationWhereInput
+}
+
+export type OperationUpdateToOneWithWhereWithoutApprovalsInput = {
+  where?: Prisma.OperationWhereInput
+  data: Prisma.XOR<Prisma.OperationUpdateWithoutApprovalsInput, Prisma.OperationUncheckedUpdateWithoutApprovalsInput>
+}
+
+export type OperationUpdateWithoutApprovalsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  meta?:PrismaJson.OperationMeta
+  type?: Prisma.EnumOperationTypeFieldUpdateOperationsInput | $Enums.OperationType
+  status?: Prisma.EnumOperationStatusFieldUpdateOperationsInput | $Enums.OperationStatus
+  options?:PrismaJson.OperationOptions
+  requestedInstanceIds?:PrismaJson.InstanceIds
+  phases?:PrismaJson.OperationPhase[] | Prisma.NullableJsonNullValueInput
+  retriedOperationId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  approvalRequest?:PrismaJson.OperationApprovalRequest | Prisma.NullableJsonNullValueInput
+  holderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  finishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  operationStates?: Prisma.InstanceOperationStateUpdateManyWithoutOperationNestedInput
+  logs?: Prisma.OperationLogUpdateManyWithoutOperationNestedInput
+  entitySnapshots?: Prisma.EntitySnapshotUpdateManyWithoutOperationNestedInput
+}
+
+export type OperationUncheckedUpdateWithoutApprovalsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  meta?:PrismaJson.OperationMeta
+  type?: Prisma.EnumOperationTypeFieldUpdateOperationsInput | $Enums.OperationType
+  status?: Prisma.EnumOperationStatusFieldUpdateOperationsInput | $Enums.OperationStatus
+  options?:PrismaJson.OperationOptions
+  requestedInstanceIds?:PrismaJson.InstanceIds
+  phases?:PrismaJson.OperationPhase[] | Prisma.NullableJsonNullValueInput
+  retriedOperationId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  approvalRequest?:PrismaJson.OperationApprovalRequest | Prisma.NullableJsonNullValueInput
+  holderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   startedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   finishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   operationStates?: Prisma.InstanceOperationStateUncheckedUpdateManyWithoutOperationNestedInput
   logs?: Prisma.OperationLogUncheckedUpdateManyWithoutOperationNestedInput
+  entitySnapshots?: Prisma.EntitySnapshotUncheckedUpdateManyWithoutOperationNestedInput
 }
 
 export type OperationCreateWithoutOperationStatesInput = {
@@ -557,11 +742,15 @@ export type OperationCreateWithoutOperationStatesInput = {
   options:PrismaJson.OperationOptions
   requestedInstanceIds:PrismaJson.InstanceIds
   phases?:PrismaJson.OperationPhase[] | Prisma.NullableJsonNullValueInput
+  retriedOperationId?: string | null
+  approvalRequest?:PrismaJson.OperationApprovalRequest | Prisma.NullableJsonNullValueInput
+  holderId?: string | null
   startedAt?: Date | string
   updatedAt?: Date | string
   finishedAt?: Date | string | null
   logs?: Prisma.OperationLogCreateNestedManyWithoutOperationInput
   entitySnapshots?: Prisma.EntitySnapshotCreateNestedManyWithoutOperationInput
+  approvals?: Prisma.OperationApprovalCreateNestedManyWithoutOperationInput
 }
 
 export type OperationUncheckedCreateWithoutOperationStatesInput = {
@@ -572,11 +761,15 @@ export type OperationUncheckedCreateWithoutOperationStatesInput = {
   options:PrismaJson.OperationOptions
   requestedInstanceIds:PrismaJson.InstanceIds
   phases?:PrismaJson.OperationPhase[] | Prisma.NullableJsonNullValueInput
+  retriedOperationId?: string | null
+  approvalRequest?:PrismaJson.OperationApprovalRequest | Prisma.NullableJsonNullValueInput
+  holderId?: string | null
   startedAt?: Date | string
   updatedAt?: Date | string
   finishedAt?: Date | string | null
   logs?: Prisma.OperationLogUncheckedCreateNestedManyWithoutOperationInput
   entitySnapshots?: Prisma.EntitySnapshotUncheckedCreateNestedManyWithoutOperationInput
+  approvals?: Prisma.OperationApprovalUncheckedCreateNestedManyWithoutOperationInput
 }
 
 export type OperationCreateOrConnectWithoutOperationStatesInput = {
@@ -603,11 +796,15 @@ export type OperationUpdateWithoutOperationStatesInput = {
   options?:PrismaJson.OperationOptions
   requestedInstanceIds?:PrismaJson.InstanceIds
   phases?:PrismaJson.OperationPhase[] | Prisma.NullableJsonNullValueInput
+  retriedOperationId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  approvalRequest?:PrismaJson.OperationApprovalRequest | Prisma.NullableJsonNullValueInput
+  holderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   startedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   finishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   logs?: Prisma.OperationLogUpdateManyWithoutOperationNestedInput
   entitySnapshots?: Prisma.EntitySnapshotUpdateManyWithoutOperationNestedInput
+  approvals?: Prisma.OperationApprovalUpdateManyWithoutOperationNestedInput
 }
 
 export type OperationUncheckedUpdateWithoutOperationStatesInput = {
@@ -618,11 +815,15 @@ export type OperationUncheckedUpdateWithoutOperationStatesInput = {
   options?:PrismaJson.OperationOptions
   requestedInstanceIds?:PrismaJson.InstanceIds
   phases?:PrismaJson.OperationPhase[] | Prisma.NullableJsonNullValueInput
+  retriedOperationId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  approvalRequest?:PrismaJson.OperationApprovalRequest | Prisma.NullableJsonNullValueInput
+  holderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   startedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   finishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   logs?: Prisma.OperationLogUncheckedUpdateManyWithoutOperationNestedInput
   entitySnapshots?: Prisma.EntitySnapshotUncheckedUpdateManyWithoutOperationNestedInput
+  approvals?: Prisma.OperationApprovalUncheckedUpdateManyWithoutOperationNestedInput
 }
 
 export type OperationCreateWithoutLogsInput = {
@@ -633,11 +834,15 @@ export type OperationCreateWithoutLogsInput = {
   options:PrismaJson.OperationOptions
   requestedInstanceIds:PrismaJson.InstanceIds
   phases?:PrismaJson.OperationPhase[] | Prisma.NullableJsonNullValueInput
+  retriedOperationId?: string | null
+  approvalRequest?:PrismaJson.OperationApprovalRequest | Prisma.NullableJsonNullValueInput
+  holderId?: string | null
   startedAt?: Date | string
   updatedAt?: Date | string
   finishedAt?: Date | string | null
   operationStates?: Prisma.InstanceOperationStateCreateNestedManyWithoutOperationInput
   entitySnapshots?: Prisma.EntitySnapshotCreateNestedManyWithoutOperationInput
+  approvals?: Prisma.OperationApprovalCreateNestedManyWithoutOperationInput
 }
 
 export type OperationUncheckedCreateWithoutLogsInput = {
@@ -648,11 +853,15 @@ export type OperationUncheckedCreateWithoutLogsInput = {
   options:PrismaJson.OperationOptions
   requestedInstanceIds:PrismaJson.InstanceIds
   phases?:PrismaJson.OperationPhase[] | Prisma.NullableJsonNullValueInput
+  retriedOperationId?: string | null
+  approvalRequest?:PrismaJson.OperationApprovalRequest | Prisma.NullableJsonNullValueInput
+  holderId?: string | null
   startedAt?: Date | string
   updatedAt?: Date | string
   finishedAt?: Date | string | null
   operationStates?: Prisma.InstanceOperationStateUncheckedCreateNestedManyWithoutOperationInput
   entitySnapshots?: Prisma.EntitySnapshotUncheckedCreateNestedManyWithoutOperationInput
+  approvals?: Prisma.OperationApprovalUncheckedCreateNestedManyWithoutOperationInput
 }
 
 export type OperationCreateOrConnectWithoutLogsInput = {
@@ -679,11 +888,15 @@ export type OperationUpdateWithoutLogsInput = {
   options?:PrismaJson.OperationOptions
   requestedInstanceIds?:PrismaJson.InstanceIds
   phases?:PrismaJson.OperationPhase[] | Prisma.NullableJsonNullValueInput
+  retriedOperationId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  approvalRequest?:PrismaJson.OperationApprovalRequest | Prisma.NullableJsonNullValueInput
+  holderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   startedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   finishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   operationStates?: Prisma.InstanceOperationStateUpdateManyWithoutOperationNestedInput
   entitySnapshots?: Prisma.EntitySnapshotUpdateManyWithoutOperationNestedInput
+  approvals?: Prisma.OperationApprovalUpdateManyWithoutOperationNestedInput
 }
 
 export type OperationUncheckedUpdateWithoutLogsInput = {
@@ -694,11 +907,15 @@ export type OperationUncheckedUpdateWithoutLogsInput = {
   options?:PrismaJson.OperationOptions
   requestedInstanceIds?:PrismaJson.InstanceIds
   phases?:PrismaJson.OperationPhase[] | Prisma.NullableJsonNullValueInput
+  retriedOperationId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  approvalRequest?:PrismaJson.OperationApprovalRequest | Prisma.NullableJsonNullValueInput
+  holderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   startedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   finishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   operationStates?: Prisma.InstanceOperationStateUncheckedUpdateManyWithoutOperationNestedInput
   entitySnapshots?: Prisma.EntitySnapshotUncheckedUpdateManyWithoutOperationNestedInput
+  approvals?: Prisma.OperationApprovalUncheckedUpdateManyWithoutOperationNestedInput
 }
 
 
@@ -710,12 +927,14 @@ export type OperationCountOutputType = {
   operationStates: number
   logs: number
   entitySnapshots: number
+  approvals: number
 }
 
 export type OperationCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   operationStates?: boolean | OperationCountOutputTypeCountOperationStatesArgs
   logs?: boolean | OperationCountOutputTypeCountLogsArgs
   entitySnapshots?: boolean | OperationCountOutputTypeCountEntitySnapshotsArgs
+  approvals?: boolean | OperationCountOutputTypeCountApprovalsArgs
 }
 
 /**
@@ -749,6 +968,13 @@ export type OperationCountOutputTypeCountEntitySnapshotsArgs<ExtArgs extends run
   where?: Prisma.EntitySnapshotWhereInput
 }
 
+/**
+ * OperationCountOutputType without action
+ */
+export type OperationCountOutputTypeCountApprovalsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.OperationApprovalWhereInput
+}
+
 
 export type OperationSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -758,12 +984,16 @@ export type OperationSelect<ExtArgs extends runtime.Types.Extensions.InternalArg
   options?: boolean
   requestedInstanceIds?: boolean
   phases?: boolean
+  retriedOperationId?: boolean
+  approvalRequest?: boolean
+  holderId?: boolean
   startedAt?: boolean
   updatedAt?: boolean
   finishedAt?: boolean
   operationStates?: boolean | Prisma.Operation$operationStatesArgs<ExtArgs>
   logs?: boolean | Prisma.Operation$logsArgs<ExtArgs>
   entitySnapshots?: boolean | Prisma.Operation$entitySnapshotsArgs<ExtArgs>
+  approvals?: boolean | Prisma.Operation$approvalsArgs<ExtArgs>
   _count?: boolean | Prisma.OperationCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["operation"]>
 
@@ -775,6 +1005,9 @@ export type OperationSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Ext
   options?: boolean
   requestedInstanceIds?: boolean
   phases?: boolean
+  retriedOperationId?: boolean
+  approvalRequest?: boolean
+  holderId?: boolean
   startedAt?: boolean
   updatedAt?: boolean
   finishedAt?: boolean
@@ -788,6 +1021,9 @@ export type OperationSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Ext
   options?: boolean
   requestedInstanceIds?: boolean
   phases?: boolean
+  retriedOperationId?: boolean
+  approvalRequest?: boolean
+  holderId?: boolean
   startedAt?: boolean
   updatedAt?: boolean
   finishedAt?: boolean
@@ -801,16 +1037,20 @@ export type OperationSelectScalar = {
   options?: boolean
   requestedInstanceIds?: boolean
   phases?: boolean
+  retriedOperationId?: boolean
+  approvalRequest?: boolean
+  holderId?: boolean
   startedAt?: boolean
   updatedAt?: boolean
   finishedAt?: boolean
 }
 
-export type OperationOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "meta" | "type" | "status" | "options" | "requestedInstanceIds" | "phases" | "startedAt" | "updatedAt" | "finishedAt", ExtArgs["result"]["operation"]>
+export type OperationOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "meta" | "type" | "status" | "options" | "requestedInstanceIds" | "phases" | "retriedOperationId" | "approvalRequest" | "holderId" | "startedAt" | "updatedAt" | "finishedAt", ExtArgs["result"]["operation"]>
 export type OperationInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   operationStates?: boolean | Prisma.Operation$operationStatesArgs<ExtArgs>
   logs?: boolean | Prisma.Operation$logsArgs<ExtArgs>
   entitySnapshots?: boolean | Prisma.Operation$entitySnapshotsArgs<ExtArgs>
+  approvals?: boolean | Prisma.Operation$approvalsArgs<ExtArgs>
   _count?: boolean | Prisma.OperationCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type OperationIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
@@ -831,6 +1071,10 @@ export type $OperationPayload<ExtArgs extends runtime.Types.Extensions.InternalA
      * The entity snapshots created by this operation.
      */
     entitySnapshots: Prisma.$EntitySnapshotPayload<ExtArgs>[]
+    /**
+     * The approvals and rejections of this operation.
+     */
+    approvals: Prisma.$OperationApprovalPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     /**
@@ -869,6 +1113,24 @@ export type $OperationPayload<ExtArgs extends runtime.Types.Extensions.InternalA
      * [OperationPhase[]]
      */
     phases:PrismaJson.OperationPhase[] | null
+    /**
+     * The ID of the failed or cancelled operation retried by this operation.
+     */
+    retriedOperationId: string | null
+    /**
+     * The request of the approval of the operation.
+     * 
+     * Set only for the operations which must be approved before the execution.
+     * 
+     * [OperationApprovalRequest]
+     */
+    approvalRequest:PrismaJson.OperationApprovalRequest | null
+    /**
+     * The ID of the backend runtime executing the operation.
+     * 
+     * The operation is considered lost once the holder is no longer alive.
+     */
+    holderId: string | null
     /**
      * The time when the operation started.
      */
@@ -1278,6 +1540,7 @@ export interface Prisma__OperationClient<T, Null = never, ExtArgs extends runtim
   operationStates<T extends Prisma.Operation$operationStatesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Operation$operationStatesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InstanceOperationStatePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   logs<T extends Prisma.Operation$logsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Operation$logsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OperationLogPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   entitySnapshots<T extends Prisma.Operation$entitySnapshotsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Operation$entitySnapshotsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$EntitySnapshotPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  approvals<T extends Prisma.Operation$approvalsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Operation$approvalsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OperationApprovalPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1314,6 +1577,9 @@ export interface OperationFieldRefs {
   readonly options: Prisma.FieldRef<"Operation", 'Json'>
   readonly requestedInstanceIds: Prisma.FieldRef<"Operation", 'Json'>
   readonly phases: Prisma.FieldRef<"Operation", 'Json'>
+  readonly retriedOperationId: Prisma.FieldRef<"Operation", 'String'>
+  readonly approvalRequest: Prisma.FieldRef<"Operation", 'Json'>
+  readonly holderId: Prisma.FieldRef<"Operation", 'String'>
   readonly startedAt: Prisma.FieldRef<"Operation", 'DateTime'>
   readonly updatedAt: Prisma.FieldRef<"Operation", 'DateTime'>
   readonly finishedAt: Prisma.FieldRef<"Operation", 'DateTime'>
@@ -1774,6 +2040,30 @@ export type Operation$entitySnapshotsArgs<ExtArgs extends runtime.Types.Extensio
   distinct?: Prisma.EntitySnapshotScalarFieldEnum | Prisma.EntitySnapshotScalarFieldEnum[]
 }
 
+/**
+ * Operation.approvals
+ */
+export type Operation$approvalsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OperationApproval
+   */
+  select?: Prisma.OperationApprovalSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OperationApproval
+   */
+  omit?: Prisma.OperationApprovalOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OperationApprovalInclude<ExtArgs> | null
+  where?: Prisma.OperationApprovalWhereInput
+  orderBy?: Prisma.OperationApprovalOrderByWithRelationInput | Prisma.OperationApprovalOrderByWithRelationInput[]
+  cursor?: Prisma.OperationApprovalWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.OperationApprovalScalarFieldEnum | Prisma.OperationApprovalScalarFieldEnum[]
+}
+
 /**
  * Operation without action
  */
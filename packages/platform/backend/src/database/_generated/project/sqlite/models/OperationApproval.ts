@@ -0,0 +1,1405 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `OperationApproval` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+
+import type * as PJTG from '../pjtg.ts';
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.ts"
+import type * as Prisma from "../internal/prismaNamespace.ts"
+
+/**
+ * Model OperationApproval
+ * 
+ */
+export type OperationApprovalModel = runtime.Types.Result.DefaultSelection<Prisma.$OperationApprovalPayload>
+
+export type AggregateOperationApproval = {
+  _count: OperationApprovalCountAggregateOutputType | null
+  _min: OperationApprovalMinAggregateOutputType | null
+  _max: OperationApprovalMaxAggregateOutputType | null
+}
+
+export type OperationApprovalMinAggregateOutputType = {
+  id: string | null
+  operationId: string | null
+  userId: string | null
+  decision: $Enums.OperationApprovalDecision | null
+  comment: string | null
+  createdAt: Date | null
+}
+
+export type OperationApprovalMaxAggregateOutputType = {
+  id: string | null
+  operationId: string | null
+  userId: string | null
+  decision: $Enums.OperationApprovalDecision | null
+  comment: string | null
+  createdAt: Date | null
+}
+
+export type OperationApprovalCountAggregateOutputType = {
+  id: number
+  operationId: number
+  userId: number
+  decision: number
+  comment: number
+  createdAt: number
+  _all: number
+}
+
+
+export type OperationApprovalMinAggregateInputType = {
+  id?: true
+  operationId?: true
+  userId?: true
+  decision?: true
+  comment?: true
+  createdAt?: true
+}
+
+export type OperationApprovalMaxAggregateInputType = {
+  id?: true
+  operationId?: true
+  userId?: true
+  decision?: true
+  comment?: true
+  createdAt?: true
+}
+
+export type OperationApprovalCountAggregateInputType = {
+  id?: true
+  operationId?: true
+  userId?: true
+  decision?: true
+  comment?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type OperationApprovalAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which OperationApproval to aggregate.
+   */
+  where?: Prisma.OperationApprovalWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of OperationApprovals to fetch.
+   */
+  orderBy?: Prisma.OperationApprovalOrderByWithRelationInput | Prisma.OperationApprovalOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.OperationApprovalWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` OperationApprovals from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` OperationApprovals.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned OperationApprovals
+  **/
+  _count?: true | OperationApprovalCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: OperationApprovalMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: OperationApprovalMaxAggregateInputType
+}
+
+export type GetOperationApprovalAggregateType<T extends OperationApprovalAggregateArgs> = {
+      [P in keyof T & keyof AggregateOperationApproval]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateOperationApproval[P]>
+    : Prisma.GetScalarType<T[P], AggregateOperationApproval[P]>
+}
+
+
+
+
+export type OperationApprovalGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.OperationApprovalWhereInput
+  orderBy?: Prisma.OperationApprovalOrderByWithAggregationInput | Prisma.OperationApprovalOrderByWithAggregationInput[]
+  by: Prisma.OperationApprovalScalarFieldEnum[] | Prisma.OperationApprovalScalarFieldEnum
+  having?: Prisma.OperationApprovalScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: OperationApprovalCountAggregateInputType | true
+  _min?: OperationApprovalMinAggregateInputType
+  _max?: OperationApprovalMaxAggregateInputType
+}
+
+export type OperationApprovalGroupByOutputType = {
+  id: string
+  operationId: string
+  userId: string
+  decision: $Enums.OperationApprovalDecision
+  comment: string | null
+  createdAt: Date
+  _count: OperationApprovalCountAggregateOutputType | null
+  _min: OperationApprovalMinAggregateOutputType | null
+  _max: OperationApprovalMaxAggregateOutputType | null
+}
+
+type GetOperationApprovalGroupByPayload<T extends OperationApprovalGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<OperationApprovalGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof OperationApprovalGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], OperationApprovalGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], OperationApprovalGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type OperationApprovalWhereInput = {
+  AND?: Prisma.OperationApprovalWhereInput | Prisma.OperationApprovalWhereInput[]
+  OR?: Prisma.OperationApprovalWhereInput[]
+  NOT?: Prisma.OperationApprovalWhereInput | Prisma.OperationApprovalWhereInput[]
+  id?: Prisma.StringFilter<"OperationApproval"> | string
+  operationId?: Prisma.StringFilter<"OperationApproval"> | string
+  userId?: Prisma.StringFilter<"OperationApproval"> | string
+  decision?: Prisma.EnumOperationApprovalDecisionFilter<"OperationApproval"> | $Enums.OperationApprovalDecision
+  comment?: Prisma.StringNullableFilter<"OperationApproval"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"OperationApproval"> | Date | string
+  operation?: Prisma.XOR<Prisma.OperationScalarRelationFilter, Prisma.OperationWhereInput>
+}
+
+export type OperationApprovalOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  operationId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  decision?: Prisma.SortOrder
+  comment?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  operation?: Prisma.OperationOrderByWithRelationInput
+}
+
+export type OperationApprovalWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  operationId_userId?: Prisma.OperationApprovalOperationIdUserIdCompoundUniqueInput
+  AND?: Prisma.OperationApprovalWhereInput | Prisma.OperationApprovalWhereInput[]
+  OR?: Prisma.OperationApprovalWhereInput[]
+  NOT?: Prisma.OperationApprovalWhereInput | Prisma.OperationApprovalWhereInput[]
+  operationId?: Prisma.StringFilter<"OperationApproval"> | string
+  userId?: Prisma.StringFilter<"OperationApproval"> | string
+  decision?: Prisma.EnumOperationApprovalDecisionFilter<"OperationApproval"> | $Enums.OperationApprovalDecision
+  comment?: Prisma.StringNullableFilter<"OperationApproval"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"OperationApproval"> | Date | string
+  operation?: Prisma.XOR<Prisma.OperationScalarRelationFilter, Prisma.OperationWhereInput>
+}, "id" | "operationId_userId">
+
+export type OperationApprovalOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  operationId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  decision?: Prisma.SortOrder
+  comment?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.OperationApprovalCountOrderByAggregateInput
+  _max?: Prisma.OperationApprovalMaxOrderByAggregateInput
+  _min?: Prisma.OperationApprovalMinOrderByAggregateInput
+}
+
+export type OperationApprovalScalarWhereWithAggregatesInput = {
+  AND?: Prisma.OperationApprovalScalarWhereWithAggregatesInput | Prisma.OperationApprovalScalarWhereWithAggregatesInput[]
+  OR?: Prisma.OperationApprovalScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.OperationApprovalScalarWhereWithAggregatesInput | Prisma.OperationApprovalScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"OperationApproval"> | string
+  operationId?: Prisma.StringWithAggregatesFilter<"OperationApproval"> | string
+  userId?: Prisma.StringWithAggregatesFilter<"OperationApproval"> | string
+  decision?: Prisma.EnumOperationApprovalDecisionWithAggregatesFilter<"OperationApproval"> | $Enums.OperationApprovalDecision
+  comment?: Prisma.StringNullableWithAggregatesFilter<"OperationApproval"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"OperationApproval"> | Date | string
+}
+
+export type OperationApprovalCreateInput = {
+  id?: string
+  userId: string
+  decision: $Enums.OperationApprovalDecision
+  comment?: string | null
+  createdAt?: Date | string
+  operation: Prisma.OperationCreateNestedOneWithoutApprovalsInput
+}
+
+export type OperationApprovalUncheckedCreateInput = {
+  id?: string
+  operationId: string
+  userId: string
+  decision: $Enums.OperationApprovalDecision
+  comment?: string | null
+  createdAt?: Date | string
+}
+
+export type OperationApprovalUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  decision?: Prisma.EnumOperationApprovalDecisionFieldUpdateOperationsInput | $Enums.OperationApprovalDecision
+  comment?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  operation?: Prisma.OperationUpdateOneRequiredWithoutApprovalsNestedInput
+}
+
+export type OperationApprovalUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  operationId?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  decision?: Prisma.EnumOperationApprovalDecisionFieldUpdateOperationsInput | $Enums.OperationApprovalDecision
+  comment?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type OperationApprovalCreateManyInput = {
+  id?: string
+  operationId: string
+  userId: string
+  decision: $Enums.OperationApprovalDecision
+  comment?: string | null
+  createdAt?: Date | string
+}
+
+export type OperationApprovalUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  decision?: Prisma.EnumOperationApprovalDecisionFieldUpdateOperationsInput | $Enums.OperationApprovalDecision
+  comment?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type OperationApprovalUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  operationId?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  decision?: Prisma.EnumOperationApprovalDecisionFieldUpdateOperationsInput | $Enums.OperationApprovalDecision
+  comment?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type OperationApprovalListRelationFilter = {
+  every?: Prisma.OperationApprovalWhereInput
+  some?: Prisma.OperationApprovalWhereInput
+  none?: Prisma.OperationApprovalWhereInput
+}
+
+export type OperationApprovalOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type OperationApprovalOperationIdUserIdCompoundUniqueInput = {
+  operationId: string
+  userId: string
+}
+
+export type OperationApprovalCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  operationId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  decision?: Prisma.SortOrder
+  comment?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type OperationApprovalMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  operationId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  decision?: Prisma.SortOrder
+  comment?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type OperationApprovalMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  operationId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  decision?: Prisma.SortOrder
+  comment?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type OperationApprovalCreateNestedManyWithoutOperationInput = {
+  create?: Prisma.XOR<Prisma.OperationApprovalCreateWithoutOperationInput, Prisma.OperationApprovalUncheckedCreateWithoutOperationInput> | Prisma.OperationApprovalCreateWithoutOperationInput[] | Prisma.OperationApprovalUncheckedCreateWithoutOperationInput[]
+  connectOrCreate?: Prisma.OperationApprovalCreateOrConnectWithoutOperationInput | Prisma.OperationApprovalCreateOrConnectWithoutOperationInput[]
+  createMany?: Prisma.OperationApprovalCreateManyOperationInputEnvelope
+  connect?: Prisma.OperationApprovalWhereUniqueInput | Prisma.OperationApprovalWhereUniqueInput[]
+}
+
+export type OperationApprovalUncheckedCreateNestedManyWithoutOperationInput = {
+  create?: Prisma.XOR<Prisma.OperationApprovalCreateWithoutOperationInput, Prisma.OperationApprovalUncheckedCreateWithoutOperationInput> | Prisma.OperationApprovalCreateWithoutOperationInput[] | Prisma.OperationApprovalUncheckedCreateWithoutOperationInput[]
+  connectOrCreate?: Prisma.OperationApprovalCreateOrConnectWithoutOperationInput | Prisma.OperationApprovalCreateOrConnectWithoutOperationInput[]
+  createMany?: Prisma.OperationApprovalCreateManyOperationInputEnvelope
+  connect?: Prisma.OperationApprovalWhereUniqueInput | Prisma.OperationApprovalWhereUniqueInput[]
+}
+
+export type OperationApprovalUpdateManyWithoutOperationNestedInput = {
+  create?: Prisma.XOR<Prisma.OperationApprovalCreateWithoutOperationInput, Prisma.OperationApprovalUncheckedCreateWithoutOperationInput> | Prisma.OperationApprovalCreateWithoutOperationInput[] | Prisma.OperationApprovalUncheckedCreateWithoutOperationInput[]
+  connectOrCreate?: Prisma.OperationApprovalCreateOrConnectWithoutOperationInput | Prisma.OperationApprovalCreateOrConnectWithoutOperationInput[]
+  upsert?: Prisma.OperationApprovalUpsertWithWhereUniqueWithoutOperationInput | Prisma.OperationApprovalUpsertWithWhereUniqueWithoutOperationInput[]
+  createMany?: Prisma.OperationApprovalCreateManyOperationInputEnvelope
+  set?: Prisma.OperationApprovalWhereUniqueInput | Prisma.OperationApprovalWhereUniqueInput[]
+  disconnect?: Prisma.OperationApprovalWhereUniqueInput | Prisma.OperationApprovalWhereUniqueInput[]
+  delete?: Prisma.OperationApprovalWhereUniqueInput | Prisma.OperationApprovalWhereUniqueInput[]
+  connect?: Prisma.OperationApprovalWhereUniqueInput | Prisma.OperationApprovalWhereUniqueInput[]
+  update?: Prisma.OperationApprovalUpdateWithWhereUniqueWithoutOperationInput | Prisma.OperationApprovalUpdateWithWhereUniqueWithoutOperationInput[]
+  updateMany?: Prisma.OperationApprovalUpdateManyWithWhereWithoutOperationInput | Prisma.OperationApprovalUpdateManyWithWhereWithoutOperationInput[]
+  deleteMany?: Prisma.OperationApprovalScalarWhereInput | Prisma.OperationApprovalScalarWhereInput[]
+}
+
+export type OperationApprovalUncheckedUpdateManyWithoutOperationNestedInput = {
+  create?: Prisma.XOR<Prisma.OperationApprovalCreateWithoutOperationInput, Prisma.OperationApprovalUncheckedCreateWithoutOperationInput> | Prisma.OperationApprovalCreateWithoutOperationInput[] | Prisma.OperationApprovalUncheckedCreateWithoutOperationInput[]
+  connectOrCreate?: Prisma.OperationApprovalCreateOrConnectWithoutOperationInput | Prisma.OperationApprovalCreateOrConnectWithoutOperationInput[]
+  upsert?: Prisma.OperationApprovalUpsertWithWhereUniqueWithoutOperationInput | Prisma.OperationApprovalUpsertWithWhereUniqueWithoutOperationInput[]
+  createMany?: Prisma.OperationApprovalCreateManyOperationInputEnvelope
+  set?: Prisma.OperationApprovalWhereUniqueInput | Prisma.OperationApprovalWhereUniqueInput[]
+  disconnect?: Prisma.OperationApprovalWhereUniqueInput | Prisma.OperationApprovalWhereUniqueInput[]
+  delete?: Prisma.OperationApprovalWhereUniqueInput | Prisma.OperationApprovalWhereUniqueInput[]
+  connect?: Prisma.OperationApprovalWhereUniqueInput | Prisma.OperationApprovalWhereUniqueInput[]
+  update?: Prisma.OperationApprovalUpdateWithWhereUniqueWithoutOperationInput | Prisma.OperationApprovalUpdateWithWhereUniqueWithoutOperationInput[]
+  updateMany?: Prisma.OperationApprovalUpdateManyWithWhereWithoutOperationInput | Prisma.OperationApprovalUpdateManyWithWhereWithoutOperationInput[]
+  deleteMany?: Prisma.OperationApprovalScalarWhereInput | Prisma.OperationApprovalScalarWhereInput[]
+}
+
+export type EnumOperationApprovalDecisionFieldUpdateOperationsInput = {
+  set?: $Enums.OperationApprovalDecision
+}
+
+export type OperationApprovalCreateWithoutOperationInput = {
+  id?: string
+  userId: string
+  decision: $Enums.OperationApprovalDecision
+  comment?: string | null
+  createdAt?: Date | string
+}
+
+export type OperationApprovalUncheckedCreateWithoutOperationInput = {
+  id?: string
+  userId: string
+  decision: $Enums.OperationApprovalDecision
+  comment?: string | null
+  createdAt?: Date | string
+}
+
+export type OperationApprovalCreateOrConnectWithoutOperationInput = {
+  where: Prisma.OperationApprovalWhereUniqueInput
+  create: Prisma.XOR<Prisma.OperationApprovalCreateWithoutOperationInput, Prisma.OperationApprovalUncheckedCreateWithoutOperationInput>
+}
+
+export type OperationApprovalCreateManyOperationInputEnvelope = {
+  data: Prisma.OperationApprovalCreateManyOperationInput | Prisma.OperationApprovalCreateManyOperationInput[]
+}
+
+export type OperationApprovalUpsertWithWhereUniqueWithoutOperationInput = {
+  where: Prisma.OperationApprovalWhereUniqueInput
+  update: Prisma.XOR<Prisma.OperationApprovalUpdateWithoutOperationInput, Prisma.OperationApprovalUncheckedUpdateWithoutOperationInput>
+  create: Prisma.XOR<Prisma.OperationApprovalCreateWithoutOperationInput, Prisma.OperationApprovalUncheckedCreateWithoutOperationInput>
+}
+
+export type OperationApprovalUpdateWithWhereUniqueWithoutOperationInput = {
+  where: Prisma.OperationApprovalWhereUniqueInput
+  data: Prisma.XOR<Prisma.OperationApprovalUpdateWithoutOperationInput, Prisma.OperationApprovalUncheckedUpdateWithoutOperationInput>
+}
+
+export type OperationApprovalUpdateManyWithWhereWithoutOperationInput = {
+  where: Prisma.OperationApprovalScalarWhereInput
+  data: Prisma.XOR<Prisma.OperationApprovalUpdateManyMutationInput, Prisma.OperationApprovalUncheckedUpdateManyWithoutOperationInput>
+}
+
+export type OperationApprovalScalarWhereInput = {
+  AND?: Prisma.OperationApprovalScalarWhereInput | Prisma.OperationApprovalScalarWhereInput[]
+  OR?: Prisma.OperationApprovalScalarWhereInput[]
+  NOT?: Prisma.OperationApprovalScalarWhereInput | Prisma.OperationApprovalScalarWhereInput[]
+  id?: Prisma.StringFilter<"OperationApproval"> | string
+  operationId?: Prisma.StringFilter<"OperationApproval"> | string
+  userId?: Prisma.StringFilter<"OperationApproval"> | string
+  decision?: Prisma.EnumOperationApprovalDecisionFilter<"OperationApproval"> | $Enums.OperationApprovalDecision
+  comment?: Prisma.StringNullableFilter<"OperationApproval"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"OperationApproval"> | Date | string
+}
+
+export type OperationApprovalCreateManyOperationInput = {
+  id?: string
+  userId: string
+  decision: $Enums.OperationApprovalDecision
+  comment?: string | null
+  createdAt?: Date | string
+}
+
+export type OperationApprovalUpdateWithoutOperationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  decision?: Prisma.EnumOperationApprovalDecisionFieldUpdateOperationsInput | $Enums.OperationApprovalDecision
+  comment?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type OperationApprovalUncheckedUpdateWithoutOperationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  decision?: Prisma.EnumOperationApprovalDecisionFieldUpdateOperationsInput | $Enums.OperationApprovalDecision
+  comment?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type OperationApprovalUncheckedUpdateManyWithoutOperationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  decision?: Prisma.EnumOperationApprovalDecisionFieldUpdateOperationsInput | $Enums.OperationApprovalDecision
+  comment?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type OperationApprovalSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  operationId?: boolean
+  userId?: boolean
+  decision?: boolean
+  comment?: boolean
+  createdAt?: boolean
+  operation?: boolean | Prisma.OperationDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["operationApproval"]>
+
+export type OperationApprovalSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  operationId?: boolean
+  userId?: boolean
+  decision?: boolean
+  comment?: boolean
+  createdAt?: boolean
+  operation?: boolean | Prisma.OperationDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["operationApproval"]>
+
+export type OperationApprovalSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  operationId?: boolean
+  userId?: boolean
+  decision?: boolean
+  comment?: boolean
+  createdAt?: boolean
+  operation?: boolean | Prisma.OperationDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["operationApproval"]>
+
+export type OperationApprovalSelectScalar = {
+  id?: boolean
+  operationId?: boolean
+  userId?: boolean
+  decision?: boolean
+  comment?: boolean
+  createdAt?: boolean
+}
+
+export type OperationApprovalOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "operationId" | "userId" | "decision" | "comment" | "createdAt", ExtArgs["result"]["operationApproval"]>
+export type OperationApprovalInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  operation?: boolean | Prisma.OperationDefaultArgs<ExtArgs>
+}
+export type OperationApprovalIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  operation?: boolean | Prisma.OperationDefaultArgs<ExtArgs>
+}
+export type OperationApprovalIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  operation?: boolean | Prisma.OperationDefaultArgs<ExtArgs>
+}
+
+export type $OperationApprovalPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "OperationApproval"
+  objects: {
+    /**
+     * The operation being approved or rejected.
+     */
+    operation: Prisma.$OperationPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    /**
+     * The CUIDv2 of the approval.
+     */
+    id: string
+    /**
+     * The ID of the operation being approved or rejected.
+     */
+    operationId: string
+    /**
+     * The ID of the user who made the decision.
+     */
+    userId: string
+    /**
+     * The decision of the user.
+     */
+    decision: $Enums.OperationApprovalDecision
+    /**
+     * The optional comment explaining the decision.
+     */
+    comment: string | null
+    /**
+     * The time when the decision was made.
+     */
+    createdAt: Date
+  }, ExtArgs["result"]["operationApproval"]>
+  composites: {}
+}
+
+export type OperationApprovalGetPayload<S extends boolean | null | undefined | OperationApprovalDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$OperationApprovalPayload, S>
+
+export type OperationApprovalCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<OperationApprovalFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: OperationApprovalCountAggregateInputType | true
+  }
+
+export interface OperationApprovalDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['OperationApproval'], meta: { name: 'OperationApproval' } }
+  /**
+   * Find zero or one OperationApproval that matches the filter.
+   * @param {OperationApprovalFindUniqueArgs} args - Arguments to find a OperationApproval
+   * @example
+   * // Get one OperationApproval
+   * const operationApproval = await prisma.operationApproval.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends OperationApprovalFindUniqueArgs>(args: Prisma.SelectSubset<T, OperationApprovalFindUniqueArgs<ExtArgs>>): Prisma.Prisma__OperationApprovalClient<runtime.Types.Result.GetResult<Prisma.$OperationApprovalPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one OperationApproval that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {OperationApprovalFindUniqueOrThrowArgs} args - Arguments to find a OperationApproval
+   * @example
+   * // Get one OperationApproval
+   * const operationApproval = await prisma.operationApproval.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends OperationApprovalFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, OperationApprovalFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__OperationApprovalClient<runtime.Types.Result.GetResult<Prisma.$OperationApprovalPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first OperationApproval that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OperationApprovalFindFirstArgs} args - Arguments to find a OperationApproval
+   * @example
+   * // Get one OperationApproval
+   * const operationApproval = await prisma.operationApproval.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends OperationApprovalFindFirstArgs>(args?: Prisma.SelectSubset<T, OperationApprovalFindFirstArgs<ExtArgs>>): Prisma.Prisma__OperationApprovalClient<runtime.Types.Result.GetResult<Prisma.$OperationApprovalPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first OperationApproval that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OperationApprovalFindFirstOrThrowArgs} args - Arguments to find a OperationApproval
+   * @example
+   * // Get one OperationApproval
+   * const operationApproval = await prisma.operationApproval.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends OperationApprovalFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, OperationApprovalFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__OperationApprovalClient<runtime.Types.Result.GetResult<Prisma.$OperationApprovalPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more OperationApprovals that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OperationApprovalFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all OperationApprovals
+   * const operationApprovals = await prisma.operationApproval.findMany()
+   * 
+   * // Get first 10 OperationApprovals
+   * const operationApprovals = await prisma.operationApproval.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const operationApprovalWithIdOnly = await prisma.operationApproval.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends OperationApprovalFindManyArgs>(args?: Prisma.SelectSubset<T, OperationApprovalFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OperationApprovalPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a OperationApproval.
+   * @param {OperationApprovalCreateArgs} args - Arguments to create a OperationApproval.
+   * @example
+   * // Create one OperationApproval
+   * const OperationApproval = await prisma.operationApproval.create({
+   *   data: {
+   *     // ... data to create a OperationApproval
+   *   }
+   * })
+   * 
+   */
+  create<T extends OperationApprovalCreateArgs>(args: Prisma.SelectSubset<T, OperationApprovalCreateArgs<ExtArgs>>): Prisma.Prisma__OperationApprovalClient<runtime.Types.Result.GetResult<Prisma.$OperationApprovalPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many OperationApprovals.
+   * @param {OperationApprovalCreateManyArgs} args - Arguments to create many OperationApprovals.
+   * @example
+   * // Create many OperationApprovals
+   * const operationApproval = await prisma.operationApproval.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends OperationApprovalCreateManyArgs>(args?: Prisma.SelectSubset<T, OperationApprovalCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many OperationApprovals and returns the data saved in the database.
+   * @param {OperationApprovalCreateManyAndReturnArgs} args - Arguments to create many OperationApprovals.
+   * @example
+   * // Create many OperationApprovals
+   * const operationApproval = await prisma.operationApproval.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many OperationApprovals and only return the `id`
+   * const operationApprovalWithIdOnly = await prisma.operationApproval.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends OperationApprovalCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, OperationApprovalCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OperationApprovalPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a OperationApproval.
+   * @param {OperationApprovalDeleteArgs} args - Arguments to delete one OperationApproval.
+   * @example
+   * // Delete one OperationApproval
+   * const OperationApproval = await prisma.operationApproval.delete({
+   *   where: {
+   *     // ... filter to delete one OperationApproval
+   *   }
+   * })
+   * 
+   */
+  delete<T extends OperationApprovalDeleteArgs>(args: Prisma.SelectSubset<T, OperationApprovalDeleteArgs<ExtArgs>>): Prisma.Prisma__OperationApprovalClient<runtime.Types.Result.GetResult<Prisma.$OperationApprovalPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one OperationApproval.
+   * @param {OperationApprovalUpdateArgs} args - Arguments to update one OperationApproval.
+   * @example
+   * // Update one OperationApproval
+   * const operationApproval = await prisma.operationApproval.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends OperationApprovalUpdateArgs>(args: Prisma.SelectSubset<T, OperationApprovalUpdateArgs<ExtArgs>>): Prisma.Prisma__OperationApprovalClient<runtime.Types.Result.GetResult<Prisma.$OperationApprovalPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more OperationApprovals.
+   * @param {OperationApprovalDeleteManyArgs} args - Arguments to filter OperationApprovals to delete.
+   * @example
+   * // Delete a few OperationApprovals
+   * const { count } = await prisma.operationApproval.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends OperationApprovalDeleteManyArgs>(args?: Prisma.SelectSubset<T, OperationApprovalDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more OperationApprovals.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OperationApprovalUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many OperationApprovals
+   * const operationApproval = await prisma.operationApproval.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends OperationApprovalUpdateManyArgs>(args: Prisma.SelectSubset<T, OperationApprovalUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more OperationApprovals and returns the data updated in the database.
+   * @param {OperationApprovalUpdateManyAndReturnArgs} args - Arguments to update many OperationApprovals.
+   * @example
+   * // Update many OperationApprovals
+   * const operationApproval = await prisma.operationApproval.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more OperationApprovals and only return the `id`
+   * const operationApprovalWithIdOnly = await prisma.operationApproval.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends OperationApprovalUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, OperationApprovalUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OperationApprovalPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one OperationApproval.
+   * @param {OperationApprovalUpsertArgs} args - Arguments to update or create a OperationApproval.
+   * @example
+   * // Update or create a OperationApproval
+   * const operationApproval = await prisma.operationApproval.upsert({
+   *   create: {
+   *     // ... data to create a OperationApproval
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the OperationApproval we want to update
+   *   }
+   * })
+   */
+  upsert<T extends OperationApprovalUpsertArgs>(args: Prisma.SelectSubset<T, OperationApprovalUpsertArgs<ExtArgs>>): Prisma.Prisma__OperationApprovalClient<runtime.Types.Result.GetResult<Prisma.$OperationApprovalPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of OperationApprovals.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OperationApprovalCountArgs} args - Arguments to filter OperationApprovals to count.
+   * @example
+   * // Count the number of OperationApprovals
+   * const count = await prisma.operationApproval.count({
+   *   where: {
+   *     // ... the filter for the OperationApprovals we want to count
+   *   }
+   * })
+  **/
+  count<T extends OperationApprovalCountArgs>(
+    args?: Prisma.Subset<T, OperationApprovalCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], OperationApprovalCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a OperationApproval.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OperationApprovalAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends OperationApprovalAggregateArgs>(args: Prisma.Subset<T, OperationApprovalAggregateArgs>): Prisma.PrismaPromise<GetOperationApprovalAggregateType<T>>
+
+  /**
+   * Group by OperationApproval.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OperationApprovalGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends OperationApprovalGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: OperationApprovalGroupByArgs['orderBy'] }
+      : { orderBy?: OperationApprovalGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, OperationApprovalGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetOperationApprovalGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the OperationApproval model
+ */
+readonly fields: OperationApprovalFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for OperationApproval.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__OperationApprovalClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  operation<T extends Prisma.OperationDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.OperationDefaultArgs<ExtArgs>>): Prisma.Prisma__OperationClient<runtime.Types.Result.GetResult<Prisma.$OperationPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the OperationApproval model
+ */
+export interface OperationApprovalFieldRefs {
+  readonly id: Prisma.FieldRef<"OperationApproval", 'String'>
+  readonly operationId: Prisma.FieldRef<"OperationApproval", 'String'>
+  readonly userId: Prisma.FieldRef<"OperationApproval", 'String'>
+  readonly decision: Prisma.FieldRef<"OperationApproval", 'OperationApprovalDecision'>
+  readonly comment: Prisma.FieldRef<"OperationApproval", 'String'>
+  readonly createdAt: Prisma.FieldRef<"OperationApproval", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * OperationApproval findUnique
+ */
+export type OperationApprovalFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OperationApproval
+   */
+  select?: Prisma.OperationApprovalSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OperationApproval
+   */
+  omit?: Prisma.OperationApprovalOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OperationApprovalInclude<ExtArgs> | null
+  /**
+   * Filter, which OperationApproval to fetch.
+   */
+  where: Prisma.OperationApprovalWhereUniqueInput
+}
+
+/**
+ * OperationApproval findUniqueOrThrow
+ */
+export type OperationApprovalFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OperationApproval
+   */
+  select?: Prisma.OperationApprovalSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OperationApproval
+   */
+  omit?: Prisma.OperationApprovalOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OperationApprovalInclude<ExtArgs> | null
+  /**
+   * Filter, which OperationApproval to fetch.
+   */
+  where: Prisma.OperationApprovalWhereUniqueInput
+}
+
+/**
+ * OperationApproval findFirst
+ */
+export type OperationApprovalFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OperationApproval
+   */
+  select?: Prisma.OperationApprovalSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OperationApproval
+   */
+  omit?: Prisma.OperationApprovalOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OperationApprovalInclude<ExtArgs> | null
+  /**
+   * Filter, which OperationApproval to fetch.
+   */
+  where?: Prisma.OperationApprovalWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of OperationApprovals to fetch.
+   */
+  orderBy?: Prisma.OperationApprovalOrderByWithRelationInput | Prisma.OperationApprovalOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for OperationApprovals.
+   */
+  cursor?: Prisma.OperationApprovalWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` OperationApprovals from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` OperationApprovals.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of OperationApprovals.
+   */
+  distinct?: Prisma.OperationApprovalScalarFieldEnum | Prisma.OperationApprovalScalarFieldEnum[]
+}
+
+/**
+ * OperationApproval findFirstOrThrow
+ */
+export type OperationApprovalFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OperationApproval
+   */
+  select?: Prisma.OperationApprovalSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OperationApproval
+   */
+  omit?: Prisma.OperationApprovalOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OperationApprovalInclude<ExtArgs> | null
+  /**
+   * Filter, which OperationApproval to fetch.
+   */
+  where?: Prisma.OperationApprovalWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of OperationApprovals to fetch.
+   */
+  orderBy?: Prisma.OperationApprovalOrderByWithRelationInput | Prisma.OperationApprovalOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for OperationApprovals.
+   */
+  cursor?: Prisma.OperationApprovalWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` OperationApprovals from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` OperationApprovals.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of OperationApprovals.
+   */
+  distinct?: Prisma.OperationApprovalScalarFieldEnum | Prisma.OperationApprovalScalarFieldEnum[]
+}
+
+/**
+ * OperationApproval findMany
+ */
+export type OperationApprovalFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OperationApproval
+   */
+  select?: Prisma.OperationApprovalSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OperationApproval
+   */
+  omit?: Prisma.OperationApprovalOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OperationApprovalInclude<ExtArgs> | null
+  /**
+   * Filter, which OperationApprovals to fetch.
+   */
+  where?: Prisma.OperationApprovalWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of OperationApprovals to fetch.
+   */
+  orderBy?: Prisma.OperationApprovalOrderByWithRelationInput | Prisma.OperationApprovalOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing OperationApprovals.
+   */
+  cursor?: Prisma.OperationApprovalWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` OperationApprovals from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` OperationApprovals.
+   */
+  skip?: number
+  distinct?: Prisma.OperationApprovalScalarFieldEnum | Prisma.OperationApprovalScalarFieldEnum[]
+}
+
+/**
+ * OperationApproval create
+ */
+export type OperationApprovalCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OperationApproval
+   */
+  select?: Prisma.OperationApprovalSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OperationApproval
+   */
+  omit?: Prisma.OperationApprovalOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OperationApprovalInclude<ExtArgs> | null
+  /**
+   * The data needed to create a OperationApproval.
+   */
+  data: Prisma.XOR<Prisma.OperationApprovalCreateInput, Prisma.OperationApprovalUncheckedCreateInput>
+}
+
+/**
+ * OperationApproval createMany
+ */
+export type OperationApprovalCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many OperationApprovals.
+   */
+  data: Prisma.OperationApprovalCreateManyInput | Prisma.OperationApprovalCreateManyInput[]
+}
+
+/**
+ * OperationApproval createManyAndReturn
+ */
+export type OperationApprovalCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OperationApproval
+   */
+  select?: Prisma.OperationApprovalSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the OperationApproval
+   */
+  omit?: Prisma.OperationApprovalOmit<ExtArgs> | null
+  /**
+   * The data used to create many OperationApprovals.
+   */
+  data: Prisma.OperationApprovalCreateManyInput | Prisma.OperationApprovalCreateManyInput[]
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OperationApprovalIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * OperationApproval update
+ */
+export type OperationApprovalUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OperationApproval
+   */
+  select?: Prisma.OperationApprovalSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OperationApproval
+   */
+  omit?: Prisma.OperationApprovalOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OperationApprovalInclude<ExtArgs> | null
+  /**
+   * The data needed to update a OperationApproval.
+   */
+  data: Prisma.XOR<Prisma.OperationApprovalUpdateInput, Prisma.OperationApprovalUncheckedUpdateInput>
+  /**
+   * Choose, which OperationApproval to update.
+   */
+  where: Prisma.OperationApprovalWhereUniqueInput
+}
+
+/**
+ * OperationApproval updateMany
+ */
+export type OperationApprovalUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update OperationApprovals.
+   */
+  data: Prisma.XOR<Prisma.OperationApprovalUpdateManyMutationInput, Prisma.OperationApprovalUncheckedUpdateManyInput>
+  /**
+   * Filter which OperationApprovals to update
+   */
+  where?: Prisma.OperationApprovalWhereInput
+  /**
+   * Limit how many OperationApprovals to update.
+   */
+  limit?: number
+}
+
+/**
+ * OperationApproval updateManyAndReturn
+ */
+export type OperationApprovalUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OperationApproval
+   */
+  select?: Prisma.OperationApprovalSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the OperationApproval
+   */
+  omit?: Prisma.OperationApprovalOmit<ExtArgs> | null
+  /**
+   * The data used to update OperationApprovals.
+   */
+  data: Prisma.XOR<Prisma.OperationApprovalUpdateManyMutationInput, Prisma.OperationApprovalUncheckedUpdateManyInput>
+  /**
+   * Filter which OperationApprovals to update
+   */
+  where?: Prisma.OperationApprovalWhereInput
+  /**
+   * Limit how many OperationApprovals to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OperationApprovalIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * OperationApproval upsert
+ */
+export type OperationApprovalUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OperationApproval
+   */
+  select?: Prisma.OperationApprovalSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OperationApproval
+   */
+  omit?: Prisma.OperationApprovalOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OperationApprovalInclude<ExtArgs> | null
+  /**
+   * The filter to search for the OperationApproval to update in case it exists.
+   */
+  where: Prisma.OperationApprovalWhereUniqueInput
+  /**
+   * In case the OperationApproval found by the `where` argument doesn't exist, create a new OperationApproval with this data.
+   */
+  create: Prisma.XOR<Prisma.OperationApprovalCreateInput, Prisma.OperationApprovalUncheckedCreateInput>
+  /**
+   * In case the OperationApproval was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.OperationApprovalUpdateInput, Prisma.OperationApprovalUncheckedUpdateInput>
+}
+
+/**
+ * OperationApproval delete
+ */
+export type OperationApprovalDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OperationApproval
+   */
+  select?: Prisma.OperationApprovalSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OperationApproval
+   */
+  omit?: Prisma.OperationApprovalOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OperationApprovalInclude<ExtArgs> | null
+  /**
+   * Filter which OperationApproval to delete.
+   */
+  where: Prisma.OperationApprovalWhereUniqueInput
+}
+
+/**
+ * OperationApproval deleteMany
+ */
+export type OperationApprovalDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which OperationApprovals to delete
+   */
+  where?: Prisma.OperationApprovalWhereInput
+  /**
+   * Limit how many OperationApprovals to delete.
+   */
+  limit?: number
+}
+
+/**
+ * OperationApproval without action
+ */
+export type OperationApprovalDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OperationApproval
+   */
+  select?: Prisma.OperationApprovalSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OperationApproval
+   */
+  omit?: Prisma.OperationApprovalOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OperationApprovalInclude<ExtArgs> | null
+}
@@ -45,6 +45,7 @@ export type SecretMinAggregateOutputType = {
   serviceAccountId: string | null
   createdAt: Date | null
   updatedAt: Date | null
+  updatedBy: string | null
 }
 
 export type SecretMaxAggregateOutputType = {
@@ -55,6 +56,7 @@ export type SecretMaxAggregateOutputType = {
   serviceAccountId: string | null
   createdAt: Date | null
   updatedAt: Date | null
+  updatedBy: string | null
 }
 
 export type SecretCountAggregateOutputType = {
@@ -67,6 +69,7 @@ export type SecretCountAggregateOutputType = {
   content: number
   createdAt: number
   updatedAt: number
+  updatedBy: number
   _all: number
 }
 
@@ -79,6 +82,7 @@ export type SecretMinAggregateInputType = {
   serviceAccountId?: true
   createdAt?: true
   updatedAt?: true
+  updatedBy?: true
 }
 
 export type SecretMaxAggregateInputType = {
@@ -89,6 +93,7 @@ export type SecretMaxAggregateInputType = {
   serviceAccountId?: true
   createdAt?: true
   updatedAt?: true
+  updatedBy?: true
 }
 
 export type SecretCountAggregateInputType = {
@@ -101,6 +106,7 @@ export type SecretCountAggregateInputType = {
   content?: true
   createdAt?: true
   updatedAt?: true
+  updatedBy?: true
   _all?: true
 }
 
@@ -186,6 +192,7 @@ export type SecretGroupByOutputType = {
   content:(unknown)
   createdAt: Date
   updatedAt: Date
+  updatedBy: string | null
   _count: SecretCountAggregateOutputType | null
   _min: SecretMinAggregateOutputType | null
   _max: SecretMaxAggregateOutputType | null
@@ -219,8 +226,11 @@ export type SecretWhereInput = {
   content?: Prisma.JsonFilter<"Secret">
   createdAt?: Prisma.DateTimeFilter<"Secret"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Secret"> | Date | string
+  updatedBy?: Prisma.StringNullableFilter<"Secret"> | string | null
   state?: Prisma.XOR<Prisma.InstanceStateNullableScalarRelationFilter, Prisma.InstanceStateWhereInput> | null
   serviceAccount?: Prisma.XOR<Prisma.ServiceAccountNullableScalarRelationFilter, Prisma.ServiceAccountWhereInput> | null
+  serviceAccountGrants?: Prisma.ServiceAccountGrantListRelationFilter
+  versions?: Prisma.SecretVersionListRelationFilter
 }
 
 export type SecretOrderByWithRelationInput = {
@@ -233,8 +243,11 @@ export type SecretOrderByWithRelationInput = {
   content?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
+  updatedBy?: Prisma.SortOrderInput | Prisma.SortOrder
   state?: Prisma.InstanceStateOrderByWithRelationInput
   serviceAccount?: Prisma.ServiceAccountOrderByWithRelationInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantOrderByRelationAggregateInput
+  versions?: Prisma.SecretVersionOrderByRelationAggregateInput
 }
 
 export type SecretWhereUniqueInput = Prisma.AtLeast<{
@@ -251,8 +264,11 @@ export type SecretWhereUniqueInput = Prisma.AtLeast<{
   content?: Prisma.JsonFilter<"Secret">
   createdAt?: Prisma.DateTimeFilter<"Secret"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Secret"> | Date | string
+  updatedBy?: Prisma.StringNullableFilter<"Secret"> | string | null
   state?: Prisma.XOR<Prisma.InstanceStateNullableScalarRelationFilter, Prisma.InstanceStateWhereInput> | null
   serviceAccount?: Prisma.XOR<Prisma.ServiceAccountNullableScalarRelationFilter, Prisma.ServiceAccountWhereInput> | null
+  serviceAccountGrants?: Prisma.ServiceAccountGrantListRelationFilter
+  versions?: Prisma.SecretVersionListRelationFilter
 }, "id" | "systemName" | "stateId_name">
 
 export type SecretOrderByWithAggregationInput = {
@@ -265,6 +281,7 @@ export type SecretOrderByWithAggregationInput = {
   content?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
+  updatedBy?: Prisma.SortOrderInput | Prisma.SortOrder
   _count?: Prisma.SecretCountOrderByAggregateInput
   _max?: Prisma.SecretMaxOrderByAggregateInput
   _min?: Prisma.SecretMinOrderByAggregateInput
@@ -283,6 +300,7 @@ export type SecretScalarWhereWithAggregatesInput = {
   content?: Prisma.JsonWithAggregatesFilter<"Secret">
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"Secret"> | Date | string
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"Secret"> | Date | string
+  updatedBy?: Prisma.StringNullableWithAggregatesFilter<"Secret"> | string | null
 }
 
 export type SecretCreateInput = {
@@ -293,8 +311,11 @@ export type SecretCreateInput = {
   content:(unknown)
   createdAt?: Date | string
   updatedAt?: Date | string
+  updatedBy?: string | null
   state?: Prisma.InstanceStateCreateNestedOneWithoutSecretsInput
   serviceAccount?: Prisma.ServiceAccountCreateNestedOneWithoutSecretsInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantCreateNestedManyWithoutSecretInput
+  versions?: Prisma.SecretVersionCreateNestedManyWithoutSecretInput
 }
 
 export type SecretUncheckedCreateInput = {
@@ -307,6 +328,9 @@ export type SecretUncheckedCreateInput = {
   content:(unknown)
   createdAt?: Date | string
   updatedAt?: Date | string
+  updatedBy?: string | null
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedCreateNestedManyWithoutSecretInput
+  versions?: Prisma.SecretVersionUncheckedCreateNestedManyWithoutSecretInput
 }
 
 export type SecretUpdateInput = {
@@ -317,8 +341,11 @@ export type SecretUpdateInput = {
   content?:(unknown)
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   state?: Prisma.InstanceStateUpdateOneWithoutSecretsNestedInput
   serviceAccount?: Prisma.ServiceAccountUpdateOneWithoutSecretsNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUpdateManyWithoutSecretNestedInput
+  versions?: Prisma.SecretVersionUpdateManyWithoutSecretNestedInput
 }
 
 export type SecretUncheckedUpdateInput = {
@@ -331,6 +358,9 @@ export type SecretUncheckedUpdateInput = {
   content?:(unknown)
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedUpdateManyWithoutSecretNestedInput
+  versions?: Prisma.SecretVersionUncheckedUpdateManyWithoutSecretNestedInput
 }
 
 export type SecretCreateManyInput = {
@@ -343,6 +373,7 @@ export type SecretCreateManyInput = {
   content:(unknown)
   createdAt?: Date | string
   updatedAt?: Date | string
+  updatedBy?: string | null
 }
 
 export type SecretUpdateManyMutationInput = {
@@ -353,6 +384,7 @@ export type SecretUpdateManyMutationInput = {
   content?:(unknown)
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
 }
 
 export type SecretUncheckedUpdateManyInput = {
@@ -365,6 +397,7 @@ export type SecretUncheckedUpdateManyInput = {
   content?:(unknown)
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
 }
 
 export type SecretListRelationFilter = {
@@ -392,6 +425,7 @@ export type SecretCountOrderByAggregateInput = {
   content?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
+  updatedBy?: Prisma.SortOrder
 }
 
 export type SecretMaxOrderByAggregateInput = {
@@ -402,6 +436,7 @@ export type SecretMaxOrderByAggregateInput = {
   serviceAccountId?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
+  updatedBy?: Prisma.SortOrder
 }
 
 export type SecretMinOrderByAggregateInput = {
@@ -412,6 +447,17 @@ export type SecretMinOrderByAggregateInput = {
   serviceAccountId?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
+  updatedBy?: Prisma.SortOrder
+}
+
+export type SecretScalarRelationFilter = {
+  is?: Prisma.SecretWhereInput
+  isNot?: Prisma.SecretWhereInput
+}
+
+export type SecretNullableScalarRelationFilter = {
+  is?: Prisma.SecretWhereInput | null
+  isNot?: Prisma.SecretWhereInput | null
 }
 
 export type SecretCreateNestedManyWithoutStateInput = {
@@ -456,6 +502,20 @@ export type SecretUncheckedUpdateManyWithoutStateNestedInput = {
   deleteMany?: Prisma.SecretScalarWhereInput | Prisma.SecretScalarWhereInput[]
 }
 
+export type SecretCreateNestedOneWithoutVersionsInput = {
+  create?: Prisma.XOR<Prisma.SecretCreateWithoutVersionsInput, Prisma.SecretUncheckedCreateWithoutVersionsInput>
+  connectOrCreate?: Prisma.SecretCreateOrConnectWithoutVersionsInput
+  connect?: Prisma.SecretWhereUniqueInput
+}
+
+export type SecretUpdateOneRequiredWithoutVersionsNestedInput = {
+  create?: Prisma.XOR<Prisma.SecretCreateWithoutVersionsInput, Prisma.SecretUncheckedCreateWithoutVersionsInput>
+  connectOrCreate?: Prisma.SecretCreateOrConnectWithoutVersionsInput
+  upsert?: Prisma.SecretUpsertWithoutVersionsInput
+  connect?: Prisma.SecretWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.SecretUpdateToOneWithWhereWithoutVersionsInput, Prisma.SecretUpdateWithoutVersionsInput>, Prisma.SecretUncheckedUpdateWithoutVersionsInput>
+}
+
 export type SecretCreateNestedManyWithoutServiceAccountInput = {
   create?: Prisma.XOR<Prisma.SecretCreateWithoutServiceAccountInput, Prisma.SecretUncheckedCreateWithoutServiceAccountInput> | Prisma.SecretCreateWithoutServiceAccountInput[] | Prisma.SecretUncheckedCreateWithoutServiceAccountInput[]
   connectOrCreate?: Prisma.SecretCreateOrConnectWithoutServiceAccountInput | Prisma.SecretCreateOrConnectWithoutServiceAccountInput[]
@@ -498,6 +558,22 @@ export type SecretUncheckedUpdateManyWithoutServiceAccountNestedInput = {
   deleteMany?: Prisma.SecretScalarWhereInput | Prisma.SecretScalarWhereInput[]
 }
 
+export type SecretCreateNestedOneWithoutServiceAccountGrantsInput = {
+  create?: Prisma.XOR<Prisma.SecretCreateWithoutServiceAccountGrantsInput, Prisma.SecretUncheckedCreateWithoutServiceAccountGrantsInput>
+  connectOrCreate?: Prisma.SecretCreateOrConnectWithoutServiceAccountGrantsInput
+  connect?: Prisma.SecretWhereUniqueInput
+}
+
+export type SecretUpdateOneWithoutServiceAccountGrantsNestedInput = {
+  create?: Prisma.XOR<Prisma.SecretCreateWithoutServiceAccountGrantsInput, Prisma.SecretUncheckedCreateWithoutServiceAccountGrantsInput>
+  connectOrCreate?: Prisma.SecretCreateOrConnectWithoutServiceAccountGrantsInput
+  upsert?: Prisma.SecretUpsertWithoutServiceAccountGrantsInput
+  disconnect?: Prisma.SecretWhereInput | boolean
+  delete?: Prisma.SecretWhereInput | boolean
+  connect?: Prisma.SecretWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.SecretUpdateToOneWithWhereWithoutServiceAccountGrantsInput, Prisma.SecretUpdateWithoutServiceAccountGrantsInput>, Prisma.SecretUncheckedUpdateWithoutServiceAccountGrantsInput>
+}
+
 export type SecretCreateWithoutStateInput = {
   id?: string
   meta:PrismaJson.GlobalCommonObjectMeta
@@ -506,7 +582,10 @@ export type SecretCreateWithoutStateInput = {
   content:(unknown)
   createdAt?: Date | string
   updatedAt?: Date | string
+  updatedBy?: string | null
   serviceAccount?: Prisma.ServiceAccountCreateNestedOneWithoutSecretsInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantCreateNestedManyWithoutSecretInput
+  versions?: Prisma.SecretVersionCreateNestedManyWithoutSecretInput
 }
 
 export type SecretUncheckedCreateWithoutStateInput = {
@@ -518,6 +597,9 @@ export type SecretUncheckedCreateWithoutStateInput = {
   content:(unknown)
   createdAt?: Date | string
   updatedAt?: Date | string
+  updatedBy?: string | null
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedCreateNestedManyWithoutSecretInput
+  versions?: Prisma.SecretVersionUncheckedCreateNestedManyWithoutSecretInput
 }
 
 export type SecretCreateOrConnectWithoutStateInput = {
@@ -558,6 +640,79 @@ export type SecretScalarWhereInput = {
   content?: Prisma.JsonFilter<"Secret">
   createdAt?: Prisma.DateTimeFilter<"Secret"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Secret"> | Date | string
+  updatedBy?: Prisma.StringNullableFilter<"Secret"> | string | null
+}
+
+export type SecretCreateWithoutVersionsInput = {
+  id?: string
+  meta:PrismaJson.GlobalCommonObjectMeta
+  name?: string | null
+  systemName?: string | null
+  content:(unknown)
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  updatedBy?: string | null
+  state?: Prisma.InstanceStateCreateNestedOneWithoutSecretsInput
+  serviceAccount?: Prisma.ServiceAccountCreateNestedOneWithoutSecretsInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantCreateNestedManyWithoutSecretInput
+}
+
+export type SecretUncheckedCreateWithoutVersionsInput = {
+  id?: string
+  meta:PrismaJson.GlobalCommonObjectMeta
+  stateId?: string | null
+  name?: string | null
+  systemName?: string | null
+  serviceAccountId?: string | null
+  content:(unknown)
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  updatedBy?: string | null
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedCreateNestedManyWithoutSecretInput
+}
+
+export type SecretCreateOrConnectWithoutVersionsInput = {
+  where: Prisma.SecretWhereUniqueInput
+  create: Prisma.XOR<Prisma.SecretCreateWithoutVersionsInput, Prisma.SecretUncheckedCreateWithoutVersionsInput>
+}
+
+export type SecretUpsertWithoutVersionsInput = {
+  update: Prisma.XOR<Prisma.SecretUpdateWithoutVersionsInput, Prisma.SecretUncheckedUpdateWithoutVersionsInput>
+  create: Prisma.XOR<Prisma.SecretCreateWithoutVersionsInput, Prisma.SecretUncheckedCreateWithoutVersionsInput>
+  where?: Prisma.SecretWhereInput
+}
+
+export type SecretUpdateToOneWithWhereWithoutVersionsInput = {
+  where?: Prisma.SecretWhereInput
+  data: Prisma.XOR<Prisma.SecretUpdateWithoutVersionsInput, Prisma.SecretUncheckedUpdateWithoutVersionsInput>
+}
+
+export type SecretUpdateWithoutVersionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  meta?:PrismaJson.GlobalCommonObjectMeta
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  systemName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  content?:(unknown)
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  state?: Prisma.InstanceStateUpdateOneWithoutSecretsNestedInput
+  serviceAccount?: Prisma.ServiceAccountUpdateOneWithoutSecretsNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUpdateManyWithoutSecretNestedInput
+}
+
+export type SecretUncheckedUpdateWithoutVersionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  meta?:PrismaJson.GlobalCommonObjectMeta
+  stateId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  systemName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  serviceAccountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  content?:(unknown)
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedUpdateManyWithoutSecretNestedInput
 }
 
 export type SecretCreateWithoutServiceAccountInput = {
@@ -568,7 +723,10 @@ export type SecretCreateWithoutServiceAccountInput = {
   content:(unknown)
   createdAt?: Date | string
   updatedAt?: Date | string
+  updatedBy?: string | null
   state?: Prisma.InstanceStateCreateNestedOneWithoutSecretsInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantCreateNestedManyWithoutSecretInput
+  versions?: Prisma.SecretVersionCreateNestedManyWithoutSecretInput
 }
 
 export type SecretUncheckedCreateWithoutServiceAccountInput = {
@@ -580,6 +738,9 @@ export type SecretUncheckedCreateWithoutServiceAccountInput = {
   content:(unknown)
   createdAt?: Date | string
   updatedAt?: Date | string
+  updatedBy?: string | null
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedCreateNestedManyWithoutSecretInput
+  versions?: Prisma.SecretVersionUncheckedCreateNestedManyWithoutSecretInput
 }
 
 export type SecretCreateOrConnectWithoutServiceAccountInput = {
@@ -607,6 +768,78 @@ export type SecretUpdateManyWithWhereWithoutServiceAccountInput = {
   data: Prisma.XOR<Prisma.SecretUpdateManyMutationInput, Prisma.SecretUncheckedUpdateManyWithoutServiceAccountInput>
 }
 
+export type SecretCreateWithoutServiceAccountGrantsInput = {
+  id?: string
+  meta:PrismaJson.GlobalCommonObjectMeta
+  name?: string | null
+  systemName?: string | null
+  content:(unknown)
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  updatedBy?: string | null
+  state?: Prisma.InstanceStateCreateNestedOneWithoutSecretsInput
+  serviceAccount?: Prisma.ServiceAccountCreateNestedOneWithoutSecretsInput
+  versions?: Prisma.SecretVersionCreateNestedManyWithoutSecretInput
+}
+
+export type SecretUncheckedCreateWithoutServiceAccountGrantsInput = {
+  id?: string
+  meta:PrismaJson.GlobalCommonObjectMeta
+  stateId?: string | null
+  name?: string | null
+  systemName?: string | null
+  serviceAccountId?: string | null
+  content:(unknown)
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  updatedBy?: string | null
+  versions?: Prisma.SecretVersionUncheckedCreateNestedManyWithoutSecretInput
+}
+
+export type SecretCreateOrConnectWithoutServiceAccountGrantsInput = {
+  where: Prisma.SecretWhereUniqueInput
+  create: Prisma.XOR<Prisma.SecretCreateWithoutServiceAccountGrantsInput, Prisma.SecretUncheckedCreateWithoutServiceAccountGrantsInput>
+}
+
+export type SecretUpsertWithoutServiceAccountGrantsInput = {
+  update: Prisma.XOR<Prisma.SecretUpdateWithoutServiceAccountGrantsInput, Prisma.SecretUncheckedUpdateWithoutServiceAccountGrantsInput>
+  create: Prisma.XOR<Prisma.SecretCreateWithoutServiceAccountGrantsInput, Prisma.SecretUncheckedCreateWithoutServiceAccountGrantsInput>
+  where?: Prisma.SecretWhereInput
+}
+
+export type SecretUpdateToOneWithWhereWithoutServiceAccountGrantsInput = {
+  where?: Prisma.SecretWhereInput
+  data: Prisma.XOR<Prisma.SecretUpdateWithoutServiceAccountGrantsInput, Prisma.SecretUncheckedUpdateWithoutServiceAccountGrantsInput>
+}
+
+export type SecretUpdateWithoutServiceAccountGrantsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  meta?:PrismaJson.GlobalCommonObjectMeta
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  systemName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  content?:(unknown)
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  state?: Prisma.InstanceStateUpdateOneWithoutSecretsNestedInput
+  serviceAccount?: Prisma.ServiceAccountUpdateOneWithoutSecretsNestedInput
+  versions?: Prisma.SecretVersionUpdateManyWithoutSecretNestedInput
+}
+
+export type SecretUncheckedUpdateWithoutServiceAccountGrantsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  meta?:PrismaJson.GlobalCommonObjectMeta
+  stateId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  systemName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  serviceAccountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  content?:(unknown)
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  versions?: Prisma.SecretVersionUncheckedUpdateManyWithoutSecretNestedInput
+}
+
 export type SecretCreateManyStateInput = {
   id?: string
   meta:PrismaJson.GlobalCommonObjectMeta
@@ -616,6 +849,7 @@ export type SecretCreateManyStateInput = {
   content:(unknown)
   createdAt?: Date | string
   updatedAt?: Date | string
+  updatedBy?: string | null
 }
 
 export type SecretUpdateWithoutStateInput = {
@@ -626,7 +860,10 @@ export type SecretUpdateWithoutStateInput = {
   content?:(unknown)
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   serviceAccount?: Prisma.ServiceAccountUpdateOneWithoutSecretsNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUpdateManyWithoutSecretNestedInput
+  versions?: Prisma.SecretVersionUpdateManyWithoutSecretNestedInput
 }
 
 export type SecretUncheckedUpdateWithoutStateInput = {
@@ -638,6 +875,9 @@ export type SecretUncheckedUpdateWithoutStateInput = {
   content?:(unknown)
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedUpdateManyWithoutSecretNestedInput
+  versions?: Prisma.SecretVersionUncheckedUpdateManyWithoutSecretNestedInput
 }
 
 export type SecretUncheckedUpdateManyWithoutStateInput = {
@@ -649,6 +889,7 @@ export type SecretUncheckedUpdateManyWithoutStateInput = {
   content?:(unknown)
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
 }
 
 export type SecretCreateManyServiceAccountInput = {
@@ -660,6 +901,7 @@ export type SecretCreateManyServiceAccountInput = {
   content:(unknown)
   createdAt?: Date | string
   updatedAt?: Date | string
+  updatedBy?: string | null
 }
 
 export type SecretUpdateWithoutServiceAccountInput = {
@@ -670,7 +912,10 @@ export type SecretUpdateWithoutServiceAccountInput = {
   content?:(unknown)
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   state?: Prisma.InstanceStateUpdateOneWithoutSecretsNestedInput
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUpdateManyWithoutSecretNestedInput
+  versions?: Prisma.SecretVersionUpdateManyWithoutSecretNestedInput
 }
 
 export type SecretUncheckedUpdateWithoutServiceAccountInput = {
@@ -682,6 +927,9 @@ export type SecretUncheckedUpdateWithoutServiceAccountInput = {
   content?:(unknown)
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  serviceAccountGrants?: Prisma.ServiceAccountGrantUncheckedUpdateManyWithoutSecretNestedInput
+  versions?: Prisma.SecretVersionUncheckedUpdateManyWithoutSecretNestedInput
 }
 
 export type SecretUncheckedUpdateManyWithoutServiceAccountInput = {
@@ -693,8 +941,47 @@ export type SecretUncheckedUpdateManyWithoutServiceAccountInput = {
   content?:(unknown)
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+}
+
+
+/**
+ * Count Type SecretCountOutputType
+ */
+
+export type SecretCountOutputType = {
+  serviceAccountGrants: number
+  versions: number
+}
+
+export type SecretCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  serviceAccountGrants?: boolean | SecretCountOutputTypeCountServiceAccountGrantsArgs
+  versions?: boolean | SecretCountOutputTypeCountVersionsArgs
+}
+
+/**
+ * SecretCountOutputType without action
+ */
+export type SecretCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SecretCountOutputType
+   */
+  select?: Prisma.SecretCountOutputTypeSelect<ExtArgs> | null
 }
 
+/**
+ * SecretCountOutputType without action
+ */
+export type SecretCountOutputTypeCountServiceAccountGrantsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ServiceAccountGrantWhereInput
+}
+
+/**
+ * SecretCountOutputType without action
+ */
+export type SecretCountOutputTypeCountVersionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.SecretVersionWhereInput
+}
 
 
 export type SecretSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -707,8 +994,12 @@ export type SecretSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs =
   content?: boolean
   createdAt?: boolean
   updatedAt?: boolean
+  updatedBy?: boolean
   state?: boolean | Prisma.Secret$stateArgs<ExtArgs>
   serviceAccount?: boolean | Prisma.Secret$serviceAccountArgs<ExtArgs>
+  serviceAccountGrants?: boolean | Prisma.Secret$serviceAccountGrantsArgs<ExtArgs>
+  versions?: boolean | Prisma.Secret$versionsArgs<ExtArgs>
+  _count?: boolean | Prisma.SecretCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["secret"]>
 
 export type SecretSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -721,6 +1012,7 @@ export type SecretSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extens
   content?: boolean
   createdAt?: boolean
   updatedAt?: boolean
+  updatedBy?: boolean
   state?: boolean | Prisma.Secret$stateArgs<ExtArgs>
   serviceAccount?: boolean | Prisma.Secret$serviceAccountArgs<ExtArgs>
 }, ExtArgs["result"]["secret"]>
@@ -735,6 +1027,7 @@ export type SecretSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extens
   content?: boolean
   createdAt?: boolean
   updatedAt?: boolean
+  updatedBy?: boolean
   state?: boolean | Prisma.Secret$stateArgs<ExtArgs>
   serviceAccount?: boolean | Prisma.Secret$serviceAccountArgs<ExtArgs>
 }, ExtArgs["result"]["secret"]>
@@ -749,12 +1042,16 @@ export type SecretSelectScalar = {
   content?: boolean
   createdAt?: boolean
   updatedAt?: boolean
+  updatedBy?: boolean
 }
 
-export type SecretOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "meta" | "stateId" | "name" | "systemName" | "serviceAccountId" | "content" | "createdAt" | "updatedAt", ExtArgs["result"]["secret"]>
+export type SecretOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "meta" | "stateId" | "name" | "systemName" | "serviceAccountId" | "content" | "createdAt" | "updatedAt" | "updatedBy", ExtArgs["result"]["secret"]>
 export type SecretInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   state?: boolean | Prisma.Secret$stateArgs<ExtArgs>
   serviceAccount?: boolean | Prisma.Secret$serviceAccountArgs<ExtArgs>
+  serviceAccountGrants?: boolean | Prisma.Secret$serviceAccountGrantsArgs<ExtArgs>
+  versions?: boolean | Prisma.Secret$versionsArgs<ExtArgs>
+  _count?: boolean | Prisma.SecretCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type SecretIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   state?: boolean | Prisma.Secret$stateArgs<ExtArgs>
@@ -776,6 +1073,14 @@ export type $SecretPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs
      * The service account this secret belongs to.
      */
     serviceAccount: Prisma.$ServiceAccountPayload<ExtArgs> | null
+    /**
+     * The grants giving service accounts access to this secret.
+     */
+    serviceAccountGrants: Prisma.$ServiceAccountGrantPayload<ExtArgs>[]
+    /**
+     * The versions of the content of the secret recorded by the operations.
+     */
+    versions: Prisma.$SecretVersionPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     /**
@@ -820,6 +1125,12 @@ export type $SecretPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs
      * The time when the secret was last updated.
      */
     updatedAt: Date
+    /**
+     * The ID of the user who last updated the content of the secret.
+     * 
+     * Null if the secret was last updated by the system.
+     */
+    updatedBy: string | null
   }, ExtArgs["result"]["secret"]>
   composites: {}
 }
@@ -1216,6 +1527,8 @@ export interface Prisma__SecretClient<T, Null = never, ExtArgs extends runtime.T
   readonly [Symbol.toStringTag]: "PrismaPromise"
   state<T extends Prisma.Secret$stateArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Secret$stateArgs<ExtArgs>>): Prisma.Prisma__InstanceStateClient<runtime.Types.Result.GetResult<Prisma.$InstanceStatePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   serviceAccount<T extends Prisma.Secret$serviceAccountArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Secret$serviceAccountArgs<ExtArgs>>): Prisma.Prisma__ServiceAccountClient<runtime.Types.Result.GetResult<Prisma.$ServiceAccountPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  serviceAccountGrants<T extends Prisma.Secret$serviceAccountGrantsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Secret$serviceAccountGrantsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ServiceAccountGrantPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  versions<T extends Prisma.Secret$versionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Secret$versionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SecretVersionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1254,6 +1567,7 @@ export interface SecretFieldRefs {
   readonly content: Prisma.FieldRef<"Secret", 'Json'>
   readonly createdAt: Prisma.FieldRef<"Secret", 'DateTime'>
   readonly updatedAt: Prisma.FieldRef<"Secret", 'DateTime'>
+  readonly updatedBy: Prisma.FieldRef<"Secret", 'String'>
 }
     
 
@@ -1685,6 +1999,54 @@ export type Secret$serviceAccountArgs<ExtArgs extends runtime.Types.Extensions.I
   where?: Prisma.ServiceAccountWhereInput
 }
 
+/**
+ * Secret.serviceAccountGrants
+ */
+export type Secret$serviceAccountGrantsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ServiceAccountGrant
+   */
+  select?: Prisma.ServiceAccountGrantSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ServiceAccountGrant
+   */
+  omit?: Prisma.ServiceAccountGrantOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ServiceAccountGrantInclude<ExtArgs> | null
+  where?: Prisma.ServiceAccountGrantWhereInput
+  orderBy?: Prisma.ServiceAccountGrantOrderByWithRelationInput | Prisma.ServiceAccountGrantOrderByWithRelationInput[]
+  cursor?: Prisma.ServiceAccountGrantWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ServiceAccountGrantScalarFieldEnum | Prisma.ServiceAccountGrantScalarFieldEnum[]
+}
+
+/**
+ * Secret.versions
+ */
+export type Secret$versionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SecretVersion
+   */
+  select?: Prisma.SecretVersionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SecretVersion
+   */
+  omit?: Prisma.SecretVersionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SecretVersionInclude<ExtArgs> | null
+  where?: Prisma.SecretVersionWhereInput
+  orderBy?: Prisma.SecretVersionOrderByWithRelationInput | Prisma.SecretVersionOrderByWithRelationInput[]
+  cursor?: Prisma.SecretVersionWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.SecretVersionScalarFieldEnum | Prisma.SecretVersionScalarFieldEnum[]
+}
+
 /**
  * Secret without action
  */
@@ -0,0 +1,1318 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `SecretVersion` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+
+import type * as PJTG from '../pjtg.ts';
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.ts"
+import type * as Prisma from "../internal/prismaNamespace.ts"
+
+/**
+ * Model SecretVersion
+ * The version of the content of the instance secret passed to the unit by the update operation.
+ * 
+ * The versions are recorded only when the operations snapshot the secrets, not on every update,
+ * and are deleted together with the secret.
+ */
+export type SecretVersionModel = runtime.Types.Result.DefaultSelection<Prisma.$SecretVersionPayload>
+
+export type AggregateSecretVersion = {
+  _count: SecretVersionCountAggregateOutputType | null
+  _min: SecretVersionMinAggregateOutputType | null
+  _max: SecretVersionMaxAggregateOutputType | null
+}
+
+export type SecretVersionMinAggregateOutputType = {
+  id: string | null
+  secretId: string | null
+  createdAt: Date | null
+}
+
+export type SecretVersionMaxAggregateOutputType = {
+  id: string | null
+  secretId: string | null
+  createdAt: Date | null
+}
+
+export type SecretVersionCountAggregateOutputType = {
+  id: number
+  secretId: number
+  content: number
+  createdAt: number
+  _all: number
+}
+
+
+export type SecretVersionMinAggregateInputType = {
+  id?: true
+  secretId?: true
+  createdAt?: true
+}
+
+export type SecretVersionMaxAggregateInputType = {
+  id?: true
+  secretId?: true
+  createdAt?: true
+}
+
+export type SecretVersionCountAggregateInputType = {
+  id?: true
+  secretId?: true
+  content?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type SecretVersionAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which SecretVersion to aggregate.
+   */
+  where?: Prisma.SecretVersionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SecretVersions to fetch.
+   */
+  orderBy?: Prisma.SecretVersionOrderByWithRelationInput | Prisma.SecretVersionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.SecretVersionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SecretVersions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SecretVersions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned SecretVersions
+  **/
+  _count?: true | SecretVersionCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: SecretVersionMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: SecretVersionMaxAggregateInputType
+}
+
+export type GetSecretVersionAggregateType<T extends SecretVersionAggregateArgs> = {
+      [P in keyof T & keyof AggregateSecretVersion]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateSecretVersion[P]>
+    : Prisma.GetScalarType<T[P], AggregateSecretVersion[P]>
+}
+
+
+
+
+export type SecretVersionGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.SecretVersionWhereInput
+  orderBy?: Prisma.SecretVersionOrderByWithAggregationInput | Prisma.SecretVersionOrderByWithAggregationInput[]
+  by: Prisma.SecretVersionScalarFieldEnum[] | Prisma.SecretVersionScalarFieldEnum
+  having?: Prisma.SecretVersionScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: SecretVersionCountAggregateInputType | true
+  _min?: SecretVersionMinAggregateInputType
+  _max?: SecretVersionMaxAggregateInputType
+}
+
+export type SecretVersionGroupByOutputType = {
+  id: string
+  secretId: string
+  content:(unknown)
+  createdAt: Date
+  _count: SecretVersionCountAggregateOutputType | null
+  _min: SecretVersionMinAggregateOutputType | null
+  _max: SecretVersionMaxAggregateOutputType | null
+}
+
+type GetSecretVersionGroupByPayload<T extends SecretVersionGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<SecretVersionGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof SecretVersionGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], SecretVersionGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], SecretVersionGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type SecretVersionWhereInput = {
+  AND?: Prisma.SecretVersionWhereInput | Prisma.SecretVersionWhereInput[]
+  OR?: Prisma.SecretVersionWhereInput[]
+  NOT?: Prisma.SecretVersionWhereInput | Prisma.SecretVersionWhereInput[]
+  id?: Prisma.StringFilter<"SecretVersion"> | string
+  secretId?: Prisma.StringFilter<"SecretVersion"> | string
+  content?: Prisma.JsonFilter<"SecretVersion">
+  createdAt?: Prisma.DateTimeFilter<"SecretVersion"> | Date | string
+  secret?: Prisma.XOR<Prisma.SecretScalarRelationFilter, Prisma.SecretWhereInput>
+}
+
+export type SecretVersionOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  secretId?: Prisma.SortOrder
+  content?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  secret?: Prisma.SecretOrderByWithRelationInput
+}
+
+export type SecretVersionWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.SecretVersionWhereInput | Prisma.SecretVersionWhereInput[]
+  OR?: Prisma.SecretVersionWhereInput[]
+  NOT?: Prisma.SecretVersionWhereInput | Prisma.SecretVersionWhereInput[]
+  secretId?: Prisma.StringFilter<"SecretVersion"> | string
+  content?: Prisma.JsonFilter<"SecretVersion">
+  createdAt?: Prisma.DateTimeFilter<"SecretVersion"> | Date | string
+  secret?: Prisma.XOR<Prisma.SecretScalarRelationFilter, Prisma.SecretWhereInput>
+}, "id">
+
+export type SecretVersionOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  secretId?: Prisma.SortOrder
+  content?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.SecretVersionCountOrderByAggregateInput
+  _max?: Prisma.SecretVersionMaxOrderByAggregateInput
+  _min?: Prisma.SecretVersionMinOrderByAggregateInput
+}
+
+export type SecretVersionScalarWhereWithAggregatesInput = {
+  AND?: Prisma.SecretVersionScalarWhereWithAggregatesInput | Prisma.SecretVersionScalarWhereWithAggregatesInput[]
+  OR?: Prisma.SecretVersionScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.SecretVersionScalarWhereWithAggregatesInput | Prisma.SecretVersionScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"SecretVersion"> | string
+  secretId?: Prisma.StringWithAggregatesFilter<"SecretVersion"> | string
+  content?: Prisma.JsonWithAggregatesFilter<"SecretVersion">
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"SecretVersion"> | Date | string
+}
+
+export type SecretVersionCreateInput = {
+  id?: string
+  content:(unknown)
+  createdAt?: Date | string
+  secret: Prisma.SecretCreateNestedOneWithoutVersionsInput
+}
+
+export type SecretVersionUncheckedCreateInput = {
+  id?: string
+  secretId: string
+  content:(unknown)
+  createdAt?: Date | string
+}
+
+export type SecretVersionUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  content?:(unknown)
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  secret?: Prisma.SecretUpdateOneRequiredWithoutVersionsNestedInput
+}
+
+export type SecretVersionUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  secretId?: Prisma.StringFieldUpdateOperationsInput | string
+  content?:(unknown)
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SecretVersionCreateManyInput = {
+  id?: string
+  secretId: string
+  content:(unknown)
+  createdAt?: Date | string
+}
+
+export type SecretVersionUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  content?:(unknown)
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SecretVersionUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  secretId?: Prisma.StringFieldUpdateOperationsInput | string
+  content?:(unknown)
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SecretVersionListRelationFilter = {
+  every?: Prisma.SecretVersionWhereInput
+  some?: Prisma.SecretVersionWhereInput
+  none?: Prisma.SecretVersionWhereInput
+}
+
+export type SecretVersionOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type SecretVersionCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  secretId?: Prisma.SortOrder
+  content?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type SecretVersionMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  secretId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type SecretVersionMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  secretId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type SecretVersionCreateNestedManyWithoutSecretInput = {
+  create?: Prisma.XOR<Prisma.SecretVersionCreateWithoutSecretInput, Prisma.SecretVersionUncheckedCreateWithoutSecretInput> | Prisma.SecretVersionCreateWithoutSecretInput[] | Prisma.SecretVersionUncheckedCreateWithoutSecretInput[]
+  connectOrCreate?: Prisma.SecretVersionCreateOrConnectWithoutSecretInput | Prisma.SecretVersionCreateOrConnectWithoutSecretInput[]
+  createMany?: Prisma.SecretVersionCreateManySecretInputEnvelope
+  connect?: Prisma.SecretVersionWhereUniqueInput | Prisma.SecretVersionWhereUniqueInput[]
+}
+
+export type SecretVersionUncheckedCreateNestedManyWithoutSecretInput = {
+  create?: Prisma.XOR<Prisma.SecretVersionCreateWithoutSecretInput, Prisma.SecretVersionUncheckedCreateWithoutSecretInput> | Prisma.SecretVersionCreateWithoutSecretInput[] | Prisma.SecretVersionUncheckedCreateWithoutSecretInput[]
+  connectOrCreate?: Prisma.SecretVersionCreateOrConnectWithoutSecretInput | Prisma.SecretVersionCreateOrConnectWithoutSecretInput[]
+  createMany?: Prisma.SecretVersionCreateManySecretInputEnvelope
+  connect?: Prisma.SecretVersionWhereUniqueInput | Prisma.SecretVersionWhereUniqueInput[]
+}
+
+export type SecretVersionUpdateManyWithoutSecretNestedInput = {
+  create?: Prisma.XOR<Prisma.SecretVersionCreateWithoutSecretInput, Prisma.SecretVersionUncheckedCreateWithoutSecretInput> | Prisma.SecretVersionCreateWithoutSecretInput[] | Prisma.SecretVersionUncheckedCreateWithoutSecretInput[]
+  connectOrCreate?: Prisma.SecretVersionCreateOrConnectWithoutSecretInput | Prisma.SecretVersionCreateOrConnectWithoutSecretInput[]
+  upsert?: Prisma.SecretVersionUpsertWithWhereUniqueWithoutSecretInput | Prisma.SecretVersionUpsertWithWhereUniqueWithoutSecretInput[]
+  createMany?: Prisma.SecretVersionCreateManySecretInputEnvelope
+  set?: Prisma.SecretVersionWhereUniqueInput | Prisma.SecretVersionWhereUniqueInput[]
+  disconnect?: Prisma.SecretVersionWhereUniqueInput | Prisma.SecretVersionWhereUniqueInput[]
+  delete?: Prisma.SecretVersionWhereUniqueInput | Prisma.SecretVersionWhereUniqueInput[]
+  connect?: Prisma.SecretVersionWhereUniqueInput | Prisma.SecretVersionWhereUniqueInput[]
+  update?: Prisma.SecretVersionUpdateWithWhereUniqueWithoutSecretInput | Prisma.SecretVersionUpdateWithWhereUniqueWithoutSecretInput[]
+  updateMany?: Prisma.SecretVersionUpdateManyWithWhereWithoutSecretInput | Prisma.SecretVersionUpdateManyWithWhereWithoutSecretInput[]
+  deleteMany?: Prisma.SecretVersionScalarWhereInput | Prisma.SecretVersionScalarWhereInput[]
+}
+
+export type SecretVersionUncheckedUpdateManyWithoutSecretNestedInput = {
+  create?: Prisma.XOR<Prisma.SecretVersionCreateWithoutSecretInput, Prisma.SecretVersionUncheckedCreateWithoutSecretInput> | Prisma.SecretVersionCreateWithoutSecretInput[] | Prisma.SecretVersionUncheckedCreateWithoutSecretInput[]
+  connectOrCreate?: Prisma.SecretVersionCreateOrConnectWithoutSecretInput | Prisma.SecretVersionCreateOrConnectWithoutSecretInput[]
+  upsert?: Prisma.SecretVersionUpsertWithWhereUniqueWithoutSecretInput | Prisma.SecretVersionUpsertWithWhereUniqueWithoutSecretInput[]
+  createMany?: Prisma.SecretVersionCreateManySecretInputEnvelope
+  set?: Prisma.SecretVersionWhereUniqueInput | Prisma.SecretVersionWhereUniqueInput[]
+  disconnect?: Prisma.SecretVersionWhereUniqueInput | Prisma.SecretVersionWhereUniqueInput[]
+  delete?: Prisma.SecretVersionWhereUniqueInput | Prisma.SecretVersionWhereUniqueInput[]
+  connect?: Prisma.SecretVersionWhereUniqueInput | Prisma.SecretVersionWhereUniqueInput[]
+  update?: Prisma.SecretVersionUpdateWithWhereUniqueWithoutSecretInput | Prisma.SecretVersionUpdateWithWhereUniqueWithoutSecretInput[]
+  updateMany?: Prisma.SecretVersionUpdateManyWithWhereWithoutSecretInput | Prisma.SecretVersionUpdateManyWithWhereWithoutSecretInput[]
+  deleteMany?: Prisma.SecretVersionScalarWhereInput | Prisma.SecretVersionScalarWhereInput[]
+}
+
+export type SecretVersionCreateWithoutSecretInput = {
+  id?: string
+  content:(unknown)
+  createdAt?: Date | string
+}
+
+export type SecretVersionUncheckedCreateWithoutSecretInput = {
+  id?: string
+  content:(unknown)
+  createdAt?: Date | string
+}
+
+export type SecretVersionCreateOrConnectWithoutSecretInput = {
+  where: Prisma.SecretVersionWhereUniqueInput
+  create: Prisma.XOR<Prisma.SecretVersionCreateWithoutSecretInput, Prisma.SecretVersionUncheckedCreateWithoutSecretInput>
+}
+
+export type SecretVersionCreateManySecretInputEnvelope = {
+  data: Prisma.SecretVersionCreateManySecretInput | Prisma.SecretVersionCreateManySecretInput[]
+}
+
+export type SecretVersionUpsertWithWhereUniqueWithoutSecretInput = {
+  where: Prisma.SecretVersionWhereUniqueInput
+  update: Prisma.XOR<Prisma.SecretVersionUpdateWithoutSecretInput, Prisma.SecretVersionUncheckedUpdateWithoutSecretInput>
+  create: Prisma.XOR<Prisma.SecretVersionCreateWithoutSecretInput, Prisma.SecretVersionUncheckedCreateWithoutSecretInput>
+}
+
+export type SecretVersionUpdateWithWhereUniqueWithoutSecretInput = {
+  where: Prisma.SecretVersionWhereUniqueInput
+  data: Prisma.XOR<Prisma.SecretVersionUpdateWithoutSecretInput, Prisma.SecretVersionUncheckedUpdateWithoutSecretInput>
+}
+
+export type SecretVersionUpdateManyWithWhereWithoutSecretInput = {
+  where: Prisma.SecretVersionScalarWhereInput
+  data: Prisma.XOR<Prisma.SecretVersionUpdateManyMutationInput, Prisma.SecretVersionUncheckedUpdateManyWithoutSecretInput>
+}
+
+export type SecretVersionScalarWhereInput = {
+  AND?: Prisma.SecretVersionScalarWhereInput | Prisma.SecretVersionScalarWhereInput[]
+  OR?: Prisma.SecretVersionScalarWhereInput[]
+  NOT?: Prisma.SecretVersionScalarWhereInput | Prisma.SecretVersionScalarWhereInput[]
+  id?: Prisma.StringFilter<"SecretVersion"> | string
+  secretId?: Prisma.StringFilter<"SecretVersion"> | string
+  content?: Prisma.JsonFilter<"SecretVersion">
+  createdAt?: Prisma.DateTimeFilter<"SecretVersion"> | Date | string
+}
+
+export type SecretVersionCreateManySecretInput = {
+  id?: string
+  content:(unknown)
+  createdAt?: Date | string
+}
+
+export type SecretVersionUpdateWithoutSecretInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  content?:(unknown)
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SecretVersionUncheckedUpdateWithoutSecretInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  content?:(unknown)
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SecretVersionUncheckedUpdateManyWithoutSecretInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  content?:(unknown)
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type SecretVersionSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  secretId?: boolean
+  content?: boolean
+  createdAt?: boolean
+  secret?: boolean | Prisma.SecretDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["secretVersion"]>
+
+export type SecretVersionSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  secretId?: boolean
+  content?: boolean
+  createdAt?: boolean
+  secret?: boolean | Prisma.SecretDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["secretVersion"]>
+
+export type SecretVersionSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  secretId?: boolean
+  content?: boolean
+  createdAt?: boolean
+  secret?: boolean | Prisma.SecretDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["secretVersion"]>
+
+export type SecretVersionSelectScalar = {
+  id?: boolean
+  secretId?: boolean
+  content?: boolean
+  createdAt?: boolean
+}
+
+export type SecretVersionOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "secretId" | "content" | "createdAt", ExtArgs["result"]["secretVersion"]>
+export type SecretVersionInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  secret?: boolean | Prisma.SecretDefaultArgs<ExtArgs>
+}
+export type SecretVersionIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  secret?: boolean | Prisma.SecretDefaultArgs<ExtArgs>
+}
+export type SecretVersionIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  secret?: boolean | Prisma.SecretDefaultArgs<ExtArgs>
+}
+
+export type $SecretVersionPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "SecretVersion"
+  objects: {
+    /**
+     * The secret this version belongs to.
+     */
+    secret: Prisma.$SecretPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    /**
+     * The CUIDv2 of the secret version.
+     */
+    id: string
+    /**
+     * The ID of the secret.
+     */
+    secretId: string
+    /**
+     * The content of the secret at the moment of recording.
+     * 
+     * ![unknown]
+     */
+    content:(unknown)
+    /**
+     * The time when the version was recorded.
+     */
+    createdAt: Date
+  }, ExtArgs["result"]["secretVersion"]>
+  composites: {}
+}
+
+export type SecretVersionGetPayload<S extends boolean | null | undefined | SecretVersionDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$SecretVersionPayload, S>
+
+export type SecretVersionCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<SecretVersionFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: SecretVersionCountAggregateInputType | true
+  }
+
+export interface SecretVersionDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['SecretVersion'], meta: { name: 'SecretVersion' } }
+  /**
+   * Find zero or one SecretVersion that matches the filter.
+   * @param {SecretVersionFindUniqueArgs} args - Arguments to find a SecretVersion
+   * @example
+   * // Get one SecretVersion
+   * const secretVersion = await prisma.secretVersion.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends SecretVersionFindUniqueArgs>(args: Prisma.SelectSubset<T, SecretVersionFindUniqueArgs<ExtArgs>>): Prisma.Prisma__SecretVersionClient<runtime.Types.Result.GetResult<Prisma.$SecretVersionPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one SecretVersion that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {SecretVersionFindUniqueOrThrowArgs} args - Arguments to find a SecretVersion
+   * @example
+   * // Get one SecretVersion
+   * const secretVersion = await prisma.secretVersion.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends SecretVersionFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, SecretVersionFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__SecretVersionClient<runtime.Types.Result.GetResult<Prisma.$SecretVersionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first SecretVersion that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SecretVersionFindFirstArgs} args - Arguments to find a SecretVersion
+   * @example
+   * // Get one SecretVersion
+   * const secretVersion = await prisma.secretVersion.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends SecretVersionFindFirstArgs>(args?: Prisma.SelectSubset<T, SecretVersionFindFirstArgs<ExtArgs>>): Prisma.Prisma__SecretVersionClient<runtime.Types.Result.GetResult<Prisma.$SecretVersionPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first SecretVersion that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SecretVersionFindFirstOrThrowArgs} args - Arguments to find a SecretVersion
+   * @example
+   * // Get one SecretVersion
+   * const secretVersion = await prisma.secretVersion.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends SecretVersionFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, SecretVersionFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__SecretVersionClient<runtime.Types.Result.GetResult<Prisma.$SecretVersionPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more SecretVersions that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SecretVersionFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all SecretVersions
+   * const secretVersions = await prisma.secretVersion.findMany()
+   * 
+   * // Get first 10 SecretVersions
+   * const secretVersions = await prisma.secretVersion.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const secretVersionWithIdOnly = await prisma.secretVersion.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends SecretVersionFindManyArgs>(args?: Prisma.SelectSubset<T, SecretVersionFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SecretVersionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a SecretVersion.
+   * @param {SecretVersionCreateArgs} args - Arguments to create a SecretVersion.
+   * @example
+   * // Create one SecretVersion
+   * const SecretVersion = await prisma.secretVersion.create({
+   *   data: {
+   *     // ... data to create a SecretVersion
+   *   }
+   * })
+   * 
+   */
+  create<T extends SecretVersionCreateArgs>(args: Prisma.SelectSubset<T, SecretVersionCreateArgs<ExtArgs>>): Prisma.Prisma__SecretVersionClient<runtime.Types.Result.GetResult<Prisma.$SecretVersionPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many SecretVersions.
+   * @param {SecretVersionCreateManyArgs} args - Arguments to create many SecretVersions.
+   * @example
+   * // Create many SecretVersions
+   * const secretVersion = await prisma.secretVersion.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends SecretVersionCreateManyArgs>(args?: Prisma.SelectSubset<T, SecretVersionCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many SecretVersions and returns the data saved in the database.
+   * @param {SecretVersionCreateManyAndReturnArgs} args - Arguments to create many SecretVersions.
+   * @example
+   * // Create many SecretVersions
+   * const secretVersion = await prisma.secretVersion.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many SecretVersions and only return the `id`
+   * const secretVersionWithIdOnly = await prisma.secretVersion.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends SecretVersionCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, SecretVersionCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SecretVersionPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a SecretVersion.
+   * @param {SecretVersionDeleteArgs} args - Arguments to delete one SecretVersion.
+   * @example
+   * // Delete one SecretVersion
+   * const SecretVersion = await prisma.secretVersion.delete({
+   *   where: {
+   *     // ... filter to delete one SecretVersion
+   *   }
+   * })
+   * 
+   */
+  delete<T extends SecretVersionDeleteArgs>(args: Prisma.SelectSubset<T, SecretVersionDeleteArgs<ExtArgs>>): Prisma.Prisma__SecretVersionClient<runtime.Types.Result.GetResult<Prisma.$SecretVersionPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one SecretVersion.
+   * @param {SecretVersionUpdateArgs} args - Arguments to update one SecretVersion.
+   * @example
+   * // Update one SecretVersion
+   * const secretVersion = await prisma.secretVersion.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends SecretVersionUpdateArgs>(args: Prisma.SelectSubset<T, SecretVersionUpdateArgs<ExtArgs>>): Prisma.Prisma__SecretVersionClient<runtime.Types.Result.GetResult<Prisma.$SecretVersionPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more SecretVersions.
+   * @param {SecretVersionDeleteManyArgs} args - Arguments to filter SecretVersions to delete.
+   * @example
+   * // Delete a few SecretVersions
+   * const { count } = await prisma.secretVersion.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends SecretVersionDeleteManyArgs>(args?: Prisma.SelectSubset<T, SecretVersionDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more SecretVersions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SecretVersionUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many SecretVersions
+   * const secretVersion = await prisma.secretVersion.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends SecretVersionUpdateManyArgs>(args: Prisma.SelectSubset<T, SecretVersionUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more SecretVersions and returns the data updated in the database.
+   * @param {SecretVersionUpdateManyAndReturnArgs} args - Arguments to update many SecretVersions.
+   * @example
+   * // Update many SecretVersions
+   * const secretVersion = await prisma.secretVersion.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more SecretVersions and only return the `id`
+   * const secretVersionWithIdOnly = await prisma.secretVersion.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends SecretVersionUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, SecretVersionUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SecretVersionPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one SecretVersion.
+   * @param {SecretVersionUpsertArgs} args - Arguments to update or create a SecretVersion.
+   * @example
+   * // Update or create a SecretVersion
+   * const secretVersion = await prisma.secretVersion.upsert({
+   *   create: {
+   *     // ... data to create a SecretVersion
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the SecretVersion we want to update
+   *   }
+   * })
+   */
+  upsert<T extends SecretVersionUpsertArgs>(args: Prisma.SelectSubset<T, SecretVersionUpsertArgs<ExtArgs>>): Prisma.Prisma__SecretVersionClient<runtime.Types.Result.GetResult<Prisma.$SecretVersionPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of SecretVersions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SecretVersionCountArgs} args - Arguments to filter SecretVersions to count.
+   * @example
+   * // Count the number of SecretVersions
+   * const count = await prisma.secretVersion.count({
+   *   where: {
+   *     // ... the filter for the SecretVersions we want to count
+   *   }
+   * })
+  **/
+  count<T extends SecretVersionCountArgs>(
+    args?: Prisma.Subset<T, SecretVersionCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], SecretVersionCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a SecretVersion.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SecretVersionAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends SecretVersionAggregateArgs>(args: Prisma.Subset<T, SecretVersionAggregateArgs>): Prisma.PrismaPromise<GetSecretVersionAggregateType<T>>
+
+  /**
+   * Group by SecretVersion.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SecretVersionGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends SecretVersionGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: SecretVersionGroupByArgs['orderBy'] }
+      : { orderBy?: SecretVersionGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, SecretVersionGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetSecretVersionGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the SecretVersion model
+ */
+readonly fields: SecretVersionFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for SecretVersion.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__SecretVersionClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  secret<T extends Prisma.SecretDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.SecretDefaultArgs<ExtArgs>>): Prisma.Prisma__SecretClient<runtime.Types.Result.GetResult<Prisma.$SecretPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the SecretVersion model
+ */
+export interface SecretVersionFieldRefs {
+  readonly id: Prisma.FieldRef<"SecretVersion", 'String'>
+  readonly secretId: Prisma.FieldRef<"SecretVersion", 'String'>
+  readonly content: Prisma.FieldRef<"SecretVersion", 'Json'>
+  readonly createdAt: Prisma.FieldRef<"SecretVersion", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * SecretVersion findUnique
+ */
+export type SecretVersionFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SecretVersion
+   */
+  select?: Prisma.SecretVersionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SecretVersion
+   */
+  omit?: Prisma.SecretVersionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SecretVersionInclude<ExtArgs> | null
+  /**
+   * Filter, which SecretVersion to fetch.
+   */
+  where: Prisma.SecretVersionWhereUniqueInput
+}
+
+/**
+ * SecretVersion findUniqueOrThrow
+ */
+export type SecretVersionFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SecretVersion
+   */
+  select?: Prisma.SecretVersionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SecretVersion
+   */
+  omit?: Prisma.SecretVersionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SecretVersionInclude<ExtArgs> | null
+  /**
+   * Filter, which SecretVersion to fetch.
+   */
+  where: Prisma.SecretVersionWhereUniqueInput
+}
+
+/**
+ * SecretVersion findFirst
+ */
+export type SecretVersionFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SecretVersion
+   */
+  select?: Prisma.SecretVersionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SecretVersion
+   */
+  omit?: Prisma.SecretVersionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SecretVersionInclude<ExtArgs> | null
+  /**
+   * Filter, which SecretVersion to fetch.
+   */
+  where?: Prisma.SecretVersionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SecretVersions to fetch.
+   */
+  orderBy?: Prisma.SecretVersionOrderByWithRelationInput | Prisma.SecretVersionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for SecretVersions.
+   */
+  cursor?: Prisma.SecretVersionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SecretVersions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SecretVersions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of SecretVersions.
+   */
+  distinct?: Prisma.SecretVersionScalarFieldEnum | Prisma.SecretVersionScalarFieldEnum[]
+}
+
+/**
+ * SecretVersion findFirstOrThrow
+ */
+export type SecretVersionFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SecretVersion
+   */
+  select?: Prisma.SecretVersionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SecretVersion
+   */
+  omit?: Prisma.SecretVersionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SecretVersionInclude<ExtArgs> | null
+  /**
+   * Filter, which SecretVersion to fetch.
+   */
+  where?: Prisma.SecretVersionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SecretVersions to fetch.
+   */
+  orderBy?: Prisma.SecretVersionOrderByWithRelationInput | Prisma.SecretVersionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for SecretVersions.
+   */
+  cursor?: Prisma.SecretVersionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SecretVersions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SecretVersions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of SecretVersions.
+   */
+  distinct?: Prisma.SecretVersionScalarFieldEnum | Prisma.SecretVersionScalarFieldEnum[]
+}
+
+/**
+ * SecretVersion findMany
+ */
+export type SecretVersionFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SecretVersion
+   */
+  select?: Prisma.SecretVersionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SecretVersion
+   */
+  omit?: Prisma.SecretVersionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SecretVersionInclude<ExtArgs> | null
+  /**
+   * Filter, which SecretVersions to fetch.
+   */
+  where?: Prisma.SecretVersionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SecretVersions to fetch.
+   */
+  orderBy?: Prisma.SecretVersionOrderByWithRelationInput | Prisma.SecretVersionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing SecretVersions.
+   */
+  cursor?: Prisma.SecretVersionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SecretVersions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SecretVersions.
+   */
+  skip?: number
+  distinct?: Prisma.SecretVersionScalarFieldEnum | Prisma.SecretVersionScalarFieldEnum[]
+}
+
+/**
+ * SecretVersion create
+ */
+export type SecretVersionCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SecretVersion
+   */
+  select?: Prisma.SecretVersionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SecretVersion
+   */
+  omit?: Prisma.SecretVersionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SecretVersionInclude<ExtArgs> | null
+  /**
+   * The data needed to create a SecretVersion.
+   */
+  data: Prisma.XOR<Prisma.SecretVersionCreateInput, Prisma.SecretVersionUncheckedCreateInput>
+}
+
+/**
+ * SecretVersion createMany
+ */
+export type SecretVersionCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many SecretVersions.
+   */
+  data: Prisma.SecretVersionCreateManyInput | Prisma.SecretVersionCreateManyInput[]
+}
+
+/**
+ * SecretVersion createManyAndReturn
+ */
+export type SecretVersionCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SecretVersion
+   */
+  select?: Prisma.SecretVersionSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the SecretVersion
+   */
+  omit?: Prisma.SecretVersionOmit<ExtArgs> | null
+  /**
+   * The data used to create many SecretVersions.
+   */
+  data: Prisma.SecretVersionCreateManyInput | Prisma.SecretVersionCreateManyInput[]
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SecretVersionIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * SecretVersion update
+ */
+export type SecretVersionUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SecretVersion
+   */
+  select?: Prisma.SecretVersionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SecretVersion
+   */
+  omit?: Prisma.SecretVersionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SecretVersionInclude<ExtArgs> | null
+  /**
+   * The data needed to update a SecretVersion.
+   */
+  data: Prisma.XOR<Prisma.SecretVersionUpdateInput, Prisma.SecretVersionUncheckedUpdateInput>
+  /**
+   * Choose, which SecretVersion to update.
+   */
+  where: Prisma.SecretVersionWhereUniqueInput
+}
+
+/**
+ * SecretVersion updateMany
+ */
+export type SecretVersionUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update SecretVersions.
+   */
+  data: Prisma.XOR<Prisma.SecretVersionUpdateManyMutationInput, Prisma.SecretVersionUncheckedUpdateManyInput>
+  /**
+   * Filter which SecretVersions to update
+   */
+  where?: Prisma.SecretVersionWhereInput
+  /**
+   * Limit how many SecretVersions to update.
+   */
+  limit?: number
+}
+
+/**
+ * SecretVersion updateManyAndReturn
+ */
+export type SecretVersionUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SecretVersion
+   */
+  select?: Prisma.SecretVersionSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the SecretVersion
+   */
+  omit?: Prisma.SecretVersionOmit<ExtArgs> | null
+  /**
+   * The data used to update SecretVersions.
+   */
+  data: Prisma.XOR<Prisma.SecretVersionUpdateManyMutationInput, Prisma.SecretVersionUncheckedUpdateManyInput>
+  /**
+   * Filter which SecretVersions to update
+   */
+  where?: Prisma.SecretVersionWhereInput
+  /**
+   * Limit how many SecretVersions to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SecretVersionIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * SecretVersion upsert
+ */
+export type SecretVersionUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SecretVersion
+   */
+  select?: Prisma.SecretVersionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SecretVersion
+   */
+  omit?: Prisma.SecretVersionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SecretVersionInclude<ExtArgs> | null
+  /**
+   * The filter to search for the SecretVersion to update in case it exists.
+   */
+  where: Prisma.SecretVersionWhereUniqueInput
+  /**
+   * In case the SecretVersion found by the `where` argument doesn't exist, create a new SecretVersion with this data.
+   */
+  create: Prisma.XOR<Prisma.SecretVersionCreateInput, Prisma.SecretVersionUncheckedCreateInput>
+  /**
+   * In case the SecretVersion was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.SecretVersionUpdateInput, Prisma.SecretVersionUncheckedUpdateInput>
+}
+
+/**
+ * SecretVersion delete
+ */
+export type SecretVersionDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SecretVersion
+   */
+  select?: Prisma.SecretVersionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SecretVersion
+   */
+  omit?: Prisma.SecretVersionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SecretVersionInclude<ExtArgs> | null
+  /**
+   * Filter which SecretVersion to delete.
+   */
+  where: Prisma.SecretVersionWhereUniqueInput
+}
+
+/**
+ * SecretVersion deleteMany
+ */
+export type SecretVersionDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which SecretVersions to delete
+   */
+  where?: Prisma.SecretVersionWhereInput
+  /**
+   * Limit how many SecretVersions to delete.
+   */
+  limit?: number
+}
+
+/**
+ * SecretVersion without action
+ */
+export type SecretVersionDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SecretVersion
+   */
+  select?: Prisma.SecretVersionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SecretVersion
+   */
+  omit?: Prisma.SecretVersionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SecretVersionInclude<ExtArgs> | null
+}
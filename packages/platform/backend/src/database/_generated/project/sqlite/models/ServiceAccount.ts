@@ -33,12 +33,14 @@ export type AggregateServiceAccount = {
 
 export type ServiceAccountMinAggregateOutputType = {
   id: string | null
+  canRequestOperations: boolean | null
   createdAt: Date | null
   updatedAt: Date | null
 }
 
 export type ServiceAccountMaxAggregateOutputType = {
   id: string | null
+  canRequestOperations: boolean | null
   createdAt: Date | null
   updatedAt: Date | null
 }
@@ -46,6 +48,7 @@ export type ServiceAccountMaxAggregateOutputType = {
 export type ServiceAccountCountAggregateOutputType = {
   id: number
   meta: number
+  canRequestOperations: number
   createdAt: number
   updatedAt: number
   _all: number
@@ -54,12 +57,14 @@ export type ServiceAccountCountAggregateOutputType = {
 
 export type ServiceAccountMinAggregateInputType = {
   id?: true
+  canRequestOperations?: true
   createdAt?: true
   updatedAt?: true
 }
 
 export type ServiceAccountMaxAggregateInputType = {
   id?: true
+  canRequestOperations?: true
   createdAt?: true
   updatedAt?: true
 }
@@ -67,6 +72,7 @@ export type ServiceAccountMaxAggregateInputType = {
 export type ServiceAccountCountAggregateInputType = {
   id?: true
   meta?: true
+  canRequestOperations?: true
   createdAt?: true
   updatedAt?: true
   _all?: true
@@ -147,6 +153,7 @@ export type ServiceAccountGroupByArgs<ExtArgs extends runtime.Types.Extensions.I
 export type ServiceAccountGroupByOutputType = {
   id: string
   meta:PrismaJson.ServiceAccountMeta
+  canRequestOperations: boolean
   createdAt: Date
   updatedAt: Date
   _count: ServiceAccountCountAggregateOutputType | null
@@ -175,6 +182,7 @@ export type ServiceAccountWhereInput = {
   NOT?: Prisma.ServiceAccountWhereInput | Prisma.ServiceAccountWhereInput[]
   id?: Prisma.StringFilter<"ServiceAccount"> | string
   meta?: Prisma.JsonFilter<"ServiceAccount">
+  canRequestOperations?: Prisma.BoolFilter<"ServiceAccount"> | boolean
   createdAt?: Prisma.DateTimeFilter<"ServiceAccount"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"ServiceAccount"> | Date | string
   workers?: Prisma.WorkerListRelationFilter
@@ -184,11 +192,13 @@ export type ServiceAccountWhereInput = {
   pages?: Prisma.PageListRelationFilter
   customStatuses?: Prisma.InstanceCustomStatusListRelationFilter
   apiKeys?: Prisma.ApiKeyListRelationFilter
+  grants?: Prisma.ServiceAccountGrantListRelationFilter
 }
 
 export type ServiceAccountOrderByWithRelationInput = {
   id?: Prisma.SortOrder
   meta?: Prisma.SortOrder
+  canRequestOperations?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   workers?: Prisma.WorkerOrderByRelationAggregateInput
@@ -198,6 +208,7 @@ export type ServiceAccountOrderByWithRelationInput = {
   pages?: Prisma.PageOrderByRelationAggregateInput
   customStatuses?: Prisma.InstanceCustomStatusOrderByRelationAggregateInput
   apiKeys?: Prisma.ApiKeyOrderByRelationAggregateInput
+  grants?: Prisma.ServiceAccountGrantOrderByRelationAggregateInput
 }
 
 export type ServiceAccountWhereUniqueInput = Prisma.AtLeast<{
@@ -206,6 +217,7 @@ export type ServiceAccountWhereUniqueInput = Prisma.AtLeast<{
   OR?: Prisma.ServiceAccountWhereInput[]
   NOT?: Prisma.ServiceAccountWhereInput | Prisma.ServiceAccountWhereInput[]
   meta?: Prisma.JsonFilter<"ServiceAccount">
+  canRequestOperations?: Prisma.BoolFilter<"ServiceAccount"> | boolean
   createdAt?: Prisma.DateTimeFilter<"ServiceAccount"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"ServiceAccount"> | Date | string
   workers?: Prisma.WorkerListRelationFilter
@@ -215,11 +227,13 @@ export type ServiceAccountWhereUniqueInput = Prisma.AtLeast<{
   pages?: Prisma.PageListRelationFilter
   customStatuses?: Prisma.InstanceCustomStatusListRelationFilter
   apiKeys?: Prisma.ApiKeyListRelationFilter
+  grants?: Prisma.ServiceAccountGrantListRelationFilter
 }, "id">
 
 export type ServiceAccountOrderByWithAggregationInput = {
   id?: Prisma.SortOrder
   meta?: Prisma.SortOrder
+  canRequestOperations?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   _count?: Prisma.ServiceAccountCountOrderByAggregateInput
@@ -233,6 +247,7 @@ export type ServiceAccountScalarWhereWithAggregatesInput = {
   NOT?: Prisma.ServiceAccountScalarWhereWithAggregatesInput | Prisma.ServiceAccountScalarWhereWithAggregatesInput[]
   id?: Prisma.StringWithAggregatesFilter<"ServiceAccount"> | string
   meta?: Prisma.JsonWithAggregatesFilter<"ServiceAccount">
+  canRequestOperations?: Prisma.BoolWithAggregatesFilter<"ServiceAccount"> | boolean
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"ServiceAccount"> | Date | string
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"ServiceAccount"> | Date | string
 }
@@ -240,6 +255,7 @@ export type ServiceAccountScalarWhereWithAggregatesInput = {
 export type ServiceAccountCreateInput = {
   id?: string
   meta:PrismaJson.ServiceAccountMeta
+  canRequestOperations?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
   workers?: Prisma.WorkerCreateNestedManyWithoutServiceAccountInput
@@ -249,11 +265,13 @@ export type ServiceAccountCreateInput = {
   pages?: Prisma.PageCreateNestedManyWithoutServiceAccountInput
   customStatuses?: Prisma.InstanceCustomStatusCreateNestedManyWithoutServiceAccountInput
   apiKeys?: Prisma.ApiKeyCreateNestedManyWithoutServiceAccountInput
+  grants?: Prisma.ServiceAccountGrantCreateNestedManyWithoutServiceAccountInput
 }
 
 export type ServiceAccountUncheckedCreateInput = {
   id?: string
   meta:PrismaJson.ServiceAccountMeta
+  canRequestOperations?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
   workers?: Prisma.WorkerUncheckedCreateNestedManyWithoutServiceAccountInput
@@ -263,11 +281,13 @@ export type ServiceAccountUncheckedCreateInput = {
   pages?: Prisma.PageUncheckedCreateNestedManyWithoutServiceAccountInput
   customStatuses?: Prisma.InstanceCustomStatusUncheckedCreateNestedManyWithoutServiceAccountInput
   apiKeys?: Prisma.ApiKeyUncheckedCreateNestedManyWithoutServiceAccountInput
+  grants?: Prisma.ServiceAccountGrantUncheckedCreateNestedManyWithoutServiceAccountInput
 }
 
 export type ServiceAccountUpdateInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   meta?:PrismaJson.ServiceAccountMeta
+  canRequestOperations?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   workers?: Prisma.WorkerUpdateManyWithoutServiceAccountNestedInput
@@ -277,11 +297,13 @@ export type ServiceAccountUpdateInput = {
   pages?: Prisma.PageUpdateManyWithoutServiceAccountNestedInput
   customStatuses?: Prisma.InstanceCustomStatusUpdateManyWithoutServiceAccountNestedInput
   apiKeys?: Prisma.ApiKeyUpdateManyWithoutServiceAccountNestedInput
+  grants?: Prisma.ServiceAccountGrantUpdateManyWithoutServiceAccountNestedInput
 }
 
 export type ServiceAccountUncheckedUpdateInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   meta?:PrismaJson.ServiceAccountMeta
+  canRequestOperations?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   workers?: Prisma.WorkerUncheckedUpdateManyWithoutServiceAccountNestedInput
@@ -291,11 +313,13 @@ export type ServiceAccountUncheckedUpdateInput = {
   pages?: Prisma.PageUncheckedUpdateManyWithoutServiceAccountNestedInput
   customStatuses?: Prisma.InstanceCustomStatusUncheckedUpdateManyWithoutServiceAccountNestedInput
   apiKeys?: Prisma.ApiKeyUncheckedUpdateManyWithoutServiceAccountNestedInput
+  grants?: Prisma.ServiceAccountGrantUncheckedUpdateManyWithoutServiceAccountNestedInput
 }
 
 export type ServiceAccountCreateManyInput = {
   id?: string
   meta:PrismaJson.ServiceAccountMeta
+  canRequestOperations?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -303,6 +327,7 @@ export type ServiceAccountCreateManyInput = {
 export type ServiceAccountUpdateManyMutationInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   meta?:PrismaJson.ServiceAccountMeta
+  canRequestOperations?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -310,6 +335,7 @@ export type ServiceAccountUpdateManyMutationInput = {
 export type ServiceAccountUncheckedUpdateManyInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   meta?:PrismaJson.ServiceAccountMeta
+  canRequestOperations?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -337,18 +363,21 @@ export type ServiceAccountNullableScalarRelationFilter = {
 export type ServiceAccountCountOrderByAggregateInput = {
   id?: Prisma.SortOrder
   meta?: Prisma.SortOrder
+  canRequestOperations?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
 
 export type ServiceAccountMaxOrderByAggregateInput = {
   id?: Prisma.SortOrder
+  canRequestOperations?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
 
 export type ServiceAccountMinOrderByAggregateInput = {
   id?: Prisma.SortOrder
+  canRequestOperations?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
@@ -451,6 +480,20 @@ export type ServiceAccountUpdateOneWithoutSecretsNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.ServiceAccountUpdateToOneWithWhereWithoutSecretsInput, Prisma.ServiceAccountUpdateWithoutSecretsInput>, Prisma.ServiceAccountUncheckedUpdateWithoutSecretsInput>
 }
 
+export type ServiceAccountCreateNestedOneWithoutGrantsInput = {
+  create?: Prisma.XOR<Prisma.ServiceAccountCreateWithoutGrantsInput, Prisma.ServiceAccountUncheckedCreateWithoutGrantsInput>
+  connectOrCreate?: Prisma.ServiceAccountCreateOrConnectWithoutGrantsInput
+  connect?: Prisma.ServiceAccountWhereUniqueInput
+}
+
+export type ServiceAccountUpdateOneRequiredWithoutGrantsNestedInput = {
+  create?: Prisma.XOR<Prisma.ServiceAccountCreateWithoutGrantsInput, Prisma.ServiceAccountUncheckedCreateWithoutGrantsInput>
+  connectOrCreate?: Prisma.ServiceAccountCreateOrConnectWithoutGrantsInput
+  upsert?: Prisma.ServiceAccountUpsertWithoutGrantsInput
+  connect?: Prisma.ServiceAccountWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ServiceAccountUpdateToOneWithWhereWithoutGrantsInput, Prisma.ServiceAccountUpdateWithoutGrantsInput>, Prisma.ServiceAccountUncheckedUpdateWithoutGrantsInput>
+}
+
 export type ServiceAccountCreateNestedOneWithoutTerminalsInput = {
   create?: Prisma.XOR<Prisma.ServiceAccountCreateWithoutTerminalsInput, Prisma.ServiceAccountUncheckedCreateWithoutTerminalsInput>
   connectOrCreate?: Prisma.ServiceAccountCreateOrConnectWithoutTerminalsInput
@@ -484,6 +527,7 @@ export type ServiceAccountUpdateOneRequiredWithoutWorkersNestedInput = {
 export type ServiceAccountCreateWithoutApiKeysInput = {
   id?: string
   meta:PrismaJson.ServiceAccountMeta
+  canRequestOperations?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
   workers?: Prisma.WorkerCreateNestedManyWithoutServiceAccountInput
@@ -492,11 +536,13 @@ export type ServiceAccountCreateWithoutApiKeysInput = {
   terminals?: Prisma.TerminalCreateNestedManyWithoutServiceAccountInput
   pages?: Prisma.PageCreateNestedManyWithoutServiceAccountInput
   customStatuses?: Prisma.InstanceCustomStatusCreateNestedManyWithoutServiceAccountInput
+  grants?: Prisma.ServiceAccountGrantCreateNestedManyWithoutServiceAccountInput
 }
 
 export type ServiceAccountUncheckedCreateWithoutApiKeysInput = {
   id?: string
   meta:PrismaJson.ServiceAccountMeta
+  canRequestOperations?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
   workers?: Prisma.WorkerUncheckedCreateNestedManyWithoutServiceAccountInput
@@ -505,6 +551,7 @@ export type ServiceAccountUncheckedCreateWithoutApiKeysInput = {
   terminals?: Prisma.TerminalUncheckedCreateNestedManyWithoutServiceAccountInput
   pages?: Prisma.PageUncheckedCreateNestedManyWithoutServiceAccountInput
   customStatuses?: Prisma.InstanceCustomStatusUncheckedCreateNestedManyWithoutServiceAccountInput
+  grants?: Prisma.ServiceAccountGrantUncheckedCreateNestedManyWithoutServiceAccountInput
 }
 
 export type ServiceAccountCreateOrConnectWithoutApiKeysInput = {
@@ -526,6 +573,7 @@ export type ServiceAccountUpdateToOneWithWhereWithoutApiKeysInput = {
 export type ServiceAccountUpdateWithoutApiKeysInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   meta?:PrismaJson.ServiceAccountMeta
+  canRequestOperations?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   workers?: Prisma.WorkerUpdateManyWithoutServiceAccountNestedInput
@@ -534,11 +582,13 @@ export type ServiceAccountUpdateWithoutApiKeysInput = {
   terminals?: Prisma.TerminalUpdateManyWithoutServiceAccountNestedInput
   pages?: Prisma.PageUpdateManyWithoutServiceAccountNestedInput
   customStatuses?: Prisma.InstanceCustomStatusUpdateManyWithoutServiceAccountNestedInput
+  grants?: Prisma.ServiceAccountGrantUpdateManyWithoutServiceAccountNestedInput
 }
 
 export type ServiceAccountUncheckedUpdateWithoutApiKeysInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   meta?:PrismaJson.ServiceAccountMeta
+  canRequestOperations?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   workers?: Prisma.WorkerUncheckedUpdateManyWithoutServiceAccountNestedInput
@@ -547,11 +597,13 @@ export type ServiceAccountUncheckedUpdateWithoutApiKeysInput = {
   terminals?: Prisma.TerminalUncheckedUpdateManyWithoutServiceAccountNestedInput
   pages?: Prisma.PageUncheckedUpdateManyWithoutServiceAccountNestedInput
   customStatuses?: Prisma.InstanceCustomStatusUncheckedUpdateManyWithoutServiceAccountNestedInput
+  grants?: Prisma.ServiceAccountGrantUncheckedUpdateManyWithoutServiceAccountNestedInput
 }
 
 export type ServiceAccountCreateWithoutArtifactsInput = {
   id?: string
   meta:PrismaJson.ServiceAccountMeta
+  canRequestOperations?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
   workers?: Prisma.WorkerCreateNestedManyWithoutServiceAccountInput
@@ -560,11 +612,13 @@ export type ServiceAccountCreateWithoutArtifactsInput = {
   pages?: Prisma.PageCreateNestedManyWithoutServiceAccountInput
   customStatuses?: Prisma.InstanceCustomStatusCreateNestedManyWithoutServiceAccountInput
   apiKeys?: Prisma.ApiKeyCreateNestedManyWithoutServiceAccountInput
+  grants?: Prisma.ServiceAccountGrantCreateNestedManyWithoutServiceAccountInput
 }
 
 export type ServiceAccountUncheckedCreateWithoutArtifactsInput = {
   id?: string
   meta:PrismaJson.ServiceAccountMeta
+  canRequestOperations?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
   workers?: Prisma.WorkerUncheckedCreateNestedManyWithoutServiceAccountInput
@@ -573,6 +627,7 @@ export type ServiceAccountUncheckedCreateWithoutArtifactsInput = {
   pages?: Prisma.PageUncheckedCreateNestedManyWithoutServiceAccountInput
   customStatuses?: Prisma.InstanceCustomStatusUncheckedCreateNestedManyWithoutServiceAccountInput
   apiKeys?: Prisma.ApiKeyUncheckedCreateNestedManyWithoutServiceAccountInput
+  grants?: Prisma.ServiceAccountGrantUncheckedCreateNestedManyWithoutServiceAccountInput
 }
 
 export type ServiceAccountCreateOrConnectWithoutArtifactsInput = {
@@ -602,6 +657,7 @@ export type ServiceAccountScalarWhereInput = {
   NOT?: Prisma.ServiceAccountScalarWhereInput | Prisma.ServiceAccountScalarWhereInput[]
   id?: Prisma.StringFilter<"ServiceAccount"> | string
   meta?: Prisma.JsonFilter<"ServiceAccount">
+  canRequestOperations?: Prisma.BoolFilter<"ServiceAccount"> | boolean
   createdAt?: Prisma.DateTimeFilter<"ServiceAccount"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"ServiceAccount"> | Date | string
 }
@@ -609,6 +665,7 @@ export type ServiceAccountScalarWhereInput = {
 export type ServiceAccountCreateWithoutCustomStatusesInput = {
   id?: string
   meta:PrismaJson.ServiceAccountMeta
+  canRequestOperations?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
   workers?: Prisma.WorkerCreateNestedManyWithoutServiceAccountInput
@@ -617,11 +674,13 @@ export type ServiceAccountCreateWithoutCustomStatusesInput = {
   terminals?: Prisma.TerminalCreateNestedManyWithoutServiceAccountInput
   pages?: Prisma.PageCreateNestedManyWithoutServiceAccountInput
   apiKeys?: Prisma.ApiKeyCreateNestedManyWithoutServiceAccountInput
+  grants?: Prisma.ServiceAccountGrantCreateNestedManyWithoutServiceAccountInput
 }
 
 export type ServiceAccountUncheckedCreateWithoutCustomStatusesInput = {
   id?: string
   meta:PrismaJson.ServiceAccountMeta
+  canRequestOperations?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
   workers?: Prisma.WorkerUncheckedCreateNestedManyWithoutServiceAccountInput
@@ -630,6 +689,7 @@ export type ServiceAccountUncheckedCreateWithoutCustomStatusesInput = {
   terminals?: Prisma.TerminalUncheckedCreateNestedManyWithoutServiceAccountInput
   pages?: Prisma.PageUncheckedCreateNestedManyWithoutServiceAccountInput
   apiKeys?: Prisma.ApiKeyUncheckedCreateNestedManyWithoutServiceAccountInput
+  grants?: Prisma.ServiceAccountGrantUncheckedCreateNestedManyWithoutServiceAccountInput
 }
 
 export type ServiceAccountCreateOrConnectWithoutCustomStatusesInput = {
@@ -651,6 +711,7 @@ export type ServiceAccountUpdateToOneWithWhereWithoutCustomStatusesInput = {
 export type ServiceAccountUpdateWithoutCustomStatusesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   meta?:PrismaJson.ServiceAccountMeta
+  canRequestOperations?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   workers?: Prisma.WorkerUpdateManyWithoutServiceAccountNestedInput
@@ -659,11 +720,13 @@ export type ServiceAccountUpdateWithoutCustomStatusesInput = {
   terminals?: Prisma.TerminalUpdateManyWithoutServiceAccountNestedInput
   pages?: Prisma.PageUpdateManyWithoutServiceAccountNestedInput
   apiKeys?: Prisma.ApiKeyUpdateManyWithoutServiceAccountNestedInput
+  grants?: Prisma.ServiceAccountGrantUpdateManyWithoutServiceAccountNestedInput
 }
 
 export type ServiceAccountUncheckedUpdateWithoutCustomStatusesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   meta?:PrismaJson.ServiceAccountMeta
+  canRequestOperations?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   workers?: Prisma.WorkerUncheckedUpdateManyWithoutServiceAccountNestedInput
@@ -672,11 +735,13 @@ export type ServiceAccountUncheckedUpdateWithoutCustomStatusesInput = {
   terminals?: Prisma.TerminalUncheckedUpdateManyWithoutServiceAccountNestedInput
   pages?: Prisma.PageUncheckedUpdateManyWithoutServiceAccountNestedInput
   apiKeys?: Prisma.ApiKeyUncheckedUpdateManyWithoutServiceAccountNestedInput
+  grants?: Prisma.ServiceAccountGrantUncheckedUpdateManyWithoutServiceAccountNestedInput
 }
 
 export type ServiceAccountCreateWithoutPagesInput = {
   id?: string
   meta:PrismaJson.ServiceAccountMeta
+  canRequestOperations?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
   workers?: Prisma.WorkerCreateNestedManyWithoutServiceAccountInput
@@ -685,11 +750,13 @@ export type ServiceAccountCreateWithoutPagesInput = {
   terminals?: Prisma.TerminalCreateNestedManyWithoutServiceAccountInput
   customStatuses?: Prisma.InstanceCustomStatusCreateNestedManyWithoutServiceAccountInput
   apiKeys?: Prisma.ApiKeyCreateNestedManyWithoutServiceAccountInput
+  grants?: Prisma.ServiceAccountGrantCreateNestedManyWithoutServiceAccountInput
 }
 
 export type ServiceAccountUncheckedCreateWithoutPagesInput = {
   id?: string
   meta:PrismaJson.ServiceAccountMeta
+  canRequestOperations?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
   workers?: Prisma.WorkerUncheckedCreateNestedManyWithoutServiceAccountInput
@@ -698,6 +765,7 @@ export type ServiceAccountUncheckedCreateWithoutPagesInput = {
   terminals?: Prisma.TerminalUncheckedCreateNestedManyWithoutServiceAccountInput
   customStatuses?: Prisma.InstanceCustomStatusUncheckedCreateNestedManyWithoutServiceAccountInput
   apiKeys?: Prisma.ApiKeyUncheckedCreateNestedManyWithoutServiceAccountInput
+  grants?: Prisma.ServiceAccountGrantUncheckedCreateNestedManyWithoutServiceAccountInput
 }
 
 export type ServiceAccountCreateOrConnectWithoutPagesInput = {
@@ -719,6 +787,7 @@ export type ServiceAccountUpdateToOneWithWhereWithoutPagesInput = {
 export type ServiceAccountUpdateWithoutPagesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   meta?:PrismaJson.ServiceAccountMeta
+  canRequestOperations?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   workers?: Prisma.WorkerUpdateManyWithoutServiceAccountNestedInput
@@ -727,11 +796,13 @@ export type ServiceAccountUpdateWithoutPagesInput = {
   terminals?: Prisma.TerminalUpdateManyWithoutServiceAccountNestedInput
   customStatuses?: Prisma.InstanceCustomStatusUpdateManyWithoutServiceAccountNestedInput
   apiKeys?: Prisma.ApiKeyUpdateManyWithoutServiceAccountNestedInput
+  grants?: Prisma.ServiceAccountGrantUpdateManyWithoutServiceAccountNestedInput
 }
 
 export type ServiceAccountUncheckedUpdateWithoutPagesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   meta?:PrismaJson.ServiceAccountMeta
+  canRequestOperations?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   workers?: Prisma.WorkerUncheckedUpdateManyWithoutServiceAccountNestedInput
@@ -740,11 +811,13 @@ export type ServiceAccountUncheckedUpdateWithoutPagesInput = {
   terminals?: Prisma.TerminalUncheckedUpdateManyWithoutServiceAccountNestedInput
   customStatuses?: Prisma.InstanceCustomStatusUncheckedUpdateManyWithoutServiceAccountNestedInput
   apiKeys?: Prisma.ApiKeyUncheckedUpdateManyWithoutServiceAccountNestedInput
+  grants?: Prisma.ServiceAccountGrantUncheckedUpdateManyWithoutServiceAccountNestedInput
 }
 
 export type ServiceAccountCreateWithoutSecretsInput = {
   id?: string
   meta:PrismaJson.ServiceAccountMeta
+  canRequestOperations?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
   workers?: Prisma.WorkerCreateNestedManyWithoutServiceAccountInput
@@ -753,11 +826,13 @@ export type ServiceAccountCreateWithoutSecretsInput = {
   pages?: Prisma.PageCreateNestedManyWithoutServiceAccountInput
   customStatuses?: Prisma.InstanceCustomStatusCreateNestedManyWithoutServiceAccountInput
   apiKeys?: Prisma.ApiKeyCreateNestedManyWithoutServiceAccountInput
+  grants?: Prisma.ServiceAccountGrantCreateNestedManyWithoutServiceAccountInput
 }
 
 export type ServiceAccountUncheckedCreateWithoutSecretsInput = {
   id?: string
   meta:PrismaJson.ServiceAccountMeta
+  canRequestOperations?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
   workers?: Prisma.WorkerUncheckedCreateNestedManyWithoutServiceAccountInput
@@ -766,6 +841,7 @@ export type ServiceAccountUncheckedCreateWithoutSecretsInput = {
   pages?: Prisma.PageUncheckedCreateNestedManyWithoutServiceAccountInput
   customStatuses?: Prisma.InstanceCustomStatusUncheckedCreateNestedManyWithoutServiceAccountInput
   apiKeys?: Prisma.ApiKeyUncheckedCreateNestedManyWithoutServiceAccountInput
+  grants?: Prisma.ServiceAccountGrantUncheckedCreateNestedManyWithoutServiceAccountInput
 }
 
 export type ServiceAccountCreateOrConnectWithoutSecretsInput = {
@@ -787,6 +863,7 @@ export type ServiceAccountUpdateToOneWithWhereWithoutSecretsInput = {
 export type ServiceAccountUpdateWithoutSecretsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   meta?:PrismaJson.ServiceAccountMeta
+  canRequestOperations?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   workers?: Prisma.WorkerUpdateManyWithoutServiceAccountNestedInput
@@ -795,11 +872,13 @@ export type ServiceAccountUpdateWithoutSecretsInput = {
   pages?: Prisma.PageUpdateManyWithoutServiceAccountNestedInput
   customStatuses?: Prisma.InstanceCustomStatusUpdateManyWithoutServiceAccountNestedInput
   apiKeys?: Prisma.ApiKeyUpdateManyWithoutServiceAccountNestedInput
+  grants?: Prisma.ServiceAccountGrantUpdateManyWithoutServiceAccountNestedInput
 }
 
 export type ServiceAccountUncheckedUpdateWithoutSecretsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   meta?:PrismaJson.ServiceAccountMeta
+  canRequestOperations?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   workers?: Prisma.WorkerUncheckedUpdateManyWithoutServiceAccountNestedInput
@@ -808,11 +887,89 @@ export type ServiceAccountUncheckedUpdateWithoutSecretsInput = {
   pages?: Prisma.PageUncheckedUpdateManyWithoutServiceAccountNestedInput
   customStatuses?: Prisma.InstanceCustomStatusUncheckedUpdateManyWithoutServiceAccountNestedInput
   apiKeys?: Prisma.ApiKeyUncheckedUpdateManyWithoutServiceAccountNestedInput
+  grants?: Prisma.ServiceAccountGrantUncheckedUpdateManyWithoutServiceAccountNestedInput
+}
+
+export type ServiceAccountCreateWithoutGrantsInput = {
+  id?: string
+  meta:PrismaJson.ServiceAccountMeta
+  canRequestOperations?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  workers?: Prisma.WorkerCreateNestedManyWithoutServiceAccountInput
+  artifacts?: Prisma.ArtifactCreateNestedManyWithoutServiceAccountsInput
+  secrets?: Prisma.SecretCreateNestedManyWithoutServiceAccountInput
+  terminals?: Prisma.TerminalCreateNestedManyWithoutServiceAccountInput
+  pages?: Prisma.PageCreateNestedManyWithoutServiceAccountInput
+  customStatuses?: Prisma.InstanceCustomStatusCreateNestedManyWithoutServiceAccountInput
+  apiKeys?: Prisma.ApiKeyCreateNestedManyWithoutServiceAccountInput
+}
+
+export type ServiceAccountUncheckedCreateWithoutGrantsInput = {
+  id?: string
+  meta:PrismaJson.ServiceAccountMeta
+  canRequestOperations?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  workers?: Prisma.WorkerUncheckedCreateNestedManyWithoutServiceAccountInput
+  artifacts?: Prisma.ArtifactUncheckedCreateNestedManyWithoutServiceAccountsInput
+  secrets?: Prisma.SecretUncheckedCreateNestedManyWithoutServiceAccountInput
+  terminals?: Prisma.TerminalUncheckedCreateNestedManyWithoutServiceAccountInput
+  pages?: Prisma.PageUncheckedCreateNestedManyWithoutServiceAccountInput
+  customStatuses?: Prisma.InstanceCustomStatusUncheckedCreateNestedManyWithoutServiceAccountInput
+  apiKeys?: Prisma.ApiKeyUncheckedCreateNestedManyWithoutServiceAccountInput
+}
+
+export type ServiceAccountCreateOrConnectWithoutGrantsInput = {
+  where: Prisma.ServiceAccountWhereUniqueInput
+  create: Prisma.XOR<Prisma.ServiceAccountCreateWithoutGrantsInput, Prisma.ServiceAccountUncheckedCreateWithoutGrantsInput>
+}
+
+export type ServiceAccountUpsertWithoutGrantsInput = {
+  update: Prisma.XOR<Prisma.ServiceAccountUpdateWithoutGrantsInput, Prisma.ServiceAccountUncheckedUpdateWithoutGrantsInput>
+  create: Prisma.XOR<Prisma.ServiceAccountCreateWithoutGrantsInput, Prisma.ServiceAccountUncheckedCreateWithoutGrantsInput>
+  where?: Prisma.ServiceAccountWhereInput
+}
+
+export type ServiceAccountUpdateToOneWithWhereWithoutGrantsInput = {
+  where?: Prisma.ServiceAccountWhereInput
+  data: Prisma.XOR<Prisma.ServiceAccountUpdateWithoutGrantsInput, Prisma.ServiceAccountUncheckedUpdateWithoutGrantsInput>
+}
+
+export type ServiceAccountUpdateWithoutGrantsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  meta?:PrismaJson.ServiceAccountMeta
+  canRequestOperations?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  workers?: Prisma.WorkerUpdateManyWithoutServiceAccountNestedInput
+  artifacts?: Prisma.ArtifactUpdateManyWithoutServiceAccountsNestedInput
+  secrets?: Prisma.SecretUpdateManyWithoutServiceAccountNestedInput
+  terminals?: Prisma.TerminalUpdateManyWithoutServiceAccountNestedInput
+  pages?: Prisma.PageUpdateManyWithoutServiceAccountNestedInput
+  customStatuses?: Prisma.InstanceCustomStatusUpdateManyWithoutServiceAccountNestedInput
+  apiKeys?: Prisma.ApiKeyUpdateManyWithoutServiceAccountNestedInput
+}
+
+export type ServiceAccountUncheckedUpdateWithoutGrantsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  meta?:PrismaJson.ServiceAccountMeta
+  canRequestOperations?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  workers?: Prisma.WorkerUncheckedUpdateManyWithoutServiceAccountNestedInput
+  artifacts?: Prisma.ArtifactUncheckedUpdateManyWithoutServiceAccountsNestedInput
+  secrets?: Prisma.SecretUncheckedUpdateManyWithoutServiceAccountNestedInput
+  terminals?: Prisma.TerminalUncheckedUpdateManyWithoutServiceAccountNestedInput
+  pages?: Prisma.PageUncheckedUpdateManyWithoutServiceAccountNestedInput
+  customStatuses?: Prisma.InstanceCustomStatusUncheckedUpdateManyWithoutServiceAccountNestedInput
+  apiKeys?: Prisma.ApiKeyUncheckedUpdateManyWithoutServiceAccountNestedInput
 }
 
 export type ServiceAccountCreateWithoutTerminalsInput = {
   id?: string
   meta:PrismaJson.ServiceAccountMeta
+  canRequestOperations?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
   workers?: Prisma.WorkerCreateNestedManyWithoutServiceAccountInput
@@ -821,11 +978,13 @@ export type ServiceAccountCreateWithoutTerminalsInput = {
   pages?: Prisma.PageCreateNestedManyWithoutServiceAccountInput
   customStatuses?: Prisma.InstanceCustomStatusCreateNestedManyWithoutServiceAccountInput
   apiKeys?: Prisma.ApiKeyCreateNestedManyWithoutServiceAccountInput
+  grants?: Prisma.ServiceAccountGrantCreateNestedManyWithoutServiceAccountInput
 }
 
 export type ServiceAccountUncheckedCreateWithoutTerminalsInput = {
   id?: string
   meta:PrismaJson.ServiceAccountMeta
+  canRequestOperations?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
   workers?: Prisma.WorkerUncheckedCreateNestedManyWithoutServiceAccountInput
@@ -834,6 +993,7 @@ export type ServiceAccountUncheckedCreateWithoutTerminalsInput = {
   pages?: Prisma.PageUncheckedCreateNestedManyWithoutServiceAccountInput
   customStatuses?: Prisma.InstanceCustomStatusUncheckedCreateNestedManyWithoutServiceAccountInput
   apiKeys?: Prisma.ApiKeyUncheckedCreateNestedManyWithoutServiceAccountInput
+  grants?: Prisma.ServiceAccountGrantUncheckedCreateNestedManyWithoutServiceAccountInput
 }
 
 export type ServiceAccountCreateOrConnectWithoutTerminalsInput = {
@@ -855,6 +1015,7 @@ export type ServiceAccountUpdateToOneWithWhereWithoutTerminalsInput = {
 export type ServiceAccountUpdateWithoutTerminalsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   meta?:PrismaJson.ServiceAccountMeta
+  canRequestOperations?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   workers?: Prisma.WorkerUpdateManyWithoutServiceAccountNestedInput
@@ -863,11 +1024,13 @@ export type ServiceAccountUpdateWithoutTerminalsInput = {
   pages?: Prisma.PageUpdateManyWithoutServiceAccountNestedInput
   customStatuses?: Prisma.InstanceCustomStatusUpdateManyWithoutServiceAccountNestedInput
   apiKeys?: Prisma.ApiKeyUpdateManyWithoutServiceAccountNestedInput
+  grants?: Prisma.ServiceAccountGrantUpdateManyWithoutServiceAccountNestedInput
 }
 
 export type ServiceAccountUncheckedUpdateWithoutTerminalsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   meta?:PrismaJson.ServiceAccountMeta
+  canRequestOperations?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   workers?: Prisma.WorkerUncheckedUpdateManyWithoutServiceAccountNestedInput
@@ -876,11 +1039,13 @@ export type ServiceAccountUncheckedUpdateWithoutTerminalsInput = {
   pages?: Prisma.PageUncheckedUpdateManyWithoutServiceAccountNestedInput
   customStatuses?: Prisma.InstanceCustomStatusUncheckedUpdateManyWithoutServiceAccountNestedInput
   apiKeys?: Prisma.ApiKeyUncheckedUpdateManyWithoutServiceAccountNestedInput
+  grants?: Prisma.ServiceAccountGrantUncheckedUpdateManyWithoutServiceAccountNestedInput
 }
 
 export type ServiceAccountCreateWithoutWorkersInput = {
   id?: string
   meta:PrismaJson.ServiceAccountMeta
+  canRequestOperations?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
   artifacts?: Prisma.ArtifactCreateNestedManyWithoutServiceAccountsInput
@@ -889,11 +1054,13 @@ export type ServiceAccountCreateWithoutWorkersInput = {
   pages?: Prisma.PageCreateNestedManyWithoutServiceAccountInput
   customStatuses?: Prisma.InstanceCustomStatusCreateNestedManyWithoutServiceAccountInput
   apiKeys?: Prisma.ApiKeyCreateNestedManyWithoutServiceAccountInput
+  grants?: Prisma.ServiceAccountGrantCreateNestedManyWithoutServiceAccountInput
 }
 
 export type ServiceAccountUncheckedCreateWithoutWorkersInput = {
   id?: string
   meta:PrismaJson.ServiceAccountMeta
+  canRequestOperations?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
   artifacts?: Prisma.ArtifactUncheckedCreateNestedManyWithoutServiceAccountsInput
@@ -902,6 +1069,7 @@ export type ServiceAccountUncheckedCreateWithoutWorkersInput = {
   pages?: Prisma.PageUncheckedCreateNestedManyWithoutServiceAccountInput
   customStatuses?: Prisma.InstanceCustomStatusUncheckedCreateNestedManyWithoutServiceAccountInput
   apiKeys?: Prisma.ApiKeyUncheckedCreateNestedManyWithoutServiceAccountInput
+  grants?: Prisma.ServiceAccountGrantUncheckedCreateNestedManyWithoutServiceAccountInput
 }
 
 export type ServiceAccountCreateOrConnectWithoutWorkersInput = {
@@ -923,6 +1091,7 @@ export type ServiceAccountUpdateToOneWithWhereWithoutWorkersInput = {
 export type ServiceAccountUpdateWithoutWorkersInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   meta?:PrismaJson.ServiceAccountMeta
+  canRequestOperations?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   artifacts?: Prisma.ArtifactUpdateManyWithoutServiceAccountsNestedInput
@@ -931,11 +1100,13 @@ export type ServiceAccountUpdateWithoutWorkersInput = {
   pages?: Prisma.PageUpdateManyWithoutServiceAccountNestedInput
   customStatuses?: Prisma.InstanceCustomStatusUpdateManyWithoutServiceAccountNestedInput
   apiKeys?: Prisma.ApiKeyUpdateManyWithoutServiceAccountNestedInput
+  grants?: Prisma.ServiceAccountGrantUpdateManyWithoutServiceAccountNestedInput
 }
 
 export type ServiceAccountUncheckedUpdateWithoutWorkersInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   meta?:PrismaJson.ServiceAccountMeta
+  canRequestOperations?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   artifacts?: Prisma.ArtifactUncheckedUpdateManyWithoutServiceAccountsNestedInput
@@ -944,11 +1115,13 @@ export type ServiceAccountUncheckedUpdateWithoutWorkersInput = {
   pages?: Prisma.PageUncheckedUpdateManyWithoutServiceAccountNestedInput
   customStatuses?: Prisma.InstanceCustomStatusUncheckedUpdateManyWithoutServiceAccountNestedInput
   apiKeys?: Prisma.ApiKeyUncheckedUpdateManyWithoutServiceAccountNestedInput
+  grants?: Prisma.ServiceAccountGrantUncheckedUpdateManyWithoutServiceAccountNestedInput
 }
 
 export type ServiceAccountUpdateWithoutArtifactsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   meta?:PrismaJson.ServiceAccountMeta
+  canRequestOperations?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   workers?: Prisma.WorkerUpdateManyWithoutServiceAccountNestedInput
@@ -957,11 +1130,13 @@ export type ServiceAccountUpdateWithoutArtifactsInput = {
   pages?: Prisma.PageUpdateManyWithoutServiceAccountNestedInput
   customStatuses?: Prisma.InstanceCustomStatusUpdateManyWithoutServiceAccountNestedInput
   apiKeys?: Prisma.ApiKeyUpdateManyWithoutServiceAccountNestedInput
+  grants?: Prisma.ServiceAccountGrantUpdateManyWithoutServiceAccountNestedInput
 }
 
 export type ServiceAccountUncheckedUpdateWithoutArtifactsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   meta?:PrismaJson.ServiceAccountMeta
+  canRequestOperations?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   workers?: Prisma.WorkerUncheckedUpdateManyWithoutServiceAccountNestedInput
@@ -970,11 +1145,13 @@ export type ServiceAccountUncheckedUpdateWithoutArtifactsInput = {
   pages?: Prisma.PageUncheckedUpdateManyWithoutServiceAccountNestedInput
   customStatuses?: Prisma.InstanceCustomStatusUncheckedUpdateManyWithoutServiceAccountNestedInput
   apiKeys?: Prisma.ApiKeyUncheckedUpdateManyWithoutServiceAccountNestedInput
+  grants?: Prisma.ServiceAccountGrantUncheckedUpdateManyWithoutServiceAccountNestedInput
 }
 
 export type ServiceAccountUncheckedUpdateManyWithoutArtifactsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   meta?:PrismaJson.ServiceAccountMeta
+  canRequestOperations?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -992,6 +1169,7 @@ export type ServiceAccountCountOutputType = {
   pages: number
   customStatuses: number
   apiKeys: number
+  grants: number
 }
 
 export type ServiceAccountCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
@@ -1002,6 +1180,7 @@ export type ServiceAccountCountOutputTypeSelect<ExtArgs extends runtime.Types.Ex
   pages?: boolean | ServiceAccountCountOutputTypeCountPagesArgs
   customStatuses?: boolean | ServiceAccountCountOutputTypeCountCustomStatusesArgs
   apiKeys?: boolean | ServiceAccountCountOutputTypeCountApiKeysArgs
+  grants?: boolean | ServiceAccountCountOutputTypeCountGrantsArgs
 }
 
 /**
@@ -1063,10 +1242,18 @@ export type ServiceAccountCountOutputTypeCountApiKeysArgs<ExtArgs extends runtim
   where?: Prisma.ApiKeyWhereInput
 }
 
+/**
+ * ServiceAccountCountOutputType without action
+ */
+export type ServiceAccountCountOutputTypeCountGrantsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ServiceAccountGrantWhereInput
+}
+
 
 export type ServiceAccountSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
   meta?: boolean
+  canRequestOperations?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   workers?: boolean | Prisma.ServiceAccount$workersArgs<ExtArgs>
@@ -1076,12 +1263,14 @@ export type ServiceAccountSelect<ExtArgs extends runtime.Types.Extensions.Intern
   pages?: boolean | Prisma.ServiceAccount$pagesArgs<ExtArgs>
   customStatuses?: boolean | Prisma.ServiceAccount$customStatusesArgs<ExtArgs>
   apiKeys?: boolean | Prisma.ServiceAccount$apiKeysArgs<ExtArgs>
+  grants?: boolean | Prisma.ServiceAccount$grantsArgs<ExtArgs>
   _count?: boolean | Prisma.ServiceAccountCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["serviceAccount"]>
 
 export type ServiceAccountSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
   meta?: boolean
+  canRequestOperations?: boolean
   createdAt?: boolean
   updatedAt?: boolean
 }, ExtArgs["result"]["serviceAccount"]>
@@ -1089,6 +1278,7 @@ export type ServiceAccountSelectCreateManyAndReturn<ExtArgs extends runtime.Type
 export type ServiceAccountSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
   meta?: boolean
+  canRequestOperations?: boolean
   createdAt?: boolean
   updatedAt?: boolean
 }, ExtArgs["result"]["serviceAccount"]>
@@ -1096,11 +1286,12 @@ export type ServiceAccountSelectUpdateManyAndReturn<ExtArgs extends runtime.Type
 export type ServiceAccountSelectScalar = {
   id?: boolean
   meta?: boolean
+  canRequestOperations?: boolean
   createdAt?: boolean
   updatedAt?: boolean
 }
 
-export type ServiceAccountOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "meta" | "createdAt" | "updatedAt", ExtArgs["result"]["serviceAccount"]>
+export type ServiceAccountOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "meta" | "canRequestOperations" | "createdAt" | "updatedAt", ExtArgs["result"]["serviceAccount"]>
 export type ServiceAccountInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   workers?: boolean | Prisma.ServiceAccount$workersArgs<ExtArgs>
   artifacts?: boolean | Prisma.ServiceAccount$artifactsArgs<ExtArgs>
@@ -1109,6 +1300,7 @@ export type ServiceAccountInclude<ExtArgs extends runtime.Types.Extensions.Inter
   pages?: boolean | Prisma.ServiceAccount$pagesArgs<ExtArgs>
   customStatuses?: boolean | Prisma.ServiceAccount$customStatusesArgs<ExtArgs>
   apiKeys?: boolean | Prisma.ServiceAccount$apiKeysArgs<ExtArgs>
+  grants?: boolean | Prisma.ServiceAccount$grantsArgs<ExtArgs>
   _count?: boolean | Prisma.ServiceAccountCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type ServiceAccountIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
@@ -1145,6 +1337,10 @@ export type $ServiceAccountPayload<ExtArgs extends runtime.Types.Extensions.Inte
      * The API keys impersonating this service account.
      */
     apiKeys: Prisma.$ApiKeyPayload<ExtArgs>[]
+    /**
+     * The grants giving this service account access to instances and secrets.
+     */
+    grants: Prisma.$ServiceAccountGrantPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     /**
@@ -1157,6 +1353,11 @@ export type $ServiceAccountPayload<ExtArgs extends runtime.Types.Extensions.Inte
      * [ServiceAccountMeta]
      */
     meta:PrismaJson.ServiceAccountMeta
+    /**
+     * Whether the service account is allowed to request the operations
+     * for the instances its worker is registered for.
+     */
+    canRequestOperations: boolean
     /**
      * The time when the service account was created.
      */
@@ -1566,6 +1767,7 @@ export interface Prisma__ServiceAccountClient<T, Null = never, ExtArgs extends r
   pages<T extends Prisma.ServiceAccount$pagesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ServiceAccount$pagesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PagePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   customStatuses<T extends Prisma.ServiceAccount$customStatusesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ServiceAccount$customStatusesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InstanceCustomStatusPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   apiKeys<T extends Prisma.ServiceAccount$apiKeysArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ServiceAccount$apiKeysArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ApiKeyPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  grants<T extends Prisma.ServiceAccount$grantsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ServiceAccount$grantsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ServiceAccountGrantPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1597,6 +1799,7 @@ export interface Prisma__ServiceAccountClient<T, Null = never, ExtArgs extends r
 export interface ServiceAccountFieldRefs {
   readonly id: Prisma.FieldRef<"ServiceAccount", 'String'>
   readonly meta: Prisma.FieldRef<"ServiceAccount", 'Json'>
+  readonly canRequestOperations: Prisma.FieldRef<"ServiceAccount", 'Boolean'>
   readonly createdAt: Prisma.FieldRef<"ServiceAccount", 'DateTime'>
   readonly updatedAt: Prisma.FieldRef<"ServiceAccount", 'DateTime'>
 }
@@ -2152,6 +2355,30 @@ export type ServiceAccount$apiKeysArgs<ExtArgs extends runtime.Types.Extensions.
   distinct?: Prisma.ApiKeyScalarFieldEnum | Prisma.ApiKeyScalarFieldEnum[]
 }
 
+/**
+ * ServiceAccount.grants
+ */
+export type ServiceAccount$grantsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ServiceAccountGrant
+   */
+  select?: Prisma.ServiceAccountGrantSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ServiceAccountGrant
+   */
+  omit?: Prisma.ServiceAccountGrantOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ServiceAccountGrantInclude<ExtArgs> | null
+  where?: Prisma.ServiceAccountGrantWhereInput
+  orderBy?: Prisma.ServiceAccountGrantOrderByWithRelationInput | Prisma.ServiceAccountGrantOrderByWithRelationInput[]
+  cursor?: Prisma.ServiceAccountGrantWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ServiceAccountGrantScalarFieldEnum | Prisma.ServiceAccountGrantScalarFieldEnum[]
+}
+
 /**
  * ServiceAccount without action
  */
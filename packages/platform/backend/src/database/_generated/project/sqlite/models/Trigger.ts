@@ -20,7 +20,8 @@ import type * as Prisma from "../internal/prismaNamespace.ts"
  * 
  * Triggers are created by units to perform actions at defined points in the instance lifecycle
  * or on schedule. The spec field determines the trigger type and behavior - currently supporting
- * before-destroy triggers, with planned support for additional types like cron scheduling.
+ * lifecycle triggers (before-destroy, before-update, after-update and on-failure)
+ * and schedule triggers invoked by the backend according to the cron expression.
  * Triggers are deleted along with their instance.
  */
 export type TriggerModel = runtime.Types.Result.DefaultSelection<Prisma.$TriggerPayload>
@@ -35,6 +36,8 @@ export type TriggerMinAggregateOutputType = {
   id: string | null
   stateId: string | null
   name: string | null
+  lastRunAt: Date | null
+  nextRunAt: Date | null
   createdAt: Date | null
   updatedAt: Date | null
 }
@@ -43,6 +46,8 @@ export type TriggerMaxAggregateOutputType = {
   id: string | null
   stateId: string | null
   name: string | null
+  lastRunAt: Date | null
+  nextRunAt: Date | null
   createdAt: Date | null
   updatedAt: Date | null
 }
@@ -53,6 +58,8 @@ export type TriggerCountAggregateOutputType = {
   stateId: number
   name: number
   spec: number
+  lastRunAt: number
+  nextRunAt: number
   createdAt: number
   updatedAt: number
   _all: number
@@ -63,6 +70,8 @@ export type TriggerMinAggregateInputType = {
   id?: true
   stateId?: true
   name?: true
+  lastRunAt?: true
+  nextRunAt?: true
   createdAt?: true
   updatedAt?: true
 }
@@ -71,6 +80,8 @@ export type TriggerMaxAggregateInputType = {
   id?: true
   stateId?: true
   name?: true
+  lastRunAt?: true
+  nextRunAt?: true
   createdAt?: true
   updatedAt?: true
 }
@@ -81,6 +92,8 @@ export type TriggerCountAggregateInputType = {
   stateId?: true
   name?: true
   spec?: true
+  lastRunAt?: true
+  nextRunAt?: true
   createdAt?: true
   updatedAt?: true
   _all?: true
@@ -164,6 +177,8 @@ export type TriggerGroupByOutputType = {
   stateId: string
   name: string
   spec:PrismaJson.TriggerSpec
+  lastRunAt: Date | null
+  nextRunAt: Date | null
   createdAt: Date
   updatedAt: Date
   _count: TriggerCountAggregateOutputType | null
@@ -195,6 +210,8 @@ export type TriggerWhereInput = {
   stateId?: Prisma.StringFilter<"Trigger"> | string
   name?: Prisma.StringFilter<"Trigger"> | string
   spec?: Prisma.JsonFilter<"Trigger">
+  lastRunAt?: Prisma.DateTimeNullableFilter<"Trigger"> | Date | string | null
+  nextRunAt?: Prisma.DateTimeNullableFilter<"Trigger"> | Date | string | null
   createdAt?: Prisma.DateTimeFilter<"Trigger"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Trigger"> | Date | string
   state?: Prisma.XOR<Prisma.InstanceStateScalarRelationFilter, Prisma.InstanceStateWhereInput>
@@ -206,6 +223,8 @@ export type TriggerOrderByWithRelationInput = {
   stateId?: Prisma.SortOrder
   name?: Prisma.SortOrder
   spec?: Prisma.SortOrder
+  lastRunAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  nextRunAt?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   state?: Prisma.InstanceStateOrderByWithRelationInput
@@ -221,6 +240,8 @@ export type TriggerWhereUniqueInput = Prisma.AtLeast<{
   stateId?: Prisma.StringFilter<"Trigger"> | string
   name?: Prisma.StringFilter<"Trigger"> | string
   spec?: Prisma.JsonFilter<"Trigger">
+  lastRunAt?: Prisma.DateTimeNullableFilter<"Trigger"> | Date | string | null
+  nextRunAt?: Prisma.DateTimeNullableFilter<"Trigger"> | Date | string | null
   createdAt?: Prisma.DateTimeFilter<"Trigger"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Trigger"> | Date | string
   state?: Prisma.XOR<Prisma.InstanceStateScalarRelationFilter, Prisma.InstanceStateWhereInput>
@@ -232,6 +253,8 @@ export type TriggerOrderByWithAggregationInput = {
   stateId?: Prisma.SortOrder
   name?: Prisma.SortOrder
   spec?: Prisma.SortOrder
+  lastRunAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  nextRunAt?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   _count?: Prisma.TriggerCountOrderByAggregateInput
@@ -248,6 +271,8 @@ export type TriggerScalarWhereWithAggregatesInput = {
   stateId?: Prisma.StringWithAggregatesFilter<"Trigger"> | string
   name?: Prisma.StringWithAggregatesFilter<"Trigger"> | string
   spec?: Prisma.JsonWithAggregatesFilter<"Trigger">
+  lastRunAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Trigger"> | Date | string | null
+  nextRunAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Trigger"> | Date | string | null
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"Trigger"> | Date | string
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"Trigger"> | Date | string
 }
@@ -257,6 +282,8 @@ export type TriggerCreateInput = {
   meta:PrismaJson.GlobalCommonObjectMeta
   name: string
   spec:PrismaJson.TriggerSpec
+  lastRunAt?: Date | string | null
+  nextRunAt?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   state: Prisma.InstanceStateCreateNestedOneWithoutTriggersInput
@@ -268,6 +295,8 @@ export type TriggerUncheckedCreateInput = {
   stateId: string
   name: string
   spec:PrismaJson.TriggerSpec
+  lastRunAt?: Date | string | null
+  nextRunAt?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -277,6 +306,8 @@ export type TriggerUpdateInput = {
   meta?:PrismaJson.GlobalCommonObjectMeta
   name?: Prisma.StringFieldUpdateOperationsInput | string
   spec?:PrismaJson.TriggerSpec
+  lastRunAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  nextRunAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   state?: Prisma.InstanceStateUpdateOneRequiredWithoutTriggersNestedInput
@@ -288,6 +319,8 @@ export type TriggerUncheckedUpdateInput = {
   stateId?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
   spec?:PrismaJson.TriggerSpec
+  lastRunAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  nextRunAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -298,6 +331,8 @@ export type TriggerCreateManyInput = {
   stateId: string
   name: string
   spec:PrismaJson.TriggerSpec
+  lastRunAt?: Date | string | null
+  nextRunAt?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -307,6 +342,8 @@ export type TriggerUpdateManyMutationInput = {
   meta?:PrismaJson.GlobalCommonObjectMeta
   name?: Prisma.StringFieldUpdateOperationsInput | string
   spec?:PrismaJson.TriggerSpec
+  lastRunAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  nextRunAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -317,6 +354,8 @@ export type TriggerUncheckedUpdateManyInput = {
   stateId?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
   spec?:PrismaJson.TriggerSpec
+  lastRunAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  nextRunAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -342,6 +381,8 @@ export type TriggerCountOrderByAggregateInput = {
   stateId?: Prisma.SortOrder
   name?: Prisma.SortOrder
   spec?: Prisma.SortOrder
+  lastRunAt?: Prisma.SortOrder
+  nextRunAt?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
@@ -350,6 +391,8 @@ export type TriggerMaxOrderByAggregateInput = {
   id?: Prisma.SortOrder
   stateId?: Prisma.SortOrder
   name?: Prisma.SortOrder
+  lastRunAt?: Prisma.SortOrder
+  nextRunAt?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
@@ -358,6 +401,8 @@ export type TriggerMinOrderByAggregateInput = {
   id?: Prisma.SortOrder
   stateId?: Prisma.SortOrder
   name?: Prisma.SortOrder
+  lastRunAt?: Prisma.SortOrder
+  nextRunAt?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
@@ -409,6 +454,8 @@ export type TriggerCreateWithoutStateInput = {
   meta:PrismaJson.GlobalCommonObjectMeta
   name: string
   spec:PrismaJson.TriggerSpec
+  lastRunAt?: Date | string | null
+  nextRunAt?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -418,6 +465,8 @@ export type TriggerUncheckedCreateWithoutStateInput = {
   meta:PrismaJson.GlobalCommonObjectMeta
   name: string
   spec:PrismaJson.TriggerSpec
+  lastRunAt?: Date | string | null
+  nextRunAt?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -456,6 +505,8 @@ export type TriggerScalarWhereInput = {
   stateId?: Prisma.StringFilter<"Trigger"> | string
   name?: Prisma.StringFilter<"Trigger"> | string
   spec?: Prisma.JsonFilter<"Trigger">
+  lastRunAt?: Prisma.DateTimeNullableFilter<"Trigger"> | Date | string | null
+  nextRunAt?: Prisma.DateTimeNullableFilter<"Trigger"> | Date | string | null
   createdAt?: Prisma.DateTimeFilter<"Trigger"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Trigger"> | Date | string
 }
@@ -465,6 +516,8 @@ export type TriggerCreateManyStateInput = {
   meta:PrismaJson.GlobalCommonObjectMeta
   name: string
   spec:PrismaJson.TriggerSpec
+  lastRunAt?: Date | string | null
+  nextRunAt?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -474,6 +527,8 @@ export type TriggerUpdateWithoutStateInput = {
   meta?:PrismaJson.GlobalCommonObjectMeta
   name?: Prisma.StringFieldUpdateOperationsInput | string
   spec?:PrismaJson.TriggerSpec
+  lastRunAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  nextRunAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -483,6 +538,8 @@ export type TriggerUncheckedUpdateWithoutStateInput = {
   meta?:PrismaJson.GlobalCommonObjectMeta
   name?: Prisma.StringFieldUpdateOperationsInput | string
   spec?:PrismaJson.TriggerSpec
+  lastRunAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  nextRunAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -492,6 +549,8 @@ export type TriggerUncheckedUpdateManyWithoutStateInput = {
   meta?:PrismaJson.GlobalCommonObjectMeta
   name?: Prisma.StringFieldUpdateOperationsInput | string
   spec?:PrismaJson.TriggerSpec
+  lastRunAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  nextRunAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -504,6 +563,8 @@ export type TriggerSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs
   stateId?: boolean
   name?: boolean
   spec?: boolean
+  lastRunAt?: boolean
+  nextRunAt?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   state?: boolean | Prisma.InstanceStateDefaultArgs<ExtArgs>
@@ -515,6 +576,8 @@ export type TriggerSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Exten
   stateId?: boolean
   name?: boolean
   spec?: boolean
+  lastRunAt?: boolean
+  nextRunAt?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   state?: boolean | Prisma.InstanceStateDefaultArgs<ExtArgs>
@@ -526,6 +589,8 @@ export type TriggerSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Exten
   stateId?: boolean
   name?: boolean
   spec?: boolean
+  lastRunAt?: boolean
+  nextRunAt?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   state?: boolean | Prisma.InstanceStateDefaultArgs<ExtArgs>
@@ -537,11 +602,13 @@ export type TriggerSelectScalar = {
   stateId?: boolean
   name?: boolean
   spec?: boolean
+  lastRunAt?: boolean
+  nextRunAt?: boolean
   createdAt?: boolean
   updatedAt?: boolean
 }
 
-export type TriggerOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "meta" | "stateId" | "name" | "spec" | "createdAt" | "updatedAt", ExtArgs["result"]["trigger"]>
+export type TriggerOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "meta" | "stateId" | "name" | "spec" | "lastRunAt" | "nextRunAt" | "createdAt" | "updatedAt", ExtArgs["result"]["trigger"]>
 export type TriggerInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   state?: boolean | Prisma.InstanceStateDefaultArgs<ExtArgs>
 }
@@ -585,6 +652,15 @@ export type $TriggerPayload<ExtArgs extends runtime.Types.Extensions.InternalArg
      * [TriggerSpec]
      */
     spec:PrismaJson.TriggerSpec
+    /**
+     * The time when the schedule trigger was last invoked.
+     */
+    lastRunAt: Date | null
+    /**
+     * The time when the schedule trigger should be invoked next.
+     * Always null for the triggers of other types.
+     */
+    nextRunAt: Date | null
     /**
      * The time when the trigger was created.
      */
@@ -1022,6 +1098,8 @@ export interface TriggerFieldRefs {
   readonly stateId: Prisma.FieldRef<"Trigger", 'String'>
   readonly name: Prisma.FieldRef<"Trigger", 'String'>
   readonly spec: Prisma.FieldRef<"Trigger", 'Json'>
+  readonly lastRunAt: Prisma.FieldRef<"Trigger", 'DateTime'>
+  readonly nextRunAt: Prisma.FieldRef<"Trigger", 'DateTime'>
   readonly createdAt: Prisma.FieldRef<"Trigger", 'DateTime'>
   readonly updatedAt: Prisma.FieldRef<"Trigger", 'DateTime'>
 }
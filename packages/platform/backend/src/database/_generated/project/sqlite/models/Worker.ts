@@ -187,6 +187,7 @@ export type WorkerWhereInput = {
   createdAt?: Prisma.DateTimeFilter<"Worker"> | Date | string
   serviceAccount?: Prisma.XOR<Prisma.ServiceAccountScalarRelationFilter, Prisma.ServiceAccountWhereInput>
   versions?: Prisma.WorkerVersionListRelationFilter
+  operationRequests?: Prisma.WorkerOperationRequestListRelationFilter
 }
 
 export type WorkerOrderByWithRelationInput = {
@@ -196,6 +197,7 @@ export type WorkerOrderByWithRelationInput = {
   createdAt?: Prisma.SortOrder
   serviceAccount?: Prisma.ServiceAccountOrderByWithRelationInput
   versions?: Prisma.WorkerVersionOrderByRelationAggregateInput
+  operationRequests?: Prisma.WorkerOperationRequestOrderByRelationAggregateInput
 }
 
 export type WorkerWhereUniqueInput = Prisma.AtLeast<{
@@ -208,6 +210,7 @@ export type WorkerWhereUniqueInput = Prisma.AtLeast<{
   createdAt?: Prisma.DateTimeFilter<"Worker"> | Date | string
   serviceAccount?: Prisma.XOR<Prisma.ServiceAccountScalarRelationFilter, Prisma.ServiceAccountWhereInput>
   versions?: Prisma.WorkerVersionListRelationFilter
+  operationRequests?: Prisma.WorkerOperationRequestListRelationFilter
 }, "id" | "identity" | "serviceAccountId">
 
 export type WorkerOrderByWithAggregationInput = {
@@ -236,6 +239,7 @@ export type WorkerCreateInput = {
   createdAt?: Date | string
   serviceAccount: Prisma.ServiceAccountCreateNestedOneWithoutWorkersInput
   versions?: Prisma.WorkerVersionCreateNestedManyWithoutWorkerInput
+  operationRequests?: Prisma.WorkerOperationRequestCreateNestedManyWithoutWorkerInput
 }
 
 export type WorkerUncheckedCreateInput = {
@@ -244,6 +248,7 @@ export type WorkerUncheckedCreateInput = {
   serviceAccountId: string
   createdAt?: Date | string
   versions?: Prisma.WorkerVersionUncheckedCreateNestedManyWithoutWorkerInput
+  operationRequests?: Prisma.WorkerOperationRequestUncheckedCreateNestedManyWithoutWorkerInput
 }
 
 export type WorkerUpdateInput = {
@@ -252,6 +257,7 @@ export type WorkerUpdateInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   serviceAccount?: Prisma.ServiceAccountUpdateOneRequiredWithoutWorkersNestedInput
   versions?: Prisma.WorkerVersionUpdateManyWithoutWorkerNestedInput
+  operationRequests?: Prisma.WorkerOperationRequestUpdateManyWithoutWorkerNestedInput
 }
 
 export type WorkerUncheckedUpdateInput = {
@@ -260,6 +266,7 @@ export type WorkerUncheckedUpdateInput = {
   serviceAccountId?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   versions?: Prisma.WorkerVersionUncheckedUpdateManyWithoutWorkerNestedInput
+  operationRequests?: Prisma.WorkerOperationRequestUncheckedUpdateManyWithoutWorkerNestedInput
 }
 
 export type WorkerCreateManyInput = {
@@ -360,6 +367,20 @@ export type WorkerUncheckedUpdateManyWithoutServiceAccountNestedInput = {
   deleteMany?: Prisma.WorkerScalarWhereInput | Prisma.WorkerScalarWhereInput[]
 }
 
+export type WorkerCreateNestedOneWithoutOperationRequestsInput = {
+  create?: Prisma.XOR<Prisma.WorkerCreateWithoutOperationRequestsInput, Prisma.WorkerUncheckedCreateWithoutOperationRequestsInput>
+  connectOrCreate?: Prisma.WorkerCreateOrConnectWithoutOperationRequestsInput
+  connect?: Prisma.WorkerWhereUniqueInput
+}
+
+export type WorkerUpdateOneRequiredWithoutOperationRequestsNestedInput = {
+  create?: Prisma.XOR<Prisma.WorkerCreateWithoutOperationRequestsInput, Prisma.WorkerUncheckedCreateWithoutOperationRequestsInput>
+  connectOrCreate?: Prisma.WorkerCreateOrConnectWithoutOperationRequestsInput
+  upsert?: Prisma.WorkerUpsertWithoutOperationRequestsInput
+  connect?: Prisma.WorkerWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.WorkerUpdateToOneWithWhereWithoutOperationRequestsInput, Prisma.WorkerUpdateWithoutOperationRequestsInput>, Prisma.WorkerUncheckedUpdateWithoutOperationRequestsInput>
+}
+
 export type WorkerCreateNestedOneWithoutVersionsInput = {
   create?: Prisma.XOR<Prisma.WorkerCreateWithoutVersionsInput, Prisma.WorkerUncheckedCreateWithoutVersionsInput>
   connectOrCreate?: Prisma.WorkerCreateOrConnectWithoutVersionsInput
@@ -379,6 +400,7 @@ export type WorkerCreateWithoutServiceAccountInput = {
   identity: string
   createdAt?: Date | string
   versions?: Prisma.WorkerVersionCreateNestedManyWithoutWorkerInput
+  operationRequests?: Prisma.WorkerOperationRequestCreateNestedManyWithoutWorkerInput
 }
 
 export type WorkerUncheckedCreateWithoutServiceAccountInput = {
@@ -386,6 +408,7 @@ export type WorkerUncheckedCreateWithoutServiceAccountInput = {
   identity: string
   createdAt?: Date | string
   versions?: Prisma.WorkerVersionUncheckedCreateNestedManyWithoutWorkerInput
+  operationRequests?: Prisma.WorkerOperationRequestUncheckedCreateNestedManyWithoutWorkerInput
 }
 
 export type WorkerCreateOrConnectWithoutServiceAccountInput = {
@@ -423,11 +446,60 @@ export type WorkerScalarWhereInput = {
   createdAt?: Prisma.DateTimeFilter<"Worker"> | Date | string
 }
 
+export type WorkerCreateWithoutOperationRequestsInput = {
+  id?: string
+  identity: string
+  createdAt?: Date | string
+  serviceAccount: Prisma.ServiceAccountCreateNestedOneWithoutWorkersInput
+  versions?: Prisma.WorkerVersionCreateNestedManyWithoutWorkerInput
+}
+
+export type WorkerUncheckedCreateWithoutOperationRequestsInput = {
+  id?: string
+  identity: string
+  serviceAccountId: string
+  createdAt?: Date | string
+  versions?: Prisma.WorkerVersionUncheckedCreateNestedManyWithoutWorkerInput
+}
+
+export type WorkerCreateOrConnectWithoutOperationRequestsInput = {
+  where: Prisma.WorkerWhereUniqueInput
+  create: Prisma.XOR<Prisma.WorkerCreateWithoutOperationRequestsInput, Prisma.WorkerUncheckedCreateWithoutOperationRequestsInput>
+}
+
+export type WorkerUpsertWithoutOperationRequestsInput = {
+  update: Prisma.XOR<Prisma.WorkerUpdateWithoutOperationRequestsInput, Prisma.WorkerUncheckedUpdateWithoutOperationRequestsInput>
+  create: Prisma.XOR<Prisma.WorkerCreateWithoutOperationRequestsInput, Prisma.WorkerUncheckedCreateWithoutOperationRequestsInput>
+  where?: Prisma.WorkerWhereInput
+}
+
+export type WorkerUpdateToOneWithWhereWithoutOperationRequestsInput = {
+  where?: Prisma.WorkerWhereInput
+  data: Prisma.XOR<Prisma.WorkerUpdateWithoutOperationRequestsInput, Prisma.WorkerUncheckedUpdateWithoutOperationRequestsInput>
+}
+
+export type WorkerUpdateWithoutOperationRequestsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  identity?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  serviceAccount?: Prisma.ServiceAccountUpdateOneRequiredWithoutWorkersNestedInput
+  versions?: Prisma.WorkerVersionUpdateManyWithoutWorkerNestedInput
+}
+
+export type WorkerUncheckedUpdateWithoutOperationRequestsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  identity?: Prisma.StringFieldUpdateOperationsInput | string
+  serviceAccountId?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  versions?: Prisma.WorkerVersionUncheckedUpdateManyWithoutWorkerNestedInput
+}
+
 export type WorkerCreateWithoutVersionsInput = {
   id?: string
   identity: string
   createdAt?: Date | string
   serviceAccount: Prisma.ServiceAccountCreateNestedOneWithoutWorkersInput
+  operationRequests?: Prisma.WorkerOperationRequestCreateNestedManyWithoutWorkerInput
 }
 
 export type WorkerUncheckedCreateWithoutVersionsInput = {
@@ -435,6 +507,7 @@ export type WorkerUncheckedCreateWithoutVersionsInput = {
   identity: string
   serviceAccountId: string
   createdAt?: Date | string
+  operationRequests?: Prisma.WorkerOperationRequestUncheckedCreateNestedManyWithoutWorkerInput
 }
 
 export type WorkerCreateOrConnectWithoutVersionsInput = {
@@ -458,6 +531,7 @@ export type WorkerUpdateWithoutVersionsInput = {
   identity?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   serviceAccount?: Prisma.ServiceAccountUpdateOneRequiredWithoutWorkersNestedInput
+  operationRequests?: Prisma.WorkerOperationRequestUpdateManyWithoutWorkerNestedInput
 }
 
 export type WorkerUncheckedUpdateWithoutVersionsInput = {
@@ -465,6 +539,7 @@ export type WorkerUncheckedUpdateWithoutVersionsInput = {
   identity?: Prisma.StringFieldUpdateOperationsInput | string
   serviceAccountId?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  operationRequests?: Prisma.WorkerOperationRequestUncheckedUpdateManyWithoutWorkerNestedInput
 }
 
 export type WorkerCreateManyServiceAccountInput = {
@@ -478,6 +553,7 @@ export type WorkerUpdateWithoutServiceAccountInput = {
   identity?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   versions?: Prisma.WorkerVersionUpdateManyWithoutWorkerNestedInput
+  operationRequests?: Prisma.WorkerOperationRequestUpdateManyWithoutWorkerNestedInput
 }
 
 export type WorkerUncheckedUpdateWithoutServiceAccountInput = {
@@ -485,6 +561,7 @@ export type WorkerUncheckedUpdateWithoutServiceAccountInput = {
   identity?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   versions?: Prisma.WorkerVersionUncheckedUpdateManyWithoutWorkerNestedInput
+  operationRequests?: Prisma.WorkerOperationRequestUncheckedUpdateManyWithoutWorkerNestedInput
 }
 
 export type WorkerUncheckedUpdateManyWithoutServiceAccountInput = {
@@ -500,10 +577,12 @@ export type WorkerUncheckedUpdateManyWithoutServiceAccountInput = {
 
 export type WorkerCountOutputType = {
   versions: number
+  operationRequests: number
 }
 
 export type WorkerCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   versions?: boolean | WorkerCountOutputTypeCountVersionsArgs
+  operationRequests?: boolean | WorkerCountOutputTypeCountOperationRequestsArgs
 }
 
 /**
@@ -523,6 +602,13 @@ export type WorkerCountOutputTypeCountVersionsArgs<ExtArgs extends runtime.Types
   where?: Prisma.WorkerVersionWhereInput
 }
 
+/**
+ * WorkerCountOutputType without action
+ */
+export type WorkerCountOutputTypeCountOperationRequestsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.WorkerOperationRequestWhereInput
+}
+
 
 export type WorkerSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -531,6 +617,7 @@ export type WorkerSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs =
   createdAt?: boolean
   serviceAccount?: boolean | Prisma.ServiceAccountDefaultArgs<ExtArgs>
   versions?: boolean | Prisma.Worker$versionsArgs<ExtArgs>
+  operationRequests?: boolean | Prisma.Worker$operationRequestsArgs<ExtArgs>
   _count?: boolean | Prisma.WorkerCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["worker"]>
 
@@ -561,6 +648,7 @@ export type WorkerOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = r
 export type WorkerInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   serviceAccount?: boolean | Prisma.ServiceAccountDefaultArgs<ExtArgs>
   versions?: boolean | Prisma.Worker$versionsArgs<ExtArgs>
+  operationRequests?: boolean | Prisma.Worker$operationRequestsArgs<ExtArgs>
   _count?: boolean | Prisma.WorkerCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type WorkerIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
@@ -581,6 +669,10 @@ export type $WorkerPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs
      * The versions of this worker.
      */
     versions: Prisma.$WorkerVersionPayload<ExtArgs>[]
+    /**
+     * The operation requests made by this worker.
+     */
+    operationRequests: Prisma.$WorkerOperationRequestPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     /**
@@ -1000,6 +1092,7 @@ export interface Prisma__WorkerClient<T, Null = never, ExtArgs extends runtime.T
   readonly [Symbol.toStringTag]: "PrismaPromise"
   serviceAccount<T extends Prisma.ServiceAccountDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ServiceAccountDefaultArgs<ExtArgs>>): Prisma.Prisma__ServiceAccountClient<runtime.Types.Result.GetResult<Prisma.$ServiceAccountPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
   versions<T extends Prisma.Worker$versionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Worker$versionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WorkerVersionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  operationRequests<T extends Prisma.Worker$operationRequestsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Worker$operationRequestsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WorkerOperationRequestPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1450,6 +1543,30 @@ export type Worker$versionsArgs<ExtArgs extends runtime.Types.Extensions.Interna
   distinct?: Prisma.WorkerVersionScalarFieldEnum | Prisma.WorkerVersionScalarFieldEnum[]
 }
 
+/**
+ * Worker.operationRequests
+ */
+export type Worker$operationRequestsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WorkerOperationRequest
+   */
+  select?: Prisma.WorkerOperationRequestSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WorkerOperationRequest
+   */
+  omit?: Prisma.WorkerOperationRequestOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WorkerOperationRequestInclude<ExtArgs> | null
+  where?: Prisma.WorkerOperationRequestWhereInput
+  orderBy?: Prisma.WorkerOperationRequestOrderByWithRelationInput | Prisma.WorkerOperationRequestOrderByWithRelationInput[]
+  cursor?: Prisma.WorkerOperationRequestWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.WorkerOperationRequestScalarFieldEnum | Prisma.WorkerOperationRequestScalarFieldEnum[]
+}
+
 /**
  * Worker without action
  */
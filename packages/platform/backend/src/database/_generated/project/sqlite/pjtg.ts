@@ -0,0 +1,183 @@
+import * as Prisma from './internal/prismaNamespace.ts';
+declare global {
+  namespace PrismaJson {
+    // This namespace will always be empty. Definitions should be done by
+    // you manually, and merged automatically by typescript. Make sure that
+    // your declaration merging file is included in your tsconfig.json
+    //
+    // Learn more: https://github.com/arthurfiorette/prisma-json-types-generator/issues/143
+    // Declaration Merging: https://www.typescriptlang.org/docs/handbook/declaration-merging.html
+  }
+}
+
+/** A filter to be used against nullable List types. */
+export type NullableListFilter<T> = {
+  equals?: T | T[] | null;
+  has?: T | null;
+  hasEvery?: T[];
+  hasSome?: T[];
+  isEmpty?: boolean;
+};
+
+/** A type to determine how to update a json field */
+export type UpdateInput<T> = T extends object ? { [P in keyof T]?: UpdateInput<T[P]> } : T;
+
+/** A type to determine how to update a json[] field */
+export type UpdateManyInput<T> = T | T[] | { set?: T[]; push?: T | T[] };
+
+/** A type to determine how to create a json[] input */
+export type CreateManyInput<T> = T | T[] | { set?: T[] };
+
+/**
+ * A typed version of NestedStringFilter, allowing narrowing of string types to
+ * discriminated unions.
+ */
+export type TypedNestedStringFilter<S extends string> =
+  //@ts-ignore - When Prisma.StringFilter is not present, this type is not used
+  Prisma.StringFilter & {
+    equals?: S;
+    in?: S[];
+    notIn?: S[];
+    not?: TypedNestedStringFilter<S> | S;
+  };
+
+/**
+ * A typed version of StringFilter, allowing narrowing of string types to discriminated
+ * unions.
+ */
+export type TypedStringFilter<S extends string> =
+  //@ts-ignore - When Prisma.StringFilter is not present, this type is not used
+  Prisma.StringFilter & {
+    equals?: S;
+    in?: S[];
+    notIn?: S[];
+    not?: TypedNestedStringFilter<S> | S;
+  };
+
+/**
+ * A typed version of NestedStringNullableFilter, allowing narrowing of string types to
+ * discriminated unions.
+ */
+export type TypedNestedStringNullableFilter<S extends string> =
+  //@ts-ignore - When Prisma.StringNullableFilter is not present, this type is not used
+  Prisma.StringNullableFilter & {
+    equals?: S | null;
+    in?: S[] | null;
+    notIn?: S[] | null;
+    not?: TypedNestedStringNullableFilter<S> | S | null;
+  };
+
+/**
+ * A typed version of StringNullableFilter, allowing narrowing of string types to
+ * discriminated unions.
+ */
+export type TypedStringNullableFilter<S extends string> =
+  //@ts-ignore - When Prisma.StringNullableFilter is not present, this type is not used
+  Prisma.StringNullableFilter & {
+    equals?: S | null;
+    in?: S[] | null;
+    notIn?: S[] | null;
+    not?: TypedNestedStringNullableFilter<S> | S | null;
+  };
+
+/**
+ * A typed version of NestedStringWithAggregatesFilter, allowing narrowing of string types
+ * to discriminated unions.
+ */
+export type TypedNestedStringWithAggregatesFilter<S extends string> =
+  //@ts-ignore - When Prisma.NestedStringWithAggregatesFilter is not present, this type is not used
+  Prisma.NestedStringWithAggregatesFilter & {
+    equals?: S;
+    in?: S[];
+    notIn?: S[];
+    not?: TypedNestedStringWithAggregatesFilter<S> | S;
+  };
+
+/**
+ * A typed version of StringWithAggregatesFilter, allowing narrowing of string types to
+ * discriminated unions.
+ */
+export type TypedStringWithAggregatesFilter<S extends string> =
+  //@ts-ignore - When Prisma.StringWithAggregatesFilter is not present, this type is not used
+  Prisma.StringWithAggregatesFilter & {
+    equals?: S;
+    in?: S[];
+    notIn?: S[];
+    not?: TypedNestedStringWithAggregatesFilter<S> | S;
+  };
+
+/**
+ * A typed version of NestedStringNullableWithAggregatesFilter, allowing narrowing of
+ * string types to discriminated unions.
+ */
+export type TypedNestedStringNullableWithAggregatesFilter<S extends string> =
+  //@ts-ignore - When Prisma.NestedStringNullableWithAggregatesFilter is not present, this type is not used
+  Prisma.NestedStringNullableWithAggregatesFilter & {
+    equals?: S | null;
+    in?: S[] | null;
+    notIn?: S[] | null;
+    not?: TypedNestedStringNullableWithAggregatesFilter<S> | S | null;
+  };
+
+/**
+ * A typed version of StringNullableWithAggregatesFilter, allowing narrowing of string
+ * types to discriminated unions.
+ */
+export type TypedStringNullableWithAggregatesFilter<S extends string> =
+  //@ts-ignore - When Prisma.StringNullableWithAggregatesFilter is not present, this type is not used
+  Prisma.StringNullableWithAggregatesFilter & {
+    equals?: S | null;
+    in?: S[] | null;
+    notIn?: S[] | null;
+    not?: TypedNestedStringNullableWithAggregatesFilter<S> | S | null;
+  };
+
+/**
+ * A typed version of StringFieldUpdateOperationsInput, allowing narrowing of string types
+ * to discriminated unions.
+ */
+export type TypedStringFieldUpdateOperationsInput<S extends string> =
+  //@ts-ignore - When Prisma.StringFieldUpdateOperationsInput is not present, this type is not used
+  Prisma.StringFieldUpdateOperationsInput & {
+    set?: S;
+  };
+
+/**
+ * A typed version of NullableStringFieldUpdateOperationsInput, allowing narrowing of
+ * string types to discriminated unions.
+ */
+export type TypedNullableStringFieldUpdateOperationsInput<S extends string> =
+  //@ts-ignore - When Prisma.NullableStringFieldUpdateOperationsInput is not present, this type is not used
+  Prisma.NullableStringFieldUpdateOperationsInput & {
+    set?: S | null;
+  };
+
+/**
+ * A typed version of StringNullableListFilter, allowing narrowing of string types to
+ * discriminated unions.
+ */
+export type TypedStringNullableListFilter<S extends string> =
+  //@ts-ignore - When Prisma.StringNullableListFilter is not present, this type is not used
+  Prisma.StringNullableListFilter & {
+    equals?: S[] | null;
+    has?: S | null;
+    hasEvery?: S[];
+    hasSome?: S[];
+  };
+
+/**
+ * A typed version of the input type to update a string[] field, allowing narrowing of
+ * string types to discriminated unions.
+ */
+export type UpdateStringArrayInput<S extends string> = {
+  set?: S[];
+  push?: S | S[];
+};
+
+/**
+ * A typed version of the input type to create a string[] field, allowing narrowing of
+ * string types to discriminated unions.
+ */
+export type CreateStringArrayInput<S extends string> = {
+  set?: S[];
+};
\ No newline at end of file
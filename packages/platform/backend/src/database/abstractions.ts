@@ -1,3 +1,4 @@
+import type { MigrationPack } from "./migration"
 import type { BackendDatabase, ProjectDatabase } from "./prisma"
 
 /**
@@ -23,6 +24,11 @@ export interface BackendDatabaseBackend {
 }
 
 export interface ProjectDatabaseBackend {
+  /**
+   * The migration pack matching the provider of the project databases.
+   */
+  readonly migrationPack: MigrationPack
+
   /**
    * Opens the database for the project with the given ID.
    *
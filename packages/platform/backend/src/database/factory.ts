@@ -7,11 +7,19 @@ import {
   localBackendDatabaseConfig,
 } from "./local"
 import { databaseManagerConfig } from "./manager"
+import {
+  createPostgresqlBackendDatabaseBackend,
+  PostgresqlProjectDatabaseBackend,
+  postgresqlBackendDatabaseConfig,
+  postgresqlProjectDatabaseConfig,
+} from "./postgresql"
 
 export const databaseConfig = z.object({
-  HIGHSTATE_BACKEND_DATABASE_TYPE: z.enum(["local"]).default("local"),
-  HIGHSTATE_PROJECT_DATABASE_TYPE: z.enum(["local"]).default("local"),
+  HIGHSTATE_BACKEND_DATABASE_TYPE: z.enum(["local", "postgresql"]).default("local"),
+  HIGHSTATE_PROJECT_DATABASE_TYPE: z.enum(["local", "postgresql"]).default("local"),
   ...localBackendDatabaseConfig.shape,
+  ...postgresqlBackendDatabaseConfig.shape,
+  ...postgresqlProjectDatabaseConfig.shape,
   ...databaseManagerConfig.shape,
 })
 
@@ -22,6 +30,8 @@ export function createBackendDatabaseBackend(
   switch (config.HIGHSTATE_BACKEND_DATABASE_TYPE) {
     case "local":
       return createLocalBackendDatabaseBackend(config, logger)
+    case "postgresql":
+      return createPostgresqlBackendDatabaseBackend(config, logger)
   }
 }
 
@@ -32,5 +42,7 @@ export function createProjectDatabaseBackend(
   switch (config.HIGHSTATE_PROJECT_DATABASE_TYPE) {
     case "local":
       return LocalProjectDatabaseBackend.create(config, logger)
+    case "postgresql":
+      return Promise.resolve(PostgresqlProjectDatabaseBackend.create(config, logger))
   }
 }
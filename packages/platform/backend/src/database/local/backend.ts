@@ -1,20 +1,19 @@
 import type { Logger } from "pino"
 import type { BackendDatabaseBackend } from "../abstractions"
 import type { BackendDatabase } from "../prisma"
-import { randomBytes } from "node:crypto"
-import { hostname } from "node:os"
 import { PrismaLibSql } from "@prisma/adapter-libsql"
-import { armor, Decrypter, Encrypter, identityToRecipient } from "age-encryption"
 import { z } from "zod"
 import { codebaseConfig, getCodebaseHighstatePath } from "../../common"
 import { PrismaClient } from "../_generated/backend/sqlite/client"
+import {
+  createMasterKey,
+  decryptMasterKey,
+  ensureInitialUnlockMethod,
+  reencryptMasterKey,
+} from "../master-key"
 import { migrateDatabase, migrationPacks } from "../migration"
 import { ensureWellKnownEntitiesCreated } from "../well-known"
-import {
-  type BackendIdentityConfig,
-  backendIdentityConfig,
-  getOrCreateBackendIdentity,
-} from "./keyring"
+import { type BackendIdentityConfig, backendIdentityConfig } from "./keyring"
 import { type DatabaseMetaFile, readMetaFile, writeMetaFile } from "./meta"
 
 export const localBackendDatabaseConfig = z.object({
@@ -55,44 +54,12 @@ class LocalBackendDatabaseBackend implements BackendDatabaseBackend {
       return
     }
 
-    const identity = await getOrCreateBackendIdentity(this.config, this.logger)
-    const decrypter = new Decrypter()
-    decrypter.addIdentity(identity)
-
-    const plaintextMasterKey = await decrypter.decrypt(armor.decode(meta.masterKey), "text")
-
-    const encrypter = new Encrypter()
-    const allowedRecipients = new Set<string>(recipients)
-    allowedRecipients.add(await identityToRecipient(identity))
-
-    for (const recipient of allowedRecipients) {
-      encrypter.addRecipient(recipient)
-    }
-
-    const encrypted = await encrypter.encrypt(plaintextMasterKey)
+    const masterKey = await reencryptMasterKey(meta.masterKey, recipients, this.config, this.logger)
 
-    await writeMetaFile(this.databasePath, {
-      ...meta,
-      masterKey: armor.encode(encrypted),
-    })
+    await writeMetaFile(this.databasePath, { ...meta, masterKey })
   }
 }
 
-async function createMasterKey(config: BackendIdentityConfig, logger: Logger) {
-  const identity = await getOrCreateBackendIdentity(config, logger)
-
-  const masterKey = randomBytes(32).toString("hex")
-  const encrypter = new Encrypter()
-
-  const recipient = await identityToRecipient(identity)
-  encrypter.addRecipient(recipient)
-
-  const encryptedMasterKey = await encrypter.encrypt(masterKey)
-  const armoredMasterKey = armor.encode(encryptedMasterKey)
-
-  return { armoredMasterKey, masterKey, recipient }
-}
-
 type DatabaseInitializationResult = {
   masterKey?: string
   metaFile: DatabaseMetaFile
@@ -140,13 +107,7 @@ async function ensureDatabaseInitialized(
     )
   }
 
-  const identity = await getOrCreateBackendIdentity(config, logger)
-
-  const decrypter = new Decrypter()
-  decrypter.addIdentity(identity)
-
-  const encryptedMasterKey = armor.decode(meta.masterKey)
-  const masterKey = await decrypter.decrypt(encryptedMasterKey, "text")
+  const masterKey = await decryptMasterKey(meta.masterKey, config, logger)
 
   return {
     masterKey,
@@ -215,50 +176,3 @@ export async function createLocalBackendDatabaseBackend(
     config.HIGHSTATE_ENCRYPTION_ENABLED,
   )
 }
-
-/**
- * Derives the meta payload for the auto-generated backend unlock method.
- *
- * @param host Raw host name captured during backend initialization.
- */
-export function getInitialBackendUnlockMethodMeta(host: string | undefined): {
-  title: string
-  description: string
-} {
-  const trimmed = host?.trim() ?? ""
-  const title = trimmed.length > 0 ? trimmed : "initial"
-  const description =
-    trimmed.length > 0
-      ? `Identity automatically registered for ${trimmed} when this backend database was created.`
-      : "Identity automatically registered when this backend database was created."
-
-  return { title, description }
-}
-
-/**
- * Registers the machine that initialized the backend as the first unlock method.
- */
-async function ensureInitialUnlockMethod(
-  database: BackendDatabase,
-  created: boolean,
-  initialRecipient: string | undefined,
-  logger: Logger,
-): Promise<void> {
-  if (!created || !initialRecipient) {
-    return
-  }
-
-  const meta = getInitialBackendUnlockMethodMeta(hostname())
-
-  await database.backendUnlockMethod.create({
-    data: {
-      recipient: initialRecipient,
-      meta,
-    },
-  })
-
-  logger.info(
-    { title: meta.title, recipient: initialRecipient },
-    "registered initial backend unlock method",
-  )
-}
@@ -4,9 +4,12 @@ import type { ProjectDatabaseBackend } from "../abstractions"
 import { mkdir } from "node:fs/promises"
 import { PrismaLibSql } from "@prisma/adapter-libsql"
 import { type codebaseConfig, getCodebaseHighstatePath } from "../../common"
+import { migrationPacks } from "../migration"
 import { ProjectDatabase } from "../prisma"
 
 export class LocalProjectDatabaseBackend implements ProjectDatabaseBackend {
+  readonly migrationPack = migrationPacks["project/sqlite"]
+
   constructor(private readonly highstatePath: string) {}
 
   async openProjectDatabase(projectId: string, masterKey?: string): Promise<ProjectDatabase> {
@@ -6,7 +6,7 @@ import { LRUCache } from "lru-cache"
 import z from "zod"
 import { createProjectLogger } from "../common"
 import { ProjectLockedError, ProjectNotFoundError } from "../shared"
-import { migrateDatabase, migrationPacks } from "./migration"
+import { migrateDatabase } from "./migration"
 
 export const databaseManagerConfig = z.object({
   HIGHSTATE_ENCRYPTION_ENABLED: z.stringbool().default(true),
@@ -65,7 +65,7 @@ export interface DatabaseManager {
   forProject(projectId: string): Promise<ProjectDatabase>
 }
 
-export class DatabaseManagerImpl implements DatabaseManager {
+export class DatabaseManagerImpl implements DatabaseManager, AsyncDisposable {
   constructor(
     private readonly backendBackend: BackendDatabaseBackend,
     private readonly projectUnlockBackend: ProjectUnlockBackend,
@@ -78,6 +78,15 @@ export class DatabaseManagerImpl implements DatabaseManager {
     return this.backendBackend.database
   }
 
+  async [Symbol.asyncDispose](): Promise<void> {
+    await Promise.all(Array.from(this.projectDatabases.values()).map(db => db.$disconnect()))
+    this.projectDatabases.clear()
+
+    if (Symbol.asyncDispose in this.projectDatabaseBackend) {
+      await (this.projectDatabaseBackend as AsyncDisposable)[Symbol.asyncDispose]()
+    }
+  }
+
   // store the master keys in memory cache for 30 seconds
   private readonly projectMasterKeys = new LRUCache<string, Buffer>({
     ttl: 30_000,
@@ -133,7 +142,7 @@ export class DatabaseManagerImpl implements DatabaseManager {
     // can safely apply migrations here, because no one knows about the database yet
     await migrateDatabase(
       database,
-      migrationPacks.project,
+      this.projectDatabaseBackend.migrationPack,
       0, // current version
       () => Promise.resolve(), // project will be created later
       logger,
@@ -172,7 +181,7 @@ export class DatabaseManagerImpl implements DatabaseManager {
 
       await migrateDatabase(
         database,
-        migrationPacks.project,
+        this.projectDatabaseBackend.migrationPack,
         project.databaseVersion,
         async version => {
           await tx.project.update({
@@ -0,0 +1,135 @@
+import type { Logger } from "pino"
+import type { BackendDatabase } from "./prisma"
+import { randomBytes } from "node:crypto"
+import { hostname } from "node:os"
+import { armor, Decrypter, Encrypter, identityToRecipient } from "age-encryption"
+import { type BackendIdentityConfig, getOrCreateBackendIdentity } from "./local/keyring"
+
+/**
+ * Generates a new backend master key and encrypts it for the backend identity.
+ *
+ * @param config The configuration used to resolve the backend identity.
+ * @param logger Logger scoped to backend startup.
+ * @returns The plaintext master key, its armored encrypted form and the recipient of the backend identity.
+ */
+export async function createMasterKey(
+  config: BackendIdentityConfig,
+  logger: Logger,
+): Promise<{ armoredMasterKey: string; masterKey: string; recipient: string }> {
+  const identity = await getOrCreateBackendIdentity(config, logger)
+
+  const masterKey = randomBytes(32).toString("hex")
+  const encrypter = new Encrypter()
+
+  const recipient = await identityToRecipient(identity)
+  encrypter.addRecipient(recipient)
+
+  const encryptedMasterKey = await encrypter.encrypt(masterKey)
+  const armoredMasterKey = armor.encode(encryptedMasterKey)
+
+  return { armoredMasterKey, masterKey, recipient }
+}
+
+/**
+ * Decrypts the armored backend master key using the backend identity.
+ *
+ * @param armoredMasterKey The master key encrypted in AGE format and armored.
+ * @param config The configuration used to resolve the backend identity.
+ * @param logger Logger scoped to backend startup.
+ * @returns The plaintext master key.
+ */
+export async function decryptMasterKey(
+  armoredMasterKey: string,
+  config: BackendIdentityConfig,
+  logger: Logger,
+): Promise<string> {
+  const identity = await getOrCreateBackendIdentity(config, logger)
+
+  const decrypter = new Decrypter()
+  decrypter.addIdentity(identity)
+
+  return await decrypter.decrypt(armor.decode(armoredMasterKey), "text")
+}
+
+/**
+ * Re-encrypts the armored backend master key for the provided recipients.
+ *
+ * The recipient of the backend identity always retains access to the master key.
+ *
+ * @param armoredMasterKey The currently stored armored master key.
+ * @param recipients AGE recipients that should retain access to the backend master key.
+ * @param config The configuration used to resolve the backend identity.
+ * @param logger Logger scoped to the database backend.
+ * @returns The master key armored for the new set of recipients.
+ */
+export async function reencryptMasterKey(
+  armoredMasterKey: string,
+  recipients: string[],
+  config: BackendIdentityConfig,
+  logger: Logger,
+): Promise<string> {
+  const identity = await getOrCreateBackendIdentity(config, logger)
+  const decrypter = new Decrypter()
+  decrypter.addIdentity(identity)
+
+  const plaintextMasterKey = await decrypter.decrypt(armor.decode(armoredMasterKey), "text")
+
+  const encrypter = new Encrypter()
+  const allowedRecipients = new Set<string>(recipients)
+  allowedRecipients.add(await identityToRecipient(identity))
+
+  for (const recipient of allowedRecipients) {
+    encrypter.addRecipient(recipient)
+  }
+
+  const encrypted = await encrypter.encrypt(plaintextMasterKey)
+
+  return armor.encode(encrypted)
+}
+
+/**
+ * Derives the meta payload for the auto-generated backend unlock method.
+ *
+ * @param host Raw host name captured during backend initialization.
+ */
+export function getInitialBackendUnlockMethodMeta(host: string | undefined): {
+  title: string
+  description: string
+} {
+  const trimmed = host?.trim() ?? ""
+  const title = trimmed.length > 0 ? trimmed : "initial"
+  const description =
+    trimmed.length > 0
+      ? `Identity automatically registered for ${trimmed} when this backend database was created.`
+      : "Identity automatically registered when this backend database was created."
+
+  return { title, description }
+}
+
+/**
+ * Registers the machine that initialized the backend as the first unlock method.
+ */
+export async function ensureInitialUnlockMethod(
+  database: BackendDatabase,
+  created: boolean,
+  initialRecipient: string | undefined,
+  logger: Logger,
+): Promise<void> {
+  if (!created || !initialRecipient) {
+    return
+  }
+
+  const meta = getInitialBackendUnlockMethodMeta(hostname())
+
+  await database.backendUnlockMethod.create({
+    data: {
+      recipient: initialRecipient,
+      meta,
+    },
+  })
+
+  logger.info(
+    { title: meta.title, recipient: initialRecipient },
+    "registered initial backend unlock method",
+  )
+}
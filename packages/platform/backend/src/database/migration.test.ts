@@ -0,0 +1,24 @@
+import { readdir } from "node:fs/promises"
+import { resolve } from "node:path"
+import { describe, expect, it } from "vitest"
+import { migrationPacks } from "./migration"
+
+const prismaPath = resolve(import.meta.dirname, "../../prisma")
+
+describe("migrationPacks", () => {
+  it.each(Object.entries(migrationPacks))(
+    "lists all migrations of the %s schema",
+    async (_, { schemaPath, migrationNames }) => {
+      const entries = await readdir(resolve(prismaPath, schemaPath, "migrations"), {
+        withFileTypes: true,
+      })
+
+      const migrationDirs = entries
+        .filter(entry => entry.isDirectory())
+        .map(entry => entry.name)
+        .sort()
+
+      expect(migrationDirs).toEqual(migrationNames)
+    },
+  )
+})
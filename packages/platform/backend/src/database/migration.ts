@@ -7,7 +7,7 @@ import { BackendError } from "../shared"
 
 export type MigrationClient = {
   $transaction<T>(callback: (tx: unknown) => Promise<T>): Promise<T>
-  $executeRawUnsafe(query: string): Promise<number>
+  $executeRawUnsafe(query: string, ...values: unknown[]): Promise<number>
 }
 
 export type MigrationPack = {
@@ -16,38 +16,67 @@ export type MigrationPack = {
   migrationNames: string[]
 }
 
+// the migrations of all providers must have the same names,
+// so the database version means the same thing regardless of the provider
+const backendMigrationNames = [
+  //
+  "20250928124105_initial_migration",
+  "20260222113554_add_object_tracking",
+  "20260503160615_add_entity_sharing_system",
+  "20261018120000_add_lock_leases",
+  "20261018170000_add_users",
+]
+
+const projectMigrationNames = [
+  //
+  "20250928130725_initial_migration",
+  "20260123000000_add_instance_state_self_hash",
+  "20260301210131_add_entity_tracking",
+  "20260302212734_add_resource_hooks_flag",
+  "20261018120000_add_lock_holders",
+  "20261018130000_add_trigger_schedule",
+  "20261018140000_add_operation_state_resource_changes",
+  "20261018150000_add_service_account_grants",
+  "20261018160000_add_service_account_operation_permission",
+  "20261018170000_add_authorship",
+  "20261018180000_add_operation_approvals",
+  "20261018190000_add_operation_retries",
+  "20261018200000_add_operation_state_secrets",
+  "20261018210000_add_secret_versions",
+  "20261018220000_add_worker_operation_requests",
+]
+
 export const migrationPacks = {
   "backend/sqlite": {
     type: "backend" as const,
     schemaPath: "backend/sqlite",
-    migrationNames: [
-      //
-      "20250928124105_initial_migration",
-      "20260222113554_add_object_tracking",
-      "20260503160615_add_entity_sharing_system",
-    ],
+    migrationNames: backendMigrationNames,
+  },
+  "backend/postgresql": {
+    type: "backend" as const,
+    schemaPath: "backend/postgresql",
+    migrationNames: backendMigrationNames,
+  },
+  "project/sqlite": {
+    type: "project" as const,
+    schemaPath: "project/sqlite",
+    migrationNames: projectMigrationNames,
   },
-  project: {
+  "project/postgresql": {
     type: "project" as const,
-    schemaPath: "project",
-    migrationNames: [
-      //
-      "20250928130725_initial_migration",
-      "20260123000000_add_instance_state_self_hash",
-      "20260301210131_add_entity_tracking",
-      "20260302212734_add_resource_hooks_flag",
-    ],
+    schemaPath: "project/postgresql",
+    migrationNames: projectMigrationNames,
   },
 }
 
-export const backendDatabaseVersion = migrationPacks["backend/sqlite"].migrationNames.length
-export const projectDatabaseVersion = migrationPacks.project.migrationNames.length
+export const backendDatabaseVersion = backendMigrationNames.length
+export const projectDatabaseVersion = projectMigrationNames.length
 
 export async function migrateDatabase(
   client: MigrationClient,
   migrationPack: MigrationPack,
   currentVersion: number,
-  writeVersion: (version: number) => Promise<void>,
+  writeVersion: (version: number, tx: MigrationClient) => Promise<void>,
   logger: Logger,
 ): Promise<void> {
   const { type, schemaPath, migrationNames } = migrationPack
@@ -88,7 +117,7 @@ export async function migrateDatabase(
         await (tx as MigrationClient).$executeRawUnsafe(statement)
       }
 
-      await writeVersion(nextVersion)
+      await writeVersion(nextVersion, tx as MigrationClient)
     })
   }
 
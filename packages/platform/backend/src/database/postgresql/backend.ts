@@ -0,0 +1,194 @@
+import type { Logger } from "pino"
+import type { BackendDatabaseBackend } from "../abstractions"
+import type { BackendDatabase } from "../prisma"
+import { PrismaPg } from "@prisma/adapter-pg"
+import pg from "pg"
+import { z } from "zod"
+import { BackendError } from "../../shared"
+import { PrismaClient } from "../_generated/backend/postgresql/client"
+import { type BackendIdentityConfig, backendIdentityConfig } from "../local/keyring"
+import {
+  createMasterKey,
+  decryptMasterKey,
+  ensureInitialUnlockMethod,
+  reencryptMasterKey,
+} from "../master-key"
+import { migrateDatabase, migrationPacks } from "../migration"
+import { ensureWellKnownEntitiesCreated } from "../well-known"
+import { withAdvisoryLock } from "./shared"
+
+export const postgresqlBackendDatabaseConfig = z.object({
+  HIGHSTATE_BACKEND_DATABASE_POSTGRESQL_URL: z.string().optional(),
+  ...backendIdentityConfig.shape,
+  HIGHSTATE_ENCRYPTION_ENABLED: z.stringbool().default(true),
+})
+
+const metaTableName = "_HighstateBackendMeta"
+const initializationLockKey = "highstate.backend.initialization"
+
+type BackendMeta = {
+  version: number
+  masterKey: string | null
+}
+
+/**
+ * PostgreSQL implementation of the backend database.
+ *
+ * The database meta (the version and the encrypted master key) is stored in the `_HighstateBackendMeta` table
+ * instead of the `backend.meta.yaml` file, so all backends sharing the server see the same master key.
+ *
+ * PostgreSQL does not support transparent encryption of the data, so it is the responsibility of the server
+ * to encrypt it at rest. The master key is still required to be decryptable by the backend identity,
+ * so only backends registered as unlock methods are able to start against the database.
+ */
+class PostgresqlBackendDatabaseBackend implements BackendDatabaseBackend {
+  constructor(
+    readonly database: BackendDatabase,
+    private readonly pool: pg.Pool,
+    private readonly config: BackendIdentityConfig,
+    private readonly logger: Logger,
+    readonly isEncryptionEnabled: boolean,
+  ) {}
+
+  /**
+   * Rewrites the encrypted master key stored in the meta table to match the provided recipients.
+   *
+   * @param recipients AGE recipients that should retain access to the backend master key.
+   */
+  async reencryptMasterKey(recipients: string[]): Promise<void> {
+    if (!this.isEncryptionEnabled) {
+      return
+    }
+
+    const meta = await readMeta(this.pool)
+    if (!meta?.masterKey) {
+      this.logger.warn("backend meta table does not contain a master key; skipping re-encryption")
+      return
+    }
+
+    const masterKey = await reencryptMasterKey(meta.masterKey, recipients, this.config, this.logger)
+
+    await this.pool.query(`UPDATE "${metaTableName}" SET "masterKey" = $1 WHERE "id" = 1`, [
+      masterKey,
+    ])
+  }
+}
+
+async function readMeta(pool: pg.Pool): Promise<BackendMeta | undefined> {
+  const result = await pool.query<BackendMeta>(
+    `SELECT "version", "masterKey" FROM "${metaTableName}" WHERE "id" = 1`,
+  )
+
+  return result.rows[0]
+}
+
+type DatabaseInitializationResult = {
+  meta: BackendMeta
+  created: boolean
+  initialRecipient?: string
+}
+
+async function ensureDatabaseInitialized(
+  pool: pg.Pool,
+  encryptionEnabled: boolean,
+  config: BackendIdentityConfig,
+  logger: Logger,
+): Promise<DatabaseInitializationResult> {
+  await pool.query(
+    `CREATE TABLE IF NOT EXISTS "${metaTableName}" ("id" INTEGER NOT NULL PRIMARY KEY, "version" INTEGER NOT NULL, "masterKey" TEXT)`,
+  )
+
+  const existingMeta = await readMeta(pool)
+
+  if (!existingMeta) {
+    logger.info("creating new database")
+
+    const masterKey = encryptionEnabled ? await createMasterKey(config, logger) : undefined
+    const meta: BackendMeta = { version: 0, masterKey: masterKey?.armoredMasterKey ?? null }
+
+    await pool.query(
+      `INSERT INTO "${metaTableName}" ("id", "version", "masterKey") VALUES (1, $1, $2)`,
+      [meta.version, meta.masterKey],
+    )
+
+    return { meta, created: true, initialRecipient: masterKey?.recipient }
+  }
+
+  if (!encryptionEnabled) {
+    return { meta: existingMeta, created: false }
+  }
+
+  if (!existingMeta.masterKey) {
+    throw new BackendError(
+      `The "${metaTableName}" table of the backend database does not contain a master key.`,
+    )
+  }
+
+  // ensure the backend identity is allowed to access the database
+  await decryptMasterKey(existingMeta.masterKey, config, logger)
+
+  return { meta: existingMeta, created: false }
+}
+
+/**
+ * Creates the PostgreSQL backend database backend with migrations applied.
+ *
+ * @param config Backend database configuration resolved from environment variables.
+ * @param logger Logger scoped to backend startup.
+ * @returns The backend database backend bound to the configured PostgreSQL database.
+ */
+export async function createPostgresqlBackendDatabaseBackend(
+  config: z.infer<typeof postgresqlBackendDatabaseConfig>,
+  logger: Logger,
+): Promise<BackendDatabaseBackend> {
+  const connectionString = config.HIGHSTATE_BACKEND_DATABASE_POSTGRESQL_URL
+  if (!connectionString) {
+    throw new BackendError(
+      `HIGHSTATE_BACKEND_DATABASE_POSTGRESQL_URL must be set when the backend database type is "postgresql".`,
+    )
+  }
+
+  if (!config.HIGHSTATE_ENCRYPTION_ENABLED) {
+    logger.warn("database encryption is disabled, this is not recommended for production use")
+  }
+
+  const pool = new pg.Pool({ connectionString })
+  const prismaClient = new PrismaClient({ adapter: new PrismaPg(pool) })
+  const database = prismaClient as BackendDatabase
+
+  const backendLogger = logger.child({ service: "PostgresqlBackendDatabaseBackend" })
+
+  // the backends sharing the same database must not initialize or migrate it concurrently
+  await withAdvisoryLock(pool, initializationLockKey, async () => {
+    const { meta, created, initialRecipient } = await ensureDatabaseInitialized(
+      pool,
+      config.HIGHSTATE_ENCRYPTION_ENABLED,
+      config,
+      logger,
+    )
+
+    await migrateDatabase(
+      prismaClient,
+      migrationPacks["backend/postgresql"],
+      meta.version,
+      async (version, tx) => {
+        await tx.$executeRawUnsafe(
+          `UPDATE "${metaTableName}" SET "version" = $1 WHERE "id" = 1`,
+          version,
+        )
+      },
+      logger,
+    )
+
+    await ensureWellKnownEntitiesCreated(database)
+    await ensureInitialUnlockMethod(database, created, initialRecipient, backendLogger)
+  })
+
+  return new PostgresqlBackendDatabaseBackend(
+    database,
+    pool,
+    config,
+    backendLogger,
+    config.HIGHSTATE_ENCRYPTION_ENABLED,
+  )
+}
@@ -0,0 +1,158 @@
+import type { Logger } from "pino"
+import type { Prisma as SqlitePrisma } from "../_generated/project/sqlite/client"
+import type { ProjectDatabaseBackend } from "../abstractions"
+import type { ProjectDatabase } from "../prisma"
+import { PrismaPg } from "@prisma/adapter-pg"
+import pg from "pg"
+import { z } from "zod"
+import { BackendError } from "../../shared"
+import { type Prisma, PrismaClient } from "../_generated/project/postgresql/client"
+import { migrationPacks } from "../migration"
+import { isPostgresqlError, quoteIdentifier } from "./shared"
+
+export const postgresqlProjectDatabaseConfig = z.object({
+  HIGHSTATE_BACKEND_DATABASE_POSTGRESQL_URL: z.string().optional(),
+  HIGHSTATE_PROJECT_DATABASE_POSTGRESQL_URL: z.string().optional(),
+  HIGHSTATE_PROJECT_DATABASE_POSTGRESQL_ISOLATION: z.enum(["schema", "database"]).default("schema"),
+  HIGHSTATE_ENCRYPTION_ENABLED: z.stringbool().default(true),
+})
+
+type ModelScalars<TypeMap extends { model: Record<string, { payload: { scalars: unknown } }> }> = {
+  [Model in keyof TypeMap["model"]]: TypeMap["model"][Model]["payload"]["scalars"]
+}
+
+type IsSameType<A, B> = [A] extends [B] ? ([B] extends [A] ? true : false) : false
+
+// fails to compile when the PostgreSQL client is generated from a schema not matching the SQLite one
+const projectClientsInSync: IsSameType<
+  ModelScalars<Prisma.TypeMap>,
+  ModelScalars<SqlitePrisma.TypeMap>
+> = true
+
+/**
+ * Exposes the PostgreSQL project client as the `ProjectDatabase` used by the rest of the backend.
+ *
+ * Both clients are generated from the same schema and their models are checked to be identical above,
+ * so the PostgreSQL client can be used wherever the SQLite one is expected.
+ */
+function toProjectDatabase(client: PrismaClient): ProjectDatabase {
+  void projectClientsInSync
+
+  return client as ProjectDatabase
+}
+
+/**
+ * PostgreSQL implementation of the project databases.
+ *
+ * Depending on the isolation mode, each project gets either its own schema (`project_{projectId}`)
+ * in the configured database or its own database (`highstate_project_{projectId}`) on the same server.
+ *
+ * Unlike the local databases, the project data is not encrypted with the project master key,
+ * so the backend refuses to start with these databases unless the encryption is disabled.
+ */
+export class PostgresqlProjectDatabaseBackend implements ProjectDatabaseBackend, AsyncDisposable {
+  readonly migrationPack = migrationPacks["project/postgresql"]
+
+  constructor(
+    private readonly connectionString: string,
+    private readonly isolation: "schema" | "database",
+    private readonly adminPool: pg.Pool,
+    private readonly logger: Logger,
+  ) {}
+
+  async openProjectDatabase(projectId: string, masterKey?: string): Promise<ProjectDatabase> {
+    if (masterKey) {
+      throw new BackendError(
+        `The PostgreSQL database of the project with ID "${projectId}" cannot be encrypted with the master key.`,
+      )
+    }
+
+    const adapter =
+      this.isolation === "schema"
+        ? await this.createSchemaAdapter(projectId)
+        : await this.createDatabaseAdapter(projectId)
+
+    return toProjectDatabase(new PrismaClient({ adapter }))
+  }
+
+  async [Symbol.asyncDispose](): Promise<void> {
+    await this.adminPool.end()
+  }
+
+  private async createSchemaAdapter(projectId: string): Promise<PrismaPg> {
+    const schema = `project_${projectId}`
+
+    try {
+      await this.adminPool.query(`CREATE SCHEMA IF NOT EXISTS ${quoteIdentifier(schema)}`)
+    } catch (error) {
+      // the schema may be created concurrently by another backend
+      if (!isPostgresqlError(error, "23505", "42P06")) {
+        throw error
+      }
+    }
+
+    this.logger.debug({ projectId, schema }, "using project schema")
+
+    return new PrismaPg(
+      {
+        connectionString: this.connectionString,
+        // unqualified names in raw queries and migrations must also resolve to the project schema
+        options: `-c search_path=${quoteIdentifier(schema)}`,
+      },
+      { schema },
+    )
+  }
+
+  private async createDatabaseAdapter(projectId: string): Promise<PrismaPg> {
+    const databaseName = `highstate_project_${projectId}`
+
+    const result = await this.adminPool.query("SELECT 1 FROM pg_database WHERE datname = $1", [
+      databaseName,
+    ])
+
+    if (result.rowCount === 0) {
+      try {
+        await this.adminPool.query(`CREATE DATABASE ${quoteIdentifier(databaseName)}`)
+        this.logger.info({ projectId, databaseName }, "created project database")
+      } catch (error) {
+        // the database may be created concurrently by another backend
+        if (!isPostgresqlError(error, "23505", "42P04")) {
+          throw error
+        }
+      }
+    }
+
+    const url = new URL(this.connectionString)
+    url.pathname = `/${databaseName}`
+
+    return new PrismaPg({ connectionString: url.toString() })
+  }
+
+  static create(
+    config: z.infer<typeof postgresqlProjectDatabaseConfig>,
+    logger: Logger,
+  ): PostgresqlProjectDatabaseBackend {
+    const connectionString =
+      config.HIGHSTATE_PROJECT_DATABASE_POSTGRESQL_URL ??
+      config.HIGHSTATE_BACKEND_DATABASE_POSTGRESQL_URL
+
+    if (!connectionString) {
+      throw new BackendError(
+        `HIGHSTATE_PROJECT_DATABASE_POSTGRESQL_URL or HIGHSTATE_BACKEND_DATABASE_POSTGRESQL_URL must be set when the project database type is "postgresql".`,
+      )
+    }
+
+    if (config.HIGHSTATE_ENCRYPTION_ENABLED) {
+      throw new BackendError(
+        `The project databases of type "postgresql" do not support encryption, HIGHSTATE_ENCRYPTION_ENABLED must be set to "false" to use them.`,
+      )
+    }
+
+    return new PostgresqlProjectDatabaseBackend(
+      connectionString,
+      config.HIGHSTATE_PROJECT_DATABASE_POSTGRESQL_ISOLATION,
+      new pg.Pool({ connectionString, max: 2 }),
+      logger.child({ service: "PostgresqlProjectDatabaseBackend" }),
+    )
+  }
+}
@@ -0,0 +1,50 @@
+import pg from "pg"
+
+/**
+ * Quotes the given name to be safely used as a PostgreSQL identifier.
+ *
+ * @param name The name of the schema, database or table.
+ */
+export function quoteIdentifier(name: string): string {
+  return `"${name.replaceAll('"', '""')}"`
+}
+
+/**
+ * Checks whether the error is a PostgreSQL error with one of the given codes.
+ *
+ * @param error The error thrown by the `pg` driver.
+ * @param codes The SQLSTATE codes to match.
+ */
+export function isPostgresqlError(error: unknown, ...codes: string[]): boolean {
+  return error instanceof pg.DatabaseError && !!error.code && codes.includes(error.code)
+}
+
+/**
+ * Runs the callback while holding the session-level advisory lock with the given key.
+ *
+ * Used to serialize the initialization and migrations of the databases
+ * when multiple backends are started against the same PostgreSQL server.
+ *
+ * @param pool The pool to take a dedicated connection holding the lock from.
+ * @param key The key of the lock, hashed into the numeric lock ID by PostgreSQL.
+ * @param callback The callback to run while the lock is held.
+ */
+export async function withAdvisoryLock<T>(
+  pool: pg.Pool,
+  key: string,
+  callback: () => Promise<T>,
+): Promise<T> {
+  const client = await pool.connect()
+
+  try {
+    await client.query("SELECT pg_advisory_lock(hashtext($1))", [key])
+
+    try {
+      return await callback()
+    } finally {
+      await client.query("SELECT pg_advisory_unlock(hashtext($1))", [key])
+    }
+  } finally {
+    client.release()
+  }
+}
@@ -1,6 +1,6 @@
 import type * as runtime from "@prisma/client/runtime/client"
 import { PrismaClient as BackendDatabase } from "./_generated/backend/postgresql/client"
-import { PrismaClient as ProjectDatabase } from "./_generated/project/client"
+import { PrismaClient as ProjectDatabase } from "./_generated/project/sqlite/client"
 
 export type BackendTransaction = Omit<BackendDatabase, runtime.ITXClientDenyList>
 export type ProjectTransaction = Omit<ProjectDatabase, runtime.ITXClientDenyList>
@@ -11,6 +11,8 @@ export type {
   Project,
   ProjectSpace,
   PulumiBackend,
+  User,
+  UserSession,
 } from "./_generated/backend/postgresql/client"
 export type {
   ApiKey,
@@ -25,12 +27,15 @@ export type {
   InstanceState,
   InstanceStatus,
   Operation,
+  OperationApproval,
+  OperationApprovalDecision,
   OperationLog,
   OperationStatus,
   OperationType,
   Page,
   Secret,
   ServiceAccount,
+  ServiceAccountGrant,
   Terminal,
   TerminalSession,
   TerminalSessionLog,
@@ -41,7 +46,7 @@ export type {
   WorkerUnitRegistration,
   WorkerVersion,
   WorkerVersionLog,
-} from "./_generated/project/client"
+} from "./_generated/project/sqlite/client"
 export type {
   InstanceEvaluationStateUncheckedCreateInput,
   InstanceEvaluationStateUpdateInput,
@@ -51,7 +56,8 @@ export type {
   InstanceStateInclude,
   InstanceStateUpdateInput,
   OperationUpdateInput,
-} from "./_generated/project/models"
-export { DbNull } from "./_generated/project/internal/prismaNamespace"
+  ServiceAccountCreateInput,
+} from "./_generated/project/sqlite/models"
+export { DbNull } from "./_generated/project/sqlite/internal/prismaNamespace"
 
 export { BackendDatabase, ProjectDatabase }
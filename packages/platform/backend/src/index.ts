@@ -1,7 +1,9 @@
+export * from "./auth"
 export * from "./business"
 export * from "./config"
 export * from "./database"
 export * from "./library"
 export * from "./orchestrator"
 export * from "./services"
+export * from "./share"
 export * from "./terminal"
@@ -1,5 +1,5 @@
 import type { InstanceId, InstanceModel } from "@highstate/contract"
-import type { LibraryModel, LibraryUpdate, ResolvedInstanceInput } from "../shared"
+import type { LibraryModel, LibrarySpec, LibraryUpdate, ResolvedInstanceInput } from "../shared"
 
 export type ResolvedUnitSource = {
   unitType: string
@@ -25,9 +25,14 @@ export type ProjectEvaluationResult =
 
 export interface LibraryBackend {
   /**
-   * The base path for imports.
+   * Gets the base path for the imports of the units of the library.
+   *
+   * Points to the `package.json` of the workspace the library packages are installed in,
+   * so the dynamic imports of the units resolve to the same package versions as the library itself.
+   *
+   * @param libraryId The ID of the library.
    */
-  get importPath(): string
+  getImportPath(libraryId: string | undefined): Promise<string>
 
   /**
    * Loads the library.
@@ -39,6 +44,26 @@ export interface LibraryBackend {
    */
   watchLibrary(libraryId: string | undefined, signal?: AbortSignal): AsyncIterable<LibraryUpdate[]>
 
+  /**
+   * Prepares and loads the packages of the spec without switching any library to them.
+   *
+   * Called before the spec is saved, so the spec which cannot be prepared is never saved
+   * and the refresh after saving reuses the prepared packages.
+   *
+   * @param spec The spec to prepare.
+   */
+  prepareLibrary(spec: LibrarySpec): Promise<void>
+
+  /**
+   * Reloads the library after its spec was changed.
+   *
+   * The changes are emitted to the library watchers.
+   * The library which was not loaded yet may be skipped, since it will be loaded with the new spec.
+   *
+   * @param libraryId The ID of the library to reload.
+   */
+  refreshLibrary(libraryId: string): Promise<void>
+
   /**
    * Gets the resolved unit sources for the given unit types.
    *
@@ -0,0 +1,305 @@
+import type { InstanceModel } from "@highstate/contract"
+import type { Logger } from "pino"
+import type { DatabaseManager } from "../database"
+import type { LibraryBackend, ProjectEvaluationResult, ResolvedUnitSource } from "./abstractions"
+import { EventEmitter, on } from "node:events"
+import { access, mkdir, rm, writeFile } from "node:fs/promises"
+import { resolve } from "node:path"
+import { BetterLock } from "better-lock"
+import {
+  diffLibraries,
+  type LibraryModel,
+  LibraryNotFoundError,
+  type LibrarySpec,
+  type LibraryUpdate,
+  type ResolvedInstanceInput,
+} from "../shared"
+import { LocalLibraryBackend } from "./local"
+
+interface Events {
+  library: [libraryId: string, updates: LibraryUpdate[]]
+  resolvedUnitSource: [libraryId: string, resolvedUnitSource: ResolvedUnitSource]
+}
+
+type PreparedLibrary = {
+  key: string
+  backend: LocalLibraryBackend
+  abortController: AbortController
+}
+
+const preparedMarkerFileName = ".highstate-prepared"
+
+/**
+ * The base for the library backends which prepare the library packages in the cache directory
+ * and serve them using the `LocalLibraryBackend` without watching and rebuilding.
+ *
+ * The cache directory is named after the key returned by `getCacheKey`,
+ * so the libraries with the same key share the prepared packages and the libraries with
+ * different keys are fully isolated.
+ *
+ * When the key of the library is changed and the library is refreshed,
+ * the new packages are prepared and the difference is emitted to the library watchers.
+ */
+export abstract class CachedLibraryBackend<TSpec extends LibrarySpec> implements LibraryBackend {
+  private readonly libraries = new Map<string, PreparedLibrary>()
+  private readonly lock = new BetterLock()
+  private readonly eventEmitter = new EventEmitter<Events>()
+
+  protected constructor(
+    private readonly specType: TSpec["type"],
+    private readonly cacheDir: string,
+    private readonly database: DatabaseManager,
+    protected readonly logger: Logger,
+  ) {}
+
+  /**
+   * Returns the name of the cache directory for the library.
+   *
+   * Must change every time the prepared packages would change.
+   */
+  protected abstract getCacheKey(spec: TSpec): string
+
+  /**
+   * Prepares the installed and built library packages in the given directory.
+   *
+   * The directory is created before the call and removed if the preparation fails.
+   */
+  protected abstract prepareDirectory(directory: string, spec: TSpec): Promise<void>
+
+  /**
+   * Returns the names of the packages providing the library.
+   */
+  protected abstract getLibraryPackages(spec: TSpec): string[]
+
+  /**
+   * Resolves the spec of the library to the one pinning the exact content of the packages.
+   *
+   * Called every time the library is loaded or refreshed, before the cache key is computed.
+   */
+  protected resolveSpec(spec: TSpec): Promise<TSpec> {
+    return Promise.resolve(spec)
+  }
+
+  /**
+   * Returns the directory containing the `package.json` the library packages are resolved from.
+   */
+  protected getWorkspaceDirectory(directory: string, _spec: TSpec): string {
+    return directory
+  }
+
+  async getImportPath(libraryId: string): Promise<string> {
+    const backend = await this.getBackend(libraryId)
+
+    return backend.importPath
+  }
+
+  async loadLibrary(libraryId: string): Promise<LibraryModel> {
+    const backend = await this.getBackend(libraryId)
+
+    return await backend.loadLibrary()
+  }
+
+  async *watchLibrary(libraryId: string, signal?: AbortSignal): AsyncIterable<LibraryUpdate[]> {
+    for await (const [updatedLibraryId, updates] of on(this.eventEmitter, "library", { signal })) {
+      if (updatedLibraryId === libraryId) {
+        yield updates as LibraryUpdate[]
+      }
+    }
+  }
+
+  async getResolvedUnitSources(
+    libraryId: string,
+    unitTypes: string[],
+  ): Promise<ResolvedUnitSource[]> {
+    const backend = await this.getBackend(libraryId)
+
+    return await backend.getResolvedUnitSources(libraryId, unitTypes)
+  }
+
+  async *watchResolvedUnitSources(
+    libraryId: string,
+    signal?: AbortSignal,
+  ): AsyncIterable<ResolvedUnitSource> {
+    for await (const [updatedLibraryId, resolvedUnitSource] of on(
+      this.eventEmitter,
+      "resolvedUnitSource",
+      { signal },
+    )) {
+      if (updatedLibraryId === libraryId) {
+        yield resolvedUnitSource as ResolvedUnitSource
+      }
+    }
+  }
+
+  async evaluateCompositeInstances(
+    libraryId: string,
+    allInstances: InstanceModel[],
+    resolvedInputs: Record<string, Record<string, ResolvedInstanceInput[]>>,
+  ): Promise<ProjectEvaluationResult> {
+    const backend = await this.getBackend(libraryId)
+
+    return await backend.evaluateCompositeInstances(libraryId, allInstances, resolvedInputs)
+  }
+
+  async prepareLibrary(spec: TSpec): Promise<void> {
+    const resolvedSpec = await this.resolveSpec(spec)
+    const directory = await this.prepare(resolvedSpec)
+
+    // load the library once to ensure the prepared packages provide it
+    const backend = LocalLibraryBackend.createForDirectory(
+      this.getWorkspaceDirectory(directory, resolvedSpec),
+      this.getLibraryPackages(resolvedSpec),
+      this.logger,
+    )
+
+    try {
+      await backend.loadLibrary()
+    } finally {
+      backend[Symbol.dispose]()
+    }
+  }
+
+  async refreshLibrary(libraryId: string): Promise<void> {
+    await this.lock.acquire(libraryId, async () => {
+      const existing = this.libraries.get(libraryId)
+
+      // the library which was not loaded yet will be loaded with the new spec
+      if (existing) {
+        await this.loadPrepared(libraryId, existing)
+      }
+    })
+  }
+
+  private async getBackend(libraryId: string): Promise<LocalLibraryBackend> {
+    return await this.lock.acquire(libraryId, async () => {
+      const existing = this.libraries.get(libraryId)
+      if (existing) {
+        return existing.backend
+      }
+
+      return await this.loadPrepared(libraryId)
+    })
+  }
+
+  private async prepare(spec: TSpec): Promise<string> {
+    const key = this.getCacheKey(spec)
+    const directory = resolve(this.cacheDir, key)
+
+    await this.lock.acquire(`prepare:${key}`, () => this.ensurePrepared(directory, spec))
+
+    return directory
+  }
+
+  private async loadPrepared(
+    libraryId: string,
+    existing?: PreparedLibrary,
+  ): Promise<LocalLibraryBackend> {
+    const spec = await this.resolveSpec(await this.getLibrarySpec(libraryId))
+    const key = this.getCacheKey(spec)
+
+    if (existing?.key === key) {
+      return existing.backend
+    }
+
+    const directory = await this.prepare(spec)
+
+    const prepared: PreparedLibrary = {
+      key,
+      backend: LocalLibraryBackend.createForDirectory(
+        this.getWorkspaceDirectory(directory, spec),
+        this.getLibraryPackages(spec),
+        this.logger.child({ libraryId }),
+      ),
+      abortController: new AbortController(),
+    }
+
+    this.libraries.set(libraryId, prepared)
+    void this.forwardResolvedUnitSources(libraryId, prepared)
+
+    if (existing) {
+      this.logger.info({ libraryId }, "library changed, switching to new packages")
+
+      await this.emitLibraryDiff(libraryId, existing.backend, prepared.backend)
+
+      existing.abortController.abort()
+      existing.backend[Symbol.dispose]()
+    }
+
+    return prepared.backend
+  }
+
+  private async ensurePrepared(directory: string, spec: TSpec): Promise<void> {
+    const markerPath = resolve(directory, preparedMarkerFileName)
+
+    try {
+      await access(markerPath)
+      return
+    } catch {
+      // not prepared yet
+    }
+
+    // start from scratch if the previous preparation was interrupted
+    await rm(directory, { recursive: true, force: true })
+    await mkdir(directory, { recursive: true })
+
+    try {
+      await this.prepareDirectory(directory, spec)
+    } catch (error) {
+      await rm(directory, { recursive: true, force: true })
+      throw error
+    }
+
+    await writeFile(markerPath, "")
+  }
+
+  private async forwardResolvedUnitSources(
+    libraryId: string,
+    prepared: PreparedLibrary,
+  ): Promise<void> {
+    try {
+      for await (const resolvedUnitSource of prepared.backend.watchResolvedUnitSources(
+        libraryId,
+        prepared.abortController.signal,
+      )) {
+        this.eventEmitter.emit("resolvedUnitSource", libraryId, resolvedUnitSource)
+      }
+    } catch (error) {
+      if (!prepared.abortController.signal.aborted) {
+        this.logger.error({ error, libraryId }, "failed to forward resolved unit sources")
+      }
+    }
+  }
+
+  private async emitLibraryDiff(
+    libraryId: string,
+    oldBackend: LocalLibraryBackend,
+    newBackend: LocalLibraryBackend,
+  ): Promise<void> {
+    this.eventEmitter.emit("library", libraryId, [{ type: "reload-started" }])
+
+    const [oldLibrary, newLibrary] = await Promise.all([
+      oldBackend.loadLibrary(),
+      newBackend.loadLibrary(),
+    ])
+
+    this.eventEmitter.emit("library", libraryId, diffLibraries(oldLibrary, newLibrary))
+    this.eventEmitter.emit("library", libraryId, [{ type: "reload-completed" }])
+  }
+
+  private async getLibrarySpec(libraryId: string): Promise<TSpec> {
+    const library = await this.database.backend.library.findUnique({
+      where: { id: libraryId },
+      select: { spec: true },
+    })
+
+    if (!library) {
+      throw new LibraryNotFoundError(libraryId)
+    }
+
+    if (library.spec.type !== this.specType) {
+      throw new Error(`Library "${libraryId}" is not a "${this.specType}" library`)
+    }
+
+    return library.spec as TSpec
+  }
+}
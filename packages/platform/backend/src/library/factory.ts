@@ -1,20 +1,35 @@
 import type { Logger } from "pino"
+import type { DatabaseManager } from "../database"
 import type { LibraryBackend } from "./abstractions"
 import { z } from "zod"
+import { GitLibraryBackend, gitLibraryBackendConfig } from "./git"
 import { LocalLibraryBackend, localLibraryBackendConfig } from "./local"
+import { NpmLibraryBackend, npmLibraryBackendConfig } from "./npm"
+import { LibraryBackendRouter } from "./router"
 
 export const libraryBackendConfig = z.object({
   HIGHSTATE_LIBRARY_BACKEND_TYPE: z.enum(["local"]).default("local"),
   ...localLibraryBackendConfig.shape,
+  ...npmLibraryBackendConfig.shape,
+  ...gitLibraryBackendConfig.shape,
 })
 
 export async function createLibraryBackend(
   config: z.infer<typeof libraryBackendConfig>,
+  database: DatabaseManager,
   logger: Logger,
 ): Promise<LibraryBackend> {
   switch (config.HIGHSTATE_LIBRARY_BACKEND_TYPE) {
     case "local": {
-      return await LocalLibraryBackend.create(config, logger)
+      return new LibraryBackendRouter(
+        {
+          host: await LocalLibraryBackend.create(config, logger),
+          npm: NpmLibraryBackend.create(config, database, logger),
+          git: GitLibraryBackend.create(config, database, logger),
+        },
+        database,
+        logger.child({ backend: "LibraryBackend", service: "LibraryBackendRouter" }),
+      )
     }
   }
 }
@@ -0,0 +1,127 @@
+import type { PackageJson } from "pkg-types"
+import { describe, expect, test } from "vitest"
+import { librarySpecSchema } from "../shared"
+import {
+  type GitLibrarySpec,
+  getBuildOrder,
+  getGitLibraryCacheKey,
+  isHighstateManagedPackage,
+  parseLsRemoteOutput,
+  resolveGitWorkspaceDirectory,
+  type WorkspacePackage,
+} from "./git"
+
+const commit = "0123456789abcdef0123456789abcdef01234567"
+const otherCommit = "89abcdef0123456789abcdef0123456789abcdef"
+
+function createSpec(overrides: Partial<GitLibrarySpec> = {}): GitLibrarySpec {
+  return {
+    type: "git",
+    url: "https://example.com/platform/components.git",
+    ref: commit,
+    libraryPackages: ["@highstate/library"],
+    ...overrides,
+  }
+}
+
+function createPackage(name: string, packageJson: PackageJson = {}): WorkspacePackage {
+  return { rootPath: `/workspace/${name}`, packageJson: { name, ...packageJson } }
+}
+
+describe("librarySpecSchema", () => {
+  test("rejects git url and ref which could be read as options", () => {
+    const spec = createSpec()
+
+    expect(librarySpecSchema.safeParse(spec).success).toBe(true)
+    expect(
+      librarySpecSchema.safeParse({ ...spec, url: "--upload-pack=touch /tmp/pwned" }).success,
+    ).toBe(false)
+    expect(librarySpecSchema.safeParse({ ...spec, ref: "--output=/tmp/pwned" }).success).toBe(false)
+  })
+
+  test("rejects git path which could point outside of the repository", () => {
+    const spec = createSpec()
+
+    expect(librarySpecSchema.safeParse({ ...spec, path: "packages/platform" }).success).toBe(true)
+    expect(librarySpecSchema.safeParse({ ...spec, path: "../../.." }).success).toBe(false)
+    expect(librarySpecSchema.safeParse({ ...spec, path: "packages/../.." }).success).toBe(false)
+    expect(librarySpecSchema.safeParse({ ...spec, path: "/etc" }).success).toBe(false)
+    expect(librarySpecSchema.safeParse({ ...spec, path: "C:\\Windows" }).success).toBe(false)
+  })
+})
+
+describe("resolveGitWorkspaceDirectory", () => {
+  test("resolves path inside the repository", () => {
+    expect(resolveGitWorkspaceDirectory("/cache/repo", "packages/platform")).toBe(
+      "/cache/repo/packages/platform",
+    )
+    expect(resolveGitWorkspaceDirectory("/cache/repo")).toBe("/cache/repo")
+  })
+
+  test("rejects path outside of the repository", () => {
+    expect(() => resolveGitWorkspaceDirectory("/cache/repo", "../../..")).toThrow()
+    expect(() => resolveGitWorkspaceDirectory("/cache/repo", "/etc")).toThrow()
+  })
+})
+
+describe("getGitLibraryCacheKey", () => {
+  test("changes when commit changes", () => {
+    const key = getGitLibraryCacheKey(createSpec())
+    const changedKey = getGitLibraryCacheKey(createSpec({ ref: otherCommit }))
+
+    expect(changedKey).not.toBe(key)
+  })
+
+  test("does not depend on library packages", () => {
+    const key = getGitLibraryCacheKey(createSpec())
+    const changedKey = getGitLibraryCacheKey(createSpec({ libraryPackages: ["@acme/library"] }))
+
+    expect(changedKey).toBe(key)
+  })
+})
+
+describe("parseLsRemoteOutput", () => {
+  test("prefers branch over tag with same name", () => {
+    const output = [`${otherCommit}\trefs/tags/main`, `${commit}\trefs/heads/main`].join("\n")
+
+    expect(parseLsRemoteOutput(output, "main")).toBe(commit)
+  })
+
+  test("returns peeled commit of annotated tag", () => {
+    const output = [`${otherCommit}\trefs/tags/v1.0.0`, `${commit}\trefs/tags/v1.0.0^{}`].join("\n")
+
+    expect(parseLsRemoteOutput(output, "v1.0.0")).toBe(commit)
+  })
+
+  test("returns undefined for unknown ref", () => {
+    expect(parseLsRemoteOutput("", "main")).toBeUndefined()
+  })
+})
+
+describe("isHighstateManagedPackage", () => {
+  test("requires highstate build script", () => {
+    const managed = createPackage("@acme/library", {
+      devDependencies: { "@highstate/cli": "1.0.0" },
+      scripts: { build: "highstate build" },
+    })
+
+    const unmanaged = createPackage("@acme/docs", {
+      devDependencies: { "@highstate/cli": "1.0.0" },
+      scripts: { build: "vitepress build" },
+    })
+
+    expect(isHighstateManagedPackage(managed)).toBe(true)
+    expect(isHighstateManagedPackage(unmanaged)).toBe(false)
+  })
+})
+
+describe("getBuildOrder", () => {
+  test("builds dependencies first", () => {
+    const units = createPackage("@acme/units", { dependencies: { "@acme/library": "workspace:*" } })
+    const library = createPackage("@acme/library")
+
+    const order = getBuildOrder([units, library])
+
+    expect(order.map(pkg => pkg.packageJson.name)).toEqual(["@acme/library", "@acme/units"])
+  })
+})
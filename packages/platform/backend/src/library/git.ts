@@ -0,0 +1,265 @@
+import type { Logger } from "pino"
+import type { DatabaseManager } from "../database"
+import type { LibrarySpec } from "../shared"
+import { createHash } from "node:crypto"
+import { homedir } from "node:os"
+import { dirname, isAbsolute, relative, resolve, sep } from "node:path"
+import { glob } from "glob"
+import spawn from "nano-spawn"
+import { installDependencies, runScript } from "nypm"
+import { type PackageJson, readPackageJSON } from "pkg-types"
+import { z } from "zod"
+import { CachedLibraryBackend } from "./cached"
+import { LocalLibraryBackend } from "./local"
+
+export const gitLibraryBackendConfig = z.object({
+  HIGHSTATE_LIBRARY_BACKEND_GIT_CACHE_DIR: z.string().optional(),
+  HIGHSTATE_LIBRARY_BACKEND_GIT_TIMEOUT_MS: z.coerce.number().int().positive().default(300000),
+})
+
+export type GitLibrarySpec = Extract<LibrarySpec, { type: "git" }>
+
+export type WorkspacePackage = {
+  rootPath: string
+  packageJson: PackageJson
+}
+
+const commitPattern = /^[0-9a-f]{40}$/
+
+/**
+ * The library backend which clones the library workspace from the git repository
+ * and builds it the same way as `highstate build` does in the local workspace.
+ *
+ * The workspace is cloned into the cache directory named after the resolved commit,
+ * so the libraries pointing to the same commit share the build.
+ */
+export class GitLibraryBackend extends CachedLibraryBackend<GitLibrarySpec> {
+  private constructor(
+    private readonly timeout: number,
+    cacheDir: string,
+    database: DatabaseManager,
+    logger: Logger,
+  ) {
+    super("git", cacheDir, database, logger)
+  }
+
+  protected async resolveSpec(spec: GitLibrarySpec): Promise<GitLibrarySpec> {
+    if (commitPattern.test(spec.ref)) {
+      return spec
+    }
+
+    const { stdout } = await this.git(["ls-remote", "--", spec.url, spec.ref])
+    const commit = parseLsRemoteOutput(stdout, spec.ref)
+
+    if (!commit) {
+      throw new Error(`Ref "${spec.ref}" not found in "${spec.url}"`)
+    }
+
+    return { ...spec, ref: commit }
+  }
+
+  protected getCacheKey(spec: GitLibrarySpec): string {
+    return getGitLibraryCacheKey(spec)
+  }
+
+  protected getLibraryPackages(spec: GitLibrarySpec): string[] {
+    return spec.libraryPackages
+  }
+
+  protected getWorkspaceDirectory(directory: string, spec: GitLibrarySpec): string {
+    return resolveGitWorkspaceDirectory(directory, spec.path)
+  }
+
+  protected async prepareDirectory(directory: string, spec: GitLibrarySpec): Promise<void> {
+    // the ref is already resolved to the commit
+    const commit = spec.ref
+
+    this.logger.info({ directory }, `cloning "%s" at "%s"`, spec.url, commit)
+
+    await this.git(["init", "--quiet"], directory)
+    await this.git(["remote", "add", "--", "origin", spec.url], directory)
+    await this.git(["fetch", "--quiet", "--depth", "1", "--", "origin", commit], directory)
+    await this.git(["checkout", "--quiet", "FETCH_HEAD"], directory)
+
+    const workspaceDirectory = this.getWorkspaceDirectory(directory, spec)
+
+    this.logger.info({ directory: workspaceDirectory }, "installing workspace dependencies")
+    await installDependencies({ cwd: workspaceDirectory, silent: true })
+
+    const workspacePackages = await collectWorkspacePackages(workspaceDirectory)
+    const managedPackages = getBuildOrder(workspacePackages.filter(isHighstateManagedPackage))
+
+    for (const workspacePackage of managedPackages) {
+      this.logger.info(`building "%s"`, workspacePackage.packageJson.name)
+      await runScript("build", { cwd: workspacePackage.rootPath, silent: true })
+    }
+
+    this.logger.info(
+      { directory: workspaceDirectory },
+      "library workspace built (%s packages)",
+      managedPackages.length,
+    )
+  }
+
+  private git(args: string[], cwd?: string) {
+    // the user-provided values are always passed after "--", so they cannot be read as options
+    return spawn("git", args, { cwd, timeout: this.timeout, killSignal: "SIGKILL" })
+  }
+
+  static create(
+    config: z.infer<typeof gitLibraryBackendConfig>,
+    database: DatabaseManager,
+    logger: Logger,
+  ): GitLibraryBackend {
+    const cacheDir =
+      config.HIGHSTATE_LIBRARY_BACKEND_GIT_CACHE_DIR ??
+      resolve(homedir(), ".cache", "highstate", "libraries", "git")
+
+    return new GitLibraryBackend(
+      config.HIGHSTATE_LIBRARY_BACKEND_GIT_TIMEOUT_MS,
+      cacheDir,
+      database,
+      logger.child({ backend: "LibraryBackend", service: "GitLibraryBackend" }),
+    )
+  }
+}
+
+/**
+ * Returns the name of the cache directory for the spec with the ref resolved to the commit.
+ *
+ * The path is included since it changes the workspace which is installed and built.
+ */
+export function getGitLibraryCacheKey(spec: GitLibrarySpec): string {
+  return createHash("sha256")
+    .update(JSON.stringify([spec.url, spec.ref, spec.path ?? null]))
+    .digest("hex")
+    .slice(0, 32)
+}
+
+/**
+ * Resolves the workspace directory inside the cloned repository.
+ *
+ * @throws Error if the path points outside of the repository.
+ */
+export function resolveGitWorkspaceDirectory(directory: string, path = "."): string {
+  const workspaceDirectory = resolve(directory, path)
+  const relativePath = relative(directory, workspaceDirectory)
+
+  if (relativePath === ".." || relativePath.startsWith(`..${sep}`) || isAbsolute(relativePath)) {
+    throw new Error(`The path "${path}" points outside of the repository`)
+  }
+
+  return workspaceDirectory
+}
+
+/**
+ * Returns the commit the ref points to in the output of `git ls-remote`.
+ *
+ * The peeled commit of the annotated tag is preferred over the tag object,
+ * and the branches are preferred over the tags with the same name.
+ */
+export function parseLsRemoteOutput(output: string, ref: string): string | undefined {
+  const refs = new Map<string, string>()
+
+  for (const line of output.split("\n")) {
+    const [commit, name] = line.trim().split(/\s+/)
+    if (commit && name) {
+      refs.set(name, commit)
+    }
+  }
+
+  return (
+    refs.get(ref) ??
+    refs.get(`refs/heads/${ref}`) ??
+    refs.get(`refs/tags/${ref}^{}`) ??
+    refs.get(`refs/tags/${ref}`)
+  )
+}
+
+/**
+ * Returns whether the package is built by `highstate build`.
+ *
+ * Uses the same criteria as the local library backend uses for the rebuilds.
+ */
+export function isHighstateManagedPackage({ packageJson }: WorkspacePackage): boolean {
+  if (!packageJson.devDependencies?.["@highstate/cli"]) {
+    return false
+  }
+
+  return (packageJson.scripts?.build ?? "").includes("highstate build")
+}
+
+/**
+ * Sorts the workspace packages so that every package is built after
+ * the workspace packages it depends on.
+ *
+ * The packages involved in the dependency cycle are built in the original order.
+ */
+export function getBuildOrder(packages: WorkspacePackage[]): WorkspacePackage[] {
+  const packagesByName = new Map(packages.map(pkg => [pkg.packageJson.name, pkg]))
+  const result: WorkspacePackage[] = []
+  const visited = new Set<WorkspacePackage>()
+
+  const visit = (pkg: WorkspacePackage) => {
+    if (visited.has(pkg)) {
+      return
+    }
+
+    visited.add(pkg)
+
+    const dependencies = {
+      ...pkg.packageJson.dependencies,
+      ...pkg.packageJson.devDependencies,
+      ...pkg.packageJson.peerDependencies,
+    }
+
+    for (const name of Object.keys(dependencies)) {
+      const dependency = packagesByName.get(name)
+      if (dependency) {
+        visit(dependency)
+      }
+    }
+
+    result.push(pkg)
+  }
+
+  for (const pkg of packages) {
+    visit(pkg)
+  }
+
+  return result
+}
+
+async function collectWorkspacePackages(workspacePath: string): Promise<WorkspacePackage[]> {
+  const rootPackageJson = await readPackageJSON(workspacePath)
+  const patterns = LocalLibraryBackend.extractWorkspacePatterns(rootPackageJson)
+
+  if (patterns.length === 0) {
+    // not a workspace, so the root is the only package
+    return [{ rootPath: workspacePath, packageJson: rootPackageJson }]
+  }
+
+  const matches = await glob(
+    patterns.filter(pattern => !pattern.startsWith("!")).map(pattern => `${pattern}/package.json`),
+    {
+      cwd: workspacePath,
+      absolute: true,
+      ignore: [
+        "**/node_modules/**",
+        ...patterns
+          .filter(pattern => pattern.startsWith("!"))
+          .map(pattern => `${pattern.slice(1)}/package.json`),
+      ],
+    },
+  )
+
+  const packages: WorkspacePackage[] = []
+
+  for (const match of matches.toSorted()) {
+    const rootPath = dirname(match)
+
+    packages.push({ rootPath, packageJson: await readPackageJSON(rootPath) })
+  }
+
+  return packages
+}
@@ -60,8 +60,8 @@ type RebuildState = {
   pending: boolean
 }
 
-export class LocalLibraryBackend implements LibraryBackend {
-  private readonly watcher: Watcher
+export class LocalLibraryBackend implements LibraryBackend, Disposable {
+  private readonly watcher: Watcher | undefined
   private readonly workspacePath: string
   readonly importPath: string
   private readonly workspacePatterns: string[]
@@ -95,6 +95,12 @@ export class LocalLibraryBackend implements LibraryBackend {
     this.buildQueue = new PQueue({ concurrency: buildConcurrency })
     this.configBuildOnStartup = buildOnStartup
     this.configBuildOnChanges = buildOnChanges
+
+    if (!buildOnChanges) {
+      // nothing to rebuild, so there is no reason to watch the workspace
+      return
+    }
+
     this.watcher = new Watcher([workspacePath], {
       recursive: true,
       ignoreInitial: true,
@@ -112,6 +118,10 @@ export class LocalLibraryBackend implements LibraryBackend {
     })
   }
 
+  getImportPath(): Promise<string> {
+    return Promise.resolve(this.importPath)
+  }
+
   async loadLibrary(): Promise<LibraryModel> {
     return await this.lock.acquire(async () => await this.getLibrary())
   }
@@ -122,6 +132,17 @@ export class LocalLibraryBackend implements LibraryBackend {
     }
   }
 
+  prepareLibrary(): Promise<void> {
+    // the packages of the host are always prepared
+    return Promise.resolve()
+  }
+
+  async refreshLibrary(): Promise<void> {
+    await this.lock.acquire(async () => {
+      await this.reloadLibrary()
+    })
+  }
+
   getLoadedResolvedUnitSources(): Promise<ResolvedUnitSource[]> {
     return this.lock.acquire(() => {
       return Array.from(this.resolvedUnitSources.values())
@@ -757,7 +778,7 @@ export class LocalLibraryBackend implements LibraryBackend {
     }
   }
 
-  private static extractWorkspacePatterns(packageJson: PackageJson): string[] {
+  static extractWorkspacePatterns(packageJson: PackageJson): string[] {
     const workspaces = packageJson.workspaces
 
     if (!workspaces) {
@@ -871,6 +892,32 @@ export class LocalLibraryBackend implements LibraryBackend {
     return new Worker(workerPath, { workerData })
   }
 
+  [Symbol.dispose](): void {
+    this.watcher?.close()
+  }
+
+  /**
+   * Creates the backend for the directory with already installed and built packages.
+   *
+   * The packages are never rebuilt and the directory is not watched for changes.
+   *
+   * @param directory The directory containing the `package.json` and `node_modules`.
+   * @param libraryPackages The names of the packages providing the library.
+   * @param logger The logger to use.
+   */
+  static createForDirectory(directory: string, libraryPackages: string[], logger: Logger) {
+    return new LocalLibraryBackend(
+      libraryPackages,
+      directory,
+      resolve(directory, "package.json"),
+      [],
+      1,
+      false,
+      false,
+      logger,
+    )
+  }
+
   static async create(config: z.infer<typeof localLibraryBackendConfig>, logger: Logger) {
     const [projectPath] = await resolveMainLocalProject()
 
@@ -0,0 +1,80 @@
+import { describe, expect, test } from "vitest"
+import { librarySpecSchema } from "../shared"
+import {
+  getNpmDependencySpecifier,
+  getNpmLibraryCacheKey,
+  getNpmrc,
+  type NpmLibrarySpec,
+} from "./npm"
+
+function createSpec(overrides: Partial<NpmLibrarySpec> = {}): NpmLibrarySpec {
+  return {
+    type: "npm",
+    packages: { "@highstate/library": "1.0.0", "@highstate/k8s": "1.0.0" },
+    libraryPackages: ["@highstate/library"],
+    ...overrides,
+  }
+}
+
+describe("librarySpecSchema", () => {
+  test("accepts only exact npm versions", () => {
+    const spec = createSpec()
+
+    expect(librarySpecSchema.safeParse(spec).success).toBe(true)
+    expect(
+      librarySpecSchema.safeParse({ ...spec, packages: { "@highstate/library": "1.0.0-rc.1" } })
+        .success,
+    ).toBe(true)
+
+    for (const version of ["^1.0.0", "~1.0.0", ">=1.0.0", "1.x", "latest", "*"]) {
+      expect(
+        librarySpecSchema.safeParse({ ...spec, packages: { "@highstate/library": version } })
+          .success,
+      ).toBe(false)
+    }
+  })
+})
+
+describe("getNpmLibraryCacheKey", () => {
+  test("does not depend on order of pins", () => {
+    const key = getNpmLibraryCacheKey(createSpec())
+    const reorderedKey = getNpmLibraryCacheKey(
+      createSpec({ packages: { "@highstate/k8s": "1.0.0", "@highstate/library": "1.0.0" } }),
+    )
+
+    expect(reorderedKey).toBe(key)
+  })
+
+  test("changes when pin changes", () => {
+    const key = getNpmLibraryCacheKey(createSpec())
+    const changedKey = getNpmLibraryCacheKey(
+      createSpec({ packages: { "@highstate/library": "1.0.1", "@highstate/k8s": "1.0.0" } }),
+    )
+
+    expect(changedKey).not.toBe(key)
+  })
+})
+
+describe("getNpmDependencySpecifier", () => {
+  test("returns pinned version for registry", () => {
+    expect(getNpmDependencySpecifier("@highstate/library", "1.2.3")).toBe("1.2.3")
+  })
+
+  test("returns tarball path following npm pack naming", () => {
+    expect(getNpmDependencySpecifier("@highstate/library", "1.2.3", "/var/tarballs")).toBe(
+      "file:/var/tarballs/highstate-library-1.2.3.tgz",
+    )
+  })
+})
+
+describe("getNpmrc", () => {
+  test("disables lifecycle scripts", () => {
+    expect(getNpmrc(createSpec())).toBe("ignore-scripts=true\n")
+  })
+
+  test("sets registry of spec", () => {
+    expect(getNpmrc(createSpec({ registryUrl: "https://npm.example.com/" }))).toBe(
+      "ignore-scripts=true\nregistry=https://npm.example.com/\n",
+    )
+  })
+})
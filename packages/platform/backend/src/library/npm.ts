@@ -0,0 +1,128 @@
+import type { Logger } from "pino"
+import type { DatabaseManager } from "../database"
+import type { LibrarySpec } from "../shared"
+import { createHash } from "node:crypto"
+import { writeFile } from "node:fs/promises"
+import { homedir } from "node:os"
+import { resolve } from "node:path"
+import { installDependencies } from "nypm"
+import { mapValues } from "remeda"
+import { z } from "zod"
+import { CachedLibraryBackend } from "./cached"
+
+export const npmLibraryBackendConfig = z.object({
+  HIGHSTATE_LIBRARY_BACKEND_NPM_CACHE_DIR: z.string().optional(),
+})
+
+export type NpmLibrarySpec = Extract<LibrarySpec, { type: "npm" }>
+
+/**
+ * The library backend which installs the pinned library packages from the npm registry
+ * or the local tarball directory.
+ *
+ * The packages are installed into the cache directory named after the hash of the pins,
+ * so the libraries with the same pins share the installation.
+ */
+export class NpmLibraryBackend extends CachedLibraryBackend<NpmLibrarySpec> {
+  protected getCacheKey(spec: NpmLibrarySpec): string {
+    return getNpmLibraryCacheKey(spec)
+  }
+
+  protected getLibraryPackages(spec: NpmLibrarySpec): string[] {
+    return spec.libraryPackages
+  }
+
+  protected async prepareDirectory(directory: string, spec: NpmLibrarySpec): Promise<void> {
+    this.logger.info({ directory }, "installing library packages: %s", formatPins(spec))
+
+    const packageJson = {
+      name: "highstate-library-cache",
+      private: true,
+      type: "module",
+      dependencies: mapValues(spec.packages, (version, name) =>
+        getNpmDependencySpecifier(name, version, spec.tarballPath),
+      ),
+    }
+
+    await writeFile(resolve(directory, "package.json"), JSON.stringify(packageJson, null, 2))
+
+    await writeFile(resolve(directory, ".npmrc"), getNpmrc(spec))
+
+    await installDependencies({ cwd: directory, packageManager: "npm", silent: true })
+
+    this.logger.info({ directory }, "library packages installed")
+  }
+
+  static create(
+    config: z.infer<typeof npmLibraryBackendConfig>,
+    database: DatabaseManager,
+    logger: Logger,
+  ): NpmLibraryBackend {
+    const cacheDir =
+      config.HIGHSTATE_LIBRARY_BACKEND_NPM_CACHE_DIR ??
+      resolve(homedir(), ".cache", "highstate", "libraries")
+
+    return new NpmLibraryBackend(
+      "npm",
+      cacheDir,
+      database,
+      logger.child({ backend: "LibraryBackend", service: "NpmLibraryBackend" }),
+    )
+  }
+}
+
+/**
+ * Returns the name of the cache directory for the packages pinned by the spec.
+ *
+ * Only the properties affecting the installed packages are included in the key.
+ */
+export function getNpmLibraryCacheKey(spec: NpmLibrarySpec): string {
+  const pins = Object.entries(spec.packages).toSorted(([a], [b]) => a.localeCompare(b))
+
+  return createHash("sha256")
+    .update(JSON.stringify([pins, spec.registryUrl ?? null, spec.tarballPath ?? null]))
+    .digest("hex")
+    .slice(0, 32)
+}
+
+/**
+ * Returns the specifier of the dependency in `package.json`.
+ *
+ * For the tarball directory, the file name follows the `npm pack` convention,
+ * e.g. `highstate-library-1.2.3.tgz` for `@highstate/library@1.2.3`.
+ */
+export function getNpmDependencySpecifier(
+  name: string,
+  version: string,
+  tarballPath?: string,
+): string {
+  if (!tarballPath) {
+    return version
+  }
+
+  const fileName = `${name.replace(/^@/, "").replace("/", "-")}-${version}.tgz`
+
+  return `file:${resolve(tarballPath, fileName)}`
+}
+
+/**
+ * Returns the content of `.npmrc` used to install the packages.
+ *
+ * The lifecycle scripts of the packages are never run,
+ * since the libraries are installed on the backend host.
+ */
+export function getNpmrc(spec: NpmLibrarySpec): string {
+  const lines = ["ignore-scripts=true"]
+
+  if (spec.registryUrl) {
+    lines.push(`registry=${spec.registryUrl}`)
+  }
+
+  return `${lines.join("\n")}\n`
+}
+
+function formatPins(spec: NpmLibrarySpec): string {
+  return Object.entries(spec.packages)
+    .map(([name, version]) => `${name}@${version}`)
+    .join(", ")
+}
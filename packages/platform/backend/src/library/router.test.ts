@@ -0,0 +1,250 @@
+import type { LibraryBackend } from "./abstractions"
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { createId } from "@paralleldrive/cuid2"
+import { describe, type MockedObject, vi } from "vitest"
+import { codebaseLibrary, type LibraryUpdate } from "../shared"
+import { test } from "../test-utils"
+import { getNpmLibraryCacheKey, NpmLibraryBackend, type NpmLibrarySpec } from "./npm"
+import { LibraryBackendRouter } from "./router"
+
+function createLibraryBackendMock(): MockedObject<LibraryBackend> {
+  return vi.mockObject({
+    loadLibrary: vi.fn().mockResolvedValue({ components: {}, entities: {} }),
+    prepareLibrary: vi.fn().mockResolvedValue(undefined),
+    refreshLibrary: vi.fn().mockResolvedValue(undefined),
+    getImportPath: vi.fn().mockResolvedValue("/workspace/package.json"),
+    watchLibrary: vi.fn(),
+  } as unknown as LibraryBackend)
+}
+
+async function* watchUntilAborted(
+  updates: LibraryUpdate[][],
+  signal?: AbortSignal,
+): AsyncIterable<LibraryUpdate[]> {
+  yield* updates
+
+  await new Promise((_, reject) => {
+    signal?.throwIfAborted()
+    signal?.addEventListener("abort", () => reject(signal.reason), { once: true })
+  })
+}
+
+const routerTest = test.extend<{
+  hostBackend: MockedObject<LibraryBackend>
+  npmBackend: MockedObject<LibraryBackend>
+  gitBackend: MockedObject<LibraryBackend>
+  router: LibraryBackendRouter
+}>({
+  hostBackend: async ({}, use) => {
+    await use(createLibraryBackendMock())
+  },
+
+  npmBackend: async ({}, use) => {
+    await use(createLibraryBackendMock())
+  },
+
+  gitBackend: async ({}, use) => {
+    await use(createLibraryBackendMock())
+  },
+
+  router: async ({ hostBackend, npmBackend, gitBackend, database, logger }, use) => {
+    await use(
+      new LibraryBackendRouter(
+        { host: hostBackend, npm: npmBackend, git: gitBackend },
+        database,
+        logger,
+      ),
+    )
+  },
+})
+
+describe("LibraryBackendRouter", () => {
+  routerTest(
+    "dispatches calls to backend matching library spec",
+    async ({ router, hostBackend, npmBackend, database, expect }) => {
+      // arrange
+      const npmLibrary = await database.backend.library.create({
+        data: {
+          meta: { title: "Pinned Library" },
+          spec: {
+            type: "npm",
+            packages: { "@highstate/library": "1.0.0" },
+            libraryPackages: ["@highstate/library"],
+          },
+        },
+      })
+
+      // act
+      await router.loadLibrary(codebaseLibrary.id)
+      await router.loadLibrary(npmLibrary.id)
+
+      // assert
+      expect(hostBackend.loadLibrary).toHaveBeenCalledWith(codebaseLibrary.id, undefined)
+      expect(npmBackend.loadLibrary).toHaveBeenCalledWith(npmLibrary.id, undefined)
+    },
+  )
+
+  routerTest(
+    "falls back to host backend for unknown library",
+    async ({ router, hostBackend, npmBackend, expect }) => {
+      // act
+      await router.loadLibrary(createId())
+
+      // assert
+      expect(hostBackend.loadLibrary).toHaveBeenCalledTimes(1)
+      expect(npmBackend.loadLibrary).not.toHaveBeenCalled()
+    },
+  )
+
+  routerTest(
+    "re-reads spec type when library is refreshed",
+    async ({ router, hostBackend, npmBackend, database, expect }) => {
+      // arrange
+      const library = await database.backend.library.create({
+        data: { meta: { title: "Switched Library" }, spec: { type: "host" } },
+      })
+
+      await router.loadLibrary(library.id)
+
+      await database.backend.library.update({
+        where: { id: library.id },
+        data: {
+          spec: {
+            type: "npm",
+            packages: { "@highstate/library": "2.0.0" },
+            libraryPackages: ["@highstate/library"],
+          },
+        },
+      })
+
+      // act
+      await router.refreshLibrary(library.id)
+
+      hostBackend.loadLibrary.mockClear()
+      npmBackend.loadLibrary.mockClear()
+
+      await router.loadLibrary(library.id)
+
+      // assert
+      expect(hostBackend.loadLibrary).not.toHaveBeenCalled()
+      expect(npmBackend.refreshLibrary).toHaveBeenCalledWith(library.id)
+      expect(npmBackend.loadLibrary).toHaveBeenCalledTimes(1)
+    },
+  )
+
+  routerTest(
+    "switches library watchers to backend of new spec type",
+    async ({ router, hostBackend, npmBackend, database, expect }) => {
+      // arrange
+      const library = await database.backend.library.create({
+        data: { meta: { title: "Switched Library" }, spec: { type: "host" } },
+      })
+
+      hostBackend.watchLibrary.mockImplementation((_, signal) => watchUntilAborted([], signal))
+      npmBackend.watchLibrary.mockImplementation((_, signal) =>
+        watchUntilAborted([[{ type: "reload-started" }]], signal),
+      )
+
+      await router.loadLibrary(library.id)
+
+      const controller = new AbortController()
+      const updates = router.watchLibrary(library.id, controller.signal)[Symbol.asyncIterator]()
+      const firstUpdate = updates.next()
+
+      await database.backend.library.update({
+        where: { id: library.id },
+        data: {
+          spec: {
+            type: "npm",
+            packages: { "@highstate/library": "2.0.0" },
+            libraryPackages: ["@highstate/library"],
+          },
+        },
+      })
+
+      // act
+      await router.refreshLibrary(library.id)
+
+      // assert
+      expect((await firstUpdate).value).toEqual([{ type: "reload-started" }])
+      expect((await updates.next()).value).toEqual([])
+      expect((await updates.next()).value).toEqual([{ type: "reload-completed" }])
+
+      // the updates of the new backend are forwarded after the switch
+      expect((await updates.next()).value).toEqual([{ type: "reload-started" }])
+      expect(npmBackend.watchLibrary).toHaveBeenCalledWith(library.id, expect.any(AbortSignal))
+
+      controller.abort()
+    },
+  )
+
+  routerTest(
+    "prepares spec with backend of its type",
+    async ({ router, hostBackend, npmBackend, expect }) => {
+      // arrange
+      const spec: NpmLibrarySpec = {
+        type: "npm",
+        packages: { "@highstate/library": "1.0.0" },
+        libraryPackages: ["@highstate/library"],
+      }
+
+      // act
+      await router.prepareLibrary(spec)
+
+      // assert
+      expect(npmBackend.prepareLibrary).toHaveBeenCalledWith(spec)
+      expect(hostBackend.prepareLibrary).not.toHaveBeenCalled()
+    },
+  )
+
+  routerTest(
+    "resolves import path of npm library to its cached packages",
+    async ({ hostBackend, gitBackend, database, logger, expect }) => {
+      // arrange
+      const cacheDir = await mkdtemp(join(tmpdir(), "highstate-libraries-"))
+
+      const spec: NpmLibrarySpec = {
+        type: "npm",
+        packages: { "@highstate/library": "1.0.0" },
+        libraryPackages: ["@highstate/library"],
+      }
+
+      // pretend the packages are already installed
+      const libraryDir = join(cacheDir, getNpmLibraryCacheKey(spec))
+      await mkdir(libraryDir)
+      await writeFile(join(libraryDir, ".highstate-prepared"), "")
+
+      const npmLibrary = await database.backend.library.create({
+        data: { meta: { title: "Pinned Library" }, spec },
+      })
+
+      const router = new LibraryBackendRouter(
+        {
+          host: hostBackend,
+          npm: NpmLibraryBackend.create(
+            { HIGHSTATE_LIBRARY_BACKEND_NPM_CACHE_DIR: cacheDir },
+            database,
+            logger,
+          ),
+          git: gitBackend,
+        },
+        database,
+        logger,
+      )
+
+      try {
+        // act
+        const npmImportPath = await router.getImportPath(npmLibrary.id)
+        const hostImportPath = await router.getImportPath(codebaseLibrary.id)
+
+        // assert
+        expect(npmImportPath).toBe(join(libraryDir, "package.json"))
+        expect(hostImportPath).toBe("/workspace/package.json")
+      } finally {
+        await rm(cacheDir, { recursive: true, force: true })
+      }
+    },
+  )
+})
@@ -0,0 +1,223 @@
+import type { InstanceModel } from "@highstate/contract"
+import type { Logger } from "pino"
+import type { DatabaseManager } from "../database"
+import type { LibraryBackend, ProjectEvaluationResult, ResolvedUnitSource } from "./abstractions"
+import { EventEmitter } from "node:events"
+import {
+  diffLibraries,
+  type LibraryModel,
+  type LibrarySpec,
+  type LibraryUpdate,
+  type ResolvedInstanceInput,
+} from "../shared"
+
+interface Events {
+  specTypeChanged: [libraryId: string, updates: LibraryUpdate[][]]
+}
+
+/**
+ * The library backend which dispatches the calls to the backend matching the spec type of the library.
+ *
+ * The unknown libraries are served by the `host` backend to keep the behavior
+ * of the setups which never had the library records.
+ *
+ * When the spec type of the library is changed, the watchers are switched to the backend of the new type
+ * and the difference between the libraries of both backends is emitted to the library watchers.
+ */
+export class LibraryBackendRouter implements LibraryBackend {
+  private readonly specTypes = new Map<string, LibrarySpec["type"]>()
+  private readonly eventEmitter = new EventEmitter<Events>()
+
+  constructor(
+    private readonly backends: Record<LibrarySpec["type"], LibraryBackend>,
+    private readonly database: DatabaseManager,
+    private readonly logger: Logger,
+  ) {}
+
+  async getImportPath(libraryId: string | undefined): Promise<string> {
+    const backend = await this.getBackend(libraryId)
+
+    return await backend.getImportPath(libraryId)
+  }
+
+  async loadLibrary(libraryId: string | undefined, signal?: AbortSignal): Promise<LibraryModel> {
+    const backend = await this.getBackend(libraryId)
+
+    return await backend.loadLibrary(libraryId, signal)
+  }
+
+  async *watchLibrary(
+    libraryId: string | undefined,
+    signal?: AbortSignal,
+  ): AsyncIterable<LibraryUpdate[]> {
+    yield* this.watchBackend(
+      libraryId,
+      (backend, backendSignal) => backend.watchLibrary(libraryId, backendSignal),
+      updates => updates,
+      signal,
+    )
+  }
+
+  async getResolvedUnitSources(
+    libraryId: string | undefined,
+    unitTypes: string[],
+  ): Promise<ResolvedUnitSource[]> {
+    const backend = await this.getBackend(libraryId)
+
+    return await backend.getResolvedUnitSources(libraryId, unitTypes)
+  }
+
+  async *watchResolvedUnitSources(
+    libraryId: string | undefined,
+    signal?: AbortSignal,
+  ): AsyncIterable<ResolvedUnitSource> {
+    yield* this.watchBackend(
+      libraryId,
+      (backend, backendSignal) => backend.watchResolvedUnitSources(libraryId, backendSignal),
+      () => [],
+      signal,
+    )
+  }
+
+  async evaluateCompositeInstances(
+    libraryId: string | undefined,
+    allInstances: InstanceModel[],
+    resolvedInputs: Record<string, Record<string, ResolvedInstanceInput[]>>,
+  ): Promise<ProjectEvaluationResult> {
+    const backend = await this.getBackend(libraryId)
+
+    return await backend.evaluateCompositeInstances(libraryId, allInstances, resolvedInputs)
+  }
+
+  async prepareLibrary(spec: LibrarySpec): Promise<void> {
+    await this.backends[spec.type].prepareLibrary(spec)
+  }
+
+  async refreshLibrary(libraryId: string): Promise<void> {
+    const previousSpecType = this.specTypes.get(libraryId)
+
+    // the spec type may be changed as well
+    this.specTypes.delete(libraryId)
+
+    const backend = await this.getBackend(libraryId)
+    const specType = this.specTypes.get(libraryId)
+
+    // the backend may still serve the library loaded before the spec type was changed to another one
+    await backend.refreshLibrary(libraryId)
+
+    if (!previousSpecType || !specType || previousSpecType === specType) {
+      return
+    }
+
+    this.logger.info(
+      { libraryId, previousSpecType, specType },
+      "library spec type changed, switching to another backend",
+    )
+
+    const [previousLibrary, library] = await Promise.all([
+      this.loadPreviousLibrary(libraryId, previousSpecType),
+      backend.loadLibrary(libraryId),
+    ])
+
+    this.eventEmitter.emit("specTypeChanged", libraryId, [
+      [{ type: "reload-started" }],
+      diffLibraries(previousLibrary, library),
+      [{ type: "reload-completed" }],
+    ])
+  }
+
+  private async loadPreviousLibrary(
+    libraryId: string,
+    specType: LibrarySpec["type"],
+  ): Promise<LibraryModel> {
+    try {
+      return await this.backends[specType].loadLibrary(libraryId)
+    } catch (error) {
+      // the previous backend cannot load the library which it did not load before the change
+      this.logger.debug({ error, libraryId }, "failed to load library from previous backend")
+
+      return { components: {}, entities: {} }
+    }
+  }
+
+  /**
+   * Forwards the events watched on the backend of the library
+   * and switches to the backend of the new spec type when it is changed.
+   *
+   * @param libraryId The ID of the library to watch.
+   * @param watch The function watching the backend.
+   * @param getSwitchEvents The function returning the events to emit after switching the backend.
+   * @param signal The signal to stop watching.
+   */
+  private async *watchBackend<T>(
+    libraryId: string | undefined,
+    watch: (backend: LibraryBackend, signal?: AbortSignal) => AsyncIterable<T>,
+    getSwitchEvents: (updates: LibraryUpdate[][]) => T[],
+    signal?: AbortSignal,
+  ): AsyncIterable<T> {
+    if (!libraryId) {
+      yield* watch(this.backends.host, signal)
+      return
+    }
+
+    for (;;) {
+      const switchController = new AbortController()
+      let switchEvents: T[] = []
+
+      const handleSpecTypeChanged = (changedLibraryId: string, updates: LibraryUpdate[][]) => {
+        if (changedLibraryId === libraryId) {
+          switchEvents = getSwitchEvents(updates)
+          switchController.abort()
+        }
+      }
+
+      // subscribe before resolving the backend, so the change cannot be missed in between
+      this.eventEmitter.on("specTypeChanged", handleSpecTypeChanged)
+
+      try {
+        const backend = await this.getBackend(libraryId)
+        const backendSignal = signal
+          ? AbortSignal.any([signal, switchController.signal])
+          : switchController.signal
+
+        yield* watch(backend, backendSignal)
+      } catch (error) {
+        if (!switchController.signal.aborted || signal?.aborted) {
+          throw error
+        }
+      } finally {
+        this.eventEmitter.off("specTypeChanged", handleSpecTypeChanged)
+      }
+
+      if (!switchController.signal.aborted) {
+        return
+      }
+
+      yield* switchEvents
+    }
+  }
+
+  private async getBackend(libraryId: string | undefined): Promise<LibraryBackend> {
+    if (!libraryId) {
+      return this.backends.host
+    }
+
+    let specType = this.specTypes.get(libraryId)
+
+    if (!specType) {
+      const library = await this.database.backend.library.findUnique({
+        where: { id: libraryId },
+        select: { spec: true },
+      })
+
+      if (!library) {
+        this.logger.warn({ libraryId }, "library not found, falling back to host library")
+      }
+
+      specType = library?.spec.type ?? "host"
+      this.specTypes.set(libraryId, specType)
+    }
+
+    return this.backends[specType]
+  }
+}
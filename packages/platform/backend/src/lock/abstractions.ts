@@ -1,6 +1,21 @@
 export interface LockBackend {
+  /**
+   * The ID of the backend runtime holding the locks acquired through this backend.
+   */
+  readonly holderId: string
+
   /**
    * Acquires locks for the given keys and executes the function.
+   *
+   * If the locks were lost while the function was executed (e.g. taken over by another backend),
+   * the result of the function is discarded and an error is thrown instead.
    */
   acquire<T>(keys: string[], fn: () => Promise<T> | T): Promise<T>
+
+  /**
+   * Returns the IDs of the given holders which are still alive.
+   *
+   * The locks and other leases owned by the holders which are not alive are stale and can be safely recovered.
+   */
+  getAliveHolderIds(holderIds: string[]): Promise<string[]>
 }
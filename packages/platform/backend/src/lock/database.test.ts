@@ -0,0 +1,233 @@
+import { describe, vi } from "vitest"
+import { LockAcquireTimeoutError, LockHolderExpiredError, LockLeaseLostError } from "../shared"
+import { test } from "../test-utils"
+import { DatabaseLockBackend } from "./database"
+
+const config = {
+  HIGHSTATE_LOCK_BACKEND_DATABASE_LEASE_TTL_MS: 30000,
+  HIGHSTATE_LOCK_BACKEND_DATABASE_RETRY_INTERVAL_MS: 10,
+  HIGHSTATE_LOCK_BACKEND_DATABASE_ACQUIRE_TIMEOUT_MS: 30000,
+}
+
+describe("DatabaseLockBackend", () => {
+  test("holds the leases while the function is executed", async ({ database, logger, expect }) => {
+    // arrange
+    await using backend = await DatabaseLockBackend.create(
+      config,
+      database.backend,
+      "holder-1",
+      logger,
+    )
+
+    // act
+    const leases = await backend.acquire(["a", "b"], () => database.backend.lockLease.findMany())
+
+    // assert
+    expect(leases.map(lease => lease.key).sort()).toEqual(["a", "b"])
+    expect(leases.every(lease => lease.holderId === "holder-1")).toBe(true)
+    expect(await database.backend.lockLease.count()).toBe(0)
+  })
+
+  test("waits for the leases held by another alive backend", async ({
+    database,
+    logger,
+    expect,
+  }) => {
+    // arrange
+    await using backend1 = await DatabaseLockBackend.create(
+      config,
+      database.backend,
+      "holder-1",
+      logger,
+    )
+
+    await using backend2 = await DatabaseLockBackend.create(
+      config,
+      database.backend,
+      "holder-2",
+      logger,
+    )
+
+    const events: string[] = []
+    const released = Promise.withResolvers<void>()
+    const acquired = Promise.withResolvers<void>()
+
+    // act
+    const first = backend1.acquire(["a"], async () => {
+      events.push("first:start")
+      acquired.resolve()
+      await released.promise
+      events.push("first:end")
+    })
+
+    await acquired.promise
+
+    const second = backend2.acquire(["a"], () => {
+      events.push("second")
+    })
+
+    await new Promise(resolve => setTimeout(resolve, 50))
+    released.resolve()
+
+    await Promise.all([first, second])
+
+    // assert
+    expect(events).toEqual(["first:start", "first:end", "second"])
+  })
+
+  test("takes over the leases of the expired holder", async ({ database, logger, expect }) => {
+    // arrange
+    await database.backend.lockHolder.create({
+      data: { id: "dead-holder", expiresAt: new Date(Date.now() - 1000) },
+    })
+
+    await database.backend.lockLease.create({
+      data: { key: "a", holderId: "dead-holder" },
+    })
+
+    await using backend = await DatabaseLockBackend.create(
+      config,
+      database.backend,
+      "holder-1",
+      logger,
+    )
+
+    // act
+    const holderId = await backend.acquire(["a"], async () => {
+      const lease = await database.backend.lockLease.findUnique({ where: { key: "a" } })
+      return lease?.holderId
+    })
+
+    const aliveHolderIds = await backend.getAliveHolderIds(["dead-holder", "holder-1", "unknown"])
+
+    // assert
+    expect(holderId).toBe("holder-1")
+    expect(aliveHolderIds).toEqual(["holder-1"])
+  })
+
+  test("throws when the leases are not released in time", async ({ database, logger, expect }) => {
+    // arrange
+    await using backend1 = await DatabaseLockBackend.create(
+      config,
+      database.backend,
+      "holder-1",
+      logger,
+    )
+
+    await using backend2 = await DatabaseLockBackend.create(
+      { ...config, HIGHSTATE_LOCK_BACKEND_DATABASE_ACQUIRE_TIMEOUT_MS: 50 },
+      database.backend,
+      "holder-2",
+      logger,
+    )
+
+    const released = Promise.withResolvers<void>()
+    const acquired = Promise.withResolvers<void>()
+    const fn = vi.fn()
+
+    const first = backend1.acquire(["a"], async () => {
+      acquired.resolve()
+      await released.promise
+    })
+
+    await acquired.promise
+
+    // act & assert
+    await expect(backend2.acquire(["a"], fn)).rejects.toThrow(LockAcquireTimeoutError)
+    expect(fn).not.toHaveBeenCalled()
+
+    released.resolve()
+    await first
+  })
+  test("uses the database clock for the lease expiration", async ({ database, logger, expect }) => {
+    // arrange
+    await using backend1 = await DatabaseLockBackend.create(
+      config,
+      database.backend,
+      "holder-1",
+      logger,
+    )
+
+    await using backend2 = await DatabaseLockBackend.create(
+      config,
+      database.backend,
+      "holder-2",
+      logger,
+    )
+
+    // the clock of the backend is ahead of the database one
+    vi.useFakeTimers({ toFake: ["Date"] })
+    vi.setSystemTime(Date.now() + 60 * 60 * 1000)
+
+    try {
+      // act
+      const aliveHolderIds = await backend1.getAliveHolderIds([backend2.holderId])
+
+      // assert
+      expect(aliveHolderIds).toEqual(["holder-2"])
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  test("does not acquire the leases when the holder expired", async ({
+    database,
+    logger,
+    expect,
+  }) => {
+    // arrange
+    await using backend = await DatabaseLockBackend.create(
+      config,
+      database.backend,
+      "holder-1",
+      logger,
+    )
+
+    await database.backend.lockHolder.update({
+      where: { id: "holder-1" },
+      data: { expiresAt: new Date(Date.now() - 1000) },
+    })
+
+    const fn = vi.fn()
+
+    // act & assert
+    await expect(backend.acquire(["a"], fn)).rejects.toThrow(LockHolderExpiredError)
+    expect(fn).not.toHaveBeenCalled()
+  })
+
+  test("throws when the leases were taken over while held", async ({
+    database,
+    logger,
+    expect,
+  }) => {
+    // arrange
+    await using backend1 = await DatabaseLockBackend.create(
+      config,
+      database.backend,
+      "holder-1",
+      logger,
+    )
+
+    await using backend2 = await DatabaseLockBackend.create(
+      config,
+      database.backend,
+      "holder-2",
+      logger,
+    )
+
+    // act
+    const result = backend1.acquire(["a"], async () => {
+      // the holder expired and another backend took over the lease
+      await database.backend.lockLease.update({
+        where: { key: "a" },
+        data: { holderId: backend2.holderId },
+      })
+    })
+
+    // assert
+    await expect(result).rejects.toThrow(LockLeaseLostError)
+    expect(await database.backend.lockLease.findUnique({ where: { key: "a" } })).toMatchObject({
+      holderId: "holder-2",
+    })
+  })
+})
@@ -0,0 +1,249 @@
+import type { Logger } from "pino"
+import type { BackendDatabase } from "../database"
+import type { LockBackend } from "./abstractions"
+import { setTimeout } from "node:timers/promises"
+import { PrismaClientKnownRequestError } from "@prisma/client/runtime/client"
+import { z } from "zod"
+import { LockAcquireTimeoutError, LockHolderExpiredError, LockLeaseLostError } from "../shared"
+import { MemoryLockBackend } from "./memory"
+
+export const databaseLockBackendConfig = z.object({
+  HIGHSTATE_LOCK_BACKEND_DATABASE_LEASE_TTL_MS: z.coerce.number().int().positive().default(30000),
+  HIGHSTATE_LOCK_BACKEND_DATABASE_RETRY_INTERVAL_MS: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(200),
+  HIGHSTATE_LOCK_BACKEND_DATABASE_ACQUIRE_TIMEOUT_MS: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(300000),
+})
+
+/**
+ * The lock backend storing the leases in the backend database.
+ *
+ * Allows multiple backends sharing the same database to safely operate on the same projects.
+ * The locks are acquired in memory first, so the database is only polled on contention between different backends.
+ *
+ * Each backend registers itself as the lock holder and periodically extends its expiration time.
+ * When the backend crashes, its holder expires and all its leases become available to other backends.
+ * The expiration times are computed from the database clock, so the clocks of the backends may differ.
+ *
+ * The expired holder is fenced: it cannot acquire new leases until the heartbeat succeeds again,
+ * and if its leases were taken over while the function was executed, `LockLeaseLostError` is thrown
+ * instead of returning the result.
+ *
+ * If the leases cannot be acquired within the configured timeout, `LockAcquireTimeoutError` is thrown.
+ */
+export class DatabaseLockBackend implements LockBackend, AsyncDisposable {
+  private readonly localLock: LockBackend
+  private heartbeatTimer: ReturnType<typeof setInterval> | undefined
+
+  // the monotonic time before which the holder is known to be alive in the database
+  private holderDeadline = 0
+
+  private constructor(
+    private readonly database: BackendDatabase,
+    readonly holderId: string,
+    private readonly config: z.infer<typeof databaseLockBackendConfig>,
+    private readonly logger: Logger,
+  ) {
+    this.localLock = MemoryLockBackend.create(holderId)
+  }
+
+  async acquire<T>(keys: string[], fn: () => Promise<T> | T): Promise<T> {
+    return await this.localLock.acquire(keys, async () => {
+      const uniqueKeys = Array.from(new Set(keys))
+
+      await this.acquireLeases(uniqueKeys)
+
+      let result: T
+      try {
+        result = await fn()
+      } catch (error) {
+        await this.releaseLeases(uniqueKeys)
+        throw error
+      }
+
+      const releasedCount = await this.releaseLeases(uniqueKeys)
+
+      if (releasedCount < uniqueKeys.length) {
+        this.logger.error({ keys: uniqueKeys }, "leases were taken over by another backend")
+        throw new LockLeaseLostError(uniqueKeys)
+      }
+
+      return result
+    })
+  }
+
+  async getAliveHolderIds(holderIds: string[]): Promise<string[]> {
+    const now = await getDatabaseTime(this.database)
+
+    const holders = await this.database.lockHolder.findMany({
+      where: {
+        id: { in: holderIds },
+        expiresAt: { gte: now },
+      },
+      select: { id: true },
+    })
+
+    const aliveHolderIds = new Set(holders.map(holder => holder.id))
+
+    // the current runtime is alive even if the heartbeat is late, but only until its holder expires
+    const isCurrentAlive = performance.now() < this.holderDeadline
+
+    return holderIds.filter(
+      holderId => (holderId === this.holderId && isCurrentAlive) || aliveHolderIds.has(holderId),
+    )
+  }
+
+  private async releaseLeases(keys: string[]): Promise<number> {
+    const { count } = await this.database.lockLease.deleteMany({
+      where: { key: { in: keys }, holderId: this.holderId },
+    })
+
+    return count
+  }
+
+  private async acquireLeases(keys: string[]): Promise<void> {
+    const timeout = this.config.HIGHSTATE_LOCK_BACKEND_DATABASE_ACQUIRE_TIMEOUT_MS
+    const deadline = Date.now() + timeout
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await this.database.$transaction(async tx => {
+          const now = await getDatabaseTime(tx)
+
+          const holder = await tx.lockHolder.findUnique({
+            where: { id: this.holderId },
+            select: { expiresAt: true },
+          })
+
+          // the leases of the expired holder can be taken over by other backends at any moment
+          if (!holder || holder.expiresAt < now) {
+            throw new LockHolderExpiredError(this.holderId)
+          }
+
+          // take over the leases of the expired holders
+          await tx.lockLease.deleteMany({
+            where: {
+              key: { in: keys },
+              holder: { expiresAt: { lt: now } },
+            },
+          })
+
+          await tx.lockLease.createMany({
+            data: keys.map(key => ({ key, holderId: this.holderId })),
+          })
+        })
+
+        return
+      } catch (error) {
+        // the unique constraint violation means that some keys are held by another backend
+        if (!(error instanceof PrismaClientKnownRequestError && error.code === "P2002")) {
+          throw error
+        }
+      }
+
+      if (Date.now() >= deadline) {
+        throw new LockAcquireTimeoutError(keys, timeout)
+      }
+
+      if (attempt === 1) {
+        this.logger.debug({ keys }, "waiting for leases held by another backend")
+      }
+
+      await setTimeout(this.config.HIGHSTATE_LOCK_BACKEND_DATABASE_RETRY_INTERVAL_MS)
+    }
+  }
+
+  private async heartbeat(): Promise<void> {
+    const startedAt = performance.now()
+    const ttl = this.config.HIGHSTATE_LOCK_BACKEND_DATABASE_LEASE_TTL_MS
+    const now = (await getDatabaseTime(this.database)).getTime()
+
+    await this.database.lockHolder.upsert({
+      where: { id: this.holderId },
+      create: { id: this.holderId, expiresAt: new Date(now + ttl) },
+      update: { expiresAt: new Date(now + ttl) },
+    })
+
+    // the database time was taken after the heartbeat started (but may be truncated),
+    // so the holder cannot expire in the database earlier
+    this.holderDeadline = startedAt + ttl - databaseTimePrecisionMs
+
+    // cleanup the holders which are dead for a while along with their leases
+    const deadBefore = new Date(now - ttl)
+
+    await this.database.$transaction(async tx => {
+      await tx.lockLease.deleteMany({ where: { holder: { expiresAt: { lt: deadBefore } } } })
+      await tx.lockHolder.deleteMany({ where: { expiresAt: { lt: deadBefore } } })
+    })
+  }
+
+  private startHeartbeat(): void {
+    const interval = Math.floor(this.config.HIGHSTATE_LOCK_BACKEND_DATABASE_LEASE_TTL_MS / 3)
+
+    this.heartbeatTimer = setInterval(() => {
+      this.heartbeat().catch((error: unknown) => {
+        if (performance.now() < this.holderDeadline) {
+          this.logger.warn({ error }, "failed to extend the lock holder lease")
+          return
+        }
+
+        this.logger.error(
+          { error },
+          "failed to extend the expired lock holder lease, its leases may be taken over by other backends",
+        )
+      })
+    }, interval)
+
+    this.heartbeatTimer.unref()
+  }
+
+  async [Symbol.asyncDispose](): Promise<void> {
+    clearInterval(this.heartbeatTimer)
+
+    // release all leases immediately instead of waiting for them to expire
+    await this.database.$transaction(async tx => {
+      await tx.lockLease.deleteMany({ where: { holderId: this.holderId } })
+      await tx.lockHolder.deleteMany({ where: { id: this.holderId } })
+    })
+  }
+
+  static async create(
+    config: z.infer<typeof databaseLockBackendConfig>,
+    database: BackendDatabase,
+    holderId: string,
+    logger: Logger,
+  ): Promise<DatabaseLockBackend> {
+    const backend = new DatabaseLockBackend(
+      database,
+      holderId,
+      config,
+      logger.child({ service: "DatabaseLockBackend" }),
+    )
+
+    await backend.heartbeat()
+    backend.startHeartbeat()
+
+    return backend
+  }
+}
+
+const databaseTimePrecisionMs = 1000
+
+/**
+ * Returns the current time of the database server.
+ *
+ * SQLite returns the time as a string in UTC with the precision of seconds.
+ */
+async function getDatabaseTime(database: Pick<BackendDatabase, "$queryRaw">): Promise<Date> {
+  const [{ now }] = await database.$queryRaw<
+    [{ now: Date | string }]
+  >`SELECT CURRENT_TIMESTAMP AS now`
+
+  return now instanceof Date ? now : new Date(`${now.replace(" ", "T")}Z`)
+}
@@ -1,15 +1,27 @@
+import type { Logger } from "pino"
+import type { DatabaseManager } from "../database"
 import type { LockBackend } from "./abstractions"
 import { z } from "zod"
+import { DatabaseLockBackend, databaseLockBackendConfig } from "./database"
 import { MemoryLockBackend } from "./memory"
 
 export const lockBackendConfig = z.object({
-  HIGHSTATE_LOCK_BACKEND_TYPE: z.enum(["memory"]).default("memory"),
+  HIGHSTATE_LOCK_BACKEND_TYPE: z.enum(["memory", "database"]).default("memory"),
+  ...databaseLockBackendConfig.shape,
 })
 
-export function createLockBackend(config: z.infer<typeof lockBackendConfig>): LockBackend {
+export async function createLockBackend(
+  config: z.infer<typeof lockBackendConfig>,
+  database: DatabaseManager,
+  runtimeId: string,
+  logger: Logger,
+): Promise<LockBackend> {
   switch (config.HIGHSTATE_LOCK_BACKEND_TYPE) {
     case "memory": {
-      return MemoryLockBackend.create()
+      return MemoryLockBackend.create(runtimeId)
+    }
+    case "database": {
+      return await DatabaseLockBackend.create(config, database.backend, runtimeId, logger)
     }
   }
 }
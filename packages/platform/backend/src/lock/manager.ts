@@ -67,6 +67,13 @@ export type LockKey = Readonly<
 export class LockManager {
   constructor(private readonly lockBackend: LockBackend) {}
 
+  /**
+   * The ID of the backend runtime holding the locks acquired by this manager.
+   */
+  get holderId(): string {
+    return this.lockBackend.holderId
+  }
+
   /**
    * Acquires locks for the given keys and executes the function.
    *
@@ -84,4 +91,20 @@ export class LockManager {
 
     return this.lockBackend.acquire(keys.map(join(":")), fn)
   }
+
+  /**
+   * Returns the IDs of the given holders which are still alive.
+   *
+   * The resources owned by the holders which are not alive are stale and can be safely recovered.
+   *
+   * @param holderIds The IDs of the holders to check.
+   * @returns The IDs of the alive holders.
+   */
+  public async getAliveHolderIds(holderIds: string[]): Promise<string[]> {
+    if (holderIds.length === 0) {
+      return []
+    }
+
+    return await this.lockBackend.getAliveHolderIds(holderIds)
+  }
 }
@@ -1,11 +1,12 @@
 import type { BetterLock as BetterLockType } from "better-lock/dist/better_lock"
 import type { LockBackend } from "./abstractions"
+import { createId } from "@paralleldrive/cuid2"
 import { BetterLock } from "better-lock"
 
 export class MemoryLockBackend implements LockBackend {
   private readonly lock: BetterLockType
 
-  private constructor() {
+  private constructor(readonly holderId: string) {
     this.lock = new BetterLock()
   }
 
@@ -13,7 +14,12 @@ export class MemoryLockBackend implements LockBackend {
     return this.lock.acquire(keys, fn)
   }
 
-  static create(): LockBackend {
-    return new MemoryLockBackend()
+  getAliveHolderIds(holderIds: string[]): Promise<string[]> {
+    // the memory locks cannot be shared, so only the current runtime is alive
+    return Promise.resolve(holderIds.filter(holderId => holderId === this.holderId))
+  }
+
+  static create(holderId = createId()): MemoryLockBackend {
+    return new MemoryLockBackend(holderId)
   }
 }
@@ -0,0 +1,65 @@
+import type { Logger } from "pino"
+import type { operationApprovalServiceConfig, ProjectUnlockService } from "../business"
+import type { ProjectUnlockBackend } from "../unlock"
+import type { OperationManager } from "./manager"
+import { z } from "zod"
+import { PeriodicProjectTask } from "./periodic-project-task"
+
+export const approvalStalenessCheckerConfig = z.object({
+  HIGHSTATE_OPERATION_APPROVAL_STALENESS_CHECK_INTERVAL_MS: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(60 * 1000),
+})
+
+/**
+ * Periodically cancels the operations awaiting approval whose planned instances were changed
+ * since the planning, e.g. by editing the instance arguments or the secrets.
+ *
+ * The decisions on the approvals also check the staleness, but without this check
+ * the stale operation would stay awaiting approval until someone decides on it.
+ *
+ * Only runs when the approvals are required.
+ */
+export class ApprovalStalenessChecker implements Disposable {
+  private readonly task: PeriodicProjectTask | undefined
+
+  constructor(
+    private readonly config: z.infer<typeof approvalStalenessCheckerConfig> &
+      z.infer<typeof operationApprovalServiceConfig>,
+    projectUnlockBackend: ProjectUnlockBackend,
+    projectUnlockService: ProjectUnlockService,
+    private readonly operationManager: OperationManager,
+    private readonly logger: Logger,
+  ) {
+    if (this.config.HIGHSTATE_OPERATION_REQUIRED_APPROVALS === 0) {
+      return
+    }
+
+    this.task = new PeriodicProjectTask(
+      "check-approval-staleness",
+      this.config.HIGHSTATE_OPERATION_APPROVAL_STALENESS_CHECK_INTERVAL_MS,
+      projectUnlockBackend,
+      projectUnlockService,
+      projectId => this.cancelStaleApprovals(projectId),
+      this.logger,
+    )
+  }
+
+  private async cancelStaleApprovals(projectId: string): Promise<void> {
+    const cancelled = await this.operationManager.cancelStaleApprovals(projectId)
+
+    if (cancelled.length > 0) {
+      this.logger.info(
+        { projectId, operationIds: cancelled.map(operation => operation.id) },
+        "cancelled %d stale operations awaiting approval",
+        cancelled.length,
+      )
+    }
+  }
+
+  [Symbol.dispose](): void {
+    this.task?.[Symbol.dispose]()
+  }
+}
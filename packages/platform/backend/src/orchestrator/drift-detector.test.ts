@@ -0,0 +1,124 @@
+import type { ProjectUnlockService } from "../business"
+import type { Operation } from "../database"
+import type { OperationManager } from "./manager"
+import { createId } from "@paralleldrive/cuid2"
+import { describe, vi } from "vitest"
+import { test } from "../test-utils"
+import { MemoryProjectUnlockBackend } from "../unlock"
+import { DriftDetector } from "./drift-detector"
+
+describe("DriftDetector", () => {
+  const driftTest = test.extend<{
+    operationManager: OperationManager
+    detector: DriftDetector
+  }>({
+    operationManager: async ({}, use) => {
+      const operationManager = vi.mockObject({
+        launch: vi.fn().mockImplementation(async () => ({ id: createId() }) as Operation),
+      } as unknown as OperationManager)
+
+      await use(operationManager)
+    },
+
+    detector: async ({ database, operationManager, logger }, use) => {
+      using detector = new DriftDetector(
+        {
+          HIGHSTATE_DRIFT_DETECTION_ENABLED: false,
+          HIGHSTATE_DRIFT_DETECTION_INTERVAL_MS: 60_000,
+        },
+        database,
+        new MemoryProjectUnlockBackend(),
+        { registerUnlockTask: vi.fn() } as unknown as ProjectUnlockService,
+        operationManager,
+        logger,
+      )
+
+      await use(detector)
+    },
+  })
+
+  driftTest(
+    "launches drift detection refresh for deployed units",
+    async ({
+      detector,
+      operationManager,
+      createProject,
+      createInstanceState,
+      database,
+      expect,
+    }) => {
+      // arrange
+      const project = await createProject("drift")
+      const projectDatabase = await database.forProject(project.id)
+
+      const deployedUnit = await createInstanceState(project.id)
+      await createInstanceState(project.id)
+      const composite = await createInstanceState(project.id, "composite.v1", "composite")
+
+      await projectDatabase.instanceState.updateMany({
+        where: { id: { in: [deployedUnit.id, composite.id] } },
+        data: { status: "deployed" },
+      })
+
+      // act
+      const operation = await detector.detectDrift(project.id)
+
+      // assert
+      expect(operation).not.toBeNull()
+      expect(operationManager.launch).toHaveBeenCalledWith(
+        expect.objectContaining({
+          projectId: project.id,
+          type: "refresh",
+          instanceIds: [deployedUnit.instanceId],
+          meta: expect.objectContaining({
+            initiator: { type: "system", source: "drift-detector" },
+          }),
+          options: expect.objectContaining({ detectDrift: true }),
+        }),
+      )
+    },
+  )
+
+  driftTest(
+    "does not launch detection while the previous one is running",
+    async ({
+      detector,
+      operationManager,
+      createProject,
+      createInstanceState,
+      database,
+      expect,
+    }) => {
+      // arrange
+      const project = await createProject("drift-running")
+      const projectDatabase = await database.forProject(project.id)
+
+      const unit = await createInstanceState(project.id)
+      await projectDatabase.instanceState.update({
+        where: { id: unit.id },
+        data: { status: "deployed" },
+      })
+
+      const runningOperation = await projectDatabase.operation.create({
+        data: {
+          meta: { title: "Drift Detection" },
+          type: "refresh",
+          status: "running",
+          options: {},
+          requestedInstanceIds: [unit.instanceId],
+          phases: [],
+        },
+      })
+
+      vi.mocked(operationManager.launch).mockResolvedValueOnce(runningOperation as Operation)
+
+      // act
+      await detector.detectDrift(project.id)
+      const secondOperation = await detector.detectDrift(project.id)
+
+      // assert
+      expect(secondOperation).toBeNull()
+      expect(operationManager.launch).toHaveBeenCalledTimes(1)
+    },
+  )
+})
@@ -0,0 +1,117 @@
+import type { Logger } from "pino"
+import type { ProjectUnlockService } from "../business"
+import type { DatabaseManager, Operation } from "../database"
+import type { ProjectUnlockBackend } from "../unlock"
+import type { OperationManager } from "./manager"
+import { z } from "zod"
+import { isFinalOperationStatus } from "../shared"
+import { PeriodicProjectTask } from "./periodic-project-task"
+
+export const driftDetectorConfig = z.object({
+  HIGHSTATE_DRIFT_DETECTION_ENABLED: z.stringbool().default(false),
+  HIGHSTATE_DRIFT_DETECTION_INTERVAL_MS: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(6 * 60 * 60 * 1000),
+})
+
+/**
+ * Periodically detects the resources of the deployed instances changed outside of Highstate.
+ *
+ * The detection is performed by launching the refresh operation with the `detectDrift` option
+ * for all deployed units of the unlocked projects.
+ * The refresh runs in the preview-only mode, so the stack states are not changed,
+ * and the instances with changed resources are marked with the `drifted` custom status.
+ *
+ * The first detection of the project is performed one interval after the project is unlocked.
+ */
+export class DriftDetector implements Disposable {
+  private readonly lastOperationIds = new Map<string, string>()
+  private readonly task: PeriodicProjectTask | undefined
+
+  constructor(
+    private readonly config: z.infer<typeof driftDetectorConfig>,
+    private readonly database: DatabaseManager,
+    projectUnlockBackend: ProjectUnlockBackend,
+    projectUnlockService: ProjectUnlockService,
+    private readonly operationManager: OperationManager,
+    private readonly logger: Logger,
+  ) {
+    if (!this.config.HIGHSTATE_DRIFT_DETECTION_ENABLED) {
+      return
+    }
+
+    this.task = new PeriodicProjectTask(
+      "detect-drift",
+      this.config.HIGHSTATE_DRIFT_DETECTION_INTERVAL_MS,
+      projectUnlockBackend,
+      projectUnlockService,
+      async projectId => {
+        await this.detectDrift(projectId)
+      },
+      this.logger,
+    )
+  }
+
+  /**
+   * Launches the drift detection for all deployed units of the project.
+   *
+   * Does nothing if the previous drift detection of the project is still running.
+   *
+   * @param projectId The ID of the project to detect the drift for.
+   * @returns The launched operation or null if there is nothing to check.
+   */
+  async detectDrift(projectId: string): Promise<Operation | null> {
+    const database = await this.database.forProject(projectId)
+
+    const lastOperationId = this.lastOperationIds.get(projectId)
+    if (lastOperationId) {
+      const lastOperation = await database.operation.findUnique({
+        where: { id: lastOperationId },
+        select: { status: true },
+      })
+
+      if (lastOperation && !isFinalOperationStatus(lastOperation.status)) {
+        this.logger.debug(
+          { projectId, operationId: lastOperationId },
+          "skipping drift detection since the previous one is still running",
+        )
+        return null
+      }
+    }
+
+    const states = await database.instanceState.findMany({
+      where: { kind: "unit", status: "deployed" },
+      select: { instanceId: true },
+    })
+
+    if (states.length === 0) {
+      return null
+    }
+
+    this.logger.info({ projectId }, "detecting drift of %d instances", states.length)
+
+    const operation = await this.operationManager.launch({
+      projectId,
+      type: "refresh",
+      instanceIds: states.map(state => state.instanceId),
+      meta: {
+        title: "Drift Detection",
+        initiator: { type: "system", source: "drift-detector" },
+      },
+      options: {
+        detectDrift: true,
+        ignoreDependencies: true,
+      },
+    })
+
+    this.lastOperationIds.set(projectId, operation.id)
+
+    return operation
+  }
+
+  [Symbol.dispose](): void {
+    this.task?.[Symbol.dispose]()
+  }
+}
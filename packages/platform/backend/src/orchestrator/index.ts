@@ -1 +1,5 @@
+export * from "./approval-staleness-checker"
+export * from "./drift-detector"
 export * from "./manager"
+export * from "./trigger-scheduler"
+export * from "./worker-operation-requester"
@@ -0,0 +1,514 @@
+import type { InstanceModel } from "@highstate/contract"
+import type { LibraryService, OperationApprovalService, ProjectUnlockService } from "../business"
+import type { Operation } from "../database"
+import type { LibraryBackend } from "../library"
+import type { LockManager } from "../lock"
+import type { OperationContext } from "./operation-context"
+import { describe, type MockedObject, vi } from "vitest"
+import { OperationManager } from "./manager"
+import { loadMockedContext, type MockedContextInput, operationTest } from "./operation.test-utils"
+
+const managerTest = operationTest.extend<{
+  libraryBackend: MockedObject<LibraryBackend>
+  libraryService: MockedObject<LibraryService>
+  createContext: (input: MockedContextInput) => Promise<OperationContext>
+  operationApprovalService: MockedObject<OperationApprovalService>
+  operationManager: OperationManager
+  createAwaitingOperation: (
+    instance: InstanceModel,
+    context: OperationContext,
+    inputHashDelta?: number,
+  ) => Operation
+}>({
+  operationApprovalService: async ({}, use) => {
+    const operationApprovalService = vi.mockObject({
+      decide: vi.fn(),
+      cancelOperation: vi
+        .fn()
+        .mockImplementation(
+          async (_projectId: string, operationId: string) =>
+            ({ id: operationId, status: "cancelled" }) as Operation,
+        ),
+      getAwaitingOperations: vi.fn().mockResolvedValue([]),
+      isApprovalRequired: vi.fn().mockResolvedValue(false),
+      requestApproval: vi.fn(),
+    } as unknown as OperationApprovalService)
+
+    await use(operationApprovalService)
+  },
+
+  operationManager: async (
+    {
+      database,
+      logger,
+      runnerBackend,
+      libraryBackend,
+      artifactService,
+      instanceLockService,
+      operationService,
+      secretService,
+      instanceStateService,
+      projectModelService,
+      unitExtraService,
+      entitySnapshotService,
+      unitOutputService,
+      libraryService,
+      projectPortService,
+      operationApprovalService,
+    },
+    use,
+  ) => {
+    await use(
+      new OperationManager(
+        runnerBackend,
+        libraryBackend,
+        artifactService,
+        instanceLockService,
+        { registerUnlockTask: vi.fn() } as unknown as ProjectUnlockService,
+        operationService,
+        secretService,
+        instanceStateService,
+        projectModelService,
+        unitExtraService,
+        entitySnapshotService,
+        unitOutputService,
+        libraryService,
+        projectPortService,
+        operationApprovalService,
+        database,
+        { holderId: "test-holder" } as unknown as LockManager,
+        logger,
+      ),
+    )
+  },
+
+  // the fixtures with the same names from other test files share the same base test,
+  // so the services the manager and the context are created with are redeclared here
+  libraryBackend: async ({}, use) => {
+    const libraryBackend = vi.mockObject({
+      loadLibrary: vi.fn(),
+      getResolvedUnitSources: vi.fn(),
+      getImportPath: vi.fn().mockResolvedValue("/workspace/package.json"),
+    } as unknown as LibraryBackend)
+
+    await use(libraryBackend)
+  },
+
+  libraryService: async ({}, use) => {
+    const libraryService = vi.mockObject({
+      getLibraryModel: vi.fn(),
+      getResolvedUnitSources: vi.fn(),
+    } as unknown as LibraryService)
+
+    await use(libraryService)
+  },
+
+  createContext: async (
+    {
+      project,
+      logger,
+      libraryService,
+      instanceStateService,
+      projectModelService,
+      createMockLibrary,
+    },
+    use,
+  ) => {
+    await use(input =>
+      loadMockedContext(
+        {
+          project,
+          logger,
+          libraryService,
+          instanceStateService,
+          projectModelService,
+          createMockLibrary,
+        },
+        input,
+      ),
+    )
+  },
+
+  createAwaitingOperation: async ({ createOperation }, use) => {
+    await use((instance, context, inputHashDelta = 0) => {
+      const operation = createOperation({
+        type: "update",
+        requestedInstanceIds: [instance.id],
+        phases: [
+          {
+            type: "update",
+            instances: [{ id: instance.id, message: "requested", parentId: undefined }],
+          },
+        ],
+      })
+
+      const inputHash = context.inputHashResolver.requireOutput(instance.id).inputHash
+
+      return {
+        ...operation,
+        status: "awaiting_approval",
+        approvalRequest: {
+          requiredApprovals: 1,
+          inputHashes: { [instance.id]: inputHash + inputHashDelta },
+          previewOperationIds: [],
+        },
+      }
+    })
+  },
+})
+
+describe("OperationManager", () => {
+  managerTest(
+    "cancels only stale operations awaiting approval",
+    async ({
+      project,
+      operationManager,
+      operationApprovalService,
+      createUnit,
+      createDeployedUnitState,
+      createContext,
+      createAwaitingOperation,
+      expect,
+    }) => {
+      // arrange
+      const unit = createUnit("A")
+      const context = await createContext({
+        instances: [unit],
+        states: [createDeployedUnitState(unit)],
+      })
+
+      const freshOperation = createAwaitingOperation(unit, context)
+      const staleOperation = createAwaitingOperation(unit, context, 1)
+
+      operationApprovalService.getAwaitingOperations.mockResolvedValue([
+        freshOperation,
+        staleOperation,
+      ])
+
+      // act
+      const cancelled = await operationManager.cancelStaleApprovals(project.id)
+
+      // assert
+      expect(cancelled.map(operation => operation.id)).toEqual([staleOperation.id])
+      expect(operationApprovalService.cancelOperation).toHaveBeenCalledTimes(1)
+      expect(operationApprovalService.cancelOperation).toHaveBeenCalledWith(
+        project.id,
+        staleOperation.id,
+        expect.stringContaining("changed after planning"),
+      )
+    },
+  )
+
+  managerTest(
+    "cancels operation when instance changes before final approval",
+    async ({
+      project,
+      operationManager,
+      operationApprovalService,
+      operationService,
+      createUnit,
+      createDeployedUnitState,
+      createContext,
+      createAwaitingOperation,
+      expect,
+    }) => {
+      // arrange
+      const unit = createUnit("A")
+      const context = await createContext({
+        instances: [unit],
+        states: [createDeployedUnitState(unit)],
+      })
+
+      const operation = createAwaitingOperation(unit, context)
+
+      // the arguments of the instance are changed after planning
+      const changedUnit = { ...unit, args: { value: "changed" } }
+      await createContext({ instances: [changedUnit], states: [createDeployedUnitState(unit)] })
+
+      operationApprovalService.decide.mockResolvedValue({ operation, approved: true })
+
+      // act
+      const result = await operationManager.decideApproval(
+        { projectId: project.id, operationId: operation.id, decision: "approved" },
+        "reviewer",
+      )
+
+      // assert
+      expect(result.status).toBe("cancelled")
+      expect(operationApprovalService.cancelOperation).toHaveBeenCalledTimes(1)
+      expect(operationService.transitionOperation).not.toHaveBeenCalled()
+    },
+  )
+
+  managerTest(
+    "starts operation with stored plan after final approval",
+    async ({
+      project,
+      operationManager,
+      operationApprovalService,
+      operationService,
+      runnerBackend,
+      createUnit,
+      createDeployedUnitState,
+      createContext,
+      createAwaitingOperation,
+      setupImmediateLocking,
+      setupPersistenceMocks,
+      expect,
+    }) => {
+      // arrange
+      const unit = createUnit("A")
+      const context = await createContext({
+        instances: [unit],
+        states: [createDeployedUnitState(unit)],
+      })
+
+      setupImmediateLocking()
+      setupPersistenceMocks({ instances: [unit] })
+
+      const operation = createAwaitingOperation(unit, context)
+      const approvedOperation = { ...operation, status: "pending" as const }
+
+      operationApprovalService.decide.mockResolvedValue({ operation, approved: true })
+      operationService.transitionOperation.mockResolvedValue(approvedOperation)
+
+      // act
+      const result = await operationManager.decideApproval(
+        { projectId: project.id, operationId: operation.id, decision: "approved" },
+        "reviewer",
+      )
+
+      // assert
+      expect(result).toBe(approvedOperation)
+      expect(operationService.transitionOperation).toHaveBeenCalledWith(
+        project.id,
+        operation.id,
+        "awaiting_approval",
+        { status: "pending", holderId: "test-holder" },
+      )
+      expect(operationApprovalService.cancelOperation).not.toHaveBeenCalled()
+
+      await vi.waitFor(() => {
+        expect(runnerBackend.update).toHaveBeenCalledWith(
+          expect.objectContaining({ instanceName: "A" }),
+        )
+      })
+    },
+  )
+
+  managerTest(
+    "retries processed instances when none of requested instances is retried",
+    async ({
+      project,
+      operationManager,
+      operationService,
+      createUnit,
+      createDeployedUnitState,
+      createContext,
+      createOperation,
+      expect,
+    }) => {
+      // arrange
+      const unitA = createUnit("A")
+      const unitB = createUnit("B")
+
+      await createContext({
+        instances: [unitA, unitB],
+        states: [createDeployedUnitState(unitA), createDeployedUnitState(unitB)],
+      })
+
+      const failedOperation: Operation = {
+        ...createOperation({
+          type: "update",
+          requestedInstanceIds: [unitB.id],
+          phases: [
+            {
+              type: "update",
+              instances: [{ id: unitA.id, message: "dependency", parentId: undefined }],
+            },
+          ],
+        }),
+        status: "failed",
+      }
+
+      operationService.getOperation.mockResolvedValue(failedOperation)
+
+      const launch = vi
+        .spyOn(operationManager, "launch")
+        .mockImplementation(async () => ({ id: "retry" }) as Operation)
+
+      // act
+      await operationManager.retry(project.id, failedOperation.id)
+
+      // assert
+      expect(launch).toHaveBeenCalledWith(
+        expect.objectContaining({ instanceIds: [unitA.id] }),
+        failedOperation.id,
+      )
+    },
+  )
+
+  managerTest(
+    "launches single preview operation for all planned units when approval is required",
+    async ({
+      project,
+      operationManager,
+      operationApprovalService,
+      operationService,
+      createUnit,
+      createDeployedUnitState,
+      createContext,
+      createOperation,
+      expect,
+    }) => {
+      // arrange
+      const unitA = createUnit("A")
+      const unitB = createUnit("B")
+
+      await createContext({
+        instances: [unitA, unitB],
+        states: [createDeployedUnitState(unitA), createDeployedUnitState(unitB)],
+      })
+
+      const plan = [
+        {
+          type: "update" as const,
+          instances: [
+            { id: unitA.id, message: "requested", parentId: undefined },
+            { id: unitB.id, message: "requested", parentId: undefined },
+          ],
+        },
+      ]
+
+      const operation = createOperation({
+        type: "update",
+        requestedInstanceIds: [unitA.id, unitB.id],
+        phases: plan,
+      })
+
+      operationService.createOperation.mockResolvedValue(operation)
+      operationApprovalService.isApprovalRequired.mockImplementation(
+        async type => type !== "preview",
+      )
+      operationApprovalService.requestApproval.mockResolvedValue(operation)
+
+      const launch = operationManager.launch.bind(operationManager)
+      const launchSpy = vi
+        .spyOn(operationManager, "launch")
+        .mockImplementation(async request =>
+          request.type === "preview" ? ({ id: "preview" } as Operation) : await launch(request),
+        )
+
+      // act
+      await operationManager.launch({
+        projectId: project.id,
+        type: "update",
+        instanceIds: [unitA.id, unitB.id],
+        meta: { title: "Update" },
+        plan,
+      })
+
+      // assert
+      const previewRequests = launchSpy.mock.calls
+        .map(([request]) => request)
+        .filter(request => request.type === "preview")
+
+      expect(previewRequests).toEqual([
+        expect.objectContaining({
+          instanceIds: [unitA.id, unitB.id],
+          meta: expect.objectContaining({
+            initiator: { type: "system", source: "operation-approval" },
+          }),
+          plan: [{ type: "preview", instances: plan[0]!.instances }],
+        }),
+      ])
+      expect(operationApprovalService.requestApproval).toHaveBeenCalledWith(
+        project.id,
+        operation.id,
+        plan,
+        expect.any(Object),
+        ["preview"],
+      )
+    },
+  )
+
+  managerTest(
+    "checks undeployed changes of system operations by input hashes of planned units",
+    async ({
+      project,
+      operationManager,
+      operationApprovalService,
+      operationService,
+      createUnit,
+      createDeployedUnitState,
+      createContext,
+      createOperation,
+      expect,
+    }) => {
+      // arrange
+      const unit = createUnit("A")
+      const plan = [
+        {
+          type: "update" as const,
+          instances: [{ id: unit.id, message: "requested", parentId: undefined }],
+        },
+      ]
+
+      const operation = createOperation({
+        type: "update",
+        requestedInstanceIds: [unit.id],
+        phases: plan,
+      })
+
+      const undeployedChanges: boolean[] = []
+
+      operationService.createOperation.mockResolvedValue(operation)
+      operationApprovalService.requestApproval.mockResolvedValue(operation)
+      operationApprovalService.isApprovalRequired.mockImplementation(
+        async (_type, _meta, hasUndeployedChanges) => {
+          undeployedChanges.push(await hasUndeployedChanges())
+          return true
+        },
+      )
+
+      const launchOperation = operationManager.launch.bind(operationManager)
+      vi.spyOn(operationManager, "launch").mockImplementation(async request =>
+        request.type === "preview"
+          ? ({ id: "preview" } as Operation)
+          : await launchOperation(request),
+      )
+
+      const launch = () =>
+        operationManager.launch({
+          projectId: project.id,
+          type: "update",
+          instanceIds: [unit.id],
+          meta: {
+            title: "Scheduled trigger",
+            initiator: { type: "system", source: "trigger-scheduler" },
+          },
+          plan,
+        })
+
+      const context = await createContext({
+        instances: [unit],
+        states: [createDeployedUnitState(unit)],
+      })
+
+      const { inputHash } = context.inputHashResolver.requireOutput(unit.id)
+
+      // act
+      await launch()
+
+      await createContext({
+        instances: [unit],
+        states: [{ ...createDeployedUnitState(unit), inputHash }],
+      })
+
+      await launch()
+
+      // assert
+      expect(undeployedChanges).toEqual([true, false])
+    },
+  )
+})
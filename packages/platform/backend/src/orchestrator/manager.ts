@@ -5,6 +5,7 @@ import type {
   InstanceLockService,
   InstanceStateService,
   LibraryService,
+  OperationApprovalService,
   OperationService,
   ProjectModelService,
   ProjectPortService,
@@ -16,10 +17,17 @@ import type {
 import type { ArtifactService } from "../business/artifact"
 import type { DatabaseManager, Operation, Project } from "../database"
 import type { LibraryBackend } from "../library"
+import type { LockManager } from "../lock"
 import type { RunnerBackend } from "../runner"
+import { isDeepEqual } from "remeda"
 import {
   finalOperationStatuses,
+  type OperationApprovalInput,
+  type OperationInitiator,
   type OperationLaunchInput,
+  OperationNotFoundError,
+  OperationNotRetryableError,
+  type OperationOptions,
   type OperationPhase,
   type OperationPlanInput,
   operationOptionsSchema,
@@ -28,6 +36,7 @@ import { finalInstanceOperationStatuses } from "../shared/models/project/state"
 import { RuntimeOperation } from "./operation"
 import { OperationContext } from "./operation-context"
 import { createOperationPlan } from "./operation-plan"
+import { createRetryPlan } from "./operation-retry"
 
 export class OperationManager {
   constructor(
@@ -45,7 +54,9 @@ export class OperationManager {
     private readonly unitOutputService: UnitOutputService,
     private readonly libraryService: LibraryService,
     private readonly projectPortService: ProjectPortService,
+    private readonly operationApprovalService: OperationApprovalService,
     private readonly database: DatabaseManager,
+    private readonly lockManager: LockManager,
     private readonly logger: Logger,
   ) {
     this.projectUnlockService.registerUnlockTask(
@@ -91,19 +102,35 @@ export class OperationManager {
   /**
    * Launches the project operation.
    *
+   * If the operation must be approved, it is only planned and left awaiting approval.
+   *
    * @param request The operation request to launch.
+   * @param retriedOperationId The ID of the failed operation retried by the launched one.
    */
-  async launch(request: OperationLaunchInput): Promise<Operation> {
+  async launch(request: OperationLaunchInput, retriedOperationId?: string): Promise<Operation> {
     const options = operationOptionsSchema.parse(request.options ?? {})
 
+    const approvalRequired = await this.operationApprovalService.isApprovalRequired(
+      request.type,
+      request.meta,
+      () => this.hasUndeployedChanges(request, options),
+    )
+
     const operation = await this.operationService.createOperation(
       request.projectId,
       request.meta,
       request.type,
       request.instanceIds,
       options,
+      this.lockManager.holderId,
+      request.plan,
+      retriedOperationId,
     )
 
+    if (approvalRequired) {
+      return await this.requestApproval(operation, request.projectId)
+    }
+
     this.logger.info({ operation }, "launching operation")
 
     const project = await this.database.backend.project.findUnique({
@@ -119,6 +146,284 @@ export class OperationManager {
     return operation
   }
 
+  /**
+   * Retries the failed or cancelled operation reusing its plan.
+   *
+   * Only the instances which were not processed successfully and their dependents are retried,
+   * so the healthy instances are not touched again.
+   *
+   * @param projectId The ID of the project containing the operation.
+   * @param operationId The ID of the failed or cancelled operation.
+   * @param initiator The initiator of the retry operation.
+   * @returns The launched retry operation.
+   */
+  async retry(
+    projectId: string,
+    operationId: string,
+    initiator?: OperationInitiator,
+  ): Promise<Operation> {
+    const failedOperation = await this.operationService.getOperation(projectId, operationId)
+    if (!failedOperation) {
+      throw new OperationNotFoundError(projectId, operationId)
+    }
+
+    if (
+      (failedOperation.status !== "failed" && failedOperation.status !== "cancelled") ||
+      !failedOperation.phases
+    ) {
+      throw new OperationNotRetryableError(projectId, operationId)
+    }
+
+    const database = await this.database.forProject(projectId)
+
+    const operationStates = await database.instanceOperationState.findMany({
+      where: { operationId },
+      select: {
+        status: true,
+        state: { select: { instanceId: true } },
+      },
+    })
+
+    const context = await OperationContext.load(
+      projectId,
+      this.libraryService,
+      this.instanceStateService,
+      this.projectModelService,
+      undefined,
+      this.logger,
+    )
+
+    const phases = createRetryPlan(
+      failedOperation.phases,
+      new Map(operationStates.map(state => [state.state.instanceId as InstanceId, state.status])),
+      instanceId => context.getDependentStates(instanceId).map(state => state.instanceId),
+    )
+
+    if (phases.length === 0) {
+      throw new OperationNotRetryableError(projectId, operationId)
+    }
+
+    const retriedInstanceIds = new Set(phases.flatMap(phase => phase.instances.map(i => i.id)))
+
+    // none of the requested instances may be retried, e.g. when only the dependencies processed along with them failed
+    const requestedInstanceIds = failedOperation.requestedInstanceIds.filter(id =>
+      retriedInstanceIds.has(id),
+    )
+
+    return await this.launch(
+      {
+        projectId,
+        type: failedOperation.type,
+        instanceIds:
+          requestedInstanceIds.length > 0 ? requestedInstanceIds : Array.from(retriedInstanceIds),
+        options: failedOperation.options,
+        meta: {
+          title: `Retry of "${failedOperation.meta.title}"`,
+          initiator,
+        },
+        plan: phases,
+      },
+      operationId,
+    )
+  }
+
+  /**
+   * Records the decision of the user on the operation awaiting approval.
+   *
+   * Every approval verifies that the planned instances were not changed since the planning,
+   * otherwise the operation is cancelled.
+   * Once the operation collects all required approvals, it is started with the stored plan.
+   *
+   * @param input The decision.
+   * @param userId The ID of the user making the decision.
+   * @returns The operation after the decision.
+   */
+  async decideApproval(input: OperationApprovalInput, userId: string): Promise<Operation> {
+    const { operation, approved } = await this.operationApprovalService.decide(input, userId)
+    if (input.decision === "rejected") {
+      return operation
+    }
+
+    const context = await OperationContext.load(
+      input.projectId,
+      this.libraryService,
+      this.instanceStateService,
+      this.projectModelService,
+      undefined,
+      this.logger,
+    )
+
+    if (isApprovalStale(context, operation)) {
+      const cancelled = await this.cancelStaleApproval(input.projectId, operation.id)
+
+      return cancelled ?? operation
+    }
+
+    if (!approved) {
+      return operation
+    }
+
+    // only one of the concurrent final approvals starts the operation
+    const approvedOperation = await this.operationService.transitionOperation(
+      input.projectId,
+      operation.id,
+      "awaiting_approval",
+      { status: "pending", holderId: this.lockManager.holderId },
+    )
+
+    if (!approvedOperation) {
+      return operation
+    }
+
+    const project = await this.database.backend.project.findUnique({
+      where: { id: input.projectId },
+    })
+
+    if (!project) {
+      throw new Error(`Project with ID "${input.projectId}" not found`)
+    }
+
+    this.logger.info({ operation: approvedOperation }, "launching approved operation")
+    this.startOperation(project, approvedOperation)
+
+    return approvedOperation
+  }
+
+  /**
+   * Cancels the operations awaiting approval whose planned instances were changed since the planning,
+   * so the approvers never see the stale plan.
+   *
+   * @param projectId The ID of the project to check.
+   * @returns The cancelled operations.
+   */
+  async cancelStaleApprovals(projectId: string): Promise<Operation[]> {
+    const operations = await this.operationApprovalService.getAwaitingOperations(projectId)
+    if (operations.length === 0) {
+      return []
+    }
+
+    const context = await OperationContext.load(
+      projectId,
+      this.libraryService,
+      this.instanceStateService,
+      this.projectModelService,
+      undefined,
+      this.logger,
+    )
+
+    const cancelledOperations: Operation[] = []
+
+    for (const operation of operations) {
+      if (!isApprovalStale(context, operation)) {
+        continue
+      }
+
+      const cancelled = await this.cancelStaleApproval(projectId, operation.id)
+      if (cancelled) {
+        cancelledOperations.push(cancelled)
+      }
+    }
+
+    return cancelledOperations
+  }
+
+  private async cancelStaleApproval(
+    projectId: string,
+    operationId: string,
+  ): Promise<Operation | null> {
+    return await this.operationApprovalService.cancelOperation(
+      projectId,
+      operationId,
+      "Operation was cancelled because the planned instances were changed after planning",
+    )
+  }
+
+  /**
+   * Checks whether the operation would update the units whose inputs changed since their last deployment.
+   */
+  private async hasUndeployedChanges(
+    request: OperationLaunchInput,
+    options: OperationOptions,
+  ): Promise<boolean> {
+    const context = await OperationContext.load(
+      request.projectId,
+      this.libraryService,
+      this.instanceStateService,
+      this.projectModelService,
+      undefined,
+      this.logger,
+    )
+
+    const phases =
+      request.plan ?? createOperationPlan(context, request.type, request.instanceIds, options)
+
+    return phases
+      .filter(phase => phase.type === "update")
+      .flatMap(phase => phase.instances)
+      .filter(instance => context.getInstance(instance.id).kind === "unit")
+      .some(instance => {
+        const { inputHash } = context.inputHashResolver.requireOutput(instance.id)
+
+        return context.getState(instance.id).inputHash !== inputHash
+      })
+  }
+
+  private async requestApproval(operation: Operation, projectId: string): Promise<Operation> {
+    try {
+      const context = await OperationContext.load(
+        projectId,
+        this.libraryService,
+        this.instanceStateService,
+        this.projectModelService,
+        undefined,
+        this.logger,
+      )
+
+      const phases =
+        operation.phases ??
+        createOperationPlan(
+          context,
+          operation.type,
+          operation.requestedInstanceIds,
+          operation.options,
+        )
+
+      // preview all units to be updated to show the planned resource changes to the approvers
+      const previewInstances = phases
+        .filter(phase => phase.type === "update")
+        .flatMap(phase => phase.instances)
+        .filter(instance => context.getInstance(instance.id).kind === "unit")
+
+      const previewOperationIds: string[] = []
+
+      if (previewInstances.length > 0) {
+        const previewOperation = await this.launch({
+          projectId,
+          type: "preview",
+          instanceIds: previewInstances.map(instance => instance.id),
+          meta: {
+            title: `Preview for "${operation.meta.title}"`,
+            initiator: { type: "system", source: "operation-approval" },
+          },
+          plan: [{ type: "preview", instances: previewInstances }],
+        })
+
+        previewOperationIds.push(previewOperation.id)
+      }
+
+      return await this.operationApprovalService.requestApproval(
+        projectId,
+        operation.id,
+        phases,
+        getPlanInputHashes(context, phases),
+        previewOperationIds,
+      )
+    } catch (error) {
+      await this.operationService.markOperationFinished(projectId, operation.id, "failed")
+      throw error
+    }
+  }
+
   /**
    * Cancels the current operation.
    * Does nothing if no operation is running.
@@ -169,24 +474,58 @@ export class OperationManager {
     })
   }
 
+  /**
+   * Recovers the state of the project left by the crashed backends.
+   *
+   * Only the operations and locks of the backends which are no longer alive are recovered,
+   * so the operations running on the other backends sharing the project are not affected.
+   *
+   * @param projectId The ID of the project to recover.
+   */
   private async recoverSystemState(projectId: string): Promise<void> {
     const database = await this.database.forProject(projectId)
 
-    await database.$transaction(async tx => {
-      // 1. process lost operations
-      const activeOperations = await tx.operation.findMany({
-        where: {
-          status: {
-            not: {
-              in: finalOperationStatuses,
-            },
-          },
+    // the operations awaiting approval are not held by any backend
+    const activeOperations = await database.operation.findMany({
+      where: {
+        status: {
+          notIn: [...finalOperationStatuses, "awaiting_approval"],
         },
-      })
+      },
+      select: { id: true, holderId: true },
+    })
+
+    const existingLocks = await database.instanceLock.findMany({
+      select: { stateId: true, holderId: true },
+    })
 
-      if (activeOperations.length > 0) {
+    const holderIds = Array.from(
+      new Set(
+        [...activeOperations, ...existingLocks]
+          .map(item => item.holderId)
+          .filter(holderId => holderId !== null),
+      ),
+    )
+
+    const aliveHolderIds = await this.lockManager.getAliveHolderIds(holderIds)
+    const isStale = (item: { holderId: string | null }) =>
+      !item.holderId || !aliveHolderIds.includes(item.holderId)
+
+    const lostOperations = activeOperations.filter(isStale)
+    const staleLocks = existingLocks.filter(isStale)
+
+    // the instances of the live operations must not be touched
+    const liveOperationIds = activeOperations
+      .filter(operation => !isStale(operation))
+      .map(operation => operation.id)
+
+    const liveLockStateIds = existingLocks.filter(lock => !isStale(lock)).map(lock => lock.stateId)
+
+    await database.$transaction(async tx => {
+      // 1. process lost operations
+      if (lostOperations.length > 0) {
         // mark all lost operations as failed
-        for (const operation of activeOperations) {
+        for (const operation of lostOperations) {
           await tx.operation.update({
             where: { id: operation.id },
             data: {
@@ -204,19 +543,15 @@ export class OperationManager {
         }
 
         this.logger.warn(
-          { projectId, operationCount: activeOperations.length },
+          { projectId, operationCount: lostOperations.length },
           "marked %s lost operations as failed",
-          activeOperations.length,
+          lostOperations.length,
         )
       }
 
       // 2. cleanup orphaned locks
-      const existingLocks = await tx.instanceLock.findMany({
-        select: { stateId: true },
-      })
-
-      if (existingLocks.length > 0) {
-        const stateIds = existingLocks.map(lock => lock.stateId)
+      if (staleLocks.length > 0) {
+        const stateIds = staleLocks.map(lock => lock.stateId)
         await tx.instanceLock.deleteMany({
           where: {
             stateId: {
@@ -225,26 +560,31 @@ export class OperationManager {
           },
         })
 
-        for (const lock of existingLocks) {
+        for (const lock of staleLocks) {
           this.logger.warn({ projectId, stateId: lock.stateId }, "removed orphaned lock")
         }
 
         this.logger.info(
-          { projectId, lockCount: existingLocks.length },
+          { projectId, lockCount: staleLocks.length },
           "cleaned up %s locks",
-          existingLocks.length,
+          staleLocks.length,
         )
       }
 
       // 3. reset instances with transient status
-      const instancesToReset = await tx.instanceOperationState.findMany({
-        where: {
-          status: {
-            not: {
-              in: finalInstanceOperationStatuses,
-            },
+      const transientStatesFilter = {
+        status: {
+          not: {
+            in: finalInstanceOperationStatuses,
           },
         },
+        operationId: {
+          notIn: liveOperationIds,
+        },
+      }
+
+      const instancesToReset = await tx.instanceOperationState.findMany({
+        where: transientStatesFilter,
         select: {
           stateId: true,
           status: true,
@@ -263,13 +603,7 @@ export class OperationManager {
 
         // reset operation states that were being processed by lost operations
         const result = await tx.instanceOperationState.updateMany({
-          where: {
-            status: {
-              not: {
-                in: finalInstanceOperationStatuses,
-              },
-            },
-          },
+          where: transientStatesFilter,
           data: {
             status: "failed",
             finishedAt: new Date(),
@@ -287,6 +621,9 @@ export class OperationManager {
       const attemptedResult = await tx.instanceState.updateMany({
         where: {
           status: "attempted",
+          id: {
+            notIn: liveLockStateIds,
+          },
         },
         data: {
           status: "failed",
@@ -303,3 +640,27 @@ export class OperationManager {
     })
   }
 }
+
+function isApprovalStale(context: OperationContext, operation: Operation): boolean {
+  const inputHashes = getPlanInputHashes(context, operation.phases ?? [])
+
+  return !isDeepEqual(inputHashes, operation.approvalRequest?.inputHashes)
+}
+
+function getPlanInputHashes(
+  context: OperationContext,
+  phases: OperationPhase[],
+): Record<string, number> {
+  const inputHashes: Record<string, number> = {}
+
+  for (const phase of phases) {
+    for (const instance of phase.instances) {
+      // the ghost instances being destroyed have no input hashes
+      if (context.inputHashNodes.has(instance.id)) {
+        inputHashes[instance.id] = context.inputHashResolver.requireOutput(instance.id).inputHash
+      }
+    }
+  }
+
+  return inputHashes
+}
@@ -238,6 +238,42 @@ export class OperationContext {
     )
   }
 
+  /**
+   * Restores the resolved inputs of the instance from their snapshot referencing the state IDs.
+   *
+   * The inputs referencing the instances which are no longer in the project are dropped.
+   *
+   * @param instance The instance the inputs belong to.
+   * @param resolvedInputs The snapshot of the resolved inputs.
+   */
+  public deserializeResolvedInputs(
+    instance: InstanceModel,
+    resolvedInputs: Record<string, StableInstanceInput[]>,
+  ): Record<string, ResolvedInstanceInput[]> {
+    const component = this.library.components[instance.type]
+
+    return mapValues(resolvedInputs, (inputs, inputName) => {
+      const componentInput = component?.inputs[inputName]
+      if (!componentInput) {
+        return []
+      }
+
+      return inputs.flatMap(input => {
+        const instanceId = this.stateIdMap.get(input.stateId)
+        if (!instanceId || !this.instanceMap.has(instanceId)) {
+          return []
+        }
+
+        return [
+          {
+            input: { instanceId, output: input.output, path: input.path },
+            type: componentInput.type,
+          },
+        ]
+      })
+    })
+  }
+
   private addDependentState(instanceId: InstanceId, dependencyId: InstanceId): void {
     let dependentStates = this.dependentStateIdMap.get(dependencyId)
 
@@ -825,6 +825,8 @@ describe("OperationPlan - Destroy Operations", () => {
             source: "resident",
             kind: "unit",
             hasResourceHooks: false,
+            lastEditedBy: null,
+            lastEditedAt: null,
             parentId: null,
             parentInstanceId: null,
             selfHash: null,
@@ -847,6 +849,8 @@ describe("OperationPlan - Destroy Operations", () => {
             source: "resident",
             kind: "unit",
             hasResourceHooks: false,
+            lastEditedBy: null,
+            lastEditedAt: null,
             parentId: null,
             parentInstanceId: null,
             selfHash: null,
@@ -104,15 +104,20 @@ export const operationPlanTest = test.extend<{
         forceUpdateChildren: false,
         destroyDependentInstances: true,
         invokeDestroyTriggers: true,
+        invokeUpdateTriggers: true,
         deleteUnreachableResources: false,
         forceDeleteState: false,
         allowPartialCompositeInstanceUpdate: false,
         allowPartialCompositeInstanceDestruction: false,
         refresh: false,
+        detectDrift: false,
         ...options,
       },
       phases: [],
       requestedInstanceIds: instanceIds,
+      approvalRequest: null,
+      retriedOperationId: null,
+      holderId: null,
       startedAt: new Date(),
       updatedAt: new Date(),
       finishedAt: null,
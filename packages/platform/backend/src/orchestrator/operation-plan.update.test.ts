@@ -238,6 +238,8 @@ describe("OperationPlan - Update Operations", () => {
             source: "resident",
             kind: "composite",
             hasResourceHooks: false,
+            lastEditedBy: null,
+            lastEditedAt: null,
             parentId: null,
             parentInstanceId: missingParentId,
             selfHash: null,
@@ -260,6 +262,8 @@ describe("OperationPlan - Update Operations", () => {
             source: "resident",
             kind: "unit",
             hasResourceHooks: false,
+            lastEditedBy: null,
+            lastEditedAt: null,
             parentId: null,
             parentInstanceId: parentId,
             selfHash: null,
@@ -282,6 +286,8 @@ describe("OperationPlan - Update Operations", () => {
             source: "resident",
             kind: "unit",
             hasResourceHooks: false,
+            lastEditedBy: null,
+            lastEditedAt: null,
             parentId: null,
             parentInstanceId: null,
             selfHash: null,
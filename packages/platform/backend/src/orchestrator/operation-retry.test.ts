@@ -0,0 +1,92 @@
+import type { InstanceId } from "@highstate/contract"
+import type { InstanceOperationStatus, OperationPhase } from "../shared"
+import { describe, expect, test } from "vitest"
+import { createRetryPlan } from "./operation-retry"
+
+const network = "network.v1:net" as InstanceId
+const database = "database.v1:db" as InstanceId
+const app = "app.v1:app" as InstanceId
+const monitoring = "monitoring.v1:mon" as InstanceId
+
+const phases: OperationPhase[] = [
+  {
+    type: "update",
+    instances: [
+      { id: network, message: "dependency" },
+      { id: database, message: "dependency" },
+      { id: app, message: "explicitly requested" },
+      { id: monitoring, message: "explicitly requested" },
+    ],
+  },
+]
+
+const dependents: Record<string, InstanceId[]> = {
+  [network]: [database, monitoring],
+  [database]: [app],
+}
+
+const getDependentIds = (instanceId: InstanceId) => dependents[instanceId] ?? []
+
+describe("createRetryPlan", () => {
+  test("retries failed instances and their dependents", () => {
+    const statuses = new Map<InstanceId, InstanceOperationStatus>([
+      [network, "updated"],
+      [database, "failed"],
+      [app, "cancelled"],
+      [monitoring, "updated"],
+    ])
+
+    const plan = createRetryPlan(phases, statuses, getDependentIds)
+
+    expect(plan).toEqual([
+      {
+        type: "update",
+        instances: [
+          { id: database, message: "dependency" },
+          { id: app, message: "explicitly requested" },
+        ],
+      },
+    ])
+  })
+
+  test("includes updated dependents of failed instances", () => {
+    const statuses = new Map<InstanceId, InstanceOperationStatus>([
+      [network, "failed"],
+      [database, "skipped"],
+      [app, "skipped"],
+      [monitoring, "updated"],
+    ])
+
+    const plan = createRetryPlan(phases, statuses, getDependentIds)
+
+    expect(plan[0]?.instances.map(instance => instance.id)).toEqual([
+      network,
+      database,
+      app,
+      monitoring,
+    ])
+  })
+
+  test("retries instances which were not started", () => {
+    const statuses = new Map<InstanceId, InstanceOperationStatus>([
+      [network, "updated"],
+      [database, "updated"],
+      [monitoring, "skipped"],
+    ])
+
+    const plan = createRetryPlan(phases, statuses, getDependentIds)
+
+    expect(plan[0]?.instances.map(instance => instance.id)).toEqual([app])
+  })
+
+  test("returns empty plan when all instances succeeded", () => {
+    const statuses = new Map<InstanceId, InstanceOperationStatus>([
+      [network, "updated"],
+      [database, "updated"],
+      [app, "skipped"],
+      [monitoring, "updated"],
+    ])
+
+    expect(createRetryPlan(phases, statuses, getDependentIds)).toEqual([])
+  })
+})
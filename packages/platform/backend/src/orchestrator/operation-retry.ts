@@ -0,0 +1,72 @@
+import type { InstanceId } from "@highstate/contract"
+import type { InstanceOperationStatus, OperationPhase } from "../shared"
+
+/**
+ * The statuses of the instances which were successfully processed and must not be touched by the retry.
+ */
+const succeededInstanceOperationStatuses: InstanceOperationStatus[] = [
+  "updated",
+  "skipped",
+  "destroyed",
+  "refreshed",
+  "previewed",
+]
+
+/**
+ * Creates the plan retrying the failed operation.
+ *
+ * The plan reuses the phases of the failed operation, but includes only the instances
+ * which were not processed successfully and all their dependents and parents within the plan.
+ * The instances which were updated or skipped are excluded.
+ *
+ * @param phases The phases of the failed operation.
+ * @param instanceStatuses The statuses of the instances in the failed operation.
+ * @param getDependentIds Returns the IDs of the instances depending on the given one.
+ * @returns The phases of the retry operation or an empty array if there is nothing to retry.
+ */
+export function createRetryPlan(
+  phases: OperationPhase[],
+  instanceStatuses: Map<InstanceId, InstanceOperationStatus>,
+  getDependentIds: (instanceId: InstanceId) => InstanceId[],
+): OperationPhase[] {
+  const plannedInstances = new Map(
+    phases.flatMap(phase => phase.instances).map(instance => [instance.id, instance]),
+  )
+
+  const retriedIds = new Set<InstanceId>()
+  const pendingIds: InstanceId[] = []
+
+  for (const instanceId of plannedInstances.keys()) {
+    const status = instanceStatuses.get(instanceId)
+
+    // the instances without the status were not even started
+    if (!status || !succeededInstanceOperationStatuses.includes(status)) {
+      retriedIds.add(instanceId)
+      pendingIds.push(instanceId)
+    }
+  }
+
+  // include the dependents and the parents of the retried instances which are part of the plan
+  while (pendingIds.length > 0) {
+    const instanceId = pendingIds.pop()!
+    const parentId = plannedInstances.get(instanceId)?.parentId as InstanceId | undefined
+
+    const relatedIds = parentId
+      ? [...getDependentIds(instanceId), parentId]
+      : getDependentIds(instanceId)
+
+    for (const relatedId of relatedIds) {
+      if (plannedInstances.has(relatedId) && !retriedIds.has(relatedId)) {
+        retriedIds.add(relatedId)
+        pendingIds.push(relatedId)
+      }
+    }
+  }
+
+  return phases
+    .map(phase => ({
+      ...phase,
+      instances: phase.instances.filter(instance => retriedIds.has(instance.id)),
+    }))
+    .filter(phase => phase.instances.length > 0)
+}
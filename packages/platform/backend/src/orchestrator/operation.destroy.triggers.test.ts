@@ -0,0 +1,216 @@
+import type { TriggerSpec } from "@highstate/contract"
+import type { Trigger } from "../database"
+import { describe } from "vitest"
+import { RuntimeOperation } from "./operation"
+import { operationTest } from "./operation.test-utils"
+
+function createTrigger(name: string, spec: TriggerSpec): Trigger {
+  return { name, spec } as Trigger
+}
+
+describe("Operation - Destroy Triggers", () => {
+  operationTest(
+    "invokes before-destroy triggers against the current configuration",
+    async ({
+      project,
+      logger,
+      runnerBackend,
+      runner,
+      libraryBackend,
+      artifactService,
+      instanceLockService,
+      operationService,
+      secretService,
+      instanceStateService,
+      projectModelService,
+      unitExtraService,
+      entitySnapshotService,
+      unitOutputService,
+      libraryService,
+      projectPortService,
+      createUnit,
+      createDeployedUnitState,
+      createOperation,
+      createContext,
+      setupPersistenceMocks,
+      setupImmediateLocking,
+      expect,
+    }) => {
+      // arrange
+      const unit = { ...createUnit("A"), args: { version: 2 } }
+      const state = createDeployedUnitState(unit)
+
+      await createContext({ instances: [unit], states: [state] })
+      setupImmediateLocking()
+      setupPersistenceMocks({ instances: [unit] })
+
+      unitExtraService.getInstanceTriggers.mockResolvedValue([
+        createTrigger("notify", { type: "on-failure" }),
+        createTrigger("backup", { type: "before-destroy" }),
+      ])
+
+      operationService.getLastDeployedInstanceSnapshot.mockResolvedValue({
+        model: { ...unit, args: { version: 1 } },
+        resolvedInputs: {},
+        secrets: null,
+      })
+
+      runner.setDestroyImpl(async () => {})
+
+      const operation = createOperation({
+        type: "destroy",
+        requestedInstanceIds: [unit.id],
+        phases: [
+          {
+            type: "destroy",
+            instances: [{ id: unit.id, message: "requested", parentId: undefined }],
+          },
+        ],
+        options: { refresh: true, deleteUnreachableResources: true },
+      })
+
+      const runtimeOperation = new RuntimeOperation(
+        project,
+        operation,
+        runnerBackend,
+        libraryBackend,
+        artifactService,
+        instanceLockService,
+        operationService,
+        secretService,
+        instanceStateService,
+        projectModelService,
+        unitExtraService,
+        entitySnapshotService,
+        unitOutputService,
+        logger,
+        libraryService,
+        projectPortService,
+      )
+
+      // act
+      await runtimeOperation.operateSafe()
+
+      // assert
+      expect(runnerBackend.update).toHaveBeenCalledTimes(1)
+      expect(runnerBackend.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          config: expect.objectContaining({
+            args: { version: 2 },
+            invokedTriggers: [{ name: "backup" }],
+          }),
+          refresh: true,
+          deleteUnreachable: true,
+        }),
+      )
+
+      expect(runnerBackend.destroy).toHaveBeenCalledTimes(1)
+      expect(operationService.markOperationFinished).toHaveBeenCalledWith(
+        project.id,
+        operation.id,
+        "completed",
+      )
+    },
+  )
+
+  operationTest(
+    "invokes before-destroy triggers of instance without deployment snapshot",
+    async ({
+      project,
+      logger,
+      runnerBackend,
+      runner,
+      libraryBackend,
+      artifactService,
+      instanceLockService,
+      operationService,
+      secretService,
+      instanceStateService,
+      projectModelService,
+      unitExtraService,
+      entitySnapshotService,
+      unitOutputService,
+      libraryService,
+      projectPortService,
+      createUnit,
+      createDeployedUnitState,
+      createOperation,
+      createContext,
+      setupPersistenceMocks,
+      setupImmediateLocking,
+      expect,
+    }) => {
+      // arrange
+      const unit = { ...createUnit("A"), args: { version: 2 } }
+      const state = createDeployedUnitState(unit)
+
+      await createContext({ instances: [unit], states: [state] })
+      setupImmediateLocking()
+      setupPersistenceMocks({ instances: [unit] })
+
+      unitExtraService.getInstanceTriggers.mockResolvedValue([
+        createTrigger("notify", { type: "on-failure" }),
+        createTrigger("backup", { type: "before-destroy" }),
+      ])
+
+      runner.setDestroyImpl(async () => {})
+
+      const operation = createOperation({
+        type: "destroy",
+        requestedInstanceIds: [unit.id],
+        phases: [
+          {
+            type: "destroy",
+            instances: [{ id: unit.id, message: "requested", parentId: undefined }],
+          },
+        ],
+        options: { refresh: true, deleteUnreachableResources: true },
+      })
+
+      const runtimeOperation = new RuntimeOperation(
+        project,
+        operation,
+        runnerBackend,
+        libraryBackend,
+        artifactService,
+        instanceLockService,
+        operationService,
+        secretService,
+        instanceStateService,
+        projectModelService,
+        unitExtraService,
+        entitySnapshotService,
+        unitOutputService,
+        logger,
+        libraryService,
+        projectPortService,
+      )
+
+      // act
+      await runtimeOperation.operateSafe()
+
+      // assert
+      expect(runnerBackend.update).toHaveBeenCalledTimes(1)
+      expect(runnerBackend.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          config: expect.objectContaining({
+            args: { version: 2 },
+            invokedTriggers: [{ name: "backup" }],
+          }),
+          refresh: true,
+          deleteUnreachable: true,
+        }),
+      )
+
+      // the snapshot is not required since the current configuration is used
+      expect(operationService.getLastDeployedInstanceSnapshot).not.toHaveBeenCalled()
+
+      expect(runnerBackend.destroy).toHaveBeenCalledTimes(1)
+      expect(operationService.markOperationFinished).toHaveBeenCalledWith(
+        project.id,
+        operation.id,
+        "completed",
+      )
+    },
+  )
+})
@@ -1,3 +1,4 @@
+import type { ResourceChange } from "../shared"
 import { describe } from "vitest"
 import { RuntimeOperation } from "./operation"
 import { operationTest } from "./operation.test-utils"
@@ -100,4 +101,97 @@ describe("Operation - Preview", () => {
       )
     },
   )
+
+  operationTest(
+    "persists resource changes reported by runner preview",
+    async ({
+      project,
+      logger,
+      runnerBackend,
+      runner,
+      libraryBackend,
+      artifactService,
+      instanceLockService,
+      operationService,
+      secretService,
+      instanceStateService,
+      projectModelService,
+      unitExtraService,
+      entitySnapshotService,
+      unitOutputService,
+      libraryService,
+      projectPortService,
+      createUnit,
+      createDeployedUnitState,
+      createOperation,
+      createContext,
+      setupPersistenceMocks,
+      setupImmediateLocking,
+      expect,
+    }) => {
+      // arrange
+      const unit = createUnit("A")
+      const state = createDeployedUnitState(unit)
+
+      await createContext({ instances: [unit], states: [state] })
+      setupImmediateLocking()
+      setupPersistenceMocks({ instances: [unit] })
+
+      const resourceChanges: ResourceChange[] = [
+        {
+          urn: "urn:pulumi:test::test::random:index/randomPassword:RandomPassword::password",
+          type: "random:index/randomPassword:RandomPassword",
+          op: "replace",
+          diffs: [{ path: "length", kind: "update-replace", oldValue: 16, newValue: 32 }],
+        },
+      ]
+
+      runner.setPreviewImpl(async options => {
+        runner.emitCompletion(options.stateId, { operationType: "update", resourceChanges })
+      })
+
+      const operation = createOperation({
+        type: "preview",
+        requestedInstanceIds: [unit.id],
+        phases: [
+          {
+            type: "preview",
+            instances: [{ id: unit.id, message: "requested", parentId: undefined }],
+          },
+        ],
+      })
+
+      const runtimeOperation = new RuntimeOperation(
+        project,
+        operation,
+        runnerBackend,
+        libraryBackend,
+        artifactService,
+        instanceLockService,
+        operationService,
+        secretService,
+        instanceStateService,
+        projectModelService,
+        unitExtraService,
+        entitySnapshotService,
+        unitOutputService,
+        logger,
+        libraryService,
+        projectPortService,
+      )
+
+      // act
+      await runtimeOperation.operateSafe()
+
+      // assert
+      expect(instanceStateService.updateOperationState).toHaveBeenCalledWith(
+        project.id,
+        state.id,
+        operation.id,
+        expect.objectContaining({
+          operationState: expect.objectContaining({ resourceChanges }),
+        }),
+      )
+    },
+  )
 })
@@ -82,4 +82,105 @@ describe("Operation - Refresh", () => {
       )
     },
   )
+
+  operationTest(
+    "records drift detected by preview-only refresh",
+    async ({
+      project,
+      logger,
+      runnerBackend,
+      runner,
+      libraryBackend,
+      artifactService,
+      instanceLockService,
+      operationService,
+      secretService,
+      instanceStateService,
+      projectModelService,
+      unitExtraService,
+      entitySnapshotService,
+      unitOutputService,
+      libraryService,
+      projectPortService,
+      createUnit,
+      createDeployedUnitState,
+      createOperation,
+      createContext,
+      setupPersistenceMocks,
+      setupImmediateLocking,
+      expect,
+    }) => {
+      // arrange
+      const unit = createUnit("A")
+      const state = createDeployedUnitState(unit)
+
+      await createContext({ instances: [unit], states: [state] })
+      setupImmediateLocking()
+      setupPersistenceMocks({ instances: [unit] })
+
+      const driftedResources = [
+        {
+          urn: "urn:pulumi:main::A::test:Resource::a",
+          type: "test:Resource",
+          deleted: false,
+          diffs: ["value"],
+        },
+      ]
+
+      runner.setAutoCompletion(false)
+      runner.setRefreshImpl(async options => {
+        runner.emitCompletion(options.stateId, { operationType: "refresh", driftedResources })
+      })
+
+      const operation = createOperation({
+        type: "refresh",
+        requestedInstanceIds: [unit.id],
+        phases: [
+          {
+            type: "refresh",
+            instances: [{ id: unit.id, message: "requested", parentId: undefined }],
+          },
+        ],
+        options: { detectDrift: true },
+      })
+
+      const runtimeOperation = new RuntimeOperation(
+        project,
+        operation,
+        runnerBackend,
+        libraryBackend,
+        artifactService,
+        instanceLockService,
+        operationService,
+        secretService,
+        instanceStateService,
+        projectModelService,
+        unitExtraService,
+        entitySnapshotService,
+        unitOutputService,
+        logger,
+        libraryService,
+        projectPortService,
+      )
+
+      // act
+      await runtimeOperation.operateSafe()
+
+      // assert
+      expect(runnerBackend.refresh).toHaveBeenCalledWith(
+        expect.objectContaining({ previewOnly: true }),
+      )
+      expect(instanceStateService.updateDriftStatus).toHaveBeenCalledWith(
+        project.id,
+        state.id,
+        driftedResources,
+      )
+      expect(unitOutputService.parseUnitOutputs).not.toHaveBeenCalled()
+      expect(operationService.markOperationFinished).toHaveBeenCalledWith(
+        project.id,
+        operation.id,
+        "completed",
+      )
+    },
+  )
 })
@@ -1,4 +1,5 @@
 import type { InstanceId, InstanceModel, VersionedName } from "@highstate/contract"
+import type { Logger } from "pino"
 import type { ArtifactService } from "../artifact"
 import type {
   EntitySnapshotService,
@@ -12,9 +13,10 @@ import type {
   UnitExtraService,
   UnitOutputService,
 } from "../business"
-import type { Operation } from "../database"
+import type { Operation, Project } from "../database"
 import type { LibraryBackend, ResolvedUnitSource } from "../library"
 import type {
+  DriftedResource,
   OperationType,
   RawPulumiOutputs,
   RunnerBackend,
@@ -29,6 +31,7 @@ import type {
   LibraryModel,
   OperationOptions,
   OperationPhase,
+  ResourceChange,
 } from "../shared"
 import { defineComponent, defineEntity, defineUnit, getInstanceId, z } from "@highstate/contract"
 import { createId } from "@paralleldrive/cuid2"
@@ -103,10 +106,77 @@ export type RunnerTestController = {
     update?: {
       operationType?: OperationType
       rawOutputs?: RawPulumiOutputs | null
+      driftedResources?: DriftedResource[]
+      resourceChanges?: ResourceChange[]
     },
   ) => void
 }
 
+type MockedContextServices = {
+  project: Project
+  logger: Logger
+  libraryService: MockedObject<LibraryService>
+  instanceStateService: MockedObject<InstanceStateService>
+  projectModelService: MockedObject<ProjectModelService>
+  createMockLibrary: () => LibraryModel
+}
+
+export type MockedContextInput = {
+  instances: InstanceModel[]
+  states: InstanceState[]
+  library?: LibraryModel
+}
+
+/**
+ * Mocks the services to return the given instances, states and library and loads the operation context using them.
+ */
+export async function loadMockedContext(
+  services: MockedContextServices,
+  input: MockedContextInput,
+): Promise<OperationContext> {
+  const { project, logger, libraryService, instanceStateService, projectModelService } = services
+  const library = input.library ?? services.createMockLibrary()
+
+  const unitSources: ResolvedUnitSource[] = [
+    {
+      unitType: "component.v1",
+      sourceHash: 12345,
+      projectPath: "test",
+      allowedDependencies: [],
+    },
+    {
+      unitType: "composite.v1",
+      sourceHash: 12345,
+      projectPath: "test",
+      allowedDependencies: [],
+    },
+  ]
+
+  libraryService.getLibraryModel.mockResolvedValue(library)
+  libraryService.getResolvedUnitSources.mockResolvedValue(unitSources)
+
+  projectModelService.getProjectModel.mockResolvedValue([
+    {
+      instances: input.instances,
+      virtualInstances: [],
+      hubs: [],
+      ghostInstances: [],
+    },
+    project,
+  ])
+
+  instanceStateService.getInstanceStates.mockResolvedValue(input.states)
+
+  return await OperationContext.load(
+    project.id,
+    libraryService,
+    instanceStateService,
+    projectModelService,
+    undefined,
+    logger,
+  )
+}
+
 export const operationTest = test.extend<{
   runnerBackend: MockedObject<RunnerBackend>
   runner: RunnerTestController
@@ -133,11 +203,7 @@ export const operationTest = test.extend<{
     phases: OperationPhase[]
     options?: Partial<OperationOptions>
   }) => Operation
-  createContext: (input: {
-    instances: InstanceModel[]
-    states: InstanceState[]
-    library?: LibraryModel
-  }) => Promise<OperationContext>
+  createContext: (input: MockedContextInput) => Promise<OperationContext>
   setupPersistenceMocks: (input: { instances: InstanceModel[] }) => void
   setupImmediateLocking: () => void
 }>({
@@ -216,6 +282,8 @@ export const operationTest = test.extend<{
           unitId: stateId as unknown as InstanceId,
           operationType,
           rawOutputs,
+          driftedResources: update.driftedResources,
+          resourceChanges: update.resourceChanges,
         })
       },
     }
@@ -292,6 +360,7 @@ export const operationTest = test.extend<{
     const libraryBackend = vi.mockObject({
       loadLibrary: vi.fn(),
       getResolvedUnitSources: vi.fn(),
+      getImportPath: vi.fn().mockResolvedValue("/workspace/package.json"),
     } as unknown as LibraryBackend)
 
     await use(libraryBackend)
@@ -318,7 +387,11 @@ export const operationTest = test.extend<{
 
   operationService: async ({}, use) => {
     const operationService = vi.mockObject({
+      createOperation: vi.fn(),
+      getOperation: vi.fn().mockResolvedValue(null),
+      getLastDeployedInstanceSnapshot: vi.fn().mockResolvedValue(undefined),
       updateOperation: vi.fn().mockResolvedValue({} as Operation),
+      transitionOperation: vi.fn().mockResolvedValue(null),
       markOperationFinished: vi.fn().mockResolvedValue({} as Operation),
       appendLog: vi.fn().mockResolvedValue({} as Operation),
     } as unknown as OperationService)
@@ -329,6 +402,8 @@ export const operationTest = test.extend<{
   secretService: async ({}, use) => {
     const secretService = vi.mockObject({
       getInstanceSecretValues: vi.fn().mockResolvedValue({}),
+      getSecretVersionValues: vi.fn().mockResolvedValue({}),
+      snapshotInstanceSecrets: vi.fn().mockResolvedValue({ values: {}, versionIds: {} }),
     } as unknown as SecretService)
 
     await use(secretService)
@@ -341,6 +416,7 @@ export const operationTest = test.extend<{
       updateOperationState: vi.fn(),
       updateOperationProgress: vi.fn(),
       publishGhostInstanceDeletion: vi.fn(),
+      updateDriftStatus: vi.fn(),
     } as unknown as InstanceStateService)
 
     await use(instanceStateService)
@@ -510,6 +586,8 @@ export const operationTest = test.extend<{
         source: "resident",
         kind: instance.kind,
         hasResourceHooks: false,
+        lastEditedBy: null,
+        lastEditedAt: null,
         parentId: null,
         parentInstanceId: instance.parentId ?? null,
         selfHash: null,
@@ -528,6 +606,7 @@ export const operationTest = test.extend<{
           status: "updated" as InstanceOperationStatus,
           currentResourceCount: null,
           totalResourceCount: null,
+          resourceChanges: null,
           model: instance,
           resolvedInputs: {},
           startedAt: null,
@@ -562,15 +641,20 @@ export const operationTest = test.extend<{
           forceUpdateChildren: false,
           destroyDependentInstances: true,
           invokeDestroyTriggers: true,
+          invokeUpdateTriggers: true,
           deleteUnreachableResources: false,
           forceDeleteState: false,
           allowPartialCompositeInstanceUpdate: false,
           allowPartialCompositeInstanceDestruction: false,
           refresh: false,
+          detectDrift: false,
           ...input.options,
         },
         phases: input.phases,
         requestedInstanceIds: input.requestedInstanceIds,
+        approvalRequest: null,
+        retriedOperationId: null,
+        holderId: null,
         startedAt: new Date(),
         updatedAt: new Date(),
         finishedAt: null,
@@ -591,54 +675,19 @@ export const operationTest = test.extend<{
     },
     use,
   ) => {
-    const createContext = async (input: {
-      instances: InstanceModel[]
-      states: InstanceState[]
-      library?: LibraryModel
-    }): Promise<OperationContext> => {
-      const library = input.library ?? createMockLibrary()
-
-      const unitSources: ResolvedUnitSource[] = [
+    await use(input =>
+      loadMockedContext(
         {
-          unitType: "component.v1",
-          sourceHash: 12345,
-          projectPath: "test",
-          allowedDependencies: [],
+          project,
+          logger,
+          libraryService,
+          instanceStateService,
+          projectModelService,
+          createMockLibrary,
         },
-        {
-          unitType: "composite.v1",
-          sourceHash: 12345,
-          projectPath: "test",
-          allowedDependencies: [],
-        },
-      ]
-
-      libraryService.getLibraryModel.mockResolvedValue(library)
-      libraryService.getResolvedUnitSources.mockResolvedValue(unitSources)
-
-      projectModelService.getProjectModel.mockResolvedValue([
-        {
-          instances: input.instances,
-          virtualInstances: [],
-          hubs: [],
-          ghostInstances: [],
-        },
-        project,
-      ])
-
-      instanceStateService.getInstanceStates.mockResolvedValue(input.states)
-
-      return await OperationContext.load(
-        project.id,
-        libraryService,
-        instanceStateService,
-        projectModelService,
-        undefined,
-        logger,
-      )
-    }
-
-    await use(createContext)
+        input,
+      ),
+    )
   },
 
   setupPersistenceMocks: async ({ instanceStateService }, use) => {
@@ -661,6 +710,7 @@ export const operationTest = test.extend<{
               status: opState.status,
               currentResourceCount: null,
               totalResourceCount: null,
+              resourceChanges: null,
               model: opState.model,
               resolvedInputs: opState.resolvedInputs,
               startedAt: null,
@@ -693,6 +743,7 @@ export const operationTest = test.extend<{
               status,
               currentResourceCount: null,
               totalResourceCount: null,
+              resourceChanges: null,
               model: instance,
               resolvedInputs: {},
               startedAt: null,
@@ -21,6 +21,7 @@ import {
   type InstanceModel,
   parseInstanceId,
   type TriggerInvocation,
+  type TriggerSpec,
   type UnitConfig,
   type UnitInputValue,
   type VersionedName,
@@ -42,6 +43,8 @@ import { createOperationPlan } from "./operation-plan"
 import { OperationWorkset } from "./operation-workset"
 import { resolveUnitInputValues } from "./unit-input-values"
 
+type LifecycleTriggerType = Exclude<TriggerSpec["type"], "schedule">
+
 export class RuntimeOperation {
   private readonly instancePromiseMap = new Map<InstanceId, Promise<void>>()
   private readonly promiseTracker = new PromiseTracker()
@@ -561,7 +564,7 @@ export class RuntimeOperation {
       const secrets = await this.secretService.getInstanceSecretValues(this.project.id, state.id)
       signal.throwIfAborted()
 
-      const config = this.prepareUnitConfig(instance, state.id, secrets)
+      const config = await this.prepareUnitConfig(instance, state.id, secrets)
       const artifactIds = this.collectArtifactIdsForInstance(instance)
       const artifacts = await this.artifactService.getArtifactsByIds(this.project.id, artifactIds)
 
@@ -576,6 +579,9 @@ export class RuntimeOperation {
         instanceName: instance.name,
         config,
         refresh: this.operation.options.refresh,
+        targetResources: this.operation.options.targetResources,
+        replaceResources: this.operation.options.replaceResources,
+        excludeResources: this.operation.options.excludeResources,
         artifacts,
         signal,
         forceSignal,
@@ -707,22 +713,33 @@ export class RuntimeOperation {
         }
       }
 
+      if (state.status === "deployed" && this.operation.options.invokeUpdateTriggers) {
+        await this.processTriggers("before-update", instance, state, logger, signal, forceSignal)
+        signal.throwIfAborted()
+      }
+
       logger.info("updating unit")
 
+      const { values: secrets, versionIds: secretVersionIds } =
+        await this.secretService.snapshotInstanceSecrets(this.project.id, state.id)
+
+      // record the versions of the secrets passed to the unit, so the instance can be rolled back to them
       await this.workset.updateState(instance.id, {
         operationState: {
           status: "updating",
           startedAt: new Date(),
+          secrets: secretVersionIds,
         },
       })
 
       signal.throwIfAborted()
 
-      const secrets = await this.secretService.getInstanceSecretValues(this.project.id, state.id)
-
-      signal.throwIfAborted()
+      // the triggers are only invoked on the explicitly requested instances
+      const invokedTriggers = this.operation.requestedInstanceIds.includes(instance.id)
+        ? (this.operation.options.invokedTriggers ?? []).map(name => ({ name }))
+        : []
 
-      const config = this.prepareUnitConfig(instance, state.id, secrets)
+      const config = await this.prepareUnitConfig(instance, state.id, secrets, invokedTriggers)
 
       // collect artifacts authorized for this instance
       const artifactIds = this.collectArtifactIdsForInstance(instance)
@@ -730,24 +747,39 @@ export class RuntimeOperation {
 
       logger.debug({ count: artifactIds.length }, "artifact ids collected from dependencies")
 
-      await this.runnerBackend.update({
-        projectId: this.project.id,
-        operationId: this.operation.id,
-        libraryId: this.project.libraryId,
-        stateId: state.id,
-        instanceType: instance.type,
-        instanceName: instance.name,
-        config,
-        refresh: this.operation.options.refresh,
-        deleteUnreachable: this.operation.options.deleteUnreachableResources,
-        artifacts,
-        signal,
-        forceSignal,
-        debug: this.operation.options.debug,
-      })
+      try {
+        await this.runnerBackend.update({
+          projectId: this.project.id,
+          operationId: this.operation.id,
+          libraryId: this.project.libraryId,
+          stateId: state.id,
+          instanceType: instance.type,
+          instanceName: instance.name,
+          config,
+          refresh: this.operation.options.refresh,
+          deleteUnreachable: this.operation.options.deleteUnreachableResources,
+          targetResources: this.operation.options.targetResources,
+          replaceResources: this.operation.options.replaceResources,
+          excludeResources: this.operation.options.excludeResources,
+          artifacts,
+          signal,
+          forceSignal,
+          debug: this.operation.options.debug,
+        })
 
-      await this.watchStateStream(state, instance.type, instance.name, logger)
-      logger.info("unit updated")
+        await this.watchStateStream(state, instance.type, instance.name, logger)
+        logger.info("unit updated")
+
+        if (this.operation.options.invokeUpdateTriggers) {
+          await this.processTriggers("after-update", instance, state, logger, signal, forceSignal)
+        }
+      } catch (error) {
+        if (!signal.aborted && this.operation.options.invokeUpdateTriggers) {
+          await this.rollbackWithOnFailureTriggers(instance, state, logger, signal, forceSignal)
+        }
+
+        throw error
+      }
     })
   }
 
@@ -779,29 +811,56 @@ export class RuntimeOperation {
     }
   }
 
-  private async processBeforeDestroyTriggers(
+  /**
+   * Invokes the lifecycle triggers of the given type.
+   *
+   * The triggers are invoked by the additional update of the unit.
+   * The update triggers are invoked against the last deployed snapshot of the instance
+   * including the versions of its secrets, so the changed or failed configuration is not applied.
+   * The before-destroy triggers are invoked against the current configuration like the destroy itself.
+   *
+   * @returns Whether any trigger was invoked.
+   */
+  private async processTriggers(
+    triggerType: LifecycleTriggerType,
     instance: InstanceModel,
     state: InstanceState,
     logger: Logger,
     signal: AbortSignal,
     forceSignal: AbortSignal,
-  ): Promise<void> {
-    if (!this.operation.options.invokeDestroyTriggers) {
-      logger.debug("destroy triggers are disabled for the operation")
-      return
+  ): Promise<boolean> {
+    const allTriggers = await this.unitExtraService.getInstanceTriggers(this.project.id, state.id)
+    const triggers = allTriggers.filter(trigger => trigger.spec.type === triggerType)
+
+    if (triggers.length === 0) {
+      return false
     }
 
-    const allTriggers = await this.unitExtraService.getInstanceTriggers(this.project.id, state.id)
+    let deployedInstance = instance
+    let resolvedInputs = this.context.getResolvedInputs(instance.id) ?? {}
+    let secrets: Record<string, unknown> | undefined
 
-    const beforeDestroyTriggers = allTriggers.filter(
-      trigger => trigger.spec.type === "before-destroy",
-    )
+    if (triggerType !== "before-destroy") {
+      const snapshot = await this.operationService.getLastDeployedInstanceSnapshot(
+        this.project.id,
+        state.id,
+      )
 
-    if (beforeDestroyTriggers.length === 0) {
-      return
+      if (!snapshot) {
+        logger.warn("skipping %s triggers since the instance was never deployed", triggerType)
+        return false
+      }
+
+      deployedInstance = { ...instance, args: snapshot.model.args }
+      resolvedInputs = this.context.deserializeResolvedInputs(instance, snapshot.resolvedInputs)
+
+      // the snapshots taken before the secret versions were recorded use the current secrets
+      if (snapshot.secrets) {
+        secrets = await this.secretService.getSecretVersionValues(this.project.id, snapshot.secrets)
+      }
     }
 
-    const invokedTriggers = beforeDestroyTriggers.map(trigger => ({
+    const invokedTriggers = triggers.map(trigger => ({
       name: trigger.name,
     }))
 
@@ -809,9 +868,15 @@ export class RuntimeOperation {
       operationState: { status: "processing_triggers" },
     })
 
-    logger.info("updating unit to process before-destroy triggers...")
+    if (triggerType === "on-failure") {
+      logger.warn("rolling back unit to last deployed configuration to process on-failure triggers")
+    } else {
+      logger.info("updating unit to process %s triggers...", triggerType)
+    }
 
-    const secrets = await this.secretService.getInstanceSecretValues(this.project.id, state.id)
+    secrets ??= await this.secretService.getInstanceSecretValues(this.project.id, state.id)
+    const artifactIds = this.collectArtifactIds(resolvedInputs)
+    const artifacts = await this.artifactService.getArtifactsByIds(this.project.id, artifactIds)
 
     await this.runnerBackend.update({
       projectId: this.project.id,
@@ -820,9 +885,16 @@ export class RuntimeOperation {
       libraryId: this.project.libraryId,
       instanceType: instance.type,
       instanceName: instance.name,
-      config: this.prepareUnitConfig(instance, state.id, secrets, invokedTriggers),
+      config: await this.prepareUnitConfig(
+        deployedInstance,
+        state.id,
+        secrets,
+        invokedTriggers,
+        resolvedInputs,
+      ),
       refresh: this.operation.options.refresh,
       deleteUnreachable: this.operation.options.deleteUnreachableResources,
+      artifacts,
       signal,
       forceSignal,
       debug: this.operation.options.debug,
@@ -831,7 +903,58 @@ export class RuntimeOperation {
     logger.debug("unit update requested")
 
     await this.watchStateStream(state, instance.type, instance.name, logger)
-    logger.debug("before-destroy triggers processed")
+    logger.debug("%s triggers processed", triggerType)
+
+    return true
+  }
+
+  /**
+   * Invokes the on-failure triggers after the update of the unit or its after-update triggers fail.
+   *
+   * Since the triggers are invoked against the last deployed snapshot, the unit is implicitly rolled back:
+   * the resources changed by the failed update are reverted to the last deployed configuration.
+   * Nothing is invoked and rolled back if the unit has no on-failure triggers or was never deployed.
+   */
+  private async rollbackWithOnFailureTriggers(
+    instance: InstanceModel,
+    state: InstanceState,
+    logger: Logger,
+    signal: AbortSignal,
+    forceSignal: AbortSignal,
+  ): Promise<void> {
+    // keep "deployed" status for initially deployed instances like for any other failure
+    const instanceStatus = state.status === "deployed" ? "deployed" : "failed"
+    let processed: boolean
+
+    try {
+      processed = await this.processTriggers(
+        "on-failure",
+        instance,
+        state,
+        logger,
+        signal,
+        forceSignal,
+      )
+    } catch (error) {
+      // the original error is more important, so the trigger failure is only logged
+      logger.error({ error }, "failed to process on-failure triggers")
+      processed = true
+    }
+
+    if (!processed) {
+      return
+    }
+
+    // restore the failed status which could be overwritten by the successful trigger update
+    await this.workset.updateState(instance.id, {
+      instanceState: {
+        status: instanceStatus,
+      },
+      operationState: {
+        status: "failed",
+        finishedAt: new Date(),
+      },
+    })
   }
 
   private async destroyUnit(instance: InstanceModel, state: InstanceState): Promise<void> {
@@ -862,8 +985,12 @@ export class RuntimeOperation {
         throw new AbortError("The operation is failing, aborting current branch (still not failed)")
       }
 
-      await this.processBeforeDestroyTriggers(instance, state, logger, signal, forceSignal)
-      signal.throwIfAborted()
+      if (this.operation.options.invokeDestroyTriggers) {
+        await this.processTriggers("before-destroy", instance, state, logger, signal, forceSignal)
+        signal.throwIfAborted()
+      } else {
+        logger.debug("destroy triggers are disabled for the operation")
+      }
 
       logger.info("destroying unit...")
 
@@ -884,7 +1011,7 @@ export class RuntimeOperation {
         libraryId: this.project.libraryId,
         instanceType: type,
         instanceName: name,
-        config: this.prepareUnitConfig(instance, state.id, secrets),
+        config: await this.prepareUnitConfig(instance, state.id, secrets),
         refresh: this.operation.options.refresh,
         signal,
         forceSignal,
@@ -923,10 +1050,11 @@ export class RuntimeOperation {
         libraryId: this.project.libraryId,
         instanceType: type,
         instanceName: name,
-        config: this.prepareUnitConfig(instance, state.id, secrets),
+        config: await this.prepareUnitConfig(instance, state.id, secrets),
         signal,
         forceSignal,
         debug: this.operation.options.debug,
+        previewOnly: this.operation.options.detectDrift,
       })
 
       logger.debug("unit refresh requested")
@@ -984,13 +1112,13 @@ export class RuntimeOperation {
     )
   }
 
-  private prepareUnitConfig(
+  private async prepareUnitConfig(
     instance: InstanceModel,
     stateId: string,
     secrets: Record<string, unknown>,
     invokedTriggers: TriggerInvocation[] = [],
-  ): UnitConfig {
-    const resolvedInputs = this.context.getResolvedInputs(instance.id)
+    resolvedInputs = this.context.getResolvedInputs(instance.id),
+  ): Promise<UnitConfig> {
     const component = this.context.library.components[instance.type]!
 
     const unfoldedInputs = mapValues(resolvedInputs ?? {}, (input, inputName) =>
@@ -1017,7 +1145,7 @@ export class RuntimeOperation {
       inputs: unfoldedInputs,
       invokedTriggers,
       secretValues: secrets,
-      importBasePath: this.libraryBackend.importPath,
+      importBasePath: await this.libraryBackend.getImportPath(this.project.libraryId),
     }
   }
 
@@ -1149,6 +1277,24 @@ export class RuntimeOperation {
     state: InstanceState,
   ): Promise<Error | null> {
     if (this.operation.type === "preview") {
+      await this.workset.updateState(update.unitId, {
+        operationState: {
+          status: this.workset.getStableStatusByOperationPhase(),
+          finishedAt: new Date(),
+          resourceChanges: update.resourceChanges,
+        },
+      })
+      return null
+    }
+
+    if (this.operation.type === "refresh" && this.operation.options.detectDrift) {
+      // the preview-only refresh changes neither the stack state nor the outputs of the instance
+      await this.instanceStateService.updateDriftStatus(
+        this.project.id,
+        state.id,
+        update.driftedResources ?? [],
+      )
+
       await this.workset.updateState(update.unitId, {
         operationState: {
           status: this.workset.getStableStatusByOperationPhase(),
@@ -1437,8 +1583,11 @@ export class RuntimeOperation {
    * from instance inputs to dependency outputs.
    */
   private collectArtifactIdsForInstance(instance: InstanceModel): string[] {
+    return this.collectArtifactIds(this.context.getResolvedInputs(instance.id) ?? {})
+  }
+
+  private collectArtifactIds(instanceInputs: Record<string, ResolvedInstanceInput[]>): string[] {
     const artifactIds = new Set<string>()
-    const instanceInputs = this.context.getResolvedInputs(instance.id) ?? {}
 
     for (const inputs of Object.values(instanceInputs)) {
       for (const input of inputs) {
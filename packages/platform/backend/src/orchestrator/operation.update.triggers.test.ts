@@ -0,0 +1,496 @@
+import type { TriggerSpec } from "@highstate/contract"
+import type { Trigger } from "../database"
+import { describe } from "vitest"
+import { RuntimeOperation } from "./operation"
+import { operationTest } from "./operation.test-utils"
+
+function createTrigger(name: string, spec: TriggerSpec): Trigger {
+  return { name, spec } as Trigger
+}
+
+describe("Operation - Update Triggers", () => {
+  operationTest(
+    "invokes before-update and after-update triggers around the unit update",
+    async ({
+      project,
+      logger,
+      runnerBackend,
+      libraryBackend,
+      artifactService,
+      instanceLockService,
+      operationService,
+      secretService,
+      instanceStateService,
+      projectModelService,
+      unitExtraService,
+      entitySnapshotService,
+      unitOutputService,
+      libraryService,
+      projectPortService,
+      createUnit,
+      createDeployedUnitState,
+      createOperation,
+      createContext,
+      setupPersistenceMocks,
+      setupImmediateLocking,
+      expect,
+    }) => {
+      // arrange
+      const unit = { ...createUnit("A"), args: { version: 2 } }
+      const state = createDeployedUnitState(unit)
+
+      await createContext({ instances: [unit], states: [state] })
+      setupImmediateLocking()
+      setupPersistenceMocks({ instances: [unit] })
+
+      unitExtraService.getInstanceTriggers.mockResolvedValue([
+        createTrigger("snapshot", { type: "before-update" }),
+        createTrigger("smoke-test", { type: "after-update" }),
+        createTrigger("notify", { type: "on-failure" }),
+        createTrigger("backup", { type: "before-destroy" }),
+      ])
+
+      // the after-update triggers see the snapshot of the new deployment
+      operationService.getLastDeployedInstanceSnapshot
+        .mockResolvedValueOnce({
+          model: { ...unit, args: { version: 1 } },
+          resolvedInputs: {},
+          secrets: { password: "version-1" },
+        })
+        .mockResolvedValueOnce({
+          model: unit,
+          resolvedInputs: {},
+          secrets: { password: "version-2" },
+        })
+
+      secretService.snapshotInstanceSecrets.mockResolvedValue({
+        values: { password: "new" },
+        versionIds: { password: "version-2" },
+      })
+
+      secretService.getSecretVersionValues.mockImplementation(async (_, versionIds) =>
+        versionIds.password === "version-1" ? { password: "old" } : { password: "new" },
+      )
+
+      const operation = createOperation({
+        type: "update",
+        requestedInstanceIds: [unit.id],
+        phases: [
+          {
+            type: "update",
+            instances: [{ id: unit.id, message: "requested", parentId: undefined }],
+          },
+        ],
+      })
+
+      const runtimeOperation = new RuntimeOperation(
+        project,
+        operation,
+        runnerBackend,
+        libraryBackend,
+        artifactService,
+        instanceLockService,
+        operationService,
+        secretService,
+        instanceStateService,
+        projectModelService,
+        unitExtraService,
+        entitySnapshotService,
+        unitOutputService,
+        logger,
+        libraryService,
+        projectPortService,
+      )
+
+      // act
+      await runtimeOperation.operateSafe()
+
+      // assert
+      const invokedTriggers = runnerBackend.update.mock.calls.map(
+        call => call[0].config.invokedTriggers,
+      )
+
+      expect(invokedTriggers).toEqual([[{ name: "snapshot" }], [], [{ name: "smoke-test" }]])
+
+      const deployedArgs = runnerBackend.update.mock.calls.map(call => call[0].config.args)
+      expect(deployedArgs).toEqual([{ version: 1 }, { version: 2 }, { version: 2 }])
+
+      // the triggers see the secrets of the deployment they are invoked against
+      const secretValues = runnerBackend.update.mock.calls.map(call => call[0].config.secretValues)
+      expect(secretValues).toEqual([{ password: "old" }, { password: "new" }, { password: "new" }])
+      expect(secretService.getInstanceSecretValues).not.toHaveBeenCalled()
+
+      expect(runnerBackend.update.mock.calls[0]?.[0].artifacts).toEqual([])
+      expect(operationService.markOperationFinished).toHaveBeenCalledWith(
+        project.id,
+        operation.id,
+        "completed",
+      )
+    },
+  )
+
+  operationTest(
+    "invokes on-failure triggers and keeps the operation failed",
+    async ({
+      project,
+      logger,
+      runnerBackend,
+      runner,
+      libraryBackend,
+      artifactService,
+      instanceLockService,
+      operationService,
+      secretService,
+      instanceStateService,
+      projectModelService,
+      unitExtraService,
+      entitySnapshotService,
+      unitOutputService,
+      libraryService,
+      projectPortService,
+      createUnit,
+      createDeployedUnitState,
+      createOperation,
+      createContext,
+      setupPersistenceMocks,
+      setupImmediateLocking,
+      expect,
+    }) => {
+      // arrange
+      const unit = { ...createUnit("A"), args: { version: 2 } }
+      const state = { ...createDeployedUnitState(unit), status: "failed" as const }
+
+      await createContext({ instances: [unit], states: [state] })
+      setupImmediateLocking()
+      setupPersistenceMocks({ instances: [unit] })
+
+      operationService.getLastDeployedInstanceSnapshot.mockResolvedValue({
+        model: { ...unit, args: { version: 1 } },
+        resolvedInputs: {},
+        secrets: null,
+      })
+
+      unitExtraService.getInstanceTriggers.mockResolvedValue([
+        createTrigger("snapshot", { type: "before-update" }),
+        createTrigger("smoke-test", { type: "after-update" }),
+        createTrigger("notify", { type: "on-failure" }),
+      ])
+
+      runner.setUpdateImpl(async input => {
+        if (input.config.invokedTriggers.length === 0) {
+          throw new Error("deployment failed")
+        }
+      })
+
+      const operation = createOperation({
+        type: "update",
+        requestedInstanceIds: [unit.id],
+        phases: [
+          {
+            type: "update",
+            instances: [{ id: unit.id, message: "requested", parentId: undefined }],
+          },
+        ],
+      })
+
+      const runtimeOperation = new RuntimeOperation(
+        project,
+        operation,
+        runnerBackend,
+        libraryBackend,
+        artifactService,
+        instanceLockService,
+        operationService,
+        secretService,
+        instanceStateService,
+        projectModelService,
+        unitExtraService,
+        entitySnapshotService,
+        unitOutputService,
+        logger,
+        libraryService,
+        projectPortService,
+      )
+
+      // act
+      await runtimeOperation.operateSafe()
+
+      // assert
+      const invokedTriggers = runnerBackend.update.mock.calls.map(
+        call => call[0].config.invokedTriggers,
+      )
+
+      // the before-update triggers are not invoked for the instances which are not deployed
+      expect(invokedTriggers).toEqual([[], [{ name: "notify" }]])
+
+      // the on-failure triggers roll the unit back instead of re-applying the failed configuration
+      expect(runnerBackend.update.mock.calls[1]?.[0].config.args).toEqual({ version: 1 })
+      expect(operationService.markOperationFinished).not.toHaveBeenCalled()
+
+      const operationStatuses = operationService.updateOperation.mock.calls.map(
+        call => (call[2] as { status?: unknown }).status,
+      )
+
+      expect(operationStatuses).toContain("failed")
+    },
+  )
+
+  operationTest(
+    "invokes on-failure triggers when after-update triggers fail",
+    async ({
+      project,
+      logger,
+      runnerBackend,
+      runner,
+      libraryBackend,
+      artifactService,
+      instanceLockService,
+      operationService,
+      secretService,
+      instanceStateService,
+      projectModelService,
+      unitExtraService,
+      entitySnapshotService,
+      unitOutputService,
+      libraryService,
+      projectPortService,
+      createUnit,
+      createDeployedUnitState,
+      createOperation,
+      createContext,
+      setupPersistenceMocks,
+      setupImmediateLocking,
+      expect,
+    }) => {
+      // arrange
+      const unit = { ...createUnit("A"), args: { version: 2 } }
+      const state = createDeployedUnitState(unit)
+
+      await createContext({ instances: [unit], states: [state] })
+      setupImmediateLocking()
+      setupPersistenceMocks({ instances: [unit] })
+
+      operationService.getLastDeployedInstanceSnapshot.mockResolvedValue({
+        model: { ...unit, args: { version: 1 } },
+        resolvedInputs: {},
+        secrets: null,
+      })
+
+      unitExtraService.getInstanceTriggers.mockResolvedValue([
+        createTrigger("smoke-test", { type: "after-update" }),
+        createTrigger("notify", { type: "on-failure" }),
+      ])
+
+      runner.setUpdateImpl(async input => {
+        if (input.config.invokedTriggers.some(trigger => trigger.name === "smoke-test")) {
+          throw new Error("smoke test failed")
+        }
+      })
+
+      const operation = createOperation({
+        type: "update",
+        requestedInstanceIds: [unit.id],
+        phases: [
+          {
+            type: "update",
+            instances: [{ id: unit.id, message: "requested", parentId: undefined }],
+          },
+        ],
+      })
+
+      const runtimeOperation = new RuntimeOperation(
+        project,
+        operation,
+        runnerBackend,
+        libraryBackend,
+        artifactService,
+        instanceLockService,
+        operationService,
+        secretService,
+        instanceStateService,
+        projectModelService,
+        unitExtraService,
+        entitySnapshotService,
+        unitOutputService,
+        logger,
+        libraryService,
+        projectPortService,
+      )
+
+      // act
+      await runtimeOperation.operateSafe()
+
+      // assert
+      const invokedTriggers = runnerBackend.update.mock.calls.map(
+        call => call[0].config.invokedTriggers,
+      )
+
+      expect(invokedTriggers).toEqual([[], [{ name: "smoke-test" }], [{ name: "notify" }]])
+      expect(operationService.markOperationFinished).not.toHaveBeenCalled()
+    },
+  )
+
+  operationTest(
+    "does not invoke update triggers when disabled",
+    async ({
+      project,
+      logger,
+      runnerBackend,
+      libraryBackend,
+      artifactService,
+      instanceLockService,
+      operationService,
+      secretService,
+      instanceStateService,
+      projectModelService,
+      unitExtraService,
+      entitySnapshotService,
+      unitOutputService,
+      libraryService,
+      projectPortService,
+      createUnit,
+      createDeployedUnitState,
+      createOperation,
+      createContext,
+      setupPersistenceMocks,
+      setupImmediateLocking,
+      expect,
+    }) => {
+      // arrange
+      const unit = createUnit("A")
+      const state = createDeployedUnitState(unit)
+
+      await createContext({ instances: [unit], states: [state] })
+      setupImmediateLocking()
+      setupPersistenceMocks({ instances: [unit] })
+
+      unitExtraService.getInstanceTriggers.mockResolvedValue([
+        createTrigger("snapshot", { type: "before-update" }),
+        createTrigger("smoke-test", { type: "after-update" }),
+      ])
+
+      const operation = createOperation({
+        type: "update",
+        requestedInstanceIds: [unit.id],
+        phases: [
+          {
+            type: "update",
+            instances: [{ id: unit.id, message: "requested", parentId: undefined }],
+          },
+        ],
+        options: { invokeUpdateTriggers: false },
+      })
+
+      const runtimeOperation = new RuntimeOperation(
+        project,
+        operation,
+        runnerBackend,
+        libraryBackend,
+        artifactService,
+        instanceLockService,
+        operationService,
+        secretService,
+        instanceStateService,
+        projectModelService,
+        unitExtraService,
+        entitySnapshotService,
+        unitOutputService,
+        logger,
+        libraryService,
+        projectPortService,
+      )
+
+      // act
+      await runtimeOperation.operateSafe()
+
+      // assert
+      expect(runnerBackend.update).toHaveBeenCalledTimes(1)
+      expect(unitExtraService.getInstanceTriggers).not.toHaveBeenCalled()
+    },
+  )
+
+  operationTest(
+    "skips on-failure triggers of instance which was never deployed",
+    async ({
+      project,
+      logger,
+      runnerBackend,
+      runner,
+      libraryBackend,
+      artifactService,
+      instanceLockService,
+      operationService,
+      secretService,
+      instanceStateService,
+      projectModelService,
+      unitExtraService,
+      entitySnapshotService,
+      unitOutputService,
+      libraryService,
+      projectPortService,
+      createUnit,
+      createDeployedUnitState,
+      createOperation,
+      createContext,
+      setupPersistenceMocks,
+      setupImmediateLocking,
+      expect,
+    }) => {
+      // arrange
+      const unit = createUnit("A")
+      const state = { ...createDeployedUnitState(unit), status: "undeployed" as const }
+
+      await createContext({ instances: [unit], states: [state] })
+      setupImmediateLocking()
+      setupPersistenceMocks({ instances: [unit] })
+
+      unitExtraService.getInstanceTriggers.mockResolvedValue([
+        createTrigger("notify", { type: "on-failure" }),
+      ])
+
+      runner.setUpdateImpl(async () => {
+        throw new Error("deployment failed")
+      })
+
+      const operation = createOperation({
+        type: "update",
+        requestedInstanceIds: [unit.id],
+        phases: [
+          {
+            type: "update",
+            instances: [{ id: unit.id, message: "requested", parentId: undefined }],
+          },
+        ],
+      })
+
+      const runtimeOperation = new RuntimeOperation(
+        project,
+        operation,
+        runnerBackend,
+        libraryBackend,
+        artifactService,
+        instanceLockService,
+        operationService,
+        secretService,
+        instanceStateService,
+        projectModelService,
+        unitExtraService,
+        entitySnapshotService,
+        unitOutputService,
+        logger,
+        libraryService,
+        projectPortService,
+      )
+
+      // act
+      await runtimeOperation.operateSafe()
+
+      // assert
+      expect(runnerBackend.update).toHaveBeenCalledTimes(1)
+      expect(operationService.getLastDeployedInstanceSnapshot).toHaveBeenCalledWith(
+        project.id,
+        state.id,
+      )
+    },
+  )
+})
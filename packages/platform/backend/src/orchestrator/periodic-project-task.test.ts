@@ -0,0 +1,74 @@
+import type { ProjectUnlockService } from "../business"
+import { afterEach, beforeEach, describe, vi } from "vitest"
+import { test } from "../test-utils"
+import { MemoryProjectUnlockBackend } from "../unlock"
+import { PeriodicProjectTask } from "./periodic-project-task"
+
+describe("PeriodicProjectTask", () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  test("runs task for unlocked projects and drops locked ones", async ({ logger, expect }) => {
+    // arrange
+    const projectUnlockBackend = new MemoryProjectUnlockBackend()
+    const registerUnlockTask = vi.fn()
+    const task = vi.fn().mockResolvedValue(undefined)
+
+    using _ = new PeriodicProjectTask(
+      "test-task",
+      1000,
+      projectUnlockBackend,
+      { registerUnlockTask } as unknown as ProjectUnlockService,
+      task,
+      logger,
+    )
+
+    const [name, onUnlock] = registerUnlockTask.mock.calls[0]!
+    await projectUnlockBackend.unlockProject("project-a", Buffer.alloc(0), "")
+    await projectUnlockBackend.unlockProject("project-b", Buffer.alloc(0), "")
+    onUnlock("project-a")
+    onUnlock("project-b")
+
+    // act
+    await vi.advanceTimersByTimeAsync(1000)
+    await projectUnlockBackend.lockProject("project-b")
+    await vi.advanceTimersByTimeAsync(1000)
+
+    // assert
+    expect(name).toBe("test-task")
+    expect(task.mock.calls).toEqual([["project-a"], ["project-b"], ["project-a"]])
+  })
+
+  test("continues with other projects when task fails", async ({ logger, expect }) => {
+    // arrange
+    const projectUnlockBackend = new MemoryProjectUnlockBackend()
+    const registerUnlockTask = vi.fn()
+    const task = vi.fn().mockRejectedValueOnce(new Error("failed")).mockResolvedValue(undefined)
+
+    using _ = new PeriodicProjectTask(
+      "test-task",
+      1000,
+      projectUnlockBackend,
+      { registerUnlockTask } as unknown as ProjectUnlockService,
+      task,
+      logger,
+    )
+
+    const [, onUnlock] = registerUnlockTask.mock.calls[0]!
+    await projectUnlockBackend.unlockProject("project-a", Buffer.alloc(0), "")
+    await projectUnlockBackend.unlockProject("project-b", Buffer.alloc(0), "")
+    onUnlock("project-a")
+    onUnlock("project-b")
+
+    // act
+    await vi.advanceTimersByTimeAsync(1000)
+
+    // assert
+    expect(task.mock.calls).toEqual([["project-a"], ["project-b"]])
+  })
+})
@@ -0,0 +1,65 @@
+import type { Logger } from "pino"
+import type { ProjectUnlockService } from "../business"
+import type { ProjectUnlockBackend } from "../unlock"
+
+/**
+ * Periodically runs the task for each project unlocked since the backend start.
+ *
+ * The projects are collected by the unlock task registered with the given name
+ * and dropped once they are found locked.
+ * The failure of the task for one project is logged and does not affect other projects.
+ */
+export class PeriodicProjectTask implements Disposable {
+  private readonly projectIds = new Set<string>()
+  private readonly timer: ReturnType<typeof setInterval>
+  private ticking = false
+
+  constructor(
+    private readonly name: string,
+    intervalMs: number,
+    private readonly projectUnlockBackend: ProjectUnlockBackend,
+    projectUnlockService: ProjectUnlockService,
+    private readonly task: (projectId: string) => Promise<void>,
+    private readonly logger: Logger,
+  ) {
+    projectUnlockService.registerUnlockTask(
+      //
+      name,
+      projectId => void this.projectIds.add(projectId),
+    )
+
+    this.timer = setInterval(() => void this.tick(), intervalMs)
+    this.timer.unref()
+  }
+
+  private async tick(): Promise<void> {
+    // do not overlap with the previous tick if it takes longer than the interval
+    if (this.ticking) {
+      return
+    }
+
+    this.ticking = true
+
+    try {
+      for (const projectId of this.projectIds) {
+        const isUnlocked = await this.projectUnlockBackend.checkProjectUnlocked(projectId)
+        if (!isUnlocked) {
+          this.projectIds.delete(projectId)
+          continue
+        }
+
+        try {
+          await this.task(projectId)
+        } catch (error) {
+          this.logger.error({ error, projectId }, `failed to run periodic task "%s"`, this.name)
+        }
+      }
+    } finally {
+      this.ticking = false
+    }
+  }
+
+  [Symbol.dispose](): void {
+    clearInterval(this.timer)
+  }
+}
@@ -102,6 +102,8 @@ export class PlanTestBuilder {
       source: stateType === "ghost" ? "virtual" : "resident",
       kind: instance.kind,
       hasResourceHooks: false,
+      lastEditedBy: null,
+      lastEditedAt: null,
       parentId: null,
       parentInstanceId: instance.parentId ?? null,
       selfHash: null,
@@ -128,6 +130,7 @@ export class PlanTestBuilder {
           status: "updated",
           currentResourceCount: null,
           totalResourceCount: null,
+          resourceChanges: null,
           model: instance,
           resolvedInputs: {},
           startedAt: null,
@@ -144,6 +147,7 @@ export class PlanTestBuilder {
           status: "updated",
           currentResourceCount: null,
           totalResourceCount: null,
+          resourceChanges: null,
           model: instance,
           resolvedInputs: {},
           startedAt: null,
@@ -159,6 +163,7 @@ export class PlanTestBuilder {
           status: "updated",
           currentResourceCount: null,
           totalResourceCount: null,
+          resourceChanges: null,
           model: instance,
           resolvedInputs: {},
           startedAt: null,
@@ -0,0 +1,235 @@
+import type { ProjectUnlockService } from "../business"
+import type { OperationManager } from "./manager"
+import { describe, vi } from "vitest"
+import { getTriggerNextRunAt } from "../shared"
+import { test } from "../test-utils"
+import { MemoryProjectUnlockBackend } from "../unlock"
+import { TriggerScheduler } from "./trigger-scheduler"
+
+describe("TriggerScheduler", () => {
+  const schedulerTest = test.extend<{
+    operationManager: OperationManager
+    scheduler: TriggerScheduler
+  }>({
+    operationManager: async ({}, use) => {
+      const operationManager = vi.mockObject({
+        launch: vi.fn(),
+      } as unknown as OperationManager)
+
+      await use(operationManager)
+    },
+
+    scheduler: async ({ database, operationManager, logger }, use) => {
+      using scheduler = new TriggerScheduler(
+        { HIGHSTATE_TRIGGER_SCHEDULER_INTERVAL_MS: 60_000 },
+        database,
+        new MemoryProjectUnlockBackend(),
+        { registerUnlockTask: vi.fn() } as unknown as ProjectUnlockService,
+        operationManager,
+        logger,
+      )
+
+      await use(scheduler)
+    },
+  })
+
+  schedulerTest(
+    "launches update operation for due schedule triggers",
+    async ({
+      scheduler,
+      operationManager,
+      createProject,
+      createInstanceState,
+      database,
+      logger,
+      expect,
+    }) => {
+      // arrange
+      const project = await createProject("scheduled")
+      const instance = await createInstanceState(project.id)
+      const projectDatabase = await database.forProject(project.id)
+
+      const now = new Date("2026-01-01T03:00:30Z")
+
+      await projectDatabase.trigger.createMany({
+        data: [
+          {
+            stateId: instance.id,
+            name: "backup",
+            meta: { title: "Backup" },
+            spec: { type: "schedule", cron: "0 3 * * *" },
+            nextRunAt: new Date("2026-01-01T03:00:00Z"),
+          },
+          {
+            stateId: instance.id,
+            name: "rotate",
+            meta: { title: "Rotate" },
+            spec: { type: "schedule", cron: "0 4 * * *" },
+            nextRunAt: new Date("2026-01-01T04:00:00Z"),
+          },
+        ],
+      })
+
+      // act
+      await scheduler.invokeDueTriggers(project.id, now)
+
+      // assert
+      expect(operationManager.launch).toHaveBeenCalledTimes(1)
+      expect(operationManager.launch).toHaveBeenCalledWith(
+        expect.objectContaining({
+          projectId: project.id,
+          type: "update",
+          instanceIds: [instance.instanceId],
+          meta: expect.objectContaining({
+            initiator: { type: "system", source: "trigger-scheduler" },
+          }),
+          options: expect.objectContaining({ invokedTriggers: ["backup"] }),
+        }),
+      )
+
+      const trigger = await projectDatabase.trigger.findUniqueOrThrow({
+        where: { stateId_name: { stateId: instance.id, name: "backup" } },
+      })
+
+      expect(trigger.lastRunAt).toEqual(now)
+      expect(trigger.nextRunAt).toEqual(
+        getTriggerNextRunAt({ type: "schedule", cron: "0 3 * * *" }, now, logger),
+      )
+    },
+  )
+
+  schedulerTest(
+    "does not invoke the same run twice",
+    async ({
+      scheduler,
+      operationManager,
+      createProject,
+      createInstanceState,
+      database,
+      expect,
+    }) => {
+      // arrange
+      const project = await createProject("scheduled-once")
+      const instance = await createInstanceState(project.id)
+      const projectDatabase = await database.forProject(project.id)
+
+      const now = new Date("2026-01-01T03:00:30Z")
+
+      await projectDatabase.trigger.create({
+        data: {
+          stateId: instance.id,
+          name: "backup",
+          meta: { title: "Backup" },
+          spec: { type: "schedule", cron: "0 3 * * *" },
+          nextRunAt: new Date("2026-01-01T03:00:00Z"),
+        },
+      })
+
+      // act
+      await Promise.all([
+        scheduler.invokeDueTriggers(project.id, now),
+        scheduler.invokeDueTriggers(project.id, now),
+      ])
+
+      // assert
+      expect(operationManager.launch).toHaveBeenCalledTimes(1)
+    },
+  )
+
+  schedulerTest(
+    "stops scheduling trigger with invalid cron expression",
+    async ({
+      scheduler,
+      operationManager,
+      createProject,
+      createInstanceState,
+      database,
+      logger,
+      expect,
+    }) => {
+      // arrange
+      const project = await createProject("scheduled-invalid")
+      const instance = await createInstanceState(project.id)
+      const projectDatabase = await database.forProject(project.id)
+      const warn = vi.spyOn(logger, "warn")
+
+      const now = new Date("2026-01-01T03:00:30Z")
+
+      // stored before the cron expressions were validated
+      await projectDatabase.trigger.create({
+        data: {
+          stateId: instance.id,
+          name: "backup",
+          meta: { title: "Backup" },
+          spec: { type: "schedule", cron: "every day" },
+          nextRunAt: new Date("2026-01-01T03:00:00Z"),
+        },
+      })
+
+      // act
+      await scheduler.invokeDueTriggers(project.id, now)
+
+      // assert
+      const trigger = await projectDatabase.trigger.findUniqueOrThrow({
+        where: { stateId_name: { stateId: instance.id, name: "backup" } },
+      })
+
+      expect(operationManager.launch).toHaveBeenCalledTimes(1)
+      expect(trigger.nextRunAt).toBeNull()
+      expect(warn).toHaveBeenCalledWith(
+        expect.objectContaining({ cron: "every day" }),
+        expect.any(String),
+      )
+    },
+  )
+
+  schedulerTest(
+    "does not retry the run when operation fails to launch",
+    async ({
+      scheduler,
+      operationManager,
+      createProject,
+      createInstanceState,
+      database,
+      logger,
+      expect,
+    }) => {
+      // arrange
+      const project = await createProject("scheduled-failed")
+      const instance = await createInstanceState(project.id)
+      const projectDatabase = await database.forProject(project.id)
+
+      const now = new Date("2026-01-01T03:00:30Z")
+
+      await projectDatabase.trigger.create({
+        data: {
+          stateId: instance.id,
+          name: "backup",
+          meta: { title: "Backup" },
+          spec: { type: "schedule", cron: "0 3 * * *" },
+          nextRunAt: new Date("2026-01-01T03:00:00Z"),
+        },
+      })
+
+      // the launch fails after the operation is already created
+      vi.mocked(operationManager.launch).mockRejectedValueOnce(
+        new Error(`Project with ID "${project.id}" not found`),
+      )
+
+      // act
+      await scheduler.invokeDueTriggers(project.id, now)
+      await scheduler.invokeDueTriggers(project.id, new Date("2026-01-01T03:00:45Z"))
+
+      // assert
+      const trigger = await projectDatabase.trigger.findUniqueOrThrow({
+        where: { stateId_name: { stateId: instance.id, name: "backup" } },
+      })
+
+      expect(trigger.lastRunAt).toEqual(now)
+      expect(trigger.nextRunAt).toEqual(
+        getTriggerNextRunAt({ type: "schedule", cron: "0 3 * * *" }, now, logger),
+      )
+      expect(operationManager.launch).toHaveBeenCalledTimes(1)
+    },
+  )
+})
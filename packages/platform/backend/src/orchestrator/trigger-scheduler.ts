@@ -0,0 +1,114 @@
+import type { Logger } from "pino"
+import type { ProjectUnlockService } from "../business"
+import type { DatabaseManager } from "../database"
+import type { ProjectUnlockBackend } from "../unlock"
+import type { OperationManager } from "./manager"
+import { z } from "zod"
+import { getTriggerNextRunAt } from "../shared"
+import { PeriodicProjectTask } from "./periodic-project-task"
+
+export const triggerSchedulerConfig = z.object({
+  HIGHSTATE_TRIGGER_SCHEDULER_INTERVAL_MS: z.coerce.number().int().positive().default(15000),
+})
+
+/**
+ * Invokes the schedule triggers of the unlocked projects according to their cron expressions.
+ *
+ * Each due trigger is invoked by launching the update operation of its instance
+ * with the trigger passed to the unit in `invokedTriggers`.
+ *
+ * The run is claimed by moving the `nextRunAt` of the trigger forward before launching the operation,
+ * so the trigger is invoked only once even when multiple backends share the same project.
+ * The runs missed while the project was locked or the backend was down are invoked only once.
+ * If the operation cannot be launched, the run is not retried, since the failed launch
+ * could have already created the operation, and the trigger waits for its next run.
+ */
+export class TriggerScheduler implements Disposable {
+  private readonly task: PeriodicProjectTask
+
+  constructor(
+    private readonly config: z.infer<typeof triggerSchedulerConfig>,
+    private readonly database: DatabaseManager,
+    projectUnlockBackend: ProjectUnlockBackend,
+    projectUnlockService: ProjectUnlockService,
+    private readonly operationManager: OperationManager,
+    private readonly logger: Logger,
+  ) {
+    this.task = new PeriodicProjectTask(
+      "schedule-triggers",
+      this.config.HIGHSTATE_TRIGGER_SCHEDULER_INTERVAL_MS,
+      projectUnlockBackend,
+      projectUnlockService,
+      projectId => this.invokeDueTriggers(projectId),
+      this.logger,
+    )
+  }
+
+  /**
+   * Invokes all schedule triggers of the project which are due at the given time.
+   *
+   * @param projectId The ID of the project to invoke the triggers for.
+   * @param now The current time.
+   */
+  async invokeDueTriggers(projectId: string, now = new Date()): Promise<void> {
+    const database = await this.database.forProject(projectId)
+
+    const dueTriggers = await database.trigger.findMany({
+      where: { nextRunAt: { lte: now } },
+      select: {
+        id: true,
+        name: true,
+        spec: true,
+        nextRunAt: true,
+        state: { select: { instanceId: true } },
+      },
+    })
+
+    for (const trigger of dueTriggers) {
+      // claim the run, so other backends will not invoke the same trigger
+      const { count } = await database.trigger.updateMany({
+        where: { id: trigger.id, nextRunAt: trigger.nextRunAt },
+        data: {
+          lastRunAt: now,
+          nextRunAt: getTriggerNextRunAt(trigger.spec, now, this.logger),
+        },
+      })
+
+      if (count === 0) {
+        continue
+      }
+
+      this.logger.info(
+        { projectId, triggerId: trigger.id, instanceId: trigger.state.instanceId },
+        `invoking scheduled trigger "%s"`,
+        trigger.name,
+      )
+
+      try {
+        await this.operationManager.launch({
+          projectId,
+          type: "update",
+          instanceIds: [trigger.state.instanceId],
+          meta: {
+            title: `Scheduled trigger "${trigger.name}"`,
+            initiator: { type: "system", source: "trigger-scheduler" },
+          },
+          options: {
+            invokedTriggers: [trigger.name],
+            ignoreChangedDependencies: true,
+          },
+        })
+      } catch (error) {
+        this.logger.error(
+          { error, projectId, triggerId: trigger.id },
+          `failed to launch operation for scheduled trigger "%s"`,
+          trigger.name,
+        )
+      }
+    }
+  }
+
+  [Symbol.dispose](): void {
+    this.task[Symbol.dispose]()
+  }
+}
@@ -0,0 +1,275 @@
+import type { Operation, Worker } from "../database"
+import type { OperationManager } from "./manager"
+import { createId } from "@paralleldrive/cuid2"
+import { describe, vi } from "vitest"
+import { ServiceAccountAccessService } from "../business"
+import { AccessError, OperationRateLimitExceededError } from "../shared"
+import { test } from "../test-utils"
+import { WorkerOperationRequester } from "./worker-operation-requester"
+
+describe("WorkerOperationRequester", () => {
+  const requesterTest = test.extend<{
+    operationManager: OperationManager
+    requester: WorkerOperationRequester
+    createRegisteredWorker: (stateId: string, canRequestOperations?: boolean) => Promise<Worker>
+  }>({
+    operationManager: async ({}, use) => {
+      const operationManager = vi.mockObject({
+        launch: vi.fn().mockImplementation(async () => ({ id: createId() }) as Operation),
+      } as unknown as OperationManager)
+
+      await use(operationManager)
+    },
+
+    requester: async ({ database, operationManager, logger }, use) => {
+      const requester = new WorkerOperationRequester(
+        {
+          HIGHSTATE_WORKER_OPERATION_RATE_LIMIT: 2,
+          HIGHSTATE_WORKER_OPERATION_RATE_LIMIT_WINDOW_MS: 60_000,
+        },
+        database,
+        new ServiceAccountAccessService(database, logger),
+        operationManager,
+        logger,
+      )
+
+      await use(requester)
+    },
+
+    createRegisteredWorker: async ({ projectDatabase }, use) => {
+      await use(async (stateId, canRequestOperations = true) => {
+        const worker = await projectDatabase.worker.create({
+          data: {
+            identity: `ghcr.io/org/${createId()}`,
+            serviceAccount: {
+              create: { meta: { title: "Test Worker Service Account" }, canRequestOperations },
+            },
+          },
+        })
+
+        const workerVersion = await projectDatabase.workerVersion.create({
+          data: {
+            worker: { connect: worker },
+            digest: createId(),
+            meta: { title: "Test Worker Version" },
+            apiKey: {
+              create: {
+                meta: { title: "Test Worker API Key" },
+                serviceAccountId: worker.serviceAccountId,
+                token: createId(),
+              },
+            },
+          },
+        })
+
+        await projectDatabase.workerUnitRegistration.create({
+          data: {
+            stateId,
+            name: "test-worker",
+            params: {},
+            workerVersionId: workerVersion.id,
+          },
+        })
+
+        return worker
+      })
+    },
+  })
+
+  requesterTest(
+    "launches operation with worker as initiator",
+    async ({
+      requester,
+      operationManager,
+      project,
+      createInstanceState,
+      createRegisteredWorker,
+      expect,
+    }) => {
+      // arrange
+      const state = await createInstanceState(project.id)
+      const worker = await createRegisteredWorker(state.id)
+
+      // act
+      await requester.requestOperation(project.id, worker.serviceAccountId, {
+        type: "update",
+        stateIds: [state.id],
+        reason: "deployment image changed",
+      })
+
+      // assert
+      expect(operationManager.launch).toHaveBeenCalledWith({
+        projectId: project.id,
+        type: "update",
+        instanceIds: [state.instanceId],
+        meta: {
+          title: `Update requested by ${worker.identity}`,
+          description: "deployment image changed",
+          initiator: {
+            type: "worker",
+            workerId: worker.id,
+            workerIdentity: worker.identity,
+            serviceAccountId: worker.serviceAccountId,
+          },
+        },
+      })
+    },
+  )
+
+  requesterTest(
+    "rejects service account without permission",
+    async ({
+      requester,
+      operationManager,
+      project,
+      createInstanceState,
+      createRegisteredWorker,
+      expect,
+    }) => {
+      // arrange
+      const state = await createInstanceState(project.id)
+      const worker = await createRegisteredWorker(state.id, false)
+
+      // act & assert
+      await expect(
+        requester.requestOperation(project.id, worker.serviceAccountId, {
+          type: "refresh",
+          stateIds: [state.id],
+        }),
+      ).rejects.toThrow(AccessError)
+
+      expect(operationManager.launch).not.toHaveBeenCalled()
+    },
+  )
+
+  requesterTest(
+    "rejects instances worker is not registered for",
+    async ({
+      requester,
+      operationManager,
+      project,
+      createInstanceState,
+      createRegisteredWorker,
+      expect,
+    }) => {
+      // arrange
+      const state = await createInstanceState(project.id)
+      const otherState = await createInstanceState(project.id)
+      const worker = await createRegisteredWorker(state.id)
+
+      // act & assert
+      await expect(
+        requester.requestOperation(project.id, worker.serviceAccountId, {
+          type: "update",
+          stateIds: [state.id, otherState.id],
+        }),
+      ).rejects.toThrow(AccessError)
+
+      expect(operationManager.launch).not.toHaveBeenCalled()
+    },
+  )
+
+  requesterTest(
+    "limits number of requests per service account",
+    async ({
+      requester,
+      operationManager,
+      project,
+      createInstanceState,
+      createRegisteredWorker,
+      expect,
+    }) => {
+      // arrange
+      const state = await createInstanceState(project.id)
+      const worker = await createRegisteredWorker(state.id)
+      const request = { type: "refresh" as const, stateIds: [state.id] }
+
+      // act
+      await requester.requestOperation(project.id, worker.serviceAccountId, request)
+      await requester.requestOperation(project.id, worker.serviceAccountId, request)
+
+      // assert
+      await expect(
+        requester.requestOperation(project.id, worker.serviceAccountId, request),
+      ).rejects.toThrow(OperationRateLimitExceededError)
+
+      expect(operationManager.launch).toHaveBeenCalledTimes(2)
+    },
+  )
+
+  requesterTest(
+    "shares rate limit between backends",
+    async ({
+      requester,
+      database,
+      operationManager,
+      project,
+      createInstanceState,
+      createRegisteredWorker,
+      logger,
+      expect,
+    }) => {
+      // arrange
+      const state = await createInstanceState(project.id)
+      const worker = await createRegisteredWorker(state.id)
+      const request = { type: "refresh" as const, stateIds: [state.id] }
+
+      const otherRequester = new WorkerOperationRequester(
+        {
+          HIGHSTATE_WORKER_OPERATION_RATE_LIMIT: 2,
+          HIGHSTATE_WORKER_OPERATION_RATE_LIMIT_WINDOW_MS: 60_000,
+        },
+        database,
+        new ServiceAccountAccessService(database, logger),
+        operationManager,
+        logger,
+      )
+
+      // act
+      await requester.requestOperation(project.id, worker.serviceAccountId, request)
+      await otherRequester.requestOperation(project.id, worker.serviceAccountId, request)
+
+      // assert
+      await expect(
+        otherRequester.requestOperation(project.id, worker.serviceAccountId, request),
+      ).rejects.toThrow(OperationRateLimitExceededError)
+
+      expect(operationManager.launch).toHaveBeenCalledTimes(2)
+    },
+  )
+
+  requesterTest(
+    "does not count requests outside window",
+    async ({
+      requester,
+      projectDatabase,
+      operationManager,
+      project,
+      createInstanceState,
+      createRegisteredWorker,
+      expect,
+    }) => {
+      // arrange
+      const state = await createInstanceState(project.id)
+      const worker = await createRegisteredWorker(state.id)
+      const request = { type: "refresh" as const, stateIds: [state.id] }
+
+      await projectDatabase.workerOperationRequest.createMany({
+        data: [
+          { workerId: worker.id, createdAt: new Date(Date.now() - 120_000) },
+          { workerId: worker.id, createdAt: new Date(Date.now() - 90_000) },
+        ],
+      })
+
+      // act
+      await requester.requestOperation(project.id, worker.serviceAccountId, request)
+      await requester.requestOperation(project.id, worker.serviceAccountId, request)
+
+      // assert
+      expect(operationManager.launch).toHaveBeenCalledTimes(2)
+      expect(
+        await projectDatabase.workerOperationRequest.count({ where: { workerId: worker.id } }),
+      ).toBe(2)
+    },
+  )
+})
@@ -0,0 +1,150 @@
+import type { Logger } from "pino"
+import type { ServiceAccountAccessService } from "../business"
+import type { DatabaseManager, Operation, ProjectDatabase } from "../database"
+import type { OperationManager } from "./manager"
+import { z } from "zod"
+import { AccessError, OperationRateLimitExceededError, type WorkerOperationType } from "../shared"
+
+export const workerOperationRequesterConfig = z.object({
+  HIGHSTATE_WORKER_OPERATION_RATE_LIMIT: z.coerce.number().int().positive().default(10),
+  HIGHSTATE_WORKER_OPERATION_RATE_LIMIT_WINDOW_MS: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(60 * 60 * 1000),
+})
+
+export type WorkerOperationRequest = {
+  /**
+   * The type of the operation to launch.
+   */
+  type: WorkerOperationType
+
+  /**
+   * The IDs of the instance states to launch the operation for.
+   */
+  stateIds: string[]
+
+  /**
+   * The human-readable reason of the request recorded in the operation description.
+   */
+  reason?: string
+}
+
+/**
+ * Launches the operations requested by the workers, e.g. when they notice that
+ * the external system they watch requires the instance to be redeployed.
+ *
+ * The worker can request the operation only if its service account is allowed to
+ * and only for the instances it is registered for.
+ * The number of the requests of every worker is limited within the sliding window.
+ * The requests are persisted in the project database, so the limit is shared by all backends.
+ */
+export class WorkerOperationRequester {
+  constructor(
+    private readonly config: z.infer<typeof workerOperationRequesterConfig>,
+    private readonly database: DatabaseManager,
+    private readonly serviceAccountAccessService: ServiceAccountAccessService,
+    private readonly operationManager: OperationManager,
+    private readonly logger: Logger,
+  ) {}
+
+  /**
+   * Launches the operation requested by the worker using the given service account.
+   *
+   * @param projectId The ID of the project containing the instances.
+   * @param serviceAccountId The ID of the service account of the worker.
+   * @param request The operation request.
+   * @returns The launched operation.
+   * @throws AccessError if the service account is not allowed to request the operation.
+   * @throws OperationRateLimitExceededError if the service account requested too many operations.
+   */
+  async requestOperation(
+    projectId: string,
+    serviceAccountId: string,
+    request: WorkerOperationRequest,
+  ): Promise<Operation> {
+    const database = await this.database.forProject(projectId)
+
+    const worker = await database.worker.findUnique({
+      where: { serviceAccountId },
+      select: {
+        id: true,
+        identity: true,
+        serviceAccount: { select: { canRequestOperations: true } },
+      },
+    })
+
+    if (!worker?.serviceAccount.canRequestOperations) {
+      throw new AccessError(
+        `Service account "${serviceAccountId}" is not allowed to request operations in project "${projectId}"`,
+      )
+    }
+
+    for (const stateId of request.stateIds) {
+      await this.serviceAccountAccessService.ensureInstanceAccess(
+        projectId,
+        serviceAccountId,
+        stateId,
+      )
+    }
+
+    const states = await database.instanceState.findMany({
+      where: { id: { in: request.stateIds } },
+      select: { instanceId: true },
+    })
+
+    await this.consumeRequest(database, projectId, serviceAccountId, worker.id)
+
+    this.logger.info(
+      { projectId, workerId: worker.id, stateIds: request.stateIds },
+      `worker "%s" requested %s operation`,
+      worker.identity,
+      request.type,
+    )
+
+    return await this.operationManager.launch({
+      projectId,
+      type: request.type,
+      instanceIds: states.map(state => state.instanceId),
+      meta: {
+        title: `${request.type === "update" ? "Update" : "Refresh"} requested by ${worker.identity}`,
+        description: request.reason,
+        initiator: {
+          type: "worker",
+          workerId: worker.id,
+          workerIdentity: worker.identity,
+          serviceAccountId,
+        },
+      },
+    })
+  }
+
+  private async consumeRequest(
+    database: ProjectDatabase,
+    projectId: string,
+    serviceAccountId: string,
+    workerId: string,
+  ): Promise<void> {
+    const windowStart = new Date(
+      Date.now() - this.config.HIGHSTATE_WORKER_OPERATION_RATE_LIMIT_WINDOW_MS,
+    )
+
+    await database.workerOperationRequest.deleteMany({
+      where: { workerId, createdAt: { lt: windowStart } },
+    })
+
+    // record the request before counting, so the concurrent requests handled by other backends
+    // see each other and can only be rejected together instead of being accepted together
+    const request = await database.workerOperationRequest.create({ data: { workerId } })
+
+    const requestCount = await database.workerOperationRequest.count({
+      where: { workerId, createdAt: { gte: windowStart } },
+    })
+
+    if (requestCount > this.config.HIGHSTATE_WORKER_OPERATION_RATE_LIMIT) {
+      await database.workerOperationRequest.delete({ where: { id: request.id } })
+      throw new OperationRateLimitExceededError(projectId, serviceAccountId)
+    }
+  }
+}
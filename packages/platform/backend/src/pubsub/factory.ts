@@ -2,18 +2,23 @@ import type { Logger } from "pino"
 import type { PubSubBackend } from "./abstractions"
 import { z } from "zod"
 import { MemoryPubSubBackend } from "./memory"
+import { PostgresqlPubSubBackend, postgresqlPubSubBackendConfig } from "./postgresql"
 
 export const pubSubBackendConfig = z.object({
-  HIGHSTATE_PUBSUB_BACKEND_TYPE: z.enum(["memory"]).default("memory"),
+  HIGHSTATE_PUBSUB_BACKEND_TYPE: z.enum(["memory", "postgresql"]).default("memory"),
+  ...postgresqlPubSubBackendConfig.shape,
 })
 
-export function createPubSubBackend(
+export async function createPubSubBackend(
   config: z.infer<typeof pubSubBackendConfig>,
   logger: Logger,
-): PubSubBackend {
+): Promise<PubSubBackend> {
   switch (config.HIGHSTATE_PUBSUB_BACKEND_TYPE) {
     case "memory": {
       return new MemoryPubSubBackend(logger)
     }
+    case "postgresql": {
+      return await PostgresqlPubSubBackend.create(config, logger)
+    }
   }
 }
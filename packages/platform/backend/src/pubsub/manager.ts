@@ -5,6 +5,7 @@ import { z } from "zod"
 import {
   instanceLockEventSchema,
   instanceStateEventSchema,
+  librarySpecEventSchema,
   type OperationLog,
   operationEventSchema,
   projectModelEventSchema,
@@ -25,6 +26,7 @@ export type PubSubEventMap = {
   "worker-unit-registration": [projectId: string, workerVersionId: string]
   "worker-version-log": [projectId: string, workerVersionId: string]
   "worker-version-status": [projectId: string]
+  "library-spec": []
 }
 
 const eventSchemas = {
@@ -38,6 +40,7 @@ const eventSchemas = {
   "worker-unit-registration": workerUnitRegistrationEventSchema,
   "worker-version-log": z.custom<WorkerVersionLog>(),
   "worker-version-status": workerVersionStatusEventSchema,
+  "library-spec": librarySpecEventSchema,
 }
 
 type PubSubEventSchemas = typeof eventSchemas
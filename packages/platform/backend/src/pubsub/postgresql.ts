@@ -0,0 +1,215 @@
+import type { Logger } from "pino"
+import type { PubSubBackend } from "./abstractions"
+import { EventEmitter, on } from "node:events"
+import { setTimeout } from "node:timers/promises"
+import { decode, encode } from "@msgpack/msgpack"
+import pg from "pg"
+import { z } from "zod"
+import { isPostgresqlError } from "../database/postgresql/shared"
+import { BackendError } from "../shared"
+
+export const postgresqlPubSubBackendConfig = z.object({
+  HIGHSTATE_BACKEND_DATABASE_POSTGRESQL_URL: z.string().optional(),
+  HIGHSTATE_PUBSUB_BACKEND_POSTGRESQL_URL: z.string().optional(),
+})
+
+const channelName = "highstate_pubsub"
+const messageTableName = "_HighstatePubSubMessage"
+
+// the payload of NOTIFY is limited to 8000 bytes, larger messages are passed through the table
+const maxNotificationPayloadSize = 7900
+const messageTableRetentionMs = 60_000
+const reconnectDelayMs = 1000
+
+/**
+ * The pubsub backend based on PostgreSQL LISTEN/NOTIFY.
+ *
+ * All messages are sent through the single channel with the topic included in the payload,
+ * so each backend process only needs one dedicated connection to receive them.
+ * The messages are encoded with msgpack to preserve the dates and other non-JSON values.
+ *
+ * The messages are validated against the schema both when published and when received.
+ * Like in the memory backend, the messages published while the connection is lost are not delivered.
+ */
+export class PostgresqlPubSubBackend implements PubSubBackend, AsyncDisposable {
+  private readonly eventEmitter = new EventEmitter()
+  private listenClient: pg.Client | undefined
+  private dispatchQueue = Promise.resolve()
+  private disposed = false
+
+  private constructor(
+    private readonly connectionString: string,
+    private readonly pool: pg.Pool,
+    private readonly logger: Logger,
+  ) {
+    this.eventEmitter.setMaxListeners(0)
+  }
+
+  async subscribe(
+    topic: string,
+    schema: z.ZodType,
+    signal?: AbortSignal,
+  ): Promise<AsyncIterable<unknown>> {
+    return this.listen(topic, schema, signal)
+  }
+
+  private async *listen(
+    topic: string,
+    schema: z.ZodType,
+    signal?: AbortSignal,
+  ): AsyncIterable<unknown> {
+    for await (const [event] of on(this.eventEmitter, topic, { signal })) {
+      const result = schema.safeParse(event)
+      if (!result.success) {
+        this.logger.warn({ topic, error: result.error }, "received invalid message, skipping")
+        continue
+      }
+
+      yield result.data
+    }
+  }
+
+  async publish(topic: string, schema: z.ZodType, message: unknown): Promise<void> {
+    const data = Buffer.from(encode(schema.parse(message), { ignoreUndefined: true }))
+    let payload = `${topic}\n${data.toString("base64")}`
+
+    if (Buffer.byteLength(payload) > maxNotificationPayloadSize) {
+      const result = await this.pool.query<{ id: string }>(
+        `INSERT INTO "${messageTableName}" ("data") VALUES ($1) RETURNING "id"`,
+        [data],
+      )
+
+      payload = `${topic}\n@${result.rows[0].id}`
+
+      await this.pool.query(
+        `DELETE FROM "${messageTableName}" WHERE "createdAt" < now() - make_interval(secs => $1)`,
+        [messageTableRetentionMs / 1000],
+      )
+    }
+
+    await this.pool.query("SELECT pg_notify($1, $2)", [channelName, payload])
+    this.logger.trace({ topic }, "published message to topic")
+  }
+
+  private handleNotification(payload: string | undefined): void {
+    if (!payload) {
+      return
+    }
+
+    const separatorIndex = payload.indexOf("\n")
+    const topic = payload.slice(0, separatorIndex)
+
+    // do not decode the messages nobody in this process is interested in
+    if (this.eventEmitter.listenerCount(topic) === 0) {
+      return
+    }
+
+    const content = payload.slice(separatorIndex + 1)
+
+    // the messages loaded from the table must not be reordered with the following ones
+    this.dispatchQueue = this.dispatchQueue.then(async () => {
+      try {
+        const data = content.startsWith("@")
+          ? await this.loadMessage(content.slice(1))
+          : Buffer.from(content, "base64")
+
+        if (data) {
+          this.eventEmitter.emit(topic, decode(data))
+        }
+      } catch (error) {
+        this.logger.error({ error, topic }, "failed to dispatch message")
+      }
+    })
+  }
+
+  private async loadMessage(id: string): Promise<Buffer | undefined> {
+    const result = await this.pool.query<{ data: Buffer }>(
+      `SELECT "data" FROM "${messageTableName}" WHERE "id" = $1`,
+      [id],
+    )
+
+    if (result.rowCount === 0) {
+      this.logger.warn({ id }, "message is already removed from the table, skipping")
+      return undefined
+    }
+
+    return result.rows[0].data
+  }
+
+  private async connect(): Promise<void> {
+    const client = new pg.Client({ connectionString: this.connectionString })
+
+    client.on("notification", notification => this.handleNotification(notification.payload))
+
+    client.on("error", error => {
+      this.logger.error({ error }, "pubsub connection failed, reconnecting")
+
+      this.listenClient = undefined
+      void client.end().catch(() => {})
+      void this.reconnect()
+    })
+
+    await client.connect()
+    await client.query(`LISTEN ${channelName}`)
+
+    this.listenClient = client
+  }
+
+  private async reconnect(): Promise<void> {
+    while (!this.disposed && !this.listenClient) {
+      await setTimeout(reconnectDelayMs)
+
+      try {
+        await this.connect()
+        this.logger.info("pubsub connection restored")
+      } catch (error) {
+        this.logger.warn({ error }, "failed to restore pubsub connection")
+      }
+    }
+  }
+
+  async [Symbol.asyncDispose](): Promise<void> {
+    this.disposed = true
+
+    await this.listenClient?.end()
+    await this.pool.end()
+  }
+
+  static async create(
+    config: z.infer<typeof postgresqlPubSubBackendConfig>,
+    logger: Logger,
+  ): Promise<PostgresqlPubSubBackend> {
+    const connectionString =
+      config.HIGHSTATE_PUBSUB_BACKEND_POSTGRESQL_URL ??
+      config.HIGHSTATE_BACKEND_DATABASE_POSTGRESQL_URL
+
+    if (!connectionString) {
+      throw new BackendError(
+        `HIGHSTATE_PUBSUB_BACKEND_POSTGRESQL_URL or HIGHSTATE_BACKEND_DATABASE_POSTGRESQL_URL must be set when the pubsub backend type is "postgresql".`,
+      )
+    }
+
+    const pool = new pg.Pool({ connectionString, max: 4 })
+
+    try {
+      await pool.query(
+        `CREATE TABLE IF NOT EXISTS "${messageTableName}" ("id" BIGSERIAL NOT NULL PRIMARY KEY, "data" BYTEA NOT NULL, "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP)`,
+      )
+    } catch (error) {
+      // the table may be created concurrently by another backend
+      if (!isPostgresqlError(error, "23505", "42P07")) {
+        throw error
+      }
+    }
+
+    const backend = new PostgresqlPubSubBackend(
+      connectionString,
+      pool,
+      logger.child({ service: "PostgresqlPubSubBackend" }),
+    )
+
+    await backend.connect()
+
+    return backend
+  }
+}
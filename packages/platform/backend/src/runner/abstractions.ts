@@ -1,5 +1,6 @@
 import type { GenericName, InstanceId, UnitConfig, VersionedName } from "@highstate/contract"
 import type { Artifact } from "../database"
+import type { ResourceChange, StackCheckpoint, StackResource } from "../shared"
 
 export type RawPulumiOutputValue = {
   value: unknown
@@ -10,6 +11,28 @@ export type RawPulumiOutputs = Record<string, RawPulumiOutputValue>
 
 export type OperationType = "update" | "destroy" | "refresh"
 
+export type DriftedResource = {
+  /**
+   * The URN of the drifted resource.
+   */
+  urn: string
+
+  /**
+   * The type of the drifted resource.
+   */
+  type: string
+
+  /**
+   * Whether the resource was deleted outside of the unit.
+   */
+  deleted: boolean
+
+  /**
+   * The properties of the resource which differ from the stack state.
+   */
+  diffs: string[]
+}
+
 export type UnitStateUpdate = {
   /**
    * The id of the unit that produced this update.
@@ -59,6 +82,20 @@ export type UnitStateUpdate = {
        * Parsing and persistence is handled in the business layer.
        */
       rawOutputs?: RawPulumiOutputs | null
+
+      /**
+       * The resources changed outside of the unit.
+       *
+       * Only reported by the refresh in the preview-only mode.
+       */
+      driftedResources?: DriftedResource[]
+
+      /**
+       * The changes of the resources planned by the preview.
+       *
+       * Only reported by the preview.
+       */
+      resourceChanges?: ResourceChange[]
     }
 )
 
@@ -142,6 +179,36 @@ export type UnitUpdateOptions = UnitOptions & {
    * Whether to delete the unreachable resources (e.g. k8s resources in unreachable clusters).
    */
   deleteUnreachable?: boolean
+
+  /**
+   * The URNs of the resources to restrict the update to.
+   *
+   * The URNs not belonging to the stack of the unit are ignored.
+   */
+  targetResources?: string[]
+
+  /**
+   * The URNs of the resources to force replace.
+   *
+   * The URNs not belonging to the stack of the unit are ignored.
+   */
+  replaceResources?: string[]
+
+  /**
+   * The URNs of the resources to exclude from the update.
+   *
+   * The URNs not belonging to the stack of the unit are ignored.
+   */
+  excludeResources?: string[]
+}
+
+export type UnitRefreshOptions = UnitOptions & {
+  /**
+   * Only detect the changes of the resources without writing them to the stack state.
+   *
+   * The detected changes are reported in the `driftedResources` of the completion update.
+   */
+  previewOnly?: boolean
 }
 
 export type UnitStateOptions = {
@@ -241,7 +308,28 @@ export interface RunnerBackend {
    *
    * The operation must only be aborted explictily by the signal, not even when the connection is closed.
    */
-  refresh(options: UnitOptions): Promise<void>
+  refresh(options: UnitRefreshOptions): Promise<void>
+
+  /**
+   * Gets the resources currently managed by the stack of the instance.
+   *
+   * Returns an empty array if the stack does not exist.
+   */
+  getResources(options: UnitStateOptions): Promise<StackResource[]>
+
+  /**
+   * Exports the checkpoint of the stack of the instance.
+   *
+   * @throws PulumiStackNotFoundError if the stack does not exist.
+   */
+  exportState(options: UnitStateOptions): Promise<StackCheckpoint>
+
+  /**
+   * Imports the checkpoint into the stack of the instance replacing its current state.
+   *
+   * @throws StackCheckpointMismatchError if the checkpoint contains resources of another stack.
+   */
+  importState(options: UnitStateOptions, checkpoint: StackCheckpoint): Promise<void>
 
   /**
    * Force deletes the instance state.
@@ -1,6 +1,6 @@
 import type { Logger } from "pino"
 import type { ArtifactBackend, ArtifactService } from "../artifact"
-import type { SecretService } from "../business"
+import type { PulumiBackendService, SecretService } from "../business"
 import type { LibraryBackend } from "../library"
 import type { RunnerBackend } from "./abstractions"
 import { z } from "zod"
@@ -18,11 +18,12 @@ export async function createRunnerBackend(
   artifactManager: ArtifactService,
   artifactBackend: ArtifactBackend,
   secretService: SecretService,
+  pulumiBackendService: PulumiBackendService,
   logger: Logger,
 ): Promise<RunnerBackend> {
   switch (config.HIGHSTATE_RUNNER_BACKEND_TYPE) {
     case "local": {
-      const localPulumiHost = LocalPulumiHost.create(secretService, logger)
+      const localPulumiHost = LocalPulumiHost.create(secretService, pulumiBackendService, logger)
 
       return await LocalRunnerBackend.create(
         config,
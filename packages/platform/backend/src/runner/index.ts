@@ -1,2 +1,3 @@
 export * from "./abstractions"
 export * from "./factory"
+export * from "./stack-state"
@@ -3,13 +3,16 @@
 import type { Logger } from "pino"
 import type { ArtifactBackend, ArtifactService } from "../artifact"
 import type { LibraryBackend, ResolvedUnitSource } from "../library"
+import type { ResourceChange, StackCheckpoint, StackResource } from "../shared"
 import type {
+  DriftedResource,
   OperationType,
   RawPulumiOutputs,
   RunnerBackend,
   TypedUnitStateUpdate,
   UnitDestroyOptions,
   UnitOptions,
+  UnitRefreshOptions,
   UnitStateOptions,
   UnitStateUpdate,
   UnitUpdateOptions,
@@ -24,6 +27,7 @@ import { ensureDependencyInstalled } from "nypm"
 import PQueue from "p-queue"
 import { z } from "zod"
 import { runWithRetryOnError } from "../common"
+import { PulumiStackNotFoundError } from "../shared"
 import {
   type ArtifactEnvironment,
   collectAndStoreArtifacts,
@@ -34,8 +38,16 @@ import {
   highstateRuntimeTokenEnvVar,
   LocalRuntimeServer,
 } from "./local-runtime-server"
-import { type LocalPulumiHost, pulumiErrorToString, updateResourceCount } from "./pulumi"
+import {
+  getDriftedResource,
+  getResourceChange,
+  getStackResourceUrns,
+  type LocalPulumiHost,
+  pulumiErrorToString,
+  updateResourceCount,
+} from "./pulumi"
 import { SidecarTracker } from "./sidecar-tracker"
+import { assertCheckpointBelongsToStack, getStackResources } from "./stack-state"
 
 type Events = {
   [K in `update:${string}`]: [UnitStateUpdate]
@@ -130,7 +142,7 @@ export class LocalRunnerBackend implements RunnerBackend {
     return Promise.resolve()
   }
 
-  refresh(options: UnitOptions): Promise<void> {
+  refresh(options: UnitRefreshOptions): Promise<void> {
     void this.queue
       .add(async () => {
         options.signal?.throwIfAborted()
@@ -161,6 +173,7 @@ export class LocalRunnerBackend implements RunnerBackend {
     const operationId = LocalRunnerBackend.getOperationId(options)
     const hostsFilePath = await this.sidecarTracker.registerExecution(operationId, false)
     const runtimeToken = this.runtimeServer.setConfig(operationId, unitId, options.config)
+    const stackName = LocalRunnerBackend.getStackName(options)
 
     // create a dedicated temp directory for this unit execution
     let unitTempPath: string | null = null
@@ -213,7 +226,7 @@ export class LocalRunnerBackend implements RunnerBackend {
         {
           projectId: options.projectId,
           pulumiProjectName: options.instanceType,
-          pulumiStackName: LocalRunnerBackend.getStackName(options),
+          pulumiStackName: stackName,
           projectPath: resolvedSource.projectPath,
           envVars,
           hostsFilePath,
@@ -232,9 +245,14 @@ export class LocalRunnerBackend implements RunnerBackend {
 
           await runWithRetryOnError(
             async () => {
+              const resourceChanges: ResourceChange[] = []
+
               await stack[preview ? "preview" : "up"]({
                 color: "always",
                 refresh: options.refresh,
+                target: getStackResourceUrns(options.targetResources, stackName),
+                replace: getStackResourceUrns(options.replaceResources, stackName),
+                exclude: getStackResourceUrns(options.excludeResources, stackName),
                 signal,
                 diff: preview,
                 debug: options.debug,
@@ -246,6 +264,14 @@ export class LocalRunnerBackend implements RunnerBackend {
                       totalResourceCount,
                     )
 
+                    const resourceChange = preview
+                      ? getResourceChange(event.resourcePreEvent.metadata)
+                      : null
+
+                    if (resourceChange) {
+                      resourceChanges.push(resourceChange)
+                    }
+
                     this.emitStateUpdate({ type: "progress", unitId, totalResourceCount })
                     return
                   }
@@ -276,6 +302,7 @@ export class LocalRunnerBackend implements RunnerBackend {
                 type: "completion",
                 operationType: "update",
                 rawOutputs: outputs,
+                resourceChanges: preview ? resourceChanges : undefined,
               }
 
               if (!preview && outputs["$artifacts"]) {
@@ -330,6 +357,64 @@ export class LocalRunnerBackend implements RunnerBackend {
     }
   }
 
+  async getResources(options: UnitStateOptions): Promise<StackResource[]> {
+    // the stack is not created here, since the instance may have never been deployed
+    const checkpoint = await this.pulumiProjectHost.runExistingEmpty(
+      {
+        projectId: options.projectId,
+        pulumiProjectName: options.instanceType,
+        pulumiStackName: LocalRunnerBackend.getStackName(options),
+      },
+      async stack => {
+        const deployment = await stack.exportStack()
+
+        return { version: deployment.version, deployment: deployment.deployment ?? {} }
+      },
+    )
+
+    return checkpoint ? getStackResources(checkpoint) : []
+  }
+
+  async exportState(options: UnitStateOptions): Promise<StackCheckpoint> {
+    const stackName = LocalRunnerBackend.getStackName(options)
+
+    // the stack is not created here like in getResources, so exporting does not create empty stacks
+    const checkpoint = await this.pulumiProjectHost.runExistingEmpty(
+      {
+        projectId: options.projectId,
+        pulumiProjectName: options.instanceType,
+        pulumiStackName: stackName,
+      },
+      async stack => {
+        const deployment = await stack.exportStack()
+
+        return { version: deployment.version, deployment: deployment.deployment ?? {} }
+      },
+    )
+
+    if (!checkpoint) {
+      throw new PulumiStackNotFoundError(stackName, options.instanceType)
+    }
+
+    return checkpoint
+  }
+
+  async importState(options: UnitStateOptions, checkpoint: StackCheckpoint): Promise<void> {
+    const stackName = LocalRunnerBackend.getStackName(options)
+    assertCheckpointBelongsToStack(checkpoint, stackName, options.instanceType)
+
+    await this.pulumiProjectHost.runEmpty(
+      {
+        projectId: options.projectId,
+        pulumiProjectName: options.instanceType,
+        pulumiStackName: stackName,
+      },
+      async stack => {
+        await stack.importStack(checkpoint)
+      },
+    )
+  }
+
   async deleteState(options: UnitStateOptions): Promise<void> {
     await this.pulumiProjectHost.runEmpty(
       {
@@ -498,7 +583,7 @@ export class LocalRunnerBackend implements RunnerBackend {
     }
   }
 
-  private async refreshWorker(options: UnitOptions): Promise<void> {
+  private async refreshWorker(options: UnitRefreshOptions): Promise<void> {
     const unitId = LocalRunnerBackend.getInstanceId(options)
     const operationId = LocalRunnerBackend.getOperationId(options)
     const hostsFilePath = options.config
@@ -541,9 +626,12 @@ export class LocalRunnerBackend implements RunnerBackend {
 
           await runWithRetryOnError(
             async () => {
+              const driftedResources: DriftedResource[] = []
+
               await stack.refresh({
                 color: "always",
                 debug: options.debug,
+                previewOnly: options.previewOnly,
 
                 onEvent: event => {
                   if (event.resourcePreEvent) {
@@ -564,6 +652,11 @@ export class LocalRunnerBackend implements RunnerBackend {
                       currentResourceCount,
                     )
 
+                    const driftedResource = getDriftedResource(event.resOutputsEvent.metadata)
+                    if (driftedResource) {
+                      driftedResources.push(driftedResource)
+                    }
+
                     this.emitStateUpdate({ type: "progress", unitId, currentResourceCount })
                     return
                   }
@@ -585,6 +678,8 @@ export class LocalRunnerBackend implements RunnerBackend {
 
                 // do not emit output-related fields on refresh since they will not change
                 // some of them (like artifact files) are not even available on refresh
+
+                driftedResources: options.previewOnly ? driftedResources : undefined,
               })
             },
             error => this.pulumiProjectHost.tryUnlockStack(stack, error),
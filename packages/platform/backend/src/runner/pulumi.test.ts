@@ -0,0 +1,195 @@
+import { DiffKind, type StepEventMetadata } from "@pulumi/pulumi/automation/index.js"
+import { describe, expect, test } from "vitest"
+import { getResourceChange, getS3BackendUrl, getStackResourceUrns, isStackListed } from "./pulumi"
+
+describe("getS3BackendUrl", () => {
+  test("builds url for aws bucket", () => {
+    const url = getS3BackendUrl({
+      type: "s3",
+      bucket: "state",
+      prefix: "/highstate/",
+      region: "eu-central-1",
+      forcePathStyle: false,
+    })
+
+    expect(url).toBe("s3://state/highstate?region=eu-central-1")
+  })
+
+  test("translates http endpoint of s3-compatible storage", () => {
+    const url = new URL(
+      getS3BackendUrl({
+        type: "s3",
+        bucket: "state",
+        prefix: "",
+        region: "us-east-1",
+        endpoint: "http://minio:9000",
+        forcePathStyle: true,
+      }),
+    )
+
+    expect(url.host).toBe("state")
+    expect(url.pathname).toBe("")
+    expect(url.searchParams.get("endpoint")).toBe("minio:9000")
+    expect(url.searchParams.get("disableSSL")).toBe("true")
+    expect(url.searchParams.get("s3ForcePathStyle")).toBe("true")
+  })
+})
+
+describe("isStackListed", () => {
+  test("matches short and fully qualified stack names", () => {
+    const stacks = [
+      { name: "abc", current: false },
+      { name: "organization/k8s.deployment.v1/def", current: false },
+    ]
+
+    expect(isStackListed(stacks, "abc")).toBe(true)
+    expect(isStackListed(stacks, "def")).toBe(true)
+  })
+
+  test("does not match missing stack", () => {
+    const stacks = [{ name: "organization/k8s.deployment.v1/abcd", current: false }]
+
+    expect(isStackListed(stacks, "bcd")).toBe(false)
+    expect(isStackListed([], "abc")).toBe(false)
+  })
+})
+
+describe("getStackResourceUrns", () => {
+  test("selects urns of given stack", () => {
+    const urns = getStackResourceUrns(
+      [
+        "urn:pulumi:abc::k8s.deployment.v1::kubernetes:apps/v1:Deployment::app",
+        "urn:pulumi:abcd::k8s.deployment.v1::kubernetes:apps/v1:Deployment::app",
+        "urn:pulumi:def::k8s.service.v1::kubernetes:core/v1:Service::app",
+      ],
+      "abc",
+    )
+
+    expect(urns).toEqual(["urn:pulumi:abc::k8s.deployment.v1::kubernetes:apps/v1:Deployment::app"])
+  })
+
+  test("returns undefined when stack has no urns", () => {
+    expect(getStackResourceUrns([], "abc")).toBeUndefined()
+    expect(getStackResourceUrns(undefined, "abc")).toBeUndefined()
+    expect(
+      getStackResourceUrns(["urn:pulumi:def::project::random:index:RandomId::id"], "abc"),
+    ).toBeUndefined()
+  })
+})
+
+describe("getResourceChange", () => {
+  const secretSignature = "4dabf18193072939515e22adb298388d"
+
+  const secret = (value: unknown) => ({
+    [secretSignature]: "1b47061264138c4ac30d75fd1eb44270",
+    value,
+  })
+
+  const createStep = (
+    oldInputs: Record<string, unknown>,
+    newInputs: Record<string, unknown>,
+    detailedDiff?: StepEventMetadata["detailedDiff"],
+  ) =>
+    ({
+      op: "update",
+      urn: "urn:pulumi:abc::project::kubernetes:core/v1:Secret::secret",
+      type: "kubernetes:core/v1:Secret",
+      provider: "",
+      old: { inputs: oldInputs, outputs: oldInputs },
+      new: { inputs: newInputs, outputs: newInputs },
+      detailedDiff,
+      diffs: Object.keys(detailedDiff ?? {}),
+    }) as unknown as StepEventMetadata
+
+  test("masks secret old and new values", () => {
+    const change = getResourceChange(
+      createStep(
+        { password: secret("old-password") },
+        { password: secret("new-password") },
+        { password: { diffKind: DiffKind.update, inputDiff: true } },
+      ),
+    )
+
+    expect(change?.diffs).toEqual([
+      { path: "password", kind: "update", oldValue: "[secret]", newValue: "[secret]" },
+    ])
+  })
+
+  test("masks secrets nested in changed value", () => {
+    const change = getResourceChange(
+      createStep(
+        { spec: { env: [{ name: "TOKEN", value: secret("old-token") }] } },
+        { spec: { env: [{ name: "TOKEN", value: secret("new-token") }] } },
+        { "spec.env": { diffKind: DiffKind.update, inputDiff: true } },
+      ),
+    )
+
+    expect(change?.diffs[0]).toEqual({
+      path: "spec.env",
+      kind: "update",
+      oldValue: [{ name: "TOKEN", value: "[secret]" }],
+      newValue: [{ name: "TOKEN", value: "[secret]" }],
+    })
+
+    expect(JSON.stringify(change)).not.toContain("token")
+  })
+
+  test("masks values inside secret referenced by nested path", () => {
+    const change = getResourceChange(
+      createStep(
+        { stringData: secret({ "config.yaml": "old-config" }) },
+        { stringData: secret({ "config.yaml": "new-config" }) },
+        { 'stringData["config.yaml"]': { diffKind: DiffKind.update, inputDiff: true } },
+      ),
+    )
+
+    expect(change?.diffs).toEqual([
+      {
+        path: 'stringData["config.yaml"]',
+        kind: "update",
+        oldValue: "[secret]",
+        newValue: "[secret]",
+      },
+    ])
+  })
+
+  test("resolves nested and quoted property paths", () => {
+    const change = getResourceChange(
+      createStep(
+        { metadata: { labels: { "app.kubernetes.io/name": "old" } }, spec: { ports: [80] } },
+        { metadata: { labels: { "app.kubernetes.io/name": "new" } }, spec: { ports: [443] } },
+        {
+          'metadata.labels["app.kubernetes.io/name"]': {
+            diffKind: DiffKind.update,
+            inputDiff: true,
+          },
+          "spec.ports[0]": { diffKind: DiffKind.update, inputDiff: true },
+        },
+      ),
+    )
+
+    expect(change?.diffs).toEqual([
+      {
+        path: 'metadata.labels["app.kubernetes.io/name"]',
+        kind: "update",
+        oldValue: "old",
+        newValue: "new",
+      },
+      { path: "spec.ports[0]", kind: "update", oldValue: 80, newValue: 443 },
+    ])
+  })
+
+  test("falls back to diffs when detailed diff is missing", () => {
+    const step = createStep({ password: secret("old") }, { password: secret("new"), size: 2 })
+    step.diffs = ["password", "size"]
+
+    expect(getResourceChange(step)?.diffs).toEqual([
+      { path: "password", kind: "update", oldValue: "[secret]", newValue: "[secret]" },
+      { path: "size", kind: "update", oldValue: undefined, newValue: 2 },
+    ])
+  })
+
+  test("ignores unchanged resources", () => {
+    expect(getResourceChange({ ...createStep({}, {}), op: "same" })).toBeNull()
+  })
+})
@@ -1,12 +1,20 @@
 import type {
+  LocalWorkspace,
   OpMap,
   OpType,
   ProjectRuntime,
   Stack,
+  StackSummary,
+  StepEventMetadata,
   WhoAmIResult,
 } from "@pulumi/pulumi/automation/index.js"
 import type { Logger } from "pino"
-import type { SecretService } from "../business"
+import type { PulumiBackendService, SecretService } from "../business"
+import type { PulumiBackendSpec, ResourceChange, ResourcePropertyDiff } from "../shared"
+import type { DriftedResource } from "./abstractions"
+import { mkdir } from "node:fs/promises"
+import { resolve } from "node:path"
+import { pathToFileURL } from "node:url"
 import { BetterLock } from "better-lock"
 import { AbortError, errorToString, runWithRetryOnError } from "../common/utils"
 import { createForceAbortableCommand } from "./force-abort"
@@ -28,6 +36,7 @@ export class LocalPulumiHost {
 
   private constructor(
     private readonly secretService: SecretService,
+    private readonly pulumiBackendService: PulumiBackendService,
     private readonly logger: Logger,
   ) {}
 
@@ -49,49 +58,88 @@ export class LocalPulumiHost {
     fn: (stack: Stack) => Promise<T>,
     signal?: AbortSignal,
   ): Promise<T> {
-    const { projectId, pulumiProjectName, pulumiStackName, envVars, hostsFilePath } = options
+    const { pulumiProjectName, pulumiStackName } = options
 
     return await this.lock.acquire(`${pulumiProjectName}.${pulumiStackName}`, async () => {
-      const { LocalWorkspace } = await import("@pulumi/pulumi/automation/index.js")
+      const { Stack } = await import("@pulumi/pulumi/automation/index.js")
 
-      const stack = await LocalWorkspace.createOrSelectStack(
-        {
-          projectName: pulumiProjectName,
-          stackName: pulumiStackName,
-          program: () => Promise.resolve(),
-        },
-        {
-          projectSettings: {
-            name: pulumiProjectName,
-            runtime: "bun" as ProjectRuntime,
-          },
-          envVars: {
-            PULUMI_CONFIG_PASSPHRASE: await this.secretService.getPulumiPassword(projectId),
-            PULUMI_K8S_AWAIT_ALL: "true",
-            PULUMI_DEBUG_PROMISE_LEAKS: "true",
-            ...envVars,
-          },
-          pulumiCommand: await createForceAbortableCommand({ hostsFilePath }),
-        },
-      )
+      const workspace = await this.createEmptyWorkspace(options)
+      const stack = await Stack.createOrSelect(pulumiStackName, workspace)
 
-      signal?.throwIfAborted()
+      return await this.runStack(stack, fn, signal)
+    })
+  }
 
-      try {
-        return await runWithRetryOnError(
-          () => fn(stack),
-          error => this.tryUnlockStack(stack, error),
-        )
-      } catch (error) {
-        if (error instanceof Error && error.message.includes("canceled")) {
-          throw new AbortError("Stack cancelled", { cause: error })
-        }
+  /**
+   * Runs the function with the existing stack without creating it.
+   *
+   * @returns The result of the function or `undefined` if the stack does not exist.
+   */
+  async runExistingEmpty<T>(
+    options: RunOptions,
+    fn: (stack: Stack) => Promise<T>,
+    signal?: AbortSignal,
+  ): Promise<T | undefined> {
+    const { pulumiProjectName, pulumiStackName } = options
 
-        throw error
+    return await this.lock.acquire(`${pulumiProjectName}.${pulumiStackName}`, async () => {
+      const { Stack } = await import("@pulumi/pulumi/automation/index.js")
+
+      const workspace = await this.createEmptyWorkspace(options)
+      const stacks = await workspace.listStacks()
+
+      if (!isStackListed(stacks, pulumiStackName)) {
+        return undefined
       }
+
+      const stack = await Stack.select(pulumiStackName, workspace)
+
+      return await this.runStack(stack, fn, signal)
+    })
+  }
+
+  private async createEmptyWorkspace(options: RunOptions): Promise<LocalWorkspace> {
+    const { projectId, pulumiProjectName, envVars, hostsFilePath } = options
+    const { LocalWorkspace } = await import("@pulumi/pulumi/automation/index.js")
+
+    return await LocalWorkspace.create({
+      program: () => Promise.resolve(),
+      projectSettings: {
+        name: pulumiProjectName,
+        runtime: "bun" as ProjectRuntime,
+      },
+      envVars: {
+        PULUMI_CONFIG_PASSPHRASE: await this.secretService.getPulumiPassword(projectId),
+        ...(await this.getBackendEnvVars(projectId)),
+        PULUMI_K8S_AWAIT_ALL: "true",
+        PULUMI_DEBUG_PROMISE_LEAKS: "true",
+        ...envVars,
+      },
+      pulumiCommand: await createForceAbortableCommand({ hostsFilePath }),
     })
   }
 
+  private async runStack<T>(
+    stack: Stack,
+    fn: (stack: Stack) => Promise<T>,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    signal?.throwIfAborted()
+
+    try {
+      return await runWithRetryOnError(
+        () => fn(stack),
+        error => this.tryUnlockStack(stack, error),
+      )
+    } catch (error) {
+      if (error instanceof Error && error.message.includes("canceled")) {
+        throw new AbortError("Stack cancelled", { cause: error })
+      }
+
+      throw error
+    }
+  }
+
   async runLocal<T>(
     options: RunLocalOptions,
     fn: (stack: Stack) => Promise<T>,
@@ -118,6 +166,7 @@ export class LocalPulumiHost {
           },
           envVars: {
             PULUMI_CONFIG_PASSPHRASE: await this.secretService.getPulumiPassword(projectId),
+            ...(await this.getBackendEnvVars(projectId)),
             PULUMI_K8S_AWAIT_ALL: "true",
             ...envVars,
           },
@@ -142,6 +191,30 @@ export class LocalPulumiHost {
     })
   }
 
+  /**
+   * Returns the environment variables which point the Pulumi CLI to the backend of the project.
+   *
+   * For the `host` backend nothing is returned, so the backend configured by `pulumi login` is used.
+   */
+  private async getBackendEnvVars(projectId: string): Promise<Record<string, string>> {
+    const spec = await this.pulumiBackendService.getProjectPulumiBackendSpec(projectId)
+
+    switch (spec.type) {
+      case "host": {
+        return {}
+      }
+      case "local": {
+        const path = resolve(spec.path)
+        await mkdir(path, { recursive: true })
+
+        return { PULUMI_BACKEND_URL: pathToFileURL(path).href }
+      }
+      case "s3": {
+        return { PULUMI_BACKEND_URL: getS3BackendUrl(spec) }
+      }
+    }
+  }
+
   async tryUnlockStack(stack: Stack, error: unknown) {
     if (error instanceof Error && error.message.includes("the stack is currently locked")) {
       // TODO: kill the process if the hostname matches the current hostname
@@ -154,9 +227,76 @@ export class LocalPulumiHost {
     return false
   }
 
-  static create(secretService: SecretService, logger: Logger) {
-    return new LocalPulumiHost(secretService, logger.child({ service: "LocalPulumiHost" }))
+  static create(
+    secretService: SecretService,
+    pulumiBackendService: PulumiBackendService,
+    logger: Logger,
+  ) {
+    return new LocalPulumiHost(
+      secretService,
+      pulumiBackendService,
+      logger.child({ service: "LocalPulumiHost" }),
+    )
+  }
+}
+
+/**
+ * Builds the URL of the S3 backend in the format expected by the Pulumi CLI.
+ *
+ * The endpoint scheme is not supported by the URL, so `http://` endpoints are translated
+ * to the `disableSSL` parameter.
+ */
+export function getS3BackendUrl(spec: Extract<PulumiBackendSpec, { type: "s3" }>): string {
+  const params = new URLSearchParams({ region: spec.region })
+
+  if (spec.endpoint) {
+    const endpoint = new URL(
+      spec.endpoint.includes("://") ? spec.endpoint : `https://${spec.endpoint}`,
+    )
+
+    params.set("endpoint", endpoint.host)
+
+    if (endpoint.protocol === "http:") {
+      params.set("disableSSL", "true")
+    }
+  }
+
+  if (spec.forcePathStyle) {
+    params.set("s3ForcePathStyle", "true")
   }
+
+  const prefix = spec.prefix.replace(/^\/+|\/+$/g, "")
+
+  return `s3://${spec.bucket}${prefix ? `/${prefix}` : ""}?${params.toString()}`
+}
+
+/**
+ * Selects the URNs of the resources belonging to the given stack.
+ *
+ * @param urns The URNs of the resources across all stacks.
+ * @param stackName The name of the stack.
+ * @returns The URNs of the stack resources or `undefined` if there are none.
+ */
+export function getStackResourceUrns(
+  urns: string[] | undefined,
+  stackName: string,
+): string[] | undefined {
+  const prefix = `urn:pulumi:${stackName}::`
+  const stackUrns = urns?.filter(urn => urn.startsWith(prefix)) ?? []
+
+  return stackUrns.length > 0 ? stackUrns : undefined
+}
+
+/**
+ * Checks whether the stack is among the stacks listed by the workspace.
+ *
+ * The listed names may be fully qualified (e.g. `organization/project/stack`) depending on the backend.
+ *
+ * @param stacks The stacks listed by the workspace.
+ * @param stackName The short name of the stack.
+ */
+export function isStackListed(stacks: StackSummary[], stackName: string): boolean {
+  return stacks.some(stack => stack.name === stackName || stack.name.endsWith(`/${stackName}`))
 }
 
 export function updateResourceCount(opType: OpType, currentCount: number): number {
@@ -187,6 +327,119 @@ export function updateResourceCount(opType: OpType, currentCount: number): numbe
   }
 }
 
+/**
+ * Extracts the drifted resource from the step produced by the refresh.
+ *
+ * @param metadata The metadata of the refresh step.
+ * @returns The drifted resource or null if the resource matches the stack state.
+ */
+export function getDriftedResource(metadata: StepEventMetadata): DriftedResource | null {
+  if (metadata.op === "delete") {
+    return { urn: metadata.urn, type: metadata.type, deleted: true, diffs: [] }
+  }
+
+  const diffs = metadata.diffs ?? Object.keys(metadata.detailedDiff ?? {})
+
+  // depending on the engine version refresh steps are reported either as "update" or as "refresh" with diffs
+  if (metadata.op === "update" || (metadata.op === "refresh" && diffs.length > 0)) {
+    return { urn: metadata.urn, type: metadata.type, deleted: false, diffs }
+  }
+
+  return null
+}
+
+const secretSignature = "4dabf18193072939515e22adb298388d"
+const maskedSecretValue = "[secret]"
+
+/**
+ * Extracts the planned change of the resource from the step produced by the preview.
+ *
+ * The values of the changed properties are taken from the step state with all secrets masked.
+ *
+ * @param metadata The metadata of the preview step.
+ * @returns The resource change or null if the resource is not changed.
+ */
+export function getResourceChange(metadata: StepEventMetadata): ResourceChange | null {
+  let op: ResourceChange["op"]
+
+  switch (metadata.op) {
+    case "create":
+    case "import":
+      op = "create"
+      break
+    case "update":
+      op = "update"
+      break
+    case "replace":
+      op = "replace"
+      break
+    case "delete":
+      op = "delete"
+      break
+    default:
+      // "same", "read" and the auxiliary steps of the replacement are not reported
+      return null
+  }
+
+  const diffs: ResourcePropertyDiff[] = metadata.detailedDiff
+    ? Object.entries(metadata.detailedDiff).map(([path, diff]) => ({
+        path,
+        kind: diff.diffKind,
+        oldValue: maskSecretValues(
+          getPropertyValue(diff.inputDiff ? metadata.old?.inputs : metadata.old?.outputs, path),
+        ),
+        newValue: maskSecretValues(getPropertyValue(metadata.new?.inputs, path)),
+      }))
+    : (metadata.diffs ?? []).map(path => ({
+        path,
+        kind: "update",
+        oldValue: maskSecretValues(getPropertyValue(metadata.old?.inputs, path)),
+        newValue: maskSecretValues(getPropertyValue(metadata.new?.inputs, path)),
+      }))
+
+  return { urn: metadata.urn, type: metadata.type, op, diffs }
+}
+
+function getPropertyValue(properties: Record<string, unknown> | undefined, path: string): unknown {
+  // the paths look like `spec.containers[0].image` or `metadata.labels["app.kubernetes.io/name"]`
+  const segments = path.match(/[^.[\]"]+|"[^"]*"/g) ?? []
+
+  let value: unknown = properties
+  for (const segment of segments) {
+    if (value === null || typeof value !== "object") {
+      return undefined
+    }
+
+    // the nested value of the secret is also secret
+    if (secretSignature in value) {
+      return maskedSecretValue
+    }
+
+    const key = segment.startsWith('"') ? segment.slice(1, -1) : segment
+    value = (value as Record<string, unknown>)[key]
+  }
+
+  return value
+}
+
+function maskSecretValues(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(maskSecretValues)
+  }
+
+  if (value === null || typeof value !== "object") {
+    return value
+  }
+
+  if (secretSignature in value) {
+    return maskedSecretValue
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [key, maskSecretValues(item)]),
+  )
+}
+
 export function calculateTotalResources(opMap: OpMap | undefined): number {
   if (!opMap) {
     return 0 // No operations imply no resources
@@ -0,0 +1,192 @@
+import type { StackCheckpoint } from "../shared"
+import { describe, expect, test } from "vitest"
+import {
+  StackCheckpointMismatchError,
+  StackResourceNotFoundError,
+  StackStateModificationError,
+  stackStateModificationSchema,
+} from "../shared"
+import { assertCheckpointBelongsToStack, getStackResources, modifyStackState } from "./stack-state"
+
+const stackUrn = "urn:pulumi:abc::project::pulumi:pulumi:Stack::project-abc"
+const providerUrn = "urn:pulumi:abc::project::pulumi:providers:random::default"
+const idUrn = "urn:pulumi:abc::project::random:index:RandomId::id"
+const passwordUrn = "urn:pulumi:abc::project::random:index:RandomPassword::password"
+
+const createCheckpoint = (): StackCheckpoint => ({
+  version: 3,
+  deployment: {
+    resources: [
+      { urn: stackUrn, type: "pulumi:pulumi:Stack" },
+      { urn: providerUrn, type: "pulumi:providers:random", parent: stackUrn, id: "p1" },
+      {
+        urn: idUrn,
+        type: "random:index:RandomId",
+        parent: stackUrn,
+        provider: `${providerUrn}::p1`,
+        protect: true,
+      },
+      {
+        urn: passwordUrn,
+        type: "random:index:RandomPassword",
+        parent: stackUrn,
+        provider: `${providerUrn}::p1`,
+        dependencies: [idUrn],
+        propertyDependencies: { keepers: [idUrn] },
+      },
+    ],
+  },
+})
+
+describe("getStackResources", () => {
+  test("extracts resources from checkpoint", () => {
+    const resources = getStackResources(createCheckpoint())
+
+    expect(resources[0]).toEqual({
+      urn: stackUrn,
+      type: "pulumi:pulumi:Stack",
+      parent: undefined,
+      provider: undefined,
+      protect: false,
+      dependencies: [],
+    })
+
+    expect(resources[2]).toEqual({
+      urn: idUrn,
+      type: "random:index:RandomId",
+      parent: stackUrn,
+      provider: `${providerUrn}::p1`,
+      protect: true,
+      dependencies: [],
+    })
+  })
+
+  test("returns empty array for empty stack", () => {
+    expect(getStackResources({ version: 3, deployment: {} })).toEqual([])
+  })
+})
+
+describe("modifyStackState", () => {
+  test("deletes resource without dependents", () => {
+    const checkpoint = createCheckpoint()
+
+    const result = modifyStackState(checkpoint, { type: "delete", urn: passwordUrn })
+
+    expect(getStackResources(result).map(resource => resource.urn)).toEqual([
+      stackUrn,
+      providerUrn,
+      idUrn,
+    ])
+
+    // the original checkpoint is not modified
+    expect(getStackResources(checkpoint)).toHaveLength(4)
+  })
+
+  test("rejects deletion of protected resource", () => {
+    const checkpoint = modifyStackState(createCheckpoint(), { type: "delete", urn: passwordUrn })
+
+    expect(() => modifyStackState(checkpoint, { type: "delete", urn: idUrn })).toThrow(
+      StackStateModificationError,
+    )
+  })
+
+  test("rejects deletion of referenced resource", () => {
+    const checkpoint = modifyStackState(createCheckpoint(), { type: "unprotect", urn: idUrn })
+
+    expect(() => modifyStackState(checkpoint, { type: "delete", urn: idUrn })).toThrow(
+      StackStateModificationError,
+    )
+    expect(() => modifyStackState(checkpoint, { type: "delete", urn: providerUrn })).toThrow(
+      StackStateModificationError,
+    )
+  })
+
+  test("unprotects resource", () => {
+    const result = modifyStackState(createCheckpoint(), { type: "unprotect", urn: idUrn })
+
+    expect(getStackResources(result)[2]?.protect).toBe(false)
+  })
+
+  test("renames resource and references to it", () => {
+    const renamedUrn = "urn:pulumi:abc::project::random:index:RandomId::renamed"
+
+    const result = modifyStackState(createCheckpoint(), {
+      type: "rename",
+      urn: idUrn,
+      newName: "renamed",
+    })
+
+    const resources = result.deployment.resources as Record<string, unknown>[]
+
+    expect(resources[2]?.urn).toBe(renamedUrn)
+    expect(resources[3]).toMatchObject({
+      dependencies: [renamedUrn],
+      propertyDependencies: { keepers: [renamedUrn] },
+    })
+  })
+
+  test("renames provider in provider references", () => {
+    const result = modifyStackState(createCheckpoint(), {
+      type: "rename",
+      urn: providerUrn,
+      newName: "main",
+    })
+
+    const resources = getStackResources(result)
+
+    expect(resources[2]?.provider).toBe(
+      "urn:pulumi:abc::project::pulumi:providers:random::main::p1",
+    )
+  })
+
+  test("rejects rename to already used name", () => {
+    expect(() =>
+      modifyStackState(createCheckpoint(), { type: "rename", urn: idUrn, newName: "id" }),
+    ).toThrow(StackStateModificationError)
+  })
+
+  test("throws when resource does not exist", () => {
+    expect(() =>
+      modifyStackState(createCheckpoint(), { type: "unprotect", urn: `${idUrn}-missing` }),
+    ).toThrow(StackResourceNotFoundError)
+  })
+})
+
+describe("assertCheckpointBelongsToStack", () => {
+  test("accepts checkpoint of the same stack", () => {
+    expect(() => assertCheckpointBelongsToStack(createCheckpoint(), "abc", "project")).not.toThrow()
+  })
+
+  test("rejects resources of another stack or project", () => {
+    expect(() => assertCheckpointBelongsToStack(createCheckpoint(), "ab", "project")).toThrow(
+      StackCheckpointMismatchError,
+    )
+
+    expect(() => assertCheckpointBelongsToStack(createCheckpoint(), "abc", "another")).toThrow(
+      StackCheckpointMismatchError,
+    )
+  })
+
+  test("rejects pending operations of another stack", () => {
+    const checkpoint = createCheckpoint()
+    checkpoint.deployment.pending_operations = [
+      { resource: { urn: "urn:pulumi:def::project::random:index:RandomId::id" }, type: "creating" },
+    ]
+
+    expect(() => assertCheckpointBelongsToStack(checkpoint, "abc", "project")).toThrow(
+      StackCheckpointMismatchError,
+    )
+  })
+})
+
+describe("stackStateModificationSchema", () => {
+  test("rejects new name containing URN separator", () => {
+    const result = stackStateModificationSchema.safeParse({
+      type: "rename",
+      urn: idUrn,
+      newName: "renamed::random:index:RandomId::id",
+    })
+
+    expect(result.success).toBe(false)
+  })
+})
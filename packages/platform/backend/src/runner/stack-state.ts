@@ -0,0 +1,194 @@
+import {
+  type StackCheckpoint,
+  StackCheckpointMismatchError,
+  type StackResource,
+  StackResourceNotFoundError,
+  type StackStateModification,
+  StackStateModificationError,
+} from "../shared"
+
+/**
+ * The resource as stored in the checkpoint of the Pulumi stack.
+ *
+ * Only the fields referencing other resources are typed, the rest are preserved as is.
+ */
+type CheckpointResource = {
+  urn: string
+  type: string
+  parent?: string
+  provider?: string
+  protect?: boolean
+  dependencies?: string[]
+  propertyDependencies?: Record<string, string[]>
+  deletedWith?: string
+  [key: string]: unknown
+}
+
+type CheckpointPendingOperation = {
+  resource: CheckpointResource
+  [key: string]: unknown
+}
+
+function getCheckpointResources(checkpoint: StackCheckpoint): CheckpointResource[] {
+  return (checkpoint.deployment.resources ?? []) as CheckpointResource[]
+}
+
+function getCheckpointPendingOperations(checkpoint: StackCheckpoint): CheckpointPendingOperation[] {
+  return (checkpoint.deployment.pending_operations ?? []) as CheckpointPendingOperation[]
+}
+
+function getProviderUrn(providerReference: string | undefined): string | undefined {
+  // the provider reference has the "<urn>::<id>" format
+  return providerReference?.slice(0, providerReference.lastIndexOf("::"))
+}
+
+function getReferencedUrns(resource: CheckpointResource): string[] {
+  return [
+    resource.parent,
+    getProviderUrn(resource.provider),
+    resource.deletedWith,
+    ...(resource.dependencies ?? []),
+    ...Object.values(resource.propertyDependencies ?? {}).flat(),
+  ].filter((urn): urn is string => !!urn)
+}
+
+/**
+ * Extracts the resources from the checkpoint exported from the stack.
+ *
+ * @param checkpoint The checkpoint exported from the stack.
+ * @returns The resources of the stack.
+ */
+export function getStackResources(checkpoint: StackCheckpoint): StackResource[] {
+  return getCheckpointResources(checkpoint).map(resource => ({
+    urn: resource.urn,
+    type: resource.type,
+    parent: resource.parent || undefined,
+    provider: resource.provider || undefined,
+    protect: resource.protect ?? false,
+    dependencies: resource.dependencies ?? [],
+  }))
+}
+
+/**
+ * Ensures that all resources in the checkpoint belong to the given stack of the given project.
+ *
+ * Prevents importing the checkpoint exported from another stack,
+ * which would make the stack manage the resources of that stack.
+ *
+ * @param checkpoint The checkpoint to import.
+ * @param stackName The name of the stack the checkpoint is imported into.
+ * @param projectName The name of the Pulumi project of the stack.
+ * @throws StackCheckpointMismatchError if the resource belongs to another stack or project.
+ */
+export function assertCheckpointBelongsToStack(
+  checkpoint: StackCheckpoint,
+  stackName: string,
+  projectName: string,
+): void {
+  const prefix = `urn:pulumi:${stackName}::${projectName}::`
+  const pendingResources = getCheckpointPendingOperations(checkpoint).map(op => op.resource)
+
+  for (const resource of [...getCheckpointResources(checkpoint), ...pendingResources]) {
+    if (!resource.urn.startsWith(prefix)) {
+      throw new StackCheckpointMismatchError(resource.urn, stackName, projectName)
+    }
+  }
+}
+
+/**
+ * Applies the modification to the resource in the checkpoint of the stack.
+ *
+ * The same rules as for `pulumi state` commands are applied:
+ * the protected resources and the resources referenced by other resources cannot be deleted,
+ * and the renamed resource is also renamed in all references to it.
+ *
+ * @param checkpoint The checkpoint exported from the stack.
+ * @param modification The modification to apply.
+ * @returns The modified copy of the checkpoint.
+ * @throws StackResourceNotFoundError if the resource does not exist in the checkpoint.
+ * @throws StackStateModificationError if the modification cannot be applied.
+ */
+export function modifyStackState(
+  checkpoint: StackCheckpoint,
+  modification: StackStateModification,
+): StackCheckpoint {
+  const result = structuredClone(checkpoint)
+  const resources = getCheckpointResources(result)
+  const resource = resources.find(resource => resource.urn === modification.urn)
+
+  if (!resource) {
+    throw new StackResourceNotFoundError(modification.urn)
+  }
+
+  switch (modification.type) {
+    case "delete": {
+      if (resource.protect) {
+        throw new StackStateModificationError(
+          modification.urn,
+          "the resource is protected, unprotect it first",
+        )
+      }
+
+      const dependents = resources.filter(other =>
+        getReferencedUrns(other).includes(modification.urn),
+      )
+
+      if (dependents.length > 0) {
+        throw new StackStateModificationError(
+          modification.urn,
+          `the resource is referenced by ${dependents.length} other resource(s)`,
+        )
+      }
+
+      result.deployment.resources = resources.filter(other => other !== resource)
+      break
+    }
+
+    case "unprotect": {
+      resource.protect = false
+      break
+    }
+
+    case "rename": {
+      if (resource.type === "pulumi:pulumi:Stack") {
+        throw new StackStateModificationError(
+          modification.urn,
+          "the root stack resource cannot be renamed",
+        )
+      }
+
+      const newUrn = `${modification.urn.slice(0, modification.urn.lastIndexOf("::"))}::${modification.newName}`
+
+      if (resources.some(other => other.urn === newUrn)) {
+        throw new StackStateModificationError(
+          modification.urn,
+          `the resource with URN "${newUrn}" already exists`,
+        )
+      }
+
+      const renameUrn = (urn: string) => (urn === modification.urn ? newUrn : urn)
+      const pendingResources = getCheckpointPendingOperations(result).map(op => op.resource)
+
+      for (const other of [...resources, ...pendingResources]) {
+        other.urn = renameUrn(other.urn)
+        other.parent = other.parent && renameUrn(other.parent)
+        other.deletedWith = other.deletedWith && renameUrn(other.deletedWith)
+        other.dependencies = other.dependencies?.map(renameUrn)
+
+        if (other.propertyDependencies) {
+          for (const [property, urns] of Object.entries(other.propertyDependencies)) {
+            other.propertyDependencies[property] = urns.map(renameUrn)
+          }
+        }
+
+        if (other.provider?.startsWith(`${modification.urn}::`)) {
+          other.provider = `${newUrn}${other.provider.slice(modification.urn.length)}`
+        }
+      }
+
+      break
+    }
+  }
+
+  return result
+}
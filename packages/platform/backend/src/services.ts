@@ -2,6 +2,7 @@ import type { RunnerBackend } from "./runner"
 import { createId } from "@paralleldrive/cuid2"
 import { type Logger, pino } from "pino"
 import { type ArtifactBackend, ArtifactService, createArtifactBackend } from "./artifact"
+import { AuthService } from "./auth"
 import {
   ApiKeyService,
   BackendUnlockService,
@@ -11,13 +12,17 @@ import {
   InstanceStateService,
   LibraryService,
   ObjectRefIndexService,
+  OperationApprovalService,
   OperationService,
   ProjectModelService,
   ProjectPortService,
   ProjectService,
   ProjectUnlockService,
+  PulumiBackendService,
   SecretService,
+  ServiceAccountAccessService,
   SettingsService,
+  StackStateService,
   TerminalSessionService,
   UnitExtraService,
   UnitOutputService,
@@ -33,10 +38,17 @@ import {
 } from "./database"
 import { createLibraryBackend, type LibraryBackend } from "./library"
 import { createLockBackend, type LockBackend, LockManager } from "./lock"
-import { OperationManager } from "./orchestrator"
+import {
+  ApprovalStalenessChecker,
+  DriftDetector,
+  OperationManager,
+  TriggerScheduler,
+  WorkerOperationRequester,
+} from "./orchestrator"
 import { createProjectModelBackends, type ProjectModelBackend } from "./project-model"
 import { createPubSubBackend, type PubSubBackend, PubSubManager } from "./pubsub"
 import { createRunnerBackend } from "./runner"
+import { createShareStore, type ShareStore } from "./share"
 import { createTerminalBackend, type TerminalBackend, TerminalManager } from "./terminal"
 import { MemoryProjectUnlockBackend, type ProjectUnlockBackend } from "./unlock"
 import { createWorkerBackend, type WorkerBackend, WorkerManager } from "./worker"
@@ -68,6 +80,10 @@ export type Services = {
   readonly projectEvaluationSubsystem: ProjectEvaluationSubsystem
 
   readonly operationManager: OperationManager
+  readonly triggerScheduler: TriggerScheduler
+  readonly driftDetector: DriftDetector
+  readonly approvalStalenessChecker: ApprovalStalenessChecker
+  readonly workerOperationRequester: WorkerOperationRequester
 
   readonly terminalBackend: TerminalBackend
   readonly terminalManager: TerminalManager
@@ -76,6 +92,8 @@ export type Services = {
   readonly workerManager: WorkerManager
 
   readonly artifactBackend: ArtifactBackend
+  readonly shareStore: ShareStore
+  readonly authService: AuthService
 
   // business services
   readonly backendUnlockService: BackendUnlockService
@@ -84,16 +102,20 @@ export type Services = {
   readonly objectRefIndexService: ObjectRefIndexService
   readonly projectUnlockService: ProjectUnlockService
   readonly operationService: OperationService
+  readonly operationApprovalService: OperationApprovalService
   readonly instanceStateService: InstanceStateService
   readonly secretService: SecretService
   readonly apiKeyService: ApiKeyService
+  readonly serviceAccountAccessService: ServiceAccountAccessService
   readonly workerService: WorkerService
   readonly projectModelService: ProjectModelService
   readonly projectService: ProjectService
+  readonly pulumiBackendService: PulumiBackendService
   readonly libraryService: LibraryService
   readonly projectPortService: ProjectPortService
   readonly artifactService: ArtifactService
   readonly settingsService: SettingsService
+  readonly stackStateService: StackStateService
   readonly unitExtraService: UnitExtraService
   readonly entitySnapshotService: EntitySnapshotService
   readonly unitOutputService: UnitOutputService
@@ -133,6 +155,10 @@ export async function createServices({
     projectEvaluationSubsystem,
 
     operationManager,
+    triggerScheduler,
+    driftDetector,
+    approvalStalenessChecker,
+    workerOperationRequester,
 
     terminalBackend,
     terminalManager,
@@ -142,6 +168,8 @@ export async function createServices({
 
     artifactBackend,
     artifactService,
+    shareStore,
+    authService,
 
     // business services
     backendUnlockService,
@@ -150,16 +178,20 @@ export async function createServices({
     objectRefIndexService,
     projectUnlockService,
     operationService,
+    operationApprovalService,
     secretService,
     terminalSessionService: sessionService,
     instanceStateService,
     apiKeyService,
+    serviceAccountAccessService,
     workerService,
     projectService,
+    pulumiBackendService,
     projectModelService,
     libraryService,
     projectPortService,
     settingsService,
+    stackStateService,
     unitExtraService,
     entitySnapshotService,
     unitOutputService,
@@ -188,17 +220,20 @@ export async function createServices({
     logger.child({ service: "ObjectRefIndexService" }),
   )
 
-  pubsubBackend ??= createPubSubBackend(config, logger)
+  pubsubBackend ??= await createPubSubBackend(config, logger)
   pubsubManager ??= new PubSubManager(pubsubBackend, logger)
 
-  lockBackend ??= createLockBackend(config)
+  lockBackend ??= await createLockBackend(config, database, runtimeId, logger)
   lockManager ??= new LockManager(lockBackend)
 
-  libraryBackend ??= await createLibraryBackend(config, logger)
+  libraryBackend ??= await createLibraryBackend(config, database, logger)
 
   artifactBackend ??= await createArtifactBackend(config, database, logger)
   artifactService ??= new ArtifactService(database, artifactBackend, objectRefIndexService, logger)
 
+  shareStore ??= await createShareStore(config, logger)
+  authService ??= AuthService.create(config, database, logger)
+
   backendUnlockService ??= new BackendUnlockService(
     database,
     logger.child({ service: "BackendUnlockService" }),
@@ -211,9 +246,11 @@ export async function createServices({
   )
 
   libraryService ??= new LibraryService(
+    config,
     database,
     libraryBackend,
     projectUnlockBackend,
+    pubsubManager,
     logger.child({ service: "LibraryService" }),
   )
 
@@ -226,12 +263,18 @@ export async function createServices({
   )
   sessionService ??= new TerminalSessionService(database)
 
+  pulumiBackendService ??= new PulumiBackendService(
+    database,
+    logger.child({ service: "PulumiBackendService" }),
+  )
+
   runnerBackend ??= await createRunnerBackend(
     config,
     libraryBackend,
     artifactService,
     artifactBackend,
     secretService,
+    pulumiBackendService,
     logger,
   )
 
@@ -244,6 +287,7 @@ export async function createServices({
 
   instanceLockService ??= new InstanceLockService(
     database,
+    lockManager,
     pubsubManager,
     logger.child({ service: "InstanceLockService" }),
   )
@@ -268,14 +312,27 @@ export async function createServices({
     logger.child({ service: "OperationService" }),
   )
 
+  operationApprovalService ??= new OperationApprovalService(
+    config,
+    database,
+    operationService,
+    logger.child({ service: "OperationApprovalService" }),
+  )
+
   entitySnapshotService ??= new EntitySnapshotService(
     database,
     objectRefIndexService,
+    unitOutputService,
     logger.child({ service: "EntitySnapshotService" }),
   )
 
   apiKeyService ??= new ApiKeyService(database, logger.child({ service: "ApiKeyService" }))
 
+  serviceAccountAccessService ??= new ServiceAccountAccessService(
+    database,
+    logger.child({ service: "ServiceAccountAccessService" }),
+  )
+
   terminalBackend ??= createTerminalBackend(config, logger)
   terminalManager ??= TerminalManager.create(
     terminalBackend,
@@ -305,9 +362,16 @@ export async function createServices({
     logger.child({ service: "WorkerService" }),
   )
 
-  unitExtraService ??= new UnitExtraService(database)
+  unitExtraService ??= new UnitExtraService(database, logger.child({ service: "UnitExtraService" }))
   settingsService ??= new SettingsService(database)
 
+  stackStateService ??= new StackStateService(
+    database,
+    runnerBackend,
+    instanceLockService,
+    logger.child({ service: "StackStateService" }),
+  )
+
   instanceStateService ??= new InstanceStateService(
     database,
     pubsubManager,
@@ -346,6 +410,8 @@ export async function createServices({
     projectModelService,
     projectModelBackends,
     libraryService,
+    pulumiBackendService,
+    secretService,
     pubsubManager,
     objectRefIndexService,
     logger.child({ service: "ProjectService" }),
@@ -372,10 +438,46 @@ export async function createServices({
     unitOutputService,
     libraryService,
     projectPortService,
+    operationApprovalService,
     database,
+    lockManager,
     logger,
   )
 
+  triggerScheduler ??= new TriggerScheduler(
+    config,
+    database,
+    projectUnlockBackend,
+    projectUnlockService,
+    operationManager,
+    logger.child({ service: "TriggerScheduler" }),
+  )
+
+  driftDetector ??= new DriftDetector(
+    config,
+    database,
+    projectUnlockBackend,
+    projectUnlockService,
+    operationManager,
+    logger.child({ service: "DriftDetector" }),
+  )
+
+  approvalStalenessChecker ??= new ApprovalStalenessChecker(
+    config,
+    projectUnlockBackend,
+    projectUnlockService,
+    operationManager,
+    logger.child({ service: "ApprovalStalenessChecker" }),
+  )
+
+  workerOperationRequester ??= new WorkerOperationRequester(
+    config,
+    database,
+    serviceAccountAccessService,
+    operationManager,
+    logger.child({ service: "WorkerOperationRequester" }),
+  )
+
   logger.info("services created")
 
   return {
@@ -399,6 +501,10 @@ export async function createServices({
     projectEvaluationSubsystem,
 
     operationManager,
+    triggerScheduler,
+    driftDetector,
+    approvalStalenessChecker,
+    workerOperationRequester,
 
     terminalBackend,
     terminalManager,
@@ -408,6 +514,8 @@ export async function createServices({
 
     artifactBackend,
     artifactService,
+    shareStore,
+    authService,
 
     // business services
     backendUnlockService,
@@ -416,16 +524,20 @@ export async function createServices({
     objectRefIndexService,
     projectUnlockService,
     operationService,
+    operationApprovalService,
     instanceStateService,
     secretService,
     terminalSessionService: sessionService,
     apiKeyService,
+    serviceAccountAccessService,
     workerService,
     projectService,
+    pulumiBackendService,
     projectModelService,
     libraryService,
     projectPortService,
     settingsService,
+    stackStateService,
     unitExtraService,
     entitySnapshotService,
     unitOutputService,
@@ -0,0 +1,31 @@
+/**
+ * The store of the shared content, e.g. the encrypted blueprints.
+ *
+ * The content is opaque to the store: it is encrypted by the client
+ * and the key is never sent to the backend.
+ */
+export interface ShareStore {
+  /**
+   * Stores the content of the share.
+   * If the share with the same ID already exists, it is overwritten.
+   *
+   * @param shareId The ID of the share.
+   * @param content The content of the share.
+   */
+  put(shareId: string, content: Uint8Array): Promise<void>
+
+  /**
+   * Retrieves the content of the share.
+   *
+   * @param shareId The ID of the share.
+   * @returns The content of the share or `null` if it does not exist.
+   */
+  get(shareId: string): Promise<Uint8Array | null>
+
+  /**
+   * Deletes the share. Does nothing if the share does not exist.
+   *
+   * @param shareId The ID of the share.
+   */
+  delete(shareId: string): Promise<void>
+}
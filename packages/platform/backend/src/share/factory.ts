@@ -0,0 +1,20 @@
+import type { Logger } from "pino"
+import type { ShareStore } from "./abstractions"
+import { z } from "zod"
+import { LocalShareStore, localShareStoreConfig } from "./local"
+
+export const shareStoreConfig = z.object({
+  HIGHSTATE_SHARE_STORE_TYPE: z.enum(["local"]).default("local"),
+  ...localShareStoreConfig.shape,
+})
+
+export async function createShareStore(
+  config: z.infer<typeof shareStoreConfig>,
+  logger: Logger,
+): Promise<ShareStore> {
+  switch (config.HIGHSTATE_SHARE_STORE_TYPE) {
+    case "local": {
+      return await LocalShareStore.create(config, logger)
+    }
+  }
+}
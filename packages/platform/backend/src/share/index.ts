@@ -0,0 +1,2 @@
+export * from "./abstractions"
+export * from "./factory"
@@ -0,0 +1,37 @@
+import { mkdtemp, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { describe } from "vitest"
+import { test } from "../test-utils"
+import { LocalShareStore } from "./local"
+
+const shareTest = test.extend<{ shareStore: LocalShareStore }>({
+  shareStore: async ({ logger }, use) => {
+    const directory = await mkdtemp(join(tmpdir(), "highstate-shares-"))
+
+    await use(new LocalShareStore(directory, logger))
+    await rm(directory, { recursive: true, force: true })
+  },
+})
+
+describe("LocalShareStore", () => {
+  shareTest("stores, retrieves and deletes share content", async ({ shareStore, expect }) => {
+    // arrange
+    const content = new Uint8Array([1, 2, 3])
+
+    // act
+    await shareStore.put("share1", content)
+    const stored = await shareStore.get("share1")
+    await shareStore.delete("share1")
+
+    // assert
+    expect(stored).toEqual(Buffer.from(content))
+    expect(await shareStore.get("share1")).toBeNull()
+  })
+
+  shareTest("rejects IDs escaping the directory", async ({ shareStore, expect }) => {
+    // act & assert
+    await expect(shareStore.get("../secret")).rejects.toThrow(`Invalid share ID "../secret"`)
+    await expect(shareStore.put("a/b", new Uint8Array())).rejects.toThrow()
+  })
+})
@@ -0,0 +1,76 @@
+import type { Logger } from "pino"
+import type { ShareStore } from "./abstractions"
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises"
+import { join, resolve } from "node:path"
+import { z } from "zod"
+import { codebaseConfig, getCodebaseHighstatePath } from "../common"
+
+export const localShareStoreConfig = z.object({
+  ...codebaseConfig.shape,
+  HIGHSTATE_SHARE_STORE_LOCAL_PATH: z.string().optional(),
+})
+
+const shareIdRegex = /^[a-z0-9]+$/
+
+/**
+ * A local share store that keeps the shares in the filesystem.
+ *
+ * File structure:
+ * - `{path}/{shareId}.bin`, where the path defaults to `{codebase}/.highstate/shares`
+ */
+export class LocalShareStore implements ShareStore {
+  constructor(
+    private readonly path: string,
+    private readonly logger: Logger,
+  ) {}
+
+  async put(shareId: string, content: Uint8Array): Promise<void> {
+    const fileName = this.getSharePath(shareId)
+
+    await mkdir(this.path, { recursive: true })
+    await writeFile(fileName, content)
+
+    this.logger.info({ shareId, size: content.byteLength }, "share stored")
+  }
+
+  async get(shareId: string): Promise<Uint8Array | null> {
+    const fileName = this.getSharePath(shareId)
+
+    try {
+      return await readFile(fileName)
+    } catch (error) {
+      this.logger.debug({ shareId, error }, "share retrieval failed")
+      return null
+    }
+  }
+
+  async delete(shareId: string): Promise<void> {
+    const fileName = this.getSharePath(shareId)
+
+    await rm(fileName, { force: true })
+    this.logger.info({ shareId }, "share deleted")
+  }
+
+  private getSharePath(shareId: string): string {
+    // the ID comes from the public link, so it must not be able to escape the directory
+    if (!shareIdRegex.test(shareId)) {
+      throw new Error(`Invalid share ID "${shareId}"`)
+    }
+
+    return join(this.path, `${shareId}.bin`)
+  }
+
+  static async create(
+    config: z.infer<typeof localShareStoreConfig>,
+    logger: Logger,
+  ): Promise<LocalShareStore> {
+    const path = config.HIGHSTATE_SHARE_STORE_LOCAL_PATH
+      ? resolve(config.HIGHSTATE_SHARE_STORE_LOCAL_PATH)
+      : resolve(await getCodebaseHighstatePath(config, logger), "shares")
+
+    return new LocalShareStore(
+      path,
+      logger.child({ backend: "ShareStore", service: "LocalShareStore" }),
+    )
+  }
+}
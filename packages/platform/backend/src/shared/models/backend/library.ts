@@ -1,12 +1,123 @@
-import { type ComponentModel, type EntityModel, z } from "@highstate/contract"
+import {
+  type ComponentModel,
+  commonObjectMetaSchema,
+  type EntityModel,
+  z,
+} from "@highstate/contract"
 
 export const librarySpecSchema = z.discriminatedUnion("type", [
   z.object({
     type: z.literal("host"),
   }),
+  z.object({
+    /**
+     * Install the library packages at the pinned versions into the isolated cache.
+     *
+     * The libraries with different pins never share the installed packages,
+     * so the projects can use different versions of the same library.
+     */
+    type: z.literal("npm"),
+
+    /**
+     * The packages to install mapped to their pinned versions.
+     *
+     * Must include both the library packages and the packages containing the units.
+     * The versions must be exact, since the installed packages are cached by the pins
+     * and a range or a tag would be frozen at the version resolved by the first install.
+     */
+    packages: z.record(
+      z.string(),
+      z
+        .string()
+        .regex(
+          /^\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?(?:\+[0-9A-Za-z.-]+)?$/,
+          "The version must be exact, for example 1.2.3",
+        ),
+    ),
+
+    /**
+     * The names of the packages providing the components and entities of the library.
+     */
+    libraryPackages: z.string().array().default(["@highstate/library"]),
+
+    /**
+     * The URL of the npm registry to install the packages from.
+     *
+     * If not provided, the registry configured on the host is used.
+     */
+    registryUrl: z.url().optional(),
+
+    /**
+     * The path to the local directory containing the package tarballs created by `npm pack`.
+     *
+     * If provided, the packages are installed from this directory instead of the registry.
+     */
+    tarballPath: z.string().optional(),
+  }),
+  z.object({
+    /**
+     * Clone the git repository at the given ref into the isolated cache and build it
+     * the same way as `highstate build` does in the local workspace.
+     *
+     * The ref is resolved to the commit every time the library is refreshed,
+     * so the new commits of the branch are picked up on the refresh.
+     */
+    type: z.literal("git"),
+
+    /**
+     * The URL of the repository passed to `git`.
+     *
+     * The credentials are resolved by `git` on the host.
+     */
+    url: z.string().regex(/^[^-]/, "The URL must not start with a dash"),
+
+    /**
+     * The branch, tag or commit to checkout.
+     */
+    ref: z.string().regex(/^[^-]/, "The ref must not start with a dash").default("main"),
+
+    /**
+     * The path to the workspace root relative to the repository root.
+     *
+     * If not provided, the repository root is used.
+     */
+    path: z
+      .string()
+      .regex(/^(?![\\/]|[a-zA-Z]:)/, "The path must be relative")
+      .refine(path => !path.split(/[\\/]/).includes(".."), {
+        error: 'The path must not contain ".." segments',
+      })
+      .optional(),
+
+    /**
+     * The names of the packages providing the components and entities of the library.
+     */
+    libraryPackages: z.string().array().default(["@highstate/library"]),
+  }),
 ])
 
+export const libraryInputSchema = z.object({
+  meta: commonObjectMetaSchema,
+  spec: librarySpecSchema,
+})
+
+export const libraryOutputSchema = z.object({
+  id: z.cuid2(),
+  meta: commonObjectMetaSchema,
+  spec: librarySpecSchema,
+})
+
+/**
+ * The event published when the spec of the library is changed,
+ * so all backends reload the library.
+ */
+export const librarySpecEventSchema = z.object({
+  libraryId: z.string(),
+})
+
 export type LibrarySpec = z.infer<typeof librarySpecSchema>
+export type LibraryInput = z.infer<typeof libraryInputSchema>
+export type LibraryOutput = z.infer<typeof libraryOutputSchema>
 
 export type LibraryModel = {
   components: Record<string, ComponentModel>
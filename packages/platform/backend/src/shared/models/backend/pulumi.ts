@@ -1,4 +1,4 @@
-import { z } from "@highstate/contract"
+import { commonObjectMetaSchema, z } from "@highstate/contract"
 
 export const pulumiBackendSpecSchema = z.discriminatedUnion("type", [
   z.object({
@@ -9,6 +9,66 @@ export const pulumiBackendSpecSchema = z.discriminatedUnion("type", [
      */
     type: z.literal("host"),
   }),
+  z.object({
+    /**
+     * Store the stack states in the local directory using the `file://` backend.
+     */
+    type: z.literal("local"),
+
+    /**
+     * The absolute path to the directory where the stack states are stored.
+     *
+     * The directory is created if it does not exist.
+     */
+    path: z.string().min(1),
+  }),
+  z.object({
+    /**
+     * Store the stack states in the S3-compatible bucket using the `s3://` backend.
+     *
+     * The credentials are resolved by the default AWS SDK credential chain of the host,
+     * so they are never stored in the database.
+     */
+    type: z.literal("s3"),
+
+    /**
+     * The name of the bucket to store the stack states in.
+     */
+    bucket: z.string().min(1),
+
+    /**
+     * The prefix of the stack state objects inside the bucket.
+     */
+    prefix: z.string().default(""),
+
+    /**
+     * The region of the bucket.
+     */
+    region: z.string().default("us-east-1"),
+
+    /**
+     * The custom endpoint of the S3-compatible storage, e.g. `http://minio:9000`.
+     */
+    endpoint: z.string().optional(),
+
+    /**
+     * Whether to use the path-style addressing required by most S3-compatible storages.
+     */
+    forcePathStyle: z.boolean().default(false),
+  }),
 ])
 
+export const pulumiBackendInputSchema = z.object({
+  meta: commonObjectMetaSchema,
+  spec: pulumiBackendSpecSchema,
+})
+
+export const pulumiBackendOutputSchema = z.object({
+  id: z.cuid2(),
+  meta: commonObjectMetaSchema,
+  spec: pulumiBackendSpecSchema,
+})
+
 export type PulumiBackendSpec = z.infer<typeof pulumiBackendSpecSchema>
+export type PulumiBackendInput = z.infer<typeof pulumiBackendInputSchema>
+export type PulumiBackendOutput = z.infer<typeof pulumiBackendOutputSchema>
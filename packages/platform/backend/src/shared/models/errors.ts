@@ -64,6 +64,27 @@ export class InstanceLockLostError extends BackendError {
   }
 }
 
+export class LockAcquireTimeoutError extends BackendError {
+  constructor(keys: string[], timeoutMs: number) {
+    super(`Failed to acquire the locks for keys [${keys.join(", ")}] within ${timeoutMs} ms.`)
+    this.name = "LockAcquireTimeoutError"
+  }
+}
+
+export class LockHolderExpiredError extends BackendError {
+  constructor(holderId: string) {
+    super(`The lock holder "${holderId}" expired, so its leases may be taken over by others.`)
+    this.name = "LockHolderExpiredError"
+  }
+}
+
+export class LockLeaseLostError extends BackendError {
+  constructor(keys: string[]) {
+    super(`The leases for keys [${keys.join(", ")}] were taken over while the locks were held.`)
+    this.name = "LockLeaseLostError"
+  }
+}
+
 export class InstanceStateNotFoundError extends BackendError {
   constructor(projectId: string, instanceId: string) {
     super(`State for instance with ID "${instanceId}" not found in project "${projectId}".`)
@@ -98,3 +119,123 @@ export class CannotDeleteLastBackendUnlockMethodError extends BackendError {
     this.name = "CannotDeleteLastBackendUnlockMethodError"
   }
 }
+
+export class PulumiBackendNotFoundError extends BackendError {
+  constructor(id: string) {
+    super(`Pulumi backend with ID "${id}" not found.`)
+    this.name = "PulumiBackendNotFoundError"
+  }
+}
+
+export class LibraryNotFoundError extends BackendError {
+  constructor(id: string) {
+    super(`Library with ID "${id}" not found.`)
+    this.name = "LibraryNotFoundError"
+  }
+}
+
+export class LibrarySourceNotAllowedError extends AccessError {
+  constructor(source: string, configKey: string) {
+    super(`Library source "${source}" is not allowed, it must be listed in "${configKey}".`)
+    this.name = "LibrarySourceNotAllowedError"
+  }
+}
+
+export class TerminalSessionNotFoundError extends BackendError {
+  constructor(projectId: string, sessionId: string) {
+    super(`Terminal session with ID "${sessionId}" not found in project "${projectId}".`)
+    this.name = "TerminalSessionNotFoundError"
+  }
+}
+
+export class ServiceAccountNotFoundError extends BackendError {
+  constructor(projectId: string, serviceAccountId: string) {
+    super(`Service account with ID "${serviceAccountId}" not found in project "${projectId}".`)
+    this.name = "ServiceAccountNotFoundError"
+  }
+}
+
+export class SecretNotFoundError extends BackendError {
+  constructor(projectId: string, secretId: string) {
+    super(`Secret with ID "${secretId}" not found in project "${projectId}".`)
+    this.name = "SecretNotFoundError"
+  }
+}
+
+export class OperationRateLimitExceededError extends BackendError {
+  constructor(projectId: string, serviceAccountId: string) {
+    super(
+      `Service account "${serviceAccountId}" exceeded the operation request rate limit in project "${projectId}".`,
+    )
+    this.name = "OperationRateLimitExceededError"
+  }
+}
+
+export class AuthenticationError extends AccessError {
+  constructor(message: string) {
+    super(message)
+    this.name = "AuthenticationError"
+  }
+}
+
+export class LocalUserNotFoundError extends BackendError {
+  constructor(username: string) {
+    super(`Local user "${username}" not found.`)
+    this.name = "LocalUserNotFoundError"
+  }
+}
+
+export class OperationNotAwaitingApprovalError extends BackendError {
+  constructor(projectId: string, operationId: string) {
+    super(`Operation with ID "${operationId}" in project "${projectId}" is not awaiting approval.`)
+    this.name = "OperationNotAwaitingApprovalError"
+  }
+}
+
+export class OperationNotRetryableError extends BackendError {
+  constructor(projectId: string, operationId: string) {
+    super(
+      `Operation with ID "${operationId}" in project "${projectId}" has no failed or cancelled instances to retry.`,
+    )
+    this.name = "OperationNotRetryableError"
+  }
+}
+
+export class InstanceRollbackSnapshotNotFoundError extends BackendError {
+  constructor(projectId: string, instanceId: string, operationId: string) {
+    super(
+      `Instance with ID "${instanceId}" in project "${projectId}" was not deployed by operation "${operationId}".`,
+    )
+    this.name = "InstanceRollbackSnapshotNotFoundError"
+  }
+}
+
+export class PulumiStackNotFoundError extends BackendError {
+  constructor(stackName: string, projectName: string) {
+    super(`Stack "${stackName}" of project "${projectName}" not found.`)
+    this.name = "PulumiStackNotFoundError"
+  }
+}
+
+export class StackResourceNotFoundError extends BackendError {
+  constructor(urn: string) {
+    super(`Resource with URN "${urn}" not found in the stack.`)
+    this.name = "StackResourceNotFoundError"
+  }
+}
+
+export class StackStateModificationError extends BackendError {
+  constructor(urn: string, reason: string) {
+    super(`Cannot modify resource with URN "${urn}": ${reason}`)
+    this.name = "StackStateModificationError"
+  }
+}
+
+export class StackCheckpointMismatchError extends BackendError {
+  constructor(urn: string, stackName: string, projectName: string) {
+    super(
+      `Resource with URN "${urn}" does not belong to stack "${stackName}" of project "${projectName}".`,
+    )
+    this.name = "StackCheckpointMismatchError"
+  }
+}
@@ -34,6 +34,8 @@ declare global {
     type OperationMeta = shared.OperationMeta
     type OperationOptions = shared.OperationOptions
     type OperationPhase = shared.OperationPhase
+    type OperationApprovalRequest = shared.OperationApprovalRequest
+    type ResourceChanges = shared.ResourceChange[]
 
     type WorkerUnitRegistrationParams = Record<string, unknown>
 
@@ -10,3 +10,30 @@ export const instanceCustomStatusInputSchema = z.object({
 })
 
 export type InstanceCustomStatusInput = z.infer<typeof instanceCustomStatusInputSchema>
+
+/**
+ * The name of the custom status attached to the instances with drifted resources.
+ */
+export const driftCustomStatusName = "drift"
+
+export const instanceDriftOutputSchema = z.object({
+  /**
+   * The ID of the drifted instance state.
+   */
+  id: z.cuid2(),
+  instanceId: z.string(),
+  meta: commonObjectMetaSchema,
+  message: z.string().nullable(),
+
+  /**
+   * The time when the drift was first detected.
+   */
+  detectedAt: z.date(),
+
+  /**
+   * The time when the drift was last confirmed.
+   */
+  checkedAt: z.date(),
+})
+
+export type InstanceDriftOutput = z.infer<typeof instanceDriftOutputSchema>
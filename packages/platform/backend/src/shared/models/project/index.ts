@@ -8,8 +8,10 @@ export * from "./operation"
 export * from "./page"
 export * from "./secret"
 export * from "./service-account"
+export * from "./stack"
 export * from "./state"
 export * from "./terminal"
 export * from "./trigger"
 export * from "./unlock-method"
+export * from "./well-known"
 export * from "./worker"
@@ -44,3 +44,44 @@ export type FullProjectModel = ProjectModel & {
   virtualInstances: InstanceModel[]
   ghostInstances: InstanceModel[]
 }
+
+export type InstanceRollbackTarget = {
+  /**
+   * The ID of the operation which deployed the configuration.
+   */
+  operationId: string
+
+  /**
+   * The title of the operation.
+   */
+  operationTitle: string
+
+  /**
+   * The time when the instance was deployed by the operation.
+   */
+  deployedAt: Date | null
+}
+
+export type InstanceRollbackPreview = {
+  /**
+   * The current model of the instance.
+   */
+  currentModel: InstanceModel
+
+  /**
+   * The model of the instance after the rollback.
+   */
+  rollbackModel: InstanceModel
+
+  /**
+   * The names of the instance secrets restored to the values passed to the unit by the deployment.
+   */
+  restoredSecretNames: string[]
+
+  /**
+   * The names of the instance secrets changed after the deployment which are not in its snapshot.
+   *
+   * They keep their current values, since the deployment did not record them.
+   */
+  changedSecretNames: string[]
+}
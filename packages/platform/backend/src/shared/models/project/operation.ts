@@ -1,5 +1,10 @@
-import type { Operation, OperationStatus, OperationType } from "../../../database"
-import { instanceIdSchema, objectMetaSchema, z } from "@highstate/contract"
+import type {
+  Operation,
+  OperationApprovalDecision,
+  OperationStatus,
+  OperationType,
+} from "../../../database"
+import { type InstanceId, instanceIdSchema, objectMetaSchema, z } from "@highstate/contract"
 
 /**
  * Phase type for operation execution.
@@ -45,6 +50,64 @@ export type OperationPhase = z.infer<typeof operationPhaseSchema>
 export type OperationPhaseType = z.infer<typeof operationPhaseTypeSchema>
 export type OperationPhaseInstance = z.infer<typeof operationPhaseInstanceSchema>
 
+/**
+ * The change of the single resource property planned by the preview.
+ */
+export const resourcePropertyDiffSchema = z.object({
+  /**
+   * The path of the changed property, for example `spec.containers[0].image`.
+   */
+  path: z.string(),
+
+  /**
+   * The kind of the change reported by the Pulumi engine.
+   */
+  kind: z.enum(["add", "add-replace", "delete", "delete-replace", "update", "update-replace"]),
+
+  /**
+   * The value of the property before the change with the secrets masked.
+   */
+  oldValue: z.unknown().optional(),
+
+  /**
+   * The value of the property after the change with the secrets masked.
+   */
+  newValue: z.unknown().optional(),
+})
+
+/**
+ * The change of the single Pulumi resource planned by the preview.
+ */
+export const resourceChangeSchema = z.object({
+  /**
+   * The URN of the changed resource.
+   */
+  urn: z.string(),
+
+  /**
+   * The type of the changed resource.
+   */
+  type: z.string(),
+
+  /**
+   * The planned operation on the resource.
+   */
+  op: z.enum(["create", "update", "replace", "delete"]),
+
+  /**
+   * The changed properties of the resource.
+   */
+  diffs: resourcePropertyDiffSchema.array(),
+})
+
+export type ResourcePropertyDiff = z.infer<typeof resourcePropertyDiffSchema>
+export type ResourceChange = z.infer<typeof resourceChangeSchema>
+
+export type InstanceResourceChanges = {
+  instanceId: InstanceId
+  resourceChanges: ResourceChange[]
+}
+
 export const operationOptionsSchema = z
   .object({
     /**
@@ -175,6 +238,35 @@ export const operationOptionsSchema = z
      */
     invokeDestroyTriggers: z.boolean().default(true),
 
+    /**
+     * Execute lifecycle triggers when updating instances.
+     *
+     * **Operation Behavior Impact:**
+     * - invokes `before-update`, `after-update` and `on-failure` triggers around the unit updates;
+     * - each invocation runs an additional update of the unit with the triggers passed to it;
+     * - processing `on-failure` triggers rolls the unit back to its last deployed configuration;
+     * - does not change which instances are selected for operations.
+     *
+     * **Usage with other options:**
+     * - independent of `invokedTriggers`: explicitly invoked triggers are passed to the main update;
+     * - independent of destroy-related options.
+     */
+    invokeUpdateTriggers: z.boolean().default(true),
+
+    /**
+     * The names of the triggers to invoke on the explicitly requested instances.
+     *
+     * **Operation Behavior Impact:**
+     * - applies to update operations only;
+     * - passes the triggers to the units of the requested instances, but not to their dependencies;
+     * - does not change which instances are selected for operations.
+     *
+     * **Usage with other options:**
+     * - set by the trigger scheduler to invoke the schedule triggers;
+     * - independent of destroy-related options.
+     */
+    invokedTriggers: z.string().array().default([]),
+
     /**
      * Delete Pulumi resources that are no longer referenced in the state.
      *
@@ -188,6 +280,47 @@ export const operationOptionsSchema = z
      */
     deleteUnreachableResources: z.boolean().default(false),
 
+    /**
+     * The URNs of the Pulumi resources to restrict the update to.
+     *
+     * **Operation Behavior Impact:**
+     * - applies to update and preview operations only;
+     * - the units whose stacks contain any of the resources only update these resources;
+     * - the units whose stacks do not contain any of the resources are updated as usual;
+     * - does not change which instances are selected for operations.
+     *
+     * **Usage with other options:**
+     * - combined with `replaceResources`: the replaced resources must also be targeted;
+     * - combined with `excludeResources`: the excluded resources are not updated even if targeted.
+     */
+    targetResources: z.string().array().default([]),
+
+    /**
+     * The URNs of the Pulumi resources to force replace during the update.
+     *
+     * **Operation Behavior Impact:**
+     * - applies to update and preview operations only;
+     * - the resources are replaced even if their inputs are not changed;
+     * - does not change which instances are selected for operations.
+     *
+     * **Usage with other options:**
+     * - combined with `targetResources`: the replaced resources must also be targeted.
+     */
+    replaceResources: z.string().array().default([]),
+
+    /**
+     * The URNs of the Pulumi resources to exclude from the update.
+     *
+     * **Operation Behavior Impact:**
+     * - applies to update and preview operations only;
+     * - the resources are not created, updated or deleted by the update;
+     * - does not change which instances are selected for operations.
+     *
+     * **Usage with other options:**
+     * - takes precedence over `targetResources`.
+     */
+    excludeResources: z.string().array().default([]),
+
     /**
      * Force deletion of instance state even if the destroy operation fails.
      *
@@ -246,6 +379,21 @@ export const operationOptionsSchema = z
      */
     refresh: z.boolean().default(false),
 
+    /**
+     * Only detect the resources changed outside of Highstate without writing them to the state.
+     *
+     * **Operation Behavior Impact:**
+     * - applies to refresh operations only;
+     * - runs the refresh in the preview-only mode, so the stack state and instance outputs are not changed;
+     * - records the `drifted` custom status on the instances with changed resources and clears it otherwise;
+     * - does not change which instances are selected for operations.
+     *
+     * **Usage with other options:**
+     * - set by the drift detector for the periodic drift detection;
+     * - independent of update-related and destroy-related options.
+     */
+    detectDrift: z.boolean().default(false),
+
     /**
      * Enable debug logging for Pulumi engine and resource providers.
      *
@@ -271,6 +419,7 @@ export const operationTypeSchema = z.enum([
 
 export const operationStatusSchema = z.enum([
   "pending",
+  "awaiting_approval",
   "running",
   "failing",
   "completed",
@@ -279,12 +428,67 @@ export const operationStatusSchema = z.enum([
   "cancelling",
 ]) satisfies z.ZodType<OperationStatus>
 
+/**
+ * The types of the operations the workers can request.
+ */
+export const workerOperationTypeSchema = z.enum(["update", "refresh"])
+
+/**
+ * The initiator of the operation.
+ */
+export const operationInitiatorSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("user"),
+
+    /**
+     * The ID of the user who launched the operation.
+     *
+     * When the authentication is disabled, it is the name of the local OS user.
+     */
+    userId: z.string(),
+  }),
+  z.object({
+    type: z.literal("worker"),
+
+    /**
+     * The ID of the worker requested the operation.
+     */
+    workerId: z.string(),
+
+    /**
+     * The identity of the worker, i.e. the image without the tag and the digest.
+     */
+    workerIdentity: z.string(),
+
+    /**
+     * The ID of the service account of the worker.
+     */
+    serviceAccountId: z.string(),
+  }),
+  z.object({
+    type: z.literal("system"),
+
+    /**
+     * The name of the system component launched the operation, e.g. `trigger-scheduler`.
+     */
+    source: z.string(),
+  }),
+])
+
 export const operationMetaSchema = objectMetaSchema
   .pick({
     title: true,
     description: true,
   })
   .required({ title: true })
+  .extend({
+    /**
+     * The initiator of the operation.
+     *
+     * Not set for the operations launched before the initiators were tracked.
+     */
+    initiator: operationInitiatorSchema.optional(),
+  })
 
 export const operationPlanInputSchema = z.object({
   projectId: z.string(),
@@ -298,6 +502,45 @@ export const operationLaunchInputSchema = operationPlanInputSchema.extend({
   plan: operationPhaseSchema.array().optional(),
 })
 
+/**
+ * The request of the approval stored in the operation awaiting it.
+ */
+export const operationApprovalRequestSchema = z.object({
+  /**
+   * The number of the users which must approve the operation before it starts.
+   */
+  requiredApprovals: z.number().int().positive(),
+
+  /**
+   * The input hashes of the planned instances at the moment of planning.
+   *
+   * If any of them changes before the operation is approved, the plan is considered stale
+   * and the operation is cancelled.
+   */
+  inputHashes: z.record(z.string(), z.number()),
+
+  /**
+   * The IDs of the preview operations launched to show the planned resource changes to the approvers.
+   */
+  previewOperationIds: z.string().array(),
+})
+
+export const operationApprovalDecisionSchema = z.enum([
+  "approved",
+  "rejected",
+]) satisfies z.ZodType<OperationApprovalDecision>
+
+export const operationApprovalInputSchema = z.object({
+  projectId: z.string(),
+  operationId: z.string(),
+  decision: operationApprovalDecisionSchema,
+  comment: z.string().max(1000).optional(),
+})
+
+export type WorkerOperationType = z.infer<typeof workerOperationTypeSchema>
+export type OperationApprovalRequest = z.infer<typeof operationApprovalRequestSchema>
+export type OperationApprovalInput = z.infer<typeof operationApprovalInputSchema>
+export type OperationInitiator = z.infer<typeof operationInitiatorSchema>
 export type OperationMeta = z.infer<typeof operationMetaSchema>
 export type OperationPlanInput = z.infer<typeof operationPlanInputSchema>
 export type OperationLaunchInput = z.infer<typeof operationLaunchInputSchema>
@@ -326,7 +569,14 @@ export const operationOutputSchema = z.object({
 
 export type OperationOutput = z.infer<typeof operationOutputSchema>
 
-export type { Operation, OperationLog, OperationStatus, OperationType } from "../../../database"
+export type {
+  Operation,
+  OperationApproval,
+  OperationApprovalDecision,
+  OperationLog,
+  OperationStatus,
+  OperationType,
+} from "../../../database"
 
 export const finalOperationStatuses: OperationStatus[] = ["completed", "failed", "cancelled"]
 
@@ -334,7 +584,7 @@ export const finalOperationStatuses: OperationStatus[] = ["completed", "failed",
  * Checks if an operation status is final (stable).
  *
  * Final statuses are: completed, failed, cancelled
- * Transient statuses are: pending, running, failing
+ * Transient statuses are: pending, awaiting_approval, running, failing, cancelling
  *
  * @param status The operation status to check
  * @returns True if the status is final
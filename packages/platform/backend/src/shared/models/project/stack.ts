@@ -0,0 +1,79 @@
+import { z } from "zod"
+
+/**
+ * The resource managed by the Pulumi stack of the unit.
+ */
+export const stackResourceSchema = z.object({
+  /**
+   * The URN of the resource.
+   */
+  urn: z.string(),
+
+  /**
+   * The type of the resource.
+   */
+  type: z.string(),
+
+  /**
+   * The URN of the parent resource.
+   */
+  parent: z.string().optional(),
+
+  /**
+   * The reference to the provider managing the resource in the `<urn>::<id>` format.
+   */
+  provider: z.string().optional(),
+
+  /**
+   * Whether the resource is protected from deletion.
+   */
+  protect: z.boolean(),
+
+  /**
+   * The URNs of the resources the resource depends on.
+   */
+  dependencies: z.string().array(),
+})
+
+/**
+ * The checkpoint of the Pulumi stack as produced by `pulumi stack export`.
+ */
+export const stackCheckpointSchema = z.object({
+  version: z.number().int(),
+  deployment: z.record(z.string(), z.unknown()),
+})
+
+/**
+ * The modification of the single resource in the Pulumi stack state.
+ */
+export const stackStateModificationSchema = z.discriminatedUnion("type", [
+  z.object({
+    /**
+     * Removes the resource from the state without deleting it from the cloud.
+     */
+    type: z.literal("delete"),
+    urn: z.string(),
+  }),
+  z.object({
+    /**
+     * Removes the protection of the resource, so it can be deleted by the next update.
+     */
+    type: z.literal("unprotect"),
+    urn: z.string(),
+  }),
+  z.object({
+    /**
+     * Changes the name of the resource in the state to match the renamed resource in the program.
+     */
+    type: z.literal("rename"),
+    urn: z.string(),
+    newName: z
+      .string()
+      .min(1)
+      .refine(name => !name.includes("::"), { error: 'The name must not contain "::"' }),
+  }),
+])
+
+export type StackResource = z.infer<typeof stackResourceSchema>
+export type StackCheckpoint = z.infer<typeof stackCheckpointSchema>
+export type StackStateModification = z.infer<typeof stackStateModificationSchema>
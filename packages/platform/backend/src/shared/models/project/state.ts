@@ -39,8 +39,10 @@ export type InstanceState = DatabaseInstanceState & {
 
   /**
    * The last operation state of the instance.
+   *
+   * The snapshot of the secrets is never loaded, since the state is published to the clients.
    */
-  lastOperationState?: InstanceOperationState | null
+  lastOperationState?: Omit<InstanceOperationState, "secrets"> | null
 
   /**
    * The evaluation state of the instance.
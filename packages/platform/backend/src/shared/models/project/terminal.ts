@@ -84,3 +84,41 @@ export function toTerminalSessionOutput(
     finishedAt: session.finishedAt,
   }
 }
+
+export type AsciicastHeader = {
+  version: 2
+  width: number
+  height: number
+
+  /**
+   * The Unix timestamp of the beginning of the recording in seconds.
+   */
+  timestamp: number
+
+  title?: string
+  env?: Record<string, string>
+}
+
+/**
+ * The output event of the asciicast v2 recording: the time in seconds
+ * since the beginning of the recording, the event type and the data.
+ */
+export type AsciicastEvent = [time: number, type: "o", data: string]
+
+export type TerminalSessionRecording = {
+  header: AsciicastHeader
+  events: AsciicastEvent[]
+}
+
+/**
+ * Formats the recording as the asciicast v2 file: the header line followed by the event lines.
+ */
+export function formatAsciicast(recording: TerminalSessionRecording): string {
+  const lines = [JSON.stringify(recording.header)]
+
+  for (const event of recording.events) {
+    lines.push(JSON.stringify(event))
+  }
+
+  return `${lines.join("\n")}\n`
+}
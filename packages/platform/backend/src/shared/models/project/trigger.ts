@@ -1,4 +1,6 @@
-import { commonObjectMetaSchema } from "@highstate/contract"
+import type { Logger } from "pino"
+import { commonObjectMetaSchema, type TriggerSpec } from "@highstate/contract"
+import { Cron } from "croner"
 import { z } from "zod"
 import { collectionQuerySchema } from "../base"
 
@@ -7,6 +9,8 @@ export const triggerOutputSchema = z.object({
   meta: commonObjectMetaSchema,
   name: z.string(),
   stateId: z.cuid2(),
+  lastRunAt: z.date().nullable(),
+  nextRunAt: z.date().nullable(),
   createdAt: z.date(),
   updatedAt: z.date(),
 })
@@ -18,3 +22,30 @@ export const triggerQuerySchema = collectionQuerySchema.extend({
 })
 
 export type TriggerQuery = z.infer<typeof triggerQuerySchema>
+
+/**
+ * Calculates the next time when the trigger should be invoked by the scheduler.
+ *
+ * The cron expressions are validated by the trigger schema,
+ * so the invalid ones can only come from the triggers stored before the validation was introduced.
+ *
+ * @param spec The specification of the trigger.
+ * @param after The time after which the next run should be calculated.
+ * @param logger The logger to report the invalid cron expression to.
+ * @returns The time of the next run or null if the trigger is not scheduled or its cron expression is invalid.
+ */
+export function getTriggerNextRunAt(spec: TriggerSpec, after: Date, logger: Logger): Date | null {
+  if (spec.type !== "schedule") {
+    return null
+  }
+
+  try {
+    return new Cron(spec.cron).nextRun(after)
+  } catch (error) {
+    logger.warn(
+      { error, cron: spec.cron },
+      "invalid cron expression, the trigger will not be scheduled",
+    )
+    return null
+  }
+}
@@ -0,0 +1,11 @@
+import type { ServiceAccountCreateInput } from "../../../database"
+
+export const driftDetectorServiceAccount = {
+  id: "rk58tovckzaywj6ih0r7o64e",
+  meta: {
+    title: "Drift Detector",
+    description:
+      "The built-in service account which marks the instances with resources changed outside of Highstate.",
+    icon: "mdi-vector-difference",
+  },
+} satisfies ServiceAccountCreateInput
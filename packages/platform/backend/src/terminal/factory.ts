@@ -2,10 +2,12 @@ import type { Logger } from "pino"
 import type { TerminalBackend } from "./abstractions"
 import { z } from "zod"
 import { DockerTerminalBackend, dockerTerminalBackendConfig } from "./docker"
+import { LocalTerminalBackend, localTerminalBackendConfig } from "./local"
 
 export const terminalBackendConfig = z.object({
-  HIGHSTATE_TERMINAL_BACKEND_TYPE: z.enum(["docker"]).default("docker"),
+  HIGHSTATE_TERMINAL_BACKEND_TYPE: z.enum(["docker", "local"]).default("docker"),
   ...dockerTerminalBackendConfig.shape,
+  ...localTerminalBackendConfig.shape,
 })
 
 export function createTerminalBackend(
@@ -16,5 +18,8 @@ export function createTerminalBackend(
     case "docker": {
       return DockerTerminalBackend.create(config, logger)
     }
+    case "local": {
+      return LocalTerminalBackend.create(config, logger)
+    }
   }
 }
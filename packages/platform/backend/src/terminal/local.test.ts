@@ -0,0 +1,207 @@
+import { mkdtemp, readFile, rm, stat } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { PassThrough } from "node:stream"
+import { describe } from "vitest"
+import { test } from "../test-utils"
+import {
+  getScriptArgs,
+  LocalTerminalBackend,
+  rewriteTerminalFilePaths,
+  writeTerminalFiles,
+} from "./local"
+
+const terminalTest = test.extend<{ terminalDir: string }>({
+  terminalDir: async ({}, use) => {
+    const directory = await mkdtemp(join(tmpdir(), "highstate-terminal-"))
+
+    await use(directory)
+    await rm(directory, { recursive: true, force: true })
+  },
+})
+
+describe("writeTerminalFiles", () => {
+  terminalTest(
+    "writes embedded files inside directory",
+    async ({ terminalDir, logger, expect }) => {
+      // act
+      await writeTerminalFiles(
+        terminalDir,
+        {
+          "/etc/config.yaml": {
+            meta: { name: "config.yaml" },
+            content: { type: "embedded", value: "key: value" },
+          },
+          "bin/run": {
+            meta: { name: "run", mode: 0o755 },
+            content: {
+              type: "embedded",
+              isBinary: true,
+              value: Buffer.from("run").toString("base64"),
+            },
+          },
+        },
+        logger,
+      )
+
+      // assert
+      expect(await readFile(join(terminalDir, "etc/config.yaml"), "utf8")).toBe("key: value")
+      expect(await readFile(join(terminalDir, "bin/run"), "utf8")).toBe("run")
+      expect((await stat(join(terminalDir, "bin/run"))).mode & 0o777).toBe(0o755)
+    },
+  )
+
+  terminalTest("rejects path outside directory", async ({ terminalDir, logger, expect }) => {
+    // act & assert
+    await expect(
+      writeTerminalFiles(
+        terminalDir,
+        {
+          "../escape": {
+            meta: { name: "escape" },
+            content: { type: "embedded", value: "" },
+          },
+        },
+        logger,
+      ),
+    ).rejects.toThrow(/outside/)
+  })
+})
+
+describe("rewriteTerminalFilePaths", () => {
+  test("rewrites only whole absolute file paths", ({ expect }) => {
+    const filePaths = ["/kubeconfig", "/etc/config.yaml", "welcome.sh"]
+
+    expect(rewriteTerminalFilePaths("/tmp/terminal", filePaths, "KUBECONFIG=/kubeconfig")).toBe(
+      "KUBECONFIG=/tmp/terminal/kubeconfig",
+    )
+    expect(rewriteTerminalFilePaths("/tmp/terminal", filePaths, "/etc/config.yaml")).toBe(
+      "/tmp/terminal/etc/config.yaml",
+    )
+    expect(rewriteTerminalFilePaths("/tmp/terminal", filePaths, "/kubeconfig.bak")).toBe(
+      "/kubeconfig.bak",
+    )
+    expect(rewriteTerminalFilePaths("/tmp/terminal", filePaths, "/home/kubeconfig")).toBe(
+      "/home/kubeconfig",
+    )
+    expect(rewriteTerminalFilePaths("/tmp/terminal", filePaths, "welcome.sh")).toBe("welcome.sh")
+  })
+})
+
+describe("getScriptArgs", () => {
+  test("quotes command for shell", ({ expect }) => {
+    const args = getScriptArgs("linux", "/bin/sh", ["echo", "it's"], { cols: 80, rows: 24 })
+
+    expect(args).toEqual([
+      "-q",
+      "-e",
+      "-c",
+      `stty cols 80 rows 24; exec 'echo' 'it'\\''s'`,
+      "/dev/null",
+    ])
+  })
+})
+
+describe("LocalTerminalBackend", () => {
+  test("runs command with files and env under pty", async ({ logger, expect }) => {
+    // arrange
+    const backend = new LocalTerminalBackend("script", "/bin/sh", logger)
+
+    const stdout = new PassThrough()
+    const chunks: string[] = []
+    stdout.on("data", chunk => chunks.push(String(chunk)))
+
+    // act
+    await backend.run({
+      spec: {
+        image: "ignored",
+        command: ["sh", "-c", `cat greeting.txt; echo " $NAME"; test -t 1 && echo tty`],
+        env: { NAME: "world" },
+        files: {
+          "greeting.txt": {
+            meta: { name: "greeting.txt" },
+            content: { type: "embedded", value: "hello" },
+          },
+        },
+      },
+      stdin: new PassThrough(),
+      stdout,
+      screenSize: { cols: 80, rows: 24 },
+    })
+
+    // assert
+    const output = chunks.join("")
+    expect(output).toContain("hello world")
+    expect(output).toContain("tty")
+  })
+  test("runs command referencing absolute file paths", async ({ logger, expect }) => {
+    // arrange
+    const backend = new LocalTerminalBackend("script", "/bin/sh", logger)
+
+    const stdout = new PassThrough()
+    const chunks: string[] = []
+    stdout.on("data", chunk => chunks.push(String(chunk)))
+
+    // act
+    await backend.run({
+      spec: {
+        image: "ignored",
+        command: ["sh", "/welcome.sh"],
+        cwd: "/etc",
+        env: { KUBECONFIG: "/kubeconfig" },
+        files: {
+          "/welcome.sh": {
+            meta: { name: "welcome.sh" },
+            content: { type: "embedded", value: `cat "$KUBECONFIG"; echo; cat marker` },
+          },
+          "/kubeconfig": {
+            meta: { name: "kubeconfig" },
+            content: { type: "embedded", value: "kubeconfig content" },
+          },
+          "/etc/marker": {
+            meta: { name: "marker" },
+            content: { type: "embedded", value: "marker content" },
+          },
+        },
+      },
+      stdin: new PassThrough(),
+      stdout,
+      screenSize: { cols: 80, rows: 24 },
+    })
+
+    // assert
+    const output = chunks.join("")
+    expect(output).toContain("kubeconfig content")
+    expect(output).toContain("marker content")
+  })
+
+  test("rejects when process fails to start", async ({ logger, expect }) => {
+    // arrange
+    const backend = new LocalTerminalBackend("/nonexistent/script", "/bin/sh", logger)
+
+    // act & assert
+    await expect(
+      backend.run({
+        spec: { image: "ignored", command: ["true"] },
+        stdin: new PassThrough(),
+        stdout: new PassThrough(),
+        screenSize: { cols: 80, rows: 24 },
+      }),
+    ).rejects.toThrow(/ENOENT/)
+  })
+
+  test("rejects working directory outside terminal directory", async ({ logger, expect }) => {
+    // arrange
+    const backend = new LocalTerminalBackend("script", "/bin/sh", logger)
+
+    // act & assert
+    await expect(
+      backend.run({
+        spec: { image: "ignored", command: ["true"], cwd: "../.." },
+        stdin: new PassThrough(),
+        stdout: new PassThrough(),
+        screenSize: { cols: 80, rows: 24 },
+      }),
+    ).rejects.toThrow(/outside/)
+  })
+})
@@ -0,0 +1,220 @@
+import type { File } from "@highstate/contract"
+import type { Logger } from "pino"
+import type { ScreenSize, TerminalBackend, TerminalRunOptions } from "./abstractions"
+import { chmod, mkdir, mkdtemp, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { dirname, isAbsolute, relative, resolve } from "node:path"
+import { execa } from "execa"
+import { z } from "zod"
+
+export const localTerminalBackendConfig = z.object({
+  HIGHSTATE_TERMINAL_BACKEND_LOCAL_SCRIPT_BINARY: z.string().default("script"),
+  HIGHSTATE_TERMINAL_BACKEND_LOCAL_SHELL: z.string().default("/bin/sh"),
+})
+
+/**
+ * The environment variables of the backend passed to the terminal.
+ *
+ * The rest of the environment is not inherited, since it may contain the secrets of the backend.
+ */
+const inheritedEnvKeys = ["PATH", "HOME", "USER", "LOGNAME", "LANG", "LC_ALL", "TMPDIR"]
+
+/**
+ * The terminal backend which runs the command on the backend host under the PTY
+ * allocated by the `script` utility, the same way the Docker backend does inside the container.
+ *
+ * The files are materialized into the temporary directory which is also the default
+ * working directory of the command and which is removed when the terminal exits.
+ * The absolute paths of the files referenced by the command, the environment and the working directory
+ * are rewritten to point into this directory. The image of the terminal spec is ignored.
+ */
+export class LocalTerminalBackend implements TerminalBackend {
+  constructor(
+    private readonly scriptBinary: string,
+    private readonly shell: string,
+    private readonly logger: Logger,
+  ) {}
+
+  async run({ spec, stdin, stdout, screenSize, signal }: TerminalRunOptions): Promise<void> {
+    const baseDir = resolve(tmpdir(), "highstate", "terminals")
+    await mkdir(baseDir, { recursive: true })
+
+    const workDir = await mkdtemp(resolve(baseDir, "terminal-"))
+
+    try {
+      const files = spec.files ?? {}
+      await writeTerminalFiles(workDir, files, this.logger)
+
+      const filePaths = Object.keys(files)
+      const command = spec.command.map(arg => rewriteTerminalFilePaths(workDir, filePaths, arg))
+
+      const env: Record<string, string> = {}
+      for (const key of inheritedEnvKeys) {
+        const value = process.env[key]
+        if (value !== undefined) {
+          env[key] = value
+        }
+      }
+
+      for (const [key, value] of Object.entries(spec.env ?? {})) {
+        env[key] = rewriteTerminalFilePaths(workDir, filePaths, value)
+      }
+
+      const childProcess = execa(
+        this.scriptBinary,
+        getScriptArgs(process.platform, this.shell, command, screenSize),
+        {
+          cwd: spec.cwd ? resolveTerminalPath(workDir, spec.cwd) : workDir,
+          env: {
+            ...env,
+            // the util-linux version runs the command using the shell from the environment
+            SHELL: this.shell,
+            TERM: "xterm-256color",
+          },
+          extendEnv: false,
+          cancelSignal: signal,
+        },
+      )
+
+      stdin.pipe(childProcess.stdin)
+
+      childProcess.stdout.pipe(stdout)
+      childProcess.stderr.pipe(stdout)
+
+      if (!childProcess.pid) {
+        // the subprocess rejects with the spawn error which would be unhandled otherwise
+        await childProcess
+
+        throw new Error(
+          `Failed to start terminal process without clear response from child process.`,
+        )
+      }
+
+      this.logger.info({ processId: childProcess.pid, workDir }, "process started")
+
+      await childProcess
+    } catch (error) {
+      // the terminal is closed by the manager
+      if (signal?.aborted) {
+        return
+      }
+
+      throw error
+    } finally {
+      await rm(workDir, { recursive: true, force: true })
+    }
+  }
+
+  static create(
+    config: z.infer<typeof localTerminalBackendConfig>,
+    logger: Logger,
+  ): LocalTerminalBackend {
+    return new LocalTerminalBackend(
+      config.HIGHSTATE_TERMINAL_BACKEND_LOCAL_SCRIPT_BINARY,
+      config.HIGHSTATE_TERMINAL_BACKEND_LOCAL_SHELL,
+      logger.child({ backend: "TerminalBackend", service: "LocalTerminalBackend" }),
+    )
+  }
+}
+
+/**
+ * Writes the embedded files of the terminal spec into the directory.
+ *
+ * Both relative and absolute paths are resolved inside the directory.
+ * The artifact files are skipped as they are by the Docker backend.
+ */
+export async function writeTerminalFiles(
+  directory: string,
+  files: Record<string, File>,
+  logger: Logger,
+): Promise<void> {
+  for (const [path, file] of Object.entries(files)) {
+    const filePath = resolveTerminalPath(directory, path)
+
+    if (file.content.type === "artifact") {
+      logger.debug({ path }, "skipping artifact file")
+      continue
+    }
+
+    const value =
+      typeof file.content.value === "string" ? file.content.value : file.content.value.value
+
+    await mkdir(dirname(filePath), { recursive: true })
+    await writeFile(filePath, file.content.isBinary ? Buffer.from(value, "base64") : value)
+
+    if (file.meta.mode) {
+      await chmod(filePath, file.meta.mode)
+    }
+  }
+}
+
+/**
+ * Resolves the path of the terminal spec inside the directory.
+ *
+ * Both relative and absolute paths are resolved inside the directory,
+ * the paths pointing outside of it are rejected.
+ */
+export function resolveTerminalPath(directory: string, path: string): string {
+  const resolvedPath = resolve(directory, `./${path}`)
+
+  if (relative(directory, resolvedPath).startsWith("..")) {
+    throw new Error(`Path "${path}" points outside of the terminal directory`)
+  }
+
+  return resolvedPath
+}
+
+/**
+ * Replaces the absolute paths of the terminal files in the value with their paths inside the directory.
+ *
+ * The path is only replaced when it is not a part of the longer path,
+ * so `/kubeconfig` in `KUBECONFIG=/kubeconfig` is replaced, but `/kubeconfig.bak` is not.
+ */
+export function rewriteTerminalFilePaths(
+  directory: string,
+  filePaths: string[],
+  value: string,
+): string {
+  const absolutePaths = filePaths.filter(path => isAbsolute(path))
+
+  if (absolutePaths.length === 0) {
+    return value
+  }
+
+  const pattern = new RegExp(
+    `(?<![\\w./-])(${absolutePaths.map(escapeRegExp).join("|")})(?![\\w./-])`,
+    "g",
+  )
+
+  return value.replace(pattern, path => resolveTerminalPath(directory, path))
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+/**
+ * Returns the arguments of the `script` utility running the command under the PTY
+ * with the given screen size.
+ *
+ * The BSD version shipped with macOS accepts the command as the arguments,
+ * while the util-linux version accepts it as the shell string.
+ */
+export function getScriptArgs(
+  platform: NodeJS.Platform,
+  shell: string,
+  command: string[],
+  screenSize: ScreenSize,
+): string[] {
+  const shellCommand = `stty cols ${screenSize.cols} rows ${screenSize.rows}; exec ${command.map(quoteShellArg).join(" ")}`
+
+  if (platform === "darwin" || platform === "freebsd") {
+    return ["-q", "/dev/null", shell, "-c", shellCommand]
+  }
+
+  return ["-q", "-e", "-c", shellCommand, "/dev/null"]
+}
+
+function quoteShellArg(arg: string): string {
+  return `'${arg.replaceAll("'", `'\\''`)}'`
+}
@@ -14,7 +14,7 @@ import {
   migrationPacks,
 } from "../database"
 import { PrismaClient as BackendPrismaClient } from "../database/_generated/backend/sqlite/client"
-import { getInitialBackendUnlockMethodMeta } from "../database/local/backend"
+import { getInitialBackendUnlockMethodMeta } from "../database/master-key"
 import {
   type BackendDatabase as BackendDatabaseClient,
   ProjectDatabase as ProjectDatabaseClient,
@@ -69,7 +69,13 @@ export class TestDatabaseManager implements DatabaseManager {
       adapter: new PrismaLibSql({ url: projectUrl }),
     })
 
-    await migrateDatabase(client, migrationPacks.project, 0, () => Promise.resolve(), logger)
+    await migrateDatabase(
+      client,
+      migrationPacks["project/sqlite"],
+      0,
+      () => Promise.resolve(),
+      logger,
+    )
 
     return client
   }
@@ -2,10 +2,12 @@ import type { Logger } from "pino"
 import type { WorkerBackend } from "./abstractions"
 import { z } from "zod"
 import { DockerWorkerBackend, dockerWorkerBackendConfig } from "./docker"
+import { ProcessWorkerBackend, processWorkerBackendConfig } from "./process"
 
 export const workerBackendConfig = z.object({
-  HIGHSTATE_WORKER_BACKEND_TYPE: z.enum(["docker"]).default("docker"),
+  HIGHSTATE_WORKER_BACKEND_TYPE: z.enum(["docker", "process"]).default("docker"),
   ...dockerWorkerBackendConfig.shape,
+  ...processWorkerBackendConfig.shape,
 })
 
 export function createWorkerBackend(
@@ -16,5 +18,8 @@ export function createWorkerBackend(
     case "docker": {
       return DockerWorkerBackend.create(config, logger)
     }
+    case "process": {
+      return ProcessWorkerBackend.create(config, logger)
+    }
   }
 }
@@ -0,0 +1,174 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { PassThrough } from "node:stream"
+import { createId } from "@paralleldrive/cuid2"
+import { describe } from "vitest"
+import { test } from "../test-utils"
+import { getImageIdentity, ProcessWorkerBackend, parseEntryPoints } from "./process"
+
+const workerTest = test.extend<{ workerDir: string }>({
+  workerDir: async ({}, use) => {
+    const directory = await mkdtemp(join(tmpdir(), "highstate-worker-"))
+
+    await use(directory)
+    await rm(directory, { recursive: true, force: true })
+  },
+})
+
+describe("getImageIdentity", () => {
+  test("strips tag and digest but keeps registry port", ({ expect }) => {
+    expect(getImageIdentity("ghcr.io/acme/worker:1.0.0@sha256:abc")).toBe("ghcr.io/acme/worker")
+    expect(getImageIdentity("localhost:5000/worker@sha256:abc")).toBe("localhost:5000/worker")
+  })
+})
+
+describe("parseEntryPoints", () => {
+  test("maps image identities to entry points", ({ expect }) => {
+    const entryPoints = parseEntryPoints(["ghcr.io/acme/worker:latest=@acme/worker"])
+
+    expect(entryPoints.get("ghcr.io/acme/worker")).toBe("@acme/worker")
+  })
+
+  test("throws for pair without separator", ({ expect }) => {
+    expect(() => parseEntryPoints(["@acme/worker"])).toThrow()
+  })
+})
+
+describe("ProcessWorkerBackend", () => {
+  workerTest(
+    "passes run options to process and captures its output",
+    async ({ workerDir, logger, expect }) => {
+      // arrange
+      const scriptPath = join(workerDir, "worker.mjs")
+      await writeFile(
+        scriptPath,
+        [
+          `import { createInterface } from "node:readline/promises"`,
+          `const rl = createInterface({ input: process.stdin })`,
+          `for await (const line of rl) {`,
+          `  const options = JSON.parse(line)`,
+          `  console.log("api url: " + options.apiUrl)`,
+          `  console.error("api key: " + options.apiKey)`,
+          `  break`,
+          `}`,
+          `rl.close()`,
+        ].join("\n"),
+      )
+
+      const backend = new ProcessWorkerBackend(
+        process.execPath,
+        new Map([["ghcr.io/acme/worker", scriptPath]]),
+        workerDir,
+        logger,
+      )
+
+      const stdout = new PassThrough()
+      const chunks: string[] = []
+      stdout.on("data", chunk => chunks.push(String(chunk)))
+
+      // act
+      await backend.run({
+        projectId: createId(),
+        workerVersionId: createId(),
+        image: "ghcr.io/acme/worker@sha256:abc",
+        apiKey: "token",
+        apiPath: "/var/run/highstate.sock",
+        stdout,
+      })
+
+      // assert
+      const output = chunks.join("")
+      expect(output).toContain("api url: unix:///var/run/highstate.sock")
+      expect(output).toContain("api key: token")
+    },
+  )
+
+  workerTest(
+    "does not pass backend environment to process",
+    async ({ workerDir, logger, expect }) => {
+      // arrange
+      const scriptPath = join(workerDir, "worker.mjs")
+      await writeFile(
+        scriptPath,
+        [
+          `console.log("secret: " + (process.env.HIGHSTATE_TEST_WORKER_SECRET ?? "<unset>"))`,
+          `console.log("path: " + (process.env.PATH ? "<set>" : "<unset>"))`,
+          `process.stdin.resume()`,
+          `process.stdin.on("data", () => process.exit(0))`,
+        ].join("\n"),
+      )
+
+      const backend = new ProcessWorkerBackend(
+        process.execPath,
+        new Map([["ghcr.io/acme/worker", scriptPath]]),
+        workerDir,
+        logger,
+      )
+
+      const stdout = new PassThrough()
+      const chunks: string[] = []
+      stdout.on("data", chunk => chunks.push(String(chunk)))
+
+      process.env.HIGHSTATE_TEST_WORKER_SECRET = "backend-secret"
+
+      try {
+        // act
+        await backend.run({
+          projectId: createId(),
+          workerVersionId: createId(),
+          image: "ghcr.io/acme/worker:latest",
+          apiKey: "token",
+          apiPath: "/var/run/highstate.sock",
+          stdout,
+        })
+      } finally {
+        delete process.env.HIGHSTATE_TEST_WORKER_SECRET
+      }
+
+      // assert
+      const output = chunks.join("")
+      expect(output).toContain("secret: <unset>")
+      expect(output).toContain("path: <set>")
+    },
+  )
+
+  workerTest("rejects when process fails to start", async ({ workerDir, logger, expect }) => {
+    // arrange
+    const backend = new ProcessWorkerBackend(
+      join(workerDir, "missing-binary"),
+      new Map([["ghcr.io/acme/worker", join(workerDir, "worker.mjs")]]),
+      workerDir,
+      logger,
+    )
+
+    // act & assert
+    await expect(
+      backend.run({
+        projectId: createId(),
+        workerVersionId: createId(),
+        image: "ghcr.io/acme/worker:latest",
+        apiKey: "token",
+        apiPath: "/var/run/highstate.sock",
+        stdout: new PassThrough(),
+      }),
+    ).rejects.toThrow(/ENOENT/)
+  })
+
+  workerTest("rejects image without entry point", async ({ workerDir, logger, expect }) => {
+    // arrange
+    const backend = new ProcessWorkerBackend(process.execPath, new Map(), workerDir, logger)
+
+    // act & assert
+    await expect(
+      backend.run({
+        projectId: createId(),
+        workerVersionId: createId(),
+        image: "ghcr.io/acme/unknown@sha256:abc",
+        apiKey: "token",
+        apiPath: "/var/run/highstate.sock",
+        stdout: new PassThrough(),
+      }),
+    ).rejects.toThrow(/No entry point/)
+  })
+})
@@ -0,0 +1,152 @@
+import type { WorkerRunOptions } from "@highstate/contract"
+import type { Logger } from "pino"
+import type { WorkerBackend, WorkerRunOptions as WorkerRunBackendOptions } from "./abstractions"
+import { isAbsolute, resolve } from "node:path"
+import { Readable } from "node:stream"
+import { fileURLToPath, pathToFileURL } from "node:url"
+import { execa } from "execa"
+import { resolve as importMetaResolve } from "import-meta-resolve"
+import { z } from "zod"
+import { stringArrayType } from "../common"
+
+export const processWorkerBackendConfig = z.object({
+  HIGHSTATE_WORKER_BACKEND_PROCESS_BINARY: z.string().default(process.execPath),
+  HIGHSTATE_WORKER_BACKEND_PROCESS_ENTRY_POINTS: stringArrayType.default(() => [
+    "ghcr.io/highstate-io/highstate/worker.k8s-monitor=@highstate/k8s.monitor-worker",
+  ]),
+  HIGHSTATE_WORKER_BACKEND_PROCESS_RESOLVE_PATH: z.string().optional(),
+})
+
+/**
+ * The environment variables of the backend passed to the worker processes.
+ *
+ * The rest of the environment is not inherited, since it may contain the secrets of the backend.
+ */
+const inheritedEnvKeys = ["PATH", "HOME", "USER", "LOGNAME", "LANG", "LC_ALL", "TMPDIR"]
+
+/**
+ * The worker backend which runs the workers from the installed npm packages as child processes.
+ *
+ * Since the units only reference the workers by their images, every image must be mapped
+ * to the entry point which is either the module specifier resolved from the resolve path
+ * or the absolute path to the script.
+ */
+export class ProcessWorkerBackend implements WorkerBackend {
+  constructor(
+    private readonly binary: string,
+    private readonly entryPoints: Map<string, string>,
+    private readonly resolvePath: string,
+    private readonly logger: Logger,
+  ) {}
+
+  async run({
+    projectId,
+    workerVersionId,
+    image,
+    apiKey,
+    apiPath,
+    stdout,
+    signal,
+  }: WorkerRunBackendOptions): Promise<void> {
+    const scriptPath = this.resolveScriptPath(image)
+
+    const runOptions: WorkerRunOptions = {
+      projectId,
+      workerVersionId,
+      apiKey,
+      apiUrl: `unix://${resolve(apiPath)}`,
+    }
+
+    const initDataStream = Readable.from(`${JSON.stringify(runOptions)}\n`)
+
+    const env: Record<string, string> = {}
+    for (const key of inheritedEnvKeys) {
+      const value = process.env[key]
+      if (value !== undefined) {
+        env[key] = value
+      }
+    }
+
+    const childProcess = execa(this.binary, [scriptPath], {
+      env,
+      extendEnv: false,
+      cancelSignal: signal,
+    })
+
+    initDataStream.pipe(childProcess.stdin)
+
+    childProcess.stdout.pipe(stdout)
+    childProcess.stderr.pipe(stdout)
+
+    if (!childProcess.pid) {
+      // the subprocess rejects with the spawn error which would be unhandled otherwise
+      await childProcess
+
+      throw new Error(`Failed to start worker process without clear response from child process.`)
+    }
+
+    this.logger.info({ processId: childProcess.pid, scriptPath }, "process started")
+
+    await childProcess
+  }
+
+  private resolveScriptPath(image: string): string {
+    const identity = getImageIdentity(image)
+    const entryPoint = this.entryPoints.get(identity)
+
+    if (!entryPoint) {
+      throw new Error(`No entry point is configured for worker image "${identity}"`)
+    }
+
+    if (isAbsolute(entryPoint)) {
+      return entryPoint
+    }
+
+    const parentUrl = pathToFileURL(resolve(this.resolvePath, "package.json")).href
+
+    return fileURLToPath(importMetaResolve(entryPoint, parentUrl))
+  }
+
+  static create(config: z.infer<typeof processWorkerBackendConfig>, logger: Logger): WorkerBackend {
+    return new ProcessWorkerBackend(
+      config.HIGHSTATE_WORKER_BACKEND_PROCESS_BINARY,
+      parseEntryPoints(config.HIGHSTATE_WORKER_BACKEND_PROCESS_ENTRY_POINTS),
+      config.HIGHSTATE_WORKER_BACKEND_PROCESS_RESOLVE_PATH ?? process.cwd(),
+      logger.child({ backend: "WorkerBackend", service: "ProcessWorkerBackend" }),
+    )
+  }
+}
+
+/**
+ * Returns the image without the tag and the digest.
+ *
+ * The port of the registry is preserved, e.g. `localhost:5000/worker:1.0.0` becomes `localhost:5000/worker`.
+ */
+export function getImageIdentity(image: string): string {
+  const [withoutDigest] = image.split("@")
+  const lastSlashIndex = withoutDigest.lastIndexOf("/")
+  const tagIndex = withoutDigest.indexOf(":", lastSlashIndex + 1)
+
+  return tagIndex === -1 ? withoutDigest : withoutDigest.slice(0, tagIndex)
+}
+
+/**
+ * Parses the `image=entryPoint` pairs of the config into the map.
+ */
+export function parseEntryPoints(pairs: string[]): Map<string, string> {
+  const entryPoints = new Map<string, string>()
+
+  for (const pair of pairs) {
+    const separatorIndex = pair.indexOf("=")
+    if (separatorIndex === -1) {
+      throw new Error(`Invalid worker entry point "${pair}", expected "image=entryPoint"`)
+    }
+
+    entryPoints.set(
+      getImageIdentity(pair.slice(0, separatorIndex).trim()),
+      pair.slice(separatorIndex + 1).trim(),
+    )
+  }
+
+  return entryPoints
+}
@@ -5,8 +5,14 @@ export * from "./backend/unlock-method/list"
 export * from "./build"
 export * from "./designer"
 export * from "./init"
+export * from "./operation/launch"
+export * from "./operation/plan"
 export * from "./package/create"
 export * from "./package/list"
 export * from "./package/remove"
 export * from "./package/update-references"
 export * from "./update"
+export * from "./user/add"
+export * from "./user/delete"
+export * from "./user/list"
+export * from "./user/set-password"
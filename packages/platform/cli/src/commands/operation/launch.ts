@@ -0,0 +1,98 @@
+import type { OperationType } from "@highstate/backend/shared"
+import { userInfo } from "node:os"
+import { Command } from "clipanion"
+import { capitalize } from "remeda"
+import { disposeServices, getBackendServices, logger } from "../../shared"
+import { OperationCommandBase, printOperationPlan, watchOperation } from "./shared"
+
+abstract class OperationLaunchCommandBase extends OperationCommandBase {
+  protected abstract readonly operationType: OperationType
+
+  async execute(): Promise<void> {
+    const services = await getBackendServices()
+    let success = false
+
+    try {
+      const project = await this.resolveProject(services)
+      const instanceIds = this.getInstanceIds()
+      const options = this.getOperationOptions()
+
+      const phases = await services.operationManager.plan({
+        projectId: project.id,
+        type: this.operationType,
+        instanceIds,
+        options,
+      })
+
+      printOperationPlan(this.operationType, phases)
+
+      const operation = await services.operationManager.launch({
+        projectId: project.id,
+        type: this.operationType,
+        instanceIds,
+        options,
+        meta: {
+          title: `${capitalize(this.operationType)} ${instanceIds.join(", ")}`,
+          description: "Launched from CLI",
+          // the same identity the designer uses for the local user when the authentication is disabled
+          initiator: { type: "user", userId: userInfo().username },
+        },
+      })
+
+      logger.info(`launched operation "%s"`, operation.id)
+
+      success = await watchOperation(services, project.id, operation.id)
+    } finally {
+      await disposeServices()
+    }
+
+    process.exit(success ? 0 : 1)
+  }
+}
+
+export class OperationUpdateCommand extends OperationLaunchCommandBase {
+  static paths = [["operation", "update"]]
+
+  static usage = Command.Usage({
+    category: "Operation",
+    description: "Updates the instances and streams the operation logs.",
+    examples: [
+      ["Update", "highstate operation update --project main --instance k8s.cluster.v1:main"],
+    ],
+  })
+
+  protected readonly operationType = "update"
+}
+
+export class OperationPreviewCommand extends OperationLaunchCommandBase {
+  static paths = [["operation", "preview"]]
+
+  static usage = Command.Usage({
+    category: "Operation",
+    description: "Previews the changes of the instances and streams the operation logs.",
+  })
+
+  protected readonly operationType = "preview"
+}
+
+export class OperationDestroyCommand extends OperationLaunchCommandBase {
+  static paths = [["operation", "destroy"]]
+
+  static usage = Command.Usage({
+    category: "Operation",
+    description: "Destroys the instances and streams the operation logs.",
+  })
+
+  protected readonly operationType = "destroy"
+}
+
+export class OperationRefreshCommand extends OperationLaunchCommandBase {
+  static paths = [["operation", "refresh"]]
+
+  static usage = Command.Usage({
+    category: "Operation",
+    description: "Refreshes the state of the instances and streams the operation logs.",
+  })
+
+  protected readonly operationType = "refresh"
+}
@@ -0,0 +1,57 @@
+import { type OperationType, operationTypeSchema } from "@highstate/backend/shared"
+import { Command, Option, UsageError } from "clipanion"
+import { z } from "zod"
+import { disposeServices, getBackendServices } from "../../shared"
+import { OperationCommandBase, printOperationPlan } from "./shared"
+
+export class OperationPlanCommand extends OperationCommandBase {
+  static paths = [["operation", "plan"]]
+
+  static usage = Command.Usage({
+    category: "Operation",
+    description: "Prints the plan of the operation without launching it.",
+    examples: [
+      ["Plan update", "highstate operation plan --project main --instance k8s.cluster.v1:main"],
+      [
+        "Plan destroy",
+        "highstate operation plan --type destroy --project main --instance k8s.cluster.v1:main",
+      ],
+    ],
+  })
+
+  type = Option.String("--type", "update", {
+    description: "The type of the operation to plan.",
+  })
+
+  async execute(): Promise<void> {
+    const type = this.getOperationType()
+    const services = await getBackendServices()
+
+    try {
+      const project = await this.resolveProject(services)
+
+      const phases = await services.operationManager.plan({
+        projectId: project.id,
+        type,
+        instanceIds: this.getInstanceIds(),
+        options: this.getOperationOptions(),
+      })
+
+      printOperationPlan(type, phases)
+    } finally {
+      await disposeServices()
+    }
+
+    process.exit(0)
+  }
+
+  private getOperationType(): OperationType {
+    const result = operationTypeSchema.safeParse(this.type)
+
+    if (!result.success) {
+      throw new UsageError(`Invalid operation type:\n${z.prettifyError(result.error)}`)
+    }
+
+    return result.data
+  }
+}
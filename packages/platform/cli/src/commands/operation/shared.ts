@@ -0,0 +1,352 @@
+import type { Services } from "@highstate/backend"
+import { readFile } from "node:fs/promises"
+import { setTimeout } from "node:timers/promises"
+import {
+  isFinalOperationStatus,
+  type OperationOptions,
+  type OperationPhase,
+  type OperationType,
+  operationOptionsSchema,
+  type ProjectOutput,
+} from "@highstate/backend/shared"
+import { type InstanceId, instanceIdSchema } from "@highstate/contract"
+import { Command, Option, UsageError } from "clipanion"
+import { consola } from "consola"
+import { colorize } from "consola/utils"
+import { z } from "zod"
+import { logger } from "../../shared"
+
+const logPollIntervalMs = 1000
+
+/**
+ * The base for the commands operating on the project instances without the designer.
+ *
+ * Provides the project and instance selection, the project unlocking and the operation option flags
+ * mirroring `operationOptionsSchema`. The flags which are not passed fall back to the schema defaults.
+ */
+export abstract class OperationCommandBase extends Command {
+  project = Option.String("--project", {
+    required: true,
+    description: "The name or ID of the project.",
+  })
+
+  instanceIds = Option.Array("--instance", {
+    required: true,
+    description: "The ID of the instance to operate on, for example `k8s.cluster.v1:main`.",
+  })
+
+  identityFile = Option.String("--identity-file", {
+    description:
+      "The file with the AGE identity of the project unlock method. Defaults to HIGHSTATE_PROJECT_IDENTITY.",
+  })
+
+  forceUpdateDependencies = Option.Boolean("--force-update-dependencies", {
+    description: "Force update all dependencies regardless of their current state.",
+  })
+
+  ignoreChangedDependencies = Option.Boolean("--ignore-changed-dependencies", {
+    description: "Skip only changed dependencies, failed or undeployed ones are still included.",
+  })
+
+  ignoreDependencies = Option.Boolean("--ignore-dependencies", {
+    description: "Skip all dependencies and operate only on the requested instances.",
+  })
+
+  forceUpdateChildren = Option.Boolean("--force-update-children", {
+    description: "Force update all children of composite instances.",
+  })
+
+  onlyDestroyGhosts = Option.Boolean("--only-destroy-ghosts", {
+    description: "Skip the update phase and only destroy the ghosts of composite instances.",
+  })
+
+  firstDestroyGhosts = Option.Boolean("--first-destroy-ghosts", {
+    description: "Destroy the ghosts of composite instances before the update phase.",
+  })
+
+  ignoreGhosts = Option.Boolean("--ignore-ghosts", {
+    description: "Skip the ghost cleanup destroy phase.",
+  })
+
+  destroyDependentInstances = Option.Boolean("--destroy-dependent-instances", {
+    description: "Include the dependent instances when destroying instances.",
+  })
+
+  invokeDestroyTriggers = Option.Boolean("--invoke-destroy-triggers", {
+    description: "Execute the destroy triggers when destroying instances.",
+  })
+
+  invokeUpdateTriggers = Option.Boolean("--invoke-update-triggers", {
+    description: "Execute the lifecycle triggers when updating instances.",
+  })
+
+  invokedTriggers = Option.Array("--trigger", {
+    description: "The name of the trigger to invoke on the requested instances.",
+  })
+
+  deleteUnreachableResources = Option.Boolean("--delete-unreachable-resources", {
+    description: "Delete the Pulumi resources that are no longer reachable.",
+  })
+
+  forceDeleteState = Option.Boolean("--force-delete-state", {
+    description: "Delete the instance state even if the destroy operation fails.",
+  })
+
+  allowPartialCompositeInstanceUpdate = Option.Boolean(
+    "--allow-partial-composite-instance-update",
+    { description: "Allow the update of composite children without all their siblings." },
+  )
+
+  allowPartialCompositeInstanceDestruction = Option.Boolean(
+    "--allow-partial-composite-instance-destruction",
+    { description: "Allow the partial destruction of composite instances." },
+  )
+
+  refresh = Option.Boolean("--refresh", {
+    description: "Also refresh the state of instances during the operation.",
+  })
+
+  detectDrift = Option.Boolean("--detect-drift", {
+    description:
+      "Only detect the resources changed outside of Highstate when refreshing instances.",
+  })
+
+  debug = Option.Boolean("--debug", {
+    description: "Enable debug logging for Pulumi engine and resource providers.",
+  })
+
+  protected getOperationOptions(): Partial<OperationOptions> {
+    const options: Partial<OperationOptions> = {
+      forceUpdateDependencies: this.forceUpdateDependencies,
+      ignoreChangedDependencies: this.ignoreChangedDependencies,
+      ignoreDependencies: this.ignoreDependencies,
+      forceUpdateChildren: this.forceUpdateChildren,
+      onlyDestroyGhosts: this.onlyDestroyGhosts,
+      firstDestroyGhosts: this.firstDestroyGhosts,
+      ignoreGhosts: this.ignoreGhosts,
+      destroyDependentInstances: this.destroyDependentInstances,
+      invokeDestroyTriggers: this.invokeDestroyTriggers,
+      invokeUpdateTriggers: this.invokeUpdateTriggers,
+      invokedTriggers: this.invokedTriggers,
+      deleteUnreachableResources: this.deleteUnreachableResources,
+      forceDeleteState: this.forceDeleteState,
+      allowPartialCompositeInstanceUpdate: this.allowPartialCompositeInstanceUpdate,
+      allowPartialCompositeInstanceDestruction: this.allowPartialCompositeInstanceDestruction,
+      refresh: this.refresh,
+      detectDrift: this.detectDrift,
+      debug: this.debug,
+    }
+
+    // let the schema apply the defaults for the flags which are not passed
+    const result = operationOptionsSchema
+      .partial()
+      .safeParse(
+        Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined)),
+      )
+
+    if (!result.success) {
+      throw new UsageError(`Invalid operation options:\n${z.prettifyError(result.error)}`)
+    }
+
+    return result.data
+  }
+
+  protected getInstanceIds(): InstanceId[] {
+    const result = instanceIdSchema.array().safeParse(this.instanceIds)
+
+    if (!result.success) {
+      throw new UsageError(
+        `Invalid instance IDs, expected the "<type>:<name>" format, for example "k8s.cluster.v1:main":\n${z.prettifyError(result.error)}`,
+      )
+    }
+
+    return result.data
+  }
+
+  /**
+   * Finds the requested project and unlocks it if necessary.
+   */
+  protected async resolveProject(services: Services): Promise<ProjectOutput> {
+    const projects = await services.projectService.getProjects()
+    const project = projects.find(
+      project => project.name === this.project || project.id === this.project,
+    )
+
+    if (!project) {
+      throw new UsageError(`Project "${this.project}" not found.`)
+    }
+
+    const unlockState = await services.projectUnlockService.getProjectUnlockState(project.id)
+    if (unlockState.type === "unlocked") {
+      return project
+    }
+
+    let identity = process.env.HIGHSTATE_PROJECT_IDENTITY ?? ""
+    if (this.identityFile) {
+      identity = (await readFile(this.identityFile, "utf-8")).trim()
+    }
+
+    if (!identity && services.database.isEncryptionEnabled) {
+      throw new UsageError(
+        `Project "${project.name}" is locked. Pass the identity of its unlock method with "--identity-file" or HIGHSTATE_PROJECT_IDENTITY.`,
+      )
+    }
+
+    await services.projectUnlockService.unlockProject(project.id, identity)
+    logger.info(`unlocked project "%s"`, project.name)
+
+    return project
+  }
+}
+
+/**
+ * Prints the planned phases of the operation.
+ */
+export function printOperationPlan(type: OperationType, phases: OperationPhase[]): void {
+  const instanceCount = phases.reduce((count, phase) => count + phase.instances.length, 0)
+
+  if (instanceCount === 0) {
+    consola.info(`nothing to ${type}`)
+    return
+  }
+
+  for (const phase of phases) {
+    consola.log(colorize("bold", `${phase.type} (${phase.instances.length})`))
+
+    for (const instance of phase.instances) {
+      consola.log(`  ${colorize("cyan", instance.id)} ${colorize("dim", instance.message)}`)
+    }
+  }
+}
+
+/**
+ * Streams the logs of the operation to the terminal until the operation is finished.
+ *
+ * Keeps waiting while the operation is awaiting approval.
+ * The interrupt cancels the operation in both cases.
+ *
+ * @returns `true` if the operation is completed successfully.
+ */
+export async function watchOperation(
+  services: Services,
+  projectId: string,
+  operationId: string,
+): Promise<boolean> {
+  const instanceIds = new Map<string, string>()
+  let lastLogId: string | undefined
+
+  const getInstanceId = async (stateId: string) => {
+    if (!instanceIds.has(stateId)) {
+      const states = await services.instanceStateService.getInstanceStates(projectId)
+
+      for (const state of states) {
+        instanceIds.set(state.id, state.instanceId)
+      }
+    }
+
+    return instanceIds.get(stateId) ?? stateId
+  }
+
+  const printLogs = async () => {
+    const logs = await services.operationService.getOperationLogs(
+      projectId,
+      operationId,
+      undefined,
+      lastLogId,
+    )
+
+    for (const log of logs) {
+      const prefix = log.stateId ? colorize("dim", `[${await getInstanceId(log.stateId)}] `) : ""
+      const content = log.content.endsWith("\n") ? log.content.slice(0, -1) : log.content
+
+      for (const line of content.split("\n")) {
+        process.stdout.write(`${prefix}${line}\n`)
+      }
+
+      lastLogId = log.id
+    }
+  }
+
+  let cancelRequested = false
+  let awaitingApproval = false
+
+  const cancelAwaitingOperation = async () => {
+    try {
+      const cancelled = await services.operationApprovalService.cancelOperation(
+        projectId,
+        operationId,
+        "Operation was cancelled from the CLI",
+      )
+
+      if (!cancelled) {
+        // the operation was approved in the meantime
+        services.operationManager.cancel(operationId)
+      }
+    } catch (error) {
+      logger.error({ error }, "failed to cancel operation awaiting approval")
+    }
+  }
+
+  const onInterrupt = () => {
+    if (cancelRequested) {
+      return
+    }
+
+    cancelRequested = true
+    process.stdout.write("\r")
+
+    if (awaitingApproval) {
+      // the operation is not running in any backend yet, so it is cancelled in the database
+      logger.warn("cancelling operation awaiting approval...")
+      void cancelAwaitingOperation()
+      return
+    }
+
+    logger.warn("cancelling operation, waiting for the running units to stop...")
+
+    services.operationManager.cancel(operationId)
+  }
+
+  process.on("SIGINT", onInterrupt)
+
+  try {
+    while (true) {
+      const operation = await services.operationService.getOperation(projectId, operationId)
+
+      // print the logs written before the final status is observed
+      await printLogs()
+
+      if (!operation) {
+        throw new Error(`Operation "${operationId}" not found`)
+      }
+
+      if (operation.status === "awaiting_approval" && !awaitingApproval) {
+        logger.info(
+          `operation "%s" is awaiting %d approval(s), approve it in the designer or press Ctrl+C to cancel it`,
+          operation.id,
+          operation.approvalRequest?.requiredApprovals ?? 0,
+        )
+      }
+
+      awaitingApproval = operation.status === "awaiting_approval"
+
+      if (isFinalOperationStatus(operation.status)) {
+        if (operation.status === "completed") {
+          logger.info(`operation "%s" completed`, operation.meta.title)
+          return true
+        }
+
+        logger.error(
+          `operation "%s" finished with status "%s"`,
+          operation.meta.title,
+          operation.status,
+        )
+        return false
+      }
+
+      await setTimeout(logPollIntervalMs)
+    }
+  } finally {
+    process.off("SIGINT", onInterrupt)
+  }
+}
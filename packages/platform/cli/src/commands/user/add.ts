@@ -0,0 +1,35 @@
+import { Command, Option } from "clipanion"
+import { disposeServices, getBackendServices, logger } from "../../shared"
+import { promptNewPassword } from "./shared"
+
+export class UserAddCommand extends Command {
+  static paths = [["user", "add"]]
+
+  static usage = Command.Usage({
+    category: "User",
+    description: "Adds a new local user which can log in to the designer with the password.",
+    examples: [["Add user", "highstate user add alice --display-name Alice"]],
+  })
+
+  username = Option.String()
+  displayName = Option.String("--display-name")
+
+  async execute(): Promise<void> {
+    const password = await promptNewPassword()
+    const services = await getBackendServices()
+
+    try {
+      const user = await services.authService.createLocalUser(
+        this.username,
+        password,
+        this.displayName,
+      )
+
+      logger.info(`added local user "%s" with ID "%s"`, this.username, user.id)
+    } finally {
+      await disposeServices()
+    }
+
+    process.exit(0)
+  }
+}
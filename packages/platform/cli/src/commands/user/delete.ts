@@ -0,0 +1,40 @@
+import { confirm } from "@inquirer/prompts"
+import { Command, Option } from "clipanion"
+import { disposeServices, getBackendServices, logger } from "../../shared"
+
+export class UserDeleteCommand extends Command {
+  static paths = [["user", "delete"]]
+
+  static usage = Command.Usage({
+    category: "User",
+    description: "Deletes the local user along with their sessions.",
+  })
+
+  username = Option.String()
+  force = Option.Boolean("--force", false)
+
+  async execute(): Promise<void> {
+    if (!this.force) {
+      const answer = await confirm({
+        message: `Delete local user ${this.username}?`,
+        default: false,
+      })
+
+      if (!answer) {
+        logger.info("cancelled local user deletion")
+        return
+      }
+    }
+
+    const services = await getBackendServices()
+
+    try {
+      await services.authService.deleteLocalUser(this.username)
+      logger.info(`deleted local user "%s"`, this.username)
+    } finally {
+      await disposeServices()
+    }
+
+    process.exit(0)
+  }
+}
@@ -0,0 +1,52 @@
+import { Command } from "clipanion"
+import { Table } from "console-table-printer"
+import { disposeServices, getBackendServices, logger } from "../../shared"
+
+export class UserListCommand extends Command {
+  static paths = [["user", "list"]]
+
+  static usage = Command.Usage({
+    category: "User",
+    description: "Lists local users which can log in to the designer with the password.",
+  })
+
+  async execute(): Promise<void> {
+    const services = await getBackendServices()
+
+    try {
+      const users = await services.authService.listLocalUsers()
+
+      if (users.length === 0) {
+        logger.warn("no local users configured")
+        return
+      }
+
+      const table = new Table({
+        columns: [
+          { name: "username", title: "Username" },
+          { name: "displayName", title: "Display Name" },
+          { name: "id", title: "ID" },
+          { name: "createdAt", title: "Created At" },
+        ],
+        defaultColumnOptions: {
+          alignment: "left",
+        },
+      })
+
+      table.addRows(
+        users.map(user => ({
+          username: user.username ?? "",
+          displayName: user.displayName ?? "",
+          id: user.id,
+          createdAt: user.createdAt.toISOString(),
+        })),
+      )
+
+      table.printTable()
+    } finally {
+      await disposeServices()
+    }
+
+    process.exit(0)
+  }
+}
@@ -0,0 +1,28 @@
+import { Command, Option } from "clipanion"
+import { disposeServices, getBackendServices, logger } from "../../shared"
+import { promptNewPassword } from "./shared"
+
+export class UserSetPasswordCommand extends Command {
+  static paths = [["user", "set-password"]]
+
+  static usage = Command.Usage({
+    category: "User",
+    description: "Changes the password of the local user and logs them out of all sessions.",
+  })
+
+  username = Option.String()
+
+  async execute(): Promise<void> {
+    const password = await promptNewPassword()
+    const services = await getBackendServices()
+
+    try {
+      await services.authService.setLocalUserPassword(this.username, password)
+      logger.info(`changed password of local user "%s"`, this.username)
+    } finally {
+      await disposeServices()
+    }
+
+    process.exit(0)
+  }
+}
@@ -0,0 +1,17 @@
+import { password } from "@inquirer/prompts"
+
+export async function promptNewPassword(): Promise<string> {
+  const value = await password({
+    message: "Password",
+    mask: true,
+    validate: value => (value.length > 0 ? true : "Password is required"),
+  })
+
+  await password({
+    message: "Repeat Password",
+    mask: true,
+    validate: repeated => (repeated === value ? true : "Passwords do not match"),
+  })
+
+  return value
+}
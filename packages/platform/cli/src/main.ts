@@ -7,11 +7,20 @@ import {
   BuildCommand,
   DesignerCommand,
   InitCommand,
+  OperationDestroyCommand,
+  OperationPlanCommand,
+  OperationPreviewCommand,
+  OperationRefreshCommand,
+  OperationUpdateCommand,
   PackageCreateCommand,
   PackageListCommand,
   PackageRemoveCommand,
   PackageUpdateReferencesCommand,
   UpdateCommand,
+  UserAddCommand,
+  UserDeleteCommand,
+  UserListCommand,
+  UserSetPasswordCommand,
 } from "./commands"
 
 // const { version } = await import("@highstate/cli/package.json")
@@ -26,6 +35,11 @@ cli.register(BuildCommand)
 cli.register(DesignerCommand)
 cli.register(InitCommand)
 cli.register(UpdateCommand)
+cli.register(OperationPlanCommand)
+cli.register(OperationUpdateCommand)
+cli.register(OperationPreviewCommand)
+cli.register(OperationDestroyCommand)
+cli.register(OperationRefreshCommand)
 cli.register(BackendIdentityCommand)
 cli.register(BackendUnlockMethodListCommand)
 cli.register(BackendUnlockMethodAddCommand)
@@ -34,6 +48,10 @@ cli.register(PackageUpdateReferencesCommand)
 cli.register(PackageListCommand)
 cli.register(PackageCreateCommand)
 cli.register(PackageRemoveCommand)
+cli.register(UserListCommand)
+cli.register(UserAddCommand)
+cli.register(UserSetPasswordCommand)
+cli.register(UserDeleteCommand)
 cli.register(Builtins.HelpCommand)
 cli.register(Builtins.VersionCommand)
 
@@ -514,6 +514,12 @@ export enum WellKnownInstanceCustomStatus {
    * The instance is in an error state.
    */
   Error = "error",
+
+  /**
+   * The resources of the instance were changed outside of Highstate
+   * and no longer match the state recorded by the last update.
+   */
+  Drifted = "drifted",
 }
 
 export const instanceStatusFieldValueSchema = z.union([
@@ -0,0 +1,18 @@
+import { describe, expect, it } from "vitest"
+import { triggerSpecSchema } from "./trigger"
+
+describe("triggerSpecSchema", () => {
+  it("should accept valid cron expressions", () => {
+    expect(triggerSpecSchema.safeParse({ type: "schedule", cron: "0 3 * * *" }).success).toBe(true)
+    expect(triggerSpecSchema.safeParse({ type: "schedule", cron: "*/30 * * * * *" }).success).toBe(
+      true,
+    )
+  })
+
+  it("should reject invalid cron expressions", () => {
+    expect(triggerSpecSchema.safeParse({ type: "schedule", cron: "every day" }).success).toBe(false)
+    expect(triggerSpecSchema.safeParse({ type: "schedule", cron: "0 25 * * *" }).success).toBe(
+      false,
+    )
+  })
+})
@@ -1,10 +1,56 @@
+import { Cron } from "croner"
 import { z } from "zod"
 import { objectMetaSchema } from "./meta"
 
+function isValidCron(expression: string): boolean {
+  try {
+    new Cron(expression)
+    return true
+  } catch {
+    return false
+  }
+}
+
 export const triggerSpecSchema = z.union([
   z.object({
     type: z.literal("before-destroy"),
   }),
+  z.object({
+    /**
+     * Invoked before the deployed unit is updated.
+     *
+     * Only the triggers of the previous deployment are invoked, so the first deployment does not invoke them.
+     */
+    type: z.literal("before-update"),
+  }),
+  z.object({
+    /**
+     * Invoked after the unit is successfully updated.
+     */
+    type: z.literal("after-update"),
+  }),
+  z.object({
+    /**
+     * Invoked after the update of the unit or its `after-update` triggers fail.
+     *
+     * The triggers are processed by updating the unit with the last successfully deployed configuration,
+     * so the resources changed by the failed update are rolled back to it.
+     * The triggers are not invoked if the unit was never deployed.
+     * The instance remains failed even if the unit is successfully updated while processing the trigger.
+     */
+    type: z.literal("on-failure"),
+  }),
+  z.object({
+    type: z.literal("schedule"),
+
+    /**
+     * The cron expression defining when the trigger should be invoked.
+     *
+     * Supports the standard five-field syntax and the optional seconds field.
+     * Evaluated in the time zone of the backend.
+     */
+    cron: z.string().refine(isValidCron, { error: "Invalid cron expression" }),
+  }),
 ])
 
 export type TriggerSpec = z.infer<typeof triggerSpecSchema>
@@ -0,0 +1,43 @@
+export type AuthType = "none" | "local" | "oidc"
+
+export type AuthSession = {
+  authType: AuthType
+  user: {
+    id: string
+    displayName: string
+  } | null
+}
+
+export const oidcLoginUrl = "/api/auth/oidc/login"
+
+/**
+ * Returns the shared state of the current session.
+ *
+ * The state is `undefined` until the session is loaded by `loadAuthSession`.
+ */
+export function useAuthSession() {
+  return useState<AuthSession | undefined>("auth-session", () => undefined)
+}
+
+export async function loadAuthSession(): Promise<AuthSession> {
+  const session = useAuthSession()
+  session.value = await $fetch<AuthSession>("/api/auth/session")
+
+  return session.value
+}
+
+export async function loginWithPassword(username: string, password: string): Promise<void> {
+  await $fetch("/api/auth/login", {
+    method: "POST",
+    body: { username, password },
+  })
+
+  await loadAuthSession()
+}
+
+export async function logout(): Promise<void> {
+  await $fetch("/api/auth/logout", { method: "POST" })
+
+  // reload to drop all the state and the subscriptions of the previous user
+  location.reload()
+}
@@ -0,0 +1,3 @@
+export { default as LoginScreen } from "./components/LoginScreen.vue"
+export { default as LogoutButton } from "./components/LogoutButton.vue"
+export * from "./business"
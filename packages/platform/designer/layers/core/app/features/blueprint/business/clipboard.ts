@@ -2,6 +2,7 @@ import type { HubModel, InstanceModel } from "@highstate/contract"
 import type { VueFlowStore } from "@vue-flow/core"
 import type { CanvasSelection, CursorMode } from "#layers/core/app/features/canvas"
 import { createBlueprint, parseBlueprint, serializeBlueprint, type Blueprint } from "./shared"
+import { importSharedBlueprint, parseSharedBlueprintLink } from "./share"
 import { clone } from "remeda"
 
 export function useBlueprintClipboard(
@@ -13,6 +14,7 @@ export function useBlueprintClipboard(
   target: MaybeRef<EventTarget | null>,
 ) {
   const localClipboard = ref<Blueprint | undefined>(undefined)
+  const importFailed = ref(false)
   const { copy, copied } = useClipboard()
   const { ctrl_c } = useMagicKeys({ target: target as Ref<EventTarget> })
 
@@ -79,6 +81,17 @@ export function useBlueprintClipboard(
       blueprintValue = parseBlueprint(globalContent)
     }
 
+    const sharedLink = !blueprintValue && globalContent && parseSharedBlueprintLink(globalContent)
+    if (sharedLink) {
+      try {
+        blueprintValue = await importSharedBlueprint(sharedLink)
+      } catch (error) {
+        globalLogger.error({ error }, "failed to import shared blueprint")
+        importFailed.value = true
+        return
+      }
+    }
+
     if (!blueprintValue) {
       // if no valid blueprint was found in the clipboard, use the local clipboard
       blueprintValue = localClipboard.value
@@ -95,5 +108,6 @@ export function useBlueprintClipboard(
 
   return {
     copied,
+    importFailed,
   }
 }
@@ -1,3 +1,4 @@
 export * from "./shared"
 export * from "./clipboard"
 export * from "./placement"
+export * from "./share"
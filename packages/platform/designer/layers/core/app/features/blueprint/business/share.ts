@@ -1,16 +1,105 @@
-import type { Blueprint } from "./shared"
+import { blueprintSchema, type Blueprint } from "./shared"
 import { decode, encode } from "@msgpack/msgpack"
 import { xchacha20poly1305 } from "@noble/ciphers/chacha"
 import { managedNonce, randomBytes } from "@noble/ciphers/webcrypto.js"
+import { Base64 } from "js-base64"
 
+/**
+ * Matches the path of the blueprint page in the sharing frontend.
+ *
+ * The link has the following format:
+ * `{sharingFrontendUrl}/blueprints/{shareId}?store={storeUrl}#{key}`
+ *
+ * The key is passed in the fragment which is never sent to the server by the browser.
+ */
+const sharedBlueprintPathRegex = /\/blueprints\/([a-z0-9]+)$/
+
+export type SharedBlueprintLink = {
+  /**
+   * The URL of the encrypted blueprint content.
+   */
+  contentUrl: string
+
+  /**
+   * The key to decrypt the blueprint with.
+   */
+  key: Uint8Array
+}
+
+function createCipher(key: Uint8Array) {
+  return managedNonce(xchacha20poly1305)(key)
+}
+
+/**
+ * Encrypts the blueprint, uploads it to the share store of the backend
+ * and returns the link to the blueprint in the sharing frontend.
+ */
 export async function shareBlueprint(blueprint: Blueprint): Promise<string> {
+  const { $client } = useNuxtApp()
+  const config = useRuntimeConfig()
+
   // generate a random key for encryption
   const key = randomBytes(32)
-  const chacha = managedNonce(xchacha20poly1305)(key)
+  const chacha = createCipher(key)
 
   // encrypt the blueprint with the key
   const encoded = encode(blueprint)
   const encrypted = chacha.encrypt(encoded)
 
-  throw new Error("Not implemented")
+  const shareId = await $client.share.shareBlueprint.mutate({
+    content: Base64.fromUint8Array(encrypted),
+  })
+
+  const storeUrl = config.public.sharing.storeUrl || `${location.origin}/api/shares`
+  const frontendUrl = config.public.sharing.frontendUrl.replace(/\/$/, "")
+  const link = new URL(`${frontendUrl}/blueprints/${shareId}`)
+
+  link.searchParams.set("store", storeUrl)
+  link.hash = Base64.fromUint8Array(key, true)
+
+  return link.toString()
+}
+
+/**
+ * Parses the link to the shared blueprint.
+ * Returns `null` if the string is not a valid link.
+ */
+export function parseSharedBlueprintLink(value: string): SharedBlueprintLink | null {
+  let url: URL
+
+  try {
+    url = new URL(value.trim())
+  } catch {
+    return null
+  }
+
+  const shareId = sharedBlueprintPathRegex.exec(url.pathname)?.[1]
+  const storeUrl = url.searchParams.get("store")
+  const key = url.hash.slice(1)
+
+  if (!shareId || !storeUrl || !key) {
+    return null
+  }
+
+  return {
+    contentUrl: `${storeUrl.replace(/\/$/, "")}/${shareId}`,
+    key: Base64.toUint8Array(key),
+  }
+}
+
+/**
+ * Downloads the shared blueprint and decrypts it with the key from the link.
+ */
+export async function importSharedBlueprint(link: SharedBlueprintLink): Promise<Blueprint> {
+  const response = await fetch(link.contentUrl)
+  if (!response.ok) {
+    throw new Error(
+      `Failed to download shared blueprint: ${response.status} ${response.statusText}`,
+    )
+  }
+
+  const encrypted = new Uint8Array(await response.arrayBuffer())
+  const decrypted = createCipher(link.key).decrypt(encrypted)
+
+  return blueprintSchema.parse(decode(decrypted))
 }
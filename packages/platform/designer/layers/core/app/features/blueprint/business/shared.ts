@@ -111,7 +111,7 @@ export function createBlueprint(
   nodes: GraphNode[],
   instances: InstanceModel[],
   hubs: HubModel[],
-  libraryStore?: LibraryStore,
+  libraryStore?: Pick<LibraryStore, "components" | "entities">,
 ): Blueprint {
   const rect = getRectOfNodes(nodes)
 
@@ -1,2 +1,2 @@
 export * from "./business"
-// export { default as BlueprintShareDialog } from "./components/BlueprintShareDialog.vue"
+export { default as BlueprintShareDialog } from "./components/BlueprintShareDialog.vue"
@@ -79,6 +79,14 @@ export const optionConfigs: OptionConfig[] = [
       "Execute destroy triggers when destroying instances. Controls trigger execution during the destruction phase.",
     defaultValue: true,
   },
+  {
+    key: "invokeUpdateTriggers",
+    label: "Invoke update triggers",
+    description:
+      "Execute before-update, after-update and on-failure triggers when updating instances. Each invocation runs an additional update of the unit.",
+    defaultValue: true,
+    showForOperations: ["update", "recreate"],
+  },
   {
     key: "deleteUnreachableResources",
     label: "Delete unreachable resources",
@@ -116,6 +124,13 @@ export const optionConfigs: OptionConfig[] = [
     description:
       "Also refresh the state of instances during the operation. Synchronizes state with actual infrastructure.",
   },
+  {
+    key: "detectDrift",
+    label: "Only detect drift",
+    description:
+      "Only detect the resources changed outside of Highstate without writing them to the state. Marks the instances with changed resources as drifted.",
+    showForOperations: ["refresh"],
+  },
   {
     key: "debug",
     label: "Enable debug logging",
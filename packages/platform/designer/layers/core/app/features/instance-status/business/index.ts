@@ -37,6 +37,7 @@ const wellKnownCustomStatusIcons: Record<WellKnownInstanceCustomStatus, string |
   down: "heart-broken",
   warning: "alert-octagon-outline",
   progressing: "progress-clock",
+  drifted: "vector-difference",
 }
 
 const wellKnownStatusCustomColors: Record<WellKnownInstanceCustomStatus, string | undefined> = {
@@ -46,6 +47,7 @@ const wellKnownStatusCustomColors: Record<WellKnownInstanceCustomStatus, string
   healthy: "success",
   warning: "warning",
   progressing: "warning",
+  drifted: "warning",
 }
 
 const operationStatusIcons: Record<InstanceOperationStatus, string> = {
@@ -19,6 +19,7 @@ export { default as TerminalSessionsTable } from "./components/TerminalSessionsT
 export { default as SecretsTable } from "./components/SecretsTable.vue"
 export { default as PagesTable } from "./components/PagesTable.vue"
 export { default as TriggersTable } from "./components/TriggersTable.vue"
+export { default as InstanceDriftsTable } from "./components/InstanceDriftsTable.vue"
 export { default as ApiKeysTable } from "./components/ApiKeysTable.vue"
 export { default as WorkersTable } from "./components/WorkersTable.vue"
 export { default as WorkerVersionsTable } from "./components/WorkerVersionsTable.vue"
@@ -30,3 +31,4 @@ export { default as EntitiesTable } from "./components/EntitiesTable.vue"
 export { default as EntityReferencesTable } from "./components/EntityReferencesTable.vue"
 export { default as EntitySnapshotsTable } from "./components/EntitySnapshotsTable.vue"
 export { default as SecretValueField } from "./components/SecretValueField.vue"
+export { default as StackResourcesPanel } from "./components/StackResourcesPanel.vue"
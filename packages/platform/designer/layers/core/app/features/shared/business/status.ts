@@ -10,6 +10,7 @@ export const terminalStatusMap: StatusChipMap = {
 
 export const operationStatusMap: StatusChipMap = {
   pending: { color: "warning", loading: true },
+  awaiting_approval: { color: "warning", icon: "mdi-account-clock" },
   running: { color: "info", loading: true },
   failing: { color: "error", icon: "mdi-alert-circle", loading: true },
   completed: { color: "success", icon: "mdi-check-circle" },
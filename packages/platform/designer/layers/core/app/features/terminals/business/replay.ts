@@ -0,0 +1,105 @@
+import type { TerminalSessionRecording } from "@highstate/backend/shared"
+import type { Terminal } from "@xterm/xterm"
+
+export const replaySpeeds = [0.5, 1, 2, 4]
+
+export function useTerminalSessionReplay(projectId: string, sessionId: string) {
+  const terminal = shallowRef<Terminal | null>(null)
+  const recording = shallowRef<TerminalSessionRecording | null>(null)
+
+  const currentTime = ref(0)
+  const playing = ref(false)
+  const speed = ref(1)
+
+  const { $client } = useNuxtApp()
+
+  const duration = computed(() => recording.value?.events.at(-1)?.[0] ?? 0)
+  const downloadUrl = `/api/projects/${projectId}/terminal-sessions/${sessionId}/asciicast`
+
+  // the index of the next event to write to the terminal
+  let renderedIndex = 0
+  let animationFrame: number | null = null
+  let lastFrameTime = 0
+
+  const render = (time: number) => {
+    const events = recording.value?.events ?? []
+
+    if (renderedIndex > 0 && events[renderedIndex - 1]![0] > time) {
+      // seeking backwards requires replaying from the beginning
+      terminal.value!.reset()
+      renderedIndex = 0
+    }
+
+    while (renderedIndex < events.length && events[renderedIndex]![0] <= time) {
+      terminal.value!.write(events[renderedIndex]![2])
+      renderedIndex++
+    }
+  }
+
+  const tick = (frameTime: number) => {
+    const elapsed = (frameTime - lastFrameTime) / 1000
+    lastFrameTime = frameTime
+
+    currentTime.value = Math.min(duration.value, currentTime.value + elapsed * speed.value)
+    render(currentTime.value)
+
+    if (currentTime.value >= duration.value) {
+      pause()
+      return
+    }
+
+    animationFrame = requestAnimationFrame(tick)
+  }
+
+  const play = () => {
+    if (playing.value || !recording.value) {
+      return
+    }
+
+    if (currentTime.value >= duration.value) {
+      seek(0)
+    }
+
+    playing.value = true
+    lastFrameTime = performance.now()
+    animationFrame = requestAnimationFrame(tick)
+  }
+
+  const pause = () => {
+    playing.value = false
+
+    if (animationFrame !== null) {
+      cancelAnimationFrame(animationFrame)
+      animationFrame = null
+    }
+  }
+
+  const seek = (time: number) => {
+    currentTime.value = Math.max(0, Math.min(duration.value, time))
+    render(currentTime.value)
+  }
+
+  const initialize = async (terminalValue: Terminal) => {
+    terminal.value = terminalValue
+    terminal.value.options.disableStdin = true
+
+    recording.value = await $client.terminal.getSessionRecording.query({ projectId, sessionId })
+
+    play()
+  }
+
+  onUnmounted(pause)
+
+  return {
+    initialize,
+    recording,
+    currentTime,
+    duration,
+    playing,
+    speed,
+    downloadUrl,
+    play,
+    pause,
+    seek,
+  }
+}
@@ -31,6 +31,8 @@ export function useTerminalSession(projectId: string, sessionId: string) {
 
         workspaceStore.closeTerminalPanel(projectId, session.value!.id)
         workspaceStore.openTerminalPanel(projectId, newSession.id)
+      } else if (uri === "replay") {
+        workspaceStore.openTerminalReplayPanel(projectId, sessionId)
       } else if (isMacOS() ? event.metaKey : event.ctrlKey) {
         // Open link in a new tab
         window.open(uri, "_blank")
@@ -74,6 +76,11 @@ export function useTerminalSession(projectId: string, sessionId: string) {
             terminal.value!.writeln(coloredMessage)
             terminal.value!.writeln(linkedMessage)
 
+            const replayMessage = `>>> Click here to replay <<<`
+            const linkedReplayMessage = `\x1b]8;;replay\x1b\\${replayMessage}\x1b]8;;\x1b\\`
+
+            terminal.value!.writeln(linkedReplayMessage)
+
             stopWatchingSession()
           }
         },
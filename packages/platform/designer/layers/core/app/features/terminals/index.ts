@@ -1,3 +1,4 @@
 export * from "./business"
 export { default as TerminalSession } from "./components/TerminalSession.vue"
+export { default as TerminalSessionReplay } from "./components/TerminalSessionReplay.vue"
 export { default as GenericTerminal } from "./components/GenericTerminal.vue"
@@ -84,16 +84,17 @@ export const useCanvasStore = defineMultiStore({
 
       const { onInstanceMoved, onHubMoved } = useNodeMovement(vueFlowStore, cursorMode, selection)
 
-      const { copied: blueprintCopied } = useBlueprintClipboard(
-        vueFlowStore,
-        cursorMode,
-        blueprint,
-        selection,
-        selectionActive,
-        // TODO: find out why events are not triggered when using vueFlowRef
-        // vueFlowStore.vueFlowRef,
-        window.document,
-      )
+      const { copied: blueprintCopied, importFailed: blueprintImportFailed } =
+        useBlueprintClipboard(
+          vueFlowStore,
+          cursorMode,
+          blueprint,
+          selection,
+          selectionActive,
+          // TODO: find out why events are not triggered when using vueFlowRef
+          // vueFlowStore.vueFlowRef,
+          window.document,
+        )
 
       const deleteNode = async (node: GraphNode) => {
         if (node.data.instance) {
@@ -187,6 +188,7 @@ export const useCanvasStore = defineMultiStore({
         edgeEndpointOffsets,
         blueprint,
         blueprintCopied,
+        blueprintImportFailed,
 
         updateInstanceNode,
         updateHubNode,
@@ -1156,6 +1156,38 @@ export const useProjectInstancesStore = defineMultiStore({
         }
       }
 
+      const getInstanceRollbackTargets = async (instanceId: InstanceId) => {
+        return await $client.project.getInstanceRollbackTargets.query({ projectId, instanceId })
+      }
+
+      const getInstanceRollbackPreview = async (instanceId: InstanceId, operationId: string) => {
+        return await $client.project.getInstanceRollbackPreview.query({
+          projectId,
+          instanceId,
+          operationId,
+        })
+      }
+
+      const rollbackInstance = async (
+        instanceId: InstanceId,
+        operationId: string,
+        launchUpdate: boolean,
+      ) => {
+        const rolledBackInstance = await $client.project.rollbackInstance.mutate({
+          projectId,
+          instanceId,
+          operationId,
+          launchUpdate,
+        })
+
+        // the updates of the resident instances are not broadcasted back, so apply the args locally
+        const instance = instances.get(instanceId)
+        if (instance) {
+          instance.args = rolledBackInstance.args
+          updateInstanceState(instance)
+        }
+      }
+
       const deleteInstance = async (instance: InstanceModel, persistent = true) => {
         for (const otherInstance of instances.values()) {
           if (otherInstance.id === instance.id) {
@@ -1279,6 +1311,9 @@ export const useProjectInstancesStore = defineMultiStore({
         createBlueprintInstance,
         updateInstance,
         deleteInstance,
+        getInstanceRollbackTargets,
+        getInstanceRollbackPreview,
+        rollbackInstance,
 
         createBlueprintHub,
         deleteHub,
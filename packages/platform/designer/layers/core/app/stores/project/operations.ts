@@ -1,6 +1,7 @@
 import {
   isFinalOperationStatus,
   type Operation,
+  type OperationApprovalDecision,
   type OperationLaunchInput,
   type OperationPlanInput,
   type OperationPhase,
@@ -140,10 +141,7 @@ export const useProjectOperationsStore = defineMultiStore({
         })
       }
 
-      const launchQuickInstanceOperation = async (
-        type: OperationType,
-        instance: InstanceModel,
-      ) => {
+      const launchQuickInstanceOperation = async (type: OperationType, instance: InstanceModel) => {
         return await launchInstanceOperation(type, instance, {
           ignoreChangedDependencies: true,
         })
@@ -161,6 +159,31 @@ export const useProjectOperationsStore = defineMultiStore({
         })
       }
 
+      const retryOperation = async (operationId: string) => {
+        await $client.operation.retry.mutate({ projectId, operationId })
+      }
+
+      const decideOperationApproval = async (
+        operationId: string,
+        decision: OperationApprovalDecision,
+        comment?: string,
+      ) => {
+        await $client.operation.decideApproval.mutate({
+          projectId,
+          operationId,
+          decision,
+          comment,
+        })
+      }
+
+      const getOperationApprovals = async (operationId: string) => {
+        return await $client.operation.getApprovals.query({ projectId, operationId })
+      }
+
+      const getOperationResourceChanges = async (operationId: string) => {
+        return await $client.operation.getResourceChanges.query({ projectId, operationId })
+      }
+
       const isOperationForInstanceRequested = (instanceId: string) => {
         return requestedInstanceIds.has(instanceId)
       }
@@ -206,6 +229,10 @@ export const useProjectOperationsStore = defineMultiStore({
         launchQuickInstanceOperation,
         cancelOperation,
         cancelInstanceOperation,
+        retryOperation,
+        decideOperationApproval,
+        getOperationApprovals,
+        getOperationResourceChanges,
         onOperationFinished,
         isOperationForInstanceRequested,
 
@@ -92,6 +92,9 @@ export const useProjectSettingsStore = defineMultiStore({
       const triggers = useSettingsQuery(query =>
         $client.settings.queryTriggers.query({ projectId, query }),
       )
+      const instanceDrifts = useSettingsQuery(query =>
+        $client.settings.queryInstanceDrifts.query({ projectId, query }),
+      )
       const artifacts = useSettingsQuery(query =>
         $client.settings.queryArtifacts.query({ projectId, query }),
       )
@@ -430,6 +433,7 @@ export const useProjectSettingsStore = defineMultiStore({
         pages,
         secrets,
         triggers,
+        instanceDrifts,
         artifacts,
         workers,
         serviceAccounts,
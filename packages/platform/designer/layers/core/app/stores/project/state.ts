@@ -6,6 +6,8 @@ import {
   type ResolvedInstanceInput,
   type ProjectUnlockState,
   type InstanceLockOutput,
+  type StackCheckpoint,
+  type StackStateModification,
   isInstanceDeployed,
 } from "@highstate/backend/shared"
 import {
@@ -421,6 +423,25 @@ export const useProjectStateStore = defineMultiStore({
         })
       }
 
+      const getInstanceResources = async (instanceId: InstanceId) => {
+        return await $client.state.getInstanceResources.query({ projectId, instanceId })
+      }
+
+      const exportStackState = async (instanceId: InstanceId) => {
+        return await $client.state.exportStackState.query({ projectId, instanceId })
+      }
+
+      const importStackState = async (instanceId: InstanceId, checkpoint: StackCheckpoint) => {
+        await $client.state.importStackState.mutate({ projectId, instanceId, checkpoint })
+      }
+
+      const modifyStackState = async (
+        instanceId: InstanceId,
+        modification: StackStateModification,
+      ) => {
+        return await $client.state.modifyStackState.mutate({ projectId, instanceId, modification })
+      }
+
       const isNodeDeletable = (node: GraphNode) => {
         if (!node.data.instance) {
           return true
@@ -442,6 +463,10 @@ export const useProjectStateStore = defineMultiStore({
         instanceStates,
         stateIdToStateMap,
         forgetInstanceStates,
+        getInstanceResources,
+        exportStackState,
+        importStackState,
+        modifyStackState,
         getInstanceState,
         getStateByStateId,
         openInstanceLogs,
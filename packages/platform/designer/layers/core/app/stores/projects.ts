@@ -9,12 +9,19 @@ export const useProjectsStore = defineStore("projects", () => {
     [],
   )
 
+  const { data: pulumiBackendsData } = $client.project.getPulumiBackends.useQuery()
+  const pulumiBackends = refDefault(
+    computed(() => pulumiBackendsData.value),
+    [],
+  )
+
   const loadingCreateProject = ref<boolean>(false)
 
   const createProject = async (
     name: string,
     meta: CommonObjectMeta,
     unlockMethodInput: UnlockMethodInput,
+    pulumiBackendId?: string,
   ) => {
     loadingCreateProject.value = true
 
@@ -23,6 +30,7 @@ export const useProjectsStore = defineStore("projects", () => {
         projectInput: {
           meta,
           name,
+          pulumiBackendId,
         },
         unlockMethodInput,
       })
@@ -43,6 +51,7 @@ export const useProjectsStore = defineStore("projects", () => {
 
   return {
     projects,
+    pulumiBackends,
     focusedProjectId,
     createProject,
     loadingCreateProject,
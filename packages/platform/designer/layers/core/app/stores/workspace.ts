@@ -118,6 +118,13 @@ export const useWorkspaceStore = defineStore("workspace", () => {
     })
   }
 
+  const openTerminalReplayPanel = async (projectId: string, sessionId: string) => {
+    await navigateTo({
+      name: "terminal-session-replay",
+      params: { projectId, sessionId },
+    })
+  }
+
   const openLogsPanel = async (projectId: string, operationId: string, stateId: string) => {
     await navigateTo({
       name: "instance-logs",
@@ -154,6 +161,7 @@ export const useWorkspaceStore = defineStore("workspace", () => {
     openCompositeInstancePanel,
     openTerminalPanel,
     closeTerminalPanel,
+    openTerminalReplayPanel,
     openLogsPanel,
     openDataSettingsPanel,
     openWorkerVersionLogsPanel,
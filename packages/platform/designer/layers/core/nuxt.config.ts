@@ -118,6 +118,14 @@ export default defineNuxtConfig({
     public: {
       version,
       eventsPort: 3002,
+
+      sharing: {
+        // the sharing frontend rendering the links to the shared blueprints
+        frontendUrl: "http://localhost:3001",
+
+        // the public URL of the share store, defaults to the share API of this designer
+        storeUrl: "",
+      },
     },
   },
 
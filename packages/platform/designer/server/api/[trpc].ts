@@ -1,15 +1,17 @@
 import { createTRPCNuxtHandler } from "trpc-nuxt/server"
 import { appRouter } from "../router"
 import { getSharedServices } from "@highstate/backend"
+import { sessionCookieName } from "../auth"
 
 export default createTRPCNuxtHandler({
   endpoint: "/api",
   router: appRouter,
-  createContext: async () => {
+  createContext: async event => {
     const services = await getSharedServices()
 
     return {
       ...services,
+      sessionToken: getCookie(event, sessionCookieName),
     }
   },
   onError: error => {
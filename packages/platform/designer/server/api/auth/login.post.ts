@@ -0,0 +1,30 @@
+import { getSharedServices } from "@highstate/backend"
+import { AuthenticationError } from "@highstate/backend/shared"
+import { z } from "zod"
+import { setSessionCookie } from "../../auth"
+
+const loginInputSchema = z.object({
+  username: z.string().min(1),
+  password: z.string().min(1),
+})
+
+export default defineEventHandler(async event => {
+  const input = await readValidatedBody(event, loginInputSchema.parse)
+  const { authService } = await getSharedServices()
+
+  try {
+    const session = await authService.loginWithPassword(input.username, input.password)
+    setSessionCookie(event, session)
+
+    return { success: true }
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      throw createError({
+        statusCode: 401,
+        statusMessage: error.message,
+      })
+    }
+
+    throw error
+  }
+})
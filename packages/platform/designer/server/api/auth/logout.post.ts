@@ -0,0 +1,15 @@
+import { getSharedServices } from "@highstate/backend"
+import { sessionCookieName } from "../../auth"
+
+export default defineEventHandler(async event => {
+  const token = getCookie(event, sessionCookieName)
+
+  if (token) {
+    const { authService } = await getSharedServices()
+    await authService.logout(token)
+  }
+
+  deleteCookie(event, sessionCookieName)
+
+  return { success: true }
+})
@@ -0,0 +1,35 @@
+import { getSharedServices } from "@highstate/backend"
+import { AuthenticationError } from "@highstate/backend/shared"
+import { getOidcRedirectUri, oidcStateCookieName, setSessionCookie } from "../../../auth"
+
+export default defineEventHandler(async event => {
+  const { code, state } = getQuery(event)
+  const [expectedState, codeVerifier] = getCookie(event, oidcStateCookieName)?.split(":") ?? []
+
+  deleteCookie(event, oidcStateCookieName, { path: "/api/auth/oidc" })
+
+  if (typeof code !== "string" || !expectedState || state !== expectedState || !codeVerifier) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: "Invalid OIDC callback",
+    })
+  }
+
+  const { authService } = await getSharedServices()
+
+  try {
+    const session = await authService.loginWithOidc(code, getOidcRedirectUri(event), codeVerifier)
+    setSessionCookie(event, session)
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      throw createError({
+        statusCode: 401,
+        statusMessage: error.message,
+      })
+    }
+
+    throw error
+  }
+
+  return sendRedirect(event, "/")
+})
@@ -0,0 +1,19 @@
+import { getSharedServices } from "@highstate/backend"
+import { getOidcRedirectUri, oidcStateCookieName } from "../../../auth"
+
+export default defineEventHandler(async event => {
+  const { authService } = await getSharedServices()
+
+  const request = await authService.createOidcAuthorizationRequest(getOidcRedirectUri(event))
+
+  // the state and the code verifier are needed only to complete this login in the callback
+  setCookie(event, oidcStateCookieName, `${request.state}:${request.codeVerifier}`, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: getRequestProtocol(event) === "https",
+    path: "/api/auth/oidc",
+    maxAge: 10 * 60,
+  })
+
+  return sendRedirect(event, request.url)
+})
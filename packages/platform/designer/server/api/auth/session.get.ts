@@ -0,0 +1,31 @@
+import { getSharedServices } from "@highstate/backend"
+import { AuthenticationError } from "@highstate/backend/shared"
+import { sessionCookieName } from "../../auth"
+
+export default defineEventHandler(async event => {
+  const { authService } = await getSharedServices()
+  const token = getCookie(event, sessionCookieName)
+
+  if (authService.authType === "none" || !token) {
+    return { authType: authService.authType, user: null }
+  }
+
+  try {
+    const user = await authService.authenticate(token)
+
+    return {
+      authType: authService.authType,
+      user: {
+        id: user.id,
+        displayName: user.displayName ?? user.username ?? user.email ?? user.id,
+      },
+    }
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      deleteCookie(event, sessionCookieName)
+      return { authType: authService.authType, user: null }
+    }
+
+    throw error
+  }
+})
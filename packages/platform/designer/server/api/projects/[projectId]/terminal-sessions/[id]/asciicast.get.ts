@@ -0,0 +1,58 @@
+import { getSharedServices } from "@highstate/backend"
+import { formatAsciicast, TerminalSessionNotFoundError } from "@highstate/backend/shared"
+
+export default defineEventHandler(async event => {
+  const projectId = getRouterParam(event, "projectId")
+  const sessionId = getRouterParam(event, "id")
+
+  if (!projectId || !sessionId) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: "Missing projectId or sessionId",
+    })
+  }
+
+  // the screen size is not persisted, so the viewer may pass its own size
+  const screenSizeText = getQuery(event).screenSize
+  let screenSize: { cols: number; rows: number } | undefined
+
+  if (typeof screenSizeText === "string") {
+    const [cols, rows] = screenSizeText.split("x").map(Number)
+    if (!Number.isInteger(cols) || !Number.isInteger(rows) || cols <= 0 || rows <= 0) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: "Invalid screenSize",
+      })
+    }
+
+    screenSize = { cols, rows }
+  }
+
+  const services = await getSharedServices()
+
+  try {
+    const recording = await services.terminalSessionService.getSessionRecording(
+      projectId,
+      sessionId,
+      screenSize,
+    )
+
+    setHeader(event, "Content-Type", "application/x-asciicast")
+    setHeader(event, "Content-Disposition", `attachment; filename="${sessionId}.cast"`)
+
+    return formatAsciicast(recording)
+  } catch (error) {
+    if (error instanceof TerminalSessionNotFoundError) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: "Terminal session not found",
+      })
+    }
+
+    throw createError({
+      statusCode: 500,
+      statusMessage: "Failed to export terminal session",
+      cause: error,
+    })
+  }
+})
@@ -0,0 +1,28 @@
+import { getSharedServices } from "@highstate/backend"
+
+export default defineEventHandler(async event => {
+  const shareId = getRouterParam(event, "id")
+
+  if (!shareId || !/^[a-z0-9]+$/.test(shareId)) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: "Invalid share ID",
+    })
+  }
+
+  const services = await getSharedServices()
+  const content = await services.shareStore.get(shareId)
+
+  if (!content) {
+    throw createError({
+      statusCode: 404,
+      statusMessage: "Share not found",
+    })
+  }
+
+  // the content is encrypted, so it can be fetched by the sharing frontend hosted elsewhere
+  setHeader(event, "Access-Control-Allow-Origin", "*")
+  setHeader(event, "Content-Type", "application/octet-stream")
+
+  return content
+})
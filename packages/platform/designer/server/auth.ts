@@ -0,0 +1,43 @@
+import type { H3Event } from "h3"
+import type { UserSessionToken } from "@highstate/backend"
+
+export const sessionCookieName = "highstate_session"
+export const oidcStateCookieName = "highstate_oidc_state"
+
+/**
+ * Stores the token of the created session in the http-only cookie.
+ */
+export function setSessionCookie(event: H3Event, session: UserSessionToken): void {
+  setCookie(event, sessionCookieName, session.token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: getRequestProtocol(event) === "https",
+    path: "/",
+    expires: session.expiresAt,
+  })
+}
+
+/**
+ * Extracts the session token from the raw `Cookie` header.
+ *
+ * Used by the events server which handles the plain requests instead of the H3 events.
+ */
+export function getSessionTokenFromCookieHeader(header: string | null): string | undefined {
+  if (!header) {
+    return undefined
+  }
+
+  for (const cookie of header.split(";")) {
+    const [name, ...value] = cookie.trim().split("=")
+
+    if (name === sessionCookieName) {
+      return decodeURIComponent(value.join("="))
+    }
+  }
+
+  return undefined
+}
+
+export function getOidcRedirectUri(event: H3Event): string {
+  return `${getRequestURL(event).origin}/api/auth/oidc/callback`
+}
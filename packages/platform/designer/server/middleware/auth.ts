@@ -0,0 +1,37 @@
+import { getSharedServices } from "@highstate/backend"
+import { AuthenticationError } from "@highstate/backend/shared"
+import { sessionCookieName } from "../auth"
+
+/**
+ * Protects the plain HTTP endpoints of the projects.
+ * The tRPC procedures are protected by the `authenticatedProcedure` instead.
+ */
+export default defineEventHandler(async event => {
+  if (!event.path.startsWith("/api/projects/")) {
+    return
+  }
+
+  const { authService } = await getSharedServices()
+  if (authService.authType === "none") {
+    return
+  }
+
+  const token = getCookie(event, sessionCookieName)
+
+  try {
+    if (!token) {
+      throw new AuthenticationError("Not authenticated")
+    }
+
+    await authService.authenticate(token)
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      throw createError({
+        statusCode: 401,
+        statusMessage: error.message,
+      })
+    }
+
+    throw error
+  }
+})
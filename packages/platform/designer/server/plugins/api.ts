@@ -7,6 +7,9 @@ export default defineNitroPlugin(async app => {
   services.logger.debug("starting backend api")
   await startBackedApi(services)
 
+  // create the initial local user if configured
+  await services.authService.ensureInitialUser()
+
   // auto-unlock projects for development environment
   await services.projectUnlockService.autoUnlockProjects()
 })
@@ -1,6 +1,7 @@
 import { appRouter } from "../router"
 import { getSharedServices } from "@highstate/backend"
 import { createBunServeHandler } from "trpc-bun-adapter"
+import { getSessionTokenFromCookieHeader } from "../auth"
 
 export default defineNitroPlugin(async nitro => {
   const config = useRuntimeConfig()
@@ -9,11 +10,13 @@ export default defineNitroPlugin(async nitro => {
   const handler = createBunServeHandler({
     endpoint: "/",
     router: appRouter,
-    createContext: async () => {
+    createContext: async ({ req }) => {
       const services = await getSharedServices()
 
       return {
         ...services,
+        // the browser sends the cookies of the designer host since they are not bound to the port
+        sessionToken: getSessionTokenFromCookieHeader(req.headers.get("cookie")),
       }
     },
   })
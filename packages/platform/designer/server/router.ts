@@ -8,6 +8,7 @@ import { operationRouter } from "./routers/operation"
 import { logsRouter } from "./routers/logs"
 import { settingsRouter } from "./routers/settings"
 import { searchRouter } from "./routers/search"
+import { shareRouter } from "./routers/share"
 
 export const appRouter = router({
   state: stateRouter,
@@ -19,6 +20,7 @@ export const appRouter = router({
   operation: operationRouter,
   logs: logsRouter,
   search: searchRouter,
+  share: shareRouter,
 })
 
 export type AppRouter = typeof appRouter
@@ -1,26 +1,43 @@
 import { z } from "zod"
-import { publicProcedure, router } from "../trpc"
+import { authenticatedProcedure, router } from "../trpc"
+import { libraryInputSchema, librarySpecSchema } from "@highstate/backend/shared"
 
 export const libraryRouter = router({
-  get: publicProcedure.input(z.object({ libraryId: z.string() })).query(async ({ ctx, input }) => {
-    return await ctx.libraryBackend.loadLibrary(input.libraryId)
+  get: authenticatedProcedure
+    .input(z.object({ libraryId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      return await ctx.libraryBackend.loadLibrary(input.libraryId)
+    }),
+
+  getLibraries: authenticatedProcedure.query(async ({ ctx }) => {
+    return await ctx.libraryService.getLibraries()
   }),
 
-  getProjectVirtualComponents: publicProcedure
+  createLibrary: authenticatedProcedure
+    .input(libraryInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      return await ctx.libraryService.createLibrary(input)
+    }),
+
+  updateLibrarySpec: authenticatedProcedure
+    .input(z.object({ libraryId: z.string(), spec: librarySpecSchema }))
+    .mutation(async ({ ctx, input }) => {
+      return await ctx.libraryService.updateLibrarySpec(input.libraryId, input.spec)
+    }),
+
+  getProjectVirtualComponents: authenticatedProcedure
     .input(z.object({ projectId: z.string() }))
     .query(async ({ ctx, input, signal }) => {
       return await ctx.libraryService.getVirtualComponents(input.projectId, signal)
     }),
 
-  watch: publicProcedure.input(z.object({ libraryId: z.string() })).subscription(async function* ({
-    ctx,
-    input,
-    signal,
-  }) {
-    yield* ctx.libraryBackend.watchLibrary(input.libraryId, signal)
-  }),
+  watch: authenticatedProcedure
+    .input(z.object({ libraryId: z.string() }))
+    .subscription(async function* ({ ctx, input, signal }) {
+      yield* ctx.libraryBackend.watchLibrary(input.libraryId, signal)
+    }),
 
-  getUnitSourceHashes: publicProcedure
+  getUnitSourceHashes: authenticatedProcedure
     .input(z.object({ libraryId: z.string(), unitTypes: z.string().array() }))
     .query(async ({ ctx, input }) => {
       const resolvedSources = await ctx.libraryBackend.getResolvedUnitSources(
@@ -31,7 +48,7 @@ export const libraryRouter = router({
       return resolvedSources.map(({ unitType, sourceHash }) => ({ unitType, sourceHash }))
     }),
 
-  watchUnitSourceHashes: publicProcedure
+  watchUnitSourceHashes: authenticatedProcedure
     .input(z.object({ libraryId: z.string() }))
     .subscription(async function* ({ ctx, input, signal }) {
       for await (const resolvedSource of ctx.libraryBackend.watchResolvedUnitSources(
@@ -1,8 +1,8 @@
 import { z } from "zod"
-import { publicProcedure, router } from "../trpc"
+import { authenticatedProcedure, router } from "../trpc"
 
 export const logsRouter = router({
-  getInstanceLogs: publicProcedure
+  getInstanceLogs: authenticatedProcedure
     .input(
       z.object({
         projectId: z.cuid2(),
@@ -18,7 +18,7 @@ export const logsRouter = router({
       )
     }),
 
-  watchInstanceLogs: publicProcedure
+  watchInstanceLogs: authenticatedProcedure
     .input(
       z.object({
         operationId: z.cuid2(),
@@ -32,7 +32,7 @@ export const logsRouter = router({
       )
     }),
 
-  getWorkerVersionLogs: publicProcedure
+  getWorkerVersionLogs: authenticatedProcedure
     .input(
       z.object({
         projectId: z.cuid2(),
@@ -43,7 +43,7 @@ export const logsRouter = router({
       return await ctx.workerService.getWorkerVersionLogs(input.projectId, input.workerVersionId)
     }),
 
-  watchWorkerVersionLogs: publicProcedure
+  watchWorkerVersionLogs: authenticatedProcedure
     .input(
       z.object({
         projectId: z.cuid2(),
@@ -1,10 +1,14 @@
 import { z } from "zod"
-import { publicProcedure, router } from "../trpc"
-import { operationLaunchInputSchema, operationPlanInputSchema } from "@highstate/backend/shared"
+import { authenticatedProcedure, router } from "../trpc"
+import {
+  operationApprovalInputSchema,
+  operationLaunchInputSchema,
+  operationPlanInputSchema,
+} from "@highstate/backend/shared"
 import { instanceIdSchema } from "@highstate/contract"
 
 export const operationRouter = router({
-  getLastOperations: publicProcedure
+  getLastOperations: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -19,15 +23,78 @@ export const operationRouter = router({
       })
     }),
 
-  launch: publicProcedure.input(operationLaunchInputSchema).mutation(async ({ input, ctx }) => {
-    return await ctx.operationManager.launch(input)
-  }),
+  launch: authenticatedProcedure
+    .input(operationLaunchInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      return await ctx.operationManager.launch({
+        ...input,
+        meta: {
+          ...input.meta,
+          initiator: { type: "user", userId: ctx.userId },
+        },
+      })
+    }),
 
-  plan: publicProcedure.input(operationPlanInputSchema).mutation(async ({ input, ctx }) => {
+  plan: authenticatedProcedure.input(operationPlanInputSchema).mutation(async ({ input, ctx }) => {
     return await ctx.operationManager.plan(input)
   }),
 
-  watch: publicProcedure
+  retry: authenticatedProcedure
+    .input(
+      z.object({
+        projectId: z.string(),
+        operationId: z.string(),
+      }),
+    )
+    .mutation(async ({ input, ctx }) => {
+      return await ctx.operationManager.retry(input.projectId, input.operationId, {
+        type: "user",
+        userId: ctx.userId,
+      })
+    }),
+
+  decideApproval: authenticatedProcedure
+    .input(operationApprovalInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      return await ctx.operationManager.decideApproval(input, ctx.userId)
+    }),
+
+  getApprovals: authenticatedProcedure
+    .input(
+      z.object({
+        projectId: z.string(),
+        operationId: z.string(),
+      }),
+    )
+    .query(async ({ input, ctx }) => {
+      return await ctx.operationApprovalService.getApprovals(input.projectId, input.operationId)
+    }),
+
+  getResourceChanges: authenticatedProcedure
+    .input(
+      z.object({
+        projectId: z.string(),
+        operationId: z.string(),
+      }),
+    )
+    .query(async ({ input, ctx }) => {
+      return await ctx.operationService.getOperationResourceChanges(
+        input.projectId,
+        input.operationId,
+      )
+    }),
+
+  detectDrift: authenticatedProcedure
+    .input(
+      z.object({
+        projectId: z.string(),
+      }),
+    )
+    .mutation(async ({ input, ctx }) => {
+      return await ctx.driftDetector.detectDrift(input.projectId)
+    }),
+
+  watch: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -37,7 +104,7 @@ export const operationRouter = router({
       return ctx.pubsubManager.subscribe(["operation", input.projectId], signal)
     }),
 
-  cancel: publicProcedure
+  cancel: authenticatedProcedure
     .input(
       z.object({
         operationId: z.string(),
@@ -47,7 +114,7 @@ export const operationRouter = router({
       ctx.operationManager.cancel(input.operationId)
     }),
 
-  cancelInstance: publicProcedure
+  cancelInstance: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -1,5 +1,5 @@
 import { z } from "zod"
-import { publicProcedure, router } from "../trpc"
+import { authenticatedProcedure, router } from "../trpc"
 import {
   instanceModelPatchSchema,
   hubModelSchema,
@@ -9,16 +9,17 @@ instanceModelSchema,
 } from "@highstate/contract"
 import {
   projectInputSchema,
+  pulumiBackendInputSchema,
   projectModelInstanceSchema,
   unlockMethodInputSchema,
 } from "@highstate/backend/shared"
 
 export const projectRouter = router({
-  getProjects: publicProcedure.query(async ({ ctx }) => {
+  getProjects: authenticatedProcedure.query(async ({ ctx }) => {
     return await ctx.projectService.getProjects()
   }),
 
-  createProject: publicProcedure
+  createProject: authenticatedProcedure
     .input(
       z.object({
         projectInput: projectInputSchema,
@@ -29,7 +30,17 @@ export const projectRouter = router({
       return await ctx.projectService.createProject(input.projectInput, input.unlockMethodInput)
     }),
 
-  watchProjectNodes: publicProcedure
+  getPulumiBackends: authenticatedProcedure.query(async ({ ctx }) => {
+    return await ctx.pulumiBackendService.getPulumiBackends()
+  }),
+
+  createPulumiBackend: authenticatedProcedure
+    .input(pulumiBackendInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      return await ctx.pulumiBackendService.createPulumiBackend(input)
+    }),
+
+  watchProjectNodes: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -39,7 +50,7 @@ export const projectRouter = router({
       return ctx.pubsubManager.subscribe(["project-model", input.projectId], signal)
     }),
 
-  getProject: publicProcedure
+  getProject: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -49,7 +60,7 @@ export const projectRouter = router({
       return await ctx.projectService.getProjectOrThrow(input.projectId)
     }),
 
-  getProjectModel: publicProcedure
+  getProjectModel: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -59,7 +70,7 @@ export const projectRouter = router({
       return await ctx.projectService.getProjectModel(input.projectId)
     }),
 
-  createManyNodes: publicProcedure
+  createManyNodes: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -69,10 +80,10 @@ export const projectRouter = router({
     )
     .output(z.void())
     .mutation(async ({ input, ctx }) => {
-      await ctx.projectService.createNodes(input.projectId, input.instances, input.hubs)
+      await ctx.projectService.createNodes(input.projectId, input.instances, input.hubs, ctx.userId)
     }),
 
-  updateInstance: publicProcedure
+  updateInstance: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -82,10 +93,15 @@ export const projectRouter = router({
     )
     .output(instanceModelSchema)
     .mutation(async ({ input, ctx }) => {
-      return await ctx.projectService.updateInstance(input.projectId, input.instanceId, input.patch)
+      return await ctx.projectService.updateInstance(
+        input.projectId,
+        input.instanceId,
+        input.patch,
+        ctx.userId,
+      )
     }),
 
-  renameInstance: publicProcedure
+  renameInstance: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -99,10 +115,11 @@ export const projectRouter = router({
         input.projectId,
         input.instanceId,
         input.newName,
+        ctx.userId,
       )
     }),
 
-  deleteInstance: publicProcedure
+  deleteInstance: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -114,7 +131,67 @@ export const projectRouter = router({
       await ctx.projectService.deleteInstance(input.projectId, input.instanceId)
     }),
 
-  updateHub: publicProcedure
+  getInstanceRollbackTargets: authenticatedProcedure
+    .input(
+      z.object({
+        projectId: z.string(),
+        instanceId: instanceIdSchema,
+      }),
+    )
+    .query(async ({ input, ctx }) => {
+      return await ctx.projectService.getInstanceRollbackTargets(input.projectId, input.instanceId)
+    }),
+
+  getInstanceRollbackPreview: authenticatedProcedure
+    .input(
+      z.object({
+        projectId: z.string(),
+        instanceId: instanceIdSchema,
+        operationId: z.string(),
+      }),
+    )
+    .query(async ({ input, ctx }) => {
+      return await ctx.projectService.getInstanceRollbackPreview(
+        input.projectId,
+        input.instanceId,
+        input.operationId,
+      )
+    }),
+
+  rollbackInstance: authenticatedProcedure
+    .input(
+      z.object({
+        projectId: z.string(),
+        instanceId: instanceIdSchema,
+        operationId: z.string(),
+        launchUpdate: z.boolean().default(false),
+      }),
+    )
+    .output(instanceModelSchema)
+    .mutation(async ({ input, ctx }) => {
+      const instance = await ctx.projectService.rollbackInstance(
+        input.projectId,
+        input.instanceId,
+        input.operationId,
+        ctx.userId,
+      )
+
+      if (input.launchUpdate) {
+        await ctx.operationManager.launch({
+          projectId: input.projectId,
+          type: "update",
+          instanceIds: [instance.id],
+          meta: {
+            title: `Rollback of "${instance.name}"`,
+            initiator: { type: "user", userId: ctx.userId },
+          },
+        })
+      }
+
+      return instance
+    }),
+
+  updateHub: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -127,7 +204,7 @@ export const projectRouter = router({
       return await ctx.projectService.updateHub(input.projectId, input.hubId, input.patch)
     }),
 
-  deleteHub: publicProcedure
+  deleteHub: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
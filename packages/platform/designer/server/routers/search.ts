@@ -1,8 +1,8 @@
 import { z } from "zod"
-import { publicProcedure, router } from "../trpc"
+import { authenticatedProcedure, router } from "../trpc"
 
 export const searchRouter = router({
-  searchByIds: publicProcedure
+  searchByIds: authenticatedProcedure
     .input(
       z.object({
         ids: z.array(z.string()).min(1).max(50),
@@ -12,7 +12,7 @@ export const searchRouter = router({
       return await ctx.globalSearchService.searchByIds(input.ids)
     }),
 
-  searchByText: publicProcedure
+  searchByText: authenticatedProcedure
     .input(
       z.object({
         text: z.string(),
@@ -1,5 +1,5 @@
 import { z } from "zod"
-import { publicProcedure, router } from "../trpc"
+import { authenticatedProcedure, router } from "../trpc"
 import {
   apiKeyQuerySchema,
   artifactQuerySchema,
@@ -15,7 +15,7 @@ import {
 } from "@highstate/backend/shared"
 
 export const settingsRouter = router({
-  queryUnlockMethods: publicProcedure
+  queryUnlockMethods: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -26,7 +26,7 @@ export const settingsRouter = router({
       return await ctx.settingsService.queryUnlockMethods(input.projectId, input.query)
     }),
 
-  addUnlockMethod: publicProcedure
+  addUnlockMethod: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -37,7 +37,7 @@ export const settingsRouter = router({
       await ctx.projectUnlockService.addProjectUnlockMethod(input.projectId, input.unlockMethod)
     }),
 
-  removeUnlockMethod: publicProcedure
+  removeUnlockMethod: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -51,7 +51,7 @@ export const settingsRouter = router({
       )
     }),
 
-  queryOperations: publicProcedure
+  queryOperations: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -62,7 +62,7 @@ export const settingsRouter = router({
       return await ctx.settingsService.queryOperations(input.projectId, input.query)
     }),
 
-  queryTerminals: publicProcedure
+  queryTerminals: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -73,7 +73,7 @@ export const settingsRouter = router({
       return await ctx.settingsService.queryTerminals(input.projectId, input.query)
     }),
 
-  queryPages: publicProcedure
+  queryPages: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -84,7 +84,7 @@ export const settingsRouter = router({
       return await ctx.settingsService.queryPages(input.projectId, input.query)
     }),
 
-  querySecrets: publicProcedure
+  querySecrets: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -95,7 +95,7 @@ export const settingsRouter = router({
       return await ctx.settingsService.querySecrets(input.projectId, input.query)
     }),
 
-  queryTriggers: publicProcedure
+  queryTriggers: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -106,7 +106,18 @@ export const settingsRouter = router({
       return await ctx.settingsService.queryTriggers(input.projectId, input.query)
     }),
 
-  queryWorkers: publicProcedure
+  queryInstanceDrifts: authenticatedProcedure
+    .input(
+      z.object({
+        projectId: z.string(),
+        query: collectionQuerySchema,
+      }),
+    )
+    .query(async ({ input, ctx }) => {
+      return await ctx.settingsService.queryInstanceDrifts(input.projectId, input.query)
+    }),
+
+  queryWorkers: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -117,7 +128,7 @@ export const settingsRouter = router({
       return await ctx.settingsService.queryWorkers(input.projectId, input.query)
     }),
 
-  queryWorkerVersions: publicProcedure
+  queryWorkerVersions: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -133,7 +144,7 @@ export const settingsRouter = router({
       )
     }),
 
-  restartWorkerVersion: publicProcedure
+  restartWorkerVersion: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -144,7 +155,7 @@ export const settingsRouter = router({
       await ctx.workerManager.restartWorkerVersion(input.projectId, input.workerVersionId)
     }),
 
-  watchWorkerVersionStatuses: publicProcedure
+  watchWorkerVersionStatuses: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -154,7 +165,7 @@ export const settingsRouter = router({
       return ctx.pubsubManager.subscribe(["worker-version-status", input.projectId], signal)
     }),
 
-  queryArtifacts: publicProcedure
+  queryArtifacts: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -165,7 +176,7 @@ export const settingsRouter = router({
       return await ctx.settingsService.queryArtifacts(input.projectId, input.query)
     }),
 
-  queryServiceAccounts: publicProcedure
+  queryServiceAccounts: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -176,7 +187,7 @@ export const settingsRouter = router({
       return await ctx.settingsService.queryServiceAccounts(input.projectId, input.query)
     }),
 
-  queryApiKeys: publicProcedure
+  queryApiKeys: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -187,7 +198,7 @@ export const settingsRouter = router({
       return await ctx.settingsService.queryApiKeys(input.projectId, input.query)
     }),
 
-  queryEntities: publicProcedure
+  queryEntities: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -198,7 +209,7 @@ export const settingsRouter = router({
       return await ctx.settingsService.queryEntities(input.projectId, input.query)
     }),
 
-  getEntityDetails: publicProcedure
+  getEntityDetails: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -209,7 +220,7 @@ export const settingsRouter = router({
       return await ctx.settingsService.getEntityDetails(input.projectId, input.entityId)
     }),
 
-  getEntitySnapshotDetails: publicProcedure
+  getEntitySnapshotDetails: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -254,7 +265,7 @@ export const settingsRouter = router({
       }
     }),
 
-  queryEntitySnapshotsForEntity: publicProcedure
+  queryEntitySnapshotsForEntity: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -272,7 +283,7 @@ export const settingsRouter = router({
       )
     }),
 
-  queryEntitySnapshotsForInstanceOperation: publicProcedure
+  queryEntitySnapshotsForInstanceOperation: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -290,7 +301,7 @@ export const settingsRouter = router({
       )
     }),
 
-  queryEntityOutgoingReferences: publicProcedure
+  queryEntityOutgoingReferences: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -306,7 +317,7 @@ export const settingsRouter = router({
       )
     }),
 
-  queryEntitySnapshotOutgoingReferences: publicProcedure
+  queryEntitySnapshotOutgoingReferences: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -322,7 +333,7 @@ export const settingsRouter = router({
       )
     }),
 
-  queryEntityIncomingReferences: publicProcedure
+  queryEntityIncomingReferences: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -338,7 +349,7 @@ export const settingsRouter = router({
       )
     }),
 
-  queryEntitySnapshotIncomingReferences: publicProcedure
+  queryEntitySnapshotIncomingReferences: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -354,7 +365,7 @@ export const settingsRouter = router({
       )
     }),
 
-  getTerminalDetails: publicProcedure
+  getTerminalDetails: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -365,7 +376,7 @@ export const settingsRouter = router({
       return await ctx.settingsService.getTerminalDetails(input.projectId, input.terminalId)
     }),
 
-  getServiceAccountDetails: publicProcedure
+  getServiceAccountDetails: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -379,7 +390,64 @@ export const settingsRouter = router({
       )
     }),
 
-  getApiKeyDetails: publicProcedure
+  getServiceAccountGrants: authenticatedProcedure
+    .input(
+      z.object({
+        projectId: z.string(),
+        serviceAccountId: z.string(),
+      }),
+    )
+    .query(async ({ input, ctx }) => {
+      return await ctx.serviceAccountAccessService.getServiceAccountGrants(
+        input.projectId,
+        input.serviceAccountId,
+      )
+    }),
+
+  grantServiceAccountAccess: authenticatedProcedure
+    .input(
+      z.object({
+        projectId: z.string(),
+        serviceAccountId: z.string(),
+        target: z.union([z.object({ stateId: z.string() }), z.object({ secretId: z.string() })]),
+      }),
+    )
+    .mutation(async ({ input, ctx }) => {
+      return await ctx.serviceAccountAccessService.grantAccess(
+        input.projectId,
+        input.serviceAccountId,
+        input.target,
+      )
+    }),
+
+  revokeServiceAccountAccess: authenticatedProcedure
+    .input(
+      z.object({
+        projectId: z.string(),
+        grantId: z.string(),
+      }),
+    )
+    .mutation(async ({ input, ctx }) => {
+      await ctx.serviceAccountAccessService.revokeAccess(input.projectId, input.grantId)
+    }),
+
+  setServiceAccountOperationPermission: authenticatedProcedure
+    .input(
+      z.object({
+        projectId: z.string(),
+        serviceAccountId: z.string(),
+        canRequestOperations: z.boolean(),
+      }),
+    )
+    .mutation(async ({ input, ctx }) => {
+      await ctx.serviceAccountAccessService.setOperationPermission(
+        input.projectId,
+        input.serviceAccountId,
+        input.canRequestOperations,
+      )
+    }),
+
+  getApiKeyDetails: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -390,7 +458,7 @@ export const settingsRouter = router({
       return await ctx.settingsService.getApiKeyDetails(input.projectId, input.apiKeyId)
     }),
 
-  getWorkerDetails: publicProcedure
+  getWorkerDetails: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -401,7 +469,7 @@ export const settingsRouter = router({
       return await ctx.settingsService.getWorkerDetails(input.projectId, input.workerId)
     }),
 
-  getWorkerVersionDetails: publicProcedure
+  getWorkerVersionDetails: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -412,7 +480,7 @@ export const settingsRouter = router({
       return await ctx.settingsService.getWorkerVersionDetails(input.projectId, input.versionId)
     }),
 
-  getPageDetails: publicProcedure
+  getPageDetails: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -423,7 +491,7 @@ export const settingsRouter = router({
       return await ctx.settingsService.getPageDetails(input.projectId, input.pageId)
     }),
 
-  getSecretDetails: publicProcedure
+  getSecretDetails: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -434,7 +502,7 @@ export const settingsRouter = router({
       return await ctx.settingsService.getSecretDetails(input.projectId, input.secretId)
     }),
 
-  getSecretValue: publicProcedure
+  getSecretValue: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -445,7 +513,7 @@ export const settingsRouter = router({
       return await ctx.settingsService.getSecretValue(input.projectId, input.secretId)
     }),
 
-  getArtifactDetails: publicProcedure
+  getArtifactDetails: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -456,7 +524,7 @@ export const settingsRouter = router({
       return await ctx.settingsService.getArtifactDetails(input.projectId, input.artifactId)
     }),
 
-  getOperationDetails: publicProcedure
+  getOperationDetails: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -467,7 +535,7 @@ export const settingsRouter = router({
       return await ctx.settingsService.getOperationDetails(input.projectId, input.operationId)
     }),
 
-  getTriggerDetails: publicProcedure
+  getTriggerDetails: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -478,7 +546,7 @@ export const settingsRouter = router({
       return await ctx.settingsService.getTriggerDetails(input.projectId, input.triggerId)
     }),
 
-  getUnlockMethodDetails: publicProcedure
+  getUnlockMethodDetails: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -489,7 +557,7 @@ export const settingsRouter = router({
       return await ctx.settingsService.getUnlockMethodDetails(input.projectId, input.unlockMethodId)
     }),
 
-  getTerminalSessions: publicProcedure
+  getTerminalSessions: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
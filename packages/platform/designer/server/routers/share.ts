@@ -1,5 +1,24 @@
-import { router } from "../trpc"
+import { createId } from "@paralleldrive/cuid2"
+import { z } from "zod"
+import { authenticatedProcedure, router } from "../trpc"
 
-export const stateRouter = router({
-  shareBlueprint: {},
+/**
+ * The maximum size of the base64-encoded shared content.
+ */
+const maxShareContentLength = 16 * 1024 * 1024
+
+export const shareRouter = router({
+  shareBlueprint: authenticatedProcedure
+    .input(
+      z.object({
+        // the blueprint encrypted by the client, the key never leaves the browser
+        content: z.base64().max(maxShareContentLength),
+      }),
+    )
+    .mutation(async ({ input, ctx }) => {
+      const shareId = createId()
+      await ctx.shareStore.put(shareId, Buffer.from(input.content, "base64"))
+
+      return shareId
+    }),
 })
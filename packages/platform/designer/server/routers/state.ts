@@ -1,9 +1,10 @@
 import { z } from "zod"
-import { publicProcedure, router } from "../trpc"
+import { authenticatedProcedure, router } from "../trpc"
 import { instanceIdSchema } from "@highstate/contract"
+import { stackCheckpointSchema, stackStateModificationSchema } from "@highstate/backend/shared"
 
 export const stateRouter = router({
-  getInstanceStates: publicProcedure
+  getInstanceStates: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -18,7 +19,7 @@ export const stateRouter = router({
       })
     }),
 
-  watchInstanceStates: publicProcedure
+  watchInstanceStates: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -28,7 +29,7 @@ export const stateRouter = router({
       return await ctx.pubsubManager.subscribe(["instance-state", input.projectId], signal)
     }),
 
-  forgetInstanceStates: publicProcedure
+  forgetInstanceStates: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -44,7 +45,63 @@ export const stateRouter = router({
       })
     }),
 
-  getOutputReferencedEntities: publicProcedure
+  getInstanceResources: authenticatedProcedure
+    .input(
+      z.object({
+        projectId: z.string(),
+        instanceId: instanceIdSchema,
+      }),
+    )
+    .query(async ({ input, ctx }) => {
+      return await ctx.stackStateService.getResources(input.projectId, input.instanceId)
+    }),
+
+  exportStackState: authenticatedProcedure
+    .input(
+      z.object({
+        projectId: z.string(),
+        instanceId: instanceIdSchema,
+      }),
+    )
+    .query(async ({ input, ctx }) => {
+      return await ctx.stackStateService.exportState(input.projectId, input.instanceId)
+    }),
+
+  importStackState: authenticatedProcedure
+    .input(
+      z.object({
+        projectId: z.string(),
+        instanceId: instanceIdSchema,
+        checkpoint: stackCheckpointSchema,
+      }),
+    )
+    .mutation(async ({ input, ctx }) => {
+      await ctx.stackStateService.importState(
+        input.projectId,
+        input.instanceId,
+        input.checkpoint,
+        ctx.userId,
+      )
+    }),
+
+  modifyStackState: authenticatedProcedure
+    .input(
+      z.object({
+        projectId: z.string(),
+        instanceId: instanceIdSchema,
+        modification: stackStateModificationSchema,
+      }),
+    )
+    .mutation(async ({ input, ctx }) => {
+      return await ctx.stackStateService.modifyState(
+        input.projectId,
+        input.instanceId,
+        input.modification,
+        ctx.userId,
+      )
+    }),
+
+  getOutputReferencedEntities: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -64,7 +121,7 @@ export const stateRouter = router({
       )
     }),
 
-  getInstanceLocks: publicProcedure
+  getInstanceLocks: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -76,7 +133,7 @@ export const stateRouter = router({
       return await database.instanceLock.findMany()
     }),
 
-  watchInstanceLocks: publicProcedure
+  watchInstanceLocks: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -86,7 +143,7 @@ export const stateRouter = router({
       return ctx.pubsubManager.subscribe(["instance-lock", input.projectId], signal)
     }),
 
-  getInstanceSecrets: publicProcedure
+  getInstanceSecrets: authenticatedProcedure
     .input(
       z.object({
         projectId: z.cuid2(),
@@ -97,7 +154,7 @@ export const stateRouter = router({
       return await ctx.secretService.getInstanceSecretValues(input.projectId, input.stateId)
     }),
 
-  updateInstanceSecrets: publicProcedure
+  updateInstanceSecrets: authenticatedProcedure
     .input(
       z.object({
         projectId: z.cuid2(),
@@ -110,10 +167,11 @@ export const stateRouter = router({
         input.projectId,
         input.stateId,
         input.secretValues,
+        ctx.userId,
       )
     }),
 
-  getPage: publicProcedure
+  getPage: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -130,7 +188,7 @@ export const stateRouter = router({
       return page
     }),
 
-  getInstancePages: publicProcedure
+  getInstancePages: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -153,7 +211,7 @@ export const stateRouter = router({
       )
     }),
 
-  getInstanceTriggers: publicProcedure
+  getInstanceTriggers: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -176,7 +234,7 @@ export const stateRouter = router({
       )
     }),
 
-  unlockProject: publicProcedure
+  unlockProject: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -187,7 +245,7 @@ export const stateRouter = router({
       await ctx.projectUnlockService.unlockProject(input.projectId, input.decryptedIdentity)
     }),
 
-  watchUnlockState: publicProcedure
+  watchUnlockState: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
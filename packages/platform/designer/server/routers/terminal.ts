@@ -1,8 +1,8 @@
 import { z } from "zod"
-import { publicProcedure, router } from "../trpc"
+import { authenticatedProcedure, router } from "../trpc"
 
 export const terminalRouter = router({
-  getOrCreateTerminalSession: publicProcedure
+  getOrCreateTerminalSession: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -20,7 +20,7 @@ export const terminalRouter = router({
       return session
     }),
 
-  getTerminals: publicProcedure
+  getTerminals: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -35,7 +35,7 @@ export const terminalRouter = router({
       })
     }),
 
-  getTerminalSession: publicProcedure
+  getTerminalSession: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -46,7 +46,7 @@ export const terminalRouter = router({
       return await ctx.terminalSessionService.getTerminalSession(input.projectId, input.sessionId)
     }),
 
-  getInstanceTerminalSessions: publicProcedure
+  getInstanceTerminalSessions: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -60,7 +60,7 @@ export const terminalRouter = router({
       )
     }),
 
-  watchSession: publicProcedure
+  watchSession: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -71,7 +71,7 @@ export const terminalRouter = router({
       return ctx.terminalManager.watchSession(input.projectId, input.sessionId, signal)
     }),
 
-  getSessionHistory: publicProcedure
+  getSessionHistory: authenticatedProcedure
     .input(
       z.object({
         projectId: z.string(),
@@ -81,4 +81,25 @@ export const terminalRouter = router({
     .query(async ({ input, ctx }) => {
       return await ctx.terminalSessionService.getSessionHistory(input.projectId, input.sessionId)
     }),
+
+  getSessionRecording: authenticatedProcedure
+    .input(
+      z.object({
+        projectId: z.string(),
+        sessionId: z.string(),
+        screenSize: z
+          .object({
+            cols: z.number().int().positive(),
+            rows: z.number().int().positive(),
+          })
+          .optional(),
+      }),
+    )
+    .query(async ({ input, ctx }) => {
+      return await ctx.terminalSessionService.getSessionRecording(
+        input.projectId,
+        input.sessionId,
+        input.screenSize,
+      )
+    }),
 })
@@ -1,9 +1,15 @@
 import type { Services } from "@highstate/backend"
-import { initTRPC } from "@trpc/server"
+import { AuthenticationError } from "@highstate/backend/shared"
+import { initTRPC, TRPCError } from "@trpc/server"
 import { userInfo } from "node:os"
 import superjson from "superjson"
 
-export type Context = Services
+export type Context = Services & {
+  /**
+   * The session token extracted from the cookie of the request.
+   */
+  sessionToken?: string
+}
 
 const t = initTRPC.context<Context>().create({
   transformer: superjson,
@@ -24,15 +30,36 @@ const t = initTRPC.context<Context>().create({
 export const publicProcedure = t.procedure
 
 export const authenticatedProcedure = publicProcedure.use(async ({ ctx, next }) => {
-  // for now, only the local single user is supported
-  const info = userInfo()
+  if (ctx.authService.authType === "none") {
+    // without authentication, the designer is only used by the local user
+    return next({
+      ctx: {
+        ...ctx,
+        userId: userInfo().username,
+      },
+    })
+  }
 
-  return next({
-    ctx: {
-      ...ctx,
-      userId: info.username,
-    },
-  })
+  if (!ctx.sessionToken) {
+    throw new TRPCError({ code: "UNAUTHORIZED", message: "Not authenticated" })
+  }
+
+  try {
+    const user = await ctx.authService.authenticate(ctx.sessionToken)
+
+    return next({
+      ctx: {
+        ...ctx,
+        userId: user.id,
+      },
+    })
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      throw new TRPCError({ code: "UNAUTHORIZED", message: error.message, cause: error })
+    }
+
+    throw error
+  }
 })
 
 export const router = t.router
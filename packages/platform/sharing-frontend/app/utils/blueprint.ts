@@ -0,0 +1,55 @@
+import {
+  componentModelSchema,
+  entityModelSchema,
+  hubModelSchema,
+  instanceModelSchema,
+  objectMetaSchema,
+  z,
+} from "@highstate/contract"
+import { decode } from "@msgpack/msgpack"
+import { xchacha20poly1305 } from "@noble/ciphers/chacha"
+import { managedNonce } from "@noble/ciphers/webcrypto.js"
+import { Base64 } from "js-base64"
+
+/**
+ * The blueprint shared by the designer.
+ *
+ * Mirrors the blueprint schema of the designer which cannot be imported here
+ * since it depends on the backend.
+ */
+export const sharedBlueprintSchema = z.object({
+  meta: objectMetaSchema.optional(),
+  boundary: z.object({
+    width: z.number(),
+    height: z.number(),
+  }),
+  instances: instanceModelSchema.array(),
+  hubs: hubModelSchema.array(),
+  components: componentModelSchema.array().optional(),
+  entities: entityModelSchema.array().optional(),
+})
+
+export type SharedBlueprint = z.infer<typeof sharedBlueprintSchema>
+
+/**
+ * Downloads the encrypted blueprint from the share store and decrypts it.
+ *
+ * @param storeUrl The URL of the share store passed in the link.
+ * @param shareId The ID of the share.
+ * @param key The base64url-encoded key from the URL fragment.
+ */
+export async function loadSharedBlueprint(
+  storeUrl: string,
+  shareId: string,
+  key: string,
+): Promise<SharedBlueprint> {
+  const response = await fetch(`${storeUrl.replace(/\/$/, "")}/${encodeURIComponent(shareId)}`)
+  if (!response.ok) {
+    throw new Error(`Failed to download blueprint: ${response.status} ${response.statusText}`)
+  }
+
+  const encrypted = new Uint8Array(await response.arrayBuffer())
+  const decrypted = managedNonce(xchacha20poly1305)(Base64.toUint8Array(key)).decrypt(encrypted)
+
+  return sharedBlueprintSchema.parse(decode(decrypted))
+}
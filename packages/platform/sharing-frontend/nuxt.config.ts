@@ -3,4 +3,11 @@ export default defineNuxtConfig({
   compatibilityDate: "2025-07-15",
   devtools: { enabled: true },
   telemetry: false,
+
+  // the decryption key is passed in the URL fragment which is only available in the browser
+  ssr: false,
+
+  devServer: {
+    port: 3001,
+  },
 })
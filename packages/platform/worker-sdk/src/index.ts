@@ -1,16 +1,21 @@
 import { EventEmitter } from "node:events"
 import { createInterface } from "node:readline/promises"
 import { createAuthenticationMiddleware } from "@highstate/api"
+import { InstanceServiceDefinition } from "@highstate/api/instance.v1"
+import { OperationServiceDefinition } from "@highstate/api/operation.v1"
 import { WorkerServiceDefinition } from "@highstate/api/worker.v1"
 import {
   type CommonObjectMeta,
   type ServiceAccountMeta,
+  type UnitPage,
+  type UnitTerminal,
   type WorkerRunOptions,
   workerRunOptionsSchema,
   type z,
 } from "@highstate/contract"
 import {
   type Channel,
+  type Client,
   type ClientFactory,
   type CompatServiceDefinition,
   createChannel,
@@ -24,6 +29,24 @@ export type RegistrationHandler<TParamsSchema extends z.ZodType> = (
 
 export type DeregistrationHandler = (instanceId: string) => Promise<void> | void
 
+export type OperationRequest = {
+  /**
+   * The type of the operation to request.
+   */
+  type: "update" | "refresh"
+
+  /**
+   * The IDs of the instance states to request the operation for.
+   * The worker must be registered for all of them.
+   */
+  stateIds: string[]
+
+  /**
+   * The human-readable reason of the request displayed as the description of the operation.
+   */
+  reason?: string
+}
+
 export type WorkerOptions<TParamsSchema extends z.ZodType = z.ZodType> = {
   workerMeta: CommonObjectMeta
   serviceAccountMeta: ServiceAccountMeta
@@ -34,6 +57,8 @@ export class Worker<TParamsSchema extends z.ZodType> {
   private readonly eventEmitter = new EventEmitter()
   private readonly clientFactory: ClientFactory
   private readonly channel: Channel
+  private readonly instanceClient: Client<typeof InstanceServiceDefinition>
+  private readonly operationClient: Client<typeof OperationServiceDefinition>
 
   private constructor(
     private readonly options: WorkerOptions<TParamsSchema>,
@@ -43,6 +68,8 @@ export class Worker<TParamsSchema extends z.ZodType> {
 
     this.clientFactory = createClientFactory().use(authMiddleware)
     this.channel = createChannel(runOptions.apiUrl)
+    this.instanceClient = this.createClient(InstanceServiceDefinition)
+    this.operationClient = this.createClient(OperationServiceDefinition)
   }
 
   onUnitRegistration(handler: RegistrationHandler<TParamsSchema>) {
@@ -78,6 +105,78 @@ export class Worker<TParamsSchema extends z.ZodType> {
     return this.clientFactory.create(definition, this.channel)
   }
 
+  /**
+   * Creates or updates the page of the instance the worker is registered for.
+   *
+   * The page is replaced by the pages of the unit when the next operation of the instance completes.
+   *
+   * @param stateId The ID of the instance state received in the unit registration.
+   * @param page The page to create or update.
+   */
+  async updatePage(stateId: string, page: UnitPage): Promise<void> {
+    await this.instanceClient.updatePage({ stateId, page })
+  }
+
+  /**
+   * Removes the page of the instance the worker is registered for.
+   *
+   * @param stateId The ID of the instance state received in the unit registration.
+   * @param pageName The name of the page to remove.
+   */
+  async removePage(stateId: string, pageName: string): Promise<void> {
+    await this.instanceClient.removePage({ stateId, pageName })
+  }
+
+  /**
+   * Creates or updates the terminal of the instance the worker is registered for.
+   *
+   * The terminal is replaced by the terminals of the unit when the next operation of the instance completes.
+   *
+   * @param stateId The ID of the instance state received in the unit registration.
+   * @param terminal The terminal to create or update.
+   */
+  async updateTerminal(stateId: string, terminal: UnitTerminal): Promise<void> {
+    await this.instanceClient.updateTerminal({ stateId, terminal })
+  }
+
+  /**
+   * Marks the terminal of the instance the worker is registered for as unavailable.
+   *
+   * @param stateId The ID of the instance state received in the unit registration.
+   * @param terminalName The name of the terminal to remove.
+   */
+  async removeTerminal(stateId: string, terminalName: string): Promise<void> {
+    await this.instanceClient.removeTerminal({ stateId, terminalName })
+  }
+
+  /**
+   * Publishes the entity snapshots of the outputs of the instance the worker is registered for.
+   *
+   * The values must match the types of the unit outputs, as if they were returned by the unit.
+   * The snapshots are attributed to the last operation of the instance.
+   *
+   * @param stateId The ID of the instance state received in the unit registration.
+   * @param outputs The entity values keyed by the output names.
+   */
+  async publishEntitySnapshots(stateId: string, outputs: Record<string, unknown>): Promise<void> {
+    await this.instanceClient.publishEntitySnapshots({ stateId, outputs })
+  }
+
+  /**
+   * Requests the operation for the instances the worker is registered for.
+   *
+   * The service account of the worker must be allowed to request operations in the project settings,
+   * and the number of the requests is rate limited by the backend.
+   *
+   * @param request The operation request.
+   * @returns The ID of the launched operation.
+   */
+  async requestOperation(request: OperationRequest): Promise<string> {
+    const { operationId } = await this.operationClient.requestOperation(request)
+
+    return operationId
+  }
+
   async start(): Promise<void> {
     const workerClient = this.createClient(WorkerServiceDefinition)
 